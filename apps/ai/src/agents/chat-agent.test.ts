@@ -1,5 +1,5 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
-import { runChatAgent } from "./chat-agent";
+import { runChatAgent, streamChatEvents } from "./chat-agent";
 
 const { mockStreamText } = vi.hoisted(() => ({
   mockStreamText: vi.fn(),
@@ -15,6 +15,8 @@ vi.mock("../providers/llm", () => ({
   createModel: () => ({ modelId: "test-model" }),
 }));
 
+const viewer = { token: "session-token" };
+
 describe("runChatAgent", () => {
   beforeEach(() => {
     mockStreamText.mockReset();
@@ -24,7 +26,7 @@ describe("runChatAgent", () => {
     const mockResult = { toTextStreamResponse: vi.fn() };
     mockStreamText.mockReturnValueOnce(mockResult);
 
-    const result = runChatAgent({ message: "Who is Hari?" });
+    const result = runChatAgent({ message: "Who is Hari?" }, viewer);
 
     expect(result).toBe(mockResult);
 
@@ -36,18 +38,23 @@ describe("runChatAgent", () => {
       content: "Who is Hari?",
     });
     expect(callArgs.tools).toBeDefined();
+    // Tools look records up as the asking user
+    expect(callArgs.experimental_context).toEqual({ viewer });
   });
 
   it("should include conversation history in messages", () => {
     mockStreamText.mockReturnValueOnce({ toTextStreamResponse: vi.fn() });
 
-    runChatAgent({
-      message: "Tell me more",
-      history: [
-        { role: "user", content: "Who is Hari?" },
-        { role: "assistant", content: "Hari Prasad is..." },
-      ],
-    });
+    runChatAgent(
+      {
+        message: "Tell me more",
+        history: [
+          { role: "user", content: "Who is Hari?" },
+          { role: "assistant", content: "Hari Prasad is..." },
+        ],
+      },
+      viewer
+    );
 
     const callArgs = mockStreamText.mock.calls[0][0];
     expect(callArgs.messages).toHaveLength(3);
@@ -59,14 +66,17 @@ describe("runChatAgent", () => {
   it("should append user context to system prompt when provided", () => {
     mockStreamText.mockReturnValueOnce({ toTextStreamResponse: vi.fn() });
 
-    runChatAgent({
-      message: "Tell me about this person",
-      context: {
-        currentPersonName: "Lakshmi Devi",
-        currentPersonId: "p-456",
-        currentView: "overview",
+    runChatAgent(
+      {
+        message: "Tell me about this person",
+        context: {
+          currentPersonName: "Lakshmi Devi",
+          currentPersonId: "p-456",
+          currentView: "overview",
+        },
       },
-    });
+      viewer
+    );
 
     const callArgs = mockStreamText.mock.calls[0][0];
     expect(callArgs.system).toContain("Lakshmi Devi");
@@ -77,7 +87,7 @@ describe("runChatAgent", () => {
   it("should not alter system prompt when context is absent", () => {
     mockStreamText.mockReturnValueOnce({ toTextStreamResponse: vi.fn() });
 
-    runChatAgent({ message: "Hello" });
+    runChatAgent({ message: "Hello" }, viewer);
 
     const callArgs = mockStreamText.mock.calls[0][0];
     expect(callArgs.system).not.toContain("## Current Context");
@@ -86,10 +96,99 @@ describe("runChatAgent", () => {
   it("should pass chatTools and step count limit to streamText", () => {
     mockStreamText.mockReturnValueOnce({ toTextStreamResponse: vi.fn() });
 
-    runChatAgent({ message: "Test" });
+    runChatAgent({ message: "Test" }, viewer);
 
     const callArgs = mockStreamText.mock.calls[0][0];
     expect(callArgs.tools).toBeDefined();
     expect(callArgs.stopWhen).toEqual({ type: "step-count", count: 5 });
   });
 });
+
+/**
+ * Stand-in for a streamText result whose full stream yields the given parts
+ */
+function streamResult(parts: Array<unknown>) {
+  return {
+    fullStream: (async function* () {
+      for (const part of parts) yield part;
+    })(),
+  };
+}
+
+/**
+ * Read a chat event stream to its end and parse each line
+ */
+async function readEvents(stream: ReadableStream<Uint8Array>) {
+  const text = await new Response(stream).text();
+  return text
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line));
+}
+
+describe("streamChatEvents", () => {
+  beforeEach(() => {
+    mockStreamText.mockReset();
+  });
+
+  it("should stream text and end with citations from tool results", async () => {
+    mockStreamText.mockReturnValueOnce(
+      streamResult([
+        { type: "tool-call", toolName: "search_people" },
+        {
+          type: "tool-result",
+          output: {
+            results: [{ id: "p-1", firstName: "Hari", lastName: "Prasad" }],
+          },
+        },
+        { type: "text-delta", text: "Hari was " },
+        { type: "text-delta", text: "born in 1850." },
+      ])
+    );
+
+    const events = await readEvents(
+      streamChatEvents({ message: "Hari?" }, viewer)
+    );
+
+    expect(events).toEqual([
+      { type: "text", text: "Hari was " },
+      { type: "text", text: "born in 1850." },
+      {
+        type: "citations",
+        citations: [
+          { type: "person", id: "p-1", label: "Hari Prasad", personId: "p-1" },
+        ],
+      },
+    ]);
+  });
+
+  it("should end with an error event when generation fails", async () => {
+    mockStreamText.mockReturnValueOnce(
+      streamResult([
+        { type: "text-delta", text: "Partial" },
+        { type: "error", error: new Error("Model crashed") },
+      ])
+    );
+
+    const events = await readEvents(
+      streamChatEvents({ message: "Hi" }, viewer)
+    );
+
+    expect(events).toEqual([
+      { type: "text", text: "Partial" },
+      { type: "error", message: "Model crashed" },
+    ]);
+  });
+
+  it("should report non-Error failures as text", async () => {
+    mockStreamText.mockReturnValueOnce(
+      streamResult([{ type: "error", error: "timeout" }])
+    );
+
+    const events = await readEvents(
+      streamChatEvents({ message: "Hi" }, viewer)
+    );
+
+    expect(events).toEqual([{ type: "error", message: "timeout" }]);
+  });
+});
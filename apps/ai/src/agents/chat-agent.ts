@@ -2,7 +2,8 @@
  * Conversational chat agent
  *
  * Handles general family history questions using tool-use loops.
- * Supports streaming responses for real-time chat UX.
+ * Supports streaming responses for real-time chat UX, either as plain
+ * text or as chat events that end with citations to tree records.
  */
 
 import { stepCountIs, streamText } from "ai";
@@ -10,6 +11,9 @@ import { createModel } from "../providers/llm";
 import { chatTools } from "../tools";
 import { CHAT_SYSTEM_PROMPT } from "../prompts/chat-system";
 import { buildMessages, buildUserContext } from "../context/builder";
+import { extractCitations } from "../tools/citations";
+import type { ChatCitation } from "../tools/citations";
+import type { ToolContext, ToolViewer } from "../tools/shared";
 
 export interface ChatRequest {
   message: string;
@@ -21,14 +25,25 @@ export interface ChatRequest {
   };
 }
 
+/**
+ * One line of a chat event stream: text as it is generated, then the
+ * citations of the whole answer, or an error if generation failed
+ */
+export type ChatEvent =
+  | { type: "text"; text: string }
+  | { type: "citations"; citations: Array<ChatCitation> }
+  | { type: "error"; message: string };
+
 /**
  * Run the chat agent with streaming response
  *
  * Returns a StreamTextResult that can be converted to an HTTP response.
  * Uses AI SDK's tool-use loop (stopWhen) to automatically call tools
- * and incorporate results before generating the final response.
+ * and incorporate results before generating the final response. Tools
+ * look records up as the viewer, so the answer only draws on what the
+ * viewer may see.
  */
-export function runChatAgent(request: ChatRequest) {
+export function runChatAgent(request: ChatRequest, viewer: ToolViewer) {
   const model = createModel();
   const contextAddendum = buildUserContext(request.context);
   const systemPrompt = CHAT_SYSTEM_PROMPT + contextAddendum;
@@ -39,6 +54,49 @@ export function runChatAgent(request: ChatRequest) {
     system: systemPrompt,
     messages,
     tools: chatTools,
+    experimental_context: { viewer } satisfies ToolContext,
     stopWhen: stepCountIs(5), // Allow up to 5 tool-use rounds
   });
 }
+
+/**
+ * Run the chat agent as a stream of newline-delimited JSON chat events
+ *
+ * Text arrives as it is generated. Once the answer is complete, the
+ * persons and events the tools returned follow as citations.
+ */
+export function streamChatEvents(
+  request: ChatRequest,
+  viewer: ToolViewer
+): ReadableStream<Uint8Array> {
+  const result = runChatAgent(request, viewer);
+  const encoder = new TextEncoder();
+
+  return new ReadableStream({
+    async start(controller) {
+      const send = (event: ChatEvent) =>
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      const toolResults: Array<unknown> = [];
+
+      try {
+        for await (const part of result.fullStream) {
+          if (part.type === "text-delta") {
+            send({ type: "text", text: part.text });
+          } else if (part.type === "tool-result") {
+            toolResults.push(part.output);
+          } else if (part.type === "error") {
+            throw part.error;
+          }
+        }
+        send({ type: "citations", citations: extractCitations(toolResults) });
+      } catch (error) {
+        send({
+          type: "error",
+          message: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+}
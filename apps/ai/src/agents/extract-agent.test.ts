@@ -0,0 +1,274 @@
+import { createServer } from "node:http";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { startLLMStandIn } from "../providers/llm-stand-in";
+import { MAX_FACTS, parseExtraction, runExtractAgent } from "./extract-agent";
+import type { AddressInfo } from "node:net";
+import type { LLMStandIn } from "../providers/llm-stand-in";
+
+// ============================================
+// parseExtraction — pure function, no mocks
+// ============================================
+
+describe("parseExtraction", () => {
+  const known = new Set(["p-1", "p-2"]);
+
+  it("should parse a JSON reply wrapped in a code fence", () => {
+    const text = `\`\`\`json
+{
+  "title": "Birth certificate of Hari Prasad",
+  "documentType": "Birth Certificate",
+  "transcription": "Hari Prasad, son of Ram Prasad, born 3 March 1850",
+  "facts": [
+    {
+      "kind": "event",
+      "personName": "Hari Prasad",
+      "personId": "p-1",
+      "eventType": "BIRTH",
+      "date": "1850-03-03",
+      "place": null,
+      "confidence": "high",
+      "evidence": "born 3 March 1850"
+    }
+  ]
+}
+\`\`\``;
+
+    const result = parseExtraction(text, known);
+
+    expect(result.title).toBe("Birth certificate of Hari Prasad");
+    expect(result.documentType).toBe("birth certificate");
+    expect(result.transcription).toBe(
+      "Hari Prasad, son of Ram Prasad, born 3 March 1850"
+    );
+    expect(result.facts).toEqual([
+      {
+        kind: "event",
+        personName: "Hari Prasad",
+        personId: "p-1",
+        eventType: "BIRTH",
+        date: "1850-03-03",
+        place: null,
+        confidence: "high",
+        evidence: "born 3 March 1850",
+      },
+    ]);
+  });
+
+  it("should clear person IDs the tools never returned", () => {
+    const text = JSON.stringify({
+      transcription: "Ram Prasad, father of Hari Prasad",
+      facts: [
+        {
+          kind: "relationship",
+          personName: "Ram Prasad",
+          personId: "made-up",
+          relationship: "PARENT",
+          relatedPersonName: "Hari Prasad",
+          relatedPersonId: "p-1",
+        },
+        {
+          kind: "person",
+          personName: "Ram Prasad",
+          personId: "also-made-up",
+          fields: { profession: "Weaver" },
+        },
+      ],
+    });
+
+    const { facts } = parseExtraction(text, known);
+
+    expect(facts[0]).toMatchObject({ personId: null, relatedPersonId: "p-1" });
+    expect(facts[1]).toMatchObject({ personId: null });
+  });
+
+  it("should drop facts that don't match the schema", () => {
+    const text = JSON.stringify({
+      transcription: "A letter",
+      facts: [
+        { kind: "event", personName: "Hari", eventType: "PICNIC" },
+        { kind: "person", personName: "Hari", fields: {} },
+        "not a fact",
+      ],
+    });
+
+    expect(parseExtraction(text, known).facts).toHaveLength(1);
+  });
+
+  it("should keep at most MAX_FACTS facts", () => {
+    const facts = Array.from({ length: MAX_FACTS + 5 }, (_, i) => ({
+      kind: "person",
+      personName: `Person ${i}`,
+      fields: {},
+    }));
+
+    const result = parseExtraction(JSON.stringify({ facts }), known);
+
+    expect(result.facts).toHaveLength(MAX_FACTS);
+  });
+
+  it("should default missing fields", () => {
+    const result = parseExtraction(`{"facts": "none"}`, known);
+
+    expect(result).toEqual({
+      title: "",
+      documentType: "other",
+      transcription: "",
+      facts: [],
+    });
+  });
+
+  it("should keep a reply that isn't JSON as the transcription", () => {
+    const result = parseExtraction(
+      "assistant: Dear Ram,\n\n\n\nAll is well here.",
+      known
+    );
+
+    expect(result).toEqual({
+      title: "",
+      documentType: "other",
+      transcription: "Dear Ram,\n\nAll is well here.",
+      facts: [],
+    });
+  });
+
+  it("should treat malformed JSON as plain text", () => {
+    const result = parseExtraction("Seal { illegible", known);
+
+    expect(result.transcription).toBe("Seal { illegible");
+    expect(result.facts).toEqual([]);
+    expect(parseExtraction("{ not json }", known).transcription).toBe(
+      "{ not json }"
+    );
+  });
+});
+
+// ============================================
+// runExtractAgent — against a local OpenAI-compatible stand-in
+// ============================================
+
+describe("runExtractAgent", () => {
+  let standIn: LLMStandIn | null = null;
+  let app: ReturnType<typeof createServer> | null = null;
+  let appAuthorizations: Array<string | undefined> = [];
+  const viewer = { token: "session-token" };
+
+  // The Vamsa app's person search, which the search_people tool calls
+  const startApp = async () => {
+    appAuthorizations = [];
+    app = createServer((req, res) => {
+      appAuthorizations.push(req.headers.authorization);
+      const query = new URL(req.url ?? "", "http://app").searchParams.get("q");
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          items:
+            query === "Hari Prasad"
+              ? [{ id: "p-1", firstName: "Hari", lastName: "Prasad" }]
+              : [],
+          total: query === "Hari Prasad" ? 1 : 0,
+        })
+      );
+    });
+    await new Promise<void>((resolve) => app!.listen(0, "127.0.0.1", resolve));
+    const { port } = app.address() as AddressInfo;
+    process.env.VAMSA_APP_URL = `http://127.0.0.1:${port}`;
+  };
+
+  beforeEach(async () => {
+    await startApp();
+  });
+
+  afterEach(async () => {
+    await standIn?.close();
+    standIn = null;
+    await new Promise((resolve) => app?.close(resolve));
+    app = null;
+    delete process.env.VAMSA_APP_URL;
+  });
+
+  const reply = {
+    title: "Birth certificate of Hari Prasad",
+    documentType: "birth certificate",
+    transcription: "Hari Prasad, son of Ram Prasad, born 3 March 1850",
+    facts: [
+      {
+        kind: "event",
+        personName: "Hari Prasad",
+        personId: "p-1",
+        eventType: "BIRTH",
+        date: "1850-03-03",
+        confidence: "high",
+        evidence: "born 3 March 1850",
+      },
+      {
+        kind: "relationship",
+        personName: "Ram Prasad",
+        personId: "p-9",
+        relationship: "PARENT",
+        relatedPersonName: "Hari Prasad",
+        relatedPersonId: "p-1",
+        confidence: "high",
+        evidence: "son of Ram Prasad",
+      },
+    ],
+  };
+
+  it("should look people up, then return the checked extraction", async () => {
+    standIn = await startLLMStandIn([
+      {
+        toolCalls: [{ name: "search_people", input: { query: "Hari Prasad" } }],
+      },
+      { text: JSON.stringify(reply) },
+    ]);
+
+    const result = await runExtractAgent(
+      { text: reply.transcription, fileName: "certificate.pdf" },
+      viewer,
+      standIn.config
+    );
+
+    expect(result.toolCallCount).toBe(1);
+    // People are looked up as the user who asked
+    expect(appAuthorizations).toEqual(["Bearer session-token"]);
+    expect(result.title).toBe("Birth certificate of Hari Prasad");
+    expect(result.facts).toHaveLength(2);
+    expect(result.facts[0]).toMatchObject({ personId: "p-1" });
+    // Ram Prasad wasn't found, so the model's ID for him is dropped
+    expect(result.facts[1]).toMatchObject({
+      personId: null,
+      relatedPersonId: "p-1",
+    });
+
+    expect(standIn.requests).toHaveLength(2);
+    const userMessage = JSON.stringify(standIn.requests[0].messages);
+    expect(userMessage).toContain("certificate.pdf");
+    expect(userMessage).toContain("born 3 March 1850");
+  });
+
+  it("should send a document image to the model", async () => {
+    standIn = await startLLMStandIn([{ text: JSON.stringify(reply) }]);
+
+    const result = await runExtractAgent(
+      {
+        image: { data: "aGVsbG8=", mediaType: "image/png" },
+        personId: "p-1",
+        personName: "Hari Prasad",
+      },
+      viewer,
+      standIn.config
+    );
+
+    const userMessage = JSON.stringify(standIn.requests[0].messages);
+    expect(userMessage).toContain("data:image/png;base64,aGVsbG8=");
+    expect(userMessage).toContain("uploaded for Hari Prasad (ID: p-1)");
+    expect(result.toolCallCount).toBe(0);
+    // The person the document was uploaded for is always known
+    expect(result.facts[0]).toMatchObject({ personId: "p-1" });
+  });
+
+  it("should require an image or text", async () => {
+    await expect(
+      runExtractAgent({ fileName: "empty.pdf" }, viewer)
+    ).rejects.toThrow("A document image or text is required");
+  });
+});
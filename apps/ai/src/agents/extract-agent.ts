@@ -0,0 +1,195 @@
+/**
+ * Document extraction agent
+ *
+ * Reads an uploaded document — a certificate, census page or letter,
+ * given as an image or as the text of a PDF — transcribes it and picks
+ * out candidate facts about the people it names. The facts are only
+ * candidates: the main app files them as suggestions for review.
+ */
+
+import { generateText, stepCountIs } from "ai";
+import { createModel } from "../providers/llm";
+import { extractTools } from "../tools";
+import { EXTRACT_SYSTEM_PROMPT } from "../prompts/extract-system";
+import { extractCitations } from "../tools/citations";
+import { extractedFactSchema, sanitizeOutput } from "../validation/response";
+import type { LLMConfig } from "../providers/llm";
+import type { ExtractedFact } from "../validation/response";
+import type { ToolContext, ToolViewer } from "../tools/shared";
+
+export type { ExtractedFact } from "../validation/response";
+
+export interface ExtractRequest {
+  /** Scan or photo of the document, base64 encoded */
+  image?: { data: string; mediaType: string };
+  /** Text of the document, e.g. from a PDF's text layer */
+  text?: string;
+  fileName?: string;
+  /** Person the document was uploaded for, if any */
+  personId?: string;
+  personName?: string;
+}
+
+export interface ExtractResult {
+  title: string;
+  documentType: string;
+  transcription: string;
+  facts: Array<ExtractedFact>;
+  toolCallCount: number;
+}
+
+/** Most facts kept from one document */
+export const MAX_FACTS = 50;
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_TRANSCRIPTION_LENGTH = 50_000;
+
+/**
+ * Transcribe a document and extract candidate facts from it
+ *
+ * Takes an optional LLM config so the agent can be run against any
+ * OpenAI-compatible endpoint, such as a local stand-in in tests.
+ * People are looked up as the viewer.
+ */
+export async function runExtractAgent(
+  request: ExtractRequest,
+  viewer: ToolViewer,
+  config?: LLMConfig
+): Promise<ExtractResult> {
+  if (!request.image && !request.text) {
+    throw new Error("A document image or text is required");
+  }
+
+  const model = createModel(config);
+
+  const intro = [
+    request.fileName
+      ? `Read the document "${request.fileName}".`
+      : "Read this document.",
+    request.personName
+      ? `It was uploaded for ${request.personName}${request.personId ? ` (ID: ${request.personId})` : ""}.`
+      : null,
+    "Transcribe it, look up the people it names and extract the facts it records.",
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  const result = await generateText({
+    model,
+    system: EXTRACT_SYSTEM_PROMPT,
+    messages: [
+      {
+        role: "user",
+        content: [
+          {
+            type: "text",
+            text: request.text
+              ? `${intro}\n\nDocument text:\n${request.text}`
+              : intro,
+          },
+          ...(request.image
+            ? [
+                {
+                  type: "image" as const,
+                  image: request.image.data,
+                  mediaType: request.image.mediaType,
+                },
+              ]
+            : []),
+        ],
+      },
+    ],
+    tools: extractTools,
+    experimental_context: { viewer } satisfies ToolContext,
+    stopWhen: stepCountIs(8), // Documents can name many people to look up
+  });
+
+  // Only IDs the tools really returned may be attached to facts
+  const toolResults = result.steps.flatMap((step) =>
+    (step.toolResults ?? []).map((toolResult) => toolResult.output)
+  );
+  const knownPersonIds = new Set(
+    extractCitations(toolResults, Infinity)
+      .filter((citation) => citation.type === "person")
+      .map((citation) => citation.id)
+  );
+  if (request.personId) knownPersonIds.add(request.personId);
+
+  return {
+    ...parseExtraction(result.text, knownPersonIds),
+    toolCallCount: result.steps.reduce(
+      (sum, step) => sum + (step.toolCalls?.length ?? 0),
+      0
+    ),
+  };
+}
+
+/**
+ * Parse the model's JSON reply into a transcription and facts
+ *
+ * Facts that don't match the schema are dropped, and person IDs the
+ * tree doesn't know are cleared so a made-up ID can never reach a
+ * suggestion. If the reply isn't JSON, it is kept as the transcription.
+ */
+export function parseExtraction(
+  text: string,
+  knownPersonIds: Set<string>
+): Omit<ExtractResult, "toolCallCount"> {
+  const parsed = parseJSONObject(text);
+  if (!parsed) {
+    return {
+      title: "",
+      documentType: "other",
+      transcription: sanitizeOutput(text).slice(0, MAX_TRANSCRIPTION_LENGTH),
+      facts: [],
+    };
+  }
+
+  const knownId = (id: string | null) =>
+    id && knownPersonIds.has(id) ? id : null;
+
+  const facts: Array<ExtractedFact> = [];
+  const rawFacts = Array.isArray(parsed.facts) ? parsed.facts : [];
+  for (const rawFact of rawFacts) {
+    if (facts.length >= MAX_FACTS) break;
+
+    const fact = extractedFactSchema.safeParse(rawFact);
+    if (!fact.success) continue;
+
+    const checked = { ...fact.data, personId: knownId(fact.data.personId) };
+    if (checked.kind === "relationship") {
+      checked.relatedPersonId = knownId(checked.relatedPersonId);
+    }
+    facts.push(checked);
+  }
+
+  return {
+    title: asText(parsed.title).slice(0, MAX_TITLE_LENGTH),
+    documentType: asText(parsed.documentType).toLowerCase() || "other",
+    transcription: sanitizeOutput(asText(parsed.transcription)).slice(
+      0,
+      MAX_TRANSCRIPTION_LENGTH
+    ),
+    facts,
+  };
+}
+
+function asText(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+/**
+ * The outermost JSON object in the text, ignoring code fences or prose
+ * around it, or null if there is none
+ */
+function parseJSONObject(text: string): Record<string, unknown> | null {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) return null;
+
+  try {
+    return JSON.parse(text.slice(start, end + 1)) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+}
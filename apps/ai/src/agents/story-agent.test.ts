@@ -15,6 +15,8 @@ vi.mock("../providers/llm", () => ({
   createModel: () => ({ modelId: "test-model" }),
 }));
 
+const viewer = { token: "session-token" };
+
 describe("runStoryAgent", () => {
   beforeEach(() => {
     mockGenerateText.mockReset();
@@ -29,10 +31,13 @@ describe("runStoryAgent", () => {
       ],
     });
 
-    const result = await runStoryAgent({
-      personId: "p-123",
-      personName: "Hari Prasad",
-    });
+    const result = await runStoryAgent(
+      {
+        personId: "p-123",
+        personName: "Hari Prasad",
+      },
+      viewer
+    );
 
     expect(result.narrative).toBe(
       "Hari Prasad was born in 1945 in a small village."
@@ -44,6 +49,7 @@ describe("runStoryAgent", () => {
     expect(callArgs.prompt).toContain("Hari Prasad");
     expect(callArgs.prompt).toContain("documentary");
     expect(callArgs.prompt).toContain("400 words");
+    expect(callArgs.experimental_context).toEqual({ viewer });
   });
 
   it("should use person ID only when name is not provided", async () => {
@@ -52,7 +58,7 @@ describe("runStoryAgent", () => {
       steps: [],
     });
 
-    await runStoryAgent({ personId: "p-456" });
+    await runStoryAgent({ personId: "p-456" }, viewer);
 
     const callArgs = mockGenerateText.mock.calls[0][0];
     expect(callArgs.prompt).toContain("person with ID p-456");
@@ -65,12 +71,15 @@ describe("runStoryAgent", () => {
       steps: [],
     });
 
-    await runStoryAgent({
-      personId: "p-789",
-      personName: "Lakshmi",
-      style: "formal",
-      maxWords: 200,
-    });
+    await runStoryAgent(
+      {
+        personId: "p-789",
+        personName: "Lakshmi",
+        style: "formal",
+        maxWords: 200,
+      },
+      viewer
+    );
 
     const callArgs = mockGenerateText.mock.calls[0][0];
     expect(callArgs.prompt).toContain("formal");
@@ -83,7 +92,7 @@ describe("runStoryAgent", () => {
       steps: [],
     });
 
-    await runStoryAgent({ personId: "p-1", personName: "Test" });
+    await runStoryAgent({ personId: "p-1", personName: "Test" }, viewer);
 
     const callArgs = mockGenerateText.mock.calls[0][0];
     expect(callArgs.prompt).toContain("documentary");
@@ -96,10 +105,13 @@ describe("runStoryAgent", () => {
       steps: [],
     });
 
-    const result = await runStoryAgent({
-      personId: "p-1",
-      personName: "Test",
-    });
+    const result = await runStoryAgent(
+      {
+        personId: "p-1",
+        personName: "Test",
+      },
+      viewer
+    );
 
     expect(result.narrative).toBe("The biography.\n\nThe end.");
   });
@@ -119,7 +131,7 @@ describe("runStoryAgent", () => {
       ],
     });
 
-    const result = await runStoryAgent({ personId: "p-1" });
+    const result = await runStoryAgent({ personId: "p-1" }, viewer);
 
     expect(result.toolCallCount).toBe(3);
   });
@@ -130,7 +142,7 @@ describe("runStoryAgent", () => {
       steps: [],
     });
 
-    const result = await runStoryAgent({ personId: "p-1" });
+    const result = await runStoryAgent({ personId: "p-1" }, viewer);
 
     expect(result.toolCallCount).toBe(0);
   });
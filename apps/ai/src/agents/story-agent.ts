@@ -10,6 +10,7 @@ import { createModel } from "../providers/llm";
 import { storyTools } from "../tools";
 import { STORY_SYSTEM_PROMPT } from "../prompts/story-system";
 import { sanitizeOutput } from "../validation/response";
+import type { ToolContext, ToolViewer } from "../tools/shared";
 
 export interface StoryRequest {
   personId: string;
@@ -28,10 +29,12 @@ export interface StoryResult {
  * Generate a biographical narrative for a person
  *
  * Uses generateText (non-streaming) because stories are generated
- * as a complete unit, not incrementally.
+ * as a complete unit, not incrementally. Tools look records up as the
+ * viewer, so the story only tells what the viewer may see.
  */
 export async function runStoryAgent(
-  request: StoryRequest
+  request: StoryRequest,
+  viewer: ToolViewer
 ): Promise<StoryResult> {
   const model = createModel();
   const maxWords = request.maxWords ?? 400;
@@ -46,6 +49,7 @@ export async function runStoryAgent(
     system: STORY_SYSTEM_PROMPT,
     prompt: userPrompt,
     tools: storyTools,
+    experimental_context: { viewer } satisfies ToolContext,
     stopWhen: stepCountIs(6), // Gather data across multiple tool calls then generate
   });
 
@@ -231,6 +231,8 @@ vi.mock("../providers/llm", () => ({
   createModel: () => ({ modelId: "test-model" }),
 }));
 
+const viewer = { token: "session-token" };
+
 describe("runSuggestAgent", () => {
   beforeEach(() => {
     mockGenerateText.mockReset();
@@ -242,10 +244,13 @@ describe("runSuggestAgent", () => {
       steps: [{ toolCalls: [{ name: "get_person_details" }] }],
     });
 
-    const result = await runSuggestAgent({
-      personId: "p-123",
-      personName: "Hari Prasad",
-    });
+    const result = await runSuggestAgent(
+      {
+        personId: "p-123",
+        personName: "Hari Prasad",
+      },
+      viewer
+    );
 
     expect(result.personId).toBe("p-123");
     expect(result.suggestions).toHaveLength(1);
@@ -263,7 +268,7 @@ describe("runSuggestAgent", () => {
       steps: [],
     });
 
-    const result = await runSuggestAgent({ personId: "p-456" });
+    const result = await runSuggestAgent({ personId: "p-456" }, viewer);
 
     expect(result.personId).toBe("p-456");
     expect(result.suggestions).toHaveLength(0);
@@ -280,7 +285,7 @@ describe("runSuggestAgent", () => {
       steps: [],
     });
 
-    const result = await runSuggestAgent({ personId: "p-789" });
+    const result = await runSuggestAgent({ personId: "p-789" }, viewer);
 
     expect(result.rawResponse).toBe("Here are suggestions.\n\nNo data.");
   });
@@ -300,7 +305,7 @@ describe("runSuggestAgent", () => {
       ],
     });
 
-    const result = await runSuggestAgent({ personId: "p-1" });
+    const result = await runSuggestAgent({ personId: "p-1" }, viewer);
 
     expect(result.toolCallCount).toBe(3);
   });
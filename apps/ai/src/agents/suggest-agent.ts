@@ -10,6 +10,7 @@ import { createModel } from "../providers/llm";
 import { suggestTools } from "../tools";
 import { SUGGEST_SYSTEM_PROMPT } from "../prompts/suggest-system";
 import { sanitizeOutput } from "../validation/response";
+import type { ToolContext, ToolViewer } from "../tools/shared";
 
 export interface SuggestRequest {
   personId: string;
@@ -32,9 +33,12 @@ export interface SuggestResult {
 
 /**
  * Generate missing data suggestions for a person
+ *
+ * Tools look records up as the viewer.
  */
 export async function runSuggestAgent(
-  request: SuggestRequest
+  request: SuggestRequest,
+  viewer: ToolViewer
 ): Promise<SuggestResult> {
   const model = createModel();
 
@@ -47,6 +51,7 @@ export async function runSuggestAgent(
     system: SUGGEST_SYSTEM_PROMPT,
     prompt: userPrompt,
     tools: suggestTools,
+    experimental_context: { viewer } satisfies ToolContext,
     stopWhen: stepCountIs(5),
   });
 
@@ -3,16 +3,23 @@ import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import app from "./app";
 
 // Mock agents before importing app
-const { mockRunChatAgent, mockRunStoryAgent, mockRunSuggestAgent } = vi.hoisted(
-  () => ({
-    mockRunChatAgent: vi.fn(),
-    mockRunStoryAgent: vi.fn(),
-    mockRunSuggestAgent: vi.fn(),
-  })
-);
+const {
+  mockRunChatAgent,
+  mockStreamChatEvents,
+  mockRunStoryAgent,
+  mockRunSuggestAgent,
+  mockRunExtractAgent,
+} = vi.hoisted(() => ({
+  mockRunChatAgent: vi.fn(),
+  mockStreamChatEvents: vi.fn(),
+  mockRunStoryAgent: vi.fn(),
+  mockRunSuggestAgent: vi.fn(),
+  mockRunExtractAgent: vi.fn(),
+}));
 
 vi.mock("./agents/chat-agent", () => ({
   runChatAgent: mockRunChatAgent,
+  streamChatEvents: mockStreamChatEvents,
 }));
 
 vi.mock("./agents/story-agent", () => ({
@@ -23,6 +30,10 @@ vi.mock("./agents/suggest-agent", () => ({
   runSuggestAgent: mockRunSuggestAgent,
 }));
 
+vi.mock("./agents/extract-agent", () => ({
+  runExtractAgent: mockRunExtractAgent,
+}));
+
 // Mock LLM for health/config endpoints
 const { mockCheckLLMHealth, mockGetLLMConfig } = vi.hoisted(() => ({
   mockCheckLLMHealth: vi.fn(),
@@ -64,6 +75,8 @@ afterEach(() => {
   process.env = { ...originalEnv };
 });
 
+const viewer = { token: "session-token" };
+
 function jsonRequest(
   path: string,
   body: unknown,
@@ -71,7 +84,11 @@ function jsonRequest(
 ) {
   return app.request(path, {
     method: "POST",
-    headers: { "Content-Type": "application/json", ...headers },
+    headers: {
+      "Content-Type": "application/json",
+      "X-Vamsa-Viewer-Token": viewer.token,
+      ...headers,
+    },
     body: JSON.stringify(body),
   });
 }
@@ -131,7 +148,7 @@ describe("GET /v1/config", () => {
     expect(res.status).toBe(200);
     expect(body.provider).toBe("ollama");
     expect(body.model).toBe("qwen2.5:1.5b");
-    expect(body.features).toEqual(["chat", "story", "suggest"]);
+    expect(body.features).toEqual(["chat", "story", "suggest", "extract"]);
     expect(body.tools).toEqual([
       "search_people",
       "get_person_details",
@@ -226,11 +243,25 @@ describe("POST /v1/chat", () => {
 
     expect(res.status).toBe(200);
 
-    expect(mockRunChatAgent).toHaveBeenCalledWith({
-      message: "Who is Hari?",
-      history: [],
-      context: undefined,
+    expect(mockRunChatAgent).toHaveBeenCalledWith(
+      {
+        message: "Who is Hari?",
+        history: [],
+        context: undefined,
+      },
+      viewer
+    );
+  });
+
+  it("should return 401 without the viewer's session token", async () => {
+    const res = await app.request("/v1/chat", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ message: "Who is Hari?" }),
     });
+
+    expect(res.status).toBe(401);
+    expect(mockRunChatAgent).not.toHaveBeenCalled();
   });
 
   it("should pass history and context to chat agent", async () => {
@@ -306,6 +337,69 @@ describe("POST /v1/chat", () => {
   });
 });
 
+// ============================================
+// Chat events endpoint
+// ============================================
+
+describe("POST /v1/chat/events", () => {
+  it("should stream chat events as newline-delimited JSON", async () => {
+    const line = `${JSON.stringify({ type: "text", text: "Hello" })}\n`;
+    mockStreamChatEvents.mockReturnValueOnce(
+      new Response(line).body as ReadableStream<Uint8Array>
+    );
+
+    const res = await jsonRequest("/v1/chat/events", {
+      message: "Who is Hari?",
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("application/x-ndjson");
+    expect(await res.text()).toBe(line);
+    expect(mockStreamChatEvents).toHaveBeenCalledWith(
+      {
+        message: "Who is Hari?",
+        history: [],
+        context: undefined,
+      },
+      viewer
+    );
+  });
+
+  it("should return 400 for an invalid request", async () => {
+    const res = await jsonRequest("/v1/chat/events", { message: "" });
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(400);
+    expect(body.error).toBe("Invalid request");
+    expect(mockStreamChatEvents).not.toHaveBeenCalled();
+  });
+
+  it("should return 500 when the chat agent throws", async () => {
+    mockStreamChatEvents.mockImplementationOnce(() => {
+      throw new Error("Model unavailable");
+    });
+
+    const res = await jsonRequest("/v1/chat/events", { message: "Hello" });
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(500);
+    expect(body.error).toBe("Chat failed");
+    expect(body.message).toBe("Model unavailable");
+  });
+
+  it("should handle non-Error thrown values", async () => {
+    mockStreamChatEvents.mockImplementationOnce(() => {
+      throw "string error";
+    });
+
+    const res = await jsonRequest("/v1/chat/events", { message: "Hi" });
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(500);
+    expect(body.message).toBe("string error");
+  });
+});
+
 // ============================================
 // Story endpoint
 // ============================================
@@ -474,6 +568,98 @@ describe("POST /v1/suggest", () => {
   });
 });
 
+// ============================================
+// Extract endpoint
+// ============================================
+
+describe("POST /v1/extract", () => {
+  const extraction = {
+    title: "Birth certificate of Hari Prasad",
+    documentType: "birth certificate",
+    transcription: "Hari Prasad, born 3 March 1850",
+    facts: [
+      {
+        kind: "event",
+        personName: "Hari Prasad",
+        personId: "p-1",
+        eventType: "BIRTH",
+        date: "1850-03-03",
+        place: null,
+        confidence: "high",
+        evidence: "born 3 March 1850",
+      },
+    ],
+    toolCallCount: 1,
+  };
+
+  it("should return the extraction for a document image", async () => {
+    mockRunExtractAgent.mockResolvedValueOnce(extraction);
+
+    const res = await jsonRequest("/v1/extract", {
+      image: { data: "aGVsbG8=", mediaType: "image/jpeg" },
+      fileName: "certificate.jpg",
+    });
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(200);
+    expect(body.facts).toHaveLength(1);
+    expect(mockRunExtractAgent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        image: { data: "aGVsbG8=", mediaType: "image/jpeg" },
+        fileName: "certificate.jpg",
+      }),
+      viewer
+    );
+  });
+
+  it("should accept document text", async () => {
+    mockRunExtractAgent.mockResolvedValueOnce(extraction);
+
+    const res = await jsonRequest("/v1/extract", {
+      text: "Hari Prasad, born 3 March 1850",
+      personId: "p-1",
+    });
+
+    expect(res.status).toBe(200);
+  });
+
+  it("should return 400 without an image or text", async () => {
+    const res = await jsonRequest("/v1/extract", { fileName: "empty.pdf" });
+
+    expect(res.status).toBe(400);
+    expect(mockRunExtractAgent).not.toHaveBeenCalled();
+  });
+
+  it("should return 400 for an unsupported image type", async () => {
+    const res = await jsonRequest("/v1/extract", {
+      image: { data: "aGVsbG8=", mediaType: "image/tiff" },
+    });
+
+    expect(res.status).toBe(400);
+  });
+
+  it("should return 500 when extract agent throws", async () => {
+    mockRunExtractAgent.mockRejectedValueOnce(new Error("Model unavailable"));
+
+    const res = await jsonRequest("/v1/extract", { text: "A letter" });
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(500);
+    expect(body.error).toBe("Extraction failed");
+    expect(body.message).toBe("Model unavailable");
+  });
+
+  it("should handle non-Error thrown values in extract endpoint", async () => {
+    mockRunExtractAgent.mockRejectedValueOnce("timeout");
+
+    const res = await jsonRequest("/v1/extract", { text: "A letter" });
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(500);
+    expect(body.message).toBe("timeout");
+  });
+});
+
 // ============================================
 // 404 handler
 // ============================================
@@ -490,8 +676,10 @@ describe("404 handler", () => {
       "/healthz",
       "/v1/config",
       "/v1/chat",
+      "/v1/chat/events",
       "/v1/story",
       "/v1/suggest",
+      "/v1/extract",
     ]);
   });
 });
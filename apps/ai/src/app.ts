@@ -8,14 +8,19 @@
 import { Hono } from "hono";
 import { cors } from "hono/cors";
 import { z } from "zod/v4";
-import { runChatAgent } from "./agents/chat-agent";
+import { runChatAgent, streamChatEvents } from "./agents/chat-agent";
 import { runStoryAgent } from "./agents/story-agent";
 import { runSuggestAgent } from "./agents/suggest-agent";
+import { runExtractAgent } from "./agents/extract-agent";
 import { checkLLMHealth, getLLMConfig } from "./providers/llm";
 import { chatTools } from "./tools";
+import { VIEWER_TOKEN_HEADER } from "./tools/shared";
 import type { SuggestRequest } from "./agents/suggest-agent";
 import type { StoryRequest } from "./agents/story-agent";
 import type { ChatRequest } from "./agents/chat-agent";
+import type { ExtractRequest } from "./agents/extract-agent";
+import type { Context } from "hono";
+import type { ToolViewer } from "./tools/shared";
 
 const app = new Hono();
 
@@ -49,6 +54,21 @@ app.use("/v1/*", async (c, next) => {
   return next();
 });
 
+/**
+ * The user a request is answered for, from the session token the Vamsa app
+ * forwards. Tools look records up as this user, so requests without one are
+ * refused rather than answered from data the user may not see.
+ */
+function getViewer(c: Context): ToolViewer | null {
+  const token = c.req.header(VIEWER_TOKEN_HEADER);
+  return token ? { token } : null;
+}
+
+const VIEWER_REQUIRED = {
+  error: "Unauthorized",
+  message: `The ${VIEWER_TOKEN_HEADER} header is required`,
+};
+
 // ============================================
 // Health Check
 // ============================================
@@ -79,7 +99,7 @@ app.get("/v1/config", (c) => {
   return c.json({
     provider: config.provider,
     model: config.model,
-    features: ["chat", "story", "suggest"],
+    features: ["chat", "story", "suggest", "extract"],
     tools: Object.keys(chatTools),
     toolMode: process.env.TOOL_MODE || "direct",
     streaming: true,
@@ -122,9 +142,13 @@ app.post("/v1/chat", async (c) => {
   }
 
   const request: ChatRequest = parsed.data;
+  const viewer = getViewer(c);
+  if (!viewer) {
+    return c.json(VIEWER_REQUIRED, 401);
+  }
 
   try {
-    const result = runChatAgent(request);
+    const result = runChatAgent(request, viewer);
 
     // Return AI SDK's text stream response (SSE format)
     return result.toTextStreamResponse();
@@ -139,6 +163,46 @@ app.post("/v1/chat", async (c) => {
   }
 });
 
+// ============================================
+// Chat Events Endpoint (Streaming, with citations)
+// ============================================
+
+app.post("/v1/chat/events", async (c) => {
+  const body = await c.req.json();
+  const parsed = chatRequestSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return c.json(
+      { error: "Invalid request", details: parsed.error.issues },
+      400
+    );
+  }
+
+  const request: ChatRequest = parsed.data;
+  const viewer = getViewer(c);
+  if (!viewer) {
+    return c.json(VIEWER_REQUIRED, 401);
+  }
+
+  try {
+    // One JSON chat event per line; see ChatEvent
+    return new Response(streamChatEvents(request, viewer), {
+      headers: {
+        "Content-Type": "application/x-ndjson",
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error) {
+    return c.json(
+      {
+        error: "Chat failed",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500
+    );
+  }
+});
+
 // ============================================
 // Story Endpoint (Non-streaming)
 // ============================================
@@ -162,9 +226,13 @@ app.post("/v1/story", async (c) => {
   }
 
   const request: StoryRequest = parsed.data;
+  const viewer = getViewer(c);
+  if (!viewer) {
+    return c.json(VIEWER_REQUIRED, 401);
+  }
 
   try {
-    const result = await runStoryAgent(request);
+    const result = await runStoryAgent(request, viewer);
     return c.json(result);
   } catch (error) {
     return c.json(
@@ -198,9 +266,13 @@ app.post("/v1/suggest", async (c) => {
   }
 
   const request: SuggestRequest = parsed.data;
+  const viewer = getViewer(c);
+  if (!viewer) {
+    return c.json(VIEWER_REQUIRED, 401);
+  }
 
   try {
-    const result = await runSuggestAgent(request);
+    const result = await runSuggestAgent(request, viewer);
     return c.json(result);
   } catch (error) {
     return c.json(
@@ -213,6 +285,61 @@ app.post("/v1/suggest", async (c) => {
   }
 });
 
+// ============================================
+// Extract Endpoint (Non-streaming)
+// ============================================
+
+// A 10 MB image, base64 encoded
+const MAX_IMAGE_DATA_LENGTH = 14_000_000;
+
+export const extractRequestSchema = z
+  .object({
+    image: z
+      .object({
+        data: z.string().min(1).max(MAX_IMAGE_DATA_LENGTH),
+        mediaType: z.enum(["image/jpeg", "image/png", "image/webp"]),
+      })
+      .optional(),
+    text: z.string().min(1).max(100_000).optional(),
+    fileName: z.string().max(255).optional(),
+    personId: z.string().min(1).optional(),
+    personName: z.string().optional(),
+  })
+  .refine((data) => data.image || data.text, {
+    message: "A document image or text is required",
+  });
+
+app.post("/v1/extract", async (c) => {
+  const body = await c.req.json();
+  const parsed = extractRequestSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return c.json(
+      { error: "Invalid request", details: parsed.error.issues },
+      400
+    );
+  }
+
+  const request: ExtractRequest = parsed.data;
+  const viewer = getViewer(c);
+  if (!viewer) {
+    return c.json(VIEWER_REQUIRED, 401);
+  }
+
+  try {
+    const result = await runExtractAgent(request, viewer);
+    return c.json(result);
+  } catch (error) {
+    return c.json(
+      {
+        error: "Extraction failed",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      500
+    );
+  }
+});
+
 // ============================================
 // 404 handler
 // ============================================
@@ -226,8 +353,10 @@ app.notFound((c) => {
         "/healthz",
         "/v1/config",
         "/v1/chat",
+        "/v1/chat/events",
         "/v1/story",
         "/v1/suggest",
+        "/v1/extract",
       ],
     },
     404
@@ -2,6 +2,7 @@ import { describe, expect, it } from "vitest";
 import { CHAT_SYSTEM_PROMPT } from "./chat-system";
 import { STORY_SYSTEM_PROMPT } from "./story-system";
 import { SUGGEST_SYSTEM_PROMPT } from "./suggest-system";
+import { EXTRACT_SYSTEM_PROMPT } from "./extract-system";
 
 describe("system prompts", () => {
   it("should export a non-empty chat system prompt", () => {
@@ -49,4 +50,18 @@ describe("system prompts", () => {
     expect(SUGGEST_SYSTEM_PROMPT).toContain("reasoning");
     expect(SUGGEST_SYSTEM_PROMPT).toContain("confidence");
   });
+
+  it("should export a non-empty extract system prompt", () => {
+    expect(EXTRACT_SYSTEM_PROMPT).toBeDefined();
+    expect(EXTRACT_SYSTEM_PROMPT.length).toBeGreaterThan(100);
+    expect(EXTRACT_SYSTEM_PROMPT).toContain("search_people");
+  });
+
+  it("extract prompt should describe every kind of fact", () => {
+    expect(EXTRACT_SYSTEM_PROMPT).toContain("transcription");
+    expect(EXTRACT_SYSTEM_PROMPT).toContain('"kind": "person"');
+    expect(EXTRACT_SYSTEM_PROMPT).toContain('"kind": "event"');
+    expect(EXTRACT_SYSTEM_PROMPT).toContain('"kind": "relationship"');
+    expect(EXTRACT_SYSTEM_PROMPT).toContain("evidence");
+  });
 });
@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { checkLLMHealth } from "./llm";
+import { startLLMStandIn } from "./llm-stand-in";
+import type { LLMStandIn } from "./llm-stand-in";
+
+describe("startLLMStandIn", () => {
+  let standIn: LLMStandIn | null = null;
+
+  afterEach(async () => {
+    await standIn?.close();
+    standIn = null;
+  });
+
+  const complete = (body: unknown) =>
+    fetch(`${standIn!.config.baseURL}/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    });
+
+  it("should be reachable through the health check", async () => {
+    standIn = await startLLMStandIn([{ text: "Hello" }]);
+
+    expect(standIn.config.provider).toBe("openai-compatible");
+    expect(await checkLLMHealth(standIn.config)).toEqual({ ok: true });
+  });
+
+  it("should reply in script order, then repeat the last reply", async () => {
+    standIn = await startLLMStandIn([
+      { toolCalls: [{ name: "search_people", input: { query: "Hari" } }] },
+      { text: "Done" },
+    ]);
+
+    const first = (await (await complete({ messages: [] })).json()) as any;
+    const second = (await (await complete({ messages: [] })).json()) as any;
+    const third = (await (await complete({ messages: [] })).json()) as any;
+
+    expect(first.choices[0].finish_reason).toBe("tool_calls");
+    expect(first.choices[0].message.tool_calls[0].function).toEqual({
+      name: "search_people",
+      arguments: '{"query":"Hari"}',
+    });
+    expect(second.choices[0].message.content).toBe("Done");
+    expect(third.choices[0].message.content).toBe("Done");
+    expect(standIn.requests).toHaveLength(3);
+  });
+
+  it("should reject invalid JSON and unknown paths", async () => {
+    standIn = await startLLMStandIn([{ text: "Hello" }]);
+
+    expect((await complete("{")).status).toBe(400);
+    expect((await fetch(`${standIn.config.baseURL}/embeddings`)).status).toBe(
+      404
+    );
+    expect(standIn.requests).toHaveLength(0);
+  });
+
+  it("should need at least one reply", async () => {
+    await expect(startLLMStandIn([])).rejects.toThrow(
+      "The stand-in needs at least one reply"
+    );
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Local OpenAI-compatible stand-in for the LLM
+ *
+ * A tiny HTTP server that answers chat completion requests with scripted
+ * replies, so agents can be run end to end — through createModel() and
+ * the real provider — without a model. Each request takes the next
+ * reply; once the script runs out, the last reply repeats.
+ */
+
+import { createServer } from "node:http";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { LLMConfig } from "./llm";
+
+/**
+ * A scripted model reply: text, or tool calls for the agent to run
+ */
+export type StandInReply =
+  | { text: string }
+  | { toolCalls: Array<{ name: string; input: Record<string, unknown> }> };
+
+export interface LLMStandIn {
+  /** Config pointing createModel() at the stand-in */
+  config: LLMConfig;
+  /** Bodies of the chat completion requests received so far */
+  requests: Array<Record<string, unknown>>;
+  close: () => Promise<void>;
+}
+
+const STAND_IN_MODEL = "stand-in";
+
+/**
+ * Start a stand-in on a free local port
+ */
+export async function startLLMStandIn(
+  replies: Array<StandInReply>
+): Promise<LLMStandIn> {
+  if (replies.length === 0) {
+    throw new Error("The stand-in needs at least one reply");
+  }
+
+  const requests: Array<Record<string, unknown>> = [];
+
+  const server = createServer(async (req, res) => {
+    const path = (req.url ?? "").replace(/\?.*$/, "");
+
+    if (req.method === "GET" && path.endsWith("/models")) {
+      return sendJSON(res, 200, {
+        object: "list",
+        data: [{ id: STAND_IN_MODEL, object: "model", owned_by: "vamsa" }],
+      });
+    }
+
+    if (req.method === "POST" && path.endsWith("/chat/completions")) {
+      let body: Record<string, unknown>;
+      try {
+        body = JSON.parse(await readBody(req)) as Record<string, unknown>;
+      } catch {
+        return sendJSON(res, 400, { error: { message: "Invalid JSON" } });
+      }
+
+      requests.push(body);
+      const reply = replies[Math.min(requests.length, replies.length) - 1];
+      return sendJSON(res, 200, toCompletion(reply, requests.length));
+    }
+
+    return sendJSON(res, 404, { error: { message: `No route ${path}` } });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    config: {
+      provider: "openai-compatible",
+      baseURL: `http://127.0.0.1:${port}/v1`,
+      model: STAND_IN_MODEL,
+    },
+    requests,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      ),
+  };
+}
+
+/**
+ * Chat completion response for a scripted reply, as the OpenAI API
+ * returns it for a non-streaming request
+ */
+function toCompletion(reply: StandInReply, index: number) {
+  const message =
+    "text" in reply
+      ? { role: "assistant", content: reply.text }
+      : {
+          role: "assistant",
+          content: null,
+          tool_calls: reply.toolCalls.map((call, i) => ({
+            id: `call_${index}_${i}`,
+            type: "function",
+            function: {
+              name: call.name,
+              arguments: JSON.stringify(call.input),
+            },
+          })),
+        };
+
+  return {
+    id: `chatcmpl-stand-in-${index}`,
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model: STAND_IN_MODEL,
+    choices: [
+      {
+        index: 0,
+        message,
+        finish_reason: "text" in reply ? "stop" : "tool_calls",
+      },
+    ],
+    usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+  };
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Array<Buffer> = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+function sendJSON(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
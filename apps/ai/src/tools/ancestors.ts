@@ -4,7 +4,7 @@
 
 import { tool } from "ai";
 import { z } from "zod/v4";
-import { getVamsaAppURL } from "./shared";
+import { getVamsaAppURL, getViewerHeaders } from "./shared";
 
 export const findAncestorsTool = tool({
   description:
@@ -20,7 +20,12 @@ export const findAncestorsTool = tool({
       .default(5)
       .describe("Maximum number of generations to traverse upward"),
   }),
-  execute: async ({ personId, maxGenerations }) => {
+  execute: async ({ personId, maxGenerations }, { experimental_context }) => {
+    const headers = getViewerHeaders(experimental_context);
+    if (!headers) {
+      return { error: "Ancestor lookup failed: no viewer to look it up for" };
+    }
+
     const baseURL = getVamsaAppURL();
     const params = new URLSearchParams({
       generations: String(maxGenerations),
@@ -29,7 +34,7 @@ export const findAncestorsTool = tool({
     try {
       const response = await fetch(
         `${baseURL}/api/v1/persons/${personId}/ancestors?${params}`,
-        { signal: AbortSignal.timeout(15000) }
+        { headers, signal: AbortSignal.timeout(15000) }
       );
 
       if (!response.ok) {
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { MAX_CITATIONS, extractCitations } from "./citations";
+
+describe("extractCitations", () => {
+  it("should cite persons from search results", () => {
+    const citations = extractCitations([
+      {
+        results: [
+          { id: "p-1", firstName: "Hari", lastName: "Prasad" },
+          { id: "p-2", firstName: "Lakshmi", lastName: null },
+        ],
+        total: 2,
+      },
+    ]);
+
+    expect(citations).toEqual([
+      { type: "person", id: "p-1", label: "Hari Prasad", personId: "p-1" },
+      { type: "person", id: "p-2", label: "Lakshmi", personId: "p-2" },
+    ]);
+  });
+
+  it("should cite events with their type, date and person", () => {
+    const citations = extractCitations([
+      {
+        id: "p-1",
+        firstName: "Hari",
+        lastName: "Prasad",
+        events: [
+          { id: "e-1", personId: "p-1", type: "BIRTH", date: "1850-01-01" },
+          { id: "e-2", personId: "p-1", type: "DEATH", date: null },
+        ],
+      },
+    ]);
+
+    expect(citations).toEqual([
+      { type: "person", id: "p-1", label: "Hari Prasad", personId: "p-1" },
+      { type: "event", id: "e-1", label: "BIRTH 1850-01-01", personId: "p-1" },
+      { type: "event", id: "e-2", label: "DEATH", personId: "p-1" },
+    ]);
+  });
+
+  it("should cite each record once across tool results", () => {
+    const hari = { id: "p-1", firstName: "Hari", lastName: "Prasad" };
+
+    const citations = extractCitations([{ results: [hari] }, hari, [[hari]]]);
+
+    expect(citations).toHaveLength(1);
+  });
+
+  it("should ignore errors and records that are neither persons nor events", () => {
+    const citations = extractCitations([
+      { error: "Search failed: HTTP 500" },
+      { id: "place-1", name: "Pune", placeType: "CITY" },
+      { id: "r-1", type: "PARENT" },
+      { firstName: "No", lastName: "Id" },
+      "text",
+      null,
+    ]);
+
+    expect(citations).toEqual([]);
+  });
+
+  it("should stop at the citation limit", () => {
+    const people = Array.from({ length: MAX_CITATIONS + 5 }, (_, i) => ({
+      id: `p-${i}`,
+      firstName: `Person ${i}`,
+    }));
+
+    expect(extractCitations([{ results: people }])).toHaveLength(MAX_CITATIONS);
+  });
+
+  it("should stop at a given limit", () => {
+    const people = Array.from({ length: 5 }, (_, i) => ({
+      id: `p-${i}`,
+      firstName: `Person ${i}`,
+    }));
+
+    expect(extractCitations([{ results: people }], 3)).toHaveLength(3);
+  });
+
+  it("should not follow records nested too deeply", () => {
+    let nested: unknown = { id: "p-deep", firstName: "Deep" };
+    for (let i = 0; i < 12; i++) nested = { child: nested };
+
+    expect(extractCitations([nested])).toEqual([]);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Citations — tree records an answer drew on
+ *
+ * Collects the persons and events that appear in tool results, so the
+ * chat can show where an answer came from. Only records the tools really
+ * returned are cited; nothing is taken from the model's text.
+ */
+
+export interface ChatCitation {
+  type: "person" | "event";
+  id: string;
+  /** Person's name, or event type and date */
+  label: string;
+  /** Person the record belongs to; the event's person for events */
+  personId: string;
+}
+
+/** Most citations kept for one answer */
+export const MAX_CITATIONS = 20;
+
+// Tool results nest records (ancestors of ancestors, relationship paths),
+// but never this deep
+const MAX_DEPTH = 8;
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Citation for a person or event record, or null for anything else
+ */
+function toCitation(record: Record<string, unknown>): ChatCitation | null {
+  const id = asString(record.id);
+  if (!id) return null;
+
+  const firstName = asString(record.firstName);
+  const lastName = asString(record.lastName);
+  if (firstName || lastName) {
+    return {
+      type: "person",
+      id,
+      label: [firstName, lastName].filter(Boolean).join(" "),
+      personId: id,
+    };
+  }
+
+  // Events carry their type, their person and a (possibly null) date
+  const eventType = asString(record.type);
+  const personId = asString(record.personId);
+  if (eventType && personId && "date" in record) {
+    const date = asString(record.date);
+    return {
+      type: "event",
+      id,
+      label: date ? `${eventType} ${date.slice(0, 10)}` : eventType,
+      personId,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Collect the persons and events found in tool results, in the order
+ * they were returned, without duplicates, keeping at most `limit`
+ */
+export function extractCitations(
+  toolResults: Array<unknown>,
+  limit = MAX_CITATIONS
+): Array<ChatCitation> {
+  const citations: Array<ChatCitation> = [];
+  const seen = new Set<string>();
+
+  const visit = (value: unknown, depth: number) => {
+    if (citations.length >= limit || depth > MAX_DEPTH) return;
+
+    if (Array.isArray(value)) {
+      for (const item of value) visit(item, depth + 1);
+      return;
+    }
+
+    const record = asRecord(value);
+    if (!record) return;
+
+    const citation = toCitation(record);
+    if (citation) {
+      const key = `${citation.type}:${citation.id}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        citations.push(citation);
+      }
+    }
+
+    for (const child of Object.values(record)) visit(child, depth + 1);
+  };
+
+  for (const result of toolResults) visit(result, 0);
+  return citations;
+}
@@ -4,7 +4,7 @@
 
 import { tool } from "ai";
 import { z } from "zod/v4";
-import { getVamsaAppURL } from "./shared";
+import { getVamsaAppURL, getViewerHeaders } from "./shared";
 
 export const findDescendantsTool = tool({
   description:
@@ -22,7 +22,12 @@ export const findDescendantsTool = tool({
       .default(5)
       .describe("Maximum number of generations to traverse downward"),
   }),
-  execute: async ({ personId, maxGenerations }) => {
+  execute: async ({ personId, maxGenerations }, { experimental_context }) => {
+    const headers = getViewerHeaders(experimental_context);
+    if (!headers) {
+      return { error: "Descendant lookup failed: no viewer to look it up for" };
+    }
+
     const baseURL = getVamsaAppURL();
     const params = new URLSearchParams({
       generations: String(maxGenerations),
@@ -31,7 +36,7 @@ export const findDescendantsTool = tool({
     try {
       const response = await fetch(
         `${baseURL}/api/v1/persons/${personId}/descendants?${params}`,
-        { signal: AbortSignal.timeout(15000) }
+        { headers, signal: AbortSignal.timeout(15000) }
       );
 
       if (!response.ok) {
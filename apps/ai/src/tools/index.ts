@@ -56,3 +56,11 @@ export const suggestTools = {
   find_descendants: findDescendantsTool,
   search_people: searchPeopleTool,
 };
+
+/**
+ * Tools available to the document extraction agent, for matching the
+ * people a document names to the tree
+ */
+export const extractTools = {
+  search_people: searchPeopleTool,
+};
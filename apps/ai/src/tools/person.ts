@@ -4,7 +4,7 @@
 
 import { tool } from "ai";
 import { z } from "zod/v4";
-import { getVamsaAppURL } from "./shared";
+import { getVamsaAppURL, getViewerHeaders } from "./shared";
 
 export const getPersonDetailsTool = tool({
   description:
@@ -12,11 +12,17 @@ export const getPersonDetailsTool = tool({
   inputSchema: z.object({
     personId: z.string().describe("The unique ID of the person to look up"),
   }),
-  execute: async ({ personId }) => {
+  execute: async ({ personId }, { experimental_context }) => {
+    const headers = getViewerHeaders(experimental_context);
+    if (!headers) {
+      return { error: "Person lookup failed: no viewer to look it up for" };
+    }
+
     const baseURL = getVamsaAppURL();
 
     try {
       const response = await fetch(`${baseURL}/api/v1/persons/${personId}`, {
+        headers,
         signal: AbortSignal.timeout(10000),
       });
 
@@ -4,7 +4,7 @@
 
 import { tool } from "ai";
 import { z } from "zod/v4";
-import { getVamsaAppURL } from "./shared";
+import { getVamsaAppURL, getViewerHeaders } from "./shared";
 
 export const findRelationshipPathTool = tool({
   description:
@@ -13,13 +13,18 @@ export const findRelationshipPathTool = tool({
     fromPersonId: z.string().describe("The ID of the starting person"),
     toPersonId: z.string().describe("The ID of the target person"),
   }),
-  execute: async ({ fromPersonId, toPersonId }) => {
+  execute: async ({ fromPersonId, toPersonId }, { experimental_context }) => {
+    const headers = getViewerHeaders(experimental_context);
+    if (!headers) {
+      return { error: "Path lookup failed: no viewer to look it up for" };
+    }
+
     const baseURL = getVamsaAppURL();
 
     try {
       const response = await fetch(
         `${baseURL}/api/v1/relationships/path?from=${fromPersonId}&to=${toPersonId}`,
-        { signal: AbortSignal.timeout(15000) }
+        { headers, signal: AbortSignal.timeout(15000) }
       );
 
       if (!response.ok) {
@@ -42,13 +47,20 @@ export const findCommonAncestorTool = tool({
     personId1: z.string().describe("The ID of the first person"),
     personId2: z.string().describe("The ID of the second person"),
   }),
-  execute: async ({ personId1, personId2 }) => {
+  execute: async ({ personId1, personId2 }, { experimental_context }) => {
+    const headers = getViewerHeaders(experimental_context);
+    if (!headers) {
+      return {
+        error: "Common ancestor lookup failed: no viewer to look it up for",
+      };
+    }
+
     const baseURL = getVamsaAppURL();
 
     try {
       const response = await fetch(
         `${baseURL}/api/v1/relationships/common-ancestor?person1=${personId1}&person2=${personId2}`,
-        { signal: AbortSignal.timeout(15000) }
+        { headers, signal: AbortSignal.timeout(15000) }
       );
 
       if (!response.ok) {
@@ -6,7 +6,7 @@
 
 import { tool } from "ai";
 import { z } from "zod/v4";
-import { getVamsaAppURL } from "./shared";
+import { getVamsaAppURL, getViewerHeaders } from "./shared";
 
 export const searchPeopleTool = tool({
   description:
@@ -22,12 +22,18 @@ export const searchPeopleTool = tool({
       .default(10)
       .describe("Maximum number of results to return"),
   }),
-  execute: async ({ query, limit }) => {
+  execute: async ({ query, limit }, { experimental_context }) => {
+    const headers = getViewerHeaders(experimental_context);
+    if (!headers) {
+      return { error: "Search failed: no viewer to look it up for" };
+    }
+
     const baseURL = getVamsaAppURL();
     const params = new URLSearchParams({ q: query, limit: String(limit) });
 
     try {
       const response = await fetch(`${baseURL}/api/v1/persons?${params}`, {
+        headers,
         signal: AbortSignal.timeout(10000),
       });
 
@@ -2,9 +2,42 @@
  * Shared utilities for tool implementations
  */
 
+/**
+ * Header the Vamsa app sends the asking user's session token in
+ */
+export const VIEWER_TOKEN_HEADER = "X-Vamsa-Viewer-Token";
+
+/**
+ * The user an AI request is answered for. Tools look records up with this
+ * user's session, so the Vamsa app applies that user's privacy rules.
+ */
+export interface ToolViewer {
+  token: string;
+}
+
+/**
+ * Context every tool call receives through `experimental_context`
+ */
+export interface ToolContext {
+  viewer: ToolViewer;
+}
+
 /**
  * Get the Vamsa web app URL for HTTP-based tool execution
  */
 export function getVamsaAppURL(): string {
   return process.env.VAMSA_APP_URL || "http://localhost:3000";
 }
+
+/**
+ * Get the headers that make a tool's request as the asking user
+ *
+ * @param context - The `experimental_context` the tool was called with
+ * @returns Authorization headers, or null when no viewer was given
+ */
+export function getViewerHeaders(
+  context: unknown
+): Record<string, string> | null {
+  const token = (context as Partial<ToolContext> | undefined)?.viewer?.token;
+  return token ? { Authorization: `Bearer ${token}` } : null;
+}
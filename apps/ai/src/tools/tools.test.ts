@@ -7,7 +7,7 @@ import {
   findCommonAncestorTool,
   findRelationshipPathTool,
 } from "./relationships";
-import { chatTools, storyTools, suggestTools } from "./index";
+import { chatTools, extractTools, storyTools, suggestTools } from "./index";
 
 beforeEach(() => {
   vi.restoreAllMocks();
@@ -18,6 +18,14 @@ afterEach(() => {
   delete process.env.VAMSA_APP_URL;
 });
 
+// Tools look records up as the user who asked
+const callOptions = {
+  toolCallId: "tc1",
+  messages: [],
+  abortSignal: undefined,
+  experimental_context: { viewer: { token: "session-token" } },
+};
+
 // ============================================
 // Tool set composition
 // ============================================
@@ -51,6 +59,10 @@ describe("tool sets", () => {
       "search_people",
     ]);
   });
+
+  it("should export extractTools with search only", () => {
+    expect(Object.keys(extractTools)).toEqual(["search_people"]);
+  });
 });
 
 // ============================================
@@ -74,7 +86,7 @@ describe("searchPeopleTool", () => {
 
     const result = await searchPeopleTool.execute!(
       { query: "Hari", limit: 10 },
-      { toolCallId: "tc1", messages: [], abortSignal: undefined }
+      callOptions
     );
 
     expect(result).toEqual({
@@ -100,7 +112,7 @@ describe("searchPeopleTool", () => {
 
     const result = await searchPeopleTool.execute!(
       { query: "Test", limit: 5 },
-      { toolCallId: "tc1", messages: [], abortSignal: undefined }
+      callOptions
     );
 
     expect(result).toEqual({ results: [{ id: "p1" }], total: 1 });
@@ -113,7 +125,7 @@ describe("searchPeopleTool", () => {
 
     const result = await searchPeopleTool.execute!(
       { query: "Hari", limit: 10 },
-      { toolCallId: "tc1", messages: [], abortSignal: undefined }
+      callOptions
     );
 
     expect(result).toEqual({ error: "Search failed: HTTP 500" });
@@ -126,7 +138,7 @@ describe("searchPeopleTool", () => {
 
     const result = await searchPeopleTool.execute!(
       { query: "Test", limit: 10 },
-      { toolCallId: "tc1", messages: [], abortSignal: undefined }
+      callOptions
     );
 
     expect(result).toEqual({ error: "Search failed: Connection refused" });
@@ -137,7 +149,7 @@ describe("searchPeopleTool", () => {
 
     const result = await searchPeopleTool.execute!(
       { query: "Test", limit: 10 },
-      { toolCallId: "tc1", messages: [], abortSignal: undefined }
+      callOptions
     );
 
     expect(result).toEqual({ error: "Search failed: timeout string" });
@@ -150,7 +162,7 @@ describe("searchPeopleTool", () => {
 
     const result = await searchPeopleTool.execute!(
       { query: "Nobody", limit: 10 },
-      { toolCallId: "tc1", messages: [], abortSignal: undefined }
+      callOptions
     );
 
     expect(result).toEqual({ results: [], total: 0 });
@@ -163,7 +175,7 @@ describe("searchPeopleTool", () => {
 
     await searchPeopleTool.execute!(
       { query: "Lakshmi", limit: 5 },
-      { toolCallId: "tc1", messages: [], abortSignal: undefined }
+      callOptions
     );
 
     const calledURL = vi.mocked(fetch).mock.calls[0][0] as string;
@@ -191,7 +203,7 @@ describe("getPersonDetailsTool", () => {
 
     const result = await getPersonDetailsTool.execute!(
       { personId: "p-123" },
-      { toolCallId: "tc1", messages: [], abortSignal: undefined }
+      callOptions
     );
 
     expect(result).toEqual(personData);
@@ -208,7 +220,7 @@ describe("getPersonDetailsTool", () => {
 
     const result = await getPersonDetailsTool.execute!(
       { personId: "nonexistent" },
-      { toolCallId: "tc1", messages: [], abortSignal: undefined }
+      callOptions
     );
 
     expect(result).toEqual({ error: "Person lookup failed: HTTP 404" });
@@ -221,7 +233,7 @@ describe("getPersonDetailsTool", () => {
 
     const result = await getPersonDetailsTool.execute!(
       { personId: "p-123" },
-      { toolCallId: "tc1", messages: [], abortSignal: undefined }
+      callOptions
     );
 
     expect(result).toEqual({ error: "Person lookup failed: ECONNREFUSED" });
@@ -232,7 +244,7 @@ describe("getPersonDetailsTool", () => {
 
     const result = await getPersonDetailsTool.execute!(
       { personId: "p-123" },
-      { toolCallId: "tc1", messages: [], abortSignal: undefined }
+      callOptions
     );
 
     expect(result).toEqual({ error: "Person lookup failed: 42" });
@@ -257,7 +269,7 @@ describe("findAncestorsTool", () => {
 
     const result = await findAncestorsTool.execute!(
       { personId: "p-123", maxGenerations: 3 },
-      { toolCallId: "tc1", messages: [], abortSignal: undefined }
+      callOptions
     );
 
     expect(result).toEqual(ancestorData);
@@ -274,7 +286,7 @@ describe("findAncestorsTool", () => {
 
     const result = await findAncestorsTool.execute!(
       { personId: "p-123", maxGenerations: 5 },
-      { toolCallId: "tc1", messages: [], abortSignal: undefined }
+      callOptions
     );
 
     expect(result).toEqual({ error: "Ancestor lookup failed: HTTP 500" });
@@ -285,7 +297,7 @@ describe("findAncestorsTool", () => {
 
     const result = await findAncestorsTool.execute!(
       { personId: "p-123", maxGenerations: 5 },
-      { toolCallId: "tc1", messages: [], abortSignal: undefined }
+      callOptions
     );
 
     expect(result).toEqual({ error: "Ancestor lookup failed: Timeout" });
@@ -296,7 +308,7 @@ describe("findAncestorsTool", () => {
 
     const result = await findAncestorsTool.execute!(
       { personId: "p-123", maxGenerations: 5 },
-      { toolCallId: "tc1", messages: [], abortSignal: undefined }
+      callOptions
     );
 
     expect(result).toEqual({ error: "Ancestor lookup failed: undefined" });
@@ -318,7 +330,7 @@ describe("findDescendantsTool", () => {
 
     const result = await findDescendantsTool.execute!(
       { personId: "p-123", maxGenerations: 2 },
-      { toolCallId: "tc1", messages: [], abortSignal: undefined }
+      callOptions
     );
 
     expect(result).toEqual(descendantData);
@@ -335,7 +347,7 @@ describe("findDescendantsTool", () => {
 
     const result = await findDescendantsTool.execute!(
       { personId: "p-123", maxGenerations: 5 },
-      { toolCallId: "tc1", messages: [], abortSignal: undefined }
+      callOptions
     );
 
     expect(result).toEqual({ error: "Descendant lookup failed: HTTP 403" });
@@ -348,7 +360,7 @@ describe("findDescendantsTool", () => {
 
     const result = await findDescendantsTool.execute!(
       { personId: "p-123", maxGenerations: 5 },
-      { toolCallId: "tc1", messages: [], abortSignal: undefined }
+      callOptions
     );
 
     expect(result).toEqual({
@@ -361,7 +373,7 @@ describe("findDescendantsTool", () => {
 
     const result = await findDescendantsTool.execute!(
       { personId: "p-123", maxGenerations: 5 },
-      { toolCallId: "tc1", messages: [], abortSignal: undefined }
+      callOptions
     );
 
     expect(result).toEqual({ error: "Descendant lookup failed: null" });
@@ -386,7 +398,7 @@ describe("findRelationshipPathTool", () => {
 
     const result = await findRelationshipPathTool.execute!(
       { fromPersonId: "p-1", toPersonId: "p-3" },
-      { toolCallId: "tc1", messages: [], abortSignal: undefined }
+      callOptions
     );
 
     expect(result).toEqual(pathData);
@@ -404,7 +416,7 @@ describe("findRelationshipPathTool", () => {
 
     const result = await findRelationshipPathTool.execute!(
       { fromPersonId: "p-1", toPersonId: "p-2" },
-      { toolCallId: "tc1", messages: [], abortSignal: undefined }
+      callOptions
     );
 
     expect(result).toEqual({ error: "Path lookup failed: HTTP 500" });
@@ -417,7 +429,7 @@ describe("findRelationshipPathTool", () => {
 
     const result = await findRelationshipPathTool.execute!(
       { fromPersonId: "p-1", toPersonId: "p-2" },
-      { toolCallId: "tc1", messages: [], abortSignal: undefined }
+      callOptions
     );
 
     expect(result).toEqual({ error: "Path lookup failed: Request timed out" });
@@ -428,7 +440,7 @@ describe("findRelationshipPathTool", () => {
 
     const result = await findRelationshipPathTool.execute!(
       { fromPersonId: "p-1", toPersonId: "p-2" },
-      { toolCallId: "tc1", messages: [], abortSignal: undefined }
+      callOptions
     );
 
     expect(result).toEqual({ error: "Path lookup failed: false" });
@@ -452,7 +464,7 @@ describe("findCommonAncestorTool", () => {
 
     const result = await findCommonAncestorTool.execute!(
       { personId1: "p-100", personId2: "p-200" },
-      { toolCallId: "tc1", messages: [], abortSignal: undefined }
+      callOptions
     );
 
     expect(result).toEqual(ancestorData);
@@ -470,7 +482,7 @@ describe("findCommonAncestorTool", () => {
 
     const result = await findCommonAncestorTool.execute!(
       { personId1: "p-1", personId2: "p-2" },
-      { toolCallId: "tc1", messages: [], abortSignal: undefined }
+      callOptions
     );
 
     expect(result).toEqual({
@@ -483,7 +495,7 @@ describe("findCommonAncestorTool", () => {
 
     const result = await findCommonAncestorTool.execute!(
       { personId1: "p-1", personId2: "p-2" },
-      { toolCallId: "tc1", messages: [], abortSignal: undefined }
+      callOptions
     );
 
     expect(result).toEqual({
@@ -496,9 +508,66 @@ describe("findCommonAncestorTool", () => {
 
     const result = await findCommonAncestorTool.execute!(
       { personId1: "p-1", personId2: "p-2" },
-      { toolCallId: "tc1", messages: [], abortSignal: undefined }
+      callOptions
     );
 
     expect(result).toEqual({ error: "Common ancestor lookup failed: 0" });
   });
 });
+
+// ============================================
+// Viewer
+// ============================================
+
+describe("viewer", () => {
+  const noViewer = { ...callOptions, experimental_context: undefined };
+  const calls = [
+    () => searchPeopleTool.execute!({ query: "Hari", limit: 10 }, noViewer),
+    () => getPersonDetailsTool.execute!({ personId: "p-1" }, noViewer),
+    () =>
+      findAncestorsTool.execute!(
+        { personId: "p-1", maxGenerations: 3 },
+        noViewer
+      ),
+    () =>
+      findDescendantsTool.execute!(
+        { personId: "p-1", maxGenerations: 3 },
+        noViewer
+      ),
+    () =>
+      findRelationshipPathTool.execute!(
+        { fromPersonId: "p-1", toPersonId: "p-2" },
+        noViewer
+      ),
+    () =>
+      findCommonAncestorTool.execute!(
+        { personId1: "p-1", personId2: "p-2" },
+        noViewer
+      ),
+  ];
+
+  it("should send the viewer's session with each lookup", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValueOnce(
+      new Response(JSON.stringify({ id: "p-1" }), { status: 200 })
+    );
+
+    await getPersonDetailsTool.execute!({ personId: "p-1" }, callOptions);
+
+    expect(fetch).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({
+        headers: { Authorization: "Bearer session-token" },
+      })
+    );
+  });
+
+  it("should refuse every lookup without a viewer", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+    for (const call of calls) {
+      const result = (await call()) as { error: string };
+      expect(result.error).toContain("no viewer");
+    }
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, expect, it } from "vitest";
 import {
+  extractedFactSchema,
   sanitizeOutput,
   storyResponseSchema,
   suggestResponseSchema,
@@ -189,3 +190,120 @@ describe("suggestResponseSchema", () => {
     expect(result.success).toBe(false);
   });
 });
+
+describe("extractedFactSchema", () => {
+  it("should keep only known person fields", () => {
+    const result = extractedFactSchema.parse({
+      kind: "person",
+      personName: "Hari Prasad",
+      personId: "p-1",
+      fields: {
+        firstName: " Hari ",
+        birthPlace: "Varanasi",
+        favouriteColour: "blue",
+        profession: "",
+        dateOfBirth: 1850,
+      },
+      confidence: "high",
+      evidence: "Hari Prasad of Varanasi",
+    });
+
+    expect(result).toEqual({
+      kind: "person",
+      personName: "Hari Prasad",
+      personId: "p-1",
+      fields: { firstName: "Hari", birthPlace: "Varanasi" },
+      confidence: "high",
+      evidence: "Hari Prasad of Varanasi",
+    });
+  });
+
+  it("should normalize gender and drop unknown values", () => {
+    const male = extractedFactSchema.parse({
+      kind: "person",
+      personName: "Hari",
+      fields: { gender: "male" },
+    });
+    const unknown = extractedFactSchema.parse({
+      kind: "person",
+      personName: "Hari",
+      fields: { gender: "M." },
+    });
+
+    expect(male.kind === "person" && male.fields).toEqual({ gender: "MALE" });
+    expect(unknown.kind === "person" && unknown.fields).toEqual({});
+  });
+
+  it("should fall back when confidence, evidence or IDs are malformed", () => {
+    const result = extractedFactSchema.parse({
+      kind: "person",
+      personName: "Hari",
+      personId: 42,
+      fields: "none",
+      confidence: "certain",
+      evidence: null,
+    });
+
+    expect(result).toMatchObject({
+      personId: null,
+      fields: {},
+      confidence: "low",
+      evidence: "",
+    });
+  });
+
+  it("should accept events in any case", () => {
+    const result = extractedFactSchema.parse({
+      kind: "event",
+      personName: "Hari Prasad",
+      personId: "",
+      eventType: " birth",
+      date: "1850-03-03",
+      place: "",
+    });
+
+    expect(result).toMatchObject({
+      eventType: "BIRTH",
+      personId: null,
+      date: "1850-03-03",
+      place: null,
+    });
+  });
+
+  it("should reject unknown event types", () => {
+    const result = extractedFactSchema.safeParse({
+      kind: "event",
+      personName: "Hari",
+      eventType: "GRADUATION",
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it("should validate relationships", () => {
+    const result = extractedFactSchema.parse({
+      kind: "relationship",
+      personName: "Ram Prasad",
+      relationship: "parent",
+      relatedPersonName: "Hari Prasad",
+      relatedPersonId: "p-1",
+      confidence: "medium",
+    });
+
+    expect(result).toMatchObject({
+      relationship: "PARENT",
+      personId: null,
+      relatedPersonId: "p-1",
+    });
+  });
+
+  it("should reject facts without a person name or kind", () => {
+    expect(
+      extractedFactSchema.safeParse({ kind: "person", personName: " " }).success
+    ).toBe(false);
+    expect(
+      extractedFactSchema.safeParse({ kind: "place", personName: "Hari" })
+        .success
+    ).toBe(false);
+  });
+});
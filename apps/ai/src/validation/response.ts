@@ -45,6 +45,117 @@ export const suggestResponseSchema = z.object({
 
 export type SuggestResponse = z.infer<typeof suggestResponseSchema>;
 
+/** Person fields a document can give values for */
+export const PERSON_FACT_FIELDS = [
+  "firstName",
+  "lastName",
+  "maidenName",
+  "gender",
+  "dateOfBirth",
+  "dateOfPassing",
+  "birthPlace",
+  "nativePlace",
+  "profession",
+] as const;
+
+/** Event types a document can record; a subset of the tree's event types */
+export const EXTRACTED_EVENT_TYPES = [
+  "BIRTH",
+  "DEATH",
+  "MARRIAGE",
+  "DIVORCE",
+  "BURIAL",
+  "ADOPTION",
+  "RESIDENCE",
+  "IMMIGRATION",
+  "EMIGRATION",
+  "NATURALIZATION",
+  "CUSTOM",
+] as const;
+
+export const EXTRACTED_RELATIONSHIP_TYPES = [
+  "PARENT",
+  "CHILD",
+  "SPOUSE",
+  "SIBLING",
+] as const;
+
+const factText = z.string().trim().min(1).max(500);
+const optionalFactText = z
+  .string()
+  .trim()
+  .max(500)
+  .nullish()
+  .catch(null)
+  .transform((value) => value || null);
+const factPersonId = z
+  .string()
+  .trim()
+  .nullish()
+  .catch(null)
+  .transform((value) => value || null);
+// Small models vary the case of enum values
+const upperCase = z.string().transform((value) => value.trim().toUpperCase());
+
+const factBase = {
+  personName: factText,
+  personId: factPersonId,
+  confidence: z.enum(["low", "medium", "high"]).catch("low"),
+  evidence: z.string().trim().max(1000).catch(""),
+};
+
+/**
+ * Schema for one fact extracted from a document
+ *
+ * Lenient where a small model is likely to slip (missing evidence, odd
+ * casing, unknown person fields), strict about what a fact is about.
+ */
+export const extractedFactSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("person"),
+    ...factBase,
+    fields: z
+      .record(z.string(), z.unknown())
+      .catch({})
+      .transform((fields) => {
+        const known: Partial<
+          Record<(typeof PERSON_FACT_FIELDS)[number], string>
+        > = {};
+        for (const field of PERSON_FACT_FIELDS) {
+          const value = fields[field];
+          if (typeof value === "string" && value.trim()) {
+            known[field] = value.trim().slice(0, 500);
+          }
+        }
+        if (known.gender) {
+          const gender = known.gender.toUpperCase();
+          if (gender === "MALE" || gender === "FEMALE" || gender === "OTHER") {
+            known.gender = gender;
+          } else {
+            delete known.gender;
+          }
+        }
+        return known;
+      }),
+  }),
+  z.object({
+    kind: z.literal("event"),
+    ...factBase,
+    eventType: upperCase.pipe(z.enum(EXTRACTED_EVENT_TYPES)),
+    date: optionalFactText,
+    place: optionalFactText,
+  }),
+  z.object({
+    kind: z.literal("relationship"),
+    ...factBase,
+    relationship: upperCase.pipe(z.enum(EXTRACTED_RELATIONSHIP_TYPES)),
+    relatedPersonName: factText,
+    relatedPersonId: factPersonId,
+  }),
+]);
+
+export type ExtractedFact = z.infer<typeof extractedFactSchema>;
+
 /**
  * Sanitize model output text
  * Removes potential prompt injection attempts and excessive whitespace
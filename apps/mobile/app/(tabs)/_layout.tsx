@@ -6,9 +6,11 @@ import { Pressable } from "react-native";
 import Colors from "@/constants/Colors";
 import { useColorScheme } from "@/components/useColorScheme";
 import { useClientOnlyValue } from "@/components/useClientOnlyValue";
+import { useUnreadNotificationCount } from "@/src/features/notifications/use-notifications";
 
 export default function TabLayout() {
   const colorScheme = useColorScheme();
+  const unreadCount = useUnreadNotificationCount();
 
   return (
     <Tabs
@@ -67,6 +69,24 @@ export default function TabLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="notifications"
+        options={{
+          title: "Notifications",
+          tabBarBadge: unreadCount > 0 ? unreadCount : undefined,
+          tabBarIcon: ({ color }) => (
+            <SymbolView
+              name={{
+                ios: "bell.fill",
+                android: "notifications",
+                web: "notifications",
+              }}
+              tintColor={color}
+              size={28}
+            />
+          ),
+        }}
+      />
       <Tabs.Screen
         name="two"
         options={{
@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { FlatList, Pressable, Text, View } from "react-native";
+import { useRouter } from "expo-router";
+
+import type {
+  InboxNotification,
+  NotificationType,
+} from "@/src/features/notifications/types";
+import {
+  markAllNotificationsRead,
+  markNotificationRead,
+} from "@/src/features/notifications/api";
+import { NotificationListItem } from "@/src/features/notifications/components/notification-list-item";
+import {
+  NOTIFICATION_TYPE_LABELS,
+  getNotificationRoute,
+} from "@/src/features/notifications/types";
+import { useNotifications } from "@/src/features/notifications/use-notifications";
+
+const TYPE_FILTERS = Object.keys(
+  NOTIFICATION_TYPE_LABELS
+) as Array<NotificationType>;
+
+type FilterChipProps = {
+  label: string;
+  active: boolean;
+  onPress: () => void;
+};
+
+function FilterChip({ label, active, onPress }: FilterChipProps) {
+  return (
+    <Pressable
+      accessibilityRole="button"
+      accessibilityState={{ selected: active }}
+      onPress={onPress}
+      style={{
+        borderWidth: 1,
+        borderRadius: 999,
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderColor: active ? "#059669" : "#d1d5db",
+        backgroundColor: active ? "#ecfdf5" : "#ffffff",
+      }}
+    >
+      <Text style={{ color: active ? "#065f46" : "#374151" }}>{label}</Text>
+    </Pressable>
+  );
+}
+
+export default function NotificationsScreen() {
+  const router = useRouter();
+  const [type, setType] = useState<NotificationType>();
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [actionError, setActionError] = useState<string>();
+  const { notifications, unreadCount, loading, error } = useNotifications({
+    type,
+    unreadOnly,
+  });
+
+  const onOpen = async (notification: InboxNotification) => {
+    setActionError(undefined);
+    const route = getNotificationRoute(notification);
+
+    try {
+      if (notification.readAt === null) {
+        await markNotificationRead(notification.id);
+      }
+    } catch (markError) {
+      setActionError(
+        markError instanceof Error
+          ? markError.message
+          : "Failed to mark notification read."
+      );
+    }
+
+    if (route) {
+      router.push(route);
+    }
+  };
+
+  const onMarkAllRead = async () => {
+    setActionError(undefined);
+
+    try {
+      await markAllNotificationsRead(type);
+    } catch (markError) {
+      setActionError(
+        markError instanceof Error
+          ? markError.message
+          : "Failed to mark notifications read."
+      );
+    }
+  };
+
+  return (
+    <View style={{ flex: 1, backgroundColor: "#f9fafb" }}>
+      <FlatList
+        contentInsetAdjustmentBehavior="automatic"
+        contentContainerStyle={{ padding: 16, gap: 12 }}
+        data={notifications}
+        keyExtractor={(item) => item.id}
+        ListHeaderComponent={
+          <View style={{ gap: 10 }}>
+            <Text
+              selectable
+              style={{
+                fontSize: 28,
+                fontWeight: "700",
+                color: "#111827",
+              }}
+            >
+              Notifications
+            </Text>
+            <View
+              style={{
+                flexDirection: "row",
+                justifyContent: "space-between",
+                alignItems: "center",
+              }}
+            >
+              <Text selectable style={{ color: "#6b7280" }}>
+                {unreadCount} unread
+              </Text>
+              <Pressable
+                accessibilityRole="button"
+                disabled={unreadCount === 0}
+                onPress={onMarkAllRead}
+                style={{ opacity: unreadCount === 0 ? 0.5 : 1 }}
+              >
+                <Text style={{ color: "#059669", fontWeight: "600" }}>
+                  Mark all read
+                </Text>
+              </Pressable>
+            </View>
+            <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 8 }}>
+              <FilterChip
+                label="All"
+                active={!type}
+                onPress={() => setType(undefined)}
+              />
+              {TYPE_FILTERS.map((value) => (
+                <FilterChip
+                  key={value}
+                  label={NOTIFICATION_TYPE_LABELS[value]}
+                  active={type === value}
+                  onPress={() => setType(value)}
+                />
+              ))}
+              <FilterChip
+                label="Unread only"
+                active={unreadOnly}
+                onPress={() => setUnreadOnly((value) => !value)}
+              />
+            </View>
+            {loading ? (
+              <Text selectable style={{ color: "#6b7280" }}>
+                Loading notifications…
+              </Text>
+            ) : null}
+            {error ? (
+              <Text selectable style={{ color: "#b45309" }}>
+                {error}
+              </Text>
+            ) : null}
+            {actionError ? (
+              <Text selectable style={{ color: "#b91c1c" }}>
+                {actionError}
+              </Text>
+            ) : null}
+          </View>
+        }
+        ListEmptyComponent={
+          !loading && !error ? (
+            <Text selectable style={{ color: "#6b7280" }}>
+              No notifications yet.
+            </Text>
+          ) : null
+        }
+        renderItem={({ item }) => (
+          <NotificationListItem notification={item} onPress={onOpen} />
+        )}
+      />
+    </View>
+  );
+}
@@ -0,0 +1,113 @@
+import type { InboxNotification, NotificationType } from "./types";
+import { getApiBaseUrl } from "@/src/lib/api-base-url";
+import { getAuthCookie } from "@/src/features/auth/api";
+
+type InboxListResponse = {
+  items: Array<InboxNotification>;
+  nextCursor: string | null;
+  hasMore: boolean;
+  unreadCount: number;
+};
+
+export type InboxResult = {
+  notifications: Array<InboxNotification>;
+  unreadCount: number;
+};
+
+export type InboxFilters = {
+  type?: NotificationType;
+  unreadOnly?: boolean;
+};
+
+const mutationListeners = new Set<() => void>();
+let mutationVersion = 0;
+
+function emitInboxMutation() {
+  mutationVersion += 1;
+  mutationListeners.forEach((listener) => listener());
+}
+
+export function subscribeInboxMutation(listener: () => void): () => void {
+  mutationListeners.add(listener);
+  return () => mutationListeners.delete(listener);
+}
+
+export function getInboxMutationSnapshot(): number {
+  return mutationVersion;
+}
+
+async function request<T>(
+  path: string,
+  init: { method: "GET" | "POST"; body?: unknown; signal?: AbortSignal }
+): Promise<T> {
+  const cookie = getAuthCookie();
+
+  const response = await fetch(`${getApiBaseUrl()}${path}`, {
+    method: init.method,
+    credentials: "omit",
+    headers: {
+      Accept: "application/json",
+      ...(init.body !== undefined
+        ? { "Content-Type": "application/json" }
+        : {}),
+      ...(cookie ? { Cookie: cookie } : {}),
+    },
+    body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+    signal: init.signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+export async function listNotifications(
+  filters: InboxFilters,
+  signal?: AbortSignal
+): Promise<InboxResult> {
+  const params = new URLSearchParams({ limit: "50" });
+  if (filters.type) {
+    params.set("type", filters.type);
+  }
+  if (filters.unreadOnly) {
+    params.set("unreadOnly", "true");
+  }
+
+  const data = await request<InboxListResponse>(
+    `/notifications?${params.toString()}`,
+    { method: "GET", signal }
+  );
+
+  return {
+    notifications: data.items,
+    unreadCount: data.unreadCount,
+  };
+}
+
+export async function getUnreadCount(signal?: AbortSignal): Promise<number> {
+  const data = await request<InboxListResponse>(
+    "/notifications?limit=1&unreadOnly=true",
+    { method: "GET", signal }
+  );
+  return data.unreadCount;
+}
+
+export async function markNotificationRead(id: string): Promise<void> {
+  await request<InboxNotification>(
+    `/notifications/${encodeURIComponent(id)}/read`,
+    { method: "POST" }
+  );
+  emitInboxMutation();
+}
+
+export async function markAllNotificationsRead(
+  type?: NotificationType
+): Promise<void> {
+  await request<{ updated: number }>("/notifications/read-all", {
+    method: "POST",
+    body: type ? { type } : {},
+  });
+  emitInboxMutation();
+}
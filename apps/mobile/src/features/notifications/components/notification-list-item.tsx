@@ -0,0 +1,59 @@
+import { Pressable, Text, View } from "react-native";
+
+import type { InboxNotification } from "../types";
+
+type NotificationListItemProps = {
+  notification: InboxNotification;
+  onPress: (notification: InboxNotification) => void;
+};
+
+export function NotificationListItem({
+  notification,
+  onPress,
+}: NotificationListItemProps) {
+  const unread = notification.readAt === null;
+
+  return (
+    <Pressable
+      accessibilityRole="button"
+      onPress={() => onPress(notification)}
+      style={{
+        flexDirection: "row",
+        gap: 10,
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: unread ? "#a7f3d0" : "#d1d5db",
+        padding: 16,
+        backgroundColor: unread ? "#ecfdf5" : "#ffffff",
+      }}
+    >
+      <View
+        style={{
+          width: 8,
+          height: 8,
+          marginTop: 7,
+          borderRadius: 4,
+          backgroundColor: unread ? "#059669" : "transparent",
+        }}
+      />
+      <View style={{ flex: 1, gap: 4 }}>
+        <Text
+          selectable
+          style={{
+            fontSize: 16,
+            fontWeight: unread ? "700" : "500",
+            color: "#111827",
+          }}
+        >
+          {notification.title}
+        </Text>
+        <Text selectable style={{ color: "#374151" }}>
+          {notification.body}
+        </Text>
+        <Text selectable style={{ color: "#6b7280", fontSize: 12 }}>
+          {new Date(notification.createdAt).toLocaleString()}
+        </Text>
+      </View>
+    </Pressable>
+  );
+}
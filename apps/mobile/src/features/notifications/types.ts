@@ -0,0 +1,35 @@
+export type NotificationType =
+  | "birthday_reminder"
+  | "anniversary_reminder"
+  | "new_member"
+  | "suggestion_created"
+  | "suggestion_reviewed";
+
+export type InboxNotification = {
+  id: string;
+  type: string;
+  title: string;
+  body: string;
+  data: Record<string, string>;
+  readAt: string | null;
+  createdAt: string;
+};
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  suggestion_created: "Suggestions",
+  suggestion_reviewed: "Reviews",
+  new_member: "Members",
+  birthday_reminder: "Birthdays",
+  anniversary_reminder: "Anniversaries",
+};
+
+/**
+ * App route a notification opens: the affected person, if any. Suggestions
+ * are reviewed on the web, so they have no screen here.
+ */
+export const getNotificationRoute = (
+  notification: InboxNotification
+): string | undefined => {
+  const personId = notification.data.personId;
+  return personId ? `/person/${personId}` : undefined;
+};
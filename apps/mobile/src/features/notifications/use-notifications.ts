@@ -0,0 +1,108 @@
+import { useEffect, useState, useSyncExternalStore } from "react";
+
+import {
+  getInboxMutationSnapshot,
+  getUnreadCount,
+  listNotifications,
+  subscribeInboxMutation,
+} from "./api";
+import type { InboxFilters } from "./api";
+import type { InboxNotification } from "./types";
+import { useAuthState } from "@/src/features/auth/use-auth-state";
+
+type UseNotificationsState = {
+  notifications: Array<InboxNotification>;
+  unreadCount: number;
+  loading: boolean;
+  error?: string;
+};
+
+export function useNotifications(filters: InboxFilters) {
+  const { cookie } = useAuthState();
+  const mutationVersion = useSyncExternalStore(
+    subscribeInboxMutation,
+    getInboxMutationSnapshot,
+    getInboxMutationSnapshot
+  );
+  const [state, setState] = useState<UseNotificationsState>({
+    notifications: [],
+    unreadCount: 0,
+    loading: true,
+  });
+
+  const refresh = async (signal?: AbortSignal) => {
+    setState((previous) => ({ ...previous, loading: true }));
+
+    try {
+      const result = await listNotifications(filters, signal);
+      setState({
+        notifications: result.notifications,
+        unreadCount: result.unreadCount,
+        loading: false,
+      });
+    } catch (error) {
+      if (signal?.aborted) {
+        return;
+      }
+
+      setState({
+        notifications: [],
+        unreadCount: 0,
+        loading: false,
+        error:
+          error instanceof Error && error.message.includes("HTTP 401")
+            ? "Sign in from Settings to see your notifications."
+            : error instanceof Error
+              ? `Failed to load notifications (${error.message})`
+              : "Failed to load notifications",
+      });
+    }
+  };
+
+  useEffect(() => {
+    const controller = new AbortController();
+    void refresh(controller.signal);
+
+    return () => controller.abort();
+  }, [cookie, mutationVersion, filters.type, filters.unreadOnly]);
+
+  return {
+    ...state,
+    refresh,
+  };
+}
+
+// How often the tab badge is refreshed
+const UNREAD_POLL_INTERVAL_MS = 60_000;
+
+export function useUnreadNotificationCount(): number {
+  const { cookie } = useAuthState();
+  const mutationVersion = useSyncExternalStore(
+    subscribeInboxMutation,
+    getInboxMutationSnapshot,
+    getInboxMutationSnapshot
+  );
+  const [count, setCount] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const load = () =>
+      getUnreadCount(controller.signal)
+        .then(setCount)
+        .catch(() => {
+          if (!controller.signal.aborted) {
+            setCount(0);
+          }
+        });
+
+    void load();
+    const interval = setInterval(load, UNREAD_POLL_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      controller.abort();
+    };
+  }, [cookie, mutationVersion]);
+
+  return count;
+}
@@ -902,7 +902,7 @@ test.describe("Feature: Backup & Export", () => {
       await expect(importHeading).toBeVisible({ timeout: 5000 });
 
       // Upload the file
-      const fileInput = page.locator('input[type="file"][accept=".ged"]');
+      const fileInput = page.locator('input[type="file"][accept*=".ged"]');
       await expect(fileInput).toBeAttached({ timeout: 5000 });
       await fileInput.setInputFiles(filePath);
 
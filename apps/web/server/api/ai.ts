@@ -0,0 +1,188 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
+import { aiChatRequestSchema, errorResponseSchema } from "@vamsa/schemas";
+import { getAIClient, isAIEnabled } from "@vamsa/lib/ai";
+import {
+  saveAIChatReplyData,
+  startAIChatTurnData,
+} from "@vamsa/lib/server/business";
+import { loggers } from "@vamsa/lib/logger";
+import { getApiSessionToken } from "../middleware/require-api-auth";
+import type { AIChatCitation } from "@vamsa/schemas";
+import type { ChatEvent } from "@vamsa/lib/ai";
+import type { AIChatStreamEvent } from "@vamsa/lib/server/business";
+
+const log = loggers.api;
+
+const aiRouter = new OpenAPIHono();
+
+/**
+ * POST /api/v1/ai/chat
+ * Ask the AI assistant a question and stream the answer
+ */
+const chatRoute = createRoute({
+  method: "post",
+  path: "/chat",
+  tags: ["AI"],
+  summary: "Ask the AI assistant",
+  description:
+    'Send a question to the AI assistant. The answer streams back as newline-delimited JSON events: "conversation" with the conversation the question was saved in, "text" as the answer is written, then "citations" with the persons and events the answer drew on, or "error". The question and answer are saved unless an administrator has turned AI history off.',
+  operationId: "aiChat",
+  request: {
+    body: {
+      required: true,
+      content: {
+        "application/json": {
+          schema: aiChatRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    // Declared through its header: typed responses take x-ndjson content
+    // for JSON, which a stream can never match
+    200: {
+      description: "Answer stream, one JSON event per line",
+      headers: z.object({
+        "Content-Type": z.string().openapi({
+          example: "application/x-ndjson",
+        }),
+      }),
+    },
+    401: {
+      description: "No session to look records up with",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Conversation not found",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    502: {
+      description: "The AI service failed",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    503: {
+      description: "AI features are disabled",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+aiRouter.openapi(chatRoute, async (c) => {
+  const { message, conversationId, history, context } = c.req.valid("json");
+  const user = c.get("user");
+
+  const client = isAIEnabled() ? getAIClient() : null;
+  if (!client) {
+    return c.json({ error: "AI features are disabled" }, { status: 503 });
+  }
+
+  // The assistant looks records up as the user who asked
+  const viewerToken = getApiSessionToken(c);
+  if (!viewerToken) {
+    return c.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  let turn;
+  try {
+    turn = await startAIChatTurnData(user.id, message, conversationId);
+  } catch (error) {
+    if (error instanceof Error && error.message === "Conversation not found") {
+      return c.json({ error: error.message }, { status: 404 });
+    }
+    log.withErr(error).msg("Error saving AI chat question");
+    return c.json({ error: "Chat failed" }, { status: 500 });
+  }
+
+  let events: ReadableStream<ChatEvent>;
+  try {
+    events = await client.chatEvents(
+      {
+        message,
+        // Saved history replaces whatever the client sent
+        history: turn.conversation ? turn.history : (history ?? []),
+        context,
+      },
+      viewerToken
+    );
+  } catch (error) {
+    log.withErr(error).msg("Error starting AI chat");
+    return c.json(
+      {
+        error: "Chat failed",
+        details: error instanceof Error ? error.message : undefined,
+      },
+      { status: 502 }
+    );
+  }
+
+  const conversation = turn.conversation;
+  const encoder = new TextEncoder();
+
+  // Pass the events on, saving the answer once it is complete
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: AIChatStreamEvent) =>
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      const reader = events.getReader();
+      let answer = "";
+      let citations: Array<AIChatCitation> = [];
+      let failed = false;
+
+      try {
+        if (conversation) {
+          send({ type: "conversation", conversation });
+        }
+
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          if (value.type === "text") answer += value.text;
+          if (value.type === "citations") citations = value.citations;
+          if (value.type === "error") failed = true;
+          send(value);
+        }
+
+        if (conversation && answer && !failed) {
+          await saveAIChatReplyData(conversation.id, answer, citations);
+        }
+      } catch (error) {
+        log.withErr(error).msg("Error streaming AI chat");
+        send({ type: "error", message: "Chat failed" });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return c.body(stream, 200, {
+    "Content-Type": "application/x-ndjson",
+    "Cache-Control": "no-store",
+  });
+});
+
+export default aiRouter;
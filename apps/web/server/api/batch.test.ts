@@ -9,6 +9,7 @@
  * - Transaction mode (all-or-nothing)
  * - Non-transaction mode (partial success)
  * - Rate limiting
+ * - Refusing edits that require approval
  * - Validation and error handling
  */
 
@@ -22,6 +23,7 @@ const {
   mockCreateRelationship,
   mockUpdateRelationship,
   mockDeleteRelationship,
+  mockRequiresEditApproval,
   mockTransaction,
   mockBetterAuthGetSessionWithUser,
 } = vi.hoisted(() => ({
@@ -31,6 +33,7 @@ const {
   mockCreateRelationship: vi.fn(async () => ({ id: "rel_001" })),
   mockUpdateRelationship: vi.fn(async () => ({ id: "rel_001" })),
   mockDeleteRelationship: vi.fn(async () => undefined),
+  mockRequiresEditApproval: vi.fn(async () => false),
   mockTransaction: vi.fn(async (callback) => callback(null)),
   mockBetterAuthGetSessionWithUser: vi.fn(async () => ({
     id: "test-user-123",
@@ -51,6 +54,7 @@ vi.mock("@vamsa/lib/server/business", () => ({
   createRelationshipData: mockCreateRelationship,
   updateRelationshipData: mockUpdateRelationship,
   deleteRelationshipData: mockDeleteRelationship,
+  requiresEditApprovalData: mockRequiresEditApproval,
 }));
 
 vi.mock("@vamsa/lib/server/business/auth-better-api", () => ({
@@ -81,6 +85,7 @@ describe("Batch Operations API Routes", () => {
     mockCreateRelationship.mockClear();
     mockUpdateRelationship.mockClear();
     mockDeleteRelationship.mockClear();
+    mockRequiresEditApproval.mockClear();
     mockTransaction.mockClear();
     mockBetterAuthGetSessionWithUser.mockClear();
 
@@ -90,6 +95,7 @@ describe("Batch Operations API Routes", () => {
     mockCreateRelationship.mockImplementation(async () => ({ id: "rel_001" }));
     mockUpdateRelationship.mockImplementation(async () => ({ id: "rel_001" }));
     mockDeleteRelationship.mockImplementation(async () => undefined);
+    mockRequiresEditApproval.mockImplementation(async () => false);
     mockTransaction.mockImplementation(async (callback: any) => {
       return callback(null);
     });
@@ -336,6 +342,36 @@ describe("Batch Operations API Routes", () => {
       expect(data.results[0].id).toBe("rel_001");
     });
 
+    it("should refuse relationship changes when edits require approval", async () => {
+      mockRequiresEditApproval.mockImplementation(async () => true);
+
+      const res = await testRouter.request("/", {
+        method: "POST",
+        body: JSON.stringify({
+          operations: [
+            {
+              type: "create",
+              entity: "relationship",
+              data: {
+                personId: "person_001",
+                relatedPersonId: "person_002",
+                type: "PARENT",
+              },
+            },
+          ],
+          transaction: true,
+        }),
+        headers: {
+          "Content-Type": "application/json",
+        },
+      });
+
+      expect(res.status).toBe(403);
+      const data = await res.json();
+      expect(data.error).toBe("Edits require approval");
+      expect(mockCreateRelationship).not.toHaveBeenCalled();
+    });
+
     it("should handle mixed operations", async () => {
       const res = await testRouter.request("/", {
         method: "POST",
@@ -12,6 +12,7 @@
  * - Per-operation validation with entity-specific schemas
  * - Audit logging of all batch operations
  * - Rate limiting (100 requests per minute)
+ * - Edits that require approval are refused, to be submitted individually
  * - Comprehensive error handling
  */
 
@@ -20,8 +21,10 @@ import {
   errorResponseSchema,
   personCreateSchema,
   relationshipCreateSchema,
+  relationshipUpdateSchema,
 } from "@vamsa/schemas";
 import {
+  requiresEditApprovalData,
   createPersonData as serverCreatePerson,
   createRelationshipData as serverCreateRelationship,
   deletePersonData as serverDeletePerson,
@@ -31,6 +34,7 @@ import {
 } from "@vamsa/lib/server/business";
 import { loggers } from "@vamsa/lib/logger";
 import { db } from "../db";
+import type { UserRole } from "@vamsa/schemas";
 
 const log = loggers.api;
 
@@ -76,7 +80,7 @@ const updateRelationshipOperationSchema = z.object({
   type: z.literal("update"),
   entity: z.literal("relationship"),
   id: z.string().min(1, "Relationship ID is required"),
-  data: relationshipCreateSchema.partial(),
+  data: relationshipUpdateSchema,
 });
 
 const deleteRelationshipOperationSchema = z.object({
@@ -259,6 +263,15 @@ const batchRoute = createRoute({
         },
       },
     },
+    403: {
+      description:
+        "Batch contains edits that require approval, which must be submitted individually",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
     429: {
       description: "Rate limit exceeded (100 requests per minute)",
       content: {
@@ -319,6 +332,26 @@ batchRouter.openapi(batchRoute, async (c) => {
     const user = c.get("user");
     const userId = user.id;
 
+    // Edits held for review can't be part of an all-or-nothing batch, so
+    // members have to send them through the single-record endpoints
+    if (
+      operations.some(
+        (op) =>
+          op.entity === "relationship" ||
+          (op.entity === "person" && op.type === "update")
+      ) &&
+      (await requiresEditApprovalData(user.role as UserRole))
+    ) {
+      return c.json(
+        {
+          error: "Edits require approval",
+          details:
+            "Submit person updates and relationship changes individually so they can be reviewed",
+        },
+        { status: 403 }
+      );
+    }
+
     if (transaction) {
       // Transactional mode: all-or-nothing
       try {
@@ -354,7 +387,10 @@ batchRouter.openapi(batchRoute, async (c) => {
                   success: true,
                 });
               } else if (op.type === "create" && op.entity === "relationship") {
-                operationResult = await serverCreateRelationship(op.data);
+                operationResult = await serverCreateRelationship(
+                  op.data,
+                  userId
+                );
                 results.push({
                   index: i,
                   success: true,
@@ -363,7 +399,8 @@ batchRouter.openapi(batchRoute, async (c) => {
               } else if (op.type === "update" && op.entity === "relationship") {
                 operationResult = await serverUpdateRelationship(
                   op.id,
-                  op.data
+                  op.data,
+                  userId
                 );
                 results.push({
                   index: i,
@@ -371,7 +408,7 @@ batchRouter.openapi(batchRoute, async (c) => {
                   id: op.id,
                 });
               } else if (op.type === "delete" && op.entity === "relationship") {
-                await serverDeleteRelationship(op.id);
+                await serverDeleteRelationship(op.id, userId);
                 results.push({
                   index: i,
                   success: true,
@@ -469,21 +506,25 @@ batchRouter.openapi(batchRoute, async (c) => {
               success: true,
             });
           } else if (op.type === "create" && op.entity === "relationship") {
-            operationResult = await serverCreateRelationship(op.data);
+            operationResult = await serverCreateRelationship(op.data, userId);
             results.push({
               index: i,
               success: true,
               id: operationResult?.id,
             });
           } else if (op.type === "update" && op.entity === "relationship") {
-            operationResult = await serverUpdateRelationship(op.id, op.data);
+            operationResult = await serverUpdateRelationship(
+              op.id,
+              op.data,
+              userId
+            );
             results.push({
               index: i,
               success: true,
               id: op.id,
             });
           } else if (op.type === "delete" && op.entity === "relationship") {
-            await serverDeleteRelationship(op.id);
+            await serverDeleteRelationship(op.id, userId);
             results.push({
               index: i,
               success: true,
@@ -0,0 +1,160 @@
+/* eslint-disable import/first */
+/**
+ * Unit tests for Charts API endpoints
+ *
+ * Tests verify:
+ * - Export requires a VIEWER session and passes the viewer for privacy
+ * - Query parameters are turned into export options
+ * - Files are returned with download headers
+ * - Invalid requests and business errors map to 400/404/500 responses
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PdfUnprintableTextError } from "@vamsa/lib/server";
+
+const { mockExportChartData, mockBetterAuthGetSessionWithUser } = vi.hoisted(
+  () => ({
+    mockExportChartData: vi.fn(),
+    mockBetterAuthGetSessionWithUser: vi.fn(),
+  })
+);
+
+vi.mock("@vamsa/lib/server/business", () => ({
+  exportChartData: mockExportChartData,
+}));
+
+vi.mock("@vamsa/lib/server/business/auth-better-api", () => ({
+  betterAuthGetSessionWithUser: mockBetterAuthGetSessionWithUser,
+}));
+
+// Import after mocks
+import apiV1 from "./index";
+
+const sessionUser = (role: string) => ({
+  id: "test-user-123",
+  email: "test@example.com",
+  name: "Test User",
+  role,
+  personId: "person_self",
+  mustChangePassword: false,
+  profileClaimStatus: "CLAIMED",
+  oidcProvider: null,
+});
+
+describe("Charts API Routes", () => {
+  beforeEach(() => {
+    mockExportChartData.mockReset();
+    mockBetterAuthGetSessionWithUser.mockReset();
+    mockBetterAuthGetSessionWithUser.mockResolvedValue(sessionUser("VIEWER"));
+  });
+
+  describe("GET /charts/export", () => {
+    it("should return 401 without a session", async () => {
+      mockBetterAuthGetSessionWithUser.mockResolvedValueOnce(null);
+
+      const res = await apiV1.request(
+        "/charts/export?chartType=ancestor&format=svg&personId=person_1"
+      );
+
+      expect(res.status).toBe(401);
+      expect(mockExportChartData).not.toHaveBeenCalled();
+    });
+
+    it("should download the rendered file", async () => {
+      mockExportChartData.mockResolvedValueOnce({
+        filename: "vamsa-ancestor-chart-2026-01-01.pdf",
+        contentType: "application/pdf",
+        content: Buffer.from("%PDF-1.4"),
+      });
+
+      const res = await apiV1.request(
+        "/charts/export?chartType=ancestor&format=pdf&personId=person_1"
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("Content-Type")).toBe("application/pdf");
+      expect(res.headers.get("Content-Disposition")).toBe(
+        'attachment; filename="vamsa-ancestor-chart-2026-01-01.pdf"'
+      );
+      expect(await res.text()).toBe("%PDF-1.4");
+    });
+
+    it("should pass options and the viewer to the export", async () => {
+      mockExportChartData.mockResolvedValueOnce({
+        filename: "chart.pdf",
+        contentType: "application/pdf",
+        content: Buffer.from(""),
+      });
+
+      await apiV1.request(
+        "/charts/export?chartType=fan&format=pdf&personId=person_1&generations=5&paperSize=A1&pageLayout=tile&fields=name,gender"
+      );
+
+      const [request, , viewer] = mockExportChartData.mock.calls[0];
+      expect(request).toMatchObject({
+        chartType: "fan",
+        format: "pdf",
+        personId: "person_1",
+        generations: 5,
+        options: {
+          paperSize: "A1",
+          pageLayout: "tile",
+          fields: ["name", "gender"],
+        },
+      });
+      expect(viewer).toEqual({ role: "VIEWER", personId: "person_self" });
+    });
+
+    it("should return 400 when the root person is missing", async () => {
+      const res = await apiV1.request(
+        "/charts/export?chartType=fan&format=pdf"
+      );
+
+      expect(res.status).toBe(400);
+      expect(mockExportChartData).not.toHaveBeenCalled();
+    });
+
+    it("should return 400 for an unknown field", async () => {
+      const res = await apiV1.request(
+        "/charts/export?chartType=fan&format=pdf&personId=person_1&fields=name,height"
+      );
+
+      expect(res.status).toBe(400);
+    });
+
+    it("should return 404 when the person does not exist", async () => {
+      mockExportChartData.mockRejectedValueOnce(new Error("Person not found"));
+
+      const res = await apiV1.request(
+        "/charts/export?chartType=ancestor&format=svg&personId=missing"
+      );
+
+      expect(res.status).toBe(404);
+    });
+
+    it("should return 422 when names cannot be printed in a PDF", async () => {
+      mockExportChartData.mockRejectedValueOnce(
+        new PdfUnprintableTextError("राम")
+      );
+
+      const res = await apiV1.request(
+        "/charts/export?chartType=ancestor&format=pdf&personId=person_1"
+      );
+
+      expect(res.status).toBe(422);
+      expect(await res.json()).toMatchObject({
+        error: "Chart cannot be exported as PDF",
+      });
+    });
+
+    it("should return 500 when rendering fails", async () => {
+      mockExportChartData.mockRejectedValueOnce(new Error("sharp failed"));
+
+      const res = await apiV1.request(
+        "/charts/export?chartType=ancestor&format=png&personId=person_1"
+      );
+
+      expect(res.status).toBe(500);
+    });
+  });
+});
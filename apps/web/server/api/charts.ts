@@ -0,0 +1,232 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
+import {
+  chartExportFieldEnum,
+  chartExportFormatEnum,
+  chartExportRequestSchema,
+  chartFontFamilyEnum,
+  chartPaperSizeEnum,
+  errorResponseSchema,
+  exportableChartTypeEnum,
+} from "@vamsa/schemas";
+import { exportChartData as serverExportChart } from "@vamsa/lib/server/business";
+import { loggers } from "@vamsa/lib/logger";
+import { PdfUnprintableTextError } from "@vamsa/lib/server";
+import type { UserRole } from "@vamsa/schemas";
+
+const log = loggers.api;
+
+const chartsRouter = new OpenAPIHono();
+
+const generationsQuerySchema = z.coerce.number().int().min(1).max(10);
+
+/**
+ * GET /api/v1/charts/export
+ * Render a chart server-side and download it as SVG, PNG or PDF
+ */
+const exportChartRoute = createRoute({
+  method: "get",
+  path: "/export",
+  tags: ["Charts"],
+  summary: "Download a chart",
+  description:
+    "Build a chart around a person and render it as SVG, PNG or PDF. PDFs use the chosen paper size and are either fitted to one page or tiled across several for wall charts. Living-person privacy rules apply to everything printed.",
+  operationId: "exportChart",
+  request: {
+    query: z
+      .object({
+        chartType: exportableChartTypeEnum.openapi({
+          description: "Chart to render",
+          example: "ancestor",
+        }),
+        format: chartExportFormatEnum.openapi({
+          description: "File format",
+          example: "pdf",
+        }),
+        personId: z.string().optional().openapi({
+          description: "Root person (required for all charts but timeline)",
+          example: "person_123",
+        }),
+        generations: generationsQuerySchema.optional().openapi({
+          description: "Generations to include (defaults per chart)",
+          example: 4,
+        }),
+        ancestorGenerations: generationsQuerySchema.optional().openapi({
+          description: "Ancestor generations for hourglass and tree charts",
+          example: 2,
+        }),
+        descendantGenerations: generationsQuerySchema.optional().openapi({
+          description: "Descendant generations for hourglass and tree charts",
+          example: 2,
+        }),
+        startYear: z.coerce.number().int().optional().openapi({
+          description: "First year shown on a timeline",
+          example: 1850,
+        }),
+        endYear: z.coerce.number().int().optional().openapi({
+          description: "Last year shown on a timeline",
+          example: 2000,
+        }),
+        title: z.string().max(200).optional().openapi({
+          description: "Title printed above the chart",
+          example: "Rao family reunion",
+        }),
+        paperSize: chartPaperSizeEnum.optional().openapi({
+          description: "PDF paper size",
+          example: "A1",
+        }),
+        orientation: z.enum(["portrait", "landscape"]).optional().openapi({
+          description: "PDF page orientation",
+          example: "landscape",
+        }),
+        margin: z.coerce.number().min(0).max(50).optional().openapi({
+          description: "PDF page margin in millimetres",
+          example: 10,
+        }),
+        fontFamily: chartFontFamilyEnum.optional().openapi({
+          description: "Font family",
+          example: "serif",
+        }),
+        fontSize: z.coerce.number().min(6).max(24).optional().openapi({
+          description: "Base font size in points",
+          example: 10,
+        }),
+        fields: z
+          .string()
+          .optional()
+          .transform((value) =>
+            value === undefined ? undefined : value.split(",").filter(Boolean)
+          )
+          .pipe(z.array(chartExportFieldEnum).optional())
+          .openapi({
+            type: "string",
+            description: `Comma-separated fields to print: ${chartExportFieldEnum.options.join(", ")}`,
+            example: "name,birthDate,deathDate",
+          }),
+        pageLayout: z.enum(["fit", "tile"]).optional().openapi({
+          description:
+            "Fit the chart on one page, or tile it across pages at full size",
+          example: "fit",
+        }),
+        scale: z.coerce.number().min(1).max(4).optional().openapi({
+          description: "Pixel density multiplier for PNG output",
+          example: 2,
+        }),
+      })
+      .openapi({
+        description: "Query parameters for chart export",
+      }),
+  },
+  responses: {
+    200: {
+      description: "Chart file",
+      content: {
+        "image/svg+xml": {
+          schema: z.string().openapi({ description: "SVG document" }),
+        },
+        "image/png": {
+          schema: z.string().openapi({ format: "binary" }),
+        },
+        "application/pdf": {
+          schema: z.string().openapi({ format: "binary" }),
+        },
+      },
+    },
+    400: {
+      description: "Invalid export options",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Person not found",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    422: {
+      description:
+        "The chart has names the PDF font cannot print; configure a font that covers them or use SVG or PNG",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+chartsRouter.openapi(exportChartRoute, async (c) => {
+  const {
+    chartType,
+    format,
+    personId,
+    generations,
+    ancestorGenerations,
+    descendantGenerations,
+    startYear,
+    endYear,
+    ...options
+  } = c.req.valid("query");
+
+  const parsed = chartExportRequestSchema.safeParse({
+    chartType,
+    format,
+    personId,
+    generations,
+    ancestorGenerations,
+    descendantGenerations,
+    startYear,
+    endYear,
+    options,
+  });
+  if (!parsed.success) {
+    return c.json(
+      {
+        error: "Invalid export options",
+        details: parsed.error.issues[0]?.message,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const user = c.get("user");
+    const file = await serverExportChart(parsed.data, undefined, {
+      role: user.role as UserRole,
+      personId: user.personId,
+    });
+
+    return c.body(new Uint8Array(file.content), 200, {
+      "Content-Type": file.contentType,
+      "Content-Disposition": `attachment; filename="${file.filename}"`,
+      "Cache-Control": "private, no-store",
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      return c.json({ error: "Person not found" }, { status: 404 });
+    }
+    if (error instanceof PdfUnprintableTextError) {
+      return c.json(
+        { error: "Chart cannot be exported as PDF", details: error.message },
+        { status: 422 }
+      );
+    }
+
+    log.withErr(error).msg("Error exporting chart");
+    return c.json({ error: "Failed to export chart" }, { status: 500 });
+  }
+});
+
+export default chartsRouter;
@@ -0,0 +1,125 @@
+/* eslint-disable import/first */
+/**
+ * Unit tests for Devices API endpoints
+ *
+ * Tests verify:
+ * - Registration requires a session and stores the token for that user
+ * - Invalid registrations are rejected
+ * - Unregistering deactivates the user's tokens for the device
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const {
+  mockRegisterDeviceToken,
+  mockUnregisterDeviceToken,
+  mockBetterAuthGetSessionWithUser,
+} = vi.hoisted(() => ({
+  mockRegisterDeviceToken: vi.fn(),
+  mockUnregisterDeviceToken: vi.fn(),
+  mockBetterAuthGetSessionWithUser: vi.fn(),
+}));
+
+vi.mock("@vamsa/lib/server/notifications", () => ({
+  registerDeviceToken: mockRegisterDeviceToken,
+  unregisterDeviceToken: mockUnregisterDeviceToken,
+}));
+
+vi.mock("@vamsa/lib/server/business/auth-better-api", () => ({
+  betterAuthGetSessionWithUser: mockBetterAuthGetSessionWithUser,
+}));
+
+// Import after mocks
+import apiV1 from "./index";
+
+describe("Devices API Routes", () => {
+  beforeEach(() => {
+    mockRegisterDeviceToken.mockReset();
+    mockUnregisterDeviceToken.mockReset();
+    mockBetterAuthGetSessionWithUser.mockReset();
+    mockBetterAuthGetSessionWithUser.mockResolvedValue({
+      id: "test-user-123",
+      email: "test@example.com",
+      name: "Test User",
+      role: "VIEWER",
+      personId: null,
+      mustChangePassword: false,
+      profileClaimStatus: "CLAIMED",
+      oidcProvider: null,
+    });
+  });
+
+  describe("POST /devices", () => {
+    it("should return 401 without a session", async () => {
+      mockBetterAuthGetSessionWithUser.mockResolvedValueOnce(null);
+
+      const res = await apiV1.request("/devices", {
+        method: "POST",
+        body: JSON.stringify({ token: "token", platform: "ios" }),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(401);
+      expect(mockRegisterDeviceToken).not.toHaveBeenCalled();
+    });
+
+    it("should register the token for the signed-in user", async () => {
+      mockRegisterDeviceToken.mockResolvedValueOnce(undefined);
+
+      const res = await apiV1.request("/devices", {
+        method: "POST",
+        body: JSON.stringify({
+          token: "ExponentPushToken[abc123]",
+          platform: "android",
+          deviceId: "device_1",
+        }),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(204);
+      expect(mockRegisterDeviceToken).toHaveBeenCalledWith({
+        token: "ExponentPushToken[abc123]",
+        platform: "android",
+        deviceId: "device_1",
+        userId: "test-user-123",
+      });
+    });
+
+    it("should reject an unknown platform", async () => {
+      const res = await apiV1.request("/devices", {
+        method: "POST",
+        body: JSON.stringify({ token: "token", platform: "windows" }),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(400);
+      expect(mockRegisterDeviceToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("DELETE /devices/:deviceId", () => {
+    it("should unregister the user's device", async () => {
+      mockUnregisterDeviceToken.mockResolvedValueOnce(undefined);
+
+      const res = await apiV1.request("/devices/device_1", {
+        method: "DELETE",
+      });
+
+      expect(res.status).toBe(204);
+      expect(mockUnregisterDeviceToken).toHaveBeenCalledWith(
+        "test-user-123",
+        "device_1"
+      );
+    });
+
+    it("should return 500 when the database fails", async () => {
+      mockUnregisterDeviceToken.mockRejectedValueOnce(new Error("DB error"));
+
+      const res = await apiV1.request("/devices/device_1", {
+        method: "DELETE",
+      });
+
+      expect(res.status).toBe(500);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
+import { deviceTokenRegisterSchema, errorResponseSchema } from "@vamsa/schemas";
+import {
+  registerDeviceToken,
+  unregisterDeviceToken,
+} from "@vamsa/lib/server/notifications";
+import { loggers } from "@vamsa/lib/logger";
+
+const log = loggers.api;
+
+const devicesRouter = new OpenAPIHono();
+
+/**
+ * POST /api/v1/devices
+ * Register the current device for push notifications
+ */
+const registerDeviceRoute = createRoute({
+  method: "post",
+  path: "/",
+  tags: ["Devices"],
+  summary: "Register a device for push notifications",
+  description:
+    "Store a push token for the signed-in user. Registering a known token reactivates it.",
+  operationId: "registerDevice",
+  request: {
+    body: {
+      required: true,
+      content: {
+        "application/json": {
+          schema: deviceTokenRegisterSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    204: {
+      description: "Device registered",
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+devicesRouter.openapi(registerDeviceRoute, async (c) => {
+  try {
+    const data = c.req.valid("json");
+    const user = c.get("user");
+    await registerDeviceToken({ ...data, userId: user.id });
+    return c.body(null, 204);
+  } catch (error) {
+    log.withErr(error).msg("Error registering device");
+    return c.json({ error: "Failed to register device" }, { status: 500 });
+  }
+});
+
+/**
+ * DELETE /api/v1/devices/:deviceId
+ * Stop push notifications to a device
+ */
+const unregisterDeviceRoute = createRoute({
+  method: "delete",
+  path: "/:deviceId",
+  tags: ["Devices"],
+  summary: "Unregister a device",
+  description:
+    "Deactivate the signed-in user's push tokens for a device, e.g. on sign out",
+  operationId: "unregisterDevice",
+  request: {
+    params: z
+      .object({
+        deviceId: z.string().openapi({
+          description: "Device ID given at registration",
+          example: "device_123",
+        }),
+      })
+      .openapi({
+        description: "Path parameters for device endpoint",
+      }),
+  },
+  responses: {
+    204: {
+      description: "Device unregistered",
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+devicesRouter.openapi(unregisterDeviceRoute, async (c) => {
+  try {
+    const { deviceId } = c.req.valid("param");
+    const user = c.get("user");
+    await unregisterDeviceToken(user.id, deviceId);
+    return c.body(null, 204);
+  } catch (error) {
+    log.withErr(error).msg("Error unregistering device");
+    return c.json({ error: "Failed to unregister device" }, { status: 500 });
+  }
+});
+
+export default devicesRouter;
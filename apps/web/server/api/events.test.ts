@@ -0,0 +1,268 @@
+/* eslint-disable import/first */
+/**
+ * Unit tests for Events API endpoints
+ *
+ * Tests verify:
+ * - Reads require VIEWER, writes require MEMBER
+ * - Listing is cursor-paginated and passes the viewer for privacy
+ * - Business errors map to 400/404 responses
+ * - Writes are submitted for review when edits require approval
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const {
+  mockGetPersonEvents,
+  mockGetEvent,
+  mockCreateEvent,
+  mockUpdateEvent,
+  mockDeleteEvent,
+  mockRequiresEditApproval,
+  mockSubmitEditForApproval,
+  mockBetterAuthGetSessionWithUser,
+} = vi.hoisted(() => ({
+  mockGetPersonEvents: vi.fn(),
+  mockGetEvent: vi.fn(),
+  mockCreateEvent: vi.fn(),
+  mockUpdateEvent: vi.fn(),
+  mockDeleteEvent: vi.fn(),
+  mockRequiresEditApproval: vi.fn(),
+  mockSubmitEditForApproval: vi.fn(),
+  mockBetterAuthGetSessionWithUser: vi.fn(),
+}));
+
+vi.mock("@vamsa/lib/server/business", () => ({
+  getPersonEventsData: mockGetPersonEvents,
+  getEventData: mockGetEvent,
+  createEventData: mockCreateEvent,
+  updateEventData: mockUpdateEvent,
+  deleteEventData: mockDeleteEvent,
+  requiresEditApprovalData: mockRequiresEditApproval,
+  submitEditForApprovalData: mockSubmitEditForApproval,
+}));
+
+vi.mock("@vamsa/lib/server/business/auth-better-api", () => ({
+  betterAuthGetSessionWithUser: mockBetterAuthGetSessionWithUser,
+}));
+
+// Import after mocks
+import apiV1 from "./index";
+
+const sessionUser = (role: string) => ({
+  id: "test-user-123",
+  email: "test@example.com",
+  name: "Test User",
+  role,
+  personId: "person_self",
+  mustChangePassword: false,
+  profileClaimStatus: "CLAIMED",
+  oidcProvider: null,
+});
+
+const makeEvent = (id: string) => ({
+  id,
+  personId: "person_1",
+  type: "BIRTH",
+  date: "1850-01-01",
+  dateDetail: null,
+  place: null,
+  description: null,
+  privacy: null,
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  participants: [],
+});
+
+describe("Events API Routes", () => {
+  beforeEach(() => {
+    mockGetPersonEvents.mockReset();
+    mockGetEvent.mockReset();
+    mockCreateEvent.mockReset();
+    mockUpdateEvent.mockReset();
+    mockDeleteEvent.mockReset();
+    mockRequiresEditApproval.mockReset();
+    mockRequiresEditApproval.mockResolvedValue(false);
+    mockSubmitEditForApproval.mockReset();
+    mockBetterAuthGetSessionWithUser.mockReset();
+    mockBetterAuthGetSessionWithUser.mockResolvedValue(sessionUser("MEMBER"));
+  });
+
+  describe("Authentication", () => {
+    it("should return 401 without a session", async () => {
+      mockBetterAuthGetSessionWithUser.mockResolvedValueOnce(null);
+
+      const res = await apiV1.request("/events?personId=person_1");
+
+      expect(res.status).toBe(401);
+    });
+
+    it("should let viewers read events", async () => {
+      mockBetterAuthGetSessionWithUser.mockResolvedValue(sessionUser("VIEWER"));
+      mockGetEvent.mockResolvedValueOnce(makeEvent("event_1"));
+
+      const res = await apiV1.request("/events/event_1");
+
+      expect(res.status).toBe(200);
+    });
+
+    it("should return 403 when a viewer writes", async () => {
+      mockBetterAuthGetSessionWithUser.mockResolvedValue(sessionUser("VIEWER"));
+
+      const res = await apiV1.request("/events/event_1", {
+        method: "DELETE",
+      });
+
+      expect(res.status).toBe(403);
+      expect(mockDeleteEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("GET /events", () => {
+    it("should paginate a person's events", async () => {
+      mockGetPersonEvents.mockResolvedValueOnce([
+        makeEvent("event_1"),
+        makeEvent("event_2"),
+        makeEvent("event_3"),
+      ]);
+
+      const res = await apiV1.request("/events?personId=person_1&limit=2");
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.items.map((e: { id: string }) => e.id)).toEqual([
+        "event_1",
+        "event_2",
+      ]);
+      expect(body.hasMore).toBe(true);
+      expect(mockGetPersonEvents).toHaveBeenCalledWith("person_1", undefined, {
+        role: "MEMBER",
+        personId: "person_self",
+      });
+    });
+
+    it("should require personId", async () => {
+      const res = await apiV1.request("/events");
+
+      expect(res.status).toBe(400);
+    });
+
+    it("should return 404 for an unknown person", async () => {
+      mockGetPersonEvents.mockRejectedValueOnce(new Error("Person not found"));
+
+      const res = await apiV1.request("/events?personId=missing");
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("GET /events/:id", () => {
+    it("should return 404 for hidden or missing events", async () => {
+      mockGetEvent.mockRejectedValueOnce(new Error("Event not found"));
+
+      const res = await apiV1.request("/events/event_1");
+
+      expect(res.status).toBe(404);
+      const body = await res.json();
+      expect(body.error).toBe("Event not found");
+    });
+  });
+
+  describe("POST /events", () => {
+    it("should create an event", async () => {
+      mockCreateEvent.mockResolvedValueOnce(makeEvent("event_new"));
+
+      const res = await apiV1.request("/events", {
+        method: "POST",
+        body: JSON.stringify({ personId: "person_1", type: "BIRTH" }),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(201);
+      expect(mockCreateEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ personId: "person_1", type: "BIRTH" }),
+        "test-user-123"
+      );
+    });
+
+    it("should submit the event for review when edits require approval", async () => {
+      mockRequiresEditApproval.mockResolvedValueOnce(true);
+      mockSubmitEditForApproval.mockResolvedValueOnce({
+        pendingApproval: true,
+        suggestionId: "suggestion_1",
+      });
+
+      const res = await apiV1.request("/events", {
+        method: "POST",
+        body: JSON.stringify({ personId: "person_1", type: "BIRTH" }),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(202);
+      expect(await res.json()).toEqual({
+        pendingApproval: true,
+        suggestionId: "suggestion_1",
+      });
+      expect(mockRequiresEditApproval).toHaveBeenCalledWith("MEMBER");
+      expect(mockSubmitEditForApproval).toHaveBeenCalledWith(
+        "CREATE_EVENT",
+        "person_1",
+        expect.objectContaining({ personId: "person_1", type: "BIRTH" }),
+        "test-user-123"
+      );
+      expect(mockCreateEvent).not.toHaveBeenCalled();
+    });
+
+    it("should return 400 for an unknown person", async () => {
+      mockCreateEvent.mockRejectedValueOnce(new Error("Person not found"));
+
+      const res = await apiV1.request("/events", {
+        method: "POST",
+        body: JSON.stringify({ personId: "missing", type: "BIRTH" }),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("PUT /events/:id", () => {
+    it("should update the event from the path ID", async () => {
+      mockUpdateEvent.mockResolvedValueOnce(makeEvent("event_1"));
+
+      const res = await apiV1.request("/events/event_1", {
+        method: "PUT",
+        body: JSON.stringify({ description: "Baptised the same day" }),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(200);
+      expect(mockUpdateEvent).toHaveBeenCalledWith(
+        "event_1",
+        expect.objectContaining({ description: "Baptised the same day" }),
+        "test-user-123"
+      );
+    });
+  });
+
+  describe("DELETE /events/:id", () => {
+    it("should return 204", async () => {
+      mockDeleteEvent.mockResolvedValueOnce({ success: true });
+
+      const res = await apiV1.request("/events/event_1", {
+        method: "DELETE",
+      });
+
+      expect(res.status).toBe(204);
+    });
+
+    it("should return 404 for a missing event", async () => {
+      mockDeleteEvent.mockRejectedValueOnce(new Error("Event not found"));
+
+      const res = await apiV1.request("/events/event_1", {
+        method: "DELETE",
+      });
+
+      expect(res.status).toBe(404);
+    });
+  });
+});
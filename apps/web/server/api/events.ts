@@ -0,0 +1,429 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
+import {
+  apiEventSchema,
+  cursorPaginatedResponseSchema,
+  errorResponseSchema,
+  eventCreateSchema,
+  eventUpdateBodySchema,
+  pendingApprovalResponseSchema,
+} from "@vamsa/schemas";
+import {
+  requiresEditApprovalData,
+  createEventData as serverCreateEvent,
+  deleteEventData as serverDeleteEvent,
+  getEventData as serverGetEvent,
+  getPersonEventsData as serverListEvents,
+  updateEventData as serverUpdateEvent,
+  submitEditForApprovalData,
+} from "@vamsa/lib/server/business";
+import { loggers } from "@vamsa/lib/logger";
+import { paginateQuery } from "@vamsa/lib/server";
+import type { UserRole } from "@vamsa/schemas";
+
+const log = loggers.api;
+
+const eventsRouter = new OpenAPIHono();
+
+const eventIdParamSchema = z
+  .object({
+    id: z.string().openapi({
+      description: "Event ID",
+      example: "event_123",
+    }),
+  })
+  .openapi({
+    description: "Path parameters for event endpoint",
+  });
+
+/**
+ * GET /api/v1/events
+ * List a person's events with cursor-based pagination
+ */
+const listEventsRoute = createRoute({
+  method: "get",
+  path: "/",
+  tags: ["Events"],
+  summary: "List events for a person",
+  description:
+    "Get a person's events (newest first) with cursor-based pagination. Events hidden by privacy settings are left out.",
+  operationId: "listEvents",
+  request: {
+    query: z
+      .object({
+        personId: z.string().min(1).openapi({
+          description: "Person whose events to list",
+          example: "person_123",
+        }),
+        cursor: z.string().optional().openapi({
+          description:
+            "Cursor for the next page (from nextCursor in previous response)",
+          example: "ZXZlbnRfMTAw",
+        }),
+        limit: z.coerce.number().int().min(1).max(100).default(20).openapi({
+          description: "Items per page (max 100)",
+          example: 20,
+        }),
+      })
+      .openapi({
+        description: "Query parameters for listing events",
+      }),
+  },
+  responses: {
+    200: {
+      description: "Events retrieved successfully",
+      content: {
+        "application/json": {
+          schema: cursorPaginatedResponseSchema(apiEventSchema),
+        },
+      },
+    },
+    404: {
+      description: "Person not found",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+eventsRouter.openapi(listEventsRoute, async (c) => {
+  try {
+    const { personId, cursor, limit } = c.req.valid("query");
+    const user = c.get("user");
+
+    const events = await serverListEvents(personId, undefined, {
+      role: user.role as UserRole,
+      personId: user.personId,
+    });
+
+    const paginated = paginateQuery(events, limit, cursor, (item) => item.id);
+
+    return c.json(paginated, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      return c.json({ error: "Person not found" }, { status: 404 });
+    }
+
+    log.withErr(error).msg("Error listing events");
+    return c.json({ error: "Failed to list events" }, { status: 500 });
+  }
+});
+
+/**
+ * POST /api/v1/events
+ * Create an event
+ */
+const createEventRoute = createRoute({
+  method: "post",
+  path: "/",
+  tags: ["Events"],
+  summary: "Create an event",
+  description: "Add a genealogical event (birth, marriage, ...) to a person",
+  operationId: "createEvent",
+  request: {
+    body: {
+      required: true,
+      content: {
+        "application/json": {
+          schema: eventCreateSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    201: {
+      description: "Event created successfully",
+      content: {
+        "application/json": {
+          schema: apiEventSchema,
+        },
+      },
+    },
+    202: {
+      description: "Edit submitted for review, as edits require approval",
+      content: {
+        "application/json": {
+          schema: pendingApprovalResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: "Validation error or unknown person",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+eventsRouter.openapi(createEventRoute, async (c) => {
+  try {
+    const data = c.req.valid("json");
+    const user = c.get("user");
+    if (await requiresEditApprovalData(user.role as UserRole)) {
+      const pending = await submitEditForApprovalData(
+        "CREATE_EVENT",
+        data.personId,
+        data,
+        user.id
+      );
+      return c.json(pending, { status: 202 });
+    }
+    const result = await serverCreateEvent(data, user.id);
+    return c.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      return c.json({ error: "Person not found" }, { status: 400 });
+    }
+
+    log.withErr(error).msg("Error creating event");
+    return c.json({ error: "Failed to create event" }, { status: 500 });
+  }
+});
+
+/**
+ * GET /api/v1/events/:id
+ * Get a single event
+ */
+const getEventRoute = createRoute({
+  method: "get",
+  path: "/:id",
+  tags: ["Events"],
+  summary: "Get an event by ID",
+  description: "Retrieve an event with its participants",
+  operationId: "getEvent",
+  request: {
+    params: eventIdParamSchema,
+  },
+  responses: {
+    200: {
+      description: "Event found",
+      content: {
+        "application/json": {
+          schema: apiEventSchema,
+        },
+      },
+    },
+    404: {
+      description: "Event not found",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+eventsRouter.openapi(getEventRoute, async (c) => {
+  try {
+    const { id } = c.req.valid("param");
+    const user = c.get("user");
+
+    const result = await serverGetEvent(id, undefined, {
+      role: user.role as UserRole,
+      personId: user.personId,
+    });
+
+    return c.json(result, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      return c.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    log.withErr(error).msg("Error getting event");
+    return c.json({ error: "Failed to get event" }, { status: 500 });
+  }
+});
+
+/**
+ * PUT /api/v1/events/:id
+ * Update an event
+ */
+const updateEventRoute = createRoute({
+  method: "put",
+  path: "/:id",
+  tags: ["Events"],
+  summary: "Update an event",
+  description: "Update an event's type, date, place, description or privacy",
+  operationId: "updateEvent",
+  request: {
+    params: eventIdParamSchema,
+    body: {
+      required: true,
+      content: {
+        "application/json": {
+          schema: eventUpdateBodySchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Event updated successfully",
+      content: {
+        "application/json": {
+          schema: apiEventSchema,
+        },
+      },
+    },
+    202: {
+      description: "Edit submitted for review, as edits require approval",
+      content: {
+        "application/json": {
+          schema: pendingApprovalResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: "Validation error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Event not found",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+eventsRouter.openapi(updateEventRoute, async (c) => {
+  try {
+    const { id } = c.req.valid("param");
+    const data = c.req.valid("json");
+    const user = c.get("user");
+    if (await requiresEditApprovalData(user.role as UserRole)) {
+      const pending = await submitEditForApprovalData(
+        "UPDATE_EVENT",
+        null,
+        { id, ...data },
+        user.id
+      );
+      return c.json(pending, { status: 202 });
+    }
+    const result = await serverUpdateEvent(id, data, user.id);
+    return c.json(result, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      return c.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    log.withErr(error).msg("Error updating event");
+    return c.json({ error: "Failed to update event" }, { status: 500 });
+  }
+});
+
+/**
+ * DELETE /api/v1/events/:id
+ * Delete an event
+ */
+const deleteEventRoute = createRoute({
+  method: "delete",
+  path: "/:id",
+  tags: ["Events"],
+  summary: "Delete an event",
+  description: "Remove an event and its participants",
+  operationId: "deleteEvent",
+  request: {
+    params: eventIdParamSchema,
+  },
+  responses: {
+    204: {
+      description: "Event deleted successfully",
+    },
+    202: {
+      description: "Edit submitted for review, as edits require approval",
+      content: {
+        "application/json": {
+          schema: pendingApprovalResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Event not found",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+eventsRouter.openapi(deleteEventRoute, async (c) => {
+  try {
+    const { id } = c.req.valid("param");
+    const user = c.get("user");
+    if (await requiresEditApprovalData(user.role as UserRole)) {
+      const pending = await submitEditForApprovalData(
+        "DELETE_EVENT",
+        null,
+        { eventId: id },
+        user.id
+      );
+      return c.json(pending, { status: 202 });
+    }
+    await serverDeleteEvent(id, user.id);
+    return c.body(null, 204);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      return c.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    log.withErr(error).msg("Error deleting event");
+    return c.json({ error: "Failed to delete event" }, { status: 500 });
+  }
+});
+
+export default eventsRouter;
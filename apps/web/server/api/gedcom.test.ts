@@ -0,0 +1,135 @@
+/* eslint-disable import/first */
+/**
+ * Unit tests for GEDCOM API endpoints
+ *
+ * Tests verify:
+ * - Export requires an ADMIN session
+ * - Personal access tokens need the gedcom:export scope
+ * - The file is returned with download headers
+ * - Export failures map to a 500 response
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const {
+  mockExportGedcomData,
+  mockBetterAuthGetSessionWithUser,
+  mockAuthenticateApiToken,
+} = vi.hoisted(() => ({
+  mockExportGedcomData: vi.fn(),
+  mockBetterAuthGetSessionWithUser: vi.fn(),
+  mockAuthenticateApiToken: vi.fn(),
+}));
+
+vi.mock("@vamsa/lib/server/business", () => ({
+  exportGedcomData: mockExportGedcomData,
+}));
+
+vi.mock("@vamsa/lib/server/business/auth-better-api", () => ({
+  betterAuthGetSessionWithUser: mockBetterAuthGetSessionWithUser,
+}));
+
+vi.mock("@vamsa/lib/server/business/api-tokens", () => ({
+  authenticateApiToken: mockAuthenticateApiToken,
+  isApiToken: (token: string) => token.startsWith("vamsa_pat_"),
+}));
+
+// Import after mocks
+import apiV1 from "./index";
+
+const sessionUser = (role: string) => ({
+  id: "test-user-123",
+  email: "test@example.com",
+  name: "Test User",
+  role,
+  personId: null,
+  mustChangePassword: false,
+  profileClaimStatus: "CLAIMED",
+  oidcProvider: null,
+});
+
+describe("GEDCOM API Routes", () => {
+  beforeEach(() => {
+    mockExportGedcomData.mockReset();
+    mockBetterAuthGetSessionWithUser.mockReset();
+    mockAuthenticateApiToken.mockReset();
+    mockBetterAuthGetSessionWithUser.mockResolvedValue(sessionUser("ADMIN"));
+  });
+
+  describe("GET /gedcom/export", () => {
+    it("should return 403 for members", async () => {
+      mockBetterAuthGetSessionWithUser.mockResolvedValueOnce(
+        sessionUser("MEMBER")
+      );
+
+      const res = await apiV1.request("/gedcom/export");
+
+      expect(res.status).toBe(403);
+      expect(mockExportGedcomData).not.toHaveBeenCalled();
+    });
+
+    it("should download the GEDCOM file", async () => {
+      mockExportGedcomData.mockResolvedValueOnce({
+        success: true,
+        message: "Export successful",
+        gedcomContent: "0 HEAD\n0 TRLR\n",
+      });
+
+      const res = await apiV1.request("/gedcom/export");
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("Content-Type")).toContain("text/plain");
+      expect(res.headers.get("Content-Disposition")).toMatch(
+        /^attachment; filename="family-tree-\d{4}-\d{2}-\d{2}\.ged"$/
+      );
+      expect(await res.text()).toBe("0 HEAD\n0 TRLR\n");
+      expect(mockExportGedcomData).toHaveBeenCalledWith("test-user-123");
+    });
+
+    it("should accept a token with the gedcom:export scope", async () => {
+      mockAuthenticateApiToken.mockResolvedValueOnce({
+        user: sessionUser("ADMIN"),
+        tokenId: "token-1",
+        scopes: ["gedcom:export"],
+      });
+      mockExportGedcomData.mockResolvedValueOnce({
+        success: true,
+        message: "Export successful",
+        gedcomContent: "0 HEAD\n0 TRLR\n",
+      });
+
+      const res = await apiV1.request("/gedcom/export", {
+        headers: { Authorization: "Bearer vamsa_pat_secret" },
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("X-RateLimit-Remaining")).toBeTruthy();
+    });
+
+    it("should reject a token without the gedcom:export scope", async () => {
+      mockAuthenticateApiToken.mockResolvedValueOnce({
+        user: sessionUser("ADMIN"),
+        tokenId: "token-1",
+        scopes: ["persons:read"],
+      });
+
+      const res = await apiV1.request("/gedcom/export", {
+        headers: { Authorization: "Bearer vamsa_pat_secret" },
+      });
+
+      expect(res.status).toBe(403);
+      expect(mockExportGedcomData).not.toHaveBeenCalled();
+    });
+
+    it("should return 500 when the export fails", async () => {
+      mockExportGedcomData.mockResolvedValueOnce({
+        success: false,
+        message: "Database unavailable",
+      });
+
+      const res = await apiV1.request("/gedcom/export");
+
+      expect(res.status).toBe(500);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
+import { errorResponseSchema } from "@vamsa/schemas";
+import { exportGedcomData as serverExportGedcom } from "@vamsa/lib/server/business";
+import { loggers } from "@vamsa/lib/logger";
+
+const log = loggers.api;
+
+const gedcomRouter = new OpenAPIHono();
+
+/**
+ * GET /api/v1/gedcom/export
+ * Download the whole family tree as a GEDCOM file
+ */
+const exportGedcomRoute = createRoute({
+  method: "get",
+  path: "/export",
+  tags: ["GEDCOM"],
+  summary: "Download the family tree as GEDCOM",
+  description:
+    "Export every person and relationship as a GEDCOM 5.5.1 file. Requires the ADMIN role; personal access tokens need the gedcom:export scope.",
+  operationId: "exportGedcom",
+  responses: {
+    200: {
+      description: "GEDCOM file",
+      content: {
+        "text/plain": {
+          schema: z.string().openapi({ description: "GEDCOM document" }),
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+gedcomRouter.openapi(exportGedcomRoute, async (c) => {
+  const user = c.get("user");
+  const result = await serverExportGedcom(user.id);
+
+  if (!result.success || result.gedcomContent === undefined) {
+    log.error({ message: result.message }, "Error exporting GEDCOM");
+    return c.json({ error: "Failed to export GEDCOM" }, { status: 500 });
+  }
+
+  const date = new Date().toISOString().slice(0, 10);
+  return c.text(result.gedcomContent, 200, {
+    "Content-Disposition": `attachment; filename="family-tree-${date}.ged"`,
+    "Cache-Control": "private, no-store",
+  });
+});
+
+export default gedcomRouter;
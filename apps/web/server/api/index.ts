@@ -2,12 +2,23 @@ import { OpenAPIHono } from "@hono/zod-openapi";
 import { swaggerUI } from "@hono/swagger-ui";
 import { loggers } from "@vamsa/lib/logger";
 import { requireApiAuth } from "../middleware/require-api-auth";
+import { apiTokenRateLimitMiddleware } from "../../src/server/middleware/hono-rate-limiter";
 import authRouter from "./auth";
 import personsRouter from "./persons";
 import relationshipsRouter from "./relationships";
 import calendarRouter from "./calendar";
 import metricsRouter from "./metrics";
 import batchRouter from "./batch";
+import eventsRouter from "./events";
+import placesRouter from "./places";
+import sourcesRouter from "./sources";
+import researchNotesRouter from "./research-notes";
+import mediaRouter from "./media";
+import chartsRouter from "./charts";
+import devicesRouter from "./devices";
+import notificationsRouter from "./notifications";
+import gedcomRouter from "./gedcom";
+import aiRouter from "./ai";
 
 const log = loggers.api;
 
@@ -23,6 +34,12 @@ const ENABLE_DOCS = process.env.ENABLE_API_DOCS === "true" || !IS_PRODUCTION;
  * - Authentication (login, logout, register)
  * - Person management (CRUD)
  * - Relationship management (CRUD)
+ * - Events, places, sources, research notes and media (CRUD)
+ * - Chart downloads (SVG, PNG, PDF)
+ * - Device registration for push notifications
+ * - In-app notification inbox
+ * - GEDCOM export
+ * - AI assistant chat
  * - Calendar feeds (RSS, iCal)
  * - Metrics and monitoring
  */
@@ -87,6 +104,48 @@ if (ENABLE_DOCS) {
         description:
           "Relationship management between persons (requires authentication)",
       },
+      {
+        name: "Events",
+        description:
+          "Genealogical events and their participants (requires authentication)",
+      },
+      {
+        name: "Places",
+        description: "Place hierarchy management (requires authentication)",
+      },
+      {
+        name: "Sources",
+        description: "Genealogical source management (requires authentication)",
+      },
+      {
+        name: "Research Notes",
+        description:
+          "Research findings per person and event (requires authentication)",
+      },
+      {
+        name: "Media",
+        description:
+          "Photos and documents linked to persons (requires authentication)",
+      },
+      {
+        name: "Charts",
+        description:
+          "Server-rendered chart downloads in SVG, PNG and PDF (requires authentication)",
+      },
+      {
+        name: "Devices",
+        description:
+          "Device registration for push notifications (requires authentication)",
+      },
+      {
+        name: "Notifications",
+        description:
+          "In-app notification inbox with read tracking (requires authentication)",
+      },
+      {
+        name: "GEDCOM",
+        description: "GEDCOM export of the family tree (requires ADMIN role)",
+      },
       {
         name: "Batch",
         description:
@@ -122,6 +181,15 @@ apiV1.get("/", (c) => {
         auth: "/api/v1/auth",
         persons: "/api/v1/persons",
         relationships: "/api/v1/relationships",
+        events: "/api/v1/events",
+        places: "/api/v1/places",
+        sources: "/api/v1/sources",
+        researchNotes: "/api/v1/research-notes",
+        media: "/api/v1/media",
+        charts: "/api/v1/charts",
+        devices: "/api/v1/devices",
+        notifications: "/api/v1/notifications",
+        gedcom: "/api/v1/gedcom",
         batch: "/api/v1/batch",
         calendar: "/api/v1/calendar",
         metrics: "/api/v1/metrics",
@@ -144,16 +212,62 @@ apiV1.get("/", (c) => {
  * - /calendar/* - Calendar feeds (use token-based auth)
  * - /docs, /openapi.json, / - Documentation and root
  *
- * Protected routes:
- * - /persons/* - Requires VIEWER role (default)
- * - /relationships/* - Requires VIEWER role (default)
- * - /batch/* - Requires MEMBER role
- * - /metrics/* - Requires ADMIN role
+ * Protected routes (personal access token scope in brackets):
+ * - /persons/* - Requires VIEWER role (persons:read, persons:write to write)
+ * - /relationships/* - Requires VIEWER role (persons:read, persons:write to write)
+ * - /events/*, /places/*, /sources/*, /research-notes/* - Require VIEWER
+ *   role to read and MEMBER role to write (persons:read, persons:write)
+ * - /media/* - Requires VIEWER role to read and MEMBER role to write
+ *   (media:read, media:write)
+ * - /charts/* - Requires VIEWER role (persons:read)
+ * - /gedcom/* - Requires ADMIN role (gedcom:export)
+ * - /batch/* - Requires MEMBER role (persons:write)
+ * - /devices/* - Requires VIEWER role (sessions only)
+ * - /notifications/* - Requires VIEWER role (sessions only)
+ * - /metrics/* - Requires ADMIN role (sessions only)
+ * - /ai/* - Requires VIEWER role (sessions only)
  */
-apiV1.use("/persons/*", requireApiAuth("VIEWER"));
-apiV1.use("/relationships/*", requireApiAuth("VIEWER"));
-apiV1.use("/batch/*", requireApiAuth("MEMBER"));
+const READ_METHODS = ["GET", "HEAD"];
+const WRITE_METHODS = ["POST", "PUT", "PATCH", "DELETE"];
+
+apiV1.on(
+  READ_METHODS,
+  ["/persons/*", "/relationships/*"],
+  requireApiAuth("VIEWER", "persons:read")
+);
+apiV1.on(
+  WRITE_METHODS,
+  ["/persons/*", "/relationships/*"],
+  requireApiAuth("VIEWER", "persons:write")
+);
+apiV1.use("/charts/*", requireApiAuth("VIEWER", "persons:read"));
+apiV1.use("/devices/*", requireApiAuth("VIEWER"));
+apiV1.use("/notifications/*", requireApiAuth("VIEWER"));
+apiV1.use("/batch/*", requireApiAuth("MEMBER", "persons:write"));
+
+const contentRoutes = [
+  "/events/*",
+  "/places/*",
+  "/sources/*",
+  "/research-notes/*",
+];
+apiV1.on(READ_METHODS, contentRoutes, requireApiAuth("VIEWER", "persons:read"));
+apiV1.on(
+  WRITE_METHODS,
+  contentRoutes,
+  requireApiAuth("MEMBER", "persons:write")
+);
+apiV1.on(READ_METHODS, "/media/*", requireApiAuth("VIEWER", "media:read"));
+apiV1.on(WRITE_METHODS, "/media/*", requireApiAuth("MEMBER", "media:write"));
+apiV1.use("/gedcom/*", requireApiAuth("ADMIN", "gedcom:export"));
 apiV1.use("/metrics/*", requireApiAuth("ADMIN"));
+apiV1.use("/ai/*", requireApiAuth("VIEWER"));
+
+/**
+ * Rate limit personal access tokens per token
+ * Registered after the auth middleware, which identifies the token
+ */
+apiV1.use("*", apiTokenRateLimitMiddleware());
 
 // ============================================
 // Resource Routes
@@ -166,6 +280,16 @@ apiV1.use("/metrics/*", requireApiAuth("ADMIN"));
 apiV1.route("/auth", authRouter);
 apiV1.route("/persons", personsRouter);
 apiV1.route("/relationships", relationshipsRouter);
+apiV1.route("/events", eventsRouter);
+apiV1.route("/places", placesRouter);
+apiV1.route("/sources", sourcesRouter);
+apiV1.route("/research-notes", researchNotesRouter);
+apiV1.route("/media", mediaRouter);
+apiV1.route("/charts", chartsRouter);
+apiV1.route("/devices", devicesRouter);
+apiV1.route("/notifications", notificationsRouter);
+apiV1.route("/gedcom", gedcomRouter);
+apiV1.route("/ai", aiRouter);
 apiV1.route("/batch", batchRouter);
 apiV1.route("/calendar", calendarRouter);
 apiV1.route("/metrics", metricsRouter);
@@ -0,0 +1,375 @@
+/* eslint-disable import/first */
+/**
+ * Unit tests for Media API endpoints
+ *
+ * Tests verify:
+ * - Reads require VIEWER, writes require MEMBER
+ * - Listing and reading pass the viewer so private media stays hidden
+ * - Business errors map to 400/404 responses
+ * - Uploads and edits are submitted for review when edits require approval
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const {
+  mockListMedia,
+  mockGetMedia,
+  mockUploadMedia,
+  mockSubmitUpload,
+  mockUpdateMedia,
+  mockDeleteMedia,
+  mockRequiresEditApproval,
+  mockSubmitEditForApproval,
+  mockBetterAuthGetSessionWithUser,
+} = vi.hoisted(() => ({
+  mockListMedia: vi.fn(),
+  mockGetMedia: vi.fn(),
+  mockUploadMedia: vi.fn(),
+  mockSubmitUpload: vi.fn(),
+  mockUpdateMedia: vi.fn(),
+  mockDeleteMedia: vi.fn(),
+  mockRequiresEditApproval: vi.fn(),
+  mockSubmitEditForApproval: vi.fn(),
+  mockBetterAuthGetSessionWithUser: vi.fn(),
+}));
+
+vi.mock("@vamsa/lib/server/business/media", () => ({
+  getPersonMediaLogic: mockListMedia,
+  getMediaObjectLogic: mockGetMedia,
+  uploadMediaLogic: mockUploadMedia,
+  submitMediaUploadForApprovalLogic: mockSubmitUpload,
+  updateMediaMetadataLogic: mockUpdateMedia,
+  deleteMediaLogic: mockDeleteMedia,
+}));
+
+vi.mock("@vamsa/lib/server/business", () => ({
+  requiresEditApprovalData: mockRequiresEditApproval,
+  submitEditForApprovalData: mockSubmitEditForApproval,
+}));
+
+vi.mock("@vamsa/lib/server/business/auth-better-api", () => ({
+  betterAuthGetSessionWithUser: mockBetterAuthGetSessionWithUser,
+}));
+
+// Import after mocks
+import apiV1 from "./index";
+
+const sessionUser = (role: string) => ({
+  id: "test-user-123",
+  email: "test@example.com",
+  name: "Test User",
+  role,
+  personId: "person_self",
+  mustChangePassword: false,
+  profileClaimStatus: "CLAIMED",
+  oidcProvider: null,
+});
+
+const fileFields = {
+  filePath: "/media/photo.jpg",
+  format: "JPEG",
+  mimeType: "image/jpeg",
+  fileSize: 1024,
+  title: "Wedding",
+  description: null,
+  source: null,
+  width: 800,
+  height: 600,
+  uploadedAt: "2024-01-01T00:00:00.000Z",
+};
+
+const makePersonMedia = (mediaId: string) => ({
+  id: `pm_${mediaId}`,
+  mediaId,
+  ...fileFields,
+  caption: null,
+  isPrimary: false,
+  displayOrder: 0,
+  createdAt: "2024-01-01T00:00:00.000Z",
+});
+
+const makeMediaObject = (id: string) => ({
+  id,
+  ...fileFields,
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  eventMedia: [],
+  personMedia: [],
+});
+
+const uploadInput = {
+  personId: "person_1",
+  fileName: "photo.jpg",
+  mimeType: "image/jpeg",
+  fileSize: 1024,
+  base64Data: "aGVsbG8=",
+  title: "Wedding",
+};
+
+describe("Media API Routes", () => {
+  beforeEach(() => {
+    mockListMedia.mockReset();
+    mockGetMedia.mockReset();
+    mockUploadMedia.mockReset();
+    mockSubmitUpload.mockReset();
+    mockUpdateMedia.mockReset();
+    mockDeleteMedia.mockReset();
+    mockRequiresEditApproval.mockReset();
+    mockRequiresEditApproval.mockResolvedValue(false);
+    mockSubmitEditForApproval.mockReset();
+    mockBetterAuthGetSessionWithUser.mockReset();
+    mockBetterAuthGetSessionWithUser.mockResolvedValue(sessionUser("MEMBER"));
+  });
+
+  describe("Authentication", () => {
+    it("should return 401 without a session", async () => {
+      mockBetterAuthGetSessionWithUser.mockResolvedValueOnce(null);
+
+      const res = await apiV1.request("/media?personId=person_1");
+
+      expect(res.status).toBe(401);
+      expect(mockListMedia).not.toHaveBeenCalled();
+    });
+
+    it("should return 403 when a viewer uploads", async () => {
+      mockBetterAuthGetSessionWithUser.mockResolvedValue(sessionUser("VIEWER"));
+
+      const res = await apiV1.request("/media", {
+        method: "POST",
+        body: JSON.stringify(uploadInput),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(403);
+      expect(mockUploadMedia).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("GET /media", () => {
+    it("should paginate a person's media", async () => {
+      mockListMedia.mockResolvedValueOnce({
+        items: [
+          makePersonMedia("media_1"),
+          makePersonMedia("media_2"),
+          makePersonMedia("media_3"),
+        ],
+      });
+
+      const res = await apiV1.request("/media?personId=person_1&limit=2");
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.items.map((m: { mediaId: string }) => m.mediaId)).toEqual([
+        "media_1",
+        "media_2",
+      ]);
+      expect(body.hasMore).toBe(true);
+      expect(mockListMedia).toHaveBeenCalledWith("person_1", undefined, {
+        role: "MEMBER",
+        personId: "person_self",
+      });
+    });
+
+    it("should list only what a viewer may see", async () => {
+      mockBetterAuthGetSessionWithUser.mockResolvedValue(sessionUser("VIEWER"));
+      mockListMedia.mockResolvedValueOnce({ items: [] });
+
+      const res = await apiV1.request("/media?personId=person_living");
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.items).toEqual([]);
+      expect(mockListMedia).toHaveBeenCalledWith("person_living", undefined, {
+        role: "VIEWER",
+        personId: "person_self",
+      });
+    });
+
+    it("should return 404 for an unknown person", async () => {
+      mockListMedia.mockRejectedValueOnce(new Error("Person not found"));
+
+      const res = await apiV1.request("/media?personId=missing");
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("GET /media/:id", () => {
+    it("should return the media object", async () => {
+      mockGetMedia.mockResolvedValueOnce(makeMediaObject("media_1"));
+
+      const res = await apiV1.request("/media/media_1");
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.id).toBe("media_1");
+    });
+
+    it("should return 404 for media hidden from a viewer", async () => {
+      mockBetterAuthGetSessionWithUser.mockResolvedValue(sessionUser("VIEWER"));
+      mockGetMedia.mockRejectedValueOnce(new Error("Media not found"));
+
+      const res = await apiV1.request("/media/media_private");
+
+      expect(res.status).toBe(404);
+      const body = await res.json();
+      expect(body.error).toBe("Media not found");
+      expect(mockGetMedia).toHaveBeenCalledWith("media_private", undefined, {
+        role: "VIEWER",
+        personId: "person_self",
+      });
+    });
+  });
+
+  describe("POST /media", () => {
+    it("should upload the file for the person", async () => {
+      mockUploadMedia.mockResolvedValueOnce(makePersonMedia("media_new"));
+
+      const res = await apiV1.request("/media", {
+        method: "POST",
+        body: JSON.stringify(uploadInput),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(201);
+      expect(mockUploadMedia).toHaveBeenCalledWith(
+        "person_1",
+        "photo.jpg",
+        "image/jpeg",
+        1024,
+        "aGVsbG8=",
+        "Wedding",
+        undefined,
+        undefined,
+        undefined,
+        "test-user-123"
+      );
+    });
+
+    it("should submit the upload for review when edits require approval", async () => {
+      mockRequiresEditApproval.mockResolvedValueOnce(true);
+      mockSubmitUpload.mockResolvedValueOnce({
+        pendingApproval: true,
+        suggestionId: "suggestion_1",
+      });
+
+      const res = await apiV1.request("/media", {
+        method: "POST",
+        body: JSON.stringify(uploadInput),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(202);
+      const body = await res.json();
+      expect(body).toEqual({
+        pendingApproval: true,
+        suggestionId: "suggestion_1",
+      });
+      expect(mockRequiresEditApproval).toHaveBeenCalledWith("MEMBER");
+      expect(mockSubmitUpload).toHaveBeenCalledWith(
+        uploadInput,
+        "test-user-123"
+      );
+      expect(mockUploadMedia).not.toHaveBeenCalled();
+    });
+
+    it("should return 400 for a held upload that is too large", async () => {
+      mockRequiresEditApproval.mockResolvedValueOnce(true);
+      mockSubmitUpload.mockRejectedValueOnce(
+        new Error("File too large: photos can be at most 20MB")
+      );
+
+      const res = await apiV1.request("/media", {
+        method: "POST",
+        body: JSON.stringify(uploadInput),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(400);
+      expect(mockSubmitEditForApproval).not.toHaveBeenCalled();
+    });
+
+    it("should return 400 for a file that is too large", async () => {
+      mockUploadMedia.mockRejectedValueOnce(
+        new Error("File too large: photos can be at most 20MB")
+      );
+
+      const res = await apiV1.request("/media", {
+        method: "POST",
+        body: JSON.stringify(uploadInput),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("PUT /media/:id", () => {
+    it("should update the metadata", async () => {
+      mockUpdateMedia.mockResolvedValueOnce(makeMediaObject("media_1"));
+
+      const res = await apiV1.request("/media/media_1", {
+        method: "PUT",
+        body: JSON.stringify({ title: "Wedding day" }),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(200);
+      expect(mockUpdateMedia).toHaveBeenCalledWith(
+        "media_1",
+        "Wedding day",
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        "test-user-123"
+      );
+    });
+
+    it("should submit the edit for review when edits require approval", async () => {
+      mockRequiresEditApproval.mockResolvedValueOnce(true);
+      mockSubmitEditForApproval.mockResolvedValueOnce({
+        pendingApproval: true,
+        suggestionId: "suggestion_1",
+      });
+
+      const res = await apiV1.request("/media/media_1", {
+        method: "PUT",
+        body: JSON.stringify({ title: "Wedding day" }),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(202);
+      expect(mockSubmitEditForApproval).toHaveBeenCalledWith(
+        "UPDATE_MEDIA",
+        null,
+        { mediaId: "media_1", title: "Wedding day" },
+        "test-user-123"
+      );
+      expect(mockUpdateMedia).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("DELETE /media/:id", () => {
+    it("should return 204", async () => {
+      mockDeleteMedia.mockResolvedValueOnce({ success: true });
+
+      const res = await apiV1.request("/media/media_1", {
+        method: "DELETE",
+      });
+
+      expect(res.status).toBe(204);
+      expect(mockDeleteMedia).toHaveBeenCalledWith("media_1", "test-user-123");
+    });
+
+    it("should return 404 for missing media", async () => {
+      mockDeleteMedia.mockRejectedValueOnce(new Error("Media not found"));
+
+      const res = await apiV1.request("/media/missing", {
+        method: "DELETE",
+      });
+
+      expect(res.status).toBe(404);
+    });
+  });
+});
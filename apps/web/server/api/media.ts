@@ -0,0 +1,456 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
+import {
+  apiMediaObjectSchema,
+  apiMediaUploadSchema,
+  apiPersonMediaSchema,
+  cursorPaginatedResponseSchema,
+  errorResponseSchema,
+  mediaMetadataSchema,
+  pendingApprovalResponseSchema,
+} from "@vamsa/schemas";
+import {
+  deleteMediaLogic as serverDeleteMedia,
+  getMediaObjectLogic as serverGetMedia,
+  getPersonMediaLogic as serverListMedia,
+  submitMediaUploadForApprovalLogic as serverSubmitUpload,
+  updateMediaMetadataLogic as serverUpdateMedia,
+  uploadMediaLogic as serverUploadMedia,
+} from "@vamsa/lib/server/business/media";
+import {
+  requiresEditApprovalData,
+  submitEditForApprovalData,
+} from "@vamsa/lib/server/business";
+import { loggers } from "@vamsa/lib/logger";
+import { paginateQuery } from "@vamsa/lib/server";
+import type { UserRole } from "@vamsa/schemas";
+
+const log = loggers.api;
+
+const mediaRouter = new OpenAPIHono();
+
+const mediaIdParamSchema = z
+  .object({
+    id: z.string().openapi({
+      description: "Media object ID",
+      example: "media_123",
+    }),
+  })
+  .openapi({
+    description: "Path parameters for media endpoint",
+  });
+
+/**
+ * GET /api/v1/media
+ * List a person's media with cursor-based pagination
+ */
+const listMediaRoute = createRoute({
+  method: "get",
+  path: "/",
+  tags: ["Media"],
+  summary: "List media for a person",
+  description:
+    "Get a person's photos and documents in display order with cursor-based pagination. Media hidden by privacy settings is left out.",
+  operationId: "listMedia",
+  request: {
+    query: z
+      .object({
+        personId: z.string().min(1).openapi({
+          description: "Person whose media to list",
+          example: "person_123",
+        }),
+        cursor: z.string().optional().openapi({
+          description:
+            "Cursor for the next page (from nextCursor in previous response)",
+          example: "bWVkaWFfMTAw",
+        }),
+        limit: z.coerce.number().int().min(1).max(100).default(20).openapi({
+          description: "Items per page (max 100)",
+          example: 20,
+        }),
+      })
+      .openapi({
+        description: "Query parameters for listing media",
+      }),
+  },
+  responses: {
+    200: {
+      description: "Media retrieved successfully",
+      content: {
+        "application/json": {
+          schema: cursorPaginatedResponseSchema(apiPersonMediaSchema),
+        },
+      },
+    },
+    404: {
+      description: "Person not found",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+mediaRouter.openapi(listMediaRoute, async (c) => {
+  try {
+    const { personId, cursor, limit } = c.req.valid("query");
+    const user = c.get("user");
+
+    const { items } = await serverListMedia(personId, undefined, {
+      role: user.role as UserRole,
+      personId: user.personId,
+    });
+
+    const paginated = paginateQuery(items, limit, cursor, (item) => item.id);
+
+    return c.json(paginated, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      return c.json({ error: "Person not found" }, { status: 404 });
+    }
+
+    log.withErr(error).msg("Error listing media");
+    return c.json({ error: "Failed to list media" }, { status: 500 });
+  }
+});
+
+/**
+ * POST /api/v1/media
+ * Upload media for a person
+ */
+const uploadMediaRoute = createRoute({
+  method: "post",
+  path: "/",
+  tags: ["Media"],
+  summary: "Upload media",
+  description:
+    "Upload a base64-encoded photo, PDF, audio or video file and link it to a person. Each kind of file has a size limit set by admins (by default 20MB for photos and PDFs, 100MB for audio and 200MB for video). The person's first photo becomes their primary photo. Submitted for review instead when edits require approval.",
+  operationId: "uploadMedia",
+  request: {
+    body: {
+      required: true,
+      content: {
+        "application/json": {
+          schema: apiMediaUploadSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    201: {
+      description: "Media uploaded successfully",
+      content: {
+        "application/json": {
+          schema: apiPersonMediaSchema,
+        },
+      },
+    },
+    202: {
+      description: "Upload submitted for review, as edits require approval",
+      content: {
+        "application/json": {
+          schema: pendingApprovalResponseSchema,
+        },
+      },
+    },
+    400: {
+      description:
+        "Validation error, unknown person, unsupported file type or file too large",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+mediaRouter.openapi(uploadMediaRoute, async (c) => {
+  try {
+    const data = c.req.valid("json");
+    const user = c.get("user");
+    if (await requiresEditApprovalData(user.role as UserRole)) {
+      const pending = await serverSubmitUpload(data, user.id);
+      return c.json(pending, { status: 202 });
+    }
+    const result = await serverUploadMedia(
+      data.personId,
+      data.fileName,
+      data.mimeType,
+      data.fileSize,
+      data.base64Data,
+      data.title,
+      data.caption,
+      data.description,
+      data.source,
+      user.id
+    );
+    return c.json(result, { status: 201 });
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      (error.message.includes("not found") ||
+        error.message.startsWith("File too large") ||
+        error.message.startsWith("Unsupported file type"))
+    ) {
+      return c.json({ error: error.message }, { status: 400 });
+    }
+
+    log.withErr(error).msg("Error uploading media");
+    return c.json({ error: "Failed to upload media" }, { status: 500 });
+  }
+});
+
+/**
+ * GET /api/v1/media/:id
+ * Get a single media object
+ */
+const getMediaRoute = createRoute({
+  method: "get",
+  path: "/:id",
+  tags: ["Media"],
+  summary: "Get media by ID",
+  description: "Retrieve a media object with its person and event links",
+  operationId: "getMedia",
+  request: {
+    params: mediaIdParamSchema,
+  },
+  responses: {
+    200: {
+      description: "Media found",
+      content: {
+        "application/json": {
+          schema: apiMediaObjectSchema,
+        },
+      },
+    },
+    404: {
+      description: "Media not found",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+mediaRouter.openapi(getMediaRoute, async (c) => {
+  try {
+    const { id } = c.req.valid("param");
+    const user = c.get("user");
+
+    const result = await serverGetMedia(id, undefined, {
+      role: user.role as UserRole,
+      personId: user.personId,
+    });
+
+    return c.json(result, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      return c.json({ error: "Media not found" }, { status: 404 });
+    }
+
+    log.withErr(error).msg("Error getting media");
+    return c.json({ error: "Failed to get media" }, { status: 500 });
+  }
+});
+
+/**
+ * PUT /api/v1/media/:id
+ * Update media metadata
+ */
+const updateMediaRoute = createRoute({
+  method: "put",
+  path: "/:id",
+  tags: ["Media"],
+  summary: "Update media metadata",
+  description:
+    "Update a media object's title, description, source, caption or privacy",
+  operationId: "updateMedia",
+  request: {
+    params: mediaIdParamSchema,
+    body: {
+      required: true,
+      content: {
+        "application/json": {
+          schema: mediaMetadataSchema.omit({ mediaId: true }),
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Media updated successfully",
+      content: {
+        "application/json": {
+          schema: apiMediaObjectSchema,
+        },
+      },
+    },
+    202: {
+      description: "Edit submitted for review, as edits require approval",
+      content: {
+        "application/json": {
+          schema: pendingApprovalResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: "Validation error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Media not found",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+mediaRouter.openapi(updateMediaRoute, async (c) => {
+  try {
+    const { id } = c.req.valid("param");
+    const data = c.req.valid("json");
+    const user = c.get("user");
+    if (await requiresEditApprovalData(user.role as UserRole)) {
+      const pending = await submitEditForApprovalData(
+        "UPDATE_MEDIA",
+        null,
+        { mediaId: id, ...data },
+        user.id
+      );
+      return c.json(pending, { status: 202 });
+    }
+    const result = await serverUpdateMedia(
+      id,
+      data.title,
+      data.description,
+      data.caption,
+      data.source,
+      data.privacy,
+      user.id
+    );
+    return c.json(result, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      return c.json({ error: "Media not found" }, { status: 404 });
+    }
+
+    log.withErr(error).msg("Error updating media");
+    return c.json({ error: "Failed to update media" }, { status: 500 });
+  }
+});
+
+/**
+ * DELETE /api/v1/media/:id
+ * Delete a media object
+ */
+const deleteMediaRoute = createRoute({
+  method: "delete",
+  path: "/:id",
+  tags: ["Media"],
+  summary: "Delete media",
+  description:
+    "Remove a media object, its person and event links and its processed images",
+  operationId: "deleteMedia",
+  request: {
+    params: mediaIdParamSchema,
+  },
+  responses: {
+    204: {
+      description: "Media deleted successfully",
+    },
+    202: {
+      description: "Edit submitted for review, as edits require approval",
+      content: {
+        "application/json": {
+          schema: pendingApprovalResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Media not found",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+mediaRouter.openapi(deleteMediaRoute, async (c) => {
+  try {
+    const { id } = c.req.valid("param");
+    const user = c.get("user");
+    if (await requiresEditApprovalData(user.role as UserRole)) {
+      const pending = await submitEditForApprovalData(
+        "DELETE_MEDIA",
+        null,
+        { mediaId: id },
+        user.id
+      );
+      return c.json(pending, { status: 202 });
+    }
+    await serverDeleteMedia(id, user.id);
+    return c.body(null, 204);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      return c.json({ error: "Media not found" }, { status: 404 });
+    }
+
+    log.withErr(error).msg("Error deleting media");
+    return c.json({ error: "Failed to delete media" }, { status: 500 });
+  }
+});
+
+export default mediaRouter;
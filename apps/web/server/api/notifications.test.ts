@@ -0,0 +1,259 @@
+/* eslint-disable import/first */
+/**
+ * Unit tests for Notifications API endpoints
+ *
+ * Tests verify:
+ * - Listing requires a session and returns the user's inbox with its unread count
+ * - Filters and cursor pagination are applied
+ * - Marking one notification read returns 404 for other users' notifications
+ * - Marking all notifications read honours the type filter
+ * - Preferences can be read and partially updated, and are validated
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const {
+  mockListInboxNotificationsData,
+  mockMarkNotificationReadData,
+  mockMarkAllNotificationsReadData,
+  mockGetNotificationPreferencesData,
+  mockUpdateNotificationPreferencesData,
+  mockBetterAuthGetSessionWithUser,
+} = vi.hoisted(() => ({
+  mockListInboxNotificationsData: vi.fn(),
+  mockMarkNotificationReadData: vi.fn(),
+  mockMarkAllNotificationsReadData: vi.fn(),
+  mockGetNotificationPreferencesData: vi.fn(),
+  mockUpdateNotificationPreferencesData: vi.fn(),
+  mockBetterAuthGetSessionWithUser: vi.fn(),
+}));
+
+vi.mock("@vamsa/lib/server/business", () => ({
+  listInboxNotificationsData: mockListInboxNotificationsData,
+  markNotificationReadData: mockMarkNotificationReadData,
+  markAllNotificationsReadData: mockMarkAllNotificationsReadData,
+  getNotificationPreferencesData: mockGetNotificationPreferencesData,
+  updateNotificationPreferencesData: mockUpdateNotificationPreferencesData,
+}));
+
+vi.mock("@vamsa/lib/server/business/auth-better-api", () => ({
+  betterAuthGetSessionWithUser: mockBetterAuthGetSessionWithUser,
+}));
+
+// Import after mocks
+import apiV1 from "./index";
+
+function inboxItem(id: string) {
+  return {
+    id,
+    type: "birthday_reminder",
+    title: "Birthday today",
+    body: "Today is Asha Rao's birthday.",
+    data: { personId: "person-1" },
+    link: "/people/person-1",
+    readAt: null,
+    createdAt: "2026-03-01T08:00:00.000Z",
+  };
+}
+
+const instant = { email: "instant", push: "instant", inApp: "instant" };
+const preferences = {
+  timezone: "UTC",
+  quietHours: null,
+  digestHour: 8,
+  weeklyDigestDay: 1,
+  types: {
+    suggestion_created: instant,
+    suggestion_reviewed: instant,
+    new_member: instant,
+    birthday_reminder: instant,
+    anniversary_reminder: instant,
+  },
+};
+
+describe("Notifications API Routes", () => {
+  beforeEach(() => {
+    mockListInboxNotificationsData.mockReset();
+    mockMarkNotificationReadData.mockReset();
+    mockMarkAllNotificationsReadData.mockReset();
+    mockGetNotificationPreferencesData.mockReset();
+    mockUpdateNotificationPreferencesData.mockReset();
+    mockBetterAuthGetSessionWithUser.mockReset();
+    mockBetterAuthGetSessionWithUser.mockResolvedValue({
+      id: "test-user-123",
+      email: "test@example.com",
+      name: "Test User",
+      role: "VIEWER",
+      personId: null,
+      mustChangePassword: false,
+      profileClaimStatus: "CLAIMED",
+      oidcProvider: null,
+    });
+  });
+
+  describe("GET /notifications", () => {
+    it("should return 401 without a session", async () => {
+      mockBetterAuthGetSessionWithUser.mockResolvedValueOnce(null);
+
+      const res = await apiV1.request("/notifications");
+
+      expect(res.status).toBe(401);
+      expect(mockListInboxNotificationsData).not.toHaveBeenCalled();
+    });
+
+    it("should return a page of the user's inbox with the unread count", async () => {
+      mockListInboxNotificationsData.mockResolvedValueOnce({
+        items: [inboxItem("n-1"), inboxItem("n-2"), inboxItem("n-3")],
+        unreadCount: 3,
+        pagination: {},
+      });
+
+      const res = await apiV1.request(
+        "/notifications?limit=2&type=birthday_reminder&unreadOnly=true"
+      );
+      const body = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(mockListInboxNotificationsData).toHaveBeenCalledWith(
+        "test-user-123",
+        expect.objectContaining({
+          type: "birthday_reminder",
+          unreadOnly: true,
+        })
+      );
+      expect(body.items.map((item: { id: string }) => item.id)).toEqual([
+        "n-1",
+        "n-2",
+      ]);
+      expect(body.hasMore).toBe(true);
+      expect(body.unreadCount).toBe(3);
+    });
+
+    it("should reject an unknown type filter", async () => {
+      const res = await apiV1.request("/notifications?type=anniversary");
+
+      expect(res.status).toBe(400);
+      expect(mockListInboxNotificationsData).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /notifications/:id/read", () => {
+    it("should mark the notification read", async () => {
+      mockMarkNotificationReadData.mockResolvedValueOnce({
+        ...inboxItem("n-1"),
+        readAt: "2026-03-01T09:00:00.000Z",
+      });
+
+      const res = await apiV1.request("/notifications/n-1/read", {
+        method: "POST",
+      });
+      const body = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(body.readAt).toBe("2026-03-01T09:00:00.000Z");
+      expect(mockMarkNotificationReadData).toHaveBeenCalledWith(
+        "test-user-123",
+        "n-1"
+      );
+    });
+
+    it("should return 404 for another user's notification", async () => {
+      mockMarkNotificationReadData.mockRejectedValueOnce(
+        new Error("Notification not found")
+      );
+
+      const res = await apiV1.request("/notifications/n-9/read", {
+        method: "POST",
+      });
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("POST /notifications/read-all", () => {
+    it("should mark all notifications of a type read", async () => {
+      mockMarkAllNotificationsReadData.mockResolvedValueOnce(2);
+
+      const res = await apiV1.request("/notifications/read-all", {
+        method: "POST",
+        body: JSON.stringify({ type: "new_member" }),
+        headers: { "Content-Type": "application/json" },
+      });
+      const body = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(body).toEqual({ updated: 2 });
+      expect(mockMarkAllNotificationsReadData).toHaveBeenCalledWith(
+        "test-user-123",
+        "new_member"
+      );
+    });
+
+    it("should mark everything read without a body", async () => {
+      mockMarkAllNotificationsReadData.mockResolvedValueOnce(0);
+
+      const res = await apiV1.request("/notifications/read-all", {
+        method: "POST",
+      });
+
+      expect(res.status).toBe(200);
+      expect(mockMarkAllNotificationsReadData).toHaveBeenCalledWith(
+        "test-user-123",
+        undefined
+      );
+    });
+  });
+
+  describe("GET /notifications/preferences", () => {
+    it("should return the user's preferences", async () => {
+      mockGetNotificationPreferencesData.mockResolvedValueOnce(preferences);
+
+      const res = await apiV1.request("/notifications/preferences");
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual(preferences);
+      expect(mockGetNotificationPreferencesData).toHaveBeenCalledWith(
+        "test-user-123"
+      );
+    });
+  });
+
+  describe("PUT /notifications/preferences", () => {
+    it("should apply a partial update", async () => {
+      const updated = {
+        ...preferences,
+        types: {
+          ...preferences.types,
+          birthday_reminder: { ...instant, email: "daily" },
+        },
+      };
+      mockUpdateNotificationPreferencesData.mockResolvedValueOnce(updated);
+
+      const res = await apiV1.request("/notifications/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          types: { birthday_reminder: { email: "daily" } },
+        }),
+      });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual(updated);
+      expect(mockUpdateNotificationPreferencesData).toHaveBeenCalledWith(
+        "test-user-123",
+        { types: { birthday_reminder: { email: "daily" } } }
+      );
+    });
+
+    it("should reject an unknown timezone", async () => {
+      const res = await apiV1.request("/notifications/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ timezone: "Nowhere/Land" }),
+      });
+
+      expect(res.status).toBe(400);
+      expect(mockUpdateNotificationPreferencesData).not.toHaveBeenCalled();
+    });
+  });
+});
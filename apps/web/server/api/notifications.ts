@@ -0,0 +1,355 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
+import {
+  errorResponseSchema,
+  inboxListResponseSchema,
+  inboxNotificationSchema,
+  markAllNotificationsReadSchema,
+  notificationPreferencesSchema,
+  notificationPreferencesUpdateSchema,
+  notificationTypeEnum,
+} from "@vamsa/schemas";
+import {
+  getNotificationPreferencesData,
+  listInboxNotificationsData,
+  markAllNotificationsReadData,
+  markNotificationReadData,
+  updateNotificationPreferencesData,
+} from "@vamsa/lib/server/business";
+import { loggers } from "@vamsa/lib/logger";
+import { paginateQuery } from "@vamsa/lib/server";
+
+const log = loggers.api;
+
+const notificationsRouter = new OpenAPIHono();
+
+/**
+ * GET /api/v1/notifications
+ * List the signed-in user's inbox with cursor-based pagination
+ */
+const listNotificationsRoute = createRoute({
+  method: "get",
+  path: "/",
+  tags: ["Notifications"],
+  summary: "List inbox notifications",
+  description:
+    "Get the signed-in user's notifications, newest first, with the total unread count",
+  operationId: "listNotifications",
+  request: {
+    query: z
+      .object({
+        cursor: z.string().optional().openapi({
+          description:
+            "Cursor for the next page (from nextCursor in previous response)",
+          example: "eyJpZCI6Im5vdGlmaWNhdGlvbl8xMjMifQ==",
+        }),
+        limit: z.coerce.number().int().min(1).max(100).default(20).openapi({
+          description: "Items per page (max 100)",
+          example: 20,
+        }),
+        type: notificationTypeEnum.optional().openapi({
+          description: "Only return notifications of this type",
+          example: "birthday_reminder",
+        }),
+        unreadOnly: z.enum(["true", "false"]).optional().openapi({
+          description: "Only return unread notifications",
+          example: "true",
+        }),
+      })
+      .openapi({
+        description: "Query parameters for listing notifications",
+      }),
+  },
+  responses: {
+    200: {
+      description: "Notifications retrieved successfully",
+      content: {
+        "application/json": {
+          schema: inboxListResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+notificationsRouter.openapi(listNotificationsRoute, async (c) => {
+  try {
+    const { cursor, limit, type, unreadOnly } = c.req.valid("query");
+    const user = c.get("user");
+
+    const inbox = await listInboxNotificationsData(user.id, {
+      page: 1,
+      limit: 10000, // Fetch all for cursor pagination
+      type,
+      unreadOnly: unreadOnly === "true",
+    });
+
+    const paginated = paginateQuery(
+      inbox.items,
+      limit,
+      cursor,
+      (item) => item.id
+    );
+
+    return c.json(
+      { ...paginated, unreadCount: inbox.unreadCount },
+      { status: 200 }
+    );
+  } catch (error) {
+    log.withErr(error).msg("Error listing notifications");
+    return c.json({ error: "Failed to list notifications" }, { status: 500 });
+  }
+});
+
+/**
+ * POST /api/v1/notifications/read-all
+ * Mark all unread notifications read
+ */
+const markAllReadRoute = createRoute({
+  method: "post",
+  path: "/read-all",
+  tags: ["Notifications"],
+  summary: "Mark all notifications read",
+  description:
+    "Mark every unread notification of the signed-in user read, optionally only those of one type",
+  operationId: "markAllNotificationsRead",
+  request: {
+    body: {
+      required: false,
+      content: {
+        "application/json": {
+          schema: markAllNotificationsReadSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Notifications marked read",
+      content: {
+        "application/json": {
+          schema: z.object({
+            updated: z.number().int().openapi({
+              description: "Number of notifications marked read",
+              example: 3,
+            }),
+          }),
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+notificationsRouter.openapi(markAllReadRoute, async (c) => {
+  try {
+    const { type } = c.req.valid("json");
+    const user = c.get("user");
+    const updated = await markAllNotificationsReadData(user.id, type);
+    return c.json({ updated }, { status: 200 });
+  } catch (error) {
+    log.withErr(error).msg("Error marking notifications read");
+    return c.json(
+      { error: "Failed to mark notifications read" },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * GET /api/v1/notifications/preferences
+ * Get the signed-in user's notification preferences
+ */
+const getPreferencesRoute = createRoute({
+  method: "get",
+  path: "/preferences",
+  tags: ["Notifications"],
+  summary: "Get notification preferences",
+  description:
+    "Get how each notification type is delivered on email, push and in-app, plus quiet hours, timezone and digest schedule",
+  operationId: "getNotificationPreferences",
+  responses: {
+    200: {
+      description: "Preferences retrieved successfully",
+      content: {
+        "application/json": {
+          schema: notificationPreferencesSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+notificationsRouter.openapi(getPreferencesRoute, async (c) => {
+  try {
+    const user = c.get("user");
+    const preferences = await getNotificationPreferencesData(user.id);
+    return c.json(preferences, { status: 200 });
+  } catch (error) {
+    log.withErr(error).msg("Error getting notification preferences");
+    return c.json(
+      { error: "Failed to get notification preferences" },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PUT /api/v1/notifications/preferences
+ * Update the signed-in user's notification preferences
+ */
+const updatePreferencesRoute = createRoute({
+  method: "put",
+  path: "/preferences",
+  tags: ["Notifications"],
+  summary: "Update notification preferences",
+  description:
+    "Update notification preferences. Omitted fields keep their current value.",
+  operationId: "updateNotificationPreferences",
+  request: {
+    body: {
+      content: {
+        "application/json": {
+          schema: notificationPreferencesUpdateSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Preferences updated successfully",
+      content: {
+        "application/json": {
+          schema: notificationPreferencesSchema,
+        },
+      },
+    },
+    400: {
+      description: "Invalid preferences",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+notificationsRouter.openapi(updatePreferencesRoute, async (c) => {
+  try {
+    const update = c.req.valid("json");
+    const user = c.get("user");
+    const preferences = await updateNotificationPreferencesData(
+      user.id,
+      update
+    );
+    return c.json(preferences, { status: 200 });
+  } catch (error) {
+    log.withErr(error).msg("Error updating notification preferences");
+    return c.json(
+      { error: "Failed to update notification preferences" },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/v1/notifications/:id/read
+ * Mark one notification read
+ */
+const markReadRoute = createRoute({
+  method: "post",
+  path: "/:id/read",
+  tags: ["Notifications"],
+  summary: "Mark a notification read",
+  description: "Mark one of the signed-in user's notifications read",
+  operationId: "markNotificationRead",
+  request: {
+    params: z
+      .object({
+        id: z.string().openapi({
+          description: "Notification ID",
+          example: "notification_123",
+        }),
+      })
+      .openapi({
+        description: "Path parameters for notification endpoint",
+      }),
+  },
+  responses: {
+    200: {
+      description: "Notification marked read",
+      content: {
+        "application/json": {
+          schema: inboxNotificationSchema,
+        },
+      },
+    },
+    404: {
+      description: "Notification not found",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+notificationsRouter.openapi(markReadRoute, async (c) => {
+  try {
+    const { id } = c.req.valid("param");
+    const user = c.get("user");
+    const notification = await markNotificationReadData(user.id, id);
+    return c.json(notification, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      return c.json({ error: "Notification not found" }, { status: 404 });
+    }
+    log.withErr(error).msg("Error marking notification read");
+    return c.json(
+      { error: "Failed to mark notification read" },
+      { status: 500 }
+    );
+  }
+});
+
+export default notificationsRouter;
@@ -2,17 +2,22 @@ import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
 import {
   cursorPaginatedResponseSchema,
   errorResponseSchema,
+  genealogicalDateSchema,
+  pendingApprovalResponseSchema,
   personCreateSchema,
 } from "@vamsa/schemas";
 import {
+  requiresEditApprovalData,
   createPersonData as serverCreatePerson,
   deletePersonData as serverDeletePerson,
   getPersonData as serverGetPerson,
   listPersonsData as serverListPersons,
   updatePersonData as serverUpdatePerson,
+  submitEditForApprovalData,
 } from "@vamsa/lib/server/business";
 import { loggers } from "@vamsa/lib/logger";
 import { paginateQuery } from "@vamsa/lib/server";
+import type { UserRole } from "@vamsa/schemas";
 
 const log = loggers.api;
 
@@ -45,6 +50,8 @@ const personSchema = z
       description: "Date of death in ISO format",
       example: "2020-05-20",
     }),
+    dateOfBirthDetail: genealogicalDateSchema.nullable().optional(),
+    dateOfPassingDetail: genealogicalDateSchema.nullable().optional(),
     birthPlace: z.string().nullable().optional().openapi({
       description: "Place of birth",
       example: "New York, NY",
@@ -73,6 +80,16 @@ const personSchema = z
       description: "Whether person is currently living",
       example: true,
     }),
+    privacy: z.string().nullable().optional().openapi({
+      description:
+        "Explicit privacy level (PUBLIC, MEMBERS_ONLY, ADMIN_ONLY); null inherits the family default",
+      example: "MEMBERS_ONLY",
+    }),
+    isRedacted: z.boolean().optional().openapi({
+      description:
+        "True when name and details were replaced by placeholders for this caller",
+      example: false,
+    }),
     createdAt: z.string().openapi({
       description: "Creation timestamp",
       example: "2024-01-14T10:00:00Z",
@@ -186,15 +203,21 @@ personsRouter.openapi(listPersonsRoute, async (c) => {
       );
     }
 
+    const user = c.get("user");
+
     // Fetch all matching persons with filters (in production, this would use database query)
-    const allPersons = await serverListPersons({
-      page: 1,
-      limit: 10000, // Fetch all for cursor pagination
-      search,
-      sortBy: sortBy,
-      sortOrder: sortOrder,
-      isLiving,
-    });
+    const allPersons = await serverListPersons(
+      {
+        page: 1,
+        limit: 10000, // Fetch all for cursor pagination
+        search,
+        sortBy: sortBy,
+        sortOrder: sortOrder,
+        isLiving,
+      },
+      undefined,
+      { role: user.role as UserRole, personId: user.personId }
+    );
 
     // Apply cursor-based pagination
     const paginated = paginateQuery(
@@ -370,7 +393,11 @@ personsRouter.openapi(getPersonRoute, async (c) => {
       return c.json({ error: "Person ID is required" }, { status: 400 });
     }
 
-    const result = await serverGetPerson(id);
+    const user = c.get("user");
+    const result = await serverGetPerson(id, undefined, {
+      role: user.role as UserRole,
+      personId: user.personId,
+    });
 
     if (!result) {
       return c.json({ error: "Person not found" }, { status: 404 });
@@ -432,6 +459,14 @@ const updatePersonRoute = createRoute({
         },
       },
     },
+    202: {
+      description: "Edit submitted for review, as edits require approval",
+      content: {
+        "application/json": {
+          schema: pendingApprovalResponseSchema,
+        },
+      },
+    },
     400: {
       description: "Validation error or invalid ID",
       content: {
@@ -478,6 +513,15 @@ personsRouter.openapi(updatePersonRoute, async (c) => {
     const data = c.req.valid("json");
     const user = c.get("user");
     const userId = user.id;
+    if (await requiresEditApprovalData(user.role as UserRole)) {
+      const pending = await submitEditForApprovalData(
+        "UPDATE",
+        id,
+        data,
+        user.id
+      );
+      return c.json(pending, { status: 202 });
+    }
     const result = await serverUpdatePerson(id, data, userId);
 
     if (!result) {
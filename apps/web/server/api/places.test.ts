@@ -0,0 +1,250 @@
+/* eslint-disable import/first */
+/**
+ * Unit tests for Places API endpoints
+ *
+ * Tests verify:
+ * - Reads require VIEWER, writes require MEMBER
+ * - Listing is cursor-paginated and switches to name search with `search`
+ * - Business errors map to 400/404/409 responses
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const {
+  mockListPlaces,
+  mockSearchPlaces,
+  mockGetPlace,
+  mockCreatePlace,
+  mockUpdatePlace,
+  mockDeletePlace,
+  mockBetterAuthGetSessionWithUser,
+} = vi.hoisted(() => ({
+  mockListPlaces: vi.fn(),
+  mockSearchPlaces: vi.fn(),
+  mockGetPlace: vi.fn(),
+  mockCreatePlace: vi.fn(),
+  mockUpdatePlace: vi.fn(),
+  mockDeletePlace: vi.fn(),
+  mockBetterAuthGetSessionWithUser: vi.fn(),
+}));
+
+vi.mock("@vamsa/lib/server/business", () => ({
+  listPlacesData: mockListPlaces,
+  searchPlacesData: mockSearchPlaces,
+  getPlaceData: mockGetPlace,
+  createPlaceData: mockCreatePlace,
+  updatePlaceData: mockUpdatePlace,
+  deletePlaceData: mockDeletePlace,
+}));
+
+vi.mock("@vamsa/lib/server/business/auth-better-api", () => ({
+  betterAuthGetSessionWithUser: mockBetterAuthGetSessionWithUser,
+}));
+
+// Import after mocks
+import apiV1 from "./index";
+
+const sessionUser = (role: string) => ({
+  id: "test-user-123",
+  email: "test@example.com",
+  name: "Test User",
+  role,
+  personId: "person_self",
+  mustChangePassword: false,
+  profileClaimStatus: "CLAIMED",
+  oidcProvider: null,
+});
+
+const makePlace = (id: string) => ({
+  id,
+  name: "Pune",
+  placeType: "CITY",
+  latitude: null,
+  longitude: null,
+  parentId: null,
+  description: null,
+  alternativeNames: null,
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  parentName: null,
+});
+
+describe("Places API Routes", () => {
+  beforeEach(() => {
+    mockListPlaces.mockReset();
+    mockSearchPlaces.mockReset();
+    mockGetPlace.mockReset();
+    mockCreatePlace.mockReset();
+    mockUpdatePlace.mockReset();
+    mockDeletePlace.mockReset();
+    mockBetterAuthGetSessionWithUser.mockReset();
+    mockBetterAuthGetSessionWithUser.mockResolvedValue(sessionUser("MEMBER"));
+  });
+
+  describe("Authentication", () => {
+    it("should return 401 without a session", async () => {
+      mockBetterAuthGetSessionWithUser.mockResolvedValueOnce(null);
+
+      const res = await apiV1.request("/places");
+
+      expect(res.status).toBe(401);
+      expect(mockListPlaces).not.toHaveBeenCalled();
+    });
+
+    it("should let viewers read places", async () => {
+      mockBetterAuthGetSessionWithUser.mockResolvedValue(sessionUser("VIEWER"));
+      mockListPlaces.mockResolvedValueOnce([makePlace("place_1")]);
+
+      const res = await apiV1.request("/places");
+
+      expect(res.status).toBe(200);
+    });
+
+    it("should return 403 when a viewer writes", async () => {
+      mockBetterAuthGetSessionWithUser.mockResolvedValue(sessionUser("VIEWER"));
+
+      const res = await apiV1.request("/places", {
+        method: "POST",
+        body: JSON.stringify({ name: "Pune", placeType: "CITY" }),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(403);
+      expect(mockCreatePlace).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("GET /places", () => {
+    it("should paginate places", async () => {
+      mockListPlaces.mockResolvedValueOnce([
+        makePlace("place_1"),
+        makePlace("place_2"),
+        makePlace("place_3"),
+      ]);
+
+      const res = await apiV1.request("/places?limit=2");
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.items.map((p: { id: string }) => p.id)).toEqual([
+        "place_1",
+        "place_2",
+      ]);
+      expect(body.hasMore).toBe(true);
+      expect(mockSearchPlaces).not.toHaveBeenCalled();
+    });
+
+    it("should search by name", async () => {
+      mockSearchPlaces.mockResolvedValueOnce([makePlace("place_1")]);
+
+      const res = await apiV1.request("/places?search=Pun");
+
+      expect(res.status).toBe(200);
+      expect(mockSearchPlaces).toHaveBeenCalledWith("Pun");
+      expect(mockListPlaces).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("GET /places/:id", () => {
+    it("should return the place with its usage counts", async () => {
+      mockGetPlace.mockResolvedValueOnce({
+        ...makePlace("place_1"),
+        parent: null,
+        childCount: 2,
+        eventCount: 5,
+        personCount: 3,
+      });
+
+      const res = await apiV1.request("/places/place_1");
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.eventCount).toBe(5);
+    });
+
+    it("should return 404 for a missing place", async () => {
+      mockGetPlace.mockRejectedValueOnce(new Error("Place not found"));
+
+      const res = await apiV1.request("/places/missing");
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("POST /places", () => {
+    it("should create a place", async () => {
+      mockCreatePlace.mockResolvedValueOnce(makePlace("place_new"));
+
+      const res = await apiV1.request("/places", {
+        method: "POST",
+        body: JSON.stringify({ name: "Pune", placeType: "CITY" }),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(201);
+      expect(mockCreatePlace).toHaveBeenCalledWith(
+        expect.objectContaining({ name: "Pune", placeType: "CITY" }),
+        "test-user-123"
+      );
+    });
+
+    it("should return 400 for an unknown parent place", async () => {
+      mockCreatePlace.mockRejectedValueOnce(
+        new Error("Parent place not found")
+      );
+
+      const res = await apiV1.request("/places", {
+        method: "POST",
+        body: JSON.stringify({
+          name: "Pune",
+          placeType: "CITY",
+          parentId: "missing",
+        }),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("PUT /places/:id", () => {
+    it("should return 400 when the place would be its own parent", async () => {
+      mockUpdatePlace.mockRejectedValueOnce(
+        new Error("A place cannot be its own parent")
+      );
+
+      const res = await apiV1.request("/places/place_1", {
+        method: "PUT",
+        body: JSON.stringify({ parentId: "place_1" }),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("DELETE /places/:id", () => {
+    it("should return 204", async () => {
+      mockDeletePlace.mockResolvedValueOnce({ success: true });
+
+      const res = await apiV1.request("/places/place_1", {
+        method: "DELETE",
+      });
+
+      expect(res.status).toBe(204);
+      expect(mockDeletePlace).toHaveBeenCalledWith("place_1", "test-user-123");
+    });
+
+    it("should return 409 while the place is still in use", async () => {
+      mockDeletePlace.mockRejectedValueOnce(
+        new Error("Cannot delete place with 2 events")
+      );
+
+      const res = await apiV1.request("/places/place_1", {
+        method: "DELETE",
+      });
+
+      expect(res.status).toBe(409);
+    });
+  });
+});
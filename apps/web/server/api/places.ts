@@ -0,0 +1,376 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
+import {
+  apiPlaceDetailSchema,
+  apiPlaceSchema,
+  cursorPaginatedResponseSchema,
+  errorResponseSchema,
+  placeCreateSchema,
+  placeUpdateBodySchema,
+} from "@vamsa/schemas";
+import {
+  createPlaceData as serverCreatePlace,
+  deletePlaceData as serverDeletePlace,
+  getPlaceData as serverGetPlace,
+  listPlacesData as serverListPlaces,
+  searchPlacesData as serverSearchPlaces,
+  updatePlaceData as serverUpdatePlace,
+} from "@vamsa/lib/server/business";
+import { loggers } from "@vamsa/lib/logger";
+import { paginateQuery } from "@vamsa/lib/server";
+
+const log = loggers.api;
+
+const placesRouter = new OpenAPIHono();
+
+const placeIdParamSchema = z
+  .object({
+    id: z.string().openapi({
+      description: "Place ID",
+      example: "place_123",
+    }),
+  })
+  .openapi({
+    description: "Path parameters for place endpoint",
+  });
+
+/**
+ * GET /api/v1/places
+ * List places with cursor-based pagination and optional name search
+ */
+const listPlacesRoute = createRoute({
+  method: "get",
+  path: "/",
+  tags: ["Places"],
+  summary: "List places",
+  description:
+    "Get places sorted by type then name, with cursor-based pagination. Pass `search` to filter by name (max 50 matches).",
+  operationId: "listPlaces",
+  request: {
+    query: z
+      .object({
+        search: z.string().optional().openapi({
+          description: "Case-insensitive name filter",
+          example: "Pune",
+        }),
+        cursor: z.string().optional().openapi({
+          description:
+            "Cursor for the next page (from nextCursor in previous response)",
+          example: "cGxhY2VfMTAw",
+        }),
+        limit: z.coerce.number().int().min(1).max(100).default(20).openapi({
+          description: "Items per page (max 100)",
+          example: 20,
+        }),
+      })
+      .openapi({
+        description: "Query parameters for listing places",
+      }),
+  },
+  responses: {
+    200: {
+      description: "Places retrieved successfully",
+      content: {
+        "application/json": {
+          schema: cursorPaginatedResponseSchema(apiPlaceSchema),
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+placesRouter.openapi(listPlacesRoute, async (c) => {
+  try {
+    const { search, cursor, limit } = c.req.valid("query");
+
+    const places = search
+      ? await serverSearchPlaces(search)
+      : await serverListPlaces();
+
+    const paginated = paginateQuery(places, limit, cursor, (item) => item.id);
+
+    return c.json(paginated, { status: 200 });
+  } catch (error) {
+    log.withErr(error).msg("Error listing places");
+    return c.json({ error: "Failed to list places" }, { status: 500 });
+  }
+});
+
+/**
+ * POST /api/v1/places
+ * Create a place
+ */
+const createPlaceRoute = createRoute({
+  method: "post",
+  path: "/",
+  tags: ["Places"],
+  summary: "Create a place",
+  description: "Add a place, optionally nested under a parent place",
+  operationId: "createPlace",
+  request: {
+    body: {
+      required: true,
+      content: {
+        "application/json": {
+          schema: placeCreateSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    201: {
+      description: "Place created successfully",
+      content: {
+        "application/json": {
+          schema: apiPlaceSchema,
+        },
+      },
+    },
+    400: {
+      description: "Validation error or unknown parent place",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+placesRouter.openapi(createPlaceRoute, async (c) => {
+  try {
+    const data = c.req.valid("json");
+    const user = c.get("user");
+    const result = await serverCreatePlace(data, user.id);
+    return c.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      return c.json({ error: error.message }, { status: 400 });
+    }
+
+    log.withErr(error).msg("Error creating place");
+    return c.json({ error: "Failed to create place" }, { status: 500 });
+  }
+});
+
+/**
+ * GET /api/v1/places/:id
+ * Get a single place
+ */
+const getPlaceRoute = createRoute({
+  method: "get",
+  path: "/:id",
+  tags: ["Places"],
+  summary: "Get a place by ID",
+  description: "Retrieve a place with its parent and usage counts",
+  operationId: "getPlace",
+  request: {
+    params: placeIdParamSchema,
+  },
+  responses: {
+    200: {
+      description: "Place found",
+      content: {
+        "application/json": {
+          schema: apiPlaceDetailSchema,
+        },
+      },
+    },
+    404: {
+      description: "Place not found",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+placesRouter.openapi(getPlaceRoute, async (c) => {
+  try {
+    const { id } = c.req.valid("param");
+    const result = await serverGetPlace(id);
+    return c.json(result, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      return c.json({ error: "Place not found" }, { status: 404 });
+    }
+
+    log.withErr(error).msg("Error getting place");
+    return c.json({ error: "Failed to get place" }, { status: 500 });
+  }
+});
+
+/**
+ * PUT /api/v1/places/:id
+ * Update a place
+ */
+const updatePlaceRoute = createRoute({
+  method: "put",
+  path: "/:id",
+  tags: ["Places"],
+  summary: "Update a place",
+  description:
+    "Update a place's details or move it under another parent. A place cannot be its own parent.",
+  operationId: "updatePlace",
+  request: {
+    params: placeIdParamSchema,
+    body: {
+      required: true,
+      content: {
+        "application/json": {
+          schema: placeUpdateBodySchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Place updated successfully",
+      content: {
+        "application/json": {
+          schema: apiPlaceSchema,
+        },
+      },
+    },
+    400: {
+      description: "Validation error or invalid parent place",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Place not found",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+placesRouter.openapi(updatePlaceRoute, async (c) => {
+  try {
+    const { id } = c.req.valid("param");
+    const data = c.req.valid("json");
+    const user = c.get("user");
+    const result = await serverUpdatePlace(id, data, user.id);
+    return c.json(result, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === "Place not found") {
+        return c.json({ error: "Place not found" }, { status: 404 });
+      }
+      if (error.message.includes("parent")) {
+        return c.json({ error: error.message }, { status: 400 });
+      }
+    }
+
+    log.withErr(error).msg("Error updating place");
+    return c.json({ error: "Failed to update place" }, { status: 500 });
+  }
+});
+
+/**
+ * DELETE /api/v1/places/:id
+ * Delete a place
+ */
+const deletePlaceRoute = createRoute({
+  method: "delete",
+  path: "/:id",
+  tags: ["Places"],
+  summary: "Delete a place",
+  description:
+    "Remove a place. Fails while child places, events or person links still reference it.",
+  operationId: "deletePlace",
+  request: {
+    params: placeIdParamSchema,
+  },
+  responses: {
+    204: {
+      description: "Place deleted successfully",
+    },
+    404: {
+      description: "Place not found",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    409: {
+      description: "Place is still in use",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+placesRouter.openapi(deletePlaceRoute, async (c) => {
+  try {
+    const { id } = c.req.valid("param");
+    const user = c.get("user");
+    await serverDeletePlace(id, user.id);
+    return c.body(null, 204);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes("not found")) {
+        return c.json({ error: "Place not found" }, { status: 404 });
+      }
+      if (error.message.startsWith("Cannot delete place")) {
+        return c.json({ error: error.message }, { status: 409 });
+      }
+    }
+
+    log.withErr(error).msg("Error deleting place");
+    return c.json({ error: "Failed to delete place" }, { status: 500 });
+  }
+});
+
+export default placesRouter;
@@ -1,18 +1,25 @@
 /* eslint-disable @typescript-eslint/no-explicit-any, @typescript-eslint/no-unnecessary-type-assertion */
 import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
 import {
+  consistencyIssueSchema,
   cursorPaginatedResponseSchema,
   errorResponseSchema,
+  parentPedigreeEnum,
+  pendingApprovalResponseSchema,
   relationshipCreateSchema,
+  relationshipTypeEnum,
 } from "@vamsa/schemas";
 import {
+  requiresEditApprovalData,
   createRelationshipData as serverCreateRelationship,
   deleteRelationshipData as serverDeleteRelationship,
   listRelationshipsData as serverGetRelationships,
   updateRelationshipData as serverUpdateRelationship,
+  submitEditForApprovalData,
 } from "@vamsa/lib/server/business";
 import { loggers } from "@vamsa/lib/logger";
 import { paginateQuery } from "@vamsa/lib/server";
+import type { UserRole } from "@vamsa/schemas";
 
 const log = loggers.api;
 
@@ -33,10 +40,15 @@ const relationshipSchema = z
       description: "Related person ID",
       example: "person_456",
     }),
-    type: z.enum(["PARENT", "CHILD", "SPOUSE", "SIBLING"]).openapi({
+    type: relationshipTypeEnum.openapi({
       description: "Type of relationship",
       example: "PARENT",
     }),
+    pedigree: parentPedigreeEnum.nullable().optional().openapi({
+      description:
+        "How a parent is related to the child, for PARENT and CHILD relationships",
+      example: "ADOPTED",
+    }),
     marriageDate: z.string().nullable().optional().openapi({
       description: "Marriage date for SPOUSE relationships",
       example: "2010-06-15",
@@ -45,6 +57,14 @@ const relationshipSchema = z
       description: "Divorce date if applicable",
       example: "2015-03-20",
     }),
+    startDate: z.string().nullable().optional().openapi({
+      description: "Start date for PARTNER relationships",
+      example: "2008-09-01",
+    }),
+    endDate: z.string().nullable().optional().openapi({
+      description: "End date for PARTNER relationships, if it ended",
+      example: "2012-01-31",
+    }),
     createdAt: z.string().openapi({
       description: "Creation timestamp",
       example: "2024-01-14T10:00:00Z",
@@ -53,6 +73,10 @@ const relationshipSchema = z
       description: "Last update timestamp",
       example: "2024-01-14T15:30:00Z",
     }),
+    warnings: z.array(consistencyIssueSchema).optional().openapi({
+      description:
+        "Data consistency warnings raised by creating the relationship",
+    }),
   })
   .openapi("Relationship");
 
@@ -65,6 +89,18 @@ const relationshipUpdateSchema = z.object({
     description: "Divorce date",
     example: "2015-03-20",
   }),
+  pedigree: parentPedigreeEnum.optional().nullable().openapi({
+    description: "Parent pedigree",
+    example: "ADOPTED",
+  }),
+  startDate: z.string().optional().nullable().openapi({
+    description: "Partnership start date",
+    example: "2008-09-01",
+  }),
+  endDate: z.string().optional().nullable().openapi({
+    description: "Partnership end date",
+    example: "2012-01-31",
+  }),
 });
 
 /**
@@ -86,13 +122,10 @@ const listRelationshipsRoute = createRoute({
           description: "Filter by person ID",
           example: "person_123",
         }),
-        type: z
-          .enum(["PARENT", "CHILD", "SPOUSE", "SIBLING"])
-          .optional()
-          .openapi({
-            description: "Filter by relationship type",
-            example: "PARENT",
-          }),
+        type: relationshipTypeEnum.optional().openapi({
+          description: "Filter by relationship type",
+          example: "PARENT",
+        }),
         cursor: z.string().optional().openapi({
           description:
             "Cursor for the next page (from nextCursor in previous response)",
@@ -139,6 +172,7 @@ const listRelationshipsRoute = createRoute({
 relationshipsRouter.openapi(listRelationshipsRoute, async (c) => {
   try {
     const { personId, type, cursor, limit } = c.req.valid("query");
+    const user = c.get("user");
 
     if (limit < 1 || limit > 100) {
       return c.json(
@@ -151,7 +185,10 @@ relationshipsRouter.openapi(listRelationshipsRoute, async (c) => {
     }
 
     if (personId) {
-      const result = await serverGetRelationships(personId, type);
+      const result = await serverGetRelationships(personId, type, undefined, {
+        role: user.role as UserRole,
+        personId: user.personId,
+      });
       const items = result || [];
 
       // Apply cursor-based pagination
@@ -214,6 +251,14 @@ const createRelationshipRoute = createRoute({
         },
       },
     },
+    202: {
+      description: "Edit submitted for review, as edits require approval",
+      content: {
+        "application/json": {
+          schema: pendingApprovalResponseSchema,
+        },
+      },
+    },
     400: {
       description: "Validation error or invalid relationship",
       content: {
@@ -244,7 +289,17 @@ const createRelationshipRoute = createRoute({
 relationshipsRouter.openapi(createRelationshipRoute, async (c) => {
   try {
     const data = c.req.valid("json");
-    const result = await serverCreateRelationship(data);
+    const user = c.get("user");
+    if (await requiresEditApprovalData(user.role as UserRole)) {
+      const pending = await submitEditForApprovalData(
+        "ADD_RELATIONSHIP",
+        data.personId,
+        data,
+        user.id
+      );
+      return c.json(pending, { status: 202 });
+    }
+    const result = await serverCreateRelationship(data, user.id);
     return c.json(result, { status: 201 });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -377,7 +432,7 @@ const updateRelationshipRoute = createRoute({
   path: "/:id",
   tags: ["Relationships"],
   summary: "Update a relationship",
-  description: "Update relationship dates",
+  description: "Update relationship dates and parent pedigree",
   operationId: "updateRelationship",
   request: {
     params: z
@@ -413,6 +468,14 @@ const updateRelationshipRoute = createRoute({
         },
       },
     },
+    202: {
+      description: "Edit submitted for review, as edits require approval",
+      content: {
+        "application/json": {
+          schema: pendingApprovalResponseSchema,
+        },
+      },
+    },
     400: {
       description: "Validation error or invalid ID",
       content: {
@@ -464,7 +527,10 @@ relationshipsRouter.openapi(updateRelationshipRoute, async (c) => {
     const updateData: Record<string, unknown> = {};
     for (const [key, value] of Object.entries(data)) {
       if (
-        (key === "marriageDate" || key === "divorceDate") &&
+        (key === "marriageDate" ||
+          key === "divorceDate" ||
+          key === "startDate" ||
+          key === "endDate") &&
         typeof value === "string"
       ) {
         updateData[key] = new Date(value);
@@ -473,7 +539,21 @@ relationshipsRouter.openapi(updateRelationshipRoute, async (c) => {
       }
     }
 
-    const result = await serverUpdateRelationship(id, updateData as any);
+    const user = c.get("user");
+    if (await requiresEditApprovalData(user.role as UserRole)) {
+      const pending = await submitEditForApprovalData(
+        "UPDATE_RELATIONSHIP",
+        null,
+        { id, ...data },
+        user.id
+      );
+      return c.json(pending, { status: 202 });
+    }
+    const result = await serverUpdateRelationship(
+      id,
+      updateData as any,
+      user.id
+    );
 
     return c.json(result, { status: 200 });
   } catch (error) {
@@ -533,6 +613,14 @@ const deleteRelationshipRoute = createRoute({
     204: {
       description: "Relationship deleted successfully",
     },
+    202: {
+      description: "Edit submitted for review, as edits require approval",
+      content: {
+        "application/json": {
+          schema: pendingApprovalResponseSchema,
+        },
+      },
+    },
     400: {
       description: "Invalid relationship ID",
       content: {
@@ -576,7 +664,17 @@ relationshipsRouter.openapi(deleteRelationshipRoute, async (c) => {
       return c.json({ error: "Relationship ID is required" }, { status: 400 });
     }
 
-    await serverDeleteRelationship(id);
+    const user = c.get("user");
+    if (await requiresEditApprovalData(user.role as UserRole)) {
+      const pending = await submitEditForApprovalData(
+        "DELETE_RELATIONSHIP",
+        null,
+        { id },
+        user.id
+      );
+      return c.json(pending, { status: 202 });
+    }
+    await serverDeleteRelationship(id, user.id);
 
     return c.body(null, 204);
   } catch (error) {
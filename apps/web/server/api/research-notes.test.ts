@@ -0,0 +1,234 @@
+/* eslint-disable import/first */
+/**
+ * Unit tests for Research Notes API endpoints
+ *
+ * Tests verify:
+ * - Reads require VIEWER, writes require MEMBER
+ * - Listing flattens the grouped notes, is cursor-paginated and passes the
+ *   viewer so redacted people's notes stay hidden
+ * - Business errors map to 400/404 responses
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const {
+  mockGetResearchNotes,
+  mockCreateResearchNote,
+  mockUpdateResearchNote,
+  mockDeleteResearchNote,
+  mockBetterAuthGetSessionWithUser,
+} = vi.hoisted(() => ({
+  mockGetResearchNotes: vi.fn(),
+  mockCreateResearchNote: vi.fn(),
+  mockUpdateResearchNote: vi.fn(),
+  mockDeleteResearchNote: vi.fn(),
+  mockBetterAuthGetSessionWithUser: vi.fn(),
+}));
+
+vi.mock("@vamsa/lib/server/business", () => ({
+  getResearchNotesData: mockGetResearchNotes,
+  createResearchNoteData: mockCreateResearchNote,
+  updateResearchNoteData: mockUpdateResearchNote,
+  deleteResearchNoteData: mockDeleteResearchNote,
+}));
+
+vi.mock("@vamsa/lib/server/business/auth-better-api", () => ({
+  betterAuthGetSessionWithUser: mockBetterAuthGetSessionWithUser,
+}));
+
+// Import after mocks
+import apiV1 from "./index";
+
+const sessionUser = (role: string) => ({
+  id: "test-user-123",
+  email: "test@example.com",
+  name: "Test User",
+  role,
+  personId: "person_self",
+  mustChangePassword: false,
+  profileClaimStatus: "CLAIMED",
+  oidcProvider: null,
+});
+
+const makeNote = (id: string, eventType = "BIRTH") => ({
+  id,
+  eventType,
+  findings: "Listed as the eldest son",
+  methodology: null,
+  limitations: null,
+  relatedSources: [],
+  conclusionReliability: null,
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  source: {
+    id: "source_1",
+    title: "1881 Census",
+    author: null,
+    sourceType: "CENSUS",
+  },
+  createdBy: { id: "test-user-123", name: "Test User", email: "t@e.com" },
+});
+
+const noteInput = {
+  sourceId: "source_1",
+  personId: "person_1",
+  eventType: "BIRTH",
+  findings: "Listed as the eldest son",
+};
+
+describe("Research Notes API Routes", () => {
+  beforeEach(() => {
+    mockGetResearchNotes.mockReset();
+    mockCreateResearchNote.mockReset();
+    mockUpdateResearchNote.mockReset();
+    mockDeleteResearchNote.mockReset();
+    mockBetterAuthGetSessionWithUser.mockReset();
+    mockBetterAuthGetSessionWithUser.mockResolvedValue(sessionUser("MEMBER"));
+  });
+
+  describe("Authentication", () => {
+    it("should return 401 without a session", async () => {
+      mockBetterAuthGetSessionWithUser.mockResolvedValueOnce(null);
+
+      const res = await apiV1.request("/research-notes?personId=person_1");
+
+      expect(res.status).toBe(401);
+      expect(mockGetResearchNotes).not.toHaveBeenCalled();
+    });
+
+    it("should return 403 when a viewer writes", async () => {
+      mockBetterAuthGetSessionWithUser.mockResolvedValue(sessionUser("VIEWER"));
+
+      const res = await apiV1.request("/research-notes", {
+        method: "POST",
+        body: JSON.stringify(noteInput),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(403);
+      expect(mockCreateResearchNote).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("GET /research-notes", () => {
+    it("should flatten and paginate a person's notes", async () => {
+      mockGetResearchNotes.mockResolvedValueOnce({
+        BIRTH: [makeNote("note_1"), makeNote("note_2")],
+        DEATH: [makeNote("note_3", "DEATH")],
+      });
+
+      const res = await apiV1.request(
+        "/research-notes?personId=person_1&limit=2"
+      );
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.items.map((n: { id: string }) => n.id)).toEqual([
+        "note_1",
+        "note_2",
+      ]);
+      expect(body.items[0].personId).toBe("person_1");
+      expect(body.hasMore).toBe(true);
+      expect(mockGetResearchNotes).toHaveBeenCalledWith("person_1", undefined, {
+        role: "MEMBER",
+        personId: "person_self",
+      });
+    });
+
+    it("should return no notes for a person redacted for the viewer", async () => {
+      mockBetterAuthGetSessionWithUser.mockResolvedValue(sessionUser("VIEWER"));
+      mockGetResearchNotes.mockResolvedValueOnce({});
+
+      const res = await apiV1.request("/research-notes?personId=person_living");
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.items).toEqual([]);
+      expect(body.hasMore).toBe(false);
+      expect(mockGetResearchNotes).toHaveBeenCalledWith(
+        "person_living",
+        undefined,
+        { role: "VIEWER", personId: "person_self" }
+      );
+    });
+
+    it("should require personId", async () => {
+      const res = await apiV1.request("/research-notes");
+
+      expect(res.status).toBe(400);
+    });
+
+    it("should return 404 for an unknown person", async () => {
+      mockGetResearchNotes.mockRejectedValueOnce(new Error("Person not found"));
+
+      const res = await apiV1.request("/research-notes?personId=missing");
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("POST /research-notes", () => {
+    it("should create a note", async () => {
+      mockCreateResearchNote.mockResolvedValueOnce({
+        ...makeNote("note_new"),
+        personId: "person_1",
+      });
+
+      const res = await apiV1.request("/research-notes", {
+        method: "POST",
+        body: JSON.stringify(noteInput),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(201);
+      expect(mockCreateResearchNote).toHaveBeenCalledWith(
+        expect.objectContaining({ personId: "person_1", eventType: "BIRTH" })
+      );
+    });
+
+    it("should return 400 for an unknown source", async () => {
+      mockCreateResearchNote.mockRejectedValueOnce(
+        new Error("Source not found")
+      );
+
+      const res = await apiV1.request("/research-notes", {
+        method: "POST",
+        body: JSON.stringify(noteInput),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(400);
+      const body = await res.json();
+      expect(body.error).toBe("Source not found");
+    });
+  });
+
+  describe("PUT /research-notes/:id", () => {
+    it("should return 404 for a missing note", async () => {
+      mockUpdateResearchNote.mockRejectedValueOnce(
+        new Error("Research note not found")
+      );
+
+      const res = await apiV1.request("/research-notes/missing", {
+        method: "PUT",
+        body: JSON.stringify({ findings: "Listed as the second son" }),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("DELETE /research-notes/:id", () => {
+    it("should return 204", async () => {
+      mockDeleteResearchNote.mockResolvedValueOnce({ success: true });
+
+      const res = await apiV1.request("/research-notes/note_1", {
+        method: "DELETE",
+      });
+
+      expect(res.status).toBe(204);
+      expect(mockDeleteResearchNote).toHaveBeenCalledWith("note_1");
+    });
+  });
+});
@@ -0,0 +1,316 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
+import {
+  apiResearchNoteSchema,
+  cursorPaginatedResponseSchema,
+  errorResponseSchema,
+  researchNoteCreateSchema,
+  researchNoteUpdateSchema,
+} from "@vamsa/schemas";
+import {
+  createResearchNoteData as serverCreateResearchNote,
+  deleteResearchNoteData as serverDeleteResearchNote,
+  getResearchNotesData as serverGetResearchNotes,
+  updateResearchNoteData as serverUpdateResearchNote,
+} from "@vamsa/lib/server/business";
+import { loggers } from "@vamsa/lib/logger";
+import { paginateQuery } from "@vamsa/lib/server";
+import type { UserRole } from "@vamsa/schemas";
+
+const log = loggers.api;
+
+const researchNotesRouter = new OpenAPIHono();
+
+const researchNoteIdParamSchema = z
+  .object({
+    id: z.string().openapi({
+      description: "Research note ID",
+      example: "note_123",
+    }),
+  })
+  .openapi({
+    description: "Path parameters for research note endpoint",
+  });
+
+/**
+ * GET /api/v1/research-notes
+ * List a person's research notes with cursor-based pagination
+ */
+const listResearchNotesRoute = createRoute({
+  method: "get",
+  path: "/",
+  tags: ["Research Notes"],
+  summary: "List research notes for a person",
+  description:
+    "Get a person's research notes, ordered by event type then newest first, with cursor-based pagination",
+  operationId: "listResearchNotes",
+  request: {
+    query: z
+      .object({
+        personId: z.string().min(1).openapi({
+          description: "Person whose research notes to list",
+          example: "person_123",
+        }),
+        cursor: z.string().optional().openapi({
+          description:
+            "Cursor for the next page (from nextCursor in previous response)",
+          example: "bm90ZV8xMDA",
+        }),
+        limit: z.coerce.number().int().min(1).max(100).default(20).openapi({
+          description: "Items per page (max 100)",
+          example: 20,
+        }),
+      })
+      .openapi({
+        description: "Query parameters for listing research notes",
+      }),
+  },
+  responses: {
+    200: {
+      description: "Research notes retrieved successfully",
+      content: {
+        "application/json": {
+          schema: cursorPaginatedResponseSchema(apiResearchNoteSchema),
+        },
+      },
+    },
+    404: {
+      description: "Person not found",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+researchNotesRouter.openapi(listResearchNotesRoute, async (c) => {
+  try {
+    const { personId, cursor, limit } = c.req.valid("query");
+    const user = c.get("user");
+    const grouped = await serverGetResearchNotes(personId, undefined, {
+      role: user.role as UserRole,
+      personId: user.personId,
+    });
+
+    const notes = Object.values(grouped)
+      .flat()
+      .map((note) => ({ ...note, personId }));
+
+    const paginated = paginateQuery(notes, limit, cursor, (item) => item.id);
+
+    return c.json(paginated, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      return c.json({ error: "Person not found" }, { status: 404 });
+    }
+
+    log.withErr(error).msg("Error listing research notes");
+    return c.json({ error: "Failed to list research notes" }, { status: 500 });
+  }
+});
+
+/**
+ * POST /api/v1/research-notes
+ * Create a research note
+ */
+const createResearchNoteRoute = createRoute({
+  method: "post",
+  path: "/",
+  tags: ["Research Notes"],
+  summary: "Create a research note",
+  description: "Record findings from a source about one of a person's events",
+  operationId: "createResearchNote",
+  request: {
+    body: {
+      required: true,
+      content: {
+        "application/json": {
+          schema: researchNoteCreateSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    201: {
+      description: "Research note created successfully",
+      content: {
+        "application/json": {
+          schema: apiResearchNoteSchema,
+        },
+      },
+    },
+    400: {
+      description: "Validation error or unknown source or person",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+researchNotesRouter.openapi(createResearchNoteRoute, async (c) => {
+  try {
+    const data = c.req.valid("json");
+    const result = await serverCreateResearchNote(
+      data as Parameters<typeof serverCreateResearchNote>[0]
+    );
+    return c.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      return c.json({ error: error.message }, { status: 400 });
+    }
+
+    log.withErr(error).msg("Error creating research note");
+    return c.json({ error: "Failed to create research note" }, { status: 500 });
+  }
+});
+
+/**
+ * PUT /api/v1/research-notes/:id
+ * Update a research note
+ */
+const updateResearchNoteRoute = createRoute({
+  method: "put",
+  path: "/:id",
+  tags: ["Research Notes"],
+  summary: "Update a research note",
+  description: "Update a research note's findings, methodology or reliability",
+  operationId: "updateResearchNote",
+  request: {
+    params: researchNoteIdParamSchema,
+    body: {
+      required: true,
+      content: {
+        "application/json": {
+          schema: researchNoteUpdateSchema.omit({ id: true }),
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Research note updated successfully",
+      content: {
+        "application/json": {
+          schema: apiResearchNoteSchema,
+        },
+      },
+    },
+    400: {
+      description: "Validation error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Research note not found",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+researchNotesRouter.openapi(updateResearchNoteRoute, async (c) => {
+  try {
+    const { id } = c.req.valid("param");
+    const data = c.req.valid("json");
+    const result = await serverUpdateResearchNote(
+      id,
+      data as Parameters<typeof serverUpdateResearchNote>[1]
+    );
+    return c.json(result, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      return c.json({ error: "Research note not found" }, { status: 404 });
+    }
+
+    log.withErr(error).msg("Error updating research note");
+    return c.json({ error: "Failed to update research note" }, { status: 500 });
+  }
+});
+
+/**
+ * DELETE /api/v1/research-notes/:id
+ * Delete a research note
+ */
+const deleteResearchNoteRoute = createRoute({
+  method: "delete",
+  path: "/:id",
+  tags: ["Research Notes"],
+  summary: "Delete a research note",
+  description: "Remove a research note",
+  operationId: "deleteResearchNote",
+  request: {
+    params: researchNoteIdParamSchema,
+  },
+  responses: {
+    204: {
+      description: "Research note deleted successfully",
+    },
+    404: {
+      description: "Research note not found",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+researchNotesRouter.openapi(deleteResearchNoteRoute, async (c) => {
+  try {
+    const { id } = c.req.valid("param");
+    await serverDeleteResearchNote(id);
+    return c.body(null, 204);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      return c.json({ error: "Research note not found" }, { status: 404 });
+    }
+
+    log.withErr(error).msg("Error deleting research note");
+    return c.json({ error: "Failed to delete research note" }, { status: 500 });
+  }
+});
+
+export default researchNotesRouter;
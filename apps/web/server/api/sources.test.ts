@@ -0,0 +1,265 @@
+/* eslint-disable import/first */
+/**
+ * Unit tests for Sources API endpoints
+ *
+ * Tests verify:
+ * - Reads require VIEWER, writes require MEMBER
+ * - Listing and reading pass the viewer so cited people are redacted
+ * - Business errors map to 404 responses
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const {
+  mockListSources,
+  mockGetSource,
+  mockCreateSource,
+  mockUpdateSource,
+  mockDeleteSource,
+  mockBetterAuthGetSessionWithUser,
+} = vi.hoisted(() => ({
+  mockListSources: vi.fn(),
+  mockGetSource: vi.fn(),
+  mockCreateSource: vi.fn(),
+  mockUpdateSource: vi.fn(),
+  mockDeleteSource: vi.fn(),
+  mockBetterAuthGetSessionWithUser: vi.fn(),
+}));
+
+vi.mock("@vamsa/lib/server/business", () => ({
+  listSourcesData: mockListSources,
+  getSourceData: mockGetSource,
+  createSourceData: mockCreateSource,
+  updateSourceData: mockUpdateSource,
+  deleteSourceData: mockDeleteSource,
+}));
+
+vi.mock("@vamsa/lib/server/business/auth-better-api", () => ({
+  betterAuthGetSessionWithUser: mockBetterAuthGetSessionWithUser,
+}));
+
+// Import after mocks
+import apiV1 from "./index";
+
+const sessionUser = (role: string) => ({
+  id: "test-user-123",
+  email: "test@example.com",
+  name: "Test User",
+  role,
+  personId: "person_self",
+  mustChangePassword: false,
+  profileClaimStatus: "CLAIMED",
+  oidcProvider: null,
+});
+
+const makeSource = (id: string) => ({
+  id,
+  title: "1881 Census",
+  author: null,
+  publicationDate: null,
+  sourceType: "CENSUS",
+  confidence: null,
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  eventCount: 1,
+  researchNoteCount: 0,
+});
+
+const makeSourceDetail = (
+  id: string,
+  eventSources: Array<{ id: string; personId: string }>
+) => ({
+  ...makeSource(id),
+  description: null,
+  repository: null,
+  notes: null,
+  citationFormat: null,
+  doi: null,
+  url: null,
+  isbn: null,
+  callNumber: null,
+  accessDate: null,
+  eventSources: eventSources.map((e) => ({
+    ...e,
+    eventType: "BIRTH",
+    confidence: null,
+    sourceNotes: null,
+  })),
+});
+
+describe("Sources API Routes", () => {
+  beforeEach(() => {
+    mockListSources.mockReset();
+    mockGetSource.mockReset();
+    mockCreateSource.mockReset();
+    mockUpdateSource.mockReset();
+    mockDeleteSource.mockReset();
+    mockBetterAuthGetSessionWithUser.mockReset();
+    mockBetterAuthGetSessionWithUser.mockResolvedValue(sessionUser("MEMBER"));
+  });
+
+  describe("Authentication", () => {
+    it("should return 401 without a session", async () => {
+      mockBetterAuthGetSessionWithUser.mockResolvedValueOnce(null);
+
+      const res = await apiV1.request("/sources");
+
+      expect(res.status).toBe(401);
+      expect(mockListSources).not.toHaveBeenCalled();
+    });
+
+    it("should return 403 when a viewer writes", async () => {
+      mockBetterAuthGetSessionWithUser.mockResolvedValue(sessionUser("VIEWER"));
+
+      const res = await apiV1.request("/sources/source_1", {
+        method: "DELETE",
+      });
+
+      expect(res.status).toBe(403);
+      expect(mockDeleteSource).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("GET /sources", () => {
+    it("should paginate sources with the filters", async () => {
+      mockListSources.mockResolvedValueOnce({
+        items: [
+          makeSource("source_1"),
+          makeSource("source_2"),
+          makeSource("source_3"),
+        ],
+        total: 3,
+      });
+
+      const res = await apiV1.request(
+        "/sources?type=CENSUS&personId=person_1&limit=2"
+      );
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.items.map((s: { id: string }) => s.id)).toEqual([
+        "source_1",
+        "source_2",
+      ]);
+      expect(body.hasMore).toBe(true);
+      expect(mockListSources).toHaveBeenCalledWith(
+        "CENSUS",
+        "person_1",
+        undefined,
+        { role: "MEMBER", personId: "person_self" }
+      );
+    });
+
+    it("should list a viewer's sources under their privacy rules", async () => {
+      mockBetterAuthGetSessionWithUser.mockResolvedValue(sessionUser("VIEWER"));
+      // Sources cited only for redacted people are left out by the business layer
+      mockListSources.mockResolvedValueOnce({ items: [], total: 0 });
+
+      const res = await apiV1.request("/sources?personId=person_living");
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.items).toEqual([]);
+      expect(mockListSources).toHaveBeenCalledWith(
+        undefined,
+        "person_living",
+        undefined,
+        { role: "VIEWER", personId: "person_self" }
+      );
+    });
+  });
+
+  describe("GET /sources/:id", () => {
+    it("should return the source with its citations", async () => {
+      mockGetSource.mockResolvedValueOnce(
+        makeSourceDetail("source_1", [{ id: "es_1", personId: "person_1" }])
+      );
+
+      const res = await apiV1.request("/sources/source_1");
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.eventSources).toHaveLength(1);
+    });
+
+    it("should return only the citations a viewer may see", async () => {
+      mockBetterAuthGetSessionWithUser.mockResolvedValue(sessionUser("VIEWER"));
+      mockGetSource.mockResolvedValueOnce(makeSourceDetail("source_1", []));
+
+      const res = await apiV1.request("/sources/source_1");
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.eventSources).toEqual([]);
+      expect(mockGetSource).toHaveBeenCalledWith("source_1", undefined, {
+        role: "VIEWER",
+        personId: "person_self",
+      });
+    });
+
+    it("should return 404 for a missing source", async () => {
+      mockGetSource.mockRejectedValueOnce(new Error("Source not found"));
+
+      const res = await apiV1.request("/sources/missing");
+
+      expect(res.status).toBe(404);
+      const body = await res.json();
+      expect(body.error).toBe("Source not found");
+    });
+  });
+
+  describe("POST /sources", () => {
+    it("should create a source", async () => {
+      mockCreateSource.mockResolvedValueOnce(makeSource("source_new"));
+
+      const res = await apiV1.request("/sources", {
+        method: "POST",
+        body: JSON.stringify({ title: "1881 Census", sourceType: "CENSUS" }),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(201);
+      expect(mockCreateSource).toHaveBeenCalledWith(
+        expect.objectContaining({ title: "1881 Census" })
+      );
+    });
+
+    it("should return 400 without a title", async () => {
+      const res = await apiV1.request("/sources", {
+        method: "POST",
+        body: JSON.stringify({ author: "Census Office" }),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(400);
+      expect(mockCreateSource).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("PUT /sources/:id", () => {
+    it("should return 404 for a missing source", async () => {
+      mockUpdateSource.mockRejectedValueOnce(new Error("Source not found"));
+
+      const res = await apiV1.request("/sources/missing", {
+        method: "PUT",
+        body: JSON.stringify({ title: "1891 Census" }),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("DELETE /sources/:id", () => {
+    it("should return 204", async () => {
+      mockDeleteSource.mockResolvedValueOnce({ success: true });
+
+      const res = await apiV1.request("/sources/source_1", {
+        method: "DELETE",
+      });
+
+      expect(res.status).toBe(204);
+      expect(mockDeleteSource).toHaveBeenCalledWith("source_1");
+    });
+  });
+});
@@ -0,0 +1,363 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
+import {
+  apiSourceDetailSchema,
+  apiSourceSchema,
+  cursorPaginatedResponseSchema,
+  errorResponseSchema,
+  sourceCreateSchema,
+  sourceUpdateSchema,
+} from "@vamsa/schemas";
+import {
+  createSourceData as serverCreateSource,
+  deleteSourceData as serverDeleteSource,
+  getSourceData as serverGetSource,
+  listSourcesData as serverListSources,
+  updateSourceData as serverUpdateSource,
+} from "@vamsa/lib/server/business";
+import { loggers } from "@vamsa/lib/logger";
+import { paginateQuery } from "@vamsa/lib/server";
+import type { UserRole } from "@vamsa/schemas";
+
+const log = loggers.api;
+
+const sourcesRouter = new OpenAPIHono();
+
+const sourceIdParamSchema = z
+  .object({
+    id: z.string().openapi({
+      description: "Source ID",
+      example: "source_123",
+    }),
+  })
+  .openapi({
+    description: "Path parameters for source endpoint",
+  });
+
+/**
+ * GET /api/v1/sources
+ * List sources with cursor-based pagination
+ */
+const listSourcesRoute = createRoute({
+  method: "get",
+  path: "/",
+  tags: ["Sources"],
+  summary: "List sources",
+  description:
+    "Get sources (newest first) with cursor-based pagination, optionally filtered by type or cited person",
+  operationId: "listSources",
+  request: {
+    query: z
+      .object({
+        type: z.string().optional().openapi({
+          description: "Filter by source type",
+          example: "CENSUS",
+        }),
+        personId: z.string().optional().openapi({
+          description: "Only sources cited for this person",
+          example: "person_123",
+        }),
+        cursor: z.string().optional().openapi({
+          description:
+            "Cursor for the next page (from nextCursor in previous response)",
+          example: "c291cmNlXzEwMA",
+        }),
+        limit: z.coerce.number().int().min(1).max(100).default(20).openapi({
+          description: "Items per page (max 100)",
+          example: 20,
+        }),
+      })
+      .openapi({
+        description: "Query parameters for listing sources",
+      }),
+  },
+  responses: {
+    200: {
+      description: "Sources retrieved successfully",
+      content: {
+        "application/json": {
+          schema: cursorPaginatedResponseSchema(apiSourceSchema),
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+sourcesRouter.openapi(listSourcesRoute, async (c) => {
+  try {
+    const { type, personId, cursor, limit } = c.req.valid("query");
+    const user = c.get("user");
+    const { items } = await serverListSources(type, personId, undefined, {
+      role: user.role as UserRole,
+      personId: user.personId,
+    });
+
+    const paginated = paginateQuery(items, limit, cursor, (item) => item.id);
+
+    return c.json(paginated, { status: 200 });
+  } catch (error) {
+    log.withErr(error).msg("Error listing sources");
+    return c.json({ error: "Failed to list sources" }, { status: 500 });
+  }
+});
+
+/**
+ * POST /api/v1/sources
+ * Create a source
+ */
+const createSourceRoute = createRoute({
+  method: "post",
+  path: "/",
+  tags: ["Sources"],
+  summary: "Create a source",
+  description: "Add a genealogical source (census, certificate, book, ...)",
+  operationId: "createSource",
+  request: {
+    body: {
+      required: true,
+      content: {
+        "application/json": {
+          schema: sourceCreateSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    201: {
+      description: "Source created successfully",
+      content: {
+        "application/json": {
+          schema: apiSourceSchema,
+        },
+      },
+    },
+    400: {
+      description: "Validation error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+sourcesRouter.openapi(createSourceRoute, async (c) => {
+  try {
+    const data = c.req.valid("json");
+    const result = await serverCreateSource(
+      data as Parameters<typeof serverCreateSource>[0]
+    );
+    return c.json(result, { status: 201 });
+  } catch (error) {
+    log.withErr(error).msg("Error creating source");
+    return c.json({ error: "Failed to create source" }, { status: 500 });
+  }
+});
+
+/**
+ * GET /api/v1/sources/:id
+ * Get a single source
+ */
+const getSourceRoute = createRoute({
+  method: "get",
+  path: "/:id",
+  tags: ["Sources"],
+  summary: "Get a source by ID",
+  description: "Retrieve a source with its citation details and linked events",
+  operationId: "getSource",
+  request: {
+    params: sourceIdParamSchema,
+  },
+  responses: {
+    200: {
+      description: "Source found",
+      content: {
+        "application/json": {
+          schema: apiSourceDetailSchema,
+        },
+      },
+    },
+    404: {
+      description: "Source not found",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+sourcesRouter.openapi(getSourceRoute, async (c) => {
+  try {
+    const { id } = c.req.valid("param");
+    const user = c.get("user");
+    const result = await serverGetSource(id, undefined, {
+      role: user.role as UserRole,
+      personId: user.personId,
+    });
+    return c.json(result, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      return c.json({ error: "Source not found" }, { status: 404 });
+    }
+
+    log.withErr(error).msg("Error getting source");
+    return c.json({ error: "Failed to get source" }, { status: 500 });
+  }
+});
+
+/**
+ * PUT /api/v1/sources/:id
+ * Update a source
+ */
+const updateSourceRoute = createRoute({
+  method: "put",
+  path: "/:id",
+  tags: ["Sources"],
+  summary: "Update a source",
+  description: "Update any of a source's fields",
+  operationId: "updateSource",
+  request: {
+    params: sourceIdParamSchema,
+    body: {
+      required: true,
+      content: {
+        "application/json": {
+          schema: sourceUpdateSchema.omit({ id: true }),
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Source updated successfully",
+      content: {
+        "application/json": {
+          schema: apiSourceSchema,
+        },
+      },
+    },
+    400: {
+      description: "Validation error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Source not found",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+sourcesRouter.openapi(updateSourceRoute, async (c) => {
+  try {
+    const { id } = c.req.valid("param");
+    const data = c.req.valid("json");
+    const result = await serverUpdateSource(
+      id,
+      data as Parameters<typeof serverUpdateSource>[1]
+    );
+    return c.json(result, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      return c.json({ error: "Source not found" }, { status: 404 });
+    }
+
+    log.withErr(error).msg("Error updating source");
+    return c.json({ error: "Failed to update source" }, { status: 500 });
+  }
+});
+
+/**
+ * DELETE /api/v1/sources/:id
+ * Delete a source
+ */
+const deleteSourceRoute = createRoute({
+  method: "delete",
+  path: "/:id",
+  tags: ["Sources"],
+  summary: "Delete a source",
+  description: "Remove a source",
+  operationId: "deleteSource",
+  request: {
+    params: sourceIdParamSchema,
+  },
+  responses: {
+    204: {
+      description: "Source deleted successfully",
+    },
+    404: {
+      description: "Source not found",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+sourcesRouter.openapi(deleteSourceRoute, async (c) => {
+  try {
+    const { id } = c.req.valid("param");
+    await serverDeleteSource(id);
+    return c.body(null, 204);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      return c.json({ error: "Source not found" }, { status: 404 });
+    }
+
+    log.withErr(error).msg("Error deleting source");
+    return c.json({ error: "Failed to delete source" }, { status: 500 });
+  }
+});
+
+export default sourcesRouter;
@@ -124,8 +124,8 @@ export async function createHonoApp(
       // Prevent MIME type sniffing
       xContentTypeOptions: "nosniff",
 
-      // Prevent clickjacking
-      xFrameOptions: "DENY",
+      // Prevent clickjacking; the media viewer frames our own PDFs
+      xFrameOptions: "SAMEORIGIN",
 
       // XSS protection (legacy, but still useful for older browsers)
       xXssProtection: "1; mode=block",
@@ -155,8 +155,10 @@ export async function createHonoApp(
           imgSrc: ["'self'", "data:", "https:"],
           // API connections: self only
           connectSrc: ["'self'"],
-          // Frames: none (prevent embedding)
-          frameSrc: ["'none'"],
+          // Audio and video: self + HTTPS (presigned media bucket URLs)
+          mediaSrc: ["'self'", "https:"],
+          // Frames: PDFs in the media viewer, from self or a media bucket
+          frameSrc: ["'self'", "https:"],
           // Objects: none (disable plugins)
           objectSrc: ["'none'"],
           // Base URI: self only
@@ -219,6 +221,10 @@ export async function createHonoApp(
         { pattern: /^\/api\/v1\/families\//, maxAge: 300 },
         { pattern: /^\/api\/v1\/settings/, maxAge: 300 },
         { pattern: /^\/api\/v1\/media\//, maxAge: 300 },
+        { pattern: /^\/api\/v1\/events/, maxAge: 300 },
+        { pattern: /^\/api\/v1\/places/, maxAge: 300 },
+        { pattern: /^\/api\/v1\/sources/, maxAge: 300 },
+        { pattern: /^\/api\/v1\/research-notes/, maxAge: 300 },
         // Semi-stable: search, dashboard, charts (2 min cache)
         { pattern: /^\/api\/v1\/search/, maxAge: 120 },
         { pattern: /^\/api\/v1\/dashboard/, maxAge: 120 },
@@ -16,6 +16,9 @@ import {
 } from "../src/server/middleware/redis-client";
 import { RedisRateLimitStore } from "../src/server/middleware/rate-limit-store";
 import { startTelemetry, stopTelemetry } from "./telemetry";
+import { startBirthdayReminderJob } from "./jobs/birthday-reminders";
+import { startNotificationDigestJob } from "./jobs/notifications";
+import { startWebhookDeliveryJob } from "./jobs/webhooks";
 import { createHonoApp } from "./app";
 
 await startTelemetry();
@@ -146,6 +149,12 @@ async function startServer() {
     log.info({}, "Rate limit store: memory (REDIS_URL not set)");
   }
 
+  // Schedule daily birthday reminders, hourly notification digests and
+  // webhook deliveries
+  startBirthdayReminderJob();
+  startNotificationDigestJob();
+  startWebhookDeliveryJob();
+
   // Load TanStack Start handler
   type FetchHandler = (request: Request) => Promise<Response>;
   interface TanStackHandler {
@@ -177,6 +186,9 @@ async function startServer() {
     port: PORT,
     hostname: HOST,
     fetch: app.fetch,
+    // Media uploads arrive base64-encoded, a third larger than the largest
+    // size limit admins can set (500MB)
+    maxRequestBodySize: 700 * 1024 * 1024,
     development: !IS_PRODUCTION,
     error(error: Error) {
       log.withErr(error).msg("Bun server error");
@@ -12,6 +12,7 @@ import * as fs from "node:fs/promises";
 import * as path from "node:path";
 import { and, desc, eq, isNull } from "drizzle-orm";
 import { loggers } from "@vamsa/lib/logger";
+import { emitWebhookEvent } from "@vamsa/lib/server/business";
 import { db, drizzleSchema } from "../db";
 import { deleteFromStorage, uploadToStorage } from "./storage";
 import { sendBackupNotification } from "./notifications";
@@ -280,6 +281,22 @@ export async function performBackup(type: BackupType): Promise<string> {
     // Rotate old backups
     await rotateBackups(type, settings);
 
+    await emitWebhookEvent(
+      "backup.completed",
+      {
+        backupId: backup.id,
+        type,
+        filename,
+        size: zipBuffer.length,
+        duration,
+        personCount: people.length,
+        relationshipCount: relationships.length,
+        eventCount: events.length,
+        mediaCount: mediaObjects.length,
+      },
+      db
+    );
+
     // Send success notification
     if (settings?.notifyOnSuccess) {
       try {
@@ -0,0 +1,24 @@
+import cron from "node-cron";
+import { loggers } from "@vamsa/lib/logger";
+import {
+  sendAnniversaryReminders,
+  sendBirthdayReminders,
+} from "@vamsa/lib/server/business";
+
+const log = loggers.jobs;
+
+/**
+ * Daily job that reminds family members of today's birthdays and wedding
+ * anniversaries
+ * Runs at 8am daily
+ */
+export function startBirthdayReminderJob() {
+  cron.schedule("0 8 * * *", async () => {
+    log.info({}, "Sending birthday reminders");
+    // Both log their own failures and never throw
+    await sendBirthdayReminders();
+    await sendAnniversaryReminders();
+  });
+
+  log.info({}, "Birthday reminder job scheduled");
+}
@@ -4,12 +4,27 @@
  * Tests email notification functionality:
  * - sendBackupNotification: Send success/failure notification emails
  * - Formatting utilities and error handling
+ * - startNotificationDigestJob: Hourly digest schedule
  */
 
-import { describe, expect, it } from "vitest";
-import { sendBackupNotification } from "./notifications";
+import { describe, expect, it, vi } from "vitest";
+import {
+  sendBackupNotification,
+  startNotificationDigestJob,
+} from "./notifications";
 import type { BackupNotificationInput } from "./notifications";
 
+const { mockSchedule, mockSendNotificationDigests } = vi.hoisted(() => ({
+  mockSchedule: vi.fn(),
+  mockSendNotificationDigests: vi.fn(async () => 0),
+}));
+
+vi.mock("node-cron", () => ({ default: { schedule: mockSchedule } }));
+
+vi.mock("@vamsa/lib/server/business", () => ({
+  sendNotificationDigests: mockSendNotificationDigests,
+}));
+
 describe("Backup Notifications", () => {
   describe("sendBackupNotification - Success Cases", () => {
     it("should accept success notification type", async () => {
@@ -474,4 +489,22 @@ describe("Backup Notifications", () => {
       expect(result).toBeUndefined();
     });
   });
+
+  describe("startNotificationDigestJob", () => {
+    it("should send due digests at the top of every hour", async () => {
+      startNotificationDigestJob();
+
+      expect(mockSchedule).toHaveBeenCalledWith(
+        "0 * * * *",
+        expect.any(Function)
+      );
+
+      const [, task] = mockSchedule.mock.calls[0] as unknown as [
+        string,
+        () => Promise<void>,
+      ];
+      await task();
+      expect(mockSendNotificationDigests).toHaveBeenCalledTimes(1);
+    });
+  });
 });
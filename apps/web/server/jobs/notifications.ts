@@ -1,10 +1,13 @@
 /**
- * Email notifications for backups
+ * Scheduled notifications
  *
- * Sends success/failure notifications when backups complete
+ * Sends success/failure notifications when backups complete, and runs the
+ * hourly job that sends users their daily and weekly notification digests
  */
 
+import cron from "node-cron";
 import { loggers } from "@vamsa/lib/logger";
+import { sendNotificationDigests } from "@vamsa/lib/server/business";
 
 const log = loggers.jobs;
 
@@ -214,3 +217,18 @@ export async function sendBackupNotification(
     // Don't throw - notification failure should not block backup process
   }
 }
+
+/**
+ * Hourly job that sends daily and weekly notification digests
+ *
+ * Each user picks the local hour their digests arrive at, so the job runs
+ * at the top of every hour and sends only the digests due in that hour.
+ */
+export function startNotificationDigestJob() {
+  cron.schedule("0 * * * *", async () => {
+    // sendNotificationDigests logs its own failures and never throws
+    await sendNotificationDigests();
+  });
+
+  log.info({}, "Notification digest job scheduled");
+}
@@ -0,0 +1,39 @@
+import cron from "node-cron";
+import { loggers } from "@vamsa/lib/logger";
+import {
+  processWebhookDeliveries,
+  pruneWebhookDeliveries,
+} from "@vamsa/lib/server/business";
+
+const log = loggers.jobs;
+
+/**
+ * Sends queued webhook deliveries every minute, including retries that have
+ * come due, and prunes old finished deliveries daily at 3:30am
+ */
+export function startWebhookDeliveryJob() {
+  let running = false;
+
+  cron.schedule("* * * * *", async () => {
+    // A slow endpoint can hold a run past the next tick; skip overlapping runs
+    if (running) return;
+    running = true;
+    try {
+      await processWebhookDeliveries();
+    } catch (error) {
+      log.withErr(error).msg("Failed to process webhook deliveries");
+    } finally {
+      running = false;
+    }
+  });
+
+  cron.schedule("30 3 * * *", async () => {
+    try {
+      await pruneWebhookDeliveries();
+    } catch (error) {
+      log.withErr(error).msg("Failed to prune webhook deliveries");
+    }
+  });
+
+  log.info({}, "Webhook delivery job scheduled");
+}
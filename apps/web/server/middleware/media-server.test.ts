@@ -0,0 +1,193 @@
+/**
+ * Unit tests for the media server
+ *
+ * Tests verify media is served from the configured storage:
+ * - Local files with caching, range and SVG sandbox headers
+ * - Proxied and presigned reads from an S3 bucket
+ * - Path traversal attempts are rejected
+ *
+ * Runs in the node environment: the S3 stand-in is a Bun server, which
+ * cannot return happy-dom's Response objects.
+ *
+ * @vitest-environment node
+ */
+
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+} from "vitest";
+import { Hono } from "hono";
+import { startS3StandIn } from "@vamsa/api/storage/s3-stand-in";
+import { serveMedia } from "./media-server";
+import type { S3StandIn } from "@vamsa/api/storage/s3-stand-in";
+
+const ENV_KEYS = [
+  "MEDIA_STORAGE_PROVIDER",
+  "MEDIA_STORAGE_PATH",
+  "MEDIA_S3_BUCKET",
+  "MEDIA_S3_READ_MODE",
+  "S3_ENDPOINT",
+  "S3_ACCESS_KEY_ID",
+  "S3_SECRET_ACCESS_KEY",
+];
+
+describe("serveMedia", () => {
+  const app = new Hono();
+  app.get("/media/*", serveMedia);
+
+  const saved: Record<string, string | undefined> = {};
+
+  beforeEach(() => {
+    for (const key of ENV_KEYS) {
+      saved[key] = process.env[key];
+      delete process.env[key];
+    }
+  });
+
+  afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (saved[key] === undefined) delete process.env[key];
+      else process.env[key] = saved[key];
+    }
+  });
+
+  describe("local storage", () => {
+    let mediaDir: string;
+
+    beforeEach(async () => {
+      mediaDir = await fs.mkdtemp(path.join(os.tmpdir(), "vamsa-media-"));
+      process.env.MEDIA_STORAGE_PATH = mediaDir;
+      await fs.mkdir(path.join(mediaDir, "webp"));
+      await fs.writeFile(path.join(mediaDir, "webp", "a.webp"), "0123456789");
+      await fs.writeFile(path.join(mediaDir, "a.svg"), "<svg></svg>");
+    });
+
+    afterEach(async () => {
+      await fs.rm(mediaDir, { recursive: true, force: true });
+    });
+
+    it("serves files with cache headers", async () => {
+      const res = await app.request("/media/webp/a.webp");
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("Content-Type")).toBe("image/webp");
+      expect(res.headers.get("Content-Length")).toBe("10");
+      expect(res.headers.get("Cache-Control")).toContain("immutable");
+      expect(await res.text()).toBe("0123456789");
+    });
+
+    it("returns 304 for a matching ETag", async () => {
+      const first = await app.request("/media/webp/a.webp");
+      const etag = first.headers.get("ETag")!;
+
+      const res = await app.request("/media/webp/a.webp", {
+        headers: { "If-None-Match": etag },
+      });
+
+      expect(res.status).toBe(304);
+    });
+
+    it("serves byte ranges", async () => {
+      const res = await app.request("/media/webp/a.webp", {
+        headers: { Range: "bytes=2-5" },
+      });
+
+      expect(res.status).toBe(206);
+      expect(res.headers.get("Content-Range")).toBe("bytes 2-5/10");
+      expect(await res.text()).toBe("2345");
+    });
+
+    it("sandboxes SVG files", async () => {
+      const res = await app.request("/media/a.svg");
+
+      expect(res.headers.get("Content-Security-Policy")).toContain("sandbox");
+    });
+
+    it("returns 404 for missing files", async () => {
+      const res = await app.request("/media/webp/missing.webp");
+
+      expect(res.status).toBe(404);
+    });
+
+    it("rejects path traversal", async () => {
+      const res = await app.request("/media/webp/%2E%2E/%2E%2E/secret.txt");
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("S3 storage", () => {
+    let s3: S3StandIn;
+
+    beforeAll(() => {
+      s3 = startS3StandIn();
+    });
+
+    afterAll(() => {
+      s3.stop();
+    });
+
+    beforeEach(() => {
+      process.env.MEDIA_STORAGE_PROVIDER = "s3";
+      process.env.MEDIA_S3_BUCKET = "media";
+      process.env.S3_ENDPOINT = s3.endpoint;
+      process.env.S3_ACCESS_KEY_ID = "test";
+      process.env.S3_SECRET_ACCESS_KEY = "test";
+      s3.objects.set("media/webp/a.webp", {
+        data: Buffer.from("webp"),
+        contentType: "image/webp",
+        lastModified: new Date(),
+        etag: '"abc"',
+      });
+    });
+
+    afterEach(() => {
+      s3.objects.clear();
+    });
+
+    it("proxies objects from the bucket", async () => {
+      const res = await app.request("/media/webp/a.webp");
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("Content-Type")).toBe("image/webp");
+      expect(res.headers.get("ETag")).toBe('"abc"');
+      expect(await res.text()).toBe("webp");
+    });
+
+    it("proxies byte ranges", async () => {
+      const res = await app.request("/media/webp/a.webp", {
+        headers: { Range: "bytes=1-2" },
+      });
+
+      expect(res.status).toBe(206);
+      expect(res.headers.get("Content-Range")).toBe("bytes 1-2/4");
+      expect(await res.text()).toBe("eb");
+    });
+
+    it("returns 404 for missing objects", async () => {
+      const res = await app.request("/media/webp/missing.webp");
+
+      expect(res.status).toBe(404);
+    });
+
+    it("redirects to a presigned URL", async () => {
+      process.env.MEDIA_S3_READ_MODE = "presigned";
+
+      const res = await app.request("/media/webp/a.webp");
+
+      expect(res.status).toBe(302);
+      const location = res.headers.get("Location")!;
+      expect(location).toContain(`${s3.endpoint}/media/webp/a.webp`);
+      expect(location).toContain("X-Amz-Signature=");
+      expect(res.headers.get("Cache-Control")).toContain("private");
+    });
+  });
+});
@@ -1,5 +1,9 @@
-import { promises as fs } from "node:fs";
 import path from "node:path";
+import {
+  getMediaReadMode,
+  getStorageProvider,
+  normalizeStorageKey,
+} from "@vamsa/api/storage";
 import { loggers } from "@vamsa/lib/logger";
 import type { Context } from "hono";
 
@@ -17,17 +21,23 @@ const MIME_TYPES: Record<string, string> = {
   ".svg": "image/svg+xml",
   ".pdf": "application/pdf",
   ".tiff": "image/tiff",
+  ".bmp": "image/bmp",
+  ".mp3": "audio/mpeg",
+  ".m4a": "audio/mp4",
+  ".wav": "audio/wav",
+  ".ogg": "audio/ogg",
+  ".weba": "audio/webm",
+  ".flac": "audio/flac",
+  ".mp4": "video/mp4",
+  ".webm": "video/webm",
+  ".mov": "video/quicktime",
+  ".ogv": "video/ogg",
+  ".txt": "text/plain; charset=utf-8",
+  ".vtt": "text/vtt; charset=utf-8",
 };
 
-/**
- * Get media directory path
- */
-function getMediaDir(): string {
-  if (process.env.MEDIA_STORAGE_PATH) {
-    return process.env.MEDIA_STORAGE_PATH;
-  }
-  return path.join(process.cwd(), "data", "uploads", "media");
-}
+/** Lifetime of presigned media URLs, in seconds */
+const PRESIGNED_URL_EXPIRY = 60 * 60;
 
 /**
  * Get MIME type from file extension
@@ -38,16 +48,15 @@ function getMimeType(filePath: string): string {
 }
 
 /**
- * Validate that the requested path is within the media directory
+ * Storage key of a requested media path, or null if it is invalid
  * Prevents path traversal attacks
  */
-function isValidMediaPath(requestedPath: string, mediaDir: string): boolean {
-  // Normalize paths to absolute
-  const normalized = path.normalize(path.join(mediaDir, requestedPath));
-  const realMediaDir = path.resolve(mediaDir);
-
-  // Check if normalized path is within media directory
-  return normalized.startsWith(realMediaDir);
+function toStorageKey(requestedPath: string): string | null {
+  try {
+    return normalizeStorageKey(decodeURIComponent(requestedPath));
+  } catch {
+    return null;
+  }
 }
 
 /**
@@ -87,6 +96,7 @@ function parseRangeHeader(
  * - Cache-Control headers for long-term caching
  * - Range requests for progressive loading (video, large images)
  * - 304 Not Modified for conditional requests
+ * - Proxied or presigned reads when media lives in an S3 bucket
  */
 export async function serveMedia(c: Context): Promise<Response> {
   try {
@@ -99,8 +109,8 @@ export async function serveMedia(c: Context): Promise<Response> {
     }
 
     // Security: prevent path traversal attacks
-    const mediaDir = getMediaDir();
-    if (!isValidMediaPath(filePath, mediaDir)) {
+    const key = toStorageKey(filePath);
+    if (!key) {
       log.warn(
         { requestedPath: filePath },
         "Attempted path traversal in media request"
@@ -108,26 +118,31 @@ export async function serveMedia(c: Context): Promise<Response> {
       return c.notFound();
     }
 
-    // Build full file path
-    const fullPath = path.join(mediaDir, filePath);
-
-    // Check if file exists
-    try {
-      await fs.access(fullPath);
-    } catch {
-      log.debug({ path: fullPath }, "Media file not found");
-      return c.notFound();
+    const storage = await getStorageProvider();
+
+    // Presigned reads: let the client fetch the object from the bucket
+    if (getMediaReadMode() === "presigned") {
+      const signedUrl = storage.getSignedUrl(key, PRESIGNED_URL_EXPIRY);
+      if (signedUrl) {
+        return new Response(null, {
+          status: 302,
+          headers: {
+            Location: signedUrl,
+            // Expire well before the signature does
+            "Cache-Control": `private, max-age=${PRESIGNED_URL_EXPIRY / 2}`,
+          },
+        });
+      }
     }
 
-    // Get file stats for size and modification time
-    const stats = await fs.stat(fullPath);
-
-    if (!stats.isFile()) {
+    // Only the metadata: the content is streamed below, one range at a time
+    const object = await storage.stat(key);
+    if (!object) {
+      log.debug({ key }, "Media file not found");
       return c.notFound();
     }
 
-    // Generate ETag based on file size and modification time
-    const etag = `"${stats.size}-${stats.mtimeMs}"`;
+    const etag = object.etag;
 
     // Check If-None-Match header for 304 Not Modified
     if (c.req.header("if-none-match") === etag) {
@@ -141,14 +156,11 @@ export async function serveMedia(c: Context): Promise<Response> {
     }
 
     // Determine MIME type
-    const mimeType = getMimeType(fullPath);
+    const mimeType = getMimeType(key);
 
     // Handle range requests for progressive loading
     const rangeHeader = c.req.header("range");
-    const range = parseRangeHeader(rangeHeader, stats.size);
-
-    // Read file
-    const buffer = await fs.readFile(fullPath);
+    const range = parseRangeHeader(rangeHeader, object.size);
 
     // Setup response headers
     const headers: Record<string, string> = {
@@ -176,18 +188,18 @@ export async function serveMedia(c: Context): Promise<Response> {
       const contentLength = end - start + 1;
 
       headers["Content-Length"] = String(contentLength);
-      headers["Content-Range"] = `bytes ${start}-${end}/${stats.size}`;
+      headers["Content-Range"] = `bytes ${start}-${end}/${object.size}`;
 
-      return new Response(buffer.slice(start, end + 1), {
+      return new Response(storage.stream(key, range), {
         status: 206, // Partial Content
         headers,
       });
     }
 
     // Full content response
-    headers["Content-Length"] = String(stats.size);
+    headers["Content-Length"] = String(object.size);
 
-    return new Response(buffer, {
+    return new Response(storage.stream(key), {
       status: 200,
       headers,
     });
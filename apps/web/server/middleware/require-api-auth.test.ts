@@ -0,0 +1,194 @@
+/* eslint-disable import/first */
+/**
+ * Unit tests for the API authentication middleware
+ *
+ * Tests verify:
+ * - Sessions are checked against the minimum role
+ * - Personal access tokens authenticate as their owner
+ * - Tokens need the route's scope, and cannot use routes without one
+ * - Other bearer credentials fall back to session authentication
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Hono } from "hono";
+
+const { mockBetterAuthGetSessionWithUser, mockAuthenticateApiToken } =
+  vi.hoisted(() => ({
+    mockBetterAuthGetSessionWithUser: vi.fn(),
+    mockAuthenticateApiToken: vi.fn(),
+  }));
+
+vi.mock("@vamsa/lib/server/business/auth-better-api", () => ({
+  betterAuthGetSessionWithUser: mockBetterAuthGetSessionWithUser,
+}));
+
+vi.mock("@vamsa/lib/server/business/api-tokens", () => ({
+  authenticateApiToken: mockAuthenticateApiToken,
+  isApiToken: (token: string) => token.startsWith("vamsa_pat_"),
+}));
+
+import { requireApiAuth } from "./require-api-auth";
+
+const member = {
+  id: "user-1",
+  email: "ravi@example.com",
+  name: "Ravi",
+  role: "MEMBER",
+  personId: null,
+  mustChangePassword: false,
+  profileClaimStatus: "CLAIMED",
+  oidcProvider: null,
+};
+
+function createApp() {
+  const app = new Hono();
+  app.get("/persons", requireApiAuth("VIEWER", "persons:read"), (c) =>
+    c.json({ user: c.get("user").id, token: c.get("apiToken") ?? null })
+  );
+  app.get("/gedcom", requireApiAuth("ADMIN", "gedcom:export"), (c) =>
+    c.json({ ok: true })
+  );
+  app.get("/devices", requireApiAuth("VIEWER"), (c) => c.json({ ok: true }));
+  return app;
+}
+
+function withToken(token: string) {
+  return { headers: { Authorization: `Bearer ${token}` } };
+}
+
+describe("requireApiAuth", () => {
+  beforeEach(() => {
+    mockBetterAuthGetSessionWithUser.mockReset();
+    mockAuthenticateApiToken.mockReset();
+  });
+
+  describe("sessions", () => {
+    it("should return 401 without a session", async () => {
+      mockBetterAuthGetSessionWithUser.mockResolvedValueOnce(null);
+
+      const res = await createApp().request("/persons");
+
+      expect(res.status).toBe(401);
+    });
+
+    it("should return 403 when the role is too low", async () => {
+      mockBetterAuthGetSessionWithUser.mockResolvedValueOnce(member);
+
+      const res = await createApp().request("/gedcom");
+
+      expect(res.status).toBe(403);
+    });
+
+    it("should allow routes without a scope", async () => {
+      mockBetterAuthGetSessionWithUser.mockResolvedValueOnce(member);
+
+      const res = await createApp().request("/devices");
+
+      expect(res.status).toBe(200);
+    });
+
+    it("should treat other bearer credentials as session tokens", async () => {
+      mockBetterAuthGetSessionWithUser.mockResolvedValueOnce(member);
+
+      const res = await createApp().request(
+        "/persons",
+        withToken("mobile-session-token")
+      );
+
+      expect(res.status).toBe(200);
+      expect(mockAuthenticateApiToken).not.toHaveBeenCalled();
+      expect(await res.json()).toEqual({ user: "user-1", token: null });
+    });
+  });
+
+  describe("personal access tokens", () => {
+    it("should authenticate as the token's owner", async () => {
+      mockAuthenticateApiToken.mockResolvedValueOnce({
+        user: member,
+        tokenId: "token-1",
+        scopes: ["persons:read"],
+      });
+
+      const res = await createApp().request(
+        "/persons",
+        withToken("vamsa_pat_secret")
+      );
+
+      expect(res.status).toBe(200);
+      expect(mockAuthenticateApiToken).toHaveBeenCalledWith("vamsa_pat_secret");
+      expect(mockBetterAuthGetSessionWithUser).not.toHaveBeenCalled();
+      expect(await res.json()).toEqual({
+        user: "user-1",
+        token: { id: "token-1", scopes: ["persons:read"] },
+      });
+    });
+
+    it("should return 401 for invalid or expired tokens", async () => {
+      mockAuthenticateApiToken.mockResolvedValueOnce(null);
+
+      const res = await createApp().request(
+        "/persons",
+        withToken("vamsa_pat_expired")
+      );
+
+      expect(res.status).toBe(401);
+      expect(await res.json()).toEqual({
+        error: "Unauthorized",
+        message: "Invalid or expired token",
+      });
+      expect(mockBetterAuthGetSessionWithUser).not.toHaveBeenCalled();
+    });
+
+    it("should return 403 when the token lacks the scope", async () => {
+      mockAuthenticateApiToken.mockResolvedValueOnce({
+        user: member,
+        tokenId: "token-1",
+        scopes: ["media:read"],
+      });
+
+      const res = await createApp().request(
+        "/persons",
+        withToken("vamsa_pat_secret")
+      );
+
+      expect(res.status).toBe(403);
+      expect((await res.json()).message).toBe(
+        "Token is missing the persons:read scope"
+      );
+    });
+
+    it("should still enforce the owner's role", async () => {
+      mockAuthenticateApiToken.mockResolvedValueOnce({
+        user: member,
+        tokenId: "token-1",
+        scopes: ["gedcom:export"],
+      });
+
+      const res = await createApp().request(
+        "/gedcom",
+        withToken("vamsa_pat_secret")
+      );
+
+      expect(res.status).toBe(403);
+      expect((await res.json()).message).toBe("Insufficient permissions");
+    });
+
+    it("should refuse routes without a scope", async () => {
+      mockAuthenticateApiToken.mockResolvedValueOnce({
+        user: member,
+        tokenId: "token-1",
+        scopes: ["persons:read"],
+      });
+
+      const res = await createApp().request(
+        "/devices",
+        withToken("vamsa_pat_secret")
+      );
+
+      expect(res.status).toBe(403);
+      expect((await res.json()).message).toBe(
+        "This endpoint cannot be used with a personal access token"
+      );
+    });
+  });
+});
@@ -1,6 +1,13 @@
+import { getCookie } from "hono/cookie";
 import { createMiddleware } from "hono/factory";
 import { betterAuthGetSessionWithUser } from "@vamsa/lib/server/business/auth-better-api";
+import {
+  authenticateApiToken,
+  isApiToken,
+} from "@vamsa/lib/server/business/api-tokens";
 import { loggers } from "@vamsa/lib/logger";
+import type { Context } from "hono";
+import type { ApiTokenScope } from "@vamsa/schemas";
 
 const log = loggers.api;
 
@@ -18,28 +25,64 @@ export type ApiSessionUser = {
   oidcProvider: string | null;
 };
 
+/**
+ * Personal access token a request was authenticated with
+ */
+export type ApiTokenContext = {
+  id: string;
+  scopes: Array<ApiTokenScope>;
+};
+
 /**
  * Augment Hono's context variables to include authenticated user
  */
 declare module "hono" {
   interface ContextVariableMap {
     user: ApiSessionUser;
+    apiToken?: ApiTokenContext;
   }
 }
 
+const BETTER_AUTH_COOKIE_NAME = "better-auth.session_token";
+
 const ROLE_HIERARCHY: Record<string, number> = {
   VIEWER: 0,
   MEMBER: 1,
   ADMIN: 2,
 };
 
+/**
+ * Extract a personal access token from the Authorization header.
+ * Other bearer credentials are Better Auth session tokens from the mobile app.
+ */
+function getApiToken(authorization: string | undefined): string | null {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  return match && isApiToken(match[1]) ? match[1] : null;
+}
+
+/**
+ * Session token a request was authenticated with, for services that look
+ * records up on the user's behalf (such as the AI service). Personal
+ * access tokens are not session tokens and are never returned.
+ */
+export function getApiSessionToken(c: Context): string | null {
+  const match = c.req.header("Authorization")?.match(/^Bearer\s+(\S+)$/i);
+  if (match && !isApiToken(match[1])) return match[1];
+  return getCookie(c, BETTER_AUTH_COOKIE_NAME) ?? null;
+}
+
 /**
  * Hono middleware for API authentication
  *
- * Validates session using Better Auth and enforces role-based access control.
+ * Validates a Better Auth session or a personal access token sent as
+ * `Authorization: Bearer`, and enforces role-based access control. Tokens
+ * act as their owner, so the role check applies to them too, and must also
+ * carry the scope the route requires. Routes without a scope cannot be used
+ * with tokens at all.
  * Sets the authenticated user in context variables for use by route handlers.
  *
  * @param minRole Minimum required role (VIEWER, MEMBER, or ADMIN)
+ * @param scope Token scope that grants access to the route
  * @returns Hono middleware function
  *
  * @example
@@ -53,12 +96,33 @@ const ROLE_HIERARCHY: Record<string, number> = {
  * @example
  * // Require ADMIN
  * apiV1.use("/metrics/*", requireApiAuth("ADMIN"));
+ *
+ * @example
+ * // Also accept personal access tokens with the gedcom:export scope
+ * apiV1.use("/gedcom/*", requireApiAuth("ADMIN", "gedcom:export"));
  */
 export function requireApiAuth(
-  minRole: "VIEWER" | "MEMBER" | "ADMIN" = "VIEWER"
+  minRole: "VIEWER" | "MEMBER" | "ADMIN" = "VIEWER",
+  scope?: ApiTokenScope
 ) {
   return createMiddleware(async (c, next) => {
-    const user = await betterAuthGetSessionWithUser(c.req.raw.headers);
+    const token = getApiToken(c.req.header("Authorization"));
+    const tokenAuth = token ? await authenticateApiToken(token) : null;
+
+    if (token && !tokenAuth) {
+      log.warn(
+        { path: c.req.path, method: c.req.method },
+        "API auth failed: invalid or expired token"
+      );
+      return c.json(
+        { error: "Unauthorized", message: "Invalid or expired token" },
+        401
+      );
+    }
+
+    const user = tokenAuth
+      ? tokenAuth.user
+      : await betterAuthGetSessionWithUser(c.req.raw.headers);
 
     if (!user) {
       log.warn(
@@ -91,7 +155,32 @@ export function requireApiAuth(
       );
     }
 
+    if (tokenAuth && (!scope || !tokenAuth.scopes.includes(scope))) {
+      log.warn(
+        {
+          path: c.req.path,
+          method: c.req.method,
+          tokenId: tokenAuth.tokenId,
+          required: scope,
+          userId: user.id,
+        },
+        "API auth failed: token scope missing"
+      );
+      return c.json(
+        {
+          error: "Forbidden",
+          message: scope
+            ? `Token is missing the ${scope} scope`
+            : "This endpoint cannot be used with a personal access token",
+        },
+        403
+      );
+    }
+
     c.set("user", user);
+    if (tokenAuth) {
+      c.set("apiToken", { id: tokenAuth.tokenId, scopes: tokenAuth.scopes });
+    }
     await next();
   });
 }
@@ -0,0 +1,177 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@vamsa/ui";
+import { getRevertPreview, revertAuditEntry } from "~/server/audit";
+
+interface RevertDialogProps {
+  /** Audit entry to revert; the dialog is open while set */
+  auditLogId: string | null;
+  onClose: () => void;
+}
+
+/**
+ * Confirm reverting an audit entry, showing the fields it restores and any
+ * later changes the revert would overwrite
+ */
+export function RevertDialog({ auditLogId, onClose }: RevertDialogProps) {
+  const { t } = useTranslation(["common"]);
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: preview, isLoading } = useQuery({
+    queryKey: ["revertPreview", auditLogId],
+    queryFn: () => getRevertPreview({ data: { auditLogId: auditLogId! } }),
+    enabled: !!auditLogId,
+  });
+
+  const close = () => {
+    setError(null);
+    onClose();
+  };
+
+  const revertMutation = useMutation({
+    mutationFn: () =>
+      revertAuditEntry({
+        data: {
+          auditLogId: auditLogId!,
+          force: (preview?.conflicts.length ?? 0) > 0,
+        },
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["activity"] });
+      queryClient.invalidateQueries({ queryKey: ["revertPreview"] });
+      close();
+    },
+    onError: (err: Error) => setError(err.message),
+  });
+
+  const hasConflicts = (preview?.conflicts.length ?? 0) > 0;
+  const isRestore = preview?.action === "DELETE";
+
+  return (
+    <Dialog
+      open={!!auditLogId}
+      onOpenChange={(open) => {
+        if (!open) close();
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {isRestore ? t("restorePersonTitle") : t("revertChangeTitle")}
+          </DialogTitle>
+          <DialogDescription>
+            {preview?.action === "CREATE"
+              ? t("revertCreateMessage", { name: preview.personName })
+              : isRestore
+                ? t("revertDeleteMessage", { name: preview.personName })
+                : t("revertUpdateMessage", { name: preview?.personName })}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="bg-destructive/10 text-destructive rounded-md p-3 text-sm">
+            {error}
+          </div>
+        )}
+
+        {isLoading || !preview ? (
+          <div className="bg-muted h-16 animate-pulse rounded-md" />
+        ) : !preview.revertable ? (
+          <div className="bg-muted text-muted-foreground rounded-md p-3 text-sm">
+            {t(`revertBlocked.${preview.blockedReason}`)}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {preview.changes.length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-muted-foreground text-left">
+                    <th className="pb-1 font-medium">{t("revertField")}</th>
+                    <th className="pb-1 font-medium">{t("revertCurrent")}</th>
+                    <th className="pb-1 font-medium">{t("revertRestored")}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.changes.map((change) => (
+                    <tr key={change.field} className="border-t align-top">
+                      <td className="py-1 pr-2 font-medium">{change.field}</td>
+                      <td className="py-1 pr-2 break-all">
+                        {formatValue(change.current)}
+                      </td>
+                      <td className="py-1 break-all">
+                        {formatValue(change.restored)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {hasConflicts && (
+              <div
+                className="border-destructive/50 rounded-md border p-3 text-sm"
+                data-testid="revert-conflicts"
+              >
+                <p className="text-destructive mb-2 font-medium">
+                  {t("revertConflictsMessage")}
+                </p>
+                <ul className="text-muted-foreground space-y-1">
+                  {preview.conflicts.map((conflict) => (
+                    <li key={conflict.auditLogId}>
+                      {new Date(conflict.timestamp).toLocaleString()} ·{" "}
+                      {conflict.user?.name ?? t("unknownUser")}
+                      {conflict.fields.length > 0 &&
+                        ` · ${conflict.fields.join(", ")}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={close}
+            disabled={revertMutation.isPending}
+          >
+            {t("cancel")}
+          </Button>
+          <Button
+            variant={hasConflicts ? "destructive" : "default"}
+            onClick={() => revertMutation.mutate()}
+            disabled={revertMutation.isPending || !preview?.revertable}
+            data-testid="revert-confirm"
+          >
+            {revertMutation.isPending
+              ? t("reverting")
+              : hasConflicts
+                ? t("revertAnyway")
+                : isRestore
+                  ? t("restore")
+                  : t("revert")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
@@ -0,0 +1,67 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@vamsa/ui";
+import { useTranslation } from "react-i18next";
+import { purgeAIHistoryFn } from "~/server/ai";
+
+export function AIHistoryCard() {
+  const { t } = useTranslation(["admin", "common"]);
+  const queryClient = useQueryClient();
+  const [deleted, setDeleted] = useState<number | null>(null);
+
+  const purgeMutation = useMutation({
+    mutationFn: () => purgeAIHistoryFn(),
+    onSuccess: (result) => {
+      setDeleted(result.deleted);
+      queryClient.invalidateQueries({ queryKey: ["ai-conversations"] });
+      setTimeout(() => setDeleted(null), 3000);
+    },
+  });
+
+  return (
+    <Card data-testid="ai-history-card">
+      <CardHeader>
+        <CardTitle>{t("admin:aiHistory")}</CardTitle>
+        <CardDescription>{t("admin:aiHistoryDescription")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {purgeMutation.error && (
+          <div className="bg-destructive/10 text-destructive rounded-md p-3 text-sm">
+            {purgeMutation.error instanceof Error
+              ? purgeMutation.error.message
+              : "Failed to delete conversations"}
+          </div>
+        )}
+        {deleted !== null && (
+          <div className="rounded-md bg-green-500/10 p-3 text-sm text-green-700 dark:text-green-400">
+            {t("admin:aiHistoryPurged", { count: deleted })}
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button
+            variant="destructive"
+            onClick={() => {
+              if (confirm(t("admin:aiHistoryPurgeConfirm"))) {
+                purgeMutation.mutate();
+              }
+            }}
+            disabled={purgeMutation.isPending}
+            data-testid="ai-history-purge-button"
+          >
+            {purgeMutation.isPending
+              ? t("admin:aiHistoryPurging")
+              : t("admin:aiHistoryPurge")}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
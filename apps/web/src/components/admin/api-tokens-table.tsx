@@ -0,0 +1,243 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@vamsa/ui";
+import { adminRevokeApiToken, getAllApiTokens } from "~/server/api-tokens";
+import { formatDateShort, formatRelativeTime } from "~/lib/format";
+
+type ApiTokenWithUser = {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: Array<string>;
+  isActive: boolean;
+  expiresAt: Date;
+  lastUsedAt: Date | null;
+  user: {
+    id: string;
+    email: string;
+    name: string | null;
+  };
+};
+
+/**
+ * Personal access tokens of every user, with the option to revoke any of them
+ */
+export function ApiTokensTable() {
+  const queryClient = useQueryClient();
+  const [revokeDialogToken, setRevokeDialogToken] =
+    useState<ApiTokenWithUser | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: tokens, isLoading } = useQuery({
+    queryKey: ["admin-api-tokens"],
+    queryFn: () => getAllApiTokens(),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (tokenId: string) => adminRevokeApiToken({ data: { tokenId } }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-api-tokens"] });
+      setRevokeDialogToken(null);
+      setError(null);
+    },
+    onError: (err) => {
+      setError(err instanceof Error ? err.message : "Failed to revoke token");
+    },
+  });
+
+  const isTokenActive = (token: ApiTokenWithUser): boolean => {
+    return token.isActive && new Date(token.expiresAt) > new Date();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Personal Access Tokens</CardTitle>
+        <CardDescription>
+          Tokens users have created for the REST API
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div
+            className="bg-destructive/10 text-destructive mb-4 rounded-md p-3 text-sm"
+            data-testid="api-tokens-error"
+          >
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-muted-foreground py-12 text-center">
+            Loading...
+          </div>
+        ) : !tokens || tokens.length === 0 ? (
+          <div className="text-muted-foreground py-12 text-center">
+            No personal access tokens found
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-border border-b text-left">
+                  <th className="text-muted-foreground pr-4 pb-3 text-sm font-medium">
+                    User
+                  </th>
+                  <th className="text-muted-foreground pr-4 pb-3 text-sm font-medium">
+                    Token Name
+                  </th>
+                  <th className="text-muted-foreground pr-4 pb-3 text-sm font-medium">
+                    Scopes
+                  </th>
+                  <th className="text-muted-foreground pr-4 pb-3 text-sm font-medium">
+                    Last Used
+                  </th>
+                  <th className="text-muted-foreground pr-4 pb-3 text-sm font-medium">
+                    Expires
+                  </th>
+                  <th className="text-muted-foreground pr-4 pb-3 text-sm font-medium">
+                    Status
+                  </th>
+                  <th className="text-muted-foreground pb-3 text-sm font-medium">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {tokens.map((token) => (
+                  <tr
+                    key={token.id}
+                    className="border-border border-b last:border-0"
+                    data-testid={`api-token-row-${token.id}`}
+                  >
+                    <td className="py-3 pr-4">
+                      <div className="text-sm font-medium">
+                        {token.user.name || token.user.email}
+                      </div>
+                      {token.user.name && (
+                        <div className="text-muted-foreground text-xs">
+                          {token.user.email}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-3 pr-4">
+                      <div className="text-sm">{token.name}</div>
+                      <code className="text-muted-foreground text-xs">
+                        {token.tokenPrefix}…
+                      </code>
+                    </td>
+                    <td className="py-3 pr-4">
+                      <div className="flex flex-wrap gap-1">
+                        {token.scopes.map((scope) => (
+                          <Badge
+                            key={scope}
+                            variant="outline"
+                            className="font-mono text-xs"
+                          >
+                            {scope}
+                          </Badge>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="text-muted-foreground py-3 pr-4 text-sm">
+                      {token.lastUsedAt ? (
+                        formatRelativeTime(new Date(token.lastUsedAt).getTime())
+                      ) : (
+                        <span className="text-muted-foreground/60">Never</span>
+                      )}
+                    </td>
+                    <td className="text-muted-foreground py-3 pr-4 text-sm">
+                      {formatDateShort(token.expiresAt)}
+                    </td>
+                    <td className="py-3 pr-4">
+                      {isTokenActive(token) ? (
+                        <Badge
+                          variant="secondary"
+                          className="bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400"
+                        >
+                          Active
+                        </Badge>
+                      ) : (
+                        <Badge variant="destructive">Inactive</Badge>
+                      )}
+                    </td>
+                    <td className="py-3">
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => setRevokeDialogToken(token)}
+                        disabled={
+                          revokeMutation.isPending || !isTokenActive(token)
+                        }
+                        data-testid={`revoke-api-token-${token.id}`}
+                      >
+                        Revoke
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      {/* Revoke Confirmation Dialog */}
+      <AlertDialog
+        open={!!revokeDialogToken}
+        onOpenChange={(open) => {
+          if (!open) setRevokeDialogToken(null);
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke Personal Access Token</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to revoke{" "}
+              <strong>
+                {revokeDialogToken?.user.name || revokeDialogToken?.user.email}
+              </strong>
+              &apos;s token <strong>{revokeDialogToken?.name}</strong>? Scripts
+              using it will stop working immediately. This action cannot be
+              undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={revokeMutation.isPending}>
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => {
+                if (revokeDialogToken) {
+                  revokeMutation.mutate(revokeDialogToken.id);
+                }
+              }}
+              disabled={revokeMutation.isPending}
+            >
+              {revokeMutation.isPending ? "Revoking..." : "Revoke Token"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
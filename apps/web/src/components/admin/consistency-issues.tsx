@@ -0,0 +1,78 @@
+"use client";
+
+import { useTranslation } from "react-i18next";
+import { Link } from "@tanstack/react-router";
+import { Badge, Card, CardContent } from "@vamsa/ui/primitives";
+
+interface ConsistencyIssue {
+  rule: string;
+  severity: "ERROR" | "WARNING";
+  personId: string;
+  personName: string;
+  relatedPersonId?: string;
+  relatedPersonName?: string;
+  eventId?: string;
+  message: string;
+}
+
+interface ConsistencyIssuesProps {
+  issues: Array<ConsistencyIssue>;
+}
+
+export function ConsistencyIssues({ issues }: ConsistencyIssuesProps) {
+  const { t } = useTranslation(["admin"]);
+
+  if (issues.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardContent className="divide-border divide-y py-2">
+        {issues.map((issue, index) => (
+          <div
+            key={`${issue.rule}-${issue.personId}-${issue.relatedPersonId ?? issue.eventId ?? index}`}
+            className="flex items-start justify-between gap-4 py-3"
+            data-testid="consistency-issue"
+          >
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <Badge
+                  variant={
+                    issue.severity === "ERROR" ? "destructive" : "secondary"
+                  }
+                >
+                  {issue.severity === "ERROR"
+                    ? t("admin:dataQualityError")
+                    : t("admin:dataQualityWarning")}
+                </Badge>
+                <span className="font-medium">{issue.personName}</span>
+              </div>
+              <p className="text-muted-foreground text-sm">{issue.message}</p>
+            </div>
+            <div className="flex shrink-0 flex-col items-end gap-1 text-sm">
+              <Link
+                to="/people/$personId"
+                params={{ personId: issue.personId }}
+                className="text-primary hover:underline"
+              >
+                {t("admin:dataQualityOpen", { name: issue.personName })}
+              </Link>
+              {issue.relatedPersonId && issue.relatedPersonName && (
+                <Link
+                  to="/people/$personId"
+                  params={{ personId: issue.relatedPersonId }}
+                  className="text-muted-foreground hover:text-primary hover:underline"
+                >
+                  {t("admin:dataQualityOpen", {
+                    name: issue.relatedPersonName,
+                  })}
+                </Link>
+              )}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+} from "@vamsa/ui";
+import { useTranslation } from "react-i18next";
+import { updateConsistencyThresholds } from "~/server/consistency";
+
+interface ThresholdsFormData {
+  maxLifespanYears: number;
+  minParentAge: number;
+  maxParentAge: number;
+  minMarriageAge: number;
+}
+
+interface ConsistencyThresholdsFormProps {
+  thresholds: ThresholdsFormData;
+}
+
+// Field, label key and allowed range; mirrors consistencyThresholdsSchema
+const FIELDS: Array<{
+  name: keyof ThresholdsFormData;
+  labelKey: string;
+  min: number;
+  max: number;
+}> = [
+  {
+    name: "maxLifespanYears",
+    labelKey: "admin:dataQualityMaxLifespan",
+    min: 80,
+    max: 150,
+  },
+  {
+    name: "minParentAge",
+    labelKey: "admin:dataQualityMinParentAge",
+    min: 5,
+    max: 30,
+  },
+  {
+    name: "maxParentAge",
+    labelKey: "admin:dataQualityMaxParentAge",
+    min: 40,
+    max: 100,
+  },
+  {
+    name: "minMarriageAge",
+    labelKey: "admin:dataQualityMinMarriageAge",
+    min: 5,
+    max: 30,
+  },
+];
+
+export function ConsistencyThresholdsForm({
+  thresholds,
+}: ConsistencyThresholdsFormProps) {
+  const { t } = useTranslation(["admin", "common"]);
+  const queryClient = useQueryClient();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ThresholdsFormData>({ defaultValues: thresholds });
+
+  async function onSubmit(data: ThresholdsFormData) {
+    setIsLoading(true);
+    setError(null);
+    setSuccess(false);
+
+    try {
+      await updateConsistencyThresholds({ data });
+      setSuccess(true);
+      await queryClient.invalidateQueries({ queryKey: ["consistency"] });
+      setTimeout(() => setSuccess(false), 3000);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to save thresholds"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit(onSubmit)}
+      data-testid="consistency-thresholds-form"
+    >
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("admin:dataQualityThresholds")}</CardTitle>
+          <CardDescription>
+            {t("admin:dataQualityThresholdsDescription")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <div className="bg-destructive/10 text-destructive rounded-md p-3 text-sm">
+              {error}
+            </div>
+          )}
+          {success && (
+            <div className="rounded-md bg-green-500/10 p-3 text-sm text-green-700 dark:text-green-400">
+              {t("admin:dataQualitySaved")}
+            </div>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            {FIELDS.map((field) => (
+              <div key={field.name} className="space-y-2">
+                <Label htmlFor={field.name}>{t(field.labelKey)}</Label>
+                <Input
+                  id={field.name}
+                  type="number"
+                  min={field.min}
+                  max={field.max}
+                  {...register(field.name, {
+                    valueAsNumber: true,
+                    required: t("common:required"),
+                    min: { value: field.min, message: `≥ ${field.min}` },
+                    max: { value: field.max, message: `≤ ${field.max}` },
+                  })}
+                />
+                {errors[field.name] && (
+                  <p className="text-destructive text-sm">
+                    {errors[field.name]?.message}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={isLoading}>
+              {isLoading
+                ? t("admin:dataQualitySaving")
+                : t("admin:dataQualitySave")}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </form>
+  );
+}
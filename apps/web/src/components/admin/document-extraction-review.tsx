@@ -0,0 +1,108 @@
+"use client";
+
+import { useTranslation } from "react-i18next";
+import {
+  Badge,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@vamsa/ui/primitives";
+import { getMediaKind, toMediaUrl } from "@vamsa/lib/media/media-kinds";
+import { SuggestionsList } from "./suggestions-list";
+import type { DocumentExtractionDetail } from "@vamsa/lib/server/business/document-extraction";
+
+interface DocumentExtractionReviewProps {
+  extraction: DocumentExtractionDetail;
+  onRefresh?: () => void;
+}
+
+/**
+ * A document next to the suggestions read from it: the scan or PDF and
+ * its transcription on one side, the facts to approve or reject on the
+ * other
+ */
+export function DocumentExtractionReview({
+  extraction,
+  onRefresh,
+}: DocumentExtractionReviewProps) {
+  const { t } = useTranslation(["admin", "common"]);
+  const { source, media, suggestions } = extraction;
+  const kind = media ? getMediaKind(media.mimeType) : null;
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle>{t("admin:extractionDocument")}</CardTitle>
+              {source.sourceType && (
+                <Badge variant="outline">{source.sourceType}</Badge>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {media && kind === "image" && (
+              <img
+                src={toMediaUrl(media.webpPath ?? media.filePath)}
+                alt={media.title ?? source.title}
+                className="max-h-[70vh] w-full rounded-md object-contain"
+              />
+            )}
+            {media && kind === "document" && (
+              <iframe
+                src={toMediaUrl(media.filePath)}
+                title={media.title ?? source.title}
+                className="h-[70vh] w-full rounded-md border"
+              />
+            )}
+            {!media && (
+              <p className="text-muted-foreground text-sm">
+                {t("admin:extractionNoDocument")}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("admin:extractionTranscription")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {source.transcription ? (
+              <p className="text-sm whitespace-pre-wrap">
+                {source.transcription}
+              </p>
+            ) : (
+              <p className="text-muted-foreground text-sm">
+                {t("admin:extractionNoTranscription")}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div>
+        <h2 className="mb-4 text-lg font-semibold">
+          {t("admin:extractionFacts")}
+        </h2>
+        {suggestions.length > 0 ? (
+          <SuggestionsList
+            suggestions={suggestions}
+            onRefresh={onRefresh}
+            linkSources={false}
+          />
+        ) : (
+          <Card>
+            <CardContent className="py-8 text-center">
+              <p className="text-muted-foreground">
+                {t("admin:extractionNoFacts")}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
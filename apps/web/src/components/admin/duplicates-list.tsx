@@ -0,0 +1,375 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@vamsa/ui/primitives";
+import { formatDate } from "@vamsa/lib";
+import {
+  dismissDuplicateCandidate,
+  mergePersons,
+  undoMerge,
+} from "~/server/duplicates";
+
+interface DuplicatePerson {
+  id: string;
+  firstName: string;
+  lastName: string;
+  maidenName: string | null;
+  dateOfBirth: string | null;
+  dateOfPassing: string | null;
+  birthPlace: string | null;
+  gender: string | null;
+  isLiving: boolean;
+  deletedAt: string | null;
+}
+
+interface DuplicateCandidate {
+  id: string;
+  score: number;
+  reasons: Array<string>;
+  status: string;
+  reviewedAt: string | null;
+  createdAt: string;
+  person: DuplicatePerson | null;
+  duplicatePerson: DuplicatePerson | null;
+}
+
+interface DuplicatesListProps {
+  candidates: Array<DuplicateCandidate>;
+  onRefresh?: () => void;
+}
+
+type ComparedField =
+  | "firstName"
+  | "lastName"
+  | "maidenName"
+  | "dateOfBirth"
+  | "dateOfPassing"
+  | "birthPlace"
+  | "gender";
+
+// Fields shown side by side and offered as merge choices when they differ
+const COMPARED_FIELDS: Array<ComparedField> = [
+  "firstName",
+  "lastName",
+  "maidenName",
+  "dateOfBirth",
+  "dateOfPassing",
+  "birthPlace",
+  "gender",
+];
+
+function displayValue(person: DuplicatePerson, field: ComparedField): string {
+  const value = person[field];
+  if (!value) return "—";
+  return field === "dateOfBirth" || field === "dateOfPassing"
+    ? formatDate(value)
+    : value;
+}
+
+export function DuplicatesList({ candidates, onRefresh }: DuplicatesListProps) {
+  const { t } = useTranslation(["admin", "people", "common"]);
+  const queryClient = useQueryClient();
+  const [mergeDialog, setMergeDialog] = useState<DuplicateCandidate | null>(
+    null
+  );
+  const [keepId, setKeepId] = useState<string | null>(null);
+  const [fieldChoices, setFieldChoices] = useState<
+    Partial<Record<ComparedField, "keep" | "merge">>
+  >({});
+  const [error, setError] = useState<string | null>(null);
+
+  const onDone = () => {
+    queryClient.invalidateQueries({ queryKey: ["duplicates"] });
+    onRefresh?.();
+  };
+
+  const dismissMutation = useMutation({
+    mutationFn: (candidateId: string) =>
+      dismissDuplicateCandidate({ data: { candidateId } }),
+    onSuccess: onDone,
+    onError: (err: Error) => setError(err.message),
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: (candidateId: string) => undoMerge({ data: { candidateId } }),
+    onSuccess: onDone,
+    onError: (err: Error) => setError(err.message),
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: (params: {
+      keepId: string;
+      mergeId: string;
+      fieldChoices: Partial<Record<ComparedField, "keep" | "merge">>;
+    }) => mergePersons({ data: params }),
+    onSuccess: () => {
+      onDone();
+      closeMergeDialog();
+    },
+    onError: (err: Error) => setError(err.message),
+  });
+
+  const openMergeDialog = (candidate: DuplicateCandidate) => {
+    setError(null);
+    setMergeDialog(candidate);
+    setKeepId(candidate.person?.id ?? null);
+    setFieldChoices({});
+  };
+
+  const closeMergeDialog = () => {
+    setMergeDialog(null);
+    setKeepId(null);
+    setFieldChoices({});
+  };
+
+  const keepPerson =
+    mergeDialog?.person?.id === keepId
+      ? mergeDialog?.person
+      : mergeDialog?.duplicatePerson;
+  const mergePerson =
+    mergeDialog?.person?.id === keepId
+      ? mergeDialog?.duplicatePerson
+      : mergeDialog?.person;
+
+  const differingFields =
+    keepPerson && mergePerson
+      ? COMPARED_FIELDS.filter(
+          (field) =>
+            (keepPerson[field] ?? null) !== (mergePerson[field] ?? null)
+        )
+      : [];
+
+  // Mirrors the server default: keep the kept value unless it is empty
+  const choiceFor = (field: ComparedField): "keep" | "merge" =>
+    fieldChoices[field] ?? (keepPerson?.[field] ? "keep" : "merge");
+
+  const handleMerge = () => {
+    if (!keepPerson || !mergePerson) return;
+    setError(null);
+    mergeMutation.mutate({
+      keepId: keepPerson.id,
+      mergeId: mergePerson.id,
+      fieldChoices: Object.fromEntries(
+        differingFields.map((field) => [field, choiceFor(field)])
+      ),
+    });
+  };
+
+  const renderPerson = (person: DuplicatePerson | null) =>
+    person ? (
+      <div className="space-y-1 text-sm">
+        <p className="font-medium">
+          {person.firstName} {person.lastName}
+          {person.deletedAt && (
+            <Badge variant="outline" className="ml-2">
+              {t("admin:duplicatesRemoved")}
+            </Badge>
+          )}
+        </p>
+        {COMPARED_FIELDS.slice(2).map((field) => (
+          <p key={field} className="text-muted-foreground">
+            {t(`people:${field}`)}: {displayValue(person, field)}
+          </p>
+        ))}
+      </div>
+    ) : null;
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      {error && !mergeDialog && (
+        <div className="bg-destructive/10 text-destructive mb-4 rounded-md p-3 text-sm">
+          {error}
+        </div>
+      )}
+
+      {candidates.map((candidate) => (
+        <Card key={candidate.id} className="mb-4">
+          <CardHeader className="pb-2">
+            <div className="flex items-center justify-between">
+              <Badge variant="secondary">
+                {t("admin:duplicatesScore", { score: candidate.score })}
+              </Badge>
+              <span className="text-muted-foreground text-sm">
+                {formatDate(candidate.reviewedAt ?? candidate.createdAt)}
+              </span>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="grid gap-4 sm:grid-cols-2">
+              {renderPerson(candidate.person)}
+              {renderPerson(candidate.duplicatePerson)}
+            </div>
+
+            {candidate.reasons.length > 0 && (
+              <ul className="text-muted-foreground list-inside list-disc text-sm">
+                {candidate.reasons.map((reason) => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+            )}
+
+            {candidate.status === "PENDING" && (
+              <div className="flex gap-2 pt-2">
+                <Button size="sm" onClick={() => openMergeDialog(candidate)}>
+                  {t("admin:duplicatesMerge")}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => dismissMutation.mutate(candidate.id)}
+                  disabled={dismissMutation.isPending}
+                >
+                  {t("admin:duplicatesDismiss")}
+                </Button>
+              </div>
+            )}
+
+            {candidate.status === "MERGED" && (
+              <div className="pt-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => undoMutation.mutate(candidate.id)}
+                  disabled={undoMutation.isPending}
+                >
+                  {t("admin:duplicatesUndo")}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+
+      {/* Merge Dialog */}
+      <Dialog
+        open={!!mergeDialog}
+        onOpenChange={(open) => {
+          if (!open) closeMergeDialog();
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t("admin:duplicatesMergeTitle")}</DialogTitle>
+            <DialogDescription>
+              {t("admin:duplicatesMergeMessage")}
+            </DialogDescription>
+          </DialogHeader>
+
+          {error && (
+            <div className="bg-destructive/10 text-destructive rounded-md p-3 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium">
+              {t("admin:duplicatesKeep")}
+            </div>
+            {[mergeDialog?.person, mergeDialog?.duplicatePerson].map(
+              (person) =>
+                person && (
+                  <label
+                    key={person.id}
+                    className="flex cursor-pointer items-center gap-3 text-sm"
+                  >
+                    <input
+                      type="radio"
+                      name="keep-person"
+                      value={person.id}
+                      checked={keepId === person.id}
+                      onChange={() => {
+                        setKeepId(person.id);
+                        setFieldChoices({});
+                      }}
+                      disabled={mergeMutation.isPending}
+                      className="text-primary h-4 w-4"
+                    />
+                    {person.firstName} {person.lastName}
+                  </label>
+                )
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium">
+              {t("admin:duplicatesFieldValues")}
+            </div>
+            {differingFields.length === 0 ? (
+              <p className="text-muted-foreground text-sm">
+                {t("admin:duplicatesNoDifferences")}
+              </p>
+            ) : (
+              differingFields.map((field) => (
+                <div key={field} className="grid grid-cols-3 gap-2 text-sm">
+                  <span className="text-muted-foreground">
+                    {t(`people:${field}`)}
+                  </span>
+                  {(["keep", "merge"] as const).map((choice) => {
+                    const person = choice === "keep" ? keepPerson : mergePerson;
+                    return (
+                      <label
+                        key={choice}
+                        className="flex cursor-pointer items-center gap-2"
+                      >
+                        <input
+                          type="radio"
+                          name={`field-${field}`}
+                          checked={choiceFor(field) === choice}
+                          onChange={() =>
+                            setFieldChoices((prev) => ({
+                              ...prev,
+                              [field]: choice,
+                            }))
+                          }
+                          disabled={mergeMutation.isPending}
+                          className="text-primary h-4 w-4"
+                        />
+                        {person ? displayValue(person, field) : "—"}
+                      </label>
+                    );
+                  })}
+                </div>
+              ))
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={closeMergeDialog}
+              disabled={mergeMutation.isPending}
+            >
+              {t("common:cancel")}
+            </Button>
+            <Button
+              onClick={handleMerge}
+              disabled={mergeMutation.isPending || !keepPerson || !mergePerson}
+            >
+              {mergeMutation.isPending
+                ? t("admin:duplicatesProcessing")
+                : t("admin:duplicatesMerge")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -63,7 +63,7 @@ export function GedcomExport() {
         const url = URL.createObjectURL(blob);
         const a = document.createElement("a");
         a.href = url;
-        a.download = `vamsa-backup-${new Date().toISOString().split("T")[0]}.zip`;
+        a.download = `vamsa-export-${new Date().toISOString().split("T")[0]}.gdz`;
         document.body.appendChild(a);
         a.click();
         document.body.removeChild(a);
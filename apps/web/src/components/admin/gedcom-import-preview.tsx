@@ -11,7 +11,8 @@ import {
   CardTitle,
 } from "@vamsa/ui/primitives";
 import type { ValidateGedcomResult } from "~/server/gedcom";
-import { importGedcom } from "~/server/gedcom";
+import { importGedcom, importGedzip } from "~/server/gedcom";
+import { isGedzipFile, readFileAsBase64 } from "~/lib/gedzip";
 
 interface GedcomImportPreviewProps {
   result: ValidateGedcomResult;
@@ -32,6 +33,10 @@ export function GedcomImportPreview({
 
   const mutation = useMutation({
     mutationFn: async (f: File) => {
+      if (isGedzipFile(f.name)) {
+        const zipBase64 = await readFileAsBase64(f);
+        return importGedzip({ data: { fileName: f.name, zipBase64 } });
+      }
       const content = await f.text();
       return importGedcom({
         data: { fileName: f.name, fileContent: content },
@@ -6,7 +6,13 @@ import { useTranslation } from "react-i18next";
 import { Button, Input, Label } from "@vamsa/ui/primitives";
 import { GedcomImportPreview } from "./gedcom-import-preview";
 import type { ValidateGedcomResult } from "~/server/gedcom";
-import { validateGedcom } from "~/server/gedcom";
+import { validateGedcom, validateGedzip } from "~/server/gedcom";
+import {
+  GEDCOM_IMPORT_ACCEPT,
+  isGedcomImportFile,
+  isGedzipFile,
+  readFileAsBase64,
+} from "~/lib/gedzip";
 
 export function GedcomImport() {
   const { t } = useTranslation(["admin", "common"]);
@@ -17,6 +23,10 @@ export function GedcomImport() {
 
   const mutation = useMutation({
     mutationFn: async (file: File) => {
+      if (isGedzipFile(file.name)) {
+        const zipBase64 = await readFileAsBase64(file);
+        return validateGedzip({ data: { fileName: file.name, zipBase64 } });
+      }
       const content = await file.text();
       return validateGedcom({
         data: { fileName: file.name, fileContent: content },
@@ -34,7 +44,7 @@ export function GedcomImport() {
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      if (!file.name.endsWith(".ged")) {
+      if (!isGedcomImportFile(file.name)) {
         setError(t("admin:gedcomSelectGedFile"));
         return;
       }
@@ -75,7 +85,7 @@ export function GedcomImport() {
         <Input
           id="gedcom-file"
           type="file"
-          accept=".ged"
+          accept={GEDCOM_IMPORT_ACCEPT}
           onChange={handleFileChange}
           className="cursor-pointer"
         />
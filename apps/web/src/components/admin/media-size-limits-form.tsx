@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+} from "@vamsa/ui";
+import { useTranslation } from "react-i18next";
+import { updateMediaSizeLimits } from "~/server/media";
+
+interface SizeLimitsFormData {
+  imageMb: number;
+  documentMb: number;
+  audioMb: number;
+  videoMb: number;
+}
+
+interface MediaSizeLimitsFormProps {
+  limits: SizeLimitsFormData;
+}
+
+// Allowed range in megabytes; mirrors mediaSizeLimitsSchema
+const MIN_LIMIT_MB = 1;
+const MAX_LIMIT_MB = 500;
+
+const FIELDS: Array<{ name: keyof SizeLimitsFormData; labelKey: string }> = [
+  { name: "imageMb", labelKey: "admin:mediaSizeLimitImage" },
+  { name: "documentMb", labelKey: "admin:mediaSizeLimitDocument" },
+  { name: "audioMb", labelKey: "admin:mediaSizeLimitAudio" },
+  { name: "videoMb", labelKey: "admin:mediaSizeLimitVideo" },
+];
+
+export function MediaSizeLimitsForm({ limits }: MediaSizeLimitsFormProps) {
+  const { t } = useTranslation(["admin", "common"]);
+  const queryClient = useQueryClient();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<SizeLimitsFormData>({ defaultValues: limits });
+
+  async function onSubmit(data: SizeLimitsFormData) {
+    setIsLoading(true);
+    setError(null);
+    setSuccess(false);
+
+    try {
+      await updateMediaSizeLimits({ data });
+      setSuccess(true);
+      await queryClient.invalidateQueries({ queryKey: ["mediaSizeLimits"] });
+      setTimeout(() => setSuccess(false), 3000);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to save size limits"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit(onSubmit)}
+      data-testid="media-size-limits-form"
+    >
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("admin:mediaSizeLimits")}</CardTitle>
+          <CardDescription>
+            {t("admin:mediaSizeLimitsDescription")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <div className="bg-destructive/10 text-destructive rounded-md p-3 text-sm">
+              {error}
+            </div>
+          )}
+          {success && (
+            <div className="rounded-md bg-green-500/10 p-3 text-sm text-green-700 dark:text-green-400">
+              {t("admin:mediaSizeLimitsSaved")}
+            </div>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            {FIELDS.map((field) => (
+              <div key={field.name} className="space-y-2">
+                <Label htmlFor={field.name}>{t(field.labelKey)}</Label>
+                <Input
+                  id={field.name}
+                  type="number"
+                  min={MIN_LIMIT_MB}
+                  max={MAX_LIMIT_MB}
+                  {...register(field.name, {
+                    valueAsNumber: true,
+                    required: t("common:required"),
+                    min: { value: MIN_LIMIT_MB, message: `≥ ${MIN_LIMIT_MB}` },
+                    max: { value: MAX_LIMIT_MB, message: `≤ ${MAX_LIMIT_MB}` },
+                  })}
+                />
+                {errors[field.name] && (
+                  <p className="text-destructive text-sm">
+                    {errors[field.name]?.message}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={isLoading}>
+              {isLoading
+                ? t("admin:mediaSizeLimitsSaving")
+                : t("admin:mediaSizeLimitsSave")}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </form>
+  );
+}
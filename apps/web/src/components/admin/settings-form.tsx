@@ -23,6 +23,8 @@ interface SettingsFormData {
   requireApprovalForEdits: boolean;
   metricsDashboardUrl: string;
   metricsApiUrl: string;
+  stripPhotoLocation: boolean;
+  aiHistoryEnabled: boolean;
 }
 
 interface SettingsFormProps {
@@ -34,6 +36,8 @@ interface SettingsFormProps {
     requireApprovalForEdits: boolean;
     metricsDashboardUrl: string | null;
     metricsApiUrl: string | null;
+    stripPhotoLocation: boolean;
+    aiHistoryEnabled: boolean;
   };
 }
 
@@ -57,6 +61,8 @@ export function SettingsForm({ settings }: SettingsFormProps) {
       requireApprovalForEdits: settings.requireApprovalForEdits,
       metricsDashboardUrl: settings.metricsDashboardUrl ?? "",
       metricsApiUrl: settings.metricsApiUrl ?? "",
+      stripPhotoLocation: settings.stripPhotoLocation,
+      aiHistoryEnabled: settings.aiHistoryEnabled,
     },
   });
 
@@ -204,6 +210,58 @@ export function SettingsForm({ settings }: SettingsFormProps) {
               </p>
             </div>
           </div>
+
+          <div className="flex items-center space-x-3">
+            <Controller
+              name="stripPhotoLocation"
+              control={control}
+              render={({ field }) => (
+                <Checkbox
+                  id="stripPhotoLocation"
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                  data-testid="settings-strip-photo-location-checkbox"
+                />
+              )}
+            />
+            <div className="space-y-1">
+              <Label
+                htmlFor="stripPhotoLocation"
+                className="text-sm leading-none font-medium peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+              >
+                {t("admin:settingsStripPhotoLocation")}
+              </Label>
+              <p className="text-muted-foreground text-sm">
+                {t("admin:settingsStripPhotoLocationHelp")}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-3">
+            <Controller
+              name="aiHistoryEnabled"
+              control={control}
+              render={({ field }) => (
+                <Checkbox
+                  id="aiHistoryEnabled"
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                  data-testid="settings-ai-history-checkbox"
+                />
+              )}
+            />
+            <div className="space-y-1">
+              <Label
+                htmlFor="aiHistoryEnabled"
+                className="text-sm leading-none font-medium peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+              >
+                {t("admin:settingsAIHistory")}
+              </Label>
+              <p className="text-muted-foreground text-sm">
+                {t("admin:settingsAIHistoryHelp")}
+              </p>
+            </div>
+          </div>
         </CardContent>
       </Card>
 
@@ -3,6 +3,7 @@
 import { useState } from "react";
 import { useTranslation } from "react-i18next";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "@tanstack/react-router";
 import {
   Badge,
   Button,
@@ -35,6 +36,7 @@ interface Suggestion {
   submittedAt: string;
   reviewedAt: string | null;
   reviewNote: string | null;
+  sourceId?: string | null;
   targetPerson: { id: string; firstName: string; lastName: string } | null;
   submittedBy: { id: string; name: string | null; email: string };
   reviewedBy: { id: string; name: string | null; email: string } | null;
@@ -43,11 +45,14 @@ interface Suggestion {
 interface SuggestionsListProps {
   suggestions: Array<Suggestion>;
   onRefresh?: () => void;
+  /** Link suggestions read from a document to its review page */
+  linkSources?: boolean;
 }
 
 export function SuggestionsList({
   suggestions,
   onRefresh,
+  linkSources = true,
 }: SuggestionsListProps) {
   const { t } = useTranslation(["admin", "common"]);
   const queryClient = useQueryClient();
@@ -116,12 +121,31 @@ export function SuggestionsList({
   const getTypeBadgeColor = (type: string) => {
     switch (type) {
       case "CREATE":
+      case "CREATE_EVENT":
+      case "ADD_EVENT_PARTICIPANT":
+      case "LINK_PLACE":
+      case "UPLOAD_MEDIA":
         return "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400";
       case "UPDATE":
+      case "UPDATE_EVENT":
+      case "UPDATE_PLACE_LINK":
+      case "UPDATE_MEDIA":
+      case "SET_PRIMARY_PHOTO":
+      case "REORDER_MEDIA":
+      case "LINK_MEDIA_TO_EVENT":
+      case "TAG_MEDIA_REGION":
+      case "ATTACH_MEDIA_TRANSCRIPT":
         return "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400";
       case "DELETE":
+      case "DELETE_EVENT":
+      case "REMOVE_EVENT_PARTICIPANT":
+      case "UNLINK_PLACE":
+      case "DELETE_MEDIA":
+      case "REMOVE_MEDIA_TRANSCRIPT":
         return "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400";
       case "ADD_RELATIONSHIP":
+      case "UPDATE_RELATIONSHIP":
+      case "DELETE_RELATIONSHIP":
         return "bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-400";
       default:
         return "bg-gray-100 text-gray-700 dark:bg-gray-900/30 dark:text-gray-400";
@@ -183,6 +207,16 @@ export function SuggestionsList({
           </div>
         )}
 
+        {linkSources && suggestion.sourceId && (
+          <Link
+            to="/admin/extractions/$sourceId"
+            params={{ sourceId: suggestion.sourceId }}
+            className="text-primary text-sm underline"
+          >
+            {t("admin:suggestionsViewDocument")}
+          </Link>
+        )}
+
         {suggestion.reviewedBy && (
           <div className="border-t pt-2 text-sm">
             <span className="text-muted-foreground">
@@ -216,7 +250,12 @@ export function SuggestionsList({
           </button>
           {expandedIds.has(suggestion.id) && (
             <pre className="bg-muted mt-2 max-h-60 overflow-auto rounded-md p-3 text-xs">
-              {JSON.stringify(suggestion.suggestedData, null, 2)}
+              {/* Uploaded files are shown by name, not as their contents */}
+              {JSON.stringify(
+                suggestion.suggestedData,
+                (key, value) => (key === "base64Data" ? "…" : value),
+                2
+              )}
             </pre>
           )}
         </div>
@@ -7,15 +7,34 @@
  * Features:
  * - Streaming text responses
  * - Multi-turn conversation with history
+ * - Saved conversations, resumed after a reload and listed for reopening
+ * - Citations linking answers to the persons and events they drew on
  * - Suggested starter prompts
  * - Responsive: sheet on desktop, full-screen on mobile
  */
 
 import { useCallback, useEffect, useRef, useState } from "react";
-import { Bot, Send, Sparkles, Trash2, X } from "lucide-react";
-import { getAIClient } from "@vamsa/lib/ai";
+import { Link } from "@tanstack/react-router";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Bot,
+  CalendarDays,
+  History,
+  MessageSquarePlus,
+  Send,
+  Sparkles,
+  Trash2,
+  User,
+  X,
+} from "lucide-react";
 import { useAI } from "../../contexts/ai-context";
-import type { ChatMessage } from "@vamsa/lib/ai";
+import {
+  deleteAIConversationFn,
+  getAIConversationFn,
+  listAIConversationsFn,
+} from "../../server/ai";
+import type { ChatCitation, ChatMessage } from "@vamsa/lib/ai";
+import type { AIChatStreamEvent } from "@vamsa/lib/server/business";
 
 const STARTER_PROMPTS = [
   "Who are the oldest people in our family tree?",
@@ -24,16 +43,116 @@ const STARTER_PROMPTS = [
   "Who has the most descendants?",
 ];
 
+// Conversation to resume when the page is reloaded
+const STORAGE_KEY = "vamsa-ai-conversation";
+
+// Earlier messages sent along while conversations are not saved
+const LOCAL_HISTORY_LIMIT = 20;
+
+interface PanelMessage extends ChatMessage {
+  citations?: Array<ChatCitation>;
+}
+
+/**
+ * Send a question to the chat endpoint and pass each streamed event on
+ */
+async function streamChat(
+  body: {
+    message: string;
+    conversationId?: string;
+    history?: Array<ChatMessage>;
+  },
+  onEvent: (event: AIChatStreamEvent) => void
+): Promise<void> {
+  const response = await fetch("/api/v1/ai/chat", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok || !response.body) {
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.error ?? `HTTP ${response.status}`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      if (line.trim()) onEvent(JSON.parse(line) as AIChatStreamEvent);
+    }
+  }
+
+  if (buffer.trim()) onEvent(JSON.parse(buffer) as AIChatStreamEvent);
+}
+
 export function AIChatPanel() {
   const { isAvailable } = useAI();
+  const queryClient = useQueryClient();
   const [isOpen, setIsOpen] = useState(false);
-  const [messages, setMessages] = useState<Array<ChatMessage>>([]);
+  const [showConversations, setShowConversations] = useState(false);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<Array<PanelMessage>>([]);
   const [input, setInput] = useState("");
   const [isStreaming, setIsStreaming] = useState(false);
   const [streamingText, setStreamingText] = useState("");
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
 
+  const { data: conversationList } = useQuery({
+    queryKey: ["ai-conversations"],
+    queryFn: () => listAIConversationsFn(),
+    enabled: isAvailable && isOpen,
+  });
+
+  const selectConversation = useCallback((id: string | null) => {
+    setConversationId(id);
+    if (id) {
+      localStorage.setItem(STORAGE_KEY, id);
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }, []);
+
+  const openConversation = useCallback(
+    async (id: string) => {
+      try {
+        const conversation = await getAIConversationFn({
+          data: { conversationId: id },
+        });
+        setMessages(
+          conversation.messages.map(({ role, content, citations }) => ({
+            role,
+            content,
+            citations,
+          }))
+        );
+        selectConversation(id);
+      } catch {
+        // Deleted, purged, or no longer saved: start afresh
+        setMessages([]);
+        selectConversation(null);
+      }
+      setShowConversations(false);
+    },
+    [selectConversation]
+  );
+
+  // Resume the last conversation after a reload
+  useEffect(() => {
+    if (!isAvailable) return;
+    const savedId = localStorage.getItem(STORAGE_KEY);
+    if (savedId) openConversation(savedId);
+  }, [isAvailable, openConversation]);
+
   // Auto-scroll to bottom when messages change
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -46,6 +165,18 @@ export function AIChatPanel() {
     }
   }, [isOpen]);
 
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) =>
+      deleteAIConversationFn({ data: { conversationId: id } }),
+    onSuccess: (_result, id) => {
+      if (id === conversationId) {
+        setMessages([]);
+        selectConversation(null);
+      }
+      queryClient.invalidateQueries({ queryKey: ["ai-conversations"] });
+    },
+  });
+
   const sendMessage = useCallback(
     async (text: string) => {
       if (!text.trim() || isStreaming) return;
@@ -56,28 +187,43 @@ export function AIChatPanel() {
       setIsStreaming(true);
       setStreamingText("");
 
-      try {
-        const client = getAIClient();
-        if (!client) throw new Error("AI client not available");
-
-        const stream = await client.chat({
-          message: userMessage.content,
-          history: messages,
-        });
-
-        const reader = stream.getReader();
-        let fullText = "";
+      let fullText = "";
+      let citations: Array<ChatCitation> = [];
 
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          fullText += value;
-          setStreamingText(fullText);
-        }
+      try {
+        await streamChat(
+          {
+            message: userMessage.content,
+            // Saved conversations keep their history on the server
+            ...(conversationId
+              ? { conversationId }
+              : {
+                  history: messages
+                    .slice(-LOCAL_HISTORY_LIMIT)
+                    .map(({ role, content }) => ({ role, content })),
+                }),
+          },
+          (event) => {
+            switch (event.type) {
+              case "conversation":
+                selectConversation(event.conversation.id);
+                break;
+              case "text":
+                fullText += event.text;
+                setStreamingText(fullText);
+                break;
+              case "citations":
+                citations = event.citations;
+                break;
+              case "error":
+                throw new Error(event.message);
+            }
+          }
+        );
 
         setMessages((prev) => [
           ...prev,
-          { role: "assistant", content: fullText },
+          { role: "assistant", content: fullText, citations },
         ]);
         setStreamingText("");
       } catch (error) {
@@ -91,14 +237,17 @@ export function AIChatPanel() {
         setStreamingText("");
       } finally {
         setIsStreaming(false);
+        queryClient.invalidateQueries({ queryKey: ["ai-conversations"] });
       }
     },
-    [isStreaming, messages]
+    [conversationId, isStreaming, messages, queryClient, selectConversation]
   );
 
-  const clearConversation = () => {
+  const startNewConversation = () => {
     setMessages([]);
     setStreamingText("");
+    setShowConversations(false);
+    selectConversation(null);
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -110,6 +259,8 @@ export function AIChatPanel() {
 
   if (!isAvailable) return null;
 
+  const historyEnabled = conversationList?.historyEnabled ?? true;
+
   return (
     <>
       {/* Toggle button - fixed position */}
@@ -143,13 +294,23 @@ export function AIChatPanel() {
                 </h2>
               </div>
               <div className="flex items-center gap-1">
-                {messages.length > 0 && (
+                {historyEnabled && (
+                  <button
+                    onClick={() => setShowConversations((shown) => !shown)}
+                    className="text-muted-foreground hover:bg-muted hover:text-foreground rounded-md p-2 transition-colors"
+                    aria-label="Saved conversations"
+                    aria-pressed={showConversations}
+                  >
+                    <History className="h-4 w-4" />
+                  </button>
+                )}
+                {(messages.length > 0 || showConversations) && (
                   <button
-                    onClick={clearConversation}
+                    onClick={startNewConversation}
                     className="text-muted-foreground hover:bg-muted hover:text-foreground rounded-md p-2 transition-colors"
-                    aria-label="Clear conversation"
+                    aria-label="New conversation"
                   >
-                    <Trash2 className="h-4 w-4" />
+                    <MessageSquarePlus className="h-4 w-4" />
                   </button>
                 )}
                 <button
@@ -164,12 +325,24 @@ export function AIChatPanel() {
 
             {/* Messages area */}
             <div className="flex-1 overflow-y-auto px-4 py-4">
-              {messages.length === 0 && !streamingText ? (
+              {showConversations ? (
+                <ConversationList
+                  conversations={conversationList?.conversations ?? []}
+                  activeId={conversationId}
+                  onOpen={openConversation}
+                  onDelete={(id) => deleteMutation.mutate(id)}
+                  isDeleting={deleteMutation.isPending}
+                />
+              ) : messages.length === 0 && !streamingText ? (
                 <EmptyState onPromptClick={(prompt) => sendMessage(prompt)} />
               ) : (
                 <div className="space-y-4">
                   {messages.map((msg, i) => (
-                    <MessageBubble key={i} message={msg} />
+                    <MessageBubble
+                      key={i}
+                      message={msg}
+                      onCitationClick={() => setIsOpen(false)}
+                    />
                   ))}
                   {streamingText && (
                     <MessageBubble
@@ -196,7 +369,10 @@ export function AIChatPanel() {
                   disabled={isStreaming}
                 />
                 <button
-                  onClick={() => sendMessage(input)}
+                  onClick={() => {
+                    setShowConversations(false);
+                    sendMessage(input);
+                  }}
                   disabled={!input.trim() || isStreaming}
                   className="bg-primary text-primary-foreground hover:bg-primary/90 disabled:hover:bg-primary flex h-10 w-10 items-center justify-center rounded-lg transition-colors disabled:opacity-50"
                   aria-label="Send message"
@@ -206,6 +382,7 @@ export function AIChatPanel() {
               </div>
               <p className="text-muted-foreground mt-1.5 text-xs">
                 AI responses are generated and may not be accurate.
+                {!historyEnabled && " Conversations are not saved."}
               </p>
             </div>
           </div>
@@ -215,6 +392,61 @@ export function AIChatPanel() {
   );
 }
 
+function ConversationList({
+  conversations,
+  activeId,
+  onOpen,
+  onDelete,
+  isDeleting,
+}: {
+  conversations: Array<{ id: string; title: string; updatedAt: string }>;
+  activeId: string | null;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+  isDeleting: boolean;
+}) {
+  if (conversations.length === 0) {
+    return (
+      <p className="text-muted-foreground py-8 text-center text-sm">
+        No saved conversations yet.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-1">
+      {conversations.map((conversation) => (
+        <li
+          key={conversation.id}
+          className={`flex items-center gap-1 rounded-lg ${
+            conversation.id === activeId ? "bg-muted" : ""
+          }`}
+        >
+          <button
+            onClick={() => onOpen(conversation.id)}
+            className="hover:bg-muted min-w-0 flex-1 rounded-lg px-3 py-2 text-left transition-colors"
+          >
+            <p className="text-foreground truncate text-sm">
+              {conversation.title}
+            </p>
+            <p className="text-muted-foreground text-xs">
+              {new Date(conversation.updatedAt).toLocaleString()}
+            </p>
+          </button>
+          <button
+            onClick={() => onDelete(conversation.id)}
+            disabled={isDeleting}
+            className="text-muted-foreground hover:bg-muted hover:text-destructive rounded-md p-2 transition-colors disabled:opacity-50"
+            aria-label={`Delete conversation "${conversation.title}"`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 function EmptyState({
   onPromptClick,
 }: {
@@ -250,9 +482,11 @@ function EmptyState({
 function MessageBubble({
   message,
   isStreaming = false,
+  onCitationClick,
 }: {
-  message: ChatMessage;
+  message: PanelMessage;
   isStreaming?: boolean;
+  onCitationClick?: () => void;
 }) {
   const isUser = message.role === "user";
 
@@ -271,6 +505,29 @@ function MessageBubble({
             <span className="ml-0.5 inline-block h-4 w-0.5 animate-pulse bg-current" />
           )}
         </p>
+        {message.citations && message.citations.length > 0 && (
+          <div
+            className="border-border mt-2 flex flex-wrap gap-1.5 border-t pt-2"
+            aria-label="Sources"
+          >
+            {message.citations.map((citation) => (
+              <Link
+                key={`${citation.type}:${citation.id}`}
+                to="/people/$personId"
+                params={{ personId: citation.personId }}
+                onClick={onCitationClick}
+                className="border-border bg-background text-foreground hover:border-primary hover:text-primary inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors"
+              >
+                {citation.type === "person" ? (
+                  <User className="h-3 w-3" />
+                ) : (
+                  <CalendarDays className="h-3 w-3" />
+                )}
+                {citation.label}
+              </Link>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
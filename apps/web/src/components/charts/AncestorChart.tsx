@@ -276,6 +276,7 @@ function AncestorChartComponent({
                       targetX={target.x}
                       targetY={target.y}
                       nodeHeight={NODE_HEIGHT}
+                      pedigree={edge.pedigree}
                     />
                   );
                 } else if (edge.type === "spouse") {
@@ -287,6 +288,7 @@ function AncestorChartComponent({
                       targetX={target.x}
                       targetY={target.y}
                       nodeWidth={NODE_WIDTH}
+                      isPartner={edge.isPartner}
                     />
                   );
                 }
@@ -289,6 +289,12 @@ export function CircleNode({
 // Edge Components
 // ============================================================================
 
+/** Dash pattern for adoptive, foster, guardian and sealed parent links */
+export const PEDIGREE_EDGE_DASHARRAY = "6,4";
+
+/** Dash pattern for unmarried partners (spouses use "5,5") */
+export const PARTNER_EDGE_DASHARRAY = "2,4";
+
 export interface ParentChildEdgeProps {
   sourceX: number;
   sourceY: number;
@@ -298,10 +304,12 @@ export interface ParentChildEdgeProps {
   stroke?: string;
   strokeWidth?: number;
   strokeDasharray?: string;
+  /** Pedigree of the link; any value other than birth draws a dashed line */
+  pedigree?: string;
 }
 
 /**
- * Renders a parent-child edge (solid line).
+ * Renders a parent-child edge (solid line, dashed when not by birth).
  * Replaces renderParentChildEdge() from d3-utils.ts
  */
 export function ParentChildEdge({
@@ -312,7 +320,8 @@ export function ParentChildEdge({
   nodeHeight,
   stroke = "var(--color-border)",
   strokeWidth = 2,
-  strokeDasharray,
+  pedigree,
+  strokeDasharray = pedigree ? PEDIGREE_EDGE_DASHARRAY : undefined,
 }: ParentChildEdgeProps) {
   return (
     <Line
@@ -336,10 +345,12 @@ export interface SpouseEdgeProps {
   stroke?: string;
   strokeWidth?: number;
   strokeDasharray?: string;
+  /** Draws the dotted partner pattern instead of the spouse dashes */
+  isPartner?: boolean;
 }
 
 /**
- * Renders a spouse edge (dashed horizontal line).
+ * Renders a spouse edge (dashed horizontal line, dotted for partners).
  * Replaces renderSpouseEdge() from d3-utils.ts
  */
 export function SpouseEdge({
@@ -350,7 +361,8 @@ export function SpouseEdge({
   nodeWidth,
   stroke = "var(--color-primary)",
   strokeWidth = 2,
-  strokeDasharray = "5,5",
+  isPartner,
+  strokeDasharray = isPartner ? PARTNER_EDGE_DASHARRAY : "5,5",
 }: SpouseEdgeProps) {
   return (
     <Line
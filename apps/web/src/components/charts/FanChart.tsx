@@ -4,7 +4,11 @@ import { memo, useCallback, useEffect, useMemo, useState } from "react";
 import { Circle, G, Line, Path, Svg } from "react-native-svg";
 import * as d3 from "d3";
 import { useNavigate } from "@tanstack/react-router";
-import { CircleNode } from "./ChartElements";
+import {
+  CircleNode,
+  PARTNER_EDGE_DASHARRAY,
+  PEDIGREE_EDGE_DASHARRAY,
+} from "./ChartElements";
 import { ChartTooltip } from "./ChartTooltip";
 import { ChartSkeleton } from "./ChartSkeleton";
 import { ZoomControls } from "./ZoomControls";
@@ -327,6 +331,9 @@ function FanChartComponent({
                         d={path.toString()}
                         stroke="var(--color-border)"
                         strokeWidth="2"
+                        strokeDasharray={
+                          edge.pedigree ? PEDIGREE_EDGE_DASHARRAY : undefined
+                        }
                         fill="none"
                       />
                     );
@@ -343,7 +350,9 @@ function FanChartComponent({
                           y2={target.y}
                           stroke="var(--color-primary)"
                           strokeWidth="2"
-                          strokeDasharray="5,5"
+                          strokeDasharray={
+                            edge.isPartner ? PARTNER_EDGE_DASHARRAY : "5,5"
+                          }
                         />
                       );
                     } else if (
@@ -378,7 +387,9 @@ function FanChartComponent({
                           transform={`translate(${centerX}, ${centerY})`}
                           stroke="var(--color-primary)"
                           strokeWidth="2"
-                          strokeDasharray="5,5"
+                          strokeDasharray={
+                            edge.isPartner ? PARTNER_EDGE_DASHARRAY : "5,5"
+                          }
                           fill="none"
                         />
                       );
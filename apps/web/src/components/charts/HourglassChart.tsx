@@ -2,7 +2,11 @@
 
 import { memo, useCallback, useEffect, useMemo } from "react";
 import { G, Line, Svg } from "react-native-svg";
-import { ParentChildEdge, RectNode } from "./ChartElements";
+import {
+  PARTNER_EDGE_DASHARRAY,
+  ParentChildEdge,
+  RectNode,
+} from "./ChartElements";
 import { ChartSkeleton } from "./ChartSkeleton";
 import { ZoomControls } from "./ZoomControls";
 import {
@@ -258,6 +262,7 @@ function HourglassChartComponent({
                       targetX={target.x}
                       targetY={target.y}
                       nodeHeight={NODE_HEIGHT}
+                      pedigree={edge.pedigree}
                     />
                   );
                 } else if (edge.type === "spouse") {
@@ -271,7 +276,9 @@ function HourglassChartComponent({
                       y2={target.y}
                       stroke="var(--color-primary)"
                       strokeWidth={2}
-                      strokeDasharray="5,5"
+                      strokeDasharray={
+                        edge.isPartner ? PARTNER_EDGE_DASHARRAY : "5,5"
+                      }
                     />
                   );
                 }
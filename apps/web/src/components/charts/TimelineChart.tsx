@@ -205,6 +205,9 @@ function TimelineChartComponent({
                   : (entry.deathYear ?? startYear + 1);
 
                 const isHovered = hoveredEntryId === entry.id;
+                // "~" marks approximate or ranged dates (e.g. ABT 1850)
+                const birthText = `${entry.isBirthApproximate ? "~" : ""}${entry.birthYear}`;
+                const deathText = `${entry.isDeathApproximate ? "~" : ""}${entry.deathYear}`;
 
                 // Only draw bar if we have valid year data
                 if (entry.birthYear !== null) {
@@ -293,10 +296,10 @@ function TimelineChartComponent({
                           pointerEvents="none"
                         >
                           {entry.isLiving
-                            ? `${entry.birthYear} - present`
+                            ? `${birthText} - present`
                             : entry.deathYear
-                              ? `${entry.birthYear} - ${entry.deathYear}`
-                              : `b. ${entry.birthYear}`}
+                              ? `${birthText} - ${deathText}`
+                              : `b. ${birthText}`}
                         </Text>
                       )}
 
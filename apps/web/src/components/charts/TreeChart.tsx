@@ -333,6 +333,7 @@ function TreeChartComponent({
                       targetX={target.x}
                       targetY={target.y}
                       nodeHeight={NODE_HEIGHT}
+                      pedigree={edge.pedigree}
                     />
                   );
                 } else if (edge.type === "spouse") {
@@ -344,6 +345,7 @@ function TreeChartComponent({
                       targetX={target.x}
                       targetY={target.y}
                       nodeWidth={NODE_WIDTH}
+                      isPartner={edge.isPartner}
                     />
                   );
                 }
@@ -3,8 +3,14 @@
 import { useState } from "react";
 import { useTranslation } from "react-i18next";
 import { Badge } from "@vamsa/ui/primitives";
+import {
+  formatDuration,
+  getMediaKind,
+  toMediaUrl,
+} from "@vamsa/lib/media/media-kinds";
 import { ImagePlaceholder } from "../ui/image-placeholder";
 import { ResponsiveImage } from "../ui/responsive-image";
+import { MediaKindIcon } from "./media-kind-icon";
 
 interface MediaCardProps {
   media: {
@@ -18,6 +24,9 @@ interface MediaCardProps {
     thumb400Path?: string | null;
     thumb800Path?: string | null;
     thumb1200Path?: string | null;
+    mimeType?: string;
+    duration?: number | null;
+    pageCount?: number | null;
   };
   onView: () => void;
   onSetPrimary?: () => void;
@@ -34,6 +43,11 @@ export function MediaCard({
 }: MediaCardProps) {
   const { t } = useTranslation(["people", "common"]);
   const [showMenu, setShowMenu] = useState(false);
+  const kind = media.mimeType ? getMediaKind(media.mimeType) : "image";
+  // Documents show their rendered first page when there is one
+  const hasPicture =
+    kind === "image" ||
+    (kind === "document" && !!(media.webpPath || media.thumb400Path));
 
   return (
     <div className="border-border bg-card hover:border-primary/30 group relative aspect-square overflow-hidden rounded-lg border-2 shadow-sm transition-all duration-300 hover:shadow-md">
@@ -44,7 +58,7 @@ export function MediaCard({
         onClick={onView}
         aria-label={`${t("people:viewPhoto")} ${media.title || t("people:photo")}`}
       >
-        {media.thumbnailPath || media.filePath ? (
+        {hasPicture && (media.thumbnailPath || media.filePath) ? (
           <ResponsiveImage
             mediaId={media.mediaId}
             alt={media.title || t("people:photo")}
@@ -56,6 +70,19 @@ export function MediaCard({
             sizes="(max-width: 640px) 200px, (max-width: 1024px) 300px, 400px"
             className="transition-transform duration-300 group-hover:scale-105"
           />
+        ) : kind === "video" ? (
+          // The first frame stands in for a thumbnail
+          <video
+            src={`${toMediaUrl(media.filePath)}#t=0.1`}
+            preload="metadata"
+            muted
+            playsInline
+            className="pointer-events-none h-full w-full object-cover"
+          />
+        ) : kind === "document" || kind === "audio" ? (
+          <div className="flex h-full w-full items-center justify-center">
+            <MediaKindIcon kind={kind} className="h-16 w-16" />
+          </div>
         ) : (
           <div className="text-muted-foreground/50 flex h-full w-full items-center justify-center">
             <ImagePlaceholder variant="landscape" className="h-16 w-16" />
@@ -72,6 +99,15 @@ export function MediaCard({
         </div>
       )}
 
+      {/* Length of recordings and page count of documents */}
+      {(!!media.duration || !!media.pageCount) && (
+        <div className="pointer-events-none absolute right-2 bottom-2 rounded bg-black/60 px-1.5 py-0.5 text-xs font-medium text-white tabular-nums">
+          {media.duration
+            ? formatDuration(media.duration)
+            : `${media.pageCount} ${t("people:pageCount")}`}
+        </div>
+      )}
+
       {/* Primary badge */}
       {media.isPrimary && (
         <div className="absolute top-2 left-2">
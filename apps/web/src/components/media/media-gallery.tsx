@@ -1,6 +1,7 @@
 "use client";
 
 import { useTranslation } from "react-i18next";
+import { getMediaKind } from "@vamsa/lib/media/media-kinds";
 import { ErrorCard } from "../error";
 import { ImagePlaceholder } from "../ui/image-placeholder";
 import { MediaCard } from "./media-card";
@@ -17,6 +18,9 @@ interface MediaItem {
   thumb400Path?: string | null;
   thumb800Path?: string | null;
   thumb1200Path?: string | null;
+  mimeType?: string;
+  duration?: number | null;
+  pageCount?: number | null;
 }
 
 interface MediaGalleryProps {
@@ -98,7 +102,9 @@ export function MediaGallery({
           media={item}
           onView={() => onView(item.mediaId)}
           onSetPrimary={
-            onSetPrimary && !item.isPrimary
+            onSetPrimary &&
+            !item.isPrimary &&
+            (!item.mimeType || getMediaKind(item.mimeType) === "image")
               ? () => onSetPrimary(item.mediaId)
               : undefined
           }
@@ -0,0 +1,51 @@
+import { cn } from "@vamsa/ui";
+import { ImagePlaceholder } from "../ui/image-placeholder";
+import type { MediaKind } from "@vamsa/lib/media/media-kinds";
+
+interface MediaKindIconProps {
+  kind: MediaKind | null;
+  className?: string;
+}
+
+/**
+ * Icon for media without a picture to show: documents without a rendered
+ * first page and recordings. Photos fall back to the image placeholder.
+ */
+export function MediaKindIcon({ kind, className }: MediaKindIconProps) {
+  if (kind !== "document" && kind !== "audio" && kind !== "video") {
+    return <ImagePlaceholder variant="landscape" className={className} />;
+  }
+
+  return (
+    <svg
+      className={cn("text-muted-foreground/60", className)}
+      fill="none"
+      viewBox="0 0 24 24"
+      stroke="currentColor"
+      strokeWidth={1.5}
+      aria-hidden="true"
+    >
+      {kind === "document" && (
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m0 12.75h7.5m-7.5 3H12M10.5 2.25H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z"
+        />
+      )}
+      {kind === "audio" && (
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          d="M12 18.75a6 6 0 006-6v-1.5m-6 7.5a6 6 0 01-6-6v-1.5m6 7.5v3.75m-3.75 0h7.5M12 15.75a3 3 0 01-3-3V4.5a3 3 0 116 0v8.25a3 3 0 01-3 3z"
+        />
+      )}
+      {kind === "video" && (
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          d="M15.75 10.5l4.72-4.72a.75.75 0 011.28.53v11.38a.75.75 0 01-1.28.53l-4.72-4.72M4.5 18.75h9a2.25 2.25 0 002.25-2.25v-9a2.25 2.25 0 00-2.25-2.25h-9A2.25 2.25 0 002.25 7.5v9a2.25 2.25 0 002.25 2.25z"
+        />
+      )}
+    </svg>
+  );
+}
@@ -3,29 +3,74 @@
 import { useState } from "react";
 import { useTranslation } from "react-i18next";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { useParams } from "@tanstack/react-router";
+import {
+  useNavigate,
+  useParams,
+  useRouteContext,
+} from "@tanstack/react-router";
 import { Card, CardContent, CardHeader, CardTitle } from "@vamsa/ui/primitives";
 import { MediaUploader } from "./media-uploader";
 import { MediaGallery } from "./media-gallery";
 import { MediaViewerModal } from "./media-viewer-modal";
 import { MediaMetadataEditor } from "./media-metadata-editor";
+import type { MediaRegion } from "@vamsa/schemas";
 import {
+  attachMediaTranscript,
   deleteMedia,
   getMediaObject,
+  getMediaRegions,
+  getMediaSizeLimits,
+  getMediaSuggestions,
   getPersonMedia,
+  linkMediaToEvent,
+  linkMediaToPlace,
+  removeMediaTranscript,
   setPrimaryPhoto,
+  tagMediaRegion,
   updateMediaMetadata,
   uploadMedia,
 } from "~/server/media";
+import { extractDocumentFactsFn } from "~/server/ai";
+import { useAI } from "~/contexts/ai-context";
+
+/**
+ * Read a file as base64, without the data URL prefix
+ */
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const base64String = (reader.result as string).split(",")[1];
+      if (!base64String) {
+        reject(new Error("Failed to read file"));
+        return;
+      }
+      resolve(base64String);
+    };
+    reader.onerror = () => reject(new Error("Failed to read file"));
+    reader.readAsDataURL(file);
+  });
+}
 
 export function MediaTab() {
   const { t } = useTranslation(["people", "common"]);
   const { personId } = useParams({ from: "/_authenticated/people/$personId" });
+  const { user } = useRouteContext({ from: "/_authenticated" });
+  const { availability } = useAI();
+  const navigate = useNavigate();
   const queryClient = useQueryClient();
 
   const [selectedMediaId, setSelectedMediaId] = useState<string | null>(null);
   const [editingMediaId, setEditingMediaId] = useState<string | null>(null);
   const [uploadError, setUploadError] = useState<string | null>(null);
+  const [transcriptError, setTranscriptError] = useState<string | null>(null);
+  const [extractError, setExtractError] = useState<string | null>(null);
+  const [extractNotice, setExtractNotice] = useState<string | null>(null);
+
+  // Documents can be read when the AI service offers extraction
+  const canExtract =
+    availability?.available === true &&
+    availability.config.features.includes("extract");
 
   // Fetch all media for this person
   const {
@@ -38,6 +83,12 @@ export function MediaTab() {
     queryFn: () => getPersonMedia({ data: { personId } }),
   });
 
+  // Fetch the upload size limits set for the family
+  const { data: sizeLimits } = useQuery({
+    queryKey: ["mediaSizeLimits"],
+    queryFn: () => getMediaSizeLimits(),
+  });
+
   // Fetch selected media details
   const { data: selectedMedia } = useQuery({
     queryKey: ["mediaObject", selectedMediaId],
@@ -48,6 +99,26 @@ export function MediaTab() {
     enabled: !!selectedMediaId,
   });
 
+  // Fetch the people tagged in the selected media
+  const { data: selectedRegions } = useQuery({
+    queryKey: ["mediaRegions", selectedMediaId],
+    queryFn: () =>
+      selectedMediaId
+        ? getMediaRegions({ data: { mediaId: selectedMediaId } })
+        : null,
+    enabled: !!selectedMediaId,
+  });
+
+  // Fetch the place and events suggested by the selected photo's metadata
+  const { data: selectedSuggestions } = useQuery({
+    queryKey: ["mediaSuggestions", selectedMediaId],
+    queryFn: () =>
+      selectedMediaId
+        ? getMediaSuggestions({ data: { mediaId: selectedMediaId } })
+        : null,
+    enabled: !!selectedMediaId,
+  });
+
   // Fetch editing media details
   const { data: editingMedia } = useQuery({
     queryKey: ["mediaObject", editingMediaId],
@@ -61,20 +132,7 @@ export function MediaTab() {
   // Upload mutation
   const uploadMutation = useMutation({
     mutationFn: async (file: File) => {
-      // Read file as base64
-      return new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = () => {
-          const base64String = (reader.result as string).split(",")[1];
-          if (!base64String) {
-            reject(new Error("Failed to read file"));
-            return;
-          }
-          resolve(base64String);
-        };
-        reader.onerror = () => reject(new Error("Failed to read file"));
-        reader.readAsDataURL(file);
-      }).then((base64Data) =>
+      return readFileAsBase64(file).then((base64Data) =>
         uploadMedia({
           data: {
             personId,
@@ -131,9 +189,118 @@ export function MediaTab() {
       setPrimaryPhoto({ data: { personId, mediaId } }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["personMedia", personId] });
+      // A tagged region may have become the avatar
+      queryClient.invalidateQueries({ queryKey: ["person", personId] });
+    },
+  });
+
+  // Tag region mutation
+  const tagRegionMutation = useMutation({
+    mutationFn: ({
+      mediaId,
+      personId: taggedPersonId,
+      region,
+    }: {
+      mediaId: string;
+      personId: string;
+      region: MediaRegion | null;
+    }) =>
+      tagMediaRegion({ data: { mediaId, personId: taggedPersonId, region } }),
+    onSuccess: (_result, { mediaId, personId: taggedPersonId }) => {
+      queryClient.invalidateQueries({ queryKey: ["mediaRegions", mediaId] });
+      queryClient.invalidateQueries({
+        queryKey: ["personMedia", taggedPersonId],
+      });
+      queryClient.invalidateQueries({ queryKey: ["person", taggedPersonId] });
+    },
+  });
+
+  // Link place mutation
+  const linkPlaceMutation = useMutation({
+    mutationFn: ({
+      mediaId,
+      placeId,
+    }: {
+      mediaId: string;
+      placeId: string | null;
+    }) => linkMediaToPlace({ data: { mediaId, placeId } }),
+    onSuccess: (_result, { mediaId }) => {
+      queryClient.invalidateQueries({
+        queryKey: ["mediaSuggestions", mediaId],
+      });
     },
   });
 
+  // Link event mutation
+  const linkEventMutation = useMutation({
+    mutationFn: ({ mediaId, eventId }: { mediaId: string; eventId: string }) =>
+      linkMediaToEvent({ data: { mediaId, eventId } }),
+    onSuccess: (_result, { mediaId }) => {
+      queryClient.invalidateQueries({
+        queryKey: ["mediaSuggestions", mediaId],
+      });
+      queryClient.invalidateQueries({ queryKey: ["mediaObject", mediaId] });
+    },
+  });
+
+  // Attach transcript mutation
+  const attachTranscriptMutation = useMutation({
+    mutationFn: async ({ mediaId, file }: { mediaId: string; file: File }) => {
+      const base64Data = await readFileAsBase64(file);
+      return attachMediaTranscript({
+        data: { mediaId, mimeType: file.type, base64Data },
+      });
+    },
+    onSuccess: (_result, { mediaId }) => {
+      queryClient.invalidateQueries({ queryKey: ["mediaObject", mediaId] });
+      queryClient.invalidateQueries({ queryKey: ["personMedia", personId] });
+      setTranscriptError(null);
+    },
+    onError: (error: Error) => {
+      setTranscriptError(error.message);
+    },
+  });
+
+  // Remove transcript mutation
+  const removeTranscriptMutation = useMutation({
+    mutationFn: (mediaId: string) =>
+      removeMediaTranscript({ data: { mediaId } }),
+    onSuccess: (_result, mediaId) => {
+      queryClient.invalidateQueries({ queryKey: ["mediaObject", mediaId] });
+      queryClient.invalidateQueries({ queryKey: ["personMedia", personId] });
+    },
+  });
+
+  // Read a document's facts into suggestions for review
+  const extractMutation = useMutation({
+    mutationFn: (mediaId: string) =>
+      extractDocumentFactsFn({ data: { mediaId } }),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["suggestions"] });
+      setExtractError(null);
+      if (user?.role === "ADMIN") {
+        navigate({
+          to: "/admin/extractions/$sourceId",
+          params: { sourceId: result.sourceId },
+        });
+        return;
+      }
+      setExtractNotice(
+        t("people:documentReadForReview", { count: result.suggestionCount })
+      );
+    },
+    onError: (error: Error) => {
+      setExtractNotice(null);
+      setExtractError(error.message);
+    },
+  });
+
+  const resetMessages = () => {
+    setTranscriptError(null);
+    setExtractError(null);
+    setExtractNotice(null);
+  };
+
   const handleUpload = (file: File) => {
     uploadMutation.mutate(file);
   };
@@ -210,6 +377,7 @@ export function MediaTab() {
               onUpload={handleUpload}
               isUploading={uploadMutation.isPending}
               error={uploadError}
+              sizeLimits={sizeLimits}
             />
           </CardContent>
         </Card>
@@ -240,13 +408,55 @@ export function MediaTab() {
           media={selectedMedia}
           allMediaIds={media.map((m) => m.mediaId)}
           relatedEvents={selectedMedia.eventMedia}
-          onClose={() => setSelectedMediaId(null)}
-          onNavigate={(mediaId) => setSelectedMediaId(mediaId)}
+          onClose={() => {
+            setSelectedMediaId(null);
+            resetMessages();
+          }}
+          onNavigate={(mediaId) => {
+            setSelectedMediaId(mediaId);
+            resetMessages();
+          }}
           onEdit={() => {
             setEditingMediaId(selectedMediaId);
             setSelectedMediaId(null);
           }}
           onDelete={() => handleDelete(selectedMediaId)}
+          tags={selectedRegions?.people}
+          onTagRegion={(taggedPersonId, region) =>
+            tagRegionMutation.mutate({
+              mediaId: selectedMediaId,
+              personId: taggedPersonId,
+              region,
+            })
+          }
+          isSavingTag={tagRegionMutation.isPending}
+          suggestions={selectedSuggestions}
+          onLinkPlace={(placeId) =>
+            linkPlaceMutation.mutate({ mediaId: selectedMediaId, placeId })
+          }
+          onLinkEvent={(eventId) =>
+            linkEventMutation.mutate({ mediaId: selectedMediaId, eventId })
+          }
+          isLinking={linkPlaceMutation.isPending || linkEventMutation.isPending}
+          onAttachTranscript={(file) =>
+            attachTranscriptMutation.mutate({ mediaId: selectedMediaId, file })
+          }
+          onRemoveTranscript={() =>
+            removeTranscriptMutation.mutate(selectedMediaId)
+          }
+          isSavingTranscript={
+            attachTranscriptMutation.isPending ||
+            removeTranscriptMutation.isPending
+          }
+          transcriptError={transcriptError}
+          onExtractFacts={
+            canExtract
+              ? () => extractMutation.mutate(selectedMediaId)
+              : undefined
+          }
+          isExtracting={extractMutation.isPending}
+          extractError={extractError}
+          extractNotice={extractNotice}
         />
       )}
 
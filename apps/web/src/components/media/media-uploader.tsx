@@ -3,28 +3,31 @@
 import { useRef, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { Button } from "@vamsa/ui/primitives";
+import {
+  DEFAULT_MEDIA_SIZE_LIMITS,
+  getAcceptedMimeTypes,
+  getMediaKind,
+  getMediaSizeLimit,
+} from "@vamsa/lib/media/media-kinds";
+import { MediaKindIcon } from "./media-kind-icon";
+import type { MediaSizeLimits } from "@vamsa/lib/media/media-kinds";
 
 interface MediaUploaderProps {
   onUpload: (file: File) => void;
   isUploading: boolean;
   progress?: number;
   error?: string | null;
+  sizeLimits?: MediaSizeLimits;
 }
 
-const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
-const ACCEPTED_FORMATS = [
-  "image/jpeg",
-  "image/png",
-  "image/gif",
-  "image/webp",
-  "image/tiff",
-];
+const ACCEPTED_FORMATS = getAcceptedMimeTypes();
 
 export function MediaUploader({
   onUpload,
   isUploading,
   progress = 0,
   error,
+  sizeLimits = DEFAULT_MEDIA_SIZE_LIMITS,
 }: MediaUploaderProps) {
   const { t } = useTranslation(["people", "common"]);
   const [dragActive, setDragActive] = useState(false);
@@ -34,11 +37,14 @@ export function MediaUploader({
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const validateFile = (file: File): string | null => {
-    if (!ACCEPTED_FORMATS.includes(file.type)) {
+    const kind = getMediaKind(file.type);
+    if (!kind) {
       return t("people:validImageFile");
     }
-    if (file.size > MAX_FILE_SIZE) {
-      return t("people:maxFileSize");
+    if (file.size > getMediaSizeLimit(kind, sizeLimits)) {
+      return t("people:maxFileSize", {
+        size: sizeLimits[`${kind}Mb` as const],
+      });
     }
     return null;
   };
@@ -54,8 +60,10 @@ export function MediaUploader({
 
     setValidationError(null);
     setSelectedFile(file);
+    setPreview(null);
 
-    // Create preview
+    // Create preview of photos; other files show their kind
+    if (getMediaKind(file.type) !== "image") return;
     const reader = new FileReader();
     reader.onloadend = () => {
       setPreview(reader.result as string);
@@ -155,19 +163,34 @@ export function MediaUploader({
             <p className="text-muted-foreground text-sm">
               {t("people:photoFormats")}
             </p>
+            <p className="text-muted-foreground mt-1 text-xs">
+              {t("people:mediaSizeLimitsHint", {
+                image: sizeLimits.imageMb,
+                document: sizeLimits.documentMb,
+                audio: sizeLimits.audioMb,
+                video: sizeLimits.videoMb,
+              })}
+            </p>
           </button>
         )}
 
-        {selectedFile && !isUploading && preview && (
+        {selectedFile && !isUploading && (
           <div className="p-6">
             <div className="flex flex-col items-center gap-4 sm:flex-row">
               {/* Preview */}
-              <div className="border-border h-32 w-32 shrink-0 overflow-hidden rounded-lg border-2">
-                <img
-                  src={preview}
-                  alt={t("people:photoPreview")}
-                  className="h-full w-full object-cover"
-                />
+              <div className="border-border bg-muted text-muted-foreground/70 flex h-32 w-32 shrink-0 items-center justify-center overflow-hidden rounded-lg border-2">
+                {preview ? (
+                  <img
+                    src={preview}
+                    alt={t("people:photoPreview")}
+                    className="h-full w-full object-cover"
+                  />
+                ) : (
+                  <MediaKindIcon
+                    kind={getMediaKind(selectedFile.type)}
+                    className="h-12 w-12"
+                  />
+                )}
               </div>
 
               {/* File info */}
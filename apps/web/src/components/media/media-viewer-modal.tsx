@@ -1,9 +1,51 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useTranslation } from "react-i18next";
-import { Badge, Button } from "@vamsa/ui/primitives";
+import { useQuery } from "@tanstack/react-query";
+import { Badge, Button, Input } from "@vamsa/ui/primitives";
+import {
+  TRANSCRIPT_MIME_TYPES,
+  formatDuration,
+  getMediaKind,
+  toMediaUrl,
+} from "@vamsa/lib/media/media-kinds";
 import { ResponsiveImage } from "../ui/responsive-image";
+import type { MediaRegion } from "@vamsa/schemas";
+import { listPersons } from "~/server/persons.functions";
+
+/**
+ * A person linked to the media, with where they appear in it
+ */
+export interface MediaPersonTag {
+  personId: string;
+  firstName: string;
+  lastName: string;
+  region: MediaRegion | null;
+}
+
+/**
+ * Place and events suggested from a photo's embedded metadata
+ */
+export interface MediaSuggestions {
+  place: { id: string; name: string } | null;
+  places: Array<{
+    id: string;
+    name: string;
+    placeType: string;
+    distance: number;
+  }>;
+  events: Array<{
+    id: string;
+    type: string;
+    personId: string;
+    firstName: string;
+    lastName: string;
+  }>;
+}
+
+// Smallest region worth keeping, as a fraction of the image
+const MIN_REGION_SIZE = 0.01;
 
 interface MediaViewerModalProps {
   media: {
@@ -21,6 +63,14 @@ interface MediaViewerModalProps {
     thumb400Path?: string | null;
     thumb800Path?: string | null;
     thumb1200Path?: string | null;
+    capturedAt?: string | null;
+    latitude?: number | null;
+    longitude?: number | null;
+    camera?: string | null;
+    mimeType?: string | null;
+    duration?: number | null;
+    pageCount?: number | null;
+    transcriptPath?: string | null;
   };
   allMediaIds: Array<string>;
   relatedEvents?: Array<{
@@ -32,6 +82,21 @@ interface MediaViewerModalProps {
   onNavigate?: (mediaId: string) => void;
   onEdit?: () => void;
   onDelete?: () => void;
+  tags?: Array<MediaPersonTag>;
+  onTagRegion?: (personId: string, region: MediaRegion | null) => void;
+  isSavingTag?: boolean;
+  suggestions?: MediaSuggestions | null;
+  onLinkPlace?: (placeId: string | null) => void;
+  onLinkEvent?: (eventId: string) => void;
+  isLinking?: boolean;
+  onAttachTranscript?: (file: File) => void;
+  onRemoveTranscript?: () => void;
+  isSavingTranscript?: boolean;
+  transcriptError?: string | null;
+  onExtractFacts?: () => void;
+  isExtracting?: boolean;
+  extractError?: string | null;
+  extractNotice?: string | null;
 }
 
 export function MediaViewerModal({
@@ -42,18 +107,115 @@ export function MediaViewerModal({
   onNavigate,
   onEdit,
   onDelete,
+  tags = [],
+  onTagRegion,
+  isSavingTag = false,
+  suggestions,
+  onLinkPlace,
+  onLinkEvent,
+  isLinking = false,
+  onAttachTranscript,
+  onRemoveTranscript,
+  isSavingTranscript = false,
+  transcriptError,
+  onExtractFacts,
+  isExtracting = false,
+  extractError,
+  extractNotice,
 }: MediaViewerModalProps) {
   const { t } = useTranslation(["people", "common"]);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [isTagging, setIsTagging] = useState(false);
+  const [draftRegion, setDraftRegion] = useState<MediaRegion | null>(null);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(
+    null
+  );
+  const [hoveredPersonId, setHoveredPersonId] = useState<string | null>(null);
+  const [personSearch, setPersonSearch] = useState("");
+  const frameRef = useRef<HTMLDivElement>(null);
+  const transcriptInputRef = useRef<HTMLInputElement>(null);
+  const [imageRect, setImageRect] = useState<{
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+  } | null>(null);
 
   const currentIndex = allMediaIds.indexOf(media.id);
   const hasPrev = currentIndex > 0;
   const hasNext = currentIndex < allMediaIds.length - 1;
+  // Media saved before other kinds were accepted has no MIME type
+  const kind = media.mimeType ? getMediaKind(media.mimeType) : "image";
+  const isRecording = kind === "audio" || kind === "video";
+  const fileUrl = toMediaUrl(media.filePath);
+  const transcriptUrl = media.transcriptPath
+    ? toMediaUrl(media.transcriptPath)
+    : null;
+  // Only WebVTT transcripts carry the timings captions need
+  const captionsUrl = transcriptUrl?.endsWith(".vtt")
+    ? transcriptUrl
+    : undefined;
+  // Regions are stored as fractions, so the image size must be known
+  const canTag =
+    kind === "image" && !!onTagRegion && !!media.width && !!media.height;
+
+  const { data: personResults } = useQuery({
+    queryKey: ["mediaTagPeople", personSearch],
+    queryFn: () => listPersons({ data: { search: personSearch, limit: 8 } }),
+    enabled: isTagging && !!draftRegion && personSearch.trim().length > 0,
+  });
+
+  // Start each image outside tagging mode
+  useEffect(() => {
+    setIsTagging(false);
+    setDraftRegion(null);
+    setDragStart(null);
+    setPersonSearch("");
+  }, [media.id]);
+
+  // Track where the image is drawn inside its frame (object-contain
+  // letterboxes it), so regions line up with the picture
+  useEffect(() => {
+    const frame = frameRef.current;
+    if (!frame || !media.width || !media.height) {
+      setImageRect(null);
+      return;
+    }
+    const imageWidth = media.width;
+    const imageHeight = media.height;
+
+    const measure = () => {
+      const scale = Math.min(
+        frame.clientWidth / imageWidth,
+        frame.clientHeight / imageHeight
+      );
+      const width = imageWidth * scale;
+      const height = imageHeight * scale;
+      setImageRect({
+        left: (frame.clientWidth - width) / 2,
+        top: (frame.clientHeight - height) / 2,
+        width,
+        height,
+      });
+    };
+
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(frame);
+    return () => observer.disconnect();
+  }, [media.width, media.height, kind]);
 
   // Keyboard navigation
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === "Escape") {
+      // Leave arrow keys to text fields such as the person search
+      if (e.target instanceof HTMLInputElement) {
+        if (e.key === "Escape") e.target.blur();
+        return;
+      }
+      if (e.key === "Escape" && draftRegion) {
+        setDraftRegion(null);
+      } else if (e.key === "Escape") {
         onClose();
       } else if (e.key === "ArrowLeft" && hasPrev && onNavigate) {
         onNavigate(allMediaIds[currentIndex - 1]);
@@ -64,7 +226,87 @@ export function MediaViewerModal({
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [currentIndex, allMediaIds, hasPrev, hasNext, onNavigate, onClose]);
+  }, [
+    currentIndex,
+    allMediaIds,
+    hasPrev,
+    hasNext,
+    onNavigate,
+    onClose,
+    draftRegion,
+  ]);
+
+  // Position of a pointer event as fractions of the drawn image
+  const toImagePoint = (e: React.PointerEvent<HTMLDivElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - bounds.left) / bounds.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - bounds.top) / bounds.height)),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!isTagging) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toImagePoint(e);
+    setDragStart(point);
+    setDraftRegion({ ...point, width: 0, height: 0 });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart) return;
+    const point = toImagePoint(e);
+    setDraftRegion({
+      x: Math.min(dragStart.x, point.x),
+      y: Math.min(dragStart.y, point.y),
+      width: Math.abs(point.x - dragStart.x),
+      height: Math.abs(point.y - dragStart.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (!dragStart) return;
+    setDragStart(null);
+    if (
+      !draftRegion ||
+      draftRegion.width < MIN_REGION_SIZE ||
+      draftRegion.height < MIN_REGION_SIZE
+    ) {
+      setDraftRegion(null);
+    }
+  };
+
+  const assignRegion = (personId: string) => {
+    if (!draftRegion || !onTagRegion) return;
+    onTagRegion(personId, draftRegion);
+    setDraftRegion(null);
+    setPersonSearch("");
+  };
+
+  const regionStyle = (region: MediaRegion) => ({
+    left: `${region.x * 100}%`,
+    top: `${region.y * 100}%`,
+    width: `${region.width * 100}%`,
+    height: `${region.height * 100}%`,
+  });
+
+  const taggedPeople = tags.filter(
+    (tag): tag is MediaPersonTag & { region: MediaRegion } => !!tag.region
+  );
+  // Candidates for a drawn region: people already linked to the photo but
+  // not yet tagged, then search results not linked to it
+  const tagCandidates = [
+    ...tags
+      .filter((tag) => !tag.region)
+      .map((tag) => ({
+        id: tag.personId,
+        firstName: tag.firstName,
+        lastName: tag.lastName,
+      })),
+    ...(personResults?.items ?? []).filter(
+      (person) => !tags.some((tag) => tag.personId === person.id)
+    ),
+  ];
 
   const formatFileSize = (bytes: number): string => {
     if (bytes < 1024) return `${bytes} B`;
@@ -72,11 +314,12 @@ export function MediaViewerModal({
     return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
   };
 
-  const formatDate = (dateString: string): string => {
+  const formatDate = (dateString: string, timeZone?: string): string => {
     return new Date(dateString).toLocaleDateString("en-US", {
       year: "numeric",
       month: "long",
       day: "numeric",
+      timeZone,
     });
   };
 
@@ -101,6 +344,32 @@ export function MediaViewerModal({
             <Badge variant="muted">{media.format}</Badge>
           </div>
           <div className="flex items-center gap-2">
+            {canTag && (
+              <Button
+                variant={isTagging ? "default" : "outline"}
+                size="sm"
+                onClick={() => {
+                  setIsTagging(!isTagging);
+                  setDraftRegion(null);
+                }}
+                aria-pressed={isTagging}
+              >
+                <svg
+                  className="h-4 w-4"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                  strokeWidth={2}
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z"
+                  />
+                </svg>
+                {isTagging ? t("people:doneTagging") : t("people:tagPeople")}
+              </Button>
+            )}
             {onEdit && (
               <Button variant="outline" size="sm" onClick={onEdit}>
                 <svg
@@ -161,20 +430,116 @@ export function MediaViewerModal({
 
         {/* Content */}
         <div className="flex flex-1 flex-col overflow-hidden lg:flex-row">
-          {/* Image viewer */}
+          {/* Viewer */}
           <div className="bg-muted/20 relative flex flex-1 items-center justify-center p-8">
-            <ResponsiveImage
-              mediaId={media.id}
-              alt={media.title || t("people:photo")}
-              webpPath={media.webpPath}
-              thumb400Path={media.thumb400Path}
-              thumb800Path={media.thumb800Path}
-              thumb1200Path={media.thumb1200Path}
-              filePath={media.filePath}
-              priority={true}
-              sizes="(max-width: 1024px) 90vw, 1200px"
-              className="max-h-full max-w-full rounded-lg object-contain shadow-lg"
-            />
+            {kind === "document" && (
+              <div className="flex h-full w-full flex-col gap-3">
+                <iframe
+                  src={fileUrl}
+                  title={media.title || t("people:mediaKindDocument")}
+                  className="border-border bg-card h-full w-full flex-1 rounded-lg border shadow-lg"
+                />
+                <a
+                  href={fileUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-primary self-center text-sm underline"
+                >
+                  {t("people:openDocument")}
+                </a>
+              </div>
+            )}
+            {kind === "audio" && (
+              <audio
+                controls
+                preload="metadata"
+                src={fileUrl}
+                className="w-full max-w-xl"
+              >
+                <track
+                  kind="captions"
+                  src={captionsUrl}
+                  label={t("people:transcript")}
+                />
+                {t("people:playbackNotSupported")}
+              </audio>
+            )}
+            {kind === "video" && (
+              <video
+                controls
+                preload="metadata"
+                src={fileUrl}
+                className="max-h-full max-w-full rounded-lg shadow-lg"
+              >
+                <track
+                  kind="captions"
+                  src={captionsUrl}
+                  label={t("people:transcript")}
+                />
+                {t("people:playbackNotSupported")}
+              </video>
+            )}
+            {/* Images, and media of a kind no longer accepted */}
+            {(kind === "image" || kind === null) && (
+              <div ref={frameRef} className="relative h-full w-full">
+                <ResponsiveImage
+                  mediaId={media.id}
+                  alt={media.title || t("people:photo")}
+                  webpPath={media.webpPath}
+                  thumb400Path={media.thumb400Path}
+                  thumb800Path={media.thumb800Path}
+                  thumb1200Path={media.thumb1200Path}
+                  filePath={media.filePath}
+                  priority={true}
+                  sizes="(max-width: 1024px) 90vw, 1200px"
+                  className="max-h-full max-w-full rounded-lg object-contain shadow-lg"
+                />
+
+                {/* Tagged regions, drawn over the visible image */}
+                {imageRect && (taggedPeople.length > 0 || isTagging) && (
+                  <div
+                    className={`absolute touch-none ${isTagging ? "cursor-crosshair" : ""}`}
+                    style={imageRect}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                    data-testid="media-region-layer"
+                  >
+                    {taggedPeople.map((tag) => {
+                      const isHovered = hoveredPersonId === tag.personId;
+                      return (
+                        <div
+                          key={tag.personId}
+                          className={`absolute rounded-sm border-2 transition-colors ${
+                            isHovered
+                              ? "border-primary bg-primary/10"
+                              : isTagging
+                                ? "border-white/80"
+                                : "border-transparent hover:border-white/80"
+                          }`}
+                          style={regionStyle(tag.region)}
+                          onMouseEnter={() => setHoveredPersonId(tag.personId)}
+                          onMouseLeave={() => setHoveredPersonId(null)}
+                        >
+                          {(isHovered || isTagging) && (
+                            <span className="bg-card text-foreground absolute top-full left-0 mt-1 rounded px-2 py-0.5 text-xs whitespace-nowrap shadow">
+                              {tag.firstName} {tag.lastName}
+                            </span>
+                          )}
+                        </div>
+                      );
+                    })}
+                    {draftRegion && (
+                      <div
+                        className="border-primary bg-primary/10 absolute border-2 border-dashed"
+                        style={regionStyle(draftRegion)}
+                      />
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
 
             {/* Navigation arrows */}
             {onNavigate && hasPrev && (
@@ -221,6 +586,77 @@ export function MediaViewerModal({
 
           {/* Metadata sidebar */}
           <div className="border-border w-full shrink-0 space-y-6 overflow-y-auto border-t p-6 lg:w-80 lg:border-t-0 lg:border-l">
+            {/* People in the photo */}
+            {(taggedPeople.length > 0 || isTagging) && (
+              <div>
+                <span className="text-muted-foreground mb-3 block text-sm font-medium">
+                  {t("people:peopleInPhoto")}
+                </span>
+                {isTagging && !draftRegion && (
+                  <p className="text-muted-foreground mb-3 text-sm">
+                    {t("people:drawRegionHint")}
+                  </p>
+                )}
+                {isTagging && draftRegion && (
+                  <div className="mb-3 space-y-2">
+                    <Input
+                      value={personSearch}
+                      onChange={(e) => setPersonSearch(e.target.value)}
+                      placeholder={t("people:whoIsThis")}
+                      aria-label={t("people:whoIsThis")}
+                      autoFocus
+                    />
+                    {tagCandidates.map((person) => (
+                      <button
+                        key={person.id}
+                        type="button"
+                        disabled={isSavingTag}
+                        onClick={() => assignRegion(person.id)}
+                        className="border-border hover:border-primary hover:bg-primary/5 w-full rounded-md border px-3 py-2 text-left text-sm transition-colors"
+                      >
+                        {person.firstName} {person.lastName}
+                      </button>
+                    ))}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setDraftRegion(null)}
+                    >
+                      {t("common:cancel")}
+                    </Button>
+                  </div>
+                )}
+                <ul className="space-y-2">
+                  {taggedPeople.map((tag) => (
+                    <li
+                      key={tag.personId}
+                      className={`flex items-center justify-between rounded-md border p-2 text-sm transition-colors ${
+                        hoveredPersonId === tag.personId
+                          ? "border-primary bg-primary/5"
+                          : "border-border"
+                      }`}
+                      onMouseEnter={() => setHoveredPersonId(tag.personId)}
+                      onMouseLeave={() => setHoveredPersonId(null)}
+                    >
+                      <span className="text-foreground font-medium">
+                        {tag.firstName} {tag.lastName}
+                      </span>
+                      {isTagging && onTagRegion && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={isSavingTag}
+                          onClick={() => onTagRegion(tag.personId, null)}
+                        >
+                          {t("people:removeTag")}
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {/* Description */}
             {media.description && (
               <div>
@@ -273,6 +709,70 @@ export function MediaViewerModal({
                     </dd>
                   </div>
                 )}
+                {media.pageCount != null && (
+                  <div className="flex justify-between">
+                    <dt className="text-muted-foreground">
+                      {t("people:pageCount")}
+                    </dt>
+                    <dd className="text-foreground font-medium">
+                      {media.pageCount}
+                    </dd>
+                  </div>
+                )}
+                {media.duration != null && (
+                  <div className="flex justify-between">
+                    <dt className="text-muted-foreground">
+                      {t("people:duration")}
+                    </dt>
+                    <dd className="text-foreground font-medium">
+                      {formatDuration(media.duration)}
+                    </dd>
+                  </div>
+                )}
+                {media.capturedAt && (
+                  <div className="flex justify-between">
+                    <dt className="text-muted-foreground">
+                      {t("people:dateTaken")}
+                    </dt>
+                    <dd className="text-foreground font-medium">
+                      {/* Capture times hold the camera's clock as UTC */}
+                      {formatDate(media.capturedAt, "UTC")}
+                    </dd>
+                  </div>
+                )}
+                {media.camera && (
+                  <div className="flex justify-between gap-4">
+                    <dt className="text-muted-foreground">
+                      {t("people:camera")}
+                    </dt>
+                    <dd className="text-foreground text-right font-medium">
+                      {media.camera}
+                    </dd>
+                  </div>
+                )}
+                {(suggestions?.place ||
+                  (media.latitude != null && media.longitude != null)) && (
+                  <div className="flex justify-between gap-4">
+                    <dt className="text-muted-foreground">
+                      {t("people:photoLocation")}
+                    </dt>
+                    <dd className="text-foreground text-right font-medium">
+                      {suggestions?.place
+                        ? suggestions.place.name
+                        : `${media.latitude?.toFixed(5)}, ${media.longitude?.toFixed(5)}`}
+                      {suggestions?.place && onLinkPlace && (
+                        <button
+                          type="button"
+                          disabled={isLinking}
+                          onClick={() => onLinkPlace(null)}
+                          className="text-muted-foreground hover:text-destructive ml-2 text-xs underline"
+                        >
+                          {t("people:removePlace")}
+                        </button>
+                      )}
+                    </dd>
+                  </div>
+                )}
                 <div className="flex justify-between">
                   <dt className="text-muted-foreground">
                     {t("people:uploaded")}
@@ -284,6 +784,166 @@ export function MediaViewerModal({
               </dl>
             </div>
 
+            {/* Transcript of a recording */}
+            {isRecording &&
+              (transcriptUrl || onAttachTranscript || transcriptError) && (
+                <div>
+                  <span className="text-muted-foreground mb-3 block text-sm font-medium">
+                    {t("people:transcript")}
+                  </span>
+                  {transcriptUrl && (
+                    <div className="mb-3 flex items-center justify-between gap-2 text-sm">
+                      <a
+                        href={transcriptUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-primary underline"
+                      >
+                        {t("people:viewTranscript")}
+                      </a>
+                      {onRemoveTranscript && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={isSavingTranscript}
+                          onClick={onRemoveTranscript}
+                        >
+                          {t("people:removeTranscript")}
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                  {onAttachTranscript && (
+                    <>
+                      <input
+                        ref={transcriptInputRef}
+                        type="file"
+                        accept={Object.keys(TRANSCRIPT_MIME_TYPES).join(",")}
+                        className="hidden"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file) onAttachTranscript(file);
+                          e.target.value = "";
+                        }}
+                      />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isSavingTranscript}
+                        onClick={() => transcriptInputRef.current?.click()}
+                      >
+                        {transcriptUrl
+                          ? t("people:replaceTranscript")
+                          : t("people:attachTranscript")}
+                      </Button>
+                      <p className="text-muted-foreground mt-2 text-xs">
+                        {t("people:transcriptFormats")}
+                      </p>
+                    </>
+                  )}
+                  {transcriptError && (
+                    <p className="text-destructive mt-2 text-sm">
+                      {transcriptError}
+                    </p>
+                  )}
+                </div>
+              )}
+
+            {/* Facts read from a certificate, census page or letter */}
+            {onExtractFacts && (kind === "image" || kind === "document") && (
+              <div>
+                <span className="text-muted-foreground mb-3 block text-sm font-medium">
+                  {t("people:readDocument")}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={isExtracting}
+                  onClick={onExtractFacts}
+                >
+                  {isExtracting
+                    ? t("people:readingDocument")
+                    : t("people:readDocumentAction")}
+                </Button>
+                <p className="text-muted-foreground mt-2 text-xs">
+                  {t("people:readDocumentDescription")}
+                </p>
+                {extractNotice && (
+                  <p className="text-foreground mt-2 text-sm">
+                    {extractNotice}
+                  </p>
+                )}
+                {extractError && (
+                  <p className="text-destructive mt-2 text-sm">
+                    {extractError}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Place and events suggested from the photo's metadata */}
+            {suggestions &&
+              ((onLinkPlace && suggestions.places.length > 0) ||
+                (onLinkEvent && suggestions.events.length > 0)) && (
+                <div>
+                  <span className="text-muted-foreground mb-3 block text-sm font-medium">
+                    {t("people:photoSuggestions")}
+                  </span>
+                  <ul className="space-y-2">
+                    {onLinkPlace &&
+                      suggestions.places.map((place) => (
+                        <li
+                          key={place.id}
+                          className="border-border flex items-center justify-between gap-2 rounded-md border p-2 text-sm"
+                        >
+                          <div>
+                            <p className="text-foreground font-medium">
+                              {place.name}
+                            </p>
+                            <p className="text-muted-foreground text-xs">
+                              {t("people:distanceAway", {
+                                distance: (place.distance / 1000).toFixed(1),
+                              })}
+                            </p>
+                          </div>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={isLinking}
+                            onClick={() => onLinkPlace(place.id)}
+                          >
+                            {t("people:linkPlace")}
+                          </Button>
+                        </li>
+                      ))}
+                    {onLinkEvent &&
+                      suggestions.events.map((event) => (
+                        <li
+                          key={event.id}
+                          className="border-border flex items-center justify-between gap-2 rounded-md border p-2 text-sm"
+                        >
+                          <div>
+                            <p className="text-foreground font-medium">
+                              {event.type}
+                            </p>
+                            <p className="text-muted-foreground text-xs">
+                              {event.firstName} {event.lastName}
+                            </p>
+                          </div>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={isLinking}
+                            onClick={() => onLinkEvent(event.id)}
+                          >
+                            {t("people:linkEvent")}
+                          </Button>
+                        </li>
+                      ))}
+                  </ul>
+                </div>
+              )}
+
             {/* Related events */}
             {relatedEvents && relatedEvents.length > 0 && (
               <div>
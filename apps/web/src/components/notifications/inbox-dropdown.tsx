@@ -0,0 +1,162 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Link } from "@tanstack/react-router";
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Bell } from "lucide-react";
+import { NotificationItem } from "./notification-item";
+import { inboxQueryKey, useInboxActions } from "./use-inbox-actions";
+import type { InboxNotification } from "@vamsa/lib/server/business";
+import {
+  getInboxNotifications,
+  getUnreadNotificationCount,
+} from "~/server/notifications";
+
+// Number of notifications shown in the dropdown
+const DROPDOWN_LIMIT = 8;
+
+// How often the unread badge is refreshed
+const UNREAD_POLL_INTERVAL_MS = 60_000;
+
+/**
+ * Inbox Dropdown
+ *
+ * Bell button in the nav header with an unread badge. Opens a panel with the
+ * latest notifications and a link to the full inbox.
+ */
+export function InboxDropdown() {
+  const { t } = useTranslation(["common"]);
+  const [open, setOpen] = useState(false);
+  const { select, markRead, markAllRead, isMarkingAllRead } = useInboxActions();
+
+  const { data: unreadCount = 0 } = useQuery({
+    queryKey: [...inboxQueryKey, "unreadCount"],
+    queryFn: () => getUnreadNotificationCount(),
+    refetchInterval: UNREAD_POLL_INTERVAL_MS,
+  });
+
+  const { data: inbox, isLoading } = useQuery({
+    queryKey: [...inboxQueryKey, "latest"],
+    queryFn: () =>
+      getInboxNotifications({ data: { page: 1, limit: DROPDOWN_LIMIT } }),
+    enabled: open,
+  });
+
+  // Close on click outside or Escape
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      const target = e.target as HTMLElement;
+      if (!target.closest("[data-inbox-dropdown]")) {
+        setOpen(false);
+      }
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setOpen(false);
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [open]);
+
+  const handleSelect = (notification: InboxNotification) => {
+    setOpen(false);
+    select(notification);
+  };
+
+  return (
+    <div className="relative" data-inbox-dropdown>
+      <button
+        type="button"
+        onClick={() => setOpen((value) => !value)}
+        className="text-muted-foreground hover:bg-accent hover:text-accent-foreground relative flex h-9 w-9 items-center justify-center rounded-md transition-colors"
+        aria-label={
+          unreadCount > 0
+            ? t("unreadNotifications", { count: unreadCount })
+            : t("notifications")
+        }
+        aria-expanded={open}
+        aria-haspopup="true"
+        data-testid="nav-inbox-trigger"
+      >
+        <Bell className="h-5 w-5" aria-hidden="true" />
+        {unreadCount > 0 && (
+          <span
+            className="bg-primary text-primary-foreground absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full px-1 text-[10px] font-medium"
+            data-testid="nav-inbox-badge"
+          >
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div
+          className="border-border bg-card absolute right-0 z-50 mt-2 w-80 rounded-lg border shadow-lg sm:w-96"
+          role="dialog"
+          aria-label={t("notifications")}
+          data-testid="nav-inbox-panel"
+        >
+          <div className="border-border flex items-center justify-between border-b px-4 py-3">
+            <h2 className="font-display text-foreground text-base">
+              {t("notifications")}
+            </h2>
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                onClick={() => markAllRead(undefined)}
+                disabled={isMarkingAllRead}
+                className="text-primary text-xs font-medium hover:underline disabled:opacity-50"
+              >
+                {t("markAllRead")}
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto p-1">
+            {isLoading ? (
+              <div className="space-y-2 p-3">
+                {[1, 2, 3].map((i) => (
+                  <div key={i} className="animate-pulse space-y-2">
+                    <div className="bg-muted h-4 w-3/4 rounded" />
+                    <div className="bg-muted h-3 w-1/2 rounded" />
+                  </div>
+                ))}
+              </div>
+            ) : !inbox?.items.length ? (
+              <p className="text-muted-foreground px-3 py-8 text-center text-sm">
+                {t("noNotifications")}
+              </p>
+            ) : (
+              inbox.items.map((notification) => (
+                <NotificationItem
+                  key={notification.id}
+                  notification={notification}
+                  onSelect={handleSelect}
+                  onMarkRead={markRead}
+                />
+              ))
+            )}
+          </div>
+
+          <div className="border-border border-t px-4 py-2 text-center">
+            <Link
+              to="/notifications"
+              onClick={() => setOpen(false)}
+              className="text-primary text-sm font-medium hover:underline"
+              data-testid="nav-inbox-view-all"
+            >
+              {t("viewAllNotifications")}
+            </Link>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
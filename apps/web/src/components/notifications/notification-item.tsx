@@ -0,0 +1,97 @@
+"use client";
+
+import { useTranslation } from "react-i18next";
+import { cn } from "@vamsa/ui";
+import type { InboxNotification } from "@vamsa/lib/server/business";
+
+interface NotificationItemProps {
+  notification: InboxNotification;
+  /** Marks the notification read and follows its link */
+  onSelect: (notification: InboxNotification) => void;
+  /** Shows a "mark as read" button for unread notifications */
+  onMarkRead?: (notification: InboxNotification) => void;
+}
+
+/**
+ * A single inbox notification. Unread notifications are highlighted with a
+ * dot; selecting one marks it read and opens the affected person or
+ * suggestion.
+ */
+export function NotificationItem({
+  notification,
+  onSelect,
+  onMarkRead,
+}: NotificationItemProps) {
+  const { t } = useTranslation(["common"]);
+  const unread = notification.readAt === null;
+
+  return (
+    <div
+      className={cn(
+        "flex items-start gap-3 rounded-lg p-3 transition-colors",
+        unread && "bg-primary/5"
+      )}
+      data-testid={`notification-${notification.id}`}
+    >
+      <span
+        className={cn(
+          "mt-1.5 h-2 w-2 shrink-0 rounded-full",
+          unread ? "bg-primary" : "bg-transparent"
+        )}
+        aria-hidden="true"
+      />
+      <button
+        type="button"
+        onClick={() => onSelect(notification)}
+        className="min-w-0 flex-1 text-left"
+      >
+        <p
+          className={cn(
+            "text-foreground text-sm",
+            unread ? "font-medium" : "font-normal"
+          )}
+        >
+          {notification.title}
+        </p>
+        <p className="text-muted-foreground mt-0.5 text-sm">
+          {notification.body}
+        </p>
+        <time
+          dateTime={notification.createdAt}
+          className="text-muted-foreground mt-1 block text-xs"
+        >
+          {formatRelativeTime(new Date(notification.createdAt).getTime(), t)}
+        </time>
+      </button>
+      {unread && onMarkRead && (
+        <button
+          type="button"
+          onClick={() => onMarkRead(notification)}
+          className="text-muted-foreground hover:text-foreground shrink-0 text-xs"
+          data-testid={`mark-read-${notification.id}`}
+        >
+          {t("markRead")}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function formatRelativeTime(
+  timestamp: number,
+  t: (key: string) => string
+): string {
+  const now = Date.now();
+  const diff = now - timestamp;
+
+  const minutes = Math.floor(diff / 60000);
+  const hours = Math.floor(diff / 3600000);
+  const days = Math.floor(diff / 86400000);
+
+  if (minutes < 1) return t("justNow");
+  if (minutes < 60) return `${minutes}m ago`;
+  if (hours < 24) return `${hours}h ago`;
+  if (days < 7) return `${days}d ago`;
+
+  return new Date(timestamp).toLocaleDateString();
+}
@@ -0,0 +1,311 @@
+"use client";
+
+import { useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Checkbox,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@vamsa/ui";
+import {
+  notificationChannelEnum,
+  notificationFrequencyEnum,
+  notificationPreferenceTypeEnum,
+} from "@vamsa/schemas";
+import type {
+  NotificationChannel,
+  NotificationFrequency,
+  NotificationPreferenceType,
+  NotificationPreferences,
+  NotificationPreferencesUpdate,
+} from "@vamsa/schemas";
+import {
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from "~/server/notifications";
+
+const preferencesQueryKey = ["notifications", "preferences"] as const;
+
+// Quiet hours used when the user first switches them on
+const DEFAULT_QUIET_HOURS = { start: "22:00", end: "07:00" };
+
+const CHANNEL_LABEL_KEYS: Record<NotificationChannel, string> = {
+  email: "notificationChannelEmail",
+  push: "notificationChannelPush",
+  inApp: "notificationChannelInApp",
+};
+
+const FREQUENCY_LABEL_KEYS: Record<NotificationFrequency, string> = {
+  instant: "frequencyInstant",
+  daily: "frequencyDaily",
+  weekly: "frequencyWeekly",
+  off: "frequencyOff",
+};
+
+/**
+ * Notification Preferences Card
+ *
+ * Lets the user choose, per notification type and channel, whether to be
+ * notified instantly, in a daily or weekly digest, or not at all, and set
+ * their timezone, quiet hours and digest schedule. Changes save immediately.
+ */
+export function NotificationPreferencesCard() {
+  const { t, i18n } = useTranslation(["common"]);
+  const queryClient = useQueryClient();
+
+  const { data: preferences } = useQuery({
+    queryKey: preferencesQueryKey,
+    queryFn: () => getNotificationPreferences(),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (update: NotificationPreferencesUpdate) =>
+      updateNotificationPreferences({ data: update }),
+    onSuccess: (updated: NotificationPreferences) => {
+      queryClient.setQueryData(preferencesQueryKey, updated);
+    },
+  });
+  const update = updateMutation.mutate;
+
+  const timezones = useMemo(() => {
+    const zones = Intl.supportedValuesOf("timeZone");
+    return preferences && !zones.includes(preferences.timezone)
+      ? [preferences.timezone, ...zones]
+      : zones;
+  }, [preferences]);
+
+  // Hour and weekday labels in the user's language
+  const hourLabels = useMemo(
+    () =>
+      Array.from({ length: 24 }, (_, hour) =>
+        new Intl.DateTimeFormat(i18n.language, {
+          hour: "numeric",
+          minute: "2-digit",
+          timeZone: "UTC",
+        }).format(Date.UTC(2026, 0, 1, hour))
+      ),
+    [i18n.language]
+  );
+  const weekdayLabels = useMemo(
+    () =>
+      // 2026-01-04 is a Sunday
+      Array.from({ length: 7 }, (_, day) =>
+        new Intl.DateTimeFormat(i18n.language, {
+          weekday: "long",
+          timeZone: "UTC",
+        }).format(Date.UTC(2026, 0, 4 + day))
+      ),
+    [i18n.language]
+  );
+
+  const setFrequency = (
+    type: NotificationPreferenceType,
+    channel: NotificationChannel,
+    frequency: NotificationFrequency
+  ) => update({ types: { [type]: { [channel]: frequency } } });
+
+  return (
+    <Card data-testid="notification-preferences">
+      <CardHeader>
+        <CardTitle>{t("notificationPreferences")}</CardTitle>
+        <CardDescription>
+          {t("notificationPreferencesDescription")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!preferences ? (
+          <div className="animate-pulse space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="bg-muted h-9 rounded" />
+            ))}
+          </div>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-muted-foreground text-left">
+                    <th className="py-2 pr-4 font-medium">
+                      {t("notifications")}
+                    </th>
+                    {notificationChannelEnum.options.map((channel) => (
+                      <th key={channel} className="px-2 py-2 font-medium">
+                        {t(CHANNEL_LABEL_KEYS[channel])}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-border divide-y">
+                  {notificationPreferenceTypeEnum.options.map((type) => (
+                    <tr key={type}>
+                      <td className="py-2 pr-4">
+                        {t(`notificationTypes.${type}`)}
+                      </td>
+                      {notificationChannelEnum.options.map((channel) => (
+                        <td key={channel} className="px-2 py-2">
+                          <Select
+                            value={preferences.types[type][channel]}
+                            onValueChange={(value) =>
+                              setFrequency(
+                                type,
+                                channel,
+                                value as NotificationFrequency
+                              )
+                            }
+                          >
+                            <SelectTrigger
+                              className="w-36"
+                              aria-label={`${t(`notificationTypes.${type}`)}: ${t(CHANNEL_LABEL_KEYS[channel])}`}
+                              data-testid={`notification-preference-${type}-${channel}`}
+                            >
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {notificationFrequencyEnum.options.map(
+                                (frequency) => (
+                                  <SelectItem key={frequency} value={frequency}>
+                                    {t(FREQUENCY_LABEL_KEYS[frequency])}
+                                  </SelectItem>
+                                )
+                              )}
+                            </SelectContent>
+                          </Select>
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label>{t("timezone")}</Label>
+                <Select
+                  value={preferences.timezone}
+                  onValueChange={(timezone) => update({ timezone })}
+                >
+                  <SelectTrigger data-testid="notification-timezone">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {timezones.map((zone) => (
+                      <SelectItem key={zone} value={zone}>
+                        {zone}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>{t("digestTime")}</Label>
+                <Select
+                  value={String(preferences.digestHour)}
+                  onValueChange={(hour) => update({ digestHour: Number(hour) })}
+                >
+                  <SelectTrigger data-testid="notification-digest-hour">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {hourLabels.map((label, hour) => (
+                      <SelectItem key={hour} value={String(hour)}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>{t("weeklyDigestDay")}</Label>
+                <Select
+                  value={String(preferences.weeklyDigestDay)}
+                  onValueChange={(day) =>
+                    update({ weeklyDigestDay: Number(day) })
+                  }
+                >
+                  <SelectTrigger data-testid="notification-weekly-day">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {weekdayLabels.map((label, day) => (
+                      <SelectItem key={day} value={String(day)}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="notification-quiet-hours"
+                  checked={preferences.quietHours !== null}
+                  onCheckedChange={(checked) =>
+                    update({
+                      quietHours: checked === true ? DEFAULT_QUIET_HOURS : null,
+                    })
+                  }
+                  data-testid="notification-quiet-hours"
+                />
+                <Label htmlFor="notification-quiet-hours">
+                  {t("quietHours")}
+                </Label>
+              </div>
+              <p className="text-muted-foreground text-sm">
+                {t("quietHoursDescription")}
+              </p>
+              {preferences.quietHours && (
+                <div className="flex items-center gap-3">
+                  <Input
+                    type="time"
+                    className="w-32"
+                    value={preferences.quietHours.start}
+                    aria-label={t("quietHoursStart")}
+                    onChange={(e) =>
+                      e.target.value &&
+                      update({
+                        quietHours: {
+                          ...preferences.quietHours!,
+                          start: e.target.value,
+                        },
+                      })
+                    }
+                  />
+                  <span className="text-muted-foreground text-sm">–</span>
+                  <Input
+                    type="time"
+                    className="w-32"
+                    value={preferences.quietHours.end}
+                    aria-label={t("quietHoursEnd")}
+                    onChange={(e) =>
+                      e.target.value &&
+                      update({
+                        quietHours: {
+                          ...preferences.quietHours!,
+                          end: e.target.value,
+                        },
+                      })
+                    }
+                  />
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { useCallback } from "react";
+import { useNavigate } from "@tanstack/react-router";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { InboxNotification } from "@vamsa/lib/server/business";
+import {
+  markAllNotificationsRead,
+  markNotificationRead,
+} from "~/server/notifications";
+
+/** Query key prefix shared by the inbox list and unread count */
+export const inboxQueryKey = ["notifications"] as const;
+
+/**
+ * Mark-read actions for the notification inbox. Every action refreshes the
+ * inbox list and unread count.
+ */
+export function useInboxActions() {
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+
+  const invalidate = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: inboxQueryKey }),
+    [queryClient]
+  );
+
+  const markReadMutation = useMutation({
+    mutationFn: (id: string) => markNotificationRead({ data: { id } }),
+    onSuccess: invalidate,
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: (type?: string) => markAllNotificationsRead({ data: { type } }),
+    onSuccess: invalidate,
+  });
+
+  const markRead = useCallback(
+    (notification: InboxNotification) =>
+      markReadMutation.mutate(notification.id),
+    [markReadMutation]
+  );
+
+  // Mark read and open the affected person or suggestion
+  const select = useCallback(
+    (notification: InboxNotification) => {
+      if (notification.readAt === null) {
+        markReadMutation.mutate(notification.id);
+      }
+      if (notification.link) {
+        navigate({ to: notification.link });
+      }
+    },
+    [markReadMutation, navigate]
+  );
+
+  return {
+    markRead,
+    select,
+    markAllRead: markAllReadMutation.mutate,
+    isMarkingAllRead: markAllReadMutation.isPending,
+  };
+}
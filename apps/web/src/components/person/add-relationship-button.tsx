@@ -17,6 +17,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@vamsa/ui";
+import type { ParentPedigree, RelationshipType } from "@vamsa/schemas";
 import { searchPersons } from "~/server/persons.functions";
 import { createRelationship } from "~/server/relationships";
 
@@ -32,9 +33,8 @@ export function AddRelationshipButton({
   onSuccess,
 }: AddRelationshipButtonProps) {
   const [open, setOpen] = useState(false);
-  const [type, setType] = useState<"PARENT" | "CHILD" | "SPOUSE" | "SIBLING">(
-    "PARENT"
-  );
+  const [type, setType] = useState<RelationshipType>("PARENT");
+  const [pedigree, setPedigree] = useState<ParentPedigree>("BIRTH");
   const [searchQuery, setSearchQuery] = useState("");
   const [searchResults, setSearchResults] = useState<
     Array<{
@@ -50,7 +50,10 @@ export function AddRelationshipButton({
   } | null>(null);
   const [marriageDate, setMarriageDate] = useState("");
   const [divorceDate, setDivorceDate] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
   const [error, setError] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<Array<string>>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isSearching, setIsSearching] = useState(false);
 
@@ -80,14 +83,20 @@ export function AddRelationshipButton({
 
   const resetForm = useCallback(() => {
     setType("PARENT");
+    setPedigree("BIRTH");
     setSearchQuery("");
     setSearchResults([]);
     setSelectedPerson(null);
     setMarriageDate("");
     setDivorceDate("");
+    setStartDate("");
+    setEndDate("");
     setError(null);
+    setWarnings([]);
   }, []);
 
+  const isParentLink = type === "PARENT" || type === "CHILD";
+
   const handleSubmit = async () => {
     if (!selectedPerson) {
       setError("Please select a person");
@@ -98,18 +107,26 @@ export function AddRelationshipButton({
     setIsLoading(true);
 
     try {
-      await createRelationship({
+      const result = await createRelationship({
         data: {
           personId,
           relatedPersonId: selectedPerson.id,
           type,
           marriageDate: marriageDate || undefined,
           divorceDate: divorceDate || undefined,
+          pedigree: isParentLink ? pedigree : undefined,
+          startDate: startDate || undefined,
+          endDate: endDate || undefined,
         },
       });
+      onSuccess?.();
+      // Keep the dialog open so implausible data is noticed before moving on
+      if ("warnings" in result && result.warnings.length > 0) {
+        setWarnings(result.warnings.map((warning) => warning.message));
+        return;
+      }
       setOpen(false);
       resetForm();
-      onSuccess?.();
     } catch (err) {
       setError(
         err instanceof Error ? err.message : "Failed to create relationship"
@@ -164,13 +181,27 @@ export function AddRelationshipButton({
             </div>
           )}
 
+          {warnings.length > 0 && (
+            <div
+              data-testid="add-relationship-warnings"
+              className="rounded-md bg-amber-500/10 p-3 text-sm text-amber-700 dark:text-amber-400"
+            >
+              <p className="font-medium">
+                Relationship added, but please check:
+              </p>
+              <ul className="mt-1 list-disc pl-5">
+                {warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="relationship-type">Relationship Type</Label>
             <Select
               value={type}
-              onValueChange={(value) =>
-                setType(value as "PARENT" | "CHILD" | "SPOUSE" | "SIBLING")
-              }
+              onValueChange={(value) => setType(value as RelationshipType)}
             >
               <SelectTrigger
                 id="relationship-type"
@@ -183,10 +214,37 @@ export function AddRelationshipButton({
                 <SelectItem value="CHILD">Child</SelectItem>
                 <SelectItem value="SPOUSE">Spouse</SelectItem>
                 <SelectItem value="SIBLING">Sibling</SelectItem>
+                <SelectItem value="PARTNER">Partner</SelectItem>
+                <SelectItem value="GODPARENT">Godparent</SelectItem>
+                <SelectItem value="GODCHILD">Godchild</SelectItem>
               </SelectContent>
             </Select>
           </div>
 
+          {isParentLink && (
+            <div className="space-y-2">
+              <Label htmlFor="relationship-pedigree">Pedigree</Label>
+              <Select
+                value={pedigree}
+                onValueChange={(value) => setPedigree(value as ParentPedigree)}
+              >
+                <SelectTrigger
+                  id="relationship-pedigree"
+                  data-testid="add-relationship-pedigree-select"
+                >
+                  <SelectValue placeholder="Select pedigree" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="BIRTH">Birth</SelectItem>
+                  <SelectItem value="ADOPTED">Adopted</SelectItem>
+                  <SelectItem value="FOSTER">Foster</SelectItem>
+                  <SelectItem value="GUARDIAN">Guardian</SelectItem>
+                  <SelectItem value="SEALED">Sealed</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="person-search">Search Person</Label>
             <Input
@@ -291,6 +349,31 @@ export function AddRelationshipButton({
             </>
           )}
 
+          {type === "PARTNER" && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="partnership-start-date">Start Date</Label>
+                <Input
+                  id="partnership-start-date"
+                  type="date"
+                  data-testid="add-relationship-start-date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="partnership-end-date">End Date</Label>
+                <Input
+                  id="partnership-end-date"
+                  type="date"
+                  data-testid="add-relationship-end-date"
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                />
+              </div>
+            </>
+          )}
+
           <div className="flex justify-end gap-2">
             <Button
               type="button"
@@ -304,14 +387,27 @@ export function AddRelationshipButton({
             >
               Cancel
             </Button>
-            <Button
-              type="button"
-              data-testid="add-relationship-submit"
-              onClick={handleSubmit}
-              disabled={isLoading || !selectedPerson}
-            >
-              {isLoading ? "Adding..." : "Add Relationship"}
-            </Button>
+            {warnings.length > 0 ? (
+              <Button
+                type="button"
+                data-testid="add-relationship-done"
+                onClick={() => {
+                  setOpen(false);
+                  resetForm();
+                }}
+              >
+                Done
+              </Button>
+            ) : (
+              <Button
+                type="button"
+                data-testid="add-relationship-submit"
+                onClick={handleSubmit}
+                disabled={isLoading || !selectedPerson}
+              >
+                {isLoading ? "Adding..." : "Add Relationship"}
+              </Button>
+            )}
           </div>
         </div>
       </DialogContent>
@@ -68,11 +68,17 @@ export function EventFormModal({
   const [place, setPlace] = useState(event?.place || "");
   const [description, setDescription] = useState(event?.description || "");
   const [error, setError] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<Array<string>>([]);
 
   const createMutation = useMutation({
     mutationFn: createEvent,
-    onSuccess: () => {
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ["personEvents", personId] });
+      // Keep the dialog open so implausible dates are noticed before moving on
+      if ("warnings" in result && result.warnings.length > 0) {
+        setWarnings(result.warnings.map((warning) => warning.message));
+        return;
+      }
       handleClose();
     },
     onError: (err) => {
@@ -126,6 +132,7 @@ export function EventFormModal({
       setPlace("");
       setDescription("");
       setError(null);
+      setWarnings([]);
       onOpenChange(false);
     }
   };
@@ -151,6 +158,20 @@ export function EventFormModal({
             </div>
           )}
 
+          {warnings.length > 0 && (
+            <div
+              className="rounded-md bg-amber-500/10 p-3 text-sm text-amber-700 dark:text-amber-400"
+              data-testid="event-form-warnings"
+            >
+              <p className="font-medium">Event added, but please check:</p>
+              <ul className="mt-1 list-disc pl-5">
+                {warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="event-type">Event Type</Label>
             <Select
@@ -215,19 +236,29 @@ export function EventFormModal({
             >
               Cancel
             </Button>
-            <Button
-              type="submit"
-              disabled={isLoading}
-              data-testid="event-form-submit"
-            >
-              {isLoading
-                ? isEditing
-                  ? "Saving..."
-                  : "Creating..."
-                : isEditing
-                  ? "Save Changes"
-                  : "Create Event"}
-            </Button>
+            {warnings.length > 0 ? (
+              <Button
+                type="button"
+                onClick={handleClose}
+                data-testid="event-form-done"
+              >
+                Done
+              </Button>
+            ) : (
+              <Button
+                type="submit"
+                disabled={isLoading}
+                data-testid="event-form-submit"
+              >
+                {isLoading
+                  ? isEditing
+                    ? "Saving..."
+                    : "Creating..."
+                  : isEditing
+                    ? "Save Changes"
+                    : "Create Event"}
+              </Button>
+            )}
           </div>
         </form>
       </DialogContent>
@@ -0,0 +1,139 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { Badge, Card, CardContent } from "@vamsa/ui/primitives";
+import type { PersonHistoryEntry } from "@vamsa/lib/server/business";
+import { getPersonHistory } from "~/server/audit";
+import { formatDateTime, formatRelativeTime } from "~/lib/format";
+
+interface HistoryTabProps {
+  personId: string;
+}
+
+const ENTITY_LABELS: Record<string, string> = {
+  PERSON: "Person",
+  EVENT: "Event",
+  EVENT_PARTICIPANT: "Event participant",
+  RELATIONSHIP: "Relationship",
+  PLACE: "Place",
+  PLACE_LINK: "Place link",
+  MEDIA: "Media",
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  CREATE: "Created",
+  UPDATE: "Updated",
+  DELETE: "Deleted",
+  MERGE: "Merged",
+};
+
+export function HistoryTab({ personId }: HistoryTabProps) {
+  const { data: entries = [], isLoading } = useQuery({
+    queryKey: ["personHistory", personId],
+    queryFn: () => getPersonHistory({ data: { personId } }),
+  });
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center">
+          <div className="flex animate-pulse flex-col items-center gap-4">
+            <div className="bg-muted h-12 w-12 rounded-full" />
+            <div className="bg-muted h-4 w-32 rounded" />
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center">
+          <h3 className="font-display text-foreground mb-2 text-xl">
+            No History Yet
+          </h3>
+          <p className="text-muted-foreground">
+            Changes to this person and their records will appear here.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <ol className="space-y-4" data-testid="person-history">
+      {entries.map((entry) => (
+        <li key={entry.id}>
+          <HistoryEntryCard entry={entry} />
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+function HistoryEntryCard({ entry }: { entry: PersonHistoryEntry }) {
+  const entityLabel = ENTITY_LABELS[entry.entityType] ?? entry.entityType;
+  const actionLabel = ACTION_LABELS[entry.action] ?? entry.action;
+
+  return (
+    <Card>
+      <CardContent className="space-y-3 py-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="muted">{entityLabel}</Badge>
+            <span className="text-foreground font-medium">
+              {actionLabel}
+              {entry.label && ` · ${entry.label}`}
+            </span>
+            {entry.revertedAuditLogId && <Badge variant="muted">Revert</Badge>}
+            {entry.suggestion && <Badge>Approved suggestion</Badge>}
+          </div>
+          <time
+            className="text-muted-foreground text-sm"
+            dateTime={new Date(entry.timestamp).toISOString()}
+            title={formatDateTime(entry.timestamp)}
+          >
+            {formatRelativeTime(entry.timestamp)}
+          </time>
+        </div>
+
+        <p className="text-muted-foreground text-sm">
+          {entry.suggestion
+            ? `Suggested by ${entry.suggestion.submittedBy?.name ?? "Unknown user"}, approved by ${entry.suggestion.reviewedBy?.name ?? "Unknown user"}`
+            : `By ${entry.user?.name ?? "Unknown user"}`}
+        </p>
+
+        {entry.changes.length > 0 && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-muted-foreground text-left">
+                <th className="pb-1 font-medium">Field</th>
+                <th className="pb-1 font-medium">Before</th>
+                <th className="pb-1 font-medium">After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entry.changes.map((change) => (
+                <tr key={change.field} className="border-t align-top">
+                  <td className="py-1 pr-2 font-medium">{change.field}</td>
+                  <td className="text-muted-foreground py-1 pr-2 break-all line-through">
+                    {formatValue(change.before)}
+                  </td>
+                  <td className="py-1 break-all">
+                    {formatValue(change.after)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  return String(value);
+}
@@ -16,6 +16,13 @@ import {
   TabsList,
   TabsTrigger,
 } from "@vamsa/ui";
+import {
+  formatGedcomDate,
+  isApproximateDate,
+  parseGenealogicalDate,
+  toGenealogicalDate,
+} from "@vamsa/lib";
+import type { PrivacyLevel } from "@vamsa/schemas";
 import { createPerson, updatePerson } from "~/server/persons.functions";
 
 interface PersonFormProps {
@@ -26,6 +33,8 @@ interface PersonFormProps {
     maidenName?: string | null;
     dateOfBirth?: string | null;
     dateOfPassing?: string | null;
+    dateOfBirthDetail?: unknown;
+    dateOfPassingDetail?: unknown;
     birthPlace?: string | null;
     nativePlace?: string | null;
     gender?: "MALE" | "FEMALE" | "OTHER" | "PREFER_NOT_TO_SAY" | null;
@@ -35,19 +44,55 @@ interface PersonFormProps {
     profession?: string | null;
     employer?: string | null;
     isLiving: boolean;
+    privacy?: PrivacyLevel | null;
   };
   /** Called on successful save. For new persons, receives the created person's ID. */
   onSuccess?: (createdId?: string) => void;
   onCancel?: () => void;
 }
 
+/** Select value for "use the family default" (stored as null) */
+const INHERIT_PRIVACY = "INHERIT" as const;
+
+/** Text shown in a date input: the detail as GEDCOM text, else the ISO date */
+function toDateText(date?: string | null, detail?: unknown): string {
+  const genealogical = toGenealogicalDate(detail);
+  return genealogical ? formatGedcomDate(genealogical) : date || "";
+}
+
+/**
+ * Split date input text into an exact ISO date or a genealogical detail.
+ * Throws when the text is not a recognizable date.
+ */
+function toDateFields(label: string, text: string) {
+  if (!text.trim()) return { date: undefined, detail: undefined };
+
+  const parsed = parseGenealogicalDate(text);
+  if (!parsed) {
+    throw new Error(`${label} is not a recognized date`);
+  }
+  if (!isApproximateDate(parsed) && parsed.calendar === "GREGORIAN") {
+    const { year, month, day } = parsed.start;
+    const iso = [
+      String(year).padStart(4, "0"),
+      String(month).padStart(2, "0"),
+      String(day).padStart(2, "0"),
+    ].join("-");
+    return { date: iso, detail: undefined };
+  }
+  return { date: undefined, detail: parsed };
+}
+
 export function PersonForm({ person, onSuccess, onCancel }: PersonFormProps) {
   const [formData, setFormData] = useState({
     firstName: person?.firstName || "",
     lastName: person?.lastName || "",
     maidenName: person?.maidenName || "",
-    dateOfBirth: person?.dateOfBirth || "",
-    dateOfPassing: person?.dateOfPassing || "",
+    dateOfBirth: toDateText(person?.dateOfBirth, person?.dateOfBirthDetail),
+    dateOfPassing: toDateText(
+      person?.dateOfPassing,
+      person?.dateOfPassingDetail
+    ),
     birthPlace: person?.birthPlace || "",
     nativePlace: person?.nativePlace || "",
     gender: person?.gender || undefined,
@@ -57,6 +102,7 @@ export function PersonForm({ person, onSuccess, onCancel }: PersonFormProps) {
     profession: person?.profession || "",
     employer: person?.employer || "",
     isLiving: person?.isLiving ?? true,
+    privacy: person?.privacy ?? INHERIT_PRIVACY,
   });
 
   const [error, setError] = useState<string | null>(null);
@@ -83,19 +129,31 @@ export function PersonForm({ person, onSuccess, onCancel }: PersonFormProps) {
     });
   };
 
+  const handlePrivacyChange = (value: string) => {
+    setFormData({
+      ...formData,
+      privacy: value as PrivacyLevel | typeof INHERIT_PRIVACY,
+    });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
     setIsLoading(true);
 
     try {
+      const birth = toDateFields("Date of birth", formData.dateOfBirth);
+      const passing = toDateFields("Date of passing", formData.dateOfPassing);
+
       // Prepare the data for submission
       const submitData = {
         firstName: formData.firstName,
         lastName: formData.lastName,
         maidenName: formData.maidenName || undefined,
-        dateOfBirth: formData.dateOfBirth || undefined,
-        dateOfPassing: formData.dateOfPassing || undefined,
+        dateOfBirth: birth.date,
+        dateOfBirthDetail: birth.detail,
+        dateOfPassing: passing.date,
+        dateOfPassingDetail: passing.detail,
         birthPlace: formData.birthPlace || undefined,
         nativePlace: formData.nativePlace || undefined,
         gender: formData.gender,
@@ -105,6 +163,7 @@ export function PersonForm({ person, onSuccess, onCancel }: PersonFormProps) {
         profession: formData.profession || undefined,
         employer: formData.employer || undefined,
         isLiving: formData.isLiving,
+        privacy: formData.privacy === INHERIT_PRIVACY ? null : formData.privacy,
       };
 
       if (person) {
@@ -197,7 +256,7 @@ export function PersonForm({ person, onSuccess, onCancel }: PersonFormProps) {
             <FormField label="Date of Birth">
               <Input
                 name="dateOfBirth"
-                type="date"
+                placeholder="1850-03-15, ABT 1850, BET 1820 AND 1825"
                 data-testid="person-form-dateOfBirth"
                 value={formData.dateOfBirth}
                 onChange={handleChange}
@@ -218,11 +277,28 @@ export function PersonForm({ person, onSuccess, onCancel }: PersonFormProps) {
             <Label htmlFor="isLiving">Living</Label>
           </div>
 
+          <FormField label="Privacy">
+            <Select
+              value={formData.privacy}
+              onValueChange={handlePrivacyChange}
+            >
+              <SelectTrigger data-testid="person-form-privacy">
+                <SelectValue placeholder="Select privacy" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={INHERIT_PRIVACY}>Family default</SelectItem>
+                <SelectItem value="PUBLIC">Public</SelectItem>
+                <SelectItem value="MEMBERS_ONLY">Members only</SelectItem>
+                <SelectItem value="ADMIN_ONLY">Admins only</SelectItem>
+              </SelectContent>
+            </Select>
+          </FormField>
+
           {!formData.isLiving && (
             <FormField label="Date of Passing">
               <Input
                 name="dateOfPassing"
-                type="date"
+                placeholder="1850-03-15, ABT 1850, BET 1820 AND 1825"
                 data-testid="person-form-dateOfPassing"
                 value={formData.dateOfPassing}
                 onChange={handleChange}
@@ -19,10 +19,22 @@ import {
   DialogTitle,
   Input,
   Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
 } from "@vamsa/ui/primitives";
 import { Link } from "@tanstack/react-router";
-import { formatDate, formatDateForInput } from "@vamsa/lib";
+import {
+  ALL_PARENT_PEDIGREES,
+  formatDate,
+  formatDateForInput,
+  getPedigreeLabel,
+  getRelationshipLabel,
+} from "@vamsa/lib";
 import { AddRelationshipButton } from "./add-relationship-button";
+import type { ParentPedigree, RelationshipType } from "@vamsa/lib";
 import { deleteRelationship, updateRelationship } from "~/server/relationships";
 
 interface Relationship {
@@ -30,6 +42,9 @@ interface Relationship {
   type: string;
   marriageDate?: string | null;
   divorceDate?: string | null;
+  pedigree?: ParentPedigree | null;
+  startDate?: string | null;
+  endDate?: string | null;
   relatedPerson: {
     id: string;
     firstName: string;
@@ -53,6 +68,9 @@ export function RelationshipsTab({
   const [editingRel, setEditingRel] = useState<Relationship | null>(null);
   const [marriageDate, setMarriageDate] = useState("");
   const [divorceDate, setDivorceDate] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [pedigree, setPedigree] = useState<ParentPedigree>("BIRTH");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -65,6 +83,9 @@ export function RelationshipsTab({
     setEditingRel(rel);
     setMarriageDate(formatDateForInput(rel.marriageDate));
     setDivorceDate(formatDateForInput(rel.divorceDate));
+    setStartDate(formatDateForInput(rel.startDate));
+    setEndDate(formatDateForInput(rel.endDate));
+    setPedigree(rel.pedigree ?? "BIRTH");
     setError(null);
   }
 
@@ -74,11 +95,19 @@ export function RelationshipsTab({
     setError(null);
     try {
       await updateRelationship({
-        data: {
-          id: editingRel.id,
-          marriageDate: marriageDate ? new Date(marriageDate) : null,
-          divorceDate: divorceDate ? new Date(divorceDate) : null,
-        },
+        data: isParentLink(editingRel.type)
+          ? { id: editingRel.id, pedigree }
+          : editingRel.type === "PARTNER"
+            ? {
+                id: editingRel.id,
+                startDate: startDate ? new Date(startDate) : null,
+                endDate: endDate ? new Date(endDate) : null,
+              }
+            : {
+                id: editingRel.id,
+                marriageDate: marriageDate ? new Date(marriageDate) : null,
+                divorceDate: divorceDate ? new Date(divorceDate) : null,
+              },
       });
       setEditingRel(null);
       onRelationshipAdded?.();
@@ -198,7 +227,13 @@ export function RelationshipsTab({
                           {rel.relatedPerson.lastName}
                         </div>
                         <div className="text-muted-foreground text-sm">
-                          {formatRelationType(type, true)}
+                          {rel.pedigree
+                            ? getRelationshipLabel(
+                                rel.type as RelationshipType,
+                                undefined,
+                                rel.pedigree
+                              )
+                            : formatRelationType(type, true)}
                         </div>
                         {rel.type === "SPOUSE" && rel.marriageDate && (
                           <div className="text-muted-foreground text-xs">
@@ -210,10 +245,20 @@ export function RelationshipsTab({
                             Divorced {formatDate(rel.divorceDate)}
                           </div>
                         )}
+                        {rel.type === "PARTNER" && rel.startDate && (
+                          <div className="text-muted-foreground text-xs">
+                            Together since {formatDate(rel.startDate)}
+                          </div>
+                        )}
+                        {rel.type === "PARTNER" && rel.endDate && (
+                          <div className="text-muted-foreground text-xs">
+                            Separated {formatDate(rel.endDate)}
+                          </div>
+                        )}
                       </div>
                     </Link>
                     <div className="flex items-center gap-2">
-                      {rel.type === "SPOUSE" && (
+                      {isEditable(rel.type) && (
                         <Button
                           variant="ghost"
                           size="icon"
@@ -293,7 +338,11 @@ export function RelationshipsTab({
         <DialogContent data-testid="edit-relationship-dialog">
           <DialogHeader>
             <DialogTitle>
-              Edit Marriage Details
+              {editingRel && isParentLink(editingRel.type)
+                ? "Edit Pedigree"
+                : editingRel?.type === "PARTNER"
+                  ? "Edit Partnership Details"
+                  : "Edit Marriage Details"}
               {editingRel &&
                 ` - ${editingRel.relatedPerson.firstName} ${editingRel.relatedPerson.lastName}`}
             </DialogTitle>
@@ -307,26 +356,79 @@ export function RelationshipsTab({
                 {error}
               </div>
             )}
-            <div className="space-y-2">
-              <Label htmlFor="marriageDate">Marriage Date</Label>
-              <Input
-                id="marriageDate"
-                type="date"
-                value={marriageDate}
-                onChange={(e) => setMarriageDate(e.target.value)}
-                data-testid="edit-relationship-marriage-date"
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="divorceDate">Divorce Date (if applicable)</Label>
-              <Input
-                id="divorceDate"
-                type="date"
-                value={divorceDate}
-                onChange={(e) => setDivorceDate(e.target.value)}
-                data-testid="edit-relationship-divorce-date"
-              />
-            </div>
+            {editingRel && isParentLink(editingRel.type) ? (
+              <div className="space-y-2">
+                <Label htmlFor="pedigree">Pedigree</Label>
+                <Select
+                  value={pedigree}
+                  onValueChange={(value) =>
+                    setPedigree(value as ParentPedigree)
+                  }
+                >
+                  <SelectTrigger
+                    id="pedigree"
+                    data-testid="edit-relationship-pedigree"
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ALL_PARENT_PEDIGREES.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {getPedigreeLabel(value)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : editingRel?.type === "PARTNER" ? (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="startDate">Start Date</Label>
+                  <Input
+                    id="startDate"
+                    type="date"
+                    value={startDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                    data-testid="edit-relationship-start-date"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="endDate">End Date (if applicable)</Label>
+                  <Input
+                    id="endDate"
+                    type="date"
+                    value={endDate}
+                    onChange={(e) => setEndDate(e.target.value)}
+                    data-testid="edit-relationship-end-date"
+                  />
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="marriageDate">Marriage Date</Label>
+                  <Input
+                    id="marriageDate"
+                    type="date"
+                    value={marriageDate}
+                    onChange={(e) => setMarriageDate(e.target.value)}
+                    data-testid="edit-relationship-marriage-date"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="divorceDate">
+                    Divorce Date (if applicable)
+                  </Label>
+                  <Input
+                    id="divorceDate"
+                    type="date"
+                    value={divorceDate}
+                    onChange={(e) => setDivorceDate(e.target.value)}
+                    data-testid="edit-relationship-divorce-date"
+                  />
+                </div>
+              </>
+            )}
             <div className="flex justify-end gap-2">
               <Button
                 variant="outline"
@@ -411,5 +513,14 @@ function formatRelationType(type: string, singular = false): string {
   if (type === "SPOUSE") return "Spouses";
   if (type === "SIBLING") return "Siblings";
   if (type === "PARENT") return "Parents";
+  if (type === "GODCHILD") return "Godchildren";
   return formatted + "s";
 }
+
+function isParentLink(type: string): boolean {
+  return type === "PARENT" || type === "CHILD";
+}
+
+function isEditable(type: string): boolean {
+  return type === "SPOUSE" || type === "PARTNER" || isParentLink(type);
+}
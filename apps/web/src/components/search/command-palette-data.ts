@@ -1,5 +1,6 @@
 import {
   BarChart3,
+  Bell,
   Binary,
   BookOpen,
   Compass,
@@ -63,6 +64,14 @@ function getNavigationItems(t: TFunction): Array<NavigationItem> {
       category: "navigation",
       keywords: ["log", "feed", "recent", "changes", "history"],
     },
+    {
+      id: "nav-notifications",
+      label: t("navNotifications"),
+      href: "/notifications",
+      icon: Bell,
+      category: "navigation",
+      keywords: ["inbox", "alerts", "unread", "birthdays", "suggestions"],
+    },
     {
       id: "nav-maps",
       label: t("navMaps"),
@@ -4,19 +4,50 @@ import { useCallback, useEffect, useMemo, useState } from "react";
 import { useNavigate } from "@tanstack/react-router";
 import { useTranslation } from "react-i18next";
 import { Command } from "cmdk";
-import { Loader2, Search, Sparkles, User, X } from "lucide-react";
+import {
+  BookOpen,
+  Calendar,
+  FileText,
+  Image,
+  Loader2,
+  MapPin,
+  Search,
+  Sparkles,
+  User,
+  X,
+} from "lucide-react";
 import { cn } from "@vamsa/ui";
-import { searchPeople } from "../../server/search";
+import { SEARCH_ENTITY_TYPES } from "@vamsa/lib/search-engine";
+import { searchEntities, searchPeople } from "../../server/search";
 import {
   filterNavigationItems,
   getCategoryLabel,
 } from "./command-palette-data";
 import type { NavigationItem } from "./command-palette-data";
+import type { SearchEntityType } from "@vamsa/lib/search-engine";
+import type { EntitySearchResultItem } from "../../server/search";
+import type { LucideIcon } from "lucide-react";
 
 interface CommandPaletteProps {
   isAdmin?: boolean;
 }
 
+/** Group heading key and icon for each searchable entity type */
+const ENTITY_GROUPS: Record<
+  SearchEntityType,
+  { labelKey: string; icon: LucideIcon }
+> = {
+  event: { labelKey: "groupEvents", icon: Calendar },
+  place: { labelKey: "groupPlaces", icon: MapPin },
+  source: { labelKey: "groupSources", icon: BookOpen },
+  researchNote: { labelKey: "groupResearchNotes", icon: FileText },
+  media: { labelKey: "groupMedia", icon: Image },
+};
+
+/** Results per entity type: a few when showing all, more when filtered */
+const ENTITY_LIMIT = 5;
+const FILTERED_ENTITY_LIMIT = 15;
+
 /**
  * Universal Command Palette
  *
@@ -28,6 +59,8 @@ interface CommandPaletteProps {
  * - Natural language search with NLP explanation banners
  * - Navigation + quick actions (client-side, instant)
  * - People search via server FTS
+ * - Event, place, source, research note and media search grouped by type,
+ *   with facet filters to narrow results to one type
  * - Admin items filtered by role
  * - Debounced search (300ms)
  * - Keyboard navigation
@@ -53,6 +86,15 @@ export function CommandPalette({ isAdmin = false }: CommandPaletteProps) {
       isLiving: boolean;
     }>
   >([]);
+  const [entityResults, setEntityResults] = useState<
+    Array<EntitySearchResultItem>
+  >([]);
+  const [facets, setFacets] = useState<Record<SearchEntityType, number> | null>(
+    null
+  );
+  const [entityFilter, setEntityFilter] = useState<SearchEntityType | null>(
+    null
+  );
   const navigate = useNavigate();
 
   // Toggle command palette with Cmd+K / Ctrl+K
@@ -81,6 +123,9 @@ export function CommandPalette({ isAdmin = false }: CommandPaletteProps) {
     if (!open) {
       setQuery("");
       setResults([]);
+      setEntityResults([]);
+      setFacets(null);
+      setEntityFilter(null);
       setIsSearching(false);
       setError(null);
       setExplanation(null);
@@ -92,6 +137,9 @@ export function CommandPalette({ isAdmin = false }: CommandPaletteProps) {
   useEffect(() => {
     if (!query.trim()) {
       setResults([]);
+      setEntityResults([]);
+      setFacets(null);
+      setEntityFilter(null);
       setIsSearching(false);
       setError(null);
       setExplanation(null);
@@ -104,20 +152,43 @@ export function CommandPalette({ isAdmin = false }: CommandPaletteProps) {
       setError(null);
 
       try {
-        const searchResults = await searchPeople({
-          data: {
-            query,
-            limit: 10,
-            offset: 0,
-          },
-        });
-
-        setResults(searchResults.results.map((r) => r.item));
-        setExplanation(searchResults.explanation ?? null);
-        setIntentType(searchResults.intentType ?? null);
+        // People are skipped while a facet filter narrows to one entity type.
+        // Entity search failures only hide those groups, not people results.
+        const [searchResults, entitySearchResults] = await Promise.all([
+          entityFilter
+            ? null
+            : searchPeople({
+                data: {
+                  query,
+                  limit: 10,
+                  offset: 0,
+                },
+              }),
+          searchEntities({
+            data: {
+              query,
+              entityTypes: entityFilter ? [entityFilter] : undefined,
+              limit: entityFilter ? FILTERED_ENTITY_LIMIT : ENTITY_LIMIT,
+              offset: 0,
+            },
+          }).catch((err: unknown) => {
+            console.error("Entity search failed:", err);
+            return null;
+          }),
+        ]);
+
+        setResults(searchResults?.results.map((r) => r.item) ?? []);
+        setExplanation(searchResults?.explanation ?? null);
+        setIntentType(searchResults?.intentType ?? null);
+        setEntityResults(entitySearchResults?.results.map((r) => r.item) ?? []);
+        // Keep the unfiltered counts so every facet stays selectable
+        if (!entityFilter) {
+          setFacets(entitySearchResults?.facets ?? null);
+        }
       } catch (err) {
         console.error("Search failed:", err);
         setResults([]);
+        setEntityResults([]);
         setError(t("searchUnavailable"));
       } finally {
         setIsSearching(false);
@@ -125,7 +196,7 @@ export function CommandPalette({ isAdmin = false }: CommandPaletteProps) {
     }, 300);
 
     return () => clearTimeout(timeout);
-  }, [query, t]);
+  }, [query, entityFilter, t]);
 
   // Client-side filtered navigation items
   const navItems = useMemo(
@@ -153,6 +224,32 @@ export function CommandPalette({ isAdmin = false }: CommandPaletteProps) {
     [navigate]
   );
 
+  // Entity results grouped by type, in facet order
+  const entityGroups = useMemo(
+    () =>
+      SEARCH_ENTITY_TYPES.map((type) => ({
+        type,
+        items: entityResults.filter((item) => item.entityType === type),
+      })).filter((group) => group.items.length > 0),
+    [entityResults]
+  );
+
+  // Handle entity selection: open the linked person, or the map for places
+  const handleSelectEntity = useCallback(
+    (item: EntitySearchResultItem) => {
+      setOpen(false);
+      if (item.personId) {
+        navigate({
+          to: "/people/$personId",
+          params: { personId: item.personId },
+        });
+      } else if (item.entityType === "place") {
+        navigate({ to: "/maps" });
+      }
+    },
+    [navigate]
+  );
+
   // Handle navigation item selection
   const handleSelectNavItem = useCallback(
     (item: NavigationItem) => {
@@ -200,8 +297,12 @@ export function CommandPalette({ isAdmin = false }: CommandPaletteProps) {
   // Determine what to show
   const hasQuery = query.trim().length > 0;
   const hasServerResults = results.length > 0;
+  const hasEntityResults = entityResults.length > 0;
   const hasNavResults = hasQuery && navItems.length > 0;
-  const hasAnyResults = hasServerResults || hasNavResults;
+  const hasAnyResults = hasServerResults || hasEntityResults || hasNavResults;
+  const facetTypes = facets
+    ? SEARCH_ENTITY_TYPES.filter((type) => facets[type] > 0)
+    : [];
   const showEmptyState = hasQuery && !isSearching && !error && !hasAnyResults;
 
   // For empty query, show Quick Actions and Navigation groups
@@ -268,6 +369,47 @@ export function CommandPalette({ isAdmin = false }: CommandPaletteProps) {
           </button>
         </div>
 
+        {/* Facet filters */}
+        {hasQuery && facetTypes.length > 0 && (
+          <div
+            className="border-border flex flex-wrap items-center gap-2 border-b px-4 py-2"
+            role="group"
+            aria-label={t("searchFilters")}
+          >
+            <button
+              type="button"
+              onClick={() => setEntityFilter(null)}
+              aria-pressed={entityFilter === null}
+              className={cn(
+                "rounded-full border px-2.5 py-0.5 text-xs transition-colors",
+                entityFilter === null
+                  ? "bg-primary text-primary-foreground border-primary"
+                  : "text-muted-foreground hover:text-foreground"
+              )}
+            >
+              {t("filterAll")}
+            </button>
+            {facetTypes.map((type) => (
+              <button
+                key={type}
+                type="button"
+                onClick={() =>
+                  setEntityFilter((current) => (current === type ? null : type))
+                }
+                aria-pressed={entityFilter === type}
+                className={cn(
+                  "rounded-full border px-2.5 py-0.5 text-xs transition-colors",
+                  entityFilter === type
+                    ? "bg-primary text-primary-foreground border-primary"
+                    : "text-muted-foreground hover:text-foreground"
+                )}
+              >
+                {t(ENTITY_GROUPS[type].labelKey)} ({facets?.[type]})
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Results */}
         <Command.List className="max-h-[400px] overflow-y-auto p-2">
           {/* Error state */}
@@ -337,8 +479,53 @@ export function CommandPalette({ isAdmin = false }: CommandPaletteProps) {
             </Command.Group>
           )}
 
+          {/* Entity Results, grouped by type */}
+          {entityGroups.map(({ type, items }) => {
+            const { labelKey, icon: Icon } = ENTITY_GROUPS[type];
+            return (
+              <Command.Group
+                key={type}
+                heading={t(labelKey)}
+                className="text-muted-foreground mb-2 px-3 py-2 text-xs font-medium"
+              >
+                {items.map((item) => (
+                  <Command.Item
+                    key={`${type}-${item.id}`}
+                    value={`${type}-${item.id}`}
+                    onSelect={() => handleSelectEntity(item)}
+                    className={cn(
+                      "aria-selected:bg-accent aria-selected:text-accent-foreground flex cursor-pointer items-center gap-3 rounded-lg px-3 py-2.5 transition-colors",
+                      "focus-visible:ring-ring focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:outline-none"
+                    )}
+                  >
+                    <div
+                      className="bg-muted flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-md"
+                      aria-hidden="true"
+                    >
+                      <Icon className="text-muted-foreground h-4 w-4" />
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-sm font-medium">
+                        {item.title || t("untitled")}
+                      </p>
+                      {item.subtitle && (
+                        <p className="text-muted-foreground truncate text-xs">
+                          {item.subtitle}
+                        </p>
+                      )}
+                    </div>
+                    <kbd className="bg-muted pointer-events-none hidden rounded border px-1.5 py-0.5 font-mono text-[10px] font-medium opacity-50 sm:inline-block">
+                      ↵
+                    </kbd>
+                  </Command.Item>
+                ))}
+              </Command.Group>
+            );
+          })}
+
           {/* Navigation Groups */}
           {!error &&
+            !entityFilter &&
             queryNavCategories.map((category) => {
               const items = navGroups[category];
               if (!items || items.length === 0) return null;
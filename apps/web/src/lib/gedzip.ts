@@ -0,0 +1,40 @@
+/**
+ * Client helpers for GEDCOM and GEDZIP file uploads
+ */
+
+/** File types accepted by the GEDCOM import form */
+export const GEDCOM_IMPORT_ACCEPT = ".ged,.gdz,.zip";
+
+/**
+ * Whether a file name is a GEDZIP package (.gdz, or a plain .zip)
+ */
+export function isGedzipFile(fileName: string): boolean {
+  return /\.(gdz|zip)$/i.test(fileName);
+}
+
+/**
+ * Whether a file name can be imported as GEDCOM or GEDZIP
+ */
+export function isGedcomImportFile(fileName: string): boolean {
+  return fileName.endsWith(".ged") || isGedzipFile(fileName);
+}
+
+/**
+ * Read a file as base64 for sending to a server function
+ */
+export function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      // Strip the "data:<type>;base64," prefix
+      const base64 = (reader.result as string).split(",")[1];
+      if (base64 === undefined) {
+        reject(new Error("Failed to read file"));
+        return;
+      }
+      resolve(base64);
+    };
+    reader.onerror = () => reject(new Error("Failed to read file"));
+    reader.readAsDataURL(file);
+  });
+}
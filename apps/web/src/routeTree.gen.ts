@@ -19,6 +19,7 @@ import { Route as IndexRouteImport } from './routes/index'
 import { Route as InviteTokenRouteImport } from './routes/invite.$token'
 import { Route as AuthenticatedVisualizeRouteImport } from './routes/_authenticated/visualize'
 import { Route as AuthenticatedSubscribeRouteImport } from './routes/_authenticated/subscribe'
+import { Route as AuthenticatedNotificationsRouteImport } from './routes/_authenticated/notifications'
 import { Route as AuthenticatedDashboardRouteImport } from './routes/_authenticated/dashboard'
 import { Route as AuthenticatedChangePasswordRouteImport } from './routes/_authenticated/change-password'
 import { Route as AuthenticatedAdminRouteImport } from './routes/_authenticated/admin'
@@ -27,9 +28,11 @@ import { Route as AuthenticatedPeopleIndexRouteImport } from './routes/_authenti
 import { Route as AuthenticatedMapsIndexRouteImport } from './routes/_authenticated/maps/index'
 import { Route as AuthenticatedSettingsProfileRouteImport } from './routes/_authenticated/settings/profile'
 import { Route as AuthenticatedSettingsCalendarTokensRouteImport } from './routes/_authenticated/settings/calendar-tokens'
+import { Route as AuthenticatedSettingsApiTokensRouteImport } from './routes/_authenticated/settings/api-tokens'
 import { Route as AuthenticatedPeopleNewRouteImport } from './routes/_authenticated/people/new'
 import { Route as AuthenticatedPeoplePersonIdRouteImport } from './routes/_authenticated/people/$personId'
 import { Route as AuthenticatedDevErrorsRouteImport } from './routes/_authenticated/dev/errors'
+import { Route as AuthenticatedAdminWebhooksRouteImport } from './routes/_authenticated/admin/webhooks'
 import { Route as AuthenticatedAdminUsersRouteImport } from './routes/_authenticated/admin/users'
 import { Route as AuthenticatedAdminTokensRouteImport } from './routes/_authenticated/admin/tokens'
 import { Route as AuthenticatedAdminSuggestionsRouteImport } from './routes/_authenticated/admin/suggestions'
@@ -37,6 +40,9 @@ import { Route as AuthenticatedAdminSourcesRouteImport } from './routes/_authent
 import { Route as AuthenticatedAdminSettingsRouteImport } from './routes/_authenticated/admin/settings'
 import { Route as AuthenticatedAdminMetricsRouteImport } from './routes/_authenticated/admin/metrics'
 import { Route as AuthenticatedAdminInvitesRouteImport } from './routes/_authenticated/admin/invites'
+import { Route as AuthenticatedAdminExtractionsSourceIdRouteImport } from './routes/_authenticated/admin/extractions.$sourceId'
+import { Route as AuthenticatedAdminDuplicatesRouteImport } from './routes/_authenticated/admin/duplicates'
+import { Route as AuthenticatedAdminDataQualityRouteImport } from './routes/_authenticated/admin/data-quality'
 import { Route as AuthenticatedAdminBackupRouteImport } from './routes/_authenticated/admin/backup'
 import { Route as AuthenticatedPeoplePersonIdEditRouteImport } from './routes/_authenticated/people/$personId_.edit'
 
@@ -89,6 +95,12 @@ const AuthenticatedSubscribeRoute = AuthenticatedSubscribeRouteImport.update({
   path: '/subscribe',
   getParentRoute: () => AuthenticatedRoute,
 } as any)
+const AuthenticatedNotificationsRoute =
+  AuthenticatedNotificationsRouteImport.update({
+    id: '/notifications',
+    path: '/notifications',
+    getParentRoute: () => AuthenticatedRoute,
+  } as any)
 const AuthenticatedDashboardRoute = AuthenticatedDashboardRouteImport.update({
   id: '/dashboard',
   path: '/dashboard',
@@ -133,6 +145,12 @@ const AuthenticatedSettingsCalendarTokensRoute =
     path: '/settings/calendar-tokens',
     getParentRoute: () => AuthenticatedRoute,
   } as any)
+const AuthenticatedSettingsApiTokensRoute =
+  AuthenticatedSettingsApiTokensRouteImport.update({
+    id: '/settings/api-tokens',
+    path: '/settings/api-tokens',
+    getParentRoute: () => AuthenticatedRoute,
+  } as any)
 const AuthenticatedPeopleNewRoute = AuthenticatedPeopleNewRouteImport.update({
   id: '/people/new',
   path: '/people/new',
@@ -149,6 +167,12 @@ const AuthenticatedDevErrorsRoute = AuthenticatedDevErrorsRouteImport.update({
   path: '/dev/errors',
   getParentRoute: () => AuthenticatedRoute,
 } as any)
+const AuthenticatedAdminWebhooksRoute =
+  AuthenticatedAdminWebhooksRouteImport.update({
+    id: '/webhooks',
+    path: '/webhooks',
+    getParentRoute: () => AuthenticatedAdminRoute,
+  } as any)
 const AuthenticatedAdminUsersRoute = AuthenticatedAdminUsersRouteImport.update({
   id: '/users',
   path: '/users',
@@ -190,6 +214,24 @@ const AuthenticatedAdminInvitesRoute =
     path: '/invites',
     getParentRoute: () => AuthenticatedAdminRoute,
   } as any)
+const AuthenticatedAdminExtractionsSourceIdRoute =
+  AuthenticatedAdminExtractionsSourceIdRouteImport.update({
+    id: '/extractions/$sourceId',
+    path: '/extractions/$sourceId',
+    getParentRoute: () => AuthenticatedAdminRoute,
+  } as any)
+const AuthenticatedAdminDuplicatesRoute =
+  AuthenticatedAdminDuplicatesRouteImport.update({
+    id: '/duplicates',
+    path: '/duplicates',
+    getParentRoute: () => AuthenticatedAdminRoute,
+  } as any)
+const AuthenticatedAdminDataQualityRoute =
+  AuthenticatedAdminDataQualityRouteImport.update({
+    id: '/data-quality',
+    path: '/data-quality',
+    getParentRoute: () => AuthenticatedAdminRoute,
+  } as any)
 const AuthenticatedAdminBackupRoute =
   AuthenticatedAdminBackupRouteImport.update({
     id: '/backup',
@@ -214,10 +256,14 @@ export interface FileRoutesByFullPath {
   '/admin': typeof AuthenticatedAdminRouteWithChildren
   '/change-password': typeof AuthenticatedChangePasswordRoute
   '/dashboard': typeof AuthenticatedDashboardRoute
+  '/notifications': typeof AuthenticatedNotificationsRoute
   '/subscribe': typeof AuthenticatedSubscribeRoute
   '/visualize': typeof AuthenticatedVisualizeRoute
   '/invite/$token': typeof InviteTokenRoute
   '/admin/backup': typeof AuthenticatedAdminBackupRoute
+  '/admin/data-quality': typeof AuthenticatedAdminDataQualityRoute
+  '/admin/duplicates': typeof AuthenticatedAdminDuplicatesRoute
+  '/admin/extractions/$sourceId': typeof AuthenticatedAdminExtractionsSourceIdRoute
   '/admin/invites': typeof AuthenticatedAdminInvitesRoute
   '/admin/metrics': typeof AuthenticatedAdminMetricsRoute
   '/admin/settings': typeof AuthenticatedAdminSettingsRoute
@@ -225,9 +271,11 @@ export interface FileRoutesByFullPath {
   '/admin/suggestions': typeof AuthenticatedAdminSuggestionsRoute
   '/admin/tokens': typeof AuthenticatedAdminTokensRoute
   '/admin/users': typeof AuthenticatedAdminUsersRoute
+  '/admin/webhooks': typeof AuthenticatedAdminWebhooksRoute
   '/dev/errors': typeof AuthenticatedDevErrorsRoute
   '/people/$personId': typeof AuthenticatedPeoplePersonIdRoute
   '/people/new': typeof AuthenticatedPeopleNewRoute
+  '/settings/api-tokens': typeof AuthenticatedSettingsApiTokensRoute
   '/settings/calendar-tokens': typeof AuthenticatedSettingsCalendarTokensRoute
   '/settings/profile': typeof AuthenticatedSettingsProfileRoute
   '/maps/': typeof AuthenticatedMapsIndexRoute
@@ -245,10 +293,14 @@ export interface FileRoutesByTo {
   '/admin': typeof AuthenticatedAdminRouteWithChildren
   '/change-password': typeof AuthenticatedChangePasswordRoute
   '/dashboard': typeof AuthenticatedDashboardRoute
+  '/notifications': typeof AuthenticatedNotificationsRoute
   '/subscribe': typeof AuthenticatedSubscribeRoute
   '/visualize': typeof AuthenticatedVisualizeRoute
   '/invite/$token': typeof InviteTokenRoute
   '/admin/backup': typeof AuthenticatedAdminBackupRoute
+  '/admin/data-quality': typeof AuthenticatedAdminDataQualityRoute
+  '/admin/duplicates': typeof AuthenticatedAdminDuplicatesRoute
+  '/admin/extractions/$sourceId': typeof AuthenticatedAdminExtractionsSourceIdRoute
   '/admin/invites': typeof AuthenticatedAdminInvitesRoute
   '/admin/metrics': typeof AuthenticatedAdminMetricsRoute
   '/admin/settings': typeof AuthenticatedAdminSettingsRoute
@@ -256,9 +308,11 @@ export interface FileRoutesByTo {
   '/admin/suggestions': typeof AuthenticatedAdminSuggestionsRoute
   '/admin/tokens': typeof AuthenticatedAdminTokensRoute
   '/admin/users': typeof AuthenticatedAdminUsersRoute
+  '/admin/webhooks': typeof AuthenticatedAdminWebhooksRoute
   '/dev/errors': typeof AuthenticatedDevErrorsRoute
   '/people/$personId': typeof AuthenticatedPeoplePersonIdRoute
   '/people/new': typeof AuthenticatedPeopleNewRoute
+  '/settings/api-tokens': typeof AuthenticatedSettingsApiTokensRoute
   '/settings/calendar-tokens': typeof AuthenticatedSettingsCalendarTokensRoute
   '/settings/profile': typeof AuthenticatedSettingsProfileRoute
   '/maps': typeof AuthenticatedMapsIndexRoute
@@ -278,10 +332,14 @@ export interface FileRoutesById {
   '/_authenticated/admin': typeof AuthenticatedAdminRouteWithChildren
   '/_authenticated/change-password': typeof AuthenticatedChangePasswordRoute
   '/_authenticated/dashboard': typeof AuthenticatedDashboardRoute
+  '/_authenticated/notifications': typeof AuthenticatedNotificationsRoute
   '/_authenticated/subscribe': typeof AuthenticatedSubscribeRoute
   '/_authenticated/visualize': typeof AuthenticatedVisualizeRoute
   '/invite/$token': typeof InviteTokenRoute
   '/_authenticated/admin/backup': typeof AuthenticatedAdminBackupRoute
+  '/_authenticated/admin/data-quality': typeof AuthenticatedAdminDataQualityRoute
+  '/_authenticated/admin/duplicates': typeof AuthenticatedAdminDuplicatesRoute
+  '/_authenticated/admin/extractions/$sourceId': typeof AuthenticatedAdminExtractionsSourceIdRoute
   '/_authenticated/admin/invites': typeof AuthenticatedAdminInvitesRoute
   '/_authenticated/admin/metrics': typeof AuthenticatedAdminMetricsRoute
   '/_authenticated/admin/settings': typeof AuthenticatedAdminSettingsRoute
@@ -289,9 +347,11 @@ export interface FileRoutesById {
   '/_authenticated/admin/suggestions': typeof AuthenticatedAdminSuggestionsRoute
   '/_authenticated/admin/tokens': typeof AuthenticatedAdminTokensRoute
   '/_authenticated/admin/users': typeof AuthenticatedAdminUsersRoute
+  '/_authenticated/admin/webhooks': typeof AuthenticatedAdminWebhooksRoute
   '/_authenticated/dev/errors': typeof AuthenticatedDevErrorsRoute
   '/_authenticated/people/$personId': typeof AuthenticatedPeoplePersonIdRoute
   '/_authenticated/people/new': typeof AuthenticatedPeopleNewRoute
+  '/_authenticated/settings/api-tokens': typeof AuthenticatedSettingsApiTokensRoute
   '/_authenticated/settings/calendar-tokens': typeof AuthenticatedSettingsCalendarTokensRoute
   '/_authenticated/settings/profile': typeof AuthenticatedSettingsProfileRoute
   '/_authenticated/maps/': typeof AuthenticatedMapsIndexRoute
@@ -311,10 +371,14 @@ export interface FileRouteTypes {
     | '/admin'
     | '/change-password'
     | '/dashboard'
+    | '/notifications'
     | '/subscribe'
     | '/visualize'
     | '/invite/$token'
     | '/admin/backup'
+    | '/admin/data-quality'
+    | '/admin/duplicates'
+    | '/admin/extractions/$sourceId'
     | '/admin/invites'
     | '/admin/metrics'
     | '/admin/settings'
@@ -322,9 +386,11 @@ export interface FileRouteTypes {
     | '/admin/suggestions'
     | '/admin/tokens'
     | '/admin/users'
+    | '/admin/webhooks'
     | '/dev/errors'
     | '/people/$personId'
     | '/people/new'
+    | '/settings/api-tokens'
     | '/settings/calendar-tokens'
     | '/settings/profile'
     | '/maps/'
@@ -342,10 +408,14 @@ export interface FileRouteTypes {
     | '/admin'
     | '/change-password'
     | '/dashboard'
+    | '/notifications'
     | '/subscribe'
     | '/visualize'
     | '/invite/$token'
     | '/admin/backup'
+    | '/admin/data-quality'
+    | '/admin/duplicates'
+    | '/admin/extractions/$sourceId'
     | '/admin/invites'
     | '/admin/metrics'
     | '/admin/settings'
@@ -353,9 +423,11 @@ export interface FileRouteTypes {
     | '/admin/suggestions'
     | '/admin/tokens'
     | '/admin/users'
+    | '/admin/webhooks'
     | '/dev/errors'
     | '/people/$personId'
     | '/people/new'
+    | '/settings/api-tokens'
     | '/settings/calendar-tokens'
     | '/settings/profile'
     | '/maps'
@@ -374,10 +446,14 @@ export interface FileRouteTypes {
     | '/_authenticated/admin'
     | '/_authenticated/change-password'
     | '/_authenticated/dashboard'
+    | '/_authenticated/notifications'
     | '/_authenticated/subscribe'
     | '/_authenticated/visualize'
     | '/invite/$token'
     | '/_authenticated/admin/backup'
+    | '/_authenticated/admin/data-quality'
+    | '/_authenticated/admin/duplicates'
+    | '/_authenticated/admin/extractions/$sourceId'
     | '/_authenticated/admin/invites'
     | '/_authenticated/admin/metrics'
     | '/_authenticated/admin/settings'
@@ -385,9 +461,11 @@ export interface FileRouteTypes {
     | '/_authenticated/admin/suggestions'
     | '/_authenticated/admin/tokens'
     | '/_authenticated/admin/users'
+    | '/_authenticated/admin/webhooks'
     | '/_authenticated/dev/errors'
     | '/_authenticated/people/$personId'
     | '/_authenticated/people/new'
+    | '/_authenticated/settings/api-tokens'
     | '/_authenticated/settings/calendar-tokens'
     | '/_authenticated/settings/profile'
     | '/_authenticated/maps/'
@@ -478,6 +556,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthenticatedSubscribeRouteImport
       parentRoute: typeof AuthenticatedRoute
     }
+    '/_authenticated/notifications': {
+      id: '/_authenticated/notifications'
+      path: '/notifications'
+      fullPath: '/notifications'
+      preLoaderRoute: typeof AuthenticatedNotificationsRouteImport
+      parentRoute: typeof AuthenticatedRoute
+    }
     '/_authenticated/dashboard': {
       id: '/_authenticated/dashboard'
       path: '/dashboard'
@@ -534,6 +619,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthenticatedSettingsCalendarTokensRouteImport
       parentRoute: typeof AuthenticatedRoute
     }
+    '/_authenticated/settings/api-tokens': {
+      id: '/_authenticated/settings/api-tokens'
+      path: '/settings/api-tokens'
+      fullPath: '/settings/api-tokens'
+      preLoaderRoute: typeof AuthenticatedSettingsApiTokensRouteImport
+      parentRoute: typeof AuthenticatedRoute
+    }
     '/_authenticated/people/new': {
       id: '/_authenticated/people/new'
       path: '/people/new'
@@ -555,6 +647,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthenticatedDevErrorsRouteImport
       parentRoute: typeof AuthenticatedRoute
     }
+    '/_authenticated/admin/webhooks': {
+      id: '/_authenticated/admin/webhooks'
+      path: '/webhooks'
+      fullPath: '/admin/webhooks'
+      preLoaderRoute: typeof AuthenticatedAdminWebhooksRouteImport
+      parentRoute: typeof AuthenticatedAdminRoute
+    }
     '/_authenticated/admin/users': {
       id: '/_authenticated/admin/users'
       path: '/users'
@@ -604,6 +703,27 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthenticatedAdminInvitesRouteImport
       parentRoute: typeof AuthenticatedAdminRoute
     }
+    '/_authenticated/admin/extractions/$sourceId': {
+      id: '/_authenticated/admin/extractions/$sourceId'
+      path: '/extractions/$sourceId'
+      fullPath: '/admin/extractions/$sourceId'
+      preLoaderRoute: typeof AuthenticatedAdminExtractionsSourceIdRouteImport
+      parentRoute: typeof AuthenticatedAdminRoute
+    }
+    '/_authenticated/admin/duplicates': {
+      id: '/_authenticated/admin/duplicates'
+      path: '/duplicates'
+      fullPath: '/admin/duplicates'
+      preLoaderRoute: typeof AuthenticatedAdminDuplicatesRouteImport
+      parentRoute: typeof AuthenticatedAdminRoute
+    }
+    '/_authenticated/admin/data-quality': {
+      id: '/_authenticated/admin/data-quality'
+      path: '/data-quality'
+      fullPath: '/admin/data-quality'
+      preLoaderRoute: typeof AuthenticatedAdminDataQualityRouteImport
+      parentRoute: typeof AuthenticatedAdminRoute
+    }
     '/_authenticated/admin/backup': {
       id: '/_authenticated/admin/backup'
       path: '/backup'
@@ -623,6 +743,9 @@ declare module '@tanstack/react-router' {
 
 interface AuthenticatedAdminRouteChildren {
   AuthenticatedAdminBackupRoute: typeof AuthenticatedAdminBackupRoute
+  AuthenticatedAdminDataQualityRoute: typeof AuthenticatedAdminDataQualityRoute
+  AuthenticatedAdminDuplicatesRoute: typeof AuthenticatedAdminDuplicatesRoute
+  AuthenticatedAdminExtractionsSourceIdRoute: typeof AuthenticatedAdminExtractionsSourceIdRoute
   AuthenticatedAdminInvitesRoute: typeof AuthenticatedAdminInvitesRoute
   AuthenticatedAdminMetricsRoute: typeof AuthenticatedAdminMetricsRoute
   AuthenticatedAdminSettingsRoute: typeof AuthenticatedAdminSettingsRoute
@@ -630,10 +753,14 @@ interface AuthenticatedAdminRouteChildren {
   AuthenticatedAdminSuggestionsRoute: typeof AuthenticatedAdminSuggestionsRoute
   AuthenticatedAdminTokensRoute: typeof AuthenticatedAdminTokensRoute
   AuthenticatedAdminUsersRoute: typeof AuthenticatedAdminUsersRoute
+  AuthenticatedAdminWebhooksRoute: typeof AuthenticatedAdminWebhooksRoute
 }
 
 const AuthenticatedAdminRouteChildren: AuthenticatedAdminRouteChildren = {
   AuthenticatedAdminBackupRoute: AuthenticatedAdminBackupRoute,
+  AuthenticatedAdminDataQualityRoute: AuthenticatedAdminDataQualityRoute,
+  AuthenticatedAdminDuplicatesRoute: AuthenticatedAdminDuplicatesRoute,
+  AuthenticatedAdminExtractionsSourceIdRoute: AuthenticatedAdminExtractionsSourceIdRoute,
   AuthenticatedAdminInvitesRoute: AuthenticatedAdminInvitesRoute,
   AuthenticatedAdminMetricsRoute: AuthenticatedAdminMetricsRoute,
   AuthenticatedAdminSettingsRoute: AuthenticatedAdminSettingsRoute,
@@ -641,6 +768,7 @@ const AuthenticatedAdminRouteChildren: AuthenticatedAdminRouteChildren = {
   AuthenticatedAdminSuggestionsRoute: AuthenticatedAdminSuggestionsRoute,
   AuthenticatedAdminTokensRoute: AuthenticatedAdminTokensRoute,
   AuthenticatedAdminUsersRoute: AuthenticatedAdminUsersRoute,
+  AuthenticatedAdminWebhooksRoute: AuthenticatedAdminWebhooksRoute,
 }
 
 const AuthenticatedAdminRouteWithChildren =
@@ -651,11 +779,13 @@ interface AuthenticatedRouteChildren {
   AuthenticatedAdminRoute: typeof AuthenticatedAdminRouteWithChildren
   AuthenticatedChangePasswordRoute: typeof AuthenticatedChangePasswordRoute
   AuthenticatedDashboardRoute: typeof AuthenticatedDashboardRoute
+  AuthenticatedNotificationsRoute: typeof AuthenticatedNotificationsRoute
   AuthenticatedSubscribeRoute: typeof AuthenticatedSubscribeRoute
   AuthenticatedVisualizeRoute: typeof AuthenticatedVisualizeRoute
   AuthenticatedDevErrorsRoute: typeof AuthenticatedDevErrorsRoute
   AuthenticatedPeoplePersonIdRoute: typeof AuthenticatedPeoplePersonIdRoute
   AuthenticatedPeopleNewRoute: typeof AuthenticatedPeopleNewRoute
+  AuthenticatedSettingsApiTokensRoute: typeof AuthenticatedSettingsApiTokensRoute
   AuthenticatedSettingsCalendarTokensRoute: typeof AuthenticatedSettingsCalendarTokensRoute
   AuthenticatedSettingsProfileRoute: typeof AuthenticatedSettingsProfileRoute
   AuthenticatedMapsIndexRoute: typeof AuthenticatedMapsIndexRoute
@@ -668,11 +798,13 @@ const AuthenticatedRouteChildren: AuthenticatedRouteChildren = {
   AuthenticatedAdminRoute: AuthenticatedAdminRouteWithChildren,
   AuthenticatedChangePasswordRoute: AuthenticatedChangePasswordRoute,
   AuthenticatedDashboardRoute: AuthenticatedDashboardRoute,
+  AuthenticatedNotificationsRoute: AuthenticatedNotificationsRoute,
   AuthenticatedSubscribeRoute: AuthenticatedSubscribeRoute,
   AuthenticatedVisualizeRoute: AuthenticatedVisualizeRoute,
   AuthenticatedDevErrorsRoute: AuthenticatedDevErrorsRoute,
   AuthenticatedPeoplePersonIdRoute: AuthenticatedPeoplePersonIdRoute,
   AuthenticatedPeopleNewRoute: AuthenticatedPeopleNewRoute,
+  AuthenticatedSettingsApiTokensRoute: AuthenticatedSettingsApiTokensRoute,
   AuthenticatedSettingsCalendarTokensRoute:
     AuthenticatedSettingsCalendarTokensRoute,
   AuthenticatedSettingsProfileRoute: AuthenticatedSettingsProfileRoute,
@@ -698,12 +830,3 @@ const rootRouteChildren: RootRouteChildren = {
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
   ._addFileTypes<FileRouteTypes>()
-
-import type { getRouter } from './router.tsx'
-import type { createStart } from '@tanstack/react-start'
-declare module '@tanstack/react-start' {
-  interface Register {
-    ssr: true
-    router: Awaited<ReturnType<typeof getRouter>>
-  }
-}
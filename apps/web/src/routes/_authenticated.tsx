@@ -17,6 +17,7 @@ import { OIDCProfileClaimModal } from "~/components/auth/oidc-profile-claim-moda
 import { RouteError } from "~/components/error";
 import { CommandPalette } from "~/components/search/command-palette";
 import { CommandPaletteTrigger } from "~/components/search/command-palette-trigger";
+import { InboxDropdown } from "~/components/notifications/inbox-dropdown";
 import { AIProvider } from "~/contexts/ai-context";
 import { AIChatPanel } from "~/components/ai/chat-panel";
 
@@ -239,6 +240,7 @@ function AuthenticatedLayout() {
           actions={
             <div className="flex items-center gap-3">
               <CommandPaletteTrigger />
+              <InboxDropdown />
               <LanguageSwitcher />
               <Button
                 variant="ghost"
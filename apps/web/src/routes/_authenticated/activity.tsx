@@ -5,6 +5,7 @@ import { useTranslation } from "react-i18next";
 import {
   Avatar,
   Badge,
+  Button,
   Card,
   CardContent,
   Container,
@@ -16,6 +17,7 @@ import {
   getRecentActivity,
 } from "~/server/dashboard";
 import { ActivityFilterPanel } from "~/components/activity/ActivityFilterPanel";
+import { RevertDialog } from "~/components/activity/RevertDialog";
 import { CompactRouteError } from "~/components/error";
 
 export const Route = createFileRoute("/_authenticated/activity")({
@@ -35,7 +37,10 @@ const defaultFilters: ActivityFilters = {
 
 function ActivityComponent() {
   const { t } = useTranslation(["common"]);
+  const { user } = Route.useRouteContext();
+  const isAdmin = user?.role === "ADMIN";
   const [filters, setFilters] = useState<ActivityFilters>(defaultFilters);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
 
   // Fetch filter options
   const { data: filterOptions, isLoading: isLoadingOptions } = useQuery({
@@ -152,6 +157,11 @@ function ActivityComponent() {
                     key={item.id}
                     item={item}
                     isFirst={index === 0}
+                    onRevert={
+                      isAdmin && item.revertable
+                        ? () => setRevertingId(item.id)
+                        : undefined
+                    }
                   />
                 ))}
               </div>
@@ -159,6 +169,11 @@ function ActivityComponent() {
           )}
         </CardContent>
       </Card>
+
+      <RevertDialog
+        auditLogId={revertingId}
+        onClose={() => setRevertingId(null)}
+      />
     </Container>
   );
 }
@@ -174,9 +189,11 @@ interface ActivityItemProps {
     user: { id: string; name: string } | null;
   };
   isFirst: boolean;
+  /** Opens the revert dialog; omitted when the change cannot be reverted */
+  onRevert?: () => void;
 }
 
-function ActivityItem({ item, isFirst }: ActivityItemProps) {
+function ActivityItem({ item, isFirst, onRevert }: ActivityItemProps) {
   const { t } = useTranslation(["common"]);
   const actionColors = {
     CREATE: "bg-primary/10 text-primary",
@@ -280,19 +297,34 @@ function ActivityItem({ item, isFirst }: ActivityItemProps) {
     </div>
   );
 
-  if (isPersonActivity) {
-    return (
-      <Link
-        to="/people/$personId"
-        params={{ personId: item.entityId! }}
-        className="hover:bg-accent -mx-2 block rounded-lg p-2 transition-colors"
-      >
-        {content}
-      </Link>
-    );
-  }
+  const body = isPersonActivity ? (
+    <Link
+      to="/people/$personId"
+      params={{ personId: item.entityId! }}
+      className="hover:bg-accent -mx-2 block flex-1 rounded-lg p-2 transition-colors"
+    >
+      {content}
+    </Link>
+  ) : (
+    <div className="-mx-2 flex-1 p-2">{content}</div>
+  );
+
+  if (!onRevert) return body;
 
-  return <div className="-mx-2 p-2">{content}</div>;
+  return (
+    <div className="flex items-start gap-2">
+      {body}
+      <Button
+        variant="outline"
+        size="sm"
+        className="mt-2 shrink-0"
+        onClick={onRevert}
+        data-testid={`revert-${item.id}`}
+      >
+        {item.actionType === "DELETE" ? t("restore") : t("revert")}
+      </Button>
+    </div>
+  );
 }
 
 function formatRelativeTime(
@@ -40,8 +40,11 @@ function AdminLayout() {
     { href: "/admin/users", labelKey: "users" },
     { href: "/admin/invites", labelKey: "invites" },
     { href: "/admin/suggestions", labelKey: "suggestions" },
+    { href: "/admin/duplicates", labelKey: "duplicates" },
+    { href: "/admin/data-quality", labelKey: "dataQuality" },
     { href: "/admin/settings", labelKey: "settings" },
     { href: "/admin/backup", labelKey: "backup" },
+    { href: "/admin/webhooks", labelKey: "webhooks" },
     { href: "/admin/metrics", labelKey: "metrics", badge: "BETA" },
   ];
 
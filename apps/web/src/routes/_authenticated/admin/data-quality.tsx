@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { createFileRoute } from "@tanstack/react-router";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Button,
+  Card,
+  CardContent,
+  Container,
+  PageHeader,
+  Tabs,
+  TabsList,
+  TabsTrigger,
+} from "@vamsa/ui";
+import { useTranslation } from "react-i18next";
+import {
+  getConsistencyReport,
+  getConsistencyThresholds,
+} from "~/server/consistency";
+import { ConsistencyIssues } from "~/components/admin/consistency-issues";
+import { ConsistencyThresholdsForm } from "~/components/admin/consistency-thresholds-form";
+import { AdminRouteError } from "~/components/admin/route-error";
+
+export const Route = createFileRoute("/_authenticated/admin/data-quality")({
+  component: DataQualityPage,
+  errorComponent: AdminRouteError,
+});
+
+type SeverityFilter = "ALL" | "ERROR" | "WARNING";
+
+function DataQualityPage() {
+  const { t } = useTranslation(["admin", "common"]);
+  const [filter, setFilter] = useState<SeverityFilter>("ALL");
+
+  const {
+    data: report,
+    isLoading,
+    isFetching,
+    refetch,
+  } = useQuery({
+    queryKey: ["consistency", "report"],
+    queryFn: () => getConsistencyReport(),
+  });
+
+  const { data: thresholds } = useQuery({
+    queryKey: ["consistency", "thresholds"],
+    queryFn: () => getConsistencyThresholds(),
+  });
+
+  const issues = (report?.issues ?? []).filter(
+    (issue) => filter === "ALL" || issue.severity === filter
+  );
+
+  return (
+    <Container>
+      <PageHeader
+        title={t("admin:dataQualityTitle")}
+        description={t("admin:dataQualityDescription")}
+        actions={
+          <Button onClick={() => refetch()} disabled={isFetching}>
+            {isFetching
+              ? t("admin:dataQualityChecking")
+              : t("admin:dataQualityCheck")}
+          </Button>
+        }
+      />
+
+      {report && (
+        <p className="text-muted-foreground mb-4 text-sm">
+          {t("admin:dataQualitySummary", {
+            errors: report.errorCount,
+            warnings: report.warningCount,
+            people: report.personCount,
+          })}
+        </p>
+      )}
+
+      <Tabs
+        value={filter}
+        onValueChange={(value) => setFilter(value as SeverityFilter)}
+        className="mb-4 w-full"
+      >
+        <TabsList>
+          <TabsTrigger value="ALL">{t("admin:dataQualityAll")}</TabsTrigger>
+          <TabsTrigger value="ERROR">
+            {t("admin:dataQualityErrors")}
+          </TabsTrigger>
+          <TabsTrigger value="WARNING">
+            {t("admin:dataQualityWarnings")}
+          </TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <div className="mb-8">
+        {isLoading ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <p className="text-muted-foreground">{t("common:loading")}</p>
+            </CardContent>
+          </Card>
+        ) : issues.length > 0 ? (
+          <ConsistencyIssues issues={issues} />
+        ) : (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <p className="text-muted-foreground">
+                {t("admin:dataQualityNoIssues")}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {thresholds && <ConsistencyThresholdsForm thresholds={thresholds} />}
+    </Container>
+  );
+}
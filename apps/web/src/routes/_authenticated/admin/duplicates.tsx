@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { createFileRoute } from "@tanstack/react-router";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Button,
+  Card,
+  CardContent,
+  Container,
+  PageHeader,
+  Tabs,
+  TabsList,
+  TabsTrigger,
+} from "@vamsa/ui";
+import { useTranslation } from "react-i18next";
+import type { DuplicateStatus } from "@vamsa/schemas";
+import { getDuplicateCandidates, scanForDuplicates } from "~/server/duplicates";
+import { DuplicatesList } from "~/components/admin/duplicates-list";
+import { AdminRouteError } from "~/components/admin/route-error";
+
+export const Route = createFileRoute("/_authenticated/admin/duplicates")({
+  component: DuplicatesPage,
+  errorComponent: AdminRouteError,
+});
+
+const EMPTY_MESSAGE_KEYS: Record<DuplicateStatus, string> = {
+  PENDING: "admin:duplicatesNoPending",
+  DISMISSED: "admin:duplicatesNoDismissed",
+  MERGED: "admin:duplicatesNoMerged",
+};
+
+function DuplicatesPage() {
+  const { t } = useTranslation(["admin", "common"]);
+  const [status, setStatus] = useState<DuplicateStatus>("PENDING");
+
+  const {
+    data: candidates = [],
+    isLoading,
+    refetch,
+  } = useQuery({
+    queryKey: ["duplicates", status],
+    queryFn: () => getDuplicateCandidates({ data: { status } }),
+  });
+
+  const scanMutation = useMutation({
+    mutationFn: () => scanForDuplicates(),
+    onSuccess: () => refetch(),
+  });
+
+  return (
+    <Container>
+      <PageHeader
+        title={t("admin:duplicatesTitle")}
+        description={t("admin:duplicatesDescription")}
+        actions={
+          <Button
+            onClick={() => scanMutation.mutate()}
+            disabled={scanMutation.isPending}
+          >
+            {scanMutation.isPending
+              ? t("admin:duplicatesScanning")
+              : t("admin:duplicatesScan")}
+          </Button>
+        }
+      />
+
+      {scanMutation.data && (
+        <p className="text-muted-foreground mb-4 text-sm">
+          {t("admin:duplicatesScanResult", {
+            found: scanMutation.data.found,
+            created: scanMutation.data.created,
+          })}
+        </p>
+      )}
+
+      <Tabs
+        value={status}
+        onValueChange={(value) => setStatus(value as DuplicateStatus)}
+        className="mb-4 w-full"
+      >
+        <TabsList>
+          <TabsTrigger value="PENDING">
+            {t("admin:duplicatesPending")}
+          </TabsTrigger>
+          <TabsTrigger value="DISMISSED">
+            {t("admin:duplicatesDismissed")}
+          </TabsTrigger>
+          <TabsTrigger value="MERGED">
+            {t("admin:duplicatesMerged")}
+          </TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {isLoading ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground">{t("common:loading")}</p>
+          </CardContent>
+        </Card>
+      ) : candidates.length > 0 ? (
+        <DuplicatesList candidates={candidates} onRefresh={refetch} />
+      ) : (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground">
+              {t(EMPTY_MESSAGE_KEYS[status])}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </Container>
+  );
+}
@@ -0,0 +1,42 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, Container, PageHeader } from "@vamsa/ui";
+import { useTranslation } from "react-i18next";
+import { getDocumentExtractionFn } from "~/server/ai";
+import { DocumentExtractionReview } from "~/components/admin/document-extraction-review";
+import { AdminRouteError } from "~/components/admin/route-error";
+
+export const Route = createFileRoute(
+  "/_authenticated/admin/extractions/$sourceId"
+)({
+  component: DocumentExtractionPage,
+  errorComponent: AdminRouteError,
+});
+
+function DocumentExtractionPage() {
+  const { t } = useTranslation(["admin", "common"]);
+  const { sourceId } = Route.useParams();
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: ["documentExtraction", sourceId],
+    queryFn: () => getDocumentExtractionFn({ data: { sourceId } }),
+  });
+
+  return (
+    <Container>
+      <PageHeader
+        title={data?.source.title ?? t("admin:extractionTitle")}
+        description={t("admin:extractionDescription")}
+      />
+
+      {isLoading || !data ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground">{t("common:loading")}</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <DocumentExtractionReview extraction={data} onRefresh={refetch} />
+      )}
+    </Container>
+  );
+}
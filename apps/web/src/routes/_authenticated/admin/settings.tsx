@@ -2,23 +2,27 @@ import { createFileRoute } from "@tanstack/react-router";
 import { Card, CardContent, Container, PageHeader } from "@vamsa/ui";
 import { useTranslation } from "react-i18next";
 import { getFamilySettings } from "~/server/settings";
+import { getMediaSizeLimits } from "~/server/media";
 import { getCurrentUser } from "~/server/auth.functions";
 import { SettingsForm } from "~/components/admin/settings-form";
+import { MediaSizeLimitsForm } from "~/components/admin/media-size-limits-form";
+import { AIHistoryCard } from "~/components/admin/ai-history-card";
 
 export const Route = createFileRoute("/_authenticated/admin/settings")({
   loader: async () => {
-    const [settings, currentUser] = await Promise.all([
+    const [settings, mediaSizeLimits, currentUser] = await Promise.all([
       getFamilySettings(),
+      getMediaSizeLimits(),
       getCurrentUser(),
     ]);
-    return { settings, currentUser };
+    return { settings, mediaSizeLimits, currentUser };
   },
   component: SettingsPage,
 });
 
 function SettingsPage() {
   const { t } = useTranslation(["admin", "common"]);
-  const { settings, currentUser } = Route.useLoaderData();
+  const { settings, mediaSizeLimits, currentUser } = Route.useLoaderData();
 
   // If not admin, show access denied
   if (!currentUser || currentUser.role !== "ADMIN") {
@@ -42,7 +46,11 @@ function SettingsPage() {
         title={t("admin:settings")}
         description={t("admin:settingsTitle")}
       />
-      <SettingsForm settings={settings} />
+      <div className="space-y-6">
+        <SettingsForm settings={settings} />
+        <MediaSizeLimitsForm limits={mediaSizeLimits} />
+        <AIHistoryCard />
+      </div>
     </Container>
   );
 }
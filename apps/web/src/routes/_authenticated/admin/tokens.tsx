@@ -34,6 +34,7 @@ import {
 } from "~/server/calendar-tokens";
 import { formatDateShort, formatRelativeTime } from "~/lib/format";
 import { AdminRouteError } from "~/components/admin/route-error";
+import { ApiTokensTable } from "~/components/admin/api-tokens-table";
 
 export const Route = createFileRoute("/_authenticated/admin/tokens")({
   loader: async () => {
@@ -172,15 +173,15 @@ function AdminTokensPage() {
   return (
     <Container>
       <PageHeader
-        title="Calendar Token Management"
-        description="View and manage calendar tokens across all users"
+        title="Token Management"
+        description="View and manage calendar and API tokens across all users"
       />
 
       <Card>
         <CardHeader>
           <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
             <div>
-              <CardTitle>All Tokens</CardTitle>
+              <CardTitle>Calendar Tokens</CardTitle>
               <CardDescription>
                 {filteredTokens.length} of {tokens?.length || 0} tokens
               </CardDescription>
@@ -392,6 +393,10 @@ function AdminTokensPage() {
         </CardContent>
       </Card>
 
+      <div className="mt-6">
+        <ApiTokensTable />
+      </div>
+
       {/* Revoke Confirmation Dialog */}
       <AlertDialog
         open={!!revokeDialogToken}
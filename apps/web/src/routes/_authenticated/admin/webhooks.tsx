@@ -0,0 +1,631 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Checkbox,
+  Container,
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  Input,
+  Label,
+  PageHeader,
+} from "@vamsa/ui";
+import { webhookEventEnum } from "@vamsa/schemas";
+import type { WebhookEvent } from "@vamsa/schemas";
+import {
+  createWebhook,
+  deleteWebhook,
+  getWebhookDeliveries,
+  getWebhooks,
+  rotateWebhookSecret,
+  sendTestWebhook,
+  updateWebhook,
+} from "~/server/webhooks";
+import { formatDateShort, formatRelativeTime } from "~/lib/format";
+import { AdminRouteError } from "~/components/admin/route-error";
+
+export const Route = createFileRoute("/_authenticated/admin/webhooks")({
+  component: AdminWebhooksPage,
+  errorComponent: AdminRouteError,
+});
+
+type Webhook = {
+  id: string;
+  url: string;
+  description: string | null;
+  events: Array<string>;
+  isActive: boolean;
+  createdAt: Date;
+};
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  "person.created": "A person is added",
+  "person.updated": "A person is edited",
+  "person.deleted": "A person is deleted",
+  "relationship.created": "A relationship is added",
+  "relationship.updated": "A relationship is edited",
+  "relationship.deleted": "A relationship is deleted",
+  "media.uploaded": "A photo or document is uploaded",
+  "suggestion.reviewed": "A suggestion is approved or rejected",
+  "backup.completed": "A backup finishes",
+};
+
+function AdminWebhooksPage() {
+  const queryClient = useQueryClient();
+
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [events, setEvents] = useState<Array<WebhookEvent>>([]);
+  const [createError, setCreateError] = useState<string | null>(null);
+
+  const [issuedSecret, setIssuedSecret] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [deliveriesWebhook, setDeliveriesWebhook] = useState<Webhook | null>(
+    null
+  );
+  const [deleteDialogWebhook, setDeleteDialogWebhook] =
+    useState<Webhook | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const { data: webhooks, isLoading } = useQuery({
+    queryKey: ["admin-webhooks"],
+    queryFn: () => getWebhooks(),
+  });
+
+  const { data: deliveries, isLoading: deliveriesLoading } = useQuery({
+    queryKey: ["admin-webhook-deliveries", deliveriesWebhook?.id],
+    queryFn: () =>
+      getWebhookDeliveries({ data: { webhookId: deliveriesWebhook!.id } }),
+    enabled: !!deliveriesWebhook,
+  });
+
+  const resetCreateForm = () => {
+    setUrl("");
+    setDescription("");
+    setEvents([]);
+    setCreateError(null);
+  };
+
+  const onMutationError = (fallback: string) => (err: unknown) => {
+    setNotice(null);
+    setError(err instanceof Error ? err.message : fallback);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      createWebhook({
+        data: { url, description: description || undefined, events },
+      }),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["admin-webhooks"] });
+      setShowCreateDialog(false);
+      resetCreateForm();
+      setIssuedSecret(result.secret);
+    },
+    onError: (err) => {
+      setCreateError(
+        err instanceof Error ? err.message : "Failed to create webhook"
+      );
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (webhook: Webhook) =>
+      updateWebhook({
+        data: { id: webhook.id, isActive: !webhook.isActive },
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-webhooks"] });
+      setError(null);
+    },
+    onError: onMutationError("Failed to update webhook"),
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: (webhookId: string) =>
+      rotateWebhookSecret({ data: { webhookId } }),
+    onSuccess: (result) => {
+      setError(null);
+      setIssuedSecret(result.secret);
+    },
+    onError: onMutationError("Failed to rotate secret"),
+  });
+
+  const testMutation = useMutation({
+    mutationFn: (webhookId: string) => sendTestWebhook({ data: { webhookId } }),
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({
+        queryKey: ["admin-webhook-deliveries", delivery.webhookId],
+      });
+      if (delivery.status === "SUCCEEDED") {
+        setError(null);
+        setNotice(
+          `Test delivered (HTTP ${delivery.responseStatus ?? "unknown"})`
+        );
+      } else {
+        setNotice(null);
+        setError(`Test delivery failed: ${delivery.error ?? "unknown error"}`);
+      }
+    },
+    onError: onMutationError("Failed to send test"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (webhookId: string) => deleteWebhook({ data: { webhookId } }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-webhooks"] });
+      setDeleteDialogWebhook(null);
+      setError(null);
+    },
+    onError: onMutationError("Failed to delete webhook"),
+  });
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setEvents((current) =>
+      checked ? [...current, event] : current.filter((e) => e !== event)
+    );
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (events.length === 0) {
+      setCreateError("Select at least one event");
+      return;
+    }
+    createMutation.mutate();
+  };
+
+  const copySecret = async () => {
+    if (!issuedSecret) return;
+    await navigator.clipboard.writeText(issuedSecret);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Container>
+      <PageHeader
+        title="Webhooks"
+        description="Notify other systems when the family tree changes"
+        actions={
+          <Button
+            onClick={() => setShowCreateDialog(true)}
+            data-testid="create-webhook"
+          >
+            Add Webhook
+          </Button>
+        }
+      />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Endpoints</CardTitle>
+          <CardDescription>
+            Each event is sent as a signed JSON POST request. Failed deliveries
+            are retried for about 15 hours.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error && (
+            <div
+              className="bg-destructive/10 text-destructive mb-4 rounded-md p-3 text-sm"
+              data-testid="webhooks-error"
+            >
+              {error}
+            </div>
+          )}
+          {notice && (
+            <div
+              className="mb-4 rounded-md bg-green-100 p-3 text-sm text-green-700 dark:bg-green-900/30 dark:text-green-400"
+              data-testid="webhooks-notice"
+            >
+              {notice}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="text-muted-foreground py-12 text-center">
+              Loading...
+            </div>
+          ) : !webhooks || webhooks.length === 0 ? (
+            <div className="text-muted-foreground py-12 text-center">
+              No webhooks yet
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-border border-b text-left">
+                    <th className="text-muted-foreground pr-4 pb-3 text-sm font-medium">
+                      Endpoint
+                    </th>
+                    <th className="text-muted-foreground pr-4 pb-3 text-sm font-medium">
+                      Events
+                    </th>
+                    <th className="text-muted-foreground pr-4 pb-3 text-sm font-medium">
+                      Created
+                    </th>
+                    <th className="text-muted-foreground pr-4 pb-3 text-sm font-medium">
+                      Status
+                    </th>
+                    <th className="text-muted-foreground pb-3 text-sm font-medium">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {webhooks.map((webhook) => (
+                    <tr
+                      key={webhook.id}
+                      className="border-border border-b last:border-0"
+                      data-testid={`webhook-row-${webhook.id}`}
+                    >
+                      <td className="py-3 pr-4">
+                        <code className="text-sm break-all">{webhook.url}</code>
+                        {webhook.description && (
+                          <div className="text-muted-foreground text-xs">
+                            {webhook.description}
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-3 pr-4">
+                        <div className="flex flex-wrap gap-1">
+                          {webhook.events.map((event) => (
+                            <Badge
+                              key={event}
+                              variant="outline"
+                              className="font-mono text-xs"
+                            >
+                              {event}
+                            </Badge>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="text-muted-foreground py-3 pr-4 text-sm">
+                        {formatDateShort(webhook.createdAt)}
+                      </td>
+                      <td className="py-3 pr-4">
+                        {webhook.isActive ? (
+                          <Badge
+                            variant="secondary"
+                            className="bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400"
+                          >
+                            Active
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline">Disabled</Badge>
+                        )}
+                      </td>
+                      <td className="py-3">
+                        <div className="flex flex-wrap gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setDeliveriesWebhook(webhook)}
+                            data-testid={`webhook-deliveries-${webhook.id}`}
+                          >
+                            Deliveries
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => testMutation.mutate(webhook.id)}
+                            disabled={testMutation.isPending}
+                            data-testid={`test-webhook-${webhook.id}`}
+                          >
+                            Send Test
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => toggleMutation.mutate(webhook)}
+                            disabled={toggleMutation.isPending}
+                            data-testid={`toggle-webhook-${webhook.id}`}
+                          >
+                            {webhook.isActive ? "Disable" : "Enable"}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => rotateMutation.mutate(webhook.id)}
+                            disabled={rotateMutation.isPending}
+                            data-testid={`rotate-webhook-secret-${webhook.id}`}
+                          >
+                            Rotate Secret
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() => setDeleteDialogWebhook(webhook)}
+                            disabled={deleteMutation.isPending}
+                            data-testid={`delete-webhook-${webhook.id}`}
+                          >
+                            Delete
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create Dialog */}
+      <Dialog
+        open={showCreateDialog}
+        onOpenChange={(open) => {
+          setShowCreateDialog(open);
+          if (!open) resetCreateForm();
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Webhook</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="space-y-6">
+            {createError && (
+              <div
+                className="bg-destructive/10 text-destructive rounded-md p-3 text-sm"
+                data-testid="create-webhook-error"
+              >
+                {createError}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="webhook-url">Payload URL</Label>
+              <Input
+                id="webhook-url"
+                type="url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://example.com/vamsa-webhook"
+                maxLength={2048}
+                required
+                disabled={createMutation.isPending}
+                data-testid="webhook-url-input"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="webhook-description">Description</Label>
+              <Input
+                id="webhook-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="e.g., Family wiki sync"
+                maxLength={255}
+                disabled={createMutation.isPending}
+                data-testid="webhook-description-input"
+              />
+            </div>
+
+            <div className="space-y-3">
+              <div className="text-sm font-medium">Events</div>
+              {webhookEventEnum.options.map((event) => (
+                <div key={event} className="flex items-start gap-3">
+                  <Checkbox
+                    id={`event-${event}`}
+                    checked={events.includes(event)}
+                    onCheckedChange={(checked) =>
+                      toggleEvent(event, checked === true)
+                    }
+                    disabled={createMutation.isPending}
+                    data-testid={`webhook-event-${event}`}
+                  />
+                  <Label htmlFor={`event-${event}`} className="font-normal">
+                    <code className="text-xs">{event}</code>
+                    <span className="text-muted-foreground block text-xs">
+                      {EVENT_LABELS[event]}
+                    </span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setShowCreateDialog(false)}
+                disabled={createMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={createMutation.isPending}
+                data-testid="create-webhook-submit"
+              >
+                {createMutation.isPending ? "Creating..." : "Add Webhook"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Signing Secret Dialog */}
+      <Dialog
+        open={!!issuedSecret}
+        onOpenChange={(open) => {
+          if (!open) {
+            setIssuedSecret(null);
+            setCopied(false);
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Signing Secret</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-muted-foreground text-sm">
+              Copy this secret now. It will not be shown again. Use it to verify
+              the X-Vamsa-Signature header of each delivery.
+            </p>
+            <div className="bg-muted rounded-md p-3">
+              <code
+                className="text-sm break-all"
+                data-testid="webhook-secret-value"
+              >
+                {issuedSecret}
+              </code>
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={copySecret} data-testid="copy-webhook-secret">
+                {copied ? "Copied!" : "Copy Secret"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delivery Log Dialog */}
+      <Dialog
+        open={!!deliveriesWebhook}
+        onOpenChange={(open) => {
+          if (!open) setDeliveriesWebhook(null);
+        }}
+      >
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Recent Deliveries</DialogTitle>
+          </DialogHeader>
+          {deliveriesLoading ? (
+            <div className="text-muted-foreground py-8 text-center">
+              Loading...
+            </div>
+          ) : !deliveries || deliveries.length === 0 ? (
+            <div className="text-muted-foreground py-8 text-center">
+              No deliveries yet
+            </div>
+          ) : (
+            <div className="max-h-[60vh] overflow-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-border border-b text-left">
+                    <th className="text-muted-foreground pr-4 pb-3 text-sm font-medium">
+                      Event
+                    </th>
+                    <th className="text-muted-foreground pr-4 pb-3 text-sm font-medium">
+                      Status
+                    </th>
+                    <th className="text-muted-foreground pr-4 pb-3 text-sm font-medium">
+                      Attempts
+                    </th>
+                    <th className="text-muted-foreground pb-3 text-sm font-medium">
+                      Last Attempt
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {deliveries.map((delivery) => (
+                    <tr
+                      key={delivery.id}
+                      className="border-border border-b last:border-0"
+                      data-testid={`webhook-delivery-${delivery.id}`}
+                    >
+                      <td className="py-2 pr-4">
+                        <code className="text-xs">{delivery.event}</code>
+                      </td>
+                      <td className="py-2 pr-4">
+                        {delivery.status === "SUCCEEDED" ? (
+                          <Badge
+                            variant="secondary"
+                            className="bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400"
+                          >
+                            {delivery.responseStatus ?? "Delivered"}
+                          </Badge>
+                        ) : delivery.status === "FAILED" ? (
+                          <Badge variant="destructive">Failed</Badge>
+                        ) : (
+                          <Badge variant="outline">Pending</Badge>
+                        )}
+                        {delivery.error && delivery.status !== "SUCCEEDED" && (
+                          <div className="text-muted-foreground mt-1 text-xs">
+                            {delivery.error}
+                          </div>
+                        )}
+                      </td>
+                      <td className="text-muted-foreground py-2 pr-4 text-sm">
+                        {delivery.attempts}
+                      </td>
+                      <td className="text-muted-foreground py-2 text-sm">
+                        {delivery.lastAttemptAt ? (
+                          formatRelativeTime(
+                            new Date(delivery.lastAttemptAt).getTime()
+                          )
+                        ) : (
+                          <span className="text-muted-foreground/60">
+                            Never
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog
+        open={!!deleteDialogWebhook}
+        onOpenChange={(open) => {
+          if (!open) setDeleteDialogWebhook(null);
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Webhook</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete the webhook for{" "}
+              <strong>{deleteDialogWebhook?.url}</strong>? Queued deliveries and
+              the delivery log will be removed. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteMutation.isPending}>
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => {
+                if (deleteDialogWebhook) {
+                  deleteMutation.mutate(deleteDialogWebhook.id);
+                }
+              }}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete Webhook"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Container>
+  );
+}
@@ -0,0 +1,187 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import {
+  Button,
+  Card,
+  CardContent,
+  Checkbox,
+  Container,
+  Label,
+  PageHeader,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@vamsa/ui";
+import { getInboxNotifications } from "~/server/notifications";
+import { NotificationItem } from "~/components/notifications/notification-item";
+import {
+  inboxQueryKey,
+  useInboxActions,
+} from "~/components/notifications/use-inbox-actions";
+import { CompactRouteError } from "~/components/error";
+
+export const Route = createFileRoute("/_authenticated/notifications")({
+  component: NotificationsComponent,
+  errorComponent: CompactRouteError,
+});
+
+const PAGE_SIZE = 20;
+
+// Notification types that can be filtered on, in display order
+const NOTIFICATION_TYPES = [
+  "suggestion_created",
+  "suggestion_reviewed",
+  "new_member",
+  "birthday_reminder",
+  "anniversary_reminder",
+] as const;
+
+type NotificationTypeFilter = (typeof NOTIFICATION_TYPES)[number] | "all";
+
+function NotificationsComponent() {
+  const { t } = useTranslation(["common"]);
+  const [type, setType] = useState<NotificationTypeFilter>("all");
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [page, setPage] = useState(1);
+  const { select, markRead, markAllRead, isMarkingAllRead } = useInboxActions();
+
+  const typeFilter = type === "all" ? undefined : type;
+
+  const { data: inbox, isLoading } = useQuery({
+    queryKey: [...inboxQueryKey, "inbox", { type, unreadOnly, page }],
+    queryFn: () =>
+      getInboxNotifications({
+        data: { page, limit: PAGE_SIZE, type: typeFilter, unreadOnly },
+      }),
+  });
+
+  const unreadCount = inbox?.unreadCount ?? 0;
+
+  return (
+    <Container className="space-y-6">
+      <PageHeader
+        title={t("notifications")}
+        description={t("notificationsDescription")}
+        actions={
+          <Button
+            variant="outline"
+            onClick={() => markAllRead(typeFilter)}
+            disabled={unreadCount === 0 || isMarkingAllRead}
+            data-testid="notifications-mark-all-read"
+          >
+            {t("markAllRead")}
+          </Button>
+        }
+      />
+
+      <div className="flex flex-wrap items-center gap-4">
+        <Select
+          value={type}
+          onValueChange={(value) => {
+            setType(value as NotificationTypeFilter);
+            setPage(1);
+          }}
+        >
+          <SelectTrigger
+            className="w-56"
+            data-testid="notifications-type-filter"
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">{t("allNotifications")}</SelectItem>
+            {NOTIFICATION_TYPES.map((value) => (
+              <SelectItem key={value} value={value}>
+                {t(`notificationTypes.${value}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="notifications-unread-only"
+            checked={unreadOnly}
+            onCheckedChange={(checked) => {
+              setUnreadOnly(checked === true);
+              setPage(1);
+            }}
+            data-testid="notifications-unread-only"
+          />
+          <Label htmlFor="notifications-unread-only" className="text-sm">
+            {t("unreadOnly")}
+          </Label>
+        </div>
+
+        {unreadCount > 0 && (
+          <span className="text-muted-foreground text-sm">
+            {t("unreadNotifications", { count: unreadCount })}
+          </span>
+        )}
+      </div>
+
+      <Card>
+        <CardContent className="py-4">
+          {isLoading ? (
+            <div className="space-y-4 p-3">
+              {[1, 2, 3, 4, 5].map((i) => (
+                <div key={i} className="animate-pulse space-y-2">
+                  <div className="bg-muted h-4 w-3/4 rounded" />
+                  <div className="bg-muted h-3 w-1/2 rounded" />
+                </div>
+              ))}
+            </div>
+          ) : !inbox?.items.length ? (
+            <div className="py-12 text-center">
+              <h3 className="font-display text-foreground mb-2 text-lg">
+                {t("noNotifications")}
+              </h3>
+              <p className="text-muted-foreground mx-auto max-w-sm">
+                {t("noNotificationsMessage")}
+              </p>
+            </div>
+          ) : (
+            <div className="divide-border divide-y">
+              {inbox.items.map((notification) => (
+                <NotificationItem
+                  key={notification.id}
+                  notification={notification}
+                  onSelect={select}
+                  onMarkRead={markRead}
+                />
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {inbox && inbox.pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(page - 1)}
+            disabled={!inbox.pagination.hasPrev}
+          >
+            {t("previous")}
+          </Button>
+          <span className="text-muted-foreground text-sm">
+            {t("page")} {inbox.pagination.page} / {inbox.pagination.totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(page + 1)}
+            disabled={!inbox.pagination.hasNext}
+          >
+            {t("next")}
+          </Button>
+        </div>
+      )}
+    </Container>
+  );
+}
@@ -1,6 +1,12 @@
 import { Link, createFileRoute } from "@tanstack/react-router";
 import { useQuery } from "@tanstack/react-query";
-import { calculateAge, formatDate } from "@vamsa/lib";
+import {
+  calculateAge,
+  formatDate,
+  formatGenealogicalDate,
+  isApproximateDate,
+  toGenealogicalDate,
+} from "@vamsa/lib";
 import { Container, buttonVariants } from "@vamsa/ui";
 import {
   Avatar,
@@ -17,11 +23,13 @@ import { getPerson } from "~/server/persons.functions";
 import { getPersonEvents } from "~/server/events";
 import { getPersonPlaces } from "~/server/places";
 import { getPersonMedia } from "~/server/media";
+import { getFamilySettings } from "~/server/settings";
 import { OverviewTab } from "~/components/person/overview-tab";
 import { RelationshipsTab } from "~/components/person/relationships-tab";
 import { EventsTab } from "~/components/person/events-tab";
 import { PlacesTab } from "~/components/person/places-tab";
 import { SourcesManagementTab } from "~/components/person/sources-management-tab";
+import { HistoryTab } from "~/components/person/history-tab";
 import { MediaTab } from "~/components/media/media-tab";
 import { StoryGenerator } from "~/components/ai/story-generator";
 import { CompactRouteError } from "~/components/error";
@@ -51,6 +59,7 @@ export const Route = createFileRoute("/_authenticated/people/$personId")({
 
 function PersonDetailComponent() {
   const { personId } = Route.useParams();
+  const { user } = Route.useRouteContext();
 
   const { data: person, isLoading } = useQuery<PersonDetail>({
     queryKey: ["person", personId],
@@ -73,6 +82,15 @@ function PersonDetailComponent() {
     queryFn: () => getPersonMedia({ data: { personId } }),
   });
 
+  const { data: familySettings } = useQuery({
+    queryKey: ["familySettings"],
+    queryFn: () => getFamilySettings(),
+  });
+
+  // Non-admin edits become suggestions while approval is required
+  const editsNeedReview =
+    user?.role !== "ADMIN" && !!familySettings?.requireApprovalForEdits;
+
   if (isLoading) {
     return (
       <Container>
@@ -126,7 +144,21 @@ function PersonDetailComponent() {
   const deathDate = person.dateOfPassing
     ? new Date(person.dateOfPassing)
     : null;
-  const age = calculateAge(birthDate, deathDate);
+  // Approximate or partial dates are shown as entered ("about 1850")
+  const birthDetail = toGenealogicalDate(person.dateOfBirthDetail);
+  const deathDetail = toGenealogicalDate(person.dateOfPassingDetail);
+  const birthText = birthDetail
+    ? formatGenealogicalDate(birthDetail)
+    : formatDate(birthDate);
+  const deathText = deathDetail
+    ? formatGenealogicalDate(deathDetail)
+    : formatDate(deathDate);
+  const age = calculateAge(birthDetail ?? birthDate, deathDetail ?? deathDate);
+  const ageText =
+    (birthDetail && isApproximateDate(birthDetail)) ||
+    (deathDetail && isApproximateDate(deathDetail))
+      ? `about ${age}`
+      : `${age}`;
   const initials =
     `${person.firstName?.[0] || ""}${person.lastName?.[0] || ""}`.toUpperCase();
 
@@ -179,12 +211,14 @@ function PersonDetailComponent() {
                 <p className="text-muted-foreground">
                   {birthDate && (
                     <span className="font-mono text-sm">
-                      {formatDate(birthDate)}
-                      {person.isLiving && age !== null && ` · ${age} years old`}
+                      {birthText}
+                      {person.isLiving &&
+                        age !== null &&
+                        ` · ${ageText} years old`}
                       {!person.isLiving &&
                         age !== null &&
                         deathDate &&
-                        ` — ${formatDate(deathDate)} · lived ${age} years`}
+                        ` — ${deathText} · lived ${ageText} years`}
                     </span>
                   )}
                   {birthDate && person.birthPlace && " · "}
@@ -212,6 +246,16 @@ function PersonDetailComponent() {
         personName={`${person.firstName} ${person.lastName}`}
       />
 
+      {editsNeedReview && (
+        <div
+          className="bg-muted text-muted-foreground mb-6 rounded-md p-3 text-sm"
+          data-testid="edits-need-review"
+        >
+          Changes you make here are sent to an administrator for review and
+          appear once approved.
+        </div>
+      )}
+
       {/* Tabbed content */}
       <Tabs defaultValue="overview" className="w-full">
         <TabsList>
@@ -249,6 +293,7 @@ function PersonDetailComponent() {
               </Badge>
             )}
           </TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview">
@@ -300,6 +345,10 @@ function PersonDetailComponent() {
         <TabsContent value="media">
           <MediaTab />
         </TabsContent>
+
+        <TabsContent value="history">
+          <HistoryTab personId={personId} />
+        </TabsContent>
       </Tabs>
     </Container>
   );
@@ -0,0 +1,672 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Checkbox,
+  Container,
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  Input,
+  Label,
+  PageHeader,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@vamsa/ui";
+import { API_TOKEN_EXPIRY_DAYS, apiTokenScopeEnum } from "@vamsa/schemas";
+import type { ApiTokenScope } from "@vamsa/schemas";
+import { validateSession } from "~/server/auth.functions";
+import {
+  createApiToken,
+  deleteApiToken,
+  getApiTokens,
+  revokeApiToken,
+  rotateApiToken,
+} from "~/server/api-tokens";
+import { formatDateShort, formatRelativeTime } from "~/lib/format";
+
+export const Route = createFileRoute("/_authenticated/settings/api-tokens")({
+  beforeLoad: async () => {
+    const result = await validateSession();
+    if (!result.valid) {
+      throw new Error("Not authenticated");
+    }
+    return { user: result.user };
+  },
+  component: ApiTokensPage,
+});
+
+type ApiToken = {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: Array<string>;
+  isActive: boolean;
+  createdAt: Date;
+  expiresAt: Date;
+  lastUsedAt: Date | null;
+};
+
+type IssuedToken = {
+  kind: "created" | "rotated";
+  name: string;
+  token: string;
+};
+
+// Scope keys contain ":", which i18next treats as a namespace separator
+const scopeLabelKeys: Record<ApiTokenScope, string> = {
+  "persons:read": "apiTokenScopes.personsRead",
+  "persons:write": "apiTokenScopes.personsWrite",
+  "media:read": "apiTokenScopes.mediaRead",
+  "media:write": "apiTokenScopes.mediaWrite",
+  "gedcom:export": "apiTokenScopes.gedcomExport",
+};
+
+const DEFAULT_EXPIRY_DAYS = 90;
+
+function ApiTokensPage() {
+  const { t } = useTranslation(["common"]);
+  const queryClient = useQueryClient();
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<Array<ApiTokenScope>>(["persons:read"]);
+  const [expiresInDays, setExpiresInDays] = useState(DEFAULT_EXPIRY_DAYS);
+  const [createError, setCreateError] = useState<string | null>(null);
+  const [revokeDialogToken, setRevokeDialogToken] = useState<ApiToken | null>(
+    null
+  );
+  const [deleteDialogToken, setDeleteDialogToken] = useState<ApiToken | null>(
+    null
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [issuedToken, setIssuedToken] = useState<IssuedToken | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const { data: tokens, isLoading } = useQuery({
+    queryKey: ["api-tokens"],
+    queryFn: () => getApiTokens(),
+  });
+
+  const resetCreateForm = () => {
+    setName("");
+    setScopes(["persons:read"]);
+    setExpiresInDays(DEFAULT_EXPIRY_DAYS);
+    setCreateError(null);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      createApiToken({ data: { name: name.trim(), scopes, expiresInDays } }),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["api-tokens"] });
+      setShowCreateDialog(false);
+      resetCreateForm();
+      setIssuedToken({
+        kind: "created",
+        name: result.apiToken.name,
+        token: result.token,
+      });
+    },
+    onError: (err) => {
+      setCreateError(
+        err instanceof Error ? err.message : "Failed to create token"
+      );
+    },
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: (tokenId: string) => rotateApiToken({ data: { tokenId } }),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["api-tokens"] });
+      setError(null);
+      setIssuedToken({
+        kind: "rotated",
+        name: result.apiToken.name,
+        token: result.token,
+      });
+    },
+    onError: (err) => {
+      setError(err instanceof Error ? err.message : "Failed to rotate token");
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (tokenId: string) => revokeApiToken({ data: { tokenId } }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["api-tokens"] });
+      setRevokeDialogToken(null);
+      setError(null);
+    },
+    onError: (err) => {
+      setError(err instanceof Error ? err.message : "Failed to revoke token");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (tokenId: string) => deleteApiToken({ data: { tokenId } }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["api-tokens"] });
+      setDeleteDialogToken(null);
+      setError(null);
+    },
+    onError: (err) => {
+      setError(err instanceof Error ? err.message : "Failed to delete token");
+    },
+  });
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes((current) =>
+      checked ? [...current, scope] : current.filter((s) => s !== scope)
+    );
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (scopes.length === 0) {
+      setCreateError(t("selectAtLeastOneScope"));
+      return;
+    }
+    setCreateError(null);
+    createMutation.mutate();
+  };
+
+  const copyToClipboard = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(token);
+    } catch {
+      // Fallback for older browsers
+      const textArea = document.createElement("textarea");
+      textArea.value = token;
+      document.body.appendChild(textArea);
+      textArea.select();
+      document.execCommand("copy");
+      document.body.removeChild(textArea);
+    }
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const closeIssuedToken = () => {
+    setIssuedToken(null);
+    setCopied(false);
+  };
+
+  const confirmRevoke = () => {
+    if (revokeDialogToken) {
+      revokeMutation.mutate(revokeDialogToken.id);
+    }
+  };
+
+  const confirmDelete = () => {
+    if (deleteDialogToken) {
+      deleteMutation.mutate(deleteDialogToken.id);
+    }
+  };
+
+  const isTokenActive = (token: ApiToken): boolean => {
+    return token.isActive && new Date(token.expiresAt) > new Date();
+  };
+
+  return (
+    <Container>
+      <PageHeader
+        title={t("apiAccessTokens")}
+        description={t("manageApiTokens")}
+      />
+
+      <div className="max-w-4xl">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>{t("yourTokens")}</CardTitle>
+              </div>
+              <Dialog
+                open={showCreateDialog}
+                onOpenChange={(open) => {
+                  setShowCreateDialog(open);
+                  if (!open) resetCreateForm();
+                }}
+              >
+                <DialogTrigger asChild>
+                  <Button data-testid="create-api-token">
+                    {t("createNewToken")}
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>{t("createApiToken")}</DialogTitle>
+                  </DialogHeader>
+                  <form onSubmit={handleCreate} className="space-y-6">
+                    {createError && (
+                      <div
+                        className="bg-destructive/10 text-destructive rounded-md p-3 text-sm"
+                        data-testid="create-api-token-error"
+                      >
+                        {createError}
+                      </div>
+                    )}
+
+                    <div className="space-y-2">
+                      <Label htmlFor="api-token-name">{t("tokenName")}</Label>
+                      <Input
+                        id="api-token-name"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        placeholder={t("tokenNameInputPlaceholder")}
+                        maxLength={100}
+                        required
+                        disabled={createMutation.isPending}
+                        data-testid="api-token-name-input"
+                      />
+                    </div>
+
+                    <div className="space-y-3">
+                      <div className="text-sm font-medium">{t("scopes")}</div>
+                      {apiTokenScopeEnum.options.map((scope) => (
+                        <div key={scope} className="flex items-start gap-3">
+                          <Checkbox
+                            id={`scope-${scope}`}
+                            checked={scopes.includes(scope)}
+                            onCheckedChange={(checked) =>
+                              toggleScope(scope, checked === true)
+                            }
+                            disabled={createMutation.isPending}
+                            data-testid={`api-token-scope-${scope}`}
+                          />
+                          <Label
+                            htmlFor={`scope-${scope}`}
+                            className="font-normal"
+                          >
+                            <code className="text-xs">{scope}</code>
+                            <span className="text-muted-foreground block text-xs">
+                              {t(scopeLabelKeys[scope])}
+                            </span>
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="api-token-expiry">{t("expiresIn")}</Label>
+                      <Select
+                        value={String(expiresInDays)}
+                        onValueChange={(value) =>
+                          setExpiresInDays(Number(value))
+                        }
+                      >
+                        <SelectTrigger
+                          id="api-token-expiry"
+                          data-testid="api-token-expiry-select"
+                        >
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {API_TOKEN_EXPIRY_DAYS.map((days) => (
+                            <SelectItem key={days} value={String(days)}>
+                              {t("expiryDays", { count: days })}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="flex justify-end gap-3">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => setShowCreateDialog(false)}
+                        disabled={createMutation.isPending}
+                      >
+                        {t("cancel")}
+                      </Button>
+                      <Button
+                        type="submit"
+                        disabled={createMutation.isPending}
+                        data-testid="create-api-token-submit"
+                      >
+                        {createMutation.isPending
+                          ? t("creating")
+                          : t("createToken")}
+                      </Button>
+                    </div>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {error && (
+              <div
+                className="bg-destructive/10 text-destructive mb-4 rounded-md p-3 text-sm"
+                data-testid="api-tokens-error"
+              >
+                {error}
+              </div>
+            )}
+
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <svg
+                  className="text-primary h-8 w-8 animate-spin"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                >
+                  <circle
+                    className="opacity-25"
+                    cx="12"
+                    cy="12"
+                    r="10"
+                    stroke="currentColor"
+                    strokeWidth="4"
+                  />
+                  <path
+                    className="opacity-75"
+                    fill="currentColor"
+                    d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                  />
+                </svg>
+              </div>
+            ) : !tokens || tokens.length === 0 ? (
+              <div className="text-muted-foreground py-12 text-center">
+                <p className="mb-4">{t("noApiTokens")}</p>
+                <p className="text-sm">{t("createTokenToUseApi")}</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-border border-b text-left">
+                      <th className="text-muted-foreground pr-4 pb-3 text-sm font-medium">
+                        {t("name")}
+                      </th>
+                      <th className="text-muted-foreground pr-4 pb-3 text-sm font-medium">
+                        {t("scopes")}
+                      </th>
+                      <th className="text-muted-foreground pr-4 pb-3 text-sm font-medium">
+                        {t("lastUsed")}
+                      </th>
+                      <th className="text-muted-foreground pr-4 pb-3 text-sm font-medium">
+                        {t("expires")}
+                      </th>
+                      <th className="text-muted-foreground pr-4 pb-3 text-sm font-medium">
+                        {t("status")}
+                      </th>
+                      <th className="text-muted-foreground pb-3 text-sm font-medium">
+                        {t("actions")}
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {tokens.map((token) => (
+                      <tr
+                        key={token.id}
+                        className="border-border border-b last:border-0"
+                        data-testid={`api-token-row-${token.id}`}
+                      >
+                        <td className="py-3 pr-4">
+                          <div>{token.name}</div>
+                          <code className="text-muted-foreground text-xs">
+                            {token.tokenPrefix}…
+                          </code>
+                          <div className="text-muted-foreground text-xs">
+                            {t("created")} {formatDateShort(token.createdAt)}
+                          </div>
+                        </td>
+                        <td className="py-3 pr-4">
+                          <div className="flex flex-wrap gap-1">
+                            {token.scopes.map((scope) => (
+                              <Badge
+                                key={scope}
+                                variant="outline"
+                                className="font-mono text-xs"
+                              >
+                                {scope}
+                              </Badge>
+                            ))}
+                          </div>
+                        </td>
+                        <td className="text-muted-foreground py-3 pr-4 text-sm">
+                          {token.lastUsedAt ? (
+                            formatRelativeTime(
+                              new Date(token.lastUsedAt).getTime()
+                            )
+                          ) : (
+                            <span className="text-muted-foreground/60">
+                              {t("never")}
+                            </span>
+                          )}
+                        </td>
+                        <td className="text-muted-foreground py-3 pr-4 text-sm">
+                          {formatDateShort(token.expiresAt)}
+                        </td>
+                        <td className="py-3 pr-4">
+                          {isTokenActive(token) ? (
+                            <Badge
+                              variant="secondary"
+                              className="bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400"
+                            >
+                              {t("active")}
+                            </Badge>
+                          ) : !token.isActive ? (
+                            <Badge variant="destructive">{t("revoked")}</Badge>
+                          ) : (
+                            <Badge variant="outline">{t("expired")}</Badge>
+                          )}
+                        </td>
+                        <td className="py-3">
+                          <div className="flex gap-2">
+                            {isTokenActive(token) ? (
+                              <>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() =>
+                                    rotateMutation.mutate(token.id)
+                                  }
+                                  disabled={rotateMutation.isPending}
+                                  data-testid={`rotate-api-token-${token.id}`}
+                                >
+                                  {t("rotate")}
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="destructive"
+                                  onClick={() => setRevokeDialogToken(token)}
+                                  disabled={revokeMutation.isPending}
+                                  data-testid={`revoke-api-token-${token.id}`}
+                                >
+                                  {t("revoke")}
+                                </Button>
+                              </>
+                            ) : !token.isActive ? (
+                              <Button
+                                size="sm"
+                                variant="destructive"
+                                onClick={() => setDeleteDialogToken(token)}
+                                disabled={deleteMutation.isPending}
+                                data-testid={`delete-api-token-${token.id}`}
+                              >
+                                {t("delete")}
+                              </Button>
+                            ) : (
+                              <Button
+                                size="sm"
+                                variant="destructive"
+                                onClick={() => setRevokeDialogToken(token)}
+                                disabled={revokeMutation.isPending}
+                                data-testid={`revoke-api-token-${token.id}`}
+                              >
+                                {t("revoke")}
+                              </Button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Info Card */}
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle className="text-base">{t("aboutApiTokens")}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-muted-foreground space-y-2 text-sm">
+            <p>{t("apiTokensAllowAccess")}</p>
+            <code className="bg-muted block rounded-md p-2 text-xs">
+              Authorization: Bearer vamsa_pat_…
+            </code>
+            <ul className="ml-6 list-disc space-y-1">
+              <li>{t("apiTokenScopesHelp")}</li>
+              <li>{t("apiTokensRateLimited")}</li>
+              <li>{t("oldApiTokenValid30Days")}</li>
+            </ul>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Revoke Confirmation Dialog */}
+      <AlertDialog
+        open={!!revokeDialogToken}
+        onOpenChange={(open) => {
+          if (!open) setRevokeDialogToken(null);
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("revokeApiToken")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("confirmRevokeApiToken")}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={revokeMutation.isPending}>
+              {t("cancel")}
+            </AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={confirmRevoke}
+              disabled={revokeMutation.isPending}
+            >
+              {revokeMutation.isPending ? t("revoking") : t("revokeToken")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog
+        open={!!deleteDialogToken}
+        onOpenChange={(open) => {
+          if (!open) setDeleteDialogToken(null);
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("deleteApiToken")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("confirmDeleteToken")}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteMutation.isPending}>
+              {t("cancel")}
+            </AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={confirmDelete}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending
+                ? t("deleting")
+                : t("deletePermanently")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Created / Rotated Token Dialog - the token is only shown here */}
+      <Dialog
+        open={!!issuedToken}
+        onOpenChange={(open) => {
+          if (!open) closeIssuedToken();
+        }}
+      >
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>
+              {issuedToken?.kind === "rotated"
+                ? t("tokenRotatedSuccessfully")
+                : t("tokenCreatedSuccessfully")}
+            </DialogTitle>
+          </DialogHeader>
+
+          {issuedToken && (
+            <div className="space-y-4">
+              <div className="rounded-lg bg-amber-50 p-4 text-sm text-amber-900 dark:bg-amber-900/20 dark:text-amber-100">
+                <p className="font-medium">{issuedToken.name}</p>
+                <p className="mt-1">{t("copyApiTokenNow")}</p>
+                {issuedToken.kind === "rotated" && (
+                  <p className="mt-1">{t("oldApiTokenValid30Days")}</p>
+                )}
+              </div>
+
+              <div className="bg-muted/50 flex items-center gap-2 rounded-lg border p-3">
+                <code
+                  className="flex-1 overflow-x-auto text-xs break-all"
+                  data-testid="issued-api-token"
+                >
+                  {issuedToken.token}
+                </code>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={copied ? "default" : "outline"}
+                  onClick={() => copyToClipboard(issuedToken.token)}
+                  data-testid="copy-api-token"
+                >
+                  {copied ? t("copied") : t("copyToken")}
+                </Button>
+              </div>
+
+              <div className="flex justify-end pt-2">
+                <Button
+                  type="button"
+                  onClick={closeIssuedToken}
+                  data-testid="issued-api-token-done"
+                >
+                  {t("done")}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Container>
+  );
+}
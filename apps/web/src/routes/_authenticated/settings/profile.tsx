@@ -1,4 +1,4 @@
-import { createFileRoute } from "@tanstack/react-router";
+import { Link, createFileRoute } from "@tanstack/react-router";
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useTranslation } from "react-i18next";
@@ -15,6 +15,7 @@ import {
 import { validateSession } from "~/server/auth.functions";
 import { getOIDCClaimStatus } from "~/server/claim.functions";
 import { OIDCProfileClaimModal } from "~/components/auth/oidc-profile-claim-modal";
+import { NotificationPreferencesCard } from "~/components/notifications/notification-preferences-card";
 
 export const Route = createFileRoute("/_authenticated/settings/profile")({
   beforeLoad: async () => {
@@ -91,6 +92,24 @@ function ProfileSettingsPage() {
             </CardContent>
           </Card>
 
+          <NotificationPreferencesCard />
+
+          {/* Personal access tokens for the REST API */}
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("apiAccessTokens")}</CardTitle>
+              <CardDescription>{t("manageApiTokens")}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Link
+                to="/settings/api-tokens"
+                className="text-primary hover:text-primary/80 text-sm underline-offset-4 hover:underline"
+              >
+                {t("manageTokens")}
+              </Link>
+            </CardContent>
+          </Card>
+
           {/* Profile Link Section - Only for OIDC users */}
           {isOIDCUser && (
             <Card>
@@ -15,6 +15,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@vamsa/ui";
+import { exportableChartTypeEnum } from "@vamsa/schemas";
 import type { ChartType } from "~/components/charts/ChartControls";
 import type { BowtieNode } from "~/server/charts";
 import { getCurrentUser } from "~/server/auth.functions";
@@ -297,6 +298,25 @@ function VisualizeComponent() {
 
   const getChartTitle = () => chartTypeLabels[visualizationType];
 
+  // Server-rendered PDF for printing wall charts; only layouts the server can draw
+  const canExportWallChart =
+    exportableChartTypeEnum.safeParse(visualizationType).success &&
+    (visualizationType === "timeline" || !!selectedPersonId);
+
+  const getWallChartUrl = () => {
+    const params = new URLSearchParams({
+      chartType: visualizationType,
+      format: "pdf",
+      paperSize: "A1",
+      title: getChartTitle(),
+      generations: String(search.generations || 3),
+      ancestorGenerations: String(ancestorGenerations),
+      descendantGenerations: String(descendantGenerations),
+    });
+    if (selectedPersonId) params.set("personId", selectedPersonId);
+    return `/api/v1/charts/export?${params.toString()}`;
+  };
+
   const handleExportPDF = async () => {
     const svg = document.querySelector(".chart-container svg[data-chart-svg]");
     if (!svg) return;
@@ -518,7 +538,7 @@ function VisualizeComponent() {
             </Button>
 
             {isExportOpen && (
-              <div className="bg-popover border-border absolute top-full right-0 z-30 mt-1 w-36 rounded-md border shadow-lg">
+              <div className="bg-popover border-border absolute top-full right-0 z-30 mt-1 w-48 rounded-md border shadow-lg">
                 <div className="flex flex-col py-1 text-sm">
                   <button
                     className="hover:bg-muted px-3 py-2 text-left"
@@ -538,6 +558,16 @@ function VisualizeComponent() {
                   >
                     {t("charts:exportSvg")}
                   </button>
+                  {canExportWallChart && (
+                    <a
+                      className="hover:bg-muted border-border border-t px-3 py-2 text-left"
+                      href={getWallChartUrl()}
+                      download
+                      onClick={() => setIsExportOpen(false)}
+                    >
+                      {t("charts:exportWallChart")}
+                    </a>
+                  )}
                 </div>
               </div>
             )}
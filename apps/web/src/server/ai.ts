@@ -4,11 +4,51 @@
  * Server-side functions that check AI availability and proxy
  * requests to the AI sidecar service. These run on the server
  * and are called from React components via TanStack Start.
+ *
+ * Chat itself streams through POST /api/v1/ai/chat; the functions here
+ * manage the saved conversations, and read uploaded documents into
+ * suggestions for review.
  */
 
 import { createServerFn } from "@tanstack/react-start";
+import { z } from "zod";
 import { getAIClient, isAIEnabled } from "@vamsa/lib/ai";
+import {
+  deleteAIConversationData,
+  getAIConversationData,
+  isAIHistoryEnabled,
+  listAIConversationsData,
+  purgeAIHistoryData,
+} from "@vamsa/lib/server/business/ai-chat";
+import {
+  fileExtractedFactsData,
+  getDocumentExtractionData,
+  loadDocumentForExtractionData,
+} from "@vamsa/lib/server/business/document-extraction";
+import { getSessionToken, requireAuth } from "./middleware/require-auth";
 import type { AIAvailability, StoryResult, SuggestResult } from "@vamsa/lib/ai";
+import type {
+  AIConversationDetail,
+  AIConversationSummary,
+} from "@vamsa/lib/server/business/ai-chat";
+import type {
+  DocumentExtractionDetail,
+  DocumentExtractionFilingResult,
+} from "@vamsa/lib/server/business/document-extraction";
+
+const conversationIdSchema = z.object({ conversationId: z.string().min(1) });
+
+/**
+ * Session token the AI service looks records up with, so its answers only
+ * draw on what the signed-in user may see. Call after requireAuth.
+ */
+function getViewerToken(): string {
+  const token = getSessionToken();
+  if (!token) {
+    throw new Error("Authentication required");
+  }
+  return token;
+}
 
 /**
  * Check if the AI service is enabled and available
@@ -39,8 +79,10 @@ export const getAIAvailabilityFn = createServerFn({ method: "GET" }).handler(
 /**
  * Generate a biographical narrative for a person
  *
- * Proxies the request to the AI sidecar service.
+ * Proxies the request to the AI sidecar service, which looks records up
+ * as the signed-in user.
  * Requires AI to be enabled and the sidecar to be reachable.
+ * @requires VIEWER role
  */
 interface StoryInput {
   personId: string;
@@ -52,6 +94,8 @@ interface StoryInput {
 export const generateStoryFn = createServerFn({ method: "POST" })
   .inputValidator((data: StoryInput) => data)
   .handler(async ({ data }): Promise<StoryResult> => {
+    await requireAuth("VIEWER");
+
     if (!isAIEnabled()) {
       throw new Error("AI features are disabled");
     }
@@ -61,14 +105,16 @@ export const generateStoryFn = createServerFn({ method: "POST" })
       throw new Error("AI client not configured");
     }
 
-    return client.generateStory(data);
+    return client.generateStory(data, getViewerToken());
   });
 
 /**
  * Get AI-powered missing data suggestions for a person
  *
  * Analyzes the person's record and family context to suggest
- * likely values for missing fields.
+ * likely values for missing fields, as far as the signed-in user may see
+ * them.
+ * @requires VIEWER role
  */
 interface SuggestInput {
   personId: string;
@@ -78,6 +124,8 @@ interface SuggestInput {
 export const suggestFieldsFn = createServerFn({ method: "POST" })
   .inputValidator((data: SuggestInput) => data)
   .handler(async ({ data }): Promise<SuggestResult> => {
+    await requireAuth("VIEWER");
+
     if (!isAIEnabled()) {
       throw new Error("AI features are disabled");
     }
@@ -87,5 +135,103 @@ export const suggestFieldsFn = createServerFn({ method: "POST" })
       throw new Error("AI client not configured");
     }
 
-    return client.suggest(data);
+    return client.suggest(data, getViewerToken());
+  });
+
+/**
+ * List the signed-in user's saved AI conversations
+ *
+ * Returns no conversations while an administrator has turned saving off.
+ */
+export const listAIConversationsFn = createServerFn({ method: "GET" }).handler(
+  async (): Promise<{
+    historyEnabled: boolean;
+    conversations: Array<AIConversationSummary>;
+  }> => {
+    const user = await requireAuth("VIEWER");
+    const [historyEnabled, conversations] = await Promise.all([
+      isAIHistoryEnabled(),
+      listAIConversationsData(user.id),
+    ]);
+    return { historyEnabled, conversations };
+  }
+);
+
+/**
+ * Get one of the signed-in user's conversations with its messages
+ */
+export const getAIConversationFn = createServerFn({ method: "GET" })
+  .inputValidator((data: { conversationId: string }) =>
+    conversationIdSchema.parse(data)
+  )
+  .handler(async ({ data }): Promise<AIConversationDetail> => {
+    const user = await requireAuth("VIEWER");
+    return getAIConversationData(data.conversationId, user.id);
+  });
+
+/**
+ * Delete one of the signed-in user's conversations
+ */
+export const deleteAIConversationFn = createServerFn({ method: "POST" })
+  .inputValidator((data: { conversationId: string }) =>
+    conversationIdSchema.parse(data)
+  )
+  .handler(async ({ data }): Promise<{ success: true }> => {
+    const user = await requireAuth("VIEWER");
+    await deleteAIConversationData(data.conversationId, user.id);
+    return { success: true };
+  });
+
+/**
+ * Delete every saved AI conversation of every user
+ * @requires ADMIN role
+ */
+export const purgeAIHistoryFn = createServerFn({ method: "POST" }).handler(
+  async (): Promise<{ deleted: number }> => {
+    const admin = await requireAuth("ADMIN");
+    const deleted = await purgeAIHistoryData(admin.id);
+    return { deleted };
+  }
+);
+
+/**
+ * Read an uploaded certificate, census page or letter with the AI service
+ *
+ * The transcription is kept on a new Source, and each fact read from the
+ * document is filed as a pending suggestion linked to it.
+ * @requires MEMBER role
+ */
+export const extractDocumentFactsFn = createServerFn({ method: "POST" })
+  .inputValidator((data: { mediaId: string }) =>
+    z.object({ mediaId: z.string().min(1) }).parse(data)
+  )
+  .handler(async ({ data }): Promise<DocumentExtractionFilingResult> => {
+    const user = await requireAuth("MEMBER");
+
+    if (!isAIEnabled()) {
+      throw new Error("AI features are disabled");
+    }
+
+    const client = getAIClient();
+    if (!client) {
+      throw new Error("AI client not configured");
+    }
+
+    const document = await loadDocumentForExtractionData(data.mediaId);
+    const result = await client.extract(document.request, getViewerToken());
+    return fileExtractedFactsData(document.mediaId, result, user.id);
+  });
+
+/**
+ * Get a Source read from a document, with the suggestions filed from it,
+ * for reviewing them next to the document
+ * @requires ADMIN role
+ */
+export const getDocumentExtractionFn = createServerFn({ method: "GET" })
+  .inputValidator((data: { sourceId: string }) =>
+    z.object({ sourceId: z.string().min(1) }).parse(data)
+  )
+  .handler(async ({ data }): Promise<DocumentExtractionDetail> => {
+    await requireAuth("ADMIN");
+    return getDocumentExtractionData(data.sourceId);
   });
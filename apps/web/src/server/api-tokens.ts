@@ -0,0 +1,106 @@
+import { createServerFn } from "@tanstack/react-start";
+import { z } from "zod";
+import { apiTokenCreateSchema } from "@vamsa/schemas";
+import {
+  adminRevokeApiTokenData,
+  createApiTokenData,
+  deleteApiTokenData,
+  getAllApiTokensData,
+  getApiTokensData,
+  revokeApiTokenData,
+  rotateApiTokenData,
+} from "@vamsa/lib/server/business";
+import { requireAuth } from "./middleware/require-auth";
+import type { ApiTokenCreateInput } from "@vamsa/schemas";
+import type {
+  ApiTokenSummary,
+  IssuedApiToken,
+} from "@vamsa/lib/server/business";
+
+const tokenIdSchema = z.object({ tokenId: z.string().min(1) });
+
+/**
+ * Server function: Get current user's personal access tokens
+ * @returns List of tokens for the authenticated user
+ * @requires MEMBER role or higher
+ */
+export const getApiTokens = createServerFn({ method: "GET" }).handler(
+  async (): Promise<Array<ApiTokenSummary>> => {
+    const user = await requireAuth("MEMBER");
+    return getApiTokensData(user.id);
+  }
+);
+
+/**
+ * Server function: Create a personal access token
+ * @returns The created token and its plain-text token, shown once
+ * @requires MEMBER role or higher
+ */
+export const createApiToken = createServerFn({ method: "POST" })
+  .inputValidator((data: ApiTokenCreateInput) =>
+    apiTokenCreateSchema.parse(data)
+  )
+  .handler(async ({ data }): Promise<IssuedApiToken> => {
+    const user = await requireAuth("MEMBER");
+    return createApiTokenData(user.id, data);
+  });
+
+/**
+ * Server function: Rotate a personal access token
+ * @returns The replacement token and its plain-text token, shown once
+ * @requires MEMBER role or higher
+ */
+export const rotateApiToken = createServerFn({ method: "POST" })
+  .inputValidator((data: { tokenId: string }) => tokenIdSchema.parse(data))
+  .handler(async ({ data }): Promise<IssuedApiToken> => {
+    const user = await requireAuth("MEMBER");
+    return rotateApiTokenData(data.tokenId, user.id);
+  });
+
+/**
+ * Server function: Revoke a personal access token
+ * @returns The revoked token
+ * @requires MEMBER role or higher
+ */
+export const revokeApiToken = createServerFn({ method: "POST" })
+  .inputValidator((data: { tokenId: string }) => tokenIdSchema.parse(data))
+  .handler(async ({ data }): Promise<ApiTokenSummary> => {
+    const user = await requireAuth("MEMBER");
+    return revokeApiTokenData(data.tokenId, user.id);
+  });
+
+/**
+ * Server function: Delete a revoked personal access token
+ * @returns Success status with deleted token ID
+ * @requires MEMBER role or higher
+ */
+export const deleteApiToken = createServerFn({ method: "POST" })
+  .inputValidator((data: { tokenId: string }) => tokenIdSchema.parse(data))
+  .handler(async ({ data }) => {
+    const user = await requireAuth("MEMBER");
+    return deleteApiTokenData(data.tokenId, user.id);
+  });
+
+/**
+ * Server function: Get all personal access tokens across all users (Admin only)
+ * @returns List of all tokens with user information
+ * @requires ADMIN role
+ */
+export const getAllApiTokens = createServerFn({ method: "GET" }).handler(
+  async () => {
+    await requireAuth("ADMIN");
+    return getAllApiTokensData();
+  }
+);
+
+/**
+ * Server function: Revoke any user's personal access token (Admin only)
+ * @returns The revoked token
+ * @requires ADMIN role
+ */
+export const adminRevokeApiToken = createServerFn({ method: "POST" })
+  .inputValidator((data: { tokenId: string }) => tokenIdSchema.parse(data))
+  .handler(async ({ data }): Promise<ApiTokenSummary> => {
+    const admin = await requireAuth("ADMIN");
+    return adminRevokeApiTokenData(data.tokenId, admin.id);
+  });
@@ -0,0 +1,82 @@
+import { createServerFn } from "@tanstack/react-start";
+import { z } from "zod";
+import {
+  getPersonHistoryData,
+  previewRevertData,
+  restoreDeletedPersonData,
+  revertAuditEntryData,
+} from "@vamsa/lib/server/business";
+import { requireAuth } from "./middleware/require-auth";
+import type {
+  PersonHistoryEntry,
+  RevertPreview,
+  RevertResult,
+} from "@vamsa/lib/server/business";
+
+const auditLogIdSchema = z.object({ auditLogId: z.string().min(1) });
+
+/**
+ * Server function: Preview reverting an audit entry
+ * @returns Field changes, conflicts with later changes, or why it is blocked
+ * @requires ADMIN role
+ * @throws Error if the entry does not exist
+ */
+export const getRevertPreview = createServerFn({ method: "GET" })
+  .inputValidator((data: { auditLogId: string }) =>
+    auditLogIdSchema.parse(data)
+  )
+  .handler(async ({ data }): Promise<RevertPreview> => {
+    await requireAuth("ADMIN");
+    return previewRevertData(data.auditLogId);
+  });
+
+/**
+ * Server function: Revert an audit entry
+ * @returns The reverted person
+ * @requires ADMIN role
+ * @throws Error if the entry cannot be reverted, or conflicts without force
+ */
+export const revertAuditEntry = createServerFn({ method: "POST" })
+  .inputValidator((data: { auditLogId: string; force?: boolean }) =>
+    auditLogIdSchema.extend({ force: z.boolean().optional() }).parse(data)
+  )
+  .handler(async ({ data }): Promise<RevertResult> => {
+    const user = await requireAuth("ADMIN");
+    return revertAuditEntryData(data.auditLogId, user.id, {
+      force: data.force,
+    });
+  });
+
+/**
+ * Server function: Restore a soft-deleted person
+ * @returns The restored person
+ * @requires ADMIN role
+ * @throws Error if the person does not exist or is not deleted
+ */
+export const restoreDeletedPerson = createServerFn({ method: "POST" })
+  .inputValidator((data: { personId: string }) =>
+    z.object({ personId: z.string().min(1) }).parse(data)
+  )
+  .handler(async ({ data }): Promise<RevertResult> => {
+    const user = await requireAuth("ADMIN");
+    return restoreDeletedPersonData(data.personId, user.id);
+  });
+
+/**
+ * Server function: Get the change history of a person
+ * Covers the person and their events, relationships, places and media.
+ * @returns History entries with field-level diffs, newest first
+ * @requires VIEWER role
+ * @throws Error if the person does not exist
+ */
+export const getPersonHistory = createServerFn({ method: "GET" })
+  .inputValidator((data: { personId: string }) =>
+    z.object({ personId: z.string().min(1) }).parse(data)
+  )
+  .handler(async ({ data }): Promise<Array<PersonHistoryEntry>> => {
+    const user = await requireAuth("VIEWER");
+    return getPersonHistoryData(data.personId, undefined, {
+      role: user.role,
+      personId: user.personId,
+    });
+  });
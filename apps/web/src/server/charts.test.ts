@@ -75,6 +75,13 @@ describe("Chart Server Business Logic", () => {
       expect(typeof module.exportChartAsSVG).toBe("function");
     });
 
+    it("should have PNG export function defined", async () => {
+      const module = await import("@vamsa/lib/server/business");
+
+      expect(module.exportChartAsPNG).toBeDefined();
+      expect(typeof module.exportChartAsPNG).toBe("function");
+    });
+
     it("should export chart data type definitions", async () => {
       const module = await import("@vamsa/lib/server/business");
 
@@ -118,11 +125,10 @@ describe("Chart Server Business Logic", () => {
     });
   });
 
-  describe("export placeholders", () => {
+  describe("export functions", () => {
     it("should have PDF export function defined", async () => {
       const module = await import("@vamsa/lib/server/business");
 
-      // PDF export is not yet implemented
       expect(module.exportChartAsPDF).toBeDefined();
       expect(typeof module.exportChartAsPDF).toBe("function");
     });
@@ -130,10 +136,16 @@ describe("Chart Server Business Logic", () => {
     it("should have SVG export function defined", async () => {
       const module = await import("@vamsa/lib/server/business");
 
-      // SVG export is not yet implemented
       expect(module.exportChartAsSVG).toBeDefined();
       expect(typeof module.exportChartAsSVG).toBe("function");
     });
+
+    it("should have PNG export function defined", async () => {
+      const module = await import("@vamsa/lib/server/business");
+
+      expect(module.exportChartAsPNG).toBeDefined();
+      expect(typeof module.exportChartAsPNG).toBe("function");
+    });
   });
 });
 
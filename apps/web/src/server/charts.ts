@@ -13,8 +13,10 @@
 
 import { createServerFn } from "@tanstack/react-start";
 import { z } from "zod";
+import { chartExportOptionsSchema } from "@vamsa/schemas";
 import {
   exportChartAsPDF,
+  exportChartAsPNG,
   exportChartAsSVG,
   getAncestorChartData,
   getBowtieChartData,
@@ -115,6 +117,7 @@ const treeChartSchema = z.object({
 const exportChartSchema = z.object({
   chartType: z.string(),
   chartData: z.unknown(),
+  options: chartExportOptionsSchema.optional(),
 });
 
 /**
@@ -125,10 +128,13 @@ export const getAncestorChart = createServerFn({ method: "POST" })
     return ancestorChartSchema.parse(data);
   })
   .handler(async ({ data }): Promise<ChartLayoutResult> => {
-    await requireAuth("VIEWER");
+    const user = await requireAuth("VIEWER");
 
     const { personId, generations } = data;
-    return getAncestorChartData(personId, generations);
+    return getAncestorChartData(personId, generations, undefined, {
+      role: user.role,
+      personId: user.personId,
+    });
   });
 
 /**
@@ -139,10 +145,13 @@ export const getDescendantChart = createServerFn({ method: "POST" })
     return descendantChartSchema.parse(data);
   })
   .handler(async ({ data }): Promise<ChartLayoutResult> => {
-    await requireAuth("VIEWER");
+    const user = await requireAuth("VIEWER");
 
     const { personId, generations } = data;
-    return getDescendantChartData(personId, generations);
+    return getDescendantChartData(personId, generations, undefined, {
+      role: user.role,
+      personId: user.personId,
+    });
   });
 
 /**
@@ -153,13 +162,18 @@ export const getHourglassChart = createServerFn({ method: "POST" })
     return hourglassChartSchema.parse(data);
   })
   .handler(async ({ data }): Promise<ChartLayoutResult> => {
-    await requireAuth("VIEWER");
+    const user = await requireAuth("VIEWER");
 
     const { personId, ancestorGenerations, descendantGenerations } = data;
     return getHourglassChartData(
       personId,
       ancestorGenerations,
-      descendantGenerations
+      descendantGenerations,
+      undefined,
+      {
+        role: user.role,
+        personId: user.personId,
+      }
     );
   });
 
@@ -171,10 +185,13 @@ export const getFanChart = createServerFn({ method: "POST" })
     return fanChartSchema.parse(data);
   })
   .handler(async ({ data }): Promise<ChartLayoutResult> => {
-    await requireAuth("VIEWER");
+    const user = await requireAuth("VIEWER");
 
     const { personId, generations } = data;
-    return getFanChartData(personId, generations);
+    return getFanChartData(personId, generations, undefined, {
+      role: user.role,
+      personId: user.personId,
+    });
   });
 
 /**
@@ -185,10 +202,13 @@ export const getTimelineChart = createServerFn({ method: "POST" })
     return timelineChartSchema.parse(data);
   })
   .handler(async ({ data }): Promise<TimelineChartResult> => {
-    await requireAuth("VIEWER");
+    const user = await requireAuth("VIEWER");
 
     const { startYear, endYear, sortBy } = data;
-    return getTimelineChartData(startYear, endYear, sortBy);
+    return getTimelineChartData(startYear, endYear, sortBy, undefined, {
+      role: user.role,
+      personId: user.personId,
+    });
   });
 
 /**
@@ -199,10 +219,13 @@ export const getRelationshipMatrix = createServerFn({ method: "POST" })
     return relationshipMatrixSchema.parse(data);
   })
   .handler(async ({ data }): Promise<RelationshipMatrixResult> => {
-    await requireAuth("VIEWER");
+    const user = await requireAuth("VIEWER");
 
     const { personIds, maxPeople } = data;
-    return getRelationshipMatrixData(personIds, maxPeople);
+    return getRelationshipMatrixData(personIds, maxPeople, undefined, {
+      role: user.role,
+      personId: user.personId,
+    });
   });
 
 /**
@@ -213,10 +236,13 @@ export const getBowtieChart = createServerFn({ method: "POST" })
     return bowtieChartSchema.parse(data);
   })
   .handler(async ({ data }): Promise<BowtieChartResult> => {
-    await requireAuth("VIEWER");
+    const user = await requireAuth("VIEWER");
 
     const { personId, generations } = data;
-    return getBowtieChartData(personId, generations);
+    return getBowtieChartData(personId, generations, undefined, {
+      role: user.role,
+      personId: user.personId,
+    });
   });
 
 /**
@@ -227,10 +253,13 @@ export const getCompactTree = createServerFn({ method: "POST" })
     return compactTreeSchema.parse(data);
   })
   .handler(async ({ data }): Promise<CompactTreeResult> => {
-    await requireAuth("VIEWER");
+    const user = await requireAuth("VIEWER");
 
     const { personId, generations } = data;
-    return getCompactTreeData(personId, generations);
+    return getCompactTreeData(personId, generations, undefined, {
+      role: user.role,
+      personId: user.personId,
+    });
   });
 
 /**
@@ -241,10 +270,13 @@ export const getStatistics = createServerFn({ method: "POST" })
     return statisticsSchema.parse(data);
   })
   .handler(async ({ data }): Promise<StatisticsResult> => {
-    await requireAuth("VIEWER");
+    const user = await requireAuth("VIEWER");
 
     const { includeDeceased } = data;
-    return getStatisticsData(includeDeceased);
+    return getStatisticsData(includeDeceased, undefined, {
+      role: user.role,
+      personId: user.personId,
+    });
   });
 
 /**
@@ -255,13 +287,18 @@ export const getTreeChart = createServerFn({ method: "POST" })
     return treeChartSchema.parse(data);
   })
   .handler(async ({ data }): Promise<ChartLayoutResult> => {
-    await requireAuth("VIEWER");
+    const user = await requireAuth("VIEWER");
 
     const { personId, ancestorGenerations, descendantGenerations } = data;
     return getTreeChartData(
       personId,
       ancestorGenerations,
-      descendantGenerations
+      descendantGenerations,
+      undefined,
+      {
+        role: user.role,
+        personId: user.personId,
+      }
     );
   });
 
@@ -269,28 +306,42 @@ export const getTreeChart = createServerFn({ method: "POST" })
  * Export chart as PDF
  */
 export const exportChartPDF = createServerFn({ method: "POST" })
-  .inputValidator((data: z.infer<typeof exportChartSchema>) => {
+  .inputValidator((data: z.input<typeof exportChartSchema>) => {
     return exportChartSchema.parse(data);
   })
   .handler(async ({ data }): Promise<Buffer> => {
     await requireAuth("VIEWER");
 
-    const { chartType, chartData } = data;
-    return exportChartAsPDF(chartType, chartData);
+    const { chartType, chartData, options } = data;
+    return exportChartAsPDF(chartType, chartData, options);
   });
 
 /**
  * Export chart as SVG
  */
 export const exportChartSVG = createServerFn({ method: "POST" })
-  .inputValidator((data: z.infer<typeof exportChartSchema>) => {
+  .inputValidator((data: z.input<typeof exportChartSchema>) => {
     return exportChartSchema.parse(data);
   })
   .handler(async ({ data }): Promise<string> => {
     await requireAuth("VIEWER");
 
-    const { chartType, chartData } = data;
-    return exportChartAsSVG(chartType, chartData);
+    const { chartType, chartData, options } = data;
+    return exportChartAsSVG(chartType, chartData, options);
+  });
+
+/**
+ * Export chart as PNG
+ */
+export const exportChartPNG = createServerFn({ method: "POST" })
+  .inputValidator((data: z.input<typeof exportChartSchema>) => {
+    return exportChartSchema.parse(data);
+  })
+  .handler(async ({ data }): Promise<Buffer> => {
+    await requireAuth("VIEWER");
+
+    const { chartType, chartData, options } = data;
+    return exportChartAsPNG(chartType, chartData, options);
   });
 
 // Alias exports for backward compatibility
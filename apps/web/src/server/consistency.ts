@@ -0,0 +1,49 @@
+import { createServerFn } from "@tanstack/react-start";
+import { consistencyThresholdsSchema } from "@vamsa/schemas";
+import {
+  getConsistencyThresholdsData,
+  scanConsistencyData,
+  updateConsistencyThresholdsData,
+} from "@vamsa/lib/server/business";
+import { requireAuth } from "./middleware/require-auth";
+import type { ConsistencyThresholdsInput } from "@vamsa/schemas";
+import type { ConsistencyThresholds } from "@vamsa/lib";
+import type { ConsistencyReport } from "@vamsa/lib/server/business";
+
+/**
+ * Server function: Check the whole tree for implausible data
+ * @returns Issues found, errors first, with counts
+ * @requires ADMIN role
+ */
+export const getConsistencyReport = createServerFn({ method: "GET" }).handler(
+  async (): Promise<ConsistencyReport> => {
+    await requireAuth("ADMIN");
+    return scanConsistencyData();
+  }
+);
+
+/**
+ * Server function: Get the consistency checker thresholds
+ * @returns Thresholds in effect
+ * @requires ADMIN role
+ */
+export const getConsistencyThresholds = createServerFn({
+  method: "GET",
+}).handler(async (): Promise<ConsistencyThresholds> => {
+  await requireAuth("ADMIN");
+  return getConsistencyThresholdsData();
+});
+
+/**
+ * Server function: Update the consistency checker thresholds
+ * @returns Thresholds in effect
+ * @requires ADMIN role
+ */
+export const updateConsistencyThresholds = createServerFn({ method: "POST" })
+  .inputValidator((data: ConsistencyThresholdsInput) =>
+    consistencyThresholdsSchema.parse(data)
+  )
+  .handler(async ({ data }): Promise<ConsistencyThresholds> => {
+    await requireAuth("ADMIN");
+    return updateConsistencyThresholdsData(data);
+  });
@@ -0,0 +1,95 @@
+import { createServerFn } from "@tanstack/react-start";
+import { z } from "zod";
+import { duplicateMergeSchema, duplicateStatusEnum } from "@vamsa/schemas";
+import {
+  dismissDuplicateCandidateData,
+  listDuplicateCandidatesData,
+  mergePersonsData,
+  scanForDuplicatesData,
+  undoMergeData,
+} from "@vamsa/lib/server/business";
+import { requireAuth } from "./middleware/require-auth";
+import type { DuplicateMergeInput, DuplicateStatus } from "@vamsa/schemas";
+import type {
+  DuplicateCandidateItem,
+  DuplicateScanResult,
+  MergePersonsResult,
+} from "@vamsa/lib/server/business";
+
+const candidateIdSchema = z.object({ candidateId: z.string().min(1) });
+
+/**
+ * Server function: List duplicate candidates
+ * @returns Candidates with the given status, highest score first
+ * @requires ADMIN role
+ */
+export const getDuplicateCandidates = createServerFn({ method: "GET" })
+  .inputValidator((data: { status?: DuplicateStatus }) =>
+    z.object({ status: duplicateStatusEnum.default("PENDING") }).parse(data)
+  )
+  .handler(async ({ data }): Promise<Array<DuplicateCandidateItem>> => {
+    await requireAuth("ADMIN");
+    return listDuplicateCandidatesData(data.status);
+  });
+
+/**
+ * Server function: Scan the tree for likely duplicate persons
+ * @returns Counts of matching pairs, new candidates and rescored candidates
+ * @requires ADMIN role
+ */
+export const scanForDuplicates = createServerFn({ method: "POST" }).handler(
+  async (): Promise<DuplicateScanResult> => {
+    await requireAuth("ADMIN");
+    return scanForDuplicatesData();
+  }
+);
+
+/**
+ * Server function: Dismiss a duplicate candidate
+ * @returns Success status
+ * @requires ADMIN role
+ * @throws Error if candidate not found or already reviewed
+ */
+export const dismissDuplicateCandidate = createServerFn({ method: "POST" })
+  .inputValidator((data: { candidateId: string }) =>
+    candidateIdSchema.parse(data)
+  )
+  .handler(async ({ data }): Promise<{ success: boolean }> => {
+    const user = await requireAuth("ADMIN");
+    return dismissDuplicateCandidateData(data.candidateId, user.id);
+  });
+
+/**
+ * Server function: Merge one person into another
+ * @returns IDs of the persons, candidate and audit entry
+ * @requires ADMIN role
+ * @throws Error if either person is missing or both are claimed
+ */
+export const mergePersons = createServerFn({ method: "POST" })
+  .inputValidator((data: DuplicateMergeInput) =>
+    duplicateMergeSchema.parse(data)
+  )
+  .handler(async ({ data }): Promise<MergePersonsResult> => {
+    const user = await requireAuth("ADMIN");
+    return mergePersonsData(
+      data.keepId,
+      data.mergeId,
+      user.id,
+      data.fieldChoices
+    );
+  });
+
+/**
+ * Server function: Undo a merge
+ * @returns Success status
+ * @requires ADMIN role
+ * @throws Error if the candidate was not merged or was already undone
+ */
+export const undoMerge = createServerFn({ method: "POST" })
+  .inputValidator((data: { candidateId: string }) =>
+    candidateIdSchema.parse(data)
+  )
+  .handler(async ({ data }): Promise<{ success: boolean }> => {
+    const user = await requireAuth("ADMIN");
+    return undoMergeData(data.candidateId, user.id);
+  });
@@ -11,9 +11,17 @@ import {
   deleteEventData,
   getPersonEventsData,
   removeEventParticipantData,
+  requiresEditApprovalData,
+  submitEditForApprovalData,
   updateEventData,
 } from "@vamsa/lib/server/business";
-import type { Event, EventParticipant } from "@vamsa/lib/server/business";
+import { requireAuth } from "./middleware/require-auth";
+import type {
+  CreatedEvent,
+  Event,
+  EventParticipant,
+  PendingApprovalResult,
+} from "@vamsa/lib/server/business";
 
 /**
  * Server function: Get all events for a person
@@ -22,64 +30,109 @@ import type { Event, EventParticipant } from "@vamsa/lib/server/business";
 export const getPersonEvents = createServerFn({ method: "GET" })
   .inputValidator((data: { personId: string }) => data)
   .handler(async ({ data }): Promise<Array<Event>> => {
-    return getPersonEventsData(data.personId);
+    const user = await requireAuth("VIEWER");
+    return getPersonEventsData(data.personId, undefined, {
+      role: user.role,
+      personId: user.personId,
+    });
   });
 
 /**
  * Server function: Create a new event
- * @returns Created event
+ * @returns Created event with any consistency warnings, or the pending suggestion when edits require approval
  */
 export const createEvent = createServerFn({ method: "POST" })
   .inputValidator((data) => {
     return eventCreateSchema.parse(data);
   })
-  .handler(async ({ data }): Promise<Event> => {
-    return createEventData(data);
+  .handler(async ({ data }): Promise<CreatedEvent | PendingApprovalResult> => {
+    const user = await requireAuth("MEMBER");
+    if (await requiresEditApprovalData(user.role)) {
+      return submitEditForApprovalData(
+        "CREATE_EVENT",
+        data.personId,
+        data,
+        user.id
+      );
+    }
+    return createEventData(data, user.id);
   });
 
 /**
  * Server function: Update an event
- * @returns Updated event
+ * @returns Updated event, or the pending suggestion when edits require approval
  */
 export const updateEvent = createServerFn({ method: "POST" })
   .inputValidator((data) => {
     return eventUpdateSchema.parse(data);
   })
-  .handler(async ({ data }): Promise<Event> => {
+  .handler(async ({ data }): Promise<Event | PendingApprovalResult> => {
+    const user = await requireAuth("MEMBER");
+    if (await requiresEditApprovalData(user.role)) {
+      return submitEditForApprovalData("UPDATE_EVENT", null, data, user.id);
+    }
     const { id, ...updates } = data;
-    return updateEventData(id, updates);
+    return updateEventData(id, updates, user.id);
   });
 
 /**
  * Server function: Delete an event
- * @returns Success status
+ * @returns Success status, or the pending suggestion when edits require approval
  */
 export const deleteEvent = createServerFn({ method: "POST" })
   .inputValidator((data: { eventId: string }) => data)
-  .handler(async ({ data }): Promise<{ success: boolean }> => {
-    return deleteEventData(data.eventId);
-  });
+  .handler(
+    async ({ data }): Promise<{ success: boolean } | PendingApprovalResult> => {
+      const user = await requireAuth("MEMBER");
+      if (await requiresEditApprovalData(user.role)) {
+        return submitEditForApprovalData("DELETE_EVENT", null, data, user.id);
+      }
+      return deleteEventData(data.eventId, user.id);
+    }
+  );
 
 /**
  * Server function: Add a participant to an event
- * @returns Created participant
+ * @returns Created participant, or the pending suggestion when edits require approval
  */
 export const addEventParticipant = createServerFn({ method: "POST" })
   .inputValidator((data) => {
     return eventParticipantCreateSchema.parse(data);
   })
-  .handler(async ({ data }): Promise<EventParticipant> => {
-    return addEventParticipantData(data);
-  });
+  .handler(
+    async ({ data }): Promise<EventParticipant | PendingApprovalResult> => {
+      const user = await requireAuth("MEMBER");
+      if (await requiresEditApprovalData(user.role)) {
+        return submitEditForApprovalData(
+          "ADD_EVENT_PARTICIPANT",
+          data.personId,
+          data,
+          user.id
+        );
+      }
+      return addEventParticipantData(data, user.id);
+    }
+  );
 
 /**
  * Server function: Remove a participant from an event
- * @returns Success status
+ * @returns Success status, or the pending suggestion when edits require approval
  */
 export const removeEventParticipant = createServerFn({ method: "POST" })
   .inputValidator((data) => {
     return eventParticipantRemoveSchema.parse(data);
   })
-  .handler(async ({ data }): Promise<{ success: boolean }> => {
-    return removeEventParticipantData(data);
-  });
+  .handler(
+    async ({ data }): Promise<{ success: boolean } | PendingApprovalResult> => {
+      const user = await requireAuth("MEMBER");
+      if (await requiresEditApprovalData(user.role)) {
+        return submitEditForApprovalData(
+          "REMOVE_EVENT_PARTICIPANT",
+          data.personId,
+          data,
+          user.id
+        );
+      }
+      return removeEventParticipantData(data, user.id);
+    }
+  );
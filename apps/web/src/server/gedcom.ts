@@ -11,7 +11,9 @@ import {
   exportGedcomData,
   exportGedcomDataZip,
   importGedcomData,
+  importGedzipData,
   validateGedcomImport,
+  validateGedzipImport,
 } from "@vamsa/lib/server/business";
 import { requireAuth } from "./middleware/require-auth";
 import type {
@@ -39,6 +41,19 @@ export interface ValidateGedcomResult {
 // Re-export types for backwards compatibility
 export type { ImportResult, ExportResult, ExportZipResult };
 
+// GEDZIP packages are sent base64-encoded, which expands them by ~4/3
+const MAX_GEDZIP_BASE64_LENGTH = 134 * 1024 * 1024; // ~100MB decoded
+
+/**
+ * Decode a base64 GEDZIP package, enforcing the upload size limit
+ */
+function decodeGedzip(zipBase64: string): Buffer {
+  if (zipBase64.length > MAX_GEDZIP_BASE64_LENGTH) {
+    throw new Error("File too large: maximum GEDZIP size is 100MB");
+  }
+  return Buffer.from(zipBase64, "base64");
+}
+
 /**
  * Validate GEDCOM file before import
  *
@@ -100,6 +115,63 @@ export const importGedcom = createServerFn({ method: "POST" })
     return importGedcomData(fileName, fileContent, user.id);
   });
 
+/**
+ * Validate GEDZIP package before import
+ *
+ * Server function that reads a GEDZIP package (.gdz or .zip) and validates
+ * its GEDCOM file without importing any data. Requires ADMIN role.
+ *
+ * @returns Validation result with preview data
+ */
+export const validateGedzip = createServerFn({ method: "POST" })
+  .inputValidator((data: { fileName: string; zipBase64: string }) => data)
+  .handler(async ({ data }): Promise<ValidateGedcomResult> => {
+    await requireAuth("ADMIN");
+
+    const validation = await validateGedzipImport(
+      data.fileName,
+      decodeGedzip(data.zipBase64)
+    );
+
+    return {
+      valid: validation.valid,
+      message: validation.message,
+      preview: validation.preview
+        ? {
+            peopleCount: validation.preview.peopleCount,
+            familiesCount: validation.preview.familiesCount,
+            errors: validation.preview.errors,
+          }
+        : undefined,
+    };
+  });
+
+/**
+ * Import GEDZIP package into database
+ *
+ * Server function that imports a GEDZIP package, storing its media files
+ * and linking them to the imported persons and events. Requires ADMIN role.
+ *
+ * @returns Import result with counts and errors
+ *
+ * @example
+ * const result = await importGedzip({ fileName, zipBase64 });
+ * if (result.success) {
+ *   console.log(`Stored ${result.imported?.mediaFiles} media files`);
+ * }
+ */
+export const importGedzip = createServerFn({ method: "POST" })
+  .inputValidator((data: { fileName: string; zipBase64: string }) => data)
+  .handler(async ({ data }): Promise<ImportResult> => {
+    const user = await requireAuth("ADMIN");
+
+    return importGedzipData(
+      data.fileName,
+      decodeGedzip(data.zipBase64),
+      user.id
+    );
+  });
+
 /**
  * Export GEDCOM file
  *
@@ -123,10 +195,10 @@ export const exportGedcom = createServerFn({ method: "GET" }).handler(
 );
 
 /**
- * Export GEDCOM file with media as zip
+ * Export GEDZIP package
  *
  * Server function that exports all persons, relationships, and
- * optionally media files as a zip archive with manifest.
+ * optionally media files as a GEDZIP package (GEDCOM 7 zip) with manifest.
  * Requires ADMIN role.
  *
  * @returns Export result with base64-encoded zip and manifest
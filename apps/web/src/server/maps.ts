@@ -7,6 +7,7 @@ import {
   getPlacesByTimeRangeData,
   getPlacesForMapData,
 } from "@vamsa/lib/server/business";
+import { requireAuth } from "./middleware/require-auth";
 import type {
   FamilyLocationMarker,
   GetPlaceClusterOptions,
@@ -66,7 +67,7 @@ export const getPlacesForMap = createServerFn({ method: "GET" })
 
 /**
  * Server function: Get all places associated with a specific person
- * @requires No special auth (public data)
+ * @requires VIEWER role or higher (locations follow the person's privacy)
  * @throws Error if person not found
  */
 export const getPersonLocations = createServerFn({ method: "GET" })
@@ -83,7 +84,11 @@ export const getPersonLocations = createServerFn({ method: "GET" })
         lastName: string;
       };
     }> => {
-      return getPersonLocationsData(data.personId);
+      const user = await requireAuth("VIEWER");
+      return getPersonLocationsData(data.personId, undefined, {
+        role: user.role,
+        personId: user.personId,
+      });
     }
   );
 
@@ -13,22 +13,42 @@
 
 import { createServerFn } from "@tanstack/react-start";
 import {
+  attachMediaTranscriptSchema,
   linkMediaToEventSchema,
+  linkMediaToPlaceSchema,
   mediaMetadataSchema,
   mediaReorderSchema,
+  mediaSizeLimitsSchema,
   setPrimaryPhotoSchema,
+  tagMediaRegionSchema,
 } from "@vamsa/schemas";
+import {
+  requiresEditApprovalData,
+  submitEditForApprovalData,
+} from "@vamsa/lib/server/business";
 // Import directly from media module to avoid pulling sharp into other bundles
 import {
+  attachMediaTranscriptLogic,
   deleteMediaLogic,
   getMediaObjectLogic,
+  getMediaRegionsLogic,
+  getMediaSizeLimitsLogic,
+  getMediaSuggestionsLogic,
   getPersonMediaLogic,
   linkMediaToEventLogic,
+  linkMediaToPlaceLogic,
+  removeMediaTranscriptLogic,
   reorderMediaLogic,
   setPrimaryPhotoLogic,
+  submitMediaUploadForApprovalLogic,
+  tagMediaRegionLogic,
   updateMediaMetadataLogic,
+  updateMediaSizeLimitsLogic,
   uploadMediaLogic,
 } from "@vamsa/lib/server/business/media";
+import { requireAuth } from "./middleware/require-auth";
+import type { MediaSizeLimitsInput } from "@vamsa/schemas";
+import type { MediaSizeLimits } from "@vamsa/lib/media/media-kinds";
 
 /**
  * Get all media for a person
@@ -39,21 +59,30 @@ import {
 export const getPersonMedia = createServerFn({ method: "GET" })
   .inputValidator((data: { personId: string }) => data)
   .handler(async ({ data }) => {
+    const user = await requireAuth("VIEWER");
     const { personId } = data;
-    return getPersonMediaLogic(personId);
+    return getPersonMediaLogic(personId, undefined, {
+      role: user.role,
+      personId: user.personId,
+    });
   });
 
 /**
  * Get a single media object with full details
  *
  * Retrieves a media object and all its associations
- * (events and person links).
+ * (events and person links). Media of redacted persons is reported as
+ * not found.
  */
 export const getMediaObject = createServerFn({ method: "GET" })
   .inputValidator((data: { mediaId: string }) => data)
   .handler(async ({ data }) => {
+    const user = await requireAuth("VIEWER");
     const { mediaId } = data;
-    return getMediaObjectLogic(mediaId);
+    return getMediaObjectLogic(mediaId, undefined, {
+      role: user.role,
+      personId: user.personId,
+    });
   });
 
 /**
@@ -61,29 +90,41 @@ export const getMediaObject = createServerFn({ method: "GET" })
  *
  * Removes a media object and all its associations.
  * Also cleans up processed image files from disk.
+ * Submitted for review instead when edits require approval.
  */
 export const deleteMedia = createServerFn({ method: "POST" })
   .inputValidator((data: { mediaId: string }) => data)
   .handler(async ({ data }) => {
+    const user = await requireAuth("MEMBER");
+    if (await requiresEditApprovalData(user.role)) {
+      return submitEditForApprovalData("DELETE_MEDIA", null, data, user.id);
+    }
     const { mediaId } = data;
-    return deleteMediaLogic(mediaId);
+    return deleteMediaLogic(mediaId, user.id);
   });
 
 /**
  * Update media metadata
  *
- * Updates title, description, caption, and source fields.
+ * Updates title, description, caption, source, and privacy fields.
+ * Submitted for review instead when edits require approval.
  */
 export const updateMediaMetadata = createServerFn({ method: "POST" })
   .inputValidator((data) => mediaMetadataSchema.parse(data))
   .handler(async ({ data }) => {
-    const { mediaId, title, description, caption, source } = data;
+    const user = await requireAuth("MEMBER");
+    if (await requiresEditApprovalData(user.role)) {
+      return submitEditForApprovalData("UPDATE_MEDIA", null, data, user.id);
+    }
+    const { mediaId, title, description, caption, source, privacy } = data;
     return updateMediaMetadataLogic(
       mediaId,
       title,
       description,
       caption,
-      source
+      source,
+      privacy,
+      user.id
     );
   });
 
@@ -92,24 +133,83 @@ export const updateMediaMetadata = createServerFn({ method: "POST" })
  *
  * Sets the specified media as the primary photo,
  * unsetting any previously primary photo.
+ * Submitted for review instead when edits require approval.
  */
 export const setPrimaryPhoto = createServerFn({ method: "POST" })
   .inputValidator((data) => setPrimaryPhotoSchema.parse(data))
   .handler(async ({ data }) => {
+    const user = await requireAuth("MEMBER");
     const { personId, mediaId } = data;
-    return setPrimaryPhotoLogic(personId, mediaId);
+    if (await requiresEditApprovalData(user.role)) {
+      return submitEditForApprovalData(
+        "SET_PRIMARY_PHOTO",
+        personId,
+        data,
+        user.id
+      );
+    }
+    return setPrimaryPhotoLogic(personId, mediaId, user.id);
+  });
+
+/**
+ * Get the people linked to a media object and where they are tagged
+ *
+ * Returns the image size and each linked person with their
+ * region, or a null region when they are not tagged.
+ */
+export const getMediaRegions = createServerFn({ method: "GET" })
+  .inputValidator((data: { mediaId: string }) => data)
+  .handler(async ({ data }) => {
+    const user = await requireAuth("VIEWER");
+    return getMediaRegionsLogic(data.mediaId, undefined, {
+      role: user.role,
+      personId: user.personId,
+    });
+  });
+
+/**
+ * Tag where a person appears in an image, or remove the tag
+ *
+ * Links the image to the person if needed and refreshes their
+ * avatar when the image is their primary photo.
+ * Submitted for review instead when edits require approval.
+ */
+export const tagMediaRegion = createServerFn({ method: "POST" })
+  .inputValidator((data) => tagMediaRegionSchema.parse(data))
+  .handler(async ({ data }) => {
+    const user = await requireAuth("MEMBER");
+    const { mediaId, personId, region } = data;
+    if (await requiresEditApprovalData(user.role)) {
+      return submitEditForApprovalData(
+        "TAG_MEDIA_REGION",
+        personId,
+        data,
+        user.id
+      );
+    }
+    return tagMediaRegionLogic(mediaId, personId, region, user.id);
   });
 
 /**
  * Reorder media for a person
  *
  * Updates the display order of media for a person.
+ * Submitted for review instead when edits require approval.
  */
 export const reorderMedia = createServerFn({ method: "POST" })
   .inputValidator((data) => mediaReorderSchema.parse(data))
   .handler(async ({ data }) => {
+    const user = await requireAuth("MEMBER");
     const { personId, ordering } = data;
-    return reorderMediaLogic(personId, ordering);
+    if (await requiresEditApprovalData(user.role)) {
+      return submitEditForApprovalData(
+        "REORDER_MEDIA",
+        personId,
+        data,
+        user.id
+      );
+    }
+    return reorderMediaLogic(personId, ordering, user.id);
   });
 
 /**
@@ -117,12 +217,114 @@ export const reorderMedia = createServerFn({ method: "POST" })
  *
  * Creates an association between a media object and an event.
  * Prevents duplicate links for the same event-person-type combination.
+ * Submitted for review instead when edits require approval.
  */
 export const linkMediaToEvent = createServerFn({ method: "POST" })
   .inputValidator((data) => linkMediaToEventSchema.parse(data))
   .handler(async ({ data }) => {
+    const user = await requireAuth("MEMBER");
+    if (await requiresEditApprovalData(user.role)) {
+      return submitEditForApprovalData(
+        "LINK_MEDIA_TO_EVENT",
+        null,
+        data,
+        user.id
+      );
+    }
     const { mediaId, eventId } = data;
-    return linkMediaToEventLogic(mediaId, eventId);
+    return linkMediaToEventLogic(mediaId, eventId, user.id);
+  });
+
+/**
+ * Suggest where and when a photo was taken
+ *
+ * Returns the place linked to the photo, places near its embedded
+ * GPS position and events on its embedded capture date.
+ */
+export const getMediaSuggestions = createServerFn({ method: "GET" })
+  .inputValidator((data: { mediaId: string }) => data)
+  .handler(async ({ data }) => {
+    const user = await requireAuth("VIEWER");
+    return getMediaSuggestionsLogic(data.mediaId, undefined, {
+      role: user.role,
+      personId: user.personId,
+    });
+  });
+
+/**
+ * Set the place where a photo was taken, or clear it
+ */
+export const linkMediaToPlace = createServerFn({ method: "POST" })
+  .inputValidator((data) => linkMediaToPlaceSchema.parse(data))
+  .handler(async ({ data }) => {
+    const user = await requireAuth("MEMBER");
+    const { mediaId, placeId } = data;
+    return linkMediaToPlaceLogic(mediaId, placeId, user.id);
+  });
+
+/**
+ * Attach a transcript to an audio or video recording
+ *
+ * Replaces any earlier transcript. Accepts plain text, WebVTT and PDF.
+ * Submitted for review instead when edits require approval.
+ */
+export const attachMediaTranscript = createServerFn({ method: "POST" })
+  .inputValidator((data) => attachMediaTranscriptSchema.parse(data))
+  .handler(async ({ data }) => {
+    const user = await requireAuth("MEMBER");
+    if (await requiresEditApprovalData(user.role)) {
+      return submitEditForApprovalData(
+        "ATTACH_MEDIA_TRANSCRIPT",
+        null,
+        data,
+        user.id
+      );
+    }
+    const { mediaId, mimeType, base64Data } = data;
+    return attachMediaTranscriptLogic(mediaId, mimeType, base64Data, user.id);
+  });
+
+/**
+ * Remove the transcript of an audio or video recording
+ *
+ * Submitted for review instead when edits require approval.
+ */
+export const removeMediaTranscript = createServerFn({ method: "POST" })
+  .inputValidator((data: { mediaId: string }) => data)
+  .handler(async ({ data }) => {
+    const user = await requireAuth("MEMBER");
+    if (await requiresEditApprovalData(user.role)) {
+      return submitEditForApprovalData(
+        "REMOVE_MEDIA_TRANSCRIPT",
+        null,
+        data,
+        user.id
+      );
+    }
+    return removeMediaTranscriptLogic(data.mediaId, user.id);
+  });
+
+/**
+ * Get the upload size limits per kind of media, in megabytes
+ */
+export const getMediaSizeLimits = createServerFn({ method: "GET" }).handler(
+  async (): Promise<MediaSizeLimits> => {
+    await requireAuth("VIEWER");
+    return getMediaSizeLimitsLogic();
+  }
+);
+
+/**
+ * Update the upload size limits per kind of media
+ * @requires ADMIN role
+ */
+export const updateMediaSizeLimits = createServerFn({ method: "POST" })
+  .inputValidator((data: MediaSizeLimitsInput) =>
+    mediaSizeLimitsSchema.parse(data)
+  )
+  .handler(async ({ data }): Promise<MediaSizeLimits> => {
+    await requireAuth("ADMIN");
+    return updateMediaSizeLimitsLogic(data);
   });
 
 /**
@@ -131,6 +333,7 @@ export const linkMediaToEvent = createServerFn({ method: "POST" })
  * Creates a media object and associates it with a person.
  * Automatically processes images into multiple formats.
  * Sets the first upload as the primary photo.
+ * Submitted for review instead when edits require approval.
  */
 export const uploadMedia = createServerFn({ method: "POST" })
   .inputValidator(
@@ -147,6 +350,10 @@ export const uploadMedia = createServerFn({ method: "POST" })
     }) => data
   )
   .handler(async ({ data }) => {
+    const user = await requireAuth("MEMBER");
+    if (await requiresEditApprovalData(user.role)) {
+      return submitMediaUploadForApprovalLogic(data, user.id);
+    }
     const {
       personId,
       fileName,
@@ -168,6 +375,7 @@ export const uploadMedia = createServerFn({ method: "POST" })
       title,
       caption,
       description,
-      source
+      source,
+      user.id
     );
   });
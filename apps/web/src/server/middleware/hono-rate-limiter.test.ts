@@ -1,7 +1,10 @@
 import { beforeEach, describe, expect, it } from "vitest";
 import { Hono } from "hono";
 import { RATE_LIMITS, resetRateLimit } from "./rate-limiter";
-import { rateLimitMiddleware } from "./hono-rate-limiter";
+import {
+  apiTokenRateLimitMiddleware,
+  rateLimitMiddleware,
+} from "./hono-rate-limiter";
 
 describe("Hono Rate Limiter Middleware", () => {
   let app: Hono;
@@ -323,4 +326,57 @@ describe("Hono Rate Limiter Middleware", () => {
       expect(res.headers.get("Retry-After")).toBeTruthy();
     });
   });
+
+  describe("Personal access token rate limiting", () => {
+    function createTokenApp() {
+      const tokenApp = new Hono();
+      tokenApp.use("*", async (c, next) => {
+        const tokenId = c.req.header("x-test-token");
+        if (tokenId) {
+          c.set("apiToken", { id: tokenId, scopes: ["persons:read"] });
+        }
+        await next();
+      });
+      tokenApp.use("*", apiTokenRateLimitMiddleware());
+      tokenApp.get("/persons", (c) => c.json({ success: true }));
+      return tokenApp;
+    }
+
+    it("limits each token separately", async () => {
+      const tokenApp = createTokenApp();
+      await resetRateLimit("apiToken", "token:token-a");
+      await resetRateLimit("apiToken", "token:token-b");
+
+      for (let i = 0; i < RATE_LIMITS.apiToken.limit; i++) {
+        const res = await tokenApp.request("/persons", {
+          headers: { "x-test-token": "token-a" },
+        });
+        expect(res.status).toBe(200);
+      }
+
+      const limited = await tokenApp.request("/persons", {
+        headers: { "x-test-token": "token-a" },
+      });
+      expect(limited.status).toBe(429);
+      expect(limited.headers.get("X-RateLimit-Limit")).toBe(
+        String(RATE_LIMITS.apiToken.limit)
+      );
+      expect(limited.headers.get("Retry-After")).toBeTruthy();
+
+      const other = await tokenApp.request("/persons", {
+        headers: { "x-test-token": "token-b" },
+      });
+      expect(other.status).toBe(200);
+      expect(other.headers.get("X-RateLimit-Remaining")).toBe(
+        String(RATE_LIMITS.apiToken.limit - 1)
+      );
+    });
+
+    it("does not limit session requests", async () => {
+      const res = await createTokenApp().request("/persons");
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("X-RateLimit-Limit")).toBeNull();
+    });
+  });
 });
@@ -16,7 +16,11 @@
 import { createMiddleware } from "hono/factory";
 import { loggers } from "@vamsa/lib/logger";
 import { betterAuthGetSessionWithUser } from "@vamsa/lib/server/business/auth-better-api";
-import { checkRateLimit, getRateLimitStatus } from "./rate-limiter";
+import {
+  RATE_LIMITS,
+  checkRateLimit,
+  getRateLimitStatus,
+} from "./rate-limiter";
 import type { RateLimitAction } from "./rate-limiter";
 
 const log = loggers.api;
@@ -196,3 +200,70 @@ export function perUserApiRateLimitMiddleware() {
     }
   });
 }
+
+/**
+ * Create a rate limit middleware for personal access tokens
+ *
+ * Limits requests per token, so one misbehaving script cannot exhaust its
+ * owner's quota. Requests authenticated with a session pass straight through.
+ * Must run after requireApiAuth, which sets the token in context. The limit
+ * is configurable via RATE_LIMIT_API_TOKEN_MAX and RATE_LIMIT_API_TOKEN_WINDOW.
+ *
+ * @returns Hono middleware function
+ *
+ * @example
+ * apiV1.use("*", apiTokenRateLimitMiddleware());
+ */
+export function apiTokenRateLimitMiddleware() {
+  return createMiddleware(async (c, next) => {
+    const apiToken = c.get("apiToken");
+    if (!apiToken) {
+      await next();
+      return;
+    }
+
+    const identifier = `token:${apiToken.id}`;
+
+    try {
+      await checkRateLimit("apiToken", identifier);
+
+      const status = await getRateLimitStatus("apiToken", identifier);
+      c.header("X-RateLimit-Limit", String(RATE_LIMITS.apiToken.limit));
+      c.header("X-RateLimit-Remaining", String(status.remaining));
+      c.header("X-RateLimit-Reset", String(Math.floor(status.resetAt / 1000)));
+
+      await next();
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        (error as Error & { statusCode?: number }).statusCode === 429
+      ) {
+        const retryAfter = (error as Error & { retryAfter?: number })
+          .retryAfter;
+        const status = await getRateLimitStatus("apiToken", identifier);
+
+        log.warn(
+          { tokenId: apiToken.id, error: error.message },
+          "API token rate limit exceeded"
+        );
+
+        return c.json(
+          {
+            error: "Too Many Requests",
+            message: error.message,
+            retryAfter,
+          },
+          429,
+          {
+            "X-RateLimit-Limit": String(RATE_LIMITS.apiToken.limit),
+            "X-RateLimit-Remaining": String(status.remaining),
+            "X-RateLimit-Reset": String(Math.floor(status.resetAt / 1000)),
+            "Retry-After": String(retryAfter),
+          }
+        );
+      }
+
+      throw error;
+    }
+  });
+}
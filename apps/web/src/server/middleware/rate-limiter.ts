@@ -97,6 +97,10 @@ export const RATE_LIMITS = {
     limit: parseEnvInt("RATE_LIMIT_API_MAX", 100),
     windowMs: parseEnvInt("RATE_LIMIT_API_WINDOW", 60) * 1000, // Per minute
   },
+  apiToken: {
+    limit: parseEnvInt("RATE_LIMIT_API_TOKEN_MAX", 60),
+    windowMs: parseEnvInt("RATE_LIMIT_API_TOKEN_WINDOW", 60) * 1000, // Per minute
+  },
 } as const;
 
 export type RateLimitAction = keyof typeof RATE_LIMITS;
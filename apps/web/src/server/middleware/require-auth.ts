@@ -57,3 +57,13 @@ export async function requireAuth(requiredRole: UserRole = "VIEWER") {
 
   return user;
 }
+
+/**
+ * Session token of the signed-in user, for services that look records up
+ * on the user's behalf (such as the AI service)
+ *
+ * @returns The Better Auth session token, or undefined without a session
+ */
+export function getSessionToken(): string | undefined {
+  return getTanStackCookie(BETTER_AUTH_COOKIE_NAME);
+}
@@ -12,11 +12,40 @@
  */
 
 import { createServerFn } from "@tanstack/react-start";
+import { z } from "zod";
 import {
+  getNotificationPreferencesData,
   getEmailNotificationPreferences as getPrefs,
+  getUnreadNotificationCountData,
+  listInboxNotificationsData,
+  markAllNotificationsReadData,
+  markNotificationReadData,
+  updateNotificationPreferencesData,
   updateEmailNotificationPreferences as updatePrefs,
 } from "@vamsa/lib/server/business";
+import {
+  notificationPreferencesUpdateSchema,
+  notificationTypeEnum,
+} from "@vamsa/schemas";
 import { requireAuth } from "./middleware/require-auth";
+import type {
+  InboxListResult,
+  InboxNotification,
+} from "@vamsa/lib/server/business";
+import type {
+  NotificationPreferences,
+  NotificationPreferencesUpdate,
+} from "@vamsa/schemas";
+
+// Inbox list input schema with pagination and filters
+const inboxListInputSchema = z.object({
+  page: z.number().int().min(1).default(1),
+  limit: z.number().int().min(1).max(100).default(20),
+  type: notificationTypeEnum.optional(),
+  unreadOnly: z.boolean().optional(),
+});
+
+type InboxListInput = z.infer<typeof inboxListInputSchema>;
 
 /**
  * Get user's email notification preferences
@@ -47,3 +76,74 @@ export const updateEmailNotificationPreferences = createServerFn({
     const preferences = await updatePrefs(user.id, data);
     return { success: true, preferences };
   });
+
+/**
+ * Get the current user's per-type, per-channel notification preferences
+ */
+export const getNotificationPreferences = createServerFn({
+  method: "GET",
+}).handler(async (): Promise<NotificationPreferences> => {
+  const user = await requireAuth();
+  return getNotificationPreferencesData(user.id);
+});
+
+/**
+ * Update the current user's notification preferences
+ */
+export const updateNotificationPreferences = createServerFn({
+  method: "POST",
+})
+  .inputValidator((data: NotificationPreferencesUpdate) => {
+    return notificationPreferencesUpdateSchema.parse(data);
+  })
+  .handler(async ({ data }): Promise<NotificationPreferences> => {
+    const user = await requireAuth();
+    return updateNotificationPreferencesData(user.id, data);
+  });
+
+/**
+ * Get a page of the current user's notification inbox
+ */
+export const getInboxNotifications = createServerFn({ method: "GET" })
+  .inputValidator((data: Partial<InboxListInput>) => {
+    return inboxListInputSchema.parse(data);
+  })
+  .handler(async ({ data }): Promise<InboxListResult> => {
+    const user = await requireAuth();
+    return listInboxNotificationsData(user.id, data);
+  });
+
+/**
+ * Get the number of unread notifications in the current user's inbox
+ */
+export const getUnreadNotificationCount = createServerFn({
+  method: "GET",
+}).handler(async (): Promise<number> => {
+  const user = await requireAuth();
+  return getUnreadNotificationCountData(user.id);
+});
+
+/**
+ * Mark one of the current user's notifications read
+ */
+export const markNotificationRead = createServerFn({ method: "POST" })
+  .inputValidator((data: { id: string }) => {
+    return z.object({ id: z.string().min(1) }).parse(data);
+  })
+  .handler(async ({ data }): Promise<InboxNotification> => {
+    const user = await requireAuth();
+    return markNotificationReadData(user.id, data.id);
+  });
+
+/**
+ * Mark all of the current user's notifications read, optionally of one type
+ */
+export const markAllNotificationsRead = createServerFn({ method: "POST" })
+  .inputValidator((data: { type?: string }) => {
+    return z.object({ type: notificationTypeEnum.optional() }).parse(data);
+  })
+  .handler(async ({ data }) => {
+    const user = await requireAuth();
+    const updated = await markAllNotificationsReadData(user.id, data.type);
+    return { success: true, updated };
+  });
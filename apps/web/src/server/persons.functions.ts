@@ -20,6 +20,7 @@ import {
 } from "./persons.server";
 import type { PersonListInput } from "./persons.server";
 import type {
+  PendingApprovalResult,
   PersonCreateResult,
   PersonDeleteResult,
   PersonDetail,
@@ -90,7 +91,7 @@ export const createPerson = createServerFn({ method: "POST" })
 
 /**
  * Server function: Update an existing person
- * @returns Updated person ID
+ * @returns Updated person ID, or the pending suggestion when edits require approval
  * @requires MEMBER role or higher
  * @throws Error if person not found or user lacks permission
  */
@@ -98,9 +99,11 @@ export const updatePerson = createServerFn({ method: "POST" })
   .inputValidator((data: unknown) => {
     return personUpdateSchema.extend({ id: z.string() }).parse(data);
   })
-  .handler(async ({ data }): Promise<PersonUpdateResult> => {
-    return updatePersonHandler(data);
-  });
+  .handler(
+    async ({ data }): Promise<PersonUpdateResult | PendingApprovalResult> => {
+      return updatePersonHandler(data);
+    }
+  );
 
 /**
  * Server function: Delete a person
@@ -12,11 +12,14 @@ import {
   deletePersonData,
   getPersonData,
   listPersonsData,
+  requiresEditApprovalData,
   searchPersonsData,
+  submitEditForApprovalData,
   updatePersonData,
 } from "@vamsa/lib/server/business";
 import { requireAuth } from "./middleware/require-auth";
 import type {
+  PendingApprovalResult,
   PersonCreateResult,
   PersonDeleteResult,
   PersonDetail,
@@ -64,7 +67,7 @@ export interface PersonSearchInput {
 export async function listPersonsHandler(
   data: PersonListInput
 ): Promise<PersonListResult> {
-  await requireAuth("VIEWER");
+  const user = await requireAuth("VIEWER");
 
   const options: PersonListOptions = {
     page: data.page,
@@ -75,7 +78,10 @@ export async function listPersonsHandler(
     isLiving: data.isLiving,
   };
 
-  return listPersonsData(options);
+  return listPersonsData(options, undefined, {
+    role: user.role,
+    personId: user.personId,
+  });
 }
 
 /**
@@ -86,8 +92,11 @@ export async function listPersonsHandler(
 export async function getPersonHandler(
   data: PersonGetInput
 ): Promise<PersonDetail> {
-  await requireAuth("VIEWER");
-  return getPersonData(data.id);
+  const user = await requireAuth("VIEWER");
+  return getPersonData(data.id, undefined, {
+    role: user.role,
+    personId: user.personId,
+  });
 }
 
 /**
@@ -102,15 +111,19 @@ export async function createPersonHandler(
 }
 
 /**
- * Update an existing person
+ * Update an existing person, or submit the change for review when edits
+ * require approval
  * @requires MEMBER role or higher
  * @throws Error if person not found or user lacks permission
  */
 export async function updatePersonHandler(
   data: PersonUpdateInput & { id: string }
-): Promise<PersonUpdateResult> {
+): Promise<PersonUpdateResult | PendingApprovalResult> {
   const user = await requireAuth("MEMBER");
   const { id, ...updates } = data;
+  if (await requiresEditApprovalData(user.role)) {
+    return submitEditForApprovalData("UPDATE", id, updates, user.id);
+  }
   return updatePersonData(id, updates, user.id);
 }
 
@@ -134,6 +147,9 @@ export async function deletePersonHandler(
 export async function searchPersonsHandler(
   data: PersonSearchInput
 ): Promise<Array<PersonSearchResult>> {
-  await requireAuth("VIEWER");
-  return searchPersonsData(data.query, data.excludeId);
+  const user = await requireAuth("VIEWER");
+  return searchPersonsData(data.query, data.excludeId, undefined, {
+    role: user.role,
+    personId: user.personId,
+  });
 }
@@ -31,6 +31,8 @@ const {
   mockUpdatePersonData,
   mockDeletePersonData,
   mockSearchPersonsData,
+  mockRequiresEditApprovalData,
+  mockSubmitEditForApprovalData,
 } = vi.hoisted(() => ({
   mockListPersonsData: vi.fn(async () => ({
     items: [
@@ -66,6 +68,11 @@ const {
   mockSearchPersonsData: vi.fn(async () => [
     { id: "person-1", firstName: "John", lastName: "Doe" },
   ]),
+  mockRequiresEditApprovalData: vi.fn(async () => false),
+  mockSubmitEditForApprovalData: vi.fn(async () => ({
+    pendingApproval: true as const,
+    suggestionId: "suggestion-1",
+  })),
 }));
 
 // Mock business logic - MUST include betterAuthGetSessionWithUserFromCookie
@@ -77,6 +84,8 @@ vi.mock("@vamsa/lib/server/business", () => ({
   updatePersonData: mockUpdatePersonData,
   deletePersonData: mockDeletePersonData,
   searchPersonsData: mockSearchPersonsData,
+  requiresEditApprovalData: mockRequiresEditApprovalData,
+  submitEditForApprovalData: mockSubmitEditForApprovalData,
   betterAuthGetSessionWithUserFromCookie: getStubbedSession,
 }));
 
@@ -111,6 +120,8 @@ describe("Person Handlers", () => {
     mockUpdatePersonData.mockClear();
     mockDeletePersonData.mockClear();
     mockSearchPersonsData.mockClear();
+    mockRequiresEditApprovalData.mockClear();
+    mockSubmitEditForApprovalData.mockClear();
   });
 
   // ==========================================================================
@@ -190,14 +201,18 @@ describe("Person Handlers", () => {
         })
       );
 
-      expect(mockListPersonsData).toHaveBeenCalledWith({
-        page: 2,
-        limit: 25,
-        sortBy: "firstName",
-        sortOrder: "desc",
-        search: "john",
-        isLiving: true,
-      });
+      expect(mockListPersonsData).toHaveBeenCalledWith(
+        {
+          page: 2,
+          limit: 25,
+          sortBy: "firstName",
+          sortOrder: "desc",
+          search: "john",
+          isLiving: true,
+        },
+        undefined,
+        { role: "VIEWER", personId: null }
+      );
     });
   });
 
@@ -220,7 +235,10 @@ describe("Person Handlers", () => {
 
       expect(result.id).toBe("person-1");
       expect(result.firstName).toBe("John");
-      expect(mockGetPersonData).toHaveBeenCalledWith("person-1");
+      expect(mockGetPersonData).toHaveBeenCalledWith("person-1", undefined, {
+        role: "VIEWER",
+        personId: null,
+      });
     });
 
     it("allows MEMBER to get person", async () => {
@@ -230,6 +248,10 @@ describe("Person Handlers", () => {
       );
 
       expect(result.id).toBe("person-1");
+      expect(mockGetPersonData).toHaveBeenCalledWith("person-1", undefined, {
+        role: "MEMBER",
+        personId: "person-001",
+      });
     });
 
     it("allows ADMIN to get person", async () => {
@@ -321,7 +343,7 @@ describe("Person Handlers", () => {
         () => updatePersonHandler(validUpdateData)
       );
 
-      expect(result.id).toBe("person-1");
+      expect(result).toEqual({ id: "person-1" });
       expect(mockUpdatePersonData).toHaveBeenCalledWith(
         "person-1",
         { firstName: "Updated" },
@@ -329,13 +351,37 @@ describe("Person Handlers", () => {
       );
     });
 
+    it("submits MEMBER updates for review when edits require approval", async () => {
+      mockRequiresEditApprovalData.mockResolvedValueOnce(true);
+
+      const { result } = await withStubbedServerContext(
+        { user: testUsers.member },
+        () => updatePersonHandler(validUpdateData)
+      );
+
+      expect(result).toEqual({
+        pendingApproval: true,
+        suggestionId: "suggestion-1",
+      });
+      expect(mockRequiresEditApprovalData).toHaveBeenCalledWith(
+        testUsers.member.role
+      );
+      expect(mockSubmitEditForApprovalData).toHaveBeenCalledWith(
+        "UPDATE",
+        "person-1",
+        { firstName: "Updated" },
+        testUsers.member.id
+      );
+      expect(mockUpdatePersonData).not.toHaveBeenCalled();
+    });
+
     it("allows ADMIN to update person", async () => {
       const { result } = await withStubbedServerContext(
         { user: testUsers.admin },
         () => updatePersonHandler(validUpdateData)
       );
 
-      expect(result.id).toBe("person-1");
+      expect(result).toEqual({ id: "person-1" });
     });
   });
 
@@ -403,7 +449,12 @@ describe("Person Handlers", () => {
 
       expect(result).toHaveLength(1);
       expect(result[0].firstName).toBe("John");
-      expect(mockSearchPersonsData).toHaveBeenCalledWith("john", undefined);
+      expect(mockSearchPersonsData).toHaveBeenCalledWith(
+        "john",
+        undefined,
+        undefined,
+        { role: "VIEWER", personId: null }
+      );
     });
 
     it("allows MEMBER to search persons", async () => {
@@ -429,7 +480,12 @@ describe("Person Handlers", () => {
         searchPersonsHandler({ query: "john", excludeId: "person-2" })
       );
 
-      expect(mockSearchPersonsData).toHaveBeenCalledWith("john", "person-2");
+      expect(mockSearchPersonsData).toHaveBeenCalledWith(
+        "john",
+        "person-2",
+        undefined,
+        { role: "VIEWER", personId: null }
+      );
     });
   });
 
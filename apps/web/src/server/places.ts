@@ -13,12 +13,16 @@ import {
   getPlaceHierarchyData,
   getPlaceHierarchyPathData,
   linkPersonToPlaceData,
+  requiresEditApprovalData,
   searchPlacesData,
+  submitEditForApprovalData,
   unlinkPersonFromPlaceData,
   updatePlaceData,
   updatePlacePersonLinkData,
 } from "@vamsa/lib/server/business";
+import { requireAuth } from "./middleware/require-auth";
 import type {
+  PendingApprovalResult,
   PersonPlace,
   PlaceHierarchyItem,
   PlaceResponse,
@@ -71,13 +75,18 @@ export const getPlaceHierarchy = createServerFn({ method: "GET" })
 
 /**
  * Server function: Get all places associated with a person
- * @returns Array of person-place relationships
+ * @returns Array of person-place relationships (empty for redacted persons)
  * @requires GET method
+ * @requires VIEWER role or higher (places follow the person's privacy)
  */
 export const getPersonPlaces = createServerFn({ method: "GET" })
   .inputValidator((data: { personId: string }) => data)
   .handler(async ({ data }): Promise<Array<PersonPlace>> => {
-    return getPersonPlacesData(data.personId);
+    const user = await requireAuth("VIEWER");
+    return getPersonPlacesData(data.personId, undefined, {
+      role: user.role,
+      personId: user.personId,
+    });
   });
 
 /**
@@ -90,7 +99,8 @@ export const createPlace = createServerFn({ method: "POST" })
     return placeCreateSchema.parse(data);
   })
   .handler(async ({ data }): Promise<PlaceResponse> => {
-    return createPlaceData(data);
+    const user = await requireAuth("MEMBER");
+    return createPlaceData(data, user.id);
   });
 
 /**
@@ -103,8 +113,9 @@ export const updatePlace = createServerFn({ method: "POST" })
     return placeUpdateSchema.parse(data);
   })
   .handler(async ({ data }): Promise<PlaceResponse> => {
+    const user = await requireAuth("MEMBER");
     const { id, ...updates } = data;
-    return updatePlaceData(id, updates);
+    return updatePlaceData(id, updates, user.id);
   });
 
 /**
@@ -116,12 +127,13 @@ export const updatePlace = createServerFn({ method: "POST" })
 export const deletePlace = createServerFn({ method: "POST" })
   .inputValidator((data: { id: string }) => data)
   .handler(async ({ data }): Promise<{ success: true }> => {
-    return deletePlaceData(data.id);
+    const user = await requireAuth("MEMBER");
+    return deletePlaceData(data.id, user.id);
   });
 
 /**
  * Server function: Link a person to a place
- * @returns Created link with place details
+ * @returns Created link with place details, or the pending suggestion when edits require approval
  * @requires POST method
  */
 export const linkPersonToPlace = createServerFn({ method: "POST" })
@@ -131,15 +143,27 @@ export const linkPersonToPlace = createServerFn({ method: "POST" })
   .handler(
     async ({
       data,
-    }): Promise<{
-      id: string;
-      place: PlaceResponse;
-      fromYear: number | null;
-      toYear: number | null;
-      type: PersonPlaceType | null;
-      createdAt: string;
-    }> => {
-      return linkPersonToPlaceData(data);
+    }): Promise<
+      | {
+          id: string;
+          place: PlaceResponse;
+          fromYear: number | null;
+          toYear: number | null;
+          type: PersonPlaceType | null;
+          createdAt: string;
+        }
+      | PendingApprovalResult
+    > => {
+      const user = await requireAuth("MEMBER");
+      if (await requiresEditApprovalData(user.role)) {
+        return submitEditForApprovalData(
+          "LINK_PLACE",
+          data.personId,
+          data,
+          user.id
+        );
+      }
+      return linkPersonToPlaceData(data, user.id);
     }
   );
 
@@ -168,7 +192,7 @@ export const getPlaceChildren = createServerFn({ method: "GET" })
 
 /**
  * Server function: Update a place-person link
- * @returns Updated link with place details
+ * @returns Updated link with place details, or the pending suggestion when edits require approval
  * @requires POST method
  */
 export const updatePlacePersonLink = createServerFn({ method: "POST" })
@@ -183,26 +207,44 @@ export const updatePlacePersonLink = createServerFn({ method: "POST" })
   .handler(
     async ({
       data,
-    }): Promise<{
-      id: string;
-      place: PlaceResponse;
-      parentName: string | null;
-      fromYear: number | null;
-      toYear: number | null;
-      type: PersonPlaceType | null;
-    }> => {
+    }): Promise<
+      | {
+          id: string;
+          place: PlaceResponse;
+          parentName: string | null;
+          fromYear: number | null;
+          toYear: number | null;
+          type: PersonPlaceType | null;
+        }
+      | PendingApprovalResult
+    > => {
+      const user = await requireAuth("MEMBER");
+      if (await requiresEditApprovalData(user.role)) {
+        return submitEditForApprovalData(
+          "UPDATE_PLACE_LINK",
+          null,
+          data,
+          user.id
+        );
+      }
       const { linkId, ...updates } = data;
-      return updatePlacePersonLinkData(linkId, updates);
+      return updatePlacePersonLinkData(linkId, updates, user.id);
     }
   );
 
 /**
  * Server function: Unlink a person from a place
- * @returns Success status
+ * @returns Success status, or the pending suggestion when edits require approval
  * @requires POST method
  */
 export const unlinkPersonFromPlace = createServerFn({ method: "POST" })
   .inputValidator((data: { linkId: string }) => data)
-  .handler(async ({ data }): Promise<{ success: true }> => {
-    return unlinkPersonFromPlaceData(data.linkId);
-  });
+  .handler(
+    async ({ data }): Promise<{ success: true } | PendingApprovalResult> => {
+      const user = await requireAuth("MEMBER");
+      if (await requiresEditApprovalData(user.role)) {
+        return submitEditForApprovalData("UNLINK_PLACE", null, data, user.id);
+      }
+      return unlinkPersonFromPlaceData(data.linkId, user.id);
+    }
+  );
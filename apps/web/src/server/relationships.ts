@@ -8,10 +8,14 @@ import {
 import { z } from "zod";
 import { drizzleDb, drizzleSchema } from "@vamsa/lib/server";
 import {
+  applyPersonPrivacy,
   createRelationshipData,
   deleteRelationshipData,
+  getPrivacyPolicy,
   getRelationshipData,
   listRelationshipsData,
+  requiresEditApprovalData,
+  submitEditForApprovalData,
   updateRelationshipData,
 } from "@vamsa/lib/server/business";
 import { requireAuth } from "./middleware/require-auth";
@@ -41,10 +45,13 @@ export const listRelationships = createServerFn({ method: "GET" })
     return schema.parse(data);
   })
   .handler(async ({ data }) => {
+    const user = await requireAuth("VIEWER");
     try {
       const relationships = await listRelationshipsData(
         data.personId,
-        data.type
+        data.type,
+        undefined,
+        { role: user.role, personId: user.personId }
       );
       return relationships;
     } catch (error) {
@@ -73,8 +80,12 @@ export const getRelationship = createServerFn({ method: "GET" })
     return schema.parse(data);
   })
   .handler(async ({ data }) => {
+    const user = await requireAuth("VIEWER");
     try {
-      const relationship = await getRelationshipData(data.id);
+      const relationship = await getRelationshipData(data.id, undefined, {
+        role: user.role,
+        personId: user.personId,
+      });
       return relationship;
     } catch (error) {
       log
@@ -91,11 +102,12 @@ export const getRelationship = createServerFn({ method: "GET" })
  * Server function that creates a relationship with automatic bidirectional syncing.
  * Validates input using the relationshipCreateSchema from @vamsa/schemas.
  *
- * Requires MEMBER role.
+ * Requires MEMBER role. Submitted for review instead when edits require
+ * approval.
  *
  * Method: POST
  * Input: RelationshipCreateInput
- * Output: { id: string }
+ * Output: { id: string }, or the pending suggestion
  */
 export const createRelationship = createServerFn({ method: "POST" })
   .inputValidator((data: RelationshipCreateInput) => {
@@ -103,9 +115,17 @@ export const createRelationship = createServerFn({ method: "POST" })
   })
   .handler(async ({ data }) => {
     const user = await requireAuth("MEMBER");
+    if (await requiresEditApprovalData(user.role)) {
+      return submitEditForApprovalData(
+        "ADD_RELATIONSHIP",
+        data.personId,
+        data,
+        user.id
+      );
+    }
 
     try {
-      const result = await createRelationshipData(data);
+      const result = await createRelationshipData(data, user.id);
 
       log.info(
         { relationshipId: result.id, createdBy: user.id, type: data.type },
@@ -128,11 +148,12 @@ export const createRelationship = createServerFn({ method: "POST" })
  * Server function that updates a relationship's dates.
  * For SPOUSE relationships, also syncs the inverse relationship.
  *
- * Requires MEMBER role.
+ * Requires MEMBER role. Submitted for review instead when edits require
+ * approval.
  *
  * Method: POST
  * Input: RelationshipUpdateInput with id
- * Output: { id: string }
+ * Output: { id: string }, or the pending suggestion
  */
 export const updateRelationship = createServerFn({ method: "POST" })
   .inputValidator((data: { id: string } & RelationshipUpdateInput) => {
@@ -146,10 +167,18 @@ export const updateRelationship = createServerFn({ method: "POST" })
   })
   .handler(async ({ data }) => {
     const user = await requireAuth("MEMBER");
+    if (await requiresEditApprovalData(user.role)) {
+      return submitEditForApprovalData(
+        "UPDATE_RELATIONSHIP",
+        null,
+        data,
+        user.id
+      );
+    }
 
     try {
       const { id, ...updateInput } = data;
-      const result = await updateRelationshipData(id, updateInput);
+      const result = await updateRelationshipData(id, updateInput, user.id);
 
       log.info(
         { relationshipId: id, updatedBy: user.id },
@@ -172,11 +201,12 @@ export const updateRelationship = createServerFn({ method: "POST" })
  * Server function that deletes a relationship and its inverse.
  * Maintains bidirectional consistency by also deleting the inverse relationship.
  *
- * Requires MEMBER role.
+ * Requires MEMBER role. Submitted for review instead when edits require
+ * approval.
  *
  * Method: POST
  * Input: { id: string }
- * Output: { success: boolean }
+ * Output: { success: boolean }, or the pending suggestion
  */
 export const deleteRelationship = createServerFn({ method: "POST" })
   .inputValidator((data: { id: string }) => {
@@ -187,9 +217,17 @@ export const deleteRelationship = createServerFn({ method: "POST" })
   })
   .handler(async ({ data }) => {
     const user = await requireAuth("MEMBER");
+    if (await requiresEditApprovalData(user.role)) {
+      return submitEditForApprovalData(
+        "DELETE_RELATIONSHIP",
+        null,
+        data,
+        user.id
+      );
+    }
 
     try {
-      const result = await deleteRelationshipData(data.id);
+      const result = await deleteRelationshipData(data.id, user.id);
 
       log.info(
         { relationshipId: data.id, deletedBy: user.id },
@@ -217,23 +255,30 @@ export const deleteRelationship = createServerFn({ method: "POST" })
  */
 export const getFamilyTree = createServerFn({ method: "GET" }).handler(
   async () => {
+    const user = await requireAuth("VIEWER");
     try {
-      const [persons, relationships] = await Promise.all([
+      const [persons, relationships, privacy] = await Promise.all([
         drizzleDb.select().from(drizzleSchema.persons),
         drizzleDb.select().from(drizzleSchema.relationships),
+        getPrivacyPolicy(
+          { role: user.role, personId: user.personId },
+          drizzleDb
+        ),
       ]);
 
       return {
-        nodes: persons.map((p: typeof drizzleSchema.persons.$inferSelect) => ({
-          id: p.id,
-          firstName: p.firstName,
-          lastName: p.lastName,
-          gender: p.gender,
-          dateOfBirth: p.dateOfBirth?.toISOString().split("T")[0] ?? null,
-          dateOfPassing: p.dateOfPassing?.toISOString().split("T")[0] ?? null,
-          isLiving: p.isLiving,
-          photoUrl: p.photoUrl,
-        })),
+        nodes: persons
+          .map((p) => applyPersonPrivacy(privacy, p))
+          .map((p: typeof drizzleSchema.persons.$inferSelect) => ({
+            id: p.id,
+            firstName: p.firstName,
+            lastName: p.lastName,
+            gender: p.gender,
+            dateOfBirth: p.dateOfBirth?.toISOString().split("T")[0] ?? null,
+            dateOfPassing: p.dateOfPassing?.toISOString().split("T")[0] ?? null,
+            isLiving: p.isLiving,
+            photoUrl: p.photoUrl,
+          })),
         edges: relationships.map(
           (r: typeof drizzleSchema.relationships.$inferSelect) => ({
             id: r.id,
@@ -6,19 +6,50 @@
  * - NLP intent classification and query routing
  * - Relationship map building
  * - FTS search execution
+ * - Person result redaction for viewers without access
+ * - Entity search with privacy filtering and person link resolution
  *
  * It is dynamically imported by the server function in search.ts
  * to prevent these dependencies from leaking into the client bundle.
  */
 
 import { drizzleDb, getDbDriver } from "@vamsa/api";
-import { classifyIntent, executeSearch, sanitizeQuery } from "@vamsa/lib";
+import {
+  classifyIntent,
+  emptySearchFacets,
+  executeSearch,
+  pedigreeKey,
+  sanitizeQuery,
+} from "@vamsa/lib";
 import { PgSearchEngine } from "@vamsa/lib/search-engine-pg";
 import { SqliteSearchEngine } from "@vamsa/lib/search-engine-sqlite";
 import { loggers } from "@vamsa/lib/logger";
+import {
+  canViewRecord,
+  getPrivacyPolicy,
+  isPersonRedacted,
+  redactPerson,
+} from "@vamsa/lib/server/business/privacy";
 import { requireAuth } from "./middleware/require-auth";
-import type { RelationshipDataMaps, SearchResults } from "@vamsa/lib";
-import type { PersonSearchResultItem, SearchPeopleInput } from "./search";
+import type {
+  ParentPedigree,
+  RelationshipDataMaps,
+  SearchEngine,
+  SearchEntityRow,
+  SearchResults,
+} from "@vamsa/lib";
+import type {
+  PrivacyPolicy,
+  PrivacySubject,
+  PrivacyViewer,
+} from "@vamsa/lib/server/business/privacy";
+import type {
+  EntitySearchResultItem,
+  EntitySearchResultPage,
+  PersonSearchResultItem,
+  SearchEntitiesInput,
+  SearchPeopleInput,
+} from "./search";
 
 /** Type for the database instance (for DI) */
 export type SearchDb = typeof drizzleDb;
@@ -40,7 +71,8 @@ function convertSetMapToArrayMap(
 
 /**
  * Build relationship data maps from database for use by relationship handlers
- * Fetches all persons and creates parent/child/spouse maps
+ * Fetches all persons and creates parent/child/spouse/partner maps, plus the
+ * pedigree of every parent link that is not by birth
  *
  * @param db Database instance to use (for DI)
  * @returns RelationshipDataMaps with people map and relationship maps
@@ -76,6 +108,8 @@ export async function buildRelationshipMaps(
     const parents = new Map<string, Set<string>>();
     const children = new Map<string, Set<string>>();
     const spouses = new Map<string, Set<string>>();
+    const partners = new Map<string, Set<string>>();
+    const pedigrees = new Map<string, ParentPedigree>();
 
     for (const rel of rels) {
       // Parent relationship
@@ -84,6 +118,13 @@ export async function buildRelationshipMaps(
           parents.set(rel.personId, new Set());
         }
         parents.get(rel.personId)!.add(rel.relatedPersonId);
+
+        if (rel.pedigree && rel.pedigree !== "BIRTH") {
+          pedigrees.set(
+            pedigreeKey(rel.personId, rel.relatedPersonId),
+            rel.pedigree
+          );
+        }
       }
 
       // Child relationship (inverse of parent)
@@ -101,6 +142,14 @@ export async function buildRelationshipMaps(
         }
         spouses.get(rel.personId)!.add(rel.relatedPersonId);
       }
+
+      // Unmarried partner relationships
+      if (rel.type === "PARTNER") {
+        if (!partners.has(rel.personId)) {
+          partners.set(rel.personId, new Set());
+        }
+        partners.get(rel.personId)!.add(rel.relatedPersonId);
+      }
     }
 
     return {
@@ -109,6 +158,8 @@ export async function buildRelationshipMaps(
         parents: convertSetMapToArrayMap(parents),
         children: convertSetMapToArrayMap(children),
         spouses: convertSetMapToArrayMap(spouses),
+        partners: convertSetMapToArrayMap(partners),
+        pedigrees,
       },
       parentToChildren: children,
       childToParents: parents,
@@ -230,9 +281,58 @@ function extractPersonsFromNLPResults(
   return persons;
 }
 
+/**
+ * Create the search engine for the configured database driver
+ */
+function createSearchEngine(): SearchEngine {
+  return getDbDriver() === "sqlite"
+    ? // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      new SqliteSearchEngine(drizzleDb.$client as any)
+    : new PgSearchEngine(drizzleDb.$client);
+}
+
+/**
+ * Replace persons the viewer may not see with placeholders
+ *
+ * Search rows and the relationship people map carry no privacy level, so
+ * the levels are looked up for the returned persons only.
+ *
+ * @param items - Person results in ranked order
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
+ * @param db - Database instance to use (for DI)
+ * @returns Results in the same order, redacted where required
+ */
+export async function redactPersonResults(
+  items: Array<PersonSearchResultItem>,
+  viewer: PrivacyViewer,
+  db: SearchDb = drizzleDb
+): Promise<Array<PersonSearchResultItem>> {
+  if (!viewer || viewer.role === "ADMIN" || items.length === 0) return items;
+
+  const privacy = await getPrivacyPolicy(viewer, db);
+  const ids = items.map((item) => item.id);
+  const subjects = new Map<string, PrivacySubject>(
+    (
+      await db.query.persons.findMany({
+        columns: { id: true, isLiving: true, privacy: true },
+        where: (p, { inArray }) => inArray(p.id, ids),
+      })
+    ).map((person) => [person.id, person])
+  );
+
+  return items.map((item) => {
+    const subject = subjects.get(item.id) ?? {
+      id: item.id,
+      isLiving: item.isLiving,
+    };
+    return isPersonRedacted(privacy, subject) ? redactPerson(item) : item;
+  });
+}
+
 /**
  * Search people by name and bio using PostgreSQL FTS
  * Returns results ranked by relevance with query timing information.
+ * Persons the viewer may not see are returned as placeholders.
  *
  * @requires VIEWER role or higher
  * @throws Error if database query fails
@@ -240,7 +340,8 @@ function extractPersonsFromNLPResults(
 export async function searchPeopleHandler(
   data: SearchPeopleInput
 ): Promise<SearchResults<PersonSearchResultItem>> {
-  await requireAuth("VIEWER");
+  const user = await requireAuth("VIEWER");
+  const viewer: PrivacyViewer = { role: user.role, personId: user.personId };
 
   const startTime = Date.now();
   const sanitized = sanitizeQuery(data.query);
@@ -269,9 +370,9 @@ export async function searchPeopleHandler(
 
         // Extract person results from NLP handler output
         // people map has RuntimePersonData at runtime (wider than RelationshipNode type)
-        const personResults = extractPersonsFromNLPResults(
-          nlpResult.results,
-          relationships.people
+        const personResults = await redactPersonResults(
+          extractPersonsFromNLPResults(nlpResult.results, relationships.people),
+          viewer
         );
 
         log.info(
@@ -305,21 +406,15 @@ export async function searchPeopleHandler(
     }
 
     // Use traditional FTS search as fallback or for person name queries
-    const searchEngine =
-      getDbDriver() === "sqlite"
-        ? // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          new SqliteSearchEngine(drizzleDb.$client as any)
-        : new PgSearchEngine(drizzleDb.$client);
+    const searchEngine = createSearchEngine();
     const ftsResults = await searchEngine.searchPersons(data.query, {
       limit: data.limit,
       offset: data.offset,
     });
 
-    const queryTime = Date.now() - startTime;
-
     // Map SearchPersonRow to PersonSearchResultItem
-    const results = ftsResults.results.map((r) => ({
-      item: {
+    const items = await redactPersonResults(
+      ftsResults.results.map((r) => ({
         id: r.item.id,
         firstName: r.item.firstName,
         lastName: r.item.lastName,
@@ -332,10 +427,16 @@ export async function searchPeopleHandler(
           ? new Date(r.item.dateOfPassing as string | number)
           : null,
         isLiving: r.item.isLiving,
-      },
-      rank: r.rank,
+      })),
+      viewer
+    );
+    const results = items.map((item, index) => ({
+      item,
+      rank: ftsResults.results[index].rank,
     }));
 
+    const queryTime = Date.now() - startTime;
+
     log.info(
       {
         query: sanitized,
@@ -361,3 +462,243 @@ export async function searchPeopleHandler(
     throw error;
   }
 }
+
+/**
+ * Find the persons linked to places, sources and media in entity results
+ *
+ * Events and research notes carry their owner in `personId`; the other
+ * entity types are linked through PlacePersonLink, EventSource /
+ * ResearchNote and PersonMedia.
+ *
+ * @param rows - Entity rows from the search engine
+ * @param db - Database instance to use (for DI)
+ * @returns Map of "entityType:id" to linked person IDs, in link order
+ */
+async function getLinkedPersonIds(
+  rows: Array<SearchEntityRow>,
+  db: SearchDb
+): Promise<Map<string, Array<string>>> {
+  const idsOf = (type: SearchEntityRow["entityType"]) =>
+    rows.filter((row) => row.entityType === type).map((row) => row.id);
+  const placeIds = idsOf("place");
+  const sourceIds = idsOf("source");
+  const mediaIds = idsOf("media");
+
+  const [placeLinks, eventSources, sourceNotes, personMedia] =
+    await Promise.all([
+      placeIds.length > 0
+        ? db.query.placePersonLinks.findMany({
+            columns: { placeId: true, personId: true },
+            where: (link, { inArray }) => inArray(link.placeId, placeIds),
+          })
+        : [],
+      sourceIds.length > 0
+        ? db.query.eventSources.findMany({
+            columns: { sourceId: true, personId: true },
+            where: (es, { inArray }) => inArray(es.sourceId, sourceIds),
+          })
+        : [],
+      sourceIds.length > 0
+        ? db.query.researchNotes.findMany({
+            columns: { sourceId: true, personId: true },
+            where: (note, { inArray }) => inArray(note.sourceId, sourceIds),
+          })
+        : [],
+      mediaIds.length > 0
+        ? db.query.personMedias.findMany({
+            columns: { mediaId: true, personId: true },
+            where: (pm, { inArray }) => inArray(pm.mediaId, mediaIds),
+          })
+        : [],
+    ]);
+
+  const linked = new Map<string, Array<string>>();
+  const add = (key: string, personId: string) => {
+    const ids = linked.get(key) ?? [];
+    if (!ids.includes(personId)) ids.push(personId);
+    linked.set(key, ids);
+  };
+
+  for (const row of rows) {
+    if (row.personId) add(`${row.entityType}:${row.id}`, row.personId);
+  }
+  for (const link of placeLinks) add(`place:${link.placeId}`, link.personId);
+  for (const link of [...eventSources, ...sourceNotes]) {
+    add(`source:${link.sourceId}`, link.personId);
+  }
+  for (const link of personMedia) add(`media:${link.mediaId}`, link.personId);
+
+  return linked;
+}
+
+/**
+ * Apply privacy rules to entity rows and pick the person each result opens
+ *
+ * Events and media follow `canViewRecord`: their own level wins, otherwise
+ * they are hidden when their owner (any linked person, for media) is
+ * redacted. Research notes are hidden with their redacted owner. Places and
+ * sources are shared records and stay visible, but only link to persons
+ * the viewer may see.
+ *
+ * @param rows - Entity rows from the search engine
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
+ * @param db - Database instance to use (for DI)
+ * @returns Visible result items in input order
+ */
+export async function resolveEntityResults(
+  rows: Array<SearchEntityRow>,
+  viewer: PrivacyViewer,
+  db: SearchDb = drizzleDb
+): Promise<Array<EntitySearchResultItem>> {
+  if (rows.length === 0) return [];
+
+  const linked = await getLinkedPersonIds(rows, db);
+
+  let privacy: PrivacyPolicy | undefined;
+  const owners = new Map<string, PrivacySubject>();
+  if (viewer.role !== "ADMIN") {
+    privacy = await getPrivacyPolicy(viewer, db);
+    const personIds = [...new Set([...linked.values()].flat())];
+    if (personIds.length > 0) {
+      const persons = await db.query.persons.findMany({
+        columns: { id: true, isLiving: true, privacy: true },
+        where: (p, { inArray }) => inArray(p.id, personIds),
+      });
+      for (const person of persons) owners.set(person.id, person);
+    }
+  }
+
+  const isRedacted = (personId: string) => {
+    if (!privacy) return false;
+    const owner = owners.get(personId);
+    return owner ? isPersonRedacted(privacy, owner) : true;
+  };
+
+  const items: Array<EntitySearchResultItem> = [];
+  for (const row of rows) {
+    const personIds = linked.get(`${row.entityType}:${row.id}`) ?? [];
+
+    if (privacy) {
+      const ownerRedacted = personIds.some(isRedacted);
+      if (
+        (row.entityType === "event" || row.entityType === "media") &&
+        !canViewRecord(privacy, row, ownerRedacted)
+      ) {
+        continue;
+      }
+      if (row.entityType === "researchNote" && ownerRedacted) {
+        continue;
+      }
+    }
+
+    items.push({
+      entityType: row.entityType,
+      id: row.id,
+      title: row.title,
+      subtitle: row.subtitle,
+      personId: personIds.find((id) => !isRedacted(id)) ?? null,
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Search events, places, sources, research notes and media
+ * Returns results ranked within each entity type, facet counts for the
+ * type filters, and only the records the viewer may see.
+ *
+ * For non-admin viewers every match is filtered before the page is taken,
+ * so records they may not see are left out of the total and facet counts
+ * as well as the results.
+ *
+ * @requires VIEWER role or higher
+ * @throws Error if database query fails
+ */
+export async function searchEntitiesHandler(
+  data: SearchEntitiesInput
+): Promise<EntitySearchResultPage> {
+  const user = await requireAuth("VIEWER");
+
+  const startTime = Date.now();
+  const sanitized = sanitizeQuery(data.query);
+
+  if (!sanitized) {
+    return {
+      results: [],
+      total: 0,
+      facets: emptySearchFacets(),
+      queryTime: Date.now() - startTime,
+    };
+  }
+
+  try {
+    const engine = createSearchEngine();
+    const config = {
+      entityTypes: data.entityTypes,
+      limit: data.limit,
+      offset: data.offset,
+    };
+    const filtered = user.role !== "ADMIN";
+
+    let searchResults = await engine.searchEntities(data.query, config);
+    if (filtered && searchResults.total > 0) {
+      searchResults = await engine.searchEntities(data.query, {
+        ...config,
+        limit: Math.max(...Object.values(searchResults.facets)),
+        offset: 0,
+      });
+    }
+
+    let items = await resolveEntityResults(
+      searchResults.results.map((r) => r.item),
+      { role: user.role, personId: user.personId }
+    );
+    let { total, facets } = searchResults;
+    if (filtered) {
+      // Results arrive best first, so each type's page is cut in that order
+      facets = emptySearchFacets();
+      items = items.filter((item) => {
+        const position = facets[item.entityType]++;
+        return position >= data.offset && position < data.offset + data.limit;
+      });
+      total = Object.values(facets).reduce((sum, count) => sum + count, 0);
+    }
+    const ranks = new Map(
+      searchResults.results.map((r) => [
+        `${r.item.entityType}:${r.item.id}`,
+        r.rank,
+      ])
+    );
+
+    const queryTime = Date.now() - startTime;
+
+    log.info(
+      {
+        query: sanitized,
+        resultCount: items.length,
+        queryTime,
+        total,
+      },
+      "Entity search executed"
+    );
+
+    return {
+      results: items.map((item) => ({
+        item,
+        rank: ranks.get(`${item.entityType}:${item.id}`) ?? 0,
+      })),
+      total,
+      facets,
+      queryTime,
+    };
+  } catch (error) {
+    const queryTime = Date.now() - startTime;
+    log
+      .withErr(error)
+      .ctx({ query: sanitized, queryTime })
+      .msg("Entity search query failed");
+
+    throw error;
+  }
+}
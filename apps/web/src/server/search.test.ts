@@ -7,12 +7,21 @@
  * - Database search execution
  * - NLP fallback behavior
  * - Authentication requirements
+ * - Person result redaction
+ * - Entity search privacy filtering and person links
  */
 
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { asAdmin, asUnauthenticated, asViewer } from "@test/server-fn-context";
 import { initializeServerI18n } from "@vamsa/lib/server";
-import { searchPeopleHandler } from "./search-handler";
+import { SYSTEM_VIEWER } from "@vamsa/lib/server/business";
+import {
+  redactPersonResults,
+  resolveEntityResults,
+  searchEntitiesHandler,
+  searchPeopleHandler,
+} from "./search-handler";
+import type { SearchDb } from "./search-handler";
 
 beforeEach(async () => {
   await initializeServerI18n();
@@ -25,6 +34,7 @@ const {
   mockClassifyIntent,
   mockExecuteSearch,
   mockSanitizeQuery,
+  mockSearchEntities,
   mockDrizzleDb,
 } = vi.hoisted(() => {
   const createSelectBuilder = () => {
@@ -76,6 +86,25 @@ const {
       const trimmed = query.trim();
       return trimmed.length > 0 ? trimmed : "";
     }),
+    mockSearchEntities: vi.fn(async (_query: string, _config?: unknown) => ({
+      results: [
+        {
+          item: {
+            entityType: "place",
+            id: "place-1",
+            title: "Mumbai",
+            subtitle: null as string | null,
+            personId: null as string | null,
+            privacy: null as string | null,
+            rank: 0.8,
+          },
+          rank: 0.8,
+        },
+      ],
+      total: 1,
+      facets: { event: 0, place: 1, source: 0, researchNote: 0, media: 0 },
+      queryTime: 5,
+    })),
     mockDrizzleDb: {
       select: () => createSelectBuilder(),
       query: {
@@ -102,6 +131,13 @@ const {
             },
           ],
         },
+        familySettings: {
+          findFirst: async () => ({ defaultPrivacy: "MEMBERS_ONLY" }),
+        },
+        placePersonLinks: { findMany: async () => [] },
+        eventSources: { findMany: async () => [] },
+        researchNotes: { findMany: async () => [] },
+        personMedias: { findMany: async () => [] },
       },
       $client: {
         query: async (sql: string, _params: Array<unknown>) => {
@@ -136,7 +172,15 @@ vi.mock("@vamsa/lib", () => ({
   buildCombinedSearchQuery: mockBuildCombinedSearchQuery,
   buildPersonSearchCountQuery: mockBuildPersonSearchCountQuery,
   classifyIntent: mockClassifyIntent,
+  emptySearchFacets: () => ({
+    event: 0,
+    place: 0,
+    source: 0,
+    researchNote: 0,
+    media: 0,
+  }),
   executeSearch: mockExecuteSearch,
+  pedigreeKey: (childId: string, parentId: string) => `${childId}:${parentId}`,
   sanitizeQuery: mockSanitizeQuery,
   RelationshipDataMaps: {},
   SearchResults: {},
@@ -184,6 +228,9 @@ vi.mock("@vamsa/lib/search-engine-pg", () => ({
         queryTime: 10,
       };
     }
+    async searchEntities(query: string, config?: unknown) {
+      return mockSearchEntities(query, config);
+    }
   },
 }));
 
@@ -616,3 +663,297 @@ describe("searchPeople server function", () => {
     });
   });
 });
+
+describe("redactPersonResults", () => {
+  const item = (id: string, isLiving: boolean) => ({
+    id,
+    firstName: "Asha",
+    lastName: "Rao",
+    maidenName: "Iyer",
+    photoUrl: "/media/asha.jpg",
+    dateOfBirth: new Date("1990-01-15"),
+    dateOfPassing: null,
+    isLiving,
+  });
+
+  function createDb(
+    persons: Array<{ id: string; isLiving: boolean; privacy: string | null }>
+  ) {
+    return {
+      query: {
+        familySettings: {
+          findFirst: async () => ({ defaultPrivacy: "PUBLIC" }),
+        },
+        persons: { findMany: vi.fn(async () => persons) },
+      },
+    } as unknown as SearchDb;
+  }
+
+  const persons = [
+    { id: "living", isLiving: true, privacy: null },
+    { id: "dead", isLiving: false, privacy: null },
+  ];
+
+  it("replaces living persons with placeholders for a viewer", async () => {
+    const results = await redactPersonResults(
+      [item("living", true), item("dead", false)],
+      { role: "VIEWER" },
+      createDb(persons)
+    );
+
+    expect(results[0]).toEqual(
+      expect.objectContaining({
+        id: "living",
+        firstName: "Living",
+        lastName: "Person",
+        maidenName: null,
+        photoUrl: null,
+        dateOfBirth: null,
+      })
+    );
+    expect(results[1]).toEqual(item("dead", false));
+  });
+
+  it("shows viewers their own linked person", async () => {
+    const results = await redactPersonResults(
+      [item("living", true)],
+      { role: "VIEWER", personId: "living" },
+      createDb(persons)
+    );
+
+    expect(results[0].firstName).toBe("Asha");
+  });
+
+  it("leaves results untouched for admins", async () => {
+    const db = createDb(persons);
+
+    const results = await redactPersonResults(
+      [item("living", true)],
+      { role: "ADMIN" },
+      db
+    );
+
+    expect(results[0].firstName).toBe("Asha");
+    expect(db.query.persons.findMany).not.toHaveBeenCalled();
+  });
+});
+
+describe("searchEntities server function", () => {
+  it("requires authentication", async () => {
+    await expect(
+      asUnauthenticated(async () => {
+        return await searchEntitiesHandler({
+          query: "mumbai",
+          limit: 5,
+          offset: 0,
+        });
+      })
+    ).rejects.toThrow(/notAuthenticated|log in/i);
+  });
+
+  it("returns ranked entity results with facet counts", async () => {
+    const { result } = await asViewer(async () => {
+      return await searchEntitiesHandler({
+        query: "mumbai",
+        limit: 5,
+        offset: 0,
+      });
+    });
+
+    expect(result.results).toEqual([
+      {
+        item: {
+          entityType: "place",
+          id: "place-1",
+          title: "Mumbai",
+          subtitle: null,
+          personId: null,
+        },
+        rank: 0.8,
+      },
+    ]);
+    expect(result.facets.place).toBe(1);
+    expect(result.total).toBe(1);
+  });
+
+  it("leaves records a viewer may not see out of the total and facets", async () => {
+    const event = {
+      item: {
+        entityType: "event",
+        id: "event-1",
+        title: "Birth",
+        subtitle: null,
+        // Living, so members only under the family default
+        personId: "person-1",
+        privacy: null,
+        rank: 0.9,
+      },
+      rank: 0.9,
+    };
+    const matches = async () => ({
+      results: [
+        event,
+        {
+          item: {
+            entityType: "place",
+            id: "place-1",
+            title: "Mumbai",
+            subtitle: null,
+            personId: null,
+            privacy: null,
+            rank: 0.8,
+          },
+          rank: 0.8,
+        },
+      ],
+      total: 2,
+      facets: { event: 1, place: 1, source: 0, researchNote: 0, media: 0 },
+      queryTime: 5,
+    });
+    // Once for the counts, once for every match
+    mockSearchEntities
+      .mockImplementationOnce(matches)
+      .mockImplementationOnce(matches);
+
+    const { result } = await asViewer(async () => {
+      return await searchEntitiesHandler({
+        query: "mumbai",
+        limit: 5,
+        offset: 0,
+      });
+    });
+
+    expect(result.results.map((r) => r.item.id)).toEqual(["place-1"]);
+    expect(result.facets).toEqual({
+      event: 0,
+      place: 1,
+      source: 0,
+      researchNote: 0,
+      media: 0,
+    });
+    expect(result.total).toBe(1);
+    expect(mockSearchEntities).toHaveBeenLastCalledWith("mumbai", {
+      entityTypes: undefined,
+      limit: 1,
+      offset: 0,
+    });
+  });
+
+  it("returns empty results and facets for an empty query", async () => {
+    const { result } = await asViewer(async () => {
+      return await searchEntitiesHandler({
+        query: "   ",
+        limit: 5,
+        offset: 0,
+      });
+    });
+
+    expect(result.results).toEqual([]);
+    expect(result.facets.event).toBe(0);
+  });
+});
+
+describe("resolveEntityResults", () => {
+  const row = (
+    entityType: "event" | "place" | "source" | "researchNote" | "media",
+    id: string,
+    extra: { personId?: string; privacy?: string } = {}
+  ) => ({
+    entityType,
+    id,
+    title: id,
+    subtitle: null,
+    personId: extra.personId ?? null,
+    privacy: extra.privacy ?? null,
+    rank: 1,
+  });
+
+  function createDb(
+    persons: Array<{ id: string; isLiving: boolean; privacy: string | null }>
+  ) {
+    return {
+      query: {
+        familySettings: {
+          findFirst: async () => ({ defaultPrivacy: "PUBLIC" }),
+        },
+        persons: { findMany: vi.fn(async () => persons) },
+        placePersonLinks: {
+          findMany: async () => [{ placeId: "place-1", personId: "living" }],
+        },
+        eventSources: {
+          findMany: async () => [{ sourceId: "source-1", personId: "dead" }],
+        },
+        researchNotes: { findMany: async () => [] },
+        personMedias: {
+          findMany: async () => [{ mediaId: "media-1", personId: "living" }],
+        },
+      },
+    } as unknown as SearchDb;
+  }
+
+  const persons = [
+    { id: "living", isLiving: true, privacy: null },
+    { id: "dead", isLiving: false, privacy: null },
+  ];
+
+  it("links every entity type to a person without privacy checks for trusted callers", async () => {
+    const db = createDb(persons);
+
+    const items = await resolveEntityResults(
+      [
+        row("event", "event-1", { personId: "living" }),
+        row("place", "place-1"),
+        row("source", "source-1"),
+        row("media", "media-1"),
+      ],
+      SYSTEM_VIEWER,
+      db
+    );
+
+    expect(items.map((item) => [item.id, item.personId])).toEqual([
+      ["event-1", "living"],
+      ["place-1", "living"],
+      ["source-1", "dead"],
+      ["media-1", "living"],
+    ]);
+    expect(db.query.persons.findMany).not.toHaveBeenCalled();
+  });
+
+  it("hides records owned by persons redacted for the viewer", async () => {
+    const items = await resolveEntityResults(
+      [
+        row("event", "event-1", { personId: "living" }),
+        row("event", "event-2", { personId: "dead" }),
+        row("researchNote", "note-1", { personId: "living" }),
+        row("media", "media-1"),
+      ],
+      { role: "VIEWER" },
+      createDb(persons)
+    );
+
+    expect(items.map((item) => item.id)).toEqual(["event-2"]);
+  });
+
+  it("keeps shared records but drops links to redacted persons", async () => {
+    const items = await resolveEntityResults(
+      [row("place", "place-1"), row("source", "source-1")],
+      { role: "VIEWER" },
+      createDb(persons)
+    );
+
+    expect(items).toEqual([
+      expect.objectContaining({ id: "place-1", personId: null }),
+      expect.objectContaining({ id: "source-1", personId: "dead" }),
+    ]);
+  });
+
+  it("honors an explicit public level on an event of a redacted person", async () => {
+    const items = await resolveEntityResults(
+      [row("event", "event-1", { personId: "living", privacy: "PUBLIC" })],
+      { role: "VIEWER" },
+      createDb(persons)
+    );
+
+    expect(items.map((item) => item.id)).toEqual(["event-1"]);
+  });
+});
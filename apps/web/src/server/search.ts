@@ -9,6 +9,8 @@
 
 import { createServerFn } from "@tanstack/react-start";
 import { z } from "zod";
+import { SEARCH_ENTITY_TYPES } from "@vamsa/lib/search-engine";
+import type { SearchEntityType } from "@vamsa/lib/search-engine";
 import type { SearchResults } from "@vamsa/lib";
 
 /**
@@ -67,3 +69,59 @@ export const searchPeople = createServerFn({ method: "GET" })
     const { searchPeopleHandler } = await import("./search-handler");
     return searchPeopleHandler(data);
   });
+
+/**
+ * Entity search result item (event, place, source, research note or media)
+ *
+ * `personId` is the person page the result opens: the owner of an event or
+ * research note, or the first visible person linked to a place, source or
+ * media object. Null when no such person exists.
+ */
+export interface EntitySearchResultItem {
+  entityType: SearchEntityType;
+  id: string;
+  title: string;
+  subtitle: string | null;
+  personId: string | null;
+}
+
+/**
+ * Entity search results with per-type match counts for facet filters
+ */
+export interface EntitySearchResultPage extends SearchResults<EntitySearchResultItem> {
+  facets: Record<SearchEntityType, number>;
+}
+
+/**
+ * Search entities input schema. `limit` and `offset` apply per entity type.
+ */
+const searchEntitiesInputSchema = z.object({
+  query: z.string().min(1).max(200),
+  entityTypes: z.array(z.enum(SEARCH_ENTITY_TYPES)).min(1).optional(),
+  limit: z.number().int().min(1).max(20).default(5),
+  offset: z.number().int().min(0).default(0),
+});
+
+/**
+ * Input type for entity search handler
+ */
+export type SearchEntitiesInput = z.infer<typeof searchEntitiesInputSchema>;
+
+/**
+ * Server function: Search events, places, sources, research notes and media
+ * Returns results ranked within each entity type plus facet counts, with
+ * records the viewer may not see removed.
+ *
+ * @returns Entity search results with facets and timing info
+ * @requires VIEWER role or higher
+ * @throws Error if database query fails
+ */
+export const searchEntities = createServerFn({ method: "GET" })
+  .inputValidator((data: unknown) => {
+    return searchEntitiesInputSchema.parse(data);
+  })
+  .handler(async ({ data }): Promise<EntitySearchResultPage> => {
+    // Dynamic import keeps server-only dependencies out of the client bundle
+    const { searchEntitiesHandler } = await import("./search-handler");
+    return searchEntitiesHandler(data);
+  });
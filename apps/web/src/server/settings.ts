@@ -28,6 +28,8 @@ const updateSettingsSchema = z.object({
     .refine((val) => !val || /^https?:\/\//.test(val), "Invalid URL")
     .nullable()
     .optional(),
+  stripPhotoLocation: z.boolean().optional(),
+  aiHistoryEnabled: z.boolean().optional(),
 });
 
 /**
@@ -21,6 +21,7 @@ import {
   updateResearchNoteData,
   updateSourceData,
 } from "@vamsa/lib/server/business";
+import { requireAuth } from "./middleware/require-auth";
 import type {
   EventSourceResult,
   GeneratedCitation,
@@ -42,7 +43,11 @@ import type {
 export const getSource = createServerFn({ method: "GET" })
   .inputValidator((data: { sourceId: string }) => data)
   .handler(async ({ data }): Promise<SourceDetail> => {
-    return getSourceData(data.sourceId);
+    const user = await requireAuth("VIEWER");
+    return getSourceData(data.sourceId, undefined, {
+      role: user.role,
+      personId: user.personId,
+    });
   });
 
 /**
@@ -52,7 +57,11 @@ export const getSource = createServerFn({ method: "GET" })
 export const listSources = createServerFn({ method: "GET" })
   .inputValidator((data: { type?: string; personId?: string } = {}) => data)
   .handler(async ({ data }): Promise<SourceListResult> => {
-    return listSourcesData(data.type, data.personId);
+    const user = await requireAuth("VIEWER");
+    return listSourcesData(data.type, data.personId, undefined, {
+      role: user.role,
+      personId: user.personId,
+    });
   });
 
 /**
@@ -159,7 +168,11 @@ export const linkSourceToEvent = createServerFn({ method: "POST" })
 export const getResearchNotes = createServerFn({ method: "GET" })
   .inputValidator((data: { personId: string }) => data)
   .handler(async ({ data }): Promise<ResearchNotesGrouped> => {
-    return getResearchNotesData(data.personId);
+    const user = await requireAuth("VIEWER");
+    return getResearchNotesData(data.personId, undefined, {
+      role: user.role,
+      personId: user.personId,
+    });
   });
 
 /**
@@ -182,7 +195,11 @@ export const generateCitation = createServerFn({ method: "POST" })
 export const getPersonSources = createServerFn({ method: "GET" })
   .inputValidator((data: { id: string }) => data)
   .handler(async ({ data }): Promise<PersonSourcesResponse> => {
-    return getPersonSourcesData(data.id);
+    const user = await requireAuth("VIEWER");
+    return getPersonSourcesData(data.id, undefined, {
+      role: user.role,
+      personId: user.personId,
+    });
   });
 
 // Export types for public API
@@ -13,6 +13,7 @@ import type {
   SuggestionListResult,
   SuggestionReviewResult,
 } from "@vamsa/lib/server/business";
+import type { SuggestionType } from "@vamsa/schemas";
 
 // Define JsonValue type locally for JSON column handling
 type JsonValue =
@@ -75,7 +76,7 @@ export const getPendingSuggestionsCount = createServerFn({
 export const createSuggestion = createServerFn({ method: "POST" })
   .inputValidator(
     (data: {
-      type: "CREATE" | "UPDATE" | "DELETE" | "ADD_RELATIONSHIP";
+      type: SuggestionType;
       targetPersonId?: string | null;
       suggestedData: JsonValue;
       reason?: string;
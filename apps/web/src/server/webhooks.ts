@@ -0,0 +1,105 @@
+import { createServerFn } from "@tanstack/react-start";
+import { z } from "zod";
+import { webhookCreateSchema, webhookUpdateSchema } from "@vamsa/schemas";
+import {
+  createWebhookData,
+  deleteWebhookData,
+  getWebhookDeliveriesData,
+  getWebhooksData,
+  rotateWebhookSecretData,
+  sendTestWebhookData,
+  updateWebhookData,
+} from "@vamsa/lib/server/business";
+import { requireAuth } from "./middleware/require-auth";
+import type { WebhookCreateInput, WebhookUpdateInput } from "@vamsa/schemas";
+import type {
+  WebhookDeliveryRecord,
+  WebhookSummary,
+  WebhookWithSecret,
+} from "@vamsa/lib/server/business";
+
+const webhookIdSchema = z.object({ webhookId: z.string().min(1) });
+
+/**
+ * Server function: Get all webhook endpoints
+ * @returns List of endpoints, without their secrets
+ * @requires ADMIN role
+ */
+export const getWebhooks = createServerFn({ method: "GET" }).handler(
+  async (): Promise<Array<WebhookSummary>> => {
+    await requireAuth("ADMIN");
+    return getWebhooksData();
+  }
+);
+
+/**
+ * Server function: Register a webhook endpoint
+ * @returns The endpoint and its signing secret, shown once
+ * @requires ADMIN role
+ */
+export const createWebhook = createServerFn({ method: "POST" })
+  .inputValidator((data: WebhookCreateInput) => webhookCreateSchema.parse(data))
+  .handler(async ({ data }): Promise<WebhookWithSecret> => {
+    const admin = await requireAuth("ADMIN");
+    return createWebhookData(data, admin.id);
+  });
+
+/**
+ * Server function: Update a webhook endpoint
+ * @returns The updated endpoint
+ * @requires ADMIN role
+ */
+export const updateWebhook = createServerFn({ method: "POST" })
+  .inputValidator((data: WebhookUpdateInput) => webhookUpdateSchema.parse(data))
+  .handler(async ({ data }): Promise<WebhookSummary> => {
+    await requireAuth("ADMIN");
+    return updateWebhookData(data);
+  });
+
+/**
+ * Server function: Replace a webhook endpoint's signing secret
+ * @returns The endpoint and its new secret, shown once
+ * @requires ADMIN role
+ */
+export const rotateWebhookSecret = createServerFn({ method: "POST" })
+  .inputValidator((data: { webhookId: string }) => webhookIdSchema.parse(data))
+  .handler(async ({ data }): Promise<WebhookWithSecret> => {
+    await requireAuth("ADMIN");
+    return rotateWebhookSecretData(data.webhookId);
+  });
+
+/**
+ * Server function: Delete a webhook endpoint and its delivery log
+ * @returns Success status with deleted endpoint ID
+ * @requires ADMIN role
+ */
+export const deleteWebhook = createServerFn({ method: "POST" })
+  .inputValidator((data: { webhookId: string }) => webhookIdSchema.parse(data))
+  .handler(async ({ data }) => {
+    await requireAuth("ADMIN");
+    return deleteWebhookData(data.webhookId);
+  });
+
+/**
+ * Server function: Get recent deliveries of a webhook endpoint
+ * @returns Deliveries, newest first
+ * @requires ADMIN role
+ */
+export const getWebhookDeliveries = createServerFn({ method: "GET" })
+  .inputValidator((data: { webhookId: string }) => webhookIdSchema.parse(data))
+  .handler(async ({ data }): Promise<Array<WebhookDeliveryRecord>> => {
+    await requireAuth("ADMIN");
+    return getWebhookDeliveriesData(data.webhookId);
+  });
+
+/**
+ * Server function: Send a test event to a webhook endpoint
+ * @returns The finished test delivery
+ * @requires ADMIN role
+ */
+export const sendTestWebhook = createServerFn({ method: "POST" })
+  .inputValidator((data: { webhookId: string }) => webhookIdSchema.parse(data))
+  .handler(async ({ data }): Promise<WebhookDeliveryRecord> => {
+    await requireAuth("ADMIN");
+    return sendTestWebhookData(data.webhookId);
+  });
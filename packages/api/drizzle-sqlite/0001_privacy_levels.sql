@@ -0,0 +1,3 @@
+ALTER TABLE `Person` ADD `privacy` text;--> statement-breakpoint
+ALTER TABLE `Event` ADD `privacy` text;--> statement-breakpoint
+ALTER TABLE `MediaObject` ADD `privacy` text;
\ No newline at end of file
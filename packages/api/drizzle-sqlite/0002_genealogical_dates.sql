@@ -0,0 +1,3 @@
+ALTER TABLE `Person` ADD `dateOfBirthDetail` text;--> statement-breakpoint
+ALTER TABLE `Person` ADD `dateOfPassingDetail` text;--> statement-breakpoint
+ALTER TABLE `Event` ADD `dateDetail` text;
\ No newline at end of file
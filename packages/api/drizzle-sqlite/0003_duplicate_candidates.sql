@@ -0,0 +1,16 @@
+CREATE TABLE `DuplicateCandidate` (
+	`id` text PRIMARY KEY NOT NULL,
+	`personId` text NOT NULL,
+	`duplicatePersonId` text NOT NULL,
+	`score` integer NOT NULL,
+	`reasons` text NOT NULL,
+	`status` text DEFAULT 'PENDING' NOT NULL,
+	`reviewedById` text,
+	`reviewedAt` integer,
+	`auditLogId` text,
+	`createdAt` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `idx_duplicateCandidate_personId_duplicatePersonId` ON `DuplicateCandidate` (`personId`,`duplicatePersonId`);--> statement-breakpoint
+CREATE INDEX `idx_duplicateCandidate_status` ON `DuplicateCandidate` (`status`);--> statement-breakpoint
+CREATE INDEX `idx_duplicateCandidate_duplicatePersonId` ON `DuplicateCandidate` (`duplicatePersonId`);
\ No newline at end of file
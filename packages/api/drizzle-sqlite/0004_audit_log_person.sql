@@ -0,0 +1,2 @@
+ALTER TABLE `AuditLog` ADD `personId` text;--> statement-breakpoint
+CREATE INDEX `idx_auditLog_personId` ON `AuditLog` (`personId`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `User` ADD `notificationPreferences` text;
\ No newline at end of file
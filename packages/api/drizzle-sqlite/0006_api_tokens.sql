@@ -0,0 +1,18 @@
+CREATE TABLE `ApiToken` (
+	`id` text PRIMARY KEY NOT NULL,
+	`userId` text NOT NULL,
+	`name` text NOT NULL,
+	`tokenHash` text NOT NULL,
+	`tokenPrefix` text NOT NULL,
+	`scopes` text NOT NULL,
+	`expiresAt` integer NOT NULL,
+	`isActive` integer DEFAULT true NOT NULL,
+	`lastUsedAt` integer,
+	`rotatedAt` integer,
+	`rotatedFrom` text,
+	`createdAt` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `ApiToken_tokenHash_unique` ON `ApiToken` (`tokenHash`);--> statement-breakpoint
+CREATE INDEX `idx_apiToken_userId` ON `ApiToken` (`userId`);--> statement-breakpoint
+CREATE INDEX `idx_apiToken_expiresAt` ON `ApiToken` (`expiresAt`);
\ No newline at end of file
@@ -0,0 +1,31 @@
+CREATE TABLE `WebhookDelivery` (
+	`id` text PRIMARY KEY NOT NULL,
+	`webhookId` text NOT NULL,
+	`event` text NOT NULL,
+	`payload` text NOT NULL,
+	`status` text NOT NULL,
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`nextAttemptAt` integer,
+	`lastAttemptAt` integer,
+	`responseStatus` integer,
+	`responseBody` text,
+	`error` text,
+	`createdAt` integer NOT NULL,
+	`deliveredAt` integer
+);
+--> statement-breakpoint
+CREATE INDEX `idx_webhookDelivery_webhookId_createdAt` ON `WebhookDelivery` (`webhookId`,`createdAt`);--> statement-breakpoint
+CREATE INDEX `idx_webhookDelivery_status_nextAttemptAt` ON `WebhookDelivery` (`status`,`nextAttemptAt`);--> statement-breakpoint
+CREATE TABLE `Webhook` (
+	`id` text PRIMARY KEY NOT NULL,
+	`url` text NOT NULL,
+	`description` text,
+	`secret` text NOT NULL,
+	`events` text NOT NULL,
+	`isActive` integer DEFAULT true NOT NULL,
+	`createdById` text,
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `idx_webhook_isActive` ON `Webhook` (`isActive`);
\ No newline at end of file
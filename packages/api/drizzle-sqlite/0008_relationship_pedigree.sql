@@ -0,0 +1,3 @@
+ALTER TABLE `Relationship` ADD `pedigree` text;--> statement-breakpoint
+ALTER TABLE `Relationship` ADD `startDate` text;--> statement-breakpoint
+ALTER TABLE `Relationship` ADD `endDate` text;
\ No newline at end of file
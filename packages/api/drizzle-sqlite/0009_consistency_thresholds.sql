@@ -0,0 +1 @@
+ALTER TABLE `FamilySettings` ADD `consistencyThresholds` text;
\ No newline at end of file
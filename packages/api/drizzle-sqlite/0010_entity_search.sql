@@ -0,0 +1,98 @@
+-- FTS5 table for searching events, places, sources, research notes and media.
+-- Persons keep their own persons_fts table. `title` is weighted above `body`.
+CREATE VIRTUAL TABLE IF NOT EXISTS entity_search_fts USING fts5(
+  entityType UNINDEXED,
+  id UNINDEXED,
+  title,
+  body
+);
+--> statement-breakpoint
+INSERT INTO entity_search_fts(entityType, id, title, body)
+SELECT 'event', id, coalesce(description,''), coalesce(place,'') FROM Event;
+--> statement-breakpoint
+INSERT INTO entity_search_fts(entityType, id, title, body)
+SELECT 'place', id, name, coalesce(description,'') || ' ' || coalesce(alternativeNames,'') FROM Place;
+--> statement-breakpoint
+INSERT INTO entity_search_fts(entityType, id, title, body)
+SELECT 'source', id, title, coalesce(author,'') || ' ' || coalesce(description,'') FROM Source;
+--> statement-breakpoint
+INSERT INTO entity_search_fts(entityType, id, title, body)
+SELECT 'researchNote', id, findings, '' FROM ResearchNote;
+--> statement-breakpoint
+INSERT INTO entity_search_fts(entityType, id, title, body)
+SELECT 'media', id, coalesce(title,''), coalesce(description,'') FROM MediaObject;
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS entity_search_event_insert AFTER INSERT ON Event BEGIN
+  INSERT INTO entity_search_fts(entityType, id, title, body)
+  VALUES ('event', new.id, coalesce(new.description,''), coalesce(new.place,''));
+END;
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS entity_search_event_update AFTER UPDATE ON Event BEGIN
+  DELETE FROM entity_search_fts WHERE entityType = 'event' AND id = old.id;
+  INSERT INTO entity_search_fts(entityType, id, title, body)
+  VALUES ('event', new.id, coalesce(new.description,''), coalesce(new.place,''));
+END;
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS entity_search_event_delete AFTER DELETE ON Event BEGIN
+  DELETE FROM entity_search_fts WHERE entityType = 'event' AND id = old.id;
+END;
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS entity_search_place_insert AFTER INSERT ON Place BEGIN
+  INSERT INTO entity_search_fts(entityType, id, title, body)
+  VALUES ('place', new.id, new.name, coalesce(new.description,'') || ' ' || coalesce(new.alternativeNames,''));
+END;
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS entity_search_place_update AFTER UPDATE ON Place BEGIN
+  DELETE FROM entity_search_fts WHERE entityType = 'place' AND id = old.id;
+  INSERT INTO entity_search_fts(entityType, id, title, body)
+  VALUES ('place', new.id, new.name, coalesce(new.description,'') || ' ' || coalesce(new.alternativeNames,''));
+END;
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS entity_search_place_delete AFTER DELETE ON Place BEGIN
+  DELETE FROM entity_search_fts WHERE entityType = 'place' AND id = old.id;
+END;
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS entity_search_source_insert AFTER INSERT ON Source BEGIN
+  INSERT INTO entity_search_fts(entityType, id, title, body)
+  VALUES ('source', new.id, new.title, coalesce(new.author,'') || ' ' || coalesce(new.description,''));
+END;
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS entity_search_source_update AFTER UPDATE ON Source BEGIN
+  DELETE FROM entity_search_fts WHERE entityType = 'source' AND id = old.id;
+  INSERT INTO entity_search_fts(entityType, id, title, body)
+  VALUES ('source', new.id, new.title, coalesce(new.author,'') || ' ' || coalesce(new.description,''));
+END;
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS entity_search_source_delete AFTER DELETE ON Source BEGIN
+  DELETE FROM entity_search_fts WHERE entityType = 'source' AND id = old.id;
+END;
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS entity_search_note_insert AFTER INSERT ON ResearchNote BEGIN
+  INSERT INTO entity_search_fts(entityType, id, title, body)
+  VALUES ('researchNote', new.id, new.findings, '');
+END;
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS entity_search_note_update AFTER UPDATE ON ResearchNote BEGIN
+  DELETE FROM entity_search_fts WHERE entityType = 'researchNote' AND id = old.id;
+  INSERT INTO entity_search_fts(entityType, id, title, body)
+  VALUES ('researchNote', new.id, new.findings, '');
+END;
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS entity_search_note_delete AFTER DELETE ON ResearchNote BEGIN
+  DELETE FROM entity_search_fts WHERE entityType = 'researchNote' AND id = old.id;
+END;
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS entity_search_media_insert AFTER INSERT ON MediaObject BEGIN
+  INSERT INTO entity_search_fts(entityType, id, title, body)
+  VALUES ('media', new.id, coalesce(new.title,''), coalesce(new.description,''));
+END;
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS entity_search_media_update AFTER UPDATE ON MediaObject BEGIN
+  DELETE FROM entity_search_fts WHERE entityType = 'media' AND id = old.id;
+  INSERT INTO entity_search_fts(entityType, id, title, body)
+  VALUES ('media', new.id, coalesce(new.title,''), coalesce(new.description,''));
+END;
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS entity_search_media_delete AFTER DELETE ON MediaObject BEGIN
+  DELETE FROM entity_search_fts WHERE entityType = 'media' AND id = old.id;
+END;
@@ -0,0 +1,4 @@
+ALTER TABLE `PersonMedia` ADD `regionX` real;--> statement-breakpoint
+ALTER TABLE `PersonMedia` ADD `regionY` real;--> statement-breakpoint
+ALTER TABLE `PersonMedia` ADD `regionWidth` real;--> statement-breakpoint
+ALTER TABLE `PersonMedia` ADD `regionHeight` real;
\ No newline at end of file
@@ -0,0 +1,7 @@
+ALTER TABLE `FamilySettings` ADD `stripPhotoLocation` integer DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE `MediaObject` ADD `capturedAt` integer;--> statement-breakpoint
+ALTER TABLE `MediaObject` ADD `latitude` real;--> statement-breakpoint
+ALTER TABLE `MediaObject` ADD `longitude` real;--> statement-breakpoint
+ALTER TABLE `MediaObject` ADD `camera` text;--> statement-breakpoint
+ALTER TABLE `MediaObject` ADD `placeId` text;--> statement-breakpoint
+CREATE INDEX `idx_mediaObject_placeId` ON `MediaObject` (`placeId`);
\ No newline at end of file
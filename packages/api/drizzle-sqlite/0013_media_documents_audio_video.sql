@@ -0,0 +1,4 @@
+ALTER TABLE `FamilySettings` ADD `mediaSizeLimits` text;--> statement-breakpoint
+ALTER TABLE `MediaObject` ADD `duration` real;--> statement-breakpoint
+ALTER TABLE `MediaObject` ADD `pageCount` integer;--> statement-breakpoint
+ALTER TABLE `MediaObject` ADD `transcriptPath` text;
\ No newline at end of file
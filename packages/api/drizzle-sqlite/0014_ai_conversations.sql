@@ -0,0 +1,20 @@
+CREATE TABLE `AIConversation` (
+	`id` text PRIMARY KEY NOT NULL,
+	`userId` text NOT NULL,
+	`title` text NOT NULL,
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `idx_aiConversation_userId_updatedAt` ON `AIConversation` (`userId`,`updatedAt`);--> statement-breakpoint
+CREATE TABLE `AIMessage` (
+	`id` text PRIMARY KEY NOT NULL,
+	`conversationId` text NOT NULL,
+	`role` text NOT NULL,
+	`content` text NOT NULL,
+	`citations` text,
+	`createdAt` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `idx_aiMessage_conversationId_createdAt` ON `AIMessage` (`conversationId`,`createdAt`);--> statement-breakpoint
+ALTER TABLE `FamilySettings` ADD `aiHistoryEnabled` integer DEFAULT true NOT NULL;
\ No newline at end of file
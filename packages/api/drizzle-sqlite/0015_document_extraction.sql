@@ -0,0 +1,5 @@
+ALTER TABLE `Source` ADD `mediaId` text;--> statement-breakpoint
+ALTER TABLE `Source` ADD `transcription` text;--> statement-breakpoint
+CREATE INDEX `idx_source_mediaId` ON `Source` (`mediaId`);--> statement-breakpoint
+ALTER TABLE `Suggestion` ADD `sourceId` text;--> statement-breakpoint
+CREATE INDEX `idx_suggestion_sourceId` ON `Suggestion` (`sourceId`);
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "Person" ADD COLUMN "privacy" "PrivacyLevel";--> statement-breakpoint
+ALTER TABLE "Event" ADD COLUMN "privacy" "PrivacyLevel";--> statement-breakpoint
+ALTER TABLE "MediaObject" ADD COLUMN "privacy" "PrivacyLevel";
\ No newline at end of file
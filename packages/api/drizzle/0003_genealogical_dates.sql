@@ -0,0 +1,3 @@
+ALTER TABLE "Person" ADD COLUMN "dateOfBirthDetail" jsonb;--> statement-breakpoint
+ALTER TABLE "Person" ADD COLUMN "dateOfPassingDetail" jsonb;--> statement-breakpoint
+ALTER TABLE "Event" ADD COLUMN "dateDetail" jsonb;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TYPE "public"."DuplicateStatus" AS ENUM('PENDING', 'DISMISSED', 'MERGED');--> statement-breakpoint
+ALTER TYPE "public"."AuditAction" ADD VALUE 'MERGE';--> statement-breakpoint
+CREATE TABLE "DuplicateCandidate" (
+	"id" text PRIMARY KEY NOT NULL,
+	"personId" text NOT NULL,
+	"duplicatePersonId" text NOT NULL,
+	"score" integer NOT NULL,
+	"reasons" jsonb NOT NULL,
+	"status" "DuplicateStatus" DEFAULT 'PENDING' NOT NULL,
+	"reviewedById" text,
+	"reviewedAt" timestamp,
+	"auditLogId" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "DuplicateCandidate_personId_duplicatePersonId_unique" UNIQUE("personId","duplicatePersonId")
+);
+--> statement-breakpoint
+CREATE INDEX "idx_duplicateCandidate_status" ON "DuplicateCandidate" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "idx_duplicateCandidate_duplicatePersonId" ON "DuplicateCandidate" USING btree ("duplicatePersonId");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "AuditLog" ADD COLUMN "personId" text;--> statement-breakpoint
+CREATE INDEX "idx_auditLog_personId" ON "AuditLog" USING btree ("personId");
\ No newline at end of file
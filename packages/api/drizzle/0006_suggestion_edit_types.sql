@@ -0,0 +1,16 @@
+ALTER TYPE "public"."SuggestionType" ADD VALUE 'UPDATE_RELATIONSHIP';--> statement-breakpoint
+ALTER TYPE "public"."SuggestionType" ADD VALUE 'DELETE_RELATIONSHIP';--> statement-breakpoint
+ALTER TYPE "public"."SuggestionType" ADD VALUE 'CREATE_EVENT';--> statement-breakpoint
+ALTER TYPE "public"."SuggestionType" ADD VALUE 'UPDATE_EVENT';--> statement-breakpoint
+ALTER TYPE "public"."SuggestionType" ADD VALUE 'DELETE_EVENT';--> statement-breakpoint
+ALTER TYPE "public"."SuggestionType" ADD VALUE 'ADD_EVENT_PARTICIPANT';--> statement-breakpoint
+ALTER TYPE "public"."SuggestionType" ADD VALUE 'REMOVE_EVENT_PARTICIPANT';--> statement-breakpoint
+ALTER TYPE "public"."SuggestionType" ADD VALUE 'LINK_PLACE';--> statement-breakpoint
+ALTER TYPE "public"."SuggestionType" ADD VALUE 'UPDATE_PLACE_LINK';--> statement-breakpoint
+ALTER TYPE "public"."SuggestionType" ADD VALUE 'UNLINK_PLACE';--> statement-breakpoint
+ALTER TYPE "public"."SuggestionType" ADD VALUE 'UPDATE_MEDIA';--> statement-breakpoint
+ALTER TYPE "public"."SuggestionType" ADD VALUE 'DELETE_MEDIA';--> statement-breakpoint
+ALTER TYPE "public"."SuggestionType" ADD VALUE 'SET_PRIMARY_PHOTO';--> statement-breakpoint
+ALTER TYPE "public"."SuggestionType" ADD VALUE 'UPLOAD_MEDIA';--> statement-breakpoint
+ALTER TYPE "public"."SuggestionType" ADD VALUE 'REORDER_MEDIA';--> statement-breakpoint
+ALTER TYPE "public"."SuggestionType" ADD VALUE 'LINK_MEDIA_TO_EVENT';
\ No newline at end of file
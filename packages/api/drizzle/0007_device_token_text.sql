@@ -0,0 +1 @@
+ALTER TABLE "DeviceToken" ALTER COLUMN "token" SET DATA TYPE text;
\ No newline at end of file
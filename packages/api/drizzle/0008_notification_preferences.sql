@@ -0,0 +1 @@
+ALTER TABLE "User" ADD COLUMN "notificationPreferences" jsonb;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "ApiToken" (
+	"id" text PRIMARY KEY NOT NULL,
+	"userId" text NOT NULL,
+	"name" text NOT NULL,
+	"tokenHash" text NOT NULL,
+	"tokenPrefix" text NOT NULL,
+	"scopes" text[] NOT NULL,
+	"expiresAt" timestamp NOT NULL,
+	"isActive" boolean DEFAULT true NOT NULL,
+	"lastUsedAt" timestamp,
+	"rotatedAt" timestamp,
+	"rotatedFrom" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "ApiToken_tokenHash_unique" UNIQUE("tokenHash")
+);
+--> statement-breakpoint
+CREATE INDEX "idx_apiToken_userId" ON "ApiToken" USING btree ("userId");--> statement-breakpoint
+CREATE INDEX "idx_apiToken_expiresAt" ON "ApiToken" USING btree ("expiresAt");
\ No newline at end of file
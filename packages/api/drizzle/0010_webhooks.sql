@@ -0,0 +1,31 @@
+CREATE TABLE "WebhookDelivery" (
+	"id" text PRIMARY KEY NOT NULL,
+	"webhookId" text NOT NULL,
+	"event" varchar(50) NOT NULL,
+	"payload" jsonb NOT NULL,
+	"status" varchar(20) NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"nextAttemptAt" timestamp,
+	"lastAttemptAt" timestamp,
+	"responseStatus" integer,
+	"responseBody" text,
+	"error" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"deliveredAt" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "Webhook" (
+	"id" text PRIMARY KEY NOT NULL,
+	"url" text NOT NULL,
+	"description" varchar(255),
+	"secret" text NOT NULL,
+	"events" text[] NOT NULL,
+	"isActive" boolean DEFAULT true NOT NULL,
+	"createdById" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "idx_webhookDelivery_webhookId_createdAt" ON "WebhookDelivery" USING btree ("webhookId","createdAt");--> statement-breakpoint
+CREATE INDEX "idx_webhookDelivery_status_nextAttemptAt" ON "WebhookDelivery" USING btree ("status","nextAttemptAt");--> statement-breakpoint
+CREATE INDEX "idx_webhook_isActive" ON "Webhook" USING btree ("isActive");
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TYPE "public"."ParentPedigree" AS ENUM('BIRTH', 'ADOPTED', 'FOSTER', 'GUARDIAN', 'SEALED');--> statement-breakpoint
+ALTER TYPE "public"."RelationshipType" ADD VALUE 'PARTNER';--> statement-breakpoint
+ALTER TYPE "public"."RelationshipType" ADD VALUE 'GODPARENT';--> statement-breakpoint
+ALTER TYPE "public"."RelationshipType" ADD VALUE 'GODCHILD';--> statement-breakpoint
+ALTER TABLE "Relationship" ADD COLUMN "pedigree" "ParentPedigree";--> statement-breakpoint
+ALTER TABLE "Relationship" ADD COLUMN "startDate" date;--> statement-breakpoint
+ALTER TABLE "Relationship" ADD COLUMN "endDate" date;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "FamilySettings" ADD COLUMN "consistencyThresholds" jsonb;
\ No newline at end of file
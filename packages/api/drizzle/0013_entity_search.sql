@@ -0,0 +1,29 @@
+CREATE INDEX IF NOT EXISTS event_fts_idx ON "Event" USING gin(
+  (
+    setweight(to_tsvector('english', COALESCE(description, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(place, '')), 'B')
+  )
+);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS place_fts_idx ON "Place" USING gin(
+  (
+    setweight(to_tsvector('english', name), 'A') ||
+    setweight(to_tsvector('english', COALESCE("alternativeNames"::text, '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(description, '')), 'C')
+  )
+);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS source_fts_idx ON "Source" USING gin(
+  (
+    setweight(to_tsvector('english', title), 'A') ||
+    setweight(to_tsvector('english', COALESCE(author, '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(description, '')), 'C')
+  )
+);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS research_note_fts_idx ON "ResearchNote" USING gin(
+  (setweight(to_tsvector('english', findings), 'A'))
+);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS media_object_fts_idx ON "MediaObject" USING gin(
+  (
+    setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(description, '')), 'B')
+  )
+);
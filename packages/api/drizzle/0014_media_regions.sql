@@ -0,0 +1,5 @@
+ALTER TYPE "public"."SuggestionType" ADD VALUE 'TAG_MEDIA_REGION';--> statement-breakpoint
+ALTER TABLE "PersonMedia" ADD COLUMN "regionX" double precision;--> statement-breakpoint
+ALTER TABLE "PersonMedia" ADD COLUMN "regionY" double precision;--> statement-breakpoint
+ALTER TABLE "PersonMedia" ADD COLUMN "regionWidth" double precision;--> statement-breakpoint
+ALTER TABLE "PersonMedia" ADD COLUMN "regionHeight" double precision;
\ No newline at end of file
@@ -0,0 +1,7 @@
+ALTER TABLE "FamilySettings" ADD COLUMN "stripPhotoLocation" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "MediaObject" ADD COLUMN "capturedAt" timestamp;--> statement-breakpoint
+ALTER TABLE "MediaObject" ADD COLUMN "latitude" double precision;--> statement-breakpoint
+ALTER TABLE "MediaObject" ADD COLUMN "longitude" double precision;--> statement-breakpoint
+ALTER TABLE "MediaObject" ADD COLUMN "camera" text;--> statement-breakpoint
+ALTER TABLE "MediaObject" ADD COLUMN "placeId" text;--> statement-breakpoint
+CREATE INDEX "idx_mediaObject_placeId" ON "MediaObject" USING btree ("placeId");
\ No newline at end of file
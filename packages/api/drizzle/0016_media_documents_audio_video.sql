@@ -0,0 +1,6 @@
+ALTER TYPE "public"."SuggestionType" ADD VALUE 'ATTACH_MEDIA_TRANSCRIPT';--> statement-breakpoint
+ALTER TYPE "public"."SuggestionType" ADD VALUE 'REMOVE_MEDIA_TRANSCRIPT';--> statement-breakpoint
+ALTER TABLE "FamilySettings" ADD COLUMN "mediaSizeLimits" jsonb;--> statement-breakpoint
+ALTER TABLE "MediaObject" ADD COLUMN "duration" double precision;--> statement-breakpoint
+ALTER TABLE "MediaObject" ADD COLUMN "pageCount" integer;--> statement-breakpoint
+ALTER TABLE "MediaObject" ADD COLUMN "transcriptPath" text;
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE "AIConversation" (
+	"id" text PRIMARY KEY NOT NULL,
+	"userId" text NOT NULL,
+	"title" varchar(255) NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "AIMessage" (
+	"id" text PRIMARY KEY NOT NULL,
+	"conversationId" text NOT NULL,
+	"role" varchar(20) NOT NULL,
+	"content" text NOT NULL,
+	"citations" jsonb,
+	"createdAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "FamilySettings" ADD COLUMN "aiHistoryEnabled" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+CREATE INDEX "idx_aiConversation_userId_updatedAt" ON "AIConversation" USING btree ("userId","updatedAt");--> statement-breakpoint
+CREATE INDEX "idx_aiMessage_conversationId_createdAt" ON "AIMessage" USING btree ("conversationId","createdAt");
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "Source" ADD COLUMN "mediaId" text;--> statement-breakpoint
+ALTER TABLE "Source" ADD COLUMN "transcription" text;--> statement-breakpoint
+ALTER TABLE "Suggestion" ADD COLUMN "sourceId" text;--> statement-breakpoint
+CREATE INDEX "idx_source_mediaId" ON "Source" USING btree ("mediaId");--> statement-breakpoint
+CREATE INDEX "idx_suggestion_sourceId" ON "Suggestion" USING btree ("sourceId");
\ No newline at end of file
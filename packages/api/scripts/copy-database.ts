@@ -0,0 +1,110 @@
+#!/usr/bin/env bun
+/**
+ * Database Copy Between Drivers
+ *
+ * Copies every table from one database into another, across PostgreSQL and
+ * SQLite in either direction, e.g. to move a growing family from SQLite to
+ * PostgreSQL or to take an offline SQLite copy. The target is migrated and
+ * must be empty. Each table is verified by row count and checksum, and the
+ * person search index is rebuilt afterwards. Media files are not copied.
+ *
+ * Usage: bun run packages/api/scripts/copy-database.ts --from <url> --to <url> [options]
+ *
+ * A URL starting with postgres:// or postgresql:// is PostgreSQL; anything
+ * else is a SQLite file path.
+ *
+ * Options:
+ *   --from <url>    Source database
+ *   --to <url>      Target database
+ *   --dry-run       Read and checksum the source without writing anything
+ *   --batch-size N  Rows per query (default 100)
+ */
+
+import {
+  copyDatabase,
+  loadDatabaseSchema,
+  openDatabase,
+} from "../src/drizzle/copy-database";
+
+const args = process.argv.slice(2);
+
+function getOption(name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+const from = getOption("--from");
+const to = getOption("--to");
+const dryRun = args.includes("--dry-run");
+// NaN when the option is given without a number
+const batchSize = args.includes("--batch-size")
+  ? Number(getOption("--batch-size"))
+  : undefined;
+
+const usage =
+  "Usage: copy-database.ts --from <url> --to <url> [--dry-run] [--batch-size N]";
+
+if (!from || !to) {
+  console.error(usage);
+  process.exit(2);
+}
+
+if (
+  batchSize !== undefined &&
+  !(Number.isInteger(batchSize) && batchSize > 0)
+) {
+  console.error(`--batch-size must be a positive integer\n${usage}`);
+  process.exit(2);
+}
+
+if (from === to) {
+  console.error("Source and target must be different databases");
+  process.exit(2);
+}
+
+const source = await openDatabase(from);
+// A dry run must not create or connect to the target
+const target = dryRun ? await loadDatabaseSchema(to) : await openDatabase(to);
+
+console.log(
+  `Copying ${source.driver} database to ${target.driver}${dryRun ? " (dry run)" : ""}`
+);
+
+try {
+  const result = await copyDatabase(source, target, {
+    dryRun,
+    batchSize,
+    onProgress: ({ table, tableNumber, tableCount, rows, done }) => {
+      if (done) {
+        console.log(`  [${tableNumber}/${tableCount}] ${table}: ${rows} rows`);
+      }
+    },
+  });
+
+  const totalRows = result.tables.reduce((sum, t) => sum + t.sourceRows, 0);
+  console.log(
+    `\n${dryRun ? "Would copy" : "Copied"} ${totalRows} rows in ${result.tables.length} tables`
+  );
+
+  if (result.searchIndexRebuilt) {
+    console.log("Rebuilt the person search index");
+  }
+
+  if (result.mismatches.length > 0) {
+    console.error(`\n${result.mismatches.length} tables failed verification:`);
+    for (const table of result.tables.filter((t) => !t.verified)) {
+      console.error(
+        `  ${table.table}: ${table.sourceRows} rows in source, ${table.targetRows} in target, checksums ${table.sourceChecksum === table.targetChecksum ? "match" : "differ"}`
+      );
+    }
+    process.exitCode = 1;
+  } else if (!dryRun) {
+    console.log("All tables verified by row count and checksum");
+  }
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+} finally {
+  await source.close();
+  if ("close" in target) await target.close();
+}
@@ -0,0 +1,58 @@
+#!/usr/bin/env bun
+/**
+ * Media Migration to S3
+ *
+ * Copies media files from local storage (MEDIA_STORAGE_PATH, or
+ * data/uploads/media) into the S3-compatible bucket configured for media.
+ * Files already in the bucket are skipped, so the command can be re-run
+ * after an interruption. Stored media paths do not change, so no database
+ * update is needed; switch MEDIA_STORAGE_PROVIDER to "s3" afterwards.
+ *
+ * Usage: bun run packages/api/scripts/migrate-media-to-s3.ts [options]
+ *
+ * Options:
+ *   --dry-run       List what would be copied without writing anything
+ *   --delete-local  Delete local files once they are in the bucket
+ *
+ * Environment:
+ *   MEDIA_S3_BUCKET, MEDIA_S3_PREFIX - Target bucket and optional key prefix
+ *   S3_ENDPOINT, S3_REGION, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY
+ */
+
+import {
+  LocalStorage,
+  S3Storage,
+  getLocalMediaRoot,
+  migrateMediaStorage,
+} from "../src/storage";
+
+const args = new Set(process.argv.slice(2));
+const dryRun = args.has("--dry-run");
+const deleteLocal = args.has("--delete-local");
+
+const source = new LocalStorage();
+const target = S3Storage.fromEnv();
+
+console.log(
+  `Migrating media from ${getLocalMediaRoot()} to bucket ${process.env.MEDIA_S3_BUCKET}${dryRun ? " (dry run)" : ""}`
+);
+
+const result = await migrateMediaStorage(source, target, {
+  dryRun,
+  deleteSource: deleteLocal,
+  onProgress: (key, status) => {
+    if (status !== "skipped") console.log(`  ${status}: ${key}`);
+  },
+});
+
+console.log(
+  `\n${dryRun ? "Would copy" : "Copied"} ${result.copied} files (${(result.bytes / 1024 / 1024).toFixed(1)} MB), skipped ${result.skipped} already in the bucket`
+);
+
+if (result.failed.length > 0) {
+  console.error(`\n${result.failed.length} files failed:`);
+  for (const { key, error } of result.failed) {
+    console.error(`  ${key}: ${error}`);
+  }
+  process.exit(1);
+}
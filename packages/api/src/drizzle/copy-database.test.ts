@@ -0,0 +1,236 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+  convertRow,
+  copyDatabase,
+  getDriverForUrl,
+  getTableCopyOrder,
+  loadDatabaseSchema,
+  openDatabase,
+} from "./copy-database";
+import * as pgSchema from "./schema";
+import * as sqliteSchema from "./schema-sqlite";
+
+import type { DatabaseConnection } from "./copy-database";
+
+describe("getDriverForUrl", () => {
+  it("detects PostgreSQL URLs", () => {
+    expect(getDriverForUrl("postgres://localhost/vamsa")).toBe("postgres");
+    expect(getDriverForUrl("postgresql://localhost/vamsa")).toBe("postgres");
+  });
+
+  it("treats anything else as a SQLite file", () => {
+    expect(getDriverForUrl("./data/vamsa.db")).toBe("sqlite");
+    expect(getDriverForUrl(":memory:")).toBe("sqlite");
+  });
+});
+
+describe("getTableCopyOrder", () => {
+  it("puts referenced tables first", () => {
+    const order = getTableCopyOrder(sqliteSchema);
+
+    expect(order.indexOf("Person")).toBeLessThan(order.indexOf("Relationship"));
+    expect(order.indexOf("Person")).toBeLessThan(order.indexOf("Event"));
+    expect(order.indexOf("Event")).toBeLessThan(
+      order.indexOf("EventParticipant")
+    );
+  });
+
+  it("orders both dialects the same way", () => {
+    expect(getTableCopyOrder(pgSchema)).toEqual(
+      getTableCopyOrder(sqliteSchema)
+    );
+  });
+});
+
+describe("convertRow", () => {
+  it("turns PostgreSQL dates into SQLite date text", () => {
+    const row = convertRow(
+      {
+        id: "p1",
+        dateOfBirth: new Date("1950-03-04T00:00:00Z"),
+        createdAt: new Date("2024-05-01T10:20:30Z"),
+      },
+      pgSchema.persons,
+      sqliteSchema.persons
+    );
+
+    expect(row).toEqual({
+      id: "p1",
+      dateOfBirth: "1950-03-04",
+      createdAt: new Date("2024-05-01T10:20:30Z"),
+    });
+  });
+
+  it("turns SQLite date text into PostgreSQL dates", () => {
+    const row = convertRow(
+      { dateOfBirth: "1950-03-04", isLiving: true },
+      sqliteSchema.persons,
+      pgSchema.persons
+    );
+
+    expect(row).toEqual({
+      dateOfBirth: new Date("1950-03-04T00:00:00Z"),
+      isLiving: true,
+    });
+  });
+});
+
+describe("copyDatabase", () => {
+  let dir: string;
+  let source: DatabaseConnection;
+  let target: DatabaseConnection;
+
+  beforeEach(async () => {
+    dir = path.join(os.tmpdir(), `vamsa-copy-${crypto.randomUUID()}`);
+    fs.mkdirSync(dir, { recursive: true });
+    source = await openDatabase(path.join(dir, "source.db"));
+    target = await openDatabase(path.join(dir, "target.db"));
+
+    await source.migrate();
+    const now = new Date("2024-05-01T10:20:30.456Z");
+    await source.db.insert(sqliteSchema.persons).values([
+      {
+        id: "p1",
+        firstName: "Ravi",
+        lastName: "Sharma",
+        profession: "Weaver",
+        dateOfBirth: "1950-03-04",
+        dateOfBirthDetail: { qualifier: "ABOUT", year: 1950 },
+        isLiving: false,
+        createdAt: now,
+        updatedAt: now,
+      },
+      {
+        id: "p2",
+        firstName: "Asha",
+        lastName: "Sharma",
+        isLiving: true,
+        createdAt: now,
+        updatedAt: now,
+      },
+    ]);
+    await source.db.insert(sqliteSchema.relationships).values([
+      {
+        id: "r1",
+        personId: "p2",
+        relatedPersonId: "p1",
+        type: "PARENT",
+        createdAt: now,
+        updatedAt: now,
+      },
+    ]);
+  });
+
+  afterEach(async () => {
+    await source.close();
+    await target.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("copies and verifies every table", async () => {
+    const progress: Array<string> = [];
+
+    const result = await copyDatabase(source, target, {
+      batchSize: 1,
+      onProgress: (p) => {
+        if (p.done) progress.push(`${p.table}:${p.rows}`);
+      },
+    });
+
+    expect(result.mismatches).toEqual([]);
+    expect(result.searchIndexRebuilt).toBe(true);
+    expect(result.tables.map((t) => t.table)).toEqual(
+      getTableCopyOrder(sqliteSchema)
+    );
+    expect(result.tables.every((t) => t.verified)).toBe(true);
+    expect(result.tables.find((t) => t.table === "Person")).toMatchObject({
+      sourceRows: 2,
+      targetRows: 2,
+    });
+    expect(progress).toContain("Person:2");
+    expect(progress).toContain("Relationship:1");
+
+    const persons = await target.db
+      .select()
+      .from(sqliteSchema.persons)
+      .orderBy(sqliteSchema.persons.id);
+    expect(persons[0]).toMatchObject({
+      firstName: "Ravi",
+      isLiving: false,
+      dateOfBirthDetail: { qualifier: "ABOUT", year: 1950 },
+    });
+  });
+
+  it("rebuilds the full-text search table", async () => {
+    await copyDatabase(source, target);
+
+    const { Database } = await import("bun:sqlite");
+    const sqlite = new Database(path.join(dir, "target.db"), {
+      readonly: true,
+    });
+    const rows = sqlite
+      .query("SELECT id FROM persons_fts WHERE persons_fts MATCH 'weaver'")
+      .all();
+    sqlite.close();
+
+    expect(rows).toEqual([{ id: "p1" }]);
+  });
+
+  it("leaves the target untouched in a dry run", async () => {
+    const result = await copyDatabase(source, target, { dryRun: true });
+
+    expect(result.searchIndexRebuilt).toBe(false);
+    expect(result.tables.find((t) => t.table === "Person")).toMatchObject({
+      sourceRows: 2,
+      targetRows: null,
+      verified: false,
+    });
+    await expect(
+      target.db.select().from(sqliteSchema.persons)
+    ).rejects.toThrow();
+  });
+
+  it("dry runs against a target that is never opened", async () => {
+    const targetPath = path.join(dir, "never-created.db");
+
+    const result = await copyDatabase(
+      source,
+      await loadDatabaseSchema(targetPath),
+      { dryRun: true }
+    );
+
+    expect(result.tables.find((t) => t.table === "Person")).toMatchObject({
+      sourceRows: 2,
+      targetRows: null,
+    });
+    expect(fs.existsSync(targetPath)).toBe(false);
+  });
+
+  it("refuses to copy into a target that is not open", async () => {
+    const schema = await loadDatabaseSchema(path.join(dir, "other.db"));
+
+    await expect(copyDatabase(source, schema)).rejects.toThrow("must be open");
+  });
+
+  it.each([0, -5, 1.5, Number.NaN])(
+    "refuses a batch size of %s",
+    async (batchSize) => {
+      await expect(copyDatabase(source, target, { batchSize })).rejects.toThrow(
+        "Batch size must be a positive integer"
+      );
+    }
+  );
+
+  it("refuses a target that already has data", async () => {
+    await copyDatabase(source, target);
+
+    await expect(copyDatabase(source, target)).rejects.toThrow(
+      "already has rows"
+    );
+  });
+});
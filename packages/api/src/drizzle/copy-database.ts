@@ -0,0 +1,569 @@
+/**
+ * Database Copy
+ *
+ * Copies a whole family database between drivers, e.g. from a small SQLite
+ * install to PostgreSQL when it grows, or back for an offline copy. Tables
+ * are copied in dependency order using each dialect's own schema, so Drizzle
+ * converts timestamps, booleans and JSON. Every table is then verified by row
+ * count and a checksum that ignores row order and the storage differences
+ * between the dialects.
+ */
+
+import { createHash } from "node:crypto";
+import { fileURLToPath } from "node:url";
+
+import {
+  One,
+  createTableRelationsHelpers,
+  extractTablesRelationalConfig,
+  getTableColumns,
+  getTableName,
+} from "drizzle-orm";
+
+import type { Column, Table } from "drizzle-orm";
+import type { DbDriver } from "./db";
+
+/** Rows read and written per query */
+const DEFAULT_BATCH_SIZE = 100;
+
+/**
+ * Minimal query surface shared by the PostgreSQL and SQLite Drizzle
+ * instances; their full types have no common supertype.
+ */
+interface RowQuery extends PromiseLike<Array<Record<string, unknown>>> {
+  orderBy: (...columns: Array<Column>) => RowQuery;
+  limit: (limit: number) => RowQuery;
+  offset: (offset: number) => RowQuery;
+}
+
+interface CopyDb {
+  select: () => { from: (table: Table) => RowQuery };
+  insert: (table: Table) => {
+    values: (rows: Array<Record<string, unknown>>) => PromiseLike<unknown>;
+  };
+}
+
+/**
+ * The driver and schema of a database, without connecting to it
+ */
+export interface DatabaseSchema {
+  driver: DbDriver;
+  schema: Record<string, unknown>;
+}
+
+/**
+ * An open database on either driver
+ */
+export interface DatabaseConnection extends DatabaseSchema {
+  db: CopyDb;
+  /** Run raw SQL, which may hold several statements */
+  execute: (statements: string) => Promise<void>;
+  /** Apply the Drizzle migrations for the driver */
+  migrate: () => Promise<void>;
+  close: () => Promise<void>;
+}
+
+/**
+ * Options for copying a database
+ */
+export interface CopyDatabaseOptions {
+  /** Read and checksum the source without touching the target */
+  dryRun?: boolean;
+  /** Rows per query (default 100) */
+  batchSize?: number;
+  /** Called after each batch and once more when a table is done */
+  onProgress?: (progress: CopyDatabaseProgress) => void;
+}
+
+export interface CopyDatabaseProgress {
+  table: string;
+  /** 1-based position of the table in the copy order */
+  tableNumber: number;
+  tableCount: number;
+  rows: number;
+  done: boolean;
+}
+
+/**
+ * Outcome for one table
+ */
+export interface CopiedTable {
+  table: string;
+  sourceRows: number;
+  sourceChecksum: string;
+  /** Null in a dry run */
+  targetRows: number | null;
+  targetChecksum: string | null;
+  verified: boolean;
+}
+
+/**
+ * Outcome of a database copy
+ */
+export interface CopyDatabaseResult {
+  tables: Array<CopiedTable>;
+  /** Tables whose row count or checksum differ after copying */
+  mismatches: Array<string>;
+  searchIndexRebuilt: boolean;
+}
+
+interface TableInfo {
+  name: string;
+  table: Table;
+  primaryKey: Array<Column>;
+  dependsOn: Set<string>;
+}
+
+/**
+ * Driver for a connection string: postgres:// URLs are PostgreSQL,
+ * anything else is a SQLite file path
+ */
+export function getDriverForUrl(url: string): DbDriver {
+  return url.startsWith("postgres://") || url.startsWith("postgresql://")
+    ? "postgres"
+    : "sqlite";
+}
+
+/**
+ * Load the schema for a database without opening it, e.g. for the target
+ * of a dry run, which must not be created
+ *
+ * @param url - PostgreSQL connection URL or SQLite file path
+ */
+export async function loadDatabaseSchema(url: string): Promise<DatabaseSchema> {
+  const driver = getDriverForUrl(url);
+  const schema =
+    driver === "sqlite"
+      ? await import("./schema-sqlite")
+      : await import("./schema");
+  return { driver, schema };
+}
+
+/**
+ * Open a standalone connection, loading only the needed driver
+ *
+ * @param url - PostgreSQL connection URL or SQLite file path
+ */
+export async function openDatabase(url: string): Promise<DatabaseConnection> {
+  if (getDriverForUrl(url) === "sqlite") {
+    const { Database } = await import("bun:sqlite");
+    const { drizzle } = await import("drizzle-orm/bun-sqlite");
+    const { migrate } = await import("drizzle-orm/bun-sqlite/migrator");
+    const schema = await import("./schema-sqlite");
+
+    const sqlite = new Database(url);
+    sqlite.exec("PRAGMA journal_mode = WAL;");
+    sqlite.exec("PRAGMA foreign_keys = ON;");
+    const db = drizzle(sqlite, { schema });
+
+    return {
+      driver: "sqlite",
+      db: db as unknown as CopyDb,
+      schema,
+      execute: async (statements) => {
+        sqlite.exec(statements);
+      },
+      migrate: async () => {
+        migrate(db, { migrationsFolder: getMigrationsFolder("sqlite") });
+      },
+      close: async () => sqlite.close(),
+    };
+  }
+
+  const { Pool } = await import("pg");
+  const { drizzle } = await import("drizzle-orm/node-postgres");
+  const { migrate } = await import("drizzle-orm/node-postgres/migrator");
+  const schema = await import("./schema");
+
+  const pool = new Pool({ connectionString: url });
+  const db = drizzle(pool, { schema });
+
+  return {
+    driver: "postgres",
+    db: db as unknown as CopyDb,
+    schema,
+    execute: async (statements) => {
+      await pool.query(statements);
+    },
+    migrate: async () => {
+      await migrate(db, { migrationsFolder: getMigrationsFolder("postgres") });
+    },
+    close: async () => {
+      await pool.end();
+    },
+  };
+}
+
+function getMigrationsFolder(driver: DbDriver): string {
+  const folder = driver === "sqlite" ? "drizzle-sqlite" : "drizzle";
+  return fileURLToPath(new URL(`../../${folder}`, import.meta.url));
+}
+
+/**
+ * Tables of a schema keyed by table name, with the tables each one points
+ * at through its relations
+ */
+function getTables(schema: Record<string, unknown>): Map<string, TableInfo> {
+  const { tables } = extractTablesRelationalConfig(
+    schema,
+    createTableRelationsHelpers
+  );
+  const result = new Map<string, TableInfo>();
+
+  for (const config of Object.values(tables)) {
+    const table = schema[config.tsName] as Table;
+    const name = getTableName(table);
+    const dependsOn = new Set<string>();
+
+    for (const relation of Object.values(config.relations)) {
+      // Only the side holding the key columns depends on the other table
+      if (relation instanceof One && relation.config?.fields.length) {
+        const referenced = getTableName(relation.referencedTable);
+        if (referenced !== name) dependsOn.add(referenced);
+      }
+    }
+
+    result.set(name, {
+      name,
+      table,
+      primaryKey: config.primaryKey,
+      dependsOn,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Table names ordered so referenced tables come before the tables pointing
+ * at them. Ties, and any tables left in a cycle, go alphabetically.
+ */
+export function getTableCopyOrder(
+  schema: Record<string, unknown>
+): Array<string> {
+  const tables = getTables(schema);
+  const order: Array<string> = [];
+  const remaining = new Set([...tables.keys()].sort());
+
+  while (remaining.size > 0) {
+    const ready = [...remaining].filter((name) =>
+      [...tables.get(name)!.dependsOn].every(
+        (dependency) => !remaining.has(dependency)
+      )
+    );
+    // Break a cycle by taking the first remaining table
+    const next = ready.length > 0 ? ready : [[...remaining][0]];
+
+    for (const name of next) {
+      order.push(name);
+      remaining.delete(name);
+    }
+  }
+
+  return order;
+}
+
+/**
+ * Convert a row read through one dialect's schema for writing through the
+ * other's. Drizzle maps most values itself; the gap is the date-only
+ * columns, which PostgreSQL reads as Dates and SQLite keeps as text.
+ */
+export function convertRow(
+  row: Record<string, unknown>,
+  sourceTable: Table,
+  targetTable: Table
+): Record<string, unknown> {
+  const sourceColumns = getTableColumns(sourceTable);
+  const targetColumns = getTableColumns(targetTable);
+  const converted: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(row)) {
+    const target = targetColumns[key];
+    if (!target) continue;
+
+    if (value instanceof Date && target.dataType === "string") {
+      const iso = value.toISOString();
+      converted[key] =
+        sourceColumns[key]?.columnType === "PgDate" ? iso.slice(0, 10) : iso;
+    } else if (typeof value === "string" && target.dataType === "date") {
+      converted[key] = new Date(value);
+    } else {
+      converted[key] = value;
+    }
+  }
+
+  return converted;
+}
+
+/**
+ * Comparable form of a value. Timestamps are cut to whole seconds because
+ * SQLite keeps no more, and object keys are sorted because PostgreSQL jsonb
+ * reorders them.
+ */
+function normalizeValue(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return Math.floor(value.getTime() / 1000);
+  if (Array.isArray(value)) return value.map(normalizeValue);
+  if (typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [
+          key,
+          normalizeValue((value as Record<string, unknown>)[key]),
+        ])
+    );
+  }
+  return value;
+}
+
+/**
+ * Order-independent checksum of a table's rows
+ */
+class TableChecksum {
+  private readonly rowDigests: Array<string> = [];
+
+  add(row: Record<string, unknown>): void {
+    this.rowDigests.push(
+      createHash("sha256")
+        .update(JSON.stringify(normalizeValue(row)))
+        .digest("hex")
+    );
+  }
+
+  get rows(): number {
+    return this.rowDigests.length;
+  }
+
+  digest(): string {
+    const hash = createHash("sha256");
+    for (const rowDigest of [...this.rowDigests].sort()) {
+      hash.update(rowDigest);
+    }
+    return hash.digest("hex");
+  }
+}
+
+/**
+ * Read a table in primary key order, one batch at a time
+ */
+async function* readBatches(
+  db: CopyDb,
+  info: TableInfo,
+  batchSize: number
+): AsyncGenerator<Array<Record<string, unknown>>> {
+  for (let offset = 0; ; offset += batchSize) {
+    const rows = await db
+      .select()
+      .from(info.table)
+      .orderBy(...info.primaryKey)
+      .limit(batchSize)
+      .offset(offset);
+    if (rows.length === 0) return;
+    yield rows;
+    if (rows.length < batchSize) return;
+  }
+}
+
+async function checksumTable(
+  db: CopyDb,
+  info: TableInfo,
+  batchSize: number
+): Promise<TableChecksum> {
+  const checksum = new TableChecksum();
+  for await (const rows of readBatches(db, info, batchSize)) {
+    for (const row of rows) checksum.add(row);
+  }
+  return checksum;
+}
+
+/**
+ * FTS5 setup from the end of drizzle-sqlite/0000_initial.sql. Drizzle's
+ * migrator runs only the first statement of each migration chunk, so these
+ * are missing from databases it created. The entity index from
+ * 0010_entity_search.sql is refilled so it matches the copied rows.
+ */
+const SQLITE_SEARCH_INDEX_SQL = `
+CREATE VIRTUAL TABLE IF NOT EXISTS persons_fts USING fts5(
+  id UNINDEXED, firstName, lastName, maidenName, profession, bio, birthPlace, nativePlace
+);
+CREATE TRIGGER IF NOT EXISTS persons_fts_insert AFTER INSERT ON Person BEGIN
+  INSERT INTO persons_fts(id, firstName, lastName, maidenName, profession, bio, birthPlace, nativePlace)
+  VALUES (new.id, new.firstName, new.lastName, coalesce(new.maidenName,''), coalesce(new.profession,''), coalesce(new.bio,''), coalesce(new.birthPlace,''), coalesce(new.nativePlace,''));
+END;
+CREATE TRIGGER IF NOT EXISTS persons_fts_update AFTER UPDATE ON Person BEGIN
+  DELETE FROM persons_fts WHERE id = old.id;
+  INSERT INTO persons_fts(id, firstName, lastName, maidenName, profession, bio, birthPlace, nativePlace)
+  VALUES (new.id, new.firstName, new.lastName, coalesce(new.maidenName,''), coalesce(new.profession,''), coalesce(new.bio,''), coalesce(new.birthPlace,''), coalesce(new.nativePlace,''));
+END;
+CREATE TRIGGER IF NOT EXISTS persons_fts_delete AFTER DELETE ON Person BEGIN
+  DELETE FROM persons_fts WHERE id = old.id;
+END;
+DELETE FROM persons_fts;
+INSERT INTO persons_fts(id, firstName, lastName, maidenName, profession, bio, birthPlace, nativePlace)
+SELECT id, firstName, lastName, coalesce(maidenName,''), coalesce(profession,''), coalesce(bio,''), coalesce(birthPlace,''), coalesce(nativePlace,'')
+FROM Person;
+CREATE VIRTUAL TABLE IF NOT EXISTS entity_search_fts USING fts5(
+  entityType UNINDEXED, id UNINDEXED, title, body
+);
+DELETE FROM entity_search_fts;
+INSERT INTO entity_search_fts(entityType, id, title, body)
+SELECT 'event', id, coalesce(description,''), coalesce(place,'') FROM Event;
+INSERT INTO entity_search_fts(entityType, id, title, body)
+SELECT 'place', id, name, coalesce(description,'') || ' ' || coalesce(alternativeNames,'') FROM Place;
+INSERT INTO entity_search_fts(entityType, id, title, body)
+SELECT 'source', id, title, coalesce(author,'') || ' ' || coalesce(description,'') FROM Source;
+INSERT INTO entity_search_fts(entityType, id, title, body)
+SELECT 'researchNote', id, findings, '' FROM ResearchNote;
+INSERT INTO entity_search_fts(entityType, id, title, body)
+SELECT 'media', id, coalesce(title,''), coalesce(description,'') FROM MediaObject;
+`;
+
+/**
+ * Rebuild full-text search: the FTS5 tables on SQLite, the tsvector and
+ * trigram indexes on PostgreSQL
+ */
+export async function rebuildSearchIndex(
+  connection: DatabaseConnection
+): Promise<void> {
+  if (connection.driver === "sqlite") {
+    await connection.execute(SQLITE_SEARCH_INDEX_SQL);
+  } else {
+    await connection.execute(
+      ["Person", "Event", "Place", "Source", "ResearchNote", "MediaObject"]
+        .map((table) => `REINDEX TABLE "${table}"; ANALYZE "${table}";`)
+        .join(" ")
+    );
+  }
+}
+
+/**
+ * Copy every table from one database into another, which must be empty.
+ * The target is migrated first, then each table is verified and the search
+ * index rebuilt. A dry run only reads and checksums the source, and needs
+ * just the target's schema.
+ *
+ * @throws Error if the schemas disagree on tables, the target has data or
+ * is not open for a copy, or the batch size is not a positive integer
+ */
+export async function copyDatabase(
+  source: DatabaseConnection,
+  target: DatabaseConnection | DatabaseSchema,
+  options: CopyDatabaseOptions = {}
+): Promise<CopyDatabaseResult> {
+  const {
+    dryRun = false,
+    batchSize = DEFAULT_BATCH_SIZE,
+    onProgress,
+  } = options;
+
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error("Batch size must be a positive integer");
+  }
+
+  // Null in a dry run, which never touches the target
+  const writeTarget = !dryRun && "db" in target ? target : null;
+  if (!dryRun && !writeTarget) {
+    throw new Error("The target database must be open to copy into it");
+  }
+
+  const sourceTables = getTables(source.schema);
+  const targetTables = getTables(target.schema);
+
+  for (const name of sourceTables.keys()) {
+    if (!targetTables.has(name)) {
+      throw new Error(
+        `Table ${name} is missing from the ${target.driver} schema`
+      );
+    }
+  }
+  for (const name of targetTables.keys()) {
+    if (!sourceTables.has(name)) {
+      throw new Error(
+        `Table ${name} is missing from the ${source.driver} schema`
+      );
+    }
+  }
+
+  const order = getTableCopyOrder(target.schema);
+
+  if (writeTarget) {
+    await writeTarget.migrate();
+    for (const name of order) {
+      const [row] = await writeTarget.db
+        .select()
+        .from(targetTables.get(name)!.table)
+        .limit(1);
+      if (row) {
+        throw new Error(
+          `Table ${name} in the target already has rows; copy into an empty database`
+        );
+      }
+    }
+  }
+
+  const result: CopyDatabaseResult = {
+    tables: [],
+    mismatches: [],
+    searchIndexRebuilt: false,
+  };
+
+  for (const [index, name] of order.entries()) {
+    const sourceInfo = sourceTables.get(name)!;
+    const targetInfo = targetTables.get(name)!;
+    const sourceChecksum = new TableChecksum();
+    const report = (done: boolean) =>
+      onProgress?.({
+        table: name,
+        tableNumber: index + 1,
+        tableCount: order.length,
+        rows: sourceChecksum.rows,
+        done,
+      });
+
+    for await (const batch of readBatches(source.db, sourceInfo, batchSize)) {
+      const rows = batch.map((row) =>
+        convertRow(row, sourceInfo.table, targetInfo.table)
+      );
+      if (writeTarget) {
+        await writeTarget.db.insert(targetInfo.table).values(rows);
+      }
+      // Checksum what is written, so the target is compared like for like
+      for (const row of rows) sourceChecksum.add(row);
+      report(false);
+    }
+    report(true);
+
+    const copied: CopiedTable = {
+      table: name,
+      sourceRows: sourceChecksum.rows,
+      sourceChecksum: sourceChecksum.digest(),
+      targetRows: null,
+      targetChecksum: null,
+      verified: false,
+    };
+
+    if (writeTarget) {
+      const targetChecksum = await checksumTable(
+        writeTarget.db,
+        targetInfo,
+        batchSize
+      );
+      copied.targetRows = targetChecksum.rows;
+      copied.targetChecksum = targetChecksum.digest();
+      copied.verified =
+        copied.targetRows === copied.sourceRows &&
+        copied.targetChecksum === copied.sourceChecksum;
+      if (!copied.verified) result.mismatches.push(name);
+    }
+
+    result.tables.push(copied);
+  }
+
+  if (writeTarget) {
+    await rebuildSearchIndex(writeTarget);
+    result.searchIndexRebuilt = true;
+  }
+
+  return result;
+}
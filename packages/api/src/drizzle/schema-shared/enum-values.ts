@@ -37,9 +37,22 @@ export const RELATIONSHIP_TYPE_VALUES = [
   "STEP_PARENT",
   "STEP_CHILD",
   "STEP_SIBLING",
+  "PARTNER",
+  "GODPARENT",
+  "GODCHILD",
 ] as const;
 export type RelationshipType = (typeof RELATIONSHIP_TYPE_VALUES)[number];
 
+/** How a parent is related to a child on a PARENT/CHILD link */
+export const PARENT_PEDIGREE_VALUES = [
+  "BIRTH",
+  "ADOPTED",
+  "FOSTER",
+  "GUARDIAN",
+  "SEALED",
+] as const;
+export type ParentPedigree = (typeof PARENT_PEDIGREE_VALUES)[number];
+
 // -- Suggestion --
 
 export const SUGGESTION_TYPE_VALUES = [
@@ -47,6 +60,25 @@ export const SUGGESTION_TYPE_VALUES = [
   "UPDATE",
   "DELETE",
   "ADD_RELATIONSHIP",
+  "UPDATE_RELATIONSHIP",
+  "DELETE_RELATIONSHIP",
+  "CREATE_EVENT",
+  "UPDATE_EVENT",
+  "DELETE_EVENT",
+  "ADD_EVENT_PARTICIPANT",
+  "REMOVE_EVENT_PARTICIPANT",
+  "LINK_PLACE",
+  "UPDATE_PLACE_LINK",
+  "UNLINK_PLACE",
+  "UPDATE_MEDIA",
+  "DELETE_MEDIA",
+  "SET_PRIMARY_PHOTO",
+  "UPLOAD_MEDIA",
+  "REORDER_MEDIA",
+  "LINK_MEDIA_TO_EVENT",
+  "TAG_MEDIA_REGION",
+  "ATTACH_MEDIA_TRANSCRIPT",
+  "REMOVE_MEDIA_TRANSCRIPT",
 ] as const;
 export type SuggestionType = (typeof SUGGESTION_TYPE_VALUES)[number];
 
@@ -57,6 +89,15 @@ export const SUGGESTION_STATUS_VALUES = [
 ] as const;
 export type SuggestionStatus = (typeof SUGGESTION_STATUS_VALUES)[number];
 
+// -- Duplicate detection --
+
+export const DUPLICATE_STATUS_VALUES = [
+  "PENDING",
+  "DISMISSED",
+  "MERGED",
+] as const;
+export type DuplicateStatus = (typeof DUPLICATE_STATUS_VALUES)[number];
+
 // -- Privacy --
 
 export const PRIVACY_LEVEL_VALUES = [
@@ -76,6 +117,7 @@ export const AUDIT_ACTION_VALUES = [
   "LOGOUT",
   "APPROVE",
   "REJECT",
+  "MERGE",
 ] as const;
 export type AuditAction = (typeof AUDIT_ACTION_VALUES)[number];
 
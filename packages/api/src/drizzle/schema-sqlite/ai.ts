@@ -0,0 +1,64 @@
+/**
+ * Drizzle ORM Schema - AI Chat (SQLite)
+ */
+
+import { index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { relations } from "drizzle-orm";
+import { users } from "./user";
+
+export const aiConversations = sqliteTable(
+  "AIConversation",
+  {
+    id: text("id").primaryKey(),
+    userId: text("userId").notNull(),
+    title: text("title").notNull(),
+    createdAt: integer("createdAt", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    updatedAt: integer("updatedAt", { mode: "timestamp" }).notNull(),
+  },
+  (table) => [
+    index("idx_aiConversation_userId_updatedAt").on(
+      table.userId,
+      table.updatedAt
+    ),
+  ]
+);
+
+export const aiMessages = sqliteTable(
+  "AIMessage",
+  {
+    id: text("id").primaryKey(),
+    conversationId: text("conversationId").notNull(),
+    role: text("role").notNull(),
+    content: text("content").notNull(),
+    citations: text("citations", { mode: "json" }),
+    createdAt: integer("createdAt", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => [
+    index("idx_aiMessage_conversationId_createdAt").on(
+      table.conversationId,
+      table.createdAt
+    ),
+  ]
+);
+
+export const aiConversationsRelations = relations(
+  aiConversations,
+  ({ one, many }) => ({
+    user: one(users, {
+      fields: [aiConversations.userId],
+      references: [users.id],
+    }),
+    messages: many(aiMessages),
+  })
+);
+
+export const aiMessagesRelations = relations(aiMessages, ({ one }) => ({
+  conversation: one(aiConversations, {
+    fields: [aiMessages.conversationId],
+    references: [aiConversations.id],
+  }),
+}));
@@ -11,9 +11,11 @@ export {
   AUDIT_ACTION_VALUES,
   BACKUP_STATUS_VALUES,
   BACKUP_TYPE_VALUES,
+  DUPLICATE_STATUS_VALUES,
   EVENT_TYPE_VALUES,
   GENDER_VALUES,
   INVITE_STATUS_VALUES,
+  PARENT_PEDIGREE_VALUES,
   PERSON_PLACE_TYPE_VALUES,
   PLACE_TYPE_VALUES,
   PRIVACY_LEVEL_VALUES,
@@ -29,9 +31,11 @@ export type {
   AuditAction,
   BackupStatus,
   BackupType,
+  DuplicateStatus,
   EventType,
   Gender,
   InviteStatus,
+  ParentPedigree,
   PersonPlaceType,
   PlaceType,
   PrivacyLevel,
@@ -13,9 +13,13 @@ export const events = sqliteTable(
     personId: text("personId").notNull(),
     type: text("type").notNull(),
     date: text("date"),
+    // GenealogicalDate (qualifier, precision, range); `date` holds its sort value
+    dateDetail: text("dateDetail", { mode: "json" }),
     place: text("place"),
     placeId: text("placeId"),
     description: text("description"),
+    // Null inherits the visibility of the owning person
+    privacy: text("privacy"),
     createdAt: integer("createdAt", { mode: "timestamp" })
       .notNull()
       .$defaultFn(() => new Date()),
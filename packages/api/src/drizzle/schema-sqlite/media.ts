@@ -2,7 +2,13 @@
  * Drizzle ORM Schema - Media (SQLite)
  */
 
-import { index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import {
+  index,
+  integer,
+  real,
+  sqliteTable,
+  text,
+} from "drizzle-orm/sqlite-core";
 import { relations } from "drizzle-orm";
 import { persons } from "./person";
 
@@ -24,6 +30,19 @@ export const mediaObjects = sqliteTable(
     thumb400Path: text("thumb400Path"),
     thumb800Path: text("thumb800Path"),
     thumb1200Path: text("thumb1200Path"),
+    // Null inherits the visibility of the linked persons
+    privacy: text("privacy"),
+    capturedAt: integer("capturedAt", { mode: "timestamp" }),
+    latitude: real("latitude"),
+    longitude: real("longitude"),
+    camera: text("camera"),
+    placeId: text("placeId"),
+    // Length of audio and video recordings, in seconds
+    duration: real("duration"),
+    // Number of pages of PDF documents
+    pageCount: integer("pageCount"),
+    // Transcript attached to an audio or video recording
+    transcriptPath: text("transcriptPath"),
     uploadedAt: integer("uploadedAt", { mode: "timestamp" })
       .notNull()
       .$defaultFn(() => new Date()),
@@ -35,6 +54,7 @@ export const mediaObjects = sqliteTable(
   (table) => [
     index("idx_mediaObject_filePath").on(table.filePath),
     index("idx_mediaObject_uploadedAt").on(table.uploadedAt),
+    index("idx_mediaObject_placeId").on(table.placeId),
   ]
 );
 
@@ -49,6 +69,10 @@ export const personMedias = sqliteTable(
       .default(false),
     caption: text("caption"),
     displayOrder: integer("displayOrder").notNull(),
+    regionX: real("regionX"),
+    regionY: real("regionY"),
+    regionWidth: real("regionWidth"),
+    regionHeight: real("regionHeight"),
     createdAt: integer("createdAt", { mode: "timestamp" })
       .notNull()
       .$defaultFn(() => new Date()),
@@ -1,7 +1,7 @@
 /**
  * Drizzle ORM Schema - Miscellaneous (SQLite)
  *
- * Defines FamilySettings, AuditLog, Invite, Source, ResearchNote, EmailLog, and Suggestion models
+ * Defines FamilySettings, AuditLog, DuplicateCandidate, Invite, Source, ResearchNote, EmailLog, and Suggestion models
  */
 
 import { index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
@@ -26,6 +26,16 @@ export const familySettings = sqliteTable("FamilySettings", {
     .default(true),
   metricsDashboardUrl: text("metricsDashboardUrl"),
   metricsApiUrl: text("metricsApiUrl"),
+  // Overrides of the data consistency checker defaults
+  consistencyThresholds: text("consistencyThresholds", { mode: "json" }),
+  stripPhotoLocation: integer("stripPhotoLocation", { mode: "boolean" })
+    .notNull()
+    .default(true),
+  // Overrides of the default upload size limits per kind of media
+  mediaSizeLimits: text("mediaSizeLimits", { mode: "json" }),
+  aiHistoryEnabled: integer("aiHistoryEnabled", { mode: "boolean" })
+    .notNull()
+    .default(true),
   createdAt: integer("createdAt", { mode: "timestamp" })
     .notNull()
     .$defaultFn(() => new Date()),
@@ -40,6 +50,8 @@ export const auditLogs = sqliteTable(
     action: text("action").notNull(),
     entityType: text("entityType").notNull(),
     entityId: text("entityId"),
+    // Person whose history the change belongs to, for person-scoped records
+    personId: text("personId"),
     previousData: text("previousData", { mode: "json" }),
     newData: text("newData", { mode: "json" }),
     ipAddress: text("ipAddress"),
@@ -55,6 +67,36 @@ export const auditLogs = sqliteTable(
       table.entityId
     ),
     index("idx_auditLog_createdAt").on(table.createdAt),
+    index("idx_auditLog_personId").on(table.personId),
+  ]
+);
+
+export const duplicateCandidates = sqliteTable(
+  "DuplicateCandidate",
+  {
+    id: text("id").primaryKey(),
+    personId: text("personId").notNull(),
+    duplicatePersonId: text("duplicatePersonId").notNull(),
+    score: integer("score").notNull(),
+    reasons: text("reasons", { mode: "json" }).notNull(),
+    status: text("status").notNull().default("PENDING"),
+    reviewedById: text("reviewedById"),
+    reviewedAt: integer("reviewedAt", { mode: "timestamp" }),
+    // AuditLog entry recording the merge, used to undo it
+    auditLogId: text("auditLogId"),
+    createdAt: integer("createdAt", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => [
+    index("idx_duplicateCandidate_personId_duplicatePersonId").on(
+      table.personId,
+      table.duplicatePersonId
+    ),
+    index("idx_duplicateCandidate_status").on(table.status),
+    index("idx_duplicateCandidate_duplicatePersonId").on(
+      table.duplicatePersonId
+    ),
   ]
 );
 
@@ -99,6 +141,9 @@ export const sources = sqliteTable(
     callNumber: text("callNumber"),
     accessDate: integer("accessDate", { mode: "timestamp" }),
     confidence: text("confidence"),
+    // Document the source was transcribed from, and its transcription
+    mediaId: text("mediaId"),
+    transcription: text("transcription"),
     createdAt: integer("createdAt", { mode: "timestamp" })
       .notNull()
       .$defaultFn(() => new Date()),
@@ -108,6 +153,7 @@ export const sources = sqliteTable(
     index("idx_source_title").on(table.title),
     index("idx_source_sourceType").on(table.sourceType),
     index("idx_source_doi").on(table.doi),
+    index("idx_source_mediaId").on(table.mediaId),
   ]
 );
 
@@ -173,6 +219,8 @@ export const suggestions = sqliteTable(
     submittedById: text("submittedById").notNull(),
     reviewedById: text("reviewedById"),
     reviewNote: text("reviewNote"),
+    // Source the suggested facts were extracted from
+    sourceId: text("sourceId"),
     submittedAt: integer("submittedAt", { mode: "timestamp" })
       .notNull()
       .$defaultFn(() => new Date()),
@@ -182,6 +230,7 @@ export const suggestions = sqliteTable(
     index("idx_suggestion_status").on(table.status),
     index("idx_suggestion_submittedById").on(table.submittedById),
     index("idx_suggestion_targetPersonId").on(table.targetPersonId),
+    index("idx_suggestion_sourceId").on(table.sourceId),
   ]
 );
 
@@ -214,6 +263,22 @@ export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
   }),
 }));
 
+export const duplicateCandidatesRelations = relations(
+  duplicateCandidates,
+  ({ one }) => ({
+    person: one(persons, {
+      fields: [duplicateCandidates.personId],
+      references: [persons.id],
+      relationName: "DuplicateCandidatePerson",
+    }),
+    duplicatePerson: one(persons, {
+      fields: [duplicateCandidates.duplicatePersonId],
+      references: [persons.id],
+      relationName: "DuplicateCandidateDuplicate",
+    }),
+  })
+);
+
 export const invitesRelations = relations(invites, ({ one }) => ({
   person: one(persons, {
     fields: [invites.personId],
@@ -231,6 +296,9 @@ export const sourcesRelations = relations(sources, ({ many }) => ({
   researchNotes: many(researchNotes, {
     relationName: "SourceResearchNotes",
   }),
+  suggestions: many(suggestions, {
+    relationName: "SourceSuggestions",
+  }),
 }));
 
 export const researchNotesRelations = relations(researchNotes, ({ one }) => ({
@@ -275,6 +343,11 @@ export const suggestionsRelations = relations(suggestions, ({ one }) => ({
     references: [users.id],
     relationName: "SuggestionReviewer",
   }),
+  source: one(sources, {
+    fields: [suggestions.sourceId],
+    references: [sources.id],
+    relationName: "SourceSuggestions",
+  }),
 }));
 
 export const dashboardPreferencesRelations = relations(
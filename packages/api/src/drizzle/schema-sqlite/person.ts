@@ -16,6 +16,9 @@ export const persons = sqliteTable(
     maidenName: text("maidenName"),
     dateOfBirth: text("dateOfBirth"),
     dateOfPassing: text("dateOfPassing"),
+    // GenealogicalDate (qualifier, precision, range); the date columns hold its sort value
+    dateOfBirthDetail: text("dateOfBirthDetail", { mode: "json" }),
+    dateOfPassingDetail: text("dateOfPassingDetail", { mode: "json" }),
     birthPlace: text("birthPlace"),
     nativePlace: text("nativePlace"),
     gender: text("gender"),
@@ -29,6 +32,8 @@ export const persons = sqliteTable(
     employer: text("employer"),
     socialLinks: text("socialLinks", { mode: "json" }),
     isLiving: integer("isLiving", { mode: "boolean" }).notNull().default(true),
+    // Null inherits FamilySettings.defaultPrivacy
+    privacy: text("privacy"),
     createdAt: integer("createdAt", { mode: "timestamp" })
       .notNull()
       .$defaultFn(() => new Date()),
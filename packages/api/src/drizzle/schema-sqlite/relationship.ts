@@ -15,6 +15,9 @@ export const relationships = sqliteTable(
     type: text("type").notNull(),
     marriageDate: text("marriageDate"),
     divorceDate: text("divorceDate"),
+    pedigree: text("pedigree"),
+    startDate: text("startDate"),
+    endDate: text("endDate"),
     isActive: integer("isActive", { mode: "boolean" }).notNull().default(true),
     isAutoGenerated: integer("isAutoGenerated", { mode: "boolean" })
       .notNull()
@@ -1,7 +1,7 @@
 /**
  * Drizzle ORM Schema - User (SQLite)
  *
- * Defines User, Account, Session, Verification, OAuthState, and CalendarToken models
+ * Defines User, Account, Session, Verification, OAuthState, CalendarToken, and ApiToken models
  */
 
 import { index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
@@ -46,6 +46,10 @@ export const users = sqliteTable(
     }).default(
       sql`'{"newMemberJoined":true,"birthdayReminders":true,"suggestionsCreated":true,"suggestionsUpdated":true}'`
     ),
+    // Per-type, per-channel preferences; null until the user saves them
+    notificationPreferences: text("notificationPreferences", {
+      mode: "json",
+    }),
   },
   (table) => [
     index("idx_user_email").on(table.email),
@@ -155,6 +159,37 @@ export const calendarTokens = sqliteTable(
   ]
 );
 
+/**
+ * ApiToken table - personal access tokens for the REST API
+ *
+ * Only a SHA-256 hash of the token is stored; the prefix is kept so users
+ * can tell their tokens apart.
+ */
+export const apiTokens = sqliteTable(
+  "ApiToken",
+  {
+    id: text("id").primaryKey(),
+    userId: text("userId").notNull(),
+    name: text("name").notNull(),
+    tokenHash: text("tokenHash").notNull().unique(),
+    tokenPrefix: text("tokenPrefix").notNull(),
+    // SQLite has no array type; store as JSON
+    scopes: text("scopes", { mode: "json" }).$type<Array<string>>().notNull(),
+    expiresAt: integer("expiresAt", { mode: "timestamp" }).notNull(),
+    isActive: integer("isActive", { mode: "boolean" }).notNull().default(true),
+    lastUsedAt: integer("lastUsedAt", { mode: "timestamp" }),
+    rotatedAt: integer("rotatedAt", { mode: "timestamp" }),
+    rotatedFrom: text("rotatedFrom"),
+    createdAt: integer("createdAt", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => [
+    index("idx_apiToken_userId").on(table.userId),
+    index("idx_apiToken_expiresAt").on(table.expiresAt),
+  ]
+);
+
 /**
  * OAuthState table
  */
@@ -210,6 +245,7 @@ export const usersRelations = relations(users, ({ one, many }) => ({
     relationName: "EmailLogCreator",
   }),
   calendarTokens: many(calendarTokens),
+  apiTokens: many(apiTokens),
 }));
 
 /**
@@ -244,3 +280,14 @@ export const calendarTokensRelations = relations(calendarTokens, ({ one }) => ({
     relationName: "CalendarTokens",
   }),
 }));
+
+/**
+ * ApiToken relations
+ */
+export const apiTokensRelations = relations(apiTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [apiTokens.userId],
+    references: [users.id],
+    relationName: "ApiTokens",
+  }),
+}));
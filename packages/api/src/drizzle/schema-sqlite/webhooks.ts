@@ -0,0 +1,75 @@
+/**
+ * Drizzle ORM Schema - Webhooks (SQLite)
+ */
+
+import { index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { relations } from "drizzle-orm";
+import { users } from "./user";
+
+export const webhooks = sqliteTable(
+  "Webhook",
+  {
+    id: text("id").primaryKey(),
+    url: text("url").notNull(),
+    description: text("description"),
+    secret: text("secret").notNull(),
+    // PG text[] maps to JSON text in SQLite
+    events: text("events", { mode: "json" }).$type<Array<string>>().notNull(),
+    isActive: integer("isActive", { mode: "boolean" }).notNull().default(true),
+    createdById: text("createdById"),
+    createdAt: integer("createdAt", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    updatedAt: integer("updatedAt", { mode: "timestamp" }).notNull(),
+  },
+  (table) => [index("idx_webhook_isActive").on(table.isActive)]
+);
+
+export const webhookDeliveries = sqliteTable(
+  "WebhookDelivery",
+  {
+    id: text("id").primaryKey(),
+    webhookId: text("webhookId").notNull(),
+    event: text("event").notNull(),
+    payload: text("payload", { mode: "json" }).notNull(),
+    status: text("status").notNull(),
+    attempts: integer("attempts").notNull().default(0),
+    nextAttemptAt: integer("nextAttemptAt", { mode: "timestamp" }),
+    lastAttemptAt: integer("lastAttemptAt", { mode: "timestamp" }),
+    responseStatus: integer("responseStatus"),
+    responseBody: text("responseBody"),
+    error: text("error"),
+    createdAt: integer("createdAt", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    deliveredAt: integer("deliveredAt", { mode: "timestamp" }),
+  },
+  (table) => [
+    index("idx_webhookDelivery_webhookId_createdAt").on(
+      table.webhookId,
+      table.createdAt
+    ),
+    index("idx_webhookDelivery_status_nextAttemptAt").on(
+      table.status,
+      table.nextAttemptAt
+    ),
+  ]
+);
+
+export const webhooksRelations = relations(webhooks, ({ one, many }) => ({
+  createdBy: one(users, {
+    fields: [webhooks.createdById],
+    references: [users.id],
+  }),
+  deliveries: many(webhookDeliveries),
+}));
+
+export const webhookDeliveriesRelations = relations(
+  webhookDeliveries,
+  ({ one }) => ({
+    webhook: one(webhooks, {
+      fields: [webhookDeliveries.webhookId],
+      references: [webhooks.id],
+    }),
+  })
+);
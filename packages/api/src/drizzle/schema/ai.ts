@@ -0,0 +1,83 @@
+/**
+ * Drizzle ORM Schema - AI Chat
+ *
+ * Defines AIConversation and AIMessage models for the AI assistant's
+ * saved chat history. Conversations belong to the user who started them.
+ */
+
+import {
+  index,
+  jsonb,
+  pgTable,
+  text,
+  timestamp,
+  varchar,
+} from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+import { users } from "./user";
+
+/**
+ * AI conversations table - one row per chat thread
+ */
+export const aiConversations = pgTable(
+  "AIConversation",
+  {
+    id: text("id").primaryKey(),
+    userId: text("userId").notNull(),
+    title: varchar("title", { length: 255 }).notNull(),
+    createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
+    updatedAt: timestamp("updatedAt", { mode: "date" }).notNull(),
+  },
+  (table) => [
+    index("idx_aiConversation_userId_updatedAt").on(
+      table.userId,
+      table.updatedAt
+    ),
+  ]
+);
+
+/**
+ * AI messages table - the questions and answers of a conversation
+ */
+export const aiMessages = pgTable(
+  "AIMessage",
+  {
+    id: text("id").primaryKey(),
+    conversationId: text("conversationId").notNull(),
+    role: varchar("role", { length: 20 }).notNull(), // "user", "assistant"
+    content: text("content").notNull(),
+    // Tree records the answer drew on, shown as links under it
+    citations: jsonb("citations"),
+    createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
+  },
+  (table) => [
+    index("idx_aiMessage_conversationId_createdAt").on(
+      table.conversationId,
+      table.createdAt
+    ),
+  ]
+);
+
+/**
+ * AI conversations relations
+ */
+export const aiConversationsRelations = relations(
+  aiConversations,
+  ({ one, many }) => ({
+    user: one(users, {
+      fields: [aiConversations.userId],
+      references: [users.id],
+    }),
+    messages: many(aiMessages),
+  })
+);
+
+/**
+ * AI messages relations
+ */
+export const aiMessagesRelations = relations(aiMessages, ({ one }) => ({
+  conversation: one(aiConversations, {
+    fields: [aiMessages.conversationId],
+    references: [aiConversations.id],
+  }),
+}));
@@ -1,7 +1,7 @@
 /**
  * Drizzle ORM Schema - Enums (PostgreSQL)
  *
- * All 15 database enums as pgEnum, importing values from the shared
+ * All 17 database enums as pgEnum, importing values from the shared
  * enum-values module. The shared module is the single source of truth
  * for enum values, used by both PG and (future) SQLite schemas.
  */
@@ -11,9 +11,11 @@ import {
   AUDIT_ACTION_VALUES,
   BACKUP_STATUS_VALUES,
   BACKUP_TYPE_VALUES,
+  DUPLICATE_STATUS_VALUES,
   EVENT_TYPE_VALUES,
   GENDER_VALUES,
   INVITE_STATUS_VALUES,
+  PARENT_PEDIGREE_VALUES,
   PERSON_PLACE_TYPE_VALUES,
   PLACE_TYPE_VALUES,
   PRIVACY_LEVEL_VALUES,
@@ -30,9 +32,11 @@ export type {
   AuditAction,
   BackupStatus,
   BackupType,
+  DuplicateStatus,
   EventType,
   Gender,
   InviteStatus,
+  ParentPedigree,
   PersonPlaceType,
   PlaceType,
   PrivacyLevel,
@@ -49,6 +53,9 @@ export const userRoleEnum = pgEnum("UserRole", [...USER_ROLE_VALUES]);
 export const relationshipTypeEnum = pgEnum("RelationshipType", [
   ...RELATIONSHIP_TYPE_VALUES,
 ]);
+export const parentPedigreeEnum = pgEnum("ParentPedigree", [
+  ...PARENT_PEDIGREE_VALUES,
+]);
 export const suggestionTypeEnum = pgEnum("SuggestionType", [
   ...SUGGESTION_TYPE_VALUES,
 ]);
@@ -59,6 +66,9 @@ export const privacyLevelEnum = pgEnum("PrivacyLevel", [
   ...PRIVACY_LEVEL_VALUES,
 ]);
 export const auditActionEnum = pgEnum("AuditAction", [...AUDIT_ACTION_VALUES]);
+export const duplicateStatusEnum = pgEnum("DuplicateStatus", [
+  ...DUPLICATE_STATUS_VALUES,
+]);
 export const inviteStatusEnum = pgEnum("InviteStatus", [
   ...INVITE_STATUS_VALUES,
 ]);
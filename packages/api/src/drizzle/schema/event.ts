@@ -7,13 +7,14 @@
 import {
   date,
   index,
+  jsonb,
   pgTable,
   text,
   timestamp,
   unique,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
-import { eventTypeEnum } from "./enums";
+import { eventTypeEnum, privacyLevelEnum } from "./enums";
 import { persons } from "./person";
 
 /**
@@ -26,9 +27,13 @@ export const events = pgTable(
     personId: text("personId").notNull(),
     type: eventTypeEnum("type").notNull(),
     date: date("date", { mode: "date" }),
+    // GenealogicalDate (qualifier, precision, range); `date` holds its sort value
+    dateDetail: jsonb("dateDetail"),
     place: text("place"),
     placeId: text("placeId"),
     description: text("description"),
+    // Null inherits the visibility of the owning person
+    privacy: privacyLevelEnum("privacy"),
     createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
     updatedAt: timestamp("updatedAt", { mode: "date" }).notNull(),
   },
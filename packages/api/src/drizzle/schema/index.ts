@@ -17,6 +17,8 @@ export * from "./media";
 export * from "./backup";
 export * from "./misc";
 export * from "./notifications";
+export * from "./webhooks";
+export * from "./ai";
 
 // Better Auth expects singular table names (user, session, account, verification)
 // Export aliases to support Better Auth's Drizzle adapter
@@ -6,6 +6,7 @@
 
 import {
   boolean,
+  doublePrecision,
   index,
   integer,
   pgTable,
@@ -14,6 +15,7 @@ import {
   unique,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
+import { privacyLevelEnum } from "./enums";
 import { persons } from "./person";
 
 /**
@@ -37,6 +39,21 @@ export const mediaObjects = pgTable(
     thumb400Path: text("thumb400Path"),
     thumb800Path: text("thumb800Path"),
     thumb1200Path: text("thumb1200Path"),
+    // Null inherits the visibility of the linked persons
+    privacy: privacyLevelEnum("privacy"),
+    // Read from the EXIF, IPTC or XMP metadata of uploaded photos
+    capturedAt: timestamp("capturedAt", { mode: "date" }),
+    latitude: doublePrecision("latitude"),
+    longitude: doublePrecision("longitude"),
+    camera: text("camera"),
+    // Place where the photo was taken
+    placeId: text("placeId"),
+    // Length of audio and video recordings, in seconds
+    duration: doublePrecision("duration"),
+    // Number of pages of PDF documents
+    pageCount: integer("pageCount"),
+    // Transcript attached to an audio or video recording
+    transcriptPath: text("transcriptPath"),
     uploadedAt: timestamp("uploadedAt", { mode: "date" })
       .notNull()
       .defaultNow(),
@@ -46,6 +63,7 @@ export const mediaObjects = pgTable(
   (table) => [
     index("idx_mediaObject_filePath").on(table.filePath),
     index("idx_mediaObject_uploadedAt").on(table.uploadedAt),
+    index("idx_mediaObject_placeId").on(table.placeId),
   ]
 );
 
@@ -61,6 +79,12 @@ export const personMedias = pgTable(
     isPrimary: boolean("isPrimary").notNull().default(false),
     caption: text("caption"),
     displayOrder: integer("displayOrder").notNull(),
+    // Tagged region of the image showing the person, as fractions (0-1) of
+    // its width and height; null when the person is not tagged
+    regionX: doublePrecision("regionX"),
+    regionY: doublePrecision("regionY"),
+    regionWidth: doublePrecision("regionWidth"),
+    regionHeight: doublePrecision("regionHeight"),
     createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
     updatedAt: timestamp("updatedAt", { mode: "date" }).notNull(),
   },
@@ -1,20 +1,23 @@
 /**
  * Drizzle ORM Schema - Miscellaneous
  *
- * Defines FamilySettings, AuditLog, Invite, Source, ResearchNote, EmailLog, and Suggestion models
+ * Defines FamilySettings, AuditLog, DuplicateCandidate, Invite, Source, ResearchNote, EmailLog, and Suggestion models
  */
 
 import {
   boolean,
   index,
+  integer,
   jsonb,
   pgTable,
   text,
   timestamp,
+  unique,
 } from "drizzle-orm/pg-core";
 import { relations, sql } from "drizzle-orm";
 import {
   auditActionEnum,
+  duplicateStatusEnum,
   inviteStatusEnum,
   privacyLevelEnum,
   suggestionStatusEnum,
@@ -44,6 +47,14 @@ export const familySettings = pgTable("FamilySettings", {
     .default(true),
   metricsDashboardUrl: text("metricsDashboardUrl"),
   metricsApiUrl: text("metricsApiUrl"),
+  // Overrides of the data consistency checker defaults
+  consistencyThresholds: jsonb("consistencyThresholds"),
+  // Leave GPS positions out of the images generated from uploaded photos
+  stripPhotoLocation: boolean("stripPhotoLocation").notNull().default(true),
+  // Overrides of the default upload size limits per kind of media
+  mediaSizeLimits: jsonb("mediaSizeLimits"),
+  // Save AI assistant conversations so members can come back to them
+  aiHistoryEnabled: boolean("aiHistoryEnabled").notNull().default(true),
   createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
   updatedAt: timestamp("updatedAt", { mode: "date" }).notNull(),
 });
@@ -59,6 +70,8 @@ export const auditLogs = pgTable(
     action: auditActionEnum("action").notNull(),
     entityType: text("entityType").notNull(),
     entityId: text("entityId"),
+    // Person whose history the change belongs to, for person-scoped records
+    personId: text("personId"),
     previousData: jsonb("previousData"),
     newData: jsonb("newData"),
     ipAddress: text("ipAddress"),
@@ -72,6 +85,7 @@ export const auditLogs = pgTable(
       table.entityId
     ),
     index("idx_auditLog_createdAt").on(table.createdAt),
+    index("idx_auditLog_personId").on(table.personId),
   ]
 );
 
@@ -120,6 +134,9 @@ export const sources = pgTable(
     callNumber: text("callNumber"),
     accessDate: timestamp("accessDate", { mode: "date" }),
     confidence: text("confidence"),
+    // Document the source was transcribed from, and its transcription
+    mediaId: text("mediaId"),
+    transcription: text("transcription"),
     createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
     updatedAt: timestamp("updatedAt", { mode: "date" }).notNull(),
   },
@@ -127,6 +144,7 @@ export const sources = pgTable(
     index("idx_source_title").on(table.title),
     index("idx_source_sourceType").on(table.sourceType),
     index("idx_source_doi").on(table.doi),
+    index("idx_source_mediaId").on(table.mediaId),
   ]
 );
 
@@ -197,6 +215,8 @@ export const suggestions = pgTable(
     submittedById: text("submittedById").notNull(),
     reviewedById: text("reviewedById"),
     reviewNote: text("reviewNote"),
+    // Source the suggested facts were extracted from
+    sourceId: text("sourceId"),
     submittedAt: timestamp("submittedAt", { mode: "date" })
       .notNull()
       .defaultNow(),
@@ -206,6 +226,38 @@ export const suggestions = pgTable(
     index("idx_suggestion_status").on(table.status),
     index("idx_suggestion_submittedById").on(table.submittedById),
     index("idx_suggestion_targetPersonId").on(table.targetPersonId),
+    index("idx_suggestion_sourceId").on(table.sourceId),
+  ]
+);
+
+/**
+ * DuplicateCandidate table - likely duplicate person pairs awaiting admin review
+ */
+export const duplicateCandidates = pgTable(
+  "DuplicateCandidate",
+  {
+    id: text("id").primaryKey(),
+    // Pair is stored with personId < duplicatePersonId so each pair appears once
+    personId: text("personId").notNull(),
+    duplicatePersonId: text("duplicatePersonId").notNull(),
+    score: integer("score").notNull(),
+    reasons: jsonb("reasons").notNull(),
+    status: duplicateStatusEnum("status").notNull().default("PENDING"),
+    reviewedById: text("reviewedById"),
+    reviewedAt: timestamp("reviewedAt", { mode: "date" }),
+    // AuditLog entry recording the merge, used to undo it
+    auditLogId: text("auditLogId"),
+    createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
+  },
+  (table) => [
+    unique("DuplicateCandidate_personId_duplicatePersonId_unique").on(
+      table.personId,
+      table.duplicatePersonId
+    ),
+    index("idx_duplicateCandidate_status").on(table.status),
+    index("idx_duplicateCandidate_duplicatePersonId").on(
+      table.duplicatePersonId
+    ),
   ]
 );
 
@@ -248,6 +300,9 @@ export const sourcesRelations = relations(sources, ({ many }) => ({
   researchNotes: many(researchNotes, {
     relationName: "SourceResearchNotes",
   }),
+  suggestions: many(suggestions, {
+    relationName: "SourceSuggestions",
+  }),
 }));
 
 /**
@@ -271,6 +326,25 @@ export const researchNotesRelations = relations(researchNotes, ({ one }) => ({
   }),
 }));
 
+/**
+ * DuplicateCandidate relations
+ */
+export const duplicateCandidatesRelations = relations(
+  duplicateCandidates,
+  ({ one }) => ({
+    person: one(persons, {
+      fields: [duplicateCandidates.personId],
+      references: [persons.id],
+      relationName: "DuplicateCandidatePerson",
+    }),
+    duplicatePerson: one(persons, {
+      fields: [duplicateCandidates.duplicatePersonId],
+      references: [persons.id],
+      relationName: "DuplicateCandidateDuplicate",
+    }),
+  })
+);
+
 /**
  * EmailLog relations
  */
@@ -321,6 +395,11 @@ export const suggestionsRelations = relations(suggestions, ({ one }) => ({
     references: [users.id],
     relationName: "SuggestionReviewer",
   }),
+  source: one(sources, {
+    fields: [suggestions.sourceId],
+    references: [sources.id],
+    relationName: "SourceSuggestions",
+  }),
 }));
 
 /**
@@ -24,7 +24,8 @@ export const deviceTokens = pgTable(
   {
     id: text("id").primaryKey(),
     userId: text("userId").notNull(),
-    token: varchar("token", { length: 512 }).notNull(),
+    // Web Push tokens are serialized subscriptions, longer than native tokens
+    token: text("token").notNull(),
     platform: varchar("platform", { length: 20 }).notNull(), // "ios", "android", "web"
     deviceId: varchar("deviceId", { length: 255 }), // Unique device identifier
     isActive: boolean("isActive").notNull().default(true),
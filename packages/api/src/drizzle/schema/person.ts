@@ -14,7 +14,7 @@ import {
   timestamp,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
-import { genderEnum } from "./enums";
+import { genderEnum, privacyLevelEnum } from "./enums";
 import { users } from "./user";
 import { relationships } from "./relationship";
 
@@ -30,6 +30,9 @@ export const persons = pgTable(
     maidenName: text("maidenName"),
     dateOfBirth: date("dateOfBirth", { mode: "date" }),
     dateOfPassing: date("dateOfPassing", { mode: "date" }),
+    // GenealogicalDate (qualifier, precision, range); the date columns hold its sort value
+    dateOfBirthDetail: jsonb("dateOfBirthDetail"),
+    dateOfPassingDetail: jsonb("dateOfPassingDetail"),
     birthPlace: text("birthPlace"),
     nativePlace: text("nativePlace"),
     gender: genderEnum("gender"),
@@ -43,6 +46,8 @@ export const persons = pgTable(
     employer: text("employer"),
     socialLinks: jsonb("socialLinks"),
     isLiving: boolean("isLiving").notNull().default(true),
+    // Null inherits FamilySettings.defaultPrivacy
+    privacy: privacyLevelEnum("privacy"),
     createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
     updatedAt: timestamp("updatedAt", { mode: "date" }).notNull(),
     createdById: text("createdById"),
@@ -14,7 +14,7 @@ import {
   unique,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
-import { relationshipTypeEnum } from "./enums";
+import { parentPedigreeEnum, relationshipTypeEnum } from "./enums";
 import { persons } from "./person";
 
 /**
@@ -29,6 +29,11 @@ export const relationships = pgTable(
     type: relationshipTypeEnum("type").notNull(),
     marriageDate: date("marriageDate", { mode: "date" }),
     divorceDate: date("divorceDate", { mode: "date" }),
+    // PARENT/CHILD only; null means not recorded
+    pedigree: parentPedigreeEnum("pedigree"),
+    // PARTNER only: when the partnership began and ended
+    startDate: date("startDate", { mode: "date" }),
+    endDate: date("endDate", { mode: "date" }),
     isActive: boolean("isActive").notNull().default(true),
     isAutoGenerated: boolean("isAutoGenerated").notNull().default(false),
     sourceRelationshipId: text("sourceRelationshipId"),
@@ -1,7 +1,7 @@
 /**
  * Drizzle ORM Schema - User
  *
- * Defines User, Account, Session, Verification, OAuthState, and CalendarToken models
+ * Defines User, Account, Session, Verification, OAuthState, CalendarToken, and ApiToken models
  */
 
 import {
@@ -51,6 +51,8 @@ export const users = pgTable(
     emailNotificationPreferences: jsonb("emailNotificationPreferences").default(
       sql`'{"newMemberJoined":true,"birthdayReminders":true,"suggestionsCreated":true,"suggestionsUpdated":true}'::jsonb`
     ),
+    // Per-type, per-channel preferences; null until the user saves them
+    notificationPreferences: jsonb("notificationPreferences"),
   },
   (table) => [
     // Column order must match database constraint order
@@ -160,6 +162,34 @@ export const calendarTokens = pgTable(
   ]
 );
 
+/**
+ * ApiToken table - personal access tokens for the REST API
+ *
+ * Only a SHA-256 hash of the token is stored; the prefix is kept so users
+ * can tell their tokens apart.
+ */
+export const apiTokens = pgTable(
+  "ApiToken",
+  {
+    id: text("id").primaryKey(),
+    userId: text("userId").notNull(),
+    name: text("name").notNull(),
+    tokenHash: text("tokenHash").notNull().unique(),
+    tokenPrefix: text("tokenPrefix").notNull(),
+    scopes: text("scopes").array().notNull(),
+    expiresAt: timestamp("expiresAt", { mode: "date" }).notNull(),
+    isActive: boolean("isActive").notNull().default(true),
+    lastUsedAt: timestamp("lastUsedAt", { mode: "date" }),
+    rotatedAt: timestamp("rotatedAt", { mode: "date" }),
+    rotatedFrom: text("rotatedFrom"),
+    createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
+  },
+  (table) => [
+    index("idx_apiToken_userId").on(table.userId),
+    index("idx_apiToken_expiresAt").on(table.expiresAt),
+  ]
+);
+
 /**
  * OAuthState table - OAuth authorization flow state tracking
  */
@@ -213,6 +243,7 @@ export const usersRelations = relations(users, ({ one, many }) => ({
     relationName: "EmailLogCreator",
   }),
   calendarTokens: many(calendarTokens),
+  apiTokens: many(apiTokens),
 }));
 
 /**
@@ -247,3 +278,14 @@ export const calendarTokensRelations = relations(calendarTokens, ({ one }) => ({
     relationName: "CalendarTokens",
   }),
 }));
+
+/**
+ * ApiToken relations
+ */
+export const apiTokensRelations = relations(apiTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [apiTokens.userId],
+    references: [users.id],
+    relationName: "ApiTokens",
+  }),
+}));
@@ -0,0 +1,96 @@
+/**
+ * Drizzle ORM Schema - Webhooks
+ *
+ * Defines Webhook and WebhookDelivery models for outgoing webhooks.
+ * Deliveries are written when a change is recorded and sent afterwards,
+ * so each row is both the retry queue entry and the delivery log.
+ */
+
+import {
+  boolean,
+  index,
+  integer,
+  jsonb,
+  pgTable,
+  text,
+  timestamp,
+  varchar,
+} from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+import { users } from "./user";
+
+/**
+ * Webhooks table - admin-configured endpoints and the events they receive
+ */
+export const webhooks = pgTable(
+  "Webhook",
+  {
+    id: text("id").primaryKey(),
+    url: text("url").notNull(),
+    description: varchar("description", { length: 255 }),
+    // Shared secret for the HMAC signature of each payload
+    secret: text("secret").notNull(),
+    events: text("events").array().notNull(),
+    isActive: boolean("isActive").notNull().default(true),
+    createdById: text("createdById"),
+    createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
+    updatedAt: timestamp("updatedAt", { mode: "date" }).notNull(),
+  },
+  (table) => [index("idx_webhook_isActive").on(table.isActive)]
+);
+
+/**
+ * Webhook deliveries table - one row per event sent to an endpoint
+ */
+export const webhookDeliveries = pgTable(
+  "WebhookDelivery",
+  {
+    id: text("id").primaryKey(),
+    webhookId: text("webhookId").notNull(),
+    event: varchar("event", { length: 50 }).notNull(),
+    payload: jsonb("payload").notNull(),
+    status: varchar("status", { length: 20 }).notNull(), // "PENDING", "SUCCEEDED", "FAILED"
+    attempts: integer("attempts").notNull().default(0),
+    nextAttemptAt: timestamp("nextAttemptAt", { mode: "date" }),
+    lastAttemptAt: timestamp("lastAttemptAt", { mode: "date" }),
+    responseStatus: integer("responseStatus"),
+    responseBody: text("responseBody"),
+    error: text("error"),
+    createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
+    deliveredAt: timestamp("deliveredAt", { mode: "date" }),
+  },
+  (table) => [
+    index("idx_webhookDelivery_webhookId_createdAt").on(
+      table.webhookId,
+      table.createdAt
+    ),
+    index("idx_webhookDelivery_status_nextAttemptAt").on(
+      table.status,
+      table.nextAttemptAt
+    ),
+  ]
+);
+
+/**
+ * Webhooks relations
+ */
+export const webhooksRelations = relations(webhooks, ({ one, many }) => ({
+  createdBy: one(users, {
+    fields: [webhooks.createdById],
+    references: [users.id],
+  }),
+  deliveries: many(webhookDeliveries),
+}));
+
+/**
+ * Webhook deliveries relations
+ */
+export const webhookDeliveriesRelations = relations(
+  webhookDeliveries,
+  ({ one }) => ({
+    webhook: one(webhooks, {
+      fields: [webhookDeliveries.webhookId],
+      references: [webhooks.id],
+    }),
+  })
+);
@@ -6,8 +6,10 @@ export {
   createSuggestionUpdatedEmail,
   createNewMemberEmail,
   createBirthdayReminderEmail,
+  createAnniversaryReminderEmail,
   createEmailVerificationTemplate,
   createAccountLockedEmail,
   createPasswordResetEmail,
+  createNotificationDigestEmail,
 } from "./templates";
-export type { EmailTemplate } from "./templates";
+export type { EmailTemplate, NotificationDigest } from "./templates";
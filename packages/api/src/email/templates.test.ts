@@ -3,9 +3,11 @@
  */
 import { describe, expect, test } from "vitest";
 import {
+  createAnniversaryReminderEmail,
   createBirthdayReminderEmail,
   createEmailVerificationTemplate,
   createNewMemberEmail,
+  createNotificationDigestEmail,
   createPasswordResetEmail,
   createSuggestionCreatedEmail,
   createSuggestionUpdatedEmail,
@@ -867,6 +869,25 @@ describe("Email Templates", () => {
     });
   });
 
+  describe("createAnniversaryReminderEmail", () => {
+    test("names the couple and the years together", () => {
+      const email = createAnniversaryReminderEmail(
+        "John",
+        "Ravi & Meena Rao",
+        40,
+        "https://example.com/people/person-1"
+      );
+
+      expect(email.subject).toBe("Happy Anniversary Ravi & Meena Rao!");
+      expect(email.html).toContain("Ravi &amp; Meena Rao");
+      expect(email.html).toContain("40 years together");
+      expect(email.html).toContain("https://example.com/people/person-1");
+      expect(email.text).toContain(
+        "Ravi & Meena Rao celebrate their wedding anniversary today (40 years together)!"
+      );
+    });
+  });
+
   describe("HTML escaping", () => {
     test("escapes < character in review note", () => {
       const note = "This is < than that";
@@ -1228,6 +1249,101 @@ describe("Email Templates", () => {
     });
   });
 
+  describe("createNotificationDigestEmail", () => {
+    const emptyDigest = {
+      period: "daily" as const,
+      birthdays: [],
+      anniversaries: [],
+      newMembers: [],
+      pendingSuggestions: 0,
+      reviewedSuggestions: { approved: 0, rejected: 0 },
+    };
+
+    test("uses the period in the subject and heading", () => {
+      const daily = createNotificationDigestEmail(
+        "John",
+        emptyDigest,
+        "https://example.com"
+      );
+      const weekly = createNotificationDigestEmail(
+        "John",
+        { ...emptyDigest, period: "weekly" },
+        "https://example.com"
+      );
+
+      expect(daily.subject).toBe("Your daily family digest");
+      expect(daily.html).toContain("Your Daily Family Digest");
+      expect(weekly.subject).toBe("Your weekly family digest");
+      expect(weekly.text).toContain("Your Weekly Family Digest");
+    });
+
+    test("lists birthdays and anniversaries with their dates", () => {
+      const email = createNotificationDigestEmail(
+        "John",
+        {
+          ...emptyDigest,
+          birthdays: [{ name: "Asha Rao", date: new Date("1990-05-15") }],
+          anniversaries: [
+            {
+              names: "Ravi & Meena Rao",
+              date: new Date("1985-05-17"),
+              years: 40,
+            },
+          ],
+        },
+        "https://example.com"
+      );
+
+      expect(email.html).toContain("Upcoming Birthdays");
+      expect(email.html).toContain("Asha Rao");
+      expect(email.html).toContain("May 15");
+      expect(email.html).toContain("Ravi &amp; Meena Rao");
+      expect(email.text).toContain("Ravi & Meena Rao (May 17, 40 years)");
+    });
+
+    test("includes new members and suggestion counts", () => {
+      const email = createNotificationDigestEmail(
+        "John",
+        {
+          ...emptyDigest,
+          newMembers: [{ name: "Kiran" }],
+          pendingSuggestions: 3,
+          reviewedSuggestions: { approved: 2, rejected: 1 },
+        },
+        "https://example.com"
+      );
+
+      expect(email.html).toContain("New Family Members");
+      expect(email.html).toContain("Kiran");
+      expect(email.html).toContain("3 suggestions are waiting");
+      expect(email.html).toContain("https://example.com/admin/suggestions");
+      expect(email.text).toContain("2 approved, 1 rejected.");
+    });
+
+    test("leaves out empty sections", () => {
+      const email = createNotificationDigestEmail(
+        "John",
+        { ...emptyDigest, newMembers: [{ name: "Kiran" }] },
+        "https://example.com"
+      );
+
+      expect(email.html).not.toContain("Upcoming Birthdays");
+      expect(email.html).not.toContain("Pending Suggestions");
+      expect(email.html).not.toContain("Your Suggestions");
+    });
+
+    test("escapes names in HTML", () => {
+      const email = createNotificationDigestEmail(
+        "<b>John</b>",
+        { ...emptyDigest, newMembers: [{ name: "<script>x</script>" }] },
+        "https://example.com"
+      );
+
+      expect(email.html).not.toContain("<script>");
+      expect(email.html).toContain("&lt;b&gt;John&lt;/b&gt;");
+    });
+  });
+
   describe("Common email features", () => {
     test("all emails include footer disclaimer", () => {
       const email1 = createSuggestionCreatedEmail(
@@ -311,6 +311,75 @@ Vamsa Family Tree
   };
 }
 
+export function createAnniversaryReminderEmail(
+  recipientName: string,
+  coupleNames: string,
+  years: number,
+  treeUrl: string
+): EmailTemplate {
+  const html = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <style>
+          body { font-family: 'Source Sans 3', sans-serif; color: #333; line-height: 1.6; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #8b6f47; color: #f5f1e8; padding: 20px; border-radius: 8px 8px 0 0; }
+          .content { background-color: #f9f8f5; padding: 20px; border-radius: 0 0 8px 8px; }
+          .button { display: inline-block; padding: 12px 24px; background-color: #8b6f47; color: #f5f1e8; text-decoration: none; border-radius: 4px; margin-top: 16px; }
+          .footer { margin-top: 20px; font-size: 12px; color: #999; }
+          .anniversary-card { margin: 20px 0; padding: 20px; background: linear-gradient(135deg, #fff8e1 0%, #fff9c4 100%); border-radius: 8px; text-align: center; border: 2px dashed #fbc02d; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h2 style="margin: 0;">Anniversary Reminder</h2>
+          </div>
+          <div class="content">
+            <p>Hello ${escapeHtml(recipientName)},</p>
+
+            <div class="anniversary-card">
+              <p style="font-size: 18px; margin: 8px 0;"><strong>${escapeHtml(coupleNames)}</strong> celebrate their wedding anniversary today!</p>
+              <p style="margin: 8px 0; color: #666;">${years} years together</p>
+            </div>
+
+            <p>Don't forget to send them your congratulations!</p>
+
+            <a href="${treeUrl}" class="button">View Profile</a>
+
+            <p style="margin-top: 20px;">Best regards,<br>Vamsa Family Tree</p>
+          </div>
+          <div class="footer">
+            <p>This is an automated notification. Please do not reply to this email.</p>
+          </div>
+        </div>
+      </body>
+    </html>
+  `;
+
+  const text = `
+Anniversary Reminder
+
+Hello ${recipientName},
+
+${coupleNames} celebrate their wedding anniversary today (${years} years together)!
+
+Don't forget to send them your congratulations.
+
+View profile: ${treeUrl}
+
+Best regards,
+Vamsa Family Tree
+  `;
+
+  return {
+    subject: `Happy Anniversary ${coupleNames}!`,
+    html,
+    text,
+  };
+}
+
 export function createEmailVerificationTemplate(
   userName: string,
   verificationUrl: string
@@ -560,6 +629,162 @@ Vamsa Family Tree
   };
 }
 
+/**
+ * Content of a daily or weekly notification digest. Empty sections are
+ * left out of the email.
+ */
+export interface NotificationDigest {
+  period: "daily" | "weekly";
+  birthdays: Array<{ name: string; date: Date }>;
+  anniversaries: Array<{ names: string; date: Date; years: number }>;
+  newMembers: Array<{ name: string }>;
+  /** Suggestions waiting for review (admins only) */
+  pendingSuggestions: number;
+  /** The recipient's own suggestions reviewed during the period */
+  reviewedSuggestions: { approved: number; rejected: number };
+}
+
+export function createNotificationDigestEmail(
+  recipientName: string,
+  digest: NotificationDigest,
+  appUrl: string
+): EmailTemplate {
+  const periodLabel = digest.period === "daily" ? "Daily" : "Weekly";
+  const formatDate = (date: Date) =>
+    date.toLocaleDateString("en-US", {
+      month: "long",
+      day: "numeric",
+      timeZone: "UTC",
+    });
+  const reviewed =
+    digest.reviewedSuggestions.approved + digest.reviewedSuggestions.rejected;
+
+  const htmlSections: Array<string> = [];
+  const textSections: Array<string> = [];
+
+  if (digest.birthdays.length > 0) {
+    htmlSections.push(`
+            <div class="section">
+              <h3>Upcoming Birthdays</h3>
+              <ul>
+                ${digest.birthdays.map((b) => `<li><strong>${escapeHtml(b.name)}</strong> &mdash; ${formatDate(b.date)}</li>`).join("")}
+              </ul>
+            </div>`);
+    textSections.push(
+      `Upcoming Birthdays\n${digest.birthdays.map((b) => `- ${b.name} (${formatDate(b.date)})`).join("\n")}`
+    );
+  }
+
+  if (digest.anniversaries.length > 0) {
+    htmlSections.push(`
+            <div class="section">
+              <h3>Upcoming Anniversaries</h3>
+              <ul>
+                ${digest.anniversaries.map((a) => `<li><strong>${escapeHtml(a.names)}</strong> &mdash; ${formatDate(a.date)} (${a.years} years)</li>`).join("")}
+              </ul>
+            </div>`);
+    textSections.push(
+      `Upcoming Anniversaries\n${digest.anniversaries.map((a) => `- ${a.names} (${formatDate(a.date)}, ${a.years} years)`).join("\n")}`
+    );
+  }
+
+  if (digest.newMembers.length > 0) {
+    htmlSections.push(`
+            <div class="section">
+              <h3>New Family Members</h3>
+              <ul>
+                ${digest.newMembers.map((m) => `<li>${escapeHtml(m.name)}</li>`).join("")}
+              </ul>
+            </div>`);
+    textSections.push(
+      `New Family Members\n${digest.newMembers.map((m) => `- ${m.name}`).join("\n")}`
+    );
+  }
+
+  if (digest.pendingSuggestions > 0) {
+    htmlSections.push(`
+            <div class="section">
+              <h3>Pending Suggestions</h3>
+              <p>${digest.pendingSuggestions} suggestion${digest.pendingSuggestions === 1 ? " is" : "s are"} waiting for your review.</p>
+              <a href="${appUrl}/admin/suggestions">Review suggestions</a>
+            </div>`);
+    textSections.push(
+      `Pending Suggestions\n${digest.pendingSuggestions} waiting for your review: ${appUrl}/admin/suggestions`
+    );
+  }
+
+  if (reviewed > 0) {
+    htmlSections.push(`
+            <div class="section">
+              <h3>Your Suggestions</h3>
+              <p>${digest.reviewedSuggestions.approved} approved, ${digest.reviewedSuggestions.rejected} rejected.</p>
+            </div>`);
+    textSections.push(
+      `Your Suggestions\n${digest.reviewedSuggestions.approved} approved, ${digest.reviewedSuggestions.rejected} rejected.`
+    );
+  }
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <style>
+          body { font-family: 'Source Sans 3', sans-serif; color: #333; line-height: 1.6; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #2d5016; color: #f5f1e8; padding: 20px; border-radius: 8px 8px 0 0; }
+          .content { background-color: #f9f8f5; padding: 20px; border-radius: 0 0 8px 8px; }
+          .button { display: inline-block; padding: 12px 24px; background-color: #2d5016; color: #f5f1e8; text-decoration: none; border-radius: 4px; margin-top: 16px; }
+          .footer { margin-top: 20px; font-size: 12px; color: #999; }
+          .section { margin: 20px 0; padding: 12px 16px; background-color: #e8f5e9; border-left: 4px solid #2d5016; border-radius: 4px; }
+          .section h3 { margin: 0 0 8px; color: #2d5016; }
+          .section ul { margin: 0; padding-left: 20px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h2>Your ${periodLabel} Family Digest</h2>
+          </div>
+          <div class="content">
+            <p>Hello ${escapeHtml(recipientName)},</p>
+
+            <p>Here is what's happening in your family tree:</p>
+            ${htmlSections.join("")}
+
+            <a href="${appUrl}" class="button">Open Family Tree</a>
+
+            <p style="margin-top: 20px;">Best regards,<br>Vamsa Family Tree</p>
+          </div>
+          <div class="footer">
+            <p>You receive this digest because of your notification settings. You can change them in your profile settings.</p>
+          </div>
+        </div>
+      </body>
+    </html>
+  `;
+
+  const text = `
+Your ${periodLabel} Family Digest
+
+Hello ${recipientName},
+
+Here is what's happening in your family tree:
+
+${textSections.join("\n\n")}
+
+Open the family tree: ${appUrl}
+
+Best regards,
+Vamsa Family Tree
+  `;
+
+  return {
+    subject: `Your ${periodLabel.toLowerCase()} family digest`,
+    html,
+    text: text.trim(),
+  };
+}
+
 function escapeHtml(text: string): string {
   const map: Record<string, string> = {
     "&": "&amp;",
@@ -46,8 +46,14 @@ export {
   createSuggestionUpdatedEmail,
   createNewMemberEmail,
   createBirthdayReminderEmail,
+  createAnniversaryReminderEmail,
   createEmailVerificationTemplate,
   createAccountLockedEmail,
   createPasswordResetEmail,
+  createNotificationDigestEmail,
+} from "./email";
+export type {
+  NotificationPreferences,
+  EmailTemplate,
+  NotificationDigest,
 } from "./email";
-export type { NotificationPreferences, EmailTemplate } from "./email";
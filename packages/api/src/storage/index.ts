@@ -1,24 +1,69 @@
-export interface StorageMetadata {
-  width?: number;
-  height?: number;
-  mimeType: string;
-  fileSize: number;
-}
+/**
+ * Media object storage
+ *
+ * Media originals and their processed versions are stored under keys
+ * relative to the media root, e.g. "3f2a.jpg", "webp/3f2a.webp" or
+ * "responsive/3f2a_400.webp". The same key is used for every backend, so
+ * "/media/<key>" URLs keep working when media moves between backends.
+ *
+ * The backend is selected with MEDIA_STORAGE_PROVIDER:
+ * - "local" (default): files under MEDIA_STORAGE_PATH (data/uploads/media)
+ * - "s3": objects in MEDIA_S3_BUCKET on any S3-compatible service, using the
+ *   S3_ENDPOINT / S3_REGION / S3_ACCESS_KEY_ID / S3_SECRET_ACCESS_KEY
+ *   settings shared with cloud backups
+ */
+
+import { LocalStorage } from "./local";
+import { S3Storage } from "./s3";
+import type {
+  MediaReadMode,
+  MediaStorageDriver,
+  StorageProvider,
+} from "./types";
+
+export { LocalStorage, getLocalMediaRoot } from "./local";
+export { S3Storage, getS3StorageConfig } from "./s3";
+export { migrateMediaStorage } from "./migrate";
+export { mediaPathToStorageKey, normalizeStorageKey } from "./types";
+export type { S3StorageConfig } from "./s3";
+export type {
+  MigrateMediaOptions,
+  MigrateMediaResult,
+  MigratedMediaStatus,
+} from "./migrate";
+export type {
+  ByteRange,
+  MediaReadMode,
+  MediaStorageDriver,
+  StorageProvider,
+  StoredObject,
+  StoredObjectInfo,
+} from "./types";
 
-export interface FileInfo {
-  path: string;
-  thumbnailPath?: string;
-  metadata: StorageMetadata;
+/**
+ * Media storage backend selected by MEDIA_STORAGE_PROVIDER
+ */
+export function getMediaStorageDriver(): MediaStorageDriver {
+  const driver = (process.env.MEDIA_STORAGE_PROVIDER || "local").toLowerCase();
+  if (driver !== "local" && driver !== "s3") {
+    throw new Error(`Unsupported media storage provider: ${driver}`);
+  }
+  return driver;
 }
 
-export interface StorageProvider {
-  save: (filename: string, data: Buffer) => Promise<FileInfo>;
-  delete: (filePath: string) => Promise<void>;
-  getThumbnail: (filePath: string) => Promise<string | null>;
+/**
+ * Read mode selected by MEDIA_S3_READ_MODE. Proxied reads stream objects
+ * through the web server; presigned reads redirect to the bucket.
+ */
+export function getMediaReadMode(): MediaReadMode {
+  return process.env.MEDIA_S3_READ_MODE === "presigned" ? "presigned" : "proxy";
 }
 
+/**
+ * Storage provider for media files, configured from the environment
+ */
 export async function getStorageProvider(): Promise<StorageProvider> {
-  // Dynamically import the local storage provider
-  const { LocalStorage } = await import("./local");
-  return new LocalStorage();
+  return getMediaStorageDriver() === "s3"
+    ? S3Storage.fromEnv()
+    : new LocalStorage();
 }
@@ -0,0 +1,96 @@
+import type { StorageProvider } from "./types";
+
+/**
+ * Options for copying media between storage backends
+ */
+export interface MigrateMediaOptions {
+  /** Report what would be copied without writing anything */
+  dryRun?: boolean;
+  /** Delete each source object once it is in the target */
+  deleteSource?: boolean;
+  /** Called after each object is handled */
+  onProgress?: (key: string, status: MigratedMediaStatus) => void;
+}
+
+export type MigratedMediaStatus = "copied" | "skipped" | "failed";
+
+/**
+ * Outcome of a media migration
+ */
+export interface MigrateMediaResult {
+  copied: number;
+  skipped: number;
+  failed: Array<{ key: string; error: string }>;
+  bytes: number;
+}
+
+/**
+ * Copy every media object from one storage backend to another, e.g. local
+ * files into an S3 bucket. Objects already in the target are skipped, so
+ * an interrupted migration can be run again.
+ */
+export async function migrateMediaStorage(
+  source: StorageProvider,
+  target: StorageProvider,
+  options: MigrateMediaOptions = {}
+): Promise<MigrateMediaResult> {
+  const { dryRun = false, deleteSource = false, onProgress } = options;
+  const result: MigrateMediaResult = {
+    copied: 0,
+    skipped: 0,
+    failed: [],
+    bytes: 0,
+  };
+
+  for (const key of await source.list()) {
+    try {
+      if (await target.exists(key)) {
+        result.skipped++;
+        onProgress?.(key, "skipped");
+      } else {
+        const object = await source.get(key);
+        if (!object) {
+          // Removed since listing
+          result.skipped++;
+          onProgress?.(key, "skipped");
+          continue;
+        }
+        if (!dryRun) {
+          await target.put(key, object.data, getContentType(key));
+        }
+        result.copied++;
+        result.bytes += object.size;
+        onProgress?.(key, "copied");
+      }
+
+      if (deleteSource && !dryRun) {
+        await source.delete(key);
+      }
+    } catch (error) {
+      result.failed.push({
+        key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      onProgress?.(key, "failed");
+    }
+  }
+
+  return result;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+  tiff: "image/tiff",
+  bmp: "image/bmp",
+  pdf: "application/pdf",
+};
+
+function getContentType(key: string): string {
+  const ext = key.split(".").pop()?.toLowerCase() ?? "";
+  return CONTENT_TYPES[ext] || "application/octet-stream";
+}
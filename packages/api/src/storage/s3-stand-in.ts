@@ -0,0 +1,168 @@
+/**
+ * In-memory S3 stand-in for tests
+ *
+ * A tiny S3-compatible HTTP server covering the path-style requests the
+ * media storage makes: PUT, GET (including ranged GETs), HEAD and DELETE
+ * on objects and ListObjectsV2 on a bucket. Signatures are not checked, so
+ * presigned URLs can be fetched as long as the object exists.
+ *
+ * @example
+ * const s3 = startS3StandIn();
+ * const storage = new S3Storage({ bucket: "media", endpoint: s3.endpoint, ... });
+ * // ...
+ * s3.stop();
+ */
+
+interface StandInObject {
+  data: Buffer<ArrayBuffer>;
+  contentType: string;
+  lastModified: Date;
+  etag: string;
+}
+
+export interface S3StandIn {
+  /** Base URL to use as the S3 endpoint */
+  endpoint: string;
+  /** Stored objects keyed by "bucket/key" */
+  objects: Map<string, StandInObject>;
+  stop: () => void;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function notFound(method: string): Response {
+  const body =
+    method === "HEAD"
+      ? null
+      : '<?xml version="1.0" encoding="UTF-8"?><Error><Code>NoSuchKey</Code><Message>The specified key does not exist.</Message></Error>';
+  return new Response(body, {
+    status: 404,
+    headers: { "Content-Type": "application/xml" },
+  });
+}
+
+function listObjects(
+  objects: Map<string, StandInObject>,
+  bucket: string,
+  params: URLSearchParams
+): Response {
+  const prefix = params.get("prefix") ?? "";
+  const maxKeys = Number(params.get("max-keys") ?? 1000);
+  const start = Number(params.get("continuation-token") ?? 0);
+
+  const keys = [...objects.keys()]
+    .filter((name) => name.startsWith(`${bucket}/`))
+    .map((name) => name.slice(bucket.length + 1))
+    .filter((key) => key.startsWith(prefix))
+    .sort();
+  const page = keys.slice(start, start + maxKeys);
+  const truncated = start + maxKeys < keys.length;
+
+  const contents = page
+    .map((key) => {
+      const object = objects.get(`${bucket}/${key}`)!;
+      return `<Contents><Key>${escapeXml(key)}</Key><LastModified>${object.lastModified.toISOString()}</LastModified><ETag>${escapeXml(object.etag)}</ETag><Size>${object.data.length}</Size><StorageClass>STANDARD</StorageClass></Contents>`;
+    })
+    .join("");
+
+  const body = `<?xml version="1.0" encoding="UTF-8"?><ListBucketResult><Name>${escapeXml(bucket)}</Name><Prefix>${escapeXml(prefix)}</Prefix><KeyCount>${page.length}</KeyCount><MaxKeys>${maxKeys}</MaxKeys><IsTruncated>${truncated}</IsTruncated>${truncated ? `<NextContinuationToken>${start + maxKeys}</NextContinuationToken>` : ""}${contents}</ListBucketResult>`;
+
+  return new Response(body, {
+    headers: { "Content-Type": "application/xml" },
+  });
+}
+
+/**
+ * Start an S3 stand-in on a random local port
+ */
+export function startS3StandIn(): S3StandIn {
+  const objects = new Map<string, StandInObject>();
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const url = new URL(request.url);
+      const [bucket, ...rest] = url.pathname
+        .slice(1)
+        .split("/")
+        .map((part) => decodeURIComponent(part));
+      const key = rest.join("/");
+
+      if (!key) {
+        return request.method === "GET"
+          ? listObjects(objects, bucket, url.searchParams)
+          : new Response(null, { status: 405 });
+      }
+
+      const name = `${bucket}/${key}`;
+      const object = objects.get(name);
+
+      switch (request.method) {
+        case "PUT": {
+          const data = Buffer.from(await request.arrayBuffer());
+          const etag = `"${new Bun.CryptoHasher("md5").update(data).digest("hex")}"`;
+          objects.set(name, {
+            data,
+            contentType:
+              request.headers.get("content-type") ?? "application/octet-stream",
+            lastModified: new Date(),
+            etag,
+          });
+          return new Response(null, { headers: { ETag: etag } });
+        }
+        case "GET":
+        case "HEAD": {
+          if (!object) return notFound(request.method);
+          const headers = {
+            "Content-Type": object.contentType,
+            "Last-Modified": object.lastModified.toUTCString(),
+            ETag: object.etag,
+          };
+
+          // Ranged GETs, as "bytes=start-end" or "bytes=start-"
+          const range = /^bytes=(\d+)-(\d*)$/.exec(
+            request.headers.get("range") ?? ""
+          );
+          if (request.method === "GET" && range) {
+            const start = Number(range[1]);
+            const end = Math.min(
+              range[2] ? Number(range[2]) : Infinity,
+              object.data.length - 1
+            );
+            return new Response(object.data.subarray(start, end + 1), {
+              status: 206,
+              headers: {
+                ...headers,
+                "Content-Length": String(end - start + 1),
+                "Content-Range": `bytes ${start}-${end}/${object.data.length}`,
+              },
+            });
+          }
+
+          return new Response(request.method === "HEAD" ? null : object.data, {
+            headers: {
+              ...headers,
+              "Content-Length": String(object.data.length),
+            },
+          });
+        }
+        case "DELETE":
+          objects.delete(name);
+          return new Response(null, { status: 204 });
+        default:
+          return new Response(null, { status: 405 });
+      }
+    },
+  });
+
+  return {
+    endpoint: `http://localhost:${server.port}`,
+    objects,
+    stop: () => server.stop(true),
+  };
+}
@@ -0,0 +1,168 @@
+import { normalizeStorageKey } from "./types";
+import type {
+  ByteRange,
+  StorageProvider,
+  StoredObject,
+  StoredObjectInfo,
+} from "./types";
+
+/**
+ * Connection settings for an S3-compatible bucket
+ */
+export interface S3StorageConfig {
+  bucket: string;
+  /** Key prefix inside the bucket, e.g. "media" */
+  prefix?: string;
+  /** Service URL; leave empty for AWS S3 */
+  endpoint?: string;
+  region?: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+/**
+ * Read the media bucket settings from the environment
+ *
+ * @throws Error if the bucket or credentials are missing
+ */
+export function getS3StorageConfig(): S3StorageConfig {
+  const bucket = process.env.MEDIA_S3_BUCKET;
+  const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+
+  if (!bucket) {
+    throw new Error(
+      "MEDIA_S3_BUCKET environment variable is required for S3 media storage"
+    );
+  }
+  if (!accessKeyId || !secretAccessKey) {
+    throw new Error(
+      "S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY environment variables are required"
+    );
+  }
+
+  return {
+    bucket,
+    prefix: process.env.MEDIA_S3_PREFIX || undefined,
+    endpoint: process.env.S3_ENDPOINT || undefined,
+    region: process.env.S3_REGION || "auto",
+    accessKeyId,
+    secretAccessKey,
+  };
+}
+
+function isNotFound(error: unknown): boolean {
+  const { code, status } = (error ?? {}) as { code?: string; status?: number };
+  return code === "NoSuchKey" || code === "NotFound" || status === 404;
+}
+
+/**
+ * Media storage in an S3-compatible bucket (Amazon S3, Cloudflare R2,
+ * Backblaze B2, MinIO), using Bun's native S3 client like cloud backups
+ */
+export class S3Storage implements StorageProvider {
+  readonly driver = "s3" as const;
+  private readonly client: Bun.S3Client;
+  private readonly prefix: string;
+
+  constructor(config: S3StorageConfig) {
+    this.client = new Bun.S3Client({
+      bucket: config.bucket,
+      endpoint: config.endpoint,
+      region: config.region,
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+    });
+    this.prefix = config.prefix ? `${normalizeStorageKey(config.prefix)}/` : "";
+  }
+
+  static fromEnv(): S3Storage {
+    return new S3Storage(getS3StorageConfig());
+  }
+
+  private objectKey(key: string): string {
+    return `${this.prefix}${normalizeStorageKey(key)}`;
+  }
+
+  async put(key: string, data: Buffer, contentType?: string): Promise<void> {
+    await this.client.write(this.objectKey(key), data, {
+      type: contentType || "application/octet-stream",
+    });
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    const file = this.client.file(this.objectKey(key));
+    try {
+      const stats = await file.stat();
+      const data = Buffer.from(await file.arrayBuffer());
+      return {
+        data,
+        size: stats.size,
+        lastModified: stats.lastModified,
+        etag: stats.etag,
+      };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async stat(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const stats = await this.client.file(this.objectKey(key)).stat();
+      return {
+        size: stats.size,
+        lastModified: stats.lastModified,
+        etag: stats.etag,
+      };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  stream(key: string, range?: ByteRange): ReadableStream<Uint8Array> {
+    const file = this.client.file(this.objectKey(key));
+    // A sliced file is fetched with a ranged GET; slice ends are exclusive
+    return (range ? file.slice(range.start, range.end + 1) : file).stream();
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.client.exists(this.objectKey(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await this.client.unlink(this.objectKey(key));
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+    }
+  }
+
+  async list(prefix: string = ""): Promise<Array<string>> {
+    const keys: Array<string> = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await this.client.list({
+        prefix: `${this.prefix}${prefix}`,
+        continuationToken,
+      });
+      for (const object of page.contents ?? []) {
+        keys.push(object.key.slice(this.prefix.length));
+      }
+      continuationToken = page.isTruncated
+        ? page.nextContinuationToken
+        : undefined;
+    } while (continuationToken);
+
+    return keys.sort();
+  }
+
+  getSignedUrl(key: string, expiresInSeconds: number): string {
+    return this.client.presign(this.objectKey(key), {
+      method: "GET",
+      expiresIn: expiresInSeconds,
+    });
+  }
+}
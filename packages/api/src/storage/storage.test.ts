@@ -0,0 +1,371 @@
+/**
+ * Unit Tests for media storage
+ *
+ * Tests cover:
+ * - Storage key normalization and media path conversion
+ * - Local file system storage, including streamed byte ranges
+ * - S3 storage against an in-process S3 stand-in
+ * - Provider selection from the environment
+ * - Migrating local media into a bucket
+ */
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+} from "vitest";
+import { startS3StandIn } from "./s3-stand-in";
+import {
+  LocalStorage,
+  S3Storage,
+  getMediaReadMode,
+  getMediaStorageDriver,
+  getStorageProvider,
+  mediaPathToStorageKey,
+  migrateMediaStorage,
+  normalizeStorageKey,
+} from "./index";
+import type { S3StandIn } from "./s3-stand-in";
+import type { StorageProvider } from "./index";
+
+const ENV_KEYS = [
+  "MEDIA_STORAGE_PROVIDER",
+  "MEDIA_STORAGE_PATH",
+  "MEDIA_S3_BUCKET",
+  "MEDIA_S3_PREFIX",
+  "MEDIA_S3_READ_MODE",
+  "S3_ENDPOINT",
+  "S3_ACCESS_KEY_ID",
+  "S3_SECRET_ACCESS_KEY",
+];
+
+describe("storage keys", () => {
+  it("normalizes separators and empty segments", () => {
+    expect(normalizeStorageKey("/webp//a.webp")).toBe("webp/a.webp");
+    expect(normalizeStorageKey("responsive\\a_400.webp")).toBe(
+      "responsive/a_400.webp"
+    );
+    expect(normalizeStorageKey("./a.jpg")).toBe("a.jpg");
+  });
+
+  it("rejects keys escaping the media root", () => {
+    expect(() => normalizeStorageKey("../secret")).toThrow(
+      "Invalid storage key"
+    );
+    expect(() => normalizeStorageKey("webp/../../secret")).toThrow(
+      "Invalid storage key"
+    );
+  });
+
+  it("rejects empty keys", () => {
+    expect(() => normalizeStorageKey("")).toThrow("Invalid storage key");
+    expect(() => normalizeStorageKey("/")).toThrow("Invalid storage key");
+  });
+
+  it("converts stored media paths to keys", () => {
+    expect(mediaPathToStorageKey("/data/uploads/media/a.jpg")).toBe("a.jpg");
+    expect(mediaPathToStorageKey("media/webp/a.webp")).toBe("webp/a.webp");
+    expect(mediaPathToStorageKey("/media/thumbnails/a_thumb.webp")).toBe(
+      "thumbnails/a_thumb.webp"
+    );
+  });
+});
+
+/**
+ * Behaviour shared by every backend
+ */
+function describeProvider(
+  name: string,
+  create: () => { storage: StorageProvider; cleanup: () => Promise<void> }
+) {
+  describe(name, () => {
+    let storage: StorageProvider;
+    let cleanup: () => Promise<void>;
+
+    beforeEach(() => {
+      ({ storage, cleanup } = create());
+    });
+
+    afterEach(async () => {
+      await cleanup();
+    });
+
+    it("stores and reads objects", async () => {
+      await storage.put("webp/a.webp", Buffer.from("webp"), "image/webp");
+
+      const object = await storage.get("webp/a.webp");
+      expect(object?.data.toString()).toBe("webp");
+      expect(object?.size).toBe(4);
+      expect(object?.etag).toBeTruthy();
+      expect(object?.lastModified).toBeInstanceOf(Date);
+      expect(await storage.exists("webp/a.webp")).toBe(true);
+    });
+
+    it("returns null for missing objects", async () => {
+      expect(await storage.get("missing.jpg")).toBeNull();
+      expect(await storage.stat("missing.jpg")).toBeNull();
+      expect(await storage.exists("missing.jpg")).toBe(false);
+    });
+
+    it("reads metadata without the content", async () => {
+      await storage.put("a.jpg", Buffer.from("0123456789"));
+
+      const info = await storage.stat("a.jpg");
+      expect(info?.size).toBe(10);
+      expect(info?.etag).toBe((await storage.get("a.jpg"))?.etag);
+      expect(info).not.toHaveProperty("data");
+    });
+
+    it("streams objects and byte ranges", async () => {
+      await storage.put("a.jpg", Buffer.from("0123456789"));
+
+      expect(await new Response(storage.stream("a.jpg")).text()).toBe(
+        "0123456789"
+      );
+      expect(
+        await new Response(storage.stream("a.jpg", { start: 2, end: 5 })).text()
+      ).toBe("2345");
+    });
+
+    it("replaces existing objects", async () => {
+      await storage.put("a.jpg", Buffer.from("one"));
+      await storage.put("a.jpg", Buffer.from("two"));
+
+      expect((await storage.get("a.jpg"))?.data.toString()).toBe("two");
+    });
+
+    it("deletes objects and ignores missing ones", async () => {
+      await storage.put("a.jpg", Buffer.from("a"));
+      await storage.delete("a.jpg");
+      await storage.delete("a.jpg");
+
+      expect(await storage.exists("a.jpg")).toBe(false);
+    });
+
+    it("lists keys by prefix", async () => {
+      await storage.put("a.jpg", Buffer.from("a"));
+      await storage.put("webp/a.webp", Buffer.from("a"));
+      await storage.put("responsive/a_400.webp", Buffer.from("a"));
+
+      expect(await storage.list()).toEqual([
+        "a.jpg",
+        "responsive/a_400.webp",
+        "webp/a.webp",
+      ]);
+      expect(await storage.list("webp/")).toEqual(["webp/a.webp"]);
+    });
+
+    it("rejects unsafe keys", async () => {
+      await expect(storage.put("../a.jpg", Buffer.from("a"))).rejects.toThrow(
+        "Invalid storage key"
+      );
+    });
+  });
+}
+
+describeProvider("LocalStorage", () => {
+  const root = path.join(os.tmpdir(), `vamsa-storage-${crypto.randomUUID()}`);
+  return {
+    storage: new LocalStorage(root),
+    cleanup: () => fs.rm(root, { recursive: true, force: true }),
+  };
+});
+
+describe("S3 backends", () => {
+  let s3: S3StandIn;
+
+  beforeAll(() => {
+    s3 = startS3StandIn();
+  });
+
+  afterAll(() => {
+    s3.stop();
+  });
+
+  const createS3 = (prefix?: string) => () => ({
+    storage: new S3Storage({
+      bucket: "media",
+      prefix,
+      endpoint: s3.endpoint,
+      region: "auto",
+      accessKeyId: "test",
+      secretAccessKey: "test",
+    }),
+    cleanup: async () => s3.objects.clear(),
+  });
+
+  describeProvider("S3Storage", createS3());
+  describeProvider("S3Storage with a key prefix", createS3("vamsa/media"));
+
+  it("stores objects under the configured prefix", async () => {
+    const storage = createS3("vamsa")().storage;
+    await storage.put("webp/a.webp", Buffer.from("a"), "image/webp");
+
+    const stored = s3.objects.get("media/vamsa/webp/a.webp");
+    expect(stored?.contentType).toBe("image/webp");
+    s3.objects.clear();
+  });
+
+  it("lists more than one page of keys", async () => {
+    const storage = createS3()().storage;
+    for (let i = 0; i < 1005; i++) {
+      s3.objects.set(`media/${String(i).padStart(4, "0")}.jpg`, {
+        data: Buffer.from("a"),
+        contentType: "image/jpeg",
+        lastModified: new Date(),
+        etag: '"a"',
+      });
+    }
+
+    const keys = await storage.list();
+    expect(keys).toHaveLength(1005);
+    expect(keys[1004]).toBe("1004.jpg");
+    s3.objects.clear();
+  });
+
+  it("creates presigned URLs that can be fetched", async () => {
+    const storage = createS3()().storage;
+    await storage.put("a.jpg", Buffer.from("image"), "image/jpeg");
+
+    const url = storage.getSignedUrl("a.jpg", 60);
+    expect(url).toContain("X-Amz-Expires=60");
+
+    const response = await fetch(url);
+    expect(await response.text()).toBe("image");
+    s3.objects.clear();
+  });
+});
+
+describe("getStorageProvider", () => {
+  const saved: Record<string, string | undefined> = {};
+
+  beforeEach(() => {
+    for (const key of ENV_KEYS) {
+      saved[key] = process.env[key];
+      delete process.env[key];
+    }
+  });
+
+  afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (saved[key] === undefined) delete process.env[key];
+      else process.env[key] = saved[key];
+    }
+  });
+
+  it("defaults to local storage", async () => {
+    expect(getMediaStorageDriver()).toBe("local");
+    expect((await getStorageProvider()).driver).toBe("local");
+  });
+
+  it("selects S3 storage", async () => {
+    process.env.MEDIA_STORAGE_PROVIDER = "S3";
+    process.env.MEDIA_S3_BUCKET = "media";
+    process.env.S3_ACCESS_KEY_ID = "test";
+    process.env.S3_SECRET_ACCESS_KEY = "test";
+
+    expect((await getStorageProvider()).driver).toBe("s3");
+  });
+
+  it("requires a bucket and credentials for S3 storage", async () => {
+    process.env.MEDIA_STORAGE_PROVIDER = "s3";
+    await expect(getStorageProvider()).rejects.toThrow("MEDIA_S3_BUCKET");
+
+    process.env.MEDIA_S3_BUCKET = "media";
+    await expect(getStorageProvider()).rejects.toThrow("S3_ACCESS_KEY_ID");
+  });
+
+  it("rejects unknown providers", () => {
+    process.env.MEDIA_STORAGE_PROVIDER = "ftp";
+    expect(() => getMediaStorageDriver()).toThrow(
+      "Unsupported media storage provider: ftp"
+    );
+  });
+
+  it("reads the S3 read mode", () => {
+    expect(getMediaReadMode()).toBe("proxy");
+    process.env.MEDIA_S3_READ_MODE = "presigned";
+    expect(getMediaReadMode()).toBe("presigned");
+  });
+});
+
+describe("migrateMediaStorage", () => {
+  let s3: S3StandIn;
+  let root: string;
+  let source: LocalStorage;
+  let target: S3Storage;
+
+  beforeAll(() => {
+    s3 = startS3StandIn();
+  });
+
+  afterAll(() => {
+    s3.stop();
+  });
+
+  beforeEach(async () => {
+    root = path.join(os.tmpdir(), `vamsa-migrate-${crypto.randomUUID()}`);
+    source = new LocalStorage(root);
+    target = new S3Storage({
+      bucket: "media",
+      endpoint: s3.endpoint,
+      accessKeyId: "test",
+      secretAccessKey: "test",
+    });
+    await source.put("a.jpg", Buffer.from("jpeg"));
+    await source.put("webp/a.webp", Buffer.from("webp"));
+  });
+
+  afterEach(async () => {
+    s3.objects.clear();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it("copies local files into the bucket with content types", async () => {
+    const result = await migrateMediaStorage(source, target);
+
+    expect(result).toEqual({ copied: 2, skipped: 0, failed: [], bytes: 8 });
+    expect(await target.list()).toEqual(["a.jpg", "webp/a.webp"]);
+    expect(s3.objects.get("media/a.jpg")?.contentType).toBe("image/jpeg");
+    expect(await source.exists("a.jpg")).toBe(true);
+  });
+
+  it("skips objects already in the bucket", async () => {
+    await target.put("a.jpg", Buffer.from("existing"));
+
+    const result = await migrateMediaStorage(source, target);
+
+    expect(result.copied).toBe(1);
+    expect(result.skipped).toBe(1);
+    expect((await target.get("a.jpg"))?.data.toString()).toBe("existing");
+  });
+
+  it("writes nothing in a dry run", async () => {
+    const result = await migrateMediaStorage(source, target, {
+      dryRun: true,
+      deleteSource: true,
+    });
+
+    expect(result.copied).toBe(2);
+    expect(await target.list()).toEqual([]);
+    expect(await source.list()).toHaveLength(2);
+  });
+
+  it("deletes local files after copying when asked", async () => {
+    const progress: Array<string> = [];
+
+    await migrateMediaStorage(source, target, {
+      deleteSource: true,
+      onProgress: (key, status) => progress.push(`${status}:${key}`),
+    });
+
+    expect(await source.list()).toEqual([]);
+    expect(progress).toEqual(["copied:a.jpg", "copied:webp/a.webp"]);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Media storage types and key helpers shared by the storage backends
+ */
+
+/** Storage backends for media files */
+export type MediaStorageDriver = "local" | "s3";
+
+/** How /media/* requests are answered when media lives in a bucket */
+export type MediaReadMode = "proxy" | "presigned";
+
+/**
+ * Stored object metadata
+ */
+export interface StoredObjectInfo {
+  size: number;
+  lastModified: Date;
+  etag: string;
+}
+
+/**
+ * Stored object content and metadata
+ */
+export interface StoredObject extends StoredObjectInfo {
+  data: Buffer<ArrayBuffer>;
+}
+
+/**
+ * Byte range of an object; both offsets are inclusive
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Key-based object storage for media files
+ */
+export interface StorageProvider {
+  readonly driver: MediaStorageDriver;
+  /** Write an object, replacing any existing one */
+  put: (key: string, data: Buffer, contentType?: string) => Promise<void>;
+  /** Read an object, or null when it does not exist */
+  get: (key: string) => Promise<StoredObject | null>;
+  /** Read an object's metadata, or null when it does not exist */
+  stat: (key: string) => Promise<StoredObjectInfo | null>;
+  /**
+   * Stream an object, or one byte range of it, without reading it into
+   * memory. The object must exist (see stat).
+   */
+  stream: (key: string, range?: ByteRange) => ReadableStream<Uint8Array>;
+  exists: (key: string) => Promise<boolean>;
+  /** Delete an object; deleting a missing object is not an error */
+  delete: (key: string) => Promise<void>;
+  /** List every key starting with prefix */
+  list: (prefix?: string) => Promise<Array<string>>;
+  /**
+   * Time-limited URL for reading an object directly from the backend, or
+   * null when the backend cannot serve objects itself
+   */
+  getSignedUrl: (key: string, expiresInSeconds: number) => string | null;
+}
+
+/**
+ * Normalize a storage key to a relative forward-slash path
+ *
+ * @throws Error for empty keys and keys that escape the media root
+ */
+export function normalizeStorageKey(key: string): string {
+  const segments: Array<string> = [];
+  for (const segment of key.replace(/\\/g, "/").split("/")) {
+    if (segment === "" || segment === ".") continue;
+    if (segment === "..") {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    segments.push(segment);
+  }
+  if (segments.length === 0) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return segments.join("/");
+}
+
+/**
+ * Storage key of a stored media path. Accepts the paths saved on media
+ * objects ("/data/uploads/media/3f2a.jpg", "media/webp/3f2a.webp") and
+ * "/media/..." URLs.
+ */
+export function mediaPathToStorageKey(mediaPath: string): string {
+  return normalizeStorageKey(
+    mediaPath.replace(/^\/+/, "").replace(/^(data\/uploads\/)?media\//, "")
+  );
+}
@@ -15,8 +15,18 @@
  * // Type-safe API calls
  * const persons = await client.persons.$get();
  * const person = await client.persons[":id"].$get({ param: { id: "123" } });
+ *
+ * // Typed methods for events, places, sources, research notes and media
+ * const api = createResourceClient("https://api.vamsa.app/api/v1");
+ * const events = await api.events.list("123");
  * ```
  */
 
 export { createApiClient, type ApiClient } from "./api-client";
+export {
+  ApiError,
+  createResourceClient,
+  type PageOptions,
+  type ResourceClient,
+} from "./resources";
 export * from "./types";
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { ApiError, createResourceClient } from "./resources";
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+describe("createResourceClient", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test("lists events with pagination query parameters", async () => {
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse({ items: [], nextCursor: null, hasMore: false })
+    );
+    const api = createResourceClient("https://api.example.com/api/v1/", {
+      headers: { Authorization: "Bearer token123" },
+    });
+
+    const result = await api.events.list("person_1", { limit: 10 });
+
+    expect(result.hasMore).toBe(false);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(
+      "https://api.example.com/api/v1/events?personId=person_1&limit=10"
+    );
+    expect(init.method).toBe("GET");
+    expect(init.headers).toEqual({ Authorization: "Bearer token123" });
+    expect(init.body).toBeUndefined();
+  });
+
+  test("sends JSON bodies for writes", async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ id: "place_1" }, 201));
+    const api = createResourceClient("https://api.example.com/api/v1");
+
+    await api.places.create({ name: "Pune", placeType: "CITY" });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://api.example.com/api/v1/places");
+    expect(init.method).toBe("POST");
+    expect(init.headers["Content-Type"]).toBe("application/json");
+    expect(JSON.parse(init.body)).toEqual({ name: "Pune", placeType: "CITY" });
+  });
+
+  test("encodes IDs in the path", async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ id: "a/b" }));
+    const api = createResourceClient("https://api.example.com/api/v1");
+
+    await api.sources.get("a/b");
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      "https://api.example.com/api/v1/sources/a%2Fb"
+    );
+  });
+
+  test("resolves deletes with no body", async () => {
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 204 }));
+    const api = createResourceClient("https://api.example.com/api/v1");
+
+    await expect(api.media.delete("media_1")).resolves.toBeUndefined();
+    expect(fetchMock.mock.calls[0][1].method).toBe("DELETE");
+  });
+
+  test("rejects with ApiError on error responses", async () => {
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse({ error: "Event not found" }, 404)
+    );
+    const api = createResourceClient("https://api.example.com/api/v1");
+
+    const error = await api.events.get("missing").catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect((error as ApiError).status).toBe(404);
+    expect((error as ApiError).message).toBe("Event not found");
+  });
+});
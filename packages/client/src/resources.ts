@@ -0,0 +1,177 @@
+import type {
+  ApiEvent,
+  ApiMediaObject,
+  ApiMediaUploadInput,
+  ApiPersonMedia,
+  ApiPlace,
+  ApiPlaceDetail,
+  ApiResearchNote,
+  ApiSource,
+  ApiSourceDetail,
+  CursorPaginatedResponse,
+  EventCreateInput,
+  EventUpdateInput,
+  MediaMetadataInput,
+  PlaceCreateFormInput,
+  PlaceUpdateFormInput,
+  ResearchNoteCreateInput,
+  ResearchNoteUpdateInput,
+  SourceCreateInput,
+  SourceUpdateInput,
+} from "@vamsa/schemas";
+
+/**
+ * Error thrown when the API answers with a non-2xx status
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly body: unknown
+  ) {
+    const message =
+      body && typeof body === "object" && "error" in body
+        ? String(body.error)
+        : `Request failed with status ${status}`;
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+/**
+ * Cursor pagination options shared by list methods
+ */
+export interface PageOptions {
+  cursor?: string;
+  limit?: number;
+}
+
+type Query = Record<string, string | number | undefined>;
+
+export type ResourceClient = ReturnType<typeof createResourceClient>;
+
+/**
+ * Create typed methods for the events, places, sources, research notes and
+ * media endpoints
+ *
+ * The Hono RPC client only infers types for chained routes, so these
+ * resources get hand-written methods typed with the response schemas from
+ * @vamsa/schemas. Non-2xx responses reject with an {@link ApiError}.
+ *
+ * @param baseUrl - Base URL for API (e.g., "https://api.vamsa.app/api/v1")
+ * @param options - Fetch options (headers, credentials, etc.)
+ *
+ * @example
+ * ```ts
+ * const api = createResourceClient("https://api.vamsa.app/api/v1", {
+ *   credentials: "include",
+ * });
+ * const { items, nextCursor } = await api.events.list("person_123");
+ * ```
+ */
+export function createResourceClient(baseUrl: string, options?: RequestInit) {
+  const root = baseUrl.replace(/\/+$/, "");
+
+  async function request<T>(
+    method: string,
+    path: string,
+    { query, body }: { query?: Query; body?: unknown } = {}
+  ): Promise<T> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query ?? {})) {
+      if (value !== undefined) params.set(key, String(value));
+    }
+    const search = params.size > 0 ? `?${params}` : "";
+
+    const response = await fetch(`${root}${path}${search}`, {
+      ...options,
+      method,
+      headers: {
+        ...options?.headers,
+        ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => null);
+      throw new ApiError(response.status, errorBody);
+    }
+
+    if (response.status === 204) {
+      return undefined as T;
+    }
+    return (await response.json()) as T;
+  }
+
+  const encode = (id: string) => encodeURIComponent(id);
+
+  return {
+    events: {
+      list: (personId: string, page?: PageOptions) =>
+        request<CursorPaginatedResponse<ApiEvent>>("GET", "/events", {
+          query: { personId, ...page },
+        }),
+      get: (id: string) => request<ApiEvent>("GET", `/events/${encode(id)}`),
+      create: (data: EventCreateInput) =>
+        request<ApiEvent>("POST", "/events", { body: data }),
+      update: (id: string, data: Omit<EventUpdateInput, "id">) =>
+        request<ApiEvent>("PUT", `/events/${encode(id)}`, { body: data }),
+      delete: (id: string) => request<void>("DELETE", `/events/${encode(id)}`),
+    },
+    places: {
+      list: (options?: PageOptions & { search?: string }) =>
+        request<CursorPaginatedResponse<ApiPlace>>("GET", "/places", {
+          query: { ...options },
+        }),
+      get: (id: string) =>
+        request<ApiPlaceDetail>("GET", `/places/${encode(id)}`),
+      create: (data: PlaceCreateFormInput) =>
+        request<ApiPlace>("POST", "/places", { body: data }),
+      update: (id: string, data: Omit<PlaceUpdateFormInput, "id">) =>
+        request<ApiPlace>("PUT", `/places/${encode(id)}`, { body: data }),
+      delete: (id: string) => request<void>("DELETE", `/places/${encode(id)}`),
+    },
+    sources: {
+      list: (options?: PageOptions & { type?: string; personId?: string }) =>
+        request<CursorPaginatedResponse<ApiSource>>("GET", "/sources", {
+          query: { ...options },
+        }),
+      get: (id: string) =>
+        request<ApiSourceDetail>("GET", `/sources/${encode(id)}`),
+      create: (data: SourceCreateInput) =>
+        request<ApiSource>("POST", "/sources", { body: data }),
+      update: (id: string, data: Omit<SourceUpdateInput, "id">) =>
+        request<ApiSource>("PUT", `/sources/${encode(id)}`, { body: data }),
+      delete: (id: string) => request<void>("DELETE", `/sources/${encode(id)}`),
+    },
+    researchNotes: {
+      list: (personId: string, page?: PageOptions) =>
+        request<CursorPaginatedResponse<ApiResearchNote>>(
+          "GET",
+          "/research-notes",
+          { query: { personId, ...page } }
+        ),
+      create: (data: ResearchNoteCreateInput) =>
+        request<ApiResearchNote>("POST", "/research-notes", { body: data }),
+      update: (id: string, data: Omit<ResearchNoteUpdateInput, "id">) =>
+        request<ApiResearchNote>("PUT", `/research-notes/${encode(id)}`, {
+          body: data,
+        }),
+      delete: (id: string) =>
+        request<void>("DELETE", `/research-notes/${encode(id)}`),
+    },
+    media: {
+      list: (personId: string, page?: PageOptions) =>
+        request<CursorPaginatedResponse<ApiPersonMedia>>("GET", "/media", {
+          query: { personId, ...page },
+        }),
+      get: (id: string) =>
+        request<ApiMediaObject>("GET", `/media/${encode(id)}`),
+      upload: (data: ApiMediaUploadInput) =>
+        request<ApiPersonMedia>("POST", "/media", { body: data }),
+      update: (id: string, data: Omit<MediaMetadataInput, "mediaId">) =>
+        request<ApiMediaObject>("PUT", `/media/${encode(id)}`, { body: data }),
+      delete: (id: string) => request<void>("DELETE", `/media/${encode(id)}`),
+    },
+  };
+}
@@ -7,4 +7,13 @@ export type {
   CursorPaginatedResponse,
   PaginatedResponse,
   PaginationMeta,
+  ApiEvent,
+  ApiEventParticipant,
+  ApiMediaObject,
+  ApiPersonMedia,
+  ApiPlace,
+  ApiPlaceDetail,
+  ApiResearchNote,
+  ApiSource,
+  ApiSourceDetail,
 } from "@vamsa/schemas";
@@ -2,9 +2,10 @@
  * AI Sidecar Client
  *
  * HTTP client for the Vamsa AI service. Handles:
- * - Chat (streaming SSE)
+ * - Chat (streaming SSE, or chat events with citations)
  * - Story generation
  * - Data suggestions
+ * - Document transcription and fact extraction
  * - Health detection with caching
  */
 
@@ -33,6 +34,25 @@ export interface ChatRequest {
   };
 }
 
+/**
+ * A tree record an answer drew on
+ */
+export interface ChatCitation {
+  type: "person" | "event";
+  id: string;
+  label: string;
+  personId: string;
+}
+
+/**
+ * One event of a chat event stream: text as it is generated, then the
+ * citations of the whole answer, or an error
+ */
+export type ChatEvent =
+  | { type: "text"; text: string }
+  | { type: "citations"; citations: Array<ChatCitation> }
+  | { type: "error"; message: string };
+
 export interface StoryRequest {
   personId: string;
   personName?: string;
@@ -65,6 +85,71 @@ export interface SuggestResult {
   toolCallCount: number;
 }
 
+export interface ExtractRequest {
+  /** Scan or photo of the document, base64 encoded */
+  image?: {
+    data: string;
+    mediaType: "image/jpeg" | "image/png" | "image/webp";
+  };
+  /** Text of the document, e.g. from a PDF's text layer */
+  text?: string;
+  fileName?: string;
+  /** Person the document was uploaded for, if any */
+  personId?: string;
+  personName?: string;
+}
+
+type ExtractedFactBase = {
+  personName: string;
+  /** Matching person in the tree; only IDs the AI service looked up */
+  personId: string | null;
+  confidence: "low" | "medium" | "high";
+  /** Words of the document the fact comes from */
+  evidence: string;
+};
+
+/**
+ * A candidate fact read from a document
+ */
+export type ExtractedFact =
+  | (ExtractedFactBase & {
+      kind: "person";
+      fields: Partial<
+        Record<
+          | "firstName"
+          | "lastName"
+          | "maidenName"
+          | "gender"
+          | "dateOfBirth"
+          | "dateOfPassing"
+          | "birthPlace"
+          | "nativePlace"
+          | "profession",
+          string
+        >
+      >;
+    })
+  | (ExtractedFactBase & {
+      kind: "event";
+      eventType: string;
+      date: string | null;
+      place: string | null;
+    })
+  | (ExtractedFactBase & {
+      kind: "relationship";
+      relationship: "PARENT" | "CHILD" | "SPOUSE" | "SIBLING";
+      relatedPersonName: string;
+      relatedPersonId: string | null;
+    });
+
+export interface ExtractResult {
+  title: string;
+  documentType: string;
+  transcription: string;
+  facts: Array<ExtractedFact>;
+  toolCallCount: number;
+}
+
 export interface AIHealthStatus {
   status: "healthy" | "degraded";
   timestamp: string;
@@ -93,11 +178,19 @@ export type AIAvailability =
 // Client
 // ============================================
 
+/**
+ * Header the asking user's session token travels in. The AI service looks
+ * tree records up with it, so answers only draw on what that user may see.
+ */
+const AI_VIEWER_TOKEN_HEADER = "X-Vamsa-Viewer-Token";
+
 export class AIClient {
   private config: AIConfig;
   private healthCache: { status: AIHealthStatus; checkedAt: number } | null =
     null;
   private static HEALTH_CACHE_TTL = 60_000; // 60 seconds
+  // Reading a whole document takes a small local model a while
+  private static EXTRACT_TIMEOUT = 180_000; // 3 minutes
 
   constructor(config: AIConfig) {
     this.config = {
@@ -106,13 +199,16 @@ export class AIClient {
     };
   }
 
-  private getHeaders(): Record<string, string> {
+  private getHeaders(viewerToken?: string): Record<string, string> {
     const headers: Record<string, string> = {
       "Content-Type": "application/json",
     };
     if (this.config.apiKey) {
       headers["Authorization"] = `Bearer ${this.config.apiKey}`;
     }
+    if (viewerToken) {
+      headers[AI_VIEWER_TOKEN_HEADER] = viewerToken;
+    }
     return headers;
   }
 
@@ -203,10 +299,13 @@ export class AIClient {
    * Returns a ReadableStream of text chunks. The caller should
    * read from the stream to get the response incrementally.
    */
-  async chat(request: ChatRequest): Promise<ReadableStream<string>> {
+  async chat(
+    request: ChatRequest,
+    viewerToken: string
+  ): Promise<ReadableStream<string>> {
     const response = await fetch(`${this.config.baseURL}/v1/chat`, {
       method: "POST",
-      headers: this.getHeaders(),
+      headers: this.getHeaders(viewerToken),
       body: JSON.stringify(request),
       signal: AbortSignal.timeout(this.config.timeout!),
     });
@@ -229,13 +328,68 @@ export class AIClient {
     return response.body.pipeThrough(new TextDecoderStream());
   }
 
+  /**
+   * Send a chat message and receive a stream of chat events
+   *
+   * Like chat(), but the answer ends with citations to the persons and
+   * events the assistant looked up.
+   */
+  async chatEvents(
+    request: ChatRequest,
+    viewerToken: string
+  ): Promise<ReadableStream<ChatEvent>> {
+    const response = await fetch(`${this.config.baseURL}/v1/chat/events`, {
+      method: "POST",
+      headers: this.getHeaders(viewerToken),
+      body: JSON.stringify(request),
+      signal: AbortSignal.timeout(this.config.timeout!),
+    });
+
+    if (!response.ok) {
+      const error = await response
+        .json()
+        .catch(() => ({ error: `HTTP ${response.status}` }));
+      throw new Error(
+        (error as { error?: string }).error ??
+          `Chat failed: HTTP ${response.status}`
+      );
+    }
+
+    if (!response.body) {
+      throw new Error("No response body");
+    }
+
+    // One JSON event per line; lines may be split across chunks
+    let buffered = "";
+    return response.body.pipeThrough(new TextDecoderStream()).pipeThrough(
+      new TransformStream<string, ChatEvent>({
+        transform(chunk, controller) {
+          buffered += chunk;
+          const lines = buffered.split("\n");
+          buffered = lines.pop() ?? "";
+          for (const line of lines) {
+            if (line.trim()) controller.enqueue(JSON.parse(line) as ChatEvent);
+          }
+        },
+        flush(controller) {
+          if (buffered.trim()) {
+            controller.enqueue(JSON.parse(buffered) as ChatEvent);
+          }
+        },
+      })
+    );
+  }
+
   /**
    * Generate a biographical narrative for a person
    */
-  async generateStory(request: StoryRequest): Promise<StoryResult> {
+  async generateStory(
+    request: StoryRequest,
+    viewerToken: string
+  ): Promise<StoryResult> {
     const response = await fetch(`${this.config.baseURL}/v1/story`, {
       method: "POST",
-      headers: this.getHeaders(),
+      headers: this.getHeaders(viewerToken),
       body: JSON.stringify(request),
       signal: AbortSignal.timeout(this.config.timeout!),
     });
@@ -256,10 +410,13 @@ export class AIClient {
   /**
    * Get missing data suggestions for a person
    */
-  async suggest(request: SuggestRequest): Promise<SuggestResult> {
+  async suggest(
+    request: SuggestRequest,
+    viewerToken: string
+  ): Promise<SuggestResult> {
     const response = await fetch(`${this.config.baseURL}/v1/suggest`, {
       method: "POST",
-      headers: this.getHeaders(),
+      headers: this.getHeaders(viewerToken),
       body: JSON.stringify(request),
       signal: AbortSignal.timeout(this.config.timeout!),
     });
@@ -277,6 +434,35 @@ export class AIClient {
     return (await response.json()) as SuggestResult;
   }
 
+  /**
+   * Transcribe a document and extract candidate facts from it
+   */
+  async extract(
+    request: ExtractRequest,
+    viewerToken: string
+  ): Promise<ExtractResult> {
+    const response = await fetch(`${this.config.baseURL}/v1/extract`, {
+      method: "POST",
+      headers: this.getHeaders(viewerToken),
+      body: JSON.stringify(request),
+      signal: AbortSignal.timeout(
+        Math.max(this.config.timeout!, AIClient.EXTRACT_TIMEOUT)
+      ),
+    });
+
+    if (!response.ok) {
+      const error = await response
+        .json()
+        .catch(() => ({ error: `HTTP ${response.status}` }));
+      throw new Error(
+        (error as { error?: string }).error ??
+          `Extraction failed: HTTP ${response.status}`
+      );
+    }
+
+    return (await response.json()) as ExtractResult;
+  }
+
   /**
    * Invalidate the health cache (e.g., after settings change)
    */
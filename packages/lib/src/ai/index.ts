@@ -6,8 +6,13 @@ export {
   type AIAvailability,
   type AIHealthStatus,
   type AIServiceConfig,
+  type ChatCitation,
+  type ChatEvent,
   type ChatMessage,
   type ChatRequest,
+  type ExtractedFact,
+  type ExtractRequest,
+  type ExtractResult,
   type StoryRequest,
   type StoryResult,
   type Suggestion,
@@ -67,6 +67,7 @@ export interface AuditLogImport {
   action: string;
   entityType: string;
   entityId: string;
+  personId?: string | null;
   previousData: Record<string, unknown>;
   newData: Record<string, unknown>;
   ipAddress?: string | null;
@@ -161,6 +162,7 @@ export interface AuditLogRecord {
   action: string;
   entityType: string;
   entityId: string;
+  personId?: string | null;
   previousData: Record<string, unknown>;
   newData: Record<string, unknown>;
   ipAddress?: string | null;
@@ -708,6 +710,7 @@ export class ConflictResolver {
             action: auditLog.action,
             entityType: auditLog.entityType,
             entityId: auditLog.entityId,
+            personId: auditLog.personId ?? null,
             previousData: auditLog.previousData,
             newData: auditLog.newData,
             ipAddress: auditLog.ipAddress,
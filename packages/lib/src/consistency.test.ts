@@ -0,0 +1,403 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_CONSISTENCY_THRESHOLDS,
+  checkConsistency,
+} from "./consistency";
+import type {
+  ConsistencyPerson,
+  ConsistencyRelationship,
+  ConsistencyRule,
+} from "./consistency";
+
+const person = (
+  id: string,
+  overrides: Partial<ConsistencyPerson> = {}
+): ConsistencyPerson => ({
+  id,
+  firstName: id.charAt(0).toUpperCase() + id.slice(1),
+  lastName: "Sharma",
+  ...overrides,
+});
+
+/** PARENT row as stored: personId is the child */
+const parentOf = (
+  childId: string,
+  parentId: string,
+  pedigree: string | null = null
+): ConsistencyRelationship => ({
+  personId: childId,
+  relatedPersonId: parentId,
+  type: "PARENT",
+  pedigree,
+});
+
+const rules = (issues: Array<{ rule: ConsistencyRule }>) =>
+  issues.map((issue) => issue.rule);
+
+describe("Data Consistency", () => {
+  describe("lifespans", () => {
+    it("flags death before birth as an error", () => {
+      const issues = checkConsistency({
+        persons: [
+          person("ravi", {
+            dateOfBirth: "1950-01-01",
+            dateOfPassing: "1940-01-01",
+          }),
+        ],
+        relationships: [],
+      });
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({
+        rule: "DEATH_BEFORE_BIRTH",
+        severity: "ERROR",
+        personId: "ravi",
+        personName: "Ravi Sharma",
+      });
+    });
+
+    it("flags lifespans over the maximum", () => {
+      const issues = checkConsistency({
+        persons: [
+          person("ravi", {
+            dateOfBirth: "1800-01-01",
+            dateOfPassing: "1950-01-01",
+          }),
+        ],
+        relationships: [],
+      });
+
+      expect(rules(issues)).toEqual(["LIFESPAN_TOO_LONG"]);
+      expect(issues[0].message).toBe("Lived at least 150 years");
+    });
+
+    it("flags living persons born too long ago", () => {
+      const issues = checkConsistency(
+        {
+          persons: [
+            person("ravi", { dateOfBirth: "1880-01-01", isLiving: true }),
+          ],
+          relationships: [],
+        },
+        DEFAULT_CONSISTENCY_THRESHOLDS,
+        { now: new Date("2026-01-01") }
+      );
+
+      expect(rules(issues)).toEqual(["LIFESPAN_TOO_LONG"]);
+    });
+
+    it("respects a configured maximum lifespan", () => {
+      const issues = checkConsistency(
+        {
+          persons: [
+            person("ravi", {
+              dateOfBirth: "1850-01-01",
+              dateOfPassing: "1960-01-01",
+            }),
+          ],
+          relationships: [],
+        },
+        { ...DEFAULT_CONSISTENCY_THRESHOLDS, maxLifespanYears: 100 }
+      );
+
+      expect(rules(issues)).toEqual(["LIFESPAN_TOO_LONG"]);
+    });
+
+    it("does not contradict approximate dates that could be right", () => {
+      const issues = checkConsistency({
+        persons: [
+          person("ravi", {
+            dateOfBirthDetail: {
+              qualifier: "ABOUT",
+              precision: "YEAR",
+              start: { year: 1850 },
+              calendar: "GREGORIAN",
+            },
+            dateOfPassing: "1848-06-01",
+          }),
+        ],
+        relationships: [],
+      });
+
+      expect(issues).toEqual([]);
+    });
+  });
+
+  describe("events", () => {
+    it("flags events before birth and after death", () => {
+      const issues = checkConsistency({
+        persons: [
+          person("ravi", {
+            dateOfBirth: "1900-01-01",
+            dateOfPassing: "1970-01-01",
+          }),
+        ],
+        relationships: [],
+        events: [
+          {
+            id: "e1",
+            personId: "ravi",
+            type: "GRADUATION",
+            date: "1890-05-01",
+          },
+          { id: "e2", personId: "ravi", type: "RESIDENCE", date: "1980-05-01" },
+          { id: "e3", personId: "ravi", type: "BURIAL", date: "1970-01-05" },
+        ],
+      });
+
+      expect(issues.map((i) => [i.rule, i.eventId])).toEqual([
+        ["EVENT_BEFORE_BIRTH", "e1"],
+        ["EVENT_AFTER_DEATH", "e2"],
+      ]);
+      expect(issues[0].message).toBe("Graduation dated before birth");
+    });
+
+    it("uses BIRTH events when the person has no birth date", () => {
+      const issues = checkConsistency({
+        persons: [person("ravi", { dateOfPassing: "1940-01-01" })],
+        relationships: [],
+        events: [
+          { id: "e1", personId: "ravi", type: "BIRTH", date: "1950-01-01" },
+        ],
+      });
+
+      expect(rules(issues)).toEqual(["DEATH_BEFORE_BIRTH"]);
+    });
+
+    it("flags marriage events below the minimum age", () => {
+      const issues = checkConsistency({
+        persons: [person("ravi", { dateOfBirth: "1900-01-01" })],
+        relationships: [],
+        events: [
+          { id: "e1", personId: "ravi", type: "MARRIAGE", date: "1905-06-01" },
+        ],
+      });
+
+      expect(rules(issues)).toEqual(["MARRIED_TOO_YOUNG"]);
+      expect(issues[0].message).toBe("Married at age 5");
+    });
+  });
+
+  describe("marriages", () => {
+    it("checks both spouses once per couple", () => {
+      const issues = checkConsistency({
+        persons: [
+          person("ravi", { dateOfBirth: "1900-01-01" }),
+          person("sita", { dateOfBirth: "1880-01-01" }),
+        ],
+        relationships: [
+          {
+            personId: "ravi",
+            relatedPersonId: "sita",
+            type: "SPOUSE",
+            marriageDate: "1908-01-01",
+          },
+          {
+            personId: "sita",
+            relatedPersonId: "ravi",
+            type: "SPOUSE",
+            marriageDate: "1908-01-01",
+          },
+        ],
+      });
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({
+        rule: "MARRIED_TOO_YOUNG",
+        personId: "ravi",
+        relatedPersonId: "sita",
+        message: "Married Sita Sharma at age 8",
+      });
+    });
+  });
+
+  describe("parents and children", () => {
+    it("flags a child born before a parent", () => {
+      const issues = checkConsistency({
+        persons: [
+          person("child", { dateOfBirth: "1900-01-01" }),
+          person("parent", { dateOfBirth: "1920-01-01" }),
+        ],
+        relationships: [parentOf("child", "parent")],
+      });
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({
+        rule: "CHILD_BORN_BEFORE_PARENT",
+        personId: "child",
+        relatedPersonId: "parent",
+      });
+    });
+
+    it("reads CHILD rows in the other direction", () => {
+      const issues = checkConsistency({
+        persons: [
+          person("child", { dateOfBirth: "1900-01-01" }),
+          person("parent", { dateOfBirth: "1920-01-01" }),
+        ],
+        relationships: [
+          parentOf("child", "parent"),
+          { personId: "parent", relatedPersonId: "child", type: "CHILD" },
+        ],
+      });
+
+      expect(rules(issues)).toEqual(["CHILD_BORN_BEFORE_PARENT"]);
+    });
+
+    it("flags birth parents who are too young or too old", () => {
+      const issues = checkConsistency({
+        persons: [
+          person("child", { dateOfBirth: "1900-01-01" }),
+          person("mother", { dateOfBirth: "1892-01-01", gender: "FEMALE" }),
+          person("father", { dateOfBirth: "1810-01-01", gender: "MALE" }),
+        ],
+        relationships: [
+          parentOf("child", "mother"),
+          parentOf("child", "father"),
+        ],
+      });
+
+      expect(rules(issues).sort()).toEqual([
+        "PARENT_TOO_OLD",
+        "PARENT_TOO_YOUNG",
+      ]);
+    });
+
+    it("skips age limits for adoptive parents", () => {
+      const issues = checkConsistency({
+        persons: [
+          person("child", { dateOfBirth: "1900-01-01" }),
+          person("parent", { dateOfBirth: "1810-01-01" }),
+        ],
+        relationships: [parentOf("child", "parent", "ADOPTED")],
+      });
+
+      expect(issues).toEqual([]);
+    });
+
+    it("allows a father to die shortly before the birth but not a mother", () => {
+      const issues = checkConsistency({
+        persons: [
+          person("child", { dateOfBirth: "1900-06-01" }),
+          person("mother", {
+            dateOfBirth: "1875-01-01",
+            dateOfPassing: "1900-01-01",
+            gender: "FEMALE",
+          }),
+          person("father", {
+            dateOfBirth: "1870-01-01",
+            dateOfPassing: "1900-01-01",
+            gender: "MALE",
+          }),
+        ],
+        relationships: [
+          parentOf("child", "mother"),
+          parentOf("child", "father"),
+        ],
+      });
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({
+        rule: "BORN_AFTER_PARENT_DEATH",
+        relatedPersonId: "mother",
+      });
+    });
+
+    it("flags more than two birth parents but not step or foster parents", () => {
+      const persons = ["child", "a", "b", "c"].map((id) => person(id));
+
+      const tooMany = checkConsistency({
+        persons,
+        relationships: [
+          parentOf("child", "a"),
+          parentOf("child", "b"),
+          parentOf("child", "c", "BIRTH"),
+        ],
+      });
+      const fostered = checkConsistency({
+        persons,
+        relationships: [
+          parentOf("child", "a"),
+          parentOf("child", "b"),
+          parentOf("child", "c", "FOSTER"),
+        ],
+      });
+
+      expect(rules(tooMany)).toEqual(["TOO_MANY_PARENTS"]);
+      expect(tooMany[0].message).toBe(
+        "Has 3 birth parents: A Sharma, B Sharma, C Sharma"
+      );
+      expect(fostered).toEqual([]);
+    });
+
+    it("flags every person in an ancestry loop", () => {
+      const issues = checkConsistency({
+        persons: ["a", "b", "c"].map((id) => person(id)),
+        relationships: [
+          parentOf("a", "b"),
+          parentOf("b", "c"),
+          parentOf("c", "a"),
+        ],
+      });
+
+      expect(rules(issues)).toEqual([
+        "OWN_ANCESTOR",
+        "OWN_ANCESTOR",
+        "OWN_ANCESTOR",
+      ]);
+      expect(issues.map((i) => i.personId).sort()).toEqual(["a", "b", "c"]);
+      expect(issues[0].message).toContain("→");
+    });
+
+    it("ignores relationships to persons that were not loaded", () => {
+      const issues = checkConsistency({
+        persons: [person("child", { dateOfBirth: "1900-01-01" })],
+        relationships: [parentOf("child", "missing")],
+      });
+
+      expect(issues).toEqual([]);
+    });
+  });
+
+  describe("options", () => {
+    it("limits issues to the given persons", () => {
+      const data = {
+        persons: [
+          person("ravi", {
+            dateOfBirth: "1950-01-01",
+            dateOfPassing: "1940-01-01",
+          }),
+          person("sita", {
+            dateOfBirth: "1950-01-01",
+            dateOfPassing: "1940-01-01",
+          }),
+        ],
+        relationships: [],
+      };
+
+      const issues = checkConsistency(data, DEFAULT_CONSISTENCY_THRESHOLDS, {
+        personIds: ["sita"],
+      });
+
+      expect(issues.map((i) => i.personId)).toEqual(["sita"]);
+    });
+
+    it("lists errors before warnings", () => {
+      const issues = checkConsistency({
+        persons: [
+          person("alpha", {
+            dateOfBirth: "1800-01-01",
+            dateOfPassing: "1950-01-01",
+          }),
+          person("zeta", {
+            dateOfBirth: "1950-01-01",
+            dateOfPassing: "1940-01-01",
+          }),
+        ],
+        relationships: [],
+      });
+
+      expect(issues.map((i) => i.severity)).toEqual(["ERROR", "WARNING"]);
+    });
+  });
+});
@@ -0,0 +1,566 @@
+/**
+ * Data Consistency Checks
+ *
+ * Rules that flag genealogically implausible records: a child born before a
+ * parent, death before birth, marriage at age 5, a person being their own
+ * ancestor, or three birth parents. Nothing here blocks a write; issues are
+ * reported so someone can look at the sources and fix the record.
+ *
+ * Approximate dates only raise an issue when every day they can stand for
+ * breaks the rule, so "ABT 1850" is never contradicted by "1851".
+ */
+
+import { parseDateString } from "./date";
+import { getEventTypeLabel } from "./event";
+import {
+  getGenealogicalDateBounds,
+  toGenealogicalDate,
+} from "./genealogical-date";
+import type { EventType } from "./event";
+
+export type ConsistencySeverity = "ERROR" | "WARNING";
+
+export type ConsistencyRule =
+  | "DEATH_BEFORE_BIRTH"
+  | "LIFESPAN_TOO_LONG"
+  | "EVENT_BEFORE_BIRTH"
+  | "EVENT_AFTER_DEATH"
+  | "CHILD_BORN_BEFORE_PARENT"
+  | "PARENT_TOO_YOUNG"
+  | "PARENT_TOO_OLD"
+  | "BORN_AFTER_PARENT_DEATH"
+  | "MARRIED_TOO_YOUNG"
+  | "OWN_ANCESTOR"
+  | "TOO_MANY_PARENTS";
+
+/**
+ * Severity of each rule: errors cannot be true, warnings are merely unlikely
+ */
+export const CONSISTENCY_RULE_SEVERITY: Record<
+  ConsistencyRule,
+  ConsistencySeverity
+> = {
+  DEATH_BEFORE_BIRTH: "ERROR",
+  LIFESPAN_TOO_LONG: "WARNING",
+  EVENT_BEFORE_BIRTH: "ERROR",
+  EVENT_AFTER_DEATH: "WARNING",
+  CHILD_BORN_BEFORE_PARENT: "ERROR",
+  PARENT_TOO_YOUNG: "WARNING",
+  PARENT_TOO_OLD: "WARNING",
+  BORN_AFTER_PARENT_DEATH: "ERROR",
+  MARRIED_TOO_YOUNG: "WARNING",
+  OWN_ANCESTOR: "ERROR",
+  TOO_MANY_PARENTS: "ERROR",
+};
+
+/**
+ * Configurable limits, in years
+ */
+export interface ConsistencyThresholds {
+  maxLifespanYears: number;
+  minParentAge: number;
+  maxParentAge: number;
+  minMarriageAge: number;
+}
+
+export const DEFAULT_CONSISTENCY_THRESHOLDS: ConsistencyThresholds = {
+  maxLifespanYears: 120,
+  minParentAge: 12,
+  maxParentAge: 70,
+  minMarriageAge: 14,
+};
+
+/**
+ * Person fields used by the checks
+ */
+export interface ConsistencyPerson {
+  id: string;
+  firstName: string;
+  lastName: string;
+  gender?: string | null;
+  isLiving?: boolean;
+  dateOfBirth?: Date | string | null;
+  dateOfBirthDetail?: unknown;
+  dateOfPassing?: Date | string | null;
+  dateOfPassingDetail?: unknown;
+}
+
+/**
+ * Relationship row as stored: a PARENT row's personId is the child
+ */
+export interface ConsistencyRelationship {
+  personId: string;
+  relatedPersonId: string;
+  type: string;
+  pedigree?: string | null;
+  marriageDate?: Date | string | null;
+}
+
+export interface ConsistencyEvent {
+  id: string;
+  personId: string;
+  type: string;
+  date?: Date | string | null;
+  dateDetail?: unknown;
+}
+
+export interface ConsistencyData {
+  persons: Array<ConsistencyPerson>;
+  relationships: Array<ConsistencyRelationship>;
+  events?: Array<ConsistencyEvent>;
+}
+
+/**
+ * One problem found by the checks
+ *
+ * personId is the record to open to fix it; relatedPersonId is the other
+ * person involved, if any.
+ */
+export interface ConsistencyIssue {
+  rule: ConsistencyRule;
+  severity: ConsistencySeverity;
+  personId: string;
+  personName: string;
+  relatedPersonId?: string;
+  relatedPersonName?: string;
+  eventId?: string;
+  message: string;
+}
+
+export interface ConsistencyCheckOptions {
+  /** Only report issues involving these persons */
+  personIds?: Iterable<string>;
+  /** Reference date for living persons (default: now) */
+  now?: Date;
+}
+
+/**
+ * Days a recorded date can stand for, in milliseconds; null ends are open
+ */
+interface DateRange {
+  earliest: number | null;
+  latest: number | null;
+}
+
+interface ParentLink {
+  childId: string;
+  parentId: string;
+  pedigree: string | null;
+}
+
+const YEAR_MS = 365.2425 * 24 * 60 * 60 * 1000;
+
+/** How far ABOUT/ESTIMATED/CALCULATED dates may be off */
+const APPROXIMATE_MARGIN_YEARS = 5;
+
+/** A father can die before his child is born; allow for the pregnancy */
+const PATERNAL_BIRTH_ALLOWANCE_MS = YEAR_MS;
+
+/** Events that are expected after a death */
+const POSTHUMOUS_EVENT_TYPES = new Set(["BURIAL", "CUSTOM"]);
+
+/** Slack when turning a span into whole years, for leap-day rounding */
+const ONE_DAY_IN_YEARS = 1 / 365;
+
+/** Pedigrees that imply a biological parent */
+const BIOLOGICAL_PEDIGREES = new Set([null, "BIRTH"]);
+
+function toDateRange(date: unknown, detail: unknown): DateRange | null {
+  const genealogical = toGenealogicalDate(detail);
+  if (genealogical) {
+    const bounds = getGenealogicalDateBounds(genealogical);
+    const earliest = bounds.earliest.getTime();
+    const latest = bounds.latest.getTime();
+    const margin = APPROXIMATE_MARGIN_YEARS * YEAR_MS;
+
+    switch (genealogical.qualifier) {
+      case "BEFORE":
+      case "TO":
+        return { earliest: null, latest };
+      case "AFTER":
+      case "FROM":
+        return { earliest, latest: null };
+      case "ABOUT":
+      case "ESTIMATED":
+      case "CALCULATED":
+        return { earliest: earliest - margin, latest: latest + margin };
+      default:
+        return { earliest, latest };
+    }
+  }
+
+  const value =
+    date instanceof Date
+      ? date
+      : typeof date === "string"
+        ? parseDateString(date)
+        : null;
+  if (!value || isNaN(value.getTime())) return null;
+  return { earliest: value.getTime(), latest: value.getTime() };
+}
+
+/** True when every day of `a` falls before every day of `b` */
+function isDefinitelyBefore(a: DateRange, b: DateRange): boolean {
+  return a.latest !== null && b.earliest !== null && a.latest < b.earliest;
+}
+
+/** Fewest years that can separate `from` and `to` */
+function minYearsBetween(from: DateRange, to: DateRange): number | null {
+  if (from.latest === null || to.earliest === null) return null;
+  return (to.earliest - from.latest) / YEAR_MS;
+}
+
+/** Most years that can separate `from` and `to` */
+function maxYearsBetween(from: DateRange, to: DateRange): number | null {
+  if (from.earliest === null || to.latest === null) return null;
+  return (to.latest - from.earliest) / YEAR_MS;
+}
+
+function wholeYears(years: number): number {
+  return Math.max(Math.floor(years + ONE_DAY_IN_YEARS), 0);
+}
+
+function fullName(person: ConsistencyPerson): string {
+  return `${person.firstName} ${person.lastName}`.trim();
+}
+
+function eventLabel(type: string): string {
+  return getEventTypeLabel(type as EventType) ?? type;
+}
+
+/**
+ * Child-to-parent links, one per pair, from PARENT and CHILD rows
+ */
+function collectParentLinks(
+  relationships: Array<ConsistencyRelationship>
+): Array<ParentLink> {
+  const links = new Map<string, ParentLink>();
+
+  for (const rel of relationships) {
+    let childId: string;
+    let parentId: string;
+    if (rel.type === "PARENT") {
+      childId = rel.personId;
+      parentId = rel.relatedPersonId;
+    } else if (rel.type === "CHILD") {
+      childId = rel.relatedPersonId;
+      parentId = rel.personId;
+    } else {
+      continue;
+    }
+
+    const key = `${childId}:${parentId}`;
+    const existing = links.get(key);
+    if (!existing || (!existing.pedigree && rel.pedigree)) {
+      links.set(key, { childId, parentId, pedigree: rel.pedigree ?? null });
+    }
+  }
+
+  return [...links.values()];
+}
+
+/**
+ * Cycles in the child-to-parent graph, each as a list of person IDs
+ * where every person is the child of the next (and the last of the first)
+ */
+function findAncestryCycles(links: Array<ParentLink>): Array<Array<string>> {
+  const parents = new Map<string, Array<string>>();
+  for (const link of links) {
+    const list = parents.get(link.childId) ?? [];
+    list.push(link.parentId);
+    parents.set(link.childId, list);
+  }
+
+  const state = new Map<string, "visiting" | "done">();
+  const stack: Array<string> = [];
+  const cycles: Array<Array<string>> = [];
+
+  const visit = (id: string) => {
+    state.set(id, "visiting");
+    stack.push(id);
+
+    for (const parentId of parents.get(id) ?? []) {
+      const parentState = state.get(parentId);
+      if (parentState === "visiting") {
+        cycles.push(stack.slice(stack.indexOf(parentId)));
+      } else if (!parentState) {
+        visit(parentId);
+      }
+    }
+
+    stack.pop();
+    state.set(id, "done");
+  };
+
+  for (const id of parents.keys()) {
+    if (!state.has(id)) visit(id);
+  }
+
+  return cycles;
+}
+
+/**
+ * Run every rule over a set of records
+ *
+ * Relationships or events that point at persons missing from `persons`
+ * are ignored, so callers can pass a partial neighbourhood of the tree.
+ *
+ * @param data - Persons, relationships and events to check
+ * @param thresholds - Limits to apply (default: DEFAULT_CONSISTENCY_THRESHOLDS)
+ * @param options - Optional person filter and reference date
+ * @returns Issues, errors first
+ */
+export function checkConsistency(
+  data: ConsistencyData,
+  thresholds: ConsistencyThresholds = DEFAULT_CONSISTENCY_THRESHOLDS,
+  options: ConsistencyCheckOptions = {}
+): Array<ConsistencyIssue> {
+  const persons = new Map(data.persons.map((p) => [p.id, p]));
+  const events = data.events ?? [];
+  const now = options.now ?? new Date();
+  const issues: Array<ConsistencyIssue> = [];
+
+  const report = (
+    rule: ConsistencyRule,
+    person: ConsistencyPerson,
+    message: string,
+    extra: { related?: ConsistencyPerson; eventId?: string } = {}
+  ) => {
+    issues.push({
+      rule,
+      severity: CONSISTENCY_RULE_SEVERITY[rule],
+      personId: person.id,
+      personName: fullName(person),
+      ...(extra.related && {
+        relatedPersonId: extra.related.id,
+        relatedPersonName: fullName(extra.related),
+      }),
+      ...(extra.eventId && { eventId: extra.eventId }),
+      message,
+    });
+  };
+
+  // Birth and death ranges, falling back to BIRTH and DEATH events
+  const births = new Map<string, DateRange>();
+  const deaths = new Map<string, DateRange>();
+  for (const person of data.persons) {
+    const birth = toDateRange(person.dateOfBirth, person.dateOfBirthDetail);
+    const death = toDateRange(person.dateOfPassing, person.dateOfPassingDetail);
+    if (birth) births.set(person.id, birth);
+    if (death) deaths.set(person.id, death);
+  }
+  for (const event of events) {
+    const target =
+      event.type === "BIRTH"
+        ? births
+        : event.type === "DEATH"
+          ? deaths
+          : undefined;
+    if (!target || target.has(event.personId)) continue;
+    const range = toDateRange(event.date, event.dateDetail);
+    if (range) target.set(event.personId, range);
+  }
+
+  // Lifespans
+  const today = { earliest: now.getTime(), latest: now.getTime() };
+  for (const person of data.persons) {
+    const birth = births.get(person.id);
+    const death = deaths.get(person.id);
+    if (!birth) continue;
+
+    if (death && isDefinitelyBefore(death, birth)) {
+      report("DEATH_BEFORE_BIRTH", person, "Died before being born");
+      continue;
+    }
+
+    const end = death ?? (person.isLiving ? today : undefined);
+    const years = end ? minYearsBetween(birth, end) : null;
+    if (years !== null && years > thresholds.maxLifespanYears) {
+      report(
+        "LIFESPAN_TOO_LONG",
+        person,
+        death
+          ? `Lived at least ${wholeYears(years)} years`
+          : `Marked as living but born at least ${wholeYears(years)} years ago`
+      );
+    }
+  }
+
+  // Events outside a lifetime; BIRTH and DEATH were checked as lifespans
+  for (const event of events) {
+    if (event.type === "BIRTH" || event.type === "DEATH") continue;
+    const person = persons.get(event.personId);
+    const range = toDateRange(event.date, event.dateDetail);
+    if (!person || !range) continue;
+    const birth = births.get(person.id);
+    const death = deaths.get(person.id);
+    const label = eventLabel(event.type);
+
+    if (birth && isDefinitelyBefore(range, birth)) {
+      report("EVENT_BEFORE_BIRTH", person, `${label} dated before birth`, {
+        eventId: event.id,
+      });
+      continue;
+    }
+
+    if (
+      !POSTHUMOUS_EVENT_TYPES.has(event.type) &&
+      death &&
+      isDefinitelyBefore(death, range)
+    ) {
+      report("EVENT_AFTER_DEATH", person, `${label} dated after death`, {
+        eventId: event.id,
+      });
+      continue;
+    }
+
+    if (event.type === "MARRIAGE" && birth) {
+      const age = maxYearsBetween(birth, range);
+      if (age !== null && age < thresholds.minMarriageAge) {
+        report(
+          "MARRIED_TOO_YOUNG",
+          person,
+          `Married at age ${wholeYears(age)}`,
+          { eventId: event.id }
+        );
+      }
+    }
+  }
+
+  // Marriage dates on spouse relationships, once per couple
+  const couples = new Set<string>();
+  for (const rel of data.relationships) {
+    if (rel.type !== "SPOUSE" || !rel.marriageDate) continue;
+    const key = [rel.personId, rel.relatedPersonId].sort().join(":");
+    if (couples.has(key)) continue;
+    couples.add(key);
+
+    const marriage = toDateRange(rel.marriageDate, null);
+    if (!marriage) continue;
+    for (const [id, otherId] of [
+      [rel.personId, rel.relatedPersonId],
+      [rel.relatedPersonId, rel.personId],
+    ]) {
+      const person = persons.get(id);
+      const spouse = persons.get(otherId);
+      const birth = births.get(id);
+      if (!person || !spouse || !birth) continue;
+      const age = maxYearsBetween(birth, marriage);
+      if (age !== null && age < thresholds.minMarriageAge) {
+        report(
+          "MARRIED_TOO_YOUNG",
+          person,
+          `Married ${fullName(spouse)} at age ${wholeYears(age)}`,
+          { related: spouse }
+        );
+      }
+    }
+  }
+
+  // Parents and children
+  const links = collectParentLinks(data.relationships).filter(
+    (link) => persons.has(link.childId) && persons.has(link.parentId)
+  );
+  const birthParents = new Map<string, Array<string>>();
+
+  for (const link of links) {
+    const child = persons.get(link.childId)!;
+    const parent = persons.get(link.parentId)!;
+    const isBiological = BIOLOGICAL_PEDIGREES.has(link.pedigree);
+    if (isBiological) {
+      const list = birthParents.get(child.id) ?? [];
+      list.push(parent.id);
+      birthParents.set(child.id, list);
+    }
+
+    const childBirth = births.get(child.id);
+    const parentBirth = births.get(parent.id);
+    const parentDeath = deaths.get(parent.id);
+    if (!childBirth) continue;
+
+    if (parentBirth && isDefinitelyBefore(childBirth, parentBirth)) {
+      report(
+        "CHILD_BORN_BEFORE_PARENT",
+        child,
+        `Born before their parent ${fullName(parent)}`,
+        { related: parent }
+      );
+      continue;
+    }
+    if (!isBiological) continue;
+
+    if (parentBirth) {
+      const youngest = maxYearsBetween(parentBirth, childBirth);
+      const oldest = minYearsBetween(parentBirth, childBirth);
+      if (youngest !== null && youngest < thresholds.minParentAge) {
+        report(
+          "PARENT_TOO_YOUNG",
+          child,
+          `${fullName(parent)} was at most ${wholeYears(youngest)} at this birth`,
+          { related: parent }
+        );
+      } else if (oldest !== null && oldest > thresholds.maxParentAge) {
+        report(
+          "PARENT_TOO_OLD",
+          child,
+          `${fullName(parent)} was at least ${wholeYears(oldest)} at this birth`,
+          { related: parent }
+        );
+      }
+    }
+
+    if (
+      parentDeath?.latest != null &&
+      childBirth.earliest !== null &&
+      childBirth.earliest >
+        parentDeath.latest +
+          (parent.gender === "FEMALE" ? 0 : PATERNAL_BIRTH_ALLOWANCE_MS)
+    ) {
+      report(
+        "BORN_AFTER_PARENT_DEATH",
+        child,
+        `Born after the death of their parent ${fullName(parent)}`,
+        { related: parent }
+      );
+    }
+  }
+
+  for (const [childId, parentIds] of birthParents) {
+    if (parentIds.length <= 2) continue;
+    report(
+      "TOO_MANY_PARENTS",
+      persons.get(childId)!,
+      `Has ${parentIds.length} birth parents: ${parentIds
+        .map((id) => fullName(persons.get(id)!))
+        .join(", ")}`
+    );
+  }
+
+  for (const cycle of findAncestryCycles(links)) {
+    const names = cycle.map((id) => fullName(persons.get(id)!));
+    const path = [...names, names[0]].join(" → ");
+    cycle.forEach((id, index) => {
+      report(
+        "OWN_ANCESTOR",
+        persons.get(id)!,
+        `Is their own ancestor: ${path}`,
+        { related: persons.get(cycle[(index + 1) % cycle.length])! }
+      );
+    });
+  }
+
+  const filter = options.personIds ? new Set(options.personIds) : null;
+  return issues
+    .filter(
+      (issue) =>
+        !filter ||
+        filter.has(issue.personId) ||
+        (issue.relatedPersonId !== undefined &&
+          filter.has(issue.relatedPersonId))
+    )
+    .sort(
+      (a, b) =>
+        (a.severity === b.severity ? 0 : a.severity === "ERROR" ? -1 : 1) ||
+        a.personName.localeCompare(b.personName)
+    );
+}
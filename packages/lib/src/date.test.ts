@@ -11,6 +11,7 @@ import {
   parseDateString,
   toDateOnly,
 } from "./date";
+import { parseGenealogicalDate } from "./genealogical-date";
 
 describe("parseDateString", () => {
   describe("valid dates", () => {
@@ -226,6 +227,18 @@ describe("calculateAge", () => {
     const age = calculateAge(dob, referenceDate);
     expect(age).toBe(100);
   });
+
+  test("estimates age from approximate dates", () => {
+    const dob = parseGenealogicalDate("ABT 1850")!; // estimated July 2, 1850
+    const dop = new Date(Date.UTC(1900, 11, 31));
+    expect(calculateAge(dob, dop)).toBe(50);
+  });
+
+  test("estimates age at death from ranged dates", () => {
+    const dob = parseGenealogicalDate("1850")!;
+    const dop = parseGenealogicalDate("BET 1895 AND 1905")!; // ~July 1900
+    expect(calculateAge(dob, dop)).toBe(50);
+  });
 });
 
 describe("createDateOnly", () => {
@@ -3,6 +3,9 @@
  * All dates are stored at midnight UTC to avoid timezone issues.
  */
 
+import { getGenealogicalEstimate } from "./genealogical-date";
+import type { GenealogicalDate } from "./genealogical-date";
+
 /**
  * Parse a date-only string (YYYY-MM-DD) as a local date.
  * Creates a date at midnight UTC to ensure consistent date-only storage.
@@ -95,18 +98,28 @@ export function formatDateForInput(
 
 /**
  * Calculate age from date of birth to end date (or today if not specified).
+ * Genealogical dates ("ABT 1850", "BET 1820 AND 1825") use the midpoint of
+ * their range, so the result is a best estimate for imprecise dates.
  */
 export function calculateAge(
-  dateOfBirth: Date | null | undefined,
-  dateOfPassing?: Date | null
+  dateOfBirth: Date | GenealogicalDate | null | undefined,
+  dateOfPassing?: Date | GenealogicalDate | null
 ): number | null {
   if (!dateOfBirth) return null;
-  const endDate = dateOfPassing || new Date();
+  const birthDate =
+    dateOfBirth instanceof Date
+      ? dateOfBirth
+      : getGenealogicalEstimate(dateOfBirth);
+  const endDate = !dateOfPassing
+    ? new Date()
+    : dateOfPassing instanceof Date
+      ? dateOfPassing
+      : getGenealogicalEstimate(dateOfPassing);
 
   // Use UTC components for consistent date-only calculations
-  const birthYear = dateOfBirth.getUTCFullYear();
-  const birthMonth = dateOfBirth.getUTCMonth();
-  const birthDay = dateOfBirth.getUTCDate();
+  const birthYear = birthDate.getUTCFullYear();
+  const birthMonth = birthDate.getUTCMonth();
+  const birthDay = birthDate.getUTCDate();
 
   const endYear = endDate.getUTCFullYear();
   const endMonth = endDate.getUTCMonth();
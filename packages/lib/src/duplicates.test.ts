@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+import {
+  findDuplicateCandidates,
+  scoreDuplicatePair,
+  trigramSimilarity,
+  trigrams,
+} from "./duplicates";
+import type { DuplicateCheckPerson } from "./duplicates";
+
+const person = (
+  id: string,
+  overrides: Partial<DuplicateCheckPerson> = {}
+): DuplicateCheckPerson => ({
+  id,
+  firstName: "Ramesh",
+  lastName: "Sharma",
+  ...overrides,
+});
+
+describe("Duplicate Detection", () => {
+  describe("trigrams", () => {
+    it("pads words like pg_trgm", () => {
+      expect([...trigrams("cat")].sort()).toEqual(
+        ["  c", " ca", "at ", "cat"].sort()
+      );
+    });
+
+    it("ignores punctuation and case", () => {
+      expect(trigrams("O'Brien")).toEqual(trigrams("o brien"));
+    });
+  });
+
+  describe("trigramSimilarity", () => {
+    it("returns 1 for identical strings", () => {
+      expect(trigramSimilarity("Sharma", "sharma")).toBe(1);
+    });
+
+    it("returns 0 when either side is empty", () => {
+      expect(trigramSimilarity("", "Sharma")).toBe(0);
+    });
+
+    it("scores close spellings highly", () => {
+      expect(trigramSimilarity("Smith", "Smyth")).toBeGreaterThan(0.2);
+      expect(trigramSimilarity("Smith", "Jones")).toBe(0);
+    });
+  });
+
+  describe("scoreDuplicatePair", () => {
+    it("scores exact names with the same birth date highly", () => {
+      const result = scoreDuplicatePair(
+        person("a", { dateOfBirth: "1901-03-04" }),
+        person("b", { dateOfBirth: new Date("1901-03-04T00:00:00.000Z") })
+      );
+
+      expect(result.score).toBe(65);
+      expect(result.reasons).toEqual([
+        "Name matches exactly",
+        "Same birth date",
+      ]);
+    });
+
+    it("matches a married name against a maiden name", () => {
+      const result = scoreDuplicatePair(
+        person("a", { firstName: "Sita", lastName: "Verma" }),
+        person("b", {
+          firstName: "Sita",
+          lastName: "Sharma",
+          maidenName: "Verma",
+        })
+      );
+
+      expect(result.score).toBe(40);
+      expect(result.reasons).toEqual(["Name matches using maiden name"]);
+    });
+
+    it("returns 0 for dissimilar names regardless of other signals", () => {
+      const result = scoreDuplicatePair(
+        person("a", { dateOfBirth: "1901-03-04", relativeIds: ["p1"] }),
+        person("b", {
+          firstName: "Anil",
+          lastName: "Kapoor",
+          dateOfBirth: "1901-03-04",
+          relativeIds: ["p1"],
+        })
+      );
+
+      expect(result).toEqual({ score: 0, reasons: [] });
+    });
+
+    it("penalises conflicting dates and genders", () => {
+      const result = scoreDuplicatePair(
+        person("a", { dateOfBirth: "1901-01-01", gender: "MALE" }),
+        person("b", { dateOfBirth: "1950-01-01", gender: "FEMALE" })
+      );
+
+      expect(result.score).toBe(0);
+      expect(result.reasons).toContain("Birth dates differ by 49 years");
+      expect(result.reasons).toContain("Genders differ");
+    });
+
+    it("adds points for shared relatives and places", () => {
+      const result = scoreDuplicatePair(
+        person("a", {
+          birthPlace: "Pune, India",
+          relativeIds: ["p1", "p2", "p3", "p4"],
+        }),
+        person("b", {
+          birthPlace: "Pune, India",
+          relativeIds: ["p1", "p2", "p3", "p4"],
+        })
+      );
+
+      // 40 name + 10 place + 30 (capped) relatives
+      expect(result.score).toBe(80);
+      expect(result.reasons).toContain("Same birth place");
+      expect(result.reasons).toContain("Shares 4 relatives");
+    });
+
+    it("gives fewer points for nearby birth years", () => {
+      const sameYear = scoreDuplicatePair(
+        person("a", { dateOfBirth: "1901-01-01" }),
+        person("b", { dateOfBirth: "1901-06-01" })
+      );
+      const nearYear = scoreDuplicatePair(
+        person("a", { dateOfBirth: "1901-01-01" }),
+        person("b", { dateOfBirth: "1903-01-01" })
+      );
+
+      expect(sameYear.score).toBe(55);
+      expect(nearYear.score).toBe(45);
+    });
+  });
+
+  describe("findDuplicateCandidates", () => {
+    it("returns each pair once with the smaller ID first", () => {
+      const matches = findDuplicateCandidates([
+        person("z", { dateOfBirth: "1901-03-04", maidenName: "Shah" }),
+        person("a", { dateOfBirth: "1901-03-04", maidenName: "Shah" }),
+        person("m", { firstName: "Anil", lastName: "Kapoor" }),
+      ]);
+
+      expect(matches).toEqual([
+        {
+          personId: "a",
+          duplicatePersonId: "z",
+          score: 65,
+          reasons: ["Name matches exactly", "Same birth date"],
+        },
+      ]);
+    });
+
+    it("respects the minimum score", () => {
+      const persons = [person("a"), person("b")];
+
+      expect(findDuplicateCandidates(persons)).toEqual([]);
+      expect(findDuplicateCandidates(persons, 40)).toHaveLength(1);
+    });
+
+    it("sorts by score descending", () => {
+      const matches = findDuplicateCandidates(
+        [
+          person("a", { dateOfBirth: "1901-03-04" }),
+          person("b", { dateOfBirth: "1901-03-04" }),
+          person("c", { firstName: "Sunil", lastName: "Shetty" }),
+          person("d", { firstName: "Sunil", lastName: "Shetty" }),
+        ],
+        40
+      );
+
+      expect(matches.map((m) => m.score)).toEqual([65, 40]);
+    });
+  });
+});
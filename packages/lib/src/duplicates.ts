@@ -0,0 +1,318 @@
+/**
+ * Duplicate Person Detection
+ *
+ * Scores pairs of person records that are likely the same ancestor entered
+ * twice (typically by overlapping GEDCOM imports or backup restores).
+ * Name matching uses trigram similarity computed the same way as pg_trgm's
+ * similarity(), so scores line up with the fuzzy search in search.ts.
+ */
+
+import { normalizeName } from "./profile-claim";
+
+/**
+ * Person fields used for duplicate scoring
+ */
+export interface DuplicateCheckPerson {
+  id: string;
+  firstName: string;
+  lastName: string;
+  maidenName?: string | null;
+  dateOfBirth?: Date | string | null;
+  dateOfPassing?: Date | string | null;
+  birthPlace?: string | null;
+  gender?: string | null;
+  /** IDs of parents, spouses, children and siblings */
+  relativeIds?: Array<string>;
+}
+
+/**
+ * Duplicate score with human-readable reasons
+ */
+export interface DuplicateScore {
+  score: number;
+  reasons: Array<string>;
+}
+
+/**
+ * A scored pair of likely duplicates
+ *
+ * personId is always the lexically smaller ID so each pair has one key.
+ */
+export interface DuplicateMatch extends DuplicateScore {
+  personId: string;
+  duplicatePersonId: string;
+}
+
+/**
+ * Default minimum score for a pair to be reported as a duplicate
+ */
+export const DEFAULT_DUPLICATE_MIN_SCORE = 50;
+
+/**
+ * Minimum average name similarity (0-1) before other signals are considered
+ */
+const NAME_SIMILARITY_THRESHOLD = 0.5;
+
+/**
+ * Extract the trigrams of a string the way pg_trgm does
+ *
+ * Each alphanumeric word is lowercased and padded with two leading spaces
+ * and one trailing space before being split into three-character windows.
+ */
+export function trigrams(value: string): Set<string> {
+  const result = new Set<string>();
+  const words = value.toLowerCase().split(/[^\p{L}\p{N}]+/u);
+
+  for (const word of words) {
+    if (word.length === 0) continue;
+    const padded = `  ${word} `;
+    for (let i = 0; i < padded.length - 2; i++) {
+      result.add(padded.slice(i, i + 3));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Trigram similarity between two strings (0-1), matching pg_trgm similarity()
+ */
+export function trigramSimilarity(a: string, b: string): number {
+  const left = trigrams(a);
+  const right = trigrams(b);
+  if (left.size === 0 || right.size === 0) return 0;
+
+  let shared = 0;
+  for (const gram of left) {
+    if (right.has(gram)) shared++;
+  }
+
+  return shared / (left.size + right.size - shared);
+}
+
+function toDay(value: Date | string | null | undefined): string | null {
+  if (!value) return null;
+  const iso = value instanceof Date ? value.toISOString() : value;
+  return /^\d{4}-\d{2}-\d{2}/.test(iso) ? iso.slice(0, 10) : null;
+}
+
+/**
+ * Compare two dates, returning points for agreement or a penalty for conflict
+ */
+function scoreDates(
+  a: Date | string | null | undefined,
+  b: Date | string | null | undefined,
+  label: string,
+  points: { exact: number; year: number; near: number; conflict: number },
+  reasons: Array<string>
+): number {
+  const left = toDay(a);
+  const right = toDay(b);
+  if (!left || !right) return 0;
+
+  if (left === right) {
+    reasons.push(`Same ${label} date`);
+    return points.exact;
+  }
+
+  const yearGap = Math.abs(
+    Number(left.slice(0, 4)) - Number(right.slice(0, 4))
+  );
+  if (yearGap === 0) {
+    reasons.push(`Same ${label} year`);
+    return points.year;
+  }
+  if (yearGap <= 2) {
+    reasons.push(`${capitalize(label)} years within ${yearGap} of each other`);
+    return points.near;
+  }
+
+  reasons.push(`${capitalize(label)} dates differ by ${yearGap} years`);
+  return -points.conflict;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Score how likely two person records describe the same individual
+ *
+ * Scoring criteria:
+ * - Name: 40 points for an exact match (maiden names count as surnames),
+ *   otherwise up to 40 scaled by trigram similarity. Pairs whose names are
+ *   not similar score 0 regardless of other signals.
+ * - Birth date: 25 same day, 15 same year, 5 within two years, -20 otherwise
+ * - Death date: 20 same day, 10 same year, 3 within two years, -15 otherwise
+ * - Birth place: 10 points when similar
+ * - Gender: -30 when both are set and differ
+ * - Shared relatives: 10 points each, up to 30
+ *
+ * @param a - First person
+ * @param b - Second person
+ * @returns Score and reasons
+ */
+export function scoreDuplicatePair(
+  a: DuplicateCheckPerson,
+  b: DuplicateCheckPerson
+): DuplicateScore {
+  const reasons: Array<string> = [];
+
+  const firstSimilarity = trigramSimilarity(
+    normalizeName(a.firstName),
+    normalizeName(b.firstName)
+  );
+
+  // Compare every surname pairing so a married name matches a maiden name
+  const surnamesA = [a.lastName, a.maidenName].filter(Boolean) as Array<string>;
+  const surnamesB = [b.lastName, b.maidenName].filter(Boolean) as Array<string>;
+  let surnameSimilarity = 0;
+  let viaMaidenName = false;
+  for (const left of surnamesA) {
+    for (const right of surnamesB) {
+      const similarity = trigramSimilarity(
+        normalizeName(left),
+        normalizeName(right)
+      );
+      if (similarity > surnameSimilarity) {
+        surnameSimilarity = similarity;
+        viaMaidenName = left !== a.lastName || right !== b.lastName;
+      }
+    }
+  }
+
+  const nameSimilarity = (firstSimilarity + surnameSimilarity) / 2;
+  if (
+    nameSimilarity < NAME_SIMILARITY_THRESHOLD ||
+    firstSimilarity === 0 ||
+    surnameSimilarity === 0
+  ) {
+    return { score: 0, reasons: [] };
+  }
+
+  let score = Math.round(40 * nameSimilarity);
+  if (nameSimilarity === 1) {
+    reasons.push(
+      viaMaidenName ? "Name matches using maiden name" : "Name matches exactly"
+    );
+  } else {
+    reasons.push(
+      viaMaidenName
+        ? "Similar name using maiden name"
+        : `Similar name (${Math.round(nameSimilarity * 100)}%)`
+    );
+  }
+
+  score += scoreDates(
+    a.dateOfBirth,
+    b.dateOfBirth,
+    "birth",
+    { exact: 25, year: 15, near: 5, conflict: 20 },
+    reasons
+  );
+  score += scoreDates(
+    a.dateOfPassing,
+    b.dateOfPassing,
+    "death",
+    { exact: 20, year: 10, near: 3, conflict: 15 },
+    reasons
+  );
+
+  if (a.birthPlace && b.birthPlace) {
+    const placeSimilarity = trigramSimilarity(a.birthPlace, b.birthPlace);
+    if (placeSimilarity === 1) {
+      score += 10;
+      reasons.push("Same birth place");
+    } else if (placeSimilarity >= 0.5) {
+      score += 10;
+      reasons.push("Similar birth place");
+    }
+  }
+
+  if (a.gender && b.gender && a.gender !== b.gender) {
+    score -= 30;
+    reasons.push("Genders differ");
+  }
+
+  if (a.relativeIds?.length && b.relativeIds?.length) {
+    const relativesB = new Set(b.relativeIds);
+    const shared = new Set(
+      a.relativeIds.filter((id) => relativesB.has(id) && id !== b.id)
+    ).size;
+    if (shared > 0) {
+      score += Math.min(shared, 3) * 10;
+      reasons.push(
+        shared === 1 ? "Shares 1 relative" : `Shares ${shared} relatives`
+      );
+    }
+  }
+
+  return { score: Math.max(score, 0), reasons };
+}
+
+/**
+ * Surname initials used to block comparisons
+ *
+ * Only records sharing a surname (or maiden name) initial are compared,
+ * which keeps the scan well below n² for large trees.
+ */
+function blockingKeys(person: DuplicateCheckPerson): Array<string> {
+  const keys = new Set<string>();
+  for (const surname of [person.lastName, person.maidenName]) {
+    const initial = surname ? normalizeName(surname).charAt(0) : "";
+    if (initial) keys.add(initial);
+  }
+  return [...keys];
+}
+
+/**
+ * Find likely duplicate pairs among a set of persons
+ *
+ * @param persons - Persons to compare
+ * @param minScore - Minimum score to include (default: 50)
+ * @returns Pairs sorted by score, highest first
+ */
+export function findDuplicateCandidates(
+  persons: Array<DuplicateCheckPerson>,
+  minScore: number = DEFAULT_DUPLICATE_MIN_SCORE
+): Array<DuplicateMatch> {
+  const blocks = new Map<string, Array<DuplicateCheckPerson>>();
+  for (const person of persons) {
+    for (const key of blockingKeys(person)) {
+      const block = blocks.get(key) ?? [];
+      block.push(person);
+      blocks.set(key, block);
+    }
+  }
+
+  const seen = new Set<string>();
+  const matches: Array<DuplicateMatch> = [];
+
+  for (const block of blocks.values()) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const [first, second] =
+          block[i].id < block[j].id
+            ? [block[i], block[j]]
+            : [block[j], block[i]];
+        if (first.id === second.id) continue;
+
+        const key = `${first.id}:${second.id}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const { score, reasons } = scoreDuplicatePair(first, second);
+        if (score >= minScore) {
+          matches.push({
+            personId: first.id,
+            duplicatePersonId: second.id,
+            score,
+            reasons,
+          });
+        }
+      }
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score);
+}
@@ -229,6 +229,10 @@ export function createTimelineEntries(count: number): Array<TimelineEntry> {
       lastName: ["Doe", "Smith", "Johnson"][i % 3],
       birthYear,
       deathYear: isLiving ? null : birthYear + 70,
+      birthDateLabel: null,
+      deathDateLabel: null,
+      isBirthApproximate: false,
+      isDeathApproximate: false,
       isLiving,
       gender: i % 2 === 0 ? "MALE" : "FEMALE",
       photoUrl: null,
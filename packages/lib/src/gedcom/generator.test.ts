@@ -208,6 +208,44 @@ describe("GedcomGenerator", () => {
     });
   });
 
+  describe("pedigree", () => {
+    const child: GedcomIndividualData = {
+      xref: "@I3@",
+      name: "Ann /Doe/",
+      notes: [],
+      familiesAsSpouse: [],
+      familiesAsChild: ["@F1@", "@F2@"],
+      childPedigrees: { "@F1@": "ADOPTED", "@F2@": "GUARDIAN" },
+    };
+
+    test("writes lowercase PEDI values in 5.5.1", () => {
+      const result = generator.generate([child], []);
+
+      expect(result).toContain("1 FAMC @F1@\n2 PEDI adopted");
+      // 5.5.1 has no guardian value
+      expect(result).toContain("1 FAMC @F2@\n2 PEDI foster");
+    });
+
+    test("writes uppercase PEDI values and a guardian phrase in 7.0", () => {
+      const result = new GedcomGenerator({ version: "7.0" }).generate(
+        [child],
+        []
+      );
+
+      expect(result).toContain("1 FAMC @F1@\n2 PEDI ADOPTED");
+      expect(result).toContain("1 FAMC @F2@\n2 PEDI OTHER\n3 PHRASE Guardian");
+    });
+
+    test("omits PEDI for links without a pedigree", () => {
+      const result = generator.generate(
+        [{ ...child, childPedigrees: undefined }],
+        []
+      );
+
+      expect(result).not.toContain("PEDI");
+    });
+  });
+
   describe("date formatting", () => {
     test("formats full date in 5.5.1 format", () => {
       const individuals: Array<GedcomIndividualData> = [
@@ -294,10 +332,49 @@ describe("GedcomGenerator", () => {
       // Should not have DATE line for empty date
       expect(result).not.toMatch(/2 DATE\s*$/m);
     });
+
+    test("keeps qualified dates", () => {
+      const individuals: Array<GedcomIndividualData> = [
+        {
+          xref: "@I1@",
+          name: "Test //",
+          birthDate: "ABT 1850",
+          deathDate: "BET 1900 AND 1905",
+          notes: [],
+          familiesAsSpouse: [],
+          familiesAsChild: [],
+        },
+      ];
+
+      const result = generator.generate(individuals, []);
+      expect(result).toContain("2 DATE ABT 1850");
+      expect(result).toContain("2 DATE BET 1900 AND 1905");
+    });
+
+    test("writes qualified dates with ISO parts in 7.0 format", () => {
+      const generator70 = new GedcomGenerator({
+        sourceProgram: "TestApp",
+        version: "7.0",
+      });
+
+      const individuals: Array<GedcomIndividualData> = [
+        {
+          xref: "@I1@",
+          name: "Test //",
+          birthDate: "BEF 15 JAN 1850",
+          notes: [],
+          familiesAsSpouse: [],
+          familiesAsChild: [],
+        },
+      ];
+
+      const result = generator70.generate(individuals, []);
+      expect(result).toContain("2 DATE BEF 1850-01-15");
+    });
   });
 
   describe("long line handling", () => {
-    test("handles long notes with CONT continuation", () => {
+    test("wraps long notes with CONC continuation", () => {
       const longNote =
         "This is a very long note that should exceed the maximum line length and require continuation. ".repeat(
           5
@@ -314,7 +391,23 @@ describe("GedcomGenerator", () => {
 
       const result = generator.generate(individuals, []);
       expect(result).toContain("1 NOTE");
-      expect(result).toContain("2 CONT");
+      expect(result).toContain("2 CONC");
+      expect(result).not.toContain("2 CONT");
+    });
+
+    test("writes line breaks in notes as CONT", () => {
+      const individuals: Array<GedcomIndividualData> = [
+        {
+          xref: "@I1@",
+          name: "Test //",
+          notes: ["First line\nSecond line"],
+          familiesAsSpouse: [],
+          familiesAsChild: [],
+        },
+      ];
+
+      const result = generator.generate(individuals, []);
+      expect(result).toContain("1 NOTE First line\n2 CONT Second line");
     });
 
     test("respects max line length", () => {
@@ -344,6 +437,183 @@ describe("GedcomGenerator", () => {
     });
   });
 
+  describe("events, citations and media", () => {
+    test("writes events with place coordinates, citations and media", () => {
+      const individuals: Array<GedcomIndividualData> = [
+        {
+          xref: "@I1@",
+          name: "Ravi /Rao/",
+          birthDate: "ABT 1850",
+          notes: [],
+          events: [
+            {
+              tag: "BIRT",
+              place: "Pune, India",
+              latitude: 18.5204,
+              longitude: 73.8567,
+              notes: [],
+              citations: [
+                {
+                  source: "@S1@",
+                  page: "Folio 12",
+                  quality: 3,
+                  notes: ["Baptism column"],
+                },
+              ],
+              media: [{ object: "@O1@" }],
+            },
+            {
+              tag: "EVEN",
+              type: "Land purchase",
+              date: "1885",
+              notes: [],
+              citations: [],
+              media: [],
+            },
+          ],
+          media: [{ object: "@O1@", isPrimary: true }],
+          familiesAsSpouse: [],
+          familiesAsChild: [],
+        },
+      ];
+
+      const result = generator.generate(individuals, []);
+
+      expect(result).toContain(
+        [
+          "1 BIRT",
+          "2 DATE ABT 1850",
+          "2 PLAC Pune, India",
+          "3 MAP",
+          "4 LATI N18.5204",
+          "4 LONG E73.8567",
+          "2 SOUR @S1@",
+          "3 PAGE Folio 12",
+          "3 QUAY 3",
+          "3 NOTE Baptism column",
+          "2 OBJE @O1@",
+          "1 EVEN",
+          "2 TYPE Land purchase",
+          "2 DATE 1885",
+        ].join("\n")
+      );
+      expect(result).toContain("1 OBJE @O1@\n2 _PRIM Y");
+    });
+
+    test("adds event detail to the family marriage", () => {
+      const families: Array<GedcomFamilyData> = [
+        {
+          xref: "@F1@",
+          children: [],
+          marriageDate: "4 MAY 1875",
+          notes: [],
+          events: [
+            {
+              tag: "MARR",
+              place: "Pune, India",
+              notes: [],
+              citations: [{ source: "@S2@", notes: [] }],
+              media: [],
+            },
+            {
+              tag: "ENGA",
+              date: "1874",
+              notes: [],
+              citations: [],
+              media: [],
+            },
+          ],
+        },
+      ];
+
+      const result = generator.generate([], families);
+
+      expect(result).toContain(
+        "1 MARR\n2 DATE 4 MAY 1875\n2 PLAC Pune, India\n2 SOUR @S2@\n1 ENGA\n2 DATE 1874"
+      );
+    });
+
+    test("writes source and multimedia records before the trailer", () => {
+      const result = generator.generate(
+        [],
+        [],
+        [{ xref: "@S1@", title: "Parish register" }],
+        [{ xref: "@O1@", filePath: "photos/ravi.jpg", format: "jpg" }]
+      );
+
+      expect(result).toMatch(
+        /0 @S1@ SOUR\n1 TITL Parish register\n0 @O1@ OBJE\n1 FILE photos\/ravi.jpg\n1 FORM jpg\n0 TRLR/
+      );
+    });
+
+    test("writes tagged regions as CROP in GEDCOM 7.0 only", () => {
+      const individuals: Array<GedcomIndividualData> = [
+        {
+          xref: "@I1@",
+          name: "Asha /Rao/",
+          notes: [],
+          media: [
+            {
+              object: "@O1@",
+              isPrimary: true,
+              crop: { left: 120, top: 40, width: 200, height: 260 },
+            },
+          ],
+          familiesAsSpouse: [],
+          familiesAsChild: [],
+        },
+      ];
+
+      const result70 = new GedcomGenerator({ version: "7.0" }).generate(
+        individuals,
+        []
+      );
+      expect(result70).toContain(
+        "1 OBJE @O1@\n2 CROP\n3 TOP 40\n3 LEFT 120\n3 HEIGHT 260\n3 WIDTH 200\n2 _PRIM Y"
+      );
+
+      const result551 = generator.generate(individuals, []);
+      expect(result551).toContain("1 OBJE @O1@\n2 _PRIM Y");
+      expect(result551).not.toContain("CROP");
+    });
+
+    test("points _PHOTO at the primary photo in GEDCOM 5.5.1", () => {
+      const individuals: Array<GedcomIndividualData> = [
+        {
+          xref: "@I1@",
+          name: "Asha /Rao/",
+          notes: [],
+          media: [{ object: "@O1@" }, { object: "@O2@", isPrimary: true }],
+          familiesAsSpouse: [],
+          familiesAsChild: [],
+        },
+      ];
+
+      expect(generator.generate(individuals, [])).toContain(
+        "1 OBJE @O2@\n2 _PRIM Y\n1 _PHOTO @O2@"
+      );
+      expect(
+        new GedcomGenerator({ version: "7.0" }).generate(individuals, [])
+      ).not.toContain("_PHOTO");
+    });
+
+    test("writes the media type under FILE in GEDCOM 7.0", () => {
+      const generator70 = new GedcomGenerator({ version: "7.0" });
+
+      const result = generator70.generateObject({
+        xref: "@O1@",
+        filePath: "media/asha.png",
+        format: "png",
+        mimeType: "image/png",
+        title: "Asha",
+      });
+
+      expect(result).toContain(
+        "1 FILE media/asha.png\n2 FORM image/png\n2 TITL Asha"
+      );
+    });
+  });
+
   describe("generateSource", () => {
     test("generates source record", () => {
       const source = {
@@ -3,23 +3,17 @@
  * Converts mapped GEDCOM data to valid GEDCOM 5.5.1 text format
  */
 
-import type { GedcomFamilyData, GedcomIndividualData } from "./mapper-types";
-
-// Phase 2 types for source citations and multimedia - defined locally
-export interface VamsaSource {
-  title: string;
-  author?: string;
-  publicationDate?: string;
-  repository?: string;
-  notes?: string;
-}
-
-export interface VamsaMediaObject {
-  filePath: string;
-  format?: string;
-  title?: string;
-  description?: string;
-}
+import { formatGedcomDate, parseGenealogicalDate } from "../genealogical-date";
+import type {
+  GedcomCitationData,
+  GedcomEventData,
+  GedcomFamilyData,
+  GedcomIndividualData,
+  GedcomMediaLinkData,
+  GedcomObjectData,
+  GedcomSourceData,
+} from "./mapper-types";
+import type { ParentPedigree } from "../relationships";
 
 export interface GeneratorOptions {
   sourceProgram?: string;
@@ -46,7 +40,9 @@ export class GedcomGenerator {
    */
   generate(
     individuals: Array<GedcomIndividualData>,
-    families: Array<GedcomFamilyData>
+    families: Array<GedcomFamilyData>,
+    sources: Array<GedcomSourceData> = [],
+    objects: Array<GedcomObjectData> = []
   ): string {
     const lines: Array<string> = [];
 
@@ -66,10 +62,18 @@ export class GedcomGenerator {
       lines.push(this.generateFamily(family));
     }
 
-    // 5. Add trailer
+    // 5. Add SOUR and OBJE records
+    for (const source of sources) {
+      lines.push(this.generateSource(source));
+    }
+    for (const object of objects) {
+      lines.push(this.generateObject(object));
+    }
+
+    // 6. Add trailer
     lines.push("0 TRLR");
 
-    // 6. Join with newlines and return
+    // 7. Join with newlines and return
     return lines.join("\n");
   }
 
@@ -150,28 +154,42 @@ export class GedcomGenerator {
       lines.push(`1 SEX ${individual.sex}`);
     }
 
-    // Birth event (optional)
-    if (individual.birthDate || individual.birthPlace) {
-      lines.push("1 BIRT");
-      if (individual.birthDate) {
-        const formattedDate = this.formatDate(individual.birthDate);
-        lines.push(`2 DATE ${formattedDate}`);
-      }
-      if (individual.birthPlace) {
-        lines.push(`2 PLAC ${individual.birthPlace}`);
-      }
+    // Birth and death events (optional), with any detail from events
+    const events = individual.events ?? [];
+    const birth = events.find((event) => event.tag === "BIRT");
+    if (individual.birthDate || individual.birthPlace || birth) {
+      lines.push(
+        ...this.generateEvent(1, {
+          tag: "BIRT",
+          notes: [],
+          citations: [],
+          media: [],
+          ...birth,
+          date: individual.birthDate || birth?.date,
+          place: individual.birthPlace || birth?.place,
+        })
+      );
     }
 
-    // Death event (optional)
-    if (individual.deathDate || individual.deathPlace) {
-      lines.push("1 DEAT");
-      if (individual.deathDate) {
-        const formattedDate = this.formatDate(individual.deathDate);
-        lines.push(`2 DATE ${formattedDate}`);
-      }
-      if (individual.deathPlace) {
-        lines.push(`2 PLAC ${individual.deathPlace}`);
-      }
+    const death = events.find((event) => event.tag === "DEAT");
+    if (individual.deathDate || individual.deathPlace || death) {
+      lines.push(
+        ...this.generateEvent(1, {
+          tag: "DEAT",
+          notes: [],
+          citations: [],
+          media: [],
+          ...death,
+          date: individual.deathDate || death?.date,
+          place: individual.deathPlace || death?.place,
+        })
+      );
+    }
+
+    // Other events and attributes (optional)
+    for (const event of events) {
+      if (event === birth || event === death) continue;
+      lines.push(...this.generateEvent(1, event));
     }
 
     // Occupation (optional)
@@ -185,6 +203,19 @@ export class GedcomGenerator {
       lines.push(...noteLines);
     }
 
+    // Citations and media on the person (optional)
+    for (const citation of individual.citations ?? []) {
+      lines.push(...this.generateCitation(1, citation));
+    }
+    for (const link of individual.media ?? []) {
+      lines.push(...this.generateMediaLink(1, link));
+    }
+    // Primary photo pointer read by GEDCOM 5.5.1 applications
+    const photo = individual.media?.find((link) => link.isPrimary);
+    if (photo && this.version === "5.5.1") {
+      lines.push(this.formatLine(1, "_PHOTO", photo.object));
+    }
+
     // Family references
     // Families as spouse (families where this person is a spouse)
     for (const familyRef of individual.familiesAsSpouse) {
@@ -194,11 +225,30 @@ export class GedcomGenerator {
     // Families as child (families where this person is a child)
     for (const familyRef of individual.familiesAsChild) {
       lines.push(`1 FAMC ${familyRef}`);
+      const pedigree = individual.childPedigrees?.[familyRef];
+      if (pedigree) {
+        lines.push(...this.generatePedigree(pedigree));
+      }
     }
 
     return lines.join("\n");
   }
 
+  /**
+   * Generate the PEDI line of a FAMC link. GEDCOM 7.0 records guardianship
+   * as OTHER with a phrase; 5.5.1 has no such value, so guardians are
+   * exported as foster parents there.
+   */
+  private generatePedigree(pedigree: ParentPedigree): Array<string> {
+    if (this.version === "7.0") {
+      return pedigree === "GUARDIAN"
+        ? ["2 PEDI OTHER", "3 PHRASE Guardian"]
+        : [`2 PEDI ${pedigree}`];
+    }
+    const value = pedigree === "GUARDIAN" ? "FOSTER" : pedigree;
+    return [`2 PEDI ${value.toLowerCase()}`];
+  }
+
   /**
    * Generate FAM record
    */
@@ -218,23 +268,41 @@ export class GedcomGenerator {
       lines.push(`1 WIFE ${family.wife}`);
     }
 
-    // Marriage event (optional)
-    if (family.marriageDate || family.marriagePlace) {
-      lines.push("1 MARR");
-      if (family.marriageDate) {
-        const formattedDate = this.formatDate(family.marriageDate);
-        lines.push(`2 DATE ${formattedDate}`);
-      }
-      if (family.marriagePlace) {
-        lines.push(`2 PLAC ${family.marriagePlace}`);
-      }
+    // Marriage and divorce events (optional), with any detail from events
+    const events = family.events ?? [];
+    const marriage = events.find((event) => event.tag === "MARR");
+    if (family.marriageDate || family.marriagePlace || marriage) {
+      lines.push(
+        ...this.generateEvent(1, {
+          tag: "MARR",
+          notes: [],
+          citations: [],
+          media: [],
+          ...marriage,
+          date: family.marriageDate || marriage?.date,
+          place: family.marriagePlace || marriage?.place,
+        })
+      );
     }
 
-    // Divorce event (optional)
-    if (family.divorceDate) {
-      lines.push("1 DIV");
-      const formattedDate = this.formatDate(family.divorceDate);
-      lines.push(`2 DATE ${formattedDate}`);
+    const divorce = events.find((event) => event.tag === "DIV");
+    if (family.divorceDate || divorce) {
+      lines.push(
+        ...this.generateEvent(1, {
+          tag: "DIV",
+          notes: [],
+          citations: [],
+          media: [],
+          ...divorce,
+          date: family.divorceDate || divorce?.date,
+        })
+      );
+    }
+
+    // Other family events (optional)
+    for (const event of events) {
+      if (event === marriage || event === divorce) continue;
+      lines.push(...this.generateEvent(1, event));
     }
 
     // Children
@@ -251,6 +319,100 @@ export class GedcomGenerator {
     return lines.join("\n");
   }
 
+  /**
+   * Generate an event or attribute with its date, place, notes, citations
+   * and media
+   */
+  private generateEvent(level: number, event: GedcomEventData): Array<string> {
+    const lines = [this.formatLine(level, event.tag, event.value)];
+
+    if (event.type) {
+      lines.push(this.formatLine(level + 1, "TYPE", event.type));
+    }
+    if (event.date) {
+      lines.push(
+        this.formatLine(level + 1, "DATE", this.formatDate(event.date))
+      );
+    }
+    if (event.place) {
+      lines.push(this.formatLine(level + 1, "PLAC", event.place));
+      if (event.latitude !== undefined && event.longitude !== undefined) {
+        lines.push(this.formatLine(level + 2, "MAP"));
+        lines.push(
+          this.formatLine(
+            level + 3,
+            "LATI",
+            `${event.latitude < 0 ? "S" : "N"}${Math.abs(event.latitude)}`
+          )
+        );
+        lines.push(
+          this.formatLine(
+            level + 3,
+            "LONG",
+            `${event.longitude < 0 ? "W" : "E"}${Math.abs(event.longitude)}`
+          )
+        );
+      }
+    }
+    for (const note of event.notes) {
+      lines.push(...this.formatLongLine(level + 1, "NOTE", note));
+    }
+    for (const citation of event.citations) {
+      lines.push(...this.generateCitation(level + 1, citation));
+    }
+    for (const link of event.media) {
+      lines.push(...this.generateMediaLink(level + 1, link));
+    }
+
+    return lines;
+  }
+
+  /**
+   * Generate a source citation pointing at a SOUR record
+   */
+  private generateCitation(
+    level: number,
+    citation: GedcomCitationData
+  ): Array<string> {
+    const lines = [this.formatLine(level, "SOUR", citation.source)];
+
+    if (citation.page) {
+      lines.push(this.formatLine(level + 1, "PAGE", citation.page));
+    }
+    if (citation.quality !== undefined) {
+      lines.push(this.formatLine(level + 1, "QUAY", String(citation.quality)));
+    }
+    for (const note of citation.notes) {
+      lines.push(...this.formatLongLine(level + 1, "NOTE", note));
+    }
+
+    return lines;
+  }
+
+  /**
+   * Generate a multimedia link pointing at an OBJE record
+   */
+  private generateMediaLink(
+    level: number,
+    link: GedcomMediaLinkData
+  ): Array<string> {
+    const lines = [this.formatLine(level, "OBJE", link.object)];
+    // GEDCOM 5.5.1 has no way to point at part of an image
+    if (link.crop && this.version === "7.0") {
+      lines.push(this.formatLine(level + 1, "CROP"));
+      lines.push(this.formatLine(level + 2, "TOP", String(link.crop.top)));
+      lines.push(this.formatLine(level + 2, "LEFT", String(link.crop.left)));
+      lines.push(
+        this.formatLine(level + 2, "HEIGHT", String(link.crop.height))
+      );
+      lines.push(this.formatLine(level + 2, "WIDTH", String(link.crop.width)));
+    }
+    if (link.isPrimary) {
+      lines.push(this.formatLine(level + 1, "_PRIM", "Y"));
+    }
+    return lines;
+  }
+
   /**
    * Format individual GEDCOM line
    * Format: "<level> [<xref>] <tag> [<value>]"
@@ -286,6 +448,16 @@ export class GedcomGenerator {
       return "";
     }
 
+    // Qualified, ranged or non-Gregorian dates ("ABT 1850", "BET 1820 AND 1825")
+    const genealogical = parseGenealogicalDate(isoDate);
+    if (
+      genealogical &&
+      (genealogical.qualifier !== "EXACT" ||
+        genealogical.calendar !== "GREGORIAN")
+    ) {
+      return formatGedcomDate(genealogical, this.version);
+    }
+
     if (this.version === "7.0") {
       // ISO 8601 format - already in correct format
       return isoDate;
@@ -343,7 +515,9 @@ export class GedcomGenerator {
 
   /**
    * Handle long lines with continuation
-   * Splits lines longer than maxLineLength using CONC/CONT
+   * Line breaks in the value become CONT lines; lines longer than
+   * maxLineLength are wrapped with CONC between two non-space characters,
+   * since readers trim leading and trailing spaces from line values
    * CONC = concatenate (no space between continuation)
    * CONT = continue (line break in original)
    */
@@ -352,68 +526,58 @@ export class GedcomGenerator {
     tag: string,
     value: string
   ): Array<string> {
-    const lines: Array<string> = [];
-
     if (!value || value.length === 0) {
       return [this.formatLine(level, tag)];
     }
 
-    // First line with tag
-    const firstLineMaxLength = this.maxLineLength - `${level} ${tag} `.length;
-
-    if (value.length <= firstLineMaxLength) {
-      // Fits in one line
-      return [this.formatLine(level, tag, value)];
-    }
-
-    // Split into multiple lines
-    let remaining = value;
-    let isFirst = true;
-
-    while (remaining.length > 0) {
-      if (isFirst) {
-        // First line with original tag
-        const chunk = remaining.substring(0, firstLineMaxLength);
-        lines.push(this.formatLine(level, tag, chunk));
-        remaining = remaining.substring(firstLineMaxLength);
-        isFirst = false;
-      } else {
-        // Continuation lines - prefer CONT for word boundaries
-        const contLineMaxLength =
-          this.maxLineLength - `${level + 1} CONT `.length;
-
-        if (remaining.length <= contLineMaxLength) {
-          // Last chunk
-          lines.push(this.formatLine(level + 1, "CONT", remaining));
-          remaining = "";
-        } else {
-          // Find word boundary for better readability
-          const chunk = remaining.substring(0, contLineMaxLength);
-          const lastSpace = chunk.lastIndexOf(" ");
-
-          if (lastSpace > 0 && lastSpace > contLineMaxLength / 2) {
-            // Use word boundary
-            lines.push(
-              this.formatLine(level + 1, "CONT", chunk.substring(0, lastSpace))
-            );
-            remaining = remaining.substring(lastSpace + 1);
-          } else {
-            // No good word boundary, use CONC for hard break
-            lines.push(this.formatLine(level + 1, "CONC", chunk));
-            remaining = remaining.substring(contLineMaxLength);
-          }
-        }
+    const lines: Array<string> = [];
+    const paragraphs = value.split("\n");
+
+    paragraphs.forEach((paragraph, index) => {
+      const lineTag = index === 0 ? tag : "CONT";
+      const lineLevel = index === 0 ? level : level + 1;
+      const firstMaxLength =
+        this.maxLineLength - `${lineLevel} ${lineTag} `.length;
+      const concMaxLength = this.maxLineLength - `${level + 1} CONC `.length;
+
+      let remaining = paragraph;
+      let chunk = this.takeChunk(remaining, firstMaxLength);
+      lines.push(this.formatLine(lineLevel, lineTag, chunk));
+      remaining = remaining.substring(chunk.length);
+
+      while (remaining.length > 0) {
+        chunk = this.takeChunk(remaining, concMaxLength);
+        lines.push(this.formatLine(level + 1, "CONC", chunk));
+        remaining = remaining.substring(chunk.length);
       }
-    }
+    });
 
     return lines;
   }
 
+  /**
+   * Take up to maxLength characters, ending between two non-space
+   * characters where possible
+   */
+  private takeChunk(value: string, maxLength: number): string {
+    if (value.length <= maxLength) {
+      return value;
+    }
+
+    for (let end = maxLength; end > maxLength / 2; end--) {
+      if (value[end - 1] !== " " && value[end] !== " ") {
+        return value.substring(0, end);
+      }
+    }
+
+    return value.substring(0, maxLength);
+  }
+
   /**
    * Generate SOUR (Source) record
    * GEDCOM Phase 2: Source Citations Support
    */
-  generateSource(source: VamsaSource & { xref: string }): string {
+  generateSource(source: GedcomSourceData): string {
     const lines: Array<string> = [];
 
     // Opening record
@@ -432,9 +596,17 @@ export class GedcomGenerator {
       lines.push(`1 PUBL ${source.publicationDate}`);
     }
 
-    // Repository (optional)
-    if (source.repository) {
-      lines.push(`1 REPO ${source.repository}`);
+    // Text from the source (optional)
+    if (source.text) {
+      lines.push(...this.formatLongLine(1, "TEXT", source.text));
+    }
+
+    // Repository and call number (optional)
+    if (source.repository || source.callNumber) {
+      lines.push(this.formatLine(1, "REPO", source.repository));
+      if (source.callNumber) {
+        lines.push(`2 CALN ${source.callNumber}`);
+      }
     }
 
     // Notes (optional)
@@ -450,7 +622,7 @@ export class GedcomGenerator {
    * Generate OBJE (Object/Multimedia) record
    * GEDCOM Phase 2: Multimedia Object Support
    */
-  generateObject(object: VamsaMediaObject & { xref: string }): string {
+  generateObject(object: GedcomObjectData): string {
     const lines: Array<string> = [];
 
     // Opening record
@@ -459,14 +631,25 @@ export class GedcomGenerator {
     // File path (required)
     lines.push(`1 FILE ${object.filePath}`);
 
-    // Format (optional but recommended)
-    if (object.format) {
-      lines.push(`1 FORM ${object.format}`);
-    }
+    if (this.version === "7.0") {
+      // GEDCOM 7.0 puts a media type and the title under FILE
+      const mediaType = object.mimeType || object.format;
+      if (mediaType) {
+        lines.push(`2 FORM ${mediaType}`);
+      }
+      if (object.title) {
+        lines.push(`2 TITL ${object.title}`);
+      }
+    } else {
+      // Format (optional but recommended)
+      if (object.format) {
+        lines.push(`1 FORM ${object.format}`);
+      }
 
-    // Title (optional)
-    if (object.title) {
-      lines.push(`1 TITL ${object.title}`);
+      // Title (optional)
+      if (object.title) {
+        lines.push(`1 TITL ${object.title}`);
+      }
     }
 
     // Description/Notes (optional)
@@ -15,6 +15,23 @@ export {
   type GedcomFamilyData,
   type MapOptions,
 } from "./mapper";
+export type {
+  GedcomCitationData,
+  GedcomEventData,
+  GedcomMediaLinkData,
+  GedcomObjectData,
+  GedcomSourceData,
+  VamsaEvent,
+  VamsaEventMedia,
+  VamsaEventSource,
+  VamsaGenealogyData,
+  VamsaMediaObject,
+  VamsaPersonMedia,
+  VamsaPlace,
+  VamsaResearchNote,
+  VamsaSource,
+} from "./mapper-types";
+export type { ParseRecordOptions } from "./parser";
 export {
   detectEncoding,
   normalizeEncoding,
@@ -27,6 +44,12 @@ export type {
   GedcomFile,
   ParsedIndividual,
   ParsedFamily,
+  ParsedEvent,
+  ParsedCitation,
+  ParsedMediaLink,
+  ParsedMediaFile,
+  ParsedSource,
+  ParsedMediaObject,
   ParsedRepository,
   ParsedSubmitter,
   ParsedDate,
@@ -3,8 +3,21 @@
  * Defines types for bidirectional mapping between GEDCOM and Vamsa data models
  */
 
+import type { EventType } from "../event";
+import type { GenealogicalDate } from "../genealogical-date";
+import type { ParentPedigree } from "../relationships";
+import type { PixelRect } from "../media/image-utils";
+import type { MediaRegion } from "@vamsa/schemas";
+
 // Define RelationshipType locally (matches Convex schema)
-export type RelationshipType = "PARENT" | "CHILD" | "SPOUSE" | "SIBLING";
+export type RelationshipType =
+  | "PARENT"
+  | "CHILD"
+  | "SPOUSE"
+  | "SIBLING"
+  | "PARTNER"
+  | "GODPARENT"
+  | "GODCHILD";
 
 /**
  * Mapping errors for diagnostics
@@ -20,7 +33,7 @@ export interface MappingError {
 /**
  * Mapping result with diagnostics
  */
-export interface MappingResult {
+export interface MappingResult extends Required<VamsaGenealogyData> {
   people: Array<VamsaPerson>;
   relationships: Array<VamsaRelationship>;
   errors: Array<MappingError>;
@@ -36,8 +49,10 @@ export interface VamsaPerson {
   firstName: string;
   lastName: string;
   maidenName?: string;
-  dateOfBirth?: Date;
+  dateOfBirth?: Date; // Sort value when a detail is present
   dateOfPassing?: Date;
+  dateOfBirthDetail?: GenealogicalDate | null; // Approximate/ranged/partial date
+  dateOfPassingDetail?: GenealogicalDate | null;
   birthPlace?: string;
   nativePlace?: string;
   gender?: "MALE" | "FEMALE" | "OTHER" | "PREFER_NOT_TO_SAY";
@@ -57,9 +72,196 @@ export interface VamsaRelationship {
   type: RelationshipType;
   marriageDate?: Date;
   divorceDate?: Date;
+  pedigree?: ParentPedigree | null; // PARENT/CHILD only (GEDCOM FAMC PEDI)
+  startDate?: Date; // PARTNER only
+  endDate?: Date;
   isActive?: boolean;
 }
 
+/**
+ * Vamsa Event data structure
+ * Custom events keep their GEDCOM label as the first line of the description
+ * ("Occupation: Farmer"), followed by any notes
+ */
+export interface VamsaEvent {
+  id?: string;
+  personId: string;
+  type: EventType;
+  date?: Date; // Sort value when a detail is present
+  dateDetail?: GenealogicalDate | null;
+  place?: string;
+  placeId?: string;
+  description?: string;
+  participants?: Array<{ personId: string; role?: string }>;
+}
+
+/**
+ * Vamsa Place data structure
+ */
+export interface VamsaPlace {
+  id?: string;
+  name: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+/**
+ * Vamsa Source data structure
+ */
+export interface VamsaSource {
+  id?: string;
+  title: string;
+  author?: string;
+  publicationDate?: string;
+  description?: string;
+  repository?: string;
+  callNumber?: string;
+  notes?: string;
+}
+
+/**
+ * Vamsa EventSource data structure: a citation of a source for one of a
+ * person's events. `eventType` is an EventType, the label of a custom event,
+ * or "GENERAL" for citations on the person as a whole.
+ */
+export interface VamsaEventSource {
+  id?: string;
+  sourceId: string;
+  personId: string;
+  eventType: string;
+  confidence?: "HIGH" | "MEDIUM" | "LOW";
+  sourceNotes?: string; // Where in the source (GEDCOM PAGE)
+}
+
+/**
+ * Vamsa ResearchNote data structure: a note on a citation
+ */
+export interface VamsaResearchNote {
+  id?: string;
+  sourceId: string;
+  personId: string;
+  eventType: string;
+  findings: string;
+}
+
+/**
+ * Vamsa MediaObject data structure
+ */
+export interface VamsaMediaObject {
+  id?: string;
+  filePath: string;
+  format: string;
+  mimeType: string;
+  fileSize: number;
+  title?: string;
+  description?: string;
+  width?: number; // Image size in pixels, when known
+  height?: number;
+}
+
+/**
+ * Vamsa PersonMedia data structure
+ */
+export interface VamsaPersonMedia {
+  id?: string;
+  personId: string;
+  mediaId: string;
+  isPrimary?: boolean;
+  displayOrder: number;
+  region?: MediaRegion; // Where the person appears, as fractions of the image
+}
+
+/**
+ * Vamsa EventMedia data structure (eventType as for VamsaEventSource)
+ */
+export interface VamsaEventMedia {
+  id?: string;
+  mediaId: string;
+  personId: string;
+  eventType: string;
+}
+
+/**
+ * Events, places, sources, citations and media that travel with people and
+ * relationships in a GEDCOM file
+ */
+export interface VamsaGenealogyData {
+  events?: Array<VamsaEvent>;
+  places?: Array<VamsaPlace>;
+  sources?: Array<VamsaSource>;
+  eventSources?: Array<VamsaEventSource>;
+  researchNotes?: Array<VamsaResearchNote>;
+  mediaObjects?: Array<VamsaMediaObject>;
+  personMedia?: Array<VamsaPersonMedia>;
+  eventMedia?: Array<VamsaEventMedia>;
+}
+
+/**
+ * Intermediate representation for GEDCOM export
+ * Source citation formatted for GEDCOM output
+ */
+export interface GedcomCitationData {
+  source: string; // xref like "@S1@"
+  page?: string;
+  quality?: number; // QUAY 0-3
+  notes: Array<string>;
+}
+
+/**
+ * Intermediate representation for GEDCOM export
+ * Multimedia link formatted for GEDCOM output
+ */
+export interface GedcomMediaLinkData {
+  object: string; // xref like "@O1@"
+  isPrimary?: boolean;
+  crop?: PixelRect; // CROP of the image showing the person (GEDCOM 7.0)
+}
+
+/**
+ * Intermediate representation for GEDCOM export
+ * Event or attribute formatted for GEDCOM output
+ */
+export interface GedcomEventData {
+  tag: string; // e.g. "RESI", "OCCU", "EVEN"
+  type?: string; // TYPE descriptor
+  value?: string; // Line payload
+  date?: string; // GEDCOM format: "15 JAN 1985" or "ABT 1850"
+  place?: string;
+  latitude?: number;
+  longitude?: number;
+  notes: Array<string>;
+  citations: Array<GedcomCitationData>;
+  media: Array<GedcomMediaLinkData>;
+}
+
+/**
+ * Intermediate representation for GEDCOM export
+ * Source record formatted for GEDCOM output
+ */
+export interface GedcomSourceData {
+  xref: string; // e.g., "@S1@"
+  title: string;
+  author?: string;
+  publicationDate?: string;
+  text?: string;
+  repository?: string;
+  callNumber?: string;
+  notes?: string;
+}
+
+/**
+ * Intermediate representation for GEDCOM export
+ * Multimedia record formatted for GEDCOM output
+ */
+export interface GedcomObjectData {
+  xref: string; // e.g., "@O1@"
+  filePath: string;
+  format?: string; // 5.5.1 FORM, e.g. "jpg"
+  mimeType?: string; // 7.0 FORM, e.g. "image/jpeg"
+  title?: string;
+  description?: string;
+}
+
 /**
  * Intermediate representation for GEDCOM export
  * Individual data formatted for GEDCOM output
@@ -74,8 +276,12 @@ export interface GedcomIndividualData {
   deathPlace?: string;
   occupation?: string;
   notes: Array<string>;
+  events?: Array<GedcomEventData>; // BIRT/DEAT entries add detail to the fields above
+  citations?: Array<GedcomCitationData>;
+  media?: Array<GedcomMediaLinkData>;
   familiesAsSpouse: Array<string>; // xrefs like "@F1@"
   familiesAsChild: Array<string>; // xref like "@F1@"
+  childPedigrees?: Record<string, ParentPedigree>; // FAMC xref -> PEDI
 }
 
 /**
@@ -91,6 +297,7 @@ export interface GedcomFamilyData {
   marriagePlace?: string;
   divorceDate?: string; // GEDCOM format: "01 JAN 2000"
   notes: Array<string>;
+  events?: Array<GedcomEventData>; // MARR/DIV entries add detail to the fields above
 }
 
 /**
@@ -3,9 +3,109 @@
  * Tests bidirectional mapping between GEDCOM and Vamsa data models
  */
 import { describe, expect, test } from "vitest";
+import {
+  referenceGedcom551,
+  referenceGedcom70,
+} from "../testing/gedcom-fixtures";
+import { GedcomGenerator } from "./generator";
 import { GedcomMapper } from "./mapper";
 import { GedcomParser } from "./parser";
-import type { VamsaPerson, VamsaRelationship } from "./mapper-types";
+import type {
+  MappingResult,
+  VamsaPerson,
+  VamsaRelationship,
+} from "./mapper-types";
+
+/**
+ * Describe a mapping result without generated ids, so two imports of the
+ * same data compare equal
+ */
+function summarize(result: MappingResult) {
+  const name = (id?: string) => {
+    const person = result.people.find((p) => p.id === id);
+    return person ? `${person.firstName} ${person.lastName}` : id;
+  };
+  const source = (id?: string) =>
+    result.sources.find((s) => s.id === id)?.title;
+  const media = (id?: string) =>
+    result.mediaObjects.find((m) => m.id === id)?.filePath;
+  const sorted = (items: Array<unknown>) =>
+    items.map((item) => JSON.stringify(item)).sort();
+
+  return {
+    people: sorted(result.people.map(({ id: _id, ...person }) => person)),
+    relationships: sorted(
+      result.relationships.map((rel) => ({
+        person: name(rel.personId),
+        related: name(rel.relatedPersonId),
+        type: rel.type,
+        marriageDate: rel.marriageDate,
+        pedigree: rel.pedigree,
+      }))
+    ),
+    events: sorted(
+      result.events.map(({ id: _id, placeId, ...event }) => ({
+        ...event,
+        personId: name(event.personId),
+        participants: event.participants?.map((p) => name(p.personId)),
+        place: result.places
+          .filter((place) => place.id === placeId)
+          .map(({ id: _placeId, ...place }) => place)[0],
+      }))
+    ),
+    sources: sorted(result.sources.map(({ id: _id, ...rest }) => rest)),
+    eventSources: sorted(
+      result.eventSources.map(({ id: _id, ...citation }) => ({
+        ...citation,
+        personId: name(citation.personId),
+        sourceId: source(citation.sourceId),
+      }))
+    ),
+    researchNotes: sorted(
+      result.researchNotes.map(({ id: _id, ...note }) => ({
+        ...note,
+        personId: name(note.personId),
+        sourceId: source(note.sourceId),
+      }))
+    ),
+    mediaObjects: sorted(result.mediaObjects.map(({ id: _id, ...m }) => m)),
+    personMedia: sorted(
+      result.personMedia.map(({ id: _id, ...link }) => ({
+        ...link,
+        personId: name(link.personId),
+        mediaId: media(link.mediaId),
+      }))
+    ),
+    eventMedia: sorted(
+      result.eventMedia.map(({ id: _id, ...link }) => ({
+        ...link,
+        personId: name(link.personId),
+        mediaId: media(link.mediaId),
+      }))
+    ),
+  };
+}
+
+/**
+ * Import a GEDCOM file, export it again and import the export
+ */
+function roundTrip(content: string, version: "5.5.1" | "7.0") {
+  const mapper = new GedcomMapper();
+  const first = mapper.mapFromGedcom(new GedcomParser().parse(content));
+  const { individuals, families, sources, objects } = mapper.mapToGedcom(
+    first.people,
+    first.relationships,
+    first
+  );
+  const exported = new GedcomGenerator({ version }).generate(
+    individuals,
+    families,
+    sources,
+    objects
+  );
+  const second = mapper.mapFromGedcom(new GedcomParser().parse(exported));
+  return { first, exported, second };
+}
 
 describe("GedcomMapper", () => {
   describe("mapFromGedcom", () => {
@@ -537,6 +637,154 @@ describe("GedcomMapper", () => {
     });
   });
 
+  describe("media regions", () => {
+    const people: Array<VamsaPerson> = [
+      { id: "asha", firstName: "Asha", lastName: "Rao", isLiving: false },
+      { id: "ravi", firstName: "Ravi", lastName: "Rao", isLiving: false },
+    ];
+    const region = { x: 0.25, y: 0.1, width: 0.5, height: 0.4 };
+
+    test("converts tagged regions to pixel crops", () => {
+      const { individuals } = new GedcomMapper().mapToGedcom(people, [], {
+        mediaObjects: [
+          {
+            id: "wedding",
+            filePath: "media/wedding.jpg",
+            format: "JPEG",
+            mimeType: "image/jpeg",
+            fileSize: 1000,
+            width: 800,
+            height: 600,
+          },
+        ],
+        personMedia: [
+          {
+            personId: "asha",
+            mediaId: "wedding",
+            isPrimary: true,
+            displayOrder: 0,
+            region,
+          },
+          { personId: "ravi", mediaId: "wedding", displayOrder: 0 },
+        ],
+      });
+
+      expect(individuals[0].media).toEqual([
+        {
+          object: "@O1@",
+          isPrimary: true,
+          crop: { left: 200, top: 60, width: 400, height: 240 },
+        },
+      ]);
+      expect(individuals[1].media).toEqual([
+        { object: "@O1@", isPrimary: undefined, crop: undefined },
+      ]);
+    });
+
+    test("drops regions of images of unknown size", () => {
+      const { individuals } = new GedcomMapper().mapToGedcom(people, [], {
+        mediaObjects: [
+          {
+            id: "wedding",
+            filePath: "media/wedding.jpg",
+            format: "JPEG",
+            mimeType: "image/jpeg",
+            fileSize: 1000,
+          },
+        ],
+        personMedia: [
+          { personId: "asha", mediaId: "wedding", displayOrder: 0, region },
+        ],
+      });
+
+      expect(individuals[0].media?.[0].crop).toBeUndefined();
+    });
+  });
+
+  describe("pedigree and partners", () => {
+    const content = `0 HEAD
+1 GEDC
+2 VERS 7.0
+0 @I1@ INDI
+1 NAME John /Doe/
+1 SEX M
+1 FAMS @F1@
+0 @I2@ INDI
+1 NAME Jane /Doe/
+1 SEX F
+1 FAMS @F1@
+0 @I3@ INDI
+1 NAME Ann /Doe/
+1 FAMC @F1@
+2 PEDI ADOPTED
+0 @I4@ INDI
+1 NAME Ben /Doe/
+1 FAMC @F1@
+2 PEDI OTHER
+3 PHRASE Guardian
+0 @F1@ FAM
+1 HUSB @I1@
+1 WIFE @I2@
+1 CHIL @I3@
+1 CHIL @I4@
+0 TRLR`;
+
+    test("sets the FAMC pedigree on the family's parent links", () => {
+      const result = new GedcomMapper().mapFromGedcom(
+        new GedcomParser().parse(content)
+      );
+      const ann = result.people.find((p) => p.firstName === "Ann")!;
+      const ben = result.people.find((p) => p.firstName === "Ben")!;
+
+      const annLinks = result.relationships.filter(
+        (rel) => rel.personId === ann.id || rel.relatedPersonId === ann.id
+      );
+      expect(annLinks).toHaveLength(4);
+      expect(annLinks.every((rel) => rel.pedigree === "ADOPTED")).toBe(true);
+
+      const benLinks = result.relationships.filter(
+        (rel) => rel.personId === ben.id || rel.relatedPersonId === ben.id
+      );
+      expect(benLinks.every((rel) => rel.pedigree === "GUARDIAN")).toBe(true);
+    });
+
+    test("keeps pedigrees through a 7.0 round-trip", () => {
+      const { first, exported, second } = roundTrip(content, "7.0");
+
+      expect(exported).toContain("2 PEDI ADOPTED");
+      expect(exported).toContain("3 PHRASE Guardian");
+      expect(summarize(second).relationships).toEqual(
+        summarize(first).relationships
+      );
+    });
+
+    test("exports unmarried partners as a family without a marriage", () => {
+      const people: Array<VamsaPerson> = [
+        { id: "a", firstName: "Sam", lastName: "Lee", isLiving: true },
+        { id: "b", firstName: "Alex", lastName: "Kim", isLiving: true },
+        { id: "c", firstName: "Jo", lastName: "Lee", isLiving: true },
+      ];
+      const relationships: Array<VamsaRelationship> = [
+        { personId: "a", relatedPersonId: "b", type: "PARTNER" },
+        { personId: "b", relatedPersonId: "a", type: "PARTNER" },
+        {
+          personId: "a",
+          relatedPersonId: "c",
+          type: "PARENT",
+          pedigree: "FOSTER",
+        },
+      ];
+
+      const result = new GedcomMapper().mapToGedcom(people, relationships);
+
+      expect(result.families).toHaveLength(1);
+      expect(result.families[0].marriageDate).toBeUndefined();
+      expect(result.families[0].children).toEqual(["@I3@"]);
+      const child = result.individuals.find((i) => i.xref === "@I3@");
+      expect(child?.childPedigrees).toEqual({ "@F1@": "FOSTER" });
+    });
+  });
+
   describe("round-trip mapping", () => {
     test("preserves essential data through round-trip", () => {
       const originalContent = `0 HEAD
@@ -587,5 +835,201 @@ describe("GedcomMapper", () => {
       expect(gedcomData.families.length).toBe(1);
       expect(gedcomData.families[0].marriageDate).toBe("10 JUN 2010");
     });
+
+    test("preserves approximate and ranged dates through round-trip", () => {
+      const originalContent = `0 HEAD
+1 GEDC
+2 VERS 5.5.1
+1 CHAR UTF-8
+0 @I1@ INDI
+1 NAME John /Doe/
+1 BIRT
+2 DATE ABT 1850
+1 DEAT
+2 DATE BET 1900 AND 1905
+0 @I2@ INDI
+1 NAME Jane /Smith/
+1 BIRT
+2 DATE 15 MAR 1852
+0 TRLR`;
+
+      const parser = new GedcomParser();
+      const mapper = new GedcomMapper();
+
+      const vamsaData = mapper.mapFromGedcom(parser.parse(originalContent));
+      const john = vamsaData.people.find((p) => p.firstName === "John");
+      const jane = vamsaData.people.find((p) => p.firstName === "Jane");
+
+      // Sortable dates hold the earliest possible day
+      expect(john?.dateOfBirth?.toISOString().slice(0, 10)).toBe("1850-01-01");
+      expect(john?.dateOfBirthDetail?.qualifier).toBe("ABOUT");
+      expect(john?.dateOfPassingDetail?.qualifier).toBe("BETWEEN");
+      // Exact days need no detail
+      expect(jane?.dateOfBirthDetail).toBeNull();
+
+      const gedcomData = mapper.mapToGedcom(
+        vamsaData.people,
+        vamsaData.relationships
+      );
+      const exported = gedcomData.individuals.find((i) =>
+        i.name.includes("John")
+      );
+
+      expect(exported?.birthDate).toBe("ABT 1850");
+      expect(exported?.deathDate).toBe("BET 1900 AND 1905");
+    });
+
+    test("preserves events, sources, citations and media of a GEDCOM 5.5.1 file", () => {
+      const { first, exported, second } = roundTrip(
+        referenceGedcom551,
+        "5.5.1"
+      );
+
+      expect(first.errors).toEqual([]);
+      expect(first.events).toHaveLength(8);
+      expect(first.sources).toHaveLength(3);
+      expect(exported).toContain("0 @S1@ SOUR");
+      expect(exported).toContain("0 @O1@ OBJE");
+      expect(summarize(second)).toEqual(summarize(first));
+    });
+
+    test("preserves events, sources, citations and media of a GEDCOM 7.0 file", () => {
+      const { first, exported, second } = roundTrip(referenceGedcom70, "7.0");
+
+      expect(first.errors).toEqual([]);
+      expect(first.events).toHaveLength(5);
+      expect(exported).toContain("2 VERS 7.0");
+      expect(exported).toContain("1 ENGA");
+      expect(summarize(second)).toEqual(summarize(first));
+    });
+  });
+
+  describe("events, sources and media", () => {
+    const mapper = new GedcomMapper();
+    const result = mapper.mapFromGedcom(
+      new GedcomParser().parse(referenceGedcom551)
+    );
+    const ravi = result.people.find((p) => p.firstName === "Ravi")!;
+    const meena = result.people.find((p) => p.firstName === "Meena")!;
+
+    test("maps individual events with dates and places", () => {
+      const birth = result.events.find(
+        (e) => e.personId === ravi.id && e.type === "BIRTH"
+      );
+      const residence = result.events.find((e) => e.type === "RESIDENCE");
+
+      expect(birth?.dateDetail?.qualifier).toBe("ABOUT");
+      expect(birth?.place).toBe("Pune, India");
+      expect(residence?.description).toBe("Family home");
+      expect(residence?.dateDetail?.qualifier).toBe("BETWEEN");
+    });
+
+    test("keeps unsupported events as custom events with their label", () => {
+      const custom = result.events
+        .filter((e) => e.type === "CUSTOM")
+        .map((e) => e.description);
+
+      expect(custom).toEqual(["Occupation: Farmer", "Land purchase"]);
+    });
+
+    test("creates one place per name with its coordinates", () => {
+      const pune = result.places.filter((p) => p.name === "Pune, India");
+
+      expect(pune).toHaveLength(1);
+      expect(pune[0].latitude).toBe(18.5204);
+      expect(pune[0].longitude).toBe(73.8567);
+    });
+
+    test("maps family events to the first spouse with the other as participant", () => {
+      const marriage = result.events.find((e) => e.type === "MARRIAGE");
+
+      expect(marriage?.personId).toBe(ravi.id);
+      expect(marriage?.participants).toEqual([
+        { personId: meena.id, role: "SPOUSE" },
+      ]);
+      // Both spouses cite the marriage record
+      expect(
+        result.eventSources
+          .filter((c) => c.eventType === "MARRIAGE")
+          .map((c) => c.personId)
+      ).toEqual([ravi.id, meena.id]);
+    });
+
+    test("maps citations with page, quality and notes", () => {
+      const register = result.sources.find(
+        (s) => s.title === "Pune parish register"
+      );
+      const citation = result.eventSources.find(
+        (c) => c.sourceId === register?.id
+      );
+
+      expect(register?.repository).toBe("Pune district archive");
+      expect(register?.callNumber).toBe("PR-1850");
+      expect(citation).toMatchObject({
+        personId: ravi.id,
+        eventType: "BIRTH",
+        confidence: "HIGH",
+        sourceNotes: "Folio 12",
+      });
+      expect(result.researchNotes).toEqual([
+        expect.objectContaining({
+          sourceId: register?.id,
+          findings: "Entry in the baptism column",
+        }),
+      ]);
+    });
+
+    test("creates sources for inline citations on the person", () => {
+      const bible = result.sources.find((s) => s.title === "Family bible");
+
+      expect(result.eventSources).toContainEqual(
+        expect.objectContaining({
+          sourceId: bible?.id,
+          personId: ravi.id,
+          eventType: "GENERAL",
+        })
+      );
+    });
+
+    test("links media to people and events", () => {
+      const [photo] = result.mediaObjects;
+
+      expect(photo).toMatchObject({
+        filePath: "photos/ravi.jpg",
+        format: "JPEG",
+        mimeType: "image/jpeg",
+        title: "Ravi Rao, 1900",
+      });
+      expect(result.personMedia).toEqual([
+        expect.objectContaining({
+          personId: ravi.id,
+          mediaId: photo.id,
+          isPrimary: true,
+        }),
+      ]);
+      expect(result.eventMedia).toEqual([
+        expect.objectContaining({ mediaId: photo.id, eventType: "BIRTH" }),
+      ]);
+    });
+
+    test("resolves shared notes", () => {
+      expect(ravi.bio).toBe(
+        "Ravi farmed the family land near Nashik.\nHe moved to Bombay in 1905."
+      );
+    });
+
+    test("writes the occupation once when it is also an event", () => {
+      const { individuals } = mapper.mapToGedcom(
+        result.people,
+        result.relationships,
+        result
+      );
+      const exported = individuals.find((i) => i.name === "Ravi /Rao/");
+
+      expect(exported?.occupation).toBeUndefined();
+      expect(exported?.events).toContainEqual(
+        expect.objectContaining({ tag: "OCCU", value: "Farmer", date: "1880" })
+      );
+    });
   });
 });
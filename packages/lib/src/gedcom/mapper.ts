@@ -3,18 +3,48 @@
  * Bidirectional mapping between GEDCOM and Vamsa data models
  */
 
+import {
+  formatGedcomDate,
+  getGenealogicalSortDate,
+  toGenealogicalDate,
+} from "../genealogical-date";
+import {
+  EVENT_TYPE_LABELS,
+  mapEventTypeToGedcomTag,
+  mapGedcomTagToEventType,
+} from "../event";
+import { regionToPixels } from "../media/image-utils";
 import { GedcomParser } from "./parser";
 import type {
+  GedcomCitationData,
+  GedcomEventData,
   GedcomFamilyData,
   GedcomIndividualData,
+  GedcomMediaLinkData,
+  GedcomObjectData,
+  GedcomSourceData,
   MapOptions,
   MappingError,
   MappingResult,
   ParsedName,
+  VamsaEvent,
+  VamsaGenealogyData,
+  VamsaMediaObject,
   VamsaPerson,
+  VamsaPlace,
   VamsaRelationship,
 } from "./mapper-types";
-import type { GedcomFile } from "./types";
+import type { ParseRecordOptions } from "./parser";
+import type {
+  GedcomFile,
+  ParsedCitation,
+  ParsedEvent,
+  ParsedMediaFile,
+  ParsedMediaLink,
+} from "./types";
+import type { EventType } from "../event";
+import type { GenealogicalDate } from "../genealogical-date";
+import type { ParentPedigree } from "../relationships";
 
 /**
  * Generate a CUID-like ID for use in mapping operations
@@ -26,6 +56,118 @@ function generateId(): string {
   return `c${timestamp}${randomPart}`;
 }
 
+/** Citation and media event type for the person as a whole */
+const GENERAL_EVENT_TYPE = "GENERAL";
+
+/**
+ * GEDCOM events and attributes without a Vamsa event type. They are kept as
+ * CUSTOM events whose description starts with the label ("Occupation: Farmer").
+ */
+const CUSTOM_EVENT_LABELS: Record<string, string> = {
+  ANUL: "Annulment",
+  BAPM: "Baptism",
+  BARM: "Bar Mitzvah",
+  BASM: "Bat Mitzvah",
+  BLES: "Blessing",
+  CAST: "Caste",
+  CENS: "Census",
+  CHR: "Christening",
+  CHRA: "Adult Christening",
+  CREM: "Cremation",
+  DSCR: "Physical Description",
+  EDUC: "Education",
+  FCOM: "First Communion",
+  IDNO: "Identification Number",
+  MARB: "Marriage Banns",
+  MARC: "Marriage Contract",
+  MARL: "Marriage License",
+  MARS: "Marriage Settlement",
+  NATI: "Nationality",
+  NCHI: "Number of Children",
+  NMR: "Number of Marriages",
+  OCCU: "Occupation",
+  ORDN: "Ordination",
+  PROB: "Probate",
+  PROP: "Property",
+  RELI: "Religion",
+  RETI: "Retirement",
+  SSN: "Social Security Number",
+  TITL: "Title",
+  WILL: "Will",
+};
+
+/** Family event tags that differ from the individual ones */
+const FAMILY_EVENT_TAGS: Partial<Record<EventType, string>> = {
+  ENGAGEMENT: "ENGA",
+};
+
+/** Custom event tags GEDCOM only allows on FAM records */
+const FAMILY_CUSTOM_TAGS = new Set(["ANUL", "MARB", "MARC", "MARL", "MARS"]);
+
+/** Event types GEDCOM only allows on FAM records */
+const FAMILY_ONLY_EVENT_TYPES = new Set<EventType>([
+  "MARRIAGE",
+  "DIVORCE",
+  "DIVORCE_FILED",
+  "ENGAGEMENT",
+]);
+
+/** Event types written on a FAM record when a couple shares them */
+const FAMILY_EVENT_TYPES = new Set<EventType>([
+  ...FAMILY_ONLY_EVENT_TYPES,
+  "RESIDENCE",
+  "CUSTOM",
+]);
+
+/** Citation confidence by GEDCOM QUAY value */
+const QUALITY_CONFIDENCE = ["LOW", "LOW", "MEDIUM", "HIGH"] as const;
+
+/** GEDCOM QUAY value by citation confidence */
+const CONFIDENCE_QUALITY = { HIGH: 3, MEDIUM: 2, LOW: 1 } as const;
+
+/** Media formats with their GEDCOM 5.5.1 FORM values (first is written) */
+const MEDIA_FORMATS = [
+  { format: "JPEG", mimeType: "image/jpeg", forms: ["jpg", "jpeg"] },
+  { format: "PNG", mimeType: "image/png", forms: ["png"] },
+  { format: "GIF", mimeType: "image/gif", forms: ["gif"] },
+  { format: "WEBP", mimeType: "image/webp", forms: ["webp"] },
+  { format: "TIFF", mimeType: "image/tiff", forms: ["tif", "tiff"] },
+  { format: "BMP", mimeType: "image/bmp", forms: ["bmp"] },
+  { format: "SVG", mimeType: "image/svg+xml", forms: ["svg"] },
+  { format: "PDF", mimeType: "application/pdf", forms: ["pdf"] },
+  { format: "MPEG", mimeType: "audio/mpeg", forms: ["mp3"] },
+  { format: "WAV", mimeType: "audio/wav", forms: ["wav"] },
+  { format: "M4A", mimeType: "audio/mp4", forms: ["m4a"] },
+  { format: "OGG", mimeType: "audio/ogg", forms: ["ogg"] },
+  { format: "FLAC", mimeType: "audio/flac", forms: ["flac"] },
+  { format: "MP4", mimeType: "video/mp4", forms: ["mp4"] },
+  { format: "QUICKTIME", mimeType: "video/quicktime", forms: ["mov"] },
+  { format: "WEBM", mimeType: "video/webm", forms: ["webm"] },
+];
+
+/**
+ * Records collected while mapping a GEDCOM file, with lookups from GEDCOM
+ * ids to the Vamsa ids created for them
+ */
+interface ImportContext {
+  data: Required<VamsaGenealogyData>;
+  parseOptions: ParseRecordOptions;
+  warnings: Array<string>;
+  sourceIds: Map<string, string>; // SOUR id -> Source id
+  inlineSourceIds: Map<string, string>; // Inline citation text -> Source id
+  mediaIds: Map<string, string>; // OBJE id -> MediaObject id
+  placeIds: Map<string, string>; // Place name -> Place id
+  linkKeys: Set<string>; // Citations and media links already created
+}
+
+/**
+ * Citations and media links waiting to be written, by person and event type
+ */
+interface ExportLinks {
+  citations: Map<string, Map<string, Array<GedcomCitationData>>>;
+  media: Map<string, Map<string, Array<GedcomMediaLinkData>>>;
+}
+
 export class GedcomMapper {
   private parser: GedcomParser;
 
@@ -68,11 +210,16 @@ export class GedcomMapper {
       }
     }
 
-    // 3. Map individuals (INDI -> Person)
+    // 3. Map sources and multimedia records so citations and links resolve
+    const context = this.createImportContext(gedcomFile, warnings);
+
+    // 4. Map individuals (INDI -> Person, Events, citations and media)
+    // FAMC pedigrees by child, then family, applied to the family's parent links
+    const childPedigrees = new Map<string, Record<string, ParentPedigree>>();
     for (const record of gedcomFile.individuals) {
       if (!record.id) continue;
 
-      const parsed = this.parser.parseIndividual(record);
+      const parsed = this.parser.parseIndividual(record, context.parseOptions);
       const vamsaId = idMap.get(parsed.id);
 
       if (!vamsaId) {
@@ -102,13 +249,18 @@ export class GedcomMapper {
       // Determine if person is living
       const isLiving = !parsed.deathDate;
 
-      // Convert date strings to Date objects
-      const dateOfBirth = parsed.birthDate
-        ? this.parseISODate(parsed.birthDate)
-        : undefined;
-      const dateOfPassing = parsed.deathDate
-        ? this.parseISODate(parsed.deathDate)
-        : undefined;
+      // Convert date strings to Date objects. Approximate, ranged and partial
+      // dates keep their detail and store its sort value as the date.
+      const dateOfBirth = parsed.birthDateDetail
+        ? getGenealogicalSortDate(parsed.birthDateDetail)
+        : parsed.birthDate
+          ? this.parseISODate(parsed.birthDate)
+          : undefined;
+      const dateOfPassing = parsed.deathDateDetail
+        ? getGenealogicalSortDate(parsed.deathDateDetail)
+        : parsed.deathDate
+          ? this.parseISODate(parsed.deathDate)
+          : undefined;
 
       // Map gender
       const gender = this.unmapGender(parsed.sex);
@@ -119,6 +271,8 @@ export class GedcomMapper {
         lastName: parsedName.lastName,
         dateOfBirth,
         dateOfPassing,
+        dateOfBirthDetail: parsed.birthDateDetail ?? null,
+        dateOfPassingDetail: parsed.deathDateDetail ?? null,
         birthPlace: parsed.birthPlace,
         gender,
         profession: parsed.occupation,
@@ -127,13 +281,38 @@ export class GedcomMapper {
       };
 
       people.push(person);
+      childPedigrees.set(parsed.id, parsed.familyPedigrees);
+
+      for (const event of parsed.events) {
+        this.mapEvent(event, vamsaId, undefined, context);
+      }
+      for (const citation of parsed.citations) {
+        this.mapCitation(citation, vamsaId, GENERAL_EVENT_TYPE, context);
+      }
+      parsed.media.forEach((link, index) =>
+        this.mapPersonMedia(link, vamsaId, index, context)
+      );
     }
 
-    // 4. Map families (FAM -> Relationships)
+    // 5. Map families (FAM -> Relationships and shared Events)
     for (const record of gedcomFile.families) {
       if (!record.id) continue;
 
-      const parsed = this.parser.parseFamily(record);
+      const parsed = this.parser.parseFamily(record, context.parseOptions);
+
+      // Family events belong to the first spouse, with the other as participant
+      const [ownerId, partnerId] = [parsed.husband, parsed.wife]
+        .map((id) => (id ? idMap.get(id) : undefined))
+        .filter((id): id is string => !!id);
+      if (ownerId) {
+        for (const event of parsed.events) {
+          this.mapEvent(event, ownerId, partnerId, context);
+        }
+      } else if (parsed.events.length > 0) {
+        warnings.push(
+          `Skipped ${parsed.events.length} event(s) of family ${parsed.id} without spouses`
+        );
+      }
 
       // Create spouse relationships
       if (parsed.husband && parsed.wife) {
@@ -234,6 +413,8 @@ export class GedcomMapper {
           continue;
         }
 
+        const pedigree = childPedigrees.get(childId)?.[parsed.id];
+
         // PARENT relationships (from parent to child)
         if (parsed.husband) {
           const husbandId = idMap.get(parsed.husband);
@@ -243,6 +424,7 @@ export class GedcomMapper {
               personId: husbandId,
               relatedPersonId: childVamsaId,
               type: "PARENT",
+              pedigree,
               isActive: true,
             });
           }
@@ -256,6 +438,7 @@ export class GedcomMapper {
               personId: wifeId,
               relatedPersonId: childVamsaId,
               type: "PARENT",
+              pedigree,
               isActive: true,
             });
           }
@@ -270,6 +453,7 @@ export class GedcomMapper {
               personId: childVamsaId,
               relatedPersonId: husbandId,
               type: "CHILD",
+              pedigree,
               isActive: true,
             });
           }
@@ -283,6 +467,7 @@ export class GedcomMapper {
               personId: childVamsaId,
               relatedPersonId: wifeId,
               type: "CHILD",
+              pedigree,
               isActive: true,
             });
           }
@@ -293,6 +478,7 @@ export class GedcomMapper {
     return {
       people,
       relationships,
+      ...context.data,
       errors,
       warnings,
     };
@@ -303,13 +489,30 @@ export class GedcomMapper {
    */
   mapToGedcom(
     people: Array<VamsaPerson>,
-    relationships: Array<VamsaRelationship>
+    relationships: Array<VamsaRelationship>,
+    records: VamsaGenealogyData = {}
   ): {
     individuals: Array<GedcomIndividualData>;
     families: Array<GedcomFamilyData>;
+    sources: Array<GedcomSourceData>;
+    objects: Array<GedcomObjectData>;
   } {
     const individuals: Array<GedcomIndividualData> = [];
     const families: Array<GedcomFamilyData> = [];
+    const individualsById = new Map<string, GedcomIndividualData>();
+
+    // Sources, media and the citations and links that point at them
+    const { sources, objects, links } = this.prepareExportRecords(records);
+    const placesById = new Map(
+      (records.places ?? []).map((place) => [place.id, place])
+    );
+    const eventsByPerson = new Map<string, Array<VamsaEvent>>();
+    for (const event of records.events ?? []) {
+      const personEvents = eventsByPerson.get(event.personId) ?? [];
+      personEvents.push(event);
+      eventsByPerson.set(event.personId, personEvents);
+    }
+    const familyEvents = new Set<VamsaEvent>();
 
     // Create ID to xref mapping
     const idToXref = new Map<string, string>();
@@ -336,13 +539,15 @@ export class GedcomMapper {
         xref,
         name,
         sex,
-        birthDate: person.dateOfBirth
-          ? this.formatToGedcomDate(person.dateOfBirth)
-          : undefined,
+        birthDate: this.formatPersonDate(
+          person.dateOfBirth,
+          person.dateOfBirthDetail
+        ),
         birthPlace: person.birthPlace,
-        deathDate: person.dateOfPassing
-          ? this.formatToGedcomDate(person.dateOfPassing)
-          : undefined,
+        deathDate: this.formatPersonDate(
+          person.dateOfPassing,
+          person.dateOfPassingDetail
+        ),
         occupation: person.profession,
         notes: person.bio ? [person.bio] : [],
         familiesAsSpouse: [],
@@ -350,6 +555,7 @@ export class GedcomMapper {
       };
 
       individuals.push(individual);
+      individualsById.set(person.id, individual);
     }
 
     // Build family structures from relationships
@@ -358,13 +564,15 @@ export class GedcomMapper {
       {
         spouses: [string, string] | [string] | undefined;
         children: Array<string>;
+        pedigrees: Map<string, ParentPedigree>;
         marriages: Map<string, { marriageDate?: Date; divorceDate?: Date }>;
       }
     >();
 
-    // Group relationships by family units
+    // Group relationships by family units. Unmarried partners form a family
+    // too, just without a marriage.
     for (const rel of relationships) {
-      if (rel.type === "SPOUSE") {
+      if (rel.type === "SPOUSE" || rel.type === "PARTNER") {
         // Find or create family for this couple
         let familyKey = `${rel.personId}-${rel.relatedPersonId}`;
         const reverseKey = `${rel.relatedPersonId}-${rel.personId}`;
@@ -378,6 +586,7 @@ export class GedcomMapper {
           familyMap.set(familyKey, {
             spouses: [rel.personId, rel.relatedPersonId] as [string, string],
             children: [],
+            pedigrees: new Map(),
             marriages: new Map(),
           });
         }
@@ -406,6 +615,9 @@ export class GedcomMapper {
             if (!family.children.includes(rel.relatedPersonId)) {
               family.children.push(rel.relatedPersonId);
             }
+            if (rel.pedigree) {
+              family.pedigrees.set(rel.relatedPersonId, rel.pedigree);
+            }
           }
         }
       }
@@ -445,6 +657,43 @@ export class GedcomMapper {
         }
       }
 
+      // Events the couple share, recorded on one spouse with the other as
+      // participant. Their dates keep any approximate or ranged detail.
+      const events: Array<GedcomEventData> = [];
+      const [firstId, secondId] = family.spouses;
+      if (secondId) {
+        for (const [ownerId, partnerId] of [
+          [firstId, secondId],
+          [secondId, firstId],
+        ]) {
+          for (const event of eventsByPerson.get(ownerId) ?? []) {
+            if (
+              familyEvents.has(event) ||
+              !FAMILY_EVENT_TYPES.has(event.type) ||
+              !event.participants?.some(
+                (participant) => participant.personId === partnerId
+              )
+            ) {
+              continue;
+            }
+            familyEvents.add(event);
+            events.push(
+              this.toGedcomEvent(
+                event,
+                true,
+                [ownerId, partnerId],
+                links,
+                placesById
+              )
+            );
+          }
+        }
+      }
+      marriageDate =
+        events.find((event) => event.tag === "MARR")?.date ?? marriageDate;
+      divorceDate =
+        events.find((event) => event.tag === "DIV")?.date ?? divorceDate;
+
       const familyData: GedcomFamilyData = {
         xref,
         husband,
@@ -453,6 +702,7 @@ export class GedcomMapper {
         marriageDate,
         divorceDate,
         notes: [],
+        events,
       };
 
       families.push(familyData);
@@ -466,9 +716,628 @@ export class GedcomMapper {
           individual.familiesAsChild.push(xref);
         }
       }
+      for (const [childId, pedigree] of family.pedigrees) {
+        const child = individualsById.get(childId);
+        if (child) {
+          child.childPedigrees = { ...child.childPedigrees, [xref]: pedigree };
+        }
+      }
+    }
+
+    // Individual events, then citations and media whose event type has no
+    // event of its own
+    for (const [personId, individual] of individualsById) {
+      const events = (eventsByPerson.get(personId) ?? [])
+        .filter((event) => !familyEvents.has(event))
+        .map((event) =>
+          this.toGedcomEvent(event, false, [personId], links, placesById)
+        );
+
+      const citations = links.citations.get(personId) ?? new Map();
+      const media = links.media.get(personId) ?? new Map();
+      for (const eventType of new Set([...citations.keys(), ...media.keys()])) {
+        const tag = this.getIndividualEventTag(eventType);
+        if (!tag) continue;
+        events.push({
+          tag,
+          notes: [],
+          citations: this.takeLinks(links.citations, personId, eventType),
+          media: this.takeLinks(links.media, personId, eventType),
+        });
+      }
+
+      individual.events = events;
+      individual.citations = Array.from(citations.values()).flat();
+      individual.media = Array.from(media.values()).flat();
+      links.citations.delete(personId);
+      links.media.delete(personId);
+
+      // The occupation is already written as an OCCU event
+      if (
+        events.some(
+          (event) =>
+            event.tag === "OCCU" && event.value === individual.occupation
+        )
+      ) {
+        individual.occupation = undefined;
+      }
     }
 
-    return { individuals, families };
+    return { individuals, families, sources, objects };
+  }
+
+  /**
+   * Create the import context: shared notes for the parser, then Source and
+   * MediaObject records with lookups from their GEDCOM ids
+   */
+  private createImportContext(
+    gedcomFile: GedcomFile,
+    warnings: Array<string>
+  ): ImportContext {
+    const sharedNotes = new Map<string, string>();
+    for (const record of gedcomFile.notes ?? []) {
+      if (record.id) {
+        sharedNotes.set(record.id, this.parser.parseNoteRecord(record));
+      }
+    }
+
+    const context: ImportContext = {
+      data: {
+        events: [],
+        places: [],
+        sources: [],
+        eventSources: [],
+        researchNotes: [],
+        mediaObjects: [],
+        personMedia: [],
+        eventMedia: [],
+      },
+      parseOptions: {
+        version: gedcomFile.gedcomVersion ?? "5.5.1",
+        sharedNotes,
+      },
+      warnings,
+      sourceIds: new Map(),
+      inlineSourceIds: new Map(),
+      mediaIds: new Map(),
+      placeIds: new Map(),
+      linkKeys: new Set(),
+    };
+
+    const repositories = new Map<string, string>();
+    for (const record of gedcomFile.repositories ?? []) {
+      if (record.id) {
+        repositories.set(record.id, this.parser.parseRepository(record).name);
+      }
+    }
+
+    for (const record of gedcomFile.sources ?? []) {
+      if (!record.id) continue;
+
+      const parsed = this.parser.parseSource(record, context.parseOptions);
+      const id = generateId();
+      context.sourceIds.set(parsed.id, id);
+      context.data.sources.push({
+        id,
+        title: parsed.title || "Untitled source",
+        author: parsed.author,
+        publicationDate: parsed.publication,
+        description: parsed.text,
+        repository:
+          parsed.repository ??
+          (parsed.repositoryId
+            ? repositories.get(parsed.repositoryId)
+            : undefined),
+        callNumber: parsed.callNumber,
+        notes: parsed.notes.join("\n") || undefined,
+      });
+    }
+
+    for (const record of gedcomFile.objects ?? []) {
+      if (!record.id) continue;
+
+      const parsed = this.parser.parseMediaObject(record, context.parseOptions);
+      const id = generateId();
+      context.mediaIds.set(parsed.id, id);
+      context.data.mediaObjects.push(
+        this.toMediaObject(id, parsed, parsed.notes)
+      );
+    }
+
+    return context;
+  }
+
+  /**
+   * Map a GEDCOM event to a Vamsa event with its place, citations and media.
+   * Family events are owned by one spouse with the other as participant, and
+   * their citations and media are recorded for both.
+   */
+  private mapEvent(
+    parsed: ParsedEvent,
+    personId: string,
+    partnerId: string | undefined,
+    context: ImportContext
+  ): void {
+    const type =
+      mapGedcomTagToEventType(parsed.tag) ??
+      (parsed.tag === "ENGA" ? "ENGAGEMENT" : "CUSTOM");
+    const description = this.describeEvent(parsed, type);
+
+    context.data.events.push({
+      id: generateId(),
+      personId,
+      type,
+      date: parsed.dateDetail
+        ? getGenealogicalSortDate(parsed.dateDetail)
+        : parsed.date
+          ? this.parseISODate(parsed.date)
+          : undefined,
+      dateDetail: parsed.dateDetail ?? null,
+      place: parsed.place,
+      placeId: parsed.place
+        ? this.mapPlace(parsed.place, parsed, context)
+        : undefined,
+      description,
+      participants: partnerId
+        ? [{ personId: partnerId, role: "SPOUSE" }]
+        : undefined,
+    });
+
+    const eventType = this.getEventKey(type, description);
+    for (const id of partnerId ? [personId, partnerId] : [personId]) {
+      for (const citation of parsed.citations) {
+        this.mapCitation(citation, id, eventType, context);
+      }
+      for (const link of parsed.media) {
+        const mediaId = this.mapMediaLink(link, context);
+        const key = `media|${id}|${eventType}|${mediaId}`;
+        if (!mediaId || context.linkKeys.has(key)) continue;
+        context.linkKeys.add(key);
+        context.data.eventMedia.push({
+          id: generateId(),
+          mediaId,
+          personId: id,
+          eventType,
+        });
+      }
+    }
+  }
+
+  /**
+   * Description of an imported event: notes for standard events; label,
+   * value and notes for custom ones
+   */
+  private describeEvent(
+    parsed: ParsedEvent,
+    type: EventType
+  ): string | undefined {
+    if (type !== "CUSTOM") {
+      return parsed.notes.join("\n") || undefined;
+    }
+
+    const label =
+      parsed.tag === "EVEN" || parsed.tag === "FACT"
+        ? parsed.type || "Event"
+        : (CUSTOM_EVENT_LABELS[parsed.tag] ?? parsed.type ?? parsed.tag);
+    return [parsed.value ? `${label}: ${parsed.value}` : label, ...parsed.notes]
+      .join("\n")
+      .trim();
+  }
+
+  /**
+   * Split a custom event description into its label, value and notes
+   */
+  private parseCustomDescription(description?: string): {
+    label: string;
+    value?: string;
+    notes: Array<string>;
+  } {
+    const [first = "", ...rest] = (description ?? "").split("\n");
+    const separator = first.indexOf(": ");
+    const note = rest.join("\n").trim();
+
+    return {
+      label: (separator > 0 ? first.slice(0, separator) : first) || "Event",
+      value: separator > 0 ? first.slice(separator + 2) : undefined,
+      notes: note ? [note] : [],
+    };
+  }
+
+  /**
+   * Event type used to link citations and media to an event: the EventType,
+   * or the label of a custom event
+   */
+  private getEventKey(type: EventType, description?: string): string {
+    return type === "CUSTOM"
+      ? this.parseCustomDescription(description).label
+      : type;
+  }
+
+  /**
+   * Find or create the place for a place name, keeping its coordinates
+   */
+  private mapPlace(
+    name: string,
+    coordinates: { latitude?: number; longitude?: number },
+    context: ImportContext
+  ): string {
+    const existingId = context.placeIds.get(name);
+    if (existingId) return existingId;
+
+    const id = generateId();
+    context.placeIds.set(name, id);
+    context.data.places.push({
+      id,
+      name,
+      latitude: coordinates.latitude,
+      longitude: coordinates.longitude,
+    });
+    return id;
+  }
+
+  /**
+   * Map a source citation to an EventSource, with its notes as ResearchNotes
+   */
+  private mapCitation(
+    citation: ParsedCitation,
+    personId: string,
+    eventType: string,
+    context: ImportContext
+  ): void {
+    let sourceId: string | undefined;
+    if (citation.sourceId) {
+      sourceId = context.sourceIds.get(citation.sourceId);
+    } else if (citation.text) {
+      sourceId = context.inlineSourceIds.get(citation.text);
+      if (!sourceId) {
+        sourceId = generateId();
+        context.inlineSourceIds.set(citation.text, sourceId);
+        context.data.sources.push({ id: sourceId, title: citation.text });
+      }
+    }
+    if (!sourceId) {
+      context.warnings.push(
+        `Skipped citation of unknown source ${citation.sourceId ?? ""}`.trim()
+      );
+      return;
+    }
+
+    // A person cites each source once per event type
+    const key = `source|${personId}|${eventType}|${sourceId}`;
+    if (!context.linkKeys.has(key)) {
+      context.linkKeys.add(key);
+      context.data.eventSources.push({
+        id: generateId(),
+        sourceId,
+        personId,
+        eventType,
+        confidence:
+          citation.quality !== undefined
+            ? QUALITY_CONFIDENCE[citation.quality]
+            : undefined,
+        sourceNotes: citation.page,
+      });
+    }
+
+    for (const findings of citation.notes) {
+      context.data.researchNotes.push({
+        id: generateId(),
+        sourceId,
+        personId,
+        eventType,
+        findings,
+      });
+    }
+  }
+
+  /**
+   * Link a media object to a person, in GEDCOM order
+   */
+  private mapPersonMedia(
+    link: ParsedMediaLink,
+    personId: string,
+    displayOrder: number,
+    context: ImportContext
+  ): void {
+    const mediaId = this.mapMediaLink(link, context);
+    const key = `media|${personId}|${mediaId}`;
+    if (!mediaId || context.linkKeys.has(key)) return;
+
+    context.linkKeys.add(key);
+    context.data.personMedia.push({
+      id: generateId(),
+      personId,
+      mediaId,
+      isPrimary: link.isPrimary,
+      displayOrder,
+    });
+  }
+
+  /**
+   * Resolve a media link to a media object, creating one for inline files
+   */
+  private mapMediaLink(
+    link: ParsedMediaLink,
+    context: ImportContext
+  ): string | undefined {
+    if (link.objectId) {
+      const mediaId = context.mediaIds.get(link.objectId);
+      if (!mediaId) {
+        context.warnings.push(
+          `Skipped link to unknown media object ${link.objectId}`
+        );
+      }
+      return mediaId;
+    }
+    if (!link.file) return undefined;
+
+    const id = generateId();
+    context.data.mediaObjects.push(this.toMediaObject(id, link.file, []));
+    return id;
+  }
+
+  /**
+   * Build a media object from a GEDCOM file reference. The file itself is not
+   * part of the GEDCOM, so its size is unknown.
+   */
+  private toMediaObject(
+    id: string,
+    file: ParsedMediaFile,
+    notes: Array<string>
+  ): VamsaMediaObject {
+    const form = (
+      file.format ||
+      file.filePath.split(".").pop() ||
+      ""
+    ).toLowerCase();
+    const known = MEDIA_FORMATS.find(
+      (entry) => entry.mimeType === form || entry.forms.includes(form)
+    );
+
+    return {
+      id,
+      filePath: file.filePath,
+      format: known?.format ?? (form.toUpperCase() || "UNKNOWN"),
+      mimeType:
+        known?.mimeType ??
+        (form.includes("/") ? form : "application/octet-stream"),
+      fileSize: 0,
+      title: file.title,
+      description: notes.join("\n") || undefined,
+    };
+  }
+
+  /**
+   * Assign xrefs to sources and media objects, and group citations and media
+   * links by person and event type
+   */
+  private prepareExportRecords(records: VamsaGenealogyData): {
+    sources: Array<GedcomSourceData>;
+    objects: Array<GedcomObjectData>;
+    links: ExportLinks;
+  } {
+    const sourceXrefs = new Map<string | undefined, string>();
+    const sources = (records.sources ?? []).map((source, index) => {
+      const xref = `@S${index + 1}@`;
+      sourceXrefs.set(source.id, xref);
+      return {
+        xref,
+        title: source.title,
+        author: source.author,
+        publicationDate: source.publicationDate,
+        text: source.description,
+        repository: source.repository,
+        callNumber: source.callNumber,
+        notes: source.notes,
+      };
+    });
+
+    const objectXrefs = new Map<string | undefined, string>();
+    const objectsById = new Map(
+      (records.mediaObjects ?? []).map((media) => [media.id, media])
+    );
+    const objects = (records.mediaObjects ?? []).map((media, index) => {
+      const xref = `@O${index + 1}@`;
+      objectXrefs.set(media.id, xref);
+      const known = MEDIA_FORMATS.find(
+        (entry) =>
+          entry.format === media.format || entry.mimeType === media.mimeType
+      );
+      return {
+        xref,
+        filePath: media.filePath,
+        format: known?.forms[0] ?? media.format.toLowerCase(),
+        mimeType: media.mimeType,
+        title: media.title,
+        description: media.description,
+      };
+    });
+
+    const links: ExportLinks = { citations: new Map(), media: new Map() };
+    const citationsBySource = new Map<string, GedcomCitationData>();
+    for (const eventSource of records.eventSources ?? []) {
+      const source = sourceXrefs.get(eventSource.sourceId);
+      if (!source) continue;
+
+      const citation: GedcomCitationData = {
+        source,
+        page: eventSource.sourceNotes,
+        quality: eventSource.confidence
+          ? CONFIDENCE_QUALITY[eventSource.confidence]
+          : undefined,
+        notes: [],
+      };
+      citationsBySource.set(
+        `${eventSource.personId}|${eventSource.eventType}|${eventSource.sourceId}`,
+        citation
+      );
+      this.addLink(
+        links.citations,
+        eventSource.personId,
+        eventSource.eventType,
+        citation
+      );
+    }
+
+    // Research notes become citation notes, citing the source if nothing does
+    for (const note of records.researchNotes ?? []) {
+      const source = sourceXrefs.get(note.sourceId);
+      if (!source) continue;
+
+      const key = `${note.personId}|${note.eventType}|${note.sourceId}`;
+      let citation = citationsBySource.get(key);
+      if (!citation) {
+        citation = { source, notes: [] };
+        citationsBySource.set(key, citation);
+        this.addLink(links.citations, note.personId, note.eventType, citation);
+      }
+      citation.notes.push(note.findings);
+    }
+
+    for (const link of records.eventMedia ?? []) {
+      const object = objectXrefs.get(link.mediaId);
+      if (object) {
+        this.addLink(links.media, link.personId, link.eventType, { object });
+      }
+    }
+
+    const personMedia = [...(records.personMedia ?? [])].sort(
+      (a, b) => a.displayOrder - b.displayOrder
+    );
+    for (const link of personMedia) {
+      const object = objectXrefs.get(link.mediaId);
+      if (object) {
+        // CROP is in pixels, so regions of images of unknown size are dropped
+        const media = objectsById.get(link.mediaId);
+        const crop =
+          link.region && media?.width && media.height
+            ? regionToPixels(link.region, media.width, media.height)
+            : undefined;
+        this.addLink(links.media, link.personId, GENERAL_EVENT_TYPE, {
+          object,
+          isPrimary: link.isPrimary || undefined,
+          crop,
+        });
+      }
+    }
+
+    return { sources, objects, links };
+  }
+
+  /**
+   * Convert a Vamsa event to GEDCOM, taking the citations and media of the
+   * given people for its event type
+   */
+  private toGedcomEvent(
+    event: VamsaEvent,
+    onFamily: boolean,
+    personIds: Array<string>,
+    links: ExportLinks,
+    placesById: Map<string | undefined, VamsaPlace>
+  ): GedcomEventData {
+    const place = event.placeId ? placesById.get(event.placeId) : undefined;
+    const eventType = this.getEventKey(event.type, event.description);
+
+    // Family citations are recorded for both spouses
+    const citations = new Map<string, GedcomCitationData>();
+    const media = new Map<string, GedcomMediaLinkData>();
+    for (const personId of personIds) {
+      for (const citation of this.takeLinks(
+        links.citations,
+        personId,
+        eventType
+      )) {
+        const key = `${citation.source}|${citation.page ?? ""}`;
+        if (!citations.has(key)) citations.set(key, citation);
+      }
+      for (const link of this.takeLinks(links.media, personId, eventType)) {
+        if (!media.has(link.object)) media.set(link.object, link);
+      }
+    }
+
+    return {
+      ...this.getGedcomEventTag(event, onFamily),
+      date: this.formatPersonDate(event.date, event.dateDetail),
+      place: event.place ?? place?.name,
+      latitude: place?.latitude,
+      longitude: place?.longitude,
+      citations: Array.from(citations.values()),
+      media: Array.from(media.values()),
+    };
+  }
+
+  /**
+   * GEDCOM tag, TYPE, value and notes of an event. Events GEDCOM does not
+   * allow on the record are written as EVEN with a TYPE.
+   */
+  private getGedcomEventTag(
+    event: VamsaEvent,
+    onFamily: boolean
+  ): Pick<GedcomEventData, "tag" | "type" | "value" | "notes"> {
+    if (event.type === "CUSTOM") {
+      const { label, value, notes } = this.parseCustomDescription(
+        event.description
+      );
+      const tag = Object.keys(CUSTOM_EVENT_LABELS).find(
+        (key) => CUSTOM_EVENT_LABELS[key] === label
+      );
+      if (tag && (tag === "CENS" || FAMILY_CUSTOM_TAGS.has(tag) === onFamily)) {
+        return { tag, value, notes };
+      }
+      return { tag: "EVEN", type: label, value, notes };
+    }
+
+    const notes = event.description ? [event.description] : [];
+    const tag =
+      (onFamily ? FAMILY_EVENT_TAGS[event.type] : undefined) ??
+      mapEventTypeToGedcomTag(event.type);
+    const allowed = onFamily
+      ? FAMILY_EVENT_TYPES.has(event.type)
+      : !FAMILY_ONLY_EVENT_TYPES.has(event.type);
+    if (!tag || !allowed) {
+      return { tag: "EVEN", type: EVENT_TYPE_LABELS[event.type], notes };
+    }
+    return { tag, notes };
+  }
+
+  /**
+   * Individual event tag for citations and media whose event type has no
+   * event of its own, or undefined to keep them on the person
+   */
+  private getIndividualEventTag(eventType: string): string | undefined {
+    if (!(eventType in EVENT_TYPE_LABELS)) return undefined;
+
+    const type = eventType as EventType;
+    if (FAMILY_ONLY_EVENT_TYPES.has(type)) return undefined;
+    return mapEventTypeToGedcomTag(type) ?? undefined;
+  }
+
+  /**
+   * Add a citation or media link for a person's event type
+   */
+  private addLink<T>(
+    links: Map<string, Map<string, Array<T>>>,
+    personId: string,
+    eventType: string,
+    link: T
+  ): void {
+    const personLinks = links.get(personId) ?? new Map<string, Array<T>>();
+    personLinks.set(eventType, [...(personLinks.get(eventType) ?? []), link]);
+    links.set(personId, personLinks);
+  }
+
+  /**
+   * Remove and return the citations or media links for a person's event type
+   */
+  private takeLinks<T>(
+    links: Map<string, Map<string, Array<T>>>,
+    personId: string,
+    eventType: string
+  ): Array<T> {
+    const personLinks = links.get(personId);
+    const taken = personLinks?.get(eventType) ?? [];
+    personLinks?.delete(eventType);
+    return taken;
   }
 
   /**
@@ -571,6 +1440,19 @@ export class GedcomMapper {
     }
   }
 
+  /**
+   * Format a person's date for GEDCOM, preferring the genealogical detail
+   * ("ABT 1850") over the plain sort value
+   */
+  private formatPersonDate(
+    date: Date | undefined,
+    detail: GenealogicalDate | null | undefined
+  ): string | undefined {
+    const genealogical = toGenealogicalDate(detail);
+    if (genealogical) return formatGedcomDate(genealogical);
+    return date ? this.formatToGedcomDate(date) : undefined;
+  }
+
   /**
    * Format Date to GEDCOM format
    * Returns "DD MMM YYYY" for full dates
@@ -404,6 +404,52 @@ describe("GedcomParser", () => {
       expect(individual.deathDate).toBeUndefined();
       expect(individual.occupation).toBeUndefined();
     });
+
+    test("reads FAMC pedigrees in either case", () => {
+      const content = `0 HEAD
+1 GEDC
+2 VERS 5.5.1
+1 CHAR UTF-8
+0 @I1@ INDI
+1 NAME Ann /Doe/
+1 FAMC @F1@
+2 PEDI adopted
+1 FAMC @F2@
+2 PEDI FOSTER
+1 FAMC @F3@
+0 TRLR`;
+
+      const parser = new GedcomParser();
+      const file = parser.parse(content);
+      const individual = parser.parseIndividual(file.individuals[0]);
+
+      expect(individual.familiesAsChild).toEqual(["F1", "F2", "F3"]);
+      expect(individual.familyPedigrees).toEqual({
+        F1: "ADOPTED",
+        F2: "FOSTER",
+      });
+    });
+
+    test("reads guardianship from a GEDCOM 7.0 OTHER pedigree", () => {
+      const content = `0 HEAD
+1 GEDC
+2 VERS 7.0
+0 @I1@ INDI
+1 NAME Ann /Doe/
+1 FAMC @F1@
+2 PEDI OTHER
+3 PHRASE Legal guardian
+1 FAMC @F2@
+2 PEDI OTHER
+3 PHRASE Step
+0 TRLR`;
+
+      const parser = new GedcomParser();
+      const file = parser.parse(content);
+      const individual = parser.parseIndividual(file.individuals[0]);
+
+      expect(individual.familyPedigrees).toEqual({ F1: "GUARDIAN" });
+    });
   });
 
   describe("parseFamily", () => {
@@ -482,6 +528,165 @@ describe("GedcomParser", () => {
     });
   });
 
+  describe("events, citations and media", () => {
+    const content = `0 HEAD
+1 GEDC
+2 VERS 5.5.1
+1 CHAR UTF-8
+0 @I1@ INDI
+1 NAME Ravi /Rao/
+1 BIRT
+2 DATE ABT 1850
+2 PLAC Pune, India
+3 MAP
+4 LATI N18.5204
+4 LONG W73.8567
+2 SOUR @S1@
+3 PAGE Folio 12
+3 QUAY 3
+3 NOTE Baptism column
+1 OCCU Farmer
+1 EVEN
+2 TYPE Land purchase
+1 NOTE @N1@
+1 SOUR Family bible
+1 OBJE @O1@
+2 _PRIM Y
+1 OBJE
+2 FILE photos/house.jpg
+3 FORM jpg
+0 @F1@ FAM
+1 HUSB @I1@
+1 ENGA
+2 DATE 1874
+0 @S1@ SOUR
+1 TITL Pune parish register
+1 AUTH St. Mary's Church
+1 REPO @R1@
+2 CALN PR-1850
+1 NOTE Microfilmed
+0 @O1@ OBJE
+1 FILE photos/ravi.jpg
+1 FORM jpg
+1 TITL Ravi Rao
+0 @N1@ NOTE Farmed near Nashik
+1 CONT until 1905.
+0 TRLR`;
+
+    const parser = new GedcomParser();
+    const file = parser.parse(content);
+
+    test("parses events with date, place, coordinates and citations", () => {
+      const individual = parser.parseIndividual(file.individuals[0]);
+      const birth = individual.events.find((e) => e.tag === "BIRT");
+
+      expect(birth).toMatchObject({
+        date: "1850",
+        place: "Pune, India",
+        latitude: 18.5204,
+        longitude: -73.8567,
+      });
+      expect(birth?.dateDetail?.qualifier).toBe("ABOUT");
+      expect(birth?.citations).toEqual([
+        {
+          sourceId: "S1",
+          page: "Folio 12",
+          quality: 3,
+          notes: ["Baptism column"],
+        },
+      ]);
+    });
+
+    test("parses attributes and generic events with their TYPE", () => {
+      const individual = parser.parseIndividual(file.individuals[0]);
+
+      expect(individual.events).toContainEqual(
+        expect.objectContaining({ tag: "OCCU", value: "Farmer" })
+      );
+      expect(individual.events).toContainEqual(
+        expect.objectContaining({ tag: "EVEN", type: "Land purchase" })
+      );
+    });
+
+    test("parses citations and media links on the person", () => {
+      const individual = parser.parseIndividual(file.individuals[0]);
+
+      expect(individual.citations).toEqual([
+        { text: "Family bible", notes: [] },
+      ]);
+      expect(individual.media).toEqual([
+        { objectId: "O1", isPrimary: true },
+        {
+          file: { filePath: "photos/house.jpg", format: "jpg" },
+          isPrimary: false,
+        },
+      ]);
+    });
+
+    test("resolves shared notes when given", () => {
+      const sharedNotes = new Map(
+        file.notes.map((note) => [note.id!, parser.parseNoteRecord(note)])
+      );
+      const individual = parser.parseIndividual(file.individuals[0], {
+        sharedNotes,
+      });
+
+      expect(individual.notes).toEqual(["Farmed near Nashik\nuntil 1905."]);
+    });
+
+    test("parses family events", () => {
+      const family = parser.parseFamily(file.families[0]);
+
+      expect(family.events).toEqual([
+        expect.objectContaining({ tag: "ENGA", date: "1874" }),
+      ]);
+    });
+
+    test("parses source records", () => {
+      const source = parser.parseSource(file.sources[0]);
+
+      expect(source).toEqual({
+        id: "S1",
+        title: "Pune parish register",
+        author: "St. Mary's Church",
+        repositoryId: "R1",
+        callNumber: "PR-1850",
+        notes: ["Microfilmed"],
+      });
+    });
+
+    test("parses multimedia records", () => {
+      const media = parser.parseMediaObject(file.objects[0]);
+
+      expect(media).toEqual({
+        id: "O1",
+        filePath: "photos/ravi.jpg",
+        format: "jpg",
+        title: "Ravi Rao",
+        notes: [],
+      });
+    });
+
+    test("parses GEDCOM 7.0 dates when given the version", () => {
+      const parser70 = new GedcomParser();
+      const file70 = parser70.parse(`0 HEAD
+1 GEDC
+2 VERS 7.0
+0 @I1@ INDI
+1 NAME Asha /Rao/
+1 BIRT
+2 DATE ABT 1901
+0 TRLR`);
+
+      const individual = new GedcomParser().parseIndividual(
+        file70.individuals[0],
+        { version: "7.0" }
+      );
+
+      expect(individual.birthDateDetail?.qualifier).toBe("ABOUT");
+    });
+  });
+
   describe("validate", () => {
     test("validates correct file", () => {
       const content = `0 HEAD
@@ -3,19 +3,117 @@
  * Handles parsing of GEDCOM format files into structured TypeScript objects
  */
 
+import { parseGenealogicalDate } from "../genealogical-date";
 import { detectEncoding, normalizeEncoding } from "./encoding";
+import type { GenealogicalDate } from "../genealogical-date";
+import type { ParentPedigree } from "../relationships";
 import type {
   GedcomFile,
   GedcomLine,
   GedcomRecord,
+  ParsedCitation,
   ParsedDate,
+  ParsedEvent,
   ParsedFamily,
   ParsedIndividual,
+  ParsedMediaFile,
+  ParsedMediaLink,
+  ParsedMediaObject,
   ParsedRepository,
+  ParsedSource,
   ParsedSubmitter,
   ValidationError,
 } from "./types";
 
+/**
+ * FAMC PEDI values (lowercase in 5.5.1, uppercase in 7.0) and the pedigree
+ * they map to. 7.0 records guardianship as OTHER with a PHRASE instead.
+ */
+const PEDIGREE_VALUES: Record<string, ParentPedigree> = {
+  BIRTH: "BIRTH",
+  ADOPTED: "ADOPTED",
+  FOSTER: "FOSTER",
+  SEALED: "SEALED",
+  GUARDIAN: "GUARDIAN",
+};
+
+/**
+ * Individual events and attributes read into ParsedIndividual.events
+ */
+const INDIVIDUAL_EVENT_TAGS = new Set([
+  "BIRT",
+  "CHR",
+  "DEAT",
+  "BURI",
+  "CREM",
+  "ADOP",
+  "BAPM",
+  "BARM",
+  "BASM",
+  "BLES",
+  "CHRA",
+  "CONF",
+  "FCOM",
+  "ORDN",
+  "NATU",
+  "EMIG",
+  "IMMI",
+  "CENS",
+  "PROB",
+  "WILL",
+  "GRAD",
+  "RETI",
+  "EVEN",
+  "CAST",
+  "DSCR",
+  "EDUC",
+  "IDNO",
+  "NATI",
+  "NCHI",
+  "NMR",
+  "OCCU",
+  "PROP",
+  "RELI",
+  "RESI",
+  "SSN",
+  "TITL",
+  "FACT",
+]);
+
+/**
+ * Family events read into ParsedFamily.events
+ */
+const FAMILY_EVENT_TAGS = new Set([
+  "ANUL",
+  "CENS",
+  "DIV",
+  "DIVF",
+  "ENGA",
+  "MARB",
+  "MARC",
+  "MARR",
+  "MARL",
+  "MARS",
+  "RESI",
+  "EVEN",
+  "FACT",
+]);
+
+/**
+ * Context for parsing a single record outside of parse()
+ */
+export interface ParseRecordOptions {
+  /** Version of the file the record came from (default: last parsed file) */
+  version?: "5.5.1" | "7.0";
+  /** Shared note texts by record id, used to resolve NOTE/SNOTE pointers */
+  sharedNotes?: Map<string, string>;
+}
+
+interface RecordContext {
+  version: "5.5.1" | "7.0";
+  sharedNotes: Map<string, string>;
+}
+
 export class GedcomParser {
   private lines: Array<GedcomLine> = [];
   private records: Array<GedcomRecord> = [];
@@ -59,6 +157,7 @@ export class GedcomParser {
     const objects = this.records.filter((r) => r.type === "OBJE");
     const repositories = this.records.filter((r) => r.type === "REPO");
     const submitters = this.records.filter((r) => r.type === "SUBM");
+    const notes = this.records.filter((r) => r.type === "NOTE");
 
     if (!header) {
       throw new Error("Missing required HEAD record");
@@ -104,6 +203,7 @@ export class GedcomParser {
       objects,
       repositories,
       submitters,
+      notes,
       trailer,
       version,
       charset,
@@ -348,6 +448,7 @@ export class GedcomParser {
     | "OBJE"
     | "REPO"
     | "SUBM"
+    | "NOTE"
     | "OTHER" {
     if (tag === "HEAD") return "HEAD";
     if (tag === "TRLR") return "TRLR";
@@ -357,6 +458,7 @@ export class GedcomParser {
     if (tag === "OBJE") return "OBJE";
     if (tag === "REPO") return "REPO";
     if (tag === "SUBM") return "SUBM";
+    if (tag === "NOTE" || tag === "SNOTE") return "NOTE";
     return "OTHER";
   }
 
@@ -663,8 +765,12 @@ export class GedcomParser {
   /**
    * Parse individual record into structured data
    */
-  parseIndividual(record: GedcomRecord): ParsedIndividual {
+  parseIndividual(
+    record: GedcomRecord,
+    options?: ParseRecordOptions
+  ): ParsedIndividual {
     const id = record.id || "unknown";
+    const context = this.getRecordContext(options);
 
     const names: Array<{
       full: string;
@@ -689,33 +795,53 @@ export class GedcomParser {
 
     const birtLine = record.tags.get("BIRT")?.[0];
     const birthDate = birtLine
-      ? this.parseDateFromRecord(record, "BIRT")
+      ? this.parseDateFromRecord(record, "BIRT", context.version)
+      : undefined;
+    const birthDateDetail = birtLine
+      ? this.parseDateDetailFromRecord(record, "BIRT")
       : undefined;
     const birthPlace = this.getPlaceFromEvent(record, "BIRT");
 
     const deathLine = record.tags.get("DEAT")?.[0];
     const deathDate = deathLine
-      ? this.parseDateFromRecord(record, "DEAT")
+      ? this.parseDateFromRecord(record, "DEAT", context.version)
+      : undefined;
+    const deathDateDetail = deathLine
+      ? this.parseDateDetailFromRecord(record, "DEAT")
       : undefined;
     const deathPlace = this.getPlaceFromEvent(record, "DEAT");
 
     const occuLine = record.tags.get("OCCU")?.[0];
     const occupation = occuLine?.value;
 
-    const notes: Array<string> = [];
-    const noteLines = record.tags.get("NOTE") || [];
-    for (const line of noteLines) {
-      const noteValue = line.value.trim();
-      if (noteValue) {
-        notes.push(noteValue);
+    // Only notes on the person itself; event and citation notes stay with them
+    const notes = this.getNotes(record, record.lines[0], context);
+
+    const events: Array<ParsedEvent> = [];
+    const citations: Array<ParsedCitation> = [];
+    const media: Array<ParsedMediaLink> = [];
+    for (const line of this.getChildLines(record, record.lines[0])) {
+      if (INDIVIDUAL_EVENT_TAGS.has(line.tag)) {
+        events.push(this.parseEvent(record, line, context));
+      } else if (line.tag === "SOUR") {
+        citations.push(this.parseCitation(record, line, context));
+      } else if (line.tag === "OBJE") {
+        media.push(this.parseMediaLink(record, line));
       }
     }
 
     const familiesAsChild: Array<string> = [];
+    const familyPedigrees: Record<string, ParentPedigree> = {};
     const famcLines = record.tags.get("FAMC") || [];
     for (const line of famcLines) {
       if (line.pointer) {
-        familiesAsChild.push(line.pointer.replace(/@/g, ""));
+        const familyId = line.pointer.replace(/@/g, "");
+        familiesAsChild.push(familyId);
+
+        const pedigree = this.parsePedigree(record, line);
+        if (pedigree) {
+          familyPedigrees[familyId] = pedigree;
+        }
       }
     }
 
@@ -732,21 +858,53 @@ export class GedcomParser {
       names: names.length > 0 ? names : [{ full: "" }],
       sex,
       birthDate,
+      birthDateDetail,
       birthPlace,
       deathDate,
+      deathDateDetail,
       deathPlace,
       occupation,
       notes,
+      events,
+      citations,
+      media,
       familiesAsChild,
       familiesAsSpouse,
+      familyPedigrees,
     };
   }
 
+  /**
+   * Read the PEDI of a FAMC link. Unknown values are ignored.
+   */
+  private parsePedigree(
+    record: GedcomRecord,
+    famcLine: GedcomLine
+  ): ParentPedigree | undefined {
+    const pediLine = this.getChildLines(record, famcLine).find(
+      (line) => line.tag === "PEDI"
+    );
+    if (!pediLine) return undefined;
+
+    const value = pediLine.value.trim().toUpperCase();
+    if (value === "OTHER") {
+      const phrase = this.getChildLines(record, pediLine).find(
+        (line) => line.tag === "PHRASE"
+      );
+      return phrase && /guardian/i.test(phrase.value) ? "GUARDIAN" : undefined;
+    }
+    return PEDIGREE_VALUES[value];
+  }
+
   /**
    * Parse family record into structured data
    */
-  parseFamily(record: GedcomRecord): ParsedFamily {
+  parseFamily(
+    record: GedcomRecord,
+    options?: ParseRecordOptions
+  ): ParsedFamily {
     const id = record.id || "unknown";
+    const context = this.getRecordContext(options);
 
     const husbandLine = record.tags.get("HUSB")?.[0];
     const wifeLine = record.tags.get("WIFE")?.[0];
@@ -761,17 +919,25 @@ export class GedcomParser {
       }
     }
 
-    const marriageDate = this.parseDateFromRecord(record, "MARR");
+    const marriageDate = this.parseDateFromRecord(
+      record,
+      "MARR",
+      context.version
+    );
     const marriagePlace = this.getPlaceFromEvent(record, "MARR") || undefined;
 
-    const divorceDate = this.parseDateFromRecord(record, "DIV");
+    const divorceDate = this.parseDateFromRecord(
+      record,
+      "DIV",
+      context.version
+    );
 
-    const notes: Array<string> = [];
-    const noteLines = record.tags.get("NOTE") || [];
-    for (const line of noteLines) {
-      const noteValue = line.value.trim();
-      if (noteValue) {
-        notes.push(noteValue);
+    const notes = this.getNotes(record, record.lines[0], context);
+
+    const events: Array<ParsedEvent> = [];
+    for (const line of this.getChildLines(record, record.lines[0])) {
+      if (FAMILY_EVENT_TAGS.has(line.tag)) {
+        events.push(this.parseEvent(record, line, context));
       }
     }
 
@@ -784,6 +950,7 @@ export class GedcomParser {
       marriagePlace,
       divorceDate,
       notes,
+      events,
     };
   }
 
@@ -792,7 +959,8 @@ export class GedcomParser {
    */
   private parseDateFromRecord(
     record: GedcomRecord,
-    eventTag: string
+    eventTag: string,
+    version: "5.5.1" | "7.0" = this.gedcomVersion
   ): string | undefined {
     const eventLines = record.tags.get(eventTag) || [];
     for (const eventLine of eventLines) {
@@ -807,7 +975,7 @@ export class GedcomParser {
 
         // Found a DATE child of this event
         if (line.tag === "DATE") {
-          const parsed = this.parseDate(line.value, this.gedcomVersion);
+          const parsed = this.parseDate(line.value, version);
           if (parsed) {
             return parsed;
           }
@@ -817,6 +985,49 @@ export class GedcomParser {
     return undefined;
   }
 
+  /**
+   * Parse the full genealogical date (qualifier, range, precision, calendar)
+   * from an event tag. Only returned for dates that are not an exact day, so
+   * plain dates keep using the ISO value from parseDateFromRecord.
+   */
+  private parseDateDetailFromRecord(
+    record: GedcomRecord,
+    eventTag: string
+  ): GenealogicalDate | undefined {
+    const eventLines = record.tags.get(eventTag) || [];
+    for (const eventLine of eventLines) {
+      const eventIndex = record.lines.indexOf(eventLine);
+
+      for (let i = eventIndex + 1; i < record.lines.length; i++) {
+        const line = record.lines[i];
+
+        if (line.level <= eventLine.level) {
+          break;
+        }
+
+        if (line.tag === "DATE" && parseGenealogicalDate(line.value)) {
+          return this.parseDateDetail(line.value);
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Parse a DATE value into a genealogical date, or undefined for an exact
+   * Gregorian day (those are fully described by the ISO value)
+   */
+  private parseDateDetail(value: string): GenealogicalDate | undefined {
+    const parsed = parseGenealogicalDate(value);
+    if (!parsed) return undefined;
+
+    const isExactDay =
+      parsed.qualifier === "EXACT" &&
+      parsed.precision === "DAY" &&
+      parsed.calendar === "GREGORIAN";
+    return isExactDay ? undefined : parsed;
+  }
+
   /**
    * Get place from event tag
    */
@@ -929,4 +1140,275 @@ export class GedcomParser {
       notes,
     };
   }
+
+  /**
+   * Parse source record (SOUR) into structured data
+   */
+  parseSource(
+    record: GedcomRecord,
+    options?: ParseRecordOptions
+  ): ParsedSource {
+    const context = this.getRecordContext(options);
+    const source: ParsedSource = {
+      id: record.id || "unknown",
+      title: "",
+      notes: this.getNotes(record, record.lines[0], context),
+    };
+
+    for (const line of this.getChildLines(record, record.lines[0])) {
+      switch (line.tag) {
+        case "TITL":
+          source.title = line.value;
+          break;
+        case "ABBR":
+          source.title = source.title || line.value;
+          break;
+        case "AUTH":
+          source.author = line.value || undefined;
+          break;
+        case "PUBL":
+          source.publication = line.value || undefined;
+          break;
+        case "TEXT":
+          source.text = line.value || undefined;
+          break;
+        case "REPO": {
+          if (line.pointer) {
+            source.repositoryId = line.pointer.replace(/@/g, "");
+          } else {
+            source.repository = line.value || undefined;
+          }
+          const callNumber = this.getChildLines(record, line).find(
+            (child) => child.tag === "CALN"
+          );
+          source.callNumber = callNumber?.value || undefined;
+          break;
+        }
+      }
+    }
+
+    return source;
+  }
+
+  /**
+   * Parse multimedia record (OBJE) into structured data
+   *
+   * Accepts FORM and TITL either beside FILE (GEDCOM 5.5) or under it
+   * (GEDCOM 5.5.1 and 7.0).
+   */
+  parseMediaObject(
+    record: GedcomRecord,
+    options?: ParseRecordOptions
+  ): ParsedMediaObject {
+    const context = this.getRecordContext(options);
+    return {
+      id: record.id || "unknown",
+      ...this.parseMediaFile(record, record.lines[0]),
+      notes: this.getNotes(record, record.lines[0], context),
+    };
+  }
+
+  /**
+   * Get the text of a shared note record (NOTE in 5.5.1, SNOTE in 7.0)
+   */
+  parseNoteRecord(record: GedcomRecord): string {
+    return record.lines[0]?.value.trim() ?? "";
+  }
+
+  /**
+   * Resolve per-record parsing context from options and the last parsed file
+   */
+  private getRecordContext(options?: ParseRecordOptions): RecordContext {
+    return {
+      version: options?.version ?? this.gedcomVersion,
+      sharedNotes: options?.sharedNotes ?? new Map(),
+    };
+  }
+
+  /**
+   * Get the lines directly below a line in a record
+   */
+  private getChildLines(
+    record: GedcomRecord,
+    parent: GedcomLine
+  ): Array<GedcomLine> {
+    const children: Array<GedcomLine> = [];
+    const parentIndex = record.lines.indexOf(parent);
+
+    for (let i = parentIndex + 1; i < record.lines.length; i++) {
+      const line = record.lines[i];
+      if (line.level <= parent.level) break;
+      if (line.level === parent.level + 1) children.push(line);
+    }
+
+    return children;
+  }
+
+  /**
+   * Get the NOTE/SNOTE texts directly below a line, resolving pointers to
+   * shared note records
+   */
+  private getNotes(
+    record: GedcomRecord,
+    parent: GedcomLine,
+    context: RecordContext
+  ): Array<string> {
+    const notes: Array<string> = [];
+
+    for (const line of this.getChildLines(record, parent)) {
+      if (line.tag !== "NOTE" && line.tag !== "SNOTE") continue;
+
+      const text = line.pointer
+        ? context.sharedNotes.get(line.pointer.replace(/@/g, ""))
+        : line.value.trim();
+      if (text) {
+        notes.push(text);
+      }
+    }
+
+    return notes;
+  }
+
+  /**
+   * Parse an event or attribute line with its date, place, notes,
+   * citations and media
+   */
+  private parseEvent(
+    record: GedcomRecord,
+    eventLine: GedcomLine,
+    context: RecordContext
+  ): ParsedEvent {
+    const event: ParsedEvent = {
+      tag: eventLine.tag,
+      // "1 DEAT Y" only says the event happened
+      value:
+        eventLine.value && eventLine.value !== "Y"
+          ? eventLine.value
+          : undefined,
+      notes: this.getNotes(record, eventLine, context),
+      citations: [],
+      media: [],
+    };
+
+    for (const line of this.getChildLines(record, eventLine)) {
+      switch (line.tag) {
+        case "TYPE":
+          event.type = line.value || undefined;
+          break;
+        case "DATE":
+          event.date = this.parseDate(line.value, context.version) ?? undefined;
+          event.dateDetail = this.parseDateDetail(line.value);
+          break;
+        case "PLAC": {
+          event.place = line.value || undefined;
+          const map = this.getChildLines(record, line).find(
+            (child) => child.tag === "MAP"
+          );
+          if (map) {
+            for (const coordinate of this.getChildLines(record, map)) {
+              if (coordinate.tag === "LATI") {
+                event.latitude = this.parseCoordinate(coordinate.value);
+              } else if (coordinate.tag === "LONG") {
+                event.longitude = this.parseCoordinate(coordinate.value);
+              }
+            }
+          }
+          break;
+        }
+        case "SOUR":
+          event.citations.push(this.parseCitation(record, line, context));
+          break;
+        case "OBJE":
+          event.media.push(this.parseMediaLink(record, line));
+          break;
+      }
+    }
+
+    return event;
+  }
+
+  /**
+   * Parse a source citation: a pointer to a SOUR record, or inline text
+   */
+  private parseCitation(
+    record: GedcomRecord,
+    citationLine: GedcomLine,
+    context: RecordContext
+  ): ParsedCitation {
+    const citation: ParsedCitation = {
+      sourceId: citationLine.pointer?.replace(/@/g, ""),
+      text: citationLine.pointer ? undefined : citationLine.value || undefined,
+      notes: this.getNotes(record, citationLine, context),
+    };
+
+    for (const line of this.getChildLines(record, citationLine)) {
+      if (line.tag === "PAGE") {
+        citation.page = line.value || undefined;
+      } else if (line.tag === "QUAY") {
+        const quality = parseInt(line.value, 10);
+        if (quality >= 0 && quality <= 3) {
+          citation.quality = quality;
+        }
+      }
+    }
+
+    return citation;
+  }
+
+  /**
+   * Parse a multimedia link: a pointer to an OBJE record, or an inline file
+   */
+  private parseMediaLink(
+    record: GedcomRecord,
+    linkLine: GedcomLine
+  ): ParsedMediaLink {
+    const isPrimary = this.getChildLines(record, linkLine).some(
+      (line) => line.tag === "_PRIM" && line.value.toUpperCase() === "Y"
+    );
+
+    if (linkLine.pointer) {
+      return { objectId: linkLine.pointer.replace(/@/g, ""), isPrimary };
+    }
+
+    const file = this.parseMediaFile(record, linkLine);
+    return { file: file.filePath ? file : undefined, isPrimary };
+  }
+
+  /**
+   * Read FILE, FORM and TITL below an OBJE line
+   */
+  private parseMediaFile(
+    record: GedcomRecord,
+    objectLine: GedcomLine
+  ): ParsedMediaFile {
+    const file: ParsedMediaFile = { filePath: "" };
+
+    for (const line of this.getChildLines(record, objectLine)) {
+      if (line.tag === "FILE" && !file.filePath) {
+        file.filePath = line.value;
+        for (const child of this.getChildLines(record, line)) {
+          if (child.tag === "FORM") file.format = child.value || undefined;
+          if (child.tag === "TITL") file.title = child.value || undefined;
+        }
+      } else if (line.tag === "FORM" && !file.format) {
+        file.format = line.value || undefined;
+      } else if (line.tag === "TITL" && !file.title) {
+        file.title = line.value || undefined;
+      }
+    }
+
+    return file;
+  }
+
+  /**
+   * Parse a MAP coordinate such as "N42.3601" or "W71.0589"
+   */
+  private parseCoordinate(value: string): number | undefined {
+    const match = value.trim().match(/^([NSEW])?\s*(-?\d+(?:\.\d+)?)$/i);
+    if (!match) return undefined;
+
+    const amount = parseFloat(match[2]);
+    const hemisphere = match[1]?.toUpperCase();
+    return hemisphere === "S" || hemisphere === "W" ? -amount : amount;
+  }
 }
@@ -3,6 +3,9 @@
  * Reference: https://github.com/FamilySearch/GEDCOM/tree/main/specification
  */
 
+import type { GenealogicalDate } from "../genealogical-date";
+import type { ParentPedigree } from "../relationships";
+
 /**
  * Represents a single line from a GEDCOM file
  * Format: <level> <tag> [<xref>] [<value>]
@@ -28,6 +31,7 @@ export interface GedcomRecord {
     | "OBJE"
     | "REPO"
     | "SUBM"
+    | "NOTE"
     | "OTHER";
   id?: string; // xref without @ signs
   lines: Array<GedcomLine>;
@@ -45,6 +49,7 @@ export interface GedcomFile {
   objects: Array<GedcomRecord>; // GEDCOM Phase 2: Multimedia object records
   repositories: Array<GedcomRecord>; // GEDCOM Phase 2: Repository records
   submitters: Array<GedcomRecord>; // GEDCOM Phase 2: Submitter records
+  notes: Array<GedcomRecord>; // Shared notes (NOTE in 5.5.1, SNOTE in 7.0)
   trailer: GedcomRecord;
   version: string; // GEDCOM version (e.g., "5.5.1" or "7.0")
   charset: string;
@@ -63,13 +68,19 @@ export interface ParsedIndividual {
   }>;
   sex?: "M" | "F" | "X";
   birthDate?: string; // ISO format YYYY-MM-DD
+  birthDateDetail?: GenealogicalDate; // Qualifier/range/precision of BIRT DATE
   birthPlace?: string;
   deathDate?: string; // ISO format YYYY-MM-DD
+  deathDateDetail?: GenealogicalDate; // Qualifier/range/precision of DEAT DATE
   deathPlace?: string;
   occupation?: string;
   notes: Array<string>;
+  events: Array<ParsedEvent>; // Every event and attribute, BIRT/DEAT included
+  citations: Array<ParsedCitation>; // SOUR citations on the person itself
+  media: Array<ParsedMediaLink>; // OBJE links on the person itself
   familiesAsSpouse: Array<string>; // Family IDs
   familiesAsChild: Array<string>; // Family ID
+  familyPedigrees: Record<string, ParentPedigree>; // FAMC PEDI by family ID
 }
 
 /**
@@ -84,6 +95,76 @@ export interface ParsedFamily {
   marriagePlace?: string;
   divorceDate?: string; // ISO format YYYY-MM-DD
   notes: Array<string>;
+  events: Array<ParsedEvent>; // MARR, DIV, ENGA, EVEN, ...
+}
+
+/**
+ * Source citation (SOUR) attached to a person or event
+ */
+export interface ParsedCitation {
+  sourceId?: string; // SOUR record id
+  text?: string; // Inline source description (GEDCOM 5.5.1 only)
+  page?: string; // PAGE: where in the source
+  quality?: number; // QUAY: 0 (unreliable) to 3 (direct evidence)
+  notes: Array<string>;
+}
+
+/**
+ * File reference of a multimedia object
+ */
+export interface ParsedMediaFile {
+  filePath: string;
+  format?: string; // FORM: "jpg" in 5.5.1, a media type in 7.0
+  title?: string;
+}
+
+/**
+ * Multimedia link (OBJE) attached to a person or event
+ */
+export interface ParsedMediaLink {
+  objectId?: string; // OBJE record id
+  file?: ParsedMediaFile; // Inline OBJE (GEDCOM 5.5.1 only)
+  isPrimary: boolean; // _PRIM Y
+}
+
+/**
+ * Event or attribute of an individual or family
+ */
+export interface ParsedEvent {
+  tag: string; // e.g. BIRT, RESI, OCCU, EVEN
+  type?: string; // TYPE descriptor, e.g. "Land purchase" for EVEN
+  value?: string; // Line payload, e.g. the occupation for OCCU
+  date?: string; // ISO format YYYY-MM-DD
+  dateDetail?: GenealogicalDate; // Qualifier/range/precision of DATE
+  place?: string;
+  latitude?: number;
+  longitude?: number;
+  notes: Array<string>;
+  citations: Array<ParsedCitation>;
+  media: Array<ParsedMediaLink>;
+}
+
+/**
+ * Parsed source data (SOUR record)
+ */
+export interface ParsedSource {
+  id: string;
+  title: string;
+  author?: string;
+  publication?: string;
+  text?: string;
+  repositoryId?: string; // REPO record id
+  repository?: string; // Repository named inline
+  callNumber?: string;
+  notes: Array<string>;
+}
+
+/**
+ * Parsed multimedia data (OBJE record)
+ */
+export interface ParsedMediaObject extends ParsedMediaFile {
+  id: string;
+  notes: Array<string>;
 }
 
 /**
@@ -0,0 +1,279 @@
+/**
+ * Unit Tests for Genealogical Date Utilities
+ * Tests parsing, bounds, GEDCOM output and display formatting
+ */
+import { describe, expect, test } from "vitest";
+import {
+  formatGedcomDate,
+  formatGenealogicalDate,
+  genealogicalDateFromDate,
+  getGenealogicalDateBounds,
+  getGenealogicalEstimate,
+  getGenealogicalSortDate,
+  isApproximateDate,
+  parseGenealogicalDate,
+  resolveDateColumns,
+  toGenealogicalDate,
+} from "./genealogical-date";
+import type { GenealogicalDate } from "./genealogical-date";
+
+const iso = (date: Date) => date.toISOString().slice(0, 10);
+
+describe("parseGenealogicalDate", () => {
+  test("returns null for empty or unknown text", () => {
+    expect(parseGenealogicalDate("")).toBeNull();
+    expect(parseGenealogicalDate(null)).toBeNull();
+    expect(parseGenealogicalDate("sometime in spring")).toBeNull();
+  });
+
+  test("parses exact GEDCOM and ISO dates", () => {
+    expect(parseGenealogicalDate("15 JAN 1850")).toMatchObject({
+      qualifier: "EXACT",
+      precision: "DAY",
+      start: { year: 1850, month: 1, day: 15 },
+      calendar: "GREGORIAN",
+    });
+    expect(parseGenealogicalDate("1850-01-15")?.start).toEqual({
+      year: 1850,
+      month: 1,
+      day: 15,
+    });
+  });
+
+  test("parses partial dates", () => {
+    expect(parseGenealogicalDate("MAR 1850")).toMatchObject({
+      precision: "MONTH",
+      start: { year: 1850, month: 3 },
+    });
+    expect(parseGenealogicalDate("1850")).toMatchObject({
+      precision: "YEAR",
+      start: { year: 1850 },
+    });
+  });
+
+  test("parses English month names", () => {
+    expect(parseGenealogicalDate("March 15, 1850")?.start).toEqual({
+      year: 1850,
+      month: 3,
+      day: 15,
+    });
+  });
+
+  test("parses qualifiers", () => {
+    expect(parseGenealogicalDate("ABT 1850")?.qualifier).toBe("ABOUT");
+    expect(parseGenealogicalDate("circa 1850")?.qualifier).toBe("ABOUT");
+    expect(parseGenealogicalDate("~1850")?.qualifier).toBe("ABOUT");
+    expect(parseGenealogicalDate("CAL 1850")?.qualifier).toBe("CALCULATED");
+    expect(parseGenealogicalDate("EST 1850")?.qualifier).toBe("ESTIMATED");
+    expect(parseGenealogicalDate("BEF 1900")?.qualifier).toBe("BEFORE");
+    expect(parseGenealogicalDate("AFT 1900")?.qualifier).toBe("AFTER");
+  });
+
+  test("parses ranges and periods", () => {
+    expect(parseGenealogicalDate("BET 1820 AND 1825")).toMatchObject({
+      qualifier: "BETWEEN",
+      start: { year: 1820 },
+      end: { year: 1825 },
+    });
+    expect(parseGenealogicalDate("FROM 1900 TO 1910")).toMatchObject({
+      qualifier: "FROM_TO",
+      end: { year: 1910 },
+    });
+  });
+
+  test("keeps open-ended periods", () => {
+    expect(parseGenealogicalDate("FROM 1900")?.qualifier).toBe("FROM");
+    expect(parseGenealogicalDate("TO 1910")?.qualifier).toBe("TO");
+  });
+
+  test("keeps the phrase of interpreted dates", () => {
+    expect(parseGenealogicalDate("INT 1850 (in the spring)")).toMatchObject({
+      qualifier: "INTERPRETED",
+      start: { year: 1850 },
+      phrase: "in the spring",
+    });
+  });
+
+  test("rejects ranges that end before they start", () => {
+    expect(parseGenealogicalDate("BET 1825 AND 1820")).toBeNull();
+  });
+
+  test("rejects impossible days", () => {
+    expect(parseGenealogicalDate("30 FEB 1850")).toBeNull();
+  });
+
+  test("reads calendar escapes", () => {
+    const date = parseGenealogicalDate("@#DJULIAN@ 1 MAR 1700");
+
+    expect(date?.calendar).toBe("JULIAN");
+    expect(date?.start).toEqual({ year: 1700, month: 3, day: 1 });
+  });
+
+  test("keeps the original text", () => {
+    expect(parseGenealogicalDate("  ABT 1850 ")?.original).toBe("ABT 1850");
+  });
+});
+
+describe("toGenealogicalDate", () => {
+  test("accepts stored detail objects", () => {
+    const detail = parseGenealogicalDate("ABT 1850");
+    expect(toGenealogicalDate(detail)).toBe(detail);
+  });
+
+  test("ignores anything else", () => {
+    expect(toGenealogicalDate(null)).toBeNull();
+    expect(toGenealogicalDate("ABT 1850")).toBeNull();
+    expect(toGenealogicalDate({ qualifier: "SOON", start: {} })).toBeNull();
+  });
+});
+
+describe("isApproximateDate", () => {
+  test("is false only for exact days", () => {
+    expect(isApproximateDate(parseGenealogicalDate("15 JAN 1850")!)).toBe(
+      false
+    );
+    expect(isApproximateDate(parseGenealogicalDate("JAN 1850")!)).toBe(true);
+    expect(isApproximateDate(parseGenealogicalDate("ABT 15 JAN 1850")!)).toBe(
+      true
+    );
+  });
+});
+
+describe("bounds and estimates", () => {
+  test("spans the whole year for year precision", () => {
+    const bounds = getGenealogicalDateBounds(parseGenealogicalDate("1850")!);
+
+    expect(iso(bounds.earliest)).toBe("1850-01-01");
+    expect(iso(bounds.latest)).toBe("1850-12-31");
+  });
+
+  test("spans the whole month for month precision", () => {
+    const bounds = getGenealogicalDateBounds(
+      parseGenealogicalDate("FEB 1852")!
+    );
+
+    expect(iso(bounds.earliest)).toBe("1852-02-01");
+    expect(iso(bounds.latest)).toBe("1852-02-29");
+  });
+
+  test("spans both ends of a range", () => {
+    const date = parseGenealogicalDate("BET 1820 AND 1825")!;
+
+    expect(iso(getGenealogicalSortDate(date))).toBe("1820-01-01");
+    expect(iso(getGenealogicalDateBounds(date).latest)).toBe("1825-12-31");
+  });
+
+  test("estimates the midpoint", () => {
+    const estimate = getGenealogicalEstimate(parseGenealogicalDate("1850")!);
+    expect(iso(estimate)).toBe("1850-07-02");
+  });
+
+  test("does not shift years below 100", () => {
+    expect(
+      getGenealogicalSortDate(parseGenealogicalDate("ABT 50")!).getUTCFullYear()
+    ).toBe(50);
+  });
+});
+
+describe("formatGedcomDate", () => {
+  test("writes GEDCOM 5.5.1 phrases", () => {
+    expect(formatGedcomDate(parseGenealogicalDate("about 1850")!)).toBe(
+      "ABT 1850"
+    );
+    expect(formatGedcomDate(parseGenealogicalDate("March 1850")!)).toBe(
+      "MAR 1850"
+    );
+    expect(formatGedcomDate(parseGenealogicalDate("BET 1820 AND 1825")!)).toBe(
+      "BET 1820 AND 1825"
+    );
+  });
+
+  test("writes ISO parts for GEDCOM 7.0", () => {
+    expect(
+      formatGedcomDate(parseGenealogicalDate("BEF 15 JAN 1850")!, "7.0")
+    ).toBe("BEF 1850-01-15");
+  });
+
+  test("writes interpreted dates without INT for GEDCOM 7.0", () => {
+    expect(
+      formatGedcomDate(
+        parseGenealogicalDate("INT 1850 (in the spring)")!,
+        "7.0"
+      )
+    ).toBe("1850");
+  });
+
+  test("keeps the calendar escape for non-Gregorian dates", () => {
+    expect(
+      formatGedcomDate(parseGenealogicalDate("@#DJULIAN@ ABT 1700")!, "7.0")
+    ).toBe("@#DJULIAN@ ABT 1700");
+  });
+
+  test("round-trips GEDCOM text", () => {
+    for (const text of [
+      "ABT 1850",
+      "CAL 12 MAR 1850",
+      "FROM 1900 TO 1910",
+      "FROM 1900",
+      "TO 12 MAR 1910",
+      "INT 1850 (in the spring)",
+      "AFT JUN 1900",
+    ]) {
+      expect(formatGedcomDate(parseGenealogicalDate(text)!)).toBe(text);
+    }
+  });
+});
+
+describe("formatGenealogicalDate", () => {
+  test("formats for display", () => {
+    expect(formatGenealogicalDate(parseGenealogicalDate("ABT 1850")!)).toBe(
+      "about 1850"
+    );
+    expect(formatGenealogicalDate(parseGenealogicalDate("15 MAR 1850")!)).toBe(
+      "March 15, 1850"
+    );
+    expect(
+      formatGenealogicalDate(parseGenealogicalDate("BET 1820 AND 1825")!)
+    ).toBe("between 1820 and 1825");
+    expect(formatGenealogicalDate(parseGenealogicalDate("FROM 1900")!)).toBe(
+      "from 1900"
+    );
+    expect(
+      formatGenealogicalDate(parseGenealogicalDate("INT 1850 (in the spring)")!)
+    ).toBe("1850 (in the spring)");
+  });
+
+  test("names non-Gregorian calendars", () => {
+    expect(
+      formatGenealogicalDate(parseGenealogicalDate("@#DJULIAN@ 1700")!)
+    ).toBe("1700 (Julian)");
+  });
+});
+
+describe("resolveDateColumns", () => {
+  test("derives the sort date from a detail", () => {
+    const detail = parseGenealogicalDate("ABT 1850")!;
+    const result = resolveDateColumns(new Date("2000-01-01"), detail);
+
+    expect(iso(result.date!)).toBe("1850-01-01");
+    expect(result.detail).toBe(detail);
+  });
+
+  test("clears the detail for a plain date", () => {
+    const date = new Date("1850-01-15");
+
+    expect(resolveDateColumns(date, undefined)).toEqual({
+      date,
+      detail: null,
+    });
+  });
+
+  test("wraps exact dates", () => {
+    const detail: GenealogicalDate = genealogicalDateFromDate(
+      new Date(Date.UTC(1850, 0, 15))
+    );
+
+    expect(detail.start).toEqual({ year: 1850, month: 1, day: 15 });
+    expect(isApproximateDate(detail)).toBe(false);
+  });
+});
@@ -0,0 +1,613 @@
+/**
+ * Genealogical date utilities.
+ *
+ * Genealogy sources rarely give exact days: "ABT 1850", "BEF 1900",
+ * "BET 1820 AND 1825" or just "MAR 1850" are normal. A GenealogicalDate keeps
+ * that information (qualifier, precision, range, calendar and the original
+ * text) while the plain date columns keep a sortable value derived from it
+ * with getGenealogicalSortDate.
+ *
+ * Parsing accepts GEDCOM 5.5.1 phrases, GEDCOM 7.0 / ISO partial dates and a
+ * few common English forms ("about 1850", "c. 1850", "before 1900").
+ */
+
+export const DATE_QUALIFIERS = [
+  "EXACT",
+  "ABOUT",
+  "CALCULATED",
+  "ESTIMATED",
+  "BEFORE",
+  "AFTER",
+  "BETWEEN",
+  "FROM_TO",
+  "FROM",
+  "TO",
+  "INTERPRETED",
+] as const;
+
+export const DATE_PRECISIONS = ["DAY", "MONTH", "YEAR"] as const;
+
+export const DATE_CALENDARS = [
+  "GREGORIAN",
+  "JULIAN",
+  "HEBREW",
+  "FRENCH_R",
+] as const;
+
+export type DateQualifier = (typeof DATE_QUALIFIERS)[number];
+export type DatePrecision = (typeof DATE_PRECISIONS)[number];
+export type DateCalendar = (typeof DATE_CALENDARS)[number];
+
+/**
+ * One end of a genealogical date. Month and day are optional (1-based).
+ */
+export interface DatePart {
+  year: number;
+  month?: number;
+  day?: number;
+}
+
+/**
+ * A date as genealogists record it
+ */
+export interface GenealogicalDate {
+  qualifier: DateQualifier;
+  /** Precision of `start` */
+  precision: DatePrecision;
+  start: DatePart;
+  /** Second date for BETWEEN and FROM_TO */
+  end?: DatePart;
+  calendar: DateCalendar;
+  /** How the date was interpreted, for INTERPRETED dates ("INT 1850 (phrase)") */
+  phrase?: string;
+  /** Text as entered or imported, kept for reference */
+  original?: string;
+}
+
+/** Qualifiers whose value is a range with two dates */
+const RANGE_QUALIFIERS: ReadonlyArray<DateQualifier> = ["BETWEEN", "FROM_TO"];
+
+const GEDCOM_QUALIFIER: Partial<Record<DateQualifier, string>> = {
+  ABOUT: "ABT",
+  CALCULATED: "CAL",
+  ESTIMATED: "EST",
+  BEFORE: "BEF",
+  AFTER: "AFT",
+  FROM: "FROM",
+  TO: "TO",
+};
+
+const QUALIFIER_LABEL: Partial<Record<DateQualifier, string>> = {
+  ABOUT: "about",
+  CALCULATED: "calculated",
+  ESTIMATED: "estimated",
+  BEFORE: "before",
+  AFTER: "after",
+  FROM: "from",
+  TO: "to",
+};
+
+const CALENDAR_ESCAPE: Record<DateCalendar, string> = {
+  GREGORIAN: "@#DGREGORIAN@",
+  JULIAN: "@#DJULIAN@",
+  HEBREW: "@#DHEBREW@",
+  FRENCH_R: "@#DFRENCH R@",
+};
+
+const CALENDAR_LABEL: Record<DateCalendar, string> = {
+  GREGORIAN: "",
+  JULIAN: "Julian",
+  HEBREW: "Hebrew",
+  FRENCH_R: "French Republican",
+};
+
+const GREGORIAN_MONTHS = [
+  "JAN",
+  "FEB",
+  "MAR",
+  "APR",
+  "MAY",
+  "JUN",
+  "JUL",
+  "AUG",
+  "SEP",
+  "OCT",
+  "NOV",
+  "DEC",
+];
+
+const HEBREW_MONTHS = [
+  "TSH",
+  "CSH",
+  "KSL",
+  "TVT",
+  "SHV",
+  "ADR",
+  "ADS",
+  "NSN",
+  "IYR",
+  "SVN",
+  "TMZ",
+  "AAV",
+  "ELL",
+];
+
+const FRENCH_MONTHS = [
+  "VEND",
+  "BRUM",
+  "FRIM",
+  "NIVO",
+  "PLUV",
+  "VENT",
+  "GERM",
+  "FLOR",
+  "PRAI",
+  "MESS",
+  "THER",
+  "FRUC",
+  "COMP",
+];
+
+const MONTH_LABELS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+/** Offsets used to place non-Gregorian years on the timeline (approximate) */
+const CALENDAR_YEAR_OFFSET: Record<DateCalendar, number> = {
+  GREGORIAN: 0,
+  JULIAN: 0,
+  HEBREW: -3760,
+  FRENCH_R: 1791,
+};
+
+function monthsFor(calendar: DateCalendar): Array<string> {
+  if (calendar === "HEBREW") return HEBREW_MONTHS;
+  if (calendar === "FRENCH_R") return FRENCH_MONTHS;
+  return GREGORIAN_MONTHS;
+}
+
+function parseMonth(token: string, calendar: DateCalendar): number | null {
+  const upper = token.toUpperCase().replace(/\.$/, "");
+  const months = monthsFor(calendar);
+
+  const exact = months.indexOf(upper);
+  if (exact >= 0) return exact + 1;
+
+  // Full English names ("March", "Sept") for Gregorian and Julian dates
+  if (months === GREGORIAN_MONTHS && upper.length >= 3) {
+    const prefix = months.indexOf(upper.slice(0, 3));
+    if (prefix >= 0 && MONTH_LABELS[prefix].toUpperCase().startsWith(upper)) {
+      return prefix + 1;
+    }
+    if (upper === "SEPT") return 9;
+  }
+
+  return null;
+}
+
+/**
+ * Date at midnight UTC. Unlike Date.UTC, years 0-99 are not moved to 19xx.
+ */
+function utcDate(year: number, monthIndex: number, day: number): Date {
+  const date = new Date(0);
+  date.setUTCFullYear(year, monthIndex, day);
+  return date;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return utcDate(year, month, 0).getUTCDate();
+}
+
+function isValidPart(part: DatePart, calendar: DateCalendar): boolean {
+  if (!Number.isInteger(part.year) || part.year < 1) return false;
+  if (part.month === undefined) return part.day === undefined;
+
+  const maxMonth = monthsFor(calendar).length;
+  if (part.month < 1 || part.month > maxMonth) return false;
+  if (part.day === undefined) return true;
+
+  const maxDay =
+    calendar === "GREGORIAN" || calendar === "JULIAN"
+      ? daysInMonth(part.year, part.month)
+      : 30;
+  return part.day >= 1 && part.day <= maxDay;
+}
+
+function parseDatePart(text: string, calendar: DateCalendar): DatePart | null {
+  const value = text.trim();
+  let part: DatePart | null = null;
+
+  const iso = value.match(/^(\d{1,4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/);
+  const dayMonthYear = value.match(
+    /^(\d{1,2})\s+([A-Za-z]+\.?),?\s+(\d{1,4})$/
+  );
+  const monthDayYear = value.match(/^([A-Za-z]+\.?)\s+(\d{1,2}),\s*(\d{1,4})$/);
+  const monthYear = value.match(/^([A-Za-z]+\.?)\s+(\d{1,4})$/);
+
+  if (iso) {
+    part = {
+      year: parseInt(iso[1], 10),
+      month: iso[2] ? parseInt(iso[2], 10) : undefined,
+      day: iso[3] ? parseInt(iso[3], 10) : undefined,
+    };
+  } else if (dayMonthYear) {
+    const month = parseMonth(dayMonthYear[2], calendar);
+    if (month === null) return null;
+    part = {
+      year: parseInt(dayMonthYear[3], 10),
+      month,
+      day: parseInt(dayMonthYear[1], 10),
+    };
+  } else if (monthDayYear) {
+    const month = parseMonth(monthDayYear[1], calendar);
+    if (month === null) return null;
+    part = {
+      year: parseInt(monthDayYear[3], 10),
+      month,
+      day: parseInt(monthDayYear[2], 10),
+    };
+  } else if (monthYear) {
+    const month = parseMonth(monthYear[1], calendar);
+    if (month === null) return null;
+    part = { year: parseInt(monthYear[2], 10), month };
+  }
+
+  if (!part) return null;
+  if (part.month === undefined) delete part.month;
+  if (part.day === undefined) delete part.day;
+
+  return isValidPart(part, calendar) ? part : null;
+}
+
+function precisionOf(part: DatePart): DatePrecision {
+  if (part.day !== undefined) return "DAY";
+  if (part.month !== undefined) return "MONTH";
+  return "YEAR";
+}
+
+function comparePart(a: DatePart, b: DatePart): number {
+  return (
+    a.year - b.year ||
+    (a.month ?? 1) - (b.month ?? 1) ||
+    (a.day ?? 1) - (b.day ?? 1)
+  );
+}
+
+/**
+ * Parse free text or a GEDCOM DATE value into a GenealogicalDate
+ *
+ * @param text - e.g. "ABT 1850", "BET 1820 AND 1825", "MAR 1850", "1850-03-15"
+ * @returns Parsed date, or null when the text is empty or not understood
+ */
+export function parseGenealogicalDate(
+  text: string | null | undefined
+): GenealogicalDate | null {
+  if (!text || !text.trim()) return null;
+
+  const original = text.trim();
+  let working = original;
+  let calendar: DateCalendar = "GREGORIAN";
+
+  const escape = working.match(/^@#D(GREGORIAN|JULIAN|HEBREW|FRENCH R)@\s*/i);
+  if (escape) {
+    calendar = escape[1].toUpperCase().replace(" ", "_") as DateCalendar;
+    working = working.slice(escape[0].length);
+  }
+
+  const build = (
+    qualifier: DateQualifier,
+    startText: string,
+    endText?: string
+  ): GenealogicalDate | null => {
+    const start = parseDatePart(startText, calendar);
+    if (!start) return null;
+
+    const date: GenealogicalDate = {
+      qualifier,
+      precision: precisionOf(start),
+      start,
+      calendar,
+      original,
+    };
+
+    if (endText !== undefined) {
+      const end = parseDatePart(endText, calendar);
+      if (!end || comparePart(start, end) > 0) return null;
+      date.end = end;
+    }
+
+    return date;
+  };
+
+  // GEDCOM interpreted dates carry a phrase: "INT 1850 (in the spring)"
+  const interpreted = working.match(/^INT\s+(.+?)\s*\((.*)\)$/i);
+  if (interpreted) {
+    const date = build("INTERPRETED", interpreted[1]);
+    if (date && interpreted[2].trim()) date.phrase = interpreted[2].trim();
+    return date;
+  }
+
+  const range = working.match(/^(?:BET|BETWEEN)\s+(.+?)\s+(?:AND|-)\s+(.+)$/i);
+  if (range) return build("BETWEEN", range[1], range[2]);
+
+  const period = working.match(/^FROM\s+(.+?)\s+TO\s+(.+)$/i);
+  if (period) return build("FROM_TO", period[1], period[2]);
+
+  // Open-ended periods: something held from (or until) a date
+  const from = working.match(/^FROM\s+(.+)$/i);
+  if (from) return build("FROM", from[1]);
+  const to = working.match(/^TO\s+(.+)$/i);
+  if (to) return build("TO", to[1]);
+
+  const qualified: Array<[RegExp, DateQualifier]> = [
+    [/^(?:ABT\.?|ABOUT|CIRCA|CA\.?|C\.)\s+(.+)$/i, "ABOUT"],
+    [/^~\s*(.+)$/, "ABOUT"],
+    [/^(?:CAL|CALCULATED)\s+(.+)$/i, "CALCULATED"],
+    [/^(?:EST|ESTIMATED)\s+(.+)$/i, "ESTIMATED"],
+    [/^(?:BEF\.?|BEFORE)\s+(.+)$/i, "BEFORE"],
+    [/^(?:AFT\.?|AFTER)\s+(.+)$/i, "AFTER"],
+  ];
+  for (const [pattern, qualifier] of qualified) {
+    const match = working.match(pattern);
+    if (match) return build(qualifier, match[1]);
+  }
+
+  return build("EXACT", working);
+}
+
+/**
+ * Wrap an exact calendar date as a GenealogicalDate
+ */
+export function genealogicalDateFromDate(date: Date): GenealogicalDate {
+  return {
+    qualifier: "EXACT",
+    precision: "DAY",
+    start: {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+    },
+    calendar: "GREGORIAN",
+  };
+}
+
+/**
+ * Check whether a value is a GenealogicalDate (e.g. a JSON column)
+ */
+export function isGenealogicalDate(value: unknown): value is GenealogicalDate {
+  if (!value || typeof value !== "object") return false;
+  const candidate = value as Partial<GenealogicalDate>;
+  return (
+    typeof candidate.qualifier === "string" &&
+    (DATE_QUALIFIERS as ReadonlyArray<string>).includes(candidate.qualifier) &&
+    typeof candidate.start?.year === "number"
+  );
+}
+
+/**
+ * Read a stored detail column, ignoring anything that is not a GenealogicalDate
+ */
+export function toGenealogicalDate(value: unknown): GenealogicalDate | null {
+  return isGenealogicalDate(value) ? value : null;
+}
+
+/**
+ * True when the date is anything other than an exact day
+ */
+export function isApproximateDate(date: GenealogicalDate): boolean {
+  return date.qualifier !== "EXACT" || date.precision !== "DAY";
+}
+
+function partBounds(
+  part: DatePart,
+  calendar: DateCalendar
+): { earliest: Date; latest: Date } {
+  const year = part.year + CALENDAR_YEAR_OFFSET[calendar];
+
+  // Months of non-Gregorian calendars do not line up; use the whole year
+  if (calendar === "HEBREW" || calendar === "FRENCH_R") {
+    return {
+      earliest: utcDate(year, 0, 1),
+      latest: utcDate(year, 11, 31),
+    };
+  }
+
+  if (part.month === undefined) {
+    return {
+      earliest: utcDate(year, 0, 1),
+      latest: utcDate(year, 11, 31),
+    };
+  }
+
+  if (part.day === undefined) {
+    return {
+      earliest: utcDate(year, part.month - 1, 1),
+      latest: utcDate(year, part.month, 0),
+    };
+  }
+
+  const exact = utcDate(year, part.month - 1, part.day);
+  return { earliest: exact, latest: exact };
+}
+
+/**
+ * Earliest and latest calendar days a genealogical date can stand for
+ *
+ * Ranges span from the start of `start` to the end of `end`. BEFORE/AFTER
+ * and approximate qualifiers are bounded by the stated date itself.
+ */
+export function getGenealogicalDateBounds(date: GenealogicalDate): {
+  earliest: Date;
+  latest: Date;
+} {
+  const start = partBounds(date.start, date.calendar);
+  if (!date.end) return start;
+
+  const end = partBounds(date.end, date.calendar);
+  return { earliest: start.earliest, latest: end.latest };
+}
+
+/**
+ * Sortable value stored in the plain date columns (earliest possible day)
+ */
+export function getGenealogicalSortDate(date: GenealogicalDate): Date {
+  return getGenealogicalDateBounds(date).earliest;
+}
+
+/**
+ * Best single estimate of a genealogical date (midpoint of its bounds)
+ */
+export function getGenealogicalEstimate(date: GenealogicalDate): Date {
+  const { earliest, latest } = getGenealogicalDateBounds(date);
+  const midpoint = (earliest.getTime() + latest.getTime()) / 2;
+  const estimate = new Date(midpoint);
+  return utcDate(
+    estimate.getUTCFullYear(),
+    estimate.getUTCMonth(),
+    estimate.getUTCDate()
+  );
+}
+
+function formatGedcomPart(
+  part: DatePart,
+  calendar: DateCalendar,
+  version: "5.5.1" | "7.0"
+): string {
+  if (version === "7.0" && calendar === "GREGORIAN") {
+    let iso = String(part.year).padStart(4, "0");
+    if (part.month !== undefined) {
+      iso += "-" + String(part.month).padStart(2, "0");
+      if (part.day !== undefined) {
+        iso += "-" + String(part.day).padStart(2, "0");
+      }
+    }
+    return iso;
+  }
+
+  const tokens: Array<string> = [];
+  if (part.day !== undefined) tokens.push(String(part.day));
+  if (part.month !== undefined) {
+    tokens.push(monthsFor(calendar)[part.month - 1]);
+  }
+  tokens.push(String(part.year));
+  return tokens.join(" ");
+}
+
+/**
+ * Format a GenealogicalDate as a GEDCOM DATE value
+ *
+ * GEDCOM 5.5.1 uses "15 JAN 1850"; GEDCOM 7.0 output follows the rest of the
+ * generator and writes Gregorian parts as ISO 8601 ("1850-01-15"). GEDCOM 7.0
+ * has no INT form (the phrase moved to a PHRASE substructure), so
+ * interpreted dates are written as the plain date there.
+ *
+ * @param date - Date to format
+ * @param version - Target GEDCOM version
+ * @returns GEDCOM date text such as "ABT 1850" or "BET 1820 AND 1825"
+ */
+export function formatGedcomDate(
+  date: GenealogicalDate,
+  version: "5.5.1" | "7.0" = "5.5.1"
+): string {
+  const start = formatGedcomPart(date.start, date.calendar, version);
+  const end = date.end
+    ? formatGedcomPart(date.end, date.calendar, version)
+    : undefined;
+
+  let value: string;
+  if (date.qualifier === "BETWEEN" && end) {
+    value = `BET ${start} AND ${end}`;
+  } else if (date.qualifier === "FROM_TO" && end) {
+    value = `FROM ${start} TO ${end}`;
+  } else if (
+    date.qualifier === "INTERPRETED" &&
+    date.phrase &&
+    version === "5.5.1"
+  ) {
+    value = `INT ${start} (${date.phrase})`;
+  } else {
+    const prefix = GEDCOM_QUALIFIER[date.qualifier];
+    value = prefix ? `${prefix} ${start}` : start;
+  }
+
+  if (date.calendar !== "GREGORIAN") {
+    value = `${CALENDAR_ESCAPE[date.calendar]} ${value}`;
+  }
+
+  return value;
+}
+
+function formatDisplayPart(part: DatePart, calendar: DateCalendar): string {
+  if (part.month === undefined) return String(part.year);
+
+  const month =
+    calendar === "GREGORIAN" || calendar === "JULIAN"
+      ? MONTH_LABELS[part.month - 1]
+      : monthsFor(calendar)[part.month - 1];
+
+  if (part.day === undefined) return `${month} ${part.year}`;
+  return `${month} ${part.day}, ${part.year}`;
+}
+
+/**
+ * Format a GenealogicalDate for display
+ *
+ * @returns Text such as "about 1850", "March 1850" or "between 1820 and 1825"
+ */
+export function formatGenealogicalDate(date: GenealogicalDate): string {
+  const start = formatDisplayPart(date.start, date.calendar);
+  const end = date.end ? formatDisplayPart(date.end, date.calendar) : undefined;
+
+  let value: string;
+  if (date.qualifier === "BETWEEN" && end) {
+    value = `between ${start} and ${end}`;
+  } else if (date.qualifier === "FROM_TO" && end) {
+    value = `from ${start} to ${end}`;
+  } else if (date.qualifier === "INTERPRETED" && date.phrase) {
+    value = `${start} (${date.phrase})`;
+  } else {
+    const label = QUALIFIER_LABEL[date.qualifier];
+    value = label ? `${label} ${start}` : start;
+  }
+
+  const calendarLabel = CALENDAR_LABEL[date.calendar];
+  return calendarLabel ? `${value} (${calendarLabel})` : value;
+}
+
+/**
+ * Check whether a qualifier describes a range (needs an end date)
+ */
+export function isRangeQualifier(qualifier: DateQualifier): boolean {
+  return RANGE_QUALIFIERS.includes(qualifier);
+}
+
+/**
+ * Values for a date column and its detail column
+ *
+ * A detail wins and supplies the sort value; a plain date on its own is
+ * exact, so any previous detail is cleared.
+ *
+ * @param date - Exact date, if given
+ * @param detail - Genealogical date, if given
+ * @returns Sortable date and detail to store
+ */
+export function resolveDateColumns(
+  date: Date | null | undefined,
+  detail: GenealogicalDate | null | undefined
+): { date: Date | null; detail: GenealogicalDate | null } {
+  if (detail) {
+    return { date: getGenealogicalSortDate(detail), detail };
+  }
+  return { date: date ?? null, detail: null };
+}
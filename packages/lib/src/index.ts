@@ -8,6 +8,30 @@ export {
   toDateOnly,
 } from "./date";
 
+// Genealogical (approximate, ranged, partial) dates
+export {
+  DATE_QUALIFIERS,
+  DATE_PRECISIONS,
+  DATE_CALENDARS,
+  type DateQualifier,
+  type DatePrecision,
+  type DateCalendar,
+  type DatePart,
+  type GenealogicalDate,
+  parseGenealogicalDate,
+  genealogicalDateFromDate,
+  isGenealogicalDate,
+  toGenealogicalDate,
+  isApproximateDate,
+  isRangeQualifier,
+  getGenealogicalDateBounds,
+  getGenealogicalSortDate,
+  getGenealogicalEstimate,
+  formatGedcomDate,
+  formatGenealogicalDate,
+  resolveDateColumns,
+} from "./genealogical-date";
+
 // General utilities
 export { generateRandomPassword, getInitials } from "./utils";
 
@@ -43,20 +67,26 @@ export * from "./backup/index";
 // Relationship utilities
 export {
   type RelationshipType,
+  type ParentPedigree,
   type Gender,
   type RelationshipCategory,
   type InLawCreationPlan,
   BLOOD_RELATIONSHIPS,
   MARRIAGE_RELATIONSHIPS,
+  PARTNERSHIP_RELATIONSHIPS,
   INLAW_RELATIONSHIPS,
   STEP_RELATIONSHIPS,
+  GODPARENT_RELATIONSHIPS,
   ALL_RELATIONSHIP_TYPES,
+  ALL_PARENT_PEDIGREES,
   isBloodRelationship,
   isInlawRelationship,
   isStepRelationship,
+  isCoupleRelationship,
   isDerivedRelationship,
   getRelationshipCategory,
   getRelationshipLabel,
+  getPedigreeLabel,
   getInverseRelationship,
   RELATIONSHIP_TYPE_OPTIONS,
   getRelationshipOptions,
@@ -64,7 +94,16 @@ export {
 } from "./relationships";
 
 // Search Engine abstraction
-export { type SearchEngine, type SearchPersonRow } from "./search-engine";
+export {
+  type SearchEngine,
+  type SearchPersonRow,
+  type SearchEntityRow,
+  type SearchEntityType,
+  type EntitySearchConfig,
+  type EntitySearchResults,
+  SEARCH_ENTITY_TYPES,
+  emptySearchFacets,
+} from "./search-engine";
 
 // PostgreSQL Full-Text Search utilities
 export {
@@ -77,6 +116,8 @@ export {
   buildPersonSearchCountQuery,
   buildFuzzyPersonSearchQuery,
   buildCombinedSearchQuery,
+  buildEntitySearchQuery,
+  buildEntitySearchCountQuery,
   SEARCH_FIELD_WEIGHTS,
   CREATE_TRGM_EXTENSION_SQL,
   CREATE_PERSON_SEARCH_INDEX_SQL,
@@ -92,6 +133,7 @@ export {
   type SearchResult as NLPSearchResult,
   type RelationshipDataMaps,
 } from "./search/index";
+export { pedigreeKey } from "./relationships/path-finder";
 
 // Profile claiming utilities for OIDC users
 export {
@@ -109,6 +151,34 @@ export {
   shouldShowClaimModal,
 } from "./profile-claim";
 
+// Duplicate person detection
+export {
+  type DuplicateCheckPerson,
+  type DuplicateScore,
+  type DuplicateMatch,
+  DEFAULT_DUPLICATE_MIN_SCORE,
+  trigrams,
+  trigramSimilarity,
+  scoreDuplicatePair,
+  findDuplicateCandidates,
+} from "./duplicates";
+
+// Data consistency checks
+export {
+  type ConsistencySeverity,
+  type ConsistencyRule,
+  type ConsistencyThresholds,
+  type ConsistencyPerson,
+  type ConsistencyRelationship,
+  type ConsistencyEvent,
+  type ConsistencyData,
+  type ConsistencyIssue,
+  type ConsistencyCheckOptions,
+  CONSISTENCY_RULE_SEVERITY,
+  DEFAULT_CONSISTENCY_THRESHOLDS,
+  checkConsistency,
+} from "./consistency";
+
 // Chart utilities (platform-agnostic)
 export * from "./charts";
 
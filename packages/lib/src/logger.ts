@@ -400,6 +400,8 @@ export const loggers = {
   jobs: createLogger("jobs"),
   /** Email and notifications */
   email: createLogger("email"),
+  /** Push notification delivery */
+  push: createLogger("push"),
   /** File and media operations */
   media: createLogger("media"),
   /** Seed and migration scripts */
@@ -0,0 +1,365 @@
+/**
+ * Unit tests for document and recording file information
+ *
+ * Tests cover:
+ * - readPdfPageCount: Page tree counts and page objects
+ * - readPdfText: Text shown by plain and compressed content streams
+ * - readMediaDuration: WAV, FLAC, Ogg, MP4, WebM and MP3 lengths
+ */
+
+import { deflateSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { readMediaDuration, readPdfPageCount, readPdfText } from "./file-info";
+
+/**
+ * Build a PDF with the given number of pages in one page tree
+ */
+function buildPdf(pages: number): Buffer {
+  const kids = Array.from({ length: pages }, (_, i) => `${i + 3} 0 R`);
+  const objects = [
+    "1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj",
+    `2 0 obj\n<< /Type /Pages /Kids [${kids.join(" ")}] /Count ${pages} >>\nendobj`,
+    ...kids.map(
+      (_, i) =>
+        `${i + 3} 0 obj\n<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] >>\nendobj`
+    ),
+  ];
+  return Buffer.from(`%PDF-1.4\n${objects.join("\n")}\n%%EOF`, "latin1");
+}
+
+/**
+ * Build a PDF whose objects are the given streams, each with its own
+ * dictionary entries
+ */
+function buildPdfWithStreams(
+  streams: Array<{ content: Buffer | string; dictionary?: string }>
+): Buffer {
+  const parts: Array<Buffer> = [Buffer.from("%PDF-1.4\n", "latin1")];
+  streams.forEach(({ content, dictionary = "" }, i) => {
+    const data =
+      typeof content === "string" ? Buffer.from(content, "latin1") : content;
+    parts.push(
+      Buffer.from(
+        `${i + 1} 0 obj\n<< /Length ${data.length} ${dictionary} >>\nstream\n`,
+        "latin1"
+      ),
+      data,
+      Buffer.from("\nendstream\nendobj\n", "latin1")
+    );
+  });
+  parts.push(Buffer.from("%%EOF", "latin1"));
+  return Buffer.concat(parts);
+}
+
+/**
+ * Build a PCM WAV file
+ */
+function buildWav(seconds: number, sampleRate = 8000): Buffer {
+  const byteRate = sampleRate * 2;
+  const dataSize = Math.round(seconds * byteRate);
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0, "latin1");
+  header.writeUInt32LE(36 + dataSize, 4);
+  header.write("WAVE", 8, "latin1");
+  header.write("fmt ", 12, "latin1");
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // Mono
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(byteRate, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write("data", 36, "latin1");
+  header.writeUInt32LE(dataSize, 40);
+  return Buffer.concat([header, Buffer.alloc(dataSize)]);
+}
+
+/**
+ * Build an MP4 box
+ */
+function box(type: string, ...children: Array<Buffer>): Buffer {
+  const body = Buffer.concat(children);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(8 + body.length, 0);
+  header.write(type, 4, "latin1");
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * Build a version 0 movie header box
+ */
+function mvhd(timescale: number, duration: number): Buffer {
+  const body = Buffer.alloc(100);
+  body.writeUInt32BE(timescale, 12);
+  body.writeUInt32BE(duration, 16);
+  return box("mvhd", body);
+}
+
+/**
+ * Build an EBML element with a one-byte size
+ */
+function ebml(id: Array<number>, data: Buffer): Buffer {
+  return Buffer.concat([
+    Buffer.from(id),
+    Buffer.from([0x80 | data.length]),
+    data,
+  ]);
+}
+
+/**
+ * Build an Ogg page holding one packet
+ */
+function oggPage(granule: bigint, packet: Buffer): Buffer {
+  const header = Buffer.alloc(28);
+  header.write("OggS", 0, "latin1");
+  header.writeBigInt64LE(granule, 6);
+  header[26] = 1;
+  header[27] = packet.length;
+  return Buffer.concat([header, packet]);
+}
+
+/**
+ * Build an MPEG-1 Layer III frame header (128 kbps, 44.1 kHz, stereo)
+ */
+function mp3FrameHeader(): Buffer {
+  return Buffer.from([0xff, 0xfb, 0x90, 0x00]);
+}
+
+describe("File information", () => {
+  describe("readPdfPageCount", () => {
+    it("should read the page tree count", () => {
+      expect(readPdfPageCount(buildPdf(3))).toBe(3);
+    });
+
+    it("should use the largest count when page trees are nested", () => {
+      const pdf = Buffer.from(
+        [
+          "%PDF-1.4",
+          "1 0 obj\n<< /Type /Pages /Kids [2 0 R 3 0 R] /Count 12 >>\nendobj",
+          "2 0 obj\n<< /Type /Pages /Parent 1 0 R /Count 5 >>\nendobj",
+          "3 0 obj\n<< /Type /Pages /Parent 1 0 R /Count 7 >>\nendobj",
+        ].join("\n"),
+        "latin1"
+      );
+
+      expect(readPdfPageCount(pdf)).toBe(12);
+    });
+
+    it("should count page objects when there is no page tree count", () => {
+      const pdf = Buffer.from(
+        "%PDF-1.4\n<< /Type /Page >>\n<< /Type/Page >>\n%%EOF",
+        "latin1"
+      );
+
+      expect(readPdfPageCount(pdf)).toBe(2);
+    });
+
+    it("should return null for files that are not PDFs", () => {
+      expect(readPdfPageCount(Buffer.from("hello world"))).toBeNull();
+    });
+  });
+
+  describe("readPdfText", () => {
+    it("should read text shown line by line", () => {
+      const pdf = buildPdfWithStreams([
+        {
+          content: [
+            "BT /F1 12 Tf 72 720 Td",
+            "(CERTIFICATE OF BIRTH) Tj",
+            "0 -14 Td (Name: Hari Prasad) Tj",
+            "T* [(Born) -250 (3 March) -300 (1850)] TJ",
+            "(Father: Ram \\(Weaver\\)) '",
+            "ET",
+          ].join("\n"),
+        },
+      ]);
+
+      expect(readPdfText(pdf)).toBe(
+        "CERTIFICATE OF BIRTH\nName: Hari Prasad\nBorn 3 March 1850\nFather: Ram (Weaver)"
+      );
+    });
+
+    it("should inflate compressed streams and decode escapes", () => {
+      const pdf = buildPdfWithStreams([
+        {
+          content: deflateSync(
+            Buffer.from(
+              "BT <50617269736820> Tj 40 0 Td (Varan\\141si) Tj ET",
+              "latin1"
+            )
+          ),
+          dictionary: "/Filter /FlateDecode",
+        },
+      ]);
+
+      expect(readPdfText(pdf)).toBe("Parish Varanasi");
+    });
+
+    it("should keep pages apart and skip images and fonts", () => {
+      const pdf = buildPdfWithStreams([
+        { content: "BT (Page one) Tj ET" },
+        {
+          content: "BT (not text) Tj ET",
+          dictionary: "/Type /XObject /Subtype /Image",
+        },
+        { content: "BT (glyphs) Tj ET", dictionary: "/Length1 100" },
+        { content: "BT (Page two) Tj ET" },
+      ]);
+
+      expect(readPdfText(pdf)).toBe("Page one\n\nPage two");
+    });
+
+    it("should return null for scanned documents without text", () => {
+      const pdf = buildPdfWithStreams([
+        {
+          content: Buffer.from([0xff, 0xd8, 0xff, 0xe0]),
+          dictionary: "/Subtype /Image /Filter /DCTDecode",
+        },
+        { content: "q 612 0 0 792 0 0 cm /Im1 Do Q" },
+      ]);
+
+      expect(readPdfText(pdf)).toBeNull();
+      expect(readPdfText(buildPdf(1))).toBeNull();
+    });
+
+    it("should return null for text it can't decode", () => {
+      const pdf = buildPdfWithStreams([
+        { content: "BT <0012003a00440051> Tj ET" },
+      ]);
+
+      expect(readPdfText(pdf)).toBeNull();
+    });
+
+    it("should skip streams that fail to inflate", () => {
+      const pdf = buildPdfWithStreams([
+        { content: "not deflated", dictionary: "/Filter /FlateDecode" },
+        { content: "BT (Readable) Tj ET" },
+      ]);
+
+      expect(readPdfText(pdf)).toBe("Readable");
+    });
+
+    it("should return null for files that are not PDFs", () => {
+      expect(readPdfText(Buffer.from("hello world"))).toBeNull();
+    });
+  });
+
+  describe("readMediaDuration", () => {
+    it("should read the length of a WAV file", () => {
+      expect(readMediaDuration(buildWav(1.5))).toBeCloseTo(1.5);
+    });
+
+    it("should read the length of a FLAC file", () => {
+      const flac = Buffer.alloc(42);
+      flac.write("fLaC", 0, "latin1");
+      flac[4] = 0x80; // Last block, STREAMINFO
+      flac[7] = 34;
+      // 44100 Hz in 20 bits, then 441000 total samples
+      flac[18] = 0x0a;
+      flac[19] = 0xc4;
+      flac[20] = 0x40;
+      flac.writeUInt32BE(441000, 22);
+
+      expect(readMediaDuration(flac)).toBeCloseTo(10);
+    });
+
+    it("should read the length of an Ogg Vorbis file", () => {
+      const identification = Buffer.alloc(30);
+      identification[0] = 1;
+      identification.write("vorbis", 1, "latin1");
+      identification.writeUInt32LE(44100, 12);
+      const ogg = Buffer.concat([
+        oggPage(0n, identification),
+        oggPage(44100n * 65n, Buffer.alloc(10)),
+      ]);
+
+      expect(readMediaDuration(ogg)).toBeCloseTo(65);
+    });
+
+    it("should subtract the pre-skip of an Ogg Opus file", () => {
+      const head = Buffer.alloc(19);
+      head.write("OpusHead", 0, "latin1");
+      head.writeUInt16LE(312, 10);
+      const ogg = Buffer.concat([
+        oggPage(0n, head),
+        oggPage(48000n * 4n + 312n, Buffer.alloc(10)),
+      ]);
+
+      expect(readMediaDuration(ogg)).toBeCloseTo(4);
+    });
+
+    it("should read the length of an MP4 file", () => {
+      const mp4 = Buffer.concat([
+        box("ftyp", Buffer.from("isom\0\0\0\0", "latin1")),
+        box("moov", mvhd(1000, 95_500)),
+      ]);
+
+      expect(readMediaDuration(mp4)).toBeCloseTo(95.5);
+    });
+
+    it("should find the movie header after the media data", () => {
+      const mp4 = Buffer.concat([
+        box("ftyp", Buffer.from("M4A \0\0\0\0", "latin1")),
+        box("mdat", Buffer.alloc(64)),
+        box("moov", box("trak"), mvhd(44100, 44100 * 30)),
+      ]);
+
+      expect(readMediaDuration(mp4)).toBeCloseTo(30);
+    });
+
+    it("should read the length of a WebM file", () => {
+      const duration = Buffer.alloc(8);
+      duration.writeDoubleBE(12_345, 0);
+      const info = ebml(
+        [0x15, 0x49, 0xa9, 0x66],
+        Buffer.concat([
+          ebml([0x2a, 0xd7, 0xb1], Buffer.from([0x0f, 0x42, 0x40])),
+          ebml([0x44, 0x89], duration),
+        ])
+      );
+      const webm = Buffer.concat([
+        ebml([0x1a, 0x45, 0xdf, 0xa3], Buffer.from("webm", "latin1")),
+        // Segment of unknown size, as written while recording
+        Buffer.from([0x18, 0x53, 0x80, 0x67, 0x01, 0xff, 0xff, 0xff]),
+        Buffer.from([0xff, 0xff, 0xff, 0xff]),
+        info,
+      ]);
+
+      expect(readMediaDuration(webm)).toBeCloseTo(12.345);
+    });
+
+    it("should estimate the length of a constant bitrate MP3 file", () => {
+      // 128 kbps is 16000 bytes a second
+      const mp3 = Buffer.concat([mp3FrameHeader(), Buffer.alloc(31_996)]);
+
+      expect(readMediaDuration(mp3)).toBeCloseTo(2);
+    });
+
+    it("should skip an ID3 tag before the first MP3 frame", () => {
+      const id3 = Buffer.alloc(20);
+      id3.write("ID3", 0, "latin1");
+      id3[9] = 10;
+      const mp3 = Buffer.concat([id3, mp3FrameHeader(), Buffer.alloc(15_996)]);
+
+      expect(readMediaDuration(mp3)).toBeCloseTo(1);
+    });
+
+    it("should count the frames of a VBR MP3 file", () => {
+      const frame = Buffer.alloc(417);
+      mp3FrameHeader().copy(frame, 0);
+      // Xing header after 32 bytes of stereo side information
+      frame.write("Xing", 36, "latin1");
+      frame.writeUInt32BE(0x1, 40);
+      frame.writeUInt32BE(3828, 44);
+
+      // 3828 frames of 1152 samples at 44.1 kHz
+      expect(readMediaDuration(frame)).toBeCloseTo(100, 0);
+    });
+
+    it("should return null for unknown or truncated files", () => {
+      expect(readMediaDuration(Buffer.from("not audio at all"))).toBeNull();
+      expect(readMediaDuration(buildWav(1).subarray(0, 20))).toBeNull();
+      expect(readMediaDuration(Buffer.alloc(0))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,598 @@
+/**
+ * Page counts and text of PDF documents, and lengths of audio and video
+ * recordings
+ *
+ * Read straight from the file structure, so they work without sharp or
+ * ffmpeg. Each reader returns null for files it does not understand.
+ */
+
+import { inflateSync } from "node:zlib";
+
+/**
+ * Number of pages of a PDF document
+ *
+ * Uses the page tree root's /Count, falling back to counting page objects.
+ * Documents that keep their objects in compressed object streams hide
+ * both, and return null.
+ */
+export function readPdfPageCount(buffer: Buffer): number | null {
+  if (buffer.subarray(0, 5).toString("latin1") !== "%PDF-") return null;
+
+  const text = buffer.toString("latin1");
+  let rootCount = 0;
+  for (const match of text.matchAll(/\bobj\b([\s\S]*?)\bendobj\b/g)) {
+    const body = match[1] ?? "";
+    if (!/\/Type\s*\/Pages\b/.test(body)) continue;
+    const count = /\/Count\s+(\d+)/.exec(body);
+    if (count) rootCount = Math.max(rootCount, Number(count[1]));
+  }
+  if (rootCount > 0) return rootCount;
+
+  const pages = text.match(/\/Type\s*\/Page(?![a-zA-Z])/g)?.length ?? 0;
+  return pages > 0 ? pages : null;
+}
+
+// ============================================
+// PDF text
+// ============================================
+
+// Streams that hold images, fonts or cross-reference data, never text
+const PDF_NON_TEXT_STREAM =
+  /\/Subtype\s*\/(Image|Form|Type1C|CIDFontType0C|OpenType)\b|\/Type\s*\/(XRef|ObjStm|Metadata|EmbeddedFile)\b|\/Length[123]\b/;
+
+// Text-positioning gaps, in thousandths of an em, wide enough to be a space
+const PDF_WORD_GAP = 200;
+
+/**
+ * Text of a PDF document's text layer, page by page
+ *
+ * Reads the text shown by each content stream, inflating Flate-compressed
+ * streams. Returns null for scanned documents without a text layer, and
+ * for fonts whose text can't be read without their encoding (most
+ * subset CID fonts), so callers can fall back to reading the page image.
+ */
+export function readPdfText(buffer: Buffer): string | null {
+  if (buffer.subarray(0, 5).toString("latin1") !== "%PDF-") return null;
+
+  const text = buffer.toString("latin1");
+  const pages: Array<string> = [];
+
+  const streams = /\bstream\r?\n/g;
+  let match: RegExpExecArray | null;
+  while ((match = streams.exec(text))) {
+    // The stream's dictionary is the rest of its object
+    const keyword = match.index;
+    const dictionary = text.slice(text.lastIndexOf(" obj", keyword), keyword);
+    const start = keyword + match[0].length;
+    const length = /\/Length\s+(\d+)(?!\s+\d+\s+R)/.exec(dictionary);
+    const end = length
+      ? start + Number(length[1])
+      : text.indexOf("endstream", start);
+    if (end < start || end > buffer.length) continue;
+    // Don't look for keywords inside the stream's data
+    streams.lastIndex = end;
+
+    const filter = /\/Filter\s*\[?\s*\/(\w+)/.exec(dictionary)?.[1];
+    if (PDF_NON_TEXT_STREAM.test(dictionary)) continue;
+    if (filter && filter !== "FlateDecode") continue;
+
+    let content = buffer.subarray(start, end);
+    if (filter) {
+      try {
+        content = inflateSync(content);
+      } catch {
+        continue;
+      }
+    }
+
+    const shown = readContentStreamText(content.toString("latin1"));
+    if (shown) pages.push(shown);
+  }
+
+  const joined = pages.join("\n\n").trim();
+  if (!joined || !isReadableText(joined)) return null;
+  // Drop the odd ligature or symbol of a font without a Unicode map
+  return Array.from(joined)
+    .filter((char) => !isControlCharacter(char.charCodeAt(0)))
+    .join("");
+}
+
+/** Control characters other than tab, line feed and carriage return */
+function isControlCharacter(code: number): boolean {
+  return (
+    (code < 0x20 && code !== 0x09 && code !== 0x0a && code !== 0x0d) ||
+    code === 0x7f
+  );
+}
+
+/**
+ * Text shown by the text operators of one content stream
+ */
+function readContentStreamText(content: string): string {
+  if (!/\bBT\b/.test(content)) return "";
+
+  let out = "";
+  let operands: Array<string | number | Array<string | number>> = [];
+  let array: Array<string | number> | null = null;
+  const newLine = () => {
+    if (out && !out.endsWith("\n")) out += "\n";
+  };
+  const push = (operand: string | number) => {
+    if (array) array.push(operand);
+    else operands.push(operand);
+  };
+
+  let i = 0;
+  while (i < content.length) {
+    const char = content[i];
+
+    if (char === "(") {
+      const literal = readLiteralString(content, i);
+      push(literal.value);
+      i = literal.end;
+    } else if (char === "<" && content[i + 1] !== "<") {
+      const end = content.indexOf(">", i);
+      if (end === -1) break;
+      const hex = content.slice(i + 1, end).replace(/[^0-9a-fA-F]/g, "");
+      push(
+        Buffer.from(
+          hex.padEnd(hex.length + (hex.length % 2), "0"),
+          "hex"
+        ).toString("latin1")
+      );
+      i = end + 1;
+    } else if (char === "[") {
+      array = [];
+      i++;
+    } else if (char === "]") {
+      if (array) operands.push(array);
+      array = null;
+      i++;
+    } else if (char === "%") {
+      // Comment to the end of the line
+      i = tokenEnd(content, i, /[\r\n]/);
+    } else if (char === "/") {
+      // Names (fonts, resources) don't show text
+      i = tokenEnd(content, i + 1, PDF_DELIMITER);
+    } else if (/[\s<>{}]/.test(char)) {
+      i++;
+    } else {
+      const end = tokenEnd(content, i, PDF_DELIMITER);
+      const token = content.slice(i, end);
+      i = end;
+
+      if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+        push(Number(token));
+        continue;
+      }
+
+      switch (token) {
+        case "Tj":
+          out += strings(operands);
+          break;
+        case "'":
+        case '"':
+          newLine();
+          out += strings(operands);
+          break;
+        case "TJ":
+          for (const part of operands.flat()) {
+            if (typeof part === "string") out += part;
+            else if (part < -PDF_WORD_GAP && !out.endsWith(" ")) out += " ";
+          }
+          break;
+        case "Td":
+        case "TD": {
+          // A move along the same line only separates words
+          const dy = operands[operands.length - 1];
+          if (dy === 0) {
+            if (!/\s$/.test(out)) out += " ";
+          } else {
+            newLine();
+          }
+          break;
+        }
+        case "T*":
+        case "Tm":
+        case "ET":
+          newLine();
+          break;
+      }
+      operands = [];
+    }
+  }
+
+  return out
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+const PDF_DELIMITER = /[\s()<>[\]{}/%]/;
+
+/**
+ * Index of the first character from `start` matching `stop`, or the end
+ */
+function tokenEnd(content: string, start: number, stop: RegExp): number {
+  let i = start;
+  while (i < content.length && !stop.test(content[i])) i++;
+  return i;
+}
+
+function strings(operands: Array<unknown>): string {
+  return operands.filter((operand) => typeof operand === "string").join("");
+}
+
+const PDF_ESCAPES: Record<string, string> = {
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  b: "\b",
+  f: "\f",
+};
+
+/**
+ * A literal string starting at an opening parenthesis, which may hold
+ * balanced parentheses and backslash escapes
+ */
+function readLiteralString(
+  content: string,
+  start: number
+): { value: string; end: number } {
+  let value = "";
+  let depth = 0;
+  let i = start;
+
+  while (i < content.length) {
+    const char = content[i];
+    if (char === "\\") {
+      const next = content[i + 1] ?? "";
+      const octal = /^[0-7]{1,3}/.exec(content.slice(i + 1, i + 4));
+      if (octal) {
+        value += String.fromCharCode(parseInt(octal[0], 8) & 0xff);
+        i += 1 + octal[0].length;
+        continue;
+      }
+      // A backslash before a line break continues the string
+      if (next === "\r" || next === "\n") {
+        i += content[i + 2] === "\n" && next === "\r" ? 3 : 2;
+        continue;
+      }
+      value += PDF_ESCAPES[next] ?? next;
+      i += 2;
+      continue;
+    }
+    if (char === "(") {
+      if (depth > 0) value += char;
+      depth++;
+    } else if (char === ")") {
+      depth--;
+      if (depth === 0) return { value, end: i + 1 };
+      value += char;
+    } else {
+      value += char;
+    }
+    i++;
+  }
+  return { value, end: i };
+}
+
+/**
+ * Whether text is mostly letters, digits, punctuation and spaces, rather
+ * than glyph IDs of a font the reader couldn't decode
+ */
+function isReadableText(text: string): boolean {
+  const letters = text.match(/[A-Za-z\u00C0-\u00FF]/g)?.length ?? 0;
+  const readable = text.match(/[\x20-\x7E\u00A0-\u00FF\n\t]/g)?.length ?? 0;
+  return letters >= 3 && readable / text.length >= 0.9;
+}
+
+/**
+ * Length of an audio or video recording in seconds
+ *
+ * Understands MP4 and QuickTime (including M4A), WebM and Matroska, MP3,
+ * WAV, FLAC, and Ogg Vorbis and Opus.
+ */
+export function readMediaDuration(buffer: Buffer): number | null {
+  try {
+    const duration = readDurationByFormat(buffer);
+    return duration !== null && Number.isFinite(duration) && duration > 0
+      ? duration
+      : null;
+  } catch {
+    // Truncated or malformed file
+    return null;
+  }
+}
+
+// Boxes an MP4 or QuickTime file can start with; older QuickTime files
+// have no "ftyp"
+const MP4_FIRST_BOXES = new Set(["ftyp", "moov", "mdat", "wide", "free"]);
+
+function readDurationByFormat(buffer: Buffer): number | null {
+  const magic = buffer.subarray(0, 4).toString("latin1");
+  if (magic === "RIFF") return readWavDuration(buffer);
+  if (magic === "fLaC") return readFlacDuration(buffer);
+  if (magic === "OggS") return readOggDuration(buffer);
+  if (buffer.readUInt32BE(0) === 0x1a45dfa3) {
+    return readMatroskaDuration(buffer);
+  }
+  if (MP4_FIRST_BOXES.has(buffer.subarray(4, 8).toString("latin1"))) {
+    return readMp4Duration(buffer);
+  }
+  return readMp3Duration(buffer);
+}
+
+// ============================================
+// WAV
+// ============================================
+
+function readWavDuration(buffer: Buffer): number | null {
+  if (buffer.subarray(8, 12).toString("latin1") !== "WAVE") return null;
+
+  let byteRate = 0;
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.subarray(offset, offset + 4).toString("latin1");
+    const size = buffer.readUInt32LE(offset + 4);
+    if (id === "fmt ") {
+      byteRate = buffer.readUInt32LE(offset + 16);
+    } else if (id === "data") {
+      // Recorders that stream may leave the size unset
+      const dataSize = Math.min(size, buffer.length - offset - 8);
+      return byteRate > 0 ? dataSize / byteRate : null;
+    }
+    // Chunks are padded to an even length
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+// ============================================
+// FLAC
+// ============================================
+
+function readFlacDuration(buffer: Buffer): number | null {
+  // STREAMINFO is always the first metadata block
+  if ((buffer[4] & 0x7f) !== 0) return null;
+
+  const info = 8;
+  const sampleRate =
+    (buffer[info + 10] << 12) |
+    (buffer[info + 11] << 4) |
+    (buffer[info + 12] >> 4);
+  const totalSamples =
+    (buffer[info + 13] & 0x0f) * 2 ** 32 + buffer.readUInt32BE(info + 14);
+  return sampleRate > 0 ? totalSamples / sampleRate : null;
+}
+
+// ============================================
+// Ogg
+// ============================================
+
+function readOggDuration(buffer: Buffer): number | null {
+  // The first page holds the codec's identification header
+  const segments = buffer[26];
+  const packet = buffer.subarray(27 + segments);
+
+  let sampleRate: number;
+  let preSkip = 0;
+  if (packet.subarray(1, 7).toString("latin1") === "vorbis") {
+    sampleRate = packet.readUInt32LE(12);
+  } else if (packet.subarray(0, 8).toString("latin1") === "OpusHead") {
+    // Opus positions always count 48 kHz samples
+    sampleRate = 48000;
+    preSkip = packet.readUInt16LE(10);
+  } else {
+    return null;
+  }
+
+  // The last page's granule position is the number of samples
+  const lastPage = buffer.lastIndexOf("OggS");
+  if (lastPage < 0 || lastPage + 14 > buffer.length) return null;
+  const granule = Number(buffer.readBigInt64LE(lastPage + 6));
+  return sampleRate > 0 ? (granule - preSkip) / sampleRate : null;
+}
+
+// ============================================
+// MP4 and QuickTime
+// ============================================
+
+/**
+ * Find a box among the boxes between start and end
+ */
+function findMp4Box(
+  buffer: Buffer,
+  type: string,
+  start: number,
+  end: number
+): { start: number; end: number } | null {
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    let header = 8;
+    if (size === 1) {
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      // Box runs to the end of its parent
+      size = end - offset;
+    }
+    if (size < header) return null;
+
+    if (buffer.subarray(offset + 4, offset + 8).toString("latin1") === type) {
+      return { start: offset + header, end: Math.min(offset + size, end) };
+    }
+    offset += size;
+  }
+  return null;
+}
+
+function readMp4Duration(buffer: Buffer): number | null {
+  const moov = findMp4Box(buffer, "moov", 0, buffer.length);
+  if (!moov) return null;
+  const mvhd = findMp4Box(buffer, "mvhd", moov.start, moov.end);
+  if (!mvhd) return null;
+
+  // Version 1 uses 64-bit creation and modification times and duration
+  const version = buffer[mvhd.start];
+  const timescale =
+    version === 1
+      ? buffer.readUInt32BE(mvhd.start + 20)
+      : buffer.readUInt32BE(mvhd.start + 12);
+  const duration =
+    version === 1
+      ? Number(buffer.readBigUInt64BE(mvhd.start + 24))
+      : buffer.readUInt32BE(mvhd.start + 16);
+  return timescale > 0 ? duration / timescale : null;
+}
+
+// ============================================
+// WebM and Matroska
+// ============================================
+
+const EBML_SEGMENT = 0x18538067;
+const EBML_INFO = 0x1549a966;
+const EBML_TIMESTAMP_SCALE = 0x2ad7b1;
+const EBML_DURATION = 0x4489;
+
+/**
+ * Read an EBML variable-length integer. IDs keep their length marker;
+ * sizes drop it, and a size of all ones means "unknown".
+ */
+function readVint(
+  buffer: Buffer,
+  offset: number,
+  keepMarker: boolean
+): { value: number; length: number; unknown: boolean } {
+  const first = buffer[offset];
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+  if (length > 8) throw new Error("Invalid EBML integer");
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    const byte = buffer[offset + i];
+    value = value * 256 + byte;
+    allOnes = allOnes && byte === 0xff;
+  }
+  return { value, length, unknown: !keepMarker && allOnes };
+}
+
+function readMatroskaDuration(buffer: Buffer): number | null {
+  let offset = 0;
+  let end = buffer.length;
+  let timestampScale = 1_000_000;
+
+  while (offset < end) {
+    const id = readVint(buffer, offset, true);
+    const size = readVint(buffer, offset + id.length, false);
+    const dataStart = offset + id.length + size.length;
+    const dataEnd = size.unknown ? end : dataStart + size.value;
+
+    if (id.value === EBML_SEGMENT || id.value === EBML_INFO) {
+      // Descend into the element
+      offset = dataStart;
+      end = Math.min(dataEnd, buffer.length);
+      continue;
+    }
+    if (id.value === EBML_TIMESTAMP_SCALE) {
+      timestampScale = buffer.readUIntBE(dataStart, size.value);
+    } else if (id.value === EBML_DURATION) {
+      // A float in timestamp units
+      const duration =
+        size.value === 4
+          ? buffer.readFloatBE(dataStart)
+          : buffer.readDoubleBE(dataStart);
+      return (duration * timestampScale) / 1e9;
+    }
+    if (size.unknown) return null;
+    offset = dataEnd;
+  }
+  return null;
+}
+
+// ============================================
+// MP3
+// ============================================
+
+// Bitrates in kbps by [MPEG-1, MPEG-2 and 2.5][layer I, II, III]
+const MP3_BITRATES = [
+  [
+    [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  ],
+  [
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  ],
+];
+
+const MP3_SAMPLE_RATES = [44100, 48000, 32000];
+
+function readMp3Duration(buffer: Buffer): number | null {
+  // Skip an ID3v2 tag, whose size is stored as a syncsafe integer
+  let offset = 0;
+  if (buffer.subarray(0, 3).toString("latin1") === "ID3") {
+    offset =
+      10 +
+      ((buffer[6] & 0x7f) << 21) +
+      ((buffer[7] & 0x7f) << 14) +
+      ((buffer[8] & 0x7f) << 7) +
+      (buffer[9] & 0x7f);
+  }
+
+  // Find the first frame header
+  const searchEnd = Math.min(buffer.length - 4, offset + 64 * 1024);
+  while (
+    offset < searchEnd &&
+    !(buffer[offset] === 0xff && (buffer[offset + 1] & 0xe0) === 0xe0)
+  ) {
+    offset++;
+  }
+  if (offset >= searchEnd) return null;
+
+  const header = buffer.readUInt32BE(offset);
+  const versionBits = (header >> 19) & 0x3; // 0: 2.5, 2: MPEG-2, 3: MPEG-1
+  const layerBits = (header >> 17) & 0x3; // 1: III, 2: II, 3: I
+  const bitrateIndex = (header >> 12) & 0xf;
+  const sampleRateIndex = (header >> 10) & 0x3;
+  const mono = ((header >> 6) & 0x3) === 3;
+  if (versionBits === 1 || layerBits === 0 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const mpeg1 = versionBits === 3;
+  const layer = 3 - layerBits; // 0: I, 1: II, 2: III
+  const sampleRate =
+    MP3_SAMPLE_RATES[sampleRateIndex] / (mpeg1 ? 1 : versionBits === 2 ? 2 : 4);
+  const samplesPerFrame =
+    layer === 0 ? 384 : layer === 2 && !mpeg1 ? 576 : 1152;
+
+  // VBR files count their frames in a Xing, Info or VBRI header
+  const sideInfo = mpeg1 ? (mono ? 17 : 32) : mono ? 9 : 17;
+  const xing = offset + 4 + sideInfo;
+  const xingId = buffer.subarray(xing, xing + 4).toString("latin1");
+  if ((xingId === "Xing" || xingId === "Info") && buffer[xing + 7] & 0x1) {
+    return (buffer.readUInt32BE(xing + 8) * samplesPerFrame) / sampleRate;
+  }
+  const vbri = offset + 36;
+  if (buffer.subarray(vbri, vbri + 4).toString("latin1") === "VBRI") {
+    return (buffer.readUInt32BE(vbri + 14) * samplesPerFrame) / sampleRate;
+  }
+
+  // Constant bitrate: the audio size gives the length
+  const bitrate = MP3_BITRATES[mpeg1 ? 0 : 1][layer][bitrateIndex];
+  if (!bitrate) return null;
+  const hasId3v1 =
+    buffer.length >= 128 &&
+    buffer
+      .subarray(buffer.length - 128, buffer.length - 125)
+      .toString("latin1") === "TAG";
+  const audioBytes = buffer.length - offset - (hasId3v1 ? 128 : 0);
+  return (audioBytes * 8) / (bitrate * 1000);
+}
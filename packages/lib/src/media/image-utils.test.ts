@@ -6,12 +6,14 @@
  * - selectImageSource: Image source selection
  * - selectAvatarSource: Avatar fallback chain
  * - calculateInitials: Name to initials conversion
+ * - regionToPixels: Normalized region to pixel rectangle
  */
 
 import { describe, expect, it } from "vitest";
 import {
   buildSrcSet,
   calculateInitials,
+  regionToPixels,
   selectAvatarSource,
   selectImageSource,
 } from "./image-utils";
@@ -220,4 +222,49 @@ describe("Image Utilities", () => {
       expect(result).toBe("JD");
     });
   });
+
+  describe("regionToPixels", () => {
+    it("should scale the region to the image size", () => {
+      const result = regionToPixels(
+        { x: 0.25, y: 0.5, width: 0.5, height: 0.25 },
+        800,
+        400
+      );
+
+      expect(result).toEqual({ left: 200, top: 200, width: 400, height: 100 });
+    });
+
+    it("should round to whole pixels", () => {
+      const result = regionToPixels(
+        { x: 0.333, y: 0.333, width: 0.333, height: 0.333 },
+        100,
+        100
+      );
+
+      expect(result).toEqual({ left: 33, top: 33, width: 33, height: 33 });
+    });
+
+    it("should keep the rectangle inside the image", () => {
+      const result = regionToPixels(
+        { x: 0.999, y: 0.5, width: 0.001, height: 0.5 },
+        100,
+        101
+      );
+
+      expect(result.left).toBe(99);
+      expect(result.left + result.width).toBeLessThanOrEqual(100);
+      expect(result.top + result.height).toBeLessThanOrEqual(101);
+    });
+
+    it("should be at least one pixel in each direction", () => {
+      const result = regionToPixels(
+        { x: 0.5, y: 0.5, width: 0.0001, height: 0.0001 },
+        100,
+        100
+      );
+
+      expect(result.width).toBe(1);
+      expect(result.height).toBe(1);
+    });
+  });
 });
@@ -2,7 +2,7 @@
  * Image Utilities
  *
  * Pure functions for image source selection, srcSet building,
- * and initials calculation. These are extracted from React components
+ * initials calculation and region geometry. These are extracted from React components
  * to enable unit testing without React dependencies.
  *
  * Exported Functions:
@@ -10,8 +10,11 @@
  * - selectImageSource: Select best available image source
  * - selectAvatarSource: Select avatar image with fallback chain
  * - calculateInitials: Calculate display initials from name
+ * - regionToPixels: Convert a normalized image region to pixels
  */
 
+import type { MediaRegion } from "@vamsa/schemas";
+
 /**
  * Build a srcSet string from available thumbnail paths
  *
@@ -119,3 +122,50 @@ export function calculateInitials(
 
   return initials || "?";
 }
+
+/**
+ * Pixel rectangle of an image
+ */
+export interface PixelRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Convert a region given as fractions of an image to whole pixels
+ *
+ * The rectangle is kept inside the image and at least one pixel in
+ * each direction, so it can be passed straight to an image cropper.
+ *
+ * @param region - Region with x, y, width and height between 0 and 1
+ * @param imageWidth - Image width in pixels
+ * @param imageHeight - Image height in pixels
+ * @returns Pixel rectangle within the image
+ *
+ * @example
+ * regionToPixels({ x: 0.25, y: 0.5, width: 0.5, height: 0.25 }, 800, 400);
+ * // Returns: { left: 200, top: 200, width: 400, height: 100 }
+ */
+export function regionToPixels(
+  region: MediaRegion,
+  imageWidth: number,
+  imageHeight: number
+): PixelRect {
+  const left = Math.min(Math.round(region.x * imageWidth), imageWidth - 1);
+  const top = Math.min(Math.round(region.y * imageHeight), imageHeight - 1);
+
+  return {
+    left,
+    top,
+    width: Math.max(
+      1,
+      Math.min(Math.round(region.width * imageWidth), imageWidth - left)
+    ),
+    height: Math.max(
+      1,
+      Math.min(Math.round(region.height * imageHeight), imageHeight - top)
+    ),
+  };
+}
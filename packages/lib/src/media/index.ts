@@ -4,7 +4,13 @@
  * This module provides utilities for:
  * - Image processing (processor.ts)
  * - Image source selection and srcSet building (image-utils.ts)
+ * - Embedded EXIF, IPTC and XMP metadata (metadata.ts)
+ * - Accepted kinds of media and their size limits (media-kinds.ts)
+ * - PDF page counts and text, and recording lengths (file-info.ts)
  */
 
 export * from "./processor";
 export * from "./image-utils";
+export * from "./metadata";
+export * from "./media-kinds";
+export * from "./file-info";
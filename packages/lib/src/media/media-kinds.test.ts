@@ -0,0 +1,101 @@
+/**
+ * Unit tests for media kinds
+ *
+ * Tests cover:
+ * - getMediaKind: Kinds of accepted MIME types
+ * - getMediaExtension: Stored file extensions
+ * - getAcceptedMimeTypes: Accepted types per kind
+ * - getMediaSizeLimit: Size limits in bytes
+ * - toMediaUrl: Serving URLs of stored paths
+ * - formatDuration: Recording lengths
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_MEDIA_SIZE_LIMITS,
+  formatDuration,
+  getAcceptedMimeTypes,
+  getMediaExtension,
+  getMediaKind,
+  getMediaSizeLimit,
+  toMediaUrl,
+} from "./media-kinds";
+
+describe("Media kinds", () => {
+  describe("getMediaKind", () => {
+    it("should classify accepted MIME types", () => {
+      expect(getMediaKind("image/jpeg")).toBe("image");
+      expect(getMediaKind("application/pdf")).toBe("document");
+      expect(getMediaKind("audio/mpeg")).toBe("audio");
+      expect(getMediaKind("video/mp4")).toBe("video");
+    });
+
+    it("should return null for types that are not accepted", () => {
+      expect(getMediaKind("application/zip")).toBeNull();
+      expect(getMediaKind("text/plain")).toBeNull();
+    });
+  });
+
+  describe("getMediaExtension", () => {
+    it("should return the extension of media and transcript types", () => {
+      expect(getMediaExtension("audio/x-m4a")).toBe(".m4a");
+      expect(getMediaExtension("video/quicktime")).toBe(".mov");
+      expect(getMediaExtension("text/vtt")).toBe(".vtt");
+    });
+
+    it("should fall back to .bin", () => {
+      expect(getMediaExtension("application/octet-stream")).toBe(".bin");
+    });
+  });
+
+  describe("getAcceptedMimeTypes", () => {
+    it("should list the types of one kind", () => {
+      expect(getAcceptedMimeTypes("document")).toEqual(["application/pdf"]);
+    });
+
+    it("should list every type without a kind", () => {
+      const types = getAcceptedMimeTypes();
+
+      expect(types).toContain("image/png");
+      expect(types).toContain("audio/wav");
+      expect(types).toContain("video/webm");
+    });
+  });
+
+  describe("getMediaSizeLimit", () => {
+    it("should convert the default limit to bytes", () => {
+      expect(getMediaSizeLimit("audio")).toBe(
+        DEFAULT_MEDIA_SIZE_LIMITS.audioMb * 1024 * 1024
+      );
+    });
+
+    it("should use the given limits", () => {
+      expect(
+        getMediaSizeLimit("video", {
+          ...DEFAULT_MEDIA_SIZE_LIMITS,
+          videoMb: 50,
+        })
+      ).toBe(50 * 1024 * 1024);
+    });
+  });
+
+  describe("toMediaUrl", () => {
+    it("should serve originals and processed files from /media", () => {
+      expect(toMediaUrl("/data/uploads/media/3f2a.pdf")).toBe(
+        "/media/3f2a.pdf"
+      );
+      expect(toMediaUrl("media/webp/3f2a.webp")).toBe("/media/webp/3f2a.webp");
+    });
+  });
+
+  describe("formatDuration", () => {
+    it("should format minutes and seconds", () => {
+      expect(formatDuration(5)).toBe("0:05");
+      expect(formatDuration(754.6)).toBe("12:35");
+    });
+
+    it("should add hours from an hour up", () => {
+      expect(formatDuration(3723)).toBe("1:02:03");
+    });
+  });
+});
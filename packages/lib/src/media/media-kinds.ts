@@ -0,0 +1,131 @@
+/**
+ * Kinds of media files Vamsa accepts, with their size limits
+ *
+ * Free of server dependencies so upload forms can validate files before
+ * sending them.
+ */
+
+export type MediaKind = "image" | "document" | "audio" | "video";
+
+export const MEDIA_KINDS: ReadonlyArray<MediaKind> = [
+  "image",
+  "document",
+  "audio",
+  "video",
+];
+
+/**
+ * Accepted MIME types with their kind and the extension files are stored
+ * under
+ */
+const MEDIA_TYPES: Record<string, { kind: MediaKind; extension: string }> = {
+  "image/jpeg": { kind: "image", extension: ".jpg" },
+  "image/png": { kind: "image", extension: ".png" },
+  "image/gif": { kind: "image", extension: ".gif" },
+  "image/webp": { kind: "image", extension: ".webp" },
+  "image/tiff": { kind: "image", extension: ".tiff" },
+  "image/bmp": { kind: "image", extension: ".bmp" },
+  "image/svg+xml": { kind: "image", extension: ".svg" },
+  "application/pdf": { kind: "document", extension: ".pdf" },
+  "audio/mpeg": { kind: "audio", extension: ".mp3" },
+  "audio/mp4": { kind: "audio", extension: ".m4a" },
+  "audio/x-m4a": { kind: "audio", extension: ".m4a" },
+  "audio/wav": { kind: "audio", extension: ".wav" },
+  "audio/x-wav": { kind: "audio", extension: ".wav" },
+  "audio/ogg": { kind: "audio", extension: ".ogg" },
+  "audio/webm": { kind: "audio", extension: ".weba" },
+  "audio/flac": { kind: "audio", extension: ".flac" },
+  "video/mp4": { kind: "video", extension: ".mp4" },
+  "video/webm": { kind: "video", extension: ".webm" },
+  "video/quicktime": { kind: "video", extension: ".mov" },
+  "video/ogg": { kind: "video", extension: ".ogv" },
+};
+
+/**
+ * MIME types accepted as transcripts of audio and video recordings.
+ * WebVTT transcripts are also shown as captions while a video plays.
+ */
+export const TRANSCRIPT_MIME_TYPES: Record<string, string> = {
+  "text/plain": ".txt",
+  "text/vtt": ".vtt",
+  "application/pdf": ".pdf",
+};
+
+/**
+ * Largest accepted upload per kind of media, in megabytes
+ */
+export interface MediaSizeLimits {
+  imageMb: number;
+  documentMb: number;
+  audioMb: number;
+  videoMb: number;
+}
+
+export const DEFAULT_MEDIA_SIZE_LIMITS: MediaSizeLimits = {
+  imageMb: 20,
+  documentMb: 20,
+  audioMb: 100,
+  videoMb: 200,
+};
+
+/**
+ * Kind of media a MIME type holds, or null if it is not accepted
+ */
+export function getMediaKind(mimeType: string): MediaKind | null {
+  return MEDIA_TYPES[mimeType]?.kind ?? null;
+}
+
+/**
+ * Extension a media file or transcript of the given MIME type is stored
+ * under
+ */
+export function getMediaExtension(mimeType: string): string {
+  return (
+    MEDIA_TYPES[mimeType]?.extension ??
+    TRANSCRIPT_MIME_TYPES[mimeType] ??
+    ".bin"
+  );
+}
+
+/**
+ * Accepted MIME types, of one kind or of every kind
+ */
+export function getAcceptedMimeTypes(kind?: MediaKind): Array<string> {
+  return Object.entries(MEDIA_TYPES)
+    .filter(([, type]) => !kind || type.kind === kind)
+    .map(([mimeType]) => mimeType);
+}
+
+/**
+ * Largest accepted upload of a kind of media, in bytes
+ */
+export function getMediaSizeLimit(
+  kind: MediaKind,
+  limits: MediaSizeLimits = DEFAULT_MEDIA_SIZE_LIMITS
+): number {
+  return limits[`${kind}Mb` as const] * 1024 * 1024;
+}
+
+/**
+ * URL a stored media path is served from. Accepts the paths saved on
+ * media objects ("/data/uploads/media/3f2a.pdf", "media/webp/3f2a.webp").
+ */
+export function toMediaUrl(mediaPath: string): string {
+  return `/media/${mediaPath
+    .replace(/^\/+/, "")
+    .replace(/^(data\/uploads\/)?media\//, "")}`;
+}
+
+/**
+ * Format a recording length as m:ss, or h:mm:ss from an hour up
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, "0");
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${secs}`
+    : `${minutes}:${secs}`;
+}
@@ -0,0 +1,479 @@
+/**
+ * Unit tests for embedded photo metadata
+ *
+ * Tests cover:
+ * - parseExif: IFD0, Exif and GPS IFDs in both byte orders
+ * - parseIptc: IIM records with and without Photoshop resources
+ * - parseXmp: attribute and element properties
+ * - findJpegMetadataBlocks: APP1 and APP13 segments
+ * - extractImageMetadata: Precedence between blocks
+ * - toExifTagsWithoutLocation: Tags for stripped derivatives
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  extractImageMetadata,
+  findJpegMetadataBlocks,
+  parseExif,
+  parseIptc,
+  parseXmp,
+  toExifTagsWithoutLocation,
+} from "./metadata";
+
+interface TestEntry {
+  tag: number;
+  ascii?: string;
+  rationals?: Array<[number, number]>;
+}
+
+/**
+ * Build a TIFF-structured EXIF block with IFD0 and optional Exif and GPS IFDs
+ */
+function buildExif(
+  options: {
+    littleEndian?: boolean;
+    header?: boolean;
+    ifd0?: Array<TestEntry>;
+    exif?: Array<TestEntry>;
+    gps?: Array<TestEntry>;
+  } = {}
+): Buffer {
+  const { littleEndian = true, header = true } = options;
+  const buffer = Buffer.alloc(4096);
+  const u16 = (value: number, offset: number) =>
+    littleEndian
+      ? buffer.writeUInt16LE(value, offset)
+      : buffer.writeUInt16BE(value, offset);
+  const u32 = (value: number, offset: number) =>
+    littleEndian
+      ? buffer.writeUInt32LE(value, offset)
+      : buffer.writeUInt32BE(value, offset);
+
+  const ifd0: Array<TestEntry & { pointer?: "exif" | "gps" }> = [
+    ...(options.ifd0 ?? []),
+  ];
+  if (options.exif) ifd0.push({ tag: 0x8769, pointer: "exif" });
+  if (options.gps) ifd0.push({ tag: 0x8825, pointer: "gps" });
+
+  const ifdSize = (entries: Array<unknown>) => 2 + entries.length * 12 + 4;
+  const ifd0Offset = 8;
+  const exifOffset = ifd0Offset + ifdSize(ifd0);
+  const gpsOffset = exifOffset + ifdSize(options.exif ?? []);
+  let dataOffset = gpsOffset + ifdSize(options.gps ?? []);
+
+  const writeIfd = (
+    offset: number,
+    entries: Array<TestEntry & { pointer?: "exif" | "gps" }>
+  ) => {
+    u16(entries.length, offset);
+    entries.forEach((entry, i) => {
+      const entryOffset = offset + 2 + i * 12;
+      u16(entry.tag, entryOffset);
+      if (entry.pointer) {
+        u16(4, entryOffset + 2);
+        u32(1, entryOffset + 4);
+        u32(entry.pointer === "exif" ? exifOffset : gpsOffset, entryOffset + 8);
+      } else if (entry.ascii !== undefined) {
+        const bytes = Buffer.from(`${entry.ascii}\0`, "utf8");
+        u16(2, entryOffset + 2);
+        u32(bytes.length, entryOffset + 4);
+        if (bytes.length <= 4) {
+          bytes.copy(buffer, entryOffset + 8);
+        } else {
+          u32(dataOffset, entryOffset + 8);
+          bytes.copy(buffer, dataOffset);
+          dataOffset += bytes.length;
+        }
+      } else if (entry.rationals) {
+        u16(5, entryOffset + 2);
+        u32(entry.rationals.length, entryOffset + 4);
+        u32(dataOffset, entryOffset + 8);
+        for (const [numerator, denominator] of entry.rationals) {
+          u32(numerator, dataOffset);
+          u32(denominator, dataOffset + 4);
+          dataOffset += 8;
+        }
+      }
+    });
+  };
+
+  buffer.write(littleEndian ? "II" : "MM", 0, "latin1");
+  u16(42, 2);
+  u32(ifd0Offset, 4);
+  writeIfd(ifd0Offset, ifd0);
+  writeIfd(exifOffset, options.exif ?? []);
+  writeIfd(gpsOffset, options.gps ?? []);
+
+  const tiff = buffer.subarray(0, dataOffset);
+  return header
+    ? Buffer.concat([Buffer.from("Exif\0\0", "latin1"), tiff])
+    : tiff;
+}
+
+/**
+ * Build IPTC IIM records for record 2
+ */
+function buildIim(datasets: Array<[number, string]>): Buffer {
+  return Buffer.concat(
+    datasets.map(([dataset, value]) => {
+      const data = Buffer.from(value, "utf8");
+      const head = Buffer.from([0x1c, 2, dataset, 0, 0]);
+      head.writeUInt16BE(data.length, 3);
+      return Buffer.concat([head, data]);
+    })
+  );
+}
+
+/**
+ * Wrap IIM records in Photoshop image resources, after an unrelated resource
+ */
+function wrapInPhotoshopResources(iim: Buffer): Buffer {
+  const resource = (id: number, data: Buffer) => {
+    const head = Buffer.alloc(12);
+    head.write("8BIM", 0, "latin1");
+    head.writeUInt16BE(id, 4);
+    // Empty name padded to two bytes
+    head.writeUInt32BE(data.length, 8);
+    const padding = Buffer.alloc(data.length % 2);
+    return Buffer.concat([head, data, padding]);
+  };
+  return Buffer.concat([
+    Buffer.from("Photoshop 3.0\0", "latin1"),
+    resource(0x03ed, Buffer.from([1, 2, 3])),
+    resource(0x0404, iim),
+  ]);
+}
+
+/**
+ * Build a JPEG segment
+ */
+function segment(marker: number, data: Buffer): Buffer {
+  const head = Buffer.from([0xff, marker, 0, 0]);
+  head.writeUInt16BE(data.length + 2, 2);
+  return Buffer.concat([head, data]);
+}
+
+const LONDON_GPS: Array<TestEntry> = [
+  { tag: 0x0001, ascii: "N" },
+  {
+    tag: 0x0002,
+    rationals: [
+      [51, 1],
+      [30, 1],
+      [0, 1],
+    ],
+  },
+  { tag: 0x0003, ascii: "W" },
+  {
+    tag: 0x0004,
+    rationals: [
+      [0, 1],
+      [7, 1],
+      [3000, 100],
+    ],
+  },
+];
+
+describe("parseExif", () => {
+  it("reads description, camera and capture date", () => {
+    const fields = parseExif(
+      buildExif({
+        ifd0: [
+          { tag: 0x010e, ascii: "Grandma's 80th birthday" },
+          { tag: 0x010f, ascii: "Canon" },
+          { tag: 0x0110, ascii: "Canon EOS 5D" },
+          { tag: 0x0132, ascii: "2019:07:20 09:00:00" },
+        ],
+        exif: [{ tag: 0x9003, ascii: "2019:07:14 15:30:05" }],
+      })
+    );
+
+    expect(fields).toEqual({
+      description: "Grandma's 80th birthday",
+      make: "Canon",
+      model: "Canon EOS 5D",
+      dateTime: new Date("2019-07-20T09:00:00Z"),
+      dateTimeOriginal: new Date("2019-07-14T15:30:05Z"),
+    });
+  });
+
+  it("converts GPS degrees, minutes and seconds to signed decimals", () => {
+    const fields = parseExif(buildExif({ gps: LONDON_GPS }));
+
+    expect(fields.latitude).toBeCloseTo(51.5, 6);
+    expect(fields.longitude).toBeCloseTo(-(7 / 60 + 30 / 3600), 6);
+  });
+
+  it("reads big-endian blocks without the Exif header", () => {
+    const fields = parseExif(
+      buildExif({
+        littleEndian: false,
+        header: false,
+        ifd0: [{ tag: 0x0110, ascii: "iPhone 12" }],
+        gps: LONDON_GPS,
+      })
+    );
+
+    expect(fields.model).toBe("iPhone 12");
+    expect(fields.latitude).toBeCloseTo(51.5, 6);
+  });
+
+  it("stores short ASCII values inside the entry", () => {
+    const fields = parseExif(
+      buildExif({ ifd0: [{ tag: 0x010f, ascii: "LG" }] })
+    );
+
+    expect(fields.make).toBe("LG");
+  });
+
+  it("ignores unset camera clocks", () => {
+    const fields = parseExif(
+      buildExif({ exif: [{ tag: 0x9003, ascii: "0000:00:00 00:00:00" }] })
+    );
+
+    expect(fields.dateTimeOriginal).toBeUndefined();
+  });
+
+  it("ignores GPS positions with a zero denominator", () => {
+    const fields = parseExif(
+      buildExif({
+        gps: [
+          { tag: 0x0001, ascii: "N" },
+          { tag: 0x0002, rationals: [[51, 0]] },
+          { tag: 0x0003, ascii: "E" },
+          { tag: 0x0004, rationals: [[1, 1]] },
+        ],
+      })
+    );
+
+    expect(fields.latitude).toBeUndefined();
+    expect(fields.longitude).toBeUndefined();
+  });
+
+  it("returns no fields for data that is not EXIF", () => {
+    expect(parseExif(Buffer.from("not exif at all"))).toEqual({});
+    expect(parseExif(Buffer.alloc(0))).toEqual({});
+  });
+
+  it("keeps fields read before a truncated IFD", () => {
+    const exif = buildExif({
+      ifd0: [{ tag: 0x010f, ascii: "LG" }],
+      exif: [{ tag: 0x9003, ascii: "2019:07:14 15:30:05" }],
+    });
+    // Cut the block off inside the Exif IFD; "LG" fits inside its entry
+    const fields = parseExif(exif.subarray(0, 6 + 8 + 2 + 2 * 12 + 4 + 4));
+
+    expect(fields.make).toBe("LG");
+    expect(fields.dateTimeOriginal).toBeUndefined();
+  });
+});
+
+describe("parseIptc", () => {
+  it("reads caption and creation date from raw records", () => {
+    const fields = parseIptc(
+      buildIim([
+        [120, "Wedding of Ravi and Meena"],
+        [55, "19850312"],
+        [60, "143000+0530"],
+      ])
+    );
+
+    expect(fields).toEqual({
+      caption: "Wedding of Ravi and Meena",
+      dateCreated: new Date("1985-03-12T14:30:00Z"),
+    });
+  });
+
+  it("finds records inside Photoshop image resources", () => {
+    const fields = parseIptc(
+      wrapInPhotoshopResources(buildIim([[120, "Family reunion"]]))
+    );
+
+    expect(fields.caption).toBe("Family reunion");
+  });
+
+  it("uses midnight when only the date is given", () => {
+    const fields = parseIptc(buildIim([[55, "19500101"]]));
+
+    expect(fields.dateCreated).toEqual(new Date("1950-01-01T00:00:00Z"));
+  });
+
+  it("returns no fields for other data", () => {
+    expect(parseIptc(Buffer.from("nothing here"))).toEqual({});
+  });
+});
+
+describe("parseXmp", () => {
+  it("reads attribute properties", () => {
+    const fields = parseXmp(
+      `<x:xmpmeta><rdf:RDF><rdf:Description
+        exif:DateTimeOriginal="2001-09-08T10:15:00+02:00"
+        exif:GPSLatitude="48,51.5N"
+        exif:GPSLongitude="2,21,0E"
+        tiff:Make="FUJIFILM"
+        tiff:Model="X100V"/></rdf:RDF></x:xmpmeta>`
+    );
+
+    expect(fields.dateTaken).toEqual(new Date("2001-09-08T10:15:00Z"));
+    expect(fields.latitude).toBeCloseTo(48.858333, 5);
+    expect(fields.longitude).toBeCloseTo(2.35, 5);
+    expect(fields.make).toBe("FUJIFILM");
+    expect(fields.model).toBe("X100V");
+  });
+
+  it("reads language alternatives and decodes entities", () => {
+    const fields = parseXmp(
+      Buffer.from(
+        `<rdf:Description><dc:description><rdf:Alt>
+          <rdf:li xml:lang="x-default">Ama &amp; Kofi at the beach</rdf:li>
+        </rdf:Alt></dc:description></rdf:Description>`
+      )
+    );
+
+    expect(fields.description).toBe("Ama & Kofi at the beach");
+  });
+
+  it("falls back to the date created", () => {
+    const fields = parseXmp(
+      `<photoshop:DateCreated>1972-05-01</photoshop:DateCreated>`
+    );
+
+    expect(fields.dateTaken).toEqual(new Date("1972-05-01T00:00:00Z"));
+  });
+
+  it("ignores a latitude without a longitude", () => {
+    const fields = parseXmp(`<rdf:Description exif:GPSLatitude="48,51.5N"/>`);
+
+    expect(fields.latitude).toBeUndefined();
+  });
+});
+
+describe("findJpegMetadataBlocks", () => {
+  it("finds EXIF, XMP and IPTC segments before the image data", () => {
+    const exif = buildExif({ ifd0: [{ tag: 0x010f, ascii: "Canon" }] });
+    const xmp = "<x:xmpmeta/>";
+    const iptc = wrapInPhotoshopResources(buildIim([[120, "Caption"]]));
+    const jpeg = Buffer.concat([
+      Buffer.from([0xff, 0xd8]),
+      segment(0xe0, Buffer.from("JFIF\0")),
+      segment(0xe1, exif),
+      segment(
+        0xe1,
+        Buffer.concat([
+          Buffer.from("http://ns.adobe.com/xap/1.0/\0", "latin1"),
+          Buffer.from(xmp),
+        ])
+      ),
+      segment(0xed, iptc),
+      segment(0xda, Buffer.from([0, 0])),
+    ]);
+
+    const blocks = findJpegMetadataBlocks(jpeg);
+
+    expect(blocks.exif?.equals(exif)).toBe(true);
+    expect(blocks.xmp?.toString()).toBe(xmp);
+    expect(blocks.iptc?.equals(iptc)).toBe(true);
+  });
+
+  it("returns no blocks for other file types", () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+    expect(findJpegMetadataBlocks(png)).toEqual({});
+  });
+});
+
+describe("extractImageMetadata", () => {
+  it("combines the blocks of a photo", () => {
+    const metadata = extractImageMetadata({
+      exif: buildExif({
+        ifd0: [
+          { tag: 0x010f, ascii: "Canon" },
+          { tag: 0x0110, ascii: "Canon EOS 5D" },
+        ],
+        exif: [{ tag: 0x9003, ascii: "2019:07:14 15:30:05" }],
+        gps: LONDON_GPS,
+      }),
+      iptc: buildIim([[120, "Picnic in the park"]]),
+    });
+
+    expect(metadata).toMatchObject({
+      capturedAt: new Date("2019-07-14T15:30:05Z"),
+      camera: "Canon EOS 5D",
+      caption: "Picnic in the park",
+    });
+    expect(metadata?.latitude).toBeCloseTo(51.5, 6);
+  });
+
+  it("prefers EXIF over XMP and IPTC", () => {
+    const metadata = extractImageMetadata({
+      exif: buildExif({
+        ifd0: [{ tag: 0x010e, ascii: "From EXIF" }],
+        exif: [{ tag: 0x9003, ascii: "2019:07:14 15:30:05" }],
+      }),
+      xmp: `<rdf:Description exif:DateTimeOriginal="2001-01-01T00:00:00" dc:description="From XMP"/>`,
+      iptc: buildIim([[120, "From IPTC"]]),
+    });
+
+    expect(metadata?.capturedAt).toEqual(new Date("2019-07-14T15:30:05Z"));
+    expect(metadata?.caption).toBe("From EXIF");
+  });
+
+  it("skips placeholder descriptions written by cameras", () => {
+    const metadata = extractImageMetadata({
+      exif: buildExif({
+        ifd0: [{ tag: 0x010e, ascii: "OLYMPUS DIGITAL CAMERA" }],
+      }),
+      iptc: buildIim([[120, "Harvest festival"]]),
+    });
+
+    expect(metadata?.caption).toBe("Harvest festival");
+  });
+
+  it("joins make and model when the model does not repeat the make", () => {
+    const metadata = extractImageMetadata({
+      exif: buildExif({
+        ifd0: [
+          { tag: 0x010f, ascii: "NIKON CORPORATION" },
+          { tag: 0x0110, ascii: "D750" },
+        ],
+      }),
+    });
+
+    expect(metadata?.camera).toBe("NIKON CORPORATION D750");
+  });
+
+  it("returns null when the image carries no usable metadata", () => {
+    expect(extractImageMetadata({})).toBeNull();
+    expect(extractImageMetadata({ exif: buildExif() })).toBeNull();
+  });
+});
+
+describe("toExifTagsWithoutLocation", () => {
+  it("keeps caption, camera and capture date", () => {
+    const tags = toExifTagsWithoutLocation({
+      capturedAt: new Date("2019-07-14T15:30:05Z"),
+      latitude: 51.5,
+      longitude: -0.1,
+      camera: "Canon EOS 5D",
+      caption: "Picnic",
+    });
+
+    expect(tags).toEqual({
+      IFD0: { ImageDescription: "Picnic", Model: "Canon EOS 5D" },
+      IFD2: { DateTimeOriginal: "2019:07:14 15:30:05" },
+    });
+  });
+
+  it("returns null when only a position is known", () => {
+    expect(
+      toExifTagsWithoutLocation({
+        capturedAt: null,
+        latitude: 51.5,
+        longitude: -0.1,
+        camera: null,
+        caption: null,
+      })
+    ).toBeNull();
+    expect(toExifTagsWithoutLocation(null)).toBeNull();
+  });
+});
@@ -0,0 +1,618 @@
+/**
+ * Embedded photo metadata
+ *
+ * Reads the capture date, GPS position, camera and caption that cameras and
+ * photo editors embed in images as EXIF, IPTC and XMP blocks. The blocks come
+ * from sharp when it is installed, or from the segments of a JPEG file
+ * otherwise. Parsing is best effort: damaged blocks are ignored.
+ */
+
+/**
+ * Metadata read from an image
+ */
+export interface ImageMetadata {
+  /**
+   * When the photo was taken. Cameras record local wall-clock time without
+   * a zone, so the time is kept as if it were UTC to preserve the day.
+   */
+  capturedAt: Date | null;
+  latitude: number | null;
+  longitude: number | null;
+  camera: string | null;
+  caption: string | null;
+}
+
+/**
+ * Raw metadata blocks of an image
+ */
+export interface EmbeddedMetadataBlocks {
+  /** TIFF-structured EXIF data, with or without the "Exif\0\0" header */
+  exif?: Buffer;
+  /** IPTC IIM records, on their own or inside Photoshop image resources */
+  iptc?: Buffer;
+  /** XMP packet */
+  xmp?: Buffer | string;
+}
+
+/**
+ * Fields read from an EXIF block
+ */
+export interface ExifFields {
+  dateTimeOriginal?: Date;
+  dateTime?: Date;
+  description?: string;
+  make?: string;
+  model?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+/**
+ * Fields read from IPTC IIM records
+ */
+export interface IptcFields {
+  caption?: string;
+  dateCreated?: Date;
+}
+
+/**
+ * Fields read from an XMP packet
+ */
+export interface XmpFields {
+  dateTaken?: Date;
+  description?: string;
+  make?: string;
+  model?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+/**
+ * EXIF tags by IFD in the shape sharp's `withExif()` expects
+ */
+export interface ExifTags {
+  IFD0: Record<string, string>;
+  IFD2?: Record<string, string>;
+}
+
+const EXIF_HEADER = "Exif\0\0";
+const XMP_HEADER = "http://ns.adobe.com/xap/1.0/\0";
+const PHOTOSHOP_HEADER = "Photoshop 3.0\0";
+
+// TIFF tags
+const TAG_IMAGE_DESCRIPTION = 0x010e;
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+// Bytes per value of each TIFF field type
+const TIFF_TYPE_SIZES: Record<number, number> = {
+  1: 1, // BYTE
+  2: 1, // ASCII
+  3: 2, // SHORT
+  4: 4, // LONG
+  5: 8, // RATIONAL
+  7: 1, // UNDEFINED
+  9: 4, // SLONG
+  10: 8, // SRATIONAL
+};
+
+// Descriptions some cameras write when the user has not given one
+const PLACEHOLDER_CAPTIONS = new Set([
+  "olympus digital camera",
+  "sony dsc",
+  "digital camera",
+  "konica minolta digital camera",
+  "default",
+]);
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  // Offset of the value from the start of the TIFF data
+  offset: number;
+}
+
+/**
+ * Parse a TIFF-structured EXIF block
+ *
+ * @param buffer - EXIF data, with or without the "Exif\0\0" header
+ * @returns Fields found; empty when the block cannot be read
+ */
+export function parseExif(buffer: Buffer): ExifFields {
+  const start =
+    buffer.toString("latin1", 0, EXIF_HEADER.length) === EXIF_HEADER
+      ? EXIF_HEADER.length
+      : 0;
+  const tiff = buffer.subarray(start);
+  if (tiff.length < 8) return {};
+
+  const byteOrder = tiff.toString("latin1", 0, 2);
+  if (byteOrder !== "II" && byteOrder !== "MM") return {};
+  const littleEndian = byteOrder === "II";
+  const readUInt16 = (offset: number) =>
+    littleEndian ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset);
+  const readUInt32 = (offset: number) =>
+    littleEndian ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset);
+
+  const readIfd = (offset: number): Map<number, IfdEntry> => {
+    const entries = new Map<number, IfdEntry>();
+    const count = readUInt16(offset);
+    for (let i = 0; i < count; i++) {
+      const entryOffset = offset + 2 + i * 12;
+      const type = readUInt16(entryOffset + 2);
+      const valueCount = readUInt32(entryOffset + 4);
+      const size = (TIFF_TYPE_SIZES[type] ?? 1) * valueCount;
+      entries.set(readUInt16(entryOffset), {
+        type,
+        count: valueCount,
+        // Values of up to four bytes are stored in the entry itself
+        offset: size <= 4 ? entryOffset + 8 : readUInt32(entryOffset + 8),
+      });
+    }
+    return entries;
+  };
+
+  const readAscii = (entry: IfdEntry | undefined): string | undefined => {
+    if (!entry || entry.type !== 2) return undefined;
+    const value = tiff
+      .toString("utf8", entry.offset, entry.offset + entry.count)
+      .replace(/\0[\s\S]*$/, "")
+      .trim();
+    return value || undefined;
+  };
+
+  const readRationals = (entry: IfdEntry | undefined): Array<number> => {
+    if (!entry || entry.type !== 5) return [];
+    const values: Array<number> = [];
+    for (let i = 0; i < entry.count; i++) {
+      const denominator = readUInt32(entry.offset + i * 8 + 4);
+      values.push(
+        denominator === 0
+          ? Number.NaN
+          : readUInt32(entry.offset + i * 8) / denominator
+      );
+    }
+    return values;
+  };
+
+  const readPointer = (entry: IfdEntry | undefined): number | undefined => {
+    if (!entry || entry.type !== 4) return undefined;
+    return readUInt32(entry.offset);
+  };
+
+  const fields: ExifFields = {};
+  try {
+    if (readUInt16(2) !== 42) return {};
+
+    const ifd0 = readIfd(readUInt32(4));
+    fields.description = readAscii(ifd0.get(TAG_IMAGE_DESCRIPTION));
+    fields.make = readAscii(ifd0.get(TAG_MAKE));
+    fields.model = readAscii(ifd0.get(TAG_MODEL));
+    fields.dateTime = parseExifDateTime(readAscii(ifd0.get(TAG_DATE_TIME)));
+
+    const exifOffset = readPointer(ifd0.get(TAG_EXIF_IFD));
+    if (exifOffset) {
+      const exifIfd = readIfd(exifOffset);
+      fields.dateTimeOriginal = parseExifDateTime(
+        readAscii(exifIfd.get(TAG_DATE_TIME_ORIGINAL))
+      );
+    }
+
+    const gpsOffset = readPointer(ifd0.get(TAG_GPS_IFD));
+    if (gpsOffset) {
+      const gpsIfd = readIfd(gpsOffset);
+      const latitude = toDecimalDegrees(
+        readRationals(gpsIfd.get(TAG_GPS_LATITUDE)),
+        readAscii(gpsIfd.get(TAG_GPS_LATITUDE_REF)),
+        90
+      );
+      const longitude = toDecimalDegrees(
+        readRationals(gpsIfd.get(TAG_GPS_LONGITUDE)),
+        readAscii(gpsIfd.get(TAG_GPS_LONGITUDE_REF)),
+        180
+      );
+      if (latitude !== undefined && longitude !== undefined) {
+        fields.latitude = latitude;
+        fields.longitude = longitude;
+      }
+    }
+  } catch {
+    // Offsets pointing outside the block; keep what was read
+  }
+
+  return withoutUndefined(fields);
+}
+
+/**
+ * Parse IPTC IIM records
+ *
+ * @param buffer - IIM records, or Photoshop image resources holding them
+ * @returns Fields found; empty when the block cannot be read
+ */
+export function parseIptc(buffer: Buffer): IptcFields {
+  const records = findIimRecords(buffer);
+  if (!records) return {};
+
+  let caption: string | undefined;
+  let date: string | undefined;
+  let time: string | undefined;
+
+  let pos = 0;
+  while (pos + 5 <= records.length && records[pos] === 0x1c) {
+    const record = records[pos + 1];
+    const dataset = records[pos + 2];
+    let length = records.readUInt16BE(pos + 3);
+    pos += 5;
+
+    // Extended datasets give the number of length bytes instead
+    if (length & 0x8000) {
+      const lengthBytes = length & 0x7fff;
+      if (lengthBytes < 1 || lengthBytes > 4) break;
+      if (pos + lengthBytes > records.length) break;
+      length = records.readUIntBE(pos, lengthBytes);
+      pos += lengthBytes;
+    }
+    if (pos + length > records.length) break;
+
+    const value = records.toString("utf8", pos, pos + length).trim();
+    pos += length;
+
+    if (record !== 2 || !value) continue;
+    if (dataset === 120) caption = value;
+    else if (dataset === 55) date = value;
+    else if (dataset === 60) time = value;
+  }
+
+  const dateMatch = date?.match(/^(\d{4})(\d{2})(\d{2})$/);
+  const timeMatch = time?.match(/^(\d{2})(\d{2})(\d{2})/);
+
+  return withoutUndefined({
+    caption,
+    dateCreated: dateMatch
+      ? toWallClockDate(
+          dateMatch[1],
+          dateMatch[2],
+          dateMatch[3],
+          timeMatch?.[1],
+          timeMatch?.[2],
+          timeMatch?.[3]
+        )
+      : undefined,
+  });
+}
+
+/**
+ * Parse an XMP packet
+ *
+ * Reads the handful of properties Vamsa uses with pattern matching rather
+ * than a full RDF parser; properties may be attributes or elements.
+ *
+ * @param xmp - XMP packet
+ * @returns Fields found
+ */
+export function parseXmp(xmp: Buffer | string): XmpFields {
+  const packet = typeof xmp === "string" ? xmp : xmp.toString("utf8");
+
+  const dateTaken =
+    getXmpProperty(packet, "exif:DateTimeOriginal") ??
+    getXmpProperty(packet, "photoshop:DateCreated") ??
+    getXmpProperty(packet, "xmp:CreateDate");
+  const dateMatch = dateTaken?.match(
+    /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2}))?)?/
+  );
+
+  const latitude = parseXmpCoordinate(
+    getXmpProperty(packet, "exif:GPSLatitude"),
+    90
+  );
+  const longitude = parseXmpCoordinate(
+    getXmpProperty(packet, "exif:GPSLongitude"),
+    180
+  );
+  return withoutUndefined({
+    dateTaken: dateMatch
+      ? toWallClockDate(
+          dateMatch[1],
+          dateMatch[2],
+          dateMatch[3],
+          dateMatch[4],
+          dateMatch[5],
+          dateMatch[6]
+        )
+      : undefined,
+    description: getXmpProperty(packet, "dc:description"),
+    make: getXmpProperty(packet, "tiff:Make"),
+    model: getXmpProperty(packet, "tiff:Model"),
+    latitude:
+      latitude !== undefined && longitude !== undefined ? latitude : undefined,
+    longitude:
+      latitude !== undefined && longitude !== undefined ? longitude : undefined,
+  });
+}
+
+/**
+ * Find the EXIF, IPTC and XMP blocks of a JPEG file
+ *
+ * Used when sharp is unavailable to read them for us.
+ *
+ * @param buffer - File content
+ * @returns Blocks found; empty for other file types
+ */
+export function findJpegMetadataBlocks(buffer: Buffer): EmbeddedMetadataBlocks {
+  const blocks: EmbeddedMetadataBlocks = {};
+  if (buffer.length < 4 || buffer[0] !== 0xff || buffer[1] !== 0xd8) {
+    return blocks;
+  }
+
+  let pos = 2;
+  while (pos + 4 <= buffer.length && buffer[pos] === 0xff) {
+    const marker = buffer[pos + 1];
+    // Fill bytes before a marker
+    if (marker === 0xff) {
+      pos++;
+      continue;
+    }
+    // Image data follows the start of scan; metadata comes before it
+    if (marker === 0xda || marker === 0xd9) break;
+
+    const length = buffer.readUInt16BE(pos + 2);
+    const data = buffer.subarray(pos + 4, pos + 2 + length);
+    pos += 2 + length;
+
+    if (marker === 0xe1 && hasPrefix(data, EXIF_HEADER)) {
+      blocks.exif ??= data;
+    } else if (marker === 0xe1 && hasPrefix(data, XMP_HEADER)) {
+      blocks.xmp ??= data.subarray(XMP_HEADER.length);
+    } else if (marker === 0xed && hasPrefix(data, PHOTOSHOP_HEADER)) {
+      blocks.iptc ??= data;
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Combine the metadata blocks of an image
+ *
+ * EXIF is preferred, then XMP, then IPTC, as cameras write EXIF and editors
+ * copy it into the other two.
+ *
+ * @param blocks - Raw metadata blocks
+ * @returns Metadata, or null when the image carries none Vamsa uses
+ */
+export function extractImageMetadata(
+  blocks: EmbeddedMetadataBlocks
+): ImageMetadata | null {
+  const exif = blocks.exif ? parseExif(blocks.exif) : {};
+  const xmp = blocks.xmp ? parseXmp(blocks.xmp) : {};
+  const iptc = blocks.iptc ? parseIptc(blocks.iptc) : {};
+
+  const hasExifPosition =
+    exif.latitude !== undefined && exif.longitude !== undefined;
+  const caption = [exif.description, xmp.description, iptc.caption].find(
+    (value) => value && !isPlaceholderCaption(value)
+  );
+
+  const metadata: ImageMetadata = {
+    capturedAt:
+      exif.dateTimeOriginal ??
+      xmp.dateTaken ??
+      iptc.dateCreated ??
+      exif.dateTime ??
+      null,
+    latitude: (hasExifPosition ? exif.latitude : xmp.latitude) ?? null,
+    longitude: (hasExifPosition ? exif.longitude : xmp.longitude) ?? null,
+    camera: formatCamera(exif.make ?? xmp.make, exif.model ?? xmp.model),
+    caption: caption ?? null,
+  };
+
+  return Object.values(metadata).some((value) => value !== null)
+    ? metadata
+    : null;
+}
+
+/**
+ * EXIF tags to write to image derivatives whose GPS position is withheld
+ *
+ * @param metadata - Metadata read from the original image
+ * @returns Tags for sharp's `withExif()`, or null when there are none
+ */
+export function toExifTagsWithoutLocation(
+  metadata: ImageMetadata | null
+): ExifTags | null {
+  if (!metadata) return null;
+
+  const ifd0: Record<string, string> = {};
+  if (metadata.caption) ifd0.ImageDescription = metadata.caption;
+  if (metadata.camera) ifd0.Model = metadata.camera;
+
+  const tags: ExifTags = { IFD0: ifd0 };
+  if (metadata.capturedAt) {
+    tags.IFD2 = { DateTimeOriginal: formatExifDateTime(metadata.capturedAt) };
+  }
+
+  return Object.keys(ifd0).length > 0 || tags.IFD2 ? tags : null;
+}
+
+/**
+ * Parse an EXIF "YYYY:MM:DD HH:MM:SS" date
+ */
+function parseExifDateTime(value: string | undefined): Date | undefined {
+  const match = value?.match(
+    /^(\d{4})[:-](\d{2})[:-](\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?/
+  );
+  if (!match) return undefined;
+  return toWallClockDate(
+    match[1],
+    match[2],
+    match[3],
+    match[4],
+    match[5],
+    match[6]
+  );
+}
+
+/**
+ * Format a date as an EXIF "YYYY:MM:DD HH:MM:SS" value
+ */
+function formatExifDateTime(date: Date): string {
+  return date.toISOString().slice(0, 19).replace(/-/g, ":").replace("T", " ");
+}
+
+/**
+ * Build a date from wall-clock parts, rejecting impossible values such as
+ * the "0000:00:00" some cameras write when their clock is unset
+ */
+function toWallClockDate(
+  year: string,
+  month: string,
+  day: string,
+  hour = "0",
+  minute = "0",
+  second = "0"
+): Date | undefined {
+  const parts = [year, month, day, hour, minute, second].map(Number);
+  const [y, m, d, h, min, s] = parts;
+  if (y < 1800 || m < 1 || m > 12 || d < 1 || h > 23 || min > 59 || s > 60) {
+    return undefined;
+  }
+
+  const date = new Date(Date.UTC(y, m - 1, d, h, min, s));
+  return date.getUTCDate() === d ? date : undefined;
+}
+
+/**
+ * Convert EXIF degrees, minutes and seconds to signed decimal degrees
+ */
+function toDecimalDegrees(
+  values: Array<number>,
+  ref: string | undefined,
+  limit: number
+): number | undefined {
+  if (values.length === 0 || values.some((value) => !Number.isFinite(value))) {
+    return undefined;
+  }
+  const [degrees, minutes = 0, seconds = 0] = values;
+  const decimal = degrees + minutes / 60 + seconds / 3600;
+  if (decimal > limit) return undefined;
+
+  const negative = ref === "S" || ref === "W";
+  return negative ? -decimal : decimal;
+}
+
+/**
+ * Parse an XMP GPS coordinate such as "51,30.5N" or "51,30,30N"
+ */
+function parseXmpCoordinate(
+  value: string | undefined,
+  limit: number
+): number | undefined {
+  const match = value?.match(
+    /^(\d+),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?([NSEW])$/
+  );
+  if (!match) return undefined;
+  return toDecimalDegrees(
+    [Number(match[1]), Number(match[2]), Number(match[3] ?? 0)],
+    match[4],
+    limit
+  );
+}
+
+/**
+ * Read a simple or language-alternative XMP property
+ */
+function getXmpProperty(packet: string, name: string): string | undefined {
+  const escaped = name.replace(".", "\\.");
+  const attribute = packet.match(new RegExp(`${escaped}="([^"]*)"`));
+  const element = packet.match(
+    new RegExp(`<${escaped}(?:\\s[^>]*)?>([\\s\\S]*?)</${escaped}>`)
+  );
+
+  let value = attribute?.[1] ?? element?.[1];
+  if (value === undefined) return undefined;
+
+  // dc:description and friends hold their text in rdf:Alt/rdf:li
+  const item = value.match(/<rdf:li(?:\s[^>]*)?>([\s\S]*?)<\/rdf:li>/);
+  if (item) value = item[1];
+  if (value.includes("<")) return undefined;
+
+  const decoded = decodeXmlEntities(value).trim();
+  return decoded || undefined;
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) =>
+      String.fromCodePoint(parseInt(hex, 16))
+    )
+    .replace(/&#(\d+);/g, (_, code: string) =>
+      String.fromCodePoint(Number(code))
+    )
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Find the IIM records in an IPTC block. JPEG files wrap them in
+ * Photoshop image resources (resource 0x0404).
+ */
+function findIimRecords(buffer: Buffer): Buffer | undefined {
+  if (buffer[0] === 0x1c) return buffer;
+
+  let pos = hasPrefix(buffer, PHOTOSHOP_HEADER) ? PHOTOSHOP_HEADER.length : 0;
+  while (
+    pos + 12 <= buffer.length &&
+    buffer.toString("latin1", pos, pos + 4) === "8BIM"
+  ) {
+    const resourceId = buffer.readUInt16BE(pos + 4);
+    // Pascal string name, padded to an even length
+    const nameLength = buffer[pos + 6];
+    pos += 6 + nameLength + 1 + ((nameLength + 1) % 2);
+    if (pos + 4 > buffer.length) return undefined;
+
+    const size = buffer.readUInt32BE(pos);
+    pos += 4;
+    if (resourceId === 0x0404) return buffer.subarray(pos, pos + size);
+    pos += size + (size % 2);
+  }
+
+  return undefined;
+}
+
+function formatCamera(
+  make: string | undefined,
+  model: string | undefined
+): string | null {
+  if (make && model) {
+    // Many cameras repeat the make in the model ("Canon" + "Canon EOS 5D")
+    return model.toLowerCase().startsWith(make.toLowerCase())
+      ? model
+      : `${make} ${model}`;
+  }
+  return model ?? make ?? null;
+}
+
+function isPlaceholderCaption(caption: string): boolean {
+  return PLACEHOLDER_CAPTIONS.has(caption.trim().toLowerCase());
+}
+
+function hasPrefix(buffer: Buffer, prefix: string): boolean {
+  return buffer.toString("latin1", 0, prefix.length) === prefix;
+}
+
+function withoutUndefined<T extends object>(fields: T): T {
+  return Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined)
+  ) as T;
+}
@@ -6,13 +6,19 @@
 import { promises as fs } from "node:fs";
 import path from "node:path";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { S3Storage } from "@vamsa/api/storage";
+import { startS3StandIn } from "@vamsa/api/storage/s3-stand-in";
 import {
   cleanupOldImages,
+  generateDocumentImage,
+  generateRegionCrop,
   generateResponsiveSizes,
   generateThumbnail,
   generateWebP,
   getMediaDir,
   processUploadedImage,
+  rasterizeSvg,
+  readImageMetadata,
 } from "./processor";
 import type { ImageSize, ProcessedImage } from "./processor";
 
@@ -26,6 +32,24 @@ async function createTestImageFile(): Promise<Buffer> {
   return Buffer.from(pngBase64, "base64");
 }
 
+// Create a JPEG photo with a capture date, camera, caption and GPS position
+async function createTestPhotoFile(): Promise<Buffer> {
+  const sharp = (await import("sharp")).default;
+  return sharp(await createTestImageFile())
+    .withExif({
+      IFD0: { ImageDescription: "Picnic in the park", Model: "Canon EOS 5D" },
+      IFD2: { DateTimeOriginal: "2019:07:14 15:30:05" },
+      IFD3: {
+        GPSLatitudeRef: "N",
+        GPSLatitude: "51/1 30/1 0/1",
+        GPSLongitudeRef: "W",
+        GPSLongitude: "0/1 7/1 30/1",
+      },
+    })
+    .jpeg()
+    .toBuffer();
+}
+
 describe("Image Processing Pipeline", () => {
   const testMediaDir = path.join(process.cwd(), "test-media");
 
@@ -166,6 +190,50 @@ describe("Image Processing Pipeline", () => {
     });
   });
 
+  describe("generateRegionCrop", () => {
+    it("generates a square avatar of the given size", async () => {
+      const imageBuffer = await createTestImageFile();
+      const result = await generateRegionCrop(
+        imageBuffer,
+        { x: 0.1, y: 0.2, width: 0.3, height: 0.5 },
+        120
+      );
+
+      expect(result.width).toBe(120);
+      expect(result.height).toBe(120);
+
+      const sharp = (await import("sharp")).default;
+      const metadata = await sharp(result.buffer).metadata();
+      expect(metadata.format).toBe("webp");
+      expect(metadata.width).toBe(120);
+      expect(metadata.height).toBe(120);
+    });
+
+    it("uses default size of 300px", async () => {
+      const imageBuffer = await createTestImageFile();
+      const result = await generateRegionCrop(imageBuffer, {
+        x: 0,
+        y: 0,
+        width: 1,
+        height: 1,
+      });
+
+      expect(result.width).toBe(300);
+      expect(result.height).toBe(300);
+    });
+
+    it("crops regions touching the image edge", async () => {
+      const imageBuffer = await createTestImageFile();
+      const result = await generateRegionCrop(
+        imageBuffer,
+        { x: 0.95, y: 0.95, width: 0.05, height: 0.05 },
+        50
+      );
+
+      expect(result.buffer.length).toBeGreaterThan(0);
+    });
+  });
+
   describe("generateResponsiveSizes", () => {
     it("generates default responsive sizes (400, 800, 1200)", async () => {
       const imageBuffer = await createTestImageFile();
@@ -228,6 +296,46 @@ describe("Image Processing Pipeline", () => {
     });
   });
 
+  describe("rasterizeSvg", () => {
+    const svg =
+      '<svg xmlns="http://www.w3.org/2000/svg" width="40" height="20"><rect width="40" height="20" fill="#22573e"/></svg>';
+
+    it("renders SVG markup to PNG", async () => {
+      const result = await rasterizeSvg(svg, 1);
+
+      expect(result.subarray(1, 4).toString("ascii")).toBe("PNG");
+    });
+
+    it("scales the output by the density multiplier", async () => {
+      const sharp = (await import("sharp")).default;
+      const metadata = await sharp(await rasterizeSvg(svg, 2)).metadata();
+
+      expect(metadata.width).toBe(80);
+      expect(metadata.height).toBe(40);
+    });
+  });
+
+  describe("generateDocumentImage", () => {
+    it("converts a scan to JPEG without enlarging it", async () => {
+      const result = await generateDocumentImage(await createTestImageFile());
+
+      expect(result.buffer[0]).toBe(0xff);
+      expect(result.buffer[1]).toBe(0xd8);
+      expect(result.width).toBe(100);
+      expect(result.height).toBe(100);
+    });
+
+    it("shrinks large scans to the longest side", async () => {
+      const result = await generateDocumentImage(
+        await createTestImageFile(),
+        50
+      );
+
+      expect(result.width).toBe(50);
+      expect(result.height).toBe(50);
+    });
+  });
+
   describe("processUploadedImage", () => {
     it("processes uploaded image and returns all variants", async () => {
       const imageBuffer = await createTestImageFile();
@@ -380,6 +488,66 @@ describe("Image Processing Pipeline", () => {
       expect(result.responsive.length).toBe(2);
     });
 
+    it("returns the metadata embedded in the original", async () => {
+      const result = await processUploadedImage(
+        await createTestPhotoFile(),
+        "test-photo",
+        testMediaDir
+      );
+
+      expect(result.metadata).toMatchObject({
+        capturedAt: new Date("2019-07-14T15:30:05Z"),
+        camera: "Canon EOS 5D",
+        caption: "Picnic in the park",
+      });
+      expect(result.metadata?.latitude).toBeCloseTo(51.5, 4);
+    });
+
+    it("strips the GPS position from generated images by default", async () => {
+      const mediaId = "test-photo-stripped";
+      await processUploadedImage(
+        await createTestPhotoFile(),
+        mediaId,
+        testMediaDir
+      );
+
+      const webp = await fs.readFile(
+        path.join(testMediaDir, "webp", `${mediaId}.webp`)
+      );
+      const metadata = await readImageMetadata(webp);
+
+      expect(metadata?.caption).toBe("Picnic in the park");
+      expect(metadata?.latitude).toBeNull();
+      expect(metadata?.longitude).toBeNull();
+    });
+
+    it("keeps the GPS position when asked to", async () => {
+      const mediaId = "test-photo-located";
+      await processUploadedImage(
+        await createTestPhotoFile(),
+        mediaId,
+        testMediaDir,
+        { stripLocation: false }
+      );
+
+      const webp = await fs.readFile(
+        path.join(testMediaDir, "webp", `${mediaId}.webp`)
+      );
+      const metadata = await readImageMetadata(webp);
+
+      expect(metadata?.latitude).toBeCloseTo(51.5, 4);
+    });
+
+    it("returns null metadata for images without any", async () => {
+      const result = await processUploadedImage(
+        await createTestImageFile(),
+        "test-plain",
+        testMediaDir
+      );
+
+      expect(result.metadata).toBeNull();
+    });
+
     it("throws error on invalid image buffer", async () => {
       const invalidBuffer = Buffer.from([0x00, 0x01]);
 
@@ -529,6 +697,40 @@ describe("Image Processing Pipeline", () => {
     });
   });
 
+  describe("storage providers", () => {
+    it("writes and cleans up images in an S3 bucket", async () => {
+      const s3 = startS3StandIn();
+      try {
+        const storage = new S3Storage({
+          bucket: "media",
+          endpoint: s3.endpoint,
+          accessKeyId: "test",
+          secretAccessKey: "test",
+        });
+        const imageBuffer = await createTestImageFile();
+
+        const result = await processUploadedImage(imageBuffer, "s3", storage);
+
+        expect(result.webp.path).toBe("media/webp/s3.webp");
+        expect(await storage.list()).toEqual([
+          "responsive/s3_1200.webp",
+          "responsive/s3_400.webp",
+          "responsive/s3_800.webp",
+          "thumbnails/s3_thumb.webp",
+          "webp/s3.webp",
+        ]);
+        expect(s3.objects.get("media/webp/s3.webp")?.contentType).toBe(
+          "image/webp"
+        );
+
+        await cleanupOldImages("s3", storage);
+        expect(await storage.list()).toEqual([]);
+      } finally {
+        s3.stop();
+      }
+    });
+  });
+
   describe("getMediaDir", () => {
     it("returns MEDIA_STORAGE_PATH when set", () => {
       const originalEnv = process.env.MEDIA_STORAGE_PATH;
@@ -1,5 +1,13 @@
-import { promises as fs } from "node:fs";
-import path from "node:path";
+import { LocalStorage, getLocalMediaRoot } from "@vamsa/api/storage";
+import { regionToPixels } from "./image-utils";
+import {
+  extractImageMetadata,
+  findJpegMetadataBlocks,
+  toExifTagsWithoutLocation,
+} from "./metadata";
+import type { ExifTags, ImageMetadata } from "./metadata";
+import type { StorageProvider } from "@vamsa/api/storage";
+import type { MediaRegion } from "@vamsa/schemas";
 
 export interface ImageSize {
   width: number;
@@ -30,8 +38,15 @@ export interface ProcessedImage {
     height: number;
     size: number;
   }>;
+  metadata: ImageMetadata | null;
 }
 
+/**
+ * EXIF written to generated images: "keep" copies the input's EXIF,
+ * tags replace it, and undefined writes none
+ */
+export type DerivativeExif = "keep" | ExifTags | undefined;
+
 /**
  * Lazy-load sharp with graceful fallback.
  *
@@ -59,6 +74,17 @@ async function getSharp(): Promise<any | null> {
   }
 }
 
+/**
+ * Add the EXIF policy for generated images to a sharp pipeline. sharp
+ * writes no metadata unless asked to.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function applyExif(pipeline: any, exif: DerivativeExif): any {
+  if (exif === "keep") return pipeline.keepExif();
+  if (exif) return pipeline.withExif(exif);
+  return pipeline;
+}
+
 /**
  * Check if image processing is available (sharp is installed).
  */
@@ -71,7 +97,7 @@ export async function isImageProcessingAvailable(): Promise<boolean> {
  */
 export async function generateWebP(
   buffer: Buffer,
-  options: { quality?: number } = {}
+  options: { quality?: number; exif?: DerivativeExif } = {}
 ): Promise<{ buffer: Buffer; width: number; height: number }> {
   const sharp = await getSharp();
   if (!sharp) {
@@ -81,15 +107,17 @@ export async function generateWebP(
     );
   }
 
-  const { quality = 85 } = options;
+  const { quality = 85, exif } = options;
   const image = sharp(buffer);
   const metadata = await image.metadata();
 
-  const webpBuffer = await image
-    .resize(1200, 1200, {
+  const webpBuffer = await applyExif(
+    image.resize(1200, 1200, {
       fit: "inside",
       withoutEnlargement: true,
-    })
+    }),
+    exif
+  )
     .webp({ quality })
     .toBuffer();
 
@@ -106,6 +134,41 @@ export async function generateWebP(
 export async function generateThumbnail(
   buffer: Buffer,
   size: number = 300,
+  options: { quality?: number; exif?: DerivativeExif } = {}
+): Promise<{ buffer: Buffer; width: number; height: number }> {
+  const sharp = await getSharp();
+  if (!sharp) {
+    throw new Error("Image processing unavailable: sharp is not installed.");
+  }
+
+  const { quality = 80, exif } = options;
+  const thumbBuffer = await applyExif(
+    sharp(buffer).resize(size, size, {
+      fit: "cover",
+      position: "center",
+    }),
+    exif
+  )
+    .webp({ quality })
+    .toBuffer();
+
+  return {
+    buffer: thumbBuffer,
+    width: size,
+    height: size,
+  };
+}
+
+/**
+ * Crop a region of an image into a square avatar
+ *
+ * @param region - Region as fractions (0-1) of the image width and height
+ * @param size - Width and height of the avatar in pixels
+ */
+export async function generateRegionCrop(
+  buffer: Buffer,
+  region: MediaRegion,
+  size: number = 300,
   options: { quality?: number } = {}
 ): Promise<{ buffer: Buffer; width: number; height: number }> {
   const sharp = await getSharp();
@@ -114,7 +177,13 @@ export async function generateThumbnail(
   }
 
   const { quality = 80 } = options;
-  const thumbBuffer = await sharp(buffer)
+  const metadata = await sharp(buffer).metadata();
+  if (!metadata.width || !metadata.height) {
+    throw new Error("Cannot crop an image of unknown size");
+  }
+
+  const cropBuffer = await sharp(buffer)
+    .extract(regionToPixels(region, metadata.width, metadata.height))
     .resize(size, size, {
       fit: "cover",
       position: "center",
@@ -123,7 +192,7 @@ export async function generateThumbnail(
     .toBuffer();
 
   return {
-    buffer: thumbBuffer,
+    buffer: cropBuffer,
     width: size,
     height: size,
   };
@@ -139,7 +208,7 @@ export async function generateResponsiveSizes(
     { width: 800, label: "800" },
     { width: 1200, label: "1200" },
   ],
-  options: { quality?: number } = {}
+  options: { quality?: number; exif?: DerivativeExif } = {}
 ): Promise<
   Array<{
     buffer: Buffer;
@@ -153,17 +222,19 @@ export async function generateResponsiveSizes(
     throw new Error("Image processing unavailable: sharp is not installed.");
   }
 
-  const { quality = 85 } = options;
+  const { quality = 85, exif } = options;
   const image = sharp(buffer);
   const metadata = await image.metadata();
 
   const results = await Promise.all(
     sizes.map(async (size) => {
-      const responsive = await sharp(buffer)
-        .resize(size.width, size.width, {
+      const responsive = await applyExif(
+        sharp(buffer).resize(size.width, size.width, {
           fit: "inside",
           withoutEnlargement: true,
-        })
+        }),
+        exif
+      )
         .webp({ quality })
         .toBuffer();
 
@@ -179,33 +250,140 @@ export async function generateResponsiveSizes(
   return results;
 }
 
+/**
+ * Rasterize an SVG document to PNG
+ *
+ * @param svg - SVG markup whose width and height are in CSS pixels
+ * @param scale - Pixel density multiplier (2 renders at twice the size)
+ */
+export async function rasterizeSvg(
+  svg: string,
+  scale: number = 2
+): Promise<Buffer> {
+  const sharp = await getSharp();
+  if (!sharp) {
+    throw new Error("Image processing unavailable: sharp is not installed.");
+  }
+
+  return sharp(Buffer.from(svg), { density: 72 * scale })
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Render the first page of a PDF document to PNG. Needs a sharp build whose
+ * libvips includes a PDF loader (PDFium or poppler).
+ *
+ * @param density - Resolution to render at, in dots per inch
+ * @returns Rendered page, and the number of pages when libvips reports it
+ */
+export async function renderPdfFirstPage(
+  buffer: Buffer,
+  density: number = 150
+): Promise<{ buffer: Buffer; pageCount: number | null }> {
+  const sharp = await getSharp();
+  if (!sharp) {
+    throw new Error("Image processing unavailable: sharp is not installed.");
+  }
+
+  const page = sharp(buffer, { page: 0, density });
+  const { pages } = await page.metadata();
+  return {
+    buffer: await page.png().toBuffer(),
+    pageCount: typeof pages === "number" ? pages : null,
+  };
+}
+
+/**
+ * Prepare a scan or photo of a document for reading by the AI service:
+ * turned upright, no larger than it needs to be, as JPEG
+ *
+ * @param maxSize - Longest side in pixels; large enough for handwriting
+ */
+export async function generateDocumentImage(
+  buffer: Buffer,
+  maxSize: number = 2048,
+  options: { quality?: number } = {}
+): Promise<{ buffer: Buffer; width: number; height: number }> {
+  const sharp = await getSharp();
+  if (!sharp) {
+    throw new Error("Image processing unavailable: sharp is not installed.");
+  }
+
+  const { quality = 85 } = options;
+  const { data, info } = await sharp(buffer)
+    .rotate()
+    .resize(maxSize, maxSize, { fit: "inside", withoutEnlargement: true })
+    .jpeg({ quality })
+    .toBuffer({ resolveWithObject: true });
+
+  return { buffer: data, width: info.width, height: info.height };
+}
+
+/**
+ * Read the capture date, GPS position, camera and caption embedded in an
+ * image. Uses sharp when available, which understands every format it can
+ * decode; without it only JPEG files are read.
+ *
+ * @returns Metadata, or null when the image carries none
+ */
+export async function readImageMetadata(
+  buffer: Buffer
+): Promise<ImageMetadata | null> {
+  const sharp = await getSharp();
+  if (!sharp) {
+    return extractImageMetadata(findJpegMetadataBlocks(buffer));
+  }
+
+  try {
+    const { exif, iptc, xmp } = await sharp(buffer).metadata();
+    return extractImageMetadata({ exif, iptc, xmp });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Storage for processed images: a storage provider, or a media directory
+ * on the local file system
+ */
+export type MediaTarget = StorageProvider | string;
+
+function resolveStorage(target: MediaTarget): StorageProvider {
+  return typeof target === "string" ? new LocalStorage(target) : target;
+}
+
 /**
  * Process an uploaded image file
  * Generates WebP, thumbnail, and responsive versions
  *
+ * Generated images keep the original's capture date, camera and caption.
+ * Its GPS position is copied too unless `stripLocation` is set, which is
+ * the default. The stored original is never altered.
+ *
  * When sharp is unavailable (compiled binary mode), saves the original
  * image without optimization and returns paths pointing to the original.
  */
 export async function processUploadedImage(
   buffer: Buffer,
   mediaId: string,
-  mediaDir: string,
+  target: MediaTarget,
   options: {
     quality?: number;
     webpQuality?: number;
     thumbnailSize?: number;
     responsiveSizes?: Array<ImageSize>;
+    stripLocation?: boolean;
   } = {}
 ): Promise<ProcessedImage> {
   const sharp = await getSharp();
+  const storage = resolveStorage(target);
+  const embedded = await readImageMetadata(buffer);
 
   // Fallback: no image processing available (compiled binary mode)
   if (!sharp) {
     // Save original as-is — no WebP conversion, no thumbnails
-    const originalDir = path.join(mediaDir, "original");
-    await fs.mkdir(originalDir, { recursive: true });
-    const originalPath = path.join(originalDir, mediaId);
-    await fs.writeFile(originalPath, buffer);
+    await storage.put(`original/${mediaId}`, buffer);
 
     return {
       original: {
@@ -226,6 +404,7 @@ export async function processUploadedImage(
         size: buffer.length,
       },
       responsive: [],
+      metadata: embedded,
     };
   }
 
@@ -238,7 +417,11 @@ export async function processUploadedImage(
       { width: 800, label: "800" },
       { width: 1200, label: "1200" },
     ],
+    stripLocation = true,
   } = options;
+  const exif: DerivativeExif = stripLocation
+    ? (toExifTagsWithoutLocation(embedded) ?? undefined)
+    : "keep";
 
   // Get original image metadata
   const metadata = await sharp(buffer).metadata();
@@ -249,24 +432,21 @@ export async function processUploadedImage(
   const originalWidth = metadata.width;
   const originalHeight = metadata.height;
 
-  // Create directories if they don't exist
-  const dirs = [
-    path.join(mediaDir, "webp"),
-    path.join(mediaDir, "thumbnails"),
-    path.join(mediaDir, "responsive"),
-  ];
-
-  await Promise.all(dirs.map((dir) => fs.mkdir(dir, { recursive: true })));
-
   // Generate WebP version
-  const webpData = await generateWebP(buffer, { quality: webpQuality });
-  const webpPath = path.join(mediaDir, "webp", `${mediaId}.webp`);
-  await fs.writeFile(webpPath, webpData.buffer);
+  const webpData = await generateWebP(buffer, {
+    quality: webpQuality,
+    exif,
+  });
+  const webpKey = `webp/${mediaId}.webp`;
+  await storage.put(webpKey, webpData.buffer, "image/webp");
 
   // Generate thumbnail
-  const thumbData = await generateThumbnail(buffer, thumbnailSize, { quality });
-  const thumbPath = path.join(mediaDir, "thumbnails", `${mediaId}_thumb.webp`);
-  await fs.writeFile(thumbPath, thumbData.buffer);
+  const thumbData = await generateThumbnail(buffer, thumbnailSize, {
+    quality,
+    exif,
+  });
+  const thumbKey = `thumbnails/${mediaId}_thumb.webp`;
+  await storage.put(thumbKey, thumbData.buffer, "image/webp");
 
   // Generate responsive sizes
   const responsiveImages = await generateResponsiveSizes(
@@ -274,18 +454,15 @@ export async function processUploadedImage(
     responsiveSizes,
     {
       quality,
+      exif,
     }
   );
-  const responsivePaths = await Promise.all(
+  const responsive = await Promise.all(
     responsiveImages.map(async (img) => {
-      const responsivePath = path.join(
-        mediaDir,
-        "responsive",
-        `${mediaId}_${img.label}.webp`
-      );
-      await fs.writeFile(responsivePath, img.buffer);
+      const responsiveKey = `responsive/${mediaId}_${img.label}.webp`;
+      await storage.put(responsiveKey, img.buffer, "image/webp");
       return {
-        path: responsivePath,
+        path: `media/${responsiveKey}`,
         width: img.width,
         height: img.height,
         size: img.buffer.length,
@@ -300,23 +477,19 @@ export async function processUploadedImage(
       height: originalHeight,
     },
     webp: {
-      path: `media/webp/${mediaId}.webp`,
+      path: `media/${webpKey}`,
       width: webpData.width,
       height: webpData.height,
       size: webpData.buffer.length,
     },
     thumbnail: {
-      path: `media/thumbnails/${mediaId}_thumb.webp`,
+      path: `media/${thumbKey}`,
       width: thumbData.width,
       height: thumbData.height,
       size: thumbData.buffer.length,
     },
-    responsive: responsivePaths.map((p) => ({
-      path: `media/responsive/${path.basename(p.path)}`,
-      width: p.width,
-      height: p.height,
-      size: p.size,
-    })),
+    responsive,
+    metadata: embedded,
   };
 }
 
@@ -325,42 +498,24 @@ export async function processUploadedImage(
  */
 export async function cleanupOldImages(
   mediaId: string,
-  mediaDir: string
+  target: MediaTarget
 ): Promise<void> {
-  // Simple cleanup for non-glob patterns
-  const filesToDelete = [
-    path.join(mediaDir, "webp", `${mediaId}.webp`),
-    path.join(mediaDir, "thumbnails", `${mediaId}_thumb.webp`),
+  const storage = resolveStorage(target);
+  const keysToDelete = [
+    `webp/${mediaId}.webp`,
+    `thumbnails/${mediaId}_thumb.webp`,
+    `original/${mediaId}`,
   ];
 
-  // Also try to find responsive sizes
-  const responsiveDir = path.join(mediaDir, "responsive");
-  try {
-    const files = await fs.readdir(responsiveDir);
-    const mediaFiles = files.filter((f) => f.startsWith(`${mediaId}_`));
-    filesToDelete.push(...mediaFiles.map((f) => path.join(responsiveDir, f)));
-  } catch {
-    // Directory might not exist
-  }
+  // Also find responsive sizes
+  keysToDelete.push(...(await storage.list(`responsive/${mediaId}_`)));
 
-  await Promise.all(
-    filesToDelete.map(async (file) => {
-      try {
-        await fs.unlink(file);
-      } catch {
-        // File might not exist, that's okay
-      }
-    })
-  );
+  await Promise.all(keysToDelete.map((key) => storage.delete(key)));
 }
 
 /**
- * Get storage directory for media
+ * Get storage directory for media on the local file system
  */
 export function getMediaDir(): string {
-  if (process.env.MEDIA_STORAGE_PATH) {
-    return process.env.MEDIA_STORAGE_PATH;
-  }
-  // Use data/uploads/media directory
-  return path.join(process.cwd(), "data", "uploads", "media");
+  return getLocalMediaRoot();
 }
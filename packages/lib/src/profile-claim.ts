@@ -136,7 +136,7 @@ export function scoreProfileMatch(
  * - Removes extra whitespace
  * - Removes common titles/suffixes
  */
-function normalizeName(name: string): string {
+export function normalizeName(name: string): string {
   // Use split/filter/join instead of regex for whitespace normalization to avoid ReDoS
   const words = name
     .toLowerCase()
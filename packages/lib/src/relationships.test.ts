@@ -1,17 +1,22 @@
 import { describe, expect, it } from "vitest";
 import {
+  ALL_PARENT_PEDIGREES,
   ALL_RELATIONSHIP_TYPES,
   BLOOD_RELATIONSHIPS,
+  GODPARENT_RELATIONSHIPS,
   INLAW_RELATIONSHIPS,
   MARRIAGE_RELATIONSHIPS,
+  PARTNERSHIP_RELATIONSHIPS,
   RELATIONSHIP_TYPE_OPTIONS,
   STEP_RELATIONSHIPS,
   canCoexist,
   getInverseRelationship,
+  getPedigreeLabel,
   getRelationshipCategory,
   getRelationshipLabel,
   getRelationshipOptions,
   isBloodRelationship,
+  isCoupleRelationship,
   isDerivedRelationship,
   isInlawRelationship,
   isStepRelationship,
@@ -44,12 +49,39 @@ describe("Relationship Type Constants", () => {
     expect(STEP_RELATIONSHIPS).toHaveLength(3);
   });
 
+  it("PARTNERSHIP_RELATIONSHIPS contains partner", () => {
+    expect(PARTNERSHIP_RELATIONSHIPS).toEqual(["PARTNER"]);
+  });
+
+  it("GODPARENT_RELATIONSHIPS contains godparent types", () => {
+    expect(GODPARENT_RELATIONSHIPS).toEqual(["GODPARENT", "GODCHILD"]);
+  });
+
+  it("ALL_PARENT_PEDIGREES starts with birth", () => {
+    expect(ALL_PARENT_PEDIGREES[0]).toBe("BIRTH");
+    expect(ALL_PARENT_PEDIGREES).toHaveLength(5);
+  });
+
   it("ALL_RELATIONSHIP_TYPES includes all types", () => {
-    expect(ALL_RELATIONSHIP_TYPES).toHaveLength(10);
+    expect(ALL_RELATIONSHIP_TYPES).toHaveLength(13);
     expect(ALL_RELATIONSHIP_TYPES).toContain("PARENT");
     expect(ALL_RELATIONSHIP_TYPES).toContain("SPOUSE");
     expect(ALL_RELATIONSHIP_TYPES).toContain("PARENT_IN_LAW");
     expect(ALL_RELATIONSHIP_TYPES).toContain("STEP_PARENT");
+    expect(ALL_RELATIONSHIP_TYPES).toContain("PARTNER");
+    expect(ALL_RELATIONSHIP_TYPES).toContain("GODPARENT");
+  });
+});
+
+describe("isCoupleRelationship", () => {
+  it("returns true for spouses and partners", () => {
+    expect(isCoupleRelationship("SPOUSE")).toBe(true);
+    expect(isCoupleRelationship("PARTNER")).toBe(true);
+  });
+
+  it("returns false for other types", () => {
+    expect(isCoupleRelationship("PARENT")).toBe(false);
+    expect(isCoupleRelationship("SIBLING_IN_LAW")).toBe(false);
   });
 });
 
@@ -138,6 +170,15 @@ describe("getRelationshipCategory", () => {
     expect(getRelationshipCategory("STEP_CHILD")).toBe("step");
     expect(getRelationshipCategory("STEP_SIBLING")).toBe("step");
   });
+
+  it("returns partnership for partners", () => {
+    expect(getRelationshipCategory("PARTNER")).toBe("partnership");
+  });
+
+  it("returns godparent for godparent relationships", () => {
+    expect(getRelationshipCategory("GODPARENT")).toBe("godparent");
+    expect(getRelationshipCategory("GODCHILD")).toBe("godparent");
+  });
 });
 
 describe("getRelationshipLabel", () => {
@@ -230,6 +271,69 @@ describe("getRelationshipLabel", () => {
       expect(getRelationshipLabel("PARENT", null)).toBe("Parent");
     });
   });
+
+  describe("godparents and partners", () => {
+    it("returns gendered godparent labels", () => {
+      expect(getRelationshipLabel("GODPARENT")).toBe("Godparent");
+      expect(getRelationshipLabel("GODPARENT", "MALE")).toBe("Godfather");
+      expect(getRelationshipLabel("GODCHILD", "FEMALE")).toBe("Goddaughter");
+    });
+
+    it("returns partner for every gender", () => {
+      expect(getRelationshipLabel("PARTNER")).toBe("Partner");
+      expect(getRelationshipLabel("PARTNER", "MALE")).toBe("Partner");
+    });
+  });
+
+  describe("with pedigree", () => {
+    it("qualifies adoptive and foster parents", () => {
+      expect(getRelationshipLabel("PARENT", "MALE", "ADOPTED")).toBe(
+        "Adoptive father"
+      );
+      expect(getRelationshipLabel("PARENT", "FEMALE", "FOSTER")).toBe(
+        "Foster mother"
+      );
+      expect(getRelationshipLabel("PARENT", null, "ADOPTED")).toBe(
+        "Adoptive parent"
+      );
+    });
+
+    it("qualifies adopted and foster children", () => {
+      expect(getRelationshipLabel("CHILD", "MALE", "ADOPTED")).toBe(
+        "Adopted son"
+      );
+      expect(getRelationshipLabel("CHILD", "FEMALE", "FOSTER")).toBe(
+        "Foster daughter"
+      );
+    });
+
+    it("labels guardians and wards", () => {
+      expect(getRelationshipLabel("PARENT", "FEMALE", "GUARDIAN")).toBe(
+        "Guardian"
+      );
+      expect(getRelationshipLabel("CHILD", "MALE", "GUARDIAN")).toBe("Ward");
+    });
+
+    it("uses plain labels for birth and sealed links", () => {
+      expect(getRelationshipLabel("PARENT", "MALE", "BIRTH")).toBe("Father");
+      expect(getRelationshipLabel("CHILD", "FEMALE", "SEALED")).toBe(
+        "Daughter"
+      );
+    });
+
+    it("ignores pedigree on other types", () => {
+      expect(getRelationshipLabel("SIBLING", "MALE", "ADOPTED")).toBe(
+        "Brother"
+      );
+    });
+  });
+});
+
+describe("getPedigreeLabel", () => {
+  it("returns readable names", () => {
+    expect(getPedigreeLabel("BIRTH")).toBe("Birth");
+    expect(getPedigreeLabel("GUARDIAN")).toBe("Guardian");
+  });
 });
 
 describe("getInverseRelationship", () => {
@@ -254,15 +358,26 @@ describe("getInverseRelationship", () => {
     expect(getInverseRelationship("STEP_PARENT")).toBe("STEP_CHILD");
     expect(getInverseRelationship("STEP_CHILD")).toBe("STEP_PARENT");
   });
+
+  it("returns inverse for godparent-godchild", () => {
+    expect(getInverseRelationship("GODPARENT")).toBe("GODCHILD");
+    expect(getInverseRelationship("GODCHILD")).toBe("GODPARENT");
+  });
+
+  it("returns self for partners", () => {
+    expect(getInverseRelationship("PARTNER")).toBe("PARTNER");
+  });
 });
 
 describe("RELATIONSHIP_TYPE_OPTIONS", () => {
-  it("has all four categories", () => {
+  it("has all six categories", () => {
     const categories = RELATIONSHIP_TYPE_OPTIONS.map((g) => g.category);
     expect(categories).toContain("Blood Relatives");
     expect(categories).toContain("Marriage");
     expect(categories).toContain("In-Laws");
     expect(categories).toContain("Step Family");
+    expect(categories).toContain("Partnership");
+    expect(categories).toContain("Godparents");
   });
 
   it("has correct options in each category", () => {
@@ -285,18 +400,23 @@ describe("RELATIONSHIP_TYPE_OPTIONS", () => {
       (g) => g.category === "Step Family"
     );
     expect(stepGroup?.options).toHaveLength(3);
+
+    const godparentGroup = RELATIONSHIP_TYPE_OPTIONS.find(
+      (g) => g.category === "Godparents"
+    );
+    expect(godparentGroup?.options).toHaveLength(2);
   });
 });
 
 describe("getRelationshipOptions", () => {
   it("returns all options when no categories specified", () => {
     const options = getRelationshipOptions();
-    expect(options).toHaveLength(10);
+    expect(options).toHaveLength(13);
   });
 
   it("returns all options for empty array", () => {
     const options = getRelationshipOptions([]);
-    expect(options).toHaveLength(10);
+    expect(options).toHaveLength(13);
   });
 
   it("filters by blood category", () => {
@@ -325,6 +445,16 @@ describe("getRelationshipOptions", () => {
     expect(options.map((o) => o.value)).toContain("STEP_PARENT");
   });
 
+  it("filters by partnership and godparent categories", () => {
+    expect(getRelationshipOptions(["partnership"]).map((o) => o.value)).toEqual(
+      ["PARTNER"]
+    );
+    expect(getRelationshipOptions(["godparent"]).map((o) => o.value)).toEqual([
+      "GODPARENT",
+      "GODCHILD",
+    ]);
+  });
+
   it("combines multiple categories", () => {
     const options = getRelationshipOptions(["blood", "marriage"]);
     expect(options).toHaveLength(4);
@@ -352,6 +482,14 @@ describe("canCoexist", () => {
     expect(canCoexist("CHILD_IN_LAW", "PARENT_IN_LAW")).toBe(false);
   });
 
+  it("returns false for godparent-godchild conflict", () => {
+    expect(canCoexist("GODPARENT", "GODCHILD")).toBe(false);
+  });
+
+  it("returns true for parent and godparent", () => {
+    expect(canCoexist("PARENT", "GODPARENT")).toBe(true);
+  });
+
   it("returns true for sibling and sibling-in-law", () => {
     expect(canCoexist("SIBLING", "SIBLING_IN_LAW")).toBe(true);
   });
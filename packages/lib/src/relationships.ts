@@ -5,6 +5,7 @@
  * - Relationship type categorization
  * - Gender-aware relationship labels
  * - In-law and step relationship detection
+ * - Pedigree-aware parent and child labels (adopted, foster, guardian)
  */
 
 /**
@@ -23,7 +24,23 @@ export type RelationshipType =
   // Step relationships
   | "STEP_PARENT"
   | "STEP_CHILD"
-  | "STEP_SIBLING";
+  | "STEP_SIBLING"
+  // Non-marital partnership
+  | "PARTNER"
+  // Godparents
+  | "GODPARENT"
+  | "GODCHILD";
+
+/**
+ * How a parent is related to a child on a PARENT/CHILD link. A missing
+ * pedigree is treated as BIRTH.
+ */
+export type ParentPedigree =
+  | "BIRTH"
+  | "ADOPTED"
+  | "FOSTER"
+  | "GUARDIAN"
+  | "SEALED";
 
 /**
  * Gender types for relationship label formatting
@@ -33,7 +50,13 @@ export type Gender = "MALE" | "FEMALE" | "OTHER" | "PREFER_NOT_TO_SAY" | null;
 /**
  * Categories of relationship types
  */
-export type RelationshipCategory = "blood" | "marriage" | "inlaw" | "step";
+export type RelationshipCategory =
+  | "blood"
+  | "marriage"
+  | "partnership"
+  | "inlaw"
+  | "step"
+  | "godparent";
 
 /**
  * Core blood relationships (biological/adoptive)
@@ -49,6 +72,11 @@ export const BLOOD_RELATIONSHIPS: Array<RelationshipType> = [
  */
 export const MARRIAGE_RELATIONSHIPS: Array<RelationshipType> = ["SPOUSE"];
 
+/**
+ * Non-marital partnership (unmarried couples, with start and end dates)
+ */
+export const PARTNERSHIP_RELATIONSHIPS: Array<RelationshipType> = ["PARTNER"];
+
 /**
  * In-law relationships (created through marriage)
  */
@@ -67,14 +95,35 @@ export const STEP_RELATIONSHIPS: Array<RelationshipType> = [
   "STEP_SIBLING",
 ];
 
+/**
+ * Godparent relationships (spiritual, not genealogical)
+ */
+export const GODPARENT_RELATIONSHIPS: Array<RelationshipType> = [
+  "GODPARENT",
+  "GODCHILD",
+];
+
 /**
  * All relationship types
  */
 export const ALL_RELATIONSHIP_TYPES: Array<RelationshipType> = [
   ...BLOOD_RELATIONSHIPS,
   ...MARRIAGE_RELATIONSHIPS,
+  ...PARTNERSHIP_RELATIONSHIPS,
   ...INLAW_RELATIONSHIPS,
   ...STEP_RELATIONSHIPS,
+  ...GODPARENT_RELATIONSHIPS,
+];
+
+/**
+ * All parent pedigrees, in the order they are offered in the UI
+ */
+export const ALL_PARENT_PEDIGREES: Array<ParentPedigree> = [
+  "BIRTH",
+  "ADOPTED",
+  "FOSTER",
+  "GUARDIAN",
+  "SEALED",
 ];
 
 /**
@@ -98,6 +147,16 @@ export function isStepRelationship(type: RelationshipType): boolean {
   return STEP_RELATIONSHIPS.includes(type);
 }
 
+/**
+ * Check if a relationship type links a couple (married or not)
+ */
+export function isCoupleRelationship(type: RelationshipType): boolean {
+  return (
+    MARRIAGE_RELATIONSHIPS.includes(type) ||
+    PARTNERSHIP_RELATIONSHIPS.includes(type)
+  );
+}
+
 /**
  * Check if a relationship type is automatically derived (in-law or step)
  */
@@ -113,8 +172,10 @@ export function getRelationshipCategory(
 ): RelationshipCategory {
   if (BLOOD_RELATIONSHIPS.includes(type)) return "blood";
   if (MARRIAGE_RELATIONSHIPS.includes(type)) return "marriage";
+  if (PARTNERSHIP_RELATIONSHIPS.includes(type)) return "partnership";
   if (INLAW_RELATIONSHIPS.includes(type)) return "inlaw";
   if (STEP_RELATIONSHIPS.includes(type)) return "step";
+  if (GODPARENT_RELATIONSHIPS.includes(type)) return "godparent";
   return "blood"; // Default fallback
 }
 
@@ -132,6 +193,9 @@ const NEUTRAL_LABELS: Record<RelationshipType, string> = {
   STEP_PARENT: "Step-parent",
   STEP_CHILD: "Step-child",
   STEP_SIBLING: "Step-sibling",
+  PARTNER: "Partner",
+  GODPARENT: "Godparent",
+  GODCHILD: "Godchild",
 };
 
 /**
@@ -148,6 +212,9 @@ const MALE_LABELS: Record<RelationshipType, string> = {
   STEP_PARENT: "Step-father",
   STEP_CHILD: "Step-son",
   STEP_SIBLING: "Step-brother",
+  PARTNER: "Partner",
+  GODPARENT: "Godfather",
+  GODCHILD: "Godson",
 };
 
 /**
@@ -164,6 +231,58 @@ const FEMALE_LABELS: Record<RelationshipType, string> = {
   STEP_PARENT: "Step-mother",
   STEP_CHILD: "Step-daughter",
   STEP_SIBLING: "Step-sister",
+  PARTNER: "Partner",
+  GODPARENT: "Godmother",
+  GODCHILD: "Goddaughter",
+};
+
+/**
+ * Labels for parents and children whose link is not by birth, indexed by
+ * pedigree, then relationship type, then gender
+ */
+const PEDIGREE_LABELS: Record<
+  Exclude<ParentPedigree, "BIRTH" | "SEALED">,
+  Record<"PARENT" | "CHILD", { neutral: string; male: string; female: string }>
+> = {
+  ADOPTED: {
+    PARENT: {
+      neutral: "Adoptive parent",
+      male: "Adoptive father",
+      female: "Adoptive mother",
+    },
+    CHILD: {
+      neutral: "Adopted child",
+      male: "Adopted son",
+      female: "Adopted daughter",
+    },
+  },
+  FOSTER: {
+    PARENT: {
+      neutral: "Foster parent",
+      male: "Foster father",
+      female: "Foster mother",
+    },
+    CHILD: {
+      neutral: "Foster child",
+      male: "Foster son",
+      female: "Foster daughter",
+    },
+  },
+  GUARDIAN: {
+    PARENT: { neutral: "Guardian", male: "Guardian", female: "Guardian" },
+    CHILD: { neutral: "Ward", male: "Ward", female: "Ward" },
+  },
+};
+
+/**
+ * Labels for each pedigree, for UI select components
+ */
+const PEDIGREE_NAMES: Record<ParentPedigree, string> = {
+  BIRTH: "Birth",
+  ADOPTED: "Adopted",
+  FOSTER: "Foster",
+  GUARDIAN: "Guardian",
+  SEALED: "Sealed",
 };
 
 /**
@@ -171,6 +290,7 @@ const FEMALE_LABELS: Record<RelationshipType, string> = {
  *
  * @param type - The relationship type
  * @param gender - Optional gender for gender-specific labels
+ * @param pedigree - Optional pedigree of a PARENT or CHILD link
  * @returns Human-readable label
  *
  * @example
@@ -179,11 +299,26 @@ const FEMALE_LABELS: Record<RelationshipType, string> = {
  *
  * getRelationshipLabel("PARENT_IN_LAW", "MALE")
  * // "Father-in-law"
+ *
+ * getRelationshipLabel("PARENT", "FEMALE", "ADOPTED")
+ * // "Adoptive mother"
  */
 export function getRelationshipLabel(
   type: RelationshipType,
-  gender?: Gender
+  gender?: Gender,
+  pedigree?: ParentPedigree | null
 ): string {
+  if (
+    (type === "PARENT" || type === "CHILD") &&
+    pedigree &&
+    pedigree !== "BIRTH" &&
+    pedigree !== "SEALED"
+  ) {
+    const labels = PEDIGREE_LABELS[pedigree][type];
+    if (gender === "MALE") return labels.male;
+    if (gender === "FEMALE") return labels.female;
+    return labels.neutral;
+  }
   if (gender === "MALE") {
     return MALE_LABELS[type] || NEUTRAL_LABELS[type] || type;
   }
@@ -193,6 +328,16 @@ export function getRelationshipLabel(
   return NEUTRAL_LABELS[type] || type;
 }
 
+/**
+ * Get a human-readable name for a pedigree
+ *
+ * @example
+ * getPedigreeLabel("FOSTER") // "Foster"
+ */
+export function getPedigreeLabel(pedigree: ParentPedigree): string {
+  return PEDIGREE_NAMES[pedigree] || pedigree;
+}
+
 /**
  * Get the inverse relationship type
  *
@@ -217,6 +362,9 @@ export function getInverseRelationship(
     STEP_PARENT: "STEP_CHILD",
     STEP_CHILD: "STEP_PARENT",
     STEP_SIBLING: "STEP_SIBLING",
+    PARTNER: "PARTNER",
+    GODPARENT: "GODCHILD",
+    GODCHILD: "GODPARENT",
   };
   return inverses[type] || type;
 }
@@ -237,6 +385,10 @@ export const RELATIONSHIP_TYPE_OPTIONS = [
     category: "Marriage",
     options: [{ value: "SPOUSE" as RelationshipType, label: "Spouse" }],
   },
+  {
+    category: "Partnership",
+    options: [{ value: "PARTNER" as RelationshipType, label: "Partner" }],
+  },
   {
     category: "In-Laws",
     options: [
@@ -253,6 +405,13 @@ export const RELATIONSHIP_TYPE_OPTIONS = [
       { value: "STEP_SIBLING" as RelationshipType, label: "Step-sibling" },
     ],
   },
+  {
+    category: "Godparents",
+    options: [
+      { value: "GODPARENT" as RelationshipType, label: "Godparent" },
+      { value: "GODCHILD" as RelationshipType, label: "Godchild" },
+    ],
+  },
 ];
 
 /**
@@ -275,8 +434,10 @@ export function getRelationshipOptions(
   const categoryMap: Record<string, RelationshipCategory> = {
     "Blood Relatives": "blood",
     Marriage: "marriage",
+    Partnership: "partnership",
     "In-Laws": "inlaw",
     "Step Family": "step",
+    Godparents: "godparent",
   };
 
   return allOptions.filter((opt) => {
@@ -310,6 +471,10 @@ export function canCoexist(
   const inlawParentChild = new Set(["PARENT_IN_LAW", "CHILD_IN_LAW"]);
   if (inlawParentChild.has(type1) && inlawParentChild.has(type2)) return false;
 
+  // Godparent and godchild conflict
+  const godparentChild = new Set(["GODPARENT", "GODCHILD"]);
+  if (godparentChild.has(type1) && godparentChild.has(type2)) return false;
+
   // All other combinations can coexist (e.g., sibling + sibling-in-law in complex families)
   return true;
 }
@@ -9,6 +9,7 @@
 export {
   findRelationshipPath,
   calculateRelationshipName,
+  pedigreeKey,
   type RelationshipPath,
   type RelationshipMaps,
 } from "./path-finder";
@@ -4,8 +4,13 @@
  * Tests the path finding and relationship name calculation functionality
  */
 import { describe, expect, it } from "vitest";
-import { calculateRelationshipName, findRelationshipPath } from "./path-finder";
+import {
+  calculateRelationshipName,
+  findRelationshipPath,
+  pedigreeKey,
+} from "./path-finder";
 import type { RelationshipMaps, RelationshipNode } from "./path-finder";
+import type { ParentPedigree } from "../relationships";
 
 /**
  * Helper to create a person node
@@ -486,6 +491,121 @@ describe("findRelationshipPath", () => {
     });
   });
 
+  describe("pedigree and partner relationships", () => {
+    /**
+     * Record a non-birth pedigree for a parent-child pair
+     */
+    function withPedigree(
+      maps: RelationshipMaps,
+      parentId: string,
+      childId: string,
+      pedigree: ParentPedigree
+    ): RelationshipMaps {
+      const pedigrees = maps.pedigrees ?? new Map<string, ParentPedigree>();
+      pedigrees.set(pedigreeKey(childId, parentId), pedigree);
+      return { ...maps, pedigrees };
+    }
+
+    it("names an adoptive father", () => {
+      const [people, baseMaps] = createMaps([["dad", "kid"]]);
+      people.set("dad", createPerson("dad", "John", "Doe", "male"));
+      const maps = withPedigree(baseMaps, "dad", "kid", "ADOPTED");
+
+      const path = findRelationshipPath("kid", "dad", people, maps);
+
+      expect(path!.relationship).toBe("adoptive father");
+    });
+
+    it("names a foster daughter", () => {
+      const [people, baseMaps] = createMaps([["mum", "kid"]]);
+      people.set("kid", createPerson("kid", "Jane", "Doe", "female"));
+      const maps = withPedigree(baseMaps, "mum", "kid", "FOSTER");
+
+      const path = findRelationshipPath("mum", "kid", people, maps);
+
+      expect(path!.relationship).toBe("foster daughter");
+    });
+
+    it("names guardians and wards", () => {
+      const [people, baseMaps] = createMaps([["guardian", "kid"]]);
+      const maps = withPedigree(baseMaps, "guardian", "kid", "GUARDIAN");
+
+      expect(
+        findRelationshipPath("kid", "guardian", people, maps)!.relationship
+      ).toBe("guardian");
+      expect(
+        findRelationshipPath("guardian", "kid", people, maps)!.relationship
+      ).toBe("ward");
+    });
+
+    it("treats sealed links as plain parents", () => {
+      const [people, baseMaps] = createMaps([["dad", "kid"]]);
+      people.set("dad", createPerson("dad", "John", "Doe", "male"));
+      const maps = withPedigree(baseMaps, "dad", "kid", "SEALED");
+
+      const path = findRelationshipPath("kid", "dad", people, maps);
+
+      expect(path!.relationship).toBe("father");
+    });
+
+    it("treats adopted siblings as siblings", () => {
+      const [people, baseMaps] = createMaps([
+        ["parent", "sibling1"],
+        ["parent", "sibling2"],
+      ]);
+      people.set("sibling2", createPerson("sibling2", "Jack", "Doe", "male"));
+      const maps = withPedigree(baseMaps, "parent", "sibling2", "ADOPTED");
+
+      const path = findRelationshipPath("sibling1", "sibling2", people, maps);
+
+      expect(path!.relationship).toBe("brother");
+    });
+
+    it("prefixes relatives through a foster link", () => {
+      const [people, baseMaps] = createMaps([
+        ["parent", "sibling1"],
+        ["parent", "sibling2"],
+      ]);
+      people.set("sibling2", createPerson("sibling2", "Jane", "Doe", "female"));
+      const maps = withPedigree(baseMaps, "parent", "sibling1", "FOSTER");
+
+      const path = findRelationshipPath("sibling1", "sibling2", people, maps);
+
+      expect(path!.relationship).toBe("foster sister");
+    });
+
+    it("does not extend guardianship to other relatives", () => {
+      const [people, baseMaps] = createMaps([
+        ["grandparent", "guardian"],
+        ["guardian", "ward"],
+      ]);
+      const maps = withPedigree(baseMaps, "guardian", "ward", "GUARDIAN");
+
+      const path = findRelationshipPath("ward", "grandparent", people, maps);
+
+      expect(path!.relationship).toBe("relative through guardianship");
+    });
+
+    it("finds unmarried partners", () => {
+      const [people, baseMaps] = createMaps([["parent", "child"]]);
+      people.set("partner", createPerson("partner", "Sam", "Lee"));
+      const maps: RelationshipMaps = {
+        ...baseMaps,
+        partners: new Map([
+          ["parent", ["partner"]],
+          ["partner", ["parent"]],
+        ]),
+      };
+
+      expect(
+        findRelationshipPath("parent", "partner", people, maps)!.relationship
+      ).toBe("partner");
+      expect(
+        findRelationshipPath("child", "partner", people, maps)!.relationship
+      ).toBe("relative by partnership");
+    });
+  });
+
   describe("cousin relationships", () => {
     it("finds first cousin relationship", () => {
       const [people, maps] = createMaps([
@@ -9,8 +9,11 @@
  * - Calculating human-readable relationship names from paths
  * - Handling graphs with cycles (through marriages)
  * - Returning the complete path from one person to another
+ * - Qualifying names by pedigree (adoptive, foster, guardian) and partnership
  */
 
+import type { ParentPedigree } from "../relationships";
+
 export interface RelationshipNode {
   id: string;
   firstName: string;
@@ -31,15 +34,25 @@ export interface RelationshipMaps {
   parents: Map<string, Array<string>>; // person ID -> array of parent IDs
   children: Map<string, Array<string>>; // person ID -> array of children IDs
   spouses: Map<string, Array<string>>; // person ID -> array of spouse IDs
+  partners?: Map<string, Array<string>>; // person ID -> array of unmarried partner IDs
+  pedigrees?: Map<string, ParentPedigree>; // pedigreeKey(child, parent) -> non-birth pedigree
+}
+
+/**
+ * Key of a parent link in RelationshipMaps.pedigrees
+ */
+export function pedigreeKey(childId: string, parentId: string): string {
+  return `${childId}:${parentId}`;
 }
 
 /**
  * Internal structure for tracking edges in the BFS traversal
  */
 interface EdgeInfo {
-  type: "parent" | "child" | "spouse";
+  type: "parent" | "child" | "spouse" | "partner";
   from: string;
   to: string;
+  pedigree?: ParentPedigree;
 }
 
 /**
@@ -47,7 +60,7 @@ interface EdgeInfo {
  *
  * Algorithm:
  * 1. Handle self-relationship (same ID returns distance 0)
- * 2. BFS from person1, exploring parents, children, and spouses
+ * 2. BFS from person1, exploring parents, children, spouses and partners
  * 3. Track visited nodes to avoid cycles
  * 4. Track edge types for relationship naming
  * 5. When person2 found, calculate relationship name
@@ -116,14 +129,22 @@ export function findRelationshipPath(
     if (!current) break;
 
     // Check all neighbors
-    const neighbors: Array<{ id: string; type: EdgeInfo["type"] }> = [];
+    const neighbors: Array<{
+      id: string;
+      type: EdgeInfo["type"];
+      pedigree?: ParentPedigree;
+    }> = [];
 
     // Parents
     const parentIds = maps.parents.get(current.id);
     if (parentIds) {
       for (const parentId of parentIds) {
         if (people.has(parentId)) {
-          neighbors.push({ id: parentId, type: "parent" });
+          neighbors.push({
+            id: parentId,
+            type: "parent",
+            pedigree: maps.pedigrees?.get(pedigreeKey(current.id, parentId)),
+          });
         }
       }
     }
@@ -133,7 +154,11 @@ export function findRelationshipPath(
     if (childIds) {
       for (const childId of childIds) {
         if (people.has(childId)) {
-          neighbors.push({ id: childId, type: "child" });
+          neighbors.push({
+            id: childId,
+            type: "child",
+            pedigree: maps.pedigrees?.get(pedigreeKey(childId, current.id)),
+          });
         }
       }
     }
@@ -148,19 +173,22 @@ export function findRelationshipPath(
       }
     }
 
+    // Unmarried partners
+    const partnerIds = maps.partners?.get(current.id);
+    if (partnerIds) {
+      for (const partnerId of partnerIds) {
+        if (people.has(partnerId)) {
+          neighbors.push({ id: partnerId, type: "partner" });
+        }
+      }
+    }
+
     // Process each neighbor
     for (const neighbor of neighbors) {
       if (neighbor.id === person2Id) {
         // Found the target!
         const finalPath = [...current.path, neighbor.id];
-        const finalEdges = [
-          ...current.edges,
-          {
-            type: neighbor.type,
-            from: current.id,
-            to: neighbor.id,
-          },
-        ];
+        const finalEdges = [...current.edges, toEdge(current.id, neighbor)];
 
         const pathNodes = finalPath
           .map((id) => people.get(id))
@@ -185,14 +213,7 @@ export function findRelationshipPath(
         queue.push({
           id: neighbor.id,
           path: [...current.path, neighbor.id],
-          edges: [
-            ...current.edges,
-            {
-              type: neighbor.type,
-              from: current.id,
-              to: neighbor.id,
-            },
-          ],
+          edges: [...current.edges, toEdge(current.id, neighbor)],
         });
       }
     }
@@ -201,14 +222,31 @@ export function findRelationshipPath(
   return null;
 }
 
+/**
+ * Build the edge for a BFS step, keeping the pedigree only when it is set
+ */
+function toEdge(
+  from: string,
+  neighbor: { id: string; type: EdgeInfo["type"]; pedigree?: ParentPedigree }
+): EdgeInfo {
+  const edge: EdgeInfo = { type: neighbor.type, from, to: neighbor.id };
+  if (neighbor.pedigree) edge.pedigree = neighbor.pedigree;
+  return edge;
+}
+
 /**
  * Calculate human-readable relationship name from a path
  *
  * Handles:
- * - Direct relationships (parent, child, sibling, spouse)
+ * - Direct relationships (parent, child, sibling, spouse, partner)
+ * - Adoptive, foster and guardian links ("adoptive father", "foster son", "ward")
  * - Extended relationships (grandparent, great-grandparent, aunt/uncle, niece/nephew)
  * - Cousin relationships (to be enhanced by cousin-finder.ts)
  *
+ * Adopted and sealed links count as full family links beyond the first
+ * step. A foster link anywhere in a longer path prefixes the name with
+ * "foster", and a guardianship link makes it "relative through guardianship".
+ *
  * @param path - Array of nodes representing the relationship path
  * @param people - Map of all people in the family tree
  * @param maps - Relationship maps for parent/child lookups
@@ -235,14 +273,21 @@ export function calculateRelationshipName(
     const targetPerson = path[1];
 
     if (firstEdge.type === "parent") {
-      return targetPerson.gender === "male" ? "father" : "mother";
+      if (firstEdge.pedigree === "GUARDIAN") return "guardian";
+      const parent = targetPerson.gender === "male" ? "father" : "mother";
+      return `${DIRECT_PARENT_PREFIX[firstEdge.pedigree ?? "BIRTH"]}${parent}`;
     }
     if (firstEdge.type === "child") {
-      return targetPerson.gender === "male" ? "son" : "daughter";
+      if (firstEdge.pedigree === "GUARDIAN") return "ward";
+      const child = targetPerson.gender === "male" ? "son" : "daughter";
+      return `${DIRECT_CHILD_PREFIX[firstEdge.pedigree ?? "BIRTH"]}${child}`;
     }
     if (firstEdge.type === "spouse") {
       return targetPerson.gender === "male" ? "husband" : "wife";
     }
+    if (firstEdge.type === "partner") {
+      return "partner";
+    }
     return "relative";
   }
 
@@ -251,6 +296,46 @@ export function calculateRelationshipName(
     return "distant relative";
   }
 
+  if (edges.some((e) => e.pedigree === "GUARDIAN")) {
+    return "relative through guardianship";
+  }
+
+  const name = calculateExtendedName(path, maps, edges);
+  if (
+    edges.some((e) => e.pedigree === "FOSTER") &&
+    !name.includes("relative")
+  ) {
+    return `foster ${name}`;
+  }
+  return name;
+}
+
+/** Prefix of a direct parent's name by pedigree (guardians are named separately) */
+const DIRECT_PARENT_PREFIX: Record<ParentPedigree, string> = {
+  BIRTH: "",
+  ADOPTED: "adoptive ",
+  FOSTER: "foster ",
+  GUARDIAN: "",
+  SEALED: "",
+};
+
+/** Prefix of a direct child's name by pedigree (wards are named separately) */
+const DIRECT_CHILD_PREFIX: Record<ParentPedigree, string> = {
+  BIRTH: "",
+  ADOPTED: "adopted ",
+  FOSTER: "foster ",
+  GUARDIAN: "",
+  SEALED: "",
+};
+
+/**
+ * Name a path of three or more people from the shape of its edges
+ */
+function calculateExtendedName(
+  path: Array<RelationshipNode>,
+  maps: RelationshipMaps,
+  edges: Array<EdgeInfo>
+): string {
   const targetPerson = path[path.length - 1];
 
   // Count parent/child edges in sequence to determine degree of relationship
@@ -318,6 +403,10 @@ export function calculateRelationshipName(
     return "relative by marriage";
   }
 
+  if (edges.some((e) => e.type === "partner")) {
+    return "relative by partnership";
+  }
+
   // Cousin relationships (to be enhanced by cousin-finder.ts)
   // For now, return generic "cousin"
   if (upCount >= 1 && downCount >= 1 && upCount === downCount) {
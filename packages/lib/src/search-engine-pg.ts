@@ -10,10 +10,20 @@
 
 import {
   buildCombinedSearchQuery,
+  buildEntitySearchCountQuery,
+  buildEntitySearchQuery,
   buildPersonSearchCountQuery,
+  buildTsQuery,
 } from "./search";
+import { SEARCH_ENTITY_TYPES, emptySearchFacets } from "./search-engine";
 import type { SearchConfig, SearchResults } from "./search";
-import type { SearchEngine, SearchPersonRow } from "./search-engine";
+import type {
+  EntitySearchConfig,
+  EntitySearchResults,
+  SearchEngine,
+  SearchEntityType,
+  SearchPersonRow,
+} from "./search-engine";
 
 /**
  * Minimal interface for a PostgreSQL query client.
@@ -85,4 +95,65 @@ export class PgSearchEngine implements SearchEngine {
       queryTime: Date.now() - startTime,
     };
   }
+
+  async searchEntities(
+    query: string,
+    config: EntitySearchConfig = {}
+  ): Promise<EntitySearchResults> {
+    const startTime = Date.now();
+    const entityTypes = config.entityTypes ?? [...SEARCH_ENTITY_TYPES];
+    const facets = emptySearchFacets();
+
+    const tsquery = buildTsQuery(query, config);
+    if (!tsquery || entityTypes.length === 0) {
+      return {
+        results: [],
+        total: 0,
+        facets,
+        queryTime: Date.now() - startTime,
+      };
+    }
+
+    const { sql: searchSql, params: searchParams } = buildEntitySearchQuery(
+      tsquery,
+      entityTypes,
+      { limit: config.limit, offset: config.offset }
+    );
+    const { sql: countSql, params: countParams } = buildEntitySearchCountQuery(
+      tsquery,
+      entityTypes
+    );
+
+    const [rawResults, countResult] = await Promise.all([
+      this.client.query(searchSql, searchParams),
+      this.client.query(countSql, countParams),
+    ]);
+
+    for (const row of countResult.rows) {
+      facets[row.entityType as SearchEntityType] = Number(row.total) || 0;
+    }
+
+    const results = rawResults.rows.map((row) => {
+      const rank = Number(row.rank) || 0;
+      return {
+        item: {
+          entityType: row.entityType as SearchEntityType,
+          id: row.id as string,
+          title: (row.title as string | null) ?? "",
+          subtitle: (row.subtitle as string | null) ?? null,
+          personId: (row.personId as string | null) ?? null,
+          privacy: (row.privacy as string | null) ?? null,
+          rank,
+        },
+        rank,
+      };
+    });
+
+    return {
+      results,
+      total: Object.values(facets).reduce((sum, count) => sum + count, 0),
+      facets,
+      queryTime: Date.now() - startTime,
+    };
+  }
 }
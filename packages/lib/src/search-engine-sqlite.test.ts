@@ -921,4 +921,185 @@ describe("SqliteSearchEngine", () => {
       expect(searchSql).toContain("Person");
     });
   });
+
+  describe("searchEntities", () => {
+    /**
+     * Mock client returning per-type count rows first, then search rows.
+     * With `failFts`, the first (FTS5 count) call throws.
+     */
+    function createEntityClient(
+      options: {
+        counts?: Array<Record<string, unknown>>;
+        rows?: Array<Record<string, unknown>>;
+        failFts?: boolean;
+      } = {}
+    ) {
+      const capturedSql: Array<string> = [];
+      const capturedParams: Array<Array<unknown>> = [];
+      let callIndex = 0;
+
+      const client: MockSqliteClient = {
+        prepare: vi.fn((sql: string) => {
+          capturedSql.push(sql);
+          return {
+            all: vi.fn((...params: Array<unknown>) => {
+              capturedParams.push(params);
+              const index = callIndex++;
+              if (options.failFts && index === 0) {
+                throw new Error("no such table: entity_search_fts");
+              }
+              const countIndex = options.failFts ? 1 : 0;
+              return index === countIndex
+                ? (options.counts ?? [])
+                : (options.rows ?? []);
+            }),
+          };
+        }),
+      };
+
+      return { client, capturedSql, capturedParams };
+    }
+
+    it("returns empty results and zero facets for an empty query", async () => {
+      const { client } = createEntityClient();
+      const engine = new SqliteSearchEngine(client as never);
+
+      const result = await engine.searchEntities("  ");
+
+      expect(result.results).toEqual([]);
+      expect(result.total).toBe(0);
+      expect(result.facets).toEqual({
+        event: 0,
+        place: 0,
+        source: 0,
+        researchNote: 0,
+        media: 0,
+      });
+      expect(client.prepare).not.toHaveBeenCalled();
+    });
+
+    it("queries entity_search_fts with prefix terms and all entity types", async () => {
+      const { client, capturedSql, capturedParams } = createEntityClient();
+      const engine = new SqliteSearchEngine(client as never);
+
+      await engine.searchEntities("mumbai wed");
+
+      expect(capturedSql[0]).toContain("entity_search_fts MATCH ?");
+      expect(capturedParams[0]).toEqual([
+        "mumbai* wed*",
+        "event",
+        "place",
+        "source",
+        "researchNote",
+        "media",
+      ]);
+    });
+
+    it("skips the search query when nothing matches", async () => {
+      const { client } = createEntityClient({ counts: [] });
+      const engine = new SqliteSearchEngine(client as never);
+
+      const result = await engine.searchEntities("nothing");
+
+      expect(result.total).toBe(0);
+      expect(client.prepare).toHaveBeenCalledTimes(1);
+    });
+
+    it("restricts the search to the requested entity types", async () => {
+      const { client, capturedParams } = createEntityClient();
+      const engine = new SqliteSearchEngine(client as never);
+
+      await engine.searchEntities("census", {
+        entityTypes: ["source", "researchNote"],
+      });
+
+      expect(capturedParams[0]).toEqual(["census*", "source", "researchNote"]);
+    });
+
+    it("maps rows and facet counts", async () => {
+      const { client, capturedParams } = createEntityClient({
+        counts: [
+          { entityType: "place", total: 3 },
+          { entityType: "event", total: 1 },
+        ],
+        rows: [
+          {
+            entityType: "place",
+            id: "place-1",
+            title: "Mumbai",
+            subtitle: "Formerly Bombay",
+            personId: null,
+            privacy: null,
+            rank: -4.5,
+          },
+          {
+            entityType: "event",
+            id: "event-1",
+            title: "Wedding in Mumbai",
+            subtitle: null,
+            personId: "person-1",
+            privacy: "ADMIN_ONLY",
+            rank: -2,
+          },
+        ],
+      });
+      const engine = new SqliteSearchEngine(client as never);
+
+      const result = await engine.searchEntities("mumbai", {
+        limit: 5,
+        offset: 5,
+      });
+
+      expect(result.total).toBe(4);
+      expect(result.facets.place).toBe(3);
+      expect(result.facets.event).toBe(1);
+      expect(result.facets.media).toBe(0);
+      expect(result.results[0]).toEqual({
+        item: {
+          entityType: "place",
+          id: "place-1",
+          title: "Mumbai",
+          subtitle: "Formerly Bombay",
+          personId: null,
+          privacy: null,
+          rank: 4.5,
+        },
+        rank: 4.5,
+      });
+      expect(result.results[1].item.personId).toBe("person-1");
+      expect(result.results[1].item.privacy).toBe("ADMIN_ONLY");
+      // Pagination bounds are per entity type: (offset, offset + limit]
+      expect(capturedParams[1].slice(-2)).toEqual([5, 10]);
+    });
+
+    it("falls back to LIKE matching when the FTS5 table is missing", async () => {
+      const { client, capturedSql, capturedParams } = createEntityClient({
+        failFts: true,
+        counts: [{ entityType: "source", total: 1 }],
+        rows: [
+          {
+            entityType: "source",
+            id: "source-1",
+            title: "1901 Census",
+            subtitle: "Registrar General",
+            personId: null,
+            privacy: null,
+            rank: 2,
+          },
+        ],
+      });
+      const engine = new SqliteSearchEngine(client as never);
+
+      const result = await engine.searchEntities("census", {
+        entityTypes: ["source"],
+      });
+
+      expect(result.total).toBe(1);
+      expect(result.results[0].item.title).toBe("1901 Census");
+      expect(result.results[0].rank).toBe(2);
+      expect(capturedSql[1]).toContain('FROM "Source" s');
+      expect(capturedSql[1]).not.toContain("entity_search_fts");
+      expect(capturedParams[1]).toContain("%census%");
+    });
+  });
 });
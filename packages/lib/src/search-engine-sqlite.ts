@@ -5,6 +5,10 @@
  * Searches across firstName, lastName, maidenName, bio, birthPlace, nativePlace,
  * and profession fields. Falls back to LIKE-based matching if FTS5 table doesn't exist.
  *
+ * Entity search (events, places, sources, research notes, media) uses the
+ * shared entity_search_fts table, where each row holds a weighted `title`
+ * and a `body` column, with the same LIKE fallback.
+ *
  * FTS5 provides:
  * - Phrase search and prefix search support
  * - Built-in ranking by relevance
@@ -13,10 +17,18 @@
  */
 
 import { sanitizeQuery } from "./search";
+import { SEARCH_ENTITY_TYPES, emptySearchFacets } from "./search-engine";
 import { logger } from "./logger";
 
 import type { SearchConfig, SearchResults } from "./search";
-import type { SearchEngine, SearchPersonRow } from "./search-engine";
+import type {
+  EntitySearchConfig,
+  EntitySearchResults,
+  SearchEngine,
+  SearchEntityRow,
+  SearchEntityType,
+  SearchPersonRow,
+} from "./search-engine";
 
 /**
  * Minimal interface for a SQLite query client.
@@ -28,6 +40,75 @@ interface SqliteQueryClient {
   };
 }
 
+/**
+ * Display and match columns per entity type. `title` columns score above
+ * `body` columns in both the FTS5 table and the LIKE fallback.
+ */
+const ENTITY_SEARCH_SOURCES: Record<
+  SearchEntityType,
+  {
+    table: string;
+    alias: string;
+    title: string;
+    subtitle: string;
+    personId: string;
+    privacy: string;
+    titleColumns: Array<string>;
+    bodyColumns: Array<string>;
+  }
+> = {
+  event: {
+    table: "Event",
+    alias: "e",
+    title: "coalesce(e.description, e.type)",
+    subtitle: "e.place",
+    personId: 'e."personId"',
+    privacy: "e.privacy",
+    titleColumns: ["e.description"],
+    bodyColumns: ["e.place"],
+  },
+  place: {
+    table: "Place",
+    alias: "pl",
+    title: "pl.name",
+    subtitle: "pl.description",
+    personId: "NULL",
+    privacy: "NULL",
+    titleColumns: ["pl.name"],
+    bodyColumns: ["pl.description", 'pl."alternativeNames"'],
+  },
+  source: {
+    table: "Source",
+    alias: "s",
+    title: "s.title",
+    subtitle: "s.author",
+    personId: "NULL",
+    privacy: "NULL",
+    titleColumns: ["s.title"],
+    bodyColumns: ["s.author", "s.description"],
+  },
+  researchNote: {
+    table: "ResearchNote",
+    alias: "rn",
+    title: "rn.findings",
+    subtitle: 'rn."eventType"',
+    personId: 'rn."personId"',
+    privacy: "NULL",
+    titleColumns: ["rn.findings"],
+    bodyColumns: [],
+  },
+  media: {
+    table: "MediaObject",
+    alias: "mo",
+    title: "coalesce(mo.title, '')",
+    subtitle: "mo.description",
+    personId: "NULL",
+    privacy: "mo.privacy",
+    titleColumns: ["mo.title"],
+    bodyColumns: ["mo.description"],
+  },
+};
+
 /**
  * SQLite search engine using FTS5 with automatic fallback to LIKE.
  *
@@ -270,6 +351,287 @@ export class SqliteSearchEngine implements SearchEngine {
       queryTime: Date.now() - startTime,
     };
   }
+
+  async searchEntities(
+    query: string,
+    config: EntitySearchConfig = {}
+  ): Promise<EntitySearchResults> {
+    const startTime = Date.now();
+    const { limit = 20, offset = 0 } = config;
+    const entityTypes = config.entityTypes ?? [...SEARCH_ENTITY_TYPES];
+
+    const sanitized = sanitizeQuery(query);
+    if (!sanitized || entityTypes.length === 0) {
+      return {
+        results: [],
+        total: 0,
+        facets: emptySearchFacets(),
+        queryTime: Date.now() - startTime,
+      };
+    }
+
+    try {
+      return await this.searchEntitiesWithFts5(
+        sanitized,
+        entityTypes,
+        limit,
+        offset,
+        startTime
+      );
+    } catch (error) {
+      logger.debug(
+        { error: String(error) },
+        "FTS5 entity search failed, falling back to LIKE-based search"
+      );
+      return await this.searchEntitiesWithLike(
+        sanitized,
+        entityTypes,
+        limit,
+        offset,
+        startTime
+      );
+    }
+  }
+
+  /**
+   * Search entities using the entity_search_fts table.
+   * bm25 weights the `title` column 10x over `body`.
+   */
+  private async searchEntitiesWithFts5(
+    sanitized: string,
+    entityTypes: Array<SearchEntityType>,
+    limit: number,
+    offset: number,
+    startTime: number
+  ): Promise<EntitySearchResults> {
+    const fts5Query = sanitized
+      .split(/\s+/)
+      .filter((t) => t.length > 0)
+      .map((term) => `${escapeFts5Term(term)}*`)
+      .join(" ");
+    const typePlaceholders = entityTypes.map(() => "?").join(", ");
+
+    // Count query, one row per entity type
+    const countSql = `
+      SELECT entityType, COUNT(*) as total
+      FROM entity_search_fts
+      WHERE entity_search_fts MATCH ? AND entityType IN (${typePlaceholders})
+      GROUP BY entityType
+    `;
+    const countRows = this.client
+      .prepare(countSql)
+      .all(fts5Query, ...entityTypes);
+    const facets = toFacets(countRows);
+    const total = sumFacets(facets);
+
+    if (total === 0) {
+      return {
+        results: [],
+        total: 0,
+        facets,
+        queryTime: Date.now() - startTime,
+      };
+    }
+
+    // Rank within each entity type, then join back for display columns.
+    // bm25 is negative (lower is better), so ascending order gives best first.
+    const searchSql = `
+      WITH hits AS (
+        SELECT entityType, id, bm25(entity_search_fts, 0.0, 0.0, 10.0, 1.0) AS score
+        FROM entity_search_fts
+        WHERE entity_search_fts MATCH ? AND entityType IN (${typePlaceholders})
+      ),
+      ranked AS (
+        SELECT hits.*,
+          ROW_NUMBER() OVER (PARTITION BY entityType ORDER BY score ASC, id) AS position
+        FROM hits
+      )
+      SELECT r.entityType, r.id, r.score AS rank,
+        ${entityCase("title")} AS title,
+        ${entityCase("subtitle")} AS subtitle,
+        ${entityCase("personId")} AS "personId",
+        ${entityCase("privacy")} AS privacy
+      FROM ranked r
+      ${entityJoins()}
+      WHERE r.position > ? AND r.position <= ?
+      ORDER BY r.score ASC
+    `;
+
+    const rows = this.client
+      .prepare(searchSql)
+      .all(fts5Query, ...entityTypes, offset, offset + limit);
+
+    return {
+      results: rows.map((row) =>
+        toEntityResult(row, Math.abs(Number(row.rank) || 0))
+      ),
+      total,
+      facets,
+      queryTime: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Fallback entity search using LIKE-based matching.
+   * Every term must match some column; each title match scores 2 points
+   * and each body match 1 point.
+   */
+  private async searchEntitiesWithLike(
+    sanitized: string,
+    entityTypes: Array<SearchEntityType>,
+    limit: number,
+    offset: number,
+    startTime: number
+  ): Promise<EntitySearchResults> {
+    const terms = sanitized
+      .toLowerCase()
+      .split(/\s+/)
+      .filter((t) => t.length > 0);
+
+    if (terms.length === 0) {
+      return {
+        results: [],
+        total: 0,
+        facets: emptySearchFacets(),
+        queryTime: Date.now() - startTime,
+      };
+    }
+
+    const selects: Array<string> = [];
+    const params: Array<unknown> = [];
+
+    for (const type of entityTypes) {
+      const source = ENTITY_SEARCH_SOURCES[type];
+      const columns = [...source.titleColumns, ...source.bodyColumns];
+      const like = (column: string) =>
+        `LOWER(COALESCE(${column}, '')) LIKE ? ESCAPE '\\'`;
+
+      const scoreParts: Array<string> = [];
+      const whereParts: Array<string> = [];
+      const scoreParams: Array<unknown> = [];
+      const whereParams: Array<unknown> = [];
+
+      for (const term of terms) {
+        const pattern = `%${escapeSqliteLike(term)}%`;
+        for (const column of source.titleColumns) {
+          scoreParts.push(`(CASE WHEN ${like(column)} THEN 2 ELSE 0 END)`);
+          scoreParams.push(pattern);
+        }
+        for (const column of source.bodyColumns) {
+          scoreParts.push(`(CASE WHEN ${like(column)} THEN 1 ELSE 0 END)`);
+          scoreParams.push(pattern);
+        }
+        whereParts.push(`(${columns.map(like).join(" OR ")})`);
+        whereParams.push(...columns.map(() => pattern));
+      }
+
+      selects.push(`
+        SELECT '${type}' AS entityType, ${source.alias}.id AS id,
+          ${source.title} AS title,
+          ${source.subtitle} AS subtitle,
+          ${source.personId} AS "personId",
+          ${source.privacy} AS privacy,
+          (${scoreParts.join(" + ")}) AS score
+        FROM "${source.table}" ${source.alias}
+        WHERE ${whereParts.join(" AND ")}`);
+      params.push(...scoreParams, ...whereParams);
+    }
+
+    const matchesSql = selects.join("\n        UNION ALL");
+
+    const countSql = `
+      SELECT entityType, COUNT(*) as total
+      FROM (${matchesSql}) matches
+      GROUP BY entityType
+    `;
+    const facets = toFacets(this.client.prepare(countSql).all(...params));
+    const total = sumFacets(facets);
+
+    const searchSql = `
+      WITH ranked AS (
+        SELECT matches.*,
+          ROW_NUMBER() OVER (PARTITION BY entityType ORDER BY score DESC, id) AS position
+        FROM (${matchesSql}) matches
+      )
+      SELECT entityType, id, title, subtitle, "personId", privacy, score AS rank
+      FROM ranked
+      WHERE position > ? AND position <= ?
+      ORDER BY score DESC
+    `;
+    const rows = this.client
+      .prepare(searchSql)
+      .all(...params, offset, offset + limit);
+
+    return {
+      results: rows.map((row) => toEntityResult(row, Number(row.rank) || 0)),
+      total,
+      facets,
+      queryTime: Date.now() - startTime,
+    };
+  }
+}
+
+/**
+ * Build a CASE expression picking a display column by entity type
+ */
+function entityCase(
+  column: "title" | "subtitle" | "personId" | "privacy"
+): string {
+  const branches = SEARCH_ENTITY_TYPES.map(
+    (type) => `WHEN '${type}' THEN ${ENTITY_SEARCH_SOURCES[type][column]}`
+  ).join(" ");
+  return `CASE r.entityType ${branches} END`;
+}
+
+/**
+ * LEFT JOIN every entity table onto FTS hits aliased as `r`
+ */
+function entityJoins(): string {
+  return SEARCH_ENTITY_TYPES.map((type) => {
+    const { table, alias } = ENTITY_SEARCH_SOURCES[type];
+    return `LEFT JOIN "${table}" ${alias} ON r.entityType = '${type}' AND ${alias}.id = r.id`;
+  }).join("\n      ");
+}
+
+/**
+ * Turn `entityType`/`total` count rows into a facet record
+ */
+function toFacets(
+  rows: Array<Record<string, unknown>>
+): Record<SearchEntityType, number> {
+  const facets = emptySearchFacets();
+  for (const row of rows) {
+    const type = row.entityType as SearchEntityType;
+    if (type in facets) {
+      facets[type] = Number(row.total) || 0;
+    }
+  }
+  return facets;
+}
+
+function sumFacets(facets: Record<SearchEntityType, number>): number {
+  return Object.values(facets).reduce((sum, count) => sum + count, 0);
+}
+
+/**
+ * Map a raw entity row to a search result
+ */
+function toEntityResult(
+  row: Record<string, unknown>,
+  rank: number
+): { item: SearchEntityRow; rank: number } {
+  return {
+    item: {
+      entityType: row.entityType as SearchEntityType,
+      id: row.id as string,
+      title: (row.title as string | null) ?? "",
+      subtitle: (row.subtitle as string | null) ?? null,
+      personId: (row.personId as string | null) ?? null,
+      privacy: (row.privacy as string | null) ?? null,
+      rank,
+    },
+    rank,
+  };
 }
 
 /**
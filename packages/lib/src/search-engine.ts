@@ -1,14 +1,26 @@
 /**
  * Search Engine Abstraction
  *
- * Provides an interface for executing person search queries against
- * the database. Currently only PostgreSQL is supported (PgSearchEngine).
- * When SQLite support is added, a SqliteSearchEngine will implement the
- * same interface using FTS5.
+ * Provides an interface for executing person and entity search queries
+ * against the database. PgSearchEngine uses tsvector + pg_trgm,
+ * SqliteSearchEngine uses FTS5 virtual tables.
  */
 
 import type { SearchConfig, SearchResults } from "./search";
 
+/**
+ * Non-person entity types covered by unified search
+ */
+export const SEARCH_ENTITY_TYPES = [
+  "event",
+  "place",
+  "source",
+  "researchNote",
+  "media",
+] as const;
+
+export type SearchEntityType = (typeof SEARCH_ENTITY_TYPES)[number];
+
 /**
  * Raw person row returned by the search engine.
  * Represents the database row shape before application-level mapping.
@@ -25,12 +37,62 @@ export interface SearchPersonRow {
   rank: number;
 }
 
+/**
+ * Raw entity row returned by the search engine.
+ *
+ * `title` and `subtitle` are display strings picked per entity type
+ * (e.g. a place's name and description). `personId` is the owning person
+ * for events and research notes; `privacy` is the record's own level for
+ * events and media. Both are null where the entity has no such column.
+ */
+export interface SearchEntityRow {
+  entityType: SearchEntityType;
+  id: string;
+  title: string;
+  subtitle: string | null;
+  personId: string | null;
+  privacy: string | null;
+  rank: number;
+}
+
+/**
+ * Entity search options
+ *
+ * `limit` and `offset` apply per entity type, so every facet gets its own
+ * page of best matches.
+ */
+export interface EntitySearchConfig extends SearchConfig {
+  /** Restrict the search to these entity types (default: all) */
+  entityTypes?: Array<SearchEntityType>;
+}
+
+/**
+ * Entity search results with per-type match counts
+ */
+export interface EntitySearchResults extends SearchResults<SearchEntityRow> {
+  /** Total matches per entity type, for faceted filters */
+  facets: Record<SearchEntityType, number>;
+}
+
+/**
+ * Create a facet record with every entity type set to zero
+ */
+export function emptySearchFacets(): Record<SearchEntityType, number> {
+  return {
+    event: 0,
+    place: 0,
+    source: 0,
+    researchNote: 0,
+    media: 0,
+  };
+}
+
 /**
  * Interface for person search execution.
  *
  * Implementations handle the dialect-specific SQL execution:
  * - PgSearchEngine: Uses FTS + pg_trgm via raw pg.Pool queries
- * - (Future) SqliteSearchEngine: Uses FTS5 virtual tables
+ * - SqliteSearchEngine: Uses FTS5 virtual tables
  */
 export interface SearchEngine {
   /**
@@ -44,4 +106,16 @@ export interface SearchEngine {
     query: string,
     config?: SearchConfig
   ) => Promise<SearchResults<SearchPersonRow>>;
+
+  /**
+   * Search events, places, sources, research notes and media.
+   *
+   * @param query - Sanitized search query
+   * @param config - Search options, including an entity type filter
+   * @returns Results ranked within each entity type, plus facet counts
+   */
+  searchEntities: (
+    query: string,
+    config?: EntitySearchConfig
+  ) => Promise<EntitySearchResults>;
 }
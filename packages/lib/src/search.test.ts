@@ -2,6 +2,8 @@ import { describe, expect, it } from "vitest";
 import {
   SEARCH_FIELD_WEIGHTS,
   buildCombinedSearchQuery,
+  buildEntitySearchCountQuery,
+  buildEntitySearchQuery,
   buildFuzzyPersonSearchQuery,
   buildPersonSearchCountQuery,
   buildPersonSearchQuery,
@@ -267,7 +269,8 @@ describe("SEARCH_FIELD_WEIGHTS", () => {
   it("has Place weights defined", () => {
     expect(SEARCH_FIELD_WEIGHTS.Place).toBeDefined();
     expect(SEARCH_FIELD_WEIGHTS.Place.name).toBe("A");
-    expect(SEARCH_FIELD_WEIGHTS.Place.description).toBe("B");
+    expect(SEARCH_FIELD_WEIGHTS.Place.alternativeNames).toBe("B");
+    expect(SEARCH_FIELD_WEIGHTS.Place.description).toBe("C");
   });
 
   it("has Event weights defined", () => {
@@ -282,6 +285,50 @@ describe("SEARCH_FIELD_WEIGHTS", () => {
     expect(SEARCH_FIELD_WEIGHTS.Source.author).toBe("B");
     expect(SEARCH_FIELD_WEIGHTS.Source.description).toBe("C");
   });
+
+  it("has ResearchNote and MediaObject weights defined", () => {
+    expect(SEARCH_FIELD_WEIGHTS.ResearchNote.findings).toBe("A");
+    expect(SEARCH_FIELD_WEIGHTS.MediaObject.title).toBe("A");
+    expect(SEARCH_FIELD_WEIGHTS.MediaObject.description).toBe("B");
+  });
+});
+
+describe("buildEntitySearchQuery", () => {
+  it("searches only the requested entity tables", () => {
+    const { sql } = buildEntitySearchQuery("mumbai:*", ["place", "source"]);
+    expect(sql).toContain('FROM "Place" pl');
+    expect(sql).toContain('FROM "Source" s');
+    expect(sql).not.toContain('"Event"');
+    expect(sql).toContain("UNION ALL");
+  });
+
+  it("indexes place alternative names", () => {
+    const { sql } = buildEntitySearchQuery("bombay:*", ["place"]);
+    expect(sql).toContain('pl."alternativeNames"::text');
+  });
+
+  it("pages within each entity type", () => {
+    const { sql, params } = buildEntitySearchQuery("census:*", ["source"], {
+      limit: 5,
+      offset: 10,
+    });
+    expect(sql).toContain('PARTITION BY "entityType"');
+    expect(sql).toContain("position > $3 AND position <= $3 + $4");
+    expect(params).toEqual(["english", "census:*", 10, 5]);
+  });
+});
+
+describe("buildEntitySearchCountQuery", () => {
+  it("counts matches per entity type", () => {
+    const { sql, params } = buildEntitySearchCountQuery("photo:*", [
+      "event",
+      "media",
+    ]);
+    expect(sql).toContain(`'event' AS "entityType"`);
+    expect(sql).toContain(`'media' AS "entityType"`);
+    expect(sql).toContain('FROM "MediaObject" m');
+    expect(params).toEqual(["english", "photo:*"]);
+  });
 });
 
 describe("buildCombinedSearchQuery fallback", () => {
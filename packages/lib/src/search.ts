@@ -12,6 +12,8 @@
  * - Result highlighting
  */
 
+import type { SearchEntityType } from "./search-engine";
+
 /**
  * Search configuration options
  */
@@ -459,6 +461,165 @@ export function buildCombinedSearchQuery(
   };
 }
 
+/**
+ * Per-entity tsvector document and display columns for unified search.
+ * Documents mirror the GIN indexes from drizzle/0013_entity_search.sql.
+ */
+const ENTITY_SEARCH_SOURCES: Record<
+  SearchEntityType,
+  {
+    from: string;
+    document: string;
+    title: string;
+    subtitle: string;
+    personId: string;
+    privacy: string;
+  }
+> = {
+  event: {
+    from: `"Event" e`,
+    document: `setweight(to_tsvector($1::regconfig, COALESCE(e.description, '')), 'A') ||
+        setweight(to_tsvector($1::regconfig, COALESCE(e.place, '')), 'B')`,
+    title: `COALESCE(e.description, e.type::text)`,
+    subtitle: `e.place`,
+    personId: `e."personId"`,
+    privacy: `e.privacy::text`,
+  },
+  place: {
+    from: `"Place" pl`,
+    document: `setweight(to_tsvector($1::regconfig, pl.name), 'A') ||
+        setweight(to_tsvector($1::regconfig, COALESCE(pl."alternativeNames"::text, '')), 'B') ||
+        setweight(to_tsvector($1::regconfig, COALESCE(pl.description, '')), 'C')`,
+    title: `pl.name`,
+    subtitle: `pl.description`,
+    personId: `NULL`,
+    privacy: `NULL`,
+  },
+  source: {
+    from: `"Source" s`,
+    document: `setweight(to_tsvector($1::regconfig, s.title), 'A') ||
+        setweight(to_tsvector($1::regconfig, COALESCE(s.author, '')), 'B') ||
+        setweight(to_tsvector($1::regconfig, COALESCE(s.description, '')), 'C')`,
+    title: `s.title`,
+    subtitle: `s.author`,
+    personId: `NULL`,
+    privacy: `NULL`,
+  },
+  researchNote: {
+    from: `"ResearchNote" rn`,
+    document: `setweight(to_tsvector($1::regconfig, rn.findings), 'A')`,
+    title: `rn.findings`,
+    subtitle: `rn."eventType"`,
+    personId: `rn."personId"`,
+    privacy: `NULL`,
+  },
+  media: {
+    from: `"MediaObject" m`,
+    document: `setweight(to_tsvector($1::regconfig, COALESCE(m.title, '')), 'A') ||
+        setweight(to_tsvector($1::regconfig, COALESCE(m.description, '')), 'B')`,
+    title: `COALESCE(m.title, '')`,
+    subtitle: `m.description`,
+    personId: `NULL`,
+    privacy: `m.privacy::text`,
+  },
+};
+
+/**
+ * Build a SQL query for full-text search across non-person entities
+ *
+ * Each entity type is ranked separately; `limit` and `offset` select a page
+ * within every type so one type with many matches cannot crowd out others.
+ *
+ * @param tsquery - The tsquery string from buildTsQuery
+ * @param entityTypes - Entity types to search (must not be empty)
+ * @param config - Search configuration
+ * @returns SQL query string with parameters
+ */
+export function buildEntitySearchQuery(
+  tsquery: string,
+  entityTypes: ReadonlyArray<SearchEntityType>,
+  config: SearchConfig = {}
+): {
+  sql: string;
+  params: Array<unknown>;
+} {
+  const { language = "english", limit = 20, offset = 0 } = config;
+
+  const matches = entityTypes
+    .map((type) => {
+      const source = ENTITY_SEARCH_SOURCES[type];
+      return `
+      SELECT
+        '${type}' AS "entityType",
+        id,
+        ${source.title} AS title,
+        ${source.subtitle} AS subtitle,
+        ${source.personId} AS "personId",
+        ${source.privacy} AS privacy,
+        ts_rank_cd(${source.document}, query.query) AS rank
+      FROM ${source.from}, query
+      WHERE (${source.document}) @@ query.query`;
+    })
+    .join("\n      UNION ALL");
+
+  const sql = `
+    WITH query AS (
+      SELECT to_tsquery($1::regconfig, $2) AS query
+    ),
+    matches AS (${matches}
+    ),
+    ranked AS (
+      SELECT
+        matches.*,
+        ROW_NUMBER() OVER (PARTITION BY "entityType" ORDER BY rank DESC, id) AS position
+      FROM matches
+    )
+    SELECT "entityType", id, title, subtitle, "personId", privacy, rank
+    FROM ranked
+    WHERE position > $3 AND position <= $3 + $4
+    ORDER BY rank DESC
+  `;
+
+  return {
+    sql,
+    params: [language, tsquery, offset, limit],
+  };
+}
+
+/**
+ * Build a SQL query counting entity search matches per entity type
+ *
+ * @param tsquery - The tsquery string
+ * @param entityTypes - Entity types to count (must not be empty)
+ * @param config - Search configuration
+ * @returns SQL query returning one `entityType`/`total` row per type
+ */
+export function buildEntitySearchCountQuery(
+  tsquery: string,
+  entityTypes: ReadonlyArray<SearchEntityType>,
+  config: SearchConfig = {}
+): {
+  sql: string;
+  params: Array<unknown>;
+} {
+  const { language = "english" } = config;
+
+  const counts = entityTypes
+    .map((type) => {
+      const source = ENTITY_SEARCH_SOURCES[type];
+      return `
+    SELECT '${type}' AS "entityType", COUNT(*) AS total
+    FROM ${source.from}
+    WHERE (${source.document}) @@ to_tsquery($1::regconfig, $2)`;
+    })
+    .join("\n    UNION ALL");
+
+  return {
+    sql: counts,
+    params: [language, tsquery],
+  };
+}
+
 /**
  * Search fields configuration for different entity types
  */
@@ -472,7 +633,8 @@ export const SEARCH_FIELD_WEIGHTS = {
   },
   Place: {
     name: "A",
-    description: "B",
+    alternativeNames: "B",
+    description: "C",
   },
   Event: {
     description: "A",
@@ -483,6 +645,13 @@ export const SEARCH_FIELD_WEIGHTS = {
     author: "B",
     description: "C",
   },
+  ResearchNote: {
+    findings: "A",
+  },
+  MediaObject: {
+    title: "A",
+    description: "B",
+  },
 } as const;
 
 /**
@@ -315,6 +315,10 @@ export async function executeSearch(
           parents: mapsSetToArray(relationships.maps.parents),
           children: mapsSetToArray(relationships.maps.children),
           spouses: mapsSetToArray(relationships.maps.spouses),
+          partners: relationships.maps.partners
+            ? mapsSetToArray(relationships.maps.partners)
+            : undefined,
+          pedigrees: relationships.maps.pedigrees,
         };
 
         const pathResult = findRelationshipPath(
@@ -0,0 +1,333 @@
+/**
+ * Unit tests for AI chat business logic
+ *
+ * Tests cover:
+ * - buildAIConversationTitle: Titles from the first question
+ * - listAIConversationsData: Listing a user's conversations
+ * - getAIConversationData: Messages with citations, owner only
+ * - startAIChatTurnData: New and continued conversations, saving off
+ * - saveAIChatReplyData: Answers with their citations
+ * - deleteAIConversationData / purgeAIHistoryData: Removing history
+ */
+
+import { describe, expect, it, vi } from "vitest";
+import {
+  buildAIConversationTitle,
+  deleteAIConversationData,
+  getAIConversationData,
+  listAIConversationsData,
+  purgeAIHistoryData,
+  saveAIChatReplyData,
+  startAIChatTurnData,
+} from "./ai-chat";
+
+const createdAt = new Date("2026-03-01T08:00:00.000Z");
+
+function conversationRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "conversation-1",
+    userId: "user-1",
+    title: "Who is Hari?",
+    createdAt,
+    updatedAt: createdAt,
+    ...overrides,
+  };
+}
+
+function messageRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "message-1",
+    conversationId: "conversation-1",
+    role: "user",
+    content: "Who is Hari?",
+    citations: null,
+    createdAt,
+    ...overrides,
+  };
+}
+
+function createDb(
+  options: {
+    historyEnabled?: boolean;
+    conversation?: unknown;
+    conversations?: Array<unknown>;
+    messages?: Array<unknown>;
+    total?: number;
+  } = {}
+) {
+  const insertValues = vi.fn((values: any) =>
+    Object.assign(Promise.resolve(), {
+      returning: vi.fn(async () => [values]),
+    })
+  );
+  const updateSet = vi.fn(() => ({ where: vi.fn(() => Promise.resolve()) }));
+  const deleteWhere = vi.fn(() => Promise.resolve());
+  const deleteTable = vi.fn(() =>
+    Object.assign(Promise.resolve(), { where: deleteWhere })
+  );
+
+  const db: any = {
+    select: vi.fn(() => ({
+      from: vi.fn(async () => [{ total: options.total ?? 0 }]),
+    })),
+    insert: vi.fn(() => ({ values: insertValues })),
+    update: vi.fn(() => ({ set: updateSet })),
+    delete: deleteTable,
+    transaction: vi.fn((fn: (tx: unknown) => Promise<unknown>) => fn(db)),
+    query: {
+      familySettings: {
+        findFirst: vi.fn(async () =>
+          options.historyEnabled === undefined
+            ? null
+            : { aiHistoryEnabled: options.historyEnabled }
+        ),
+      },
+      aiConversations: {
+        findFirst: vi.fn(async () => options.conversation ?? null),
+        findMany: vi.fn(async () => options.conversations ?? []),
+      },
+      aiMessages: {
+        findMany: vi.fn(async () => options.messages ?? []),
+      },
+    },
+  };
+
+  return { db, insertValues, updateSet, deleteTable };
+}
+
+describe("AI Chat Business Logic", () => {
+  describe("buildAIConversationTitle", () => {
+    it("should use a short question as it is, on one line", () => {
+      expect(buildAIConversationTitle("  Who is\n Hari?  ")).toBe(
+        "Who is Hari?"
+      );
+    });
+
+    it("should cut a long question at a word", () => {
+      const title = buildAIConversationTitle(
+        "Which of my great-grandparents were born in Pune and where did their children move to after the war ended?"
+      );
+
+      expect(title.length).toBeLessThanOrEqual(80);
+      expect(title.endsWith(" …")).toBe(false);
+      expect(title.endsWith("…")).toBe(true);
+    });
+  });
+
+  describe("listAIConversationsData", () => {
+    it("should list the user's conversations", async () => {
+      const { db } = createDb({ conversations: [conversationRow()] });
+
+      const result = await listAIConversationsData("user-1", db);
+
+      expect(result).toEqual([
+        {
+          id: "conversation-1",
+          title: "Who is Hari?",
+          createdAt: createdAt.toISOString(),
+          updatedAt: createdAt.toISOString(),
+        },
+      ]);
+    });
+
+    it("should list nothing while saving is off", async () => {
+      const { db } = createDb({
+        historyEnabled: false,
+        conversations: [conversationRow()],
+      });
+
+      expect(await listAIConversationsData("user-1", db)).toEqual([]);
+      expect(db.query.aiConversations.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getAIConversationData", () => {
+    it("should return the messages with their citations", async () => {
+      const citation = {
+        type: "person",
+        id: "p-1",
+        label: "Hari Prasad",
+        personId: "p-1",
+      };
+      const { db } = createDb({
+        conversation: conversationRow(),
+        messages: [
+          messageRow(),
+          messageRow({
+            id: "message-2",
+            role: "assistant",
+            content: "Hari Prasad was born in 1850.",
+            citations: [citation],
+          }),
+        ],
+      });
+
+      const result = await getAIConversationData(
+        "conversation-1",
+        "user-1",
+        db
+      );
+
+      expect(result.messages).toHaveLength(2);
+      expect(result.messages[0].citations).toEqual([]);
+      expect(result.messages[1].citations).toEqual([citation]);
+    });
+
+    it("should not return someone else's conversation", async () => {
+      const { db } = createDb({ conversation: null });
+
+      await expect(
+        getAIConversationData("conversation-1", "user-2", db)
+      ).rejects.toThrow("Conversation not found");
+    });
+
+    it("should not return conversations while saving is off", async () => {
+      const { db } = createDb({
+        historyEnabled: false,
+        conversation: conversationRow(),
+      });
+
+      await expect(
+        getAIConversationData("conversation-1", "user-1", db)
+      ).rejects.toThrow("Conversation not found");
+    });
+  });
+
+  describe("startAIChatTurnData", () => {
+    it("should start a conversation titled after the question", async () => {
+      const { db, insertValues } = createDb();
+
+      const turn = await startAIChatTurnData(
+        "user-1",
+        "Who is Hari?",
+        undefined,
+        db
+      );
+
+      expect(turn.conversation?.title).toBe("Who is Hari?");
+      expect(turn.history).toEqual([]);
+      expect(insertValues).toHaveBeenCalledWith(
+        expect.objectContaining({
+          conversationId: turn.conversation?.id,
+          role: "user",
+          content: "Who is Hari?",
+        })
+      );
+    });
+
+    it("should continue a conversation with its history, oldest first", async () => {
+      const { db, insertValues } = createDb({
+        conversation: conversationRow(),
+        // Newest first, as queried
+        messages: [
+          messageRow({
+            id: "message-2",
+            role: "assistant",
+            content: "Hari Prasad was born in 1850.",
+          }),
+          messageRow(),
+        ],
+      });
+
+      const turn = await startAIChatTurnData(
+        "user-1",
+        "Who were his children?",
+        "conversation-1",
+        db
+      );
+
+      expect(turn.conversation?.id).toBe("conversation-1");
+      expect(turn.history).toEqual([
+        { role: "user", content: "Who is Hari?" },
+        { role: "assistant", content: "Hari Prasad was born in 1850." },
+      ]);
+      expect(insertValues).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not continue someone else's conversation", async () => {
+      const { db, insertValues } = createDb({ conversation: null });
+
+      await expect(
+        startAIChatTurnData("user-2", "Hi", "conversation-1", db)
+      ).rejects.toThrow("Conversation not found");
+      expect(insertValues).not.toHaveBeenCalled();
+    });
+
+    it("should save nothing while saving is off", async () => {
+      const { db, insertValues } = createDb({ historyEnabled: false });
+
+      const turn = await startAIChatTurnData("user-1", "Hi", undefined, db);
+
+      expect(turn).toEqual({ conversation: null, history: [] });
+      expect(insertValues).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("saveAIChatReplyData", () => {
+    it("should save the answer with its citations", async () => {
+      const { db, insertValues, updateSet } = createDb();
+      const citations = [
+        {
+          type: "event" as const,
+          id: "e-1",
+          label: "BIRTH 1850-01-01",
+          personId: "p-1",
+        },
+      ];
+
+      await saveAIChatReplyData(
+        "conversation-1",
+        "Born in 1850.",
+        citations,
+        db
+      );
+
+      expect(insertValues).toHaveBeenCalledWith(
+        expect.objectContaining({
+          role: "assistant",
+          content: "Born in 1850.",
+          citations,
+        })
+      );
+      expect(updateSet).toHaveBeenCalled();
+    });
+
+    it("should store no citations as null", async () => {
+      const { db, insertValues } = createDb();
+
+      await saveAIChatReplyData("conversation-1", "Hello!", [], db);
+
+      expect(insertValues).toHaveBeenCalledWith(
+        expect.objectContaining({ citations: null })
+      );
+    });
+  });
+
+  describe("deleteAIConversationData", () => {
+    it("should remove the conversation and its messages", async () => {
+      const { db, deleteTable } = createDb({ conversation: conversationRow() });
+
+      await deleteAIConversationData("conversation-1", "user-1", db);
+
+      expect(deleteTable).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not remove someone else's conversation", async () => {
+      const { db, deleteTable } = createDb({ conversation: null });
+
+      await expect(
+        deleteAIConversationData("conversation-1", "user-2", db)
+      ).rejects.toThrow("Conversation not found");
+      expect(deleteTable).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("purgeAIHistoryData", () => {
+    it("should remove every conversation and report how many", async () => {
+      const { db, deleteTable } = createDb({ total: 7 });
+
+      expect(await purgeAIHistoryData("admin-1", db)).toBe(7);
+      expect(deleteTable).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,352 @@
+/**
+ * AI Chat Server Module - Business Logic for Saved AI Conversations
+ *
+ * Questions to the AI assistant and its answers are saved per user, so a
+ * conversation survives a reload and can be picked up later. The saved
+ * messages are sent to the assistant as history, which means the client
+ * only sends the new question. Answers keep the persons and events the
+ * assistant looked up as citations.
+ *
+ * Administrators can turn saving off (FamilySettings.aiHistoryEnabled) and
+ * purge every saved conversation. While saving is off nothing is stored
+ * and saved conversations are hidden.
+ *
+ * Exported Functions:
+ * - isAIHistoryEnabled: Whether conversations are saved
+ * - listAIConversationsData: A user's conversations, most recent first
+ * - getAIConversationData: A conversation with its messages
+ * - startAIChatTurnData: Save a question and load the history to send
+ * - saveAIChatReplyData: Save the assistant's answer
+ * - deleteAIConversationData: Remove one of a user's conversations
+ * - purgeAIHistoryData: Remove every saved conversation
+ */
+
+import { and, asc, count, desc, eq } from "drizzle-orm";
+import { loggers } from "@vamsa/lib/logger";
+import { drizzleDb, drizzleSchema } from "../db";
+import type { AIChatCitation } from "@vamsa/schemas";
+import type { ChatEvent } from "../../ai";
+
+const log = loggers.db;
+
+/** Type for the database instance (for DI) */
+export type AIChatDb = typeof drizzleDb;
+
+/** Most conversations listed for a user */
+export const AI_CONVERSATION_LIST_LIMIT = 50;
+
+/** Most earlier messages sent to the assistant as history */
+export const AI_CHAT_HISTORY_LIMIT = 20;
+
+const TITLE_MAX_LENGTH = 80;
+
+export interface AIConversationSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AIConversationMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  citations: Array<AIChatCitation>;
+  createdAt: string;
+}
+
+export interface AIConversationDetail extends AIConversationSummary {
+  messages: Array<AIConversationMessage>;
+}
+
+/**
+ * A question ready to send to the assistant
+ */
+export interface AIChatTurn {
+  /** Conversation the question was saved in; null while saving is off */
+  conversation: AIConversationSummary | null;
+  /** Earlier messages of the conversation, oldest first */
+  history: Array<{ role: "user" | "assistant"; content: string }>;
+}
+
+/**
+ * One line of the chat stream sent to the browser: the AI service's chat
+ * events, preceded by the conversation the question was saved in
+ */
+export type AIChatStreamEvent =
+  | ChatEvent
+  | { type: "conversation"; conversation: AIConversationSummary };
+
+function toSummary(
+  row: typeof drizzleSchema.aiConversations.$inferSelect
+): AIConversationSummary {
+  return {
+    id: row.id,
+    title: row.title,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Title of a conversation, taken from its first question
+ *
+ * @param message - The first question
+ * @returns The question on one line, cut at a word near 80 characters
+ */
+export function buildAIConversationTitle(message: string): string {
+  const text = message.replace(/\s+/g, " ").trim();
+  if (text.length <= TITLE_MAX_LENGTH) {
+    return text;
+  }
+
+  const cut = text.slice(0, TITLE_MAX_LENGTH - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${lastSpace > TITLE_MAX_LENGTH / 2 ? cut.slice(0, lastSpace) : cut}…`;
+}
+
+/**
+ * Whether AI conversations are saved (on unless an admin turned it off)
+ *
+ * @param db - Optional database client (defaults to drizzleDb)
+ */
+export async function isAIHistoryEnabled(
+  db: AIChatDb = drizzleDb
+): Promise<boolean> {
+  const settings = await db.query.familySettings.findFirst({
+    columns: { aiHistoryEnabled: true },
+  });
+  return settings?.aiHistoryEnabled ?? true;
+}
+
+/**
+ * Find one of a user's conversations
+ *
+ * @throws {Error} If the conversation does not exist or is someone else's
+ */
+async function findConversation(
+  conversationId: string,
+  userId: string,
+  db: AIChatDb
+) {
+  const conversation = await db.query.aiConversations.findFirst({
+    where: and(
+      eq(drizzleSchema.aiConversations.id, conversationId),
+      eq(drizzleSchema.aiConversations.userId, userId)
+    ),
+  });
+
+  if (!conversation) {
+    throw new Error("Conversation not found");
+  }
+
+  return conversation;
+}
+
+/**
+ * List a user's conversations, most recently active first
+ *
+ * @param userId - ID of the conversations' owner
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @returns Conversations, or none while saving is off
+ */
+export async function listAIConversationsData(
+  userId: string,
+  db: AIChatDb = drizzleDb
+): Promise<Array<AIConversationSummary>> {
+  if (!(await isAIHistoryEnabled(db))) {
+    return [];
+  }
+
+  const rows = await db.query.aiConversations.findMany({
+    where: eq(drizzleSchema.aiConversations.userId, userId),
+    orderBy: desc(drizzleSchema.aiConversations.updatedAt),
+    limit: AI_CONVERSATION_LIST_LIMIT,
+  });
+
+  return rows.map(toSummary);
+}
+
+/**
+ * Get one of a user's conversations with its messages, oldest first
+ *
+ * @param conversationId - ID of the conversation
+ * @param userId - ID of the conversation's owner
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @throws {Error} If saving is off, or the conversation is not the user's
+ */
+export async function getAIConversationData(
+  conversationId: string,
+  userId: string,
+  db: AIChatDb = drizzleDb
+): Promise<AIConversationDetail> {
+  if (!(await isAIHistoryEnabled(db))) {
+    throw new Error("Conversation not found");
+  }
+
+  const conversation = await findConversation(conversationId, userId, db);
+  const messages = await db.query.aiMessages.findMany({
+    where: eq(drizzleSchema.aiMessages.conversationId, conversationId),
+    orderBy: asc(drizzleSchema.aiMessages.createdAt),
+  });
+
+  return {
+    ...toSummary(conversation),
+    messages: messages.map((message) => ({
+      id: message.id,
+      role: message.role as "user" | "assistant",
+      content: message.content,
+      citations: (message.citations ?? []) as Array<AIChatCitation>,
+      createdAt: message.createdAt.toISOString(),
+    })),
+  };
+}
+
+/**
+ * Save a question and load the history to send with it
+ *
+ * Starts a new conversation, titled after the question, unless one to
+ * continue is given. While saving is off nothing is stored and there is
+ * no saved history.
+ *
+ * @param userId - ID of the user asking
+ * @param message - The question
+ * @param conversationId - Conversation to continue, if any
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @throws {Error} If the conversation to continue is not the user's
+ */
+export async function startAIChatTurnData(
+  userId: string,
+  message: string,
+  conversationId?: string,
+  db: AIChatDb = drizzleDb
+): Promise<AIChatTurn> {
+  if (!(await isAIHistoryEnabled(db))) {
+    return { conversation: null, history: [] };
+  }
+
+  const now = new Date();
+  let conversation: typeof drizzleSchema.aiConversations.$inferSelect;
+  let history: AIChatTurn["history"] = [];
+
+  if (conversationId) {
+    conversation = await findConversation(conversationId, userId, db);
+    const recent = await db.query.aiMessages.findMany({
+      where: eq(drizzleSchema.aiMessages.conversationId, conversationId),
+      orderBy: desc(drizzleSchema.aiMessages.createdAt),
+      limit: AI_CHAT_HISTORY_LIMIT,
+    });
+    history = recent.reverse().map((row) => ({
+      role: row.role as "user" | "assistant",
+      content: row.content,
+    }));
+  } else {
+    const [created] = await db
+      .insert(drizzleSchema.aiConversations)
+      .values({
+        id: crypto.randomUUID(),
+        userId,
+        title: buildAIConversationTitle(message),
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+    conversation = created;
+  }
+
+  await db.insert(drizzleSchema.aiMessages).values({
+    id: crypto.randomUUID(),
+    conversationId: conversation.id,
+    role: "user",
+    content: message,
+    createdAt: now,
+  });
+  await db
+    .update(drizzleSchema.aiConversations)
+    .set({ updatedAt: now })
+    .where(eq(drizzleSchema.aiConversations.id, conversation.id));
+
+  return {
+    conversation: toSummary({ ...conversation, updatedAt: now }),
+    history,
+  };
+}
+
+/**
+ * Save the assistant's answer to a question
+ *
+ * @param conversationId - Conversation the question was saved in
+ * @param content - The answer
+ * @param citations - Tree records the answer drew on
+ * @param db - Optional database client (defaults to drizzleDb)
+ */
+export async function saveAIChatReplyData(
+  conversationId: string,
+  content: string,
+  citations: Array<AIChatCitation>,
+  db: AIChatDb = drizzleDb
+): Promise<void> {
+  const now = new Date();
+
+  await db.insert(drizzleSchema.aiMessages).values({
+    id: crypto.randomUUID(),
+    conversationId,
+    role: "assistant",
+    content,
+    citations: citations.length > 0 ? citations : null,
+    createdAt: now,
+  });
+  await db
+    .update(drizzleSchema.aiConversations)
+    .set({ updatedAt: now })
+    .where(eq(drizzleSchema.aiConversations.id, conversationId));
+}
+
+/**
+ * Remove one of a user's conversations and its messages
+ *
+ * @param conversationId - ID of the conversation
+ * @param userId - ID of the conversation's owner
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @throws {Error} If the conversation is not the user's
+ */
+export async function deleteAIConversationData(
+  conversationId: string,
+  userId: string,
+  db: AIChatDb = drizzleDb
+): Promise<void> {
+  await findConversation(conversationId, userId, db);
+
+  await db.transaction(async (tx) => {
+    await tx
+      .delete(drizzleSchema.aiMessages)
+      .where(eq(drizzleSchema.aiMessages.conversationId, conversationId));
+    await tx
+      .delete(drizzleSchema.aiConversations)
+      .where(eq(drizzleSchema.aiConversations.id, conversationId));
+  });
+}
+
+/**
+ * Remove every saved AI conversation of every user
+ *
+ * @param adminId - ID of the administrator purging (for logging)
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @returns Number of conversations removed
+ */
+export async function purgeAIHistoryData(
+  adminId: string,
+  db: AIChatDb = drizzleDb
+): Promise<number> {
+  const [{ total }] = await db
+    .select({ total: count() })
+    .from(drizzleSchema.aiConversations);
+
+  await db.transaction(async (tx) => {
+    await tx.delete(drizzleSchema.aiMessages);
+    await tx.delete(drizzleSchema.aiConversations);
+  });
+
+  log.info({ adminId, conversations: total }, "Purged AI chat history");
+  return total;
+}
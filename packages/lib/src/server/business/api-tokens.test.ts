@@ -0,0 +1,256 @@
+/**
+ * Unit tests for personal access token business logic
+ *
+ * Tests cover:
+ * - createApiTokenData: Issuing a token and storing only its hash
+ * - rotateApiTokenData: Ownership checks and replacing a token
+ * - revokeApiTokenData / adminRevokeApiTokenData: Revocation
+ * - deleteApiTokenData: Only revoked tokens can be deleted
+ * - authenticateApiToken: Resolving bearer tokens to users and scopes
+ */
+
+import { describe, expect, it, vi } from "vitest";
+import {
+  adminRevokeApiTokenData,
+  authenticateApiToken,
+  createApiTokenData,
+  deleteApiTokenData,
+  revokeApiTokenData,
+  rotateApiTokenData,
+} from "./api-tokens";
+import { hashApiToken } from "./token-rotation";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function tokenRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "token-1",
+    userId: "user-1",
+    name: "Backup script",
+    tokenHash: "hash",
+    tokenPrefix: "vamsa_pat_abcdef",
+    scopes: ["persons:read"],
+    expiresAt: new Date(Date.now() + 30 * DAY_MS),
+    isActive: true,
+    lastUsedAt: null,
+    rotatedAt: null,
+    rotatedFrom: null,
+    createdAt: new Date(Date.now() - 60 * DAY_MS),
+    ...overrides,
+  };
+}
+
+const user = {
+  id: "user-1",
+  email: "ravi@example.com",
+  name: "Ravi",
+  role: "MEMBER",
+  personId: "person-1",
+  mustChangePassword: false,
+  profileClaimStatus: "CLAIMED",
+  oidcProvider: null,
+  isActive: true,
+  passwordHash: "secret",
+};
+
+function createDb(found: unknown = null) {
+  const insertValues = vi.fn((values: Record<string, unknown>) => ({
+    returning: vi.fn(async () => [tokenRow(values)]),
+  }));
+  const updateSet = vi.fn((values: Record<string, unknown>) => ({
+    where: vi.fn(() =>
+      Object.assign(Promise.resolve(), {
+        returning: vi.fn(async () => [tokenRow(values)]),
+      })
+    ),
+  }));
+  const deleteWhere = vi.fn(() => Promise.resolve());
+
+  const db = {
+    insert: vi.fn(() => ({ values: insertValues })),
+    update: vi.fn(() => ({ set: updateSet })),
+    delete: vi.fn(() => ({ where: deleteWhere })),
+    query: {
+      apiTokens: {
+        findFirst: vi.fn(async () => found),
+        findMany: vi.fn(async () => []),
+      },
+    },
+  };
+
+  return { db: db as any, insertValues, updateSet, deleteWhere };
+}
+
+describe("API Tokens Business Logic", () => {
+  describe("createApiTokenData", () => {
+    it("should return the token once and store only its hash", async () => {
+      const { db, insertValues } = createDb();
+
+      const result = await createApiTokenData(
+        "user-1",
+        {
+          name: "Backup script",
+          scopes: ["persons:read", "gedcom:export"],
+          expiresInDays: 30,
+        },
+        db
+      );
+
+      expect(result.token).toMatch(/^vamsa_pat_[A-Za-z0-9_-]+$/);
+      const stored = (insertValues.mock.calls[0] as Array<any>)[0];
+      expect(stored.tokenHash).toBe(hashApiToken(result.token));
+      expect(stored.tokenPrefix).toBe(result.token.slice(0, 16));
+      expect(stored).not.toHaveProperty("token");
+      expect(stored.scopes).toEqual(["persons:read", "gedcom:export"]);
+      expect(stored.expiresAt.getTime()).toBeGreaterThan(
+        Date.now() + 29 * DAY_MS
+      );
+      expect(result.apiToken).not.toHaveProperty("tokenHash");
+    });
+  });
+
+  describe("rotateApiTokenData", () => {
+    it("should reject tokens of other users", async () => {
+      const { db } = createDb(null);
+
+      await expect(rotateApiTokenData("token-1", "user-2", db)).rejects.toThrow(
+        "Token not found"
+      );
+    });
+
+    it("should reject revoked tokens", async () => {
+      const { db } = createDb(tokenRow({ isActive: false }));
+
+      await expect(rotateApiTokenData("token-1", "user-1", db)).rejects.toThrow(
+        "Cannot rotate a revoked or expired token"
+      );
+    });
+
+    it("should issue a replacement with the same scopes", async () => {
+      const { db, insertValues } = createDb(
+        tokenRow({ scopes: ["media:write"] })
+      );
+
+      const result = await rotateApiTokenData("token-1", "user-1", db);
+
+      expect(result.token).toMatch(/^vamsa_pat_/);
+      expect(insertValues).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: "user-1",
+          scopes: ["media:write"],
+          rotatedFrom: "token-1",
+        })
+      );
+      expect(result.apiToken).not.toHaveProperty("tokenHash");
+    });
+  });
+
+  describe("revokeApiTokenData", () => {
+    it("should deactivate and expire the token", async () => {
+      const { db, updateSet } = createDb(tokenRow());
+
+      const result = await revokeApiTokenData("token-1", "user-1", db);
+
+      expect(updateSet).toHaveBeenCalledWith({
+        isActive: false,
+        expiresAt: expect.any(Date),
+      });
+      expect(result.isActive).toBe(false);
+    });
+  });
+
+  describe("adminRevokeApiTokenData", () => {
+    it("should revoke any user's token", async () => {
+      const { db, updateSet } = createDb(tokenRow({ userId: "user-2" }));
+
+      await adminRevokeApiTokenData("token-1", "admin-1", db);
+
+      expect(updateSet).toHaveBeenCalled();
+    });
+
+    it("should throw when the token does not exist", async () => {
+      const { db } = createDb(null);
+
+      await expect(
+        adminRevokeApiTokenData("missing", "admin-1", db)
+      ).rejects.toThrow("Token not found");
+    });
+  });
+
+  describe("deleteApiTokenData", () => {
+    it("should refuse to delete an active token", async () => {
+      const { db, deleteWhere } = createDb(tokenRow());
+
+      await expect(deleteApiTokenData("token-1", "user-1", db)).rejects.toThrow(
+        "Cannot delete an active token"
+      );
+      expect(deleteWhere).not.toHaveBeenCalled();
+    });
+
+    it("should delete a revoked token", async () => {
+      const { db, deleteWhere } = createDb(tokenRow({ isActive: false }));
+
+      const result = await deleteApiTokenData("token-1", "user-1", db);
+
+      expect(result).toEqual({ success: true, deletedId: "token-1" });
+      expect(deleteWhere).toHaveBeenCalled();
+    });
+  });
+
+  describe("authenticateApiToken", () => {
+    it("should resolve a valid token to its user and scopes", async () => {
+      const { db, updateSet } = createDb(
+        tokenRow({ scopes: ["persons:read", "persons:write"], user })
+      );
+
+      const result = await authenticateApiToken("vamsa_pat_secret", db);
+
+      expect(result).toEqual({
+        user: {
+          id: "user-1",
+          email: "ravi@example.com",
+          name: "Ravi",
+          role: "MEMBER",
+          personId: "person-1",
+          mustChangePassword: false,
+          profileClaimStatus: "CLAIMED",
+          oidcProvider: null,
+        },
+        tokenId: "token-1",
+        scopes: ["persons:read", "persons:write"],
+      });
+      expect(updateSet).toHaveBeenCalledWith({ lastUsedAt: expect.any(Date) });
+    });
+
+    it("should look tokens up by hash", async () => {
+      const { db } = createDb(null);
+
+      expect(await authenticateApiToken("vamsa_pat_unknown", db)).toBeNull();
+      expect(db.query.apiTokens.findFirst).toHaveBeenCalled();
+    });
+
+    it("should ignore credentials that are not personal access tokens", async () => {
+      const { db } = createDb(tokenRow({ user }));
+
+      expect(await authenticateApiToken("session-token", db)).toBeNull();
+      expect(db.query.apiTokens.findFirst).not.toHaveBeenCalled();
+    });
+
+    it("should reject revoked and expired tokens", async () => {
+      const revoked = createDb(tokenRow({ isActive: false, user }));
+      const expired = createDb(
+        tokenRow({ expiresAt: new Date(Date.now() - 1000), user })
+      );
+
+      expect(await authenticateApiToken("vamsa_pat_a", revoked.db)).toBeNull();
+      expect(await authenticateApiToken("vamsa_pat_a", expired.db)).toBeNull();
+      expect(expired.updateSet).not.toHaveBeenCalled();
+    });
+
+    it("should reject tokens of deactivated users", async () => {
+      const { db } = createDb(tokenRow({ user: { ...user, isActive: false } }));
+
+      expect(await authenticateApiToken("vamsa_pat_a", db)).toBeNull();
+    });
+  });
+});
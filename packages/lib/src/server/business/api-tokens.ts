@@ -0,0 +1,385 @@
+/**
+ * API Tokens Server Module - Business Logic for Personal Access Tokens
+ *
+ * Personal access tokens let scripts and integrations call the REST API as
+ * the user who created them, sent as `Authorization: Bearer <token>`. Each
+ * token carries scopes that narrow what it may be used for; it never grants
+ * more than its owner's role allows.
+ *
+ * Only a hash of each token is stored, so the token itself is shown once on
+ * creation or rotation and cannot be recovered afterwards.
+ *
+ * Exported Functions:
+ * - getApiTokensData: List the user's tokens
+ * - createApiTokenData: Create a token
+ * - rotateApiTokenData: Replace a token, keeping the old one for a grace period
+ * - revokeApiTokenData: Revoke one of the user's tokens
+ * - deleteApiTokenData: Permanently delete a revoked token
+ * - getAllApiTokensData: List every user's tokens (admin)
+ * - adminRevokeApiTokenData: Revoke any user's token (admin)
+ * - authenticateApiToken: Resolve a bearer token to its user and scopes
+ */
+
+import { addDays } from "date-fns";
+import { drizzleDb, drizzleSchema } from "@vamsa/api";
+import { and, desc, eq } from "drizzle-orm";
+import { loggers } from "@vamsa/lib/logger";
+import {
+  API_TOKEN_PREFIX,
+  generateApiToken,
+  hashApiToken,
+  rotateApiToken,
+} from "./token-rotation";
+import type { ApiTokenScope } from "@vamsa/schemas";
+
+const log = loggers.auth;
+
+/** Type for the database instance (for DI) */
+export type ApiTokensDb = typeof drizzleDb;
+
+/** Columns returned to clients; the token hash never leaves the server */
+const apiTokenColumns = {
+  id: true,
+  userId: true,
+  name: true,
+  tokenPrefix: true,
+  scopes: true,
+  expiresAt: true,
+  isActive: true,
+  lastUsedAt: true,
+  rotatedAt: true,
+  rotatedFrom: true,
+  createdAt: true,
+} as const;
+
+export interface CreateApiTokenInput {
+  name: string;
+  scopes: Array<ApiTokenScope>;
+  expiresInDays: number;
+}
+
+export interface ApiTokenSummary {
+  id: string;
+  userId: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: Array<string>;
+  expiresAt: Date;
+  isActive: boolean;
+  lastUsedAt: Date | null;
+  rotatedAt: Date | null;
+  rotatedFrom: string | null;
+  createdAt: Date;
+}
+
+/**
+ * A newly created or rotated token, with the plain-text token shown once
+ */
+export interface IssuedApiToken {
+  apiToken: ApiTokenSummary;
+  token: string;
+}
+
+/**
+ * The user a bearer token authenticates as
+ */
+export interface ApiTokenUser {
+  id: string;
+  email: string;
+  name: string | null;
+  role: string;
+  personId: string | null;
+  mustChangePassword: boolean;
+  profileClaimStatus: string;
+  oidcProvider: string | null;
+}
+
+export interface ApiTokenAuthentication {
+  user: ApiTokenUser;
+  tokenId: string;
+  scopes: Array<ApiTokenScope>;
+}
+
+function toSummary(
+  row: ApiTokenSummary & { tokenHash?: string }
+): ApiTokenSummary {
+  const { tokenHash: _tokenHash, ...summary } = row;
+  return summary;
+}
+
+/**
+ * Get current user's personal access tokens
+ * @param userId - ID of the authenticated user
+ * @param db - Database instance (defaults to drizzleDb for production)
+ * @returns The user's tokens, newest first
+ */
+export async function getApiTokensData(
+  userId: string,
+  db: ApiTokensDb = drizzleDb
+): Promise<Array<ApiTokenSummary>> {
+  return db.query.apiTokens.findMany({
+    columns: apiTokenColumns,
+    where: eq(drizzleSchema.apiTokens.userId, userId),
+    orderBy: desc(drizzleSchema.apiTokens.createdAt),
+  });
+}
+
+/**
+ * Create a personal access token
+ * @param userId - ID of the user creating the token
+ * @param input - Token name, scopes and lifetime
+ * @param db - Database instance (defaults to drizzleDb for production)
+ * @returns The created token and its plain-text token
+ */
+export async function createApiTokenData(
+  userId: string,
+  input: CreateApiTokenInput,
+  db: ApiTokensDb = drizzleDb
+): Promise<IssuedApiToken> {
+  const { token, tokenHash, tokenPrefix } = generateApiToken();
+
+  const [created] = await db
+    .insert(drizzleSchema.apiTokens)
+    .values({
+      id: crypto.randomUUID(),
+      userId,
+      name: input.name,
+      tokenHash,
+      tokenPrefix,
+      scopes: input.scopes,
+      expiresAt: addDays(new Date(), input.expiresInDays),
+      isActive: true,
+    })
+    .returning();
+
+  log.info(
+    { userId, tokenId: created.id, scopes: input.scopes },
+    "API token created"
+  );
+
+  return { apiToken: toSummary(created), token };
+}
+
+/**
+ * Verify token ownership - check if token belongs to user
+ * @throws Error if token not found or doesn't belong to user
+ */
+async function verifyApiTokenOwnership(
+  tokenId: string,
+  userId: string,
+  db: ApiTokensDb
+) {
+  const existingToken = await db.query.apiTokens.findFirst({
+    where: and(
+      eq(drizzleSchema.apiTokens.id, tokenId),
+      eq(drizzleSchema.apiTokens.userId, userId)
+    ),
+  });
+
+  if (!existingToken) {
+    throw new Error("Token not found");
+  }
+
+  return existingToken;
+}
+
+/**
+ * Rotate a personal access token
+ * @param tokenId - ID of the token to rotate
+ * @param userId - ID of the user performing the rotation
+ * @param db - Database instance (defaults to drizzleDb for production)
+ * @returns The replacement token and its plain-text token
+ * @throws Error if token not found, doesn't belong to user, or is inactive
+ */
+export async function rotateApiTokenData(
+  tokenId: string,
+  userId: string,
+  db: ApiTokensDb = drizzleDb
+): Promise<IssuedApiToken> {
+  const existingToken = await verifyApiTokenOwnership(tokenId, userId, db);
+
+  if (!existingToken.isActive || existingToken.expiresAt < new Date()) {
+    throw new Error("Cannot rotate a revoked or expired token");
+  }
+
+  const { apiToken, token } = await rotateApiToken(tokenId, db);
+
+  log.info(
+    { userId, oldTokenId: tokenId, newTokenId: apiToken.id },
+    "API token rotated"
+  );
+
+  return { apiToken: toSummary(apiToken), token };
+}
+
+async function revoke(tokenId: string, db: ApiTokensDb) {
+  const [revoked] = await db
+    .update(drizzleSchema.apiTokens)
+    .set({ isActive: false, expiresAt: new Date() })
+    .where(eq(drizzleSchema.apiTokens.id, tokenId))
+    .returning();
+
+  return toSummary(revoked);
+}
+
+/**
+ * Revoke a personal access token immediately
+ * @param tokenId - ID of the token to revoke
+ * @param userId - ID of the user performing the revocation
+ * @param db - Database instance (defaults to drizzleDb for production)
+ * @returns The revoked token
+ * @throws Error if token not found or doesn't belong to user
+ */
+export async function revokeApiTokenData(
+  tokenId: string,
+  userId: string,
+  db: ApiTokensDb = drizzleDb
+): Promise<ApiTokenSummary> {
+  await verifyApiTokenOwnership(tokenId, userId, db);
+
+  const revoked = await revoke(tokenId, db);
+
+  log.info({ userId, tokenId }, "API token revoked");
+
+  return revoked;
+}
+
+/**
+ * Delete a revoked personal access token (permanent deletion)
+ * @param tokenId - ID of the token to delete
+ * @param userId - ID of the user performing the deletion
+ * @param db - Database instance (defaults to drizzleDb for production)
+ * @returns Success status with deleted token ID
+ * @throws Error if token not found, doesn't belong to user, or is still active
+ */
+export async function deleteApiTokenData(
+  tokenId: string,
+  userId: string,
+  db: ApiTokensDb = drizzleDb
+): Promise<{ success: boolean; deletedId: string }> {
+  const existingToken = await verifyApiTokenOwnership(tokenId, userId, db);
+
+  if (existingToken.isActive) {
+    throw new Error("Cannot delete an active token. Please revoke it first.");
+  }
+
+  await db
+    .delete(drizzleSchema.apiTokens)
+    .where(eq(drizzleSchema.apiTokens.id, tokenId));
+
+  log.info({ userId, tokenId }, "API token permanently deleted");
+
+  return { success: true, deletedId: tokenId };
+}
+
+/**
+ * Get all personal access tokens across all users (Admin only)
+ * @param db - Database instance (defaults to drizzleDb for production)
+ * @returns Every token with its owner, newest first
+ */
+export async function getAllApiTokensData(db: ApiTokensDb = drizzleDb) {
+  return db.query.apiTokens.findMany({
+    columns: apiTokenColumns,
+    with: {
+      user: {
+        columns: {
+          id: true,
+          email: true,
+          name: true,
+        },
+      },
+    },
+    orderBy: desc(drizzleSchema.apiTokens.createdAt),
+  });
+}
+
+/**
+ * Revoke any user's personal access token (Admin only)
+ * @param tokenId - ID of the token to revoke
+ * @param adminId - ID of the admin performing the revocation
+ * @param db - Database instance (defaults to drizzleDb for production)
+ * @returns The revoked token
+ * @throws Error if token not found
+ */
+export async function adminRevokeApiTokenData(
+  tokenId: string,
+  adminId: string,
+  db: ApiTokensDb = drizzleDb
+): Promise<ApiTokenSummary> {
+  const existingToken = await db.query.apiTokens.findFirst({
+    where: eq(drizzleSchema.apiTokens.id, tokenId),
+  });
+
+  if (!existingToken) {
+    throw new Error("Token not found");
+  }
+
+  const revoked = await revoke(tokenId, db);
+
+  log.info(
+    { adminId, tokenId, ownerId: existingToken.userId },
+    "API token revoked by admin"
+  );
+
+  return revoked;
+}
+
+/**
+ * Whether a bearer credential looks like a personal access token
+ */
+export function isApiToken(token: string): boolean {
+  return token.startsWith(API_TOKEN_PREFIX);
+}
+
+/**
+ * Resolve a bearer token to the user it acts as
+ *
+ * Rejects unknown, revoked and expired tokens and tokens of deactivated
+ * users, and records when the token was last used.
+ *
+ * @param token - The plain-text token from the Authorization header
+ * @param db - Database instance (defaults to drizzleDb for production)
+ * @returns The token's user and scopes, or null if the token is not valid
+ */
+export async function authenticateApiToken(
+  token: string,
+  db: ApiTokensDb = drizzleDb
+): Promise<ApiTokenAuthentication | null> {
+  if (!isApiToken(token)) {
+    return null;
+  }
+
+  const apiToken = await db.query.apiTokens.findFirst({
+    where: eq(drizzleSchema.apiTokens.tokenHash, hashApiToken(token)),
+    with: { user: true },
+  });
+
+  if (!apiToken || !apiToken.isActive || apiToken.expiresAt < new Date()) {
+    return null;
+  }
+
+  const user = apiToken.user;
+  if (!user || !user.isActive) {
+    return null;
+  }
+
+  await db
+    .update(drizzleSchema.apiTokens)
+    .set({ lastUsedAt: new Date() })
+    .where(eq(drizzleSchema.apiTokens.id, apiToken.id));
+
+  return {
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      personId: user.personId,
+      mustChangePassword: user.mustChangePassword,
+      profileClaimStatus: user.profileClaimStatus,
+      oidcProvider: user.oidcProvider,
+    },
+    tokenId: apiToken.id,
+    scopes: apiToken.scopes as Array<ApiTokenScope>,
+  };
+}
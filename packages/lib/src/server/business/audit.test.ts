@@ -0,0 +1,651 @@
+/**
+ * Unit tests for audit log revert business logic
+ *
+ * Tests cover:
+ * - logEntityAuditAction: Logging changes to records around a person
+ * - getPersonHistoryData: Person timelines with field-level diffs
+ * - isRevertableAuditEntry: Which kinds of entries can be reverted
+ * - previewRevertData: Field changes, conflicts and blocked reverts
+ * - revertAuditEntryData: Reverting CREATE, UPDATE and DELETE entries
+ * - restoreDeletedPersonData: Undoing soft deletes
+ *
+ * Uses a recording fake for database dependency injection.
+ */
+
+import { describe, expect, it, vi } from "vitest";
+import {
+  getPersonHistoryData,
+  isRevertableAuditEntry,
+  logEntityAuditAction,
+  previewRevertData,
+  restoreDeletedPersonData,
+  revertAuditEntryData,
+} from "./audit";
+import { SYSTEM_VIEWER } from "./privacy";
+import type { AuditDb } from "./audit";
+
+type Row = Record<string, unknown>;
+
+/**
+ * Fake Drizzle client answering the audit entry, later entries and person
+ * lookups, and recording every write
+ */
+function createFakeDb(options: {
+  entry?: Row;
+  later?: Array<Row>;
+  person?: Row;
+  placeLinks?: Array<Row>;
+  mediaLinks?: Array<Row>;
+  suggestions?: Array<Row>;
+}) {
+  const writes: Array<{
+    op: "insert" | "update";
+    table: unknown;
+    data: Row;
+  }> = [];
+
+  const tx = {
+    update: vi.fn((table: unknown) => ({
+      set: vi.fn((data: Row) => ({
+        where: vi.fn(() => {
+          writes.push({ op: "update", table, data });
+          return Promise.resolve();
+        }),
+      })),
+    })),
+    insert: vi.fn((table: unknown) => ({
+      values: vi.fn((data: Row) => {
+        writes.push({ op: "insert", table, data });
+        return Promise.resolve();
+      }),
+    })),
+  };
+
+  const db = {
+    writes,
+    query: {
+      auditLogs: {
+        findFirst: vi.fn(() => Promise.resolve(options.entry)),
+        findMany: vi.fn(() => Promise.resolve(options.later ?? [])),
+      },
+      persons: {
+        findFirst: vi.fn(() => Promise.resolve(options.person)),
+      },
+      placePersonLinks: {
+        findMany: vi.fn(() => Promise.resolve(options.placeLinks ?? [])),
+      },
+      personMedias: {
+        findMany: vi.fn(() => Promise.resolve(options.mediaLinks ?? [])),
+      },
+      suggestions: {
+        findMany: vi.fn(() => Promise.resolve(options.suggestions ?? [])),
+      },
+      familySettings: {
+        findFirst: vi.fn(() => Promise.resolve({ defaultPrivacy: "PUBLIC" })),
+      },
+    },
+    insert: tx.insert,
+    transaction: vi.fn((callback: (t: typeof tx) => Promise<unknown>) =>
+      callback(tx)
+    ),
+  };
+
+  return db as unknown as AuditDb & { writes: typeof writes };
+}
+
+const createdAt = new Date("2026-01-01T10:00:00Z");
+
+const person: Row = {
+  id: "person-1",
+  firstName: "Asha",
+  lastName: "Rao",
+  bio: "New bio",
+  profession: "Teacher",
+  dateOfBirth: new Date("1950-03-01T00:00:00Z"),
+  dateOfBirthDetail: null,
+  deletedAt: null,
+};
+
+const updateEntry: Row = {
+  id: "log-1",
+  action: "UPDATE",
+  entityType: "Person",
+  entityId: "person-1",
+  previousData: {
+    ...person,
+    bio: "Old bio",
+    dateOfBirth: "1949-03-01T00:00:00.000Z",
+  },
+  newData: { bio: "New bio", dateOfBirth: "1950-03-01" },
+  createdAt,
+};
+
+function laterEntry(id: string, newData: Row, action = "UPDATE"): Row {
+  return {
+    id,
+    action,
+    entityType: "Person",
+    entityId: "person-1",
+    newData,
+    createdAt: new Date("2026-01-02T10:00:00Z"),
+    user: { id: "user-2", name: "Ravi" },
+  };
+}
+
+describe("isRevertableAuditEntry", () => {
+  it("accepts person create, update and delete entries", () => {
+    for (const action of ["CREATE", "UPDATE", "DELETE"]) {
+      expect(
+        isRevertableAuditEntry({
+          action,
+          entityType: "Person",
+          entityId: "person-1",
+        })
+      ).toBe(true);
+    }
+  });
+
+  it("rejects other actions and entities", () => {
+    expect(
+      isRevertableAuditEntry({
+        action: "MERGE",
+        entityType: "Person",
+        entityId: "person-1",
+      })
+    ).toBe(false);
+    expect(
+      isRevertableAuditEntry({
+        action: "UPDATE",
+        entityType: "SETTINGS",
+        entityId: "settings-1",
+      })
+    ).toBe(false);
+    expect(
+      isRevertableAuditEntry({
+        action: "UPDATE",
+        entityType: "Person",
+        entityId: null,
+      })
+    ).toBe(false);
+  });
+});
+
+describe("previewRevertData", () => {
+  it("lists the fields an UPDATE revert restores", async () => {
+    const db = createFakeDb({ entry: updateEntry, person });
+
+    const preview = await previewRevertData("log-1", db);
+
+    expect(preview.revertable).toBe(true);
+    expect(preview.personName).toBe("Asha Rao");
+    expect(preview.changes).toEqual([
+      { field: "bio", current: "New bio", restored: "Old bio" },
+      {
+        field: "dateOfBirth",
+        current: "1950-03-01T00:00:00.000Z",
+        restored: "1949-03-01T00:00:00.000Z",
+      },
+      { field: "dateOfBirthDetail", current: null, restored: null },
+    ]);
+    expect(preview.conflicts).toEqual([]);
+  });
+
+  it("reports later changes to the same fields as conflicts", async () => {
+    const db = createFakeDb({
+      entry: updateEntry,
+      person,
+      later: [
+        laterEntry("log-2", { bio: "Newer bio" }),
+        laterEntry("log-3", { profession: "Teacher" }),
+      ],
+    });
+
+    const preview = await previewRevertData("log-1", db);
+
+    expect(preview.revertable).toBe(true);
+    expect(preview.conflicts).toEqual([
+      {
+        auditLogId: "log-2",
+        action: "UPDATE",
+        fields: ["bio"],
+        user: { id: "user-2", name: "Ravi" },
+        timestamp: new Date("2026-01-02T10:00:00Z").getTime(),
+      },
+    ]);
+  });
+
+  it("treats every later change as a conflict for CREATE reverts", async () => {
+    const db = createFakeDb({
+      entry: { ...updateEntry, action: "CREATE", previousData: null },
+      person,
+      later: [laterEntry("log-2", { profession: "Teacher" })],
+    });
+
+    const preview = await previewRevertData("log-1", db);
+
+    expect(preview.conflicts.map((c) => c.auditLogId)).toEqual(["log-2"]);
+  });
+
+  it("includes merge field choices in conflicts", async () => {
+    const db = createFakeDb({
+      entry: updateEntry,
+      person,
+      later: [laterEntry("log-2", { fields: { bio: "merge-id" } }, "MERGE")],
+    });
+
+    const preview = await previewRevertData("log-1", db);
+
+    expect(preview.conflicts[0].fields).toEqual(["bio"]);
+  });
+
+  it("blocks entries that were already reverted", async () => {
+    const db = createFakeDb({
+      entry: updateEntry,
+      person,
+      later: [
+        laterEntry("log-2", { bio: "Old bio", revertedAuditLogId: "log-1" }),
+      ],
+    });
+
+    const preview = await previewRevertData("log-1", db);
+
+    expect(preview.revertable).toBe(false);
+    expect(preview.blockedReason).toBe("ALREADY_REVERTED");
+  });
+
+  it("blocks non-person entries", async () => {
+    const db = createFakeDb({
+      entry: { ...updateEntry, entityType: "SETTINGS" },
+    });
+
+    const preview = await previewRevertData("log-1", db);
+
+    expect(preview.blockedReason).toBe("UNSUPPORTED");
+  });
+
+  it("blocks updates to deleted persons", async () => {
+    const db = createFakeDb({
+      entry: updateEntry,
+      person: { ...person, deletedAt: new Date() },
+    });
+
+    const preview = await previewRevertData("log-1", db);
+
+    expect(preview.blockedReason).toBe("PERSON_DELETED");
+  });
+
+  it("blocks updates without a snapshot", async () => {
+    const db = createFakeDb({
+      entry: { ...updateEntry, previousData: null },
+      person,
+    });
+
+    const preview = await previewRevertData("log-1", db);
+
+    expect(preview.blockedReason).toBe("NO_SNAPSHOT");
+  });
+
+  it("blocks restoring a person who is not deleted", async () => {
+    const db = createFakeDb({
+      entry: { ...updateEntry, action: "DELETE", newData: null },
+      person,
+    });
+
+    const preview = await previewRevertData("log-1", db);
+
+    expect(preview.blockedReason).toBe("PERSON_NOT_DELETED");
+  });
+
+  it("throws when the entry does not exist", async () => {
+    const db = createFakeDb({});
+
+    await expect(previewRevertData("missing", db)).rejects.toThrow(
+      "Audit entry not found"
+    );
+  });
+});
+
+describe("revertAuditEntryData", () => {
+  it("restores previous values and logs the revert", async () => {
+    const db = createFakeDb({ entry: updateEntry, person });
+
+    const result = await revertAuditEntryData("log-1", "admin-1", {}, db);
+
+    expect(result).toEqual({ success: true, personId: "person-1" });
+    const [update, audit] = db.writes;
+    expect(update.op).toBe("update");
+    expect(update.data).toMatchObject({
+      bio: "Old bio",
+      dateOfBirth: new Date("1949-03-01T00:00:00.000Z"),
+      dateOfBirthDetail: null,
+    });
+    expect(update.data.updatedAt).toBeInstanceOf(Date);
+    expect(audit.data).toMatchObject({
+      userId: "admin-1",
+      action: "UPDATE",
+      entityId: "person-1",
+      previousData: person,
+      newData: { bio: "Old bio", revertedAuditLogId: "log-1" },
+    });
+  });
+
+  it("refuses conflicting reverts unless forced", async () => {
+    const options = {
+      entry: updateEntry,
+      person,
+      later: [laterEntry("log-2", { bio: "Newer bio" })],
+    };
+
+    await expect(
+      revertAuditEntryData("log-1", "admin-1", {}, createFakeDb(options))
+    ).rejects.toThrow("The record has changed since this entry");
+
+    const db = createFakeDb(options);
+    await revertAuditEntryData("log-1", "admin-1", { force: true }, db);
+    expect(db.writes[0].data).toMatchObject({ bio: "Old bio" });
+  });
+
+  it("soft-deletes the person when reverting a CREATE", async () => {
+    const db = createFakeDb({
+      entry: { ...updateEntry, action: "CREATE", previousData: null },
+      person,
+    });
+
+    await revertAuditEntryData("log-1", "admin-1", {}, db);
+
+    expect(db.writes[0].data.deletedAt).toBeInstanceOf(Date);
+    expect(db.writes[1].data).toMatchObject({
+      action: "DELETE",
+      newData: { revertedAuditLogId: "log-1" },
+    });
+  });
+
+  it("restores the person when reverting a DELETE", async () => {
+    const db = createFakeDb({
+      entry: { ...updateEntry, action: "DELETE", newData: null },
+      person: { ...person, deletedAt: new Date() },
+    });
+
+    await revertAuditEntryData("log-1", "admin-1", {}, db);
+
+    expect(db.writes[0].data).toMatchObject({ deletedAt: null });
+    expect(db.writes[1].data).toMatchObject({
+      action: "UPDATE",
+      newData: { deletedAt: null, revertedAuditLogId: "log-1" },
+    });
+  });
+
+  it("throws for blocked reverts", async () => {
+    const db = createFakeDb({
+      entry: { ...updateEntry, entityType: "SETTINGS" },
+    });
+
+    await expect(
+      revertAuditEntryData("log-1", "admin-1", {}, db)
+    ).rejects.toThrow("This change cannot be reverted");
+    expect(db.writes).toEqual([]);
+  });
+});
+
+describe("restoreDeletedPersonData", () => {
+  it("clears deletedAt and logs the restore", async () => {
+    const deleted = { ...person, deletedAt: new Date() };
+    const db = createFakeDb({ person: deleted });
+
+    const result = await restoreDeletedPersonData("person-1", "admin-1", db);
+
+    expect(result).toEqual({ success: true, personId: "person-1" });
+    expect(db.writes[0].data).toMatchObject({ deletedAt: null });
+    expect(db.writes[1].data).toMatchObject({
+      action: "UPDATE",
+      previousData: deleted,
+      newData: { deletedAt: null },
+    });
+  });
+
+  it("throws when no deleted person matches", async () => {
+    const db = createFakeDb({});
+
+    await expect(
+      restoreDeletedPersonData("person-1", "admin-1", db)
+    ).rejects.toThrow("Deleted person not found");
+  });
+});
+
+describe("logEntityAuditAction", () => {
+  it("records the entity and the person whose history it belongs to", async () => {
+    const db = createFakeDb({});
+
+    await logEntityAuditAction(
+      {
+        userId: "user-1",
+        action: "UPDATE",
+        entityType: "EVENT",
+        entityId: "event-1",
+        personId: "person-1",
+        previousData: { place: "Pune" },
+        newData: { place: "Mumbai" },
+      },
+      db
+    );
+
+    expect(db.writes[0].data).toMatchObject({
+      userId: "user-1",
+      action: "UPDATE",
+      entityType: "EVENT",
+      entityId: "event-1",
+      personId: "person-1",
+      previousData: { place: "Pune" },
+      newData: { place: "Mumbai" },
+    });
+  });
+
+  it("does not throw when the insert fails", async () => {
+    const db = {
+      insert: vi.fn(() => {
+        throw new Error("db down");
+      }),
+    } as unknown as AuditDb;
+
+    await expect(
+      logEntityAuditAction(
+        {
+          userId: "user-1",
+          action: "DELETE",
+          entityType: "PLACE",
+          entityId: "place-1",
+          personId: null,
+        },
+        db
+      )
+    ).resolves.toBeUndefined();
+  });
+});
+
+describe("getPersonHistoryData", () => {
+  function historyEntry(overrides: Row): Row {
+    return {
+      id: "log-1",
+      action: "UPDATE",
+      entityType: "Person",
+      entityId: "person-1",
+      personId: "person-1",
+      previousData: null,
+      newData: null,
+      createdAt,
+      user: { id: "user-1", name: "Asha" },
+      ...overrides,
+    };
+  }
+
+  it("diffs only the fields an update changed", async () => {
+    const db = createFakeDb({
+      person,
+      later: [
+        historyEntry({
+          previousData: {
+            ...person,
+            bio: "Old bio",
+            dateOfBirth: "1950-03-01T00:00:00.000Z",
+          },
+          newData: { bio: "New bio", dateOfBirth: "1950-03-01" },
+        }),
+      ],
+    });
+
+    const [entry] = await getPersonHistoryData("person-1", db, SYSTEM_VIEWER);
+
+    expect(entry).toMatchObject({
+      id: "log-1",
+      action: "UPDATE",
+      entityType: "PERSON",
+      label: null,
+      user: { id: "user-1", name: "Asha" },
+      suggestion: null,
+      timestamp: createdAt.getTime(),
+    });
+    expect(entry.changes).toEqual([
+      { field: "bio", before: "Old bio", after: "New bio" },
+    ]);
+  });
+
+  it("shows created and deleted records field by field", async () => {
+    const db = createFakeDb({
+      person,
+      later: [
+        historyEntry({
+          id: "log-2",
+          action: "DELETE",
+          entityType: "EVENT",
+          entityId: "event-1",
+          previousData: {
+            id: "event-1",
+            type: "GRADUATION",
+            place: "Pune",
+            description: null,
+          },
+        }),
+        historyEntry({
+          id: "log-1",
+          action: "CREATE",
+          entityType: "EVENT",
+          entityId: "event-1",
+          newData: {
+            id: "event-1",
+            type: "GRADUATION",
+            place: "Pune",
+            createdAt: "2026-01-01T10:00:00.000Z",
+          },
+        }),
+      ],
+    });
+
+    const [deleted, created] = await getPersonHistoryData(
+      "person-1",
+      db,
+      SYSTEM_VIEWER
+    );
+
+    expect(deleted.label).toBe("GRADUATION");
+    expect(deleted.changes).toEqual([
+      { field: "place", before: "Pune", after: null },
+      { field: "type", before: "GRADUATION", after: null },
+    ]);
+    expect(created.changes).toEqual([
+      { field: "place", before: null, after: "Pune" },
+      { field: "type", before: null, after: "GRADUATION" },
+    ]);
+  });
+
+  it("shows only deletedAt for person soft deletes", async () => {
+    const db = createFakeDb({
+      person,
+      later: [historyEntry({ action: "DELETE", previousData: person })],
+    });
+
+    const [entry] = await getPersonHistoryData("person-1", db, SYSTEM_VIEWER);
+
+    expect(entry.changes).toEqual([
+      { field: "deletedAt", before: null, after: createdAt.toISOString() },
+    ]);
+  });
+
+  it("marks changes applied from approved suggestions", async () => {
+    const db = createFakeDb({
+      person,
+      later: [
+        historyEntry({
+          previousData: { bio: "Old bio" },
+          newData: { bio: "New bio", suggestionId: "sug-1" },
+        }),
+      ],
+      suggestions: [
+        {
+          id: "sug-1",
+          submittedBy: { id: "user-2", name: "Ravi" },
+          reviewedBy: { id: "admin-1", name: null },
+        },
+      ],
+    });
+
+    const [entry] = await getPersonHistoryData("person-1", db, SYSTEM_VIEWER);
+
+    expect(entry.suggestion).toEqual({
+      id: "sug-1",
+      submittedBy: { id: "user-2", name: "Ravi" },
+      reviewedBy: { id: "admin-1", name: "Unknown" },
+    });
+    expect(entry.changes.map((change) => change.field)).toEqual(["bio"]);
+  });
+
+  it("includes changes to linked places and media", async () => {
+    const db = createFakeDb({
+      person,
+      placeLinks: [{ placeId: "place-1" }],
+      mediaLinks: [{ mediaId: "media-1" }],
+    });
+
+    await getPersonHistoryData("person-1", db, SYSTEM_VIEWER);
+
+    expect(db.query.placePersonLinks.findMany).toHaveBeenCalled();
+    expect(db.query.personMedias.findMany).toHaveBeenCalled();
+    expect(db.query.suggestions.findMany).not.toHaveBeenCalled();
+  });
+
+  it("returns nothing for a living person a viewer may not see", async () => {
+    const db = createFakeDb({
+      person: { ...person, isLiving: true, privacy: null },
+      later: [historyEntry({ newData: { bio: "New bio" } })],
+    });
+
+    const history = await getPersonHistoryData("person-1", db, {
+      role: "VIEWER",
+      personId: "person-2",
+    });
+
+    expect(history).toEqual([]);
+    expect(db.query.auditLogs.findMany).not.toHaveBeenCalled();
+  });
+
+  it("shows a living person's history to members", async () => {
+    const db = createFakeDb({
+      person: { ...person, isLiving: true, privacy: null },
+      later: [historyEntry({ newData: { bio: "New bio" } })],
+    });
+
+    const history = await getPersonHistoryData("person-1", db, {
+      role: "MEMBER",
+      personId: "person-2",
+    });
+
+    expect(history).toHaveLength(1);
+  });
+
+  it("throws when the person does not exist", async () => {
+    const db = createFakeDb({});
+
+    await expect(
+      getPersonHistoryData("missing", db, SYSTEM_VIEWER)
+    ).rejects.toThrow("Person not found");
+  });
+});
@@ -0,0 +1,809 @@
+/**
+ * Audit Log Business Logic - Recording, History and Reverts
+ *
+ * Changes to persons and the records around them (events, relationships,
+ * places and media) are logged with the person whose history they belong
+ * to, so a person's timeline can be read back with field-level diffs.
+ *
+ * Person changes are logged with snapshots: UPDATE entries hold the full
+ * record before the change (previousData) and the submitted fields
+ * (newData), DELETE entries the record that was soft-deleted. These
+ * functions use the snapshots to undo a single entry:
+ * - CREATE: soft-delete the person again
+ * - UPDATE: put back the previous values of the fields the entry changed
+ * - DELETE: restore the soft-deleted person
+ *
+ * A revert conflicts when later entries touched the same fields, since
+ * reverting would silently undo those changes too. Conflicting reverts
+ * need to be forced.
+ *
+ * Exported Functions:
+ * - resolveAuditActor: Split an audit actor into user ID and suggestion marker
+ * - logEntityAuditAction: Log a change to an event, relationship, place or media
+ * - getPersonHistoryData: Timeline of changes to a person and their records
+ * - isRevertableAuditEntry: Whether an entry is a kind that can be reverted
+ * - previewRevertData: What a revert would change, and its conflicts
+ * - revertAuditEntryData: Revert one audit entry
+ * - restoreDeletedPersonData: Undo a person's soft delete
+ */
+
+import { drizzleDb, drizzleSchema } from "@vamsa/api";
+import { and, asc, desc, eq, gt, inArray, isNotNull, or } from "drizzle-orm";
+import { loggers } from "@vamsa/lib/logger";
+import { MERGEABLE_PERSON_FIELDS } from "./duplicates";
+import { logAuditAction } from "./persons";
+import { getPrivacyPolicy, isPersonRedacted } from "./privacy";
+import type { SQL } from "drizzle-orm";
+import type { PrivacyViewer } from "./privacy";
+
+const log = loggers.db;
+
+/** Type for the database instance (for DI) */
+export type AuditDb = typeof drizzleDb;
+
+/** Database instance or transaction object */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type AuditDbOrTx = AuditDb | any;
+
+/** Audit entity types used for person entries */
+const PERSON_ENTITY_TYPES = ["Person", "PERSON"];
+
+/**
+ * Person columns a revert may write. Identity and bookkeeping columns are
+ * never restored from snapshots.
+ */
+const RESTORABLE_FIELDS = new Set<string>([
+  ...MERGEABLE_PERSON_FIELDS,
+  "deletedAt",
+]);
+
+/** Columns stored as ISO strings in snapshots */
+const DATE_FIELDS = new Set(["dateOfBirth", "dateOfPassing", "deletedAt"]);
+
+/** Date columns whose detail column must be restored with them */
+const DATE_FIELD_PAIRS: Record<string, string> = {
+  dateOfBirth: "dateOfBirthDetail",
+  dateOfBirthDetail: "dateOfBirth",
+  dateOfPassing: "dateOfPassingDetail",
+  dateOfPassingDetail: "dateOfPassing",
+};
+
+/** Records other than persons whose changes are logged */
+export type AuditEntityType =
+  | "EVENT"
+  | "EVENT_PARTICIPANT"
+  | "RELATIONSHIP"
+  | "PLACE"
+  | "PLACE_LINK"
+  | "MEDIA";
+
+/**
+ * Who a change is attributed to: a user ID, or the submitter of an approved
+ * suggestion, whose ID is then stored with the change
+ */
+export type AuditActor = string | { userId: string; suggestionId: string };
+
+/**
+ * Split an actor into the audited user ID and the fields recorded with the
+ * change
+ * @param actor - User ID or approved suggestion submitter
+ * @returns The user ID and the suggestion marker, if any
+ */
+export function resolveAuditActor(actor: AuditActor): {
+  userId: string;
+  marker: { suggestionId?: string };
+} {
+  if (typeof actor === "string") {
+    return { userId: actor, marker: {} };
+  }
+  return {
+    userId: actor.userId,
+    marker: { suggestionId: actor.suggestionId },
+  };
+}
+
+/**
+ * A change to a record around a person
+ */
+export interface EntityAuditEntry {
+  userId: AuditActor;
+  action: "CREATE" | "UPDATE" | "DELETE";
+  entityType: AuditEntityType;
+  entityId: string;
+  /** Person whose history shows the change; null for shared records */
+  personId: string | null;
+  /** Record before the change (UPDATE/DELETE) */
+  previousData?: unknown;
+  /** Changed fields (UPDATE) or the new record (CREATE) */
+  newData?: unknown;
+}
+
+/**
+ * Log a change to an event, relationship, place or media record. Failures
+ * are logged and swallowed, like person audit entries.
+ *
+ * @param entry - The change to log
+ * @param db - Drizzle database instance or transaction object
+ */
+export async function logEntityAuditAction(
+  entry: EntityAuditEntry,
+  db: AuditDbOrTx = drizzleDb
+) {
+  const { userId, marker } = resolveAuditActor(entry.userId);
+  const newData = marker.suggestionId
+    ? { ...((entry.newData ?? {}) as Record<string, unknown>), ...marker }
+    : entry.newData;
+
+  try {
+    await db.insert(drizzleSchema.auditLogs).values({
+      id: crypto.randomUUID(),
+      userId,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      personId: entry.personId,
+      previousData: (entry.previousData ?? null) as Record<
+        string,
+        unknown
+      > | null,
+      newData: (newData ?? null) as Record<string, unknown> | null,
+    });
+  } catch (error) {
+    log
+      .withErr(error)
+      .ctx({ entityType: entry.entityType, entityId: entry.entityId })
+      .msg("Failed to log audit action");
+  }
+}
+
+/** Why an audit entry cannot be reverted */
+export type RevertBlockedReason =
+  | "UNSUPPORTED"
+  | "NO_SNAPSHOT"
+  | "ALREADY_REVERTED"
+  | "PERSON_NOT_FOUND"
+  | "PERSON_DELETED"
+  | "PERSON_NOT_DELETED";
+
+/**
+ * A later audit entry that changed fields the revert would overwrite
+ */
+export interface RevertConflict {
+  auditLogId: string;
+  action: string;
+  fields: Array<string>;
+  user: { id: string; name: string } | null;
+  timestamp: number; // timestamp in ms
+}
+
+/**
+ * A field value as it appears in audit snapshots. Structured values such
+ * as date details are JSON-encoded.
+ */
+export type AuditFieldValue = string | number | boolean | null;
+
+/**
+ * What reverting an audit entry would do
+ */
+export interface RevertPreview {
+  auditLogId: string;
+  action: string;
+  personId: string | null;
+  personName: string | null;
+  revertable: boolean;
+  blockedReason: RevertBlockedReason | null;
+  /** Field values before and after the revert (UPDATE entries) */
+  changes: Array<{
+    field: string;
+    current: AuditFieldValue;
+    restored: AuditFieldValue;
+  }>;
+  conflicts: Array<RevertConflict>;
+}
+
+/**
+ * Result of a revert or restore
+ */
+export interface RevertResult {
+  success: boolean;
+  personId: string;
+}
+
+type AuditEntry = NonNullable<
+  Awaited<ReturnType<AuditDb["query"]["auditLogs"]["findFirst"]>>
+>;
+type PersonRow = NonNullable<
+  Awaited<ReturnType<AuditDb["query"]["persons"]["findFirst"]>>
+>;
+
+/**
+ * Whether an audit entry is a kind of change that can be reverted. The
+ * entry may still be blocked, e.g. if it was already reverted.
+ */
+export function isRevertableAuditEntry(entry: {
+  action: string;
+  entityType: string;
+  entityId: string | null;
+}): boolean {
+  return (
+    PERSON_ENTITY_TYPES.includes(entry.entityType) &&
+    !!entry.entityId &&
+    ["CREATE", "UPDATE", "DELETE"].includes(entry.action)
+  );
+}
+
+/**
+ * JSON-safe copy of a value, so Dates compare and serialize like the
+ * strings stored in audit snapshots
+ */
+function toJsonValue(value: unknown): AuditFieldValue {
+  if (value === undefined || value === null) return null;
+  const json: unknown = JSON.parse(JSON.stringify(value));
+  return json !== null && typeof json === "object"
+    ? JSON.stringify(json)
+    : (json as AuditFieldValue);
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+/**
+ * Person fields an audit entry changed
+ */
+function getChangedFields(entry: AuditEntry): Array<string> {
+  const newData = asRecord(entry.newData);
+  if (!newData) return [];
+
+  // Merges record their field choices under "fields"
+  const source =
+    entry.action === "MERGE" ? (asRecord(newData.fields) ?? {}) : newData;
+
+  const fields = new Set<string>();
+  for (const key of Object.keys(source)) {
+    if (!RESTORABLE_FIELDS.has(key)) continue;
+    fields.add(key);
+    if (DATE_FIELD_PAIRS[key]) fields.add(DATE_FIELD_PAIRS[key]);
+  }
+  return [...fields].sort();
+}
+
+/**
+ * Turn snapshot values back into column values
+ */
+function reviveFields(
+  snapshot: Record<string, unknown>,
+  fields: Array<string>
+): Record<string, unknown> {
+  const revived: Record<string, unknown> = {};
+  for (const field of fields) {
+    const value = snapshot[field] ?? null;
+    revived[field] =
+      DATE_FIELDS.has(field) && typeof value === "string"
+        ? new Date(value)
+        : value;
+  }
+  return revived;
+}
+
+async function loadEntry(auditLogId: string, db: AuditDb) {
+  const entry = await db.query.auditLogs.findFirst({
+    where: eq(drizzleSchema.auditLogs.id, auditLogId),
+  });
+  if (!entry) {
+    throw new Error("Audit entry not found");
+  }
+  return entry;
+}
+
+/**
+ * Work out what reverting an entry would change
+ */
+async function planRevert(entry: AuditEntry, db: AuditDb) {
+  const preview: RevertPreview = {
+    auditLogId: entry.id,
+    action: entry.action,
+    personId: entry.entityId,
+    personName: null,
+    revertable: false,
+    blockedReason: null,
+    changes: [],
+    conflicts: [],
+  };
+  let fields: Array<string> = [];
+
+  const block = (reason: RevertBlockedReason, person?: PersonRow) => {
+    preview.blockedReason = reason;
+    return { preview, fields, person };
+  };
+
+  if (!isRevertableAuditEntry(entry) || !entry.entityId) {
+    return block("UNSUPPORTED");
+  }
+
+  const person = await db.query.persons.findFirst({
+    where: eq(drizzleSchema.persons.id, entry.entityId),
+  });
+  if (!person) {
+    return block("PERSON_NOT_FOUND");
+  }
+  preview.personName = `${person.firstName} ${person.lastName}`;
+
+  const later = await db.query.auditLogs.findMany({
+    where: and(
+      inArray(drizzleSchema.auditLogs.entityType, PERSON_ENTITY_TYPES),
+      eq(drizzleSchema.auditLogs.entityId, entry.entityId),
+      gt(drizzleSchema.auditLogs.createdAt, entry.createdAt)
+    ),
+    orderBy: asc(drizzleSchema.auditLogs.createdAt),
+    with: {
+      user: {
+        columns: { id: true, name: true },
+      },
+    },
+  });
+
+  if (
+    later.some(
+      (laterEntry: (typeof later)[0]) =>
+        asRecord(laterEntry.newData)?.revertedAuditLogId === entry.id
+    )
+  ) {
+    return block("ALREADY_REVERTED", person);
+  }
+
+  if (entry.action === "DELETE") {
+    // Restoring never overwrites anything, so there is nothing to conflict
+    if (!person.deletedAt) return block("PERSON_NOT_DELETED", person);
+    preview.revertable = true;
+    return { preview, fields, person };
+  }
+
+  if (person.deletedAt) {
+    return block("PERSON_DELETED", person);
+  }
+
+  if (entry.action === "UPDATE") {
+    const previous = asRecord(entry.previousData);
+    fields = getChangedFields(entry);
+    if (!previous || fields.length === 0) {
+      return block("NO_SNAPSHOT", person);
+    }
+    const restored = reviveFields(previous, fields);
+    preview.changes = fields.map((field) => ({
+      field,
+      current: toJsonValue((person as Record<string, unknown>)[field]),
+      restored: toJsonValue(restored[field]),
+    }));
+  }
+
+  // Removing a created person undoes every later change; an UPDATE revert
+  // only clashes with later changes to the same fields
+  for (const laterEntry of later) {
+    const laterFields = getChangedFields(laterEntry);
+    const overlapping =
+      entry.action === "CREATE"
+        ? laterFields
+        : laterFields.filter((field) => fields.includes(field));
+    if (entry.action === "UPDATE" && overlapping.length === 0) continue;
+
+    preview.conflicts.push({
+      auditLogId: laterEntry.id,
+      action: laterEntry.action,
+      fields: overlapping,
+      user: laterEntry.user
+        ? { id: laterEntry.user.id, name: laterEntry.user.name ?? "Unknown" }
+        : null,
+      timestamp: laterEntry.createdAt.getTime(),
+    });
+  }
+
+  preview.revertable = true;
+  return { preview, fields, person };
+}
+
+const BLOCKED_MESSAGES: Record<RevertBlockedReason, string> = {
+  UNSUPPORTED: "This change cannot be reverted",
+  NO_SNAPSHOT: "This change has no snapshot to revert to",
+  ALREADY_REVERTED: "This change has already been reverted",
+  PERSON_NOT_FOUND: "Person not found",
+  PERSON_DELETED: "Person has been deleted; restore them first",
+  PERSON_NOT_DELETED: "Person is not deleted",
+};
+
+/**
+ * Preview reverting an audit entry
+ *
+ * @param auditLogId - ID of the audit entry
+ * @param db - Drizzle database instance
+ * @returns Field changes, conflicts with later entries, or why it is blocked
+ * @throws Error if the entry does not exist
+ */
+export async function previewRevertData(
+  auditLogId: string,
+  db: AuditDb = drizzleDb
+): Promise<RevertPreview> {
+  const entry = await loadEntry(auditLogId, db);
+  return (await planRevert(entry, db)).preview;
+}
+
+/**
+ * Revert an audit entry, recording the revert as a new entry
+ *
+ * @param auditLogId - ID of the audit entry to revert
+ * @param userId - ID of the admin reverting the change
+ * @param options.force - Revert even when later entries conflict
+ * @param db - Drizzle database instance
+ * @returns The reverted person
+ * @throws Error if the entry cannot be reverted, or conflicts without force
+ */
+export async function revertAuditEntryData(
+  auditLogId: string,
+  userId: string,
+  options: { force?: boolean } = {},
+  db: AuditDb = drizzleDb
+): Promise<RevertResult> {
+  const entry = await loadEntry(auditLogId, db);
+  const { preview, fields, person } = await planRevert(entry, db);
+
+  if (!preview.revertable || !person) {
+    throw new Error(BLOCKED_MESSAGES[preview.blockedReason ?? "UNSUPPORTED"]);
+  }
+  if (preview.conflicts.length > 0 && !options.force) {
+    throw new Error(
+      "The record has changed since this entry; force the revert to overwrite later changes"
+    );
+  }
+
+  if (entry.action === "DELETE") {
+    return restorePerson(person, userId, entry.id, db);
+  }
+
+  const now = new Date();
+  return await db.transaction(async (tx) => {
+    if (entry.action === "CREATE") {
+      await tx
+        .update(drizzleSchema.persons)
+        .set({ deletedAt: now, updatedAt: now })
+        .where(eq(drizzleSchema.persons.id, person.id));
+      await logAuditAction(
+        userId,
+        "DELETE",
+        person.id,
+        person,
+        { revertedAuditLogId: entry.id },
+        tx
+      );
+    } else {
+      const restored = reviveFields(asRecord(entry.previousData)!, fields);
+      await tx
+        .update(drizzleSchema.persons)
+        .set({ ...restored, updatedAt: now })
+        .where(eq(drizzleSchema.persons.id, person.id));
+      await logAuditAction(
+        userId,
+        "UPDATE",
+        person.id,
+        person,
+        { ...restored, revertedAuditLogId: entry.id },
+        tx
+      );
+    }
+
+    return { success: true, personId: person.id };
+  });
+}
+
+/**
+ * Restore a soft-deleted person
+ *
+ * @param personId - ID of the deleted person
+ * @param userId - ID of the admin restoring them
+ * @param db - Drizzle database instance
+ * @returns The restored person
+ * @throws Error if the person does not exist or is not deleted
+ */
+export async function restoreDeletedPersonData(
+  personId: string,
+  userId: string,
+  db: AuditDb = drizzleDb
+): Promise<RevertResult> {
+  const person = await db.query.persons.findFirst({
+    where: and(
+      eq(drizzleSchema.persons.id, personId),
+      isNotNull(drizzleSchema.persons.deletedAt)
+    ),
+  });
+
+  if (!person) {
+    throw new Error("Deleted person not found");
+  }
+
+  return restorePerson(person, userId, null, db);
+}
+
+async function restorePerson(
+  person: PersonRow,
+  userId: string,
+  revertedAuditLogId: string | null,
+  db: AuditDb
+): Promise<RevertResult> {
+  return await db.transaction(async (tx) => {
+    await tx
+      .update(drizzleSchema.persons)
+      .set({ deletedAt: null, updatedAt: new Date() })
+      .where(eq(drizzleSchema.persons.id, person.id));
+    await logAuditAction(
+      userId,
+      "UPDATE",
+      person.id,
+      person,
+      revertedAuditLogId
+        ? { deletedAt: null, revertedAuditLogId }
+        : { deletedAt: null },
+      tx
+    );
+
+    return { success: true, personId: person.id };
+  });
+}
+
+/**
+ * A field changed by an entry in a person's history
+ */
+export interface HistoryFieldChange {
+  field: string;
+  before: AuditFieldValue;
+  after: AuditFieldValue;
+}
+
+/**
+ * One change in a person's history
+ */
+export interface PersonHistoryEntry {
+  id: string;
+  action: string;
+  /** "PERSON" or one of the AuditEntityType values */
+  entityType: string;
+  entityId: string | null;
+  /** Short name of the changed record, e.g. an event type or place name */
+  label: string | null;
+  changes: Array<HistoryFieldChange>;
+  user: { id: string; name: string } | null;
+  /** Set when the change was applied by approving a suggestion */
+  suggestion: {
+    id: string;
+    submittedBy: { id: string; name: string } | null;
+    reviewedBy: { id: string; name: string } | null;
+  } | null;
+  /** Entry this change reverted, if it was a revert */
+  revertedAuditLogId: string | null;
+  timestamp: number; // timestamp in ms
+}
+
+/** Markers stored next to changed fields, never shown as changes */
+const AUDIT_META_FIELDS = new Set([
+  "revertedAuditLogId",
+  "suggestionId",
+  "undoneMergeAuditLogId",
+  "restoredPersonId",
+]);
+
+/** Bookkeeping columns left out of diffs */
+const HIDDEN_HISTORY_FIELDS = new Set(["id", "createdAt", "updatedAt"]);
+
+/**
+ * Snapshot value for display, with midnight timestamps shown as dates so
+ * submitted "YYYY-MM-DD" values compare equal to stored dates
+ */
+function toHistoryValue(value: unknown): AuditFieldValue {
+  const json = toJsonValue(value);
+  if (typeof json === "string") {
+    const midnight = /^(\d{4}-\d{2}-\d{2})T00:00:00(?:\.000)?Z$/.exec(json);
+    if (midnight) return midnight[1];
+  }
+  return json === "" ? null : json;
+}
+
+function diffFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  fields: Iterable<string>
+): Array<HistoryFieldChange> {
+  const changes: Array<HistoryFieldChange> = [];
+  for (const field of fields) {
+    if (AUDIT_META_FIELDS.has(field) || HIDDEN_HISTORY_FIELDS.has(field)) {
+      continue;
+    }
+    const change = {
+      field,
+      before: toHistoryValue(before[field]),
+      after: toHistoryValue(after[field]),
+    };
+    if (change.before !== change.after) changes.push(change);
+  }
+  return changes.sort((a, b) => a.field.localeCompare(b.field));
+}
+
+/**
+ * Field-level changes recorded by an audit entry
+ */
+function getEntryChanges(entry: {
+  action: string;
+  entityType: string;
+  previousData: unknown;
+  newData: unknown;
+  createdAt: Date;
+}): Array<HistoryFieldChange> {
+  const previous = asRecord(entry.previousData) ?? {};
+  const next = asRecord(entry.newData) ?? {};
+
+  switch (entry.action) {
+    case "CREATE":
+      return diffFields({}, next, Object.keys(next));
+    case "UPDATE":
+      return diffFields(previous, next, Object.keys(next));
+    case "DELETE":
+      // Persons are soft-deleted, so only deletedAt changes
+      return PERSON_ENTITY_TYPES.includes(entry.entityType)
+        ? diffFields(previous, { deletedAt: entry.createdAt }, ["deletedAt"])
+        : diffFields(previous, {}, Object.keys(previous));
+    case "MERGE": {
+      const fields = asRecord(next.fields) ?? {};
+      return diffFields(
+        asRecord(previous.kept) ?? {},
+        fields,
+        Object.keys(fields)
+      );
+    }
+    default:
+      return [];
+  }
+}
+
+function getEntryLabel(entry: {
+  entityType: string;
+  previousData: unknown;
+  newData: unknown;
+}): string | null {
+  if (PERSON_ENTITY_TYPES.includes(entry.entityType)) return null;
+  const data = {
+    ...asRecord(entry.previousData),
+    ...asRecord(entry.newData),
+  };
+  for (const key of ["name", "title", "type"]) {
+    if (typeof data[key] === "string" && data[key]) return data[key];
+  }
+  return null;
+}
+
+/**
+ * Retrieve every logged change to a person and the records around them:
+ * their events, relationships, place links and media, plus edits to the
+ * places and media they are linked to. Newest first.
+ *
+ * @param personId - ID of the person
+ * @param db - Drizzle database instance
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
+ * @returns History entries with field-level changes (none for a person hidden from the viewer)
+ * @throws Error if the person does not exist
+ */
+export async function getPersonHistoryData(
+  personId: string,
+  db: AuditDb = drizzleDb,
+  viewer: PrivacyViewer
+): Promise<Array<PersonHistoryEntry>> {
+  const person = await db.query.persons.findFirst({
+    where: eq(drizzleSchema.persons.id, personId),
+  });
+  if (!person) {
+    throw new Error("Person not found");
+  }
+
+  // The diffs hold the same details redaction hides
+  if (isPersonRedacted(await getPrivacyPolicy(viewer, db), person)) {
+    return [];
+  }
+
+  const [placeLinks, mediaLinks] = await Promise.all([
+    db.query.placePersonLinks.findMany({
+      where: eq(drizzleSchema.placePersonLinks.personId, personId),
+      columns: { placeId: true },
+    }),
+    db.query.personMedias.findMany({
+      where: eq(drizzleSchema.personMedias.personId, personId),
+      columns: { mediaId: true },
+    }),
+  ]);
+
+  const conditions: Array<SQL | undefined> = [
+    eq(drizzleSchema.auditLogs.personId, personId),
+    // Entries logged before personId was recorded
+    and(
+      inArray(drizzleSchema.auditLogs.entityType, PERSON_ENTITY_TYPES),
+      eq(drizzleSchema.auditLogs.entityId, personId)
+    ),
+  ];
+  const sharedRecords: Array<[AuditEntityType, Array<string>]> = [
+    ["PLACE", placeLinks.map((link) => link.placeId)],
+    ["MEDIA", mediaLinks.map((link) => link.mediaId)],
+  ];
+  for (const [entityType, ids] of sharedRecords) {
+    if (ids.length === 0) continue;
+    conditions.push(
+      and(
+        eq(drizzleSchema.auditLogs.entityType, entityType),
+        inArray(drizzleSchema.auditLogs.entityId, [...new Set(ids)])
+      )
+    );
+  }
+
+  const entries = await db.query.auditLogs.findMany({
+    where: or(...conditions),
+    orderBy: desc(drizzleSchema.auditLogs.createdAt),
+    with: {
+      user: {
+        columns: { id: true, name: true },
+      },
+    },
+  });
+
+  const suggestionIds = [
+    ...new Set(
+      entries
+        .map((entry) => asRecord(entry.newData)?.suggestionId)
+        .filter((id): id is string => typeof id === "string")
+    ),
+  ];
+  const suggestions =
+    suggestionIds.length > 0
+      ? await db.query.suggestions.findMany({
+          where: inArray(drizzleSchema.suggestions.id, suggestionIds),
+          columns: { id: true },
+          with: {
+            submittedBy: { columns: { id: true, name: true } },
+            reviewedBy: { columns: { id: true, name: true } },
+          },
+        })
+      : [];
+  const suggestionsById = new Map(
+    suggestions.map((suggestion) => [suggestion.id, suggestion])
+  );
+
+  const toUser = (user: { id: string; name: string | null } | null) =>
+    user ? { id: user.id, name: user.name ?? "Unknown" } : null;
+
+  return entries.map((entry) => {
+    const newData = asRecord(entry.newData);
+    const suggestion =
+      typeof newData?.suggestionId === "string"
+        ? suggestionsById.get(newData.suggestionId)
+        : undefined;
+
+    return {
+      id: entry.id,
+      action: entry.action,
+      entityType: PERSON_ENTITY_TYPES.includes(entry.entityType)
+        ? "PERSON"
+        : entry.entityType,
+      entityId: entry.entityId,
+      label: getEntryLabel(entry),
+      changes: getEntryChanges(entry),
+      user: toUser(entry.user),
+      suggestion: suggestion
+        ? {
+            id: suggestion.id,
+            submittedBy: toUser(suggestion.submittedBy),
+            reviewedBy: toUser(suggestion.reviewedBy),
+          }
+        : null,
+      revertedAuditLogId:
+        typeof newData?.revertedAuditLogId === "string"
+          ? newData.revertedAuditLogId
+          : null,
+      timestamp: entry.createdAt.getTime(),
+    };
+  });
+}
@@ -22,6 +22,7 @@ import {
   generateRSSFeedData,
   validateCalendarToken,
 } from "./calendar-feeds";
+import { SYSTEM_VIEWER } from "./privacy";
 
 // Create mock drizzleDb
 const mockDrizzleDb = {
@@ -192,7 +193,8 @@ describe("Calendar Feeds Business Logic", () => {
         await generateRSSFeedData(
           "invalid-token",
           "https://example.com",
-          mockDrizzleDb as any
+          mockDrizzleDb as any,
+          SYSTEM_VIEWER
         );
         expect.unreachable("should have thrown");
       } catch (err) {
@@ -251,7 +253,8 @@ describe("Calendar Feeds Business Logic", () => {
       const xml = await generateRSSFeedData(
         "valid-token",
         "https://example.com",
-        mockDrizzleDb as any
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
       );
 
       expect(xml).toContain("<?xml");
@@ -292,7 +295,8 @@ describe("Calendar Feeds Business Logic", () => {
 
       const ics = await generateBirthdayCalendarData(
         "https://example.com",
-        mockDrizzleDb as any
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
       );
 
       expect(ics).toContain("BEGIN:VCALENDAR");
@@ -326,12 +330,49 @@ describe("Calendar Feeds Business Logic", () => {
 
       const ics = await generateBirthdayCalendarData(
         "https://example.com",
-        mockDrizzleDb as any
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
       );
 
       expect(ics).toContain("BEGIN:VCALENDAR");
       expect(ics).not.toContain("John Doe");
     });
+
+    it("should skip people whose birth date is approximate", async () => {
+      const mockPeople = [
+        {
+          id: "person-1",
+          firstName: "John",
+          lastName: "Doe",
+          dateOfBirth: new Date("1850-01-01"),
+          dateOfBirthDetail: {
+            qualifier: "ABOUT",
+            precision: "YEAR",
+            start: { year: 1850 },
+            calendar: "GREGORIAN",
+          },
+          isLiving: false,
+        },
+      ];
+
+      (mockDrizzleDb.select as ReturnType<typeof vi.fn>).mockImplementation(
+        () => ({
+          from: vi.fn(() => ({
+            where: vi.fn(() => ({
+              orderBy: vi.fn(() => Promise.resolve(mockPeople)),
+            })),
+          })),
+        })
+      );
+
+      const ics = await generateBirthdayCalendarData(
+        "https://example.com",
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
+      );
+
+      expect(ics).not.toContain("John Doe");
+    });
   });
 
   describe("generateAnniversaryCalendarData", () => {
@@ -383,7 +424,8 @@ describe("Calendar Feeds Business Logic", () => {
 
       const ics = await generateAnniversaryCalendarData(
         "https://example.com",
-        mockDrizzleDb as any
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
       );
 
       expect(ics).toContain("BEGIN:VCALENDAR");
@@ -429,7 +471,8 @@ describe("Calendar Feeds Business Logic", () => {
 
       const ics = await generateEventsCalendarData(
         "https://example.com",
-        mockDrizzleDb as any
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
       );
 
       expect(ics).toContain("BEGIN:VCALENDAR");
@@ -466,7 +509,8 @@ describe("Calendar Feeds Business Logic", () => {
 
       const ics = await generateEventsCalendarData(
         "https://example.com",
-        mockDrizzleDb as any
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
       );
 
       expect(ics).toContain("BEGIN:VCALENDAR");
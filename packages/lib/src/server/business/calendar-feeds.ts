@@ -11,14 +11,28 @@
  * - generateBirthdayCalendarData: Generate iCal with family birthdays
  * - generateAnniversaryCalendarData: Generate iCal with anniversaries/memorials
  * - generateEventsCalendarData: Generate iCal with all family events
+ *
+ * Feed generators accept an optional PrivacyViewer (normally FEED_VIEWER).
+ * Redacted persons are left out of date-based calendars, since
+ * a placeholder without its date carries no information. Approximate or
+ * partial dates (e.g. "ABT 1850") are left out too: they have no day to recur on.
  */
 
 import { drizzleDb, drizzleSchema } from "@vamsa/api";
 import { and, eq, inArray, isNotNull } from "drizzle-orm";
 import ical, { ICalEventRepeatingFreq } from "ical-generator";
 import RSS from "rss";
+import { isApproximateDate, toGenealogicalDate } from "@vamsa/lib";
 import { loggers } from "@vamsa/lib/logger";
+import {
+  REDACTED_LAST_NAME,
+  REDACTED_LIVING_FIRST_NAME,
+  canViewRecord,
+  getPrivacyPolicy,
+  isPersonRedacted,
+} from "./privacy";
 import type { ICalCalendar } from "ical-generator";
+import type { PrivacyPolicy, PrivacyViewer } from "./privacy";
 
 const log = loggers.db;
 
@@ -115,14 +129,17 @@ interface RSSFeedItem {
  * @param token - Calendar token for authentication
  * @param appUrl - Base application URL for links
  * @param db - Drizzle database instance (defaults to drizzleDb)
+ * @param viewer - Feed reader whose privacy rules apply (normally FEED_VIEWER)
  * @returns RSS XML string
  * @throws Error if token is invalid
  */
 export async function generateRSSFeedData(
   token: string,
   appUrl: string,
-  db: CalendarFeedDb = drizzleDb
+  db: CalendarFeedDb = drizzleDb,
+  viewer: PrivacyViewer
 ): Promise<string> {
+  const privacy = await getPrivacyPolicy(viewer, db);
   // Validate token
   const validation = await validateCalendarToken(token, db);
   if (!validation.valid) {
@@ -170,8 +187,20 @@ export async function generateRSSFeedData(
     .orderBy(drizzleSchema.auditLogs.createdAt)
     .limit(50);
 
+  const redactedPersonIds = await findRedactedPersonIds(
+    recentUpdates
+      .filter((u) => u.entityType === "Person" && u.entityId)
+      .map((u) => u.entityId as string),
+    privacy,
+    db
+  );
+
   for (const update of recentUpdates) {
-    const item = buildRSSItemFromUpdate(update, appUrl);
+    const item = buildRSSItemFromUpdate(
+      update,
+      appUrl,
+      update.entityId !== null && redactedPersonIds.has(update.entityId)
+    );
     if (item) {
       feed.item(item);
     }
@@ -180,6 +209,33 @@ export async function generateRSSFeedData(
   return feed.xml({ indent: true });
 }
 
+/**
+ * Find which of the given persons are redacted under a privacy policy
+ */
+async function findRedactedPersonIds(
+  personIds: Array<string>,
+  privacy: PrivacyPolicy,
+  db: CalendarFeedDb
+): Promise<Set<string>> {
+  // Admins see every person, so there is nothing to look up
+  if (personIds.length === 0 || privacy.viewer.role === "ADMIN") {
+    return new Set();
+  }
+
+  const subjects = await db
+    .select({
+      id: drizzleSchema.persons.id,
+      isLiving: drizzleSchema.persons.isLiving,
+      privacy: drizzleSchema.persons.privacy,
+    })
+    .from(drizzleSchema.persons)
+    .where(inArray(drizzleSchema.persons.id, personIds));
+
+  return new Set(
+    subjects.filter((s) => isPersonRedacted(privacy, s)).map((s) => s.id)
+  );
+}
+
 /**
  * Build an RSS item from an audit log update
  */
@@ -193,7 +249,8 @@ function buildRSSItemFromUpdate(
     createdAt: Date;
     user: { name: string | null; email: string } | null;
   },
-  appUrl: string
+  appUrl: string,
+  isRedacted = false
 ): RSSFeedItem | null {
   // Skip entries without entity ID
   if (!update.entityId) {
@@ -205,11 +262,17 @@ function buildRSSItemFromUpdate(
   let guid = "";
 
   if (update.entityType === "Person") {
-    const person = update.newData as {
-      firstName?: string;
-      lastName?: string;
-      bio?: string;
-    };
+    const person = isRedacted
+      ? {
+          firstName: REDACTED_LIVING_FIRST_NAME,
+          lastName: REDACTED_LAST_NAME,
+          bio: undefined,
+        }
+      : (update.newData as {
+          firstName?: string;
+          lastName?: string;
+          bio?: string;
+        });
     title = `${update.action === "CREATE" ? "New person added" : "Person updated"}: ${person.firstName || ""} ${person.lastName || ""}`;
     description =
       person.bio ||
@@ -274,12 +337,15 @@ interface PersonBirthday {
  *
  * @param appUrl - Base application URL for links
  * @param db - Drizzle database instance (defaults to drizzleDb)
+ * @param viewer - Feed reader whose privacy rules apply (normally FEED_VIEWER)
  * @returns iCalendar (.ics) format string
  */
 export async function generateBirthdayCalendarData(
   appUrl: string,
-  db: CalendarFeedDb = drizzleDb
+  db: CalendarFeedDb = drizzleDb,
+  viewer: PrivacyViewer
 ): Promise<string> {
+  const privacy = await getPrivacyPolicy(viewer, db);
   const calendar = ical({
     name: "Family Birthdays",
     description: "Birthdays of all family members",
@@ -293,7 +359,9 @@ export async function generateBirthdayCalendarData(
       firstName: drizzleSchema.persons.firstName,
       lastName: drizzleSchema.persons.lastName,
       dateOfBirth: drizzleSchema.persons.dateOfBirth,
+      dateOfBirthDetail: drizzleSchema.persons.dateOfBirthDetail,
       isLiving: drizzleSchema.persons.isLiving,
+      privacy: drizzleSchema.persons.privacy,
     })
     .from(drizzleSchema.persons)
     .where(isNotNull(drizzleSchema.persons.dateOfBirth))
@@ -303,12 +371,22 @@ export async function generateBirthdayCalendarData(
 
   for (const person of people) {
     if (!person.dateOfBirth) continue;
+    if (!hasExactDay(person.dateOfBirthDetail)) continue;
+    if (isPersonRedacted(privacy, person)) continue;
     addBirthdayEvent(calendar, person as PersonBirthday, appUrl, currentYear);
   }
 
   return calendar.toString();
 }
 
+/**
+ * Whether a person's date is a known day; no detail means an exact date
+ */
+function hasExactDay(detail: unknown): boolean {
+  const date = toGenealogicalDate(detail);
+  return !date || !isApproximateDate(date);
+}
+
 /**
  * Add a birthday event to the calendar
  */
@@ -374,12 +452,15 @@ interface DeceasedPerson {
  *
  * @param appUrl - Base application URL for links
  * @param db - Drizzle database instance (defaults to drizzleDb)
+ * @param viewer - Feed reader whose privacy rules apply (normally FEED_VIEWER)
  * @returns iCalendar (.ics) format string
  */
 export async function generateAnniversaryCalendarData(
   appUrl: string,
-  db: CalendarFeedDb = drizzleDb
+  db: CalendarFeedDb = drizzleDb,
+  viewer: PrivacyViewer
 ): Promise<string> {
+  const privacy = await getPrivacyPolicy(viewer, db);
   const calendar = ical({
     name: "Family Anniversaries",
     description: "Wedding anniversaries and memorial dates of family members",
@@ -401,11 +482,15 @@ export async function generateAnniversaryCalendarData(
         id: person.id,
         firstName: person.firstName,
         lastName: person.lastName,
+        isLiving: person.isLiving,
+        privacy: person.privacy,
       },
       relatedPerson: {
         id: relatedPerson.id,
         firstName: relatedPerson.firstName,
         lastName: relatedPerson.lastName,
+        isLiving: relatedPerson.isLiving,
+        privacy: relatedPerson.privacy,
       },
     })
     .from(drizzleSchema.relationships)
@@ -424,6 +509,12 @@ export async function generateAnniversaryCalendarData(
 
   for (const marriage of marriages) {
     if (!marriage.marriageDate) continue;
+    if (
+      isPersonRedacted(privacy, marriage.person) ||
+      isPersonRedacted(privacy, marriage.relatedPerson)
+    ) {
+      continue;
+    }
     addAnniversaryEvent(
       calendar,
       marriage as MarriageData,
@@ -439,6 +530,9 @@ export async function generateAnniversaryCalendarData(
       firstName: drizzleSchema.persons.firstName,
       lastName: drizzleSchema.persons.lastName,
       dateOfPassing: drizzleSchema.persons.dateOfPassing,
+      dateOfPassingDetail: drizzleSchema.persons.dateOfPassingDetail,
+      isLiving: drizzleSchema.persons.isLiving,
+      privacy: drizzleSchema.persons.privacy,
     })
     .from(drizzleSchema.persons)
     .where(isNotNull(drizzleSchema.persons.dateOfPassing))
@@ -446,6 +540,8 @@ export async function generateAnniversaryCalendarData(
 
   for (const person of deceased) {
     if (!person.dateOfPassing) continue;
+    if (!hasExactDay(person.dateOfPassingDetail)) continue;
+    if (isPersonRedacted(privacy, person)) continue;
     addMemorialEvent(calendar, person as DeceasedPerson, appUrl, currentYear);
   }
 
@@ -549,12 +645,15 @@ interface FamilyEvent {
  *
  * @param appUrl - Base application URL for links
  * @param db - Drizzle database instance (defaults to drizzleDb)
+ * @param viewer - Feed reader whose privacy rules apply (normally FEED_VIEWER)
  * @returns iCalendar (.ics) format string
  */
 export async function generateEventsCalendarData(
   appUrl: string,
-  db: CalendarFeedDb = drizzleDb
+  db: CalendarFeedDb = drizzleDb,
+  viewer: PrivacyViewer
 ): Promise<string> {
+  const privacy = await getPrivacyPolicy(viewer, db);
   const calendar = ical({
     name: "Family Events",
     description: "Family events including births, deaths, marriages, etc.",
@@ -569,10 +668,13 @@ export async function generateEventsCalendarData(
       date: drizzleSchema.events.date,
       description: drizzleSchema.events.description,
       place: drizzleSchema.events.place,
+      privacy: drizzleSchema.events.privacy,
       person: {
         id: drizzleSchema.persons.id,
         firstName: drizzleSchema.persons.firstName,
         lastName: drizzleSchema.persons.lastName,
+        isLiving: drizzleSchema.persons.isLiving,
+        privacy: drizzleSchema.persons.privacy,
       },
     })
     .from(drizzleSchema.events)
@@ -585,6 +687,11 @@ export async function generateEventsCalendarData(
 
   for (const event of events) {
     if (!event.date) continue;
+    if (
+      !canViewRecord(privacy, event, isPersonRedacted(privacy, event.person))
+    ) {
+      continue;
+    }
     addFamilyEvent(calendar, event as FamilyEvent, appUrl);
   }
 
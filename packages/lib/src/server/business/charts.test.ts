@@ -3,7 +3,7 @@
  *
  * Tests cover:
  * - All chart generation functions (ancestor, descendant, hourglass, fan, bowtie, compact, timeline, matrix, tree, statistics)
- * - Error handling for unimplemented features (PDF/SVG export)
+ * - Chart export to SVG, PDF and PNG
  * - Type definitions and interfaces
  * - Data structure validation
  * - Pure function logic for chart helpers
@@ -15,7 +15,9 @@ import { clearAllMocks, mockLogger } from "../../testing/shared-mocks";
 // Import functions to test
 import {
   exportChartAsPDF,
+  exportChartAsPNG,
   exportChartAsSVG,
+  exportChartData,
   getAncestorChartData,
   getBowtieChartData,
   getCompactTreeData,
@@ -27,6 +29,7 @@ import {
   getTimelineChartData,
   getTreeChartData,
 } from "./charts";
+import { SYSTEM_VIEWER } from "./privacy";
 
 // Mock metrics module
 vi.mock("../metrics", () => ({
@@ -74,96 +77,146 @@ describe("charts business logic", () => {
     clearAllMocks();
   });
 
-  describe("exportChartAsPDF", () => {
-    it("should throw error indicating PDF export not implemented", async () => {
-      try {
-        await exportChartAsPDF("ancestor", {});
-        expect.unreachable("Should throw error");
-      } catch (error) {
-        expect(error instanceof Error).toBe(true);
-        expect((error as Error).message).toContain("not yet implemented");
-      }
-    });
+  describe("chart export", () => {
+    const ancestorData = {
+      nodes: [
+        {
+          id: "root",
+          firstName: "Asha",
+          lastName: "Rao",
+          dateOfBirth: "1990-05-01",
+          dateOfPassing: null,
+          isLiving: true,
+          photoUrl: null,
+          gender: "FEMALE",
+          generation: 0,
+        },
+        {
+          id: "father",
+          firstName: "Ravi",
+          lastName: "Rao",
+          dateOfBirth: "1960-01-15",
+          dateOfPassing: "2020-03-02",
+          isLiving: false,
+          photoUrl: null,
+          gender: "MALE",
+          generation: 1,
+        },
+      ],
+      edges: [
+        {
+          id: "father-root",
+          source: "father",
+          target: "root",
+          type: "parent-child",
+        },
+      ],
+      metadata: {
+        chartType: "ancestor",
+        totalGenerations: 2,
+        totalPeople: 2,
+        rootPersonId: "root",
+      },
+    };
 
-    it("should throw error for any chart type", async () => {
-      const chartTypes = [
-        "ancestor",
-        "descendant",
-        "hourglass",
-        "fan",
-        "bowtie",
-        "compact",
-        "timeline",
-        "matrix",
-      ];
+    describe("exportChartAsSVG", () => {
+      it("should render people and dates as an SVG document", async () => {
+        const svg = await exportChartAsSVG("ancestor", ancestorData);
 
-      for (const chartType of chartTypes) {
-        try {
-          await exportChartAsPDF(chartType, {});
-          expect.unreachable(`Should throw error for ${chartType}`);
-        } catch (error) {
-          expect(error instanceof Error).toBe(true);
-        }
-      }
-    });
+        expect(svg.startsWith("<svg")).toBe(true);
+        expect(svg).toContain("Asha Rao");
+        expect(svg).toContain("d. March 2, 2020");
+      });
 
-    it("should throw error with empty chart data", async () => {
-      try {
-        await exportChartAsPDF("ancestor", {});
-        expect.unreachable("Should throw error");
-      } catch (error) {
-        expect(error instanceof Error).toBe(true);
-      }
-    });
+      it("should only print the selected fields", async () => {
+        const svg = await exportChartAsSVG("ancestor", ancestorData, {
+          fields: ["name"],
+        });
 
-    it("should be async function", () => {
-      expect(typeof exportChartAsPDF).toBe("function");
-    });
-  });
+        expect(svg).toContain("Ravi Rao");
+        expect(svg).not.toContain("b. ");
+      });
 
-  describe("exportChartAsSVG", () => {
-    it("should throw error indicating SVG export not implemented", async () => {
-      try {
-        await exportChartAsSVG("ancestor", {});
-        expect.unreachable("Should throw error");
-      } catch (error) {
-        expect(error instanceof Error).toBe(true);
-        expect((error as Error).message).toContain("not yet implemented");
-      }
+      it("should reject charts without a printable layout", async () => {
+        await expect(exportChartAsSVG("matrix", {})).rejects.toThrow(
+          "Unsupported chart type for export: matrix"
+        );
+      });
+
+      it("should reject data that does not match the chart type", async () => {
+        await expect(exportChartAsSVG("compact", ancestorData)).rejects.toThrow(
+          "Invalid chart data for compact export"
+        );
+      });
     });
 
-    it("should throw error for any chart type", async () => {
-      const chartTypes = [
-        "ancestor",
-        "descendant",
-        "hourglass",
-        "fan",
-        "bowtie",
-        "compact",
-        "timeline",
-        "matrix",
-      ];
+    describe("exportChartAsPDF", () => {
+      it("should return a PDF document", async () => {
+        const pdf = await exportChartAsPDF("ancestor", ancestorData, {
+          paperSize: "A3",
+        });
 
-      for (const chartType of chartTypes) {
-        try {
-          await exportChartAsSVG(chartType, {});
-          expect.unreachable(`Should throw error for ${chartType}`);
-        } catch (error) {
-          expect(error instanceof Error).toBe(true);
-        }
-      }
+        expect(pdf.subarray(0, 8).toString("latin1")).toBe("%PDF-1.4");
+        expect(pdf.toString("latin1")).toContain("(Asha Rao) Tj");
+      });
+
+      it("should reject invalid options", async () => {
+        await expect(
+          exportChartAsPDF("ancestor", ancestorData, { fields: [] })
+        ).rejects.toThrow();
+      });
     });
 
-    it("should return Promise<string> type", async () => {
-      try {
-        await exportChartAsSVG("ancestor", {});
-      } catch (error) {
-        expect(error instanceof Error).toBe(true);
-      }
+    describe("exportChartAsPNG", () => {
+      it("should rasterize the chart", async () => {
+        const png = await exportChartAsPNG("ancestor", ancestorData, {
+          scale: 1,
+        });
+
+        expect(png.subarray(1, 4).toString("ascii")).toBe("PNG");
+      });
     });
 
-    it("should be async function", () => {
-      expect(typeof exportChartAsSVG).toBe("function");
+    describe("exportChartData", () => {
+      it("should require a root person for person-centred charts", async () => {
+        await expect(
+          exportChartData(
+            { chartType: "fan", format: "svg" },
+            createMockDb(),
+            SYSTEM_VIEWER
+          )
+        ).rejects.toThrow("A root person is required for this chart");
+      });
+
+      it("should fetch the chart and name the file after it", async () => {
+        const db = createMockDb({
+          rootPerson: { id: "root", firstName: "Asha", lastName: "Rao" },
+          persons: [
+            {
+              id: "root",
+              firstName: "Asha",
+              lastName: "Rao",
+              dateOfBirth: null,
+              dateOfPassing: null,
+              isLiving: true,
+              photoUrl: null,
+              gender: "FEMALE",
+            },
+          ],
+        });
+
+        const file = await exportChartData(
+          { chartType: "ancestor", format: "pdf", personId: "root" },
+          db,
+          SYSTEM_VIEWER
+        );
+
+        expect(file.contentType).toBe("application/pdf");
+        expect(file.filename).toMatch(
+          /^vamsa-ancestor-chart-\d{4}-\d{2}-\d{2}\.pdf$/
+        );
+        expect(db.query.persons.findFirst).toHaveBeenCalled();
+      });
     });
   });
 
@@ -321,7 +374,7 @@ describe("charts business logic", () => {
       const mockDb = createMockDb({ rootPerson: null });
 
       await expect(
-        getAncestorChartData("missing-id", 3, mockDb)
+        getAncestorChartData("missing-id", 3, mockDb, SYSTEM_VIEWER)
       ).rejects.toThrow("Person not found");
     });
 
@@ -343,7 +396,12 @@ describe("charts business logic", () => {
         relationships: [],
       });
 
-      const result = await getAncestorChartData("person1", 3, mockDb);
+      const result = await getAncestorChartData(
+        "person1",
+        3,
+        mockDb,
+        SYSTEM_VIEWER
+      );
 
       expect(result).toBeDefined();
       expect(result.metadata.chartType).toBe("ancestor");
@@ -357,7 +415,7 @@ describe("charts business logic", () => {
       const mockDb = createMockDb({ rootPerson: null });
 
       await expect(
-        getDescendantChartData("missing-id", 3, mockDb)
+        getDescendantChartData("missing-id", 3, mockDb, SYSTEM_VIEWER)
       ).rejects.toThrow("Person not found");
     });
 
@@ -379,7 +437,12 @@ describe("charts business logic", () => {
         relationships: [],
       });
 
-      const result = await getDescendantChartData("person1", 2, mockDb);
+      const result = await getDescendantChartData(
+        "person1",
+        2,
+        mockDb,
+        SYSTEM_VIEWER
+      );
 
       expect(result).toBeDefined();
       expect(result.metadata.chartType).toBe("descendant");
@@ -392,7 +455,7 @@ describe("charts business logic", () => {
       const mockDb = createMockDb({ rootPerson: null });
 
       await expect(
-        getHourglassChartData("missing-id", 2, 2, mockDb)
+        getHourglassChartData("missing-id", 2, 2, mockDb, SYSTEM_VIEWER)
       ).rejects.toThrow("Person not found");
     });
 
@@ -414,7 +477,13 @@ describe("charts business logic", () => {
         relationships: [],
       });
 
-      const result = await getHourglassChartData("person1", 2, 2, mockDb);
+      const result = await getHourglassChartData(
+        "person1",
+        2,
+        2,
+        mockDb,
+        SYSTEM_VIEWER
+      );
 
       expect(result).toBeDefined();
       expect(result.metadata.chartType).toBe("hourglass");
@@ -426,9 +495,9 @@ describe("charts business logic", () => {
     it("should throw error when person not found", async () => {
       const mockDb = createMockDb({ rootPerson: null });
 
-      await expect(getFanChartData("missing-id", 4, mockDb)).rejects.toThrow(
-        "Person not found"
-      );
+      await expect(
+        getFanChartData("missing-id", 4, mockDb, SYSTEM_VIEWER)
+      ).rejects.toThrow("Person not found");
     });
 
     it("should generate fan chart with angle data", async () => {
@@ -449,7 +518,7 @@ describe("charts business logic", () => {
         relationships: [],
       });
 
-      const result = await getFanChartData("person1", 4, mockDb);
+      const result = await getFanChartData("person1", 4, mockDb, SYSTEM_VIEWER);
 
       expect(result).toBeDefined();
       expect(result.metadata.chartType).toBe("fan");
@@ -461,9 +530,9 @@ describe("charts business logic", () => {
     it("should throw error when person not found", async () => {
       const mockDb = createMockDb({ rootPerson: null });
 
-      await expect(getBowtieChartData("missing-id", 3, mockDb)).rejects.toThrow(
-        "Person not found"
-      );
+      await expect(
+        getBowtieChartData("missing-id", 3, mockDb, SYSTEM_VIEWER)
+      ).rejects.toThrow("Person not found");
     });
 
     it("should generate bowtie chart with paternal and maternal counts", async () => {
@@ -484,7 +553,12 @@ describe("charts business logic", () => {
         relationships: [],
       });
 
-      const result = await getBowtieChartData("person1", 3, mockDb);
+      const result = await getBowtieChartData(
+        "person1",
+        3,
+        mockDb,
+        SYSTEM_VIEWER
+      );
 
       expect(result).toBeDefined();
       expect(result.metadata.chartType).toBe("bowtie");
@@ -497,9 +571,9 @@ describe("charts business logic", () => {
     it("should throw error when person not found", async () => {
       const mockDb = createMockDb({ rootPerson: null });
 
-      await expect(getCompactTreeData("missing-id", 5, mockDb)).rejects.toThrow(
-        "Person not found"
-      );
+      await expect(
+        getCompactTreeData("missing-id", 5, mockDb, SYSTEM_VIEWER)
+      ).rejects.toThrow("Person not found");
     });
 
     it("should generate compact tree with nested structure and flat list", async () => {
@@ -520,7 +594,12 @@ describe("charts business logic", () => {
         relationships: [],
       });
 
-      const result = await getCompactTreeData("person1", 5, mockDb);
+      const result = await getCompactTreeData(
+        "person1",
+        5,
+        mockDb,
+        SYSTEM_VIEWER
+      );
 
       expect(result).toBeDefined();
       expect(result.metadata.chartType).toBe("compact");
@@ -561,7 +640,8 @@ describe("charts business logic", () => {
         undefined,
         undefined,
         "birth",
-        mockDb
+        mockDb,
+        SYSTEM_VIEWER
       );
 
       expect(result).toBeDefined();
@@ -599,7 +679,8 @@ describe("charts business logic", () => {
         undefined,
         undefined,
         "birth",
-        mockDb
+        mockDb,
+        SYSTEM_VIEWER
       );
 
       expect(result.entries.length).toBe(2);
@@ -641,7 +722,8 @@ describe("charts business logic", () => {
         undefined,
         undefined,
         "name",
-        mockDb
+        mockDb,
+        SYSTEM_VIEWER
       );
 
       expect(result.entries.length).toBe(2);
@@ -685,7 +767,12 @@ describe("charts business logic", () => {
         },
       } as any;
 
-      const result = await getRelationshipMatrixData(undefined, 20, mockDb);
+      const result = await getRelationshipMatrixData(
+        undefined,
+        20,
+        mockDb,
+        SYSTEM_VIEWER
+      );
 
       expect(result).toBeDefined();
       expect(result.metadata.chartType).toBe("matrix");
@@ -719,7 +806,12 @@ describe("charts business logic", () => {
         },
       } as any;
 
-      const result = await getRelationshipMatrixData(undefined, 20, mockDb);
+      const result = await getRelationshipMatrixData(
+        undefined,
+        20,
+        mockDb,
+        SYSTEM_VIEWER
+      );
 
       // Should have SELF relationship
       const selfRel = result.matrix.find(
@@ -735,7 +827,7 @@ describe("charts business logic", () => {
       const mockDb = createMockDb({ rootPerson: null });
 
       await expect(
-        getTreeChartData("missing-id", 2, 2, mockDb)
+        getTreeChartData("missing-id", 2, 2, mockDb, SYSTEM_VIEWER)
       ).rejects.toThrow("Person not found");
     });
 
@@ -757,7 +849,13 @@ describe("charts business logic", () => {
         relationships: [],
       });
 
-      const result = await getTreeChartData("person1", 2, 2, mockDb);
+      const result = await getTreeChartData(
+        "person1",
+        2,
+        2,
+        mockDb,
+        SYSTEM_VIEWER
+      );
 
       expect(result).toBeDefined();
       expect(result.metadata.chartType).toBe("tree");
@@ -811,7 +909,7 @@ describe("charts business logic", () => {
         },
       } as any;
 
-      const result = await getStatisticsData(false, mockDb);
+      const result = await getStatisticsData(false, mockDb, SYSTEM_VIEWER);
 
       expect(result).toBeDefined();
       expect(result.metadata.chartType).toBe("statistics");
@@ -856,7 +954,7 @@ describe("charts business logic", () => {
         },
       } as any;
 
-      const result = await getStatisticsData(true, mockDb);
+      const result = await getStatisticsData(true, mockDb, SYSTEM_VIEWER);
 
       expect(result).toBeDefined();
       expect(result.ageDistribution).toBeDefined();
@@ -893,7 +991,7 @@ describe("charts business logic", () => {
         },
       } as any;
 
-      const result = await getStatisticsData(true, mockDb);
+      const result = await getStatisticsData(true, mockDb, SYSTEM_VIEWER);
 
       expect(result.ageDistribution).toBeDefined();
       expect(Array.isArray(result.ageDistribution)).toBe(true);
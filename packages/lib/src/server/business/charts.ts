@@ -20,12 +20,23 @@
  * - getCompactTreeData: Hierarchical tree structure for collapsible view
  * - getStatisticsData: Aggregated demographic data
  * - getTreeChartData: Full family tree with ancestors and descendants
- * - exportChartAsPDF: PDF export orchestration
- * - exportChartAsSVG: SVG export orchestration
+ * - exportChartAsPDF: Vector PDF export on a chosen paper size
+ * - exportChartAsSVG: Standalone SVG export
+ * - exportChartAsPNG: Raster export of the SVG rendering
+ * - exportChartData: Builds a chart and exports it as a download
  */
 
 import { drizzleDb, drizzleSchema } from "@vamsa/api";
 import { and, eq, inArray } from "drizzle-orm";
+import {
+  chartExportOptionsSchema,
+  exportableChartTypeEnum,
+} from "@vamsa/schemas";
+import {
+  formatGenealogicalDate,
+  isApproximateDate,
+  toGenealogicalDate,
+} from "@vamsa/lib";
 import { recordChartMetrics } from "../metrics";
 import {
   buildRelationshipMaps,
@@ -35,8 +46,29 @@ import {
   collectDescendants,
   collectTreeAncestors,
   collectTreeDescendants,
+  describeChartEdge,
 } from "../helpers/charts";
+import {
+  buildChartDrawing,
+  renderDrawingToPDF,
+  renderDrawingToSVG,
+} from "../helpers/chart-export";
+import {
+  applyPersonPrivacy,
+  getPrivacyPolicy,
+  isPersonRedacted,
+} from "./privacy";
+import type {
+  ChartExportFormat,
+  ChartExportOptions,
+  ChartExportOptionsInput,
+  ChartExportRequest,
+  ExportableChartType,
+  ParentPedigree,
+} from "@vamsa/schemas";
 import type { CollectionState, PersonData } from "../helpers/charts";
+import type { ChartDrawing } from "../helpers/chart-export";
+import type { PrivacyViewer } from "./privacy";
 
 /** Type for the database instance (for DI) */
 export type ChartsDb = typeof drizzleDb;
@@ -61,6 +93,10 @@ export interface ChartEdge {
   target: string;
   type: "parent-child" | "spouse";
   isDivorced?: boolean;
+  /** Set on parent-child edges that are not by birth */
+  pedigree?: ParentPedigree;
+  /** Set on spouse edges between unmarried partners */
+  isPartner?: boolean;
 }
 
 export interface ChartLayoutResult {
@@ -80,6 +116,11 @@ export interface TimelineEntry {
   lastName: string;
   birthYear: number | null;
   deathYear: number | null;
+  /** Display text for approximate or partial dates, e.g. "about 1850" */
+  birthDateLabel: string | null;
+  deathDateLabel: string | null;
+  isBirthApproximate: boolean;
+  isDeathApproximate: boolean;
   isLiving: boolean;
   gender: string | null;
   photoUrl: string | null;
@@ -261,6 +302,7 @@ function dateToISOString(date: Date | null): string | null {
  *
  * @param personId - ID of the root person
  * @param generations - Number of generations to include (1-10)
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
  * @returns ChartLayoutResult with nodes, edges, and metadata
  * @throws Error if person not found
  *
@@ -270,8 +312,10 @@ function dateToISOString(date: Date | null): string | null {
 export async function getAncestorChartData(
   personId: string,
   generations: number,
-  db: ChartsDb = drizzleDb
+  db: ChartsDb = drizzleDb,
+  viewer: PrivacyViewer
 ): Promise<ChartLayoutResult> {
+  const privacy = await getPrivacyPolicy(viewer, db);
   const start = Date.now();
 
   // Validate person exists
@@ -284,13 +328,16 @@ export async function getAncestorChartData(
   }
 
   // Fetch all persons and relationships
-  const persons = await db.query.persons.findMany();
+  const persons = (await db.query.persons.findMany()).map((p) =>
+    applyPersonPrivacy(privacy, p)
+  );
   const relationships = await db.query.relationships.findMany();
 
   const personMap = new Map(
     persons.map((p) => [p.id, p as unknown as PersonData])
   );
-  const { childToParents, spouseMap } = buildRelationshipMaps(relationships);
+  const relationshipMaps = buildRelationshipMaps(relationships);
+  const { childToParents, spouseMap } = relationshipMaps;
 
   // Collect ancestors
   const collected: CollectionState = {
@@ -341,6 +388,7 @@ export async function getAncestorChartData(
         source: edgeData.source,
         target: edgeData.target,
         type: edgeData.type as "parent-child" | "spouse",
+        ...describeChartEdge(edgeData, relationshipMaps),
       });
     }
   });
@@ -373,6 +421,7 @@ export async function getAncestorChartData(
  *
  * @param personId - ID of the root person
  * @param generations - Number of generations to include (1-10)
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
  * @returns ChartLayoutResult with nodes, edges, and metadata
  * @throws Error if person not found
  *
@@ -382,8 +431,10 @@ export async function getAncestorChartData(
 export async function getDescendantChartData(
   personId: string,
   generations: number,
-  db: ChartsDb = drizzleDb
+  db: ChartsDb = drizzleDb,
+  viewer: PrivacyViewer
 ): Promise<ChartLayoutResult> {
+  const privacy = await getPrivacyPolicy(viewer, db);
   const start = Date.now();
 
   // Validate person exists
@@ -396,13 +447,16 @@ export async function getDescendantChartData(
   }
 
   // Fetch all persons and relationships
-  const persons = await db.query.persons.findMany();
+  const persons = (await db.query.persons.findMany()).map((p) =>
+    applyPersonPrivacy(privacy, p)
+  );
   const relationships = await db.query.relationships.findMany();
 
   const personMap = new Map(
     persons.map((p) => [p.id, p as unknown as PersonData])
   );
-  const { parentToChildren, spouseMap } = buildRelationshipMaps(relationships);
+  const relationshipMaps = buildRelationshipMaps(relationships);
+  const { parentToChildren, spouseMap } = relationshipMaps;
 
   // Collect descendants
   const collected: CollectionState = {
@@ -453,6 +507,7 @@ export async function getDescendantChartData(
         source: edgeData.source,
         target: edgeData.target,
         type: edgeData.type as "parent-child" | "spouse",
+        ...describeChartEdge(edgeData, relationshipMaps),
       });
     }
   });
@@ -479,6 +534,7 @@ export async function getDescendantChartData(
  * @param personId - ID of the root person
  * @param ancestorGenerations - Number of ancestor generations (1-10)
  * @param descendantGenerations - Number of descendant generations (1-10)
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
  * @returns ChartLayoutResult with nodes, edges, and metadata
  * @throws Error if person not found
  *
@@ -489,8 +545,10 @@ export async function getHourglassChartData(
   personId: string,
   ancestorGenerations: number,
   descendantGenerations: number,
-  db: ChartsDb = drizzleDb
+  db: ChartsDb = drizzleDb,
+  viewer: PrivacyViewer
 ): Promise<ChartLayoutResult> {
+  const privacy = await getPrivacyPolicy(viewer, db);
   const start = Date.now();
 
   // Validate person exists
@@ -503,14 +561,16 @@ export async function getHourglassChartData(
   }
 
   // Fetch all persons and relationships
-  const persons = await db.query.persons.findMany();
+  const persons = (await db.query.persons.findMany()).map((p) =>
+    applyPersonPrivacy(privacy, p)
+  );
   const relationships = await db.query.relationships.findMany();
 
   const personMap = new Map(
     persons.map((p) => [p.id, p as unknown as PersonData])
   );
-  const { childToParents, parentToChildren, spouseMap } =
-    buildRelationshipMaps(relationships);
+  const relationshipMaps = buildRelationshipMaps(relationships);
+  const { childToParents, parentToChildren, spouseMap } = relationshipMaps;
 
   // Collect both ancestors and descendants
   const collected: CollectionState = {
@@ -573,6 +633,7 @@ export async function getHourglassChartData(
         source: edgeData.source,
         target: edgeData.target,
         type: edgeData.type as "parent-child" | "spouse",
+        ...describeChartEdge(edgeData, relationshipMaps),
       });
     }
   });
@@ -598,6 +659,7 @@ export async function getHourglassChartData(
  *
  * @param personId - ID of the root person
  * @param generations - Number of generations to include (1-10)
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
  * @returns ChartLayoutResult with nodes (including angles), edges, and metadata
  * @throws Error if person not found
  *
@@ -607,8 +669,10 @@ export async function getHourglassChartData(
 export async function getFanChartData(
   personId: string,
   generations: number,
-  db: ChartsDb = drizzleDb
+  db: ChartsDb = drizzleDb,
+  viewer: PrivacyViewer
 ): Promise<ChartLayoutResult> {
+  const privacy = await getPrivacyPolicy(viewer, db);
   const start = Date.now();
 
   // Validate person exists
@@ -621,13 +685,16 @@ export async function getFanChartData(
   }
 
   // Fetch all persons and relationships
-  const persons = await db.query.persons.findMany();
+  const persons = (await db.query.persons.findMany()).map((p) =>
+    applyPersonPrivacy(privacy, p)
+  );
   const relationships = await db.query.relationships.findMany();
 
   const personMap = new Map(
     persons.map((p) => [p.id, p as unknown as PersonData])
   );
-  const { childToParents, spouseMap } = buildRelationshipMaps(relationships);
+  const relationshipMaps = buildRelationshipMaps(relationships);
+  const { childToParents, spouseMap } = relationshipMaps;
 
   // Collect ancestors
   const collected: CollectionState = {
@@ -682,6 +749,7 @@ export async function getFanChartData(
         source: edgeData.source,
         target: edgeData.target,
         type: edgeData.type as "parent-child" | "spouse",
+        ...describeChartEdge(edgeData, relationshipMaps),
       });
     }
   });
@@ -702,12 +770,21 @@ export async function getFanChartData(
   };
 }
 
+/**
+ * Compare two sort timestamps, placing missing values last
+ */
+function compareSortValues(a = Infinity, b = Infinity): number {
+  if (a === b) return 0;
+  return a < b ? -1 : 1;
+}
+
 /**
  * Generates timeline chart data - horizontal timeline showing lifespans
  *
  * @param startYear - Optional start year filter
  * @param endYear - Optional end year filter
  * @param sortBy - Sort order: "birth", "death", or "name"
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
  * @returns TimelineChartResult with entries and metadata
  *
  * @example
@@ -717,28 +794,58 @@ export async function getTimelineChartData(
   startYear: number | undefined,
   endYear: number | undefined,
   sortBy: "birth" | "death" | "name",
-  db: ChartsDb = drizzleDb
+  db: ChartsDb = drizzleDb,
+  viewer: PrivacyViewer
 ): Promise<TimelineChartResult> {
+  const privacy = await getPrivacyPolicy(viewer, db);
   const start = Date.now();
 
   // Fetch all persons
-  const allPersons = await db.query.persons.findMany();
+  const allPersons = (await db.query.persons.findMany()).map((p) =>
+    applyPersonPrivacy(privacy, p)
+  );
+
+  // Sort by the stored sort value (earliest possible day), not just the year,
+  // so "BEF 1850" orders before "ABT 1850"
+  const sortValues = new Map<string, { birth: number; death: number }>();
 
   // Filter to only those with dates and convert to timeline entries
   const entries: Array<TimelineEntry> = allPersons
     .filter((person) => person.dateOfBirth || person.dateOfPassing)
-    .map((person) => ({
-      id: person.id,
-      firstName: person.firstName,
-      lastName: person.lastName,
-      birthYear: person.dateOfBirth ? person.dateOfBirth.getFullYear() : null,
-      deathYear: person.dateOfPassing
-        ? person.dateOfPassing.getFullYear()
-        : null,
-      isLiving: person.isLiving,
-      gender: person.gender,
-      photoUrl: person.photoUrl,
-    }))
+    .map((person) => {
+      const birthDetail = toGenealogicalDate(person.dateOfBirthDetail);
+      const deathDetail = toGenealogicalDate(person.dateOfPassingDetail);
+
+      sortValues.set(person.id, {
+        birth: person.dateOfBirth?.getTime() ?? Infinity,
+        death: person.dateOfPassing?.getTime() ?? Infinity,
+      });
+
+      return {
+        id: person.id,
+        firstName: person.firstName,
+        lastName: person.lastName,
+        birthYear: person.dateOfBirth ? person.dateOfBirth.getFullYear() : null,
+        deathYear: person.dateOfPassing
+          ? person.dateOfPassing.getFullYear()
+          : null,
+        birthDateLabel: birthDetail
+          ? formatGenealogicalDate(birthDetail)
+          : null,
+        deathDateLabel: deathDetail
+          ? formatGenealogicalDate(deathDetail)
+          : null,
+        isBirthApproximate: birthDetail
+          ? isApproximateDate(birthDetail)
+          : false,
+        isDeathApproximate: deathDetail
+          ? isApproximateDate(deathDetail)
+          : false,
+        isLiving: person.isLiving,
+        gender: person.gender,
+        photoUrl: person.photoUrl,
+      };
+    })
     .filter((entry) => {
       // Filter by year range if specified
       if (startYear && entry.birthYear && entry.birthYear < startYear) {
@@ -754,9 +861,15 @@ export async function getTimelineChartData(
   entries.sort((a, b) => {
     switch (sortBy) {
       case "birth":
-        return (a.birthYear ?? 9999) - (b.birthYear ?? 9999);
+        return compareSortValues(
+          sortValues.get(a.id)?.birth,
+          sortValues.get(b.id)?.birth
+        );
       case "death":
-        return (a.deathYear ?? 9999) - (b.deathYear ?? 9999);
+        return compareSortValues(
+          sortValues.get(a.id)?.death,
+          sortValues.get(b.id)?.death
+        );
       case "name":
         return `${a.lastName} ${a.firstName}`.localeCompare(
           `${b.lastName} ${b.firstName}`
@@ -795,6 +908,7 @@ export async function getTimelineChartData(
  *
  * @param personIds - Optional specific person IDs to include
  * @param maxPeople - Maximum number of people to include (1-50)
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
  * @returns RelationshipMatrixResult with people, matrix, and metadata
  *
  * @example
@@ -803,8 +917,10 @@ export async function getTimelineChartData(
 export async function getRelationshipMatrixData(
   personIds: Array<string> | undefined,
   maxPeople: number,
-  db: ChartsDb = drizzleDb
+  db: ChartsDb = drizzleDb,
+  viewer: PrivacyViewer
 ): Promise<RelationshipMatrixResult> {
+  const privacy = await getPrivacyPolicy(viewer, db);
   const start = Date.now();
 
   // Fetch persons
@@ -821,6 +937,7 @@ export async function getRelationshipMatrixData(
       .sort((a, b) => a.lastName.localeCompare(b.lastName))
       .slice(0, maxPeople);
   }
+  persons = persons.map((p) => applyPersonPrivacy(privacy, p));
 
   // Fetch all relationships between these people
   const personIdSet = new Set(persons.map((p) => p.id));
@@ -896,6 +1013,7 @@ export async function getRelationshipMatrixData(
  *
  * @param personId - ID of the root person
  * @param generations - Number of generations to include (1-10)
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
  * @returns BowtieChartResult with nodes, edges, and metadata
  * @throws Error if person not found
  *
@@ -905,8 +1023,10 @@ export async function getRelationshipMatrixData(
 export async function getBowtieChartData(
   personId: string,
   generations: number,
-  db: ChartsDb = drizzleDb
+  db: ChartsDb = drizzleDb,
+  viewer: PrivacyViewer
 ): Promise<BowtieChartResult> {
+  const privacy = await getPrivacyPolicy(viewer, db);
   const start = Date.now();
 
   // Validate person exists
@@ -919,13 +1039,16 @@ export async function getBowtieChartData(
   }
 
   // Fetch all persons and relationships
-  const persons = await db.query.persons.findMany();
+  const persons = (await db.query.persons.findMany()).map((p) =>
+    applyPersonPrivacy(privacy, p)
+  );
   const relationships = await db.query.relationships.findMany();
 
   const personMap = new Map(
     persons.map((p) => [p.id, p as unknown as PersonData])
   );
-  const { childToParents } = buildRelationshipMaps(relationships);
+  const relationshipMaps = buildRelationshipMaps(relationships);
+  const { childToParents } = relationshipMaps;
 
   // Collect ancestors for bowtie layout
   const collected: CollectionState = {
@@ -1007,6 +1130,7 @@ export async function getBowtieChartData(
         source: edgeData.source,
         target: edgeData.target,
         type: edgeData.type as "parent-child" | "spouse",
+        ...describeChartEdge(edgeData, relationshipMaps),
       });
     }
   });
@@ -1038,6 +1162,7 @@ export async function getBowtieChartData(
  *
  * @param personId - ID of the root person
  * @param generations - Number of generations to include (1-10)
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
  * @returns CompactTreeResult with nested tree and flat list
  * @throws Error if person not found
  *
@@ -1047,8 +1172,10 @@ export async function getBowtieChartData(
 export async function getCompactTreeData(
   personId: string,
   generations: number,
-  db: ChartsDb = drizzleDb
+  db: ChartsDb = drizzleDb,
+  viewer: PrivacyViewer
 ): Promise<CompactTreeResult> {
+  const privacy = await getPrivacyPolicy(viewer, db);
   const start = Date.now();
 
   // Validate person exists
@@ -1061,7 +1188,9 @@ export async function getCompactTreeData(
   }
 
   // Fetch all persons and relationships
-  const persons = await db.query.persons.findMany();
+  const persons = (await db.query.persons.findMany()).map((p) =>
+    applyPersonPrivacy(privacy, p)
+  );
   const relationships = await db.query.relationships.findMany();
 
   const personMap = new Map(
@@ -1188,6 +1317,7 @@ export async function getCompactTreeData(
  * 6. Lifespan trends by decade
  *
  * @param includeDeceased - Whether to include deceased persons
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
  * @returns StatisticsResult with various statistical breakdowns
  *
  * @example
@@ -1195,8 +1325,10 @@ export async function getCompactTreeData(
  */
 export async function getStatisticsData(
   includeDeceased: boolean,
-  db: ChartsDb = drizzleDb
+  db: ChartsDb = drizzleDb,
+  viewer: PrivacyViewer
 ): Promise<StatisticsResult> {
+  const privacy = await getPrivacyPolicy(viewer, db);
   const start = Date.now();
 
   // Fetch all persons
@@ -1440,8 +1572,10 @@ export async function getStatisticsData(
   let oldestPerson: StatisticsResult["metadata"]["oldestPerson"] = null;
   let youngestPerson: StatisticsResult["metadata"]["youngestPerson"] = null;
 
+  // Aggregates above are anonymous; naming individuals must respect privacy
   const livingWithAge = persons
     .filter((p) => p.isLiving && p.dateOfBirth)
+    .filter((p) => !isPersonRedacted(privacy, p))
     .map((p) => ({
       id: p.id,
       name: `${p.firstName} ${p.lastName}`,
@@ -1486,6 +1620,7 @@ export async function getStatisticsData(
  * @param personId - ID of the root person
  * @param ancestorGenerations - Number of ancestor generations (1-10)
  * @param descendantGenerations - Number of descendant generations (1-10)
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
  * @returns ChartLayoutResult with nodes, edges, and metadata
  * @throws Error if person not found
  *
@@ -1496,8 +1631,10 @@ export async function getTreeChartData(
   personId: string,
   ancestorGenerations: number,
   descendantGenerations: number,
-  db: ChartsDb = drizzleDb
+  db: ChartsDb = drizzleDb,
+  viewer: PrivacyViewer
 ): Promise<ChartLayoutResult> {
+  const privacy = await getPrivacyPolicy(viewer, db);
   const start = Date.now();
 
   // Validate person exists
@@ -1510,14 +1647,16 @@ export async function getTreeChartData(
   }
 
   // Fetch all persons and relationships
-  const persons = await db.query.persons.findMany();
+  const persons = (await db.query.persons.findMany()).map((p) =>
+    applyPersonPrivacy(privacy, p)
+  );
   const relationships = await db.query.relationships.findMany();
 
   const personMap = new Map(
     persons.map((p) => [p.id, p as unknown as PersonData])
   );
-  const { childToParents, parentToChildren, spouseMap } =
-    buildRelationshipMaps(relationships);
+  const relationshipMaps = buildRelationshipMaps(relationships);
+  const { childToParents, parentToChildren, spouseMap } = relationshipMaps;
 
   // Initialize collection
   const collected: CollectionState = {
@@ -1656,6 +1795,7 @@ export async function getTreeChartData(
         source: edgeData.source,
         target: edgeData.target,
         type: edgeData.type as "parent-child" | "spouse",
+        ...describeChartEdge(edgeData, relationshipMaps),
       });
     }
   });
@@ -1681,42 +1821,232 @@ export async function getTreeChartData(
   };
 }
 
+/** Generation counts used when an export request leaves them out */
+const DEFAULT_EXPORT_GENERATIONS: Record<
+  Exclude<ExportableChartType, "timeline">,
+  number
+> = {
+  ancestor: 3,
+  descendant: 3,
+  fan: 4,
+  bowtie: 3,
+  compact: 5,
+  hourglass: 2,
+  tree: 2,
+};
+
+const EXPORT_CONTENT_TYPES: Record<ChartExportFormat, string> = {
+  svg: "image/svg+xml",
+  png: "image/png",
+  pdf: "application/pdf",
+};
+
+export interface ChartExportFile {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+/**
+ * Lays out chart data for export after validating the chart type and options
+ */
+function buildExportDrawing(
+  chartType: string,
+  chartData: unknown,
+  options: ChartExportOptionsInput
+): { drawing: ChartDrawing; resolved: ChartExportOptions } {
+  const parsedType = exportableChartTypeEnum.safeParse(chartType);
+  if (!parsedType.success) {
+    throw new Error(`Unsupported chart type for export: ${chartType}`);
+  }
+
+  const resolved = chartExportOptionsSchema.parse(options);
+  return {
+    drawing: buildChartDrawing(parsedType.data, chartData, resolved),
+    resolved,
+  };
+}
+
 /**
  * Exports chart as PDF
  *
- * Placeholder for PDF export orchestration logic
+ * Renders the chart as vector graphics on the configured paper size,
+ * either scaled onto one page or tiled across several for wall charts.
  *
  * @param chartType - Type of chart to export
  * @param chartData - Chart data to export
+ * @param options - Paper size, margins, fonts, printed fields and layout
  * @returns Buffer containing PDF data
+ * @throws Error if the chart type cannot be exported or the data does not match it
  *
  * @example
- * const pdf = await exportChartAsPDF('ancestor', chartData)
+ * const pdf = await exportChartAsPDF('ancestor', chartData, { paperSize: 'A1' })
  */
 export async function exportChartAsPDF(
-  _chartType: string,
-  _chartData: unknown
+  chartType: string,
+  chartData: unknown,
+  options: ChartExportOptionsInput = {}
 ): Promise<Buffer> {
-  // TODO: Implement PDF export
-  throw new Error("PDF export not yet implemented");
+  const { drawing, resolved } = buildExportDrawing(
+    chartType,
+    chartData,
+    options
+  );
+  return renderDrawingToPDF(drawing, resolved);
 }
 
 /**
  * Exports chart as SVG
  *
- * Placeholder for SVG export orchestration logic
- *
  * @param chartType - Type of chart to export
  * @param chartData - Chart data to export
+ * @param options - Fonts, printed fields and title
  * @returns String containing SVG data
+ * @throws Error if the chart type cannot be exported or the data does not match it
  *
  * @example
  * const svg = await exportChartAsSVG('ancestor', chartData)
  */
 export async function exportChartAsSVG(
-  _chartType: string,
-  _chartData: unknown
+  chartType: string,
+  chartData: unknown,
+  options: ChartExportOptionsInput = {}
 ): Promise<string> {
-  // TODO: Implement SVG export
-  throw new Error("SVG export not yet implemented");
+  const { drawing, resolved } = buildExportDrawing(
+    chartType,
+    chartData,
+    options
+  );
+  return renderDrawingToSVG(drawing, resolved);
+}
+
+/**
+ * Exports chart as PNG
+ *
+ * Rasterizes the SVG export at the configured scale.
+ *
+ * @param chartType - Type of chart to export
+ * @param chartData - Chart data to export
+ * @param options - Fonts, printed fields, title and pixel scale
+ * @returns Buffer containing PNG data
+ * @throws Error if the chart cannot be exported or sharp is not installed
+ *
+ * @example
+ * const png = await exportChartAsPNG('fan', chartData, { scale: 3 })
+ */
+export async function exportChartAsPNG(
+  chartType: string,
+  chartData: unknown,
+  options: ChartExportOptionsInput = {}
+): Promise<Buffer> {
+  const { drawing, resolved } = buildExportDrawing(
+    chartType,
+    chartData,
+    options
+  );
+  // Loaded on demand so the business barrel does not pull in sharp
+  const { rasterizeSvg } = await import("@vamsa/lib/media/processor");
+  return rasterizeSvg(renderDrawingToSVG(drawing, resolved), resolved.scale);
+}
+
+/**
+ * Builds a chart and exports it as a downloadable file
+ *
+ * Fetches the chart data with the viewer's privacy rules applied, so
+ * redacted people stay redacted in print.
+ *
+ * @param request - Chart type, root person, generations, format and print options
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
+ * @returns File name, content type and content
+ * @throws Error if the root person is missing or not found
+ *
+ * @example
+ * const file = await exportChartData({ chartType: 'ancestor', format: 'pdf', personId: 'person123' })
+ */
+export async function exportChartData(
+  request: ChartExportRequest,
+  db: ChartsDb = drizzleDb,
+  viewer: PrivacyViewer
+): Promise<ChartExportFile> {
+  const { chartType, format, personId } = request;
+
+  let chartData: unknown;
+  if (chartType === "timeline") {
+    chartData = await getTimelineChartData(
+      request.startYear,
+      request.endYear,
+      "birth",
+      db,
+      viewer
+    );
+  } else {
+    if (!personId) {
+      throw new Error("A root person is required for this chart");
+    }
+    const generations =
+      request.generations ?? DEFAULT_EXPORT_GENERATIONS[chartType];
+    const ancestorGenerations = request.ancestorGenerations ?? generations;
+    const descendantGenerations = request.descendantGenerations ?? generations;
+
+    switch (chartType) {
+      case "ancestor":
+        chartData = await getAncestorChartData(
+          personId,
+          generations,
+          db,
+          viewer
+        );
+        break;
+      case "descendant":
+        chartData = await getDescendantChartData(
+          personId,
+          generations,
+          db,
+          viewer
+        );
+        break;
+      case "hourglass":
+        chartData = await getHourglassChartData(
+          personId,
+          ancestorGenerations,
+          descendantGenerations,
+          db,
+          viewer
+        );
+        break;
+      case "fan":
+        chartData = await getFanChartData(personId, generations, db, viewer);
+        break;
+      case "bowtie":
+        chartData = await getBowtieChartData(personId, generations, db, viewer);
+        break;
+      case "compact":
+        chartData = await getCompactTreeData(personId, generations, db, viewer);
+        break;
+      case "tree":
+        chartData = await getTreeChartData(
+          personId,
+          ancestorGenerations,
+          descendantGenerations,
+          db,
+          viewer
+        );
+        break;
+    }
+  }
+
+  const options = request.options ?? {};
+  const content =
+    format === "svg"
+      ? Buffer.from(await exportChartAsSVG(chartType, chartData, options))
+      : format === "png"
+        ? await exportChartAsPNG(chartType, chartData, options)
+        : await exportChartAsPDF(chartType, chartData, options);
+
+  const date = new Date().toISOString().split("T")[0];
+  return {
+    filename: `vamsa-${chartType}-chart-${date}.${format}`,
+    contentType: EXPORT_CONTENT_TYPES[format],
+    content,
+  };
 }
@@ -0,0 +1,205 @@
+/**
+ * Unit tests for data consistency business logic
+ *
+ * Tests cover:
+ * - getConsistencyThresholdsData: Stored thresholds merged over defaults
+ * - updateConsistencyThresholdsData: Updating or creating the settings row
+ * - scanConsistencyData: Whole-tree reports with counts
+ * - getConsistencyWarningsData: Neighbourhood checks that never throw
+ */
+
+import { describe, expect, it, vi } from "vitest";
+import { DEFAULT_CONSISTENCY_THRESHOLDS } from "@vamsa/lib";
+import {
+  getConsistencyThresholdsData,
+  getConsistencyWarningsData,
+  scanConsistencyData,
+  updateConsistencyThresholdsData,
+} from "./consistency";
+
+function personRow(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    firstName: id.charAt(0).toUpperCase() + id.slice(1),
+    lastName: "Sharma",
+    gender: null,
+    isLiving: false,
+    dateOfBirth: null,
+    dateOfBirthDetail: null,
+    dateOfPassing: null,
+    dateOfPassingDetail: null,
+    ...overrides,
+  };
+}
+
+function createDb(
+  options: {
+    settings?: unknown;
+    persons?: Array<unknown>;
+    relationships?: Array<unknown>;
+    ancestorRows?: Array<Array<unknown>>;
+    events?: Array<unknown>;
+  } = {}
+) {
+  const updateSet = vi.fn(() => ({ where: vi.fn(async () => undefined) }));
+  const insertValues = vi.fn(async () => undefined);
+
+  // First call returns direct relationships, later calls walk ancestors
+  const ancestorRows = [...(options.ancestorRows ?? [])];
+  const relationshipsFindMany = vi
+    .fn(async () => ancestorRows.shift() ?? [])
+    .mockImplementationOnce(async () => options.relationships ?? []);
+
+  const db: any = {
+    update: vi.fn(() => ({ set: updateSet })),
+    insert: vi.fn(() => ({ values: insertValues })),
+    query: {
+      familySettings: {
+        findFirst: vi.fn(async () => options.settings ?? null),
+      },
+      persons: {
+        findMany: vi.fn(async () => options.persons ?? []),
+      },
+      relationships: { findMany: relationshipsFindMany },
+      events: {
+        findMany: vi.fn(async () => options.events ?? []),
+      },
+    },
+  };
+
+  return { db, updateSet, insertValues };
+}
+
+describe("Consistency Business Logic", () => {
+  describe("getConsistencyThresholdsData", () => {
+    it("should return the defaults without settings", async () => {
+      const { db } = createDb();
+
+      expect(await getConsistencyThresholdsData(db)).toEqual(
+        DEFAULT_CONSISTENCY_THRESHOLDS
+      );
+    });
+
+    it("should merge stored thresholds over the defaults", async () => {
+      const { db } = createDb({
+        settings: { consistencyThresholds: { maxLifespanYears: 105 } },
+      });
+
+      expect(await getConsistencyThresholdsData(db)).toEqual({
+        ...DEFAULT_CONSISTENCY_THRESHOLDS,
+        maxLifespanYears: 105,
+      });
+    });
+  });
+
+  describe("updateConsistencyThresholdsData", () => {
+    const thresholds = { ...DEFAULT_CONSISTENCY_THRESHOLDS, minParentAge: 14 };
+
+    it("should update the existing settings row", async () => {
+      const { db, updateSet } = createDb({ settings: { id: "settings-1" } });
+
+      const result = await updateConsistencyThresholdsData(thresholds, db);
+
+      expect(result).toEqual(thresholds);
+      expect(updateSet).toHaveBeenCalledWith(
+        expect.objectContaining({ consistencyThresholds: thresholds })
+      );
+    });
+
+    it("should create the settings row when there is none", async () => {
+      const { db, insertValues } = createDb();
+
+      await updateConsistencyThresholdsData(thresholds, db);
+
+      expect(insertValues).toHaveBeenCalledWith(
+        expect.objectContaining({ consistencyThresholds: thresholds })
+      );
+    });
+  });
+
+  describe("scanConsistencyData", () => {
+    it("should report issues with counts", async () => {
+      const { db } = createDb({
+        persons: [
+          personRow("child", { dateOfBirth: new Date("1900-01-01") }),
+          personRow("parent", { dateOfBirth: new Date("1920-01-01") }),
+          personRow("elder", {
+            dateOfBirth: new Date("1700-01-01"),
+            dateOfPassing: new Date("1850-01-01"),
+          }),
+        ],
+        relationships: [
+          {
+            personId: "child",
+            relatedPersonId: "parent",
+            type: "PARENT",
+            pedigree: null,
+            marriageDate: null,
+          },
+        ],
+      });
+
+      const report = await scanConsistencyData(db);
+
+      expect(report.personCount).toBe(3);
+      expect(report.errorCount).toBe(1);
+      expect(report.warningCount).toBe(1);
+      expect(report.issues.map((i) => i.rule)).toEqual([
+        "CHILD_BORN_BEFORE_PARENT",
+        "LIFESPAN_TOO_LONG",
+      ]);
+      expect(report.thresholds).toEqual(DEFAULT_CONSISTENCY_THRESHOLDS);
+    });
+
+    it("should apply stored thresholds", async () => {
+      const { db } = createDb({
+        settings: { consistencyThresholds: { maxLifespanYears: 90 } },
+        persons: [
+          personRow("ravi", {
+            dateOfBirth: new Date("1850-01-01"),
+            dateOfPassing: new Date("1945-01-01"),
+          }),
+        ],
+      });
+
+      const report = await scanConsistencyData(db);
+
+      expect(report.issues.map((i) => i.rule)).toEqual(["LIFESPAN_TOO_LONG"]);
+    });
+  });
+
+  describe("getConsistencyWarningsData", () => {
+    it("should find a person becoming their own ancestor", async () => {
+      const link = (childId: string, parentId: string) => ({
+        personId: childId,
+        relatedPersonId: parentId,
+        type: "PARENT",
+        pedigree: null,
+        marriageDate: null,
+      });
+      const { db } = createDb({
+        persons: ["a", "b", "c"].map((id) => personRow(id)),
+        relationships: [link("a", "b")],
+        // a -> b -> c -> a
+        ancestorRows: [[link("a", "b")], [link("b", "c")], [link("c", "a")]],
+      });
+
+      const warnings = await getConsistencyWarningsData(["a"], db);
+
+      // b's issue names only b and c, so it is left out
+      expect(warnings.map((w) => [w.rule, w.personId])).toEqual([
+        ["OWN_ANCESTOR", "a"],
+        ["OWN_ANCESTOR", "c"],
+      ]);
+    });
+
+    it("should return no warnings when the check fails", async () => {
+      const { db } = createDb();
+      db.query.events.findMany = vi.fn(async () => {
+        throw new Error("connection lost");
+      });
+
+      await expect(getConsistencyWarningsData(["a"], db)).resolves.toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import { drizzleDb, drizzleSchema } from "@vamsa/api";
+import { and, eq, inArray, isNull, or } from "drizzle-orm";
+import { DEFAULT_CONSISTENCY_THRESHOLDS, checkConsistency } from "@vamsa/lib";
+import { loggers } from "@vamsa/lib/logger";
+import type {
+  ConsistencyIssue,
+  ConsistencyRelationship,
+  ConsistencyThresholds,
+} from "@vamsa/lib";
+
+const log = loggers.db;
+
+/** Type for the database instance (for DI) */
+export type ConsistencyDb = typeof drizzleDb;
+
+/**
+ * Result of scanning the whole tree
+ */
+export interface ConsistencyReport {
+  issues: Array<ConsistencyIssue>;
+  errorCount: number;
+  warningCount: number;
+  personCount: number;
+  thresholds: ConsistencyThresholds;
+  scannedAt: string;
+}
+
+/** Relationship types the rules look at */
+const CHECKED_RELATIONSHIP_TYPES = ["PARENT", "CHILD", "SPOUSE"] as const;
+
+/** Stop following ancestors after this many generations */
+const MAX_ANCESTOR_GENERATIONS = 100;
+
+const PERSON_COLUMNS = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  gender: true,
+  isLiving: true,
+  dateOfBirth: true,
+  dateOfBirthDetail: true,
+  dateOfPassing: true,
+  dateOfPassingDetail: true,
+} as const;
+
+const RELATIONSHIP_COLUMNS = {
+  personId: true,
+  relatedPersonId: true,
+  type: true,
+  pedigree: true,
+  marriageDate: true,
+} as const;
+
+const EVENT_COLUMNS = {
+  id: true,
+  personId: true,
+  type: true,
+  date: true,
+  dateDetail: true,
+} as const;
+
+/**
+ * Thresholds from family settings, with defaults for anything unset
+ *
+ * @param db - Database instance (defaults to drizzleDb for production)
+ * @returns Thresholds in effect
+ */
+export async function getConsistencyThresholdsData(
+  db: ConsistencyDb = drizzleDb
+): Promise<ConsistencyThresholds> {
+  const settings = await db.query.familySettings.findFirst({
+    columns: { consistencyThresholds: true },
+  });
+  const stored = (settings?.consistencyThresholds ??
+    {}) as Partial<ConsistencyThresholds>;
+
+  return { ...DEFAULT_CONSISTENCY_THRESHOLDS, ...stored };
+}
+
+/**
+ * Save the thresholds, creating the settings row if there is none
+ *
+ * @param thresholds - New thresholds
+ * @param db - Database instance (defaults to drizzleDb for production)
+ * @returns Thresholds in effect
+ */
+export async function updateConsistencyThresholdsData(
+  thresholds: ConsistencyThresholds,
+  db: ConsistencyDb = drizzleDb
+): Promise<ConsistencyThresholds> {
+  const existing = await db.query.familySettings.findFirst({
+    columns: { id: true },
+  });
+
+  if (existing) {
+    await db
+      .update(drizzleSchema.familySettings)
+      .set({ consistencyThresholds: thresholds, updatedAt: new Date() })
+      .where(eq(drizzleSchema.familySettings.id, existing.id));
+  } else {
+    await db.insert(drizzleSchema.familySettings).values({
+      id: crypto.randomUUID(),
+      consistencyThresholds: thresholds,
+      updatedAt: new Date(),
+    });
+  }
+
+  log.info({ thresholds }, "Consistency thresholds updated");
+  return { ...DEFAULT_CONSISTENCY_THRESHOLDS, ...thresholds };
+}
+
+/**
+ * Check every person in the tree
+ *
+ * @param db - Database instance (defaults to drizzleDb for production)
+ * @returns Issues found, errors first, with counts
+ */
+export async function scanConsistencyData(
+  db: ConsistencyDb = drizzleDb
+): Promise<ConsistencyReport> {
+  const [thresholds, persons, relationships, events] = await Promise.all([
+    getConsistencyThresholdsData(db),
+    db.query.persons.findMany({
+      where: isNull(drizzleSchema.persons.deletedAt),
+      columns: PERSON_COLUMNS,
+    }),
+    db.query.relationships.findMany({
+      where: inArray(drizzleSchema.relationships.type, [
+        ...CHECKED_RELATIONSHIP_TYPES,
+      ]),
+      columns: RELATIONSHIP_COLUMNS,
+    }),
+    db.query.events.findMany({ columns: EVENT_COLUMNS }),
+  ]);
+
+  const issues = checkConsistency(
+    { persons, relationships, events },
+    thresholds
+  );
+  const errorCount = issues.filter((i) => i.severity === "ERROR").length;
+
+  log.info(
+    { persons: persons.length, issues: issues.length },
+    "Consistency scan complete"
+  );
+
+  return {
+    issues,
+    errorCount,
+    warningCount: issues.length - errorCount,
+    personCount: persons.length,
+    thresholds,
+    scannedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Parent links of the given persons and all their ancestors
+ *
+ * Needed to notice a person becoming their own ancestor.
+ */
+async function loadAncestorLinks(
+  personIds: Array<string>,
+  db: ConsistencyDb
+): Promise<Array<ConsistencyRelationship>> {
+  const links: Array<ConsistencyRelationship> = [];
+  const seen = new Set(personIds);
+  let frontier = personIds;
+
+  for (
+    let generation = 0;
+    frontier.length > 0 && generation < MAX_ANCESTOR_GENERATIONS;
+    generation++
+  ) {
+    const rows = await db.query.relationships.findMany({
+      where: and(
+        inArray(drizzleSchema.relationships.personId, frontier),
+        eq(drizzleSchema.relationships.type, "PARENT")
+      ),
+      columns: RELATIONSHIP_COLUMNS,
+    });
+    links.push(...rows);
+
+    frontier = [];
+    for (const row of rows) {
+      if (!seen.has(row.relatedPersonId)) {
+        seen.add(row.relatedPersonId);
+        frontier.push(row.relatedPersonId);
+      }
+    }
+  }
+
+  return links;
+}
+
+/**
+ * Issues involving the given persons, for warning about a change just made
+ *
+ * Loads only the neighbourhood of the persons: their direct relatives,
+ * their ancestors and their own events. Never throws; a failed check is
+ * logged and reported as no warnings so the write itself still succeeds.
+ *
+ * @param personIds - Persons touched by the change
+ * @param db - Database instance (defaults to drizzleDb for production)
+ * @returns Issues involving the persons
+ */
+export async function getConsistencyWarningsData(
+  personIds: Array<string>,
+  db: ConsistencyDb = drizzleDb
+): Promise<Array<ConsistencyIssue>> {
+  try {
+    const thresholds = await getConsistencyThresholdsData(db);
+    const direct = await db.query.relationships.findMany({
+      where: and(
+        or(
+          inArray(drizzleSchema.relationships.personId, personIds),
+          inArray(drizzleSchema.relationships.relatedPersonId, personIds)
+        ),
+        inArray(drizzleSchema.relationships.type, [
+          ...CHECKED_RELATIONSHIP_TYPES,
+        ])
+      ),
+      columns: RELATIONSHIP_COLUMNS,
+    });
+    const ancestors = await loadAncestorLinks(personIds, db);
+    const events = await db.query.events.findMany({
+      where: inArray(drizzleSchema.events.personId, personIds),
+      columns: EVENT_COLUMNS,
+    });
+
+    const relationships = [...direct, ...ancestors];
+    const involvedIds = new Set(personIds);
+    for (const rel of relationships) {
+      involvedIds.add(rel.personId);
+      involvedIds.add(rel.relatedPersonId);
+    }
+
+    const persons = await db.query.persons.findMany({
+      where: and(
+        inArray(drizzleSchema.persons.id, [...involvedIds]),
+        isNull(drizzleSchema.persons.deletedAt)
+      ),
+      columns: PERSON_COLUMNS,
+    });
+
+    return checkConsistency({ persons, relationships, events }, thresholds, {
+      personIds,
+    });
+  } catch (error) {
+    log.withErr(error).ctx({ personIds }).msg("Consistency check failed");
+    return [];
+  }
+}
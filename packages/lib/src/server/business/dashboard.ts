@@ -16,6 +16,7 @@
 
 import { drizzleDb, drizzleSchema } from "@vamsa/api";
 import { and, asc, count, desc, eq, inArray, sql } from "drizzle-orm";
+import { isRevertableAuditEntry } from "./audit";
 
 /** Type for the database instance (for DI) */
 export type DashboardDb = typeof drizzleDb;
@@ -50,6 +51,8 @@ export interface ActivityLog {
     id: string;
     name: string;
   } | null;
+  /** Whether an admin can revert this change */
+  revertable: boolean;
 }
 
 /**
@@ -213,6 +216,10 @@ function formatEntityType(entityType: string): string {
     INVITATION: "Invitation",
     BACKUP: "Backup",
     MEDIA: "Media",
+    EVENT: "Event",
+    EVENT_PARTICIPANT: "Event participant",
+    PLACE: "Place",
+    PLACE_LINK: "Place link",
   };
   return (
     labels[entityType] ??
@@ -241,7 +248,7 @@ function getActivityDescription(
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   newData: any
 ): string {
-  const entityName = entityType.charAt(0) + entityType.slice(1).toLowerCase();
+  const entityName = formatEntityType(entityType);
 
   if (action === "CREATE") {
     if (entityType === "PERSON" && newData?.firstName && newData?.lastName) {
@@ -391,6 +398,7 @@ export async function getRecentActivityData(
     user: log.user
       ? { id: log.user.id, name: log.user.name ?? "Unknown" }
       : null,
+    revertable: isRevertableAuditEntry(log),
   }));
 }
 
@@ -0,0 +1,617 @@
+/**
+ * Unit tests for document extraction business logic
+ *
+ * Tests cover:
+ * - loadDocumentForExtractionData: Images, PDF text and scanned PDFs
+ * - toSourceType: Source types for the documents the AI service reads
+ * - fileExtractedFactsData: A Source and a suggestion per new fact
+ * - getDocumentExtractionData: A Source with its document and suggestions
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ExtractResult, ExtractedFact } from "../../ai";
+
+const mockStorageGet = vi.fn();
+const mockGenerateDocumentImage = vi.fn();
+const mockRenderPdfFirstPage = vi.fn();
+const mockReadPdfText = vi.fn();
+const mockNotifySuggestionCreated = vi.fn(() => Promise.resolve());
+
+vi.mock("@vamsa/api/storage", () => ({
+  getStorageProvider: vi.fn(async () => ({ get: mockStorageGet })),
+  mediaPathToStorageKey: (path: string) => path.replace(/^\/media\//, ""),
+}));
+
+vi.mock("@vamsa/lib/media/processor", () => ({
+  generateDocumentImage: mockGenerateDocumentImage,
+  renderPdfFirstPage: mockRenderPdfFirstPage,
+}));
+
+vi.mock("@vamsa/lib/media/file-info", () => ({
+  readPdfText: mockReadPdfText,
+}));
+
+vi.mock("@vamsa/lib/server/business/notifications", () => ({
+  notifySuggestionCreated: mockNotifySuggestionCreated,
+}));
+
+// The test setup already loaded this module through @vamsa/lib/server, so
+// it has to be evaluated again for the mocks above to reach it
+vi.resetModules();
+const {
+  fileExtractedFactsData,
+  getDocumentExtractionData,
+  loadDocumentForExtractionData,
+  toSourceType,
+} = await import("./document-extraction");
+
+const createdAt = new Date("2026-03-01T08:00:00.000Z");
+
+function mediaRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "media-1",
+    title: "Birth certificate",
+    filePath: "/media/uploads/certificate.jpg",
+    mimeType: "image/jpeg",
+    webpPath: null,
+    ...overrides,
+  };
+}
+
+function personRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "person-1",
+    firstName: "Hari",
+    lastName: "Prasad",
+    maidenName: null,
+    gender: "MALE",
+    birthPlace: null,
+    nativePlace: null,
+    profession: null,
+    dateOfBirth: null,
+    dateOfBirthDetail: null,
+    dateOfPassing: null,
+    dateOfPassingDetail: null,
+    isLiving: true,
+    ...overrides,
+  };
+}
+
+function createDb(
+  options: {
+    media?: unknown;
+    link?: unknown;
+    people?: Array<ReturnType<typeof personRow>>;
+    relationship?: unknown;
+    source?: unknown;
+    suggestions?: Array<unknown>;
+  } = {}
+) {
+  const insertValues = vi.fn(() => Promise.resolve());
+  const people = options.people ?? [];
+  let personLookups = 0;
+
+  const db: any = {
+    insert: vi.fn(() => ({ values: insertValues })),
+    transaction: vi.fn((fn: (tx: unknown) => Promise<unknown>) => fn(db)),
+    query: {
+      mediaObjects: {
+        findFirst: vi.fn(async () =>
+          options.media === undefined ? mediaRow() : options.media
+        ),
+      },
+      personMedias: { findFirst: vi.fn(async () => options.link) },
+      // Looked up in the order the facts first name them
+      persons: { findFirst: vi.fn(async () => people[personLookups++]) },
+      relationships: {
+        findFirst: vi.fn(async () => options.relationship),
+      },
+      sources: { findFirst: vi.fn(async () => options.source) },
+      suggestions: {
+        findFirst: vi.fn(async () => ({ id: "suggestion-1" })),
+        findMany: vi.fn(async () => options.suggestions ?? []),
+      },
+    },
+  };
+  return { db, insertValues };
+}
+
+function extraction(facts: Array<ExtractedFact>): ExtractResult {
+  return {
+    title: "Birth certificate of Hari Prasad",
+    documentType: "birth certificate",
+    transcription: "Hari Prasad, son of Ram Prasad, born 3 March 1850",
+    facts,
+    toolCallCount: 1,
+  };
+}
+
+const base = { confidence: "high" as const, evidence: "" };
+
+describe("Document Extraction Business Logic", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("loadDocumentForExtractionData", () => {
+    it("should send an image as JPEG, with the person it was uploaded for", async () => {
+      const { db } = createDb({
+        link: {
+          person: { id: "person-1", firstName: "Hari", lastName: "Prasad" },
+        },
+      });
+      mockStorageGet.mockResolvedValueOnce({ data: Buffer.from("raw") });
+      mockGenerateDocumentImage.mockResolvedValueOnce({
+        buffer: Buffer.from("jpeg"),
+        width: 1200,
+        height: 1600,
+      });
+
+      const result = await loadDocumentForExtractionData("media-1", db);
+
+      expect(mockStorageGet).toHaveBeenCalledWith("uploads/certificate.jpg");
+      expect(result).toEqual({
+        mediaId: "media-1",
+        request: {
+          fileName: "Birth certificate",
+          personId: "person-1",
+          personName: "Hari Prasad",
+          image: {
+            data: Buffer.from("jpeg").toString("base64"),
+            mediaType: "image/jpeg",
+          },
+        },
+      });
+    });
+
+    it("should send an image as it is when it can't be converted", async () => {
+      const { db } = createDb({ media: mediaRow({ mimeType: "image/png" }) });
+      mockStorageGet.mockResolvedValueOnce({ data: Buffer.from("png") });
+      mockGenerateDocumentImage.mockRejectedValueOnce(
+        new Error("Image processing unavailable: sharp is not installed.")
+      );
+
+      const result = await loadDocumentForExtractionData("media-1", db);
+
+      expect(result.request.image).toEqual({
+        data: Buffer.from("png").toString("base64"),
+        mediaType: "image/png",
+      });
+      expect(result.request.personId).toBeUndefined();
+    });
+
+    it("should fail for an image the model can't read without converting", async () => {
+      const { db } = createDb({ media: mediaRow({ mimeType: "image/tiff" }) });
+      mockStorageGet.mockResolvedValueOnce({ data: Buffer.from("tiff") });
+      mockGenerateDocumentImage.mockRejectedValueOnce(
+        new Error("Image processing unavailable: sharp is not installed.")
+      );
+
+      await expect(
+        loadDocumentForExtractionData("media-1", db)
+      ).rejects.toThrow("Image processing unavailable");
+    });
+
+    it("should send the text of a PDF with a text layer", async () => {
+      const { db } = createDb({
+        media: mediaRow({ mimeType: "application/pdf" }),
+      });
+      mockStorageGet.mockResolvedValueOnce({ data: Buffer.from("%PDF") });
+      mockReadPdfText.mockReturnValueOnce("Census of 1881");
+
+      const result = await loadDocumentForExtractionData("media-1", db);
+
+      expect(result.request.text).toBe("Census of 1881");
+      expect(result.request.image).toBeUndefined();
+      expect(mockRenderPdfFirstPage).not.toHaveBeenCalled();
+    });
+
+    it("should send the first page of a scanned PDF as an image", async () => {
+      const { db } = createDb({
+        media: mediaRow({ mimeType: "application/pdf" }),
+      });
+      mockStorageGet.mockResolvedValueOnce({ data: Buffer.from("%PDF") });
+      mockReadPdfText.mockReturnValueOnce(null);
+      mockRenderPdfFirstPage.mockResolvedValueOnce({
+        buffer: Buffer.from("page"),
+        pageCount: 2,
+      });
+
+      const result = await loadDocumentForExtractionData("media-1", db);
+
+      expect(result.request.image).toEqual({
+        data: Buffer.from("page").toString("base64"),
+        mediaType: "image/png",
+      });
+    });
+
+    it("should refuse media that isn't an image or PDF", async () => {
+      const { db } = createDb({ media: mediaRow({ mimeType: "audio/mpeg" }) });
+
+      await expect(
+        loadDocumentForExtractionData("media-1", db)
+      ).rejects.toThrow("Only images and PDF documents can be read");
+      expect(mockStorageGet).not.toHaveBeenCalled();
+    });
+
+    it("should throw when the media or its file is missing", async () => {
+      await expect(
+        loadDocumentForExtractionData("missing", createDb({ media: null }).db)
+      ).rejects.toThrow("Media not found");
+
+      mockStorageGet.mockResolvedValueOnce(null);
+      await expect(
+        loadDocumentForExtractionData("media-1", createDb().db)
+      ).rejects.toThrow("Media file not found");
+    });
+  });
+
+  describe("toSourceType", () => {
+    it("should map document types to source types", () => {
+      expect(toSourceType("birth certificate")).toBe("VITAL_RECORD");
+      expect(toSourceType("parish register")).toBe("VITAL_RECORD");
+      expect(toSourceType("census")).toBe("CENSUS");
+      expect(toSourceType("Letter")).toBe("LETTER");
+      expect(toSourceType("photograph")).toBe("OTHER");
+    });
+  });
+
+  describe("fileExtractedFactsData", () => {
+    it("should create a Source for the document and file each fact", async () => {
+      const { db, insertValues } = createDb({
+        people: [personRow(), personRow({ id: "person-2", firstName: "Ram" })],
+      });
+
+      const result = await fileExtractedFactsData(
+        "media-1",
+        extraction([
+          {
+            ...base,
+            kind: "event",
+            personName: "Hari Prasad",
+            personId: "person-1",
+            eventType: "BIRTH",
+            date: "ABT 1850",
+            place: "Varanasi",
+            evidence: "born about 1850",
+          },
+          {
+            ...base,
+            kind: "relationship",
+            personName: "Ram Prasad",
+            personId: "person-2",
+            relationship: "PARENT",
+            relatedPersonName: "Hari Prasad",
+            relatedPersonId: "person-1",
+          },
+        ]),
+        "user-1",
+        db
+      );
+
+      expect(result).toEqual({
+        sourceId: expect.any(String),
+        suggestionCount: 2,
+        skippedCount: 0,
+      });
+      expect(insertValues).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({
+          id: result.sourceId,
+          title: "Birth certificate of Hari Prasad",
+          sourceType: "VITAL_RECORD",
+          mediaId: "media-1",
+          transcription: "Hari Prasad, son of Ram Prasad, born 3 March 1850",
+        })
+      );
+
+      const suggestions = (insertValues.mock.calls[1] as any)[0];
+      expect(suggestions).toEqual([
+        expect.objectContaining({
+          type: "CREATE_EVENT",
+          targetPersonId: "person-1",
+          sourceId: result.sourceId,
+          submittedById: "user-1",
+          status: "PENDING",
+          suggestedData: {
+            personId: "person-1",
+            type: "BIRTH",
+            dateDetail: expect.objectContaining({
+              qualifier: "ABOUT",
+              start: { year: 1850 },
+            }),
+            place: "Varanasi",
+            description: "born about 1850",
+          },
+          reason:
+            'Read from "Birth certificate of Hari Prasad" with high confidence: "born about 1850"',
+        }),
+        // Ram is Hari's parent, so the relationship is stored on Hari
+        expect.objectContaining({
+          type: "ADD_RELATIONSHIP",
+          targetPersonId: "person-1",
+          suggestedData: {
+            personId: "person-1",
+            relatedPersonId: "person-2",
+            type: "PARENT",
+          },
+          reason:
+            'Read from "Birth certificate of Hari Prasad" with high confidence',
+        }),
+      ]);
+      expect(mockNotifySuggestionCreated).toHaveBeenCalledTimes(1);
+      expect(mockNotifySuggestionCreated).toHaveBeenCalledWith(
+        "suggestion-1",
+        db
+      );
+    });
+
+    it("should suggest only the details a person's record doesn't hold", async () => {
+      const { db, insertValues } = createDb({
+        people: [
+          personRow({
+            dateOfBirth: new Date("1850-03-03"),
+            profession: "weaver",
+          }),
+        ],
+      });
+
+      await fileExtractedFactsData(
+        "media-1",
+        extraction([
+          {
+            ...base,
+            kind: "person",
+            personName: "Hari Prasad",
+            personId: "person-1",
+            fields: {
+              firstName: "Hari",
+              profession: "Weaver",
+              dateOfBirth: "1850",
+              dateOfPassing: "12 JUN 1910",
+              birthPlace: "Varanasi",
+            },
+          },
+        ]),
+        "user-1",
+        db
+      );
+
+      const [suggestion] = (insertValues.mock.calls[1] as any)[0];
+      expect(suggestion).toMatchObject({
+        type: "UPDATE",
+        targetPersonId: "person-1",
+        suggestedData: {
+          birthPlace: "Varanasi",
+          dateOfPassing: "1910-06-12",
+          isLiving: false,
+        },
+      });
+      expect(Object.keys(suggestion.suggestedData)).toHaveLength(3);
+    });
+
+    it("should suggest a new person for someone not in the tree", async () => {
+      const { db, insertValues } = createDb();
+
+      await fileExtractedFactsData(
+        "media-1",
+        extraction([
+          {
+            ...base,
+            kind: "person",
+            personName: "Sita Devi Prasad",
+            personId: null,
+            fields: { dateOfBirth: "BET 1820 AND 1825" },
+          },
+        ]),
+        "user-1",
+        db
+      );
+
+      const [suggestion] = (insertValues.mock.calls[1] as any)[0];
+      expect(suggestion).toMatchObject({
+        type: "CREATE",
+        targetPersonId: null,
+        suggestedData: {
+          firstName: "Sita Devi",
+          lastName: "Prasad",
+          dateOfBirthDetail: expect.objectContaining({ qualifier: "BETWEEN" }),
+        },
+      });
+    });
+
+    it("should skip facts the tree records or that can't become a change", async () => {
+      const { db, insertValues } = createDb({
+        people: [personRow(), personRow({ id: "person-2" })],
+        relationship: { id: "relationship-1" },
+      });
+
+      const result = await fileExtractedFactsData(
+        "media-1",
+        extraction([
+          // Nothing new about Hari
+          {
+            ...base,
+            kind: "person",
+            personName: "Hari Prasad",
+            personId: "person-1",
+            fields: { firstName: "hari", gender: "MALE" },
+          },
+          // Already related
+          {
+            ...base,
+            kind: "relationship",
+            personName: "Hari Prasad",
+            personId: "person-1",
+            relationship: "SIBLING",
+            relatedPersonName: "Mohan Prasad",
+            relatedPersonId: "person-2",
+          },
+          // An event of someone not in the tree
+          {
+            ...base,
+            kind: "event",
+            personName: "Gopal",
+            personId: null,
+            eventType: "DEATH",
+            date: null,
+            place: null,
+          },
+          // A relationship with someone not in the tree
+          {
+            ...base,
+            kind: "relationship",
+            personName: "Gopal",
+            personId: null,
+            relationship: "SPOUSE",
+            relatedPersonName: "Hari Prasad",
+            relatedPersonId: "person-1",
+          },
+        ]),
+        "user-1",
+        db
+      );
+
+      expect(result).toMatchObject({ suggestionCount: 0, skippedCount: 4 });
+      expect(insertValues).toHaveBeenCalledTimes(1);
+      expect(mockNotifySuggestionCreated).not.toHaveBeenCalled();
+    });
+
+    it("should treat people deleted since the document was read as new", async () => {
+      const { db, insertValues } = createDb({ people: [] });
+
+      await fileExtractedFactsData(
+        "media-1",
+        extraction([
+          {
+            ...base,
+            kind: "person",
+            personName: "Hari",
+            personId: "person-1",
+            fields: {},
+          },
+        ]),
+        "user-1",
+        db
+      );
+
+      const [suggestion] = (insertValues.mock.calls[1] as any)[0];
+      expect(suggestion).toMatchObject({
+        type: "CREATE",
+        targetPersonId: null,
+        suggestedData: { firstName: "Hari", lastName: "" },
+      });
+    });
+
+    it("should fall back to the media title", async () => {
+      const { db, insertValues } = createDb();
+
+      await fileExtractedFactsData(
+        "media-1",
+        { ...extraction([]), title: "", documentType: "census" },
+        "user-1",
+        db
+      );
+
+      expect(insertValues).toHaveBeenCalledWith(
+        expect.objectContaining({
+          title: "Birth certificate",
+          sourceType: "CENSUS",
+        })
+      );
+    });
+
+    it("should throw when the media is not found", async () => {
+      const { db } = createDb({ media: null });
+
+      await expect(
+        fileExtractedFactsData("missing", extraction([]), "user-1", db)
+      ).rejects.toThrow("Media not found");
+    });
+  });
+
+  describe("getDocumentExtractionData", () => {
+    it("should return the source, its document and its suggestions", async () => {
+      const { db } = createDb({
+        source: {
+          id: "source-1",
+          title: "Birth certificate of Hari Prasad",
+          sourceType: "VITAL_RECORD",
+          mediaId: "media-1",
+          transcription: "Hari Prasad, born 3 March 1850",
+          createdAt,
+        },
+        suggestions: [
+          {
+            id: "suggestion-1",
+            type: "CREATE_EVENT",
+            targetPersonId: "person-1",
+            targetPerson: {
+              id: "person-1",
+              firstName: "Hari",
+              lastName: "Prasad",
+            },
+            suggestedData: { personId: "person-1", type: "BIRTH" },
+            reason: "Read from the certificate",
+            status: "PENDING",
+            submittedAt: createdAt,
+            reviewedAt: null,
+            reviewNote: null,
+            sourceId: "source-1",
+            submittedBy: {
+              id: "user-1",
+              name: "Asha",
+              email: "asha@example.com",
+            },
+            reviewedBy: null,
+          },
+        ],
+      });
+
+      const result = await getDocumentExtractionData("source-1", db);
+
+      expect(result.source).toEqual({
+        id: "source-1",
+        title: "Birth certificate of Hari Prasad",
+        sourceType: "VITAL_RECORD",
+        transcription: "Hari Prasad, born 3 March 1850",
+        createdAt: createdAt.toISOString(),
+      });
+      expect(result.media).toMatchObject({ id: "media-1" });
+      expect(result.suggestions).toHaveLength(1);
+      expect(result.suggestions[0]).toMatchObject({
+        id: "suggestion-1",
+        submittedAt: createdAt.toISOString(),
+        sourceId: "source-1",
+        targetPerson: { firstName: "Hari" },
+        submittedBy: { name: "Asha" },
+      });
+    });
+
+    it("should return no document for a source without one", async () => {
+      const { db } = createDb({
+        source: {
+          id: "source-1",
+          title: "Notes",
+          sourceType: null,
+          mediaId: null,
+          transcription: null,
+          createdAt,
+        },
+      });
+
+      const result = await getDocumentExtractionData("source-1", db);
+
+      expect(result.media).toBeNull();
+      expect(db.query.mediaObjects.findFirst).not.toHaveBeenCalled();
+    });
+
+    it("should throw when the source is not found", async () => {
+      const { db } = createDb({ source: undefined });
+
+      await expect(getDocumentExtractionData("missing", db)).rejects.toThrow(
+        "Source not found"
+      );
+    });
+  });
+});
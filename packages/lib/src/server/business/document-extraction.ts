@@ -0,0 +1,545 @@
+/**
+ * Document Extraction Server Module - Business Logic for Reading Sources
+ *
+ * Certificates, census pages and letters uploaded as media can be read by
+ * the AI service, which transcribes them and picks out candidate facts.
+ * Nothing changes in the tree directly: the document becomes a Source
+ * holding the transcription, and each fact becomes a pending suggestion
+ * linked to it, for an administrator to review next to the document.
+ *
+ * Facts the tree already records are left out, as are facts that can't
+ * become a change (an event or relationship of someone not in the tree).
+ *
+ * Exported Functions:
+ * - loadDocumentForExtractionData: A media file prepared for the AI service
+ * - fileExtractedFactsData: Create the Source and a suggestion per fact
+ * - getDocumentExtractionData: A Source with its document and suggestions
+ */
+
+import { and, eq } from "drizzle-orm";
+import { getStorageProvider, mediaPathToStorageKey } from "@vamsa/api/storage";
+import { isApproximateDate, parseGenealogicalDate } from "@vamsa/lib";
+import { readPdfText } from "@vamsa/lib/media/file-info";
+import { getMediaKind } from "@vamsa/lib/media/media-kinds";
+import {
+  generateDocumentImage,
+  renderPdfFirstPage,
+} from "@vamsa/lib/media/processor";
+import { loggers } from "@vamsa/lib/logger";
+import { drizzleDb, drizzleSchema } from "../db";
+import { notifySuggestionCreated } from "./notifications";
+import type { SuggestionListResult } from "./suggestions";
+import type { GenealogicalDate } from "@vamsa/lib";
+import type { SourceType, SuggestionType } from "@vamsa/schemas";
+import type { ExtractRequest, ExtractResult, ExtractedFact } from "../../ai";
+
+const log = loggers.db;
+
+/** Type for the database instance (for DI) */
+export type DocumentExtractionDb = typeof drizzleDb;
+
+/** Most characters of PDF text sent to the AI service */
+export const MAX_DOCUMENT_TEXT_LENGTH = 100_000;
+
+// Images the AI service accepts as they are, when they can't be converted
+const MODEL_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"] as const;
+
+/**
+ * A document ready to send to the AI service
+ */
+export interface DocumentForExtraction {
+  mediaId: string;
+  request: ExtractRequest;
+}
+
+export interface DocumentExtractionFilingResult {
+  sourceId: string;
+  /** Suggestions filed for review */
+  suggestionCount: number;
+  /** Facts the tree already records or that can't become a change */
+  skippedCount: number;
+}
+
+export interface DocumentExtractionDetail {
+  source: {
+    id: string;
+    title: string;
+    sourceType: string | null;
+    transcription: string | null;
+    createdAt: string;
+  };
+  media: {
+    id: string;
+    title: string | null;
+    filePath: string;
+    mimeType: string;
+    webpPath: string | null;
+  } | null;
+  /** Suggestions filed from the document, as the suggestions list shows them */
+  suggestions: SuggestionListResult["items"];
+}
+
+/**
+ * Load a media file and prepare it for the AI service
+ *
+ * Images are sent as a JPEG no larger than the model needs. PDFs are sent
+ * as the text of their text layer, or as an image of their first page
+ * when they are scans without one.
+ *
+ * @param mediaId - Media object holding the document
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @returns The request to send to the AI service
+ * @throws Error if the media is missing or isn't an image or PDF
+ */
+export async function loadDocumentForExtractionData(
+  mediaId: string,
+  db: DocumentExtractionDb = drizzleDb
+): Promise<DocumentForExtraction> {
+  const media = await db.query.mediaObjects.findFirst({
+    where: eq(drizzleSchema.mediaObjects.id, mediaId),
+  });
+  if (!media) {
+    throw new Error("Media not found");
+  }
+
+  const kind = getMediaKind(media.mimeType);
+  if (kind !== "image" && kind !== "document") {
+    throw new Error("Only images and PDF documents can be read");
+  }
+
+  const storage = await getStorageProvider();
+  const file = await storage.get(mediaPathToStorageKey(media.filePath));
+  if (!file) {
+    throw new Error("Media file not found");
+  }
+
+  // The person the document was uploaded for helps match the names in it
+  const link = await db.query.personMedias.findFirst({
+    where: eq(drizzleSchema.personMedias.mediaId, mediaId),
+    with: {
+      person: { columns: { id: true, firstName: true, lastName: true } },
+    },
+  });
+  const request: ExtractRequest = {
+    fileName: media.title ?? undefined,
+    personId: link?.person?.id,
+    personName: link?.person
+      ? `${link.person.firstName} ${link.person.lastName}`.trim()
+      : undefined,
+  };
+
+  if (kind === "document") {
+    const text = readPdfText(file.data);
+    if (text) {
+      return {
+        mediaId,
+        request: { ...request, text: text.slice(0, MAX_DOCUMENT_TEXT_LENGTH) },
+      };
+    }
+    const page = await renderPdfFirstPage(file.data);
+    return {
+      mediaId,
+      request: {
+        ...request,
+        image: { data: page.buffer.toString("base64"), mediaType: "image/png" },
+      },
+    };
+  }
+
+  try {
+    const image = await generateDocumentImage(file.data);
+    return {
+      mediaId,
+      request: {
+        ...request,
+        image: {
+          data: image.buffer.toString("base64"),
+          mediaType: "image/jpeg",
+        },
+      },
+    };
+  } catch (error) {
+    // Without sharp, formats the model reads are sent as they are
+    const mediaType = MODEL_IMAGE_TYPES.find((type) => type === media.mimeType);
+    if (!mediaType) throw error;
+    log.withErr(error).msg("Sending document image without converting it");
+    return {
+      mediaId,
+      request: {
+        ...request,
+        image: { data: file.data.toString("base64"), mediaType },
+      },
+    };
+  }
+}
+
+/**
+ * Source type for the kind of document the AI service saw
+ */
+export function toSourceType(documentType: string): SourceType {
+  const type = documentType.toLowerCase();
+  if (/certificate|register|record/.test(type)) return "VITAL_RECORD";
+  if (type.includes("census")) return "CENSUS";
+  if (type.includes("letter")) return "LETTER";
+  return "OTHER";
+}
+
+/**
+ * Date columns for a date as written in a document: an exact day as an
+ * ISO date, anything vaguer ("1850", "ABT 1850") as a GenealogicalDate
+ */
+function toSuggestedDate(
+  text: string | null | undefined
+): { date: string | null; detail: GenealogicalDate | null } | null {
+  const parsed = parseGenealogicalDate(text);
+  if (!parsed) return null;
+  if (isApproximateDate(parsed) || parsed.calendar !== "GREGORIAN") {
+    return { date: null, detail: parsed };
+  }
+  const { year, month = 1, day = 1 } = parsed.start;
+  const pad = (value: number, length: number) =>
+    String(value).padStart(length, "0");
+  return {
+    date: `${pad(year, 4)}-${pad(month, 2)}-${pad(day, 2)}`,
+    detail: null,
+  };
+}
+
+function sameText(a: string | null | undefined, b: string) {
+  return (a ?? "").trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+type ExistingPerson = typeof drizzleSchema.persons.$inferSelect;
+
+const PERSON_TEXT_FIELDS = [
+  "firstName",
+  "lastName",
+  "maidenName",
+  "gender",
+  "birthPlace",
+  "nativePlace",
+  "profession",
+] as const;
+
+const PERSON_DATE_FIELDS = [
+  ["dateOfBirth", "dateOfBirthDetail"],
+  ["dateOfPassing", "dateOfPassingDetail"],
+] as const;
+
+/**
+ * Person columns a fact gives values for, leaving out what the existing
+ * record already holds
+ */
+function toPersonData(
+  fields: Extract<ExtractedFact, { kind: "person" }>["fields"],
+  existing: ExistingPerson | null
+): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+
+  for (const field of PERSON_TEXT_FIELDS) {
+    const value = fields[field];
+    if (value && !(existing && sameText(existing[field], value))) {
+      data[field] = value;
+    }
+  }
+
+  for (const [field, detailField] of PERSON_DATE_FIELDS) {
+    const suggested = toSuggestedDate(fields[field]);
+    if (!suggested) continue;
+    const current = existing?.[field] ?? null;
+    if (suggested.detail) {
+      // A vaguer date never replaces one the tree already has
+      if (!current && !existing?.[detailField]) {
+        data[detailField] = suggested.detail;
+      }
+    } else if (current?.toISOString().slice(0, 10) !== suggested.date) {
+      data[field] = suggested.date;
+    }
+  }
+
+  if (fields.dateOfPassing && existing?.isLiving !== false) {
+    data.isLiving = false;
+  }
+
+  return data;
+}
+
+/**
+ * First and last name of a name as written, for people the fact doesn't
+ * split the name of
+ */
+function splitName(name: string): { firstName: string; lastName: string } {
+  const parts = name.trim().split(/\s+/);
+  if (parts.length === 1) return { firstName: parts[0], lastName: "" };
+  return {
+    firstName: parts.slice(0, -1).join(" "),
+    lastName: parts[parts.length - 1],
+  };
+}
+
+interface PlannedSuggestion {
+  type: SuggestionType;
+  targetPersonId: string | null;
+  suggestedData: Record<string, unknown>;
+  fact: ExtractedFact;
+}
+
+/**
+ * File the facts read from a document for review
+ *
+ * Creates a Source for the document, holding its transcription, and a
+ * pending suggestion per fact that would change the tree:
+ * - a person in the tree: an update with the values that differ
+ * - a person not in the tree: a new person
+ * - an event of a person in the tree: a new event
+ * - a relationship between two people in the tree: a new relationship
+ * Administrators are notified once for the whole document.
+ *
+ * @param mediaId - Media object holding the document
+ * @param result - What the AI service read from it
+ * @param userId - ID of the user who asked for the document to be read
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @returns The Source and how many facts were filed
+ */
+export async function fileExtractedFactsData(
+  mediaId: string,
+  result: ExtractResult,
+  userId: string,
+  db: DocumentExtractionDb = drizzleDb
+): Promise<DocumentExtractionFilingResult> {
+  const media = await db.query.mediaObjects.findFirst({
+    where: eq(drizzleSchema.mediaObjects.id, mediaId),
+    columns: { id: true, title: true },
+  });
+  if (!media) {
+    throw new Error("Media not found");
+  }
+
+  const title = result.title || media.title || "Untitled document";
+
+  // Only people that still exist keep their IDs
+  const personIds = new Set<string>();
+  for (const fact of result.facts) {
+    if (fact.personId) personIds.add(fact.personId);
+    if (fact.kind === "relationship" && fact.relatedPersonId) {
+      personIds.add(fact.relatedPersonId);
+    }
+  }
+  const people = new Map<string, ExistingPerson>();
+  for (const personId of personIds) {
+    const person = await db.query.persons.findFirst({
+      where: eq(drizzleSchema.persons.id, personId),
+    });
+    if (person) people.set(person.id, person);
+  }
+  const known = (id: string | null) => (id && people.has(id) ? id : null);
+
+  const planned: Array<PlannedSuggestion> = [];
+  let skippedCount = 0;
+
+  for (const fact of result.facts) {
+    const personId = known(fact.personId);
+    let suggestion: Omit<PlannedSuggestion, "fact"> | null = null;
+
+    if (fact.kind === "person") {
+      const existing = personId ? (people.get(personId) ?? null) : null;
+      const data = toPersonData(fact.fields, existing);
+      if (personId && Object.keys(data).length > 0) {
+        suggestion = {
+          type: "UPDATE",
+          targetPersonId: personId,
+          suggestedData: data,
+        };
+      } else if (!personId) {
+        suggestion = {
+          type: "CREATE",
+          targetPersonId: null,
+          suggestedData: { ...splitName(fact.personName), ...data },
+        };
+      }
+    } else if (fact.kind === "event" && personId) {
+      const date = toSuggestedDate(fact.date);
+      suggestion = {
+        type: "CREATE_EVENT",
+        targetPersonId: personId,
+        suggestedData: {
+          personId,
+          type: fact.eventType,
+          ...(date?.date ? { date: date.date } : {}),
+          ...(date?.detail ? { dateDetail: date.detail } : {}),
+          ...(fact.place ? { place: fact.place } : {}),
+          ...(fact.evidence ? { description: fact.evidence } : {}),
+        },
+      };
+    } else if (fact.kind === "relationship") {
+      const relatedPersonId = known(fact.relatedPersonId);
+      // "A is the PARENT of B" is stored on B: B's PARENT is A
+      if (
+        personId &&
+        relatedPersonId &&
+        personId !== relatedPersonId &&
+        !(await relationshipExists(
+          relatedPersonId,
+          personId,
+          fact.relationship,
+          db
+        ))
+      ) {
+        suggestion = {
+          type: "ADD_RELATIONSHIP",
+          targetPersonId: relatedPersonId,
+          suggestedData: {
+            personId: relatedPersonId,
+            relatedPersonId: personId,
+            type: fact.relationship,
+          },
+        };
+      }
+    }
+
+    if (suggestion) {
+      planned.push({ ...suggestion, fact });
+    } else {
+      skippedCount++;
+    }
+  }
+
+  const sourceId = crypto.randomUUID();
+  const now = new Date();
+
+  await db.transaction(async (tx) => {
+    await tx.insert(drizzleSchema.sources).values({
+      id: sourceId,
+      title,
+      sourceType: toSourceType(result.documentType),
+      description: result.documentType || null,
+      mediaId,
+      transcription: result.transcription || null,
+      updatedAt: now,
+    });
+
+    if (planned.length > 0) {
+      await tx.insert(drizzleSchema.suggestions).values(
+        planned.map(({ type, targetPersonId, suggestedData, fact }) => ({
+          id: crypto.randomUUID(),
+          type,
+          targetPersonId,
+          suggestedData,
+          reason: describeFact(title, fact),
+          submittedById: userId,
+          status: "PENDING" as const,
+          sourceId,
+          submittedAt: now,
+        }))
+      );
+    }
+  });
+
+  if (planned.length > 0) {
+    const first = await db.query.suggestions.findFirst({
+      where: eq(drizzleSchema.suggestions.sourceId, sourceId),
+      columns: { id: true },
+    });
+    if (first) await notifySuggestionCreated(first.id, db);
+  }
+
+  return { sourceId, suggestionCount: planned.length, skippedCount };
+}
+
+async function relationshipExists(
+  personId: string,
+  relatedPersonId: string,
+  type: Extract<ExtractedFact, { kind: "relationship" }>["relationship"],
+  db: DocumentExtractionDb
+): Promise<boolean> {
+  const existing = await db.query.relationships.findFirst({
+    where: and(
+      eq(drizzleSchema.relationships.personId, personId),
+      eq(drizzleSchema.relationships.relatedPersonId, relatedPersonId),
+      eq(drizzleSchema.relationships.type, type)
+    ),
+    columns: { id: true },
+  });
+  return !!existing;
+}
+
+/**
+ * Suggestion reason: where the fact was read and how sure the reading is
+ */
+function describeFact(title: string, fact: ExtractedFact): string {
+  const reading = `Read from "${title}" with ${fact.confidence} confidence`;
+  return fact.evidence ? `${reading}: "${fact.evidence}"` : reading;
+}
+
+/**
+ * Get a Source read from a document, with the document and the
+ * suggestions filed from it
+ * @param sourceId - Source created by fileExtractedFactsData
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @throws Error if the source is not found
+ */
+export async function getDocumentExtractionData(
+  sourceId: string,
+  db: DocumentExtractionDb = drizzleDb
+): Promise<DocumentExtractionDetail> {
+  const source = await db.query.sources.findFirst({
+    where: eq(drizzleSchema.sources.id, sourceId),
+  });
+  if (!source) {
+    throw new Error("Source not found");
+  }
+
+  const [media, suggestions] = await Promise.all([
+    source.mediaId
+      ? db.query.mediaObjects.findFirst({
+          where: eq(drizzleSchema.mediaObjects.id, source.mediaId),
+          columns: {
+            id: true,
+            title: true,
+            filePath: true,
+            mimeType: true,
+            webpPath: true,
+          },
+        })
+      : Promise.resolve(undefined),
+    db.query.suggestions.findMany({
+      where: eq(drizzleSchema.suggestions.sourceId, sourceId),
+      orderBy: (suggestions, { asc }) => [asc(suggestions.submittedAt)],
+      with: {
+        targetPerson: {
+          columns: { id: true, firstName: true, lastName: true },
+        },
+        submittedBy: { columns: { id: true, name: true, email: true } },
+        reviewedBy: { columns: { id: true, name: true, email: true } },
+      },
+    }),
+  ]);
+
+  return {
+    source: {
+      id: source.id,
+      title: source.title,
+      sourceType: source.sourceType,
+      transcription: source.transcription,
+      createdAt: source.createdAt.toISOString(),
+    },
+    media: media ?? null,
+    suggestions: suggestions.map((suggestion) => ({
+      id: suggestion.id,
+      type: suggestion.type,
+      targetPersonId: suggestion.targetPersonId,
+      suggestedData: (suggestion.suggestedData ?? {}) as {
+        [key: string]: NonNullable<unknown>;
+      },
+      reason: suggestion.reason,
+      status: suggestion.status,
+      submittedAt: suggestion.submittedAt.toISOString(),
+      reviewedAt: suggestion.reviewedAt?.toISOString() ?? null,
+      reviewNote: suggestion.reviewNote,
+      sourceId: suggestion.sourceId,
+      targetPerson: suggestion.targetPerson ?? null,
+      submittedBy: suggestion.submittedBy ?? { id: "", name: null, email: "" },
+      reviewedBy: suggestion.reviewedBy ?? null,
+    })),
+  };
+}
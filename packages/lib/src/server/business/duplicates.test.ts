@@ -0,0 +1,520 @@
+/**
+ * Unit tests for duplicate detection and merge business logic
+ *
+ * Tests cover:
+ * - scanForDuplicatesData: Queue new pairs and rescore pending ones
+ * - dismissDuplicateCandidateData: Review state checks
+ * - mergePersonsData: Field merging, re-pointing, conflict deletion, audit
+ * - undoMergeData: Restoring moved and deleted rows, refusing after later edits
+ *
+ * Uses a recording fake for database dependency injection.
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { drizzleSchema } from "@vamsa/api";
+import {
+  dismissDuplicateCandidateData,
+  mergePersonsData,
+  scanForDuplicatesData,
+  undoMergeData,
+} from "./duplicates";
+
+type Row = Record<string, unknown>;
+
+/**
+ * Fake Drizzle client that answers selects from per-table rows and records
+ * every write
+ */
+function createFakeDb(options: {
+  rows?: Map<unknown, Array<Row> | (() => Array<Row>)>;
+  conflicts?: Set<unknown>;
+  query?: Record<string, Array<Row | undefined>>;
+}) {
+  const writes: Array<{
+    op: "insert" | "update" | "delete";
+    table: unknown;
+    data?: unknown;
+  }> = [];
+
+  const findFirst = (name: string) =>
+    vi.fn(() => Promise.resolve(options.query?.[name]?.shift()));
+
+  const db = {
+    writes,
+    select: vi.fn((fields?: Record<string, unknown>) => ({
+      from: vi.fn((table: unknown) => {
+        // Selects with only an id are unique-conflict checks
+        const isConflictCheck =
+          fields !== undefined && Object.keys(fields).join() === "id";
+        const result = isConflictCheck
+          ? options.conflicts?.has(table)
+            ? [{ id: "existing" }]
+            : []
+          : typeof options.rows?.get(table) === "function"
+            ? (options.rows.get(table) as () => Array<Row>)()
+            : ((options.rows?.get(table) as Array<Row> | undefined) ?? []);
+        const promise = Promise.resolve(result);
+        return Object.assign(promise, {
+          where: vi.fn(() =>
+            Object.assign(Promise.resolve(result), {
+              limit: vi.fn(() => Promise.resolve(result)),
+              orderBy: vi.fn(() => Promise.resolve(result)),
+            })
+          ),
+        });
+      }),
+    })),
+    insert: vi.fn((table: unknown) => ({
+      values: vi.fn((data: unknown) => {
+        writes.push({ op: "insert", table, data });
+        return Promise.resolve();
+      }),
+    })),
+    update: vi.fn((table: unknown) => ({
+      set: vi.fn((data: unknown) => ({
+        where: vi.fn(() => {
+          writes.push({ op: "update", table, data });
+          return Promise.resolve();
+        }),
+      })),
+    })),
+    delete: vi.fn((table: unknown) => ({
+      where: vi.fn(() => {
+        writes.push({ op: "delete", table });
+        return Promise.resolve();
+      }),
+    })),
+    query: {
+      persons: { findFirst: findFirst("persons") },
+      duplicateCandidates: { findFirst: findFirst("duplicateCandidates") },
+      auditLogs: { findFirst: findFirst("auditLogs") },
+    },
+    transaction: vi.fn((fn: (tx: unknown) => Promise<unknown>) => fn(db)),
+  };
+
+  return db;
+}
+
+const makePerson = (id: string, overrides: Row = {}): Row => ({
+  id,
+  firstName: "Ramesh",
+  lastName: "Sharma",
+  maidenName: null,
+  dateOfBirth: null,
+  dateOfPassing: null,
+  birthPlace: null,
+  gender: "MALE",
+  bio: null,
+  isLiving: true,
+  createdAt: new Date("2024-01-01"),
+  updatedAt: new Date("2024-01-01"),
+  createdById: null,
+  deletedAt: null,
+  ...overrides,
+});
+
+const writesTo = (
+  db: ReturnType<typeof createFakeDb>,
+  op: string,
+  table: unknown
+) => db.writes.filter((w) => w.op === op && w.table === table);
+
+describe("Duplicates Business Logic", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("scanForDuplicatesData", () => {
+    it("should queue new pairs and rescore pending ones", async () => {
+      const db = createFakeDb({
+        rows: new Map<unknown, Array<Row>>([
+          [
+            drizzleSchema.persons,
+            [
+              makePerson("a", { dateOfBirth: new Date("1901-03-04") }),
+              makePerson("b", { dateOfBirth: new Date("1901-03-04") }),
+              makePerson("c", { firstName: "Sunil", lastName: "Shetty" }),
+              makePerson("d", { firstName: "Sunil", lastName: "Shetty" }),
+            ],
+          ],
+          [drizzleSchema.relationships, []],
+          [
+            drizzleSchema.duplicateCandidates,
+            [
+              {
+                id: "cand_ab",
+                personId: "a",
+                duplicatePersonId: "b",
+                status: "PENDING",
+              },
+            ],
+          ],
+        ]),
+      });
+
+      const result = await scanForDuplicatesData(40, db as any);
+
+      expect(result).toEqual({ found: 2, created: 1, updated: 1 });
+      const inserted = writesTo(
+        db,
+        "insert",
+        drizzleSchema.duplicateCandidates
+      );
+      expect(inserted[0].data).toMatchObject({
+        personId: "c",
+        duplicatePersonId: "d",
+        score: 40,
+        status: "PENDING",
+      });
+    });
+
+    it("should leave dismissed pairs alone", async () => {
+      const db = createFakeDb({
+        rows: new Map<unknown, Array<Row>>([
+          [
+            drizzleSchema.persons,
+            [
+              makePerson("a", { dateOfBirth: new Date("1901-03-04") }),
+              makePerson("b", { dateOfBirth: new Date("1901-03-04") }),
+            ],
+          ],
+          [
+            drizzleSchema.duplicateCandidates,
+            [
+              {
+                id: "cand_ab",
+                personId: "a",
+                duplicatePersonId: "b",
+                status: "DISMISSED",
+              },
+            ],
+          ],
+        ]),
+      });
+
+      const result = await scanForDuplicatesData(undefined, db as any);
+
+      expect(result).toEqual({ found: 1, created: 0, updated: 0 });
+      expect(db.writes).toHaveLength(0);
+    });
+  });
+
+  describe("dismissDuplicateCandidateData", () => {
+    it("should throw when the candidate is missing", async () => {
+      const db = createFakeDb({});
+
+      await expect(
+        dismissDuplicateCandidateData("missing", "admin_1", db as any)
+      ).rejects.toThrow("Duplicate candidate not found");
+    });
+
+    it("should throw when the candidate was already reviewed", async () => {
+      const db = createFakeDb({
+        query: { duplicateCandidates: [{ id: "cand_1", status: "MERGED" }] },
+      });
+
+      await expect(
+        dismissDuplicateCandidateData("cand_1", "admin_1", db as any)
+      ).rejects.toThrow("Duplicate candidate has already been reviewed");
+    });
+
+    it("should mark a pending candidate as dismissed", async () => {
+      const db = createFakeDb({
+        query: { duplicateCandidates: [{ id: "cand_1", status: "PENDING" }] },
+      });
+
+      await dismissDuplicateCandidateData("cand_1", "admin_1", db as any);
+
+      expect(
+        writesTo(db, "update", drizzleSchema.duplicateCandidates)[0].data
+      ).toMatchObject({ status: "DISMISSED", reviewedById: "admin_1" });
+    });
+  });
+
+  describe("mergePersonsData", () => {
+    it("should refuse to merge a person with itself", async () => {
+      const db = createFakeDb({});
+
+      await expect(
+        mergePersonsData("a", "a", "admin_1", {}, db as any)
+      ).rejects.toThrow("Cannot merge a person with itself");
+    });
+
+    it("should throw when a person is missing", async () => {
+      const db = createFakeDb({
+        query: { persons: [makePerson("a"), undefined] },
+      });
+
+      await expect(
+        mergePersonsData("a", "b", "admin_1", {}, db as any)
+      ).rejects.toThrow("Person not found");
+    });
+
+    it("should refuse when both persons are claimed", async () => {
+      const db = createFakeDb({
+        query: { persons: [makePerson("a"), makePerson("b")] },
+        rows: new Map([
+          [drizzleSchema.users, [{ personId: "a" }, { personId: "b" }]],
+        ]),
+      });
+
+      await expect(
+        mergePersonsData("a", "b", "admin_1", {}, db as any)
+      ).rejects.toThrow("both claimed by user accounts");
+    });
+
+    it("should move references, drop conflicts and record an audit entry", async () => {
+      const keep = makePerson("a", { bio: null, birthPlace: "Pune" });
+      const merge = makePerson("b", {
+        bio: "Farmer",
+        birthPlace: "Mumbai",
+        dateOfBirth: new Date("1901-03-04"),
+      });
+      const db = createFakeDb({
+        query: {
+          persons: [keep, merge],
+          duplicateCandidates: [{ id: "cand_ab", status: "PENDING" }],
+        },
+        rows: new Map<unknown, Array<Row> | (() => Array<Row>)>([
+          [
+            drizzleSchema.relationships,
+            // Only the personId pass finds rows; nothing points back at b
+            vi
+              .fn<() => Array<Row>>()
+              .mockReturnValueOnce([
+                // Spouse link between the two records is dropped
+                {
+                  id: "rel_self",
+                  personId: "b",
+                  relatedPersonId: "a",
+                  type: "SPOUSE",
+                },
+                {
+                  id: "rel_1",
+                  personId: "b",
+                  relatedPersonId: "p",
+                  type: "CHILD",
+                },
+              ])
+              .mockReturnValue([]),
+          ],
+          [drizzleSchema.events, [{ id: "event_1", personId: "b" }]],
+          [
+            drizzleSchema.personMedias,
+            [{ id: "pm_1", personId: "b", mediaId: "media_1" }],
+          ],
+        ]),
+        // The kept person already has media_1
+        conflicts: new Set([drizzleSchema.personMedias]),
+      });
+
+      const result = await mergePersonsData(
+        "a",
+        "b",
+        "admin_1",
+        { birthPlace: "merge" },
+        db as any
+      );
+
+      expect(result).toMatchObject({
+        keptPersonId: "a",
+        mergedPersonId: "b",
+        candidateId: "cand_ab",
+      });
+
+      const audit = writesTo(db, "insert", drizzleSchema.auditLogs)[0]
+        .data as Row;
+      expect(audit).toMatchObject({
+        id: result.auditLogId,
+        action: "MERGE",
+        entityType: "Person",
+        entityId: "a",
+        previousData: { kept: keep, merged: merge },
+      });
+      const newData = audit.newData as Row;
+      expect(newData.fields).toEqual({
+        bio: "Farmer",
+        birthPlace: "Mumbai",
+        dateOfBirth: new Date("1901-03-04"),
+      });
+      expect(newData.repointed).toEqual([
+        { table: "relationships", column: "personId", ids: ["rel_1"] },
+        { table: "events", column: "personId", ids: ["event_1"] },
+      ]);
+      expect(newData.deleted).toEqual([
+        {
+          table: "relationships",
+          rows: [
+            {
+              id: "rel_self",
+              personId: "b",
+              relatedPersonId: "a",
+              type: "SPOUSE",
+            },
+          ],
+        },
+        {
+          table: "personMedias",
+          rows: [{ id: "pm_1", personId: "b", mediaId: "media_1" }],
+        },
+      ]);
+
+      const personUpdates = writesTo(db, "update", drizzleSchema.persons);
+      expect(personUpdates[1].data).toMatchObject({
+        deletedAt: expect.any(Date),
+      });
+      expect(
+        writesTo(db, "update", drizzleSchema.duplicateCandidates)[0].data
+      ).toMatchObject({ status: "MERGED", auditLogId: result.auditLogId });
+    });
+  });
+
+  describe("undoMergeData", () => {
+    const mergedCandidate = {
+      id: "cand_ab",
+      status: "MERGED",
+      auditLogId: "audit_1",
+    };
+    const auditLog = {
+      id: "audit_1",
+      action: "MERGE",
+      entityId: "a",
+      previousData: {
+        kept: { id: "a", bio: null, dateOfBirth: null },
+        merged: { id: "b" },
+      },
+      newData: {
+        mergedPersonId: "b",
+        candidateId: "cand_ab",
+        fields: { bio: "Farmer", dateOfBirth: "1901-03-04T00:00:00.000Z" },
+        repointed: [{ table: "events", column: "personId", ids: ["event_1"] }],
+        deleted: [
+          {
+            table: "personMedias",
+            rows: [
+              {
+                id: "pm_1",
+                personId: "b",
+                mediaId: "media_1",
+                createdAt: "2024-01-01T00:00:00.000Z",
+              },
+            ],
+          },
+        ],
+      },
+    };
+
+    it("should throw when the candidate was not merged", async () => {
+      const db = createFakeDb({
+        query: { duplicateCandidates: [{ id: "cand_ab", status: "PENDING" }] },
+      });
+
+      await expect(
+        undoMergeData("cand_ab", "admin_1", db as any)
+      ).rejects.toThrow("Duplicate candidate has not been merged");
+    });
+
+    it("should throw when the merge was already undone", async () => {
+      const db = createFakeDb({
+        query: {
+          duplicateCandidates: [mergedCandidate],
+          auditLogs: [auditLog],
+          persons: [makePerson("b")],
+        },
+      });
+
+      await expect(
+        undoMergeData("cand_ab", "admin_1", db as any)
+      ).rejects.toThrow("Merge has already been undone");
+    });
+
+    // The kept person and moved event as the merge left them
+    const keptAfterMerge = makePerson("a", {
+      bio: "Farmer",
+      dateOfBirth: new Date("1901-03-04"),
+    });
+    const movedEvents = new Map<unknown, Array<Row>>([
+      [drizzleSchema.events, [{ id: "event_1", personId: "a" }]],
+    ]);
+
+    it("should restore moved and deleted rows and both persons", async () => {
+      const db = createFakeDb({
+        rows: movedEvents,
+        query: {
+          duplicateCandidates: [mergedCandidate],
+          auditLogs: [auditLog],
+          persons: [makePerson("b", { deletedAt: new Date() }), keptAfterMerge],
+        },
+      });
+
+      await undoMergeData("cand_ab", "admin_1", db as any);
+
+      expect(writesTo(db, "update", drizzleSchema.events)[0].data).toEqual({
+        personId: "b",
+      });
+      expect(
+        writesTo(db, "insert", drizzleSchema.personMedias)[0].data
+      ).toEqual([
+        expect.objectContaining({
+          id: "pm_1",
+          personId: "b",
+          mediaId: "media_1",
+        }),
+      ]);
+
+      const personUpdates = writesTo(db, "update", drizzleSchema.persons);
+      expect(personUpdates[0].data).toMatchObject({
+        bio: null,
+        dateOfBirth: null,
+      });
+      expect(personUpdates[1].data).toMatchObject({ deletedAt: null });
+      expect(
+        writesTo(db, "update", drizzleSchema.duplicateCandidates)[0].data
+      ).toMatchObject({ status: "PENDING", auditLogId: null });
+      expect(
+        writesTo(db, "insert", drizzleSchema.auditLogs)[0].data
+      ).toMatchObject({ action: "UPDATE", entityId: "a" });
+    });
+
+    it("should refuse when the kept person was edited after the merge", async () => {
+      const db = createFakeDb({
+        rows: movedEvents,
+        query: {
+          duplicateCandidates: [mergedCandidate],
+          auditLogs: [auditLog],
+          persons: [
+            makePerson("b", { deletedAt: new Date() }),
+            { ...keptAfterMerge, bio: "Farmer and schoolteacher" },
+          ],
+        },
+      });
+
+      await expect(
+        undoMergeData("cand_ab", "admin_1", db as any)
+      ).rejects.toThrow(
+        "Cannot undo the merge because these changed after it: bio"
+      );
+      expect(db.writes).toEqual([]);
+    });
+
+    it("should refuse when a moved row was moved again after the merge", async () => {
+      const db = createFakeDb({
+        rows: new Map<unknown, Array<Row>>([
+          [drizzleSchema.events, [{ id: "event_1", personId: "c" }]],
+        ]),
+        query: {
+          duplicateCandidates: [mergedCandidate],
+          auditLogs: [auditLog],
+          persons: [makePerson("b", { deletedAt: new Date() }), keptAfterMerge],
+        },
+      });
+
+      await expect(
+        undoMergeData("cand_ab", "admin_1", db as any)
+      ).rejects.toThrow(
+        "Cannot undo the merge because these changed after it: events event_1"
+      );
+      expect(db.writes).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,849 @@
+import { drizzleDb, drizzleSchema } from "@vamsa/api";
+import { and, desc, eq, inArray, isNull } from "drizzle-orm";
+import { findDuplicateCandidates, scoreDuplicatePair } from "@vamsa/lib";
+import type { Column } from "drizzle-orm";
+import type { DuplicateCheckPerson } from "@vamsa/lib";
+import type { DuplicateStatus, MergeFieldChoice } from "@vamsa/schemas";
+import type { PersonDbOrTx } from "./persons";
+
+/** Type for the database instance (for DI) */
+export type DuplicatesDb = typeof drizzleDb;
+
+/**
+ * Person summary shown in the duplicate review queue
+ */
+export interface DuplicatePersonSummary {
+  id: string;
+  firstName: string;
+  lastName: string;
+  maidenName: string | null;
+  dateOfBirth: string | null;
+  dateOfPassing: string | null;
+  birthPlace: string | null;
+  gender: string | null;
+  isLiving: boolean;
+  deletedAt: string | null;
+}
+
+/**
+ * Duplicate candidate with both persons
+ */
+export interface DuplicateCandidateItem {
+  id: string;
+  score: number;
+  reasons: Array<string>;
+  status: DuplicateStatus;
+  reviewedAt: string | null;
+  createdAt: string;
+  person: DuplicatePersonSummary | null;
+  duplicatePerson: DuplicatePersonSummary | null;
+}
+
+/**
+ * Result of scanning for duplicates
+ */
+export interface DuplicateScanResult {
+  found: number;
+  created: number;
+  updated: number;
+}
+
+/**
+ * Result of merging two persons
+ */
+export interface MergePersonsResult {
+  keptPersonId: string;
+  mergedPersonId: string;
+  candidateId: string;
+  auditLogId: string;
+}
+
+/**
+ * Rows re-pointed from the merged person to the kept person
+ */
+interface RepointedRows {
+  table: ReferenceTableName;
+  column: string;
+  ids: Array<string>;
+}
+
+/**
+ * Rows deleted because re-pointing them would break a unique constraint
+ * or link the kept person to itself
+ */
+interface DeletedRows {
+  table: ReferenceTableName;
+  rows: Array<Record<string, unknown>>;
+}
+
+/**
+ * Shape of AuditLog.newData for a MERGE entry
+ */
+interface MergeAuditData {
+  mergedPersonId: string;
+  candidateId: string;
+  fields: Record<string, unknown>;
+  repointed: Array<RepointedRows>;
+  deleted: Array<DeletedRows>;
+}
+
+/**
+ * Tables that hold a person ID and must follow a merge
+ */
+const REFERENCE_TABLES = {
+  relationships: drizzleSchema.relationships,
+  events: drizzleSchema.events,
+  eventParticipants: drizzleSchema.eventParticipants,
+  eventSources: drizzleSchema.eventSources,
+  eventMedias: drizzleSchema.eventMedias,
+  personMedias: drizzleSchema.personMedias,
+  placePersonLinks: drizzleSchema.placePersonLinks,
+  researchNotes: drizzleSchema.researchNotes,
+  invites: drizzleSchema.invites,
+  suggestions: drizzleSchema.suggestions,
+  users: drizzleSchema.users,
+  duplicateCandidates: drizzleSchema.duplicateCandidates,
+};
+
+type ReferenceTableName = keyof typeof REFERENCE_TABLES;
+
+/**
+ * How each person reference is moved
+ *
+ * - uniqueWith: other columns of a unique constraint; a row whose key already
+ *   exists for the kept person is deleted instead of moved
+ * - selfColumn: column holding the other person of a link; a row linking the
+ *   two persons being merged is deleted
+ * - deleteAll: rows are deleted rather than moved
+ */
+const PERSON_REFERENCES: Array<{
+  table: ReferenceTableName;
+  column: string;
+  uniqueWith?: Array<string>;
+  selfColumn?: string;
+  deleteAll?: boolean;
+}> = [
+  {
+    table: "relationships",
+    column: "personId",
+    uniqueWith: ["relatedPersonId", "type"],
+    selfColumn: "relatedPersonId",
+  },
+  {
+    table: "relationships",
+    column: "relatedPersonId",
+    uniqueWith: ["personId", "type"],
+    selfColumn: "personId",
+  },
+  { table: "events", column: "personId" },
+  { table: "eventParticipants", column: "personId", uniqueWith: ["eventId"] },
+  {
+    table: "eventSources",
+    column: "personId",
+    uniqueWith: ["sourceId", "eventType"],
+  },
+  {
+    table: "eventMedias",
+    column: "personId",
+    uniqueWith: ["mediaId", "eventType"],
+  },
+  { table: "personMedias", column: "personId", uniqueWith: ["mediaId"] },
+  {
+    table: "placePersonLinks",
+    column: "personId",
+    uniqueWith: ["placeId", "type"],
+  },
+  { table: "researchNotes", column: "personId" },
+  { table: "invites", column: "personId" },
+  { table: "suggestions", column: "targetPersonId" },
+  { table: "users", column: "personId" },
+  // Other candidates involving the merged person are moot once it is gone
+  { table: "duplicateCandidates", column: "personId", deleteAll: true },
+  {
+    table: "duplicateCandidates",
+    column: "duplicatePersonId",
+    deleteAll: true,
+  },
+];
+
+/**
+ * Person columns an admin can pick between when merging
+ */
+export const MERGEABLE_PERSON_FIELDS = [
+  "firstName",
+  "lastName",
+  "maidenName",
+  "dateOfBirth",
+  "dateOfBirthDetail",
+  "dateOfPassing",
+  "dateOfPassingDetail",
+  "birthPlace",
+  "nativePlace",
+  "gender",
+  "photoUrl",
+  "bio",
+  "email",
+  "phone",
+  "currentAddress",
+  "workAddress",
+  "profession",
+  "employer",
+  "socialLinks",
+  "isLiving",
+  "privacy",
+] as const;
+
+function columnsOf(table: ReferenceTableName): Record<string, Column> {
+  return REFERENCE_TABLES[table] as unknown as Record<string, Column>;
+}
+
+/**
+ * Turn ISO strings from a JSON snapshot back into Dates for date columns
+ */
+function reviveDates(
+  columns: Record<string, Column>,
+  row: Record<string, unknown>
+): Record<string, unknown> {
+  const revived: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(row)) {
+    revived[key] =
+      columns[key]?.dataType === "date" && typeof value === "string"
+        ? new Date(value)
+        : value;
+  }
+  return revived;
+}
+
+function toIsoDate(value: Date | null): string | null {
+  return value ? value.toISOString().split("T")[0] : null;
+}
+
+/**
+ * Order a pair so each one has a single DuplicateCandidate row
+ */
+function orderPair(a: string, b: string): [string, string] {
+  return a < b ? [a, b] : [b, a];
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === "";
+}
+
+/**
+ * Scan all persons for likely duplicates and queue them for review
+ *
+ * Scoring runs in JS (see {@link findDuplicateCandidates}) using the same
+ * trigram similarity as pg_trgm, so it works on SQLite too. Pending
+ * candidates are rescored; dismissed and merged pairs are left alone.
+ *
+ * @param minScore - Minimum score to queue (defaults to the library default)
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @returns Counts of matching pairs, new candidates and rescored candidates
+ */
+export async function scanForDuplicatesData(
+  minScore?: number,
+  db: DuplicatesDb = drizzleDb
+): Promise<DuplicateScanResult> {
+  const persons = await db
+    .select({
+      id: drizzleSchema.persons.id,
+      firstName: drizzleSchema.persons.firstName,
+      lastName: drizzleSchema.persons.lastName,
+      maidenName: drizzleSchema.persons.maidenName,
+      dateOfBirth: drizzleSchema.persons.dateOfBirth,
+      dateOfPassing: drizzleSchema.persons.dateOfPassing,
+      birthPlace: drizzleSchema.persons.birthPlace,
+      gender: drizzleSchema.persons.gender,
+    })
+    .from(drizzleSchema.persons)
+    .where(isNull(drizzleSchema.persons.deletedAt));
+
+  const relationships = await db
+    .select({
+      personId: drizzleSchema.relationships.personId,
+      relatedPersonId: drizzleSchema.relationships.relatedPersonId,
+    })
+    .from(drizzleSchema.relationships);
+
+  const relatives = new Map<string, Array<string>>();
+  for (const rel of relationships) {
+    relatives.set(rel.personId, [
+      ...(relatives.get(rel.personId) ?? []),
+      rel.relatedPersonId,
+    ]);
+    relatives.set(rel.relatedPersonId, [
+      ...(relatives.get(rel.relatedPersonId) ?? []),
+      rel.personId,
+    ]);
+  }
+
+  const matches = findDuplicateCandidates(
+    persons.map(
+      (person): DuplicateCheckPerson => ({
+        ...person,
+        relativeIds: relatives.get(person.id) ?? [],
+      })
+    ),
+    minScore
+  );
+
+  const existing = await db
+    .select({
+      id: drizzleSchema.duplicateCandidates.id,
+      personId: drizzleSchema.duplicateCandidates.personId,
+      duplicatePersonId: drizzleSchema.duplicateCandidates.duplicatePersonId,
+      status: drizzleSchema.duplicateCandidates.status,
+    })
+    .from(drizzleSchema.duplicateCandidates);
+  const existingByPair = new Map(
+    existing.map((row) => [`${row.personId}:${row.duplicatePersonId}`, row])
+  );
+
+  let created = 0;
+  let updated = 0;
+
+  for (const match of matches) {
+    const current = existingByPair.get(
+      `${match.personId}:${match.duplicatePersonId}`
+    );
+
+    if (!current) {
+      await db.insert(drizzleSchema.duplicateCandidates).values({
+        id: crypto.randomUUID(),
+        personId: match.personId,
+        duplicatePersonId: match.duplicatePersonId,
+        score: match.score,
+        reasons: match.reasons,
+        status: "PENDING",
+      });
+      created++;
+    } else if (current.status === "PENDING") {
+      await db
+        .update(drizzleSchema.duplicateCandidates)
+        .set({ score: match.score, reasons: match.reasons })
+        .where(eq(drizzleSchema.duplicateCandidates.id, current.id));
+      updated++;
+    }
+  }
+
+  return { found: matches.length, created, updated };
+}
+
+/**
+ * List duplicate candidates with both persons, highest score first
+ *
+ * @param status - Candidate status to list (default: PENDING)
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @returns Candidates with person summaries
+ */
+export async function listDuplicateCandidatesData(
+  status: DuplicateStatus = "PENDING",
+  db: DuplicatesDb = drizzleDb
+): Promise<Array<DuplicateCandidateItem>> {
+  const candidates = await db
+    .select()
+    .from(drizzleSchema.duplicateCandidates)
+    .where(eq(drizzleSchema.duplicateCandidates.status, status))
+    .orderBy(
+      desc(drizzleSchema.duplicateCandidates.score),
+      desc(drizzleSchema.duplicateCandidates.createdAt)
+    );
+
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  const personIds = [
+    ...new Set(candidates.flatMap((c) => [c.personId, c.duplicatePersonId])),
+  ];
+  const persons = await db
+    .select()
+    .from(drizzleSchema.persons)
+    .where(inArray(drizzleSchema.persons.id, personIds));
+
+  const summaries = new Map(
+    persons.map((person): [string, DuplicatePersonSummary] => [
+      person.id,
+      {
+        id: person.id,
+        firstName: person.firstName,
+        lastName: person.lastName,
+        maidenName: person.maidenName,
+        dateOfBirth: toIsoDate(person.dateOfBirth),
+        dateOfPassing: toIsoDate(person.dateOfPassing),
+        birthPlace: person.birthPlace,
+        gender: person.gender,
+        isLiving: person.isLiving,
+        deletedAt: person.deletedAt?.toISOString() ?? null,
+      },
+    ])
+  );
+
+  return candidates.map((candidate) => ({
+    id: candidate.id,
+    score: candidate.score,
+    reasons: candidate.reasons as Array<string>,
+    status: candidate.status,
+    reviewedAt: candidate.reviewedAt?.toISOString() ?? null,
+    createdAt: candidate.createdAt.toISOString(),
+    person: summaries.get(candidate.personId) ?? null,
+    duplicatePerson: summaries.get(candidate.duplicatePersonId) ?? null,
+  }));
+}
+
+/**
+ * Mark a candidate as not a duplicate so scans stop suggesting it
+ *
+ * @param candidateId - ID of the candidate to dismiss
+ * @param userId - ID of the reviewing admin
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @returns Success status
+ * @throws Error if the candidate is not found or not pending
+ */
+export async function dismissDuplicateCandidateData(
+  candidateId: string,
+  userId: string,
+  db: DuplicatesDb = drizzleDb
+): Promise<{ success: boolean }> {
+  const candidate = await db.query.duplicateCandidates.findFirst({
+    where: eq(drizzleSchema.duplicateCandidates.id, candidateId),
+  });
+
+  if (!candidate) {
+    throw new Error("Duplicate candidate not found");
+  }
+
+  if (candidate.status !== "PENDING") {
+    throw new Error("Duplicate candidate has already been reviewed");
+  }
+
+  await db
+    .update(drizzleSchema.duplicateCandidates)
+    .set({ status: "DISMISSED", reviewedById: userId, reviewedAt: new Date() })
+    .where(eq(drizzleSchema.duplicateCandidates.id, candidateId));
+
+  return { success: true };
+}
+
+/**
+ * Move every reference from one person to another inside a transaction
+ *
+ * @returns Moved row IDs and snapshots of deleted rows, for undo
+ */
+async function repointReferences(
+  mergeId: string,
+  keepId: string,
+  excludeCandidateId: string,
+  tx: PersonDbOrTx
+): Promise<{ repointed: Array<RepointedRows>; deleted: Array<DeletedRows> }> {
+  const repointed: Array<RepointedRows> = [];
+  const deleted: Array<DeletedRows> = [];
+
+  for (const reference of PERSON_REFERENCES) {
+    const table = REFERENCE_TABLES[reference.table];
+    const columns = columnsOf(reference.table);
+    const column = columns[reference.column];
+
+    const rows: Array<Record<string, unknown>> = await tx
+      .select()
+      .from(table)
+      .where(eq(column, mergeId));
+
+    const moveIds: Array<string> = [];
+    const deleteRows: Array<Record<string, unknown>> = [];
+
+    for (const row of rows) {
+      if (reference.deleteAll) {
+        if (row.id !== excludeCandidateId) deleteRows.push(row);
+        continue;
+      }
+
+      if (reference.selfColumn && row[reference.selfColumn] === keepId) {
+        deleteRows.push(row);
+        continue;
+      }
+
+      const uniqueValues = (reference.uniqueWith ?? []).map((key) => row[key]);
+      // NULLs never collide in a unique constraint
+      if (
+        reference.uniqueWith &&
+        uniqueValues.every((value) => value !== null && value !== undefined)
+      ) {
+        const conflicts = await tx
+          .select({ id: columns.id })
+          .from(table)
+          .where(
+            and(
+              eq(column, keepId),
+              ...reference.uniqueWith.map((key, i) =>
+                eq(columns[key], uniqueValues[i])
+              )
+            )
+          )
+          .limit(1);
+        if (conflicts.length > 0) {
+          deleteRows.push(row);
+          continue;
+        }
+      }
+
+      moveIds.push(row.id as string);
+    }
+
+    if (deleteRows.length > 0) {
+      await tx.delete(table).where(
+        inArray(
+          columns.id,
+          deleteRows.map((row) => row.id as string)
+        )
+      );
+      deleted.push({ table: reference.table, rows: deleteRows });
+    }
+
+    if (moveIds.length > 0) {
+      await tx
+        .update(table)
+        .set({ [reference.column]: keepId })
+        .where(inArray(columns.id, moveIds));
+      repointed.push({
+        table: reference.table,
+        column: reference.column,
+        ids: moveIds,
+      });
+    }
+  }
+
+  return { repointed, deleted };
+}
+
+/**
+ * Merge one person into another
+ *
+ * The kept person takes every relationship, event, participant, source,
+ * media and place link, research note, invite, suggestion and user claim of
+ * the merged person, which is then soft-deleted. Rows that would duplicate
+ * one the kept person already has (or link the two persons to each other)
+ * are deleted. Everything changed is recorded in a MERGE AuditLog entry so
+ * the merge can be undone with {@link undoMergeData}.
+ *
+ * @param keepId - ID of the person to keep
+ * @param mergeId - ID of the person merged into it
+ * @param userId - ID of the admin performing the merge
+ * @param fieldChoices - Which record supplies each person field; by default
+ *   the kept person's value wins and empty fields are filled from the other
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @returns IDs of the persons, candidate and audit entry
+ * @throws Error if either person is missing, they are the same, or both
+ *   are claimed by user accounts
+ */
+export async function mergePersonsData(
+  keepId: string,
+  mergeId: string,
+  userId: string,
+  fieldChoices: Partial<Record<string, MergeFieldChoice>> = {},
+  db: DuplicatesDb = drizzleDb
+): Promise<MergePersonsResult> {
+  if (keepId === mergeId) {
+    throw new Error("Cannot merge a person with itself");
+  }
+
+  const [keep, merge] = await Promise.all(
+    [keepId, mergeId].map((id) =>
+      db.query.persons.findFirst({
+        where: and(
+          eq(drizzleSchema.persons.id, id),
+          isNull(drizzleSchema.persons.deletedAt)
+        ),
+      })
+    )
+  );
+
+  if (!keep || !merge) {
+    throw new Error("Person not found");
+  }
+
+  const claims = await db
+    .select({ personId: drizzleSchema.users.personId })
+    .from(drizzleSchema.users)
+    .where(inArray(drizzleSchema.users.personId, [keepId, mergeId]));
+  if (claims.length > 1) {
+    throw new Error(
+      "Cannot merge two persons that are both claimed by user accounts"
+    );
+  }
+
+  const fields: Record<string, unknown> = {};
+  for (const field of MERGEABLE_PERSON_FIELDS) {
+    const keepValue = keep[field];
+    const mergeValue = merge[field];
+    // A date's detail follows the choice made for the date itself
+    const choice =
+      fieldChoices[field] ?? fieldChoices[field.replace(/Detail$/, "")];
+    const value =
+      choice === "merge"
+        ? mergeValue
+        : choice === "keep" || !isEmpty(keepValue)
+          ? keepValue
+          : mergeValue;
+    if (value !== keepValue) {
+      fields[field] = value;
+    }
+  }
+
+  const [personId, duplicatePersonId] = orderPair(keepId, mergeId);
+
+  return await db.transaction(async (tx) => {
+    const existing = await tx.query.duplicateCandidates.findFirst({
+      where: and(
+        eq(drizzleSchema.duplicateCandidates.personId, personId),
+        eq(
+          drizzleSchema.duplicateCandidates.duplicatePersonId,
+          duplicatePersonId
+        )
+      ),
+    });
+    const candidateId = existing?.id ?? crypto.randomUUID();
+
+    // Manual merges get a candidate row too, so every merge can be undone
+    // from the review queue
+    if (!existing) {
+      const { score, reasons } = scoreDuplicatePair(keep, merge);
+      await tx.insert(drizzleSchema.duplicateCandidates).values({
+        id: candidateId,
+        personId,
+        duplicatePersonId,
+        score,
+        reasons,
+        status: "PENDING",
+      });
+    }
+
+    const { repointed, deleted } = await repointReferences(
+      mergeId,
+      keepId,
+      candidateId,
+      tx
+    );
+
+    const now = new Date();
+    await tx
+      .update(drizzleSchema.persons)
+      .set({ ...fields, updatedAt: now })
+      .where(eq(drizzleSchema.persons.id, keepId));
+    await tx
+      .update(drizzleSchema.persons)
+      .set({ deletedAt: now, updatedAt: now })
+      .where(eq(drizzleSchema.persons.id, mergeId));
+
+    const auditLogId = crypto.randomUUID();
+    const newData: MergeAuditData = {
+      mergedPersonId: mergeId,
+      candidateId: candidateId,
+      fields,
+      repointed,
+      deleted,
+    };
+    await tx.insert(drizzleSchema.auditLogs).values({
+      id: auditLogId,
+      userId,
+      action: "MERGE",
+      entityType: "Person",
+      entityId: keepId,
+      personId: keepId,
+      previousData: { kept: keep, merged: merge },
+      newData: newData,
+    });
+
+    await tx
+      .update(drizzleSchema.duplicateCandidates)
+      .set({
+        status: "MERGED",
+        reviewedById: userId,
+        reviewedAt: now,
+        auditLogId,
+      })
+      .where(eq(drizzleSchema.duplicateCandidates.id, candidateId));
+
+    return {
+      keptPersonId: keepId,
+      mergedPersonId: mergeId,
+      candidateId: candidateId,
+      auditLogId,
+    };
+  });
+}
+
+/**
+ * Compare two values the way they are stored in a JSON snapshot
+ */
+function sameSnapshotValue(current: unknown, snapshot: unknown): boolean {
+  return JSON.stringify(current ?? null) === JSON.stringify(snapshot ?? null);
+}
+
+/**
+ * Find what changed since a merge and would be overwritten by undoing it
+ *
+ * The kept person's merged fields must still hold the values the merge gave
+ * them, and moved rows must still belong to the kept person.
+ *
+ * @returns Descriptions of the changed fields and rows (empty if none)
+ */
+async function findUndoConflicts(
+  keepId: string,
+  changes: MergeAuditData,
+  db: DuplicatesDb
+): Promise<Array<string>> {
+  const conflicts: Array<string> = [];
+
+  const kept = await db.query.persons.findFirst({
+    where: eq(drizzleSchema.persons.id, keepId),
+  });
+  if (!kept || kept.deletedAt) {
+    return ["the kept person was deleted"];
+  }
+
+  for (const [field, value] of Object.entries(changes.fields)) {
+    if (!sameSnapshotValue(kept[field as keyof typeof kept], value)) {
+      conflicts.push(field);
+    }
+  }
+
+  for (const { table, column, ids } of changes.repointed) {
+    const rows: Array<Record<string, unknown>> = await db
+      .select()
+      .from(REFERENCE_TABLES[table])
+      .where(inArray(columnsOf(table).id, ids));
+    const current = new Map(rows.map((row) => [row.id, row[column]]));
+    for (const id of ids) {
+      if (current.get(id) !== keepId) {
+        conflicts.push(`${table} ${id}`);
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Undo a merge, restoring both persons and every moved or deleted row
+ *
+ * Refuses when the kept person's merged fields or the moved rows were
+ * edited after the merge, since undoing would overwrite those edits.
+ *
+ * @param candidateId - ID of the merged duplicate candidate
+ * @param userId - ID of the admin undoing the merge
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @returns Success status
+ * @throws Error if the candidate was not merged, the merge was already
+ *   undone, or something it changed was edited since
+ */
+export async function undoMergeData(
+  candidateId: string,
+  userId: string,
+  db: DuplicatesDb = drizzleDb
+): Promise<{ success: boolean }> {
+  const candidate = await db.query.duplicateCandidates.findFirst({
+    where: eq(drizzleSchema.duplicateCandidates.id, candidateId),
+  });
+
+  if (!candidate) {
+    throw new Error("Duplicate candidate not found");
+  }
+
+  if (candidate.status !== "MERGED" || !candidate.auditLogId) {
+    throw new Error("Duplicate candidate has not been merged");
+  }
+
+  const auditLog = await db.query.auditLogs.findFirst({
+    where: eq(drizzleSchema.auditLogs.id, candidate.auditLogId),
+  });
+
+  if (!auditLog || auditLog.action !== "MERGE" || !auditLog.entityId) {
+    throw new Error("Merge record not found");
+  }
+
+  const keepId = auditLog.entityId;
+  const previous = auditLog.previousData as {
+    kept: Record<string, unknown>;
+    merged: Record<string, unknown>;
+  };
+  const changes = auditLog.newData as MergeAuditData;
+  const mergeId = changes.mergedPersonId;
+
+  const merged = await db.query.persons.findFirst({
+    where: eq(drizzleSchema.persons.id, mergeId),
+  });
+  if (!merged?.deletedAt) {
+    throw new Error("Merge has already been undone");
+  }
+
+  const conflicts = await findUndoConflicts(keepId, changes, db);
+  if (conflicts.length > 0) {
+    throw new Error(
+      `Cannot undo the merge because these changed after it: ${conflicts.join(", ")}`
+    );
+  }
+
+  const restoredFields = reviveDates(
+    drizzleSchema.persons as unknown as Record<string, Column>,
+    Object.fromEntries(
+      Object.keys(changes.fields).map((field) => [
+        field,
+        previous.kept[field] ?? null,
+      ])
+    )
+  );
+
+  await db.transaction(async (tx) => {
+    const now = new Date();
+
+    for (const { table, column, ids } of changes.repointed) {
+      await tx
+        .update(REFERENCE_TABLES[table])
+        .set({ [column]: mergeId })
+        .where(inArray(columnsOf(table).id, ids));
+    }
+
+    for (const { table, rows } of changes.deleted) {
+      const columns = columnsOf(table);
+      await tx
+        .insert(REFERENCE_TABLES[table])
+        .values(rows.map((row) => reviveDates(columns, row)) as never);
+    }
+
+    await tx
+      .update(drizzleSchema.persons)
+      .set({ ...restoredFields, updatedAt: now })
+      .where(eq(drizzleSchema.persons.id, keepId));
+    await tx
+      .update(drizzleSchema.persons)
+      .set({ deletedAt: null, updatedAt: now })
+      .where(eq(drizzleSchema.persons.id, mergeId));
+
+    await tx
+      .update(drizzleSchema.duplicateCandidates)
+      .set({
+        status: "PENDING",
+        reviewedById: null,
+        reviewedAt: null,
+        auditLogId: null,
+      })
+      .where(eq(drizzleSchema.duplicateCandidates.id, candidateId));
+
+    await tx.insert(drizzleSchema.auditLogs).values({
+      id: crypto.randomUUID(),
+      userId,
+      action: "UPDATE",
+      entityType: "Person",
+      entityId: keepId,
+      personId: keepId,
+      previousData: null,
+      newData: {
+        undoneMergeAuditLogId: auditLog.id,
+        restoredPersonId: mergeId,
+      },
+    });
+  });
+
+  return { success: true };
+}
@@ -16,9 +16,11 @@
 
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import {
+  SYSTEM_VIEWER,
   addEventParticipantData,
   createEventData,
   deleteEventData,
+  getEventData,
   getPersonEventsData,
   removeEventParticipantData,
   updateEventData,
@@ -40,6 +42,9 @@ const mockDrizzleDb = {
     eventParticipants: {
       findFirst: vi.fn(() => Promise.resolve(null)),
     },
+    familySettings: {
+      findFirst: vi.fn(() => Promise.resolve({ defaultPrivacy: "PUBLIC" })),
+    },
   },
   insert: vi.fn(() => ({
     values: vi.fn(() => ({
@@ -85,7 +90,11 @@ describe("Events Server Business Logic", () => {
       ).mockResolvedValueOnce(null);
 
       try {
-        await getPersonEventsData("nonexistent-person", mockDrizzleDb as any);
+        await getPersonEventsData(
+          "nonexistent-person",
+          mockDrizzleDb as any,
+          SYSTEM_VIEWER
+        );
         expect.unreachable("should have thrown");
       } catch (err) {
         expect(err instanceof Error).toBe(true);
@@ -126,7 +135,8 @@ describe("Events Server Business Logic", () => {
 
       const result = await getPersonEventsData(
         "person-1",
-        mockDrizzleDb as any
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
       );
 
       expect(Array.isArray(result)).toBe(true);
@@ -161,7 +171,8 @@ describe("Events Server Business Logic", () => {
 
       const result = await getPersonEventsData(
         "person-1",
-        mockDrizzleDb as any
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
       );
 
       expect(result[0].date).toBe("2024-01-15");
@@ -194,7 +205,8 @@ describe("Events Server Business Logic", () => {
 
       const result = await getPersonEventsData(
         "person-1",
-        mockDrizzleDb as any
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
       );
 
       expect(result[0].createdAt).toBe(createdAtDate.toISOString());
@@ -241,7 +253,8 @@ describe("Events Server Business Logic", () => {
 
       const result = await getPersonEventsData(
         "person-1",
-        mockDrizzleDb as any
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
       );
 
       expect(result[0].participants.length).toBe(2);
@@ -261,7 +274,8 @@ describe("Events Server Business Logic", () => {
 
       const result = await getPersonEventsData(
         "person-1",
-        mockDrizzleDb as any
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
       );
 
       expect(Array.isArray(result)).toBe(true);
@@ -293,13 +307,65 @@ describe("Events Server Business Logic", () => {
 
       const result = await getPersonEventsData(
         "person-1",
-        mockDrizzleDb as any
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
       );
 
       expect(result).toBeDefined();
     });
   });
 
+  describe("getEventData", () => {
+    const mockEvent = {
+      id: "event-1",
+      personId: "person-1",
+      type: "BIRTH",
+      date: new Date("1850-01-01"),
+      place: null,
+      description: null,
+      privacy: null,
+      createdAt: new Date("2024-01-01"),
+      updatedAt: new Date("2024-01-01"),
+      person: { id: "person-1", isLiving: false, privacy: null },
+      participants: [],
+    };
+
+    it("should throw error when event not found", async () => {
+      await expect(
+        getEventData("missing", mockDrizzleDb as any, SYSTEM_VIEWER)
+      ).rejects.toThrow("Event not found");
+    });
+
+    it("should return a formatted event", async () => {
+      (
+        mockDrizzleDb.query.events.findFirst as ReturnType<typeof vi.fn>
+      ).mockResolvedValueOnce(mockEvent);
+
+      const result = await getEventData(
+        "event-1",
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
+      );
+
+      expect(result.id).toBe("event-1");
+      expect(result.date).toBe("1850-01-01");
+      expect(result.participants).toEqual([]);
+    });
+
+    it("should hide events of redacted persons from the viewer", async () => {
+      (
+        mockDrizzleDb.query.events.findFirst as ReturnType<typeof vi.fn>
+      ).mockResolvedValueOnce({
+        ...mockEvent,
+        person: { id: "person-1", isLiving: true, privacy: null },
+      });
+
+      await expect(
+        getEventData("event-1", mockDrizzleDb as any, { role: "VIEWER" })
+      ).rejects.toThrow("Event not found");
+    });
+  });
+
   describe("createEventData", () => {
     it("should throw error when person not found", async () => {
       (
@@ -312,6 +378,7 @@ describe("Events Server Business Logic", () => {
             personId: "nonexistent-person",
             type: "BIRTH",
           },
+          "user-1",
           mockDrizzleDb as any
         );
         expect.unreachable("should have thrown");
@@ -366,6 +433,7 @@ describe("Events Server Business Logic", () => {
           place: "New York",
           description: "Birth event",
         },
+        "user-1",
         mockDrizzleDb as any
       );
 
@@ -408,6 +476,7 @@ describe("Events Server Business Logic", () => {
           personId: "person-1",
           type: "BIRTH",
         },
+        "user-1",
         mockDrizzleDb as any
       );
 
@@ -434,6 +503,7 @@ describe("Events Server Business Logic", () => {
             personId: "person-1",
             type: "BIRTH",
           },
+          "user-1",
           mockDrizzleDb as any
         );
         expect.unreachable("should have thrown");
@@ -474,6 +544,7 @@ describe("Events Server Business Logic", () => {
             personId: "person-1",
             type: "BIRTH",
           },
+          "user-1",
           mockDrizzleDb as any
         );
         expect.unreachable("should have thrown");
@@ -496,6 +567,7 @@ describe("Events Server Business Logic", () => {
           {
             type: "MARRIAGE",
           },
+          "user-1",
           mockDrizzleDb as any
         );
         expect.unreachable("should have thrown");
@@ -536,6 +608,7 @@ describe("Events Server Business Logic", () => {
         {
           type: "MARRIAGE",
         },
+        "user-1",
         mockDrizzleDb as any
       );
 
@@ -573,6 +646,7 @@ describe("Events Server Business Logic", () => {
         {
           date: new Date("2021-06-15"),
         },
+        "user-1",
         mockDrizzleDb as any
       );
 
@@ -612,6 +686,7 @@ describe("Events Server Business Logic", () => {
           place: "New Place",
           description: "New desc",
         },
+        "user-1",
         mockDrizzleDb as any
       );
 
@@ -646,6 +721,7 @@ describe("Events Server Business Logic", () => {
           {
             type: "MARRIAGE",
           },
+          "user-1",
           mockDrizzleDb as any
         );
         expect.unreachable("should have thrown");
@@ -663,7 +739,11 @@ describe("Events Server Business Logic", () => {
       ).mockResolvedValueOnce(null);
 
       try {
-        await deleteEventData("nonexistent-event", mockDrizzleDb as any);
+        await deleteEventData(
+          "nonexistent-event",
+          "user-1",
+          mockDrizzleDb as any
+        );
         expect.unreachable("should have thrown");
       } catch (err) {
         expect(err instanceof Error).toBe(true);
@@ -690,11 +770,44 @@ describe("Events Server Business Logic", () => {
         where: vi.fn(() => Promise.resolve({})),
       });
 
-      const result = await deleteEventData("event-1", mockDrizzleDb as any);
+      const result = await deleteEventData(
+        "event-1",
+        "user-1",
+        mockDrizzleDb as any
+      );
 
       expect(result.success).toBe(true);
       expect(mockDrizzleDb.delete).toHaveBeenCalled();
     });
+
+    it("should log the deleted event in the person's history", async () => {
+      const existingEvent = {
+        id: "event-1",
+        personId: "person-1",
+        type: "BIRTH",
+      };
+      const auditValues = vi.fn(() => Promise.resolve());
+
+      (
+        mockDrizzleDb.query.events.findFirst as ReturnType<typeof vi.fn>
+      ).mockResolvedValueOnce(existingEvent);
+      (mockDrizzleDb.insert as ReturnType<typeof vi.fn>).mockReturnValueOnce({
+        values: auditValues,
+      });
+
+      await deleteEventData("event-1", "user-1", mockDrizzleDb as any);
+
+      expect(auditValues).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: "user-1",
+          action: "DELETE",
+          entityType: "EVENT",
+          entityId: "event-1",
+          personId: "person-1",
+          previousData: existingEvent,
+        })
+      );
+    });
   });
 
   describe("addEventParticipantData", () => {
@@ -709,6 +822,7 @@ describe("Events Server Business Logic", () => {
             eventId: "nonexistent-event",
             personId: "person-1",
           },
+          "user-1",
           mockDrizzleDb as any
         );
         expect.unreachable("should have thrown");
@@ -729,6 +843,7 @@ describe("Events Server Business Logic", () => {
             eventId: "event-1",
             personId: "person-1",
           },
+          "user-1",
           mockDrizzleDb as any
         );
         expect.unreachable("should have thrown");
@@ -755,6 +870,7 @@ describe("Events Server Business Logic", () => {
             eventId: "event-1",
             personId: "person-2",
           },
+          "user-1",
           mockDrizzleDb as any
         );
       } catch (err) {
@@ -777,6 +893,7 @@ describe("Events Server Business Logic", () => {
             eventId: "event-1",
             personId: "person-1",
           },
+          "user-1",
           mockDrizzleDb as any
         );
         expect.unreachable("should have thrown");
@@ -809,6 +926,7 @@ describe("Events Server Business Logic", () => {
           eventId: "event-1",
           personId: "person-2",
         },
+        "user-1",
         mockDrizzleDb as any
       );
 
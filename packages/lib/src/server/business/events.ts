@@ -1,12 +1,25 @@
 import { drizzleDb, drizzleSchema } from "@vamsa/api";
 import { and, eq } from "drizzle-orm";
+import { resolveDateColumns, toGenealogicalDate } from "@vamsa/lib";
+import {
+  applyPersonPrivacy,
+  canViewRecord,
+  getPrivacyPolicy,
+  isPersonRedacted,
+} from "./privacy";
+import { logEntityAuditAction } from "./audit";
+import { getConsistencyWarningsData } from "./consistency";
+import type { PrivacyViewer } from "./privacy";
+import type { ConsistencyIssue, GenealogicalDate } from "@vamsa/lib";
 import type {
   EventCreateOutput,
   EventParticipantCreateInput,
   EventParticipantRemoveInput,
   EventType,
   EventUpdateOutput,
+  PrivacyLevel,
 } from "@vamsa/schemas";
+import type { AuditActor } from "./audit";
 
 /**
  * Type for the database client used by event functions.
@@ -37,13 +50,22 @@ export interface Event {
   personId: string;
   type: EventType;
   date: string | null;
+  dateDetail: GenealogicalDate | null;
   place: string | null;
   description: string | null;
+  privacy: PrivacyLevel | null;
   createdAt: string;
   updatedAt: string;
   participants: Array<EventParticipant>;
 }
 
+/**
+ * Newly created event with the data consistency warnings it raised
+ */
+export interface CreatedEvent extends Event {
+  warnings: Array<ConsistencyIssue>;
+}
+
 /**
  * Format a raw database event to the response format
  * @param event - Raw event from database with participants included
@@ -54,8 +76,10 @@ function formatEvent(event: {
   personId: string;
   type: string | EventType;
   date: Date | null;
+  dateDetail?: unknown;
   place: string | null;
   description: string | null;
+  privacy?: string | null;
   createdAt: Date;
   updatedAt: Date;
   participants: Array<{
@@ -75,8 +99,10 @@ function formatEvent(event: {
     personId: event.personId,
     type: event.type as EventType,
     date: event.date?.toISOString().split("T")[0] ?? null,
+    dateDetail: toGenealogicalDate(event.dateDetail),
     place: event.place,
     description: event.description,
+    privacy: (event.privacy as PrivacyLevel | null | undefined) ?? null,
     createdAt: event.createdAt.toISOString(),
     updatedAt: event.updatedAt.toISOString(),
     participants: event.participants.map((p) => ({
@@ -93,13 +119,16 @@ function formatEvent(event: {
  * Retrieve all events for a person
  * @param personId - ID of the person
  * @param db - Drizzle database instance
- * @returns Array of events with participants
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
+ * @returns Array of events visible to the viewer, with participants
  * @throws Error if person not found
  */
 export async function getPersonEventsData(
   personId: string,
-  db: EventsDb = drizzleDb
+  db: EventsDb = drizzleDb,
+  viewer: PrivacyViewer
 ): Promise<Array<Event>> {
+  const privacy = await getPrivacyPolicy(viewer, db);
   const person = await db.query.persons.findFirst({
     where: eq(drizzleSchema.persons.id, personId),
   });
@@ -120,36 +149,97 @@ export async function getPersonEventsData(
     orderBy: (events, { desc }) => [desc(events.date)],
   });
 
-  return events.map((event) =>
-    formatEvent({
-      ...event,
-      date: event.date,
-      createdAt: event.createdAt,
-      updatedAt: event.updatedAt,
-      participants: event.participants.map((p) => ({
+  const ownerRedacted = isPersonRedacted(privacy, person);
+
+  return events
+    .filter((event) => canViewRecord(privacy, event, ownerRedacted))
+    .map((event) =>
+      formatEvent({
+        ...event,
+        date: event.date,
+        createdAt: event.createdAt,
+        updatedAt: event.updatedAt,
+        participants: event.participants.map((p) => {
+          const participant = applyPersonPrivacy(privacy, p.person);
+          return {
+            ...p,
+            createdAt: p.createdAt,
+            person: {
+              id: participant.id,
+              firstName: participant.firstName,
+              lastName: participant.lastName,
+            },
+          };
+        }),
+      })
+    );
+}
+
+/**
+ * Retrieve a single event
+ * @param eventId - ID of the event
+ * @param db - Drizzle database instance
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
+ * @returns Event with participants
+ * @throws Error if event not found or hidden from the viewer
+ */
+export async function getEventData(
+  eventId: string,
+  db: EventsDb = drizzleDb,
+  viewer: PrivacyViewer
+): Promise<Event> {
+  const privacy = await getPrivacyPolicy(viewer, db);
+  const event = await db.query.events.findFirst({
+    where: eq(drizzleSchema.events.id, eventId),
+    with: {
+      person: true,
+      participants: {
+        with: {
+          person: true,
+        },
+      },
+    },
+  });
+
+  if (!event) {
+    throw new Error("Event not found");
+  }
+
+  // Hidden events are reported as missing so their existence is not leaked
+  const ownerRedacted = isPersonRedacted(privacy, event.person);
+  if (!canViewRecord(privacy, event, ownerRedacted)) {
+    throw new Error("Event not found");
+  }
+
+  return formatEvent({
+    ...event,
+    participants: event.participants.map((p) => {
+      const participant = applyPersonPrivacy(privacy, p.person);
+      return {
         ...p,
-        createdAt: p.createdAt,
         person: {
-          id: p.person.id,
-          firstName: p.person.firstName,
-          lastName: p.person.lastName,
+          id: participant.id,
+          firstName: participant.firstName,
+          lastName: participant.lastName,
         },
-      })),
-    })
-  );
+      };
+    }),
+  });
 }
 
 /**
  * Create a new event for a person
  * @param data - Event creation data
+ * @param userId - User creating the event
  * @param db - Drizzle database instance
- * @returns Created event with participants
+ * @returns Created event with participants and any data consistency warnings
  * @throws Error if person not found
  */
 export async function createEventData(
   data: EventCreateOutput,
+  userId: AuditActor,
   db: EventsDb = drizzleDb
-): Promise<Event> {
+): Promise<CreatedEvent> {
   const person = await db.query.persons.findFirst({
     where: eq(drizzleSchema.persons.id, data.personId),
   });
@@ -158,15 +248,22 @@ export async function createEventData(
     throw new Error("Person not found");
   }
 
+  const eventDate = resolveDateColumns(
+    data.date ? new Date(data.date) : null,
+    data.dateDetail
+  );
+
   const result = await db
     .insert(drizzleSchema.events)
     .values({
       id: crypto.randomUUID(),
       personId: data.personId,
       type: data.type,
-      date: data.date ? new Date(data.date) : null,
+      date: eventDate.date,
+      dateDetail: eventDate.detail,
       place: data.place || null,
       description: data.description || null,
+      privacy: data.privacy ?? null,
       createdAt: new Date(),
       updatedAt: new Date(),
     })
@@ -176,6 +273,18 @@ export async function createEventData(
     throw new Error("Failed to create event");
   }
 
+  await logEntityAuditAction(
+    {
+      userId,
+      action: "CREATE",
+      entityType: "EVENT",
+      entityId: result[0].id,
+      personId: data.personId,
+      newData: result[0],
+    },
+    db
+  );
+
   const event = await db.query.events.findFirst({
     where: eq(drizzleSchema.events.id, result[0].id),
     with: {
@@ -191,27 +300,33 @@ export async function createEventData(
     throw new Error("Failed to retrieve created event");
   }
 
-  return formatEvent({
-    ...event,
-    date: event.date,
-    createdAt: event.createdAt,
-    updatedAt: event.updatedAt,
-    participants: event.participants.map((p) => ({
-      ...p,
-      createdAt: p.createdAt,
-      person: {
-        id: p.person.id,
-        firstName: p.person.firstName,
-        lastName: p.person.lastName,
-      },
-    })),
-  });
+  const warnings = await getConsistencyWarningsData([data.personId], db);
+
+  return {
+    ...formatEvent({
+      ...event,
+      date: event.date,
+      createdAt: event.createdAt,
+      updatedAt: event.updatedAt,
+      participants: event.participants.map((p) => ({
+        ...p,
+        createdAt: p.createdAt,
+        person: {
+          id: p.person.id,
+          firstName: p.person.firstName,
+          lastName: p.person.lastName,
+        },
+      })),
+    }),
+    warnings,
+  };
 }
 
 /**
  * Update an existing event
  * @param eventId - ID of the event to update
  * @param data - Event update data
+ * @param userId - User updating the event
  * @param db - Drizzle database instance
  * @returns Updated event with participants
  * @throws Error if event not found
@@ -219,6 +334,7 @@ export async function createEventData(
 export async function updateEventData(
   eventId: string,
   data: Omit<EventUpdateOutput, "id">,
+  userId: AuditActor,
   db: EventsDb = drizzleDb
 ): Promise<Event> {
   const event = await db.query.events.findFirst({
@@ -236,8 +352,13 @@ export async function updateEventData(
   if (data.type !== undefined) {
     updateData.type = data.type;
   }
-  if (data.date !== undefined) {
-    updateData.date = data.date ? new Date(data.date) : null;
+  if (data.date !== undefined || data.dateDetail !== undefined) {
+    const eventDate = resolveDateColumns(
+      data.date ? new Date(data.date) : null,
+      data.dateDetail
+    );
+    updateData.date = eventDate.date;
+    updateData.dateDetail = eventDate.detail;
   }
   if (data.place !== undefined) {
     updateData.place = data.place || null;
@@ -245,12 +366,28 @@ export async function updateEventData(
   if (data.description !== undefined) {
     updateData.description = data.description || null;
   }
+  if (data.privacy !== undefined) {
+    updateData.privacy = data.privacy;
+  }
 
   await db
     .update(drizzleSchema.events)
     .set(updateData)
     .where(eq(drizzleSchema.events.id, eventId));
 
+  await logEntityAuditAction(
+    {
+      userId,
+      action: "UPDATE",
+      entityType: "EVENT",
+      entityId: eventId,
+      personId: event.personId,
+      previousData: event,
+      newData: updateData,
+    },
+    db
+  );
+
   const updatedEvent = await db.query.events.findFirst({
     where: eq(drizzleSchema.events.id, eventId),
     with: {
@@ -286,12 +423,14 @@ export async function updateEventData(
 /**
  * Delete an event
  * @param eventId - ID of the event to delete
+ * @param userId - User deleting the event
  * @param db - Drizzle database instance
  * @returns Success status
  * @throws Error if event not found
  */
 export async function deleteEventData(
   eventId: string,
+  userId: AuditActor,
   db: EventsDb = drizzleDb
 ): Promise<{ success: boolean }> {
   const event = await db.query.events.findFirst({
@@ -306,18 +445,32 @@ export async function deleteEventData(
     .delete(drizzleSchema.events)
     .where(eq(drizzleSchema.events.id, eventId));
 
+  await logEntityAuditAction(
+    {
+      userId,
+      action: "DELETE",
+      entityType: "EVENT",
+      entityId: eventId,
+      personId: event.personId,
+      previousData: event,
+    },
+    db
+  );
+
   return { success: true };
 }
 
 /**
  * Add a participant to an event
  * @param data - Participant creation data (eventId, personId, role)
+ * @param userId - User adding the participant
  * @param db - Drizzle database instance
  * @returns Created participant
  * @throws Error if event or person not found, or participant already exists
  */
 export async function addEventParticipantData(
   data: EventParticipantCreateInput,
+  userId: AuditActor,
   db: EventsDb = drizzleDb
 ): Promise<EventParticipant> {
   const event = await db.query.events.findFirst({
@@ -362,6 +515,18 @@ export async function addEventParticipantData(
     throw new Error("Failed to create participant");
   }
 
+  await logEntityAuditAction(
+    {
+      userId,
+      action: "CREATE",
+      entityType: "EVENT_PARTICIPANT",
+      entityId: result[0].id,
+      personId: data.personId,
+      newData: { eventId: data.eventId, type: event.type, role: data.role },
+    },
+    db
+  );
+
   const participant = await db.query.eventParticipants.findFirst({
     where: eq(drizzleSchema.eventParticipants.id, result[0].id),
     with: {
@@ -389,12 +554,14 @@ export async function addEventParticipantData(
 /**
  * Remove a participant from an event
  * @param data - Participant removal data (eventId, personId)
+ * @param userId - User removing the participant
  * @param db - Drizzle database instance
  * @returns Success status
  * @throws Error if participant not found
  */
 export async function removeEventParticipantData(
   data: EventParticipantRemoveInput,
+  userId: AuditActor,
   db: EventsDb = drizzleDb
 ): Promise<{ success: boolean }> {
   const participant = await db.query.eventParticipants.findFirst({
@@ -417,5 +584,17 @@ export async function removeEventParticipantData(
       )
     );
 
+  await logEntityAuditAction(
+    {
+      userId,
+      action: "DELETE",
+      entityType: "EVENT_PARTICIPANT",
+      entityId: participant.id,
+      personId: data.personId,
+      previousData: participant,
+    },
+    db
+  );
+
   return { success: true };
 }
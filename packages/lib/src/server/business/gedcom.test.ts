@@ -6,6 +6,7 @@
  * - GEDCOM file import with data transformation
  * - GEDCOM file export with aggregation
  * - GEDZip export with media files
+ * - GEDZip import with packaged media, removed again on rollback
  * - Error handling for invalid files
  * - Transaction management
  * - Audit logging
@@ -16,13 +17,22 @@
  * the actual business logic integration with these utilities.
  */
 
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { PassThrough } from "node:stream";
+import archiver from "archiver";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import {
+  defaultFileSystem,
   exportGedcomData,
   exportGedcomDataZip,
   importGedcomData,
+  importGedzipData,
   validateGedcomImport,
+  validateGedzipImport,
 } from "@vamsa/lib/server/business";
+import { readZipEntries } from "../helpers/zip";
 import {
   mockLogger,
   mockWithErr,
@@ -50,6 +60,33 @@ const mockDrizzleDb = {
     mediaObjects: {
       findMany: vi.fn(() => Promise.resolve([])),
     },
+    events: {
+      findMany: vi.fn(() => Promise.resolve([])),
+    },
+    eventParticipants: {
+      findMany: vi.fn(() => Promise.resolve([])),
+    },
+    places: {
+      findMany: vi.fn(() => Promise.resolve([])),
+    },
+    sources: {
+      findMany: vi.fn(() => Promise.resolve([])),
+    },
+    eventSources: {
+      findMany: vi.fn(() => Promise.resolve([])),
+    },
+    researchNotes: {
+      findMany: vi.fn(() => Promise.resolve([])),
+    },
+    personMedias: {
+      findMany: vi.fn(() => Promise.resolve([])),
+    },
+    eventMedias: {
+      findMany: vi.fn(() => Promise.resolve([])),
+    },
+    familySettings: {
+      findFirst: vi.fn(() => Promise.resolve(null)),
+    },
   },
   insert: vi.fn(() => ({
     values: vi.fn(() => ({
@@ -61,6 +98,42 @@ const mockDrizzleDb = {
   ),
 };
 
+async function createZip(files: Record<string, string | Buffer>) {
+  const archive = archiver("zip");
+  const output = new PassThrough();
+  const chunks: Array<Buffer> = [];
+  output.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise((resolve) => output.on("end", resolve));
+
+  archive.pipe(output);
+  for (const [name, content] of Object.entries(files)) {
+    archive.append(content, { name });
+  }
+  await archive.finalize();
+  await finished;
+
+  return Buffer.concat(chunks);
+}
+
+const packagedGedcom = [
+  "0 HEAD",
+  "1 GEDC",
+  "2 VERS 7.0",
+  "0 @I1@ INDI",
+  "1 NAME Ravi /Rao/",
+  "1 BIRT",
+  "2 DATE 1850",
+  "2 OBJE @O1@",
+  "1 OBJE @O2@",
+  "0 @O1@ OBJE",
+  "1 FILE media/birth%20record.jpg",
+  "2 FORM image/jpeg",
+  "0 @O2@ OBJE",
+  "1 FILE https://example.com/portrait.jpg",
+  "2 FORM image/jpeg",
+  "0 TRLR",
+].join("\n");
+
 // Create mock metrics functions
 const mockRecordGedcomImport = vi.fn(() => undefined);
 const mockRecordGedcomExport = vi.fn(() => undefined);
@@ -229,6 +302,64 @@ describe("GEDCOM Server Business Logic", () => {
         expect(result.imported).toBeDefined();
       }
     });
+
+    it("should insert events, sources and citations", async () => {
+      const values = vi.fn(() => ({
+        returning: vi.fn(() => Promise.resolve([{}])),
+      }));
+      // Drop queued implementations left by tests that fail validation
+      (mockDrizzleDb.transaction as ReturnType<typeof vi.fn>).mockReset();
+      (
+        mockDrizzleDb.transaction as ReturnType<typeof vi.fn>
+      ).mockImplementationOnce(
+        async (cb: (db: typeof mockDrizzleDb) => Promise<unknown>) =>
+          cb({ ...mockDrizzleDb, insert: vi.fn(() => ({ values })) })
+      );
+
+      const result = await importGedcomData(
+        "family.ged",
+        [
+          "0 HEAD",
+          "1 GEDC",
+          "2 VERS 5.5.1",
+          "1 CHAR UTF-8",
+          "0 @S1@ SOUR",
+          "1 TITL Parish register",
+          "0 @I1@ INDI",
+          "1 NAME Ravi /Rao/",
+          "1 BIRT",
+          "2 DATE ABT 1850",
+          "2 PLAC Pune",
+          "2 SOUR @S1@",
+          "3 PAGE Folio 12",
+          "3 QUAY 3",
+          "0 TRLR",
+        ].join("\n"),
+        "user-1",
+        mockDrizzleDb as any
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.imported).toMatchObject({
+        people: 1,
+        events: 1,
+        sources: 1,
+        citations: 1,
+      });
+      expect(values).toHaveBeenCalledWith(
+        expect.objectContaining({ title: "Parish register" })
+      );
+      expect(values).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "BIRTH", place: "Pune" })
+      );
+      expect(values).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: "BIRTH",
+          confidence: "HIGH",
+          sourceNotes: "Folio 12",
+        })
+      );
+    });
   });
 
   describe("exportGedcomData", () => {
@@ -311,6 +442,40 @@ describe("GEDCOM Server Business Logic", () => {
         expect(typeof result.gedcomContent).toBe("string");
       }
     });
+    it("should export sources and citations", async () => {
+      (
+        mockDrizzleDb.query.persons.findMany as ReturnType<typeof vi.fn>
+      ).mockResolvedValueOnce([
+        { id: "p1", firstName: "Ravi", lastName: "Rao", isLiving: false },
+      ]);
+      (
+        mockDrizzleDb.query.sources.findMany as ReturnType<typeof vi.fn>
+      ).mockResolvedValueOnce([
+        { id: "s1", title: "Parish register", author: null },
+      ]);
+      (
+        mockDrizzleDb.query.eventSources.findMany as ReturnType<typeof vi.fn>
+      ).mockResolvedValueOnce([
+        {
+          id: "es1",
+          sourceId: "s1",
+          personId: "p1",
+          eventType: "GENERAL",
+          confidence: "HIGH",
+          sourceNotes: "Folio 12",
+        },
+      ]);
+
+      const result = await exportGedcomData("user-1", mockDrizzleDb as any);
+
+      expect(result.success).toBe(true);
+      expect(result.gedcomContent).toContain(
+        "0 @S1@ SOUR\n1 TITL Parish register"
+      );
+      expect(result.gedcomContent).toContain(
+        "1 SOUR @S1@\n2 PAGE Folio 12\n2 QUAY 3"
+      );
+    });
   });
 
   describe("exportGedcomDataZip", () => {
@@ -320,5 +485,234 @@ describe("GEDCOM Server Business Logic", () => {
       expect(typeof exportGedcomDataZip).toBe("function");
       expect(typeof exportGedcomDataZip.name).toBe("string");
     });
+
+    it("should package media and reference it from OBJE records", async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "gedzip-"));
+      const photoPath = path.join(dir, "photo one.jpg");
+      fs.writeFileSync(photoPath, "jpeg bytes");
+
+      (
+        mockDrizzleDb.query.mediaObjects.findMany as ReturnType<typeof vi.fn>
+      ).mockResolvedValueOnce([
+        {
+          id: "m1",
+          filePath: photoPath,
+          format: "JPEG",
+          mimeType: "image/jpeg",
+          fileSize: 10,
+          title: "Portrait",
+        },
+        {
+          id: "m2",
+          filePath: "/data/uploads/media/missing.jpg",
+          format: "JPEG",
+          mimeType: "image/jpeg",
+          fileSize: 10,
+        },
+      ]);
+
+      try {
+        const result = await exportGedcomDataZip(
+          "user-1",
+          true,
+          defaultFileSystem,
+          mockDrizzleDb as any
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.manifest?.gedcomFile).toBe("gedcom.ged");
+        expect(result.manifest?.mediaFiles).toEqual(["media/photo one.jpg"]);
+
+        const entries = readZipEntries(
+          Buffer.from(result.zipBase64!, "base64")
+        );
+        const gedcom = entries.get("gedcom.ged")!.toString("utf8");
+        expect(gedcom).toContain("2 VERS 7.0");
+        expect(gedcom).toContain("1 FILE media/photo%20one.jpg");
+        // Files that are not on disk keep their original reference
+        expect(gedcom).toContain("1 FILE /data/uploads/media/missing.jpg");
+        expect(entries.get("media/photo one.jpg")?.toString()).toBe(
+          "jpeg bytes"
+        );
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("should keep original references when media is excluded", async () => {
+      (
+        mockDrizzleDb.query.mediaObjects.findMany as ReturnType<typeof vi.fn>
+      ).mockResolvedValueOnce([
+        {
+          id: "m1",
+          filePath: "/data/uploads/media/photo.jpg",
+          format: "JPEG",
+          mimeType: "image/jpeg",
+          fileSize: 10,
+        },
+      ]);
+      const fileSystem = {
+        existsSync: vi.fn(() => true),
+        basename: path.basename,
+      };
+
+      const result = await exportGedcomDataZip(
+        "user-1",
+        false,
+        fileSystem,
+        mockDrizzleDb as any
+      );
+
+      expect(result.manifest?.mediaFiles).toEqual([]);
+      expect(fileSystem.existsSync).not.toHaveBeenCalled();
+      const gedcom = readZipEntries(Buffer.from(result.zipBase64!, "base64"))
+        .get("gedcom.ged")!
+        .toString("utf8");
+      expect(gedcom).toContain("1 FILE /data/uploads/media/photo.jpg");
+    });
+  });
+
+  describe("importGedzipData", () => {
+    let mediaDir: string;
+    const originalMediaPath = process.env.MEDIA_STORAGE_PATH;
+
+    beforeEach(() => {
+      mediaDir = fs.mkdtempSync(path.join(os.tmpdir(), "gedzip-media-"));
+      process.env.MEDIA_STORAGE_PATH = mediaDir;
+      return () => {
+        fs.rmSync(mediaDir, { recursive: true, force: true });
+        if (originalMediaPath === undefined) {
+          delete process.env.MEDIA_STORAGE_PATH;
+        } else {
+          process.env.MEDIA_STORAGE_PATH = originalMediaPath;
+        }
+      };
+    });
+
+    it("should reject files that are not packages", async () => {
+      const result = await importGedzipData(
+        "family.ged",
+        Buffer.from("0 HEAD"),
+        "user-1",
+        mockDrizzleDb as any
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe("File must be .gdz or .zip format");
+    });
+
+    it("should require a GEDCOM file in the package", async () => {
+      const zip = await createZip({ "media/photo.jpg": "jpeg" });
+
+      const result = await importGedzipData(
+        "family.gdz",
+        zip,
+        "user-1",
+        mockDrizzleDb as any
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe("GEDZIP file must contain gedcom.ged");
+    });
+
+    it("should store packaged media and link it to the event", async () => {
+      const values = vi.fn(() => ({
+        returning: vi.fn(() => Promise.resolve([{}])),
+      }));
+      (mockDrizzleDb.transaction as ReturnType<typeof vi.fn>).mockReset();
+      (
+        mockDrizzleDb.transaction as ReturnType<typeof vi.fn>
+      ).mockImplementationOnce(
+        async (cb: (db: typeof mockDrizzleDb) => Promise<unknown>) =>
+          cb({ ...mockDrizzleDb, insert: vi.fn(() => ({ values })) })
+      );
+      const zip = await createZip({
+        "gedcom.ged": packagedGedcom,
+        "media/birth record.jpg": "jpeg data",
+      });
+
+      const result = await importGedzipData(
+        "family.gdz",
+        zip,
+        "user-1",
+        mockDrizzleDb as any
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.imported).toMatchObject({ people: 1, media: 2 });
+      expect(result.imported?.mediaFiles).toBe(1);
+
+      // The packaged file is stored under a new name in the media directory
+      const [storedName] = fs.readdirSync(mediaDir);
+      expect(fs.readFileSync(path.join(mediaDir, storedName), "utf8")).toBe(
+        "jpeg data"
+      );
+      const rows = values.mock.calls as unknown as Array<
+        [Record<string, unknown>]
+      >;
+      const mediaInsert = rows
+        .map(([row]) => row)
+        .find((row) => row.filePath === `/data/uploads/media/${storedName}`);
+      expect(mediaInsert).toMatchObject({
+        fileSize: 9,
+        mimeType: "image/jpeg",
+      });
+      // External references are kept as they are
+      expect(values).toHaveBeenCalledWith(
+        expect.objectContaining({
+          filePath: "https://example.com/portrait.jpg",
+        })
+      );
+      // Linked to the birth event that cites it
+      expect(values).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: "BIRTH",
+          mediaId: mediaInsert?.id,
+        })
+      );
+    });
+
+    it("should delete stored media when the import is rolled back", async () => {
+      (mockDrizzleDb.transaction as ReturnType<typeof vi.fn>).mockReset();
+      (
+        mockDrizzleDb.transaction as ReturnType<typeof vi.fn>
+      ).mockRejectedValueOnce(new Error("Deadlock detected"));
+      const zip = await createZip({
+        "gedcom.ged": packagedGedcom,
+        "media/birth record.jpg": "jpeg data",
+      });
+
+      const result = await importGedzipData(
+        "family.gdz",
+        zip,
+        "user-1",
+        mockDrizzleDb as any
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe("Deadlock detected");
+      expect(fs.readdirSync(mediaDir)).toEqual([]);
+    });
+  });
+
+  describe("validateGedzipImport", () => {
+    it("should validate the packaged GEDCOM file", async () => {
+      const zip = await createZip({ "gedcom.ged": packagedGedcom });
+
+      const result = await validateGedzipImport("family.zip", zip);
+
+      expect(result.valid).toBe(true);
+      expect(result.preview?.peopleCount).toBe(1);
+    });
+
+    it("should reject unreadable packages", async () => {
+      const result = await validateGedzipImport(
+        "family.gdz",
+        Buffer.from("not a zip archive at all")
+      );
+
+      expect(result.valid).toBe(false);
+      expect(result.message).toContain("Invalid ZIP archive");
+    });
   });
 });
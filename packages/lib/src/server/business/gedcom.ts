@@ -13,6 +13,7 @@ import archiver from "archiver";
 // Drizzle imports
 import { drizzleDb, drizzleSchema } from "@vamsa/api";
 import { asc, eq } from "drizzle-orm";
+import { getStorageProvider } from "@vamsa/api/storage";
 import { loggers } from "@vamsa/lib/logger";
 import {
   recordGedcomExport,
@@ -22,20 +23,42 @@ import {
 
 import {
   calculateGedcomStatistics,
-  formatGedcomFileName,
   generateGedcomOutput,
   mapGedcomToEntities,
   parseGedcomFile,
   validateGedcomImportPrerequisites,
 } from "../helpers/gedcom";
-import type { VamsaPerson, VamsaRelationship } from "@vamsa/lib";
+import { normalizeZipPath, readZipEntries } from "../helpers/zip";
+import {
+  deleteStoredMediaFiles,
+  isPhotoLocationStripped,
+  storeMediaFile,
+} from "./media";
+import type {
+  GenealogicalDate,
+  MappingResult,
+  VamsaGenealogyData,
+  VamsaPerson,
+  VamsaRelationship,
+} from "@vamsa/lib";
 import type { GedcomStructureError } from "../helpers/gedcom";
+import type { StoredMediaFile } from "./media";
+import type { StorageProvider } from "@vamsa/api/storage";
 
 const log = loggers.db;
 
 /** Type for the database instance (for DI) */
 export type GedcomDb = typeof drizzleDb;
 
+/** Transaction handle passed to GedcomDb.transaction callbacks */
+type GedcomTx = Parameters<Parameters<GedcomDb["transaction"]>[0]>[0];
+
+/** Name of the GEDCOM file at the root of a GEDZIP package */
+export const GEDZIP_GEDCOM_FILE = "gedcom.ged";
+
+/** Largest GEDZIP package accepted for import (500MB uncompressed) */
+const MAX_GEDZIP_SIZE = 500 * 1024 * 1024;
+
 /**
  * Interface for file system operations used by GEDCOM export.
  * This allows dependency injection for testing.
@@ -62,6 +85,11 @@ export interface ImportResult {
   imported?: {
     people: number;
     relationships: number;
+    events: number;
+    sources: number;
+    citations: number;
+    media: number;
+    mediaFiles?: number;
   };
   errors?: Array<{
     message: string;
@@ -208,8 +236,6 @@ export async function importGedcomData(
   userId: string,
   db: GedcomDb = drizzleDb
 ): Promise<ImportResult> {
-  const start = Date.now();
-
   // Validate file format
   if (!fileName.endsWith(".ged")) {
     return {
@@ -218,6 +244,114 @@ export async function importGedcomData(
     };
   }
 
+  return importGedcomContent(fileName, fileContent, userId, db);
+}
+
+/**
+ * Import a GEDZIP package (GEDCOM 7 zip with embedded media) into the database.
+ *
+ * Reads gedcom.ged from the package root, stores every media file referenced
+ * by an OBJE FILE path through the regular upload pipeline (so images get
+ * WebP and thumbnail versions) and links the media to the persons and events
+ * that cite them. Files missing from the package are imported as references
+ * to their original path.
+ *
+ * @param fileName - Package file name (.gdz or .zip) for audit logging
+ * @param zipContent - Package content
+ * @param userId - User ID performing the import
+ * @returns Import result with counts and errors
+ *
+ * @example
+ * const result = await importGedzipData("family.gdz", buffer, userId);
+ * if (result.success) {
+ *   console.log(`Stored ${result.imported?.mediaFiles} media files`);
+ * }
+ */
+export async function importGedzipData(
+  fileName: string,
+  zipContent: Buffer,
+  userId: string,
+  db: GedcomDb = drizzleDb
+): Promise<ImportResult> {
+  // Validate file format
+  if (!/\.(gdz|zip)$/i.test(fileName)) {
+    return {
+      success: false,
+      message: "File must be .gdz or .zip format",
+    };
+  }
+
+  let packageFiles: Map<string, Buffer>;
+  let gedcomContent: string;
+  try {
+    packageFiles = readZipEntries(zipContent, MAX_GEDZIP_SIZE);
+    gedcomContent = getGedzipGedcom(packageFiles);
+  } catch (error) {
+    log.withErr(error).msg("GEDZip read error");
+    return {
+      success: false,
+      message:
+        error instanceof Error ? error.message : "Could not read GEDZIP file",
+    };
+  }
+
+  return importGedcomContent(fileName, gedcomContent, userId, db, packageFiles);
+}
+
+/**
+ * Validate a GEDZIP package before import.
+ *
+ * Checks that the package can be read and contains a GEDCOM file, then
+ * validates that file like validateGedcomImport. Does not import any data.
+ *
+ * @param fileName - Package file name (.gdz or .zip)
+ * @param zipContent - Package content
+ * @returns Validation result with error details and preview
+ */
+export async function validateGedzipImport(
+  fileName: string,
+  zipContent: Buffer
+): ReturnType<typeof validateGedcomImport> {
+  if (!/\.(gdz|zip)$/i.test(fileName)) {
+    recordGedcomValidation(false, 1, 0);
+    return {
+      valid: false,
+      message: "File must be .gdz or .zip format",
+    };
+  }
+
+  let gedcomContent: string;
+  try {
+    gedcomContent = getGedzipGedcom(
+      readZipEntries(zipContent, MAX_GEDZIP_SIZE)
+    );
+  } catch (error) {
+    recordGedcomValidation(false, 1, 0);
+    return {
+      valid: false,
+      message:
+        error instanceof Error ? error.message : "Could not read GEDZIP file",
+    };
+  }
+
+  return validateGedcomImport(GEDZIP_GEDCOM_FILE, gedcomContent);
+}
+
+/**
+ * Parse, map and insert GEDCOM content. Media files found in packageFiles are
+ * stored before the transaction starts and replace the file references of the
+ * media objects that point to them. They are deleted again if the
+ * transaction fails.
+ */
+async function importGedcomContent(
+  fileName: string,
+  fileContent: string,
+  userId: string,
+  db: GedcomDb,
+  packageFiles?: Map<string, Buffer>
+): Promise<ImportResult> {
+  const start = Date.now();
+
   try {
     // Parse GEDCOM content
     const gedcomFile = parseGedcomFile(fileContent);
@@ -239,80 +373,108 @@ export async function importGedcomData(
     // Map GEDCOM to Vamsa format
     const mapped = mapGedcomToEntities(gedcomFile);
 
+    // Store packaged media files
+    const uploads = packageFiles
+      ? await storeGedzipMedia(
+          mapped,
+          packageFiles,
+          await isPhotoLocationStripped(db)
+        )
+      : new Map<string, StoredMediaFile>();
+
     // Insert into database using transaction for atomicity
-    const result = await db.transaction(async (tx) => {
-      const insertedPeople: Array<VamsaPerson> = [];
-      const insertedRelationships: Array<VamsaRelationship> = [];
-
-      // Insert persons
-      for (const person of mapped.people) {
-        const now = new Date();
-        const personId = person.id || crypto.randomUUID();
-        const inserted = await tx
-          .insert(drizzleSchema.persons)
-          .values({
-            id: personId,
-            firstName: person.firstName,
-            lastName: person.lastName,
-            maidenName: person.maidenName,
-            dateOfBirth: person.dateOfBirth,
-            dateOfPassing: person.dateOfPassing,
-            birthPlace: person.birthPlace,
-            nativePlace: person.nativePlace,
-            gender: person.gender,
-            bio: person.bio,
-            profession: person.profession,
-            isLiving: person.isLiving,
-            createdById: userId,
-            createdAt: now,
-            updatedAt: now,
-          })
-          .returning();
-        insertedPeople.push(inserted[0] as unknown as VamsaPerson);
-      }
+    const result = await db
+      .transaction(async (tx) => {
+        const insertedPeople: Array<VamsaPerson> = [];
+        const insertedRelationships: Array<VamsaRelationship> = [];
 
-      // Insert relationships
-      for (const rel of mapped.relationships) {
-        const now = new Date();
-        const relationshipId = rel.id || crypto.randomUUID();
-        const inserted = await tx
-          .insert(drizzleSchema.relationships)
-          .values({
-            id: relationshipId,
-            personId: rel.personId,
-            relatedPersonId: rel.relatedPersonId,
-            type: rel.type,
-            marriageDate: rel.marriageDate,
-            divorceDate: rel.divorceDate,
-            isActive: rel.isActive,
-            isAutoGenerated: false,
-            createdAt: now,
-            updatedAt: now,
-          })
-          .returning();
-        insertedRelationships.push(inserted[0] as unknown as VamsaRelationship);
-      }
+        // Insert persons
+        for (const person of mapped.people) {
+          const now = new Date();
+          const personId = person.id || crypto.randomUUID();
+          const inserted = await tx
+            .insert(drizzleSchema.persons)
+            .values({
+              id: personId,
+              firstName: person.firstName,
+              lastName: person.lastName,
+              maidenName: person.maidenName,
+              dateOfBirth: person.dateOfBirth,
+              dateOfPassing: person.dateOfPassing,
+              dateOfBirthDetail: person.dateOfBirthDetail ?? null,
+              dateOfPassingDetail: person.dateOfPassingDetail ?? null,
+              birthPlace: person.birthPlace,
+              nativePlace: person.nativePlace,
+              gender: person.gender,
+              bio: person.bio,
+              profession: person.profession,
+              isLiving: person.isLiving,
+              createdById: userId,
+              createdAt: now,
+              updatedAt: now,
+            })
+            .returning();
+          insertedPeople.push(inserted[0] as unknown as VamsaPerson);
+        }
 
-      // Log audit trail within transaction
-      await tx.insert(drizzleSchema.auditLogs).values({
-        id: crypto.randomUUID(),
-        userId,
-        action: "CREATE",
-        entityType: "GEDCOM_IMPORT",
-        entityId: null,
-        newData: {
-          fileName,
-          peopleCount: insertedPeople.length,
-          relationshipCount: insertedRelationships.length,
-        },
-        createdAt: new Date(),
-      });
+        // Insert relationships
+        for (const rel of mapped.relationships) {
+          const now = new Date();
+          const relationshipId = rel.id || crypto.randomUUID();
+          const inserted = await tx
+            .insert(drizzleSchema.relationships)
+            .values({
+              id: relationshipId,
+              personId: rel.personId,
+              relatedPersonId: rel.relatedPersonId,
+              type: rel.type,
+              marriageDate: rel.marriageDate,
+              divorceDate: rel.divorceDate,
+              pedigree: rel.pedigree,
+              isActive: rel.isActive,
+              isAutoGenerated: false,
+              createdAt: now,
+              updatedAt: now,
+            })
+            .returning();
+          insertedRelationships.push(
+            inserted[0] as unknown as VamsaRelationship
+          );
+        }
 
-      return {
-        people: insertedPeople,
-        relationships: insertedRelationships,
-      };
-    });
+        // Insert events, sources, citations and media
+        await insertGedcomRecords(tx, mapped, userId, uploads);
+
+        // Log audit trail within transaction
+        await tx.insert(drizzleSchema.auditLogs).values({
+          id: crypto.randomUUID(),
+          userId,
+          action: "CREATE",
+          entityType: "GEDCOM_IMPORT",
+          entityId: null,
+          newData: {
+            fileName,
+            peopleCount: insertedPeople.length,
+            relationshipCount: insertedRelationships.length,
+            eventCount: mapped.events.length,
+            sourceCount: mapped.sources.length,
+            citationCount: mapped.eventSources.length,
+            mediaCount: mapped.mediaObjects.length,
+            mediaFileCount: uploads.size,
+          },
+          createdAt: new Date(),
+        });
+
+        return {
+          people: insertedPeople,
+          relationships: insertedRelationships,
+        };
+      })
+      .catch(async (error: unknown) => {
+        // Nothing refers to the stored files once the import is rolled back
+        await deleteGedzipMedia(uploads);
+        throw error;
+      });
 
     // Record metrics
     const duration = Date.now() - start;
@@ -325,10 +487,15 @@ export async function importGedcomData(
 
     return {
       success: true,
-      message: `Successfully imported ${result.people.length} people and ${result.relationships.length} relationships`,
+      message: `Successfully imported ${result.people.length} people, ${result.relationships.length} relationships, ${mapped.events.length} events and ${mapped.sources.length} sources`,
       imported: {
         people: result.people.length,
         relationships: result.relationships.length,
+        events: mapped.events.length,
+        sources: mapped.sources.length,
+        citations: mapped.eventSources.length,
+        media: mapped.mediaObjects.length,
+        ...(packageFiles && { mediaFiles: uploads.size }),
       },
       errors: mapped.errors.map((e) => ({
         message: e.message,
@@ -382,6 +549,8 @@ export async function exportGedcomData(
       orderBy: asc(drizzleSchema.relationships.createdAt),
     });
 
+    const records = await fetchGedcomRecords(db);
+
     // Get user info for submitter name
     const user = await db.query.users.findFirst({
       where: eq(drizzleSchema.users.id, userId),
@@ -394,7 +563,8 @@ export async function exportGedcomData(
       {
         sourceProgram: "vamsa",
         submitterName: user?.name || "Vamsa User",
-      }
+      },
+      records
     );
 
     // Log audit trail
@@ -431,11 +601,12 @@ export async function exportGedcomData(
 }
 
 /**
- * Export GEDCOM file with optional media files as a zip archive.
+ * Export a GEDZIP package (GEDCOM 7 zip) with optional media files.
  *
- * Fetches all data and media, generates GEDCOM format, creates a zip archive
- * with GEDCOM and media files, and returns base64-encoded zip. Includes manifest
- * with export metadata. Logs audit trail and records metrics.
+ * Fetches all data and media, generates GEDCOM 7 as gedcom.ged at the package
+ * root and adds media originals under media/, with each OBJE FILE pointing at
+ * its packaged copy. Returns the base64-encoded package and a manifest with
+ * export metadata. Logs audit trail and records metrics.
  *
  * @param userId - User ID performing the export
  * @param includeMedia - Whether to include media files (default: true)
@@ -446,7 +617,7 @@ export async function exportGedcomData(
  * const result = await exportGedcomDataZip(userId, true);
  * if (result.success && result.zipBase64) {
  *   const buffer = Buffer.from(result.zipBase64, "base64");
- *   fs.writeFileSync("family-tree.zip", buffer);
+ *   fs.writeFileSync("family-tree.gdz", buffer);
  * }
  */
 export async function exportGedcomDataZip(
@@ -470,28 +641,14 @@ export async function exportGedcomDataZip(
       orderBy: asc(drizzleSchema.relationships.createdAt),
     });
 
-    // Fetch all media objects if including media
-    const mediaObjects = includeMedia
-      ? await db.query.mediaObjects.findMany({
-          orderBy: asc(drizzleSchema.mediaObjects.uploadedAt),
-        })
-      : [];
+    // Events, sources, citations and media objects
+    const records = await fetchGedcomRecords(db);
 
     // Get user info for submitter name
     const user = await db.query.users.findFirst({
       where: eq(drizzleSchema.users.id, userId),
     });
 
-    // Generate GEDCOM output
-    const gedcomContent = generateGedcomOutput(
-      people as unknown as Array<VamsaPerson>,
-      relationships as unknown as Array<VamsaRelationship>,
-      {
-        sourceProgram: "vamsa",
-        submitterName: user?.name || "Vamsa User",
-      }
-    );
-
     // Create the archive
     const archive = archiver("zip", {
       zlib: { level: 9 }, // Maximum compression
@@ -500,33 +657,62 @@ export async function exportGedcomDataZip(
     const chunks: Array<Buffer> = [];
     archive.on("data", (chunk: Buffer) => chunks.push(Buffer.from(chunk)));
 
-    // Add GEDCOM file
-    const gedcomFileName = formatGedcomFileName();
-    archive.append(gedcomContent, { name: gedcomFileName });
-
     // Track included media files
     const includedMedia: Array<string> = [];
     let totalMediaSize = 0;
 
-    // Add media files to the archive
-    if (includeMedia && mediaObjects.length > 0) {
-      for (const media of mediaObjects) {
-        const filePath = media.filePath;
-
-        // Check if file exists
-        if (fileSystem.existsSync(filePath)) {
-          const fileName = fileSystem.basename(filePath);
-          const archivePath = `media/${fileName}`;
-
-          archive.file(filePath, { name: archivePath });
-          includedMedia.push(archivePath);
-          totalMediaSize += media.fileSize;
-        } else {
-          log.info({ filePath }, "Media file not found for GEDZip export");
+    // Add media originals under media/ and point their OBJE FILE at them
+    const storage = includeMedia ? await getStorageProvider() : null;
+    const mediaObjects: Array<
+      NonNullable<typeof records.mediaObjects>[number]
+    > = [];
+    for (const media of records.mediaObjects ?? []) {
+      const file = storage
+        ? await resolveMediaFile(media.filePath, fileSystem, storage)
+        : null;
+      if (!file) {
+        if (storage) {
+          log.info(
+            { filePath: media.filePath },
+            "Media file not found for GEDZip export"
+          );
         }
+        mediaObjects.push(media);
+        continue;
       }
+
+      const baseName = fileSystem.basename(media.filePath);
+      let archivePath = `media/${baseName}`;
+      if (includedMedia.includes(archivePath)) {
+        archivePath = `media/${media.id}-${baseName}`;
+      }
+
+      if (typeof file === "string") {
+        archive.file(file, { name: archivePath });
+      } else {
+        archive.append(file, { name: archivePath });
+      }
+      includedMedia.push(archivePath);
+      totalMediaSize += media.fileSize;
+      mediaObjects.push({ ...media, filePath: encodeURI(archivePath) });
     }
 
+    // Generate GEDCOM 7 output, which GEDZIP requires
+    const gedcomContent = generateGedcomOutput(
+      people as unknown as Array<VamsaPerson>,
+      relationships as unknown as Array<VamsaRelationship>,
+      {
+        sourceProgram: "vamsa",
+        submitterName: user?.name || "Vamsa User",
+        version: "7.0",
+      },
+      { ...records, mediaObjects }
+    );
+
+    // Add GEDCOM file at the package root
+    const gedcomFileName = GEDZIP_GEDCOM_FILE;
+    archive.append(gedcomContent, { name: gedcomFileName });
+
     // Create manifest
     const manifestContent = JSON.stringify(
       {
@@ -547,15 +733,17 @@ export async function exportGedcomDataZip(
     );
     archive.append(manifestContent, { name: "manifest.json" });
 
-    // Finalize the archive
-    await archive.finalize();
-
-    // Wait for all chunks to be collected
-    await new Promise<void>((resolve, reject) => {
+    // Wait for all chunks to be collected; "end" can fire before finalize()
+    // resolves, so listen first
+    const finished = new Promise<void>((resolve, reject) => {
       archive.on("end", resolve);
       archive.on("error", reject);
     });
 
+    // Finalize the archive
+    await archive.finalize();
+    await finished;
+
     const zipBuffer = Buffer.concat(chunks);
     const zipBase64 = zipBuffer.toString("base64");
 
@@ -599,3 +787,401 @@ export async function exportGedcomDataZip(
     };
   }
 }
+
+/**
+ * Find a media original for export. Stored paths are relative to the web
+ * root (/data/uploads/media/...), so fall back to the object with the same
+ * name in media storage.
+ */
+async function resolveMediaFile(
+  filePath: string,
+  fileSystem: GedcomFileSystem,
+  storage: StorageProvider
+): Promise<string | Buffer | null> {
+  if (fileSystem.existsSync(filePath)) {
+    return filePath;
+  }
+  const baseName = fileSystem.basename(filePath);
+  if (!baseName) return null;
+  const stored = await storage.get(baseName);
+  return stored?.data ?? null;
+}
+
+/**
+ * Find the GEDCOM file of a GEDZIP package. Packages written before GEDZIP
+ * support named the file after the export date, so a single .ged file at the
+ * root is accepted too.
+ */
+function getGedzipGedcom(packageFiles: Map<string, Buffer>): string {
+  let content = packageFiles.get(GEDZIP_GEDCOM_FILE);
+  if (!content) {
+    const candidates = [...packageFiles.keys()].filter(
+      (name) => !name.includes("/") && name.toLowerCase().endsWith(".ged")
+    );
+    if (candidates.length === 1) {
+      content = packageFiles.get(candidates[0]);
+    }
+  }
+  if (!content) {
+    throw new Error(`GEDZIP file must contain ${GEDZIP_GEDCOM_FILE}`);
+  }
+  // Strip a UTF-8 byte order mark
+  return content.toString("utf8").replace(/^\uFEFF/, "");
+}
+
+/**
+ * Store the package files referenced by mapped media objects
+ *
+ * @param stripLocation - Leave GPS positions out of processed images
+ * @returns Stored files keyed by mapped media object id
+ */
+async function storeGedzipMedia(
+  mapped: MappingResult,
+  packageFiles: Map<string, Buffer>,
+  stripLocation: boolean
+): Promise<Map<string, StoredMediaFile>> {
+  const uploads = new Map<string, StoredMediaFile>();
+
+  try {
+    for (const media of mapped.mediaObjects) {
+      if (!media.id) continue;
+
+      const content = findPackageFile(media.filePath, packageFiles);
+      if (!content) {
+        log.info(
+          { filePath: media.filePath },
+          "Media file not found in GEDZip package"
+        );
+        continue;
+      }
+
+      uploads.set(
+        media.id,
+        await storeMediaFile(content, media.mimeType, { stripLocation })
+      );
+    }
+  } catch (error) {
+    await deleteGedzipMedia(uploads);
+    throw error;
+  }
+
+  return uploads;
+}
+
+/**
+ * Delete stored package files after a failed import. Cleanup failures are
+ * logged so they don't hide the error that failed the import.
+ */
+async function deleteGedzipMedia(
+  uploads: Map<string, StoredMediaFile>
+): Promise<void> {
+  for (const stored of uploads.values()) {
+    try {
+      await deleteStoredMediaFiles(stored);
+    } catch (error) {
+      log.withErr(error).msg("Failed to cleanup stored GEDZip media");
+    }
+  }
+}
+
+/**
+ * Look up a FILE path in a package. GEDZIP paths are URL-encoded relative
+ * references, but some writers store them unencoded.
+ */
+function findPackageFile(
+  filePath: string,
+  packageFiles: Map<string, Buffer>
+): Buffer | undefined {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(filePath)) {
+    return undefined;
+  }
+
+  const candidates = [filePath];
+  try {
+    candidates.unshift(decodeURIComponent(filePath));
+  } catch {
+    // Not URL-encoded
+  }
+
+  for (const candidate of candidates) {
+    try {
+      const content = packageFiles.get(normalizeZipPath(candidate));
+      if (content) return content;
+    } catch {
+      // Paths outside the package are never packaged files
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Insert the events, places, sources, citations and media of a mapped GEDCOM
+ * file. Places reuse an existing place with the same name, and media objects
+ * with an entry in uploads point at the stored file instead of the GEDCOM
+ * FILE path.
+ */
+async function insertGedcomRecords(
+  tx: GedcomTx,
+  mapped: MappingResult,
+  userId: string,
+  uploads: Map<string, StoredMediaFile> = new Map()
+): Promise<void> {
+  const now = new Date();
+
+  const existingPlaces = await tx.query.places.findMany({
+    columns: { id: true, name: true },
+  });
+  const placeIdsByName = new Map(
+    existingPlaces.map((place) => [place.name, place.id])
+  );
+  const placeIds = new Map<string | undefined, string>();
+  for (const place of mapped.places) {
+    let placeId = placeIdsByName.get(place.name);
+    if (!placeId) {
+      placeId = place.id || crypto.randomUUID();
+      await tx.insert(drizzleSchema.places).values({
+        id: placeId,
+        name: place.name,
+        placeType: "OTHER",
+        latitude: place.latitude,
+        longitude: place.longitude,
+        createdAt: now,
+        updatedAt: now,
+      });
+      placeIdsByName.set(place.name, placeId);
+    }
+    placeIds.set(place.id, placeId);
+  }
+
+  for (const source of mapped.sources) {
+    await tx.insert(drizzleSchema.sources).values({
+      id: source.id || crypto.randomUUID(),
+      title: source.title,
+      author: source.author,
+      publicationDate: source.publicationDate,
+      description: source.description,
+      repository: source.repository,
+      callNumber: source.callNumber,
+      notes: source.notes,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  for (const media of mapped.mediaObjects) {
+    const stored = media.id ? uploads.get(media.id) : undefined;
+    await tx.insert(drizzleSchema.mediaObjects).values({
+      id: media.id || crypto.randomUUID(),
+      filePath: stored?.filePath ?? media.filePath,
+      format: media.format,
+      mimeType: media.mimeType,
+      fileSize: stored?.fileSize ?? media.fileSize,
+      title: media.title,
+      description: media.description ?? stored?.metadata?.caption,
+      width: stored?.width,
+      height: stored?.height,
+      webpPath: stored?.webpPath,
+      thumb400Path: stored?.thumb400Path,
+      thumb800Path: stored?.thumb800Path,
+      thumb1200Path: stored?.thumb1200Path,
+      capturedAt: stored?.metadata?.capturedAt,
+      latitude: stored?.metadata?.latitude,
+      longitude: stored?.metadata?.longitude,
+      camera: stored?.metadata?.camera,
+      duration: stored?.duration,
+      pageCount: stored?.pageCount,
+      uploadedAt: now,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  for (const event of mapped.events) {
+    const eventId = event.id || crypto.randomUUID();
+    await tx.insert(drizzleSchema.events).values({
+      id: eventId,
+      personId: event.personId,
+      type: event.type,
+      date: event.date,
+      dateDetail: event.dateDetail ?? null,
+      place: event.place,
+      placeId: event.placeId ? placeIds.get(event.placeId) : undefined,
+      description: event.description,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    for (const participant of event.participants ?? []) {
+      await tx.insert(drizzleSchema.eventParticipants).values({
+        id: crypto.randomUUID(),
+        eventId,
+        personId: participant.personId,
+        role: participant.role,
+        createdAt: now,
+      });
+    }
+  }
+
+  for (const citation of mapped.eventSources) {
+    await tx.insert(drizzleSchema.eventSources).values({
+      id: citation.id || crypto.randomUUID(),
+      sourceId: citation.sourceId,
+      personId: citation.personId,
+      eventType: citation.eventType,
+      confidence: citation.confidence,
+      sourceNotes: citation.sourceNotes,
+    });
+  }
+
+  for (const note of mapped.researchNotes) {
+    await tx.insert(drizzleSchema.researchNotes).values({
+      id: note.id || crypto.randomUUID(),
+      sourceId: note.sourceId,
+      personId: note.personId,
+      eventType: note.eventType,
+      findings: note.findings,
+      createdById: userId,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  for (const link of mapped.personMedia) {
+    await tx.insert(drizzleSchema.personMedias).values({
+      id: link.id || crypto.randomUUID(),
+      personId: link.personId,
+      mediaId: link.mediaId,
+      isPrimary: link.isPrimary ?? false,
+      displayOrder: link.displayOrder,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  for (const link of mapped.eventMedia) {
+    await tx.insert(drizzleSchema.eventMedias).values({
+      id: link.id || crypto.randomUUID(),
+      mediaId: link.mediaId,
+      personId: link.personId,
+      eventType: link.eventType,
+    });
+  }
+}
+
+/**
+ * Fetch the events, places, sources, citations and media exported alongside
+ * people and relationships
+ */
+async function fetchGedcomRecords(db: GedcomDb): Promise<VamsaGenealogyData> {
+  const events = await db.query.events.findMany({
+    orderBy: [
+      asc(drizzleSchema.events.date),
+      asc(drizzleSchema.events.createdAt),
+    ],
+  });
+  const participants = await db.query.eventParticipants.findMany();
+  const places = await db.query.places.findMany();
+  const sources = await db.query.sources.findMany({
+    orderBy: asc(drizzleSchema.sources.createdAt),
+  });
+  const eventSources = await db.query.eventSources.findMany();
+  const researchNotes = await db.query.researchNotes.findMany({
+    orderBy: asc(drizzleSchema.researchNotes.createdAt),
+  });
+  const mediaObjects = await db.query.mediaObjects.findMany({
+    orderBy: asc(drizzleSchema.mediaObjects.uploadedAt),
+  });
+  const personMedia = await db.query.personMedias.findMany();
+  const eventMedia = await db.query.eventMedias.findMany();
+
+  return {
+    events: events.map((event) => ({
+      id: event.id,
+      personId: event.personId,
+      type: event.type,
+      date: event.date ?? undefined,
+      dateDetail: event.dateDetail as GenealogicalDate | null,
+      place: event.place ?? undefined,
+      placeId: event.placeId ?? undefined,
+      description: event.description ?? undefined,
+      participants: participants
+        .filter((participant) => participant.eventId === event.id)
+        .map((participant) => ({
+          personId: participant.personId,
+          role: participant.role ?? undefined,
+        })),
+    })),
+    places: places.map((place) => ({
+      id: place.id,
+      name: place.name,
+      latitude: place.latitude ?? undefined,
+      longitude: place.longitude ?? undefined,
+    })),
+    sources: sources.map((source) => ({
+      id: source.id,
+      title: source.title,
+      author: source.author ?? undefined,
+      publicationDate: source.publicationDate ?? undefined,
+      description: source.description ?? undefined,
+      repository: source.repository ?? undefined,
+      callNumber: source.callNumber ?? undefined,
+      notes: source.notes ?? undefined,
+    })),
+    eventSources: eventSources.map((citation) => ({
+      id: citation.id,
+      sourceId: citation.sourceId,
+      personId: citation.personId,
+      eventType: citation.eventType,
+      confidence:
+        citation.confidence === "HIGH" ||
+        citation.confidence === "MEDIUM" ||
+        citation.confidence === "LOW"
+          ? citation.confidence
+          : undefined,
+      sourceNotes: citation.sourceNotes ?? undefined,
+    })),
+    researchNotes: researchNotes.map((note) => ({
+      id: note.id,
+      sourceId: note.sourceId,
+      personId: note.personId,
+      eventType: note.eventType,
+      findings: note.findings,
+    })),
+    mediaObjects: mediaObjects.map((media) => ({
+      id: media.id,
+      filePath: media.filePath,
+      format: media.format,
+      mimeType: media.mimeType,
+      fileSize: media.fileSize,
+      title: media.title ?? undefined,
+      description: media.description ?? undefined,
+      width: media.width ?? undefined,
+      height: media.height ?? undefined,
+    })),
+    personMedia: personMedia.map((link) => ({
+      id: link.id,
+      personId: link.personId,
+      mediaId: link.mediaId,
+      isPrimary: link.isPrimary,
+      displayOrder: link.displayOrder,
+      region:
+        link.regionX !== null &&
+        link.regionY !== null &&
+        link.regionWidth !== null &&
+        link.regionHeight !== null
+          ? {
+              x: link.regionX,
+              y: link.regionY,
+              width: link.regionWidth,
+              height: link.regionHeight,
+            }
+          : undefined,
+    })),
+    eventMedia: eventMedia.map((link) => ({
+      id: link.id,
+      mediaId: link.mediaId,
+      personId: link.personId,
+      eventType: link.eventType,
+    })),
+  };
+}
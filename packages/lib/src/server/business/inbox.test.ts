@@ -0,0 +1,248 @@
+/**
+ * Unit tests for inbox server business logic
+ *
+ * Tests cover:
+ * - getNotificationLink: Deep links to the affected person or suggestion queue
+ * - createInboxNotificationsData: One inbox item per recipient
+ * - listInboxNotificationsData: Paging, serialization and unread count
+ * - markNotificationReadData: Marking one of the user's notifications read
+ * - markAllNotificationsReadData: Marking all unread notifications read
+ */
+
+import { describe, expect, it, vi } from "vitest";
+import {
+  createInboxNotificationsData,
+  getNotificationLink,
+  listInboxNotificationsData,
+  markAllNotificationsReadData,
+  markNotificationReadData,
+} from "./inbox";
+
+const createdAt = new Date("2026-03-01T08:00:00.000Z");
+
+function notificationRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "notification-1",
+    userId: "user-1",
+    type: "birthday_reminder",
+    title: "Birthday today",
+    body: "Today is Asha Rao's birthday.",
+    data: { personId: "person-1" },
+    readAt: null,
+    sentAt: createdAt,
+    createdAt,
+    ...overrides,
+  };
+}
+
+function createDb(options: {
+  counts?: Array<number>;
+  rows?: Array<unknown>;
+  found?: unknown;
+  updated?: Array<{ id: string }>;
+}) {
+  const counts = [...(options.counts ?? [])];
+  const insertValues = vi.fn(() => Promise.resolve());
+  const updateSet = vi.fn(() => ({
+    where: vi.fn(() =>
+      Object.assign(Promise.resolve(), {
+        returning: vi.fn(() => Promise.resolve(options.updated ?? [])),
+      })
+    ),
+  }));
+
+  const db = {
+    select: vi.fn(() => ({
+      from: vi.fn(() => ({
+        where: vi.fn(() => Promise.resolve([{ count: counts.shift() ?? 0 }])),
+      })),
+    })),
+    insert: vi.fn(() => ({ values: insertValues })),
+    update: vi.fn(() => ({ set: updateSet })),
+    query: {
+      notifications: {
+        findMany: vi.fn(async () => options.rows ?? []),
+        findFirst: vi.fn(async () => options.found ?? null),
+      },
+    },
+  };
+
+  return { db: db as any, insertValues, updateSet };
+}
+
+describe("Inbox Business Logic", () => {
+  describe("getNotificationLink", () => {
+    it("should link suggestion alerts to the review queue", () => {
+      expect(
+        getNotificationLink("suggestion_created", {
+          suggestionId: "suggestion-1",
+          personId: "person-1",
+        })
+      ).toBe("/admin/suggestions");
+    });
+
+    it("should link to the affected person", () => {
+      expect(
+        getNotificationLink("suggestion_reviewed", {
+          suggestionId: "suggestion-1",
+          personId: "person-1",
+        })
+      ).toBe("/people/person-1");
+    });
+
+    it("should return null when nothing is affected", () => {
+      expect(getNotificationLink("new_member", { userId: "user-2" })).toBe(
+        null
+      );
+    });
+  });
+
+  describe("createInboxNotificationsData", () => {
+    it("should store one item per recipient", async () => {
+      const { db, insertValues } = createDb({});
+
+      const created = await createInboxNotificationsData(
+        ["user-1", "user-2", "user-1"],
+        {
+          title: "Birthday today",
+          body: "Today is Asha Rao's birthday.",
+          type: "birthday_reminder",
+          data: { personId: "person-1" },
+        },
+        db
+      );
+
+      expect(created).toBe(2);
+      const rows = (insertValues.mock.calls[0] as Array<any>)[0];
+      expect(rows).toHaveLength(2);
+      expect(rows[0]).toMatchObject({
+        userId: "user-1",
+        type: "birthday_reminder",
+        title: "Birthday today",
+        data: { personId: "person-1" },
+      });
+      expect(rows[1].userId).toBe("user-2");
+    });
+
+    it("should skip the insert when there are no recipients", async () => {
+      const { db } = createDb({});
+
+      const created = await createInboxNotificationsData(
+        [],
+        { title: "t", body: "b", type: "general" },
+        db
+      );
+
+      expect(created).toBe(0);
+      expect(db.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("listInboxNotificationsData", () => {
+    it("should return serialized items with links and the unread count", async () => {
+      const { db } = createDb({
+        counts: [21, 3],
+        rows: [notificationRow()],
+      });
+
+      const result = await listInboxNotificationsData(
+        "user-1",
+        { page: 2, limit: 10 },
+        db
+      );
+
+      expect(result.items).toEqual([
+        {
+          id: "notification-1",
+          type: "birthday_reminder",
+          title: "Birthday today",
+          body: "Today is Asha Rao's birthday.",
+          data: { personId: "person-1" },
+          link: "/people/person-1",
+          readAt: null,
+          createdAt: "2026-03-01T08:00:00.000Z",
+        },
+      ]);
+      expect(result.unreadCount).toBe(3);
+      expect(result.pagination).toMatchObject({
+        page: 2,
+        total: 21,
+        totalPages: 3,
+        hasNext: true,
+        hasPrev: true,
+      });
+      expect(db.query.notifications.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ limit: 10, offset: 10 })
+      );
+    });
+
+    it("should treat missing data as empty", async () => {
+      const { db } = createDb({
+        counts: [1, 0],
+        rows: [notificationRow({ type: "general", data: null })],
+      });
+
+      const result = await listInboxNotificationsData(
+        "user-1",
+        { page: 1, limit: 20, type: "general", unreadOnly: true },
+        db
+      );
+
+      expect(result.items[0]).toMatchObject({ data: {}, link: null });
+    });
+  });
+
+  describe("markNotificationReadData", () => {
+    it("should mark an unread notification read", async () => {
+      const { db, updateSet } = createDb({ found: notificationRow() });
+
+      const result = await markNotificationReadData(
+        "user-1",
+        "notification-1",
+        db
+      );
+
+      expect(updateSet).toHaveBeenCalledWith({ readAt: expect.any(Date) });
+      expect(result.readAt).not.toBeNull();
+    });
+
+    it("should leave an already read notification unchanged", async () => {
+      const readAt = new Date("2026-03-02T09:00:00.000Z");
+      const { db } = createDb({ found: notificationRow({ readAt }) });
+
+      const result = await markNotificationReadData(
+        "user-1",
+        "notification-1",
+        db
+      );
+
+      expect(db.update).not.toHaveBeenCalled();
+      expect(result.readAt).toBe("2026-03-02T09:00:00.000Z");
+    });
+
+    it("should throw when the notification is not the user's", async () => {
+      const { db } = createDb({ found: null });
+
+      await expect(
+        markNotificationReadData("user-2", "notification-1", db)
+      ).rejects.toThrow("Notification not found");
+    });
+  });
+
+  describe("markAllNotificationsReadData", () => {
+    it("should return the number of notifications marked read", async () => {
+      const { db, updateSet } = createDb({
+        updated: [{ id: "notification-1" }, { id: "notification-2" }],
+      });
+
+      const marked = await markAllNotificationsReadData(
+        "user-1",
+        "birthday_reminder",
+        db
+      );
+
+      expect(marked).toBe(2);
+      expect(updateSet).toHaveBeenCalledWith({ readAt: expect.any(Date) });
+    });
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Inbox Server Module - Business Logic for In-App Notifications
+ *
+ * Every notification sent to a user is also stored as a row in the
+ * Notification table, which backs the inbox on web and mobile. This module
+ * lists a user's inbox items, counts unread items and marks them read.
+ *
+ * Exported Functions:
+ * - createInboxNotificationsData: Stores a notification for each recipient
+ * - listInboxNotificationsData: Lists a user's notifications, newest first
+ * - getUnreadNotificationCountData: Counts a user's unread notifications
+ * - markNotificationReadData: Marks one notification read
+ * - markAllNotificationsReadData: Marks all (or all of one type) read
+ * - getNotificationLink: Resolves the page a notification points to
+ */
+
+import { createPaginationMeta } from "@vamsa/schemas";
+import { and, count, desc, eq, isNull } from "drizzle-orm";
+import { drizzleDb, drizzleSchema } from "../db";
+import type { NotificationPayload } from "../notifications/types";
+
+/** Type for the database instance (for DI) */
+export type InboxDb = typeof drizzleDb;
+
+/**
+ * Options for listing a user's notifications
+ */
+export interface InboxListOptions {
+  page: number;
+  limit: number;
+  type?: string;
+  unreadOnly?: boolean;
+}
+
+/**
+ * A notification as shown in the inbox
+ */
+export interface InboxNotification {
+  id: string;
+  type: string;
+  title: string;
+  body: string;
+  data: Record<string, string>;
+  /** Web path of the affected person or suggestion, if any */
+  link: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * Result type for a page of inbox notifications
+ */
+export interface InboxListResult {
+  items: Array<InboxNotification>;
+  unreadCount: number;
+  pagination: ReturnType<typeof createPaginationMeta>;
+}
+
+/**
+ * Resolve the web path a notification links to
+ *
+ * @param type - Notification type
+ * @param data - Notification payload data
+ * @returns Path of the affected person or the suggestion queue, or null
+ */
+export function getNotificationLink(
+  type: string,
+  data: Record<string, string>
+): string | null {
+  if (type === "suggestion_created") {
+    return "/admin/suggestions";
+  }
+  if (data.personId) {
+    return `/people/${data.personId}`;
+  }
+  return null;
+}
+
+function toInboxNotification(
+  row: typeof drizzleSchema.notifications.$inferSelect
+): InboxNotification {
+  const data = (row.data ?? {}) as Record<string, string>;
+  return {
+    id: row.id,
+    type: row.type,
+    title: row.title,
+    body: row.body,
+    data,
+    link: getNotificationLink(row.type, data),
+    readAt: row.readAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Store a notification in the inbox of each recipient
+ *
+ * @param userIds - Recipients; duplicates are ignored
+ * @param payload - Notification title, body, type and data
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @returns Number of inbox items created
+ */
+export async function createInboxNotificationsData(
+  userIds: Array<string>,
+  payload: NotificationPayload,
+  db: InboxDb = drizzleDb
+): Promise<number> {
+  const recipients = [...new Set(userIds)];
+  if (recipients.length === 0) {
+    return 0;
+  }
+
+  const now = new Date();
+  await db.insert(drizzleSchema.notifications).values(
+    recipients.map((userId) => ({
+      id: crypto.randomUUID(),
+      userId,
+      type: payload.type,
+      title: payload.title,
+      body: payload.body,
+      data: payload.data ?? null,
+      sentAt: now,
+      createdAt: now,
+    }))
+  );
+
+  return recipients.length;
+}
+
+/**
+ * Count a user's unread notifications
+ *
+ * @param userId - ID of the inbox owner
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @returns Number of unread notifications
+ */
+export async function getUnreadNotificationCountData(
+  userId: string,
+  db: InboxDb = drizzleDb
+): Promise<number> {
+  const result = await db
+    .select({ count: count() })
+    .from(drizzleSchema.notifications)
+    .where(
+      and(
+        eq(drizzleSchema.notifications.userId, userId),
+        isNull(drizzleSchema.notifications.readAt)
+      )
+    );
+
+  return result[0]?.count ?? 0;
+}
+
+/**
+ * List a user's notifications, newest first
+ *
+ * @param userId - ID of the inbox owner
+ * @param options - Page, limit and optional type and unread filters
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @returns Page of notifications with the user's total unread count
+ */
+export async function listInboxNotificationsData(
+  userId: string,
+  options: InboxListOptions,
+  db: InboxDb = drizzleDb
+): Promise<InboxListResult> {
+  const { page, limit, type, unreadOnly } = options;
+
+  const conditions = [eq(drizzleSchema.notifications.userId, userId)];
+  if (type) {
+    conditions.push(eq(drizzleSchema.notifications.type, type));
+  }
+  if (unreadOnly) {
+    conditions.push(isNull(drizzleSchema.notifications.readAt));
+  }
+  const where = and(...conditions);
+
+  const totalResult = await db
+    .select({ count: count() })
+    .from(drizzleSchema.notifications)
+    .where(where);
+  const total = totalResult[0]?.count ?? 0;
+
+  const rows = await db.query.notifications.findMany({
+    where,
+    orderBy: desc(drizzleSchema.notifications.createdAt),
+    limit,
+    offset: (page - 1) * limit,
+  });
+
+  const unreadCount = await getUnreadNotificationCountData(userId, db);
+
+  return {
+    items: rows.map(toInboxNotification),
+    unreadCount,
+    pagination: createPaginationMeta(page, limit, total),
+  };
+}
+
+/**
+ * Mark one of a user's notifications read
+ *
+ * @param userId - ID of the inbox owner
+ * @param notificationId - ID of the notification
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @returns The updated notification
+ * @throws Error if the notification does not exist or belongs to another user
+ */
+export async function markNotificationReadData(
+  userId: string,
+  notificationId: string,
+  db: InboxDb = drizzleDb
+): Promise<InboxNotification> {
+  const notification = await db.query.notifications.findFirst({
+    where: and(
+      eq(drizzleSchema.notifications.id, notificationId),
+      eq(drizzleSchema.notifications.userId, userId)
+    ),
+  });
+
+  if (!notification) {
+    throw new Error("Notification not found");
+  }
+
+  if (notification.readAt) {
+    return toInboxNotification(notification);
+  }
+
+  const readAt = new Date();
+  await db
+    .update(drizzleSchema.notifications)
+    .set({ readAt })
+    .where(eq(drizzleSchema.notifications.id, notificationId));
+
+  return toInboxNotification({ ...notification, readAt });
+}
+
+/**
+ * Mark all of a user's unread notifications read
+ *
+ * @param userId - ID of the inbox owner
+ * @param type - Only mark notifications of this type (optional)
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @returns Number of notifications marked read
+ */
+export async function markAllNotificationsReadData(
+  userId: string,
+  type?: string,
+  db: InboxDb = drizzleDb
+): Promise<number> {
+  const conditions = [
+    eq(drizzleSchema.notifications.userId, userId),
+    isNull(drizzleSchema.notifications.readAt),
+  ];
+  if (type) {
+    conditions.push(eq(drizzleSchema.notifications.type, type));
+  }
+
+  const updated = await db
+    .update(drizzleSchema.notifications)
+    .set({ readAt: new Date() })
+    .where(and(...conditions))
+    .returning({ id: drizzleSchema.notifications.id });
+
+  return updated.length;
+}
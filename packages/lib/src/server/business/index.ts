@@ -24,10 +24,16 @@
 // Authentication & Authorization (Better Auth)
 // ============================================================================
 export * from "./account-lockout";
+export * from "./api-tokens";
 export * from "./auth";
 export * from "./auth-better";
 export * from "./auth-better-api";
 
+// ============================================================================
+// Audit Log
+// ============================================================================
+export * from "./audit";
+
 // ============================================================================
 // Backup & Restore
 // ============================================================================
@@ -85,14 +91,23 @@ export * from "./metrics";
 // ============================================================================
 // Notifications & Alerts
 // ============================================================================
+export * from "./inbox";
 export * from "./notifications";
+export * from "./notification-digest";
 
 // ============================================================================
 // People & Relationships
 // ============================================================================
+export * from "./duplicates";
+export * from "./consistency";
 export * from "./persons";
 export * from "./relationships";
 
+// ============================================================================
+// Privacy & Redaction
+// ============================================================================
+export * from "./privacy";
+
 // ============================================================================
 // Settings & Configuration
 // ============================================================================
@@ -107,8 +122,15 @@ export * from "./sources";
 // Suggestions & AI
 // ============================================================================
 export * from "./suggestions";
+export * from "./ai-chat";
+export * from "./document-extraction";
 
 // ============================================================================
 // User Management
 // ============================================================================
 export * from "./users";
+
+// ============================================================================
+// Webhooks
+// ============================================================================
+export * from "./webhooks";
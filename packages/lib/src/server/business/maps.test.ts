@@ -19,6 +19,7 @@ import {
   getPlacesByTimeRangeData,
   getPlacesForMapData,
 } from "./maps";
+import { SYSTEM_VIEWER } from "./privacy";
 import type { MapMarker as SourceMapMarker } from "./maps";
 
 // Mock logger
@@ -475,7 +476,7 @@ describe("maps business logic - geographic calculations", () => {
       const mockDb = createMockDb({ persons: [] });
 
       await expect(
-        getPersonLocationsData("missing-id", mockDb)
+        getPersonLocationsData("missing-id", mockDb, SYSTEM_VIEWER)
       ).rejects.toThrow("Person not found");
     });
 
@@ -488,7 +489,11 @@ describe("maps business logic - geographic calculations", () => {
 
       const mockDb = createMockDb({ persons: [person], personLinks: [] });
 
-      const result = await getPersonLocationsData("person1", mockDb);
+      const result = await getPersonLocationsData(
+        "person1",
+        mockDb,
+        SYSTEM_VIEWER
+      );
 
       expect(result).toBeDefined();
       expect(result.person.id).toBe("person1");
@@ -504,7 +509,11 @@ describe("maps business logic - geographic calculations", () => {
 
       const mockDb = createMockDb({ persons: [person] });
 
-      const result = await getPersonLocationsData("person1", mockDb);
+      const result = await getPersonLocationsData(
+        "person1",
+        mockDb,
+        SYSTEM_VIEWER
+      );
 
       expect(result.person.firstName).toBe("Jane");
       expect(result.person.lastName).toBe("Smith");
@@ -1,6 +1,12 @@
 import { drizzleDb, drizzleSchema } from "@vamsa/api";
 import { and, asc, count, eq, gte, inArray, lte, sql } from "drizzle-orm";
 import { loggers } from "@vamsa/lib/logger";
+import {
+  applyPersonPrivacy,
+  getPrivacyPolicy,
+  isPersonRedacted,
+} from "./privacy";
+import type { PrivacyViewer } from "./privacy";
 
 const log = loggers.db;
 
@@ -252,11 +258,13 @@ export async function getPlacesForMapData(
  * Get all places associated with a specific person for map visualization
  * @param personId - ID of the person to get locations for
  * @param db - Drizzle database instance
- * @returns Object containing person markers and person details
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
+ * @returns Object containing person markers and person details (no markers for redacted persons)
  */
 export async function getPersonLocationsData(
   personId: string,
-  db: MapsDb = drizzleDb
+  db: MapsDb = drizzleDb,
+  viewer: PrivacyViewer
 ): Promise<{
   markers: Array<PersonLocationMarker>;
   total: number;
@@ -266,6 +274,7 @@ export async function getPersonLocationsData(
     lastName: string;
   };
 }> {
+  const privacy = await getPrivacyPolicy(viewer, db);
   const person = await db.query.persons.findFirst({
     where: eq(drizzleSchema.persons.id, personId),
   });
@@ -274,6 +283,20 @@ export async function getPersonLocationsData(
     throw new Error("Person not found");
   }
 
+  // Where someone lives is exactly what redaction protects
+  if (isPersonRedacted(privacy, person)) {
+    const placeholder = applyPersonPrivacy(privacy, person);
+    return {
+      markers: [],
+      total: 0,
+      person: {
+        id: placeholder.id,
+        firstName: placeholder.firstName,
+        lastName: placeholder.lastName,
+      },
+    };
+  }
+
   // Get places from person-place links
   const personPlaceLinks = await db.query.placePersonLinks.findMany({
     where: eq(drizzleSchema.placePersonLinks.personId, personId),
@@ -373,6 +396,8 @@ export async function getPersonLocationsData(
               firstName: true,
               lastName: true,
               photoUrl: true,
+              isLiving: true,
+              privacy: true,
             },
           },
         },
@@ -399,12 +424,15 @@ export async function getPersonLocationsData(
         eventTypes,
         timeRange,
         personIds: peopleAtPlace.map((p) => p.personId),
-        people: peopleAtPlace.map((p) => ({
-          id: p.person.id,
-          firstName: p.person.firstName,
-          lastName: p.person.lastName,
-          photoUrl: p.person.photoUrl,
-        })),
+        people: peopleAtPlace.map((p) => {
+          const visible = applyPersonPrivacy(privacy, p.person);
+          return {
+            id: visible.id,
+            firstName: visible.firstName,
+            lastName: visible.lastName,
+            photoUrl: visible.photoUrl,
+          };
+        }),
       });
     } catch (error) {
       log
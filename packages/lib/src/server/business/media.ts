@@ -8,20 +8,47 @@
  * This layer is designed for testability and reusability.
  */
 
-import { mkdir, writeFile } from "node:fs/promises";
-import { existsSync } from "node:fs";
-import path from "node:path";
 import { randomUUID } from "node:crypto";
-import { and, eq } from "drizzle-orm";
+import { and, asc, between, desc, eq, inArray, isNotNull } from "drizzle-orm";
 import { drizzleDb, drizzleSchema } from "@vamsa/api";
+import { getStorageProvider, mediaPathToStorageKey } from "@vamsa/api/storage";
+import { isApproximateDate, toGenealogicalDate } from "@vamsa/lib";
 // Import directly from media processor to avoid circular barrel imports
 import {
-  cleanupOldImages,
-  getMediaDir,
+  generateRegionCrop,
   processUploadedImage,
+  renderPdfFirstPage,
 } from "@vamsa/lib/media/processor";
+import {
+  DEFAULT_MEDIA_SIZE_LIMITS,
+  TRANSCRIPT_MIME_TYPES,
+  getMediaExtension,
+  getMediaKind,
+  getMediaSizeLimit,
+} from "@vamsa/lib/media/media-kinds";
+import {
+  readMediaDuration,
+  readPdfPageCount,
+} from "@vamsa/lib/media/file-info";
 import { loggers } from "@vamsa/lib/logger";
 import { recordMediaUpload } from "../metrics";
+import { calculateDistance } from "./maps";
+import { canViewRecord, getPrivacyPolicy, isPersonRedacted } from "./privacy";
+import { logEntityAuditAction } from "./audit";
+import { emitWebhookEvent } from "./webhooks";
+import { submitEditForApprovalData } from "./suggestions";
+import type { ImageMetadata } from "@vamsa/lib/media/metadata";
+import type { MediaKind, MediaSizeLimits } from "@vamsa/lib/media/media-kinds";
+import type { ProcessedImage } from "@vamsa/lib/media/processor";
+import type {
+  ApiMediaUploadInput,
+  MediaRegion,
+  PrivacyLevel,
+  StagedMediaUploadInput,
+} from "@vamsa/schemas";
+import type { PrivacyViewer } from "./privacy";
+import type { AuditActor } from "./audit";
+import type { PendingApprovalResult } from "./suggestions";
 
 const log = loggers.media;
 
@@ -31,18 +58,27 @@ const log = loggers.media;
  */
 export type MediaDb = typeof drizzleDb;
 
+/** Distance from a photo's GPS position within which places are suggested */
+const PLACE_SUGGESTION_RADIUS_METERS = 25_000;
+
+/** Most places suggested for a photo */
+const MAX_PLACE_SUGGESTIONS = 5;
+
 /**
  * Retrieve all media associated with a person
  *
  * @param personId - The ID of the person
  * @param db - Optional database client (defaults to drizzleDb)
- * @returns Object containing array of person media items and total count
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
+ * @returns Object containing array of person media items visible to the viewer and total count
  * @throws Error if person not found
  */
 export async function getPersonMediaLogic(
   personId: string,
-  db: MediaDb = drizzleDb
+  db: MediaDb = drizzleDb,
+  viewer: PrivacyViewer
 ) {
+  const privacy = await getPrivacyPolicy(viewer, db);
   // Verify person exists
   const person = await db
     .select()
@@ -69,8 +105,13 @@ export async function getPersonMediaLogic(
       drizzleSchema.personMedias.createdAt
     );
 
+  const ownerRedacted = isPersonRedacted(privacy, person[0]);
+  const visibleMedia = personMedia.filter((pm) =>
+    canViewRecord(privacy, pm.MediaObject ?? {}, ownerRedacted)
+  );
+
   return {
-    items: personMedia.map((pm) => ({
+    items: visibleMedia.map((pm) => ({
       id: pm.PersonMedia.id,
       mediaId: pm.MediaObject?.id ?? "",
       filePath: pm.MediaObject?.filePath ?? "",
@@ -87,13 +128,18 @@ export async function getPersonMediaLogic(
       thumb400Path: pm.MediaObject?.thumb400Path ?? null,
       thumb800Path: pm.MediaObject?.thumb800Path ?? null,
       thumb1200Path: pm.MediaObject?.thumb1200Path ?? null,
+      duration: pm.MediaObject?.duration ?? null,
+      pageCount: pm.MediaObject?.pageCount ?? null,
+      transcriptPath: pm.MediaObject?.transcriptPath ?? null,
+      privacy: (pm.MediaObject?.privacy as PrivacyLevel | null) ?? null,
       uploadedAt: pm.MediaObject?.uploadedAt?.toISOString() ?? "",
       caption: pm.PersonMedia.caption,
       isPrimary: pm.PersonMedia.isPrimary,
       displayOrder: pm.PersonMedia.displayOrder,
+      region: getLinkRegion(pm.PersonMedia),
       createdAt: pm.PersonMedia.createdAt.toISOString(),
     })),
-    total: personMedia.length,
+    total: visibleMedia.length,
   };
 }
 
@@ -102,13 +148,16 @@ export async function getPersonMediaLogic(
  *
  * @param mediaId - The ID of the media object
  * @param db - Optional database client (defaults to drizzleDb)
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
  * @returns Media object with event and person associations
- * @throws Error if media not found
+ * @throws Error if media not found or hidden from the viewer
  */
 export async function getMediaObjectLogic(
   mediaId: string,
-  db: MediaDb = drizzleDb
+  db: MediaDb = drizzleDb,
+  viewer: PrivacyViewer
 ) {
+  const privacy = await getPrivacyPolicy(viewer, db);
   const media = await db
     .select()
     .from(drizzleSchema.mediaObjects)
@@ -133,6 +182,28 @@ export async function getMediaObjectLogic(
     .from(drizzleSchema.personMedias)
     .where(eq(drizzleSchema.personMedias.mediaId, mediaId));
 
+  if (privacy.viewer.role !== "ADMIN") {
+    // Media inherits from the persons it shows; any redacted person hides it
+    const owners = personMedia.length
+      ? await db
+          .select()
+          .from(drizzleSchema.persons)
+          .where(
+            inArray(
+              drizzleSchema.persons.id,
+              personMedia.map((pm) => pm.personId)
+            )
+          )
+      : [];
+    const ownerRedacted = owners.some((owner) =>
+      isPersonRedacted(privacy, owner)
+    );
+
+    if (!canViewRecord(privacy, mediaObject, ownerRedacted)) {
+      throw new Error("Media not found");
+    }
+  }
+
   return {
     id: mediaObject.id,
     filePath: mediaObject.filePath,
@@ -149,6 +220,14 @@ export async function getMediaObjectLogic(
     thumb400Path: mediaObject.thumb400Path,
     thumb800Path: mediaObject.thumb800Path,
     thumb1200Path: mediaObject.thumb1200Path,
+    duration: mediaObject.duration,
+    pageCount: mediaObject.pageCount,
+    transcriptPath: mediaObject.transcriptPath,
+    capturedAt: mediaObject.capturedAt?.toISOString() ?? null,
+    latitude: mediaObject.latitude,
+    longitude: mediaObject.longitude,
+    camera: mediaObject.camera,
+    placeId: mediaObject.placeId,
     uploadedAt: mediaObject.uploadedAt.toISOString(),
     createdAt: mediaObject.createdAt.toISOString(),
     updatedAt: mediaObject.updatedAt.toISOString(),
@@ -163,6 +242,7 @@ export async function getMediaObjectLogic(
       isPrimary: pm.isPrimary,
       caption: pm.caption,
       displayOrder: pm.displayOrder,
+      region: getLinkRegion(pm),
     })),
   };
 }
@@ -172,11 +252,13 @@ export async function getMediaObjectLogic(
  * Cascades to PersonMedia and EventMedia via foreign key constraints
  *
  * @param mediaId - The ID of the media to delete
+ * @param userId - User deleting the media
  * @param db - Optional database client (defaults to drizzleDb)
  * @throws Error if media not found
  */
 export async function deleteMediaLogic(
   mediaId: string,
+  userId: AuditActor,
   db: MediaDb = drizzleDb
 ) {
   // Verify media exists
@@ -190,17 +272,38 @@ export async function deleteMediaLogic(
     throw new Error("Media not found");
   }
 
+  // Remember who it was linked to before the links cascade away
+  const links = await db
+    .select({ personId: drizzleSchema.personMedias.personId })
+    .from(drizzleSchema.personMedias)
+    .where(eq(drizzleSchema.personMedias.mediaId, mediaId));
+
   // Delete the media object (will cascade delete PersonMedia and EventMedia)
   await db
     .delete(drizzleSchema.mediaObjects)
     .where(eq(drizzleSchema.mediaObjects.id, mediaId));
 
-  // Clean up processed images
+  for (const personId of links.length > 0
+    ? links.map((link) => link.personId)
+    : [null]) {
+    await logEntityAuditAction(
+      {
+        userId,
+        action: "DELETE",
+        entityType: "MEDIA",
+        entityId: mediaId,
+        personId,
+        previousData: media[0],
+      },
+      db
+    );
+  }
+
+  // Clean up the stored file and its processed images
   try {
-    const mediaDir = getMediaDir();
-    await cleanupOldImages(mediaId, mediaDir);
+    await deleteStoredMediaFiles(media[0]);
   } catch (error) {
-    log.withErr(error).msg("Failed to cleanup processed images");
+    log.withErr(error).msg("Failed to cleanup stored media files");
     // Continue - deletion succeeded even if cleanup failed
   }
 
@@ -215,6 +318,8 @@ export async function deleteMediaLogic(
  * @param description - New description (optional)
  * @param caption - New caption for primary person (optional)
  * @param source - New source (optional)
+ * @param privacy - New privacy level, null to inherit from linked persons (optional)
+ * @param userId - User updating the media
  * @param db - Optional database client (defaults to drizzleDb)
  * @returns Updated media object
  * @throws Error if media not found
@@ -225,6 +330,8 @@ export async function updateMediaMetadataLogic(
   description: string | undefined,
   caption: string | undefined,
   source: string | undefined,
+  privacy: PrivacyLevel | null | undefined,
+  userId: AuditActor,
   db: MediaDb = drizzleDb
 ) {
   // Verify media exists
@@ -241,13 +348,15 @@ export async function updateMediaMetadataLogic(
   const mediaObject = media[0];
 
   // Update media metadata
+  const changes = {
+    title: title ?? mediaObject.title,
+    description: description ?? mediaObject.description,
+    source: source ?? mediaObject.source,
+    privacy: privacy === undefined ? mediaObject.privacy : privacy,
+  };
   await db
     .update(drizzleSchema.mediaObjects)
-    .set({
-      title: title ?? mediaObject.title,
-      description: description ?? mediaObject.description,
-      source: source ?? mediaObject.source,
-    })
+    .set(changes)
     .where(eq(drizzleSchema.mediaObjects.id, mediaId));
 
   // Update caption in PersonMedia if provided
@@ -266,6 +375,19 @@ export async function updateMediaMetadataLogic(
     }
   }
 
+  await logEntityAuditAction(
+    {
+      userId,
+      action: "UPDATE",
+      entityType: "MEDIA",
+      entityId: mediaId,
+      personId: null,
+      previousData: mediaObject,
+      newData: caption === undefined ? changes : { ...changes, caption },
+    },
+    db
+  );
+
   // Fetch updated media
   const updated = await db
     .select()
@@ -287,6 +409,7 @@ export async function updateMediaMetadataLogic(
     width: updatedMedia.width,
     height: updatedMedia.height,
     thumbnailPath: updatedMedia.thumbnailPath,
+    privacy: updatedMedia.privacy ?? null,
     uploadedAt: updatedMedia.uploadedAt.toISOString(),
     createdAt: updatedMedia.createdAt.toISOString(),
     updatedAt: updatedMedia.updatedAt.toISOString(),
@@ -295,16 +418,20 @@ export async function updateMediaMetadataLogic(
 
 /**
  * Set a media object as the primary photo for a person
- * Unsets any previously primary photo
+ * Unsets any previously primary photo. When the person is tagged in a
+ * region of the image, the region becomes their avatar.
  *
  * @param personId - The ID of the person
  * @param mediaId - The ID of the media to set as primary
+ * @param userId - User setting the photo
  * @param db - Optional database client (defaults to drizzleDb)
- * @throws Error if person or media not found, or media doesn't belong to person
+ * @throws Error if person or media not found, media doesn't belong to
+ *   person, or media is not a photo
  */
 export async function setPrimaryPhotoLogic(
   personId: string,
   mediaId: string,
+  userId: AuditActor,
   db: MediaDb = drizzleDb
 ) {
   // Verify person exists
@@ -334,6 +461,16 @@ export async function setPrimaryPhotoLogic(
     throw new Error("Media not found for this person");
   }
 
+  const media = await db
+    .select({ mimeType: drizzleSchema.mediaObjects.mimeType })
+    .from(drizzleSchema.mediaObjects)
+    .where(eq(drizzleSchema.mediaObjects.id, mediaId))
+    .limit(1);
+
+  if (!media[0]?.mimeType.startsWith("image/")) {
+    throw new Error("Only photos can be the primary photo");
+  }
+
   // Unset previous primary photo
   await db
     .update(drizzleSchema.personMedias)
@@ -351,20 +488,214 @@ export async function setPrimaryPhotoLogic(
     .set({ isPrimary: true })
     .where(eq(drizzleSchema.personMedias.id, personMedia[0].id));
 
+  const region = getLinkRegion(personMedia[0]);
+  const photoUrl = region
+    ? await updateAvatarFromRegion(person[0], mediaId, region, db)
+    : undefined;
+
+  await logEntityAuditAction(
+    {
+      userId,
+      action: "UPDATE",
+      entityType: "MEDIA",
+      entityId: mediaId,
+      personId,
+      previousData: personMedia[0],
+      newData: photoUrl ? { isPrimary: true, photoUrl } : { isPrimary: true },
+    },
+    db
+  );
+
   return { success: true };
 }
 
+/**
+ * List the people linked to a media object with the regions they are
+ * tagged in
+ *
+ * @param mediaId - The ID of the media object
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
+ * @returns Image size and linked people, with a null region for untagged ones
+ * @throws Error if media not found or hidden from the viewer
+ */
+export async function getMediaRegionsLogic(
+  mediaId: string,
+  db: MediaDb = drizzleDb,
+  viewer: PrivacyViewer
+) {
+  const privacy = await getPrivacyPolicy(viewer, db);
+  const media = await db
+    .select()
+    .from(drizzleSchema.mediaObjects)
+    .where(eq(drizzleSchema.mediaObjects.id, mediaId))
+    .limit(1);
+
+  if (media.length === 0) {
+    throw new Error("Media not found");
+  }
+
+  const links = await db
+    .select()
+    .from(drizzleSchema.personMedias)
+    .innerJoin(
+      drizzleSchema.persons,
+      eq(drizzleSchema.personMedias.personId, drizzleSchema.persons.id)
+    )
+    .where(eq(drizzleSchema.personMedias.mediaId, mediaId))
+    .orderBy(
+      asc(drizzleSchema.persons.firstName),
+      asc(drizzleSchema.persons.lastName)
+    );
+
+  // Same rule as getMediaObjectLogic: any redacted person hides the media
+  const ownerRedacted = links.some((link) =>
+    isPersonRedacted(privacy, link.Person)
+  );
+  if (!canViewRecord(privacy, media[0], ownerRedacted)) {
+    throw new Error("Media not found");
+  }
+
+  return {
+    mediaId,
+    width: media[0].width,
+    height: media[0].height,
+    people: links.map((link) => ({
+      personId: link.Person.id,
+      firstName: link.Person.firstName,
+      lastName: link.Person.lastName,
+      isPrimary: link.PersonMedia.isPrimary,
+      region: getLinkRegion(link.PersonMedia),
+    })),
+  };
+}
+
+/**
+ * Tag the region of an image showing a person, or remove the tag
+ * Tagging someone not yet linked to the image links it to them. Retagging
+ * a person's primary photo refreshes their avatar.
+ *
+ * @param mediaId - The ID of the media object
+ * @param personId - The ID of the person shown
+ * @param region - Region as fractions (0-1) of the image, or null to remove the tag
+ * @param userId - User tagging the image
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @returns The person, media and stored region
+ * @throws Error if media or person not found, or the media is not an image
+ */
+export async function tagMediaRegionLogic(
+  mediaId: string,
+  personId: string,
+  region: MediaRegion | null,
+  userId: AuditActor,
+  db: MediaDb = drizzleDb
+) {
+  const media = await db
+    .select()
+    .from(drizzleSchema.mediaObjects)
+    .where(eq(drizzleSchema.mediaObjects.id, mediaId))
+    .limit(1);
+
+  if (media.length === 0) {
+    throw new Error("Media not found");
+  }
+
+  if (!media[0].mimeType.startsWith("image/")) {
+    throw new Error("Only images can be tagged");
+  }
+
+  const person = await db
+    .select()
+    .from(drizzleSchema.persons)
+    .where(eq(drizzleSchema.persons.id, personId))
+    .limit(1);
+
+  if (person.length === 0) {
+    throw new Error("Person not found");
+  }
+
+  const existing = await db
+    .select()
+    .from(drizzleSchema.personMedias)
+    .where(
+      and(
+        eq(drizzleSchema.personMedias.personId, personId),
+        eq(drizzleSchema.personMedias.mediaId, mediaId)
+      )
+    )
+    .limit(1);
+
+  // Nothing to remove from someone who is not in the picture
+  if (existing.length === 0 && !region) {
+    return { mediaId, personId, region: null };
+  }
+
+  const regionColumns = {
+    regionX: region?.x ?? null,
+    regionY: region?.y ?? null,
+    regionWidth: region?.width ?? null,
+    regionHeight: region?.height ?? null,
+  };
+
+  if (existing.length > 0) {
+    await db
+      .update(drizzleSchema.personMedias)
+      .set({ ...regionColumns, updatedAt: new Date() })
+      .where(eq(drizzleSchema.personMedias.id, existing[0].id));
+  } else {
+    // Tagged media goes after the person's other media
+    const last = await db
+      .select({ displayOrder: drizzleSchema.personMedias.displayOrder })
+      .from(drizzleSchema.personMedias)
+      .where(eq(drizzleSchema.personMedias.personId, personId))
+      .orderBy(desc(drizzleSchema.personMedias.displayOrder))
+      .limit(1);
+
+    await db.insert(drizzleSchema.personMedias).values({
+      id: randomUUID(),
+      personId,
+      mediaId,
+      isPrimary: false,
+      displayOrder: last.length > 0 ? last[0].displayOrder + 1 : 0,
+      ...regionColumns,
+      updatedAt: new Date(),
+    });
+  }
+
+  const photoUrl =
+    region && existing[0]?.isPrimary
+      ? await updateAvatarFromRegion(person[0], mediaId, region, db)
+      : undefined;
+
+  await logEntityAuditAction(
+    {
+      userId,
+      action: existing.length > 0 ? "UPDATE" : "CREATE",
+      entityType: "MEDIA",
+      entityId: mediaId,
+      personId,
+      previousData: existing[0],
+      newData: photoUrl ? { region, photoUrl } : { region },
+    },
+    db
+  );
+
+  return { mediaId, personId, region };
+}
+
 /**
  * Reorder media for a person by updating display order
  *
  * @param personId - The ID of the person
  * @param ordering - Array of {mediaId, order} pairs
+ * @param userId - User reordering the media
  * @param db - Optional database client (defaults to drizzleDb)
  * @throws Error if person not found
  */
 export async function reorderMediaLogic(
   personId: string,
   ordering: Array<{ mediaId: string; order: number }>,
+  userId: AuditActor,
   db: MediaDb = drizzleDb
 ) {
   // Verify person exists
@@ -396,6 +727,19 @@ export async function reorderMediaLogic(
         .update(drizzleSchema.personMedias)
         .set({ displayOrder: item.order })
         .where(eq(drizzleSchema.personMedias.id, personMedia[0].id));
+
+      await logEntityAuditAction(
+        {
+          userId,
+          action: "UPDATE",
+          entityType: "MEDIA",
+          entityId: item.mediaId,
+          personId,
+          previousData: { displayOrder: personMedia[0].displayOrder },
+          newData: { displayOrder: item.order },
+        },
+        db
+      );
     }
   }
 
@@ -408,6 +752,7 @@ export async function reorderMediaLogic(
  *
  * @param mediaId - The ID of the media
  * @param eventId - The ID of the event
+ * @param userId - User linking the media
  * @param db - Optional database client (defaults to drizzleDb)
  * @returns Created event media link
  * @throws Error if media or event not found, or link already exists
@@ -415,6 +760,7 @@ export async function reorderMediaLogic(
 export async function linkMediaToEventLogic(
   mediaId: string,
   eventId: string,
+  userId: AuditActor,
   db: MediaDb = drizzleDb
 ) {
   // Verify media exists
@@ -467,6 +813,18 @@ export async function linkMediaToEventLogic(
     eventType: eventRecord.type,
   });
 
+  await logEntityAuditAction(
+    {
+      userId,
+      action: "CREATE",
+      entityType: "MEDIA",
+      entityId: mediaId,
+      personId: eventRecord.personId,
+      newData: { eventId, eventType: eventRecord.type },
+    },
+    db
+  );
+
   return {
     id: linkId,
     mediaId,
@@ -476,47 +834,573 @@ export async function linkMediaToEventLogic(
 }
 
 /**
- * Get the upload directory path
- * Uses MEDIA_STORAGE_PATH env var or defaults to data/uploads/media
+ * Suggest the place and events a photo belongs to from its embedded
+ * metadata: places with coordinates near where it was taken, nearest
+ * first, and events dated the day it was taken. The place and events
+ * already linked to the photo are left out, as are events with
+ * approximate dates.
+ *
+ * @param mediaId - The ID of the media object
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
+ * @returns The linked place and the suggested places and events
+ * @throws Error if media not found or hidden from the viewer
+ */
+export async function getMediaSuggestionsLogic(
+  mediaId: string,
+  db: MediaDb = drizzleDb,
+  viewer: PrivacyViewer
+) {
+  const media = await getMediaObjectLogic(mediaId, db, viewer);
+  const privacy = await getPrivacyPolicy(viewer, db);
+
+  const linkedPlace = media.placeId
+    ? await db
+        .select({
+          id: drizzleSchema.places.id,
+          name: drizzleSchema.places.name,
+        })
+        .from(drizzleSchema.places)
+        .where(eq(drizzleSchema.places.id, media.placeId))
+        .limit(1)
+    : [];
+
+  const places: Array<{
+    id: string;
+    name: string;
+    placeType: string;
+    distance: number;
+  }> = [];
+  if (media.latitude !== null && media.longitude !== null) {
+    const photo = { latitude: media.latitude, longitude: media.longitude };
+    // One degree of latitude is about 111 km; narrow the search before
+    // measuring exact distances
+    const latitudeDelta = PLACE_SUGGESTION_RADIUS_METERS / 111_000;
+    const candidates = await db
+      .select({
+        id: drizzleSchema.places.id,
+        name: drizzleSchema.places.name,
+        placeType: drizzleSchema.places.placeType,
+        latitude: drizzleSchema.places.latitude,
+        longitude: drizzleSchema.places.longitude,
+      })
+      .from(drizzleSchema.places)
+      .where(
+        and(
+          between(
+            drizzleSchema.places.latitude,
+            photo.latitude - latitudeDelta,
+            photo.latitude + latitudeDelta
+          ),
+          isNotNull(drizzleSchema.places.longitude)
+        )
+      );
+
+    for (const candidate of candidates) {
+      if (candidate.id === media.placeId) continue;
+      if (candidate.latitude === null || candidate.longitude === null) {
+        continue;
+      }
+      const distance = calculateDistance(photo, {
+        latitude: candidate.latitude,
+        longitude: candidate.longitude,
+      });
+      if (distance <= PLACE_SUGGESTION_RADIUS_METERS) {
+        places.push({
+          id: candidate.id,
+          name: candidate.name,
+          placeType: candidate.placeType,
+          distance: Math.round(distance),
+        });
+      }
+    }
+    places.sort((a, b) => a.distance - b.distance);
+    places.splice(MAX_PLACE_SUGGESTIONS);
+  }
+
+  const events: Array<{
+    id: string;
+    type: string;
+    date: string;
+    personId: string;
+    firstName: string;
+    lastName: string;
+  }> = [];
+  if (media.capturedAt) {
+    // Capture times keep the camera's wall clock as UTC, so the UTC day
+    // is the day the photo was taken
+    const day = media.capturedAt.slice(0, 10);
+    const rows = await db
+      .select()
+      .from(drizzleSchema.events)
+      .innerJoin(
+        drizzleSchema.persons,
+        eq(drizzleSchema.events.personId, drizzleSchema.persons.id)
+      )
+      .where(eq(drizzleSchema.events.date, new Date(day)))
+      .orderBy(
+        asc(drizzleSchema.persons.lastName),
+        asc(drizzleSchema.persons.firstName)
+      );
+
+    for (const { Event: event, Person: person } of rows) {
+      const detail = toGenealogicalDate(event.dateDetail);
+      if (detail && isApproximateDate(detail)) continue;
+      if (
+        media.eventMedia.some(
+          (link) =>
+            link.personId === event.personId && link.eventType === event.type
+        )
+      ) {
+        continue;
+      }
+      if (
+        isPersonRedacted(privacy, person) ||
+        !canViewRecord(privacy, event, false)
+      ) {
+        continue;
+      }
+      events.push({
+        id: event.id,
+        type: event.type,
+        date: day,
+        personId: person.id,
+        firstName: person.firstName,
+        lastName: person.lastName,
+      });
+    }
+  }
+
+  return {
+    mediaId,
+    place: linkedPlace[0] ?? null,
+    places,
+    events,
+  };
+}
+
+/**
+ * Set the place where a photo was taken, or clear it
+ *
+ * @param mediaId - The ID of the media object
+ * @param placeId - The ID of the place, or null to clear it
+ * @param userId - User linking the media
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @returns The media and place IDs
+ * @throws Error if media or place not found
  */
-function getUploadDir(): string {
-  if (process.env.MEDIA_STORAGE_PATH) {
-    return process.env.MEDIA_STORAGE_PATH;
+export async function linkMediaToPlaceLogic(
+  mediaId: string,
+  placeId: string | null,
+  userId: AuditActor,
+  db: MediaDb = drizzleDb
+) {
+  const media = await db
+    .select()
+    .from(drizzleSchema.mediaObjects)
+    .where(eq(drizzleSchema.mediaObjects.id, mediaId))
+    .limit(1);
+
+  if (media.length === 0) {
+    throw new Error("Media not found");
   }
-  return path.join(process.cwd(), "data", "uploads", "media");
+
+  if (placeId) {
+    const place = await db
+      .select({ id: drizzleSchema.places.id })
+      .from(drizzleSchema.places)
+      .where(eq(drizzleSchema.places.id, placeId))
+      .limit(1);
+
+    if (place.length === 0) {
+      throw new Error("Place not found");
+    }
+  }
+
+  await db
+    .update(drizzleSchema.mediaObjects)
+    .set({ placeId, updatedAt: new Date() })
+    .where(eq(drizzleSchema.mediaObjects.id, mediaId));
+
+  await logEntityAuditAction(
+    {
+      userId,
+      action: "UPDATE",
+      entityType: "MEDIA",
+      entityId: mediaId,
+      personId: null,
+      previousData: { placeId: media[0].placeId },
+      newData: { placeId },
+    },
+    db
+  );
+
+  return { mediaId, placeId };
+}
+
+/**
+ * Tagged region of a person-media link, or null when the person is not
+ * tagged
+ */
+function getLinkRegion(link: {
+  regionX: number | null;
+  regionY: number | null;
+  regionWidth: number | null;
+  regionHeight: number | null;
+}): MediaRegion | null {
+  if (
+    link.regionX === null ||
+    link.regionY === null ||
+    link.regionWidth === null ||
+    link.regionHeight === null
+  ) {
+    return null;
+  }
+  return {
+    x: link.regionX,
+    y: link.regionY,
+    width: link.regionWidth,
+    height: link.regionHeight,
+  };
+}
+
+/**
+ * Crop a person's avatar from the region of an image they are tagged in
+ * and point their photo at it. The previous cropped avatar is removed.
+ * Avatars cannot be cropped without sharp or the original file; the
+ * person's photo is then left as it was.
+ *
+ * @returns The new photo URL, or undefined when no avatar was made
+ */
+async function updateAvatarFromRegion(
+  person: { id: string; photoUrl: string | null },
+  mediaId: string,
+  region: MediaRegion,
+  db: MediaDb
+): Promise<string | undefined> {
+  const media = await db
+    .select({ filePath: drizzleSchema.mediaObjects.filePath })
+    .from(drizzleSchema.mediaObjects)
+    .where(eq(drizzleSchema.mediaObjects.id, mediaId))
+    .limit(1);
+  if (media.length === 0) return undefined;
+
+  const storage = await getStorageProvider();
+  let avatarKey: string;
+  try {
+    const original = await storage.get(
+      mediaPathToStorageKey(media[0].filePath)
+    );
+    if (!original) return undefined;
+
+    const avatar = await generateRegionCrop(original.data, region);
+    // A fresh name per crop so browsers do not keep showing the old one
+    avatarKey = `avatars/${person.id}-${randomUUID()}.webp`;
+    await storage.put(avatarKey, avatar.buffer, "image/webp");
+  } catch (error) {
+    log.withErr(error).msg("Failed to crop avatar from tagged region");
+    return undefined;
+  }
+
+  const photoUrl = `/media/${avatarKey}`;
+  await db
+    .update(drizzleSchema.persons)
+    .set({ photoUrl, updatedAt: new Date() })
+    .where(eq(drizzleSchema.persons.id, person.id));
+
+  if (person.photoUrl?.startsWith("/media/avatars/")) {
+    try {
+      await storage.delete(mediaPathToStorageKey(person.photoUrl));
+    } catch (error) {
+      log.withErr(error).msg("Failed to delete previous avatar");
+    }
+  }
+
+  return photoUrl;
+}
+
+/**
+ * Delete a media object's original and processed files from storage
+ */
+export async function deleteStoredMediaFiles(media: {
+  filePath: string;
+  thumbnailPath?: string | null;
+  webpPath: string | null;
+  thumb400Path: string | null;
+  thumb800Path: string | null;
+  thumb1200Path: string | null;
+  transcriptPath?: string | null;
+}): Promise<void> {
+  const storage = await getStorageProvider();
+  const paths = [
+    media.filePath,
+    media.thumbnailPath,
+    media.webpPath,
+    media.thumb400Path,
+    media.thumb800Path,
+    media.thumb1200Path,
+    media.transcriptPath,
+  ].filter((mediaPath): mediaPath is string => !!mediaPath);
+
+  // Only touch files we stored; imported records may point at URLs or
+  // paths outside media storage
+  const keys = new Set(
+    paths
+      .filter((mediaPath) =>
+        /^(\/data\/uploads\/media|media\/(original|webp|thumbnails|responsive))\//.test(
+          mediaPath
+        )
+      )
+      .map((mediaPath) => mediaPathToStorageKey(mediaPath))
+  );
+
+  await Promise.all([...keys].map((key) => storage.delete(key)));
+}
+
+/**
+ * Saved media file with its processed image versions. PDF documents get
+ * image versions of their first page.
+ */
+export interface StoredMediaFile {
+  filePath: string;
+  format: string;
+  fileSize: number;
+  width: number | null;
+  height: number | null;
+  webpPath: string | null;
+  thumb400Path: string | null;
+  thumb800Path: string | null;
+  thumb1200Path: string | null;
+  processingDuration: number;
+  // Embedded EXIF, IPTC or XMP metadata of images
+  metadata: ImageMetadata | null;
+  // Length of audio and video recordings, in seconds
+  duration: number | null;
+  // Number of pages of PDF documents
+  pageCount: number | null;
+}
+
+/**
+ * Record the WebP and responsive versions of a processed image
+ */
+function applyProcessedImage(
+  stored: StoredMediaFile,
+  processed: ProcessedImage
+): void {
+  stored.webpPath = processed.webp.path;
+  stored.thumb400Path = processed.responsive[0]?.path || null;
+  stored.thumb800Path = processed.responsive[1]?.path || null;
+  stored.thumb1200Path = processed.responsive[2]?.path || null;
+}
+
+/**
+ * Whether GPS positions are left out of the images generated from
+ * uploaded photos (FamilySettings.stripPhotoLocation, on by default)
+ *
+ * @param db - Optional database client (defaults to drizzleDb)
+ */
+export async function isPhotoLocationStripped(
+  db: MediaDb = drizzleDb
+): Promise<boolean> {
+  const settings = await db.query.familySettings.findFirst({
+    columns: { stripPhotoLocation: true },
+  });
+  return settings?.stripPhotoLocation ?? true;
+}
+
+/**
+ * Upload size limits from family settings, with defaults for anything unset
+ *
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @returns Limits in effect, in megabytes
+ */
+export async function getMediaSizeLimitsLogic(
+  db: MediaDb = drizzleDb
+): Promise<MediaSizeLimits> {
+  const settings = await db.query.familySettings.findFirst({
+    columns: { mediaSizeLimits: true },
+  });
+  const stored = (settings?.mediaSizeLimits ?? {}) as Partial<MediaSizeLimits>;
+
+  return { ...DEFAULT_MEDIA_SIZE_LIMITS, ...stored };
 }
 
 /**
- * Ensure upload directory exists, creating it if needed
+ * Save the upload size limits, creating the settings row if there is none
+ *
+ * @param limits - New limits, in megabytes
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @returns Limits in effect
  */
-async function ensureUploadDir(): Promise<void> {
-  const uploadDir = getUploadDir();
-  if (!existsSync(uploadDir)) {
-    await mkdir(uploadDir, { recursive: true });
+export async function updateMediaSizeLimitsLogic(
+  limits: MediaSizeLimits,
+  db: MediaDb = drizzleDb
+): Promise<MediaSizeLimits> {
+  const existing = await db.query.familySettings.findFirst({
+    columns: { id: true },
+  });
+
+  if (existing) {
+    await db
+      .update(drizzleSchema.familySettings)
+      .set({ mediaSizeLimits: limits, updatedAt: new Date() })
+      .where(eq(drizzleSchema.familySettings.id, existing.id));
+  } else {
+    await db.insert(drizzleSchema.familySettings).values({
+      id: randomUUID(),
+      mediaSizeLimits: limits,
+      updatedAt: new Date(),
+    });
   }
+
+  log.info({ limits }, "Media size limits updated");
+  return { ...DEFAULT_MEDIA_SIZE_LIMITS, ...limits };
 }
 
 /**
- * Get file extension from MIME type
+ * Save a media file under a unique name in media storage. Images are
+ * also processed into WebP and responsive sizes; if that fails the original
+ * is kept without them. PDFs get the same versions of their first page when
+ * sharp can render it, and their page count; audio and video recordings
+ * get their length.
+ *
+ * @param buffer - File content
+ * @param mimeType - MIME type of the file
+ * @param options - stripLocation leaves GPS positions out of processed
+ *   images (defaults to true)
+ * @returns Stored path, format, processed image versions, embedded metadata,
+ *   page count and length
+ * @throws Error if the file cannot be written
  */
-function getExtension(mimeType: string): string {
-  const extensions: Record<string, string> = {
-    "image/jpeg": ".jpg",
-    "image/png": ".png",
-    "image/gif": ".gif",
-    "image/webp": ".webp",
-    "image/tiff": ".tiff",
-    "application/pdf": ".pdf",
-    "image/bmp": ".bmp",
-    "image/svg+xml": ".svg",
+export async function storeMediaFile(
+  buffer: Buffer,
+  mimeType: string,
+  options: { stripLocation?: boolean } = {}
+): Promise<StoredMediaFile> {
+  const storage = await getStorageProvider();
+
+  // Generate unique filename
+  const ext = getMediaExtension(mimeType);
+  const uniqueFileName = `${randomUUID()}${ext}`;
+
+  try {
+    await storage.put(uniqueFileName, buffer, mimeType);
+  } catch (error) {
+    throw new Error(
+      `Failed to save file: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const stored: StoredMediaFile = {
+    filePath: `/data/uploads/media/${uniqueFileName}`,
+    // Determine format from mime type
+    format: mimeType.split("/")[1]?.toUpperCase() || "UNKNOWN",
+    fileSize: buffer.length,
+    width: null,
+    height: null,
+    webpPath: null,
+    thumb400Path: null,
+    thumb800Path: null,
+    thumb1200Path: null,
+    processingDuration: 0,
+    metadata: null,
+    duration: null,
+    pageCount: null,
   };
-  return extensions[mimeType] || ".bin";
+
+  const kind = getMediaKind(mimeType);
+  if (mimeType.startsWith("image/")) {
+    try {
+      const processingStart = Date.now();
+      const processedImage = await processUploadedImage(
+        buffer,
+        randomUUID(),
+        storage,
+        { stripLocation: options.stripLocation ?? true }
+      );
+      stored.processingDuration = Date.now() - processingStart;
+      applyProcessedImage(stored, processedImage);
+      stored.width = processedImage.original.width;
+      stored.height = processedImage.original.height;
+      stored.metadata = processedImage.metadata;
+    } catch (error) {
+      log.withErr(error).msg("Failed to process image");
+      // Continue without processed images - still save original
+    }
+  } else if (kind === "document") {
+    stored.pageCount = readPdfPageCount(buffer);
+    try {
+      const processingStart = Date.now();
+      const firstPage = await renderPdfFirstPage(buffer);
+      const preview = await processUploadedImage(
+        firstPage.buffer,
+        randomUUID(),
+        storage
+      );
+      stored.processingDuration = Date.now() - processingStart;
+      stored.pageCount ??= firstPage.pageCount;
+      applyProcessedImage(stored, preview);
+    } catch (error) {
+      // libvips builds without a PDF loader cannot render previews
+      log.withErr(error).msg("Failed to render PDF preview");
+    }
+  } else if (kind === "audio" || kind === "video") {
+    stored.duration = readMediaDuration(buffer);
+  }
+
+  return stored;
+}
+
+/**
+ * Check that an upload may be stored: its type is accepted, it is within
+ * the size limit of its kind, and its person exists
+ *
+ * @returns The kind of media uploaded
+ * @throws Error if the file type is not accepted, the file is too large,
+ *   or the person is not found
+ */
+async function checkMediaUpload(
+  personId: string,
+  mimeType: string,
+  base64Data: string,
+  db: MediaDb
+): Promise<MediaKind> {
+  const kind = getMediaKind(mimeType);
+  if (!kind) {
+    throw new Error(`Unsupported file type: ${mimeType}`);
+  }
+
+  // Validate upload size before decoding; base64 expands ~4/3x
+  const limits = await getMediaSizeLimitsLogic(db);
+  const maxBytes = getMediaSizeLimit(kind, limits);
+  if (base64Data.length > Math.ceil(maxBytes / 3) * 4) {
+    throw new Error(
+      `File too large: maximum upload size for ${kind} files is ${limits[`${kind}Mb` as const]}MB`
+    );
+  }
+
+  // Verify person exists
+  const person = await db
+    .select()
+    .from(drizzleSchema.persons)
+    .where(eq(drizzleSchema.persons.id, personId))
+    .limit(1);
+
+  if (person.length === 0) {
+    throw new Error("Person not found");
+  }
+
+  return kind;
 }
 
 /**
  * Upload media for a person
+ * Accepts photos, PDF documents, and audio and video recordings up to the
+ * size limit of their kind
  * Processes images into multiple formats (WebP, responsive thumbnails)
- * Automatically sets first upload as primary photo
+ * Automatically sets first photo as primary photo
+ * Records the capture date, GPS position and camera embedded in photos,
+ * and uses an embedded caption when no description is given
  *
  * @param personId - The ID of the person
  * @param fileName - Original filename
@@ -527,9 +1411,11 @@ function getExtension(mimeType: string): string {
  * @param caption - Optional caption for primary person association
  * @param description - Optional detailed description
  * @param source - Optional source attribution
+ * @param userId - User uploading the media
  * @param db - Optional database client (defaults to drizzleDb)
  * @returns Created person media record with all metadata
- * @throws Error if person not found or upload fails
+ * @throws Error if person not found, the file type is not accepted, the
+ *   file is too large, or upload fails
  */
 export async function uploadMediaLogic(
   personId: string,
@@ -537,82 +1423,43 @@ export async function uploadMediaLogic(
   mimeType: string,
   fileSize: number,
   base64Data: string,
-  title?: string,
-  caption?: string,
-  description?: string,
-  source?: string,
+  title: string | undefined,
+  caption: string | undefined,
+  description: string | undefined,
+  source: string | undefined,
+  userId: AuditActor,
   db: MediaDb = drizzleDb
 ) {
   const uploadStart = Date.now();
 
-  // Validate upload size before decoding (20MB limit)
-  // base64 expands ~4/3x, so 20MB file ≈ 27MB base64 string
-  const MAX_UPLOAD_BASE64_LENGTH = 27 * 1024 * 1024; // ~20MB decoded
-  if (base64Data.length > MAX_UPLOAD_BASE64_LENGTH) {
-    throw new Error("File too large: maximum upload size is 20MB");
-  }
-
-  // Verify person exists
-  const person = await db
-    .select()
-    .from(drizzleSchema.persons)
-    .where(eq(drizzleSchema.persons.id, personId))
-    .limit(1);
-
-  if (person.length === 0) {
-    throw new Error("Person not found");
-  }
-
-  // Ensure upload directory exists
-  await ensureUploadDir();
-
-  // Generate unique filename
-  const ext = getExtension(mimeType);
-  const uniqueFileName = `${randomUUID()}${ext}`;
-  const uploadDir = getUploadDir();
-  const filePath = path.join(uploadDir, uniqueFileName);
-  const relativePath = `/data/uploads/media/${uniqueFileName}`;
+  const kind = await checkMediaUpload(personId, mimeType, base64Data, db);
 
   // Decode buffer
   let buffer: Buffer;
   try {
     buffer = Buffer.from(base64Data, "base64");
-    await writeFile(filePath, buffer);
   } catch (error) {
     throw new Error(
       `Failed to save file: ${error instanceof Error ? error.message : String(error)}`
     );
   }
 
-  // Determine format from mime type
-  const format = mimeType.split("/")[1]?.toUpperCase() || "UNKNOWN";
-
-  // Generate unique media ID for processing
-  const mediaId = randomUUID();
-  const mediaDir = getMediaDir();
-
-  // Process image if it's an image type
-  let processedImage = null;
-  let webpPath: string | null = null;
-  let thumb400Path: string | null = null;
-  let thumb800Path: string | null = null;
-  let thumb1200Path: string | null = null;
-  let processingDuration = 0;
+  // Save the original and process images
+  const stored = await storeMediaFile(buffer, mimeType, {
+    stripLocation: await isPhotoLocationStripped(db),
+  });
+  const {
+    filePath: relativePath,
+    format,
+    webpPath,
+    thumb400Path,
+    thumb800Path,
+    thumb1200Path,
+    processingDuration,
+  } = stored;
 
-  if (mimeType.startsWith("image/")) {
-    try {
-      const processingStart = Date.now();
-      processedImage = await processUploadedImage(buffer, mediaId, mediaDir);
-      processingDuration = Date.now() - processingStart;
-      webpPath = processedImage.webp.path;
-      thumb400Path = processedImage.responsive[0]?.path || null;
-      thumb800Path = processedImage.responsive[1]?.path || null;
-      thumb1200Path = processedImage.responsive[2]?.path || null;
-    } catch (error) {
-      log.withErr(error).msg("Failed to process image");
-      // Continue without processed images - still save original
-    }
-  }
+  // An embedded caption stands in for a missing description
+  const mediaDescription = description || stored.metadata?.caption || null;
 
   // Create media object in database
   const mediaObjectId = randomUUID();
@@ -624,14 +1471,20 @@ export async function uploadMediaLogic(
     mimeType,
     fileSize,
     title: title || fileName,
-    description: description || null,
+    description: mediaDescription,
     source: source || null,
-    width: processedImage?.original.width ?? null,
-    height: processedImage?.original.height ?? null,
+    width: stored.width,
+    height: stored.height,
     webpPath,
     thumb400Path,
     thumb800Path,
     thumb1200Path,
+    capturedAt: stored.metadata?.capturedAt ?? null,
+    latitude: stored.metadata?.latitude ?? null,
+    longitude: stored.metadata?.longitude ?? null,
+    camera: stored.metadata?.camera ?? null,
+    duration: stored.duration,
+    pageCount: stored.pageCount,
     uploadedAt: now,
     updatedAt: now,
   });
@@ -646,7 +1499,22 @@ export async function uploadMediaLogic(
 
   const displayOrder =
     existingMedia.length > 0 ? (existingMedia[0]?.displayOrder ?? 0) + 1 : 0;
-  const isPrimary = existingMedia.length === 0;
+
+  // Only photos become the primary photo
+  const existingPrimary =
+    kind === "image"
+      ? await db
+          .select({ id: drizzleSchema.personMedias.id })
+          .from(drizzleSchema.personMedias)
+          .where(
+            and(
+              eq(drizzleSchema.personMedias.personId, personId),
+              eq(drizzleSchema.personMedias.isPrimary, true)
+            )
+          )
+          .limit(1)
+      : [];
+  const isPrimary = kind === "image" && existingPrimary.length === 0;
 
   // Link media to person
   const personMediaId = randomUUID();
@@ -661,6 +1529,43 @@ export async function uploadMediaLogic(
     updatedAt: personMediaNow,
   });
 
+  await logEntityAuditAction(
+    {
+      userId,
+      action: "CREATE",
+      entityType: "MEDIA",
+      entityId: mediaObjectId,
+      personId,
+      newData: {
+        title: title || fileName,
+        description: mediaDescription,
+        source: source || null,
+        caption: caption || null,
+        mimeType,
+        isPrimary,
+      },
+    },
+    db
+  );
+
+  await emitWebhookEvent(
+    "media.uploaded",
+    {
+      mediaId: mediaObjectId,
+      personId,
+      userId: typeof userId === "string" ? userId : userId.userId,
+      title: title || fileName,
+      description: mediaDescription,
+      caption: caption || null,
+      mimeType,
+      fileSize,
+      width: stored.width,
+      height: stored.height,
+      isPrimary,
+    },
+    db
+  );
+
   // Record metrics
   const uploadDuration = Date.now() - uploadStart;
   recordMediaUpload(
@@ -679,14 +1584,17 @@ export async function uploadMediaLogic(
     mimeType,
     fileSize,
     title: title || fileName,
-    description: description || null,
+    description: mediaDescription,
     source: source || null,
-    width: processedImage?.original.width ?? null,
-    height: processedImage?.original.height ?? null,
+    width: stored.width,
+    height: stored.height,
     webpPath,
     thumb400Path,
     thumb800Path,
     thumb1200Path,
+    duration: stored.duration,
+    pageCount: stored.pageCount,
+    transcriptPath: null,
     caption: caption || null,
     isPrimary,
     displayOrder,
@@ -694,3 +1602,245 @@ export async function uploadMediaLogic(
     createdAt: new Date().toISOString(),
   };
 }
+
+/**
+ * Submit an upload for review without keeping the file in the database.
+ * The upload is checked as a direct one would be, then held in media
+ * storage until the suggestion is reviewed; the suggestion records its key.
+ *
+ * @param upload - The upload as sent by the client
+ * @param userId - User submitting the upload
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @returns The pending suggestion
+ * @throws Error if the person is not found, the file type is not accepted,
+ *   or the file is too large
+ */
+export async function submitMediaUploadForApprovalLogic(
+  upload: ApiMediaUploadInput,
+  userId: string,
+  db: MediaDb = drizzleDb
+): Promise<PendingApprovalResult> {
+  const { base64Data, ...details } = upload;
+  await checkMediaUpload(details.personId, details.mimeType, base64Data, db);
+
+  const stagedKey = `pending/${randomUUID()}${getMediaExtension(details.mimeType)}`;
+  const storage = await getStorageProvider();
+  await storage.put(
+    stagedKey,
+    Buffer.from(base64Data, "base64"),
+    details.mimeType
+  );
+
+  const staged: StagedMediaUploadInput = { ...details, stagedKey };
+  try {
+    return await submitEditForApprovalData(
+      "UPLOAD_MEDIA",
+      details.personId,
+      staged,
+      userId,
+      db
+    );
+  } catch (error) {
+    await discardStagedMediaLogic(stagedKey);
+    throw error;
+  }
+}
+
+/**
+ * Upload a file held for review by submitMediaUploadForApprovalLogic,
+ * then remove the held copy
+ *
+ * @param upload - The staged upload recorded on the suggestion
+ * @param userId - User the upload is recorded as
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @returns Created person media record
+ * @throws Error if the held file is missing or the upload fails
+ */
+export async function uploadStagedMediaLogic(
+  upload: StagedMediaUploadInput,
+  userId: AuditActor,
+  db: MediaDb = drizzleDb
+) {
+  const storage = await getStorageProvider();
+  const staged = await storage.get(upload.stagedKey);
+  if (!staged) {
+    throw new Error("Uploaded file not found");
+  }
+
+  const result = await uploadMediaLogic(
+    upload.personId,
+    upload.fileName,
+    upload.mimeType,
+    upload.fileSize,
+    staged.data.toString("base64"),
+    upload.title,
+    upload.caption,
+    upload.description,
+    upload.source,
+    userId,
+    db
+  );
+  await discardStagedMediaLogic(upload.stagedKey);
+  return result;
+}
+
+/**
+ * Delete a file held for review once it is no longer needed
+ */
+export async function discardStagedMediaLogic(
+  stagedKey: string
+): Promise<void> {
+  try {
+    const storage = await getStorageProvider();
+    await storage.delete(stagedKey);
+  } catch (error) {
+    log.withErr(error).msg("Failed to delete staged upload");
+  }
+}
+
+/**
+ * Attach a transcript to an audio or video recording, replacing any
+ * earlier one. Transcripts may be plain text, WebVTT or PDF, up to the
+ * document size limit.
+ *
+ * @param mediaId - The ID of the recording
+ * @param mimeType - MIME type of the transcript
+ * @param base64Data - Base64 encoded transcript content
+ * @param userId - User attaching the transcript
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @returns Stored path of the transcript
+ * @throws Error if media not found, is not a recording, or the transcript
+ *   type is not accepted or too large
+ */
+export async function attachMediaTranscriptLogic(
+  mediaId: string,
+  mimeType: string,
+  base64Data: string,
+  userId: AuditActor,
+  db: MediaDb = drizzleDb
+) {
+  const media = await db
+    .select()
+    .from(drizzleSchema.mediaObjects)
+    .where(eq(drizzleSchema.mediaObjects.id, mediaId))
+    .limit(1);
+
+  if (media.length === 0) {
+    throw new Error("Media not found");
+  }
+
+  const kind = getMediaKind(media[0].mimeType);
+  if (kind !== "audio" && kind !== "video") {
+    throw new Error("Transcripts can only be attached to audio and video");
+  }
+
+  if (!TRANSCRIPT_MIME_TYPES[mimeType]) {
+    throw new Error(`Unsupported file type: ${mimeType}`);
+  }
+
+  const limits = await getMediaSizeLimitsLogic(db);
+  if (
+    base64Data.length >
+    Math.ceil(getMediaSizeLimit("document", limits) / 3) * 4
+  ) {
+    throw new Error(
+      `File too large: maximum transcript size is ${limits.documentMb}MB`
+    );
+  }
+
+  const storage = await getStorageProvider();
+  const fileName = `${randomUUID()}${getMediaExtension(mimeType)}`;
+  try {
+    await storage.put(fileName, Buffer.from(base64Data, "base64"), mimeType);
+  } catch (error) {
+    throw new Error(
+      `Failed to save file: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  const transcriptPath = `/data/uploads/media/${fileName}`;
+
+  await db
+    .update(drizzleSchema.mediaObjects)
+    .set({ transcriptPath, updatedAt: new Date() })
+    .where(eq(drizzleSchema.mediaObjects.id, mediaId));
+
+  await logEntityAuditAction(
+    {
+      userId,
+      action: "UPDATE",
+      entityType: "MEDIA",
+      entityId: mediaId,
+      personId: null,
+      previousData: { transcriptPath: media[0].transcriptPath },
+      newData: { transcriptPath },
+    },
+    db
+  );
+
+  await deleteStoredTranscript(media[0].transcriptPath);
+
+  return { mediaId, transcriptPath };
+}
+
+/**
+ * Remove the transcript of an audio or video recording
+ *
+ * @param mediaId - The ID of the recording
+ * @param userId - User removing the transcript
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @throws Error if media not found
+ */
+export async function removeMediaTranscriptLogic(
+  mediaId: string,
+  userId: AuditActor,
+  db: MediaDb = drizzleDb
+) {
+  const media = await db
+    .select()
+    .from(drizzleSchema.mediaObjects)
+    .where(eq(drizzleSchema.mediaObjects.id, mediaId))
+    .limit(1);
+
+  if (media.length === 0) {
+    throw new Error("Media not found");
+  }
+
+  if (media[0].transcriptPath) {
+    await db
+      .update(drizzleSchema.mediaObjects)
+      .set({ transcriptPath: null, updatedAt: new Date() })
+      .where(eq(drizzleSchema.mediaObjects.id, mediaId));
+
+    await logEntityAuditAction(
+      {
+        userId,
+        action: "UPDATE",
+        entityType: "MEDIA",
+        entityId: mediaId,
+        personId: null,
+        previousData: { transcriptPath: media[0].transcriptPath },
+        newData: { transcriptPath: null },
+      },
+      db
+    );
+
+    await deleteStoredTranscript(media[0].transcriptPath);
+  }
+
+  return { success: true };
+}
+
+/**
+ * Delete a replaced or removed transcript from storage
+ */
+async function deleteStoredTranscript(
+  transcriptPath: string | null
+): Promise<void> {
+  if (!transcriptPath) return;
+  try {
+    const storage = await getStorageProvider();
+    await storage.delete(mediaPathToStorageKey(transcriptPath));
+  } catch (error) {
+    log.withErr(error).msg("Failed to delete previous transcript");
+  }
+}
@@ -0,0 +1,401 @@
+/**
+ * Unit tests for notification digests
+ *
+ * Tests cover:
+ * - buildNotificationDigest: Birthdays, anniversaries, new members and suggestions per period,
+ *   leaving out people the recipient may not see
+ * - isDigestEmpty: Digests with nothing to report
+ * - sendNotificationDigests: Per-channel delivery at the user's digest hour
+ *
+ * Uses preload mocks (from bunfig.toml) for logger and database.
+ * DO NOT call mock.module() here - the preload already handles it.
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { clearAllMocks, mockWithErr } from "../../testing/shared-mocks";
+// Import drizzleDb from @vamsa/api - at test time this is the preload's mock
+// eslint-disable-next-line import/order
+import { drizzleDb } from "@vamsa/api";
+
+// Cast to access mock helper methods (setFindFirstResult, resetQueryMocks, etc.)
+const mockDrizzleDb = drizzleDb as any;
+
+const { buildNotificationDigest, isDigestEmpty, sendNotificationDigests } =
+  await import("./notification-digest");
+const { createDefaultNotificationPreferences } =
+  await import("../notifications/preferences");
+
+// 08:00 on Monday 2026-03-02 in UTC
+const NOW = new Date("2026-03-02T08:00:00Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const source = {
+  birthdays: [
+    {
+      id: "person-3",
+      isLiving: true,
+      name: "Asha Rao",
+      dateOfBirth: new Date("1990-03-02"),
+    },
+    {
+      id: "person-4",
+      isLiving: true,
+      privacy: "PUBLIC",
+      name: "Kiran Rao",
+      dateOfBirth: new Date("2015-03-06"),
+    },
+    {
+      id: "person-5",
+      isLiving: true,
+      name: "Dev Rao",
+      dateOfBirth: new Date("1960-03-20"),
+    },
+  ],
+  couples: [
+    {
+      personId: "person-1",
+      names: "Ravi & Meena Rao",
+      marriageDate: new Date("1985-03-04"),
+      spouses: [
+        { id: "person-1", isLiving: true },
+        { id: "person-2", isLiving: true },
+      ],
+    },
+  ],
+  defaultPrivacy: "MEMBERS_ONLY" as const,
+  members: [
+    {
+      id: "user-1",
+      name: "Admin",
+      createdAt: new Date(NOW.getTime() - 2 * DAY_MS),
+    },
+    {
+      id: "user-2",
+      name: "Nisha",
+      createdAt: new Date(NOW.getTime() - 2 * 60 * 60 * 1000),
+    },
+    { id: "user-3", name: "Old Member", createdAt: new Date("2025-01-01") },
+  ],
+  pendingSuggestions: 4,
+  reviewedSuggestions: [
+    {
+      submittedById: "user-1",
+      status: "APPROVED",
+      reviewedAt: new Date(NOW.getTime() - 60 * 60 * 1000),
+    },
+    {
+      submittedById: "user-1",
+      status: "REJECTED",
+      reviewedAt: new Date(NOW.getTime() - 3 * DAY_MS),
+    },
+    {
+      submittedById: "user-2",
+      status: "APPROVED",
+      reviewedAt: new Date(NOW.getTime() - 60 * 60 * 1000),
+    },
+  ],
+};
+
+const allTypes = [
+  "suggestion_created",
+  "suggestion_reviewed",
+  "new_member",
+  "birthday_reminder",
+  "anniversary_reminder",
+] as const;
+
+const admin = { id: "user-1", role: "ADMIN" as const };
+
+describe("buildNotificationDigest", () => {
+  it("should cover today and the past day for a daily digest", () => {
+    const digest = buildNotificationDigest(
+      admin,
+      "daily",
+      [...allTypes],
+      "UTC",
+      NOW,
+      source
+    );
+
+    expect(digest.birthdays).toEqual([
+      { name: "Asha Rao", date: new Date("2026-03-02") },
+    ]);
+    expect(digest.anniversaries).toEqual([]);
+    expect(digest.newMembers).toEqual([{ name: "Nisha" }]);
+    expect(digest.pendingSuggestions).toBe(4);
+    expect(digest.reviewedSuggestions).toEqual({ approved: 1, rejected: 0 });
+  });
+
+  it("should cover the next seven days and the past week for a weekly digest", () => {
+    const digest = buildNotificationDigest(
+      admin,
+      "weekly",
+      [...allTypes],
+      "UTC",
+      NOW,
+      source
+    );
+
+    expect(digest.birthdays.map((b) => b.name)).toEqual([
+      "Asha Rao",
+      "Kiran Rao",
+    ]);
+    expect(digest.anniversaries).toEqual([
+      {
+        names: "Ravi & Meena Rao",
+        date: new Date("2026-03-04"),
+        years: 41,
+      },
+    ]);
+    expect(digest.newMembers).toEqual([{ name: "Nisha" }]);
+    expect(digest.reviewedSuggestions).toEqual({ approved: 1, rejected: 1 });
+  });
+
+  it("should use the user's timezone to decide what today is", () => {
+    // Still 1 March in Los Angeles
+    const digest = buildNotificationDigest(
+      admin,
+      "daily",
+      ["birthday_reminder"],
+      "America/Los_Angeles",
+      new Date("2026-03-02T07:00:00Z"),
+      source
+    );
+
+    expect(digest.birthdays).toEqual([]);
+  });
+
+  it("should include only the requested types", () => {
+    const digest = buildNotificationDigest(
+      admin,
+      "weekly",
+      ["new_member"],
+      "UTC",
+      NOW,
+      source
+    );
+
+    expect(digest.birthdays).toEqual([]);
+    expect(digest.anniversaries).toEqual([]);
+    expect(digest.pendingSuggestions).toBe(0);
+    expect(digest.newMembers).toEqual([{ name: "Nisha" }]);
+  });
+
+  it("should only report pending suggestions to admins", () => {
+    const digest = buildNotificationDigest(
+      { id: "user-2", role: "MEMBER" },
+      "daily",
+      ["suggestion_created"],
+      "UTC",
+      NOW,
+      source
+    );
+
+    expect(digest.pendingSuggestions).toBe(0);
+  });
+
+  it("should leave out people a viewer may not see", () => {
+    const digest = buildNotificationDigest(
+      { id: "user-4", role: "VIEWER", personId: "person-3" },
+      "weekly",
+      ["birthday_reminder", "anniversary_reminder"],
+      "UTC",
+      NOW,
+      source
+    );
+
+    // Their own birthday and a public person's, but no private couple
+    expect(digest.birthdays.map((b) => b.name)).toEqual([
+      "Asha Rao",
+      "Kiran Rao",
+    ]);
+    expect(digest.anniversaries).toEqual([]);
+  });
+});
+
+describe("isDigestEmpty", () => {
+  it("should be empty when nothing is reported", () => {
+    const digest = buildNotificationDigest(
+      admin,
+      "daily",
+      [],
+      "UTC",
+      NOW,
+      source
+    );
+
+    expect(isDigestEmpty(digest)).toBe(true);
+  });
+
+  it("should not be empty when a suggestion was reviewed", () => {
+    const digest = buildNotificationDigest(
+      admin,
+      "daily",
+      ["suggestion_reviewed"],
+      "UTC",
+      NOW,
+      source
+    );
+
+    expect(isDigestEmpty(digest)).toBe(false);
+  });
+});
+
+describe("sendNotificationDigests", () => {
+  beforeEach(() => {
+    clearAllMocks();
+    mockDrizzleDb.resetQueryMocks();
+    mockDrizzleDb.query.persons.findMany = vi.fn(async () => [
+      {
+        id: "person-1",
+        firstName: "Asha",
+        lastName: "Rao",
+        dateOfBirth: new Date("1990-03-02"),
+        dateOfBirthDetail: null,
+      },
+    ]) as any;
+    mockDrizzleDb.query.relationships.findMany = vi.fn(async () => []) as any;
+    mockDrizzleDb.query.suggestions.findMany = vi.fn(async () => []) as any;
+  });
+
+  function userWith(
+    id: string,
+    changes: (
+      preferences: ReturnType<typeof createDefaultNotificationPreferences>
+    ) => void
+  ) {
+    const preferences = createDefaultNotificationPreferences();
+    changes(preferences);
+    return {
+      id,
+      role: "MEMBER",
+      name: "Ravi",
+      email: `${id}@test.com`,
+      createdAt: new Date("2025-01-01"),
+      notificationPreferences: preferences,
+    };
+  }
+
+  it("should email a daily digest at the user's digest hour", async () => {
+    const email = vi.fn(async () => ({ success: true }));
+    const push = vi.fn(async () => []);
+    mockDrizzleDb.query.users.findMany = vi.fn(async () => [
+      userWith("user-1", (p) => {
+        p.types.birthday_reminder.email = "daily";
+      }),
+    ]) as any;
+
+    const sent = await sendNotificationDigests(NOW, mockDrizzleDb, push, email);
+
+    expect(sent).toBe(1);
+    expect(email).toHaveBeenCalledWith(
+      "user-1@test.com",
+      expect.any(Object),
+      "daily_digest",
+      "user-1",
+      { types: ["birthday_reminder"] }
+    );
+    expect(push).not.toHaveBeenCalled();
+  });
+
+  it("should not send before the digest hour", async () => {
+    const email = vi.fn(async () => ({ success: true }));
+    mockDrizzleDb.query.users.findMany = vi.fn(async () => [
+      userWith("user-1", (p) => {
+        p.types.birthday_reminder.email = "daily";
+        p.digestHour = 9;
+      }),
+    ]) as any;
+
+    const sent = await sendNotificationDigests(
+      NOW,
+      mockDrizzleDb,
+      vi.fn(async () => []),
+      email
+    );
+
+    expect(sent).toBe(0);
+    expect(email).not.toHaveBeenCalled();
+  });
+
+  it("should push and store summary digests", async () => {
+    const push = vi.fn(async () => []);
+    const values = vi.fn(() => Promise.resolve());
+    const db = Object.assign(Object.create(mockDrizzleDb), {
+      insert: vi.fn(() => ({ values })),
+    });
+    mockDrizzleDb.query.users.findMany = vi.fn(async () => [
+      userWith("user-1", (p) => {
+        p.types.birthday_reminder.push = "weekly";
+        p.types.birthday_reminder.inApp = "weekly";
+      }),
+    ]) as any;
+
+    const sent = await sendNotificationDigests(
+      NOW,
+      db,
+      push,
+      vi.fn(async () => ({ success: true }))
+    );
+
+    const payload = {
+      title: "Your weekly family digest",
+      body: "1 birthday",
+      type: "general",
+      data: { digest: "weekly" },
+    };
+    expect(sent).toBe(2);
+    expect(push).toHaveBeenCalledWith(["user-1"], payload, db);
+    expect(values).toHaveBeenCalledWith([
+      expect.objectContaining({ userId: "user-1", ...payload }),
+    ]);
+  });
+
+  it("should hold back push digests during quiet hours", async () => {
+    const push = vi.fn(async () => []);
+    const email = vi.fn(async () => ({ success: true }));
+    mockDrizzleDb.query.users.findMany = vi.fn(async () => [
+      userWith("user-1", (p) => {
+        p.types.birthday_reminder.push = "daily";
+        p.types.birthday_reminder.email = "daily";
+        p.quietHours = { start: "07:00", end: "09:00" };
+      }),
+    ]) as any;
+
+    const sent = await sendNotificationDigests(NOW, mockDrizzleDb, push, email);
+
+    expect(sent).toBe(1);
+    expect(push).not.toHaveBeenCalled();
+    expect(email).toHaveBeenCalledTimes(1);
+  });
+
+  it("should skip empty digests", async () => {
+    const email = vi.fn(async () => ({ success: true }));
+    mockDrizzleDb.query.users.findMany = vi.fn(async () => [
+      userWith("user-1", (p) => {
+        p.types.new_member.email = "daily";
+      }),
+    ]) as any;
+
+    const sent = await sendNotificationDigests(
+      NOW,
+      mockDrizzleDb,
+      vi.fn(async () => []),
+      email
+    );
+
+    expect(sent).toBe(0);
+    expect(email).not.toHaveBeenCalled();
+  });
+
+  it("should not throw on database error", async () => {
+    mockDrizzleDb.query.users.findMany = vi.fn(async () => {
+      throw new Error("DB Error");
+    }) as any;
+
+    const sent = await sendNotificationDigests(NOW, mockDrizzleDb);
+
+    expect(sent).toBe(0);
+    expect(mockWithErr).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,410 @@
+/**
+ * Notification Digest Server Module - Business Logic for Digest Notifications
+ *
+ * Notification types a user has set to "daily" or "weekly" on a channel are
+ * not delivered as they happen. Instead, once an hour this module finds the
+ * users whose digest hour has come in their own timezone and sends each of
+ * them one digest per channel: a templated email, a summary push and a
+ * summary inbox item.
+ *
+ * A digest covers:
+ * - Birthdays and wedding anniversaries today (daily) or in the next 7 days
+ *   (weekly), of the people the recipient may see
+ * - Members who joined during the period
+ * - Suggestions waiting for review (admins only)
+ * - The recipient's own suggestions reviewed during the period
+ *
+ * Exported Functions:
+ * - loadDigestSource: Loads the records digests are built from
+ * - buildNotificationDigest: Assembles one user's digest from those records
+ * - isDigestEmpty: Whether a digest has nothing to report
+ * - sendNotificationDigests: Sends every digest due in the current hour
+ */
+
+import {
+  createNotificationDigestEmail,
+  drizzleDb,
+  drizzleSchema,
+} from "@vamsa/api";
+import { and, eq, gte, isNull, or } from "drizzle-orm";
+import { isApproximateDate, toGenealogicalDate } from "@vamsa/lib";
+import { loggers } from "@vamsa/lib/logger";
+import { sendPushToUsers } from "../notifications/push";
+import {
+  NOTIFICATION_CHANNELS,
+  getDigestTypes,
+  getDueDigestPeriods,
+  getLocalTime,
+  isInQuietHours,
+  resolveNotificationPreferences,
+} from "../notifications/preferences";
+import { createInboxNotificationsData } from "./inbox";
+import {
+  findCouples,
+  getAppUrl,
+  maySeePersons,
+  sendNotificationEmail,
+} from "./notifications";
+import { getPrivacyPolicy } from "./privacy";
+import type { NotificationDigest } from "@vamsa/api";
+import type {
+  NotificationPreferenceType,
+  PrivacyLevel,
+  UserRole,
+} from "@vamsa/schemas";
+import type { DigestPeriod } from "../notifications/preferences";
+import type { NotificationPayload } from "../notifications/types";
+import type { Couple, EmailSender, PushSender } from "./notifications";
+import type { PrivacySubject } from "./privacy";
+
+const log = loggers.email;
+
+/** Type for the database instance (for DI) */
+export type NotificationDigestDb = typeof drizzleDb;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days covered by each digest period */
+const PERIOD_DAYS: Record<DigestPeriod, number> = { daily: 1, weekly: 7 };
+
+/**
+ * Records shared by every digest sent in one run
+ */
+export interface DigestSource {
+  birthdays: Array<PrivacySubject & { name: string; dateOfBirth: Date }>;
+  couples: Array<Couple>;
+  /** The family's default privacy level, deciding who may see whom */
+  defaultPrivacy: PrivacyLevel;
+  members: Array<{ id: string; name: string; createdAt: Date }>;
+  pendingSuggestions: number;
+  reviewedSuggestions: Array<{
+    submittedById: string;
+    status: string;
+    reviewedAt: Date | null;
+  }>;
+}
+
+/**
+ * A user a digest is built for
+ */
+export interface DigestRecipient {
+  id: string;
+  role: UserRole;
+  personId?: string | null;
+}
+
+/**
+ * Load the records digests are built from
+ *
+ * @param now - Current time; reviews from the past week are loaded
+ * @param db - Database instance (defaults to drizzleDb for production)
+ */
+export async function loadDigestSource(
+  now: Date,
+  db: NotificationDigestDb = drizzleDb
+): Promise<DigestSource> {
+  const people = await db.query.persons.findMany({
+    where: and(
+      eq(drizzleSchema.persons.isLiving, true),
+      isNull(drizzleSchema.persons.deletedAt)
+    ),
+  });
+  const couples = await findCouples(db);
+  const { defaultPrivacy } = await getPrivacyPolicy({ role: null }, db);
+  const users = await db.query.users.findMany({
+    where: eq(drizzleSchema.users.isActive, true),
+  });
+  const suggestions = await db.query.suggestions.findMany({
+    where: or(
+      eq(drizzleSchema.suggestions.status, "PENDING"),
+      gte(
+        drizzleSchema.suggestions.reviewedAt,
+        new Date(now.getTime() - PERIOD_DAYS.weekly * DAY_MS)
+      )
+    ),
+  });
+
+  return {
+    birthdays: people.flatMap((person) => {
+      if (!person.dateOfBirth) return [];
+      // Year-only and approximate dates have no reliable day to celebrate
+      const detail = toGenealogicalDate(person.dateOfBirthDetail);
+      if (detail && isApproximateDate(detail)) return [];
+      return [
+        {
+          id: person.id,
+          isLiving: person.isLiving,
+          privacy: person.privacy,
+          name: `${person.firstName} ${person.lastName}`,
+          dateOfBirth: person.dateOfBirth,
+        },
+      ];
+    }),
+    couples,
+    defaultPrivacy,
+    members: users.map((user) => ({
+      id: user.id,
+      name: user.name || user.email,
+      createdAt: user.createdAt,
+    })),
+    pendingSuggestions: suggestions.filter((s) => s.status === "PENDING")
+      .length,
+    reviewedSuggestions: suggestions.filter((s) => s.status !== "PENDING"),
+  };
+}
+
+/**
+ * Calendar days covered by a digest, starting today in the user's timezone.
+ * Each day is a UTC midnight, matching how dates of birth are stored.
+ */
+function digestDays(
+  period: DigestPeriod,
+  timezone: string,
+  now: Date
+): Array<Date> {
+  const local = getLocalTime(now, timezone);
+  return Array.from(
+    { length: PERIOD_DAYS[period] },
+    (_, offset) =>
+      new Date(Date.UTC(local.year, local.month - 1, local.day + offset))
+  );
+}
+
+function sameDayOfYear(date: Date, day: Date): boolean {
+  return (
+    date.getUTCMonth() === day.getUTCMonth() &&
+    date.getUTCDate() === day.getUTCDate()
+  );
+}
+
+/**
+ * Assemble one user's digest for the given notification types
+ *
+ * @param recipient - The user the digest is for
+ * @param period - Daily or weekly
+ * @param types - Notification types the digest covers
+ * @param timezone - The user's timezone, which decides what "today" is
+ * @param now - Current time
+ * @param source - Records loaded by loadDigestSource
+ */
+export function buildNotificationDigest(
+  recipient: DigestRecipient,
+  period: DigestPeriod,
+  types: Array<NotificationPreferenceType>,
+  timezone: string,
+  now: Date,
+  source: DigestSource
+): NotificationDigest {
+  const days = digestDays(period, timezone, now);
+  const since = new Date(now.getTime() - PERIOD_DAYS[period] * DAY_MS);
+  const includes = (type: NotificationPreferenceType) => types.includes(type);
+
+  const digest: NotificationDigest = {
+    period,
+    birthdays: [],
+    anniversaries: [],
+    newMembers: [],
+    pendingSuggestions: 0,
+    reviewedSuggestions: { approved: 0, rejected: 0 },
+  };
+
+  const maySee = (persons: Array<PrivacySubject>) =>
+    maySeePersons(recipient, persons, source.defaultPrivacy);
+
+  for (const day of days) {
+    if (includes("birthday_reminder")) {
+      for (const person of source.birthdays) {
+        if (sameDayOfYear(person.dateOfBirth, day) && maySee([person])) {
+          digest.birthdays.push({ name: person.name, date: day });
+        }
+      }
+    }
+    if (includes("anniversary_reminder")) {
+      for (const couple of source.couples) {
+        const years =
+          day.getUTCFullYear() - couple.marriageDate.getUTCFullYear();
+        if (
+          years > 0 &&
+          sameDayOfYear(couple.marriageDate, day) &&
+          maySee(couple.spouses)
+        ) {
+          digest.anniversaries.push({ names: couple.names, date: day, years });
+        }
+      }
+    }
+  }
+
+  if (includes("new_member")) {
+    digest.newMembers = source.members
+      .filter((member) => member.id !== recipient.id)
+      .filter((member) => member.createdAt >= since)
+      .map((member) => ({ name: member.name }));
+  }
+
+  if (includes("suggestion_created") && recipient.role === "ADMIN") {
+    digest.pendingSuggestions = source.pendingSuggestions;
+  }
+
+  if (includes("suggestion_reviewed")) {
+    for (const suggestion of source.reviewedSuggestions) {
+      if (
+        suggestion.submittedById !== recipient.id ||
+        !suggestion.reviewedAt ||
+        suggestion.reviewedAt < since
+      ) {
+        continue;
+      }
+      if (suggestion.status === "APPROVED") {
+        digest.reviewedSuggestions.approved++;
+      } else if (suggestion.status === "REJECTED") {
+        digest.reviewedSuggestions.rejected++;
+      }
+    }
+  }
+
+  return digest;
+}
+
+/**
+ * Whether a digest has nothing to report
+ */
+export function isDigestEmpty(digest: NotificationDigest): boolean {
+  return (
+    digest.birthdays.length === 0 &&
+    digest.anniversaries.length === 0 &&
+    digest.newMembers.length === 0 &&
+    digest.pendingSuggestions === 0 &&
+    digest.reviewedSuggestions.approved +
+      digest.reviewedSuggestions.rejected ===
+      0
+  );
+}
+
+function plural(count: number, noun: string, nouns = `${noun}s`): string {
+  return `${count} ${count === 1 ? noun : nouns}`;
+}
+
+/**
+ * One-line summary of a digest, used for push and inbox digests
+ */
+function summarizeDigest(digest: NotificationDigest): string {
+  const parts: Array<string> = [];
+  if (digest.birthdays.length > 0) {
+    parts.push(plural(digest.birthdays.length, "birthday"));
+  }
+  if (digest.anniversaries.length > 0) {
+    parts.push(
+      plural(digest.anniversaries.length, "anniversary", "anniversaries")
+    );
+  }
+  if (digest.newMembers.length > 0) {
+    parts.push(plural(digest.newMembers.length, "new member"));
+  }
+  if (digest.pendingSuggestions > 0) {
+    parts.push(plural(digest.pendingSuggestions, "pending suggestion"));
+  }
+  const reviewed =
+    digest.reviewedSuggestions.approved + digest.reviewedSuggestions.rejected;
+  if (reviewed > 0) {
+    parts.push(plural(reviewed, "reviewed suggestion"));
+  }
+  return parts.join(", ");
+}
+
+/**
+ * Send every digest due in the current hour
+ *
+ * Meant to run at the top of every hour. A user's daily digest goes out at
+ * their chosen local hour, and the weekly digest also on their chosen day.
+ * Quiet hours hold back push digests only.
+ *
+ * @param now - Current time (defaults to now)
+ * @param db - Database instance (defaults to drizzleDb for production)
+ * @param push - Push sender (defaults to sendPushToUsers)
+ * @param email - Email sender (defaults to the email service)
+ * @returns Number of digests sent across all channels
+ */
+export async function sendNotificationDigests(
+  now: Date = new Date(),
+  db: NotificationDigestDb = drizzleDb,
+  push: PushSender = sendPushToUsers,
+  email: EmailSender = sendNotificationEmail
+): Promise<number> {
+  let sent = 0;
+
+  try {
+    const users = await db.query.users.findMany({
+      where: eq(drizzleSchema.users.isActive, true),
+    });
+
+    let source: DigestSource | undefined;
+
+    for (const user of users) {
+      const preferences = resolveNotificationPreferences(user);
+
+      for (const period of getDueDigestPeriods(preferences, now)) {
+        for (const channel of NOTIFICATION_CHANNELS) {
+          const types = getDigestTypes(preferences, period, channel);
+          if (types.length === 0) continue;
+          if (channel === "push" && isInQuietHours(preferences, now)) continue;
+
+          source ??= await loadDigestSource(now, db);
+          const digest = buildNotificationDigest(
+            user,
+            period,
+            types,
+            preferences.timezone,
+            now,
+            source
+          );
+          if (isDigestEmpty(digest)) continue;
+
+          try {
+            if (channel === "email") {
+              await email(
+                user.email,
+                createNotificationDigestEmail(
+                  user.name || "Family Member",
+                  digest,
+                  getAppUrl()
+                ),
+                `${period}_digest`,
+                user.id,
+                { types }
+              );
+            } else {
+              const payload: NotificationPayload = {
+                title:
+                  period === "daily"
+                    ? "Your daily family digest"
+                    : "Your weekly family digest",
+                body: summarizeDigest(digest),
+                type: "general",
+                data: { digest: period },
+              };
+              if (channel === "push") {
+                await push([user.id], payload, db);
+              } else {
+                await createInboxNotificationsData([user.id], payload, db);
+              }
+            }
+            sent++;
+          } catch (error) {
+            log
+              .withErr(error)
+              .ctx({ userId: user.id, period, channel })
+              .msg("Failed to send notification digest");
+          }
+        }
+      }
+    }
+
+    if (sent > 0) {
+      log.info({ count: sent }, "Notification digests sent");
+    }
+  } catch (error) {
+    log.withErr(error).msg("Error sending notification digests");
+  }
+
+  return sent;
+}
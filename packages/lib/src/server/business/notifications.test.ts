@@ -7,7 +7,14 @@
  * - notifySuggestionCreated: Send notification to admins when suggestion is created
  * - notifySuggestionUpdated: Send notification to submitter when suggestion is reviewed
  * - notifyNewMemberJoined: Send notification to members when new user joins
- * - sendBirthdayReminders: Send birthday reminder emails for today's birthdays
+ * - sendBirthdayReminders: Send birthday reminders for today's birthdays
+ * - sendAnniversaryReminders: Send reminders for today's wedding anniversaries
+ * - Reminders only reach users who may see the people they name
+ * - get/updateNotificationPreferencesData: Per-type, per-channel preferences
+ * - Push notifications reach opted-in recipients through the injected sender,
+ *   without the caller waiting for delivery
+ * - Every notification is also stored in the recipients' inboxes
+ * - Instant emails respect channel preferences and quiet hours
  *
  * Uses preload mocks (from bunfig.toml) for logger and database.
  * DO NOT call mock.module() here - the preload already handles it.
@@ -28,13 +35,19 @@ const mockDrizzleDb = drizzleDb as any;
 
 // Dynamic import AFTER mocks are set up by preload
 const {
+  findCouples,
   getEmailNotificationPreferences,
+  getNotificationPreferencesData,
   notifyNewMemberJoined,
   notifySuggestionCreated,
   notifySuggestionUpdated,
+  sendAnniversaryReminders,
   sendBirthdayReminders,
   updateEmailNotificationPreferences,
+  updateNotificationPreferencesData,
 } = await import("./notifications");
+const { createDefaultNotificationPreferences } =
+  await import("../notifications/preferences");
 
 describe("notifications business logic", () => {
   beforeEach(() => {
@@ -253,6 +266,52 @@ describe("notifications business logic", () => {
       expect(callCount).toBe(2);
     });
 
+    it("should push to admins other than the submitter", async () => {
+      const push = vi.fn(async () => []);
+      mockDrizzleDb.query.suggestions.findFirst = vi.fn(async () => ({
+        id: "suggestion-1",
+        submittedById: "admin-2",
+      })) as any;
+      mockDrizzleDb.query.users.findMany = vi.fn(async () => [
+        { id: "admin-1", emailNotificationPreferences: null },
+        { id: "admin-2", emailNotificationPreferences: null },
+        {
+          id: "admin-3",
+          emailNotificationPreferences: { suggestionsCreated: false },
+        },
+      ]) as any;
+
+      await notifySuggestionCreated("suggestion-1", mockDrizzleDb, push);
+
+      expect(push).toHaveBeenCalledWith(
+        ["admin-1"],
+        expect.objectContaining({
+          type: "suggestion_created",
+          data: { suggestionId: "suggestion-1" },
+        }),
+        mockDrizzleDb
+      );
+    });
+
+    it("should not wait for pushes to be delivered", async () => {
+      const push = vi.fn(() => new Promise<[]>(() => {}));
+      mockDrizzleDb.query.suggestions.findFirst = vi.fn(async () => ({
+        id: "suggestion-1",
+        submittedById: "member-1",
+      })) as any;
+      mockDrizzleDb.query.users.findMany = vi.fn(async () => [
+        { id: "admin-1", emailNotificationPreferences: null },
+      ]) as any;
+
+      await notifySuggestionCreated("suggestion-1", mockDrizzleDb, push);
+
+      expect(push).toHaveBeenCalledTimes(1);
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        { suggestionId: "suggestion-1" },
+        "Suggestion created notification queued"
+      );
+    });
+
     it("should log error when suggestion not found", async () => {
       mockDrizzleDb.query.suggestions.findFirst = vi.fn(
         async () => null
@@ -325,6 +384,72 @@ describe("notifications business logic", () => {
       );
     });
 
+    it("should push the review outcome to the submitter", async () => {
+      const push = vi.fn(async () => []);
+      mockDrizzleDb.query.suggestions.findFirst = vi.fn(async () => ({
+        id: "suggestion-1",
+        submittedById: "user-1",
+      })) as any;
+      mockDrizzleDb.query.users.findFirst = vi.fn(async () => ({
+        id: "user-1",
+        emailNotificationPreferences: null,
+      })) as any;
+
+      await notifySuggestionUpdated(
+        "suggestion-1",
+        "APPROVED",
+        mockDrizzleDb,
+        push
+      );
+
+      expect(push).toHaveBeenCalledWith(
+        ["user-1"],
+        expect.objectContaining({
+          title: "Suggestion approved",
+          type: "suggestion_reviewed",
+          data: { suggestionId: "suggestion-1", status: "APPROVED" },
+        }),
+        mockDrizzleDb
+      );
+    });
+
+    it("should store the outcome in the submitter's inbox with the affected person", async () => {
+      const push = vi.fn(async () => []);
+      const values = vi.fn(() => Promise.resolve());
+      const insert = vi.fn(() => ({ values }));
+      const db = Object.assign(Object.create(mockDrizzleDb), { insert });
+      mockDrizzleDb.query.suggestions.findFirst = vi.fn(async () => ({
+        id: "suggestion-1",
+        submittedById: "user-1",
+        targetPersonId: "person-1",
+      })) as any;
+      mockDrizzleDb.query.users.findFirst = vi.fn(async () => ({
+        id: "user-1",
+        emailNotificationPreferences: null,
+      })) as any;
+
+      await notifySuggestionUpdated("suggestion-1", "REJECTED", db, push);
+
+      const data = {
+        suggestionId: "suggestion-1",
+        status: "REJECTED",
+        personId: "person-1",
+      };
+      expect(values).toHaveBeenCalledWith([
+        expect.objectContaining({
+          userId: "user-1",
+          type: "suggestion_reviewed",
+          title: "Suggestion rejected",
+          data,
+        }),
+      ]);
+      expect(push).toHaveBeenCalledWith(
+        ["user-1"],
+        expect.objectContaining({ data }),
+        db
+      );
+    });
+
     it("should log error when suggestion not found", async () => {
       mockDrizzleDb.query.suggestions.findFirst = vi.fn(
         async () => null
@@ -382,6 +507,32 @@ describe("notifications business logic", () => {
       expect(callCount).toBe(2);
     });
 
+    it("should push to every other member", async () => {
+      const push = vi.fn(async () => []);
+      mockDrizzleDb.query.users.findFirst = vi.fn(async () => ({
+        id: "user-1",
+        name: "Asha Rao",
+        email: "asha@test.com",
+      })) as any;
+      mockDrizzleDb.query.users.findMany = vi.fn(async () => [
+        { id: "user-1", emailNotificationPreferences: null },
+        { id: "user-2", emailNotificationPreferences: null },
+      ]) as any;
+
+      await notifyNewMemberJoined("user-1", mockDrizzleDb, push);
+
+      expect(push).toHaveBeenCalledWith(
+        ["user-2"],
+        {
+          title: "New family member",
+          body: "Asha Rao joined the family tree.",
+          type: "new_member",
+          data: { userId: "user-1" },
+        },
+        mockDrizzleDb
+      );
+    });
+
     it("should log error when new member not found", async () => {
       mockDrizzleDb.query.users.findFirst = vi.fn(async () => null) as any;
 
@@ -459,8 +610,8 @@ describe("notifications business logic", () => {
         return peopleWithBirthday;
       }) as any;
 
-      mockDrizzleDb.query.users.findFirst = vi.fn(async () => {
-        return adminUser;
+      mockDrizzleDb.query.users.findMany = vi.fn(async () => {
+        return [adminUser];
       }) as any;
 
       await sendBirthdayReminders(mockDrizzleDb);
@@ -499,7 +650,7 @@ describe("notifications business logic", () => {
       expect(mockLogger.info).not.toHaveBeenCalled();
     });
 
-    it("should log warning when no admin user found", async () => {
+    it("should log warning when no users can be reminded", async () => {
       const today = new Date();
       const month = today.getMonth();
       const day = today.getDate();
@@ -515,13 +666,88 @@ describe("notifications business logic", () => {
       mockDrizzleDb.query.persons.findMany = vi.fn(
         async () => peopleWithBirthday
       ) as any;
-      mockDrizzleDb.query.users.findFirst = vi.fn(async () => null) as any;
+      mockDrizzleDb.query.users.findMany = vi.fn(async () => [
+        {
+          id: "user-1",
+          emailNotificationPreferences: { birthdayReminders: false },
+        },
+      ]) as any;
 
       await sendBirthdayReminders(mockDrizzleDb);
 
       expect(mockLogger.info).toHaveBeenCalledWith(
         {},
-        "No system user found for birthday reminders"
+        "No users found for birthday reminders"
+      );
+    });
+
+    it("should push one reminder per birthday to opted-in users", async () => {
+      const today = new Date();
+      const push = vi.fn(async () => []);
+
+      mockDrizzleDb.query.persons.findMany = vi.fn(async () => [
+        {
+          id: "person-1",
+          firstName: "Asha",
+          lastName: "Rao",
+          isLiving: true,
+          dateOfBirth: new Date(1990, today.getMonth(), today.getDate()),
+        },
+      ]) as any;
+      mockDrizzleDb.query.users.findMany = vi.fn(async () => [
+        { id: "user-1", role: "MEMBER", emailNotificationPreferences: null },
+        {
+          id: "user-2",
+          role: "MEMBER",
+          emailNotificationPreferences: { birthdayReminders: false },
+        },
+      ]) as any;
+
+      await sendBirthdayReminders(mockDrizzleDb, push);
+
+      expect(push).toHaveBeenCalledWith(
+        ["user-1"],
+        {
+          title: "Birthday today",
+          body: "Today is Asha Rao's birthday.",
+          type: "birthday_reminder",
+          data: { personId: "person-1" },
+        },
+        mockDrizzleDb
+      );
+    });
+
+    it("should only remind users of people they may see", async () => {
+      const today = new Date();
+      const push = vi.fn(async () => []);
+
+      mockDrizzleDb.query.persons.findMany = vi.fn(async () => [
+        {
+          id: "person-1",
+          firstName: "Asha",
+          lastName: "Rao",
+          isLiving: true,
+          privacy: null,
+          dateOfBirth: new Date(1990, today.getMonth(), today.getDate()),
+        },
+      ]) as any;
+      mockDrizzleDb.query.users.findMany = vi.fn(async () => [
+        { id: "user-1", role: "MEMBER", emailNotificationPreferences: null },
+        { id: "user-2", role: "VIEWER", emailNotificationPreferences: null },
+        {
+          id: "user-3",
+          role: "VIEWER",
+          personId: "person-1",
+          emailNotificationPreferences: null,
+        },
+      ]) as any;
+
+      await sendBirthdayReminders(mockDrizzleDb, push);
+
+      expect(push).toHaveBeenCalledWith(
+        ["user-1", "user-3"],
+        expect.objectContaining({ type: "birthday_reminder" }),
+        mockDrizzleDb
       );
     });
 
@@ -560,4 +786,328 @@ describe("notifications business logic", () => {
       expect(mockWithErr).toHaveBeenCalled();
     });
   });
+
+  describe("getNotificationPreferencesData", () => {
+    it("should derive preferences from legacy flags when none are saved", async () => {
+      mockDrizzleDb.setFindFirstResult({
+        notificationPreferences: null,
+        emailNotificationPreferences: { newMemberJoined: false },
+      });
+
+      const result = await getNotificationPreferencesData(
+        "user-1",
+        mockDrizzleDb
+      );
+
+      expect(result.types.new_member).toEqual({
+        email: "off",
+        push: "off",
+        inApp: "off",
+      });
+      expect(result.types.birthday_reminder.email).toBe("instant");
+    });
+
+    it("should throw error when user not found", async () => {
+      mockDrizzleDb.setFindFirstResult(null);
+
+      await expect(
+        getNotificationPreferencesData("nonexistent-user", mockDrizzleDb)
+      ).rejects.toThrow("User not found");
+    });
+  });
+
+  describe("updateNotificationPreferencesData", () => {
+    it("should merge the update and save the full preferences", async () => {
+      const where = vi.fn(() => Promise.resolve());
+      const set = vi.fn(() => ({ where }));
+      const db = Object.assign(Object.create(mockDrizzleDb), {
+        update: vi.fn(() => ({ set })),
+      });
+      mockDrizzleDb.setFindFirstResult({
+        notificationPreferences: createDefaultNotificationPreferences(),
+        emailNotificationPreferences: null,
+      });
+
+      const result = await updateNotificationPreferencesData(
+        "user-1",
+        {
+          timezone: "Asia/Kolkata",
+          quietHours: { start: "22:00", end: "07:00" },
+          types: { new_member: { email: "weekly", push: "off" } },
+        },
+        db
+      );
+
+      expect(result.timezone).toBe("Asia/Kolkata");
+      expect(result.types.new_member).toEqual({
+        email: "weekly",
+        push: "off",
+        inApp: "instant",
+      });
+      expect(set).toHaveBeenCalledWith(
+        expect.objectContaining({ notificationPreferences: result })
+      );
+    });
+
+    it("should throw error when user not found", async () => {
+      mockDrizzleDb.setFindFirstResult(null);
+
+      await expect(
+        updateNotificationPreferencesData(
+          "nonexistent-user",
+          { digestHour: 9 },
+          mockDrizzleDb
+        )
+      ).rejects.toThrow("User not found");
+    });
+  });
+
+  describe("channel preferences", () => {
+    function preferencesWith(
+      changes: (
+        preferences: ReturnType<typeof createDefaultNotificationPreferences>
+      ) => void
+    ) {
+      const preferences = createDefaultNotificationPreferences();
+      changes(preferences);
+      return preferences;
+    }
+
+    beforeEach(() => {
+      mockDrizzleDb.query.users.findFirst = vi.fn(async () => ({
+        id: "user-1",
+        name: "Asha Rao",
+        email: "asha@test.com",
+      })) as any;
+      mockDrizzleDb.query.familySettings.findFirst = vi.fn(async () => ({
+        familyName: "Rao",
+      })) as any;
+    });
+
+    it("should email members who receive new members instantly", async () => {
+      const push = vi.fn(async () => []);
+      const email = vi.fn(async () => ({ success: true }));
+      mockDrizzleDb.query.users.findMany = vi.fn(async () => [
+        { id: "user-2", name: "Ravi", email: "ravi@test.com" },
+        {
+          id: "user-3",
+          name: "Meena",
+          email: "meena@test.com",
+          notificationPreferences: preferencesWith((p) => {
+            p.types.new_member.email = "weekly";
+          }),
+        },
+      ]) as any;
+
+      await notifyNewMemberJoined("user-1", mockDrizzleDb, push, email);
+
+      expect(email).toHaveBeenCalledTimes(1);
+      expect(email).toHaveBeenCalledWith(
+        "ravi@test.com",
+        expect.any(Object),
+        "new_member",
+        "user-2",
+        { userId: "user-1" }
+      );
+      expect(push).toHaveBeenCalledWith(
+        ["user-2", "user-3"],
+        expect.anything(),
+        mockDrizzleDb
+      );
+    });
+
+    it("should skip push for members who turned it off", async () => {
+      const push = vi.fn(async () => []);
+      const email = vi.fn(async () => ({ success: true }));
+      mockDrizzleDb.query.users.findMany = vi.fn(async () => [
+        {
+          id: "user-2",
+          email: "ravi@test.com",
+          notificationPreferences: preferencesWith((p) => {
+            p.types.new_member.push = "off";
+          }),
+        },
+      ]) as any;
+
+      await notifyNewMemberJoined("user-1", mockDrizzleDb, push, email);
+
+      expect(push).not.toHaveBeenCalled();
+      expect(email).toHaveBeenCalledTimes(1);
+    });
+
+    it("should hold back email and push during quiet hours but keep the inbox item", async () => {
+      const push = vi.fn(async () => []);
+      const email = vi.fn(async () => ({ success: true }));
+      const values = vi.fn(() => Promise.resolve());
+      const db = Object.assign(Object.create(mockDrizzleDb), {
+        insert: vi.fn(() => ({ values })),
+      });
+      // Quiet all day: 00:00 to 23:59
+      mockDrizzleDb.query.users.findMany = vi.fn(async () => [
+        {
+          id: "user-2",
+          email: "ravi@test.com",
+          notificationPreferences: preferencesWith((p) => {
+            p.quietHours = { start: "00:00", end: "23:59" };
+          }),
+        },
+      ]) as any;
+      vi.useFakeTimers({ now: new Date("2026-03-02T12:00:00Z") });
+
+      try {
+        await notifyNewMemberJoined("user-1", db, push, email);
+      } finally {
+        vi.useRealTimers();
+      }
+
+      expect(push).not.toHaveBeenCalled();
+      expect(email).not.toHaveBeenCalled();
+      expect(values).toHaveBeenCalledWith([
+        expect.objectContaining({ userId: "user-2", type: "new_member" }),
+      ]);
+    });
+
+    it("should log failed emails and keep delivering", async () => {
+      const email = vi.fn(async () => {
+        throw new Error("SMTP down");
+      });
+      mockDrizzleDb.query.users.findMany = vi.fn(async () => [
+        { id: "user-2", email: "ravi@test.com" },
+        { id: "user-3", email: "meena@test.com" },
+      ]) as any;
+
+      await notifyNewMemberJoined(
+        "user-1",
+        mockDrizzleDb,
+        vi.fn(async () => []),
+        email
+      );
+
+      expect(email).toHaveBeenCalledTimes(2);
+      expect(mockWithErr).toHaveBeenCalledTimes(2);
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        { userId: "user-1" },
+        "New member notification queued"
+      );
+    });
+  });
+
+  describe("sendAnniversaryReminders", () => {
+    const today = new Date();
+    const marriageDate = new Date(
+      today.getFullYear() - 25,
+      today.getMonth(),
+      today.getDate()
+    );
+
+    it("should send one reminder per couple", async () => {
+      const push = vi.fn(async () => []);
+      const email = vi.fn(async () => ({ success: true }));
+      // Spouse relationships are stored in both directions
+      mockDrizzleDb.query.relationships.findMany = vi.fn(async () => [
+        { personId: "person-1", relatedPersonId: "person-2", marriageDate },
+        { personId: "person-2", relatedPersonId: "person-1", marriageDate },
+      ]) as any;
+      mockDrizzleDb.query.persons.findMany = vi.fn(async () => [
+        { id: "person-1", firstName: "Ravi", lastName: "Rao", isLiving: true },
+        {
+          id: "person-2",
+          firstName: "Meena",
+          lastName: "Rao",
+          isLiving: true,
+        },
+      ]) as any;
+      mockDrizzleDb.query.users.findMany = vi.fn(async () => [
+        { id: "user-1", role: "MEMBER", name: "Asha", email: "asha@test.com" },
+        {
+          id: "user-2",
+          role: "VIEWER",
+          name: "Kiran",
+          email: "kiran@test.com",
+        },
+      ]) as any;
+
+      await sendAnniversaryReminders(mockDrizzleDb, push, email);
+
+      expect(push).toHaveBeenCalledTimes(1);
+      expect(push).toHaveBeenCalledWith(
+        ["user-1"],
+        {
+          title: "Anniversary today",
+          body: "Ravi & Meena Rao celebrate 25 years together today.",
+          type: "anniversary_reminder",
+          data: { personId: "person-1" },
+        },
+        mockDrizzleDb
+      );
+      expect(email).toHaveBeenCalledWith(
+        "asha@test.com",
+        expect.any(Object),
+        "anniversary_reminder",
+        "user-1",
+        { personId: "person-1" }
+      );
+      expect(email).toHaveBeenCalledTimes(1);
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        { count: 1 },
+        "Anniversary reminders queued"
+      );
+    });
+
+    it("should skip couples where a spouse has died", async () => {
+      const push = vi.fn(async () => []);
+      mockDrizzleDb.query.relationships.findMany = vi.fn(async () => [
+        { personId: "person-1", relatedPersonId: "person-2", marriageDate },
+      ]) as any;
+      // Only living people are returned
+      mockDrizzleDb.query.persons.findMany = vi.fn(async () => [
+        { id: "person-1", firstName: "Ravi", lastName: "Rao" },
+      ]) as any;
+
+      await sendAnniversaryReminders(mockDrizzleDb, push);
+
+      expect(push).not.toHaveBeenCalled();
+      expect(mockLogger.info).not.toHaveBeenCalled();
+    });
+
+    it("should not throw on database error", async () => {
+      mockDrizzleDb.query.relationships.findMany = vi.fn(async () => {
+        throw new Error("DB Error");
+      }) as any;
+
+      await sendAnniversaryReminders(mockDrizzleDb);
+
+      expect(mockWithErr).toHaveBeenCalled();
+    });
+  });
+
+  describe("findCouples", () => {
+    it("should name couples with different surnames in full", async () => {
+      mockDrizzleDb.query.relationships.findMany = vi.fn(async () => [
+        {
+          personId: "person-1",
+          relatedPersonId: "person-2",
+          marriageDate: new Date("1990-06-01"),
+        },
+      ]) as any;
+      mockDrizzleDb.query.persons.findMany = vi.fn(async () => [
+        { id: "person-1", firstName: "Ravi", lastName: "Rao" },
+        { id: "person-2", firstName: "Meena", lastName: "Iyer" },
+      ]) as any;
+
+      const couples = await findCouples(mockDrizzleDb);
+
+      expect(couples).toEqual([
+        {
+          personId: "person-1",
+          names: "Ravi Rao & Meena Iyer",
+          marriageDate: new Date("1990-06-01"),
+          spouses: [
+            expect.objectContaining({ id: "person-1" }),
+            expect.objectContaining({ id: "person-2" }),
+          ],
+        },
+      ]);
+    });
+  });
 });
@@ -1,5 +1,5 @@
 /**
- * Notifications Server Module - Business Logic for Email Notifications
+ * Notifications Server Module - Business Logic for Email and Push Notifications
  *
  * This module contains the business logic orchestration layer for all notification
  * operations. Each function:
@@ -7,30 +7,196 @@
  * - Handles notification preference checks
  * - Constructs email templates
  * - Manages email delivery through the email service
+ * - Stores each notification in the recipients' in-app inbox
+ * - Sends push notifications to recipients' registered devices
  * - Records audit logs for notification sends
  * - Includes comprehensive error handling and logging
  *
  * Exported Functions:
  * - getEmailNotificationPreferences: Retrieves current user's notification preferences
  * - updateEmailNotificationPreferences: Updates user's email notification settings
+ * - getNotificationPreferencesData: Retrieves per-type, per-channel preferences
+ * - updateNotificationPreferencesData: Updates per-type, per-channel preferences
  * - notifySuggestionCreated: Sends notification to admins when suggestion is created
  * - notifySuggestionUpdated: Sends notification to submitter when suggestion is reviewed
  * - notifyNewMemberJoined: Sends notification to members when new user joins
  * - sendBirthdayReminders: Sends birthday reminder emails for today's birthdays
+ * - sendAnniversaryReminders: Sends reminders for today's wedding anniversaries
+ *
+ * Only channels set to "instant" are delivered here; daily and weekly
+ * digests are assembled by the notification-digest module.
  *
  * All functions use Dependency Injection for the database connection to enable
- * clean unit testing without mock.module() hacks.
+ * clean unit testing without mock.module() hacks. The notify functions also
+ * take the push and email senders, so tests can observe delivery.
  */
 
-import { drizzleDb, drizzleSchema } from "@vamsa/api";
-import { eq } from "drizzle-orm";
+import {
+  createAnniversaryReminderEmail,
+  createBirthdayReminderEmail,
+  createNewMemberEmail,
+  createSuggestionCreatedEmail,
+  createSuggestionUpdatedEmail,
+  drizzleDb,
+  drizzleSchema,
+  emailService,
+} from "@vamsa/api";
+import { and, eq, isNotNull, isNull } from "drizzle-orm";
 import { loggers } from "@vamsa/lib/logger";
+import { sendPushToUsers } from "../notifications/push";
+import {
+  getInstantChannels,
+  mergeNotificationPreferences,
+  resolveNotificationPreferences,
+} from "../notifications/preferences";
+import { createInboxNotificationsData } from "./inbox";
+import { getPrivacyPolicy, isPersonRedacted } from "./privacy";
+import type {
+  NotificationPreferenceType,
+  NotificationPreferences,
+  NotificationPreferencesUpdate,
+  PrivacyLevel,
+} from "@vamsa/schemas";
+import type { EmailTemplate } from "@vamsa/api";
+import type { NotificationPayload } from "../notifications/types";
+import type { PrivacySubject, PrivacyViewer } from "./privacy";
 
 const log = loggers.email;
 
 /** Type for the database instance (for DI) */
 export type NotificationsDb = typeof drizzleDb;
 
+/** Push sender used by the notify functions (injectable for tests) */
+export type PushSender = typeof sendPushToUsers;
+
+/** Email sender used by the notify functions (injectable for tests) */
+export type EmailSender = (
+  to: string,
+  template: EmailTemplate,
+  emailType: string,
+  userId: string,
+  metadata?: Record<string, unknown> | null
+) => Promise<unknown>;
+
+/** Default email sender: the email service */
+export const sendNotificationEmail: EmailSender = (
+  to,
+  template,
+  emailType,
+  userId,
+  metadata
+) => emailService.sendEmail(to, template, emailType, userId, metadata);
+
+/** Base URL of the web app, used for links in emails */
+export function getAppUrl(): string {
+  return process.env.APP_URL || "http://localhost:3000";
+}
+
+/**
+ * A user who may receive a notification
+ */
+export interface NotificationRecipient {
+  id: string;
+  email?: string | null;
+  name?: string | null;
+  notificationPreferences?: unknown;
+  emailNotificationPreferences?: unknown;
+}
+
+/**
+ * Whether a recipient may see every person a notification names
+ *
+ * @param recipient - The user the notification is for
+ * @param persons - Persons named in the notification
+ * @param defaultPrivacy - The family's default privacy level
+ */
+export function maySeePersons(
+  recipient: PrivacyViewer,
+  persons: Array<PrivacySubject>,
+  defaultPrivacy: PrivacyLevel
+): boolean {
+  const policy = { viewer: recipient, defaultPrivacy };
+  return persons.every((person) => !isPersonRedacted(policy, person));
+}
+
+/**
+ * The family's default privacy level, shared by every recipient
+ */
+async function getDefaultPrivacy(db: NotificationsDb): Promise<PrivacyLevel> {
+  const { defaultPrivacy } = await getPrivacyPolicy({ role: null }, db);
+  return defaultPrivacy;
+}
+
+type InstantPayload = NotificationPayload & {
+  type: NotificationPreferenceType;
+};
+
+/**
+ * Deliver a notification to each recipient on the channels they receive
+ * it on instantly: stored in their inboxes, pushed to their devices and
+ * emailed using the recipient's own template. Pushes are sent in the
+ * background so their retries never hold up the caller.
+ *
+ * @returns The recipients reached on at least one channel
+ */
+async function deliver(
+  recipients: Array<NotificationRecipient>,
+  payload: InstantPayload,
+  template: (recipient: NotificationRecipient) => EmailTemplate,
+  db: NotificationsDb,
+  push: PushSender,
+  email: EmailSender
+): Promise<Array<NotificationRecipient>> {
+  const now = new Date();
+  const inApp: Array<string> = [];
+  const pushIds: Array<string> = [];
+  const emailRecipients: Array<NotificationRecipient> = [];
+
+  for (const recipient of recipients) {
+    const channels = getInstantChannels(
+      resolveNotificationPreferences(recipient),
+      payload.type,
+      now
+    );
+    if (channels.inApp) inApp.push(recipient.id);
+    if (channels.push) pushIds.push(recipient.id);
+    if (channels.email && recipient.email) emailRecipients.push(recipient);
+  }
+
+  await createInboxNotificationsData(inApp, payload, db);
+  if (pushIds.length > 0) {
+    void push(pushIds, payload, db).catch((error: unknown) => {
+      log
+        .withErr(error)
+        .ctx({ type: payload.type })
+        .msg("Failed to send push notifications");
+    });
+  }
+  for (const recipient of emailRecipients) {
+    try {
+      await email(
+        recipient.email!,
+        template(recipient),
+        payload.type,
+        recipient.id,
+        payload.data
+      );
+    } catch (error) {
+      log
+        .withErr(error)
+        .ctx({ userId: recipient.id, type: payload.type })
+        .msg("Failed to send notification email");
+    }
+  }
+
+  const reached = new Set([
+    ...inApp,
+    ...pushIds,
+    ...emailRecipients.map((recipient) => recipient.id),
+  ]);
+  return recipients.filter((recipient) => reached.has(recipient.id));
+}
+
 /**
  * Get user's email notification preferences
  *
@@ -118,16 +284,75 @@ export async function updateEmailNotificationPreferences(
   return updatedPrefs;
 }
 
+/**
+ * Get a user's per-type, per-channel notification preferences
+ *
+ * Users who have not saved any yet get preferences derived from their
+ * legacy email flags.
+ *
+ * @param userId - ID of the user to retrieve preferences for
+ * @param db - Database instance (defaults to drizzleDb for production)
+ * @returns The user's effective notification preferences
+ * @throws Error if user not found
+ */
+export async function getNotificationPreferencesData(
+  userId: string,
+  db: NotificationsDb = drizzleDb
+): Promise<NotificationPreferences> {
+  const user = await db.query.users.findFirst({
+    where: eq(drizzleSchema.users.id, userId),
+    columns: {
+      notificationPreferences: true,
+      emailNotificationPreferences: true,
+    },
+  });
+
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  return resolveNotificationPreferences(user);
+}
+
+/**
+ * Update a user's per-type, per-channel notification preferences
+ *
+ * @param userId - ID of the user updating preferences
+ * @param update - Partial preferences; omitted fields keep their value
+ * @param db - Database instance (defaults to drizzleDb for production)
+ * @returns The updated preferences
+ * @throws Error if user not found
+ */
+export async function updateNotificationPreferencesData(
+  userId: string,
+  update: NotificationPreferencesUpdate,
+  db: NotificationsDb = drizzleDb
+): Promise<NotificationPreferences> {
+  const current = await getNotificationPreferencesData(userId, db);
+  const preferences = mergeNotificationPreferences(current, update);
+
+  await db
+    .update(drizzleSchema.users)
+    .set({ notificationPreferences: preferences, updatedAt: new Date() })
+    .where(eq(drizzleSchema.users.id, userId));
+
+  return preferences;
+}
+
 /**
  * Send suggestion created notification to admins
  *
  * @param suggestionId - ID of the suggestion that was created
  * @param db - Database instance (defaults to drizzleDb for production)
+ * @param push - Push sender (defaults to sendPushToUsers)
+ * @param email - Email sender (defaults to the email service)
  * @returns Void. Errors are logged but don't throw
  */
 export async function notifySuggestionCreated(
   suggestionId: string,
-  db: NotificationsDb = drizzleDb
+  db: NotificationsDb = drizzleDb,
+  push: PushSender = sendPushToUsers,
+  email: EmailSender = sendNotificationEmail
 ) {
   try {
     const suggestion = await db.query.suggestions.findFirst({
@@ -141,7 +366,10 @@ export async function notifySuggestionCreated(
 
     // Get all admin users
     const admins = await db.query.users.findMany({
-      where: eq(drizzleSchema.users.isActive, true),
+      where: and(
+        eq(drizzleSchema.users.isActive, true),
+        eq(drizzleSchema.users.role, "ADMIN")
+      ),
     });
 
     if (admins.length === 0) {
@@ -149,7 +377,38 @@ export async function notifySuggestionCreated(
       return;
     }
 
-    // TODO: Implement email sending logic
+    const submitter =
+      admins.find((admin) => admin.id === suggestion.submittedById) ??
+      (await db.query.users.findFirst({
+        where: eq(drizzleSchema.users.id, suggestion.submittedById),
+        columns: { name: true, email: true },
+      }));
+    const submitterName =
+      submitter?.name || submitter?.email || "A family member";
+    const targetName = await getPersonName(suggestion.targetPersonId, db);
+
+    await deliver(
+      admins.filter((admin) => admin.id !== suggestion.submittedById),
+      {
+        title: "New suggestion to review",
+        body: "A family member suggested a change that needs your review.",
+        type: "suggestion_created",
+        data: suggestion.targetPersonId
+          ? { suggestionId, personId: suggestion.targetPersonId }
+          : { suggestionId },
+      },
+      () =>
+        createSuggestionCreatedEmail(
+          submitterName,
+          targetName,
+          suggestion.type,
+          `${getAppUrl()}/admin/suggestions`
+        ),
+      db,
+      push,
+      email
+    );
+
     log.info({ suggestionId }, "Suggestion created notification queued");
   } catch (error) {
     log.withErr(error).msg("Error notifying suggestion created");
@@ -162,12 +421,16 @@ export async function notifySuggestionCreated(
  * @param suggestionId - ID of the suggestion that was reviewed
  * @param status - Review status: "APPROVED" or "REJECTED"
  * @param db - Database instance (defaults to drizzleDb for production)
+ * @param push - Push sender (defaults to sendPushToUsers)
+ * @param email - Email sender (defaults to the email service)
  * @returns Void. Errors are logged but don't throw
  */
 export async function notifySuggestionUpdated(
   suggestionId: string,
   status: "APPROVED" | "REJECTED",
-  db: NotificationsDb = drizzleDb
+  db: NotificationsDb = drizzleDb,
+  push: PushSender = sendPushToUsers,
+  email: EmailSender = sendNotificationEmail
 ) {
   try {
     const suggestion = await db.query.suggestions.findFirst({
@@ -182,7 +445,48 @@ export async function notifySuggestionUpdated(
       return;
     }
 
-    // TODO: Implement email sending logic
+    const submitter = await db.query.users.findFirst({
+      where: eq(drizzleSchema.users.id, suggestion.submittedById),
+      columns: {
+        id: true,
+        email: true,
+        name: true,
+        notificationPreferences: true,
+        emailNotificationPreferences: true,
+      },
+    });
+
+    if (submitter) {
+      const approved = status === "APPROVED";
+      const targetName = await getPersonName(suggestion.targetPersonId, db);
+      await deliver(
+        [submitter],
+        {
+          title: approved ? "Suggestion approved" : "Suggestion rejected",
+          body: approved
+            ? "Your suggested change was approved and applied."
+            : "Your suggested change was not approved.",
+          type: "suggestion_reviewed",
+          data: suggestion.targetPersonId
+            ? { suggestionId, status, personId: suggestion.targetPersonId }
+            : { suggestionId, status },
+        },
+        (recipient) =>
+          createSuggestionUpdatedEmail(
+            recipient.name || "Family Member",
+            status,
+            suggestion.reviewNote ?? null,
+            targetName,
+            suggestion.targetPersonId
+              ? `${getAppUrl()}/people/${suggestion.targetPersonId}`
+              : getAppUrl()
+          ),
+        db,
+        push,
+        email
+      );
+    }
+
     log.info(
       { suggestionId, status },
       "Suggestion updated notification queued"
@@ -197,11 +501,15 @@ export async function notifySuggestionUpdated(
  *
  * @param userId - ID of the new user that joined
  * @param db - Database instance (defaults to drizzleDb for production)
+ * @param push - Push sender (defaults to sendPushToUsers)
+ * @param email - Email sender (defaults to the email service)
  * @returns Void. Errors are logged but don't throw
  */
 export async function notifyNewMemberJoined(
   userId: string,
-  db: NotificationsDb = drizzleDb
+  db: NotificationsDb = drizzleDb,
+  push: PushSender = sendPushToUsers,
+  email: EmailSender = sendNotificationEmail
 ) {
   try {
     const newMember = await db.query.users.findFirst({
@@ -223,7 +531,33 @@ export async function notifyNewMemberJoined(
       return;
     }
 
-    // TODO: Implement email sending logic
+    const settings = await db.query.familySettings.findFirst({
+      columns: { familyName: true },
+    });
+    const memberName = newMember.name || newMember.email;
+
+    await deliver(
+      members.filter((member) => member.id !== userId),
+      {
+        title: "New family member",
+        body: `${memberName} joined the family tree.`,
+        type: "new_member",
+        data: newMember.personId
+          ? { userId, personId: newMember.personId }
+          : { userId },
+      },
+      () =>
+        createNewMemberEmail(
+          memberName,
+          newMember.email,
+          settings?.familyName ?? "Our Family",
+          getAppUrl()
+        ),
+      db,
+      push,
+      email
+    );
+
     log.info({ userId }, "New member notification queued");
   } catch (error) {
     log.withErr(error).msg("Error notifying new member joined");
@@ -231,12 +565,19 @@ export async function notifyNewMemberJoined(
 }
 
 /**
- * Send birthday reminder emails for people with birthdays today
+ * Send birthday reminders for people with birthdays today. Each user only
+ * hears of the people they may see.
  *
  * @param db - Database instance (defaults to drizzleDb for production)
+ * @param push - Push sender (defaults to sendPushToUsers)
+ * @param email - Email sender (defaults to the email service)
  * @returns Void. Silently succeeds if no birthdays today or errors are logged without throwing
  */
-export async function sendBirthdayReminders(db: NotificationsDb = drizzleDb) {
+export async function sendBirthdayReminders(
+  db: NotificationsDb = drizzleDb,
+  push: PushSender = sendPushToUsers,
+  email: EmailSender = sendNotificationEmail
+) {
   try {
     const today = new Date();
     const month = today.getMonth() + 1;
@@ -244,7 +585,10 @@ export async function sendBirthdayReminders(db: NotificationsDb = drizzleDb) {
 
     // Get all people with birthdays
     const birthdays = await db.query.persons.findMany({
-      where: eq(drizzleSchema.persons.isLiving, true),
+      where: and(
+        eq(drizzleSchema.persons.isLiving, true),
+        isNull(drizzleSchema.persons.deletedAt)
+      ),
     });
 
     // Filter in application for birthdays today
@@ -260,17 +604,41 @@ export async function sendBirthdayReminders(db: NotificationsDb = drizzleDb) {
       return;
     }
 
-    // Get all system users
-    const systemUser = await db.query.users.findFirst({
-      where: eq(drizzleSchema.users.role, "ADMIN"),
+    const users = await db.query.users.findMany({
+      where: eq(drizzleSchema.users.isActive, true),
     });
+    const defaultPrivacy = await getDefaultPrivacy(db);
+
+    let reached = 0;
+    for (const person of peopleWithBirthdayToday) {
+      const celebrant = `${person.firstName} ${person.lastName}`;
+      const recipients = await deliver(
+        users.filter((user) => maySeePersons(user, [person], defaultPrivacy)),
+        {
+          title: "Birthday today",
+          body: `Today is ${celebrant}'s birthday.`,
+          type: "birthday_reminder",
+          data: { personId: person.id },
+        },
+        (recipient) =>
+          createBirthdayReminderEmail(
+            recipient.name || "Family Member",
+            celebrant,
+            person.dateOfBirth!,
+            `${getAppUrl()}/people/${person.id}`
+          ),
+        db,
+        push,
+        email
+      );
+      reached = Math.max(reached, recipients.length);
+    }
 
-    if (!systemUser) {
-      log.info({}, "No system user found for birthday reminders");
+    if (reached === 0) {
+      log.info({}, "No users found for birthday reminders");
       return;
     }
 
-    // TODO: Implement email sending logic
     log.info(
       { count: peopleWithBirthdayToday.length },
       "Birthday reminders queued"
@@ -279,3 +647,150 @@ export async function sendBirthdayReminders(db: NotificationsDb = drizzleDb) {
     log.withErr(error).msg("Error sending birthday reminders");
   }
 }
+
+/**
+ * Send reminders for wedding anniversaries of living couples today. Each
+ * user only hears of couples they may see both spouses of.
+ *
+ * @param db - Database instance (defaults to drizzleDb for production)
+ * @param push - Push sender (defaults to sendPushToUsers)
+ * @param email - Email sender (defaults to the email service)
+ * @returns Void. Silently succeeds if no anniversaries today or errors are logged without throwing
+ */
+export async function sendAnniversaryReminders(
+  db: NotificationsDb = drizzleDb,
+  push: PushSender = sendPushToUsers,
+  email: EmailSender = sendNotificationEmail
+) {
+  try {
+    const today = new Date();
+    const anniversaries = await findCouples(db).then((couples) =>
+      couples.filter(
+        ({ marriageDate }) =>
+          marriageDate.getMonth() === today.getMonth() &&
+          marriageDate.getDate() === today.getDate()
+      )
+    );
+
+    if (anniversaries.length === 0) {
+      // No anniversaries today - silent success
+      return;
+    }
+
+    const users = await db.query.users.findMany({
+      where: eq(drizzleSchema.users.isActive, true),
+    });
+    const defaultPrivacy = await getDefaultPrivacy(db);
+
+    for (const couple of anniversaries) {
+      const years = today.getFullYear() - couple.marriageDate.getFullYear();
+      await deliver(
+        users.filter((user) =>
+          maySeePersons(user, couple.spouses, defaultPrivacy)
+        ),
+        {
+          title: "Anniversary today",
+          body: `${couple.names} celebrate ${years} years together today.`,
+          type: "anniversary_reminder",
+          data: { personId: couple.personId },
+        },
+        (recipient) =>
+          createAnniversaryReminderEmail(
+            recipient.name || "Family Member",
+            couple.names,
+            years,
+            `${getAppUrl()}/people/${couple.personId}`
+          ),
+        db,
+        push,
+        email
+      );
+    }
+
+    log.info({ count: anniversaries.length }, "Anniversary reminders queued");
+  } catch (error) {
+    log.withErr(error).msg("Error sending anniversary reminders");
+  }
+}
+
+/**
+ * A married couple who are both living
+ */
+export interface Couple {
+  /** One of the spouses, used for links */
+  personId: string;
+  names: string;
+  marriageDate: Date;
+  /** Both spouses, for privacy decisions */
+  spouses: Array<PrivacySubject>;
+}
+
+/**
+ * Living couples with a known marriage date, one entry per couple even
+ * though spouse relationships are stored in both directions
+ *
+ * @param db - Database instance (defaults to drizzleDb for production)
+ */
+export async function findCouples(
+  db: NotificationsDb = drizzleDb
+): Promise<Array<Couple>> {
+  const marriages = await db.query.relationships.findMany({
+    where: and(
+      eq(drizzleSchema.relationships.type, "SPOUSE"),
+      eq(drizzleSchema.relationships.isActive, true),
+      isNotNull(drizzleSchema.relationships.marriageDate),
+      isNull(drizzleSchema.relationships.divorceDate)
+    ),
+  });
+  if (marriages.length === 0) return [];
+
+  const people = await db.query.persons.findMany({
+    where: and(
+      eq(drizzleSchema.persons.isLiving, true),
+      isNull(drizzleSchema.persons.deletedAt)
+    ),
+    columns: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      isLiving: true,
+      privacy: true,
+    },
+  });
+  const byId = new Map(people.map((person) => [person.id, person]));
+
+  const seen = new Set<string>();
+  const couples: Array<Couple> = [];
+  for (const marriage of marriages) {
+    const key = [marriage.personId, marriage.relatedPersonId].sort().join(":");
+    const person = byId.get(marriage.personId);
+    const spouse = byId.get(marriage.relatedPersonId);
+    if (seen.has(key) || !person || !spouse || !marriage.marriageDate) {
+      continue;
+    }
+    seen.add(key);
+    couples.push({
+      personId: person.id,
+      names:
+        person.lastName === spouse.lastName
+          ? `${person.firstName} & ${spouse.firstName} ${person.lastName}`
+          : `${person.firstName} ${person.lastName} & ${spouse.firstName} ${spouse.lastName}`,
+      marriageDate: marriage.marriageDate,
+      spouses: [person, spouse],
+    });
+  }
+
+  return couples;
+}
+
+async function getPersonName(
+  personId: string | null,
+  db: NotificationsDb
+): Promise<string> {
+  if (!personId) return "";
+  const person = await db.query.persons.findFirst({
+    where: eq(drizzleSchema.persons.id, personId),
+    columns: { firstName: true, lastName: true },
+  });
+  return person ? `${person.firstName} ${person.lastName}` : "";
+}
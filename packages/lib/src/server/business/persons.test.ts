@@ -11,6 +11,8 @@
  * - Transactional Audits: updatePersonData wraps update and audit in transaction
  * - Transactional Audits: deletePersonData wraps soft-delete and audit in transaction
  * - Transactional Audits: audit logging fails if main operation fails
+ * - Privacy: searchPersonsData hides persons redacted for the viewer
+ * - Privacy: listPersonsData searches and sorts without redacted details
  *
  * Uses dependency injection to mock database calls.
  */
@@ -29,6 +31,7 @@ import {
   searchPersonsData,
   updatePersonData,
 } from "./persons";
+import { SYSTEM_VIEWER } from "./privacy";
 
 vi.mock("@vamsa/schemas", () => ({
   createPaginationMeta: (page: number, limit: number, total: number) => ({
@@ -204,7 +207,7 @@ describe("Persons Business Logic - Soft Deletes and Transactions", () => {
       } as any;
 
       try {
-        await getPersonData(personId, mockDb);
+        await getPersonData(personId, mockDb, SYSTEM_VIEWER);
         throw new Error("Should have thrown error");
       } catch (error) {
         expect(error).toBeInstanceOf(Error);
@@ -247,7 +250,7 @@ describe("Persons Business Logic - Soft Deletes and Transactions", () => {
         },
       } as any;
 
-      const result = await getPersonData(personId, mockDb);
+      const result = await getPersonData(personId, mockDb, SYSTEM_VIEWER);
 
       expect(result.id).toBe(personId);
       expect(result.firstName).toBe("John");
@@ -318,7 +321,8 @@ describe("Persons Business Logic - Soft Deletes and Transactions", () => {
 
       const result = await listPersonsData(
         { page: 1, limit: 10, sortBy: "lastName", sortOrder: "asc" },
-        mockDb
+        mockDb,
+        SYSTEM_VIEWER
       );
 
       expect(result.items).toHaveLength(1);
@@ -362,11 +366,100 @@ describe("Persons Business Logic - Soft Deletes and Transactions", () => {
           sortOrder: "asc",
           search: "John",
         },
-        mockDb
+        mockDb,
+        SYSTEM_VIEWER
       );
 
       expect(result.items).toHaveLength(0);
     });
+
+    function viewerListDb(persons: Array<Record<string, unknown>>) {
+      return {
+        query: {
+          familySettings: {
+            findFirst: vi.fn(async () => ({ defaultPrivacy: "PUBLIC" })),
+          },
+        },
+        select: vi.fn(() => ({
+          from: vi.fn(() => ({
+            where: vi.fn(() => ({
+              orderBy: vi.fn(async () => persons),
+            })),
+          })),
+        })),
+      } as any;
+    }
+
+    function listRow(
+      id: string,
+      firstName: string,
+      dateOfBirth: string,
+      isLiving: boolean
+    ) {
+      return {
+        id,
+        firstName,
+        lastName: "Doe",
+        maidenName: null,
+        dateOfBirth: new Date(dateOfBirth),
+        dateOfPassing: null,
+        dateOfBirthDetail: null,
+        dateOfPassingDetail: null,
+        birthPlace: null,
+        nativePlace: null,
+        gender: null,
+        photoUrl: null,
+        bio: null,
+        email: null,
+        phone: null,
+        profession: null,
+        employer: null,
+        isLiving,
+        privacy: null,
+        createdAt: new Date("2024-01-01"),
+        updatedAt: new Date("2024-01-01"),
+      };
+    }
+
+    it("should leave redacted persons out of a viewer's search and total", async () => {
+      const mockDb = viewerListDb([
+        listRow("person-1", "John", "1990-05-01", true),
+        listRow("person-2", "Jim", "1890-05-01", false),
+      ]);
+
+      const result = await listPersonsData(
+        {
+          page: 1,
+          limit: 10,
+          sortBy: "lastName",
+          sortOrder: "asc",
+          search: "John",
+        },
+        mockDb,
+        { role: "VIEWER" }
+      );
+
+      expect(result.items.map((p) => p.id)).toEqual(["person-2"]);
+      expect(result.pagination.total).toBe(1);
+    });
+
+    it("should sort redacted persons by their placeholders, not their birth dates", async () => {
+      const mockDb = viewerListDb([
+        listRow("person-1", "John", "1850-05-01", true),
+        listRow("person-2", "Jim", "1890-05-01", false),
+        listRow("person-3", "Joe", "1870-05-01", false),
+      ]);
+
+      const result = await listPersonsData(
+        { page: 1, limit: 2, sortBy: "dateOfBirth", sortOrder: "asc" },
+        mockDb,
+        { role: "VIEWER" }
+      );
+
+      // The living person has the earliest birth date but no date to show
+      expect(result.items.map((p) => p.id)).toEqual(["person-3", "person-2"]);
+      expect(result.pagination.total).toBe(3);
+    });
   });
 
   describe("Soft Deletes - searchPersonsData", () => {
@@ -385,7 +478,12 @@ describe("Persons Business Logic - Soft Deletes and Transactions", () => {
         })),
       } as any;
 
-      const result = await searchPersonsData(query, undefined, mockDb);
+      const result = await searchPersonsData(
+        query,
+        undefined,
+        mockDb,
+        SYSTEM_VIEWER
+      );
 
       expect(result).toEqual([]);
     });
@@ -406,7 +504,12 @@ describe("Persons Business Logic - Soft Deletes and Transactions", () => {
         })),
       } as any;
 
-      const result = await searchPersonsData(query, excludeId, mockDb);
+      const result = await searchPersonsData(
+        query,
+        excludeId,
+        mockDb,
+        SYSTEM_VIEWER
+      );
 
       expect(result).toEqual([]);
     });
@@ -435,11 +538,46 @@ describe("Persons Business Logic - Soft Deletes and Transactions", () => {
         })),
       } as any;
 
-      const result = await searchPersonsData(query, undefined, mockDb);
+      const result = await searchPersonsData(
+        query,
+        undefined,
+        mockDb,
+        SYSTEM_VIEWER
+      );
 
       expect(result).toHaveLength(1);
       expect(result[0].firstName).toBe("John");
     });
+
+    it("should leave out persons redacted for the viewer", async () => {
+      const mockResults = [
+        { id: "person-1", firstName: "John", lastName: "Doe", isLiving: true },
+        { id: "person-2", firstName: "Jim", lastName: "Doe", isLiving: false },
+      ];
+
+      const mockDb = {
+        query: {
+          familySettings: {
+            findFirst: vi.fn(async () => ({ defaultPrivacy: "PUBLIC" })),
+          },
+        },
+        select: vi.fn(() => ({
+          from: vi.fn(() => ({
+            where: vi.fn(() => ({
+              orderBy: vi.fn(() => ({
+                limit: vi.fn(async () => mockResults),
+              })),
+            })),
+          })),
+        })),
+      } as any;
+
+      const result = await searchPersonsData("Doe", undefined, mockDb, {
+        role: "VIEWER",
+      });
+
+      expect(result.map((p) => p.id)).toEqual(["person-2"]);
+    });
   });
 
   describe("Soft Deletes - updatePersonData", () => {
@@ -951,7 +1089,7 @@ describe("Persons Business Logic - Soft Deletes and Transactions", () => {
 
       // Try to retrieve the deleted person
       try {
-        await getPersonData(personId, mockDb);
+        await getPersonData(personId, mockDb, SYSTEM_VIEWER);
         throw new Error("Should not find soft-deleted person");
       } catch (error) {
         expect(error).toBeInstanceOf(Error);
@@ -1,16 +1,30 @@
 import { drizzleDb, drizzleSchema } from "@vamsa/api";
 import { and, asc, desc, eq, isNull, or, sql } from "drizzle-orm";
 import { createPaginationMeta } from "@vamsa/schemas";
+import { resolveDateColumns, toGenealogicalDate } from "@vamsa/lib";
 import { loggers } from "@vamsa/lib/logger";
 import { t } from "../i18n";
 import { recordSearchMetrics } from "../metrics";
 import { caseInsensitiveLike, escapeLike } from "../db";
+import {
+  applyPersonPrivacy,
+  getPrivacyPolicy,
+  isPersonRedacted,
+  redactPerson,
+} from "./privacy";
+import { resolveAuditActor } from "./audit";
+import { emitWebhookEvent } from "./webhooks";
+import type { PrivacyViewer } from "./privacy";
+import type { AuditActor } from "./audit";
 import type { SQL } from "drizzle-orm";
+import type { GenealogicalDate } from "@vamsa/lib";
 import type {
   Address,
   Gender,
+  ParentPedigree,
   PersonCreateInput,
   PersonUpdateInput,
+  PrivacyLevel,
   SocialLinks,
 } from "@vamsa/schemas";
 
@@ -25,9 +39,16 @@ export type PersonDb = typeof drizzleDb;
 // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Drizzle transaction types are complex; any is acceptable here
 export type PersonDbOrTx = PersonDb | any;
 
+/** Webhook event sent for each kind of person change */
+const PERSON_WEBHOOK_EVENTS = {
+  CREATE: "person.created",
+  UPDATE: "person.updated",
+  DELETE: "person.deleted",
+} as const;
+
 /**
- * Log audit action using Drizzle
- * @param userId - User performing the action
+ * Log audit action using Drizzle, and queue the matching person webhook event
+ * @param actor - User performing the action, or approved suggestion submitter
  * @param action - Type of action (CREATE, UPDATE, DELETE)
  * @param entityId - ID of the person record
  * @param previousData - Previous state of the record (for UPDATE/DELETE)
@@ -35,13 +56,20 @@ export type PersonDbOrTx = PersonDb | any;
  * @param db - Drizzle database instance or transaction object
  */
 export async function logAuditAction(
-  userId: string,
+  actor: AuditActor,
   action: "CREATE" | "UPDATE" | "DELETE",
   entityId: string,
   previousData?: unknown,
   newData?: unknown,
   db: PersonDbOrTx = drizzleDb
 ) {
+  const { userId, marker } = resolveAuditActor(actor);
+  const loggedNewData = (
+    marker.suggestionId
+      ? { ...((newData ?? {}) as Record<string, unknown>), ...marker }
+      : newData
+  ) as Record<string, unknown> | null;
+
   try {
     await db.insert(drizzleSchema.auditLogs).values({
       id: crypto.randomUUID(),
@@ -49,12 +77,24 @@ export async function logAuditAction(
       action,
       entityType: "Person",
       entityId,
+      personId: entityId,
       previousData: previousData as Record<string, unknown> | null,
-      newData: newData as Record<string, unknown> | null,
+      newData: loggedNewData,
     });
   } catch (error) {
     log.withErr(error).msg("Failed to log audit action");
   }
+
+  await emitWebhookEvent(
+    PERSON_WEBHOOK_EVENTS[action],
+    {
+      personId: entityId,
+      userId,
+      previousData: previousData ?? null,
+      newData: loggedNewData ?? null,
+    },
+    db
+  );
 }
 
 /**
@@ -108,6 +148,8 @@ export interface PersonListResult {
     maidenName: string | null;
     dateOfBirth: string | null;
     dateOfPassing: string | null;
+    dateOfBirthDetail: GenealogicalDate | null;
+    dateOfPassingDetail: GenealogicalDate | null;
     birthPlace: string | null;
     nativePlace: string | null;
     gender: string | null;
@@ -118,81 +160,138 @@ export interface PersonListResult {
     profession: string | null;
     employer: string | null;
     isLiving: boolean;
+    privacy: PrivacyLevel | null;
     createdAt: string;
     updatedAt: string;
   }>;
   pagination: ReturnType<typeof createPaginationMeta>;
 }
 
+type PersonRow = typeof drizzleSchema.persons.$inferSelect;
+type PersonListItem = PersonListResult["items"][number];
+
+function toPersonListItem(p: PersonRow): PersonListItem {
+  return {
+    id: p.id,
+    firstName: p.firstName,
+    lastName: p.lastName,
+    maidenName: p.maidenName,
+    dateOfBirth: p.dateOfBirth?.toISOString().split("T")[0] ?? null,
+    dateOfPassing: p.dateOfPassing?.toISOString().split("T")[0] ?? null,
+    dateOfBirthDetail: toGenealogicalDate(p.dateOfBirthDetail),
+    dateOfPassingDetail: toGenealogicalDate(p.dateOfPassingDetail),
+    birthPlace: p.birthPlace,
+    nativePlace: p.nativePlace,
+    gender: p.gender,
+    photoUrl: p.photoUrl,
+    bio: p.bio,
+    email: p.email,
+    phone: p.phone,
+    profession: p.profession,
+    employer: p.employer,
+    isLiving: p.isLiving,
+    privacy: p.privacy ?? null,
+    createdAt: p.createdAt.toISOString(),
+    updatedAt: p.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Compare list items on the fields they are shown with, so redacted
+ * persons sort by their placeholders. Missing dates go last.
+ */
+function comparePersonListItems(
+  sortBy: PersonListOptions["sortBy"],
+  sortOrder: PersonListOptions["sortOrder"]
+): (a: PersonListItem, b: PersonListItem) => number {
+  const direction = sortOrder === "asc" ? 1 : -1;
+  const byText = (a: string, b: string) => direction * a.localeCompare(b);
+
+  return (a, b) => {
+    switch (sortBy) {
+      case "lastName":
+        return (
+          byText(a.lastName, b.lastName) || byText(a.firstName, b.firstName)
+        );
+      case "firstName":
+        return (
+          byText(a.firstName, b.firstName) || byText(a.lastName, b.lastName)
+        );
+      case "dateOfBirth":
+        if (a.dateOfBirth === b.dateOfBirth) return 0;
+        if (a.dateOfBirth === null) return 1;
+        if (b.dateOfBirth === null) return -1;
+        return byText(a.dateOfBirth, b.dateOfBirth);
+      case "createdAt":
+        return byText(a.createdAt, b.createdAt);
+    }
+  };
+}
+
 /**
  * Query persons with pagination, filtering, and sorting
+ *
+ * For viewers who may not see everyone, a search leaves out redacted
+ * persons (a name match would confirm the hidden name), and redacted
+ * persons sort by their placeholders rather than their real names and
+ * dates. Both happen before paging, so the total only counts what the
+ * viewer can see.
+ *
  * @param options - List options including page, limit, sorting, filtering
  * @param db - Drizzle database instance
- * @returns Paginated list of persons
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
+ * @returns Paginated list of persons (redacted persons as placeholders)
  */
 export async function listPersonsData(
   options: PersonListOptions,
-  db: PersonDb = drizzleDb
+  db: PersonDb = drizzleDb,
+  viewer: PrivacyViewer
 ): Promise<PersonListResult> {
+  const privacy = await getPrivacyPolicy(viewer, db);
   const start = Date.now();
   const { page, limit, sortBy, sortOrder, search, isLiving } = options;
 
   // Build where clause
   const where = buildPersonWhereClause(search, isLiving);
 
-  // Get total count for pagination
-  const [{ count: total }] = await db
-    .select({ count: sql<number>`count(*)` })
-    .from(drizzleSchema.persons)
-    .where(where);
-
-  // Build order by clause
-  const orderByConditions: Array<SQL<unknown>> = [];
-  if (sortBy === "lastName") {
-    orderByConditions.push(
-      sortOrder === "asc"
-        ? asc(drizzleSchema.persons.lastName)
-        : desc(drizzleSchema.persons.lastName)
-    );
-    orderByConditions.push(
-      sortOrder === "asc"
-        ? asc(drizzleSchema.persons.firstName)
-        : desc(drizzleSchema.persons.firstName)
-    );
-  } else if (sortBy === "firstName") {
-    orderByConditions.push(
-      sortOrder === "asc"
-        ? asc(drizzleSchema.persons.firstName)
-        : desc(drizzleSchema.persons.firstName)
-    );
-    orderByConditions.push(
-      sortOrder === "asc"
-        ? asc(drizzleSchema.persons.lastName)
-        : desc(drizzleSchema.persons.lastName)
-    );
-  } else if (sortBy === "dateOfBirth") {
-    orderByConditions.push(
-      sortOrder === "asc"
-        ? asc(drizzleSchema.persons.dateOfBirth)
-        : desc(drizzleSchema.persons.dateOfBirth)
-    );
-  } else if (sortBy === "createdAt") {
-    orderByConditions.push(
-      sortOrder === "asc"
-        ? asc(drizzleSchema.persons.createdAt)
-        : desc(drizzleSchema.persons.createdAt)
-    );
+  let total: number;
+  let items: Array<PersonListItem>;
+
+  if (privacy.viewer.role === "ADMIN") {
+    // Nobody is redacted for admins, so the database can sort and page
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(drizzleSchema.persons)
+      .where(where);
+    total = count;
+
+    const persons = await db
+      .select()
+      .from(drizzleSchema.persons)
+      .where(where)
+      .orderBy(...buildPersonOrderBy(sortBy, sortOrder))
+      .limit(limit)
+      .offset((page - 1) * limit);
+    items = persons.map(toPersonListItem);
+  } else {
+    // Ties keep creation order, which says nothing about hidden details
+    const persons = await db
+      .select()
+      .from(drizzleSchema.persons)
+      .where(where)
+      .orderBy(
+        asc(drizzleSchema.persons.createdAt),
+        asc(drizzleSchema.persons.id)
+      );
+
+    const visible = persons
+      .filter((p) => !search || !isPersonRedacted(privacy, p))
+      .map((p) => applyPersonPrivacy(privacy, toPersonListItem(p)))
+      .sort(comparePersonListItems(sortBy, sortOrder));
+    total = visible.length;
+    items = visible.slice((page - 1) * limit, page * limit);
   }
 
-  // Get paginated results
-  const persons = await db
-    .select()
-    .from(drizzleSchema.persons)
-    .where(where)
-    .orderBy(...orderByConditions)
-    .limit(limit)
-    .offset((page - 1) * limit);
-
   // Record search metrics if search query was provided
   if (search) {
     const duration = Date.now() - start;
@@ -200,30 +299,34 @@ export async function listPersonsData(
   }
 
   return {
-    items: persons.map((p) => ({
-      id: p.id,
-      firstName: p.firstName,
-      lastName: p.lastName,
-      maidenName: p.maidenName,
-      dateOfBirth: p.dateOfBirth?.toISOString().split("T")[0] ?? null,
-      dateOfPassing: p.dateOfPassing?.toISOString().split("T")[0] ?? null,
-      birthPlace: p.birthPlace,
-      nativePlace: p.nativePlace,
-      gender: p.gender,
-      photoUrl: p.photoUrl,
-      bio: p.bio,
-      email: p.email,
-      phone: p.phone,
-      profession: p.profession,
-      employer: p.employer,
-      isLiving: p.isLiving,
-      createdAt: p.createdAt.toISOString(),
-      updatedAt: p.updatedAt.toISOString(),
-    })),
+    items,
     pagination: createPaginationMeta(page, limit, total),
   };
 }
 
+function buildPersonOrderBy(
+  sortBy: PersonListOptions["sortBy"],
+  sortOrder: PersonListOptions["sortOrder"]
+): Array<SQL<unknown>> {
+  const order = sortOrder === "asc" ? asc : desc;
+  switch (sortBy) {
+    case "lastName":
+      return [
+        order(drizzleSchema.persons.lastName),
+        order(drizzleSchema.persons.firstName),
+      ];
+    case "firstName":
+      return [
+        order(drizzleSchema.persons.firstName),
+        order(drizzleSchema.persons.lastName),
+      ];
+    case "dateOfBirth":
+      return [order(drizzleSchema.persons.dateOfBirth)];
+    case "createdAt":
+      return [order(drizzleSchema.persons.createdAt)];
+  }
+}
+
 export interface PersonDetail {
   id: string;
   firstName: string;
@@ -231,6 +334,8 @@ export interface PersonDetail {
   maidenName: string | null;
   dateOfBirth: string | null;
   dateOfPassing: string | null;
+  dateOfBirthDetail: GenealogicalDate | null;
+  dateOfPassingDetail: GenealogicalDate | null;
   birthPlace: string | null;
   nativePlace: string | null;
   gender: Gender | null;
@@ -244,6 +349,9 @@ export interface PersonDetail {
   employer: string | null;
   socialLinks: SocialLinks | null;
   isLiving: boolean;
+  privacy: PrivacyLevel | null;
+  /** True when details were replaced by placeholders for this viewer */
+  isRedacted: boolean;
   createdAt: string;
   updatedAt: string;
   relationships: Array<{
@@ -251,6 +359,9 @@ export interface PersonDetail {
     type: string;
     marriageDate: string | null;
     divorceDate: string | null;
+    pedigree: ParentPedigree | null;
+    startDate: string | null;
+    endDate: string | null;
     isActive: boolean;
     relatedPerson: {
       id: string;
@@ -268,11 +379,16 @@ interface RelationshipWithRelatedPerson {
   type: string;
   marriageDate: Date | null;
   divorceDate: Date | null;
+  pedigree: ParentPedigree | null;
+  startDate: Date | null;
+  endDate: Date | null;
   isActive: boolean;
   relatedPerson: {
     id: string;
     firstName: string;
     lastName: string;
+    isLiving: boolean;
+    privacy: string | null;
   };
 }
 
@@ -286,6 +402,8 @@ interface PersonWithRelationships {
   maidenName: string | null;
   dateOfBirth: Date | null;
   dateOfPassing: Date | null;
+  dateOfBirthDetail: unknown;
+  dateOfPassingDetail: unknown;
   birthPlace: string | null;
   nativePlace: string | null;
   gender: string | null;
@@ -299,6 +417,7 @@ interface PersonWithRelationships {
   employer: string | null;
   socialLinks: unknown;
   isLiving: boolean;
+  privacy: string | null;
   createdAt: Date;
   updatedAt: Date;
   relationshipsFrom: Array<RelationshipWithRelatedPerson>;
@@ -308,13 +427,16 @@ interface PersonWithRelationships {
  * Retrieve a single person by ID with all relationships
  * @param personId - ID of the person to retrieve
  * @param db - Drizzle database instance
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
  * @returns Person detail with relationships
  * @throws Error if person not found
  */
 export async function getPersonData(
   personId: string,
-  db: PersonDb = drizzleDb
+  db: PersonDb = drizzleDb,
+  viewer: PrivacyViewer
 ): Promise<PersonDetail> {
+  const privacy = await getPrivacyPolicy(viewer, db);
   // Query person with relationships
   // Type assertion needed because drizzle's inferred type doesn't include the nested relation
   const person = (await db.query.persons.findFirst({
@@ -333,30 +455,58 @@ export async function getPersonData(
     throw new Error(await t("errors:person.notFound"));
   }
 
+  const isRedacted = isPersonRedacted(privacy, person);
+
   // Build relationships list
   // Only use relationshipsFrom to avoid duplicates since relationships are stored bidirectionally
   const relationships = (person.relationshipsFrom || []).map(
-    (r: RelationshipWithRelatedPerson) => ({
-      id: r.id,
-      type: r.type,
-      marriageDate: r.marriageDate?.toISOString().split("T")[0] ?? null,
-      divorceDate: r.divorceDate?.toISOString().split("T")[0] ?? null,
-      isActive: r.isActive,
-      relatedPerson: {
+    (r: RelationshipWithRelatedPerson) => {
+      const related = applyPersonPrivacy(privacy, {
         id: r.relatedPerson.id,
         firstName: r.relatedPerson.firstName,
         lastName: r.relatedPerson.lastName,
-      },
-    })
+        isLiving: r.relatedPerson.isLiving,
+        privacy: r.relatedPerson.privacy,
+      });
+      // Marriage dates reveal as much as birth dates, so hide them with either side
+      const hideDates =
+        isRedacted || isPersonRedacted(privacy, r.relatedPerson);
+
+      return {
+        id: r.id,
+        type: r.type,
+        marriageDate: hideDates
+          ? null
+          : (r.marriageDate?.toISOString().split("T")[0] ?? null),
+        divorceDate: hideDates
+          ? null
+          : (r.divorceDate?.toISOString().split("T")[0] ?? null),
+        pedigree: r.pedigree ?? null,
+        startDate: hideDates
+          ? null
+          : (r.startDate?.toISOString().split("T")[0] ?? null),
+        endDate: hideDates
+          ? null
+          : (r.endDate?.toISOString().split("T")[0] ?? null),
+        isActive: r.isActive,
+        relatedPerson: {
+          id: related.id,
+          firstName: related.firstName,
+          lastName: related.lastName,
+        },
+      };
+    }
   );
 
-  return {
+  const detail: PersonDetail = {
     id: person.id,
     firstName: person.firstName,
     lastName: person.lastName,
     maidenName: person.maidenName,
     dateOfBirth: person.dateOfBirth?.toISOString().split("T")[0] ?? null,
     dateOfPassing: person.dateOfPassing?.toISOString().split("T")[0] ?? null,
+    dateOfBirthDetail: toGenealogicalDate(person.dateOfBirthDetail),
+    dateOfPassingDetail: toGenealogicalDate(person.dateOfPassingDetail),
     birthPlace: person.birthPlace,
     nativePlace: person.nativePlace,
     gender: person.gender as Gender | null,
@@ -370,10 +520,14 @@ export async function getPersonData(
     employer: person.employer,
     socialLinks: person.socialLinks ?? null,
     isLiving: person.isLiving,
+    privacy: (person.privacy as PrivacyLevel | null) ?? null,
+    isRedacted,
     createdAt: person.createdAt.toISOString(),
     updatedAt: person.updatedAt.toISOString(),
     relationships,
   };
+
+  return isRedacted ? redactPerson(detail) : detail;
 }
 
 export interface PersonCreateResult {
@@ -393,6 +547,14 @@ export async function createPersonData(
   db: PersonDb = drizzleDb
 ): Promise<PersonCreateResult> {
   const personId = crypto.randomUUID();
+  const birth = resolveDateColumns(
+    data.dateOfBirth ? new Date(data.dateOfBirth) : null,
+    data.dateOfBirthDetail
+  );
+  const passing = resolveDateColumns(
+    data.dateOfPassing ? new Date(data.dateOfPassing) : null,
+    data.dateOfPassingDetail
+  );
 
   // Wrap insert and audit log in a transaction
   return await db.transaction(async (tx) => {
@@ -404,8 +566,10 @@ export async function createPersonData(
         firstName: data.firstName,
         lastName: data.lastName,
         maidenName: data.maidenName || null,
-        dateOfBirth: data.dateOfBirth ? new Date(data.dateOfBirth) : null,
-        dateOfPassing: data.dateOfPassing ? new Date(data.dateOfPassing) : null,
+        dateOfBirth: birth.date,
+        dateOfPassing: passing.date,
+        dateOfBirthDetail: birth.detail,
+        dateOfPassingDetail: passing.detail,
         birthPlace: data.birthPlace || null,
         nativePlace: data.nativePlace || null,
         gender: data.gender || null,
@@ -419,6 +583,7 @@ export async function createPersonData(
         employer: data.employer || null,
         socialLinks: data.socialLinks ?? null,
         isLiving: data.isLiving ?? true,
+        privacy: data.privacy ?? null,
         createdById: userId,
         updatedAt: new Date(),
       })
@@ -440,7 +605,8 @@ export interface PersonUpdateResult {
  * Update an existing person with audit trail
  * @param personId - ID of person to update
  * @param data - Partial person update data
- * @param userId - ID of user performing the update
+ * @param userId - ID of user performing the update, or the submitter of an
+ *   approved suggestion
  * @param linkedUserId - ID of user linked to this person (for permission check)
  * @param db - Drizzle database instance
  * @returns Updated person ID
@@ -449,7 +615,7 @@ export interface PersonUpdateResult {
 export async function updatePersonData(
   personId: string,
   data: PersonUpdateInput,
-  userId: string,
+  userId: AuditActor,
   linkedUserId?: string,
   db: PersonDb = drizzleDb
 ): Promise<PersonUpdateResult> {
@@ -475,12 +641,13 @@ export async function updatePersonData(
   }
 
   // Permission check: check if person already linked to a user
+  const editorId = resolveAuditActor(userId).userId;
   if (linkedUserIdForCheck) {
     const user = await db.query.users.findFirst({
-      where: eq(drizzleSchema.users.id, userId),
+      where: eq(drizzleSchema.users.id, editorId),
     });
 
-    const isOwnProfile = linkedUserIdForCheck === userId;
+    const isOwnProfile = linkedUserIdForCheck === editorId;
     const isAdmin = user?.role === "ADMIN";
 
     if (!isOwnProfile && !isAdmin) {
@@ -495,16 +662,29 @@ export async function updatePersonData(
       updatedAt: new Date(),
     };
 
-    if (data.dateOfBirth !== undefined) {
-      updateData.dateOfBirth = data.dateOfBirth
-        ? new Date(data.dateOfBirth)
-        : null;
+    // A date and its detail are always written together so they stay in sync
+    if (
+      data.dateOfBirth !== undefined ||
+      data.dateOfBirthDetail !== undefined
+    ) {
+      const birth = resolveDateColumns(
+        data.dateOfBirth ? new Date(data.dateOfBirth) : null,
+        data.dateOfBirthDetail
+      );
+      updateData.dateOfBirth = birth.date;
+      updateData.dateOfBirthDetail = birth.detail;
     }
 
-    if (data.dateOfPassing !== undefined) {
-      updateData.dateOfPassing = data.dateOfPassing
-        ? new Date(data.dateOfPassing)
-        : null;
+    if (
+      data.dateOfPassing !== undefined ||
+      data.dateOfPassingDetail !== undefined
+    ) {
+      const passing = resolveDateColumns(
+        data.dateOfPassing ? new Date(data.dateOfPassing) : null,
+        data.dateOfPassingDetail
+      );
+      updateData.dateOfPassing = passing.date;
+      updateData.dateOfPassingDetail = passing.detail;
     }
 
     // Add other fields, excluding date and JSON fields that need special handling
@@ -512,6 +692,8 @@ export async function updatePersonData(
       if (
         key !== "dateOfBirth" &&
         key !== "dateOfPassing" &&
+        key !== "dateOfBirthDetail" &&
+        key !== "dateOfPassingDetail" &&
         key !== "currentAddress" &&
         key !== "workAddress" &&
         key !== "socialLinks"
@@ -600,16 +782,23 @@ export interface PersonSearchResult {
 
 /**
  * Search persons by name with optional exclusion
+ *
+ * Redacted persons are dropped rather than shown as placeholders, since a
+ * name match would otherwise confirm the hidden name.
+ *
  * @param query - Search query string
  * @param excludeId - Optional person ID to exclude from results
  * @param db - Drizzle database instance
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
  * @returns List of matching persons (max 10 results)
  */
 export async function searchPersonsData(
   query: string,
-  excludeId?: string,
-  db: PersonDb = drizzleDb
+  excludeId: string | undefined,
+  db: PersonDb = drizzleDb,
+  viewer: PrivacyViewer
 ): Promise<Array<PersonSearchResult>> {
+  const privacy = await getPrivacyPolicy(viewer, db);
   const start = Date.now();
 
   const conditions: Array<SQL<unknown>> = [
@@ -644,11 +833,13 @@ export async function searchPersonsData(
   const duration = Date.now() - start;
   recordSearchMetrics(query, persons.length, duration, "person_name");
 
-  return persons.map((p) => ({
-    id: p.id,
-    firstName: p.firstName,
-    lastName: p.lastName,
-    photoUrl: p.photoUrl,
-    isLiving: p.isLiving,
-  }));
+  return persons
+    .filter((p) => !privacy || !isPersonRedacted(privacy, p))
+    .map((p) => ({
+      id: p.id,
+      firstName: p.firstName,
+      lastName: p.lastName,
+      photoUrl: p.photoUrl,
+      isLiving: p.isLiving,
+    }));
 }
@@ -4,6 +4,7 @@
  * Tests cover:
  * - formatPlace: Format database place to API response
  * - getPlaceData: Retrieve place with hierarchy and relationship counts
+ * - listPlacesData: List all places
  * - searchPlacesData: Search places by name
  * - getPlaceHierarchyData: Get full hierarchy path
  * - getPersonPlacesData: Get places associated with person
@@ -27,15 +28,18 @@ import {
   createPlaceData,
   deletePlaceData,
   formatPlace,
+  getPersonPlacesData,
   getPlaceChildrenData,
   getPlaceData,
   getPlaceHierarchyPathData,
   linkPersonToPlaceData,
+  listPlacesData,
   searchPlacesData,
   unlinkPersonFromPlaceData,
   updatePlaceData,
   updatePlacePersonLinkData,
 } from "./places";
+import { SYSTEM_VIEWER } from "./privacy";
 
 // Create mock database helper
 const createMockDb = () => {
@@ -65,6 +69,9 @@ const createMockDb = () => {
       persons: {
         findFirst: vi.fn(async () => queryFindFirstResult),
       },
+      familySettings: {
+        findFirst: vi.fn(async () => ({ defaultPrivacy: "PUBLIC" })),
+      },
     },
     select: vi.fn(() => ({
       from: vi.fn(() => ({
@@ -196,6 +203,31 @@ describe("places business logic", () => {
     });
   });
 
+  describe("listPlacesData", () => {
+    it("should return all places with parent names", async () => {
+      mockDrizzleDb.setQueryFindManyResults([
+        {
+          id: "place-1",
+          name: "Pune",
+          placeType: "CITY",
+          latitude: null,
+          longitude: null,
+          parentId: null,
+          description: null,
+          alternativeNames: null,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          parent: null,
+        },
+      ]);
+
+      const result = await listPlacesData(mockDrizzleDb as any);
+
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({ name: "Pune", parentName: null });
+    });
+  });
+
   describe("searchPlacesData", () => {
     it("should return matching places with parent names", async () => {
       const places = [
@@ -275,6 +307,88 @@ describe("places business logic", () => {
     });
   });
 
+  describe("getPersonPlacesData", () => {
+    const livingPerson = {
+      id: "person-1",
+      firstName: "Asha",
+      lastName: "Rao",
+      isLiving: true,
+      privacy: null,
+    };
+    const residence = {
+      id: "link-1",
+      fromYear: 2010,
+      toYear: null,
+      type: "LIVED",
+      createdAt: new Date(),
+      place: {
+        id: "place-1",
+        name: "Pune",
+        placeType: "CITY",
+        latitude: null,
+        longitude: null,
+        parentId: "place-2",
+        description: null,
+        alternativeNames: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        parent: { name: "Maharashtra" },
+      },
+    };
+
+    it("should return the person's places with years", async () => {
+      mockDrizzleDb.setQueryFindFirstResult(livingPerson);
+      mockDrizzleDb.setQueryFindManyResults([residence]);
+
+      const result = await getPersonPlacesData(
+        "person-1",
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
+      );
+
+      expect(result).toEqual([
+        expect.objectContaining({
+          id: "link-1",
+          parentName: "Maharashtra",
+          fromYear: 2010,
+          type: "LIVED",
+        }),
+      ]);
+    });
+
+    it("should hide where a living person lives from a VIEWER", async () => {
+      mockDrizzleDb.setQueryFindFirstResult(livingPerson);
+      mockDrizzleDb.setQueryFindManyResults([residence]);
+
+      const result = await getPersonPlacesData(
+        "person-1",
+        mockDrizzleDb as any,
+        { role: "VIEWER" }
+      );
+
+      expect(result).toEqual([]);
+    });
+
+    it("should show a VIEWER their own places", async () => {
+      mockDrizzleDb.setQueryFindFirstResult(livingPerson);
+      mockDrizzleDb.setQueryFindManyResults([residence]);
+
+      const result = await getPersonPlacesData(
+        "person-1",
+        mockDrizzleDb as any,
+        { role: "VIEWER", personId: "person-1" }
+      );
+
+      expect(result).toHaveLength(1);
+    });
+
+    it("should throw error when person not found", async () => {
+      await expect(
+        getPersonPlacesData("missing", mockDrizzleDb as any, SYSTEM_VIEWER)
+      ).rejects.toThrow("Person not found");
+    });
+  });
+
   describe("createPlaceData", () => {
     it("should create place with parent", async () => {
       const newPlace = {
@@ -322,6 +436,7 @@ describe("places business logic", () => {
           placeType: "CITY",
           parentId: "country-1",
         },
+        "user-1",
         mockDrizzleDb as any
       );
 
@@ -356,6 +471,7 @@ describe("places business logic", () => {
           name: "Earth",
           placeType: "REGION",
         },
+        "user-1",
         mockDrizzleDb as any
       );
 
@@ -375,6 +491,7 @@ describe("places business logic", () => {
             placeType: "CITY",
             parentId: "nonexistent",
           },
+          "user-1",
           mockDrizzleDb as any
         )
       ).rejects.toThrow("Parent place not found");
@@ -393,6 +510,7 @@ describe("places business logic", () => {
             name: "Manchester",
             placeType: "CITY",
           },
+          "user-1",
           mockDrizzleDb as any
         )
       ).rejects.toThrow("Failed to create place");
@@ -424,6 +542,7 @@ describe("places business logic", () => {
         {
           name: "Greater London",
         },
+        "user-1",
         mockDrizzleDb as any
       );
 
@@ -439,6 +558,7 @@ describe("places business logic", () => {
         updatePlaceData(
           "nonexistent",
           { name: "New Name" },
+          "user-1",
           mockDrizzleDb as any
         )
       ).rejects.toThrow("Place not found");
@@ -464,6 +584,7 @@ describe("places business logic", () => {
         updatePlaceData(
           "place-1",
           { parentId: "place-1" },
+          "user-1",
           mockDrizzleDb as any
         )
       ).rejects.toThrow("A place cannot be its own parent");
@@ -488,7 +609,11 @@ describe("places business logic", () => {
       mockDrizzleDb.query.places.findFirst = vi.fn(async () => place);
       mockDrizzleDb.setSelectCountResults([{ count: 0 }]);
 
-      const result = await deletePlaceData("place-1", mockDrizzleDb as any);
+      const result = await deletePlaceData(
+        "place-1",
+        "user-1",
+        mockDrizzleDb as any
+      );
 
       expect(result).toEqual({ success: true });
     });
@@ -511,7 +636,7 @@ describe("places business logic", () => {
       mockDrizzleDb.setSelectCountResults([{ count: 5 }]);
 
       await expect(
-        deletePlaceData("place-1", mockDrizzleDb as any)
+        deletePlaceData("place-1", "user-1", mockDrizzleDb as any)
       ).rejects.toThrow(
         "Cannot delete place: 5 child places exist under this place"
       );
@@ -521,7 +646,7 @@ describe("places business logic", () => {
       mockDrizzleDb.query.places.findFirst = vi.fn(async () => null);
 
       await expect(
-        deletePlaceData("nonexistent", mockDrizzleDb as any)
+        deletePlaceData("nonexistent", "user-1", mockDrizzleDb as any)
       ).rejects.toThrow("Place not found");
     });
   });
@@ -584,6 +709,7 @@ describe("places business logic", () => {
           toYear: 2010,
           type: "LIVED",
         },
+        "user-1",
         mockDrizzleDb as any
       );
 
@@ -603,6 +729,7 @@ describe("places business logic", () => {
             personId: "nonexistent",
             placeId: "place-1",
           },
+          "user-1",
           mockDrizzleDb as any
         )
       ).rejects.toThrow("Person not found");
@@ -619,6 +746,7 @@ describe("places business logic", () => {
             personId: "person-1",
             placeId: "nonexistent",
           },
+          "user-1",
           mockDrizzleDb as any
         )
       ).rejects.toThrow("Place not found");
@@ -775,6 +903,7 @@ describe("places business logic", () => {
           toYear: 2015,
           type: "WORKED",
         },
+        "user-1",
         mockDrizzleDb as any
       );
 
@@ -792,6 +921,7 @@ describe("places business logic", () => {
         updatePlacePersonLinkData(
           "nonexistent",
           { fromYear: 2005 },
+          "user-1",
           mockDrizzleDb as any
         )
       ).rejects.toThrow("Place-person link not found");
@@ -815,6 +945,7 @@ describe("places business logic", () => {
 
       const result = await unlinkPersonFromPlaceData(
         "link-1",
+        "user-1",
         mockDrizzleDb as any
       );
 
@@ -825,7 +956,7 @@ describe("places business logic", () => {
       mockDrizzleDb.query.placePersonLinks.findFirst = vi.fn(async () => null);
 
       await expect(
-        unlinkPersonFromPlaceData("nonexistent", mockDrizzleDb as any)
+        unlinkPersonFromPlaceData("nonexistent", "user-1", mockDrizzleDb as any)
       ).rejects.toThrow("Place-person link not found");
     });
   });
@@ -2,6 +2,10 @@
 import { drizzleDb, drizzleSchema } from "@vamsa/api";
 import { and, asc, count, eq } from "drizzle-orm";
 import { caseInsensitiveLike, escapeLike } from "../db";
+import { logEntityAuditAction } from "./audit";
+import { getPrivacyPolicy, isPersonRedacted } from "./privacy";
+import type { AuditActor } from "./audit";
+import type { PrivacyViewer } from "./privacy";
 
 /** Type for the database instance (for DI) */
 export type PlacesDb = typeof drizzleDb;
@@ -177,6 +181,34 @@ export async function getPlaceData(
   };
 }
 
+/**
+ * List all places, sorted by type then name
+ *
+ * @returns Array of places with their parent's name
+ */
+export async function listPlacesData(db: PlacesDb = drizzleDb): Promise<
+  Array<
+    PlaceResponse & {
+      parentName: string | null;
+    }
+  >
+> {
+  const places = await db.query.places.findMany({
+    with: {
+      parent: true,
+    },
+    orderBy: [
+      asc(drizzleSchema.places.placeType),
+      asc(drizzleSchema.places.name),
+    ],
+  });
+
+  return places.map((place) => ({
+    ...formatPlace(place),
+    parentName: place.parent?.name || null,
+  }));
+}
+
 /**
  * Search places by name (case-insensitive)
  *
@@ -274,13 +306,18 @@ export async function getPlaceHierarchyData(
 /**
  * Get all places associated with a person *
  * @param personId - Person ID to get places for
- * @returns Array of person-place relationships sorted by creation date
+ * @param db - Drizzle database instance
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
+ * @returns Array of person-place relationships sorted by creation date (empty for redacted persons)
  * @throws Error if person not found
  */
 export async function getPersonPlacesData(
   personId: string,
-  db: PlacesDb = drizzleDb
+  db: PlacesDb = drizzleDb,
+  viewer: PrivacyViewer
 ): Promise<Array<PersonPlace>> {
+  const privacy = await getPrivacyPolicy(viewer, db);
+
   // Verify person exists
   const person = await db.query.persons.findFirst({
     where: eq(drizzleSchema.persons.id, personId),
@@ -290,6 +327,11 @@ export async function getPersonPlacesData(
     throw new Error("Person not found");
   }
 
+  // Residences and workplaces are exactly what redaction protects
+  if (isPersonRedacted(privacy, person)) {
+    return [];
+  }
+
   const placeLinks = await db.query.placePersonLinks.findMany({
     where: eq(drizzleSchema.placePersonLinks.personId, personId),
     with: {
@@ -316,6 +358,7 @@ export async function getPersonPlacesData(
  * Create a new place * Validates parent place exists if parentId is provided
  *
  * @param data - Place creation data (name, type, location, optional parent)
+ * @param userId - User creating the place
  * @returns Created place with formatted response
  * @throws Error if parent place not found
  */
@@ -329,6 +372,7 @@ export async function createPlaceData(
     description?: string | null;
     alternativeNames?: Array<string> | null;
   },
+  userId: AuditActor,
   db: PlacesDb = drizzleDb
 ): Promise<PlaceResponse> {
   // Verify parent place exists if parentId is provided
@@ -362,6 +406,18 @@ export async function createPlaceData(
     throw new Error("Failed to create place");
   }
 
+  await logEntityAuditAction(
+    {
+      userId,
+      action: "CREATE",
+      entityType: "PLACE",
+      entityId: result[0].id,
+      personId: null,
+      newData: result[0],
+    },
+    db
+  );
+
   return formatPlace(result[0]);
 }
 
@@ -371,6 +427,7 @@ export async function createPlaceData(
  *
  * @param id - Place ID to update
  * @param updates - Partial place update data
+ * @param userId - User updating the place
  * @returns Updated place with formatted response
  * @throws Error if place not found, parent not found, or circular hierarchy detected
  */
@@ -385,6 +442,7 @@ export async function updatePlaceData(
     description?: string | null;
     alternativeNames?: Array<string> | null;
   },
+  userId: AuditActor,
   db: PlacesDb = drizzleDb
 ): Promise<PlaceResponse> {
   // Verify place exists
@@ -436,6 +494,19 @@ export async function updatePlaceData(
     throw new Error("Failed to update place");
   }
 
+  await logEntityAuditAction(
+    {
+      userId,
+      action: "UPDATE",
+      entityType: "PLACE",
+      entityId: id,
+      personId: null,
+      previousData: existingPlace,
+      newData: updateData,
+    },
+    db
+  );
+
   return formatPlace(result[0]);
 }
 
@@ -443,11 +514,13 @@ export async function updatePlaceData(
  * Delete a place * Only succeeds if place has no child places, events, or person links
  *
  * @param id - Place ID to delete
+ * @param userId - User deleting the place
  * @returns Success status
  * @throws Error if place not found or is still in use
  */
 export async function deletePlaceData(
   id: string,
+  userId: AuditActor,
   db: PlacesDb = drizzleDb
 ): Promise<{ success: true }> {
   // Verify place exists
@@ -497,6 +570,18 @@ export async function deletePlaceData(
 
   await db.delete(drizzleSchema.places).where(eq(drizzleSchema.places.id, id));
 
+  await logEntityAuditAction(
+    {
+      userId,
+      action: "DELETE",
+      entityType: "PLACE",
+      entityId: id,
+      personId: null,
+      previousData: place,
+    },
+    db
+  );
+
   return { success: true };
 }
 
@@ -504,6 +589,7 @@ export async function deletePlaceData(
  * Link a person to a place * Prevents duplicate links with the same type for the same person-place pair
  *
  * @param data - Link creation data (personId, placeId, optional type and years)
+ * @param userId - User linking the person
  * @returns Created link with place details
  * @throws Error if person/place not found or duplicate link exists
  */
@@ -515,6 +601,7 @@ export async function linkPersonToPlaceData(
     toYear?: number | null;
     type?: PersonPlaceType | null;
   },
+  userId: AuditActor,
   db: PlacesDb = drizzleDb
 ): Promise<{
   id: string;
@@ -560,7 +647,7 @@ export async function linkPersonToPlaceData(
   }
 
   const linkId = crypto.randomUUID();
-  await db.insert(drizzleSchema.placePersonLinks).values({
+  const values = {
     id: linkId,
     personId: data.personId,
     placeId: data.placeId,
@@ -568,7 +655,20 @@ export async function linkPersonToPlaceData(
     toYear: data.toYear ?? null,
     type: data.type ?? null,
     createdAt: new Date(),
-  });
+  };
+  await db.insert(drizzleSchema.placePersonLinks).values(values);
+
+  await logEntityAuditAction(
+    {
+      userId,
+      action: "CREATE",
+      entityType: "PLACE_LINK",
+      entityId: linkId,
+      personId: data.personId,
+      newData: { ...values, name: place.name },
+    },
+    db
+  );
 
   // Fetch the created link with place details
   const createdLink = await db.query.placePersonLinks.findFirst({
@@ -663,6 +763,7 @@ export async function getPlaceChildrenData(
  * Update a place-person link *
  * @param linkId - Link ID to update
  * @param updates - Partial link update data (years, type)
+ * @param userId - User updating the link
  * @returns Updated link with place details
  * @throws Error if link not found
  */
@@ -673,6 +774,7 @@ export async function updatePlacePersonLinkData(
     toYear?: number | null;
     type?: PersonPlaceType | null;
   },
+  userId: AuditActor,
   db: PlacesDb = drizzleDb
 ): Promise<UpdatedPlacePersonLink> {
   // Verify link exists
@@ -710,6 +812,19 @@ export async function updatePlacePersonLinkData(
     throw new Error("Failed to fetch updated link");
   }
 
+  await logEntityAuditAction(
+    {
+      userId,
+      action: "UPDATE",
+      entityType: "PLACE_LINK",
+      entityId: linkId,
+      personId: link.personId,
+      previousData: { ...link, name: linkWithPlace.place.name },
+      newData: updateData,
+    },
+    db
+  );
+
   return {
     id: linkWithPlace.id,
     place: formatPlace(linkWithPlace.place),
@@ -723,11 +838,13 @@ export async function updatePlacePersonLinkData(
 /**
  * Remove a person-place link *
  * @param linkId - Link ID to delete
+ * @param userId - User removing the link
  * @returns Success status
  * @throws Error if link not found
  */
 export async function unlinkPersonFromPlaceData(
   linkId: string,
+  userId: AuditActor,
   db: PlacesDb = drizzleDb
 ): Promise<{ success: true }> {
   // Verify link exists
@@ -743,5 +860,17 @@ export async function unlinkPersonFromPlaceData(
     .delete(drizzleSchema.placePersonLinks)
     .where(eq(drizzleSchema.placePersonLinks.id, linkId));
 
+  await logEntityAuditAction(
+    {
+      userId,
+      action: "DELETE",
+      entityType: "PLACE_LINK",
+      entityId: linkId,
+      personId: link.personId,
+      previousData: link,
+    },
+    db
+  );
+
   return { success: true };
 }
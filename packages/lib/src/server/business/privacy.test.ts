@@ -0,0 +1,212 @@
+/**
+ * Unit tests for privacy business logic
+ *
+ * Tests cover:
+ * - Building a policy from FamilySettings.defaultPrivacy
+ * - Role clearance per privacy level
+ * - Effective person privacy (explicit level, family default, living persons)
+ * - Person redaction for viewers, members, admins and self
+ * - Event/media visibility inheritance
+ * - Placeholder generation
+ *
+ * Uses dependency injection to mock database calls.
+ */
+
+import { describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_PRIVACY_LEVEL,
+  SYSTEM_VIEWER,
+  applyPersonPrivacy,
+  canViewPrivacyLevel,
+  canViewRecord,
+  getEffectivePersonPrivacy,
+  getPrivacyPolicy,
+  isPersonRedacted,
+  redactPerson,
+} from "./privacy";
+import type { PrivacyPolicy } from "./privacy";
+
+function createMockDb(defaultPrivacy: string | null) {
+  return {
+    query: {
+      familySettings: {
+        findFirst: vi.fn(async () =>
+          defaultPrivacy === null ? undefined : { defaultPrivacy }
+        ),
+      },
+    },
+  } as any;
+}
+
+const publicDefault = (role: PrivacyPolicy["viewer"]["role"]) =>
+  ({
+    viewer: { role, personId: "viewer-person" },
+    defaultPrivacy: "PUBLIC",
+  }) satisfies PrivacyPolicy;
+
+describe("Privacy Business Logic", () => {
+  describe("getPrivacyPolicy", () => {
+    it("uses the family default privacy level", async () => {
+      const db = createMockDb("PUBLIC");
+      const policy = await getPrivacyPolicy({ role: "VIEWER" }, db);
+
+      expect(policy).toEqual({
+        viewer: { role: "VIEWER" },
+        defaultPrivacy: "PUBLIC",
+      });
+    });
+
+    it("falls back to MEMBERS_ONLY without family settings", async () => {
+      const db = createMockDb(null);
+      const policy = await getPrivacyPolicy({ role: "MEMBER" }, db);
+
+      expect(policy.defaultPrivacy).toBe(DEFAULT_PRIVACY_LEVEL);
+    });
+
+    it("skips the settings lookup for admins", async () => {
+      const db = createMockDb("PUBLIC");
+      const policy = await getPrivacyPolicy(SYSTEM_VIEWER, db);
+
+      expect(policy.viewer).toBe(SYSTEM_VIEWER);
+      expect(db.query.familySettings.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("canViewPrivacyLevel", () => {
+    it("lets everyone see PUBLIC records", () => {
+      expect(canViewPrivacyLevel("PUBLIC", null)).toBe(true);
+      expect(canViewPrivacyLevel("PUBLIC", "VIEWER")).toBe(true);
+    });
+
+    it("requires MEMBER for MEMBERS_ONLY", () => {
+      expect(canViewPrivacyLevel("MEMBERS_ONLY", "VIEWER")).toBe(false);
+      expect(canViewPrivacyLevel("MEMBERS_ONLY", "MEMBER")).toBe(true);
+    });
+
+    it("requires ADMIN for ADMIN_ONLY", () => {
+      expect(canViewPrivacyLevel("ADMIN_ONLY", "MEMBER")).toBe(false);
+      expect(canViewPrivacyLevel("ADMIN_ONLY", "ADMIN")).toBe(true);
+    });
+  });
+
+  describe("getEffectivePersonPrivacy", () => {
+    it("prefers the person's explicit level", () => {
+      expect(
+        getEffectivePersonPrivacy(
+          { isLiving: true, privacy: "PUBLIC" },
+          "ADMIN_ONLY"
+        )
+      ).toBe("PUBLIC");
+    });
+
+    it("raises living persons to MEMBERS_ONLY under a PUBLIC default", () => {
+      expect(
+        getEffectivePersonPrivacy({ isLiving: true, privacy: null }, "PUBLIC")
+      ).toBe("MEMBERS_ONLY");
+    });
+
+    it("keeps the default for deceased persons", () => {
+      expect(
+        getEffectivePersonPrivacy({ isLiving: false, privacy: null }, "PUBLIC")
+      ).toBe("PUBLIC");
+    });
+  });
+
+  describe("isPersonRedacted", () => {
+    const living = { id: "p1", isLiving: true, privacy: null };
+    const deceased = { id: "p2", isLiving: false, privacy: null };
+
+    it("redacts living persons for VIEWERs", () => {
+      expect(isPersonRedacted(publicDefault("VIEWER"), living)).toBe(true);
+      expect(isPersonRedacted(publicDefault("VIEWER"), deceased)).toBe(false);
+    });
+
+    it("shows living persons to MEMBERs", () => {
+      expect(isPersonRedacted(publicDefault("MEMBER"), living)).toBe(false);
+    });
+
+    it("hides ADMIN_ONLY persons from MEMBERs but not ADMINs", () => {
+      const hidden = { ...deceased, privacy: "ADMIN_ONLY" };
+
+      expect(isPersonRedacted(publicDefault("MEMBER"), hidden)).toBe(true);
+      expect(isPersonRedacted(publicDefault("ADMIN"), hidden)).toBe(false);
+    });
+
+    it("never redacts the viewer's own person", () => {
+      const self = { id: "viewer-person", isLiving: true, privacy: null };
+
+      expect(isPersonRedacted(publicDefault("VIEWER"), self)).toBe(false);
+    });
+  });
+
+  describe("canViewRecord", () => {
+    it("inherits visibility from the owning person", () => {
+      const policy = publicDefault("VIEWER");
+
+      expect(canViewRecord(policy, { privacy: null }, true)).toBe(false);
+      expect(canViewRecord(policy, { privacy: null }, false)).toBe(true);
+    });
+
+    it("uses the record's own level when set", () => {
+      const policy = publicDefault("VIEWER");
+
+      expect(canViewRecord(policy, { privacy: "PUBLIC" }, true)).toBe(true);
+      expect(canViewRecord(policy, { privacy: "MEMBERS_ONLY" }, false)).toBe(
+        false
+      );
+    });
+  });
+
+  describe("redactPerson", () => {
+    it("replaces names and clears sensitive fields", () => {
+      const result = redactPerson({
+        id: "p1",
+        firstName: "Jane",
+        lastName: "Doe",
+        isLiving: true,
+        dateOfBirth: "1990-01-01",
+        email: "jane@example.com",
+      });
+
+      expect(result).toEqual({
+        id: "p1",
+        firstName: "Living",
+        lastName: "Person",
+        isLiving: true,
+        dateOfBirth: null,
+        email: null,
+      });
+    });
+
+    it("uses a neutral placeholder for deceased persons", () => {
+      const result = redactPerson({
+        firstName: "John",
+        lastName: "Doe",
+        isLiving: false,
+      });
+
+      expect(result.firstName).toBe("Private");
+    });
+  });
+
+  describe("applyPersonPrivacy", () => {
+    const person = {
+      id: "p1",
+      firstName: "Jane",
+      lastName: "Doe",
+      isLiving: true,
+      privacy: null,
+    };
+
+    it("returns the person unchanged for the system viewer", async () => {
+      const policy = await getPrivacyPolicy(SYSTEM_VIEWER, createMockDb(null));
+      expect(applyPersonPrivacy(policy, person)).toBe(person);
+    });
+
+    it("redacts when the policy requires it", () => {
+      expect(
+        applyPersonPrivacy(publicDefault("VIEWER"), person).firstName
+      ).toBe("Living");
+    });
+  });
+});
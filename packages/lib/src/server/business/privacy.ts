@@ -0,0 +1,279 @@
+/**
+ * Privacy Business Logic - Redaction Layer
+ *
+ * Single place that decides what a viewer may see of a person, event or
+ * media record. Every read path that returns person data takes a required
+ * PrivacyViewer, resolves it to a PrivacyPolicy once per call and runs its
+ * results through these helpers. Trusted internal callers (exports, jobs)
+ * pass SYSTEM_VIEWER explicitly, so no path is unredacted by accident.
+ *
+ * Rules:
+ * - A record's effective level is its own `privacy` column, falling back to
+ *   FamilySettings.defaultPrivacy when null.
+ * - Living persons without an explicit level are never more visible than
+ *   MEMBERS_ONLY, so VIEWERs and calendar feeds get placeholders for them.
+ * - Admins see everything; users always see their own linked person.
+ * - Events and media without their own level inherit the visibility of the
+ *   person they belong to.
+ *
+ * Exported Functions:
+ * - SYSTEM_VIEWER: Explicit viewer for trusted internal callers
+ * - getPrivacyPolicy: Build a policy for a viewer from family settings
+ * - canViewPrivacyLevel: Check a level against a viewer's role
+ * - getEffectivePersonPrivacy: Resolve a person's effective level
+ * - isPersonRedacted: Decide whether a person must be shown as a placeholder
+ * - canViewRecord: Decide whether an event or media record is visible
+ * - redactPerson: Replace sensitive person fields with placeholders
+ * - applyPersonPrivacy: Redact a person only when the policy requires it
+ */
+
+import { drizzleDb } from "@vamsa/api";
+import type { PrivacyLevel, UserRole } from "@vamsa/schemas";
+
+/** Type for the database instance (for DI) */
+export type PrivacyDb = typeof drizzleDb;
+
+/**
+ * The person looking at the data. `role: null` is an anonymous reader.
+ */
+export interface PrivacyViewer {
+  role: UserRole | null;
+  personId?: string | null;
+}
+
+/**
+ * Resolved privacy rules for a single request
+ */
+export interface PrivacyPolicy {
+  viewer: PrivacyViewer;
+  defaultPrivacy: PrivacyLevel;
+}
+
+/**
+ * Minimal person shape needed to make a privacy decision
+ */
+export interface PrivacySubject {
+  id: string;
+  isLiving: boolean;
+  privacy?: string | null;
+}
+
+/**
+ * Viewer used for calendar and RSS feeds. Feed URLs end up in third-party
+ * calendar apps, so they get the same view as a VIEWER account.
+ */
+export const FEED_VIEWER: PrivacyViewer = { role: "VIEWER" };
+
+/**
+ * Viewer for trusted internal callers that must see every record, such as
+ * GEDCOM exports and background jobs. Passing it is an explicit decision.
+ */
+export const SYSTEM_VIEWER: PrivacyViewer = { role: "ADMIN" };
+
+/** Level used when no FamilySettings row exists (matches the column default) */
+export const DEFAULT_PRIVACY_LEVEL: PrivacyLevel = "MEMBERS_ONLY";
+
+/** Placeholder names shown instead of a redacted person's real name */
+export const REDACTED_LIVING_FIRST_NAME = "Living";
+export const REDACTED_PRIVATE_FIRST_NAME = "Private";
+export const REDACTED_LAST_NAME = "Person";
+
+/**
+ * Person fields cleared when a person is redacted. Covers every output shape
+ * (details, list items, chart nodes, timeline entries).
+ */
+export const REDACTED_PERSON_FIELDS = [
+  "maidenName",
+  "dateOfBirth",
+  "dateOfPassing",
+  "dateOfBirthDetail",
+  "dateOfPassingDetail",
+  "birthYear",
+  "deathYear",
+  "birthPlace",
+  "nativePlace",
+  "photoUrl",
+  "bio",
+  "email",
+  "phone",
+  "currentAddress",
+  "workAddress",
+  "profession",
+  "employer",
+  "socialLinks",
+] as const;
+
+const PRIVACY_RANK: Record<PrivacyLevel, number> = {
+  PUBLIC: 0,
+  MEMBERS_ONLY: 1,
+  ADMIN_ONLY: 2,
+};
+
+const ROLE_CLEARANCE: Record<UserRole, number> = {
+  VIEWER: 0,
+  MEMBER: 1,
+  ADMIN: 2,
+};
+
+function toPrivacyLevel(value: string | null | undefined): PrivacyLevel | null {
+  return value && value in PRIVACY_RANK ? (value as PrivacyLevel) : null;
+}
+
+/**
+ * Build the privacy policy for a viewer
+ *
+ * @param viewer - The user (or anonymous reader) requesting data
+ * @param db - Drizzle database instance
+ * @returns Policy combining the viewer with the family default privacy level
+ */
+export async function getPrivacyPolicy(
+  viewer: PrivacyViewer,
+  db: PrivacyDb = drizzleDb
+): Promise<PrivacyPolicy> {
+  // Admins see everything, so the family default never matters for them
+  if (viewer.role === "ADMIN") {
+    return { viewer, defaultPrivacy: DEFAULT_PRIVACY_LEVEL };
+  }
+
+  const settings = await db.query.familySettings.findFirst({
+    columns: { defaultPrivacy: true },
+  });
+
+  return {
+    viewer,
+    defaultPrivacy:
+      toPrivacyLevel(settings?.defaultPrivacy) ?? DEFAULT_PRIVACY_LEVEL,
+  };
+}
+
+/**
+ * Check whether a role may see records at the given privacy level
+ *
+ * @param level - Privacy level of the record
+ * @param role - Viewer role, or null for anonymous readers
+ * @returns True if the record is visible
+ */
+export function canViewPrivacyLevel(
+  level: PrivacyLevel,
+  role: UserRole | null
+): boolean {
+  if (level === "PUBLIC") return true;
+  if (!role) return false;
+  return ROLE_CLEARANCE[role] >= PRIVACY_RANK[level];
+}
+
+/**
+ * Resolve the effective privacy level of a person
+ *
+ * Explicit levels win. Otherwise the family default applies, raised to
+ * MEMBERS_ONLY for living persons.
+ *
+ * @param person - Person with living status and optional privacy level
+ * @param defaultPrivacy - FamilySettings.defaultPrivacy
+ * @returns Effective privacy level
+ */
+export function getEffectivePersonPrivacy(
+  person: Pick<PrivacySubject, "isLiving" | "privacy">,
+  defaultPrivacy: PrivacyLevel
+): PrivacyLevel {
+  const explicit = toPrivacyLevel(person.privacy);
+  if (explicit) return explicit;
+
+  if (person.isLiving && PRIVACY_RANK[defaultPrivacy] < 1) {
+    return "MEMBERS_ONLY";
+  }
+
+  return defaultPrivacy;
+}
+
+/**
+ * Decide whether a person must be replaced by a placeholder
+ *
+ * @param policy - Privacy policy for the current viewer
+ * @param person - Person being returned
+ * @returns True if the person's details must be hidden
+ */
+export function isPersonRedacted(
+  policy: PrivacyPolicy,
+  person: PrivacySubject
+): boolean {
+  const { viewer } = policy;
+
+  if (viewer.role === "ADMIN") return false;
+  if (viewer.personId && viewer.personId === person.id) return false;
+
+  return !canViewPrivacyLevel(
+    getEffectivePersonPrivacy(person, policy.defaultPrivacy),
+    viewer.role
+  );
+}
+
+/**
+ * Decide whether an event or media record is visible
+ *
+ * @param policy - Privacy policy for the current viewer
+ * @param record - Record with optional privacy level
+ * @param ownerRedacted - Whether the owning person is redacted for this viewer
+ * @returns True if the record may be returned
+ */
+export function canViewRecord(
+  policy: PrivacyPolicy,
+  record: { privacy?: string | null },
+  ownerRedacted: boolean
+): boolean {
+  if (policy.viewer.role === "ADMIN") return true;
+
+  const explicit = toPrivacyLevel(record.privacy);
+  if (explicit) return canViewPrivacyLevel(explicit, policy.viewer.role);
+
+  return !ownerRedacted;
+}
+
+/**
+ * Replace a person's name and sensitive fields with placeholders
+ *
+ * Works on any person-shaped object: only fields that are present are
+ * touched, so the result keeps the input's type.
+ *
+ * @param person - Person-shaped record
+ * @returns Copy with placeholder name and cleared sensitive fields
+ */
+export function redactPerson<
+  T extends { firstName?: string; lastName?: string; isLiving?: boolean },
+>(person: T): T {
+  const redacted: Record<string, unknown> = { ...person };
+
+  if ("firstName" in person) {
+    redacted.firstName =
+      person.isLiving === false
+        ? REDACTED_PRIVATE_FIRST_NAME
+        : REDACTED_LIVING_FIRST_NAME;
+  }
+  if ("lastName" in person) {
+    redacted.lastName = REDACTED_LAST_NAME;
+  }
+
+  for (const field of REDACTED_PERSON_FIELDS) {
+    if (field in person) {
+      redacted[field] = null;
+    }
+  }
+
+  return redacted as T;
+}
+
+/**
+ * Redact a person when the policy requires it
+ *
+ * @param policy - Privacy policy for the current viewer
+ * @param person - Person record including id, isLiving and privacy
+ * @returns The person unchanged, or its redacted copy
+ */
+export function applyPersonPrivacy<
+  T extends PrivacySubject & { firstName?: string; lastName?: string },
+>(policy: PrivacyPolicy, person: T): T {
+  if (!isPersonRedacted(policy, person)) {
+    return person;
+  }
+  return redactPerson(person);
+}
@@ -15,6 +15,7 @@
 
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import {
+  SYSTEM_VIEWER,
   createRelationshipData,
   deleteRelationshipData,
   getRelationshipData,
@@ -42,6 +43,9 @@ const mockDrizzleDb = {
     persons: {
       findFirst: vi.fn(() => Promise.resolve(null)),
     },
+    familySettings: {
+      findFirst: vi.fn(() => Promise.resolve(null)),
+    },
   },
   insert: vi.fn(() => ({
     values: vi.fn(() => Promise.resolve({})),
@@ -107,7 +111,8 @@ describe("Relationship Server Functions", () => {
       const result = await listRelationshipsData(
         personId,
         undefined,
-        mockDrizzleDb as any
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
       );
 
       expect(result).toHaveLength(1);
@@ -118,6 +123,57 @@ describe("Relationship Server Functions", () => {
       expect(result[0].divorceDate).toBeNull();
     });
 
+    it("should name related persons hidden from the viewer with placeholders", async () => {
+      (
+        mockDrizzleDb.query.relationships.findMany as ReturnType<typeof vi.fn>
+      ).mockResolvedValueOnce([
+        {
+          id: "rel-1",
+          type: "CHILD",
+          isActive: true,
+          marriageDate: null,
+          divorceDate: null,
+          relatedPersonId: "person-2",
+          relatedPerson: {
+            id: "person-2",
+            firstName: "Jane",
+            lastName: "Doe",
+            isLiving: true,
+            privacy: null,
+          },
+        },
+        {
+          id: "rel-2",
+          type: "PARENT",
+          isActive: true,
+          marriageDate: null,
+          divorceDate: null,
+          relatedPersonId: "person-3",
+          relatedPerson: {
+            id: "person-3",
+            firstName: "Bob",
+            lastName: "Doe",
+            isLiving: false,
+            privacy: "PUBLIC",
+          },
+        },
+      ]);
+
+      const result = await listRelationshipsData(
+        "person-1",
+        undefined,
+        mockDrizzleDb as any,
+        { role: "VIEWER" }
+      );
+
+      expect(result[0].relatedPerson).toEqual({
+        id: "person-2",
+        firstName: "Living",
+        lastName: "Person",
+      });
+      expect(result[1].relatedPerson.firstName).toBe("Bob");
+    });
+
     it("should filter relationships by type", async () => {
       const personId = "person-1";
       const type = "PARENT";
@@ -144,7 +200,8 @@ describe("Relationship Server Functions", () => {
       const result = await listRelationshipsData(
         personId,
         type,
-        mockDrizzleDb as any
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
       );
 
       expect(result).toHaveLength(1);
@@ -160,7 +217,8 @@ describe("Relationship Server Functions", () => {
       const result = await listRelationshipsData(
         "person-1",
         undefined,
-        mockDrizzleDb as any
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
       );
 
       expect(result).toHaveLength(0);
@@ -216,7 +274,8 @@ describe("Relationship Server Functions", () => {
       const result = await listRelationshipsData(
         "person-1",
         undefined,
-        mockDrizzleDb as any
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
       );
 
       expect(result).toHaveLength(3);
@@ -249,7 +308,8 @@ describe("Relationship Server Functions", () => {
       const result = await listRelationshipsData(
         "person-1",
         undefined,
-        mockDrizzleDb as any
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
       );
 
       expect(result[0].marriageDate).toBe("2010-06-15");
@@ -280,7 +340,8 @@ describe("Relationship Server Functions", () => {
       const result = await listRelationshipsData(
         "person-1",
         undefined,
-        mockDrizzleDb as any
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
       );
 
       expect(result[0].marriageDate).toBeNull();
@@ -297,7 +358,8 @@ describe("Relationship Server Functions", () => {
         await listRelationshipsData(
           "person-1",
           undefined,
-          mockDrizzleDb as any
+          mockDrizzleDb as any,
+          SYSTEM_VIEWER
         );
         expect.unreachable("should have thrown");
       } catch (err) {
@@ -331,7 +393,8 @@ describe("Relationship Server Functions", () => {
 
       const result = await getRelationshipData(
         relationshipId,
-        mockDrizzleDb as any
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
       );
 
       expect(result.id).toBe(relationshipId);
@@ -361,7 +424,11 @@ describe("Relationship Server Functions", () => {
         mockDrizzleDb.query.relationships.findFirst as ReturnType<typeof vi.fn>
       ).mockResolvedValueOnce(mockRelationship);
 
-      const result = await getRelationshipData("rel-1", mockDrizzleDb as any);
+      const result = await getRelationshipData(
+        "rel-1",
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
+      );
 
       expect(result.marriageDate).toBe("2010-06-15");
       expect(result.divorceDate).toBe("2020-01-10");
@@ -373,7 +440,11 @@ describe("Relationship Server Functions", () => {
       ).mockResolvedValueOnce(null);
 
       try {
-        await getRelationshipData("rel-nonexistent", mockDrizzleDb as any);
+        await getRelationshipData(
+          "rel-nonexistent",
+          mockDrizzleDb as any,
+          SYSTEM_VIEWER
+        );
         expect.unreachable("should have thrown");
       } catch (err) {
         expect(err instanceof Error).toBe(true);
@@ -401,7 +472,11 @@ describe("Relationship Server Functions", () => {
         mockDrizzleDb.query.relationships.findFirst as ReturnType<typeof vi.fn>
       ).mockResolvedValueOnce(mockRelationship);
 
-      const result = await getRelationshipData("rel-1", mockDrizzleDb as any);
+      const result = await getRelationshipData(
+        "rel-1",
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
+      );
 
       expect(result.relatedPerson).toBeDefined();
       expect(result.relatedPerson.id).toBe("person-2");
@@ -416,7 +491,7 @@ describe("Relationship Server Functions", () => {
       ).mockRejectedValueOnce(error);
 
       try {
-        await getRelationshipData("rel-1", mockDrizzleDb as any);
+        await getRelationshipData("rel-1", mockDrizzleDb as any, SYSTEM_VIEWER);
         expect.unreachable("should have thrown");
       } catch (err) {
         expect(err).toBe(error);
@@ -443,7 +518,11 @@ describe("Relationship Server Functions", () => {
         values: vi.fn(() => Promise.resolve({})),
       });
 
-      const result = await createRelationshipData(input, mockDrizzleDb as any);
+      const result = await createRelationshipData(
+        input,
+        "user-1",
+        mockDrizzleDb as any
+      );
 
       expect(result.id).toBeDefined();
       expect(mockDrizzleDb.insert).toHaveBeenCalled();
@@ -467,7 +546,11 @@ describe("Relationship Server Functions", () => {
         values: vi.fn(() => Promise.resolve({})),
       });
 
-      const result = await createRelationshipData(input, mockDrizzleDb as any);
+      const result = await createRelationshipData(
+        input,
+        "user-1",
+        mockDrizzleDb as any
+      );
 
       expect(result.id).toBeDefined();
     });
@@ -491,7 +574,7 @@ describe("Relationship Server Functions", () => {
         values: vi.fn(() => Promise.resolve({})),
       });
 
-      await createRelationshipData(input, mockDrizzleDb as any);
+      await createRelationshipData(input, "user-1", mockDrizzleDb as any);
 
       expect(mockDrizzleDb.insert).toHaveBeenCalled();
     });
@@ -513,7 +596,7 @@ describe("Relationship Server Functions", () => {
         values: vi.fn(() => Promise.resolve({})),
       });
 
-      await createRelationshipData(input, mockDrizzleDb as any);
+      await createRelationshipData(input, "user-1", mockDrizzleDb as any);
 
       expect(mockDrizzleDb.insert).toHaveBeenCalled();
     });
@@ -526,7 +609,7 @@ describe("Relationship Server Functions", () => {
       };
 
       try {
-        await createRelationshipData(input, mockDrizzleDb as any);
+        await createRelationshipData(input, "user-1", mockDrizzleDb as any);
         expect.unreachable("should have thrown");
       } catch (err) {
         expect(err instanceof Error).toBe(true);
@@ -548,7 +631,7 @@ describe("Relationship Server Functions", () => {
         .mockResolvedValueOnce(null);
 
       try {
-        await createRelationshipData(input, mockDrizzleDb as any);
+        await createRelationshipData(input, "user-1", mockDrizzleDb as any);
         expect.unreachable("should have thrown");
       } catch (err) {
         expect(err instanceof Error).toBe(true);
@@ -575,7 +658,7 @@ describe("Relationship Server Functions", () => {
       });
 
       try {
-        await createRelationshipData(input, mockDrizzleDb as any);
+        await createRelationshipData(input, "user-1", mockDrizzleDb as any);
         expect.unreachable("should have thrown");
       } catch (err) {
         expect(err instanceof Error).toBe(true);
@@ -602,7 +685,7 @@ describe("Relationship Server Functions", () => {
         values: vi.fn(() => Promise.resolve({})),
       });
 
-      await createRelationshipData(input, mockDrizzleDb as any);
+      await createRelationshipData(input, "user-1", mockDrizzleDb as any);
 
       expect(mockDrizzleDb.insert).toHaveBeenCalled();
     });
@@ -624,7 +707,7 @@ describe("Relationship Server Functions", () => {
         values: vi.fn(() => Promise.resolve({})),
       });
 
-      await createRelationshipData(input, mockDrizzleDb as any);
+      await createRelationshipData(input, "user-1", mockDrizzleDb as any);
 
       expect(mockDrizzleDb.insert).toHaveBeenCalled();
     });
@@ -646,7 +729,7 @@ describe("Relationship Server Functions", () => {
         values: vi.fn(() => Promise.resolve({})),
       });
 
-      await createRelationshipData(input, mockDrizzleDb as any);
+      await createRelationshipData(input, "user-1", mockDrizzleDb as any);
 
       expect(mockDrizzleDb.insert).toHaveBeenCalled();
     });
@@ -668,7 +751,7 @@ describe("Relationship Server Functions", () => {
         values: vi.fn(() => Promise.resolve({})),
       });
 
-      await createRelationshipData(input, mockDrizzleDb as any);
+      await createRelationshipData(input, "user-1", mockDrizzleDb as any);
 
       expect(mockDrizzleDb.insert).toHaveBeenCalled();
     });
@@ -696,7 +779,7 @@ describe("Relationship Server Functions", () => {
       });
 
       try {
-        await createRelationshipData(input, mockDrizzleDb as any);
+        await createRelationshipData(input, "user-1", mockDrizzleDb as any);
         expect.unreachable("should have thrown");
       } catch (err) {
         expect(err).toBe(error);
@@ -723,7 +806,7 @@ describe("Relationship Server Functions", () => {
         values: vi.fn(() => Promise.resolve({})),
       });
 
-      await createRelationshipData(input, mockDrizzleDb as any);
+      await createRelationshipData(input, "user-1", mockDrizzleDb as any);
 
       expect(mockDrizzleDb.insert).toHaveBeenCalled();
     });
@@ -745,7 +828,11 @@ describe("Relationship Server Functions", () => {
         values: vi.fn(() => Promise.resolve({})),
       });
 
-      const result = await createRelationshipData(input, mockDrizzleDb as any);
+      const result = await createRelationshipData(
+        input,
+        "user-1",
+        mockDrizzleDb as any
+      );
 
       expect(result.id).toBeDefined();
     });
@@ -781,6 +868,7 @@ describe("Relationship Server Functions", () => {
       const result = await updateRelationshipData(
         relationshipId,
         input,
+        "user-1",
         mockDrizzleDb as any
       );
 
@@ -813,7 +901,12 @@ describe("Relationship Server Functions", () => {
         })),
       });
 
-      await updateRelationshipData(relationshipId, input, mockDrizzleDb as any);
+      await updateRelationshipData(
+        relationshipId,
+        input,
+        "user-1",
+        mockDrizzleDb as any
+      );
 
       expect(mockDrizzleDb.update).toHaveBeenCalled();
     });
@@ -843,7 +936,12 @@ describe("Relationship Server Functions", () => {
         })),
       });
 
-      await updateRelationshipData(relationshipId, input, mockDrizzleDb as any);
+      await updateRelationshipData(
+        relationshipId,
+        input,
+        "user-1",
+        mockDrizzleDb as any
+      );
 
       expect(mockDrizzleDb.update).toHaveBeenCalled();
     });
@@ -876,7 +974,12 @@ describe("Relationship Server Functions", () => {
       const updateCalls = (mockDrizzleDb.update as ReturnType<typeof vi.fn>)
         .mock.calls.length;
 
-      await updateRelationshipData(relationshipId, input, mockDrizzleDb as any);
+      await updateRelationshipData(
+        relationshipId,
+        input,
+        "user-1",
+        mockDrizzleDb as any
+      );
 
       // Should only be called once (not twice for bidirectional sync)
       expect(
@@ -893,6 +996,7 @@ describe("Relationship Server Functions", () => {
         await updateRelationshipData(
           "rel-nonexistent",
           {},
+          "user-1",
           mockDrizzleDb as any
         );
         expect.unreachable("should have thrown");
@@ -930,6 +1034,7 @@ describe("Relationship Server Functions", () => {
         await updateRelationshipData(
           relationshipId,
           input,
+          "user-1",
           mockDrizzleDb as any
         );
         expect.unreachable("should have thrown");
@@ -962,6 +1067,7 @@ describe("Relationship Server Functions", () => {
 
       const result = await deleteRelationshipData(
         relationshipId,
+        "user-1",
         mockDrizzleDb as any
       );
 
@@ -988,7 +1094,11 @@ describe("Relationship Server Functions", () => {
         where: vi.fn(() => Promise.resolve({})),
       });
 
-      await deleteRelationshipData(relationshipId, mockDrizzleDb as any);
+      await deleteRelationshipData(
+        relationshipId,
+        "user-1",
+        mockDrizzleDb as any
+      );
 
       expect(mockDrizzleDb.delete).toHaveBeenCalled();
     });
@@ -1012,7 +1122,11 @@ describe("Relationship Server Functions", () => {
         where: vi.fn(() => Promise.resolve({})),
       });
 
-      await deleteRelationshipData(relationshipId, mockDrizzleDb as any);
+      await deleteRelationshipData(
+        relationshipId,
+        "user-1",
+        mockDrizzleDb as any
+      );
 
       expect(mockDrizzleDb.delete).toHaveBeenCalled();
     });
@@ -1023,7 +1137,11 @@ describe("Relationship Server Functions", () => {
       ).mockResolvedValueOnce(null);
 
       try {
-        await deleteRelationshipData("rel-nonexistent", mockDrizzleDb as any);
+        await deleteRelationshipData(
+          "rel-nonexistent",
+          "user-1",
+          mockDrizzleDb as any
+        );
         expect.unreachable("should have thrown");
       } catch (err) {
         expect(err instanceof Error).toBe(true);
@@ -1050,7 +1168,11 @@ describe("Relationship Server Functions", () => {
       });
 
       try {
-        await deleteRelationshipData(relationshipId, mockDrizzleDb as any);
+        await deleteRelationshipData(
+          relationshipId,
+          "user-1",
+          mockDrizzleDb as any
+        );
         expect.unreachable("should have thrown");
       } catch (err) {
         expect(err).toBe(error);
@@ -1077,6 +1199,7 @@ describe("Relationship Server Functions", () => {
 
       const result = await deleteRelationshipData(
         relationshipId,
+        "user-1",
         mockDrizzleDb as any
       );
 
@@ -1094,7 +1217,8 @@ describe("Relationship Server Functions", () => {
         await listRelationshipsData(
           "person-1",
           undefined,
-          mockDrizzleDb as any
+          mockDrizzleDb as any,
+          SYSTEM_VIEWER
         );
       } catch {
         // Expected
@@ -1119,7 +1243,7 @@ describe("Relationship Server Functions", () => {
       ).mockRejectedValueOnce(originalError);
 
       try {
-        await getRelationshipData("rel-1", mockDrizzleDb as any);
+        await getRelationshipData("rel-1", mockDrizzleDb as any, SYSTEM_VIEWER);
         expect.unreachable("should have thrown");
       } catch (err) {
         expect(err).toBe(originalError);
@@ -1145,7 +1269,7 @@ describe("Relationship Server Functions", () => {
         values: vi.fn(() => Promise.resolve({})),
       });
 
-      await createRelationshipData(input, mockDrizzleDb as any);
+      await createRelationshipData(input, "user-1", mockDrizzleDb as any);
 
       expect(mockDrizzleDb.insert).toHaveBeenCalled();
     });
@@ -1173,9 +1297,222 @@ describe("Relationship Server Functions", () => {
         })),
       });
 
-      await updateRelationshipData(relationshipId, input, mockDrizzleDb as any);
+      await updateRelationshipData(
+        relationshipId,
+        input,
+        "user-1",
+        mockDrizzleDb as any
+      );
 
       expect(mockDrizzleDb.update).toHaveBeenCalled();
     });
   });
+
+  describe("Pedigree and partnerships", () => {
+    function mockCreate() {
+      (mockDrizzleDb.query.persons.findFirst as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce({ id: "person-1" })
+        .mockResolvedValueOnce({ id: "person-2" });
+      (
+        mockDrizzleDb.query.relationships.findFirst as ReturnType<typeof vi.fn>
+      ).mockResolvedValueOnce(null);
+      const values = vi.fn((_row: Record<string, unknown>) =>
+        Promise.resolve({})
+      );
+      (mockDrizzleDb.insert as ReturnType<typeof vi.fn>).mockReturnValue({
+        values,
+      });
+      return values;
+    }
+
+    function mockUpdate(existing: Record<string, unknown>) {
+      (
+        mockDrizzleDb.query.relationships.findFirst as ReturnType<typeof vi.fn>
+      ).mockResolvedValueOnce(existing);
+      const set = vi.fn((_changes: Record<string, unknown>) => ({
+        where: vi.fn(() => Promise.resolve({})),
+      }));
+      (mockDrizzleDb.update as ReturnType<typeof vi.fn>).mockReturnValue({
+        set,
+      });
+      return set;
+    }
+
+    it("should copy the pedigree to the inverse CHILD relationship", async () => {
+      const values = mockCreate();
+
+      await createRelationshipData(
+        {
+          personId: "person-1",
+          relatedPersonId: "person-2",
+          type: "PARENT",
+          pedigree: "ADOPTED",
+        },
+        "user-1",
+        mockDrizzleDb as any
+      );
+
+      expect(values.mock.calls[0][0]).toMatchObject({
+        type: "PARENT",
+        pedigree: "ADOPTED",
+      });
+      expect(values.mock.calls[1][0]).toMatchObject({
+        personId: "person-2",
+        relatedPersonId: "person-1",
+        type: "CHILD",
+        pedigree: "ADOPTED",
+      });
+    });
+
+    it("should drop the pedigree on non-parent relationships", async () => {
+      const values = mockCreate();
+
+      await createRelationshipData(
+        {
+          personId: "person-1",
+          relatedPersonId: "person-2",
+          type: "SIBLING",
+          pedigree: "FOSTER",
+        },
+        "user-1",
+        mockDrizzleDb as any
+      );
+
+      expect(values.mock.calls[0][0]).toMatchObject({ pedigree: null });
+    });
+
+    it("should create a GODCHILD inverse for GODPARENT", async () => {
+      const values = mockCreate();
+
+      await createRelationshipData(
+        {
+          personId: "person-1",
+          relatedPersonId: "person-2",
+          type: "GODPARENT",
+        },
+        "user-1",
+        mockDrizzleDb as any
+      );
+
+      expect(values.mock.calls[1][0]).toMatchObject({ type: "GODCHILD" });
+    });
+
+    it("should mark ended partnerships inactive on both sides", async () => {
+      const values = mockCreate();
+
+      await createRelationshipData(
+        {
+          personId: "person-1",
+          relatedPersonId: "person-2",
+          type: "PARTNER",
+          startDate: "2012-03-01",
+          endDate: "2018-09-30",
+        },
+        "user-1",
+        mockDrizzleDb as any
+      );
+
+      for (const call of values.mock.calls.slice(0, 2)) {
+        expect(call[0]).toMatchObject({
+          type: "PARTNER",
+          startDate: new Date("2012-03-01"),
+          endDate: new Date("2018-09-30"),
+          isActive: false,
+        });
+      }
+    });
+
+    it("should sync partnership dates to the inverse relationship", async () => {
+      const set = mockUpdate({
+        id: "rel-1",
+        personId: "person-1",
+        relatedPersonId: "person-2",
+        type: "PARTNER",
+        isActive: true,
+      });
+
+      await updateRelationshipData(
+        "rel-1",
+        { startDate: new Date("2015-01-01") },
+        "user-1",
+        mockDrizzleDb as any
+      );
+
+      expect(set).toHaveBeenCalledTimes(2);
+      expect(set.mock.calls[1][0]).toMatchObject({
+        startDate: new Date("2015-01-01"),
+        endDate: null,
+        isActive: true,
+      });
+    });
+
+    it("should sync a changed pedigree to the inverse relationship", async () => {
+      const set = mockUpdate({
+        id: "rel-1",
+        personId: "person-1",
+        relatedPersonId: "person-2",
+        type: "CHILD",
+        pedigree: null,
+        isActive: true,
+      });
+
+      await updateRelationshipData(
+        "rel-1",
+        { pedigree: "FOSTER" },
+        "user-1",
+        mockDrizzleDb as any
+      );
+
+      expect(set).toHaveBeenCalledTimes(2);
+      expect(set.mock.calls[0][0]).toMatchObject({ pedigree: "FOSTER" });
+      expect(set.mock.calls[1][0]).toMatchObject({ pedigree: "FOSTER" });
+    });
+
+    it("should keep the pedigree when an update leaves it out", async () => {
+      const set = mockUpdate({
+        id: "rel-1",
+        personId: "person-1",
+        relatedPersonId: "person-2",
+        type: "PARENT",
+        pedigree: "ADOPTED",
+        isActive: true,
+      });
+
+      await updateRelationshipData("rel-1", {}, "user-1", mockDrizzleDb as any);
+
+      expect(set.mock.calls[0][0]).not.toHaveProperty("pedigree");
+    });
+
+    it("should format pedigree and partnership dates when listing", async () => {
+      (
+        mockDrizzleDb.query.relationships.findMany as ReturnType<typeof vi.fn>
+      ).mockResolvedValueOnce([
+        {
+          id: "rel-1",
+          type: "PARTNER",
+          isActive: true,
+          marriageDate: null,
+          divorceDate: null,
+          pedigree: null,
+          startDate: new Date("2012-03-01"),
+          endDate: null,
+          relatedPersonId: "person-2",
+          relatedPerson: { id: "person-2", firstName: "Sam", lastName: "Lee" },
+        },
+      ]);
+
+      const result = await listRelationshipsData(
+        "person-1",
+        undefined,
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
+      );
+
+      expect(result[0]).toMatchObject({
+        pedigree: null,
+        startDate: "2012-03-01",
+        endDate: null,
+      });
+    });
+  });
 });
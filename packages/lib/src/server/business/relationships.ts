@@ -1,34 +1,77 @@
 import { drizzleDb, drizzleSchema } from "@vamsa/api";
 import { and, eq } from "drizzle-orm";
 import { loggers } from "@vamsa/lib/logger";
+import { logEntityAuditAction } from "./audit";
+import { emitWebhookEvent } from "./webhooks";
+import { getConsistencyWarningsData } from "./consistency";
+import {
+  applyPersonPrivacy,
+  getPrivacyPolicy,
+  isPersonRedacted,
+} from "./privacy";
 import type {
+  ParentPedigree,
   RelationshipCreateInput,
   RelationshipType,
   RelationshipUpdateInput,
 } from "@vamsa/schemas";
+import type { AuditActor } from "./audit";
+import type { PrivacyViewer } from "./privacy";
 
 const log = loggers.db;
 
 /** Type for the database instance (for DI) */
 export type RelationshipsDb = typeof drizzleDb;
 
+/** Types stored on both sides as A->B and B->A with different types */
+const INVERSE_TYPES: Partial<Record<RelationshipType, RelationshipType>> = {
+  PARENT: "CHILD",
+  CHILD: "PARENT",
+  GODPARENT: "GODCHILD",
+  GODCHILD: "GODPARENT",
+};
+
+/** The type of the B->A row for an A->B relationship of the given type */
+function getInverseType(type: RelationshipType): RelationshipType {
+  // SPOUSE, SIBLING and PARTNER are symmetric
+  return INVERSE_TYPES[type] ?? type;
+}
+
+/** Pedigree is only meaningful on PARENT/CHILD links */
+function pedigreeFor(
+  type: RelationshipType,
+  pedigree: ParentPedigree | null | undefined
+): ParentPedigree | null {
+  return type === "PARENT" || type === "CHILD" ? (pedigree ?? null) : null;
+}
+
+/** Format an optional date column as YYYY-MM-DD */
+function toDateString(date: Date | null) {
+  return date?.toISOString().split("T")[0] ?? null;
+}
+
 /**
  * List relationships for a person with optional filtering.
  *
  * Only fetches relationships FROM the specified person to avoid duplicates,
  * since relationships are stored bidirectionally (A->B and B->A).
+ * Related persons the viewer may not see are named with placeholders.
  *
  * @param personId - The ID of the person to get relationships for
  * @param type - Optional relationship type filter
+ * @param db - Drizzle database instance
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
  * @returns Array of relationships with related person information
  * @throws Error if person not found
  */
 export async function listRelationshipsData(
   personId: string,
-  type?: RelationshipType,
-  db: RelationshipsDb = drizzleDb
+  type: RelationshipType | undefined,
+  db: RelationshipsDb = drizzleDb,
+  viewer: PrivacyViewer
 ) {
   try {
+    const privacy = await getPrivacyPolicy(viewer, db);
     const whereConditions = [
       eq(drizzleSchema.relationships.personId, personId),
     ];
@@ -46,18 +89,24 @@ export async function listRelationshipsData(
       },
     });
 
-    return relationships.map((r) => ({
-      id: r.id,
-      type: r.type,
-      isActive: r.isActive,
-      marriageDate: r.marriageDate?.toISOString().split("T")[0] ?? null,
-      divorceDate: r.divorceDate?.toISOString().split("T")[0] ?? null,
-      relatedPerson: {
-        id: r.relatedPersonId,
-        firstName: r.relatedPerson.firstName,
-        lastName: r.relatedPerson.lastName,
-      },
-    }));
+    return relationships.map((r) => {
+      const relatedPerson = applyPersonPrivacy(privacy, r.relatedPerson);
+      return {
+        id: r.id,
+        type: r.type,
+        isActive: r.isActive,
+        marriageDate: toDateString(r.marriageDate),
+        divorceDate: toDateString(r.divorceDate),
+        pedigree: r.pedigree,
+        startDate: toDateString(r.startDate),
+        endDate: toDateString(r.endDate),
+        relatedPerson: {
+          id: r.relatedPersonId,
+          firstName: relatedPerson.firstName,
+          lastName: relatedPerson.lastName,
+        },
+      };
+    });
   } catch (error) {
     log
       .withErr(error)
@@ -71,17 +120,22 @@ export async function listRelationshipsData(
  * Get a single relationship by ID.
  *
  * @param relationshipId - The ID of the relationship
- * @returns Relationship with related person information
+ * @param db - Drizzle database instance
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
+ * @returns Relationship with related person information (placeholders and no dates when either person is redacted)
  * @throws Error if relationship not found
  */
 export async function getRelationshipData(
   relationshipId: string,
-  db: RelationshipsDb = drizzleDb
+  db: RelationshipsDb = drizzleDb,
+  viewer: PrivacyViewer
 ) {
   try {
+    const privacy = await getPrivacyPolicy(viewer, db);
     const relationship = await db.query.relationships.findFirst({
       where: eq(drizzleSchema.relationships.id, relationshipId),
       with: {
+        person: true,
         relatedPerson: true,
       },
     });
@@ -90,20 +144,32 @@ export async function getRelationshipData(
       throw new Error("Relationship not found");
     }
 
+    const relatedPerson = applyPersonPrivacy(
+      privacy,
+      relationship.relatedPerson
+    );
+    // Marriage dates reveal as much as birth dates, so hide them with either side
+    const hideDates =
+      isPersonRedacted(privacy, relationship.person) ||
+      isPersonRedacted(privacy, relationship.relatedPerson);
+    const date = (value: Date | null) =>
+      hideDates ? null : toDateString(value);
+
     return {
       id: relationship.id,
       personId: relationship.personId,
       relatedPersonId: relationship.relatedPersonId,
       type: relationship.type,
       isActive: relationship.isActive,
-      marriageDate:
-        relationship.marriageDate?.toISOString().split("T")[0] ?? null,
-      divorceDate:
-        relationship.divorceDate?.toISOString().split("T")[0] ?? null,
+      marriageDate: date(relationship.marriageDate),
+      divorceDate: date(relationship.divorceDate),
+      pedigree: relationship.pedigree,
+      startDate: date(relationship.startDate),
+      endDate: date(relationship.endDate),
       relatedPerson: {
-        id: relationship.relatedPerson.id,
-        firstName: relationship.relatedPerson.firstName,
-        lastName: relationship.relatedPerson.lastName,
+        id: relatedPerson.id,
+        firstName: relatedPerson.firstName,
+        lastName: relatedPerson.lastName,
       },
     };
   } catch (error) {
@@ -115,49 +181,97 @@ export async function getRelationshipData(
   }
 }
 
+/** Webhook event sent for each kind of relationship change */
+const RELATIONSHIP_WEBHOOK_EVENTS = {
+  CREATE: "relationship.created",
+  UPDATE: "relationship.updated",
+  DELETE: "relationship.deleted",
+} as const;
+
+/**
+ * Log a relationship change in the history of both persons it links, and
+ * queue one webhook event for it
+ */
+async function logRelationshipAudit(
+  userId: AuditActor,
+  action: "CREATE" | "UPDATE" | "DELETE",
+  relationship: { id: string; personId: string; relatedPersonId: string },
+  previousData: unknown,
+  newData: unknown,
+  db: RelationshipsDb
+) {
+  for (const personId of [
+    relationship.personId,
+    relationship.relatedPersonId,
+  ]) {
+    await logEntityAuditAction(
+      {
+        userId,
+        action,
+        entityType: "RELATIONSHIP",
+        entityId: relationship.id,
+        personId,
+        previousData,
+        newData,
+      },
+      db
+    );
+  }
+
+  await emitWebhookEvent(
+    RELATIONSHIP_WEBHOOK_EVENTS[action],
+    {
+      relationshipId: relationship.id,
+      personId: relationship.personId,
+      relatedPersonId: relationship.relatedPersonId,
+      userId: typeof userId === "string" ? userId : userId.userId,
+      previousData: previousData ?? null,
+      newData: newData ?? null,
+    },
+    db
+  );
+}
+
+/** Fields copied from a relationship to its inverse */
+interface MirroredFields {
+  marriageDate: Date | null;
+  divorceDate: Date | null;
+  pedigree: ParentPedigree | null;
+  startDate: Date | null;
+  endDate: Date | null;
+  isActive: boolean;
+}
+
 /**
  * Helper function to create the inverse relationship for bidirectional types.
  *
- * For PARENT/CHILD types: A->B becomes B->A with inverted type
- * For SPOUSE/SIBLING types: A->B becomes B->A with same type
+ * For PARENT/CHILD and GODPARENT/GODCHILD types: A->B becomes B->A with inverted type
+ * For SPOUSE/SIBLING/PARTNER types: A->B becomes B->A with same type
+ *
+ * Dates and pedigree are copied, so an adopted child's PARENT link and the
+ * parent's CHILD link carry the same pedigree.
  *
  * @param personId - The person creating the relationship
  * @param relatedPersonId - The related person
  * @param type - The relationship type
- * @param marriageDate - Optional marriage date
- * @param divorceDate - Optional divorce date
- * @param isActive - Whether the relationship is active
+ * @param fields - Dates, pedigree and active flag of the relationship
  * @throws Error if inverse relationship cannot be created
  */
 async function ensureBidirectional(
   personId: string,
   relatedPersonId: string,
-  type: string,
-  marriageDate: Date | null,
-  divorceDate: Date | null,
-  isActive: boolean,
+  type: RelationshipType,
+  fields: MirroredFields,
   db: RelationshipsDb = drizzleDb
 ) {
   try {
-    // Determine inverse type and target type
-    let inverseType = type;
-
-    if (type === "PARENT") {
-      inverseType = "CHILD";
-    } else if (type === "CHILD") {
-      inverseType = "PARENT";
-    }
-    // SPOUSE and SIBLING are symmetric
-
     // Create the inverse relationship
     await db.insert(drizzleSchema.relationships).values({
       id: crypto.randomUUID(),
       personId: relatedPersonId,
       relatedPersonId: personId,
-      type: inverseType as RelationshipType,
-      marriageDate,
-      divorceDate,
-      isActive,
+      type: getInverseType(type),
+      ...fields,
       createdAt: new Date(),
       updatedAt: new Date(),
     });
@@ -176,14 +290,17 @@ async function ensureBidirectional(
  * Automatically creates the inverse relationship based on the type:
  * - PARENT -> creates inverse CHILD relationship
  * - CHILD -> creates inverse PARENT relationship
- * - SPOUSE/SIBLING -> creates inverse with same type
+ * - GODPARENT <-> GODCHILD likewise
+ * - SPOUSE/SIBLING/PARTNER -> creates inverse with same type
  *
  * @param input - Relationship creation input with personId, relatedPersonId, type, and optional dates
- * @returns Created relationship ID
+ * @param userId - User creating the relationship
+ * @returns Created relationship ID and any data consistency warnings it raised
  * @throws Error if validation fails (self-relationship, duplicate, persons not found)
  */
 export async function createRelationshipData(
   input: RelationshipCreateInput,
+  userId: AuditActor,
   db: RelationshipsDb = drizzleDb
 ) {
   try {
@@ -219,37 +336,55 @@ export async function createRelationshipData(
       throw new Error("This relationship already exists");
     }
 
-    // Determine isActive based on divorceDate (only for SPOUSE type)
-    const isActive = input.type === "SPOUSE" ? !input.divorceDate : true;
+    // Determine isActive based on divorceDate (SPOUSE) or endDate (PARTNER)
+    let isActive = true;
+    if (input.type === "SPOUSE") {
+      isActive = !input.divorceDate;
+    } else if (input.type === "PARTNER") {
+      isActive = !input.endDate;
+    }
+
+    const fields: MirroredFields = {
+      marriageDate: input.marriageDate ? new Date(input.marriageDate) : null,
+      divorceDate: input.divorceDate ? new Date(input.divorceDate) : null,
+      pedigree: pedigreeFor(input.type, input.pedigree),
+      startDate: input.startDate ? new Date(input.startDate) : null,
+      endDate: input.endDate ? new Date(input.endDate) : null,
+      isActive,
+    };
 
     const relationshipId = crypto.randomUUID();
     const now = new Date();
-
-    // Create the primary relationship
-    await db.insert(drizzleSchema.relationships).values({
+    const values = {
       id: relationshipId,
       personId: input.personId,
       relatedPersonId: input.relatedPersonId,
       type: input.type,
-      marriageDate: input.marriageDate ? new Date(input.marriageDate) : null,
-      divorceDate: input.divorceDate ? new Date(input.divorceDate) : null,
-      isActive,
+      ...fields,
       createdAt: now,
       updatedAt: now,
-    });
+    };
+
+    // Create the primary relationship
+    await db.insert(drizzleSchema.relationships).values(values);
 
     // Create the bidirectional relationship
     await ensureBidirectional(
       input.personId,
       input.relatedPersonId,
       input.type,
-      input.marriageDate ? new Date(input.marriageDate) : null,
-      input.divorceDate ? new Date(input.divorceDate) : null,
-      isActive,
+      fields,
       db
     );
 
-    return { id: relationshipId };
+    await logRelationshipAudit(userId, "CREATE", values, null, values, db);
+
+    const warnings = await getConsistencyWarningsData(
+      [input.personId, input.relatedPersonId],
+      db
+    );
+
+    return { id: relationshipId, warnings };
   } catch (error) {
     log.withErr(error).ctx({ input }).msg("Failed to create relationship");
     throw error;
@@ -257,19 +392,23 @@ export async function createRelationshipData(
 }
 
 /**
- * Update a relationship with bidirectional syncing for SPOUSE relationships.
+ * Update a relationship with bidirectional syncing.
  *
- * For SPOUSE relationships, also updates the inverse relationship to keep dates synchronized.
- * For other types, only updates the specified relationship.
+ * For SPOUSE and PARTNER relationships, also updates the inverse relationship
+ * to keep dates synchronized. For PARENT/CHILD relationships, a changed
+ * pedigree is written to both sides. Other updates only touch the specified
+ * relationship.
  *
  * @param relationshipId - The ID of the relationship to update
- * @param input - Update input with optional marriageDate and divorceDate
+ * @param input - Update input with optional dates and pedigree
+ * @param userId - User updating the relationship
  * @returns Updated relationship ID
  * @throws Error if relationship not found
  */
 export async function updateRelationshipData(
   relationshipId: string,
   input: RelationshipUpdateInput,
+  userId: AuditActor,
   db: RelationshipsDb = drizzleDb
 ) {
   try {
@@ -282,35 +421,46 @@ export async function updateRelationshipData(
       throw new Error("Relationship not found");
     }
 
-    // Determine isActive based on divorceDate (for SPOUSE type only)
-    const isActive =
-      relationship.type === "SPOUSE" && input.divorceDate ? false : true;
+    const type = relationship.type as RelationshipType;
+
+    // Determine isActive based on divorceDate (SPOUSE) or endDate (PARTNER)
+    let isActive = true;
+    if (type === "SPOUSE") {
+      isActive = !input.divorceDate;
+    } else if (type === "PARTNER") {
+      isActive = !input.endDate;
+    }
+
+    const changes: Partial<MirroredFields> = {
+      marriageDate: input.marriageDate ? new Date(input.marriageDate) : null,
+      divorceDate: input.divorceDate ? new Date(input.divorceDate) : null,
+      isActive,
+    };
+    if (type === "PARTNER") {
+      changes.startDate = input.startDate ? new Date(input.startDate) : null;
+      changes.endDate = input.endDate ? new Date(input.endDate) : null;
+    }
+    // Leave the pedigree alone unless the caller sent one
+    const pedigreeChanged = input.pedigree !== undefined;
+    if (pedigreeChanged) {
+      changes.pedigree = pedigreeFor(type, input.pedigree);
+    }
 
     const now = new Date();
 
     // Update primary relationship
     await db
       .update(drizzleSchema.relationships)
-      .set({
-        marriageDate: input.marriageDate ? new Date(input.marriageDate) : null,
-        divorceDate: input.divorceDate ? new Date(input.divorceDate) : null,
-        isActive,
-        updatedAt: now,
-      })
+      .set({ ...changes, updatedAt: now })
       .where(eq(drizzleSchema.relationships.id, relationshipId));
 
-    // BIDIRECTIONAL SYNC for SPOUSE type
-    if (relationship.type === "SPOUSE") {
+    // BIDIRECTIONAL SYNC for couples, and for parent links whose pedigree changed
+    const isCouple = type === "SPOUSE" || type === "PARTNER";
+    const isParentLink = type === "PARENT" || type === "CHILD";
+    if (isCouple || (isParentLink && pedigreeChanged)) {
       await db
         .update(drizzleSchema.relationships)
-        .set({
-          marriageDate: input.marriageDate
-            ? new Date(input.marriageDate)
-            : null,
-          divorceDate: input.divorceDate ? new Date(input.divorceDate) : null,
-          isActive,
-          updatedAt: now,
-        })
+        .set({ ...changes, updatedAt: now })
         .where(
           and(
             eq(
@@ -321,11 +471,20 @@ export async function updateRelationshipData(
               drizzleSchema.relationships.relatedPersonId,
               relationship.personId
             ),
-            eq(drizzleSchema.relationships.type, "SPOUSE")
+            eq(drizzleSchema.relationships.type, getInverseType(type))
           )
         );
     }
 
+    await logRelationshipAudit(
+      userId,
+      "UPDATE",
+      relationship,
+      relationship,
+      changes,
+      db
+    );
+
     return { id: relationshipId };
   } catch (error) {
     log
@@ -342,13 +501,16 @@ export async function updateRelationshipData(
  * Also deletes the inverse relationship to maintain bidirectional consistency:
  * - PARENT relationships also delete their CHILD inverse
  * - CHILD relationships also delete their PARENT inverse
- * - SPOUSE/SIBLING relationships also delete their inverse with same type
+ * - GODPARENT/GODCHILD relationships likewise
+ * - SPOUSE/SIBLING/PARTNER relationships also delete their inverse with same type
  *
  * @param relationshipId - The ID of the relationship to delete
+ * @param userId - User deleting the relationship
  * @throws Error if relationship not found
  */
 export async function deleteRelationshipData(
   relationshipId: string,
+  userId: AuditActor,
   db: RelationshipsDb = drizzleDb
 ) {
   try {
@@ -360,15 +522,7 @@ export async function deleteRelationshipData(
       throw new Error("Relationship not found");
     }
 
-    // Determine the inverse type
-    let inverseType = relationship.type as RelationshipType;
-
-    if (relationship.type === "PARENT") {
-      inverseType = "CHILD";
-    } else if (relationship.type === "CHILD") {
-      inverseType = "PARENT";
-    }
-    // SPOUSE and SIBLING are symmetric
+    const inverseType = getInverseType(relationship.type as RelationshipType);
 
     // Delete the primary relationship
     await db
@@ -392,6 +546,15 @@ export async function deleteRelationshipData(
         )
       );
 
+    await logRelationshipAudit(
+      userId,
+      "DELETE",
+      relationship,
+      relationship,
+      null,
+      db
+    );
+
     return { success: true };
   } catch (error) {
     log
@@ -74,6 +74,8 @@ describe("Settings Business Logic", () => {
         requireApprovalForEdits: true,
         metricsDashboardUrl: null,
         metricsApiUrl: null,
+        stripPhotoLocation: true,
+        aiHistoryEnabled: true,
       });
 
       expect(mockLogger.debug).toHaveBeenCalledWith(
@@ -224,6 +226,97 @@ describe("Settings Business Logic", () => {
       );
     });
 
+    it("should keep the photo location setting when it is omitted", async () => {
+      const existingSettings = {
+        id: "settings-1",
+        familyName: "Family",
+        description: null,
+        allowSelfRegistration: true,
+        requireApprovalForEdits: false,
+        metricsDashboardUrl: null,
+        metricsApiUrl: null,
+        stripPhotoLocation: false,
+      };
+
+      (
+        mockDrizzleDb.query.familySettings.findFirst as ReturnType<typeof vi.fn>
+      ).mockResolvedValueOnce(existingSettings);
+
+      const mockSet = vi.fn(() => ({
+        where: vi.fn(() => ({
+          returning: vi.fn(() => Promise.resolve([existingSettings])),
+        })),
+      }));
+      (mockDrizzleDb.update as ReturnType<typeof vi.fn>).mockReturnValueOnce({
+        set: mockSet,
+      } as any);
+
+      const result = await updateFamilySettingsData(
+        {
+          familyName: "Family",
+          allowSelfRegistration: true,
+          requireApprovalForEdits: false,
+        },
+        "ADMIN",
+        "user-123",
+        mockDrizzleDb as any
+      );
+
+      expect(mockSet).toHaveBeenCalledWith(
+        expect.objectContaining({ stripPhotoLocation: false })
+      );
+      expect(result.stripPhotoLocation).toBe(false);
+    });
+
+    it("should turn saving AI conversations off", async () => {
+      const existingSettings = {
+        id: "settings-1",
+        familyName: "Family",
+        description: null,
+        allowSelfRegistration: true,
+        requireApprovalForEdits: false,
+        metricsDashboardUrl: null,
+        metricsApiUrl: null,
+        stripPhotoLocation: true,
+        aiHistoryEnabled: true,
+      };
+
+      (
+        mockDrizzleDb.query.familySettings.findFirst as ReturnType<typeof vi.fn>
+      ).mockResolvedValueOnce(existingSettings);
+
+      const mockSet = vi.fn((values: Record<string, unknown>) => ({
+        where: vi.fn(() => ({
+          returning: vi.fn(() =>
+            Promise.resolve([{ ...existingSettings, ...values }])
+          ),
+        })),
+      }));
+      (mockDrizzleDb.update as ReturnType<typeof vi.fn>).mockReturnValueOnce({
+        set: mockSet,
+      } as any);
+
+      const result = await updateFamilySettingsData(
+        {
+          familyName: "Family",
+          allowSelfRegistration: true,
+          requireApprovalForEdits: false,
+          aiHistoryEnabled: false,
+        },
+        "ADMIN",
+        "user-123",
+        mockDrizzleDb as any
+      );
+
+      expect(mockSet).toHaveBeenCalledWith(
+        expect.objectContaining({
+          aiHistoryEnabled: false,
+          stripPhotoLocation: true,
+        })
+      );
+      expect(result.aiHistoryEnabled).toBe(false);
+    });
+
     it("should handle null values in update data", async () => {
       const existingSettings = {
         id: "settings-1",
@@ -20,6 +20,8 @@ export interface FamilySettingsData {
   requireApprovalForEdits: boolean;
   metricsDashboardUrl: string | null;
   metricsApiUrl: string | null;
+  stripPhotoLocation: boolean;
+  aiHistoryEnabled: boolean;
 }
 
 /**
@@ -33,6 +35,9 @@ export interface UpdateFamilySettingsInput {
   requireApprovalForEdits: boolean;
   metricsDashboardUrl?: string | null;
   metricsApiUrl?: string | null;
+  // Left unchanged when omitted
+  stripPhotoLocation?: boolean;
+  aiHistoryEnabled?: boolean;
 }
 
 /**
@@ -58,6 +63,8 @@ export async function getFamilySettingsData(
       requireApprovalForEdits: true,
       metricsDashboardUrl: null,
       metricsApiUrl: null,
+      stripPhotoLocation: true,
+      aiHistoryEnabled: true,
     };
   }
 
@@ -69,6 +76,8 @@ export async function getFamilySettingsData(
     requireApprovalForEdits: settings.requireApprovalForEdits,
     metricsDashboardUrl: settings.metricsDashboardUrl ?? null,
     metricsApiUrl: settings.metricsApiUrl ?? null,
+    stripPhotoLocation: settings.stripPhotoLocation,
+    aiHistoryEnabled: settings.aiHistoryEnabled,
   };
 }
 
@@ -110,6 +119,9 @@ export async function updateFamilySettingsData(
         requireApprovalForEdits: data.requireApprovalForEdits,
         metricsDashboardUrl: data.metricsDashboardUrl ?? null,
         metricsApiUrl: data.metricsApiUrl ?? null,
+        stripPhotoLocation:
+          data.stripPhotoLocation ?? existing.stripPhotoLocation,
+        aiHistoryEnabled: data.aiHistoryEnabled ?? existing.aiHistoryEnabled,
         updatedAt: new Date(),
       })
       .where(eq(drizzleSchema.familySettings.id, existing.id))
@@ -130,6 +142,8 @@ export async function updateFamilySettingsData(
         requireApprovalForEdits: data.requireApprovalForEdits,
         metricsDashboardUrl: data.metricsDashboardUrl ?? null,
         metricsApiUrl: data.metricsApiUrl ?? null,
+        stripPhotoLocation: data.stripPhotoLocation ?? true,
+        aiHistoryEnabled: data.aiHistoryEnabled ?? true,
         updatedAt: new Date(),
       })
       .returning();
@@ -146,6 +160,8 @@ export async function updateFamilySettingsData(
     requireApprovalForEdits: settings.requireApprovalForEdits,
     metricsDashboardUrl: settings.metricsDashboardUrl ?? null,
     metricsApiUrl: settings.metricsApiUrl ?? null,
+    stripPhotoLocation: settings.stripPhotoLocation,
+    aiHistoryEnabled: settings.aiHistoryEnabled,
   };
 }
 
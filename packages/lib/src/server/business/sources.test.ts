@@ -26,6 +26,7 @@ import {
   updateResearchNoteData,
   updateSourceData,
 } from "./sources";
+import { SYSTEM_VIEWER } from "./privacy";
 
 // Create mock drizzle database
 const mockDrizzleDb = {
@@ -46,6 +47,9 @@ const mockDrizzleDb = {
       findFirst: vi.fn(() => Promise.resolve(null)),
       findMany: vi.fn(() => Promise.resolve([])),
     },
+    familySettings: {
+      findFirst: vi.fn(() => Promise.resolve(null)),
+    },
   },
   insert: vi.fn(() => ({
     values: vi.fn(() => ({
@@ -125,7 +129,11 @@ describe("Sources Business Logic", () => {
         mockDrizzleDb.query.researchNotes.findMany as ReturnType<typeof vi.fn>
       ).mockResolvedValueOnce([]);
 
-      const result = await getSourceData("source-1", mockDrizzleDb as any);
+      const result = await getSourceData(
+        "source-1",
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
+      );
 
       expect(result.id).toBe("source-1");
       expect(result.title).toBe("Census 1900");
@@ -135,13 +143,60 @@ describe("Sources Business Logic", () => {
       expect(result.researchNoteCount).toBe(0);
     });
 
+    it("should hide links and notes of persons hidden from the viewer", async () => {
+      const now = new Date("2024-01-01");
+      (
+        mockDrizzleDb.query.sources.findFirst as ReturnType<typeof vi.fn>
+      ).mockResolvedValueOnce({
+        id: "source-1",
+        title: "Parish register",
+        accessDate: null,
+        createdAt: now,
+        updatedAt: now,
+      });
+      (
+        mockDrizzleDb.query.eventSources.findMany as ReturnType<typeof vi.fn>
+      ).mockResolvedValueOnce([
+        { id: "es-1", personId: "living", eventType: "BIRTH" },
+        { id: "es-2", personId: "dead", eventType: "DEATH" },
+      ]);
+      (
+        mockDrizzleDb.query.researchNotes.findMany as ReturnType<typeof vi.fn>
+      ).mockResolvedValueOnce([
+        {
+          id: "note-1",
+          personId: "living",
+          eventType: "BIRTH",
+          findings: "Born at home",
+          relatedSources: null,
+          createdAt: now,
+          updatedAt: now,
+        },
+      ]);
+      (
+        mockDrizzleDb.query.persons.findMany as ReturnType<typeof vi.fn>
+      ).mockResolvedValueOnce([
+        { id: "living", isLiving: true, privacy: null },
+        { id: "dead", isLiving: false, privacy: "PUBLIC" },
+      ]);
+
+      const result = await getSourceData("source-1", mockDrizzleDb as any, {
+        role: "VIEWER",
+      });
+
+      expect(result.eventSources.map((es) => es.id)).toEqual(["es-2"]);
+      expect(result.researchNotesRelated).toHaveLength(0);
+      expect(result.eventCount).toBe(1);
+      expect(result.researchNoteCount).toBe(0);
+    });
+
     it("should throw error when source not found", async () => {
       (
         mockDrizzleDb.query.sources.findFirst as ReturnType<typeof vi.fn>
       ).mockResolvedValueOnce(null);
 
       try {
-        await getSourceData("nonexistent", mockDrizzleDb as any);
+        await getSourceData("nonexistent", mockDrizzleDb as any, SYSTEM_VIEWER);
         expect.unreachable("should have thrown");
       } catch (err) {
         expect((err as Error).message).toBe("Source not found");
@@ -211,7 +266,11 @@ describe("Sources Business Logic", () => {
         mockDrizzleDb.query.researchNotes.findMany as ReturnType<typeof vi.fn>
       ).mockResolvedValueOnce(mockResearchNotes);
 
-      const result = await getSourceData("source-1", mockDrizzleDb as any);
+      const result = await getSourceData(
+        "source-1",
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
+      );
 
       expect(result.eventCount).toBe(2);
       expect(result.researchNoteCount).toBe(1);
@@ -219,6 +278,22 @@ describe("Sources Business Logic", () => {
   });
 
   describe("listSourcesData", () => {
+    it("should list no sources for a person hidden from the viewer", async () => {
+      (
+        mockDrizzleDb.query.persons.findMany as ReturnType<typeof vi.fn>
+      ).mockResolvedValueOnce([{ id: "p-1", isLiving: true, privacy: null }]);
+
+      const result = await listSourcesData(
+        undefined,
+        "p-1",
+        mockDrizzleDb as any,
+        { role: "VIEWER" }
+      );
+
+      expect(result).toEqual({ items: [], total: 0 });
+      expect(mockDrizzleDb.query.sources.findMany).not.toHaveBeenCalled();
+    });
+
     it("should list sources and handle empty results", async () => {
       (
         mockDrizzleDb.query.sources.findMany as ReturnType<typeof vi.fn>
@@ -233,7 +308,8 @@ describe("Sources Business Logic", () => {
       const result = await listSourcesData(
         undefined,
         undefined,
-        mockDrizzleDb as any
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
       );
 
       expect(result.items).toHaveLength(0);
@@ -268,7 +344,8 @@ describe("Sources Business Logic", () => {
       const result = await listSourcesData(
         undefined,
         undefined,
-        mockDrizzleDb as any
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
       );
 
       expect(result.items[0].createdAt).toBe(now.toISOString());
@@ -476,9 +553,26 @@ describe("Sources Business Logic", () => {
         mockDrizzleDb.query.researchNotes.findMany as ReturnType<typeof vi.fn>
       ).mockResolvedValueOnce([]);
 
-      const result = await getResearchNotesData("p-1", mockDrizzleDb as any);
+      const result = await getResearchNotesData(
+        "p-1",
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
+      );
+
+      expect(result).toEqual({});
+    });
+
+    it("should return no notes for a person hidden from the viewer", async () => {
+      (
+        mockDrizzleDb.query.persons.findFirst as ReturnType<typeof vi.fn>
+      ).mockResolvedValueOnce({ id: "p-1", isLiving: true, privacy: null });
+
+      const result = await getResearchNotesData("p-1", mockDrizzleDb as any, {
+        role: "VIEWER",
+      });
 
       expect(result).toEqual({});
+      expect(mockDrizzleDb.query.researchNotes.findMany).not.toHaveBeenCalled();
     });
 
     it("should throw error when person not found", async () => {
@@ -487,7 +581,11 @@ describe("Sources Business Logic", () => {
       ).mockResolvedValueOnce(null);
 
       try {
-        await getResearchNotesData("nonexistent", mockDrizzleDb as any);
+        await getResearchNotesData(
+          "nonexistent",
+          mockDrizzleDb as any,
+          SYSTEM_VIEWER
+        );
         expect.unreachable("should have thrown");
       } catch (err) {
         expect((err as Error).message).toBe("Person not found");
@@ -950,7 +1048,11 @@ describe("Sources Business Logic", () => {
         mockDrizzleDb.query.eventSources.findMany as ReturnType<typeof vi.fn>
       ).mockResolvedValueOnce([]);
 
-      const result = await getPersonSourcesData("p-1", mockDrizzleDb as any);
+      const result = await getPersonSourcesData(
+        "p-1",
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
+      );
 
       expect(result).toEqual({});
     });
@@ -1001,7 +1103,11 @@ describe("Sources Business Logic", () => {
       mockDrizzleDb.query.eventSources.findMany = findManyMock;
       mockDrizzleDb.query.sources.findFirst = findFirstMock;
 
-      const result = await getPersonSourcesData("p-1", mockDrizzleDb as any);
+      const result = await getPersonSourcesData(
+        "p-1",
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
+      );
 
       expect(result).toHaveProperty("birth");
       expect(result).toHaveProperty("marriage");
@@ -1043,7 +1149,11 @@ describe("Sources Business Logic", () => {
       mockDrizzleDb.query.eventSources.findMany = findManyMock;
       mockDrizzleDb.query.sources.findFirst = findFirstMock;
 
-      const result = await getPersonSourcesData("p-1", mockDrizzleDb as any);
+      const result = await getPersonSourcesData(
+        "p-1",
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
+      );
 
       expect(result).toHaveProperty("birth");
       expect(result.birth).toHaveLength(1);
@@ -1056,7 +1166,7 @@ describe("Sources Business Logic", () => {
       mockDrizzleDb.query.eventSources.findMany = findManyMock;
 
       await expect(
-        getPersonSourcesData("p-1", mockDrizzleDb as any)
+        getPersonSourcesData("p-1", mockDrizzleDb as any, SYSTEM_VIEWER)
       ).rejects.toThrow("Failed to fetch person sources");
     });
   });
@@ -1096,7 +1206,8 @@ describe("Sources Business Logic", () => {
       const result = await listSourcesData(
         "Census",
         undefined,
-        mockDrizzleDb as any
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
       );
 
       expect(result.items).toHaveLength(1);
@@ -1144,7 +1255,8 @@ describe("Sources Business Logic", () => {
       const result = await listSourcesData(
         undefined,
         "p-1",
-        mockDrizzleDb as any
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
       );
 
       expect(result.items).toHaveLength(1);
@@ -1201,7 +1313,11 @@ describe("Sources Business Logic", () => {
       mockDrizzleDb.query.persons.findFirst = findFirstMock;
       mockDrizzleDb.query.researchNotes.findMany = findManyMock;
 
-      const result = await getResearchNotesData("p-1", mockDrizzleDb as any);
+      const result = await getResearchNotesData(
+        "p-1",
+        mockDrizzleDb as any,
+        SYSTEM_VIEWER
+      );
 
       expect(result).toHaveProperty("birth");
       expect(result).toHaveProperty("marriage");
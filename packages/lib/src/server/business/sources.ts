@@ -1,6 +1,8 @@
 import { drizzleDb, drizzleSchema } from "@vamsa/api";
-import { and, asc, desc, eq } from "drizzle-orm";
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
 import { loggers } from "@vamsa/lib/logger";
+import { getPrivacyPolicy, isPersonRedacted } from "./privacy";
+import type { PrivacyViewer } from "./privacy";
 
 const log = loggers.db;
 
@@ -198,16 +200,46 @@ export interface PersonSourcesResponse {
   [eventType: string]: Array<SourceWithEvents>;
 }
 
+/**
+ * IDs of the given persons the viewer may not see
+ *
+ * Sources are shared records, but their event links and research notes
+ * belong to a person and are hidden with that person.
+ */
+async function getRedactedPersonIds(
+  personIds: Array<string>,
+  viewer: PrivacyViewer,
+  db: SourcesDb
+): Promise<Set<string>> {
+  const redacted = new Set<string>();
+  if (viewer.role === "ADMIN" || personIds.length === 0) {
+    return redacted;
+  }
+
+  const privacy = await getPrivacyPolicy(viewer, db);
+  const persons = await db.query.persons.findMany({
+    columns: { id: true, isLiving: true, privacy: true },
+    where: inArray(drizzleSchema.persons.id, [...new Set(personIds)]),
+  });
+  for (const person of persons) {
+    if (isPersonRedacted(privacy, person)) redacted.add(person.id);
+  }
+
+  return redacted;
+}
+
 /**
  * Get a single source with all details
  * @param sourceId - The ID of the source to fetch
  * @param db - Database instance (defaults to drizzleDb for production)
- * @returns Complete source details with related data
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
+ * @returns Complete source details with the links and notes the viewer may see
  * @throws Error if source not found
  */
 export async function getSourceData(
   sourceId: string,
-  db: SourcesDb = drizzleDb
+  db: SourcesDb = drizzleDb,
+  viewer: PrivacyViewer
 ): Promise<SourceDetail> {
   const source = await db.query.sources.findFirst({
     where: eq(drizzleSchema.sources.id, sourceId),
@@ -218,14 +250,26 @@ export async function getSourceData(
   }
 
   // Fetch related data
-  const eventSources = await db.query.eventSources.findMany({
+  const allEventSources = await db.query.eventSources.findMany({
     where: eq(drizzleSchema.eventSources.sourceId, sourceId),
   });
 
-  const researchNotes = await db.query.researchNotes.findMany({
+  const allResearchNotes = await db.query.researchNotes.findMany({
     where: eq(drizzleSchema.researchNotes.sourceId, sourceId),
   });
 
+  const redacted = await getRedactedPersonIds(
+    [...allEventSources, ...allResearchNotes].map((row) => row.personId),
+    viewer,
+    db
+  );
+  const eventSources = allEventSources.filter(
+    (es) => !redacted.has(es.personId)
+  );
+  const researchNotes = allResearchNotes.filter(
+    (rn) => !redacted.has(rn.personId)
+  );
+
   return {
     id: source.id,
     title: source.title,
@@ -284,13 +328,22 @@ export async function getSourceData(
  * @param type - Optional source type filter
  * @param personId - Optional person ID filter
  * @param db - Database instance (defaults to drizzleDb for production)
- * @returns List of sources matching filters
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
+ * @returns List of sources matching filters (none for a person hidden from the viewer)
  */
 export async function listSourcesData(
-  type?: string,
-  personId?: string,
-  db: SourcesDb = drizzleDb
+  type: string | undefined,
+  personId: string | undefined,
+  db: SourcesDb = drizzleDb,
+  viewer: PrivacyViewer
 ): Promise<SourceListResult> {
+  if (
+    personId &&
+    (await getRedactedPersonIds([personId], viewer, db)).has(personId)
+  ) {
+    return { items: [], total: 0 };
+  }
+
   const where = type ? eq(drizzleSchema.sources.sourceType, type) : undefined;
 
   const sources = await db.query.sources.findMany({
@@ -754,12 +807,14 @@ export async function linkSourceToEventData(
  * Get all research notes for a person, grouped by event type
  * @param personId - Person ID
  * @param db - Database instance (defaults to drizzleDb for production)
- * @returns Research notes grouped by event type
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
+ * @returns Research notes grouped by event type (none for a person hidden from the viewer)
  * @throws Error if person not found
  */
 export async function getResearchNotesData(
   personId: string,
-  db: SourcesDb = drizzleDb
+  db: SourcesDb = drizzleDb,
+  viewer: PrivacyViewer
 ): Promise<ResearchNotesGrouped> {
   // Verify person exists
   const person = await db.query.persons.findFirst({
@@ -770,6 +825,10 @@ export async function getResearchNotesData(
     throw new Error("Person not found");
   }
 
+  if (isPersonRedacted(await getPrivacyPolicy(viewer, db), person)) {
+    return {};
+  }
+
   const researchNotes = await db.query.researchNotes.findMany({
     where: eq(drizzleSchema.researchNotes.personId, personId),
     orderBy: [
@@ -816,13 +875,20 @@ export async function getResearchNotesData(
  * Get all sources for a person, grouped by event type (legacy format)
  * @param personId - Person ID
  * @param db - Database instance (defaults to drizzleDb for production)
- * @returns Sources grouped by event type
+ * @param viewer - Viewer whose privacy rules apply (SYSTEM_VIEWER for trusted internal callers)
+ * @returns Sources grouped by event type (none for a person hidden from the viewer)
  */
 export async function getPersonSourcesData(
   personId: string,
-  db: SourcesDb = drizzleDb
+  db: SourcesDb = drizzleDb,
+  viewer: PrivacyViewer
 ): Promise<PersonSourcesResponse> {
   try {
+    const redacted = await getRedactedPersonIds([personId], viewer, db);
+    if (redacted.has(personId)) {
+      return {};
+    }
+
     const eventSources = await db.query.eventSources.findMany({
       where: eq(drizzleSchema.eventSources.personId, personId),
       orderBy: [
@@ -6,6 +6,9 @@
  * - getPendingSuggestionsCountData: Get count of pending suggestions
  * - createSuggestionData: Create new suggestion
  * - reviewSuggestionData: Review (approve/reject) a suggestion
+ * - requiresEditApprovalData / submitEditForApprovalData: Edits held for review
+ * - Approved media uploads, reorders, event links and transcripts applied
+ *   through the media logic
  *
  * Uses module mocking for database dependency injection.
  */
@@ -17,6 +20,8 @@ import {
   createSuggestionData,
   getPendingSuggestionsCountData,
   listSuggestionsData,
+  requiresEditApprovalData,
+  submitEditForApprovalData,
 } from "./suggestions";
 
 // Create mock drizzle database
@@ -58,6 +63,32 @@ vi.mock("@vamsa/lib/server/business/notifications", () => ({
   notifySuggestionUpdated: mockNotifySuggestionUpdated,
 }));
 
+// Mock the media logic approved media edits are applied through
+const {
+  mockUploadStagedMedia,
+  mockDiscardStagedMedia,
+  mockReorderMedia,
+  mockLinkMediaToEvent,
+  mockAttachTranscript,
+  mockRemoveTranscript,
+} = vi.hoisted(() => ({
+  mockUploadStagedMedia: vi.fn(),
+  mockDiscardStagedMedia: vi.fn(),
+  mockReorderMedia: vi.fn(),
+  mockLinkMediaToEvent: vi.fn(),
+  mockAttachTranscript: vi.fn(),
+  mockRemoveTranscript: vi.fn(),
+}));
+
+vi.mock("./media", () => ({
+  uploadStagedMediaLogic: mockUploadStagedMedia,
+  discardStagedMediaLogic: mockDiscardStagedMedia,
+  reorderMediaLogic: mockReorderMedia,
+  linkMediaToEventLogic: mockLinkMediaToEvent,
+  attachMediaTranscriptLogic: mockAttachTranscript,
+  removeMediaTranscriptLogic: mockRemoveTranscript,
+}));
+
 describe("Suggestions Business Logic", () => {
   beforeEach(() => {
     clearAllMocks();
@@ -216,6 +247,374 @@ describe("Suggestions Business Logic", () => {
       }
     });
 
+    it("should audit approved changes as the submitter's, with the suggestion", async () => {
+      const { reviewSuggestionData } = await import("./suggestions");
+      const existing = { id: "person-1", firstName: "Old", lastName: "Name" };
+      const auditValues = vi.fn(() => Promise.resolve());
+      const tx = {
+        update: vi.fn(() => ({
+          set: vi.fn(() => ({
+            where: vi.fn(() => ({
+              returning: vi.fn(() =>
+                Promise.resolve([{ ...existing, firstName: "Updated" }])
+              ),
+            })),
+          })),
+        })),
+        insert: vi.fn(() => ({ values: auditValues })),
+      };
+      const db = {
+        ...mockDrizzleDb,
+        query: {
+          persons: { findFirst: vi.fn(() => Promise.resolve(existing)) },
+          users: { findFirst: vi.fn(() => Promise.resolve(undefined)) },
+        },
+        transaction: vi.fn((callback: (t: typeof tx) => unknown) =>
+          callback(tx)
+        ),
+      };
+
+      (mockDrizzleDb.select as ReturnType<typeof vi.fn>).mockReturnValueOnce({
+        from: vi.fn(() => ({
+          where: vi.fn(() =>
+            Promise.resolve([
+              {
+                id: "sug-1",
+                type: "UPDATE",
+                status: "PENDING",
+                targetPersonId: "person-1",
+                suggestedData: { firstName: "Updated" },
+                submittedById: "user-1",
+              },
+            ])
+          ),
+        })),
+      } as any);
+
+      await reviewSuggestionData(
+        "sug-1",
+        "APPROVED",
+        undefined,
+        "admin-1",
+        db as any
+      );
+
+      expect(auditValues).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: "user-1",
+          action: "UPDATE",
+          entityId: "person-1",
+          personId: "person-1",
+          previousData: existing,
+          newData: { firstName: "Updated", suggestionId: "sug-1" },
+        })
+      );
+    });
+
+    it("should apply an approved event deletion through the events logic", async () => {
+      const { reviewSuggestionData } = await import("./suggestions");
+      const event = { id: "event-1", personId: "person-1", type: "BIRTH" };
+      const auditValues = vi.fn(() => Promise.resolve());
+      const deleteWhere = vi.fn(() => Promise.resolve());
+      const db = {
+        ...mockDrizzleDb,
+        query: {
+          events: { findFirst: vi.fn(() => Promise.resolve(event)) },
+        },
+        delete: vi.fn(() => ({ where: deleteWhere })),
+      };
+
+      (mockDrizzleDb.select as ReturnType<typeof vi.fn>).mockReturnValueOnce({
+        from: vi.fn(() => ({
+          where: vi.fn(() =>
+            Promise.resolve([
+              {
+                id: "sug-2",
+                type: "DELETE_EVENT",
+                status: "PENDING",
+                targetPersonId: null,
+                suggestedData: { eventId: "event-1" },
+                submittedById: "user-1",
+              },
+            ])
+          ),
+        })),
+      } as any);
+      (mockDrizzleDb.insert as ReturnType<typeof vi.fn>).mockReturnValueOnce({
+        values: auditValues,
+      } as any);
+
+      await reviewSuggestionData(
+        "sug-2",
+        "APPROVED",
+        undefined,
+        "admin-1",
+        db as any
+      );
+
+      expect(deleteWhere).toHaveBeenCalled();
+      expect(auditValues).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: "user-1",
+          action: "DELETE",
+          entityType: "EVENT",
+          entityId: "event-1",
+          personId: "person-1",
+          newData: { suggestionId: "sug-2" },
+        })
+      );
+    });
+
+    it("should store an approved new person's dates as dates", async () => {
+      const { reviewSuggestionData } = await import("./suggestions");
+      const personValues = vi.fn(() => Promise.resolve());
+      const detail = {
+        qualifier: "ABOUT",
+        precision: "YEAR",
+        start: { year: 1880 },
+        calendar: "GREGORIAN",
+      };
+
+      (mockDrizzleDb.select as ReturnType<typeof vi.fn>).mockReturnValueOnce({
+        from: vi.fn(() => ({
+          where: vi.fn(() =>
+            Promise.resolve([
+              {
+                id: "sug-3",
+                type: "CREATE",
+                status: "PENDING",
+                targetPersonId: null,
+                suggestedData: {
+                  firstName: "Ram",
+                  lastName: "Prasad",
+                  dateOfBirth: "1850-03-03",
+                  dateOfPassingDetail: detail,
+                },
+                submittedById: "user-1",
+              },
+            ])
+          ),
+        })),
+      } as any);
+      (mockDrizzleDb.insert as ReturnType<typeof vi.fn>)
+        .mockReturnValueOnce({ values: personValues } as any)
+        .mockReturnValueOnce({ values: vi.fn(() => Promise.resolve()) } as any);
+
+      await reviewSuggestionData(
+        "sug-3",
+        "APPROVED",
+        undefined,
+        "admin-1",
+        mockDrizzleDb as any
+      );
+
+      expect(personValues).toHaveBeenCalledWith(
+        expect.objectContaining({
+          firstName: "Ram",
+          lastName: "Prasad",
+          dateOfBirth: new Date("1850-03-03"),
+          dateOfBirthDetail: null,
+          dateOfPassing: expect.any(Date),
+          dateOfPassingDetail: detail,
+          updatedAt: expect.any(Date),
+        })
+      );
+    });
+
+    it("should reject an approved suggestion with missing data", async () => {
+      const { reviewSuggestionData } = await import("./suggestions");
+
+      (mockDrizzleDb.select as ReturnType<typeof vi.fn>).mockReturnValueOnce({
+        from: vi.fn(() => ({
+          where: vi.fn(() =>
+            Promise.resolve([
+              {
+                id: "sug-3",
+                type: "UNLINK_PLACE",
+                status: "PENDING",
+                targetPersonId: null,
+                suggestedData: {},
+                submittedById: "user-1",
+              },
+            ])
+          ),
+        })),
+      } as any);
+
+      await expect(
+        reviewSuggestionData(
+          "sug-3",
+          "APPROVED",
+          undefined,
+          "admin-1",
+          mockDrizzleDb as any
+        )
+      ).rejects.toThrow("Suggestion is missing linkId");
+    });
+
+    describe("approved media edits", () => {
+      beforeEach(() => {
+        mockUploadStagedMedia.mockClear();
+        mockDiscardStagedMedia.mockClear();
+        mockReorderMedia.mockClear();
+        mockLinkMediaToEvent.mockClear();
+        mockAttachTranscript.mockClear();
+        mockRemoveTranscript.mockClear();
+      });
+
+      function mockPendingSuggestion(
+        type: string,
+        suggestedData: Record<string, unknown>
+      ) {
+        (mockDrizzleDb.select as ReturnType<typeof vi.fn>).mockReturnValueOnce({
+          from: vi.fn(() => ({
+            where: vi.fn(() =>
+              Promise.resolve([
+                {
+                  id: "sug-4",
+                  type,
+                  status: "PENDING",
+                  targetPersonId: null,
+                  suggestedData,
+                  submittedById: "user-1",
+                },
+              ])
+            ),
+          })),
+        } as any);
+      }
+
+      async function review(status: "APPROVED" | "REJECTED") {
+        const { reviewSuggestionData } = await import("./suggestions");
+        await reviewSuggestionData(
+          "sug-4",
+          status,
+          undefined,
+          "admin-1",
+          mockDrizzleDb as any
+        );
+      }
+
+      function approve() {
+        return review("APPROVED");
+      }
+
+      const stagedUpload = {
+        personId: "person-1",
+        fileName: "wedding.jpg",
+        mimeType: "image/jpeg",
+        fileSize: 1024,
+        title: "Wedding",
+        stagedKey: "pending/3f2a.jpg",
+      };
+
+      it("should upload an approved file as the submitter's", async () => {
+        mockPendingSuggestion("UPLOAD_MEDIA", stagedUpload);
+
+        await approve();
+
+        expect(mockUploadStagedMedia).toHaveBeenCalledWith(
+          stagedUpload,
+          { userId: "user-1", suggestionId: "sug-4" },
+          mockDrizzleDb
+        );
+      });
+
+      it("should discard the held file of a rejected upload", async () => {
+        mockPendingSuggestion("UPLOAD_MEDIA", stagedUpload);
+
+        await review("REJECTED");
+
+        expect(mockDiscardStagedMedia).toHaveBeenCalledWith("pending/3f2a.jpg");
+        expect(mockUploadStagedMedia).not.toHaveBeenCalled();
+      });
+
+      it("should not upload a file from outside the held uploads", async () => {
+        mockPendingSuggestion("UPLOAD_MEDIA", {
+          ...stagedUpload,
+          stagedKey: "originals/3f2a.jpg",
+        });
+
+        await expect(approve()).rejects.toThrow("Invalid staged file key");
+        expect(mockUploadStagedMedia).not.toHaveBeenCalled();
+      });
+
+      it("should apply an approved reorder as the submitter's", async () => {
+        const ordering = [
+          { mediaId: "media-2", order: 0 },
+          { mediaId: "media-1", order: 1 },
+        ];
+        mockPendingSuggestion("REORDER_MEDIA", {
+          personId: "person-1",
+          ordering,
+        });
+
+        await approve();
+
+        expect(mockReorderMedia).toHaveBeenCalledWith(
+          "person-1",
+          ordering,
+          { userId: "user-1", suggestionId: "sug-4" },
+          mockDrizzleDb
+        );
+      });
+
+      it("should link approved media to an event as the submitter's", async () => {
+        mockPendingSuggestion("LINK_MEDIA_TO_EVENT", {
+          mediaId: "media-1",
+          eventId: "event-1",
+        });
+
+        await approve();
+
+        expect(mockLinkMediaToEvent).toHaveBeenCalledWith(
+          "media-1",
+          "event-1",
+          { userId: "user-1", suggestionId: "sug-4" },
+          mockDrizzleDb
+        );
+      });
+
+      it("should attach an approved transcript as the submitter's", async () => {
+        mockPendingSuggestion("ATTACH_MEDIA_TRANSCRIPT", {
+          mediaId: "media-1",
+          mimeType: "text/vtt",
+          base64Data: "V0VCVlRU",
+        });
+
+        await approve();
+
+        expect(mockAttachTranscript).toHaveBeenCalledWith(
+          "media-1",
+          "text/vtt",
+          "V0VCVlRU",
+          { userId: "user-1", suggestionId: "sug-4" },
+          mockDrizzleDb
+        );
+      });
+
+      it("should remove a transcript on approval", async () => {
+        mockPendingSuggestion("REMOVE_MEDIA_TRANSCRIPT", {
+          mediaId: "media-1",
+        });
+
+        await approve();
+
+        expect(mockRemoveTranscript).toHaveBeenCalledWith(
+          "media-1",
+          { userId: "user-1", suggestionId: "sug-4" },
+          mockDrizzleDb
+        );
+      });
+
+      it("should reject an approved upload without a held file", async () => {
+        mockPendingSuggestion("UPLOAD_MEDIA", { personId: "person-1" });
+
+        await expect(approve()).rejects.toThrow();
+        expect(mockUploadStagedMedia).not.toHaveBeenCalled();
+      });
+    });
+
     it("should throw error when suggestion already reviewed", async () => {
       const { reviewSuggestionData } = await import("./suggestions");
 
@@ -254,6 +653,76 @@ describe("Suggestions Business Logic", () => {
     });
   });
 
+  describe("requiresEditApprovalData", () => {
+    const dbWithSettings = (settings: unknown) =>
+      ({
+        query: {
+          familySettings: {
+            findFirst: vi.fn(() => Promise.resolve(settings)),
+          },
+        },
+      }) as any;
+
+    it("should never hold back admins", async () => {
+      const db = dbWithSettings({ requireApprovalForEdits: true });
+
+      expect(await requiresEditApprovalData("ADMIN", db)).toBe(false);
+      expect(db.query.familySettings.findFirst).not.toHaveBeenCalled();
+    });
+
+    it("should require approval for members when the setting is on", async () => {
+      expect(
+        await requiresEditApprovalData(
+          "MEMBER",
+          dbWithSettings({ requireApprovalForEdits: true })
+        )
+      ).toBe(true);
+    });
+
+    it("should let members edit directly when the setting is off", async () => {
+      expect(
+        await requiresEditApprovalData(
+          "MEMBER",
+          dbWithSettings({ requireApprovalForEdits: false })
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe("submitEditForApprovalData", () => {
+    it("should create a pending suggestion for the edit", async () => {
+      const values = vi.fn(() => ({
+        returning: vi.fn(() =>
+          Promise.resolve([
+            { id: "sug-1", type: "UPDATE_EVENT", status: "PENDING" },
+          ])
+        ),
+      }));
+      (mockDrizzleDb.insert as ReturnType<typeof vi.fn>).mockReturnValueOnce({
+        values,
+      } as any);
+
+      const result = await submitEditForApprovalData(
+        "UPDATE_EVENT",
+        null,
+        { id: "event-1", description: "Baptised" },
+        "user-1",
+        mockDrizzleDb as any
+      );
+
+      expect(result).toEqual({ pendingApproval: true, suggestionId: "sug-1" });
+      expect(values).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "UPDATE_EVENT",
+          targetPersonId: null,
+          suggestedData: { id: "event-1", description: "Baptised" },
+          submittedById: "user-1",
+          status: "PENDING",
+        })
+      );
+    });
+  });
+
   describe("applySuggestionData", () => {
     it("should handle CREATE suggestion type", () => {
       const suggestion = {
@@ -1,10 +1,48 @@
-import { createPaginationMeta } from "@vamsa/schemas";
+import {
+  attachMediaTranscriptSchema,
+  createPaginationMeta,
+  eventCreateSchema,
+  eventParticipantCreateSchema,
+  eventParticipantRemoveSchema,
+  eventUpdateSchema,
+  linkMediaToEventSchema,
+  mediaMetadataSchema,
+  mediaReorderSchema,
+  placePersonLinkCreateSchema,
+  relationshipCreateSchema,
+  relationshipUpdateSchema,
+  setPrimaryPhotoSchema,
+  stagedMediaUploadSchema,
+  tagMediaRegionSchema,
+} from "@vamsa/schemas";
 import { and, asc, count, desc, eq } from "drizzle-orm";
+import { resolveDateColumns, toGenealogicalDate } from "@vamsa/lib";
 import { drizzleDb, drizzleSchema } from "../db";
+import {
+  addEventParticipantData,
+  createEventData,
+  deleteEventData,
+  removeEventParticipantData,
+  updateEventData,
+} from "./events";
 import {
   notifySuggestionCreated,
   notifySuggestionUpdated,
 } from "./notifications";
+import { logAuditAction, updatePersonData } from "./persons";
+import {
+  linkPersonToPlaceData,
+  unlinkPersonFromPlaceData,
+  updatePlacePersonLinkData,
+} from "./places";
+import {
+  createRelationshipData,
+  deleteRelationshipData,
+  updateRelationshipData,
+} from "./relationships";
+import { getFamilySettingsData } from "./settings";
+import { emitWebhookEvent } from "./webhooks";
+import type { SuggestionType, UserRole } from "@vamsa/schemas";
 
 /** Type for the database instance (for DI) */
 export type SuggestionsDb = typeof drizzleDb;
@@ -33,6 +71,8 @@ export interface SuggestionListResult {
     submittedAt: string;
     reviewedAt: string | null;
     reviewNote: string | null;
+    /** Source the suggestion was read from, for extracted facts */
+    sourceId: string | null;
     targetPerson: {
       id: string;
       firstName: string;
@@ -68,6 +108,14 @@ export interface SuggestionReviewResult {
   success: boolean;
 }
 
+/**
+ * Returned instead of the change when an edit was submitted for review
+ */
+export interface PendingApprovalResult {
+  pendingApproval: true;
+  suggestionId: string;
+}
+
 /**
  * Query suggestions with pagination and optional status filtering
  * @param options - List options including page, limit, sorting, and status filter
@@ -154,6 +202,7 @@ export async function listSuggestionsData(
         submittedAt: suggestion.submittedAt.toISOString(),
         reviewedAt: suggestion.reviewedAt?.toISOString() ?? null,
         reviewNote: suggestion.reviewNote,
+        sourceId: suggestion.sourceId,
         targetPerson: targetPerson
           ? {
               id: targetPerson.id,
@@ -203,8 +252,8 @@ export async function getPendingSuggestionsCountData(
 
 /**
  * Create a new suggestion
- * @param type - Type of suggestion (CREATE, UPDATE, DELETE, ADD_RELATIONSHIP)
- * @param targetPersonId - ID of target person (optional for CREATE/ADD_RELATIONSHIP)
+ * @param type - Type of suggestion (person, relationship, event, place link or media change)
+ * @param targetPersonId - ID of target person (optional for CREATE and record changes)
  * @param suggestedData - JSON data for the suggestion
  * @param reason - Optional reason for the suggestion
  * @param userId - ID of user submitting the suggestion
@@ -212,7 +261,7 @@ export async function getPendingSuggestionsCountData(
  * @returns Created suggestion with ID, type, and status
  */
 export async function createSuggestionData(
-  type: "CREATE" | "UPDATE" | "DELETE" | "ADD_RELATIONSHIP",
+  type: SuggestionType,
   targetPersonId: string | null | undefined,
   suggestedData: Record<string, unknown>,
   reason: string | undefined,
@@ -249,32 +298,137 @@ export async function createSuggestionData(
   return result[0];
 }
 
+/**
+ * Check whether a user's edits must be submitted as suggestions, which is
+ * the case for everyone but admins while requireApprovalForEdits is on
+ * @param role - Role of the user making the edit
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @returns True if the edit has to go through review
+ */
+export async function requiresEditApprovalData(
+  role: UserRole,
+  db: SuggestionsDb = drizzleDb
+): Promise<boolean> {
+  if (role === "ADMIN") {
+    return false;
+  }
+  const settings = await getFamilySettingsData(db);
+  return settings.requireApprovalForEdits;
+}
+
+/**
+ * Submit an edit for review instead of applying it
+ * @param type - Suggestion type of the edit
+ * @param targetPersonId - Person the edit is about, if known
+ * @param suggestedData - Input the edit is applied with once approved
+ * @param userId - ID of user making the edit
+ * @param db - Optional database client (defaults to drizzleDb)
+ * @returns The pending suggestion's ID
+ */
+export async function submitEditForApprovalData(
+  type: SuggestionType,
+  targetPersonId: string | null | undefined,
+  suggestedData: Record<string, unknown>,
+  userId: string,
+  db: SuggestionsDb = drizzleDb
+): Promise<PendingApprovalResult> {
+  const suggestion = await createSuggestionData(
+    type,
+    targetPersonId,
+    suggestedData,
+    undefined,
+    userId,
+    db
+  );
+  return { pendingApproval: true, suggestionId: suggestion.id };
+}
+
+/**
+ * Read a required ID from suggested data
+ * @throws Error if the ID is missing
+ */
+function getSuggestedId(data: Record<string, unknown>, key: string): string {
+  const value = data[key];
+  if (typeof value !== "string" || !value) {
+    throw new Error(`Suggestion is missing ${key}`);
+  }
+  return value;
+}
+
 /**
  * Apply a suggestion (internal helper)
+ *
+ * Changes are audited as made by the submitter, with the suggestion ID so
+ * history can show they came through review. Edits submitted while
+ * requireApprovalForEdits is on are applied through the same business
+ * functions a direct edit uses, with their payload validated again.
+ *
  * @param suggestion - Suggestion data to apply
  * @param db - Database client
  * @throws Error if suggestion type is invalid or required data is missing
  */
 async function applySuggestionData(
   suggestion: {
+    id: string;
     type: string;
     targetPersonId: string | null;
     suggestedData: unknown;
+    submittedById: string;
   },
   db: SuggestionsDb
 ): Promise<void> {
-  const data = suggestion.suggestedData as Record<string, unknown>;
+  const data = (suggestion.suggestedData ?? {}) as Record<string, unknown>;
+  const actor = {
+    userId: suggestion.submittedById,
+    suggestionId: suggestion.id,
+  };
+
+  const getTargetPerson = async (personId: string) => {
+    const rows = await db
+      .select()
+      .from(drizzleSchema.persons)
+      .where(eq(drizzleSchema.persons.id, personId));
+    return rows[0] ?? null;
+  };
 
   switch (suggestion.type) {
     case "CREATE": {
       // For person creation, ensure we have required fields
+      const {
+        dateOfBirth,
+        dateOfBirthDetail,
+        dateOfPassing,
+        dateOfPassingDetail,
+        ...fields
+      } = data;
+      const birth = resolveDateColumns(
+        dateOfBirth ? new Date(dateOfBirth as string) : null,
+        toGenealogicalDate(dateOfBirthDetail)
+      );
+      const passing = resolveDateColumns(
+        dateOfPassing ? new Date(dateOfPassing as string) : null,
+        toGenealogicalDate(dateOfPassingDetail)
+      );
       const personData = {
-        id: (data.id as string) || crypto.randomUUID(),
-        firstName: (data.firstName as string) || "",
-        lastName: (data.lastName as string) || "",
-        ...data,
-      } as unknown;
+        id: data.id || crypto.randomUUID(),
+        firstName: data.firstName || "",
+        lastName: data.lastName || "",
+        ...fields,
+        dateOfBirth: birth.date,
+        dateOfBirthDetail: birth.detail,
+        dateOfPassing: passing.date,
+        dateOfPassingDetail: passing.detail,
+        updatedAt: new Date(),
+      } as Record<string, unknown>;
       await db.insert(drizzleSchema.persons).values(personData as never);
+      await logAuditAction(
+        actor,
+        "CREATE",
+        personData.id as string,
+        null,
+        data,
+        db
+      );
       break;
     }
 
@@ -282,13 +436,17 @@ async function applySuggestionData(
       if (!suggestion.targetPersonId) {
         throw new Error("Target person required for update");
       }
-      // Exclude id from update data
+      // Exclude id from update data. Not re-parsed, as schema defaults
+      // would overwrite fields the suggestion leaves out.
       const updateData = { ...data };
       delete updateData.id;
-      await db
-        .update(drizzleSchema.persons)
-        .set(updateData)
-        .where(eq(drizzleSchema.persons.id, suggestion.targetPersonId));
+      await updatePersonData(
+        suggestion.targetPersonId,
+        updateData,
+        actor,
+        undefined,
+        db
+      );
       break;
     }
 
@@ -296,24 +454,188 @@ async function applySuggestionData(
       if (!suggestion.targetPersonId) {
         throw new Error("Target person required for delete");
       }
+      const existing = await getTargetPerson(suggestion.targetPersonId);
       await db
         .delete(drizzleSchema.persons)
         .where(eq(drizzleSchema.persons.id, suggestion.targetPersonId));
+      await logAuditAction(
+        actor,
+        "DELETE",
+        suggestion.targetPersonId,
+        existing,
+        null,
+        db
+      );
       break;
     }
 
     case "ADD_RELATIONSHIP": {
-      // For relationship creation, ensure we have required fields
-      const relationshipData = {
-        id: (data.id as string) || crypto.randomUUID(),
-        personAId: (data.personAId as string) || "",
-        personBId: (data.personBId as string) || "",
-        type: (data.type as string) || "SIBLING",
-        ...data,
-      } as unknown;
-      await db
-        .insert(drizzleSchema.relationships)
-        .values(relationshipData as never);
+      // Older suggestions named the two people personAId and personBId
+      const { personAId, personBId, ...rest } = data;
+      await createRelationshipData(
+        relationshipCreateSchema.parse({
+          personId: personAId,
+          relatedPersonId: personBId,
+          type: "SIBLING",
+          ...rest,
+        }),
+        actor,
+        db
+      );
+      break;
+    }
+
+    case "UPDATE_RELATIONSHIP": {
+      const { id: _id, ...updates } = data;
+      await updateRelationshipData(
+        getSuggestedId(data, "id"),
+        relationshipUpdateSchema.parse(updates),
+        actor,
+        db
+      );
+      break;
+    }
+
+    case "DELETE_RELATIONSHIP":
+      await deleteRelationshipData(getSuggestedId(data, "id"), actor, db);
+      break;
+
+    case "CREATE_EVENT":
+      await createEventData(eventCreateSchema.parse(data), actor, db);
+      break;
+
+    case "UPDATE_EVENT": {
+      const { id, ...updates } = eventUpdateSchema.parse(data);
+      await updateEventData(id, updates, actor, db);
+      break;
+    }
+
+    case "DELETE_EVENT":
+      await deleteEventData(getSuggestedId(data, "eventId"), actor, db);
+      break;
+
+    case "ADD_EVENT_PARTICIPANT":
+      await addEventParticipantData(
+        eventParticipantCreateSchema.parse(data),
+        actor,
+        db
+      );
+      break;
+
+    case "REMOVE_EVENT_PARTICIPANT":
+      await removeEventParticipantData(
+        eventParticipantRemoveSchema.parse(data),
+        actor,
+        db
+      );
+      break;
+
+    case "LINK_PLACE":
+      await linkPersonToPlaceData(
+        placePersonLinkCreateSchema.parse(data),
+        actor,
+        db
+      );
+      break;
+
+    case "UPDATE_PLACE_LINK": {
+      const { linkId: _linkId, ...updates } = data;
+      await updatePlacePersonLinkData(
+        getSuggestedId(data, "linkId"),
+        updates,
+        actor,
+        db
+      );
+      break;
+    }
+
+    case "UNLINK_PLACE":
+      await unlinkPersonFromPlaceData(
+        getSuggestedId(data, "linkId"),
+        actor,
+        db
+      );
+      break;
+
+    // Media is loaded on demand to keep sharp out of this module's imports
+    case "UPDATE_MEDIA": {
+      const { updateMediaMetadataLogic } = await import("./media");
+      const metadata = mediaMetadataSchema.parse(data);
+      await updateMediaMetadataLogic(
+        metadata.mediaId,
+        metadata.title,
+        metadata.description,
+        metadata.caption,
+        metadata.source,
+        metadata.privacy,
+        actor,
+        db
+      );
+      break;
+    }
+
+    case "DELETE_MEDIA": {
+      const { deleteMediaLogic } = await import("./media");
+      await deleteMediaLogic(getSuggestedId(data, "mediaId"), actor, db);
+      break;
+    }
+
+    case "SET_PRIMARY_PHOTO": {
+      const { setPrimaryPhotoLogic } = await import("./media");
+      const { personId, mediaId } = setPrimaryPhotoSchema.parse(data);
+      await setPrimaryPhotoLogic(personId, mediaId, actor, db);
+      break;
+    }
+
+    case "TAG_MEDIA_REGION": {
+      const { tagMediaRegionLogic } = await import("./media");
+      const { mediaId, personId, region } = tagMediaRegionSchema.parse(data);
+      await tagMediaRegionLogic(mediaId, personId, region, actor, db);
+      break;
+    }
+
+    case "UPLOAD_MEDIA": {
+      const { uploadStagedMediaLogic } = await import("./media");
+      const upload = stagedMediaUploadSchema.parse(data);
+      await uploadStagedMediaLogic(upload, actor, db);
+      break;
+    }
+
+    case "REORDER_MEDIA": {
+      const { reorderMediaLogic } = await import("./media");
+      const { personId, ordering } = mediaReorderSchema.parse(data);
+      await reorderMediaLogic(personId, ordering, actor, db);
+      break;
+    }
+
+    case "LINK_MEDIA_TO_EVENT": {
+      const { linkMediaToEventLogic } = await import("./media");
+      const { mediaId, eventId } = linkMediaToEventSchema.parse(data);
+      await linkMediaToEventLogic(mediaId, eventId, actor, db);
+      break;
+    }
+
+    case "ATTACH_MEDIA_TRANSCRIPT": {
+      const { attachMediaTranscriptLogic } = await import("./media");
+      const { mediaId, mimeType, base64Data } =
+        attachMediaTranscriptSchema.parse(data);
+      await attachMediaTranscriptLogic(
+        mediaId,
+        mimeType,
+        base64Data,
+        actor,
+        db
+      );
+      break;
+    }
+
+    case "REMOVE_MEDIA_TRANSCRIPT": {
+      const { removeMediaTranscriptLogic } = await import("./media");
+      await removeMediaTranscriptLogic(
+        getSuggestedId(data, "mediaId"),
+        actor,
+        db
+      );
       break;
     }
 
@@ -371,8 +693,31 @@ export async function reviewSuggestionData(
     })
     .where(eq(drizzleSchema.suggestions.id, suggestionId));
 
+  // A rejected upload's file is held in storage until now
+  if (status === "REJECTED" && suggestion.type === "UPLOAD_MEDIA") {
+    const { discardStagedMediaLogic } = await import("./media");
+    const upload = stagedMediaUploadSchema.safeParse(suggestion.suggestedData);
+    if (upload.success) {
+      await discardStagedMediaLogic(upload.data.stagedKey);
+    }
+  }
+
   // Send notification to submitter about review outcome
   await notifySuggestionUpdated(suggestionId, status);
 
+  await emitWebhookEvent(
+    "suggestion.reviewed",
+    {
+      suggestionId,
+      type: suggestion.type,
+      status,
+      targetPersonId: suggestion.targetPersonId,
+      submittedById: suggestion.submittedById,
+      reviewedById: userId,
+      reviewNote: reviewNote ?? null,
+    },
+    db
+  );
+
   return { success: true };
 }
@@ -7,6 +7,8 @@
  * - enforceRotationPolicy: Policy enforcement with mocked DB
  * - rotateToken: Token rotation with grace period
  * - revokeToken: Immediate token revocation
+ * - generateApiToken / hashApiToken: Personal access token generation
+ * - rotateApiToken: Personal access token rotation with grace period
  *
  * The module under test uses dynamic imports for @vamsa/api and drizzle-orm,
  * allowing mock.module() to intercept them reliably.
@@ -35,6 +37,9 @@ const mockDrizzleDb = {
       findFirst: vi.fn(() => Promise.resolve(null)),
       findMany: vi.fn(() => Promise.resolve([])),
     },
+    apiTokens: {
+      findFirst: vi.fn(() => Promise.resolve(null)),
+    },
   },
   update: vi.fn(() => ({
     set: vi.fn(() => ({
@@ -52,8 +57,11 @@ const mockDrizzleDb = {
 import {
   daysSinceCreation,
   enforceRotationPolicy,
+  generateApiToken,
   generateSecureToken,
+  hashApiToken,
   revokeToken,
+  rotateApiToken,
   rotateToken,
 } from "./token-rotation";
 
@@ -314,4 +322,105 @@ describe("Token Rotation Functions", () => {
       expect(result.isActive).toBe(false);
     });
   });
+
+  describe("generateApiToken", () => {
+    it("should prefix the token and keep a short display prefix", () => {
+      const { token, tokenPrefix } = generateApiToken();
+
+      expect(token).toMatch(/^vamsa_pat_[A-Za-z0-9_-]{43}$/);
+      expect(tokenPrefix).toBe(token.slice(0, 16));
+    });
+
+    it("should hash the token with SHA-256", () => {
+      const { token, tokenHash } = generateApiToken();
+
+      expect(tokenHash).toBe(hashApiToken(token));
+      expect(tokenHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(hashApiToken(`${token}x`)).not.toBe(tokenHash);
+    });
+  });
+
+  describe("rotateApiToken", () => {
+    const DAY_MS = 24 * 60 * 60 * 1000;
+
+    it("should keep the old token for the grace period and the lifetime for the new one", async () => {
+      const createdAt = new Date(Date.now() - 10 * DAY_MS);
+      const expiresAt = new Date(createdAt.getTime() + 90 * DAY_MS);
+      (
+        mockDrizzleDb.query.apiTokens.findFirst as ReturnType<typeof vi.fn>
+      ).mockResolvedValueOnce({
+        id: "old-id",
+        userId: "user-1",
+        name: "Sync",
+        scopes: ["persons:read"],
+        createdAt,
+        rotatedAt: null,
+        expiresAt,
+      });
+      mockInsertReturning.mockResolvedValueOnce([{ id: "new-id" }]);
+
+      const insertValues = vi.fn(() => ({ returning: mockInsertReturning }));
+      (mockDrizzleDb.insert as ReturnType<typeof vi.fn>).mockReturnValueOnce({
+        values: insertValues,
+      });
+      const updateSet = vi.fn(() => ({
+        where: vi.fn(() => Promise.resolve()),
+      }));
+      (mockDrizzleDb.update as ReturnType<typeof vi.fn>).mockReturnValueOnce({
+        set: updateSet,
+      });
+
+      const result = await rotateApiToken("old-id", mockDrizzleDb as any);
+
+      expect(result.apiToken.id).toBe("new-id");
+      expect(result.token).toMatch(/^vamsa_pat_/);
+
+      const inserted = (insertValues.mock.calls[0] as Array<any>)[0];
+      expect(inserted.scopes).toEqual(["persons:read"]);
+      expect(inserted.rotatedFrom).toBe("old-id");
+      expect(inserted.tokenHash).toBe(hashApiToken(result.token));
+      const lifetimeDays =
+        (inserted.expiresAt.getTime() - inserted.rotatedAt.getTime()) / DAY_MS;
+      expect(Math.round(lifetimeDays)).toBe(90);
+
+      const updated = (updateSet.mock.calls[0] as Array<any>)[0];
+      expect(updated.name).toBe("Sync (rotated)");
+      const graceDays = (updated.expiresAt.getTime() - Date.now()) / DAY_MS;
+      expect(Math.round(graceDays)).toBe(30);
+    });
+
+    it("should not extend an old token that expires before the grace period ends", async () => {
+      const expiresAt = new Date(Date.now() + 5 * DAY_MS);
+      (
+        mockDrizzleDb.query.apiTokens.findFirst as ReturnType<typeof vi.fn>
+      ).mockResolvedValueOnce({
+        id: "old-id",
+        userId: "user-1",
+        name: "Sync",
+        scopes: ["persons:read"],
+        createdAt: new Date(Date.now() - 25 * DAY_MS),
+        rotatedAt: null,
+        expiresAt,
+      });
+      mockInsertReturning.mockResolvedValueOnce([{ id: "new-id" }]);
+      const updateSet = vi.fn(() => ({
+        where: vi.fn(() => Promise.resolve()),
+      }));
+      (mockDrizzleDb.update as ReturnType<typeof vi.fn>).mockReturnValueOnce({
+        set: updateSet,
+      });
+
+      await rotateApiToken("old-id", mockDrizzleDb as any);
+
+      expect((updateSet.mock.calls[0] as Array<any>)[0].expiresAt).toBe(
+        expiresAt
+      );
+    });
+
+    it("should throw error if token not found", async () => {
+      await expect(
+        rotateApiToken("nonexistent", mockDrizzleDb as any)
+      ).rejects.toThrow("API token not found");
+    });
+  });
 });
@@ -9,6 +9,15 @@ type RotationEvent = "password_change" | "manual" | "annual_check";
 /** Type for the database instance (for DI) */
 export type TokenRotationDb = typeof drizzleDb;
 
+/** Days a rotated token keeps working so clients can switch over */
+export const ROTATION_GRACE_PERIOD_DAYS = 30;
+
+/** Prefix of personal access tokens, so they are recognisable in configs and logs */
+export const API_TOKEN_PREFIX = "vamsa_pat_";
+
+/** Characters of a personal access token kept in plain text for display */
+const API_TOKEN_DISPLAY_LENGTH = API_TOKEN_PREFIX.length + 6;
+
 /**
  * Generate cryptographically secure random token
  */
@@ -16,6 +25,30 @@ export function generateSecureToken(): string {
   return crypto.randomBytes(32).toString("base64url");
 }
 
+/**
+ * Hash a personal access token for storage and lookup
+ */
+export function hashApiToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Generate a new personal access token with its hash and display prefix.
+ * The token itself is only ever returned to the user once.
+ */
+export function generateApiToken(): {
+  token: string;
+  tokenHash: string;
+  tokenPrefix: string;
+} {
+  const token = `${API_TOKEN_PREFIX}${generateSecureToken()}`;
+  return {
+    token,
+    tokenHash: hashApiToken(token),
+    tokenPrefix: token.slice(0, API_TOKEN_DISPLAY_LENGTH),
+  };
+}
+
 /**
  * Calculate days since a date
  */
@@ -105,11 +138,11 @@ export async function rotateToken(
     })
     .returning();
 
-  // Grace period: old token valid for 30 days
+  // Grace period: old token stays valid while clients switch over
   await db
     .update(drizzleSchema.calendarTokens)
     .set({
-      expiresAt: addDays(new Date(), 30),
+      expiresAt: addDays(new Date(), ROTATION_GRACE_PERIOD_DAYS),
       name: oldToken.name ? `${oldToken.name} (rotated)` : null,
     })
     .where(eq(drizzleSchema.calendarTokens.id, oldTokenId));
@@ -117,6 +150,63 @@ export async function rotateToken(
   return newToken;
 }
 
+/**
+ * Rotate a personal access token with grace period
+ *
+ * The new token keeps the name, scopes and lifetime of the old one. The old
+ * token keeps working for the grace period, or until it would have expired
+ * anyway if that is sooner.
+ *
+ * @param oldTokenId - ID of the token to rotate
+ * @param db - Database instance (defaults to drizzleDb for production)
+ * @returns The new token row and its plain-text token
+ */
+export async function rotateApiToken(
+  oldTokenId: string,
+  db: TokenRotationDb = drizzleDb
+) {
+  const oldToken = await db.query.apiTokens.findFirst({
+    where: eq(drizzleSchema.apiTokens.id, oldTokenId),
+  });
+
+  if (!oldToken) {
+    throw new Error("API token not found");
+  }
+
+  const now = new Date();
+  const lifetimeMs =
+    oldToken.expiresAt.getTime() -
+    (oldToken.rotatedAt ?? oldToken.createdAt).getTime();
+  const { token, tokenHash, tokenPrefix } = generateApiToken();
+
+  const [newToken] = await db
+    .insert(drizzleSchema.apiTokens)
+    .values({
+      id: crypto.randomUUID(),
+      userId: oldToken.userId,
+      name: oldToken.name,
+      tokenHash,
+      tokenPrefix,
+      scopes: oldToken.scopes,
+      expiresAt: new Date(now.getTime() + lifetimeMs),
+      rotatedFrom: oldTokenId,
+      rotatedAt: now,
+      isActive: true,
+    })
+    .returning();
+
+  const graceEnd = addDays(now, ROTATION_GRACE_PERIOD_DAYS);
+  await db
+    .update(drizzleSchema.apiTokens)
+    .set({
+      expiresAt: graceEnd < oldToken.expiresAt ? graceEnd : oldToken.expiresAt,
+      name: `${oldToken.name} (rotated)`,
+    })
+    .where(eq(drizzleSchema.apiTokens.id, oldTokenId));
+
+  return { apiToken: newToken, token };
+}
+
 /**
  * Revoke a token immediately (no grace period)
  * @param tokenId - ID of the token to revoke
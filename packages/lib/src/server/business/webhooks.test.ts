@@ -0,0 +1,421 @@
+/**
+ * Unit tests for webhook business logic
+ *
+ * Tests cover:
+ * - signWebhookPayload: HMAC signatures receivers can verify
+ * - createWebhookData / rotateWebhookSecretData: Secrets are returned once
+ * - emitWebhookEvent: Queuing deliveries for subscribed endpoints
+ * - processWebhookDeliveries: Claiming, sending, retrying with backoff, and giving up
+ * - sendTestWebhookData: Test deliveries are sent once and not retried
+ */
+
+import { createHmac } from "node:crypto";
+import { describe, expect, it, vi } from "vitest";
+import {
+  WEBHOOK_MAX_ATTEMPTS,
+  createWebhookData,
+  deleteWebhookData,
+  emitWebhookEvent,
+  processWebhookDeliveries,
+  rotateWebhookSecretData,
+  sendTestWebhookData,
+  signWebhookPayload,
+} from "./webhooks";
+
+function webhookRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "hook-1",
+    url: "https://wiki.example.com/hooks",
+    description: null,
+    secret: "whsec_test",
+    events: ["person.created"],
+    isActive: true,
+    createdById: "admin-1",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function deliveryRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "delivery-1",
+    webhookId: "hook-1",
+    event: "person.created",
+    payload: {
+      id: "delivery-1",
+      event: "person.created",
+      createdAt: "2026-01-01T00:00:00.000Z",
+      data: { personId: "person-1" },
+    },
+    status: "PENDING",
+    attempts: 0,
+    nextAttemptAt: new Date(),
+    lastAttemptAt: null,
+    responseStatus: null,
+    responseBody: null,
+    error: null,
+    createdAt: new Date(),
+    deliveredAt: null,
+    ...overrides,
+  };
+}
+
+function createDb(
+  options: {
+    webhooks?: Array<unknown>;
+    webhook?: unknown;
+    deliveries?: Array<unknown>;
+  } = {}
+) {
+  const insertValues = vi.fn((values: any) => ({
+    returning: vi.fn(async () => [
+      Array.isArray(values) ? values[0] : { ...deliveryRow(), ...values },
+    ]),
+  }));
+  const updateSet = vi.fn((values: Record<string, unknown>) => ({
+    where: vi.fn(() =>
+      Object.assign(Promise.resolve(), {
+        returning: vi.fn(async () => [{ ...deliveryRow(), ...values }]),
+      })
+    ),
+  }));
+  const deleteWhere = vi.fn(() => Promise.resolve());
+
+  const db: any = {
+    insert: vi.fn(() => ({ values: insertValues })),
+    update: vi.fn(() => ({ set: updateSet })),
+    delete: vi.fn(() => ({ where: deleteWhere })),
+    transaction: vi.fn((fn: (tx: unknown) => Promise<unknown>) => fn(db)),
+    query: {
+      webhooks: {
+        findFirst: vi.fn(async () => options.webhook ?? null),
+        findMany: vi.fn(async () => options.webhooks ?? []),
+      },
+      webhookDeliveries: {
+        findMany: vi.fn(async () => options.deliveries ?? []),
+      },
+    },
+  };
+
+  return { db, insertValues, updateSet, deleteWhere };
+}
+
+function respond(status: number, body = "") {
+  // Responses with statuses such as 204 must not have a body
+  return vi.fn(async () => new Response(body || null, { status }));
+}
+
+describe("Webhooks Business Logic", () => {
+  describe("signWebhookPayload", () => {
+    it("should sign the timestamp and body with the secret", () => {
+      const body = JSON.stringify({ event: "person.created" });
+      const expected = createHmac("sha256", "whsec_test")
+        .update(`1700000000.${body}`)
+        .digest("hex");
+
+      expect(signWebhookPayload("whsec_test", 1700000000, body)).toBe(
+        `sha256=${expected}`
+      );
+    });
+  });
+
+  describe("createWebhookData", () => {
+    it("should return the secret once and leave it out of the webhook", async () => {
+      const { db, insertValues } = createDb();
+
+      const result = await createWebhookData(
+        {
+          url: "https://wiki.example.com/hooks",
+          events: ["person.created", "media.uploaded"],
+        },
+        "admin-1",
+        db
+      );
+
+      expect(result.secret).toMatch(/^whsec_/);
+      expect(insertValues).toHaveBeenCalledWith(
+        expect.objectContaining({
+          secret: result.secret,
+          events: ["person.created", "media.uploaded"],
+          createdById: "admin-1",
+        })
+      );
+      expect(result.webhook).not.toHaveProperty("secret");
+    });
+  });
+
+  describe("rotateWebhookSecretData", () => {
+    it("should store and return a new secret", async () => {
+      const { db, updateSet } = createDb({ webhook: webhookRow() });
+
+      const result = await rotateWebhookSecretData("hook-1", db);
+
+      expect(result.secret).toMatch(/^whsec_/);
+      expect(result.secret).not.toBe("whsec_test");
+      expect(updateSet).toHaveBeenCalledWith(
+        expect.objectContaining({ secret: result.secret })
+      );
+      expect(result.webhook).not.toHaveProperty("secret");
+    });
+
+    it("should throw when the webhook does not exist", async () => {
+      const { db } = createDb();
+
+      await expect(rotateWebhookSecretData("missing", db)).rejects.toThrow(
+        "Webhook not found"
+      );
+    });
+  });
+
+  describe("deleteWebhookData", () => {
+    it("should delete the webhook and its deliveries", async () => {
+      const { db, deleteWhere } = createDb({ webhook: webhookRow() });
+
+      const result = await deleteWebhookData("hook-1", db);
+
+      expect(result).toEqual({ success: true, deletedId: "hook-1" });
+      expect(deleteWhere).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("emitWebhookEvent", () => {
+    it("should queue a delivery for each subscribed endpoint", async () => {
+      const { db, insertValues } = createDb({
+        webhooks: [
+          webhookRow({ id: "hook-1", events: ["person.created"] }),
+          webhookRow({ id: "hook-2", events: ["media.uploaded"] }),
+          webhookRow({
+            id: "hook-3",
+            events: ["person.created", "person.deleted"],
+          }),
+        ],
+      });
+
+      const queued = await emitWebhookEvent(
+        "person.created",
+        { personId: "person-1" },
+        db
+      );
+
+      expect(queued).toBe(2);
+      const rows = (insertValues.mock.calls[0] as Array<any>)[0];
+      expect(rows.map((row: any) => row.webhookId)).toEqual([
+        "hook-1",
+        "hook-3",
+      ]);
+      expect(rows[0]).toMatchObject({
+        event: "person.created",
+        status: "PENDING",
+        attempts: 0,
+      });
+      expect(rows[0].payload).toMatchObject({
+        id: rows[0].id,
+        event: "person.created",
+        data: { personId: "person-1" },
+      });
+    });
+
+    it("should not write anything without subscribers", async () => {
+      const { db } = createDb({
+        webhooks: [webhookRow({ events: ["media.uploaded"] })],
+      });
+
+      expect(await emitWebhookEvent("person.deleted", {}, db)).toBe(0);
+      expect(db.insert).not.toHaveBeenCalled();
+    });
+
+    it("should swallow errors so the change itself succeeds", async () => {
+      const { db } = createDb();
+      db.query.webhooks.findMany = vi.fn(async () => {
+        throw new Error("connection lost");
+      });
+
+      await expect(emitWebhookEvent("person.created", {}, db)).resolves.toBe(0);
+    });
+  });
+
+  describe("processWebhookDeliveries", () => {
+    it("should send signed deliveries and mark them succeeded", async () => {
+      const { db, updateSet } = createDb({
+        deliveries: [deliveryRow()],
+        webhooks: [webhookRow()],
+      });
+      const fetchFn = respond(200, "ok");
+
+      const result = await processWebhookDeliveries(db, fetchFn);
+
+      expect(result).toEqual({ succeeded: 1, retrying: 0, failed: 0 });
+      const [url, init] = (fetchFn.mock.calls[0] as Array<any>) ?? [];
+      expect(url).toBe("https://wiki.example.com/hooks");
+      expect(init.method).toBe("POST");
+      expect(init.headers["X-Vamsa-Event"]).toBe("person.created");
+      expect(init.headers["X-Vamsa-Delivery"]).toBe("delivery-1");
+      expect(init.headers["X-Vamsa-Signature"]).toBe(
+        signWebhookPayload(
+          "whsec_test",
+          Number(init.headers["X-Vamsa-Timestamp"]),
+          init.body
+        )
+      );
+      expect(JSON.parse(init.body)).toEqual(deliveryRow().payload);
+      expect(updateSet).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: "SUCCEEDED",
+          attempts: 1,
+          responseStatus: 200,
+          nextAttemptAt: null,
+        })
+      );
+    });
+
+    it("should schedule a retry with backoff after a failure", async () => {
+      const { db, updateSet } = createDb({
+        deliveries: [deliveryRow({ attempts: 1 })],
+        webhooks: [webhookRow()],
+      });
+      const before = Date.now();
+
+      const result = await processWebhookDeliveries(db, respond(503));
+
+      expect(result).toEqual({ succeeded: 0, retrying: 1, failed: 0 });
+      // The first update claims the delivery
+      const update = (updateSet.mock.calls[1] as Array<any>)[0];
+      expect(update.status).toBe("PENDING");
+      expect(update.attempts).toBe(2);
+      expect(update.error).toContain("503");
+      // Second retry waits 5 minutes
+      expect(update.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(
+        before + 300_000
+      );
+    });
+
+    it("should retry network errors", async () => {
+      const { db, updateSet } = createDb({
+        deliveries: [deliveryRow()],
+        webhooks: [webhookRow()],
+      });
+      const fetchFn = vi.fn(async () => {
+        throw new Error("ECONNREFUSED");
+      });
+
+      await processWebhookDeliveries(db, fetchFn);
+
+      expect(updateSet).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "PENDING", error: "ECONNREFUSED" })
+      );
+    });
+
+    it("should give up after the last attempt", async () => {
+      const { db, updateSet } = createDb({
+        deliveries: [deliveryRow({ attempts: WEBHOOK_MAX_ATTEMPTS - 1 })],
+        webhooks: [webhookRow()],
+      });
+
+      const result = await processWebhookDeliveries(db, respond(500));
+
+      expect(result).toEqual({ succeeded: 0, retrying: 0, failed: 1 });
+      expect(updateSet).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "FAILED", nextAttemptAt: null })
+      );
+    });
+
+    it("should fail deliveries of disabled endpoints without sending", async () => {
+      const { db, updateSet } = createDb({
+        deliveries: [deliveryRow()],
+        webhooks: [webhookRow({ isActive: false })],
+      });
+      const fetchFn = respond(200);
+
+      const result = await processWebhookDeliveries(db, fetchFn);
+
+      expect(result.failed).toBe(1);
+      expect(fetchFn).not.toHaveBeenCalled();
+      expect(updateSet).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: "FAILED",
+          error: "Webhook is disabled",
+        })
+      );
+    });
+
+    it("should claim each delivery before sending it", async () => {
+      const { db, updateSet } = createDb({
+        deliveries: [deliveryRow()],
+        webhooks: [webhookRow()],
+      });
+      const before = Date.now();
+      const fetchFn = vi.fn(async () => {
+        // Claimed, and held for longer than a request can take
+        const claim = (updateSet.mock.calls[0] as Array<any>)[0];
+        expect(Object.keys(claim)).toEqual(["nextAttemptAt"]);
+        expect(claim.nextAttemptAt.getTime()).toBeGreaterThan(before + 60_000);
+        return new Response("ok", { status: 200 });
+      });
+
+      const result = await processWebhookDeliveries(db, fetchFn);
+
+      expect(result.succeeded).toBe(1);
+      expect(fetchFn).toHaveBeenCalledOnce();
+    });
+
+    it("should skip deliveries another job claimed first", async () => {
+      const { db, updateSet } = createDb({
+        deliveries: [
+          deliveryRow({ id: "delivery-1" }),
+          deliveryRow({ id: "delivery-2" }),
+        ],
+        webhooks: [webhookRow()],
+      });
+      updateSet.mockImplementationOnce(() => ({
+        where: vi.fn(() =>
+          Object.assign(Promise.resolve(), {
+            returning: vi.fn(async () => []),
+          })
+        ),
+      }));
+      const fetchFn = respond(200);
+
+      const result = await processWebhookDeliveries(db, fetchFn);
+
+      expect(result).toEqual({ succeeded: 1, retrying: 0, failed: 0 });
+      expect(fetchFn).toHaveBeenCalledOnce();
+      const [, init] = (fetchFn.mock.calls[0] as Array<any>) ?? [];
+      expect(init.headers["X-Vamsa-Delivery"]).toBe("delivery-2");
+    });
+
+    it("should do nothing when no deliveries are due", async () => {
+      const { db } = createDb();
+      const fetchFn = respond(200);
+
+      const result = await processWebhookDeliveries(db, fetchFn);
+
+      expect(result).toEqual({ succeeded: 0, retrying: 0, failed: 0 });
+      expect(db.query.webhooks.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("sendTestWebhookData", () => {
+    it("should send a test event and return the result", async () => {
+      const { db, insertValues } = createDb({ webhook: webhookRow() });
+      const fetchFn = respond(204);
+
+      const delivery = await sendTestWebhookData("hook-1", db, fetchFn);
+
+      expect(insertValues).toHaveBeenCalledWith(
+        expect.objectContaining({ event: "webhook.test" })
+      );
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+      expect(delivery.status).toBe("SUCCEEDED");
+    });
+
+    it("should not retry a failed test", async () => {
+      const { db } = createDb({ webhook: webhookRow() });
+
+      const delivery = await sendTestWebhookData("hook-1", db, respond(404));
+
+      expect(delivery.status).toBe("FAILED");
+      expect(delivery.nextAttemptAt).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,666 @@
+/**
+ * Webhooks Server Module - Business Logic for Outgoing Webhooks
+ *
+ * Admins register endpoints that receive a POST for each event they
+ * subscribe to. Events are emitted from the same places that record audit
+ * log entries, so a webhook fires for exactly the changes that show up in
+ * the history.
+ *
+ * Emitting an event only queues a WebhookDelivery row. When the change runs
+ * in a transaction the row is written in it too, so rolled back changes
+ * never reach an endpoint. A background job sends queued deliveries and
+ * retries failures with backoff; the rows double as the delivery log.
+ * Before sending, the job claims each delivery by pushing its next attempt
+ * out by a lease, so jobs running side by side never send it twice. A
+ * delivery whose job dies mid-send is picked up again once the lease ends.
+ *
+ * Each request carries these headers:
+ * - X-Vamsa-Event: The event type
+ * - X-Vamsa-Delivery: The delivery ID, the same for every retry
+ * - X-Vamsa-Timestamp: Unix time of the attempt, in seconds
+ * - X-Vamsa-Signature: "sha256=" + HMAC-SHA256 of "<timestamp>.<body>"
+ *   keyed with the endpoint's secret
+ *
+ * Exported Functions:
+ * - generateWebhookSecret / signWebhookPayload: Secrets and signatures
+ * - getWebhooksData: List endpoints
+ * - createWebhookData: Register an endpoint, returning its secret once
+ * - updateWebhookData: Change an endpoint's URL, events or status
+ * - rotateWebhookSecretData: Replace an endpoint's secret
+ * - deleteWebhookData: Remove an endpoint and its delivery log
+ * - getWebhookDeliveriesData: Recent deliveries of an endpoint
+ * - sendTestWebhookData: Send a test event and wait for the result
+ * - emitWebhookEvent: Queue an event for every subscribed endpoint
+ * - processWebhookDeliveries: Send queued deliveries that are due
+ * - pruneWebhookDeliveries: Remove old finished deliveries
+ */
+
+import { createHmac, randomBytes } from "node:crypto";
+import { drizzleDb, drizzleSchema } from "@vamsa/api";
+import { and, asc, desc, eq, inArray, lt, lte } from "drizzle-orm";
+import { WEBHOOK_TEST_EVENT } from "@vamsa/schemas";
+import { loggers } from "@vamsa/lib/logger";
+import type { WebhookEvent } from "@vamsa/schemas";
+
+const log = loggers.api;
+
+/** Type for the database instance (for DI) */
+export type WebhooksDb = typeof drizzleDb;
+
+/** Database instance or transaction object */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type WebhooksDbOrTx = WebhooksDb | any;
+
+/** HTTP client used to send deliveries (injectable for tests) */
+export type WebhookFetch = (
+  url: string,
+  init: RequestInit
+) => Promise<Response>;
+
+/** Delay before each retry, in seconds: 1m, 5m, 30m, 2h, 12h */
+export const WEBHOOK_RETRY_DELAYS_SECONDS = [60, 300, 1800, 7200, 43200];
+
+/** Attempts per delivery, including the first */
+export const WEBHOOK_MAX_ATTEMPTS = WEBHOOK_RETRY_DELAYS_SECONDS.length + 1;
+
+/** Finished deliveries are kept this long */
+export const WEBHOOK_DELIVERY_RETENTION_DAYS = 30;
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/** How long a claimed delivery is held by the job sending it */
+const WEBHOOK_CLAIM_LEASE_MS = 5 * 60 * 1000;
+const RESPONSE_BODY_LIMIT = 1000;
+
+export type WebhookDeliveryStatus = "PENDING" | "SUCCEEDED" | "FAILED";
+
+/** Body of every webhook request */
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEvent | typeof WEBHOOK_TEST_EVENT;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+/** Endpoint as returned to clients; the secret is only shown once */
+export interface WebhookSummary {
+  id: string;
+  url: string;
+  description: string | null;
+  events: Array<string>;
+  isActive: boolean;
+  createdById: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** A new or re-keyed endpoint together with its secret */
+export interface WebhookWithSecret {
+  webhook: WebhookSummary;
+  secret: string;
+}
+
+export interface WebhookDeliveryRecord {
+  id: string;
+  webhookId: string;
+  event: string;
+  payload: { [key: string]: NonNullable<unknown> };
+  status: string;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  lastAttemptAt: Date | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  createdAt: Date;
+  deliveredAt: Date | null;
+}
+
+export interface CreateWebhookInput {
+  url: string;
+  description?: string;
+  events: Array<WebhookEvent>;
+}
+
+export interface UpdateWebhookInput {
+  id: string;
+  url?: string;
+  description?: string | null;
+  events?: Array<WebhookEvent>;
+  isActive?: boolean;
+}
+
+export interface ProcessWebhookDeliveriesResult {
+  succeeded: number;
+  retrying: number;
+  failed: number;
+}
+
+/** Columns returned to clients; the secret never leaves the server */
+const webhookColumns = {
+  id: true,
+  url: true,
+  description: true,
+  events: true,
+  isActive: true,
+  createdById: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+function toSummary(row: WebhookSummary & { secret?: string }): WebhookSummary {
+  const { secret: _secret, ...summary } = row;
+  return summary;
+}
+
+/**
+ * Generate a signing secret for an endpoint
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+/**
+ * Sign a request body the way receivers are expected to verify it
+ * @param secret - The endpoint's secret
+ * @param timestamp - Unix time in seconds, sent as X-Vamsa-Timestamp
+ * @param body - The exact request body
+ * @returns The X-Vamsa-Signature header value
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): string {
+  const digest = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `sha256=${digest}`;
+}
+
+/**
+ * List all webhook endpoints
+ * @param db - Database instance (defaults to drizzleDb for production)
+ * @returns Endpoints, newest first
+ */
+export async function getWebhooksData(
+  db: WebhooksDb = drizzleDb
+): Promise<Array<WebhookSummary>> {
+  return db.query.webhooks.findMany({
+    columns: webhookColumns,
+    orderBy: desc(drizzleSchema.webhooks.createdAt),
+  });
+}
+
+/**
+ * Register a webhook endpoint
+ * @param input - URL, description and subscribed events
+ * @param createdById - ID of the admin creating the endpoint
+ * @param db - Database instance (defaults to drizzleDb for production)
+ * @returns The endpoint and its secret, which is not shown again
+ */
+export async function createWebhookData(
+  input: CreateWebhookInput,
+  createdById: string,
+  db: WebhooksDb = drizzleDb
+): Promise<WebhookWithSecret> {
+  const secret = generateWebhookSecret();
+  const now = new Date();
+
+  const [webhook] = await db
+    .insert(drizzleSchema.webhooks)
+    .values({
+      id: crypto.randomUUID(),
+      url: input.url,
+      description: input.description || null,
+      secret,
+      events: input.events,
+      isActive: true,
+      createdById,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returning();
+
+  log.info(
+    { webhookId: webhook.id, events: input.events, createdById },
+    "Webhook created"
+  );
+
+  return { webhook: toSummary(webhook), secret };
+}
+
+async function findWebhook(webhookId: string, db: WebhooksDb) {
+  const webhook = await db.query.webhooks.findFirst({
+    where: eq(drizzleSchema.webhooks.id, webhookId),
+  });
+
+  if (!webhook) {
+    throw new Error("Webhook not found");
+  }
+
+  return webhook;
+}
+
+/**
+ * Update a webhook endpoint
+ * @param input - Endpoint ID and the fields to change
+ * @param db - Database instance (defaults to drizzleDb for production)
+ * @returns The updated endpoint
+ * @throws Error if the endpoint does not exist
+ */
+export async function updateWebhookData(
+  input: UpdateWebhookInput,
+  db: WebhooksDb = drizzleDb
+): Promise<WebhookSummary> {
+  await findWebhook(input.id, db);
+
+  const updates: Record<string, unknown> = { updatedAt: new Date() };
+  if (input.url !== undefined) updates.url = input.url;
+  if (input.description !== undefined) {
+    updates.description = input.description || null;
+  }
+  if (input.events !== undefined) updates.events = input.events;
+  if (input.isActive !== undefined) updates.isActive = input.isActive;
+
+  const [webhook] = await db
+    .update(drizzleSchema.webhooks)
+    .set(updates)
+    .where(eq(drizzleSchema.webhooks.id, input.id))
+    .returning();
+
+  log.info({ webhookId: input.id }, "Webhook updated");
+
+  return toSummary(webhook);
+}
+
+/**
+ * Replace a webhook endpoint's secret. Deliveries sent afterwards,
+ * including retries, are signed with the new secret.
+ * @param webhookId - ID of the endpoint
+ * @param db - Database instance (defaults to drizzleDb for production)
+ * @returns The endpoint and its new secret, which is not shown again
+ * @throws Error if the endpoint does not exist
+ */
+export async function rotateWebhookSecretData(
+  webhookId: string,
+  db: WebhooksDb = drizzleDb
+): Promise<WebhookWithSecret> {
+  await findWebhook(webhookId, db);
+
+  const secret = generateWebhookSecret();
+  const [webhook] = await db
+    .update(drizzleSchema.webhooks)
+    .set({ secret, updatedAt: new Date() })
+    .where(eq(drizzleSchema.webhooks.id, webhookId))
+    .returning();
+
+  log.info({ webhookId }, "Webhook secret rotated");
+
+  return { webhook: toSummary(webhook), secret };
+}
+
+/**
+ * Delete a webhook endpoint together with its delivery log
+ * @param webhookId - ID of the endpoint
+ * @param db - Database instance (defaults to drizzleDb for production)
+ * @returns Success status with deleted endpoint ID
+ * @throws Error if the endpoint does not exist
+ */
+export async function deleteWebhookData(
+  webhookId: string,
+  db: WebhooksDb = drizzleDb
+): Promise<{ success: boolean; deletedId: string }> {
+  await findWebhook(webhookId, db);
+
+  await db.transaction(async (tx: WebhooksDbOrTx) => {
+    await tx
+      .delete(drizzleSchema.webhookDeliveries)
+      .where(eq(drizzleSchema.webhookDeliveries.webhookId, webhookId));
+    await tx
+      .delete(drizzleSchema.webhooks)
+      .where(eq(drizzleSchema.webhooks.id, webhookId));
+  });
+
+  log.info({ webhookId }, "Webhook deleted");
+
+  return { success: true, deletedId: webhookId };
+}
+
+/**
+ * Recent deliveries of a webhook endpoint
+ * @param webhookId - ID of the endpoint
+ * @param limit - Maximum number of deliveries to return
+ * @param db - Database instance (defaults to drizzleDb for production)
+ * @returns Deliveries, newest first
+ */
+export async function getWebhookDeliveriesData(
+  webhookId: string,
+  limit: number = 50,
+  db: WebhooksDb = drizzleDb
+): Promise<Array<WebhookDeliveryRecord>> {
+  const deliveries = await db.query.webhookDeliveries.findMany({
+    where: eq(drizzleSchema.webhookDeliveries.webhookId, webhookId),
+    orderBy: desc(drizzleSchema.webhookDeliveries.createdAt),
+    limit,
+  });
+
+  return deliveries as Array<WebhookDeliveryRecord>;
+}
+
+function buildPayload(
+  id: string,
+  event: WebhookPayload["event"],
+  data: Record<string, unknown>,
+  createdAt: Date
+): WebhookPayload {
+  return { id, event, createdAt: createdAt.toISOString(), data };
+}
+
+/**
+ * Queue an event for every active endpoint subscribed to it. Failures are
+ * logged and swallowed so webhooks never break the change that emits them.
+ *
+ * @param event - The event type
+ * @param data - Event details sent as the payload's `data`
+ * @param db - Drizzle database instance or transaction object
+ * @returns Number of deliveries queued
+ */
+export async function emitWebhookEvent(
+  event: WebhookEvent,
+  data: Record<string, unknown>,
+  db: WebhooksDbOrTx = drizzleDb
+): Promise<number> {
+  try {
+    const webhooks: Array<{ id: string; events: Array<string> }> =
+      await db.query.webhooks.findMany({
+        columns: { id: true, events: true },
+        where: eq(drizzleSchema.webhooks.isActive, true),
+      });
+    const subscribed = webhooks.filter((webhook) =>
+      webhook.events.includes(event)
+    );
+    if (subscribed.length === 0) {
+      return 0;
+    }
+
+    const now = new Date();
+    await db.insert(drizzleSchema.webhookDeliveries).values(
+      subscribed.map((webhook) => {
+        const id = crypto.randomUUID();
+        return {
+          id,
+          webhookId: webhook.id,
+          event,
+          payload: buildPayload(id, event, data, now),
+          status: "PENDING",
+          attempts: 0,
+          nextAttemptAt: now,
+          createdAt: now,
+        };
+      })
+    );
+
+    return subscribed.length;
+  } catch (error) {
+    log.withErr(error).ctx({ event }).msg("Failed to queue webhook event");
+    return 0;
+  }
+}
+
+/**
+ * Send one delivery and record the outcome. Non-2xx responses, timeouts
+ * and network errors count as failures; they are retried after the next
+ * backoff delay until the attempts run out.
+ */
+async function attemptDelivery(
+  delivery: { id: string; event: string; attempts: number; payload: unknown },
+  webhook: { url: string; secret: string },
+  db: WebhooksDb,
+  fetchFn: WebhookFetch,
+  maxAttempts: number
+): Promise<WebhookDeliveryRecord> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attempts = delivery.attempts + 1;
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await fetchFn(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "Vamsa-Webhooks/1.0",
+        "X-Vamsa-Event": delivery.event,
+        "X-Vamsa-Delivery": delivery.id,
+        "X-Vamsa-Timestamp": String(timestamp),
+        "X-Vamsa-Signature": signWebhookPayload(
+          webhook.secret,
+          timestamp,
+          body
+        ),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    responseBody = (await response.text()).slice(0, RESPONSE_BODY_LIMIT);
+    if (!response.ok) {
+      error = `Endpoint responded with HTTP ${response.status}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const now = new Date();
+  const succeeded = error === null;
+  const willRetry = !succeeded && attempts < maxAttempts;
+  const status: WebhookDeliveryStatus = succeeded
+    ? "SUCCEEDED"
+    : willRetry
+      ? "PENDING"
+      : "FAILED";
+  const retryDelay =
+    WEBHOOK_RETRY_DELAYS_SECONDS[attempts - 1] ??
+    WEBHOOK_RETRY_DELAYS_SECONDS[WEBHOOK_RETRY_DELAYS_SECONDS.length - 1];
+
+  const [updated] = await db
+    .update(drizzleSchema.webhookDeliveries)
+    .set({
+      status,
+      attempts,
+      lastAttemptAt: now,
+      nextAttemptAt: willRetry
+        ? new Date(now.getTime() + retryDelay * 1000)
+        : null,
+      responseStatus,
+      responseBody,
+      error,
+      deliveredAt: succeeded ? now : null,
+    })
+    .where(eq(drizzleSchema.webhookDeliveries.id, delivery.id))
+    .returning();
+
+  if (!succeeded) {
+    log.warn(
+      { deliveryId: delivery.id, event: delivery.event, attempts, error },
+      willRetry
+        ? "Webhook delivery failed, will retry"
+        : "Webhook delivery failed"
+    );
+  }
+
+  return updated as WebhookDeliveryRecord;
+}
+
+/**
+ * Send a test event to an endpoint and wait for the result. Test
+ * deliveries appear in the delivery log but are not retried.
+ * @param webhookId - ID of the endpoint
+ * @param db - Database instance (defaults to drizzleDb for production)
+ * @param fetchFn - HTTP client (defaults to fetch)
+ * @returns The finished delivery
+ * @throws Error if the endpoint does not exist
+ */
+export async function sendTestWebhookData(
+  webhookId: string,
+  db: WebhooksDb = drizzleDb,
+  fetchFn: WebhookFetch = fetch
+): Promise<WebhookDeliveryRecord> {
+  const webhook = await findWebhook(webhookId, db);
+
+  const id = crypto.randomUUID();
+  const now = new Date();
+  const [delivery] = await db
+    .insert(drizzleSchema.webhookDeliveries)
+    .values({
+      id,
+      webhookId,
+      event: WEBHOOK_TEST_EVENT,
+      payload: buildPayload(
+        id,
+        WEBHOOK_TEST_EVENT,
+        { message: "This is a test delivery from Vamsa" },
+        now
+      ),
+      status: "PENDING",
+      attempts: 0,
+      nextAttemptAt: null,
+      createdAt: now,
+    })
+    .returning();
+
+  return attemptDelivery(delivery, webhook, db, fetchFn, 1);
+}
+
+/**
+ * Claim a due delivery for sending
+ *
+ * Moves its next attempt past the lease only if it is still pending and
+ * due, so of several jobs reading the same row exactly one claims it.
+ *
+ * @returns True if this call claimed the delivery
+ */
+async function claimDelivery(
+  deliveryId: string,
+  db: WebhooksDb
+): Promise<boolean> {
+  const now = new Date();
+  const claimed = await db
+    .update(drizzleSchema.webhookDeliveries)
+    .set({ nextAttemptAt: new Date(now.getTime() + WEBHOOK_CLAIM_LEASE_MS) })
+    .where(
+      and(
+        eq(drizzleSchema.webhookDeliveries.id, deliveryId),
+        eq(drizzleSchema.webhookDeliveries.status, "PENDING"),
+        lte(drizzleSchema.webhookDeliveries.nextAttemptAt, now)
+      )
+    )
+    .returning({ id: drizzleSchema.webhookDeliveries.id });
+  return claimed.length > 0;
+}
+
+/**
+ * Send every queued delivery that is due, oldest first. Deliveries of
+ * endpoints that were disabled or deleted in the meantime are failed
+ * without being sent.
+ *
+ * @param db - Database instance (defaults to drizzleDb for production)
+ * @param fetchFn - HTTP client (defaults to fetch)
+ * @param limit - Maximum number of deliveries to send in this run
+ * @returns How many deliveries succeeded, will be retried, or failed
+ */
+export async function processWebhookDeliveries(
+  db: WebhooksDb = drizzleDb,
+  fetchFn: WebhookFetch = fetch,
+  limit: number = 100
+): Promise<ProcessWebhookDeliveriesResult> {
+  const result: ProcessWebhookDeliveriesResult = {
+    succeeded: 0,
+    retrying: 0,
+    failed: 0,
+  };
+
+  const due = await db.query.webhookDeliveries.findMany({
+    where: and(
+      eq(drizzleSchema.webhookDeliveries.status, "PENDING"),
+      lte(drizzleSchema.webhookDeliveries.nextAttemptAt, new Date())
+    ),
+    orderBy: asc(drizzleSchema.webhookDeliveries.createdAt),
+    limit,
+  });
+  if (due.length === 0) {
+    return result;
+  }
+
+  const webhookIds = [...new Set(due.map((d) => d.webhookId))];
+  const webhooks = await db.query.webhooks.findMany({
+    where: inArray(drizzleSchema.webhooks.id, webhookIds),
+  });
+  const webhooksById = new Map(webhooks.map((w) => [w.id, w]));
+
+  for (const delivery of due) {
+    if (!(await claimDelivery(delivery.id, db))) {
+      // Another job got to it first
+      continue;
+    }
+
+    const webhook = webhooksById.get(delivery.webhookId);
+
+    if (!webhook || !webhook.isActive) {
+      await db
+        .update(drizzleSchema.webhookDeliveries)
+        .set({
+          status: "FAILED",
+          nextAttemptAt: null,
+          error: "Webhook is disabled",
+        })
+        .where(eq(drizzleSchema.webhookDeliveries.id, delivery.id));
+      result.failed++;
+      continue;
+    }
+
+    const updated = await attemptDelivery(
+      delivery,
+      webhook,
+      db,
+      fetchFn,
+      WEBHOOK_MAX_ATTEMPTS
+    );
+    if (updated.status === "SUCCEEDED") result.succeeded++;
+    else if (updated.status === "PENDING") result.retrying++;
+    else result.failed++;
+  }
+
+  log.info({ ...result }, "Processed webhook deliveries");
+
+  return result;
+}
+
+/**
+ * Remove finished deliveries older than the retention period
+ * @param db - Database instance (defaults to drizzleDb for production)
+ * @param retentionDays - Days to keep finished deliveries
+ */
+export async function pruneWebhookDeliveries(
+  db: WebhooksDb = drizzleDb,
+  retentionDays: number = WEBHOOK_DELIVERY_RETENTION_DAYS
+): Promise<void> {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+  await db
+    .delete(drizzleSchema.webhookDeliveries)
+    .where(
+      and(
+        inArray(drizzleSchema.webhookDeliveries.status, [
+          "SUCCEEDED",
+          "FAILED",
+        ]),
+        lt(drizzleSchema.webhookDeliveries.createdAt, cutoff)
+      )
+    );
+}
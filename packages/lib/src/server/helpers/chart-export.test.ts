@@ -0,0 +1,356 @@
+/**
+ * Unit tests for chart export helpers
+ *
+ * Tests cover:
+ * - buildChartDrawing: layouts for every exportable chart type
+ * - renderDrawingToSVG: standalone SVG output
+ * - renderDrawingToPDF: fitted and tiled page layouts, embedded fonts
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { chartExportOptionsSchema } from "@vamsa/schemas";
+import { buildTestFont } from "../../testing/truetype-fixtures";
+import {
+  buildChartDrawing,
+  renderDrawingToPDF,
+  renderDrawingToSVG,
+} from "./chart-export";
+import { PdfUnprintableTextError } from "./pdf";
+import type { ChartExportOptionsInput } from "@vamsa/schemas";
+import type { ChartDrawing, DrawingElement } from "./chart-export";
+
+function options(input: ChartExportOptionsInput = {}) {
+  return chartExportOptionsSchema.parse(input);
+}
+
+function createNode(
+  id: string,
+  firstName: string,
+  generation: number,
+  gender = "MALE"
+) {
+  return {
+    id,
+    firstName,
+    lastName: "Rao",
+    dateOfBirth: "1900-01-15",
+    dateOfPassing: null,
+    isLiving: false,
+    photoUrl: null,
+    gender,
+    generation,
+  };
+}
+
+const hourglassData = {
+  nodes: [
+    createNode("root", "Asha", 0, "FEMALE"),
+    createNode("father", "Ravi", 1),
+    createNode("child", "Dev", 1),
+  ],
+  edges: [
+    { id: "e1", source: "father", target: "root", type: "parent-child" },
+    { id: "e2", source: "root", target: "child", type: "parent-child" },
+  ],
+  metadata: {
+    chartType: "hourglass",
+    totalGenerations: 3,
+    totalPeople: 3,
+    rootPersonId: "root",
+  },
+};
+
+function textOf(drawing: ChartDrawing, text: string) {
+  return drawing.elements.find(
+    (element): element is Extract<DrawingElement, { kind: "text" }> =>
+      element.kind === "text" && element.text === text
+  );
+}
+
+describe("chart export helpers", () => {
+  describe("buildChartDrawing", () => {
+    it("should place ancestors above and descendants below the root", () => {
+      const drawing = buildChartDrawing("hourglass", hourglassData, options());
+
+      const father = textOf(drawing, "Ravi Rao")!;
+      const root = textOf(drawing, "Asha Rao")!;
+      const child = textOf(drawing, "Dev Rao")!;
+      expect(father.y).toBeLessThan(root.y);
+      expect(root.y).toBeLessThan(child.y);
+    });
+
+    it("should print only the selected fields", () => {
+      const drawing = buildChartDrawing(
+        "descendant",
+        hourglassData,
+        options({ fields: ["birthDate", "gender"] })
+      );
+      const texts = drawing.elements
+        .filter((element) => element.kind === "text")
+        .map((element) => (element.kind === "text" ? element.text : ""));
+
+      expect(texts).toContain("b. January 15, 1900");
+      expect(texts).toContain("Female");
+      expect(texts).not.toContain("Asha Rao");
+    });
+
+    it("should add the title above the chart", () => {
+      const drawing = buildChartDrawing(
+        "ancestor",
+        hourglassData,
+        options({ title: "Rao reunion" })
+      );
+
+      const title = textOf(drawing, "Rao reunion")!;
+      expect(title.bold).toBe(true);
+      expect(title.y).toBeLessThan(textOf(drawing, "Ravi Rao")!.y);
+    });
+
+    it("should draw a wedge for each ancestor in a fan chart", () => {
+      const drawing = buildChartDrawing(
+        "fan",
+        {
+          ...hourglassData,
+          nodes: [
+            createNode("root", "Asha", 0),
+            { ...createNode("father", "Ravi", 1), angle: 0 },
+            { ...createNode("mother", "Meena", 1, "FEMALE"), angle: 180 },
+          ],
+        },
+        options()
+      );
+
+      const shapes = drawing.elements.filter(
+        (element) => element.kind === "path" && element.closed
+      );
+      // Two wedges plus the root circle
+      expect(shapes).toHaveLength(3);
+    });
+
+    it("should put the paternal line left of the maternal line in a bowtie", () => {
+      const drawing = buildChartDrawing(
+        "bowtie",
+        {
+          ...hourglassData,
+          nodes: [
+            { ...createNode("root", "Asha", 0), side: "center" },
+            { ...createNode("father", "Ravi", 1), side: "paternal" },
+            { ...createNode("mother", "Meena", 1), side: "maternal" },
+          ],
+        },
+        options()
+      );
+
+      expect(textOf(drawing, "Ravi Rao")!.x).toBeLessThan(
+        textOf(drawing, "Asha Rao")!.x
+      );
+      expect(textOf(drawing, "Meena Rao")!.x).toBeGreaterThan(
+        textOf(drawing, "Asha Rao")!.x
+      );
+    });
+
+    it("should indent each generation of a compact tree", () => {
+      const drawing = buildChartDrawing(
+        "compact",
+        {
+          flatList: [
+            { ...createNode("root", "Asha", 0), parentId: null },
+            { ...createNode("child", "Dev", 1), parentId: "root" },
+          ],
+          metadata: {},
+        },
+        options()
+      );
+
+      expect(textOf(drawing, "Dev Rao")!.x).toBeGreaterThan(
+        textOf(drawing, "Asha Rao")!.x
+      );
+    });
+
+    it("should draw lifespan bars and date labels on a timeline", () => {
+      const drawing = buildChartDrawing(
+        "timeline",
+        {
+          entries: [
+            {
+              id: "p1",
+              firstName: "Ravi",
+              lastName: "Rao",
+              birthYear: 1850,
+              deathYear: 1910,
+              birthDateLabel: "about 1850",
+              deathDateLabel: null,
+              isBirthApproximate: true,
+              isDeathApproximate: false,
+              isLiving: false,
+              gender: "MALE",
+              photoUrl: null,
+            },
+          ],
+          metadata: {
+            chartType: "timeline",
+            minYear: 1850,
+            maxYear: 1910,
+            totalPeople: 1,
+          },
+        },
+        options()
+      );
+
+      expect(drawing.elements.some((element) => element.kind === "rect")).toBe(
+        true
+      );
+      expect(textOf(drawing, "about 1850 – 1910")).toBeDefined();
+    });
+
+    it("should note when a chart has nobody in it", () => {
+      const drawing = buildChartDrawing(
+        "ancestor",
+        { ...hourglassData, nodes: [], edges: [] },
+        options()
+      );
+
+      expect(textOf(drawing, "No people in this chart")).toBeDefined();
+    });
+
+    it("should reject data from a different chart", () => {
+      expect(() =>
+        buildChartDrawing("timeline", hourglassData, options())
+      ).toThrow("Invalid chart data for timeline export");
+    });
+  });
+
+  describe("renderDrawingToSVG", () => {
+    it("should escape text and use the chosen font", () => {
+      const svg = renderDrawingToSVG(
+        {
+          width: 100,
+          height: 50,
+          elements: [
+            {
+              kind: "text",
+              x: 10,
+              y: 20,
+              text: "Rao & <Sons>",
+              size: 10,
+              color: "#000000",
+              anchor: "start",
+            },
+          ],
+        },
+        options({ fontFamily: "serif" })
+      );
+
+      expect(svg).toContain("Rao &amp; &lt;Sons&gt;");
+      expect(svg).toContain("font-family=\"'Times New Roman', Times, serif\"");
+      expect(svg).toContain('viewBox="0 0 100 50"');
+    });
+  });
+
+  describe("renderDrawingToPDF", () => {
+    const wideDrawing: ChartDrawing = {
+      width: 2000,
+      height: 300,
+      elements: [
+        {
+          kind: "rect",
+          x: 0,
+          y: 0,
+          width: 2000,
+          height: 300,
+          fill: "#f2f0ec",
+          stroke: "#22573e",
+        },
+      ],
+    };
+
+    it("should fit the chart on a single page", () => {
+      const pdf = renderDrawingToPDF(wideDrawing, options()).toString("latin1");
+
+      expect(pdf).toContain("/Count 1");
+      // A4 landscape
+      expect(pdf).toContain("/MediaBox [0 0 841.89 595.276]");
+    });
+
+    it("should tile a large chart across pages", () => {
+      const pdf = renderDrawingToPDF(
+        wideDrawing,
+        options({ pageLayout: "tile", orientation: "portrait" })
+      ).toString("latin1");
+
+      // 2000pt wide over a 538pt printable width is four columns
+      expect(pdf).toContain("/Count 4");
+      expect(pdf).toContain("(Row 1 of 1, column 4 of 4)");
+    });
+
+    describe("with names in other scripts", () => {
+      const devanagariDrawing: ChartDrawing = {
+        width: 200,
+        height: 50,
+        elements: [
+          {
+            kind: "text",
+            x: 100,
+            y: 20,
+            text: "राम शर्मा",
+            size: 10,
+            bold: true,
+            color: "#000000",
+            anchor: "middle",
+          },
+        ],
+      };
+
+      function withFont(characters: string, render: () => void) {
+        const dir = mkdtempSync(join(tmpdir(), "vamsa-chart-font-"));
+        const path = join(dir, "font.ttf");
+        writeFileSync(path, buildTestFont(characters));
+        process.env.PDF_FONT_PATH = path;
+        try {
+          render();
+        } finally {
+          delete process.env.PDF_FONT_PATH;
+          rmSync(dir, { recursive: true, force: true });
+        }
+      }
+
+      it("should refuse text the standard fonts cannot print", () => {
+        expect(() => renderDrawingToPDF(devanagariDrawing, options())).toThrow(
+          PdfUnprintableTextError
+        );
+      });
+
+      it("should print them with the configured font", () => {
+        withFont("राम शर्मा Rowfcun0123456789,", () => {
+          const pdf = renderDrawingToPDF(devanagariDrawing, options()).toString(
+            "latin1"
+          );
+
+          expect(pdf).toContain("/Subtype /CIDFontType2");
+          expect(pdf).not.toContain("/BaseFont /Helvetica");
+          // Nine characters as four-digit glyph IDs
+          expect(pdf).toMatch(/Tm <[0-9A-F]{36}> Tj ET/);
+        });
+      });
+
+      it("should refuse text the configured font has no glyphs for", () => {
+        withFont("ABC", () => {
+          expect(() =>
+            renderDrawingToPDF(devanagariDrawing, options())
+          ).toThrow('PDF export cannot print "राम शर्मा"');
+        });
+      });
+    });
+
+    it("should set colours before constructing paths", () => {
+      const pdf = renderDrawingToPDF(wideDrawing, options()).toString("latin1");
+
+      expect(pdf).toContain(
+        "0.949 0.941 0.925 rg 0.133 0.341 0.243 RG 0 0 2000 300 re B"
+      );
+    });
+  });
+});
@@ -0,0 +1,1336 @@
+/**
+ * Chart Export Helpers - Headless chart rendering
+ *
+ * Lays out chart payloads from the chart business functions without a
+ * browser and renders them to SVG or PDF. Layout happens once into a
+ * ChartDrawing (boxes, lines and text in points), which both the SVG and
+ * the PDF renderer consume, so every format prints the same picture.
+ *
+ * Supported layouts:
+ * - ancestor, descendant, hourglass, tree: generations in rows
+ * - fan: ancestors in concentric half rings around the root person
+ * - bowtie: paternal line to the left, maternal line to the right
+ * - compact: indented outline
+ * - timeline: lifespan bars along a year axis
+ */
+
+import { formatDate } from "@vamsa/lib";
+import {
+  PDF_FONT_BOLD,
+  PDF_FONT_REGULAR,
+  PdfDocument,
+  PdfUnprintableTextError,
+  getConfiguredPdfFonts,
+  mmToPt,
+  pdfColor,
+  pdfNumber,
+} from "./pdf";
+import type {
+  ChartExportField,
+  ChartExportOptions,
+  ChartFontFamily,
+  ChartPaperSize,
+  ExportableChartType,
+} from "@vamsa/schemas";
+import type {
+  BowtieChartResult,
+  BowtieNode,
+  ChartEdge,
+  ChartLayoutResult,
+  ChartNode,
+  CompactTreeResult,
+  TimelineChartResult,
+} from "../business/charts";
+import type { PdfFontFamily } from "./pdf";
+
+export type Point = [number, number];
+
+export type TextAnchor = "start" | "middle" | "end";
+
+/** A single drawing primitive; coordinates are points with y growing down */
+export type DrawingElement =
+  | {
+      kind: "rect";
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      fill: string | null;
+      stroke: string | null;
+    }
+  | {
+      kind: "path";
+      points: Array<Point>;
+      closed: boolean;
+      fill: string | null;
+      stroke: string | null;
+      dashed?: boolean;
+    }
+  | {
+      kind: "text";
+      x: number;
+      y: number;
+      text: string;
+      size: number;
+      color: string;
+      anchor: TextAnchor;
+      bold?: boolean;
+      /** Clockwise rotation in degrees around (x, y) */
+      rotate?: number;
+    };
+
+export interface ChartDrawing {
+  width: number;
+  height: number;
+  elements: Array<DrawingElement>;
+}
+
+/** Paper sizes in millimetres, portrait orientation */
+export const PAPER_SIZES_MM: Record<ChartPaperSize, [number, number]> = {
+  A4: [210, 297],
+  A3: [297, 420],
+  A2: [420, 594],
+  A1: [594, 841],
+  A0: [841, 1189],
+  LETTER: [215.9, 279.4],
+  LEGAL: [215.9, 355.6],
+  TABLOID: [279.4, 431.8],
+};
+
+// Design system colours as hex; print output cannot resolve CSS variables
+const COLORS = {
+  background: "#ffffff",
+  text: "#22573e",
+  muted: "#6b5c4d",
+  box: "#f2f0ec",
+  border: "#d4d0c8",
+  line: "#6b5c4d",
+  male: "#3d7a5a",
+  female: "#a67c52",
+};
+
+const SVG_FONT_STACKS: Record<ChartFontFamily, string> = {
+  "sans-serif": "Helvetica, Arial, sans-serif",
+  serif: "'Times New Roman', Times, serif",
+  monospace: "'Courier New', Courier, monospace",
+};
+
+const PDF_FONTS: Record<ChartFontFamily, PdfFontFamily> = {
+  "sans-serif": "Helvetica",
+  serif: "Times",
+  monospace: "Courier",
+};
+
+// Average glyph width as a fraction of the font size, used to size boxes
+// (bold glyphs run about a tenth wider)
+const GLYPH_WIDTH: Record<ChartFontFamily, number> = {
+  "sans-serif": 0.55,
+  serif: 0.5,
+  monospace: 0.6,
+};
+
+// Small charts are enlarged at most this much when fitted to a page
+const MAX_FIT_SCALE = 4;
+
+const MAX_BOX_WIDTH = 260;
+
+interface LayoutContext {
+  fontSize: number;
+  fontFamily: ChartFontFamily;
+  fields: Array<ChartExportField>;
+}
+
+interface PersonLike {
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string | null;
+  dateOfPassing: string | null;
+  gender: string | null;
+}
+
+interface TextLine {
+  text: string;
+  bold: boolean;
+}
+
+/**
+ * Estimates the printed width of a string
+ */
+export function estimateTextWidth(
+  text: string,
+  size: number,
+  fontFamily: ChartFontFamily,
+  bold = false
+): number {
+  return text.length * size * GLYPH_WIDTH[fontFamily] * (bold ? 1.1 : 1);
+}
+
+function truncateText(
+  text: string,
+  maxWidth: number,
+  size: number,
+  fontFamily: ChartFontFamily
+): string {
+  if (estimateTextWidth(text, size, fontFamily) <= maxWidth) return text;
+  const maxChars = Math.max(
+    1,
+    Math.floor(maxWidth / (size * GLYPH_WIDTH[fontFamily])) - 1
+  );
+  return `${text.slice(0, maxChars)}…`;
+}
+
+function formatGender(gender: string | null): string | null {
+  if (!gender) return null;
+  const words = gender.toLowerCase().split("_");
+  return words
+    .map((word, index) =>
+      index === 0 ? word.charAt(0).toUpperCase() + word.slice(1) : word
+    )
+    .join(" ");
+}
+
+function personName(person: { firstName: string; lastName: string }): string {
+  return `${person.firstName} ${person.lastName}`.trim();
+}
+
+/**
+ * Builds the printed lines for a person, one per selected field
+ *
+ * Fields without a value produce an empty line so boxes stay aligned.
+ */
+function personLines(person: PersonLike, ctx: LayoutContext): Array<TextLine> {
+  return ctx.fields.map((field) => {
+    switch (field) {
+      case "name":
+        return { text: personName(person), bold: true };
+      case "birthDate":
+        return {
+          text: person.dateOfBirth
+            ? `b. ${formatDate(person.dateOfBirth)}`
+            : "",
+          bold: false,
+        };
+      case "deathDate":
+        return {
+          text: person.dateOfPassing
+            ? `d. ${formatDate(person.dateOfPassing)}`
+            : "",
+          bold: false,
+        };
+      case "gender":
+        return { text: formatGender(person.gender) ?? "", bold: false };
+    }
+  });
+}
+
+function lineSize(line: TextLine, ctx: LayoutContext): number {
+  return line.bold ? ctx.fontSize : ctx.fontSize * 0.85;
+}
+
+function genderColor(gender: string | null): string {
+  if (gender === "MALE") return COLORS.male;
+  if (gender === "FEMALE") return COLORS.female;
+  return COLORS.border;
+}
+
+interface BoxMetrics {
+  width: number;
+  height: number;
+  padding: number;
+  lineHeight: number;
+}
+
+function measureBoxes(
+  persons: Array<PersonLike>,
+  ctx: LayoutContext
+): BoxMetrics {
+  const padding = ctx.fontSize * 0.6;
+  const lineHeight = ctx.fontSize * 1.3;
+  let textWidth = ctx.fontSize * 6;
+  for (const person of persons) {
+    for (const line of personLines(person, ctx)) {
+      textWidth = Math.max(
+        textWidth,
+        estimateTextWidth(
+          line.text,
+          lineSize(line, ctx),
+          ctx.fontFamily,
+          line.bold
+        )
+      );
+    }
+  }
+  return {
+    width: Math.min(textWidth + padding * 2, MAX_BOX_WIDTH),
+    height: ctx.fields.length * lineHeight + padding * 2,
+    padding,
+    lineHeight,
+  };
+}
+
+function drawPersonBox(
+  elements: Array<DrawingElement>,
+  person: PersonLike,
+  x: number,
+  y: number,
+  box: BoxMetrics,
+  ctx: LayoutContext
+): void {
+  elements.push({
+    kind: "rect",
+    x,
+    y,
+    width: box.width,
+    height: box.height,
+    fill: COLORS.box,
+    stroke: genderColor(person.gender),
+  });
+
+  personLines(person, ctx).forEach((line, index) => {
+    if (!line.text) return;
+    const size = lineSize(line, ctx);
+    elements.push({
+      kind: "text",
+      x: x + box.width / 2,
+      y: y + box.padding + index * box.lineHeight + size,
+      text: truncateText(
+        line.text,
+        box.width - box.padding * 2,
+        size,
+        ctx.fontFamily
+      ),
+      size,
+      color: line.bold ? COLORS.text : COLORS.muted,
+      anchor: "middle",
+      bold: line.bold,
+    });
+  });
+}
+
+function elbow(from: Point, to: Point, vertical: boolean): Array<Point> {
+  if (vertical) {
+    const midY = (from[1] + to[1]) / 2;
+    return [from, [from[0], midY], [to[0], midY], to];
+  }
+  const midX = (from[0] + to[0]) / 2;
+  return [from, [midX, from[1]], [midX, to[1]], to];
+}
+
+/** Divorced couples, unmarried partners and non-birth parent links are dashed */
+function isDashedEdge(edge: ChartEdge): boolean {
+  return Boolean(edge.isDivorced || edge.isPartner || edge.pedigree);
+}
+
+function emptyDrawing(ctx: LayoutContext): ChartDrawing {
+  return {
+    width: ctx.fontSize * 20,
+    height: ctx.fontSize * 4,
+    elements: [
+      {
+        kind: "text",
+        x: ctx.fontSize * 10,
+        y: ctx.fontSize * 2.3,
+        text: "No people in this chart",
+        size: ctx.fontSize,
+        color: COLORS.muted,
+        anchor: "middle",
+      },
+    ],
+  };
+}
+
+/**
+ * Assigns each node a row relative to the root person
+ *
+ * Walks the edges from the root so ancestors land above and descendants
+ * below, which also works for hourglass charts where both sides count
+ * generations upwards from zero.
+ */
+function assignLevels(
+  data: ChartLayoutResult,
+  chartType: ExportableChartType
+): Map<string, number> {
+  const neighbours = new Map<string, Array<[string, number]>>();
+  const link = (from: string, to: string, delta: number) => {
+    if (!neighbours.has(from)) neighbours.set(from, []);
+    neighbours.get(from)!.push([to, delta]);
+  };
+  for (const edge of data.edges) {
+    const delta = edge.type === "parent-child" ? 1 : 0;
+    link(edge.source, edge.target, delta);
+    link(edge.target, edge.source, -delta);
+  }
+
+  const levels = new Map<string, number>();
+  const rootId = data.metadata.rootPersonId;
+  if (data.nodes.some((node) => node.id === rootId)) {
+    levels.set(rootId, 0);
+    const queue = [rootId];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      for (const [next, delta] of neighbours.get(id) ?? []) {
+        if (levels.has(next)) continue;
+        levels.set(next, levels.get(id)! + delta);
+        queue.push(next);
+      }
+    }
+  }
+
+  for (const node of data.nodes) {
+    if (!levels.has(node.id)) {
+      const generation = node.generation ?? 0;
+      levels.set(node.id, chartType === "ancestor" ? -generation : generation);
+    }
+  }
+  return levels;
+}
+
+/**
+ * Orders each row so people sit near their parents and children and
+ * spouses sit side by side
+ */
+function orderRows(
+  rows: Map<number, Array<ChartNode>>,
+  data: ChartLayoutResult
+): void {
+  const parentsOf = new Map<string, Array<string>>();
+  const childrenOf = new Map<string, Array<string>>();
+  const spousesOf = new Map<string, Array<string>>();
+  const push = (map: Map<string, Array<string>>, key: string, value: string) =>
+    map.set(key, [...(map.get(key) ?? []), value]);
+  for (const edge of data.edges) {
+    if (edge.type === "parent-child") {
+      push(parentsOf, edge.target, edge.source);
+      push(childrenOf, edge.source, edge.target);
+    } else {
+      push(spousesOf, edge.source, edge.target);
+      push(spousesOf, edge.target, edge.source);
+    }
+  }
+
+  const position = new Map<string, number>();
+  const levels = Array.from(rows.keys()).sort((a, b) => a - b);
+  const index = (level: number) =>
+    rows.get(level)!.forEach((node, i) => position.set(node.id, i));
+  levels.forEach(index);
+
+  const sweep = (order: Array<number>, related: Map<string, Array<string>>) => {
+    for (const level of order) {
+      const row = rows.get(level)!;
+      const keys = new Map(
+        row.map((node) => {
+          const linked = (related.get(node.id) ?? [])
+            .map((id) => position.get(id))
+            .filter((value): value is number => value !== undefined);
+          const key =
+            linked.length > 0
+              ? linked.reduce((sum, value) => sum + value, 0) / linked.length
+              : position.get(node.id)!;
+          return [node.id, key];
+        })
+      );
+      row.sort((a, b) => keys.get(a.id)! - keys.get(b.id)!);
+      index(level);
+    }
+  };
+  sweep(levels.slice(1), parentsOf);
+  sweep(levels.slice(0, -1).reverse(), childrenOf);
+
+  for (const level of levels) {
+    const row = rows.get(level)!;
+    const inRow = new Set(row.map((node) => node.id));
+    const placed = new Set<string>();
+    const grouped: Array<ChartNode> = [];
+    const byId = new Map(row.map((node) => [node.id, node]));
+    for (const node of row) {
+      if (placed.has(node.id)) continue;
+      grouped.push(node);
+      placed.add(node.id);
+      for (const spouseId of spousesOf.get(node.id) ?? []) {
+        if (inRow.has(spouseId) && !placed.has(spouseId)) {
+          grouped.push(byId.get(spouseId)!);
+          placed.add(spouseId);
+        }
+      }
+    }
+    rows.set(level, grouped);
+  }
+}
+
+function layoutGenerations(
+  data: ChartLayoutResult,
+  chartType: ExportableChartType,
+  ctx: LayoutContext
+): ChartDrawing {
+  if (data.nodes.length === 0) return emptyDrawing(ctx);
+
+  const box = measureBoxes(data.nodes, ctx);
+  const hGap = ctx.fontSize * 2;
+  const vGap = ctx.fontSize * 4;
+  const levels = assignLevels(data, chartType);
+
+  const rows = new Map<number, Array<ChartNode>>();
+  for (const node of data.nodes) {
+    const level = levels.get(node.id)!;
+    rows.set(level, [...(rows.get(level) ?? []), node]);
+  }
+  orderRows(rows, data);
+
+  const sortedLevels = Array.from(rows.keys()).sort((a, b) => a - b);
+  const rowWidth = (count: number) => count * box.width + (count - 1) * hGap;
+  const width = Math.max(
+    ...sortedLevels.map((level) => rowWidth(rows.get(level)!.length))
+  );
+
+  const positions = new Map<string, Point>();
+  sortedLevels.forEach((level, rowIndex) => {
+    const row = rows.get(level)!;
+    const offset = (width - rowWidth(row.length)) / 2;
+    row.forEach((node, i) => {
+      positions.set(node.id, [
+        offset + i * (box.width + hGap),
+        rowIndex * (box.height + vGap),
+      ]);
+    });
+  });
+
+  const elements: Array<DrawingElement> = [];
+  for (const edge of data.edges) {
+    const source = positions.get(edge.source);
+    const target = positions.get(edge.target);
+    if (!source || !target) continue;
+
+    if (edge.type === "parent-child") {
+      const [upper, lower] =
+        source[1] <= target[1] ? [source, target] : [target, source];
+      elements.push({
+        kind: "path",
+        points: elbow(
+          [upper[0] + box.width / 2, upper[1] + box.height],
+          [lower[0] + box.width / 2, lower[1]],
+          true
+        ),
+        closed: false,
+        fill: null,
+        stroke: COLORS.line,
+        dashed: isDashedEdge(edge),
+      });
+    } else {
+      const [left, right] =
+        source[0] <= target[0] ? [source, target] : [target, source];
+      elements.push({
+        kind: "path",
+        points: [
+          [left[0] + box.width, left[1] + box.height / 2],
+          [right[0], right[1] + box.height / 2],
+        ],
+        closed: false,
+        fill: null,
+        stroke: COLORS.line,
+        dashed: isDashedEdge(edge),
+      });
+    }
+  }
+
+  for (const node of data.nodes) {
+    const [x, y] = positions.get(node.id)!;
+    drawPersonBox(elements, node, x, y, box, ctx);
+  }
+
+  return {
+    width,
+    height: sortedLevels.length * (box.height + vGap) - vGap,
+    elements,
+  };
+}
+
+function arcPoints(
+  center: Point,
+  radius: number,
+  from: number,
+  to: number
+): Array<Point> {
+  const steps = Math.max(2, Math.ceil(Math.abs(to - from) / 5));
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const angle = ((from + ((to - from) * i) / steps) * Math.PI) / 180;
+    return [
+      center[0] + radius * Math.cos(angle),
+      center[1] + radius * Math.sin(angle),
+    ];
+  });
+}
+
+function layoutFan(data: ChartLayoutResult, ctx: LayoutContext): ChartDrawing {
+  if (data.nodes.length === 0) return emptyDrawing(ctx);
+
+  const padding = ctx.fontSize * 0.6;
+  const lineHeight = ctx.fontSize * 1.3;
+  const textWidth = Math.max(
+    ctx.fontSize * 6,
+    ...data.nodes.flatMap((node) =>
+      personLines(node, ctx).map((line) =>
+        estimateTextWidth(
+          line.text,
+          lineSize(line, ctx),
+          ctx.fontFamily,
+          line.bold
+        )
+      )
+    )
+  );
+  const ringWidth = Math.min(textWidth, MAX_BOX_WIDTH) + padding * 2;
+  const rootRadius = ringWidth / 2;
+
+  const generations = new Map<number, Array<ChartNode>>();
+  for (const node of data.nodes) {
+    const generation = node.generation ?? 0;
+    generations.set(generation, [...(generations.get(generation) ?? []), node]);
+  }
+  const maxGeneration = Math.max(...generations.keys());
+  const outerRadius = rootRadius + maxGeneration * ringWidth;
+  const center: Point = [outerRadius, outerRadius];
+
+  const elements: Array<DrawingElement> = [];
+  const drawLines = (
+    node: ChartNode,
+    at: Point,
+    rotate: number,
+    maxWidth: number
+  ) => {
+    const lines = personLines(node, ctx);
+    const radians = (rotate * Math.PI) / 180;
+    const normal: Point = [-Math.sin(radians), Math.cos(radians)];
+    lines.forEach((line, index) => {
+      if (!line.text) return;
+      const size = lineSize(line, ctx);
+      const offset =
+        (index - (lines.length - 1) / 2) * lineHeight + size * 0.35;
+      elements.push({
+        kind: "text",
+        x: at[0] + normal[0] * offset,
+        y: at[1] + normal[1] * offset,
+        text: truncateText(line.text, maxWidth, size, ctx.fontFamily),
+        size,
+        color: line.bold ? COLORS.text : COLORS.muted,
+        anchor: "middle",
+        bold: line.bold,
+        rotate: rotate || undefined,
+      });
+    });
+  };
+
+  for (const [generation, nodes] of generations) {
+    if (generation === 0) continue;
+    const sorted = [...nodes].sort((a, b) => (a.angle ?? 0) - (b.angle ?? 0));
+    const inner = rootRadius + (generation - 1) * ringWidth;
+    const outer = inner + ringWidth;
+    const span = 180 / sorted.length;
+
+    sorted.forEach((node, index) => {
+      const from = 180 + index * span;
+      const to = from + span;
+      elements.push({
+        kind: "path",
+        points: [
+          ...arcPoints(center, outer, from, to),
+          ...arcPoints(center, inner, to, from),
+        ],
+        closed: true,
+        fill: COLORS.box,
+        stroke: genderColor(node.gender),
+      });
+
+      const mid = from + span / 2;
+      const radians = (mid * Math.PI) / 180;
+      const radius = (inner + outer) / 2;
+      drawLines(
+        node,
+        [
+          center[0] + radius * Math.cos(radians),
+          center[1] + radius * Math.sin(radians),
+        ],
+        mid < 270 ? mid - 180 : mid - 360,
+        ringWidth - padding * 2
+      );
+    });
+  }
+
+  const root =
+    data.nodes.find((node) => node.id === data.metadata.rootPersonId) ??
+    generations.get(0)?.[0];
+  if (root) {
+    elements.push({
+      kind: "path",
+      points: arcPoints(center, rootRadius, 0, 360),
+      closed: true,
+      fill: COLORS.box,
+      stroke: genderColor(root.gender),
+    });
+    drawLines(root, center, 0, rootRadius * 2 - padding * 2);
+  }
+
+  return {
+    width: outerRadius * 2,
+    height: outerRadius + rootRadius,
+    elements,
+  };
+}
+
+function layoutBowtie(
+  data: BowtieChartResult,
+  ctx: LayoutContext
+): ChartDrawing {
+  if (data.nodes.length === 0) return emptyDrawing(ctx);
+
+  const box = measureBoxes(data.nodes, ctx);
+  const hGap = ctx.fontSize * 4;
+  const vGap = ctx.fontSize;
+
+  const columns = new Map<number, Array<BowtieNode>>();
+  for (const node of data.nodes) {
+    const generation = node.generation ?? 0;
+    const column =
+      node.side === "paternal"
+        ? -generation
+        : node.side === "maternal"
+          ? generation
+          : 0;
+    columns.set(column, [...(columns.get(column) ?? []), node]);
+  }
+
+  const sortedColumns = Array.from(columns.keys()).sort((a, b) => a - b);
+  const columnHeight = (count: number) =>
+    count * box.height + (count - 1) * vGap;
+  const height = Math.max(
+    ...sortedColumns.map((column) => columnHeight(columns.get(column)!.length))
+  );
+
+  const positions = new Map<string, Point>();
+  sortedColumns.forEach((column, columnIndex) => {
+    const nodes = columns.get(column)!;
+    const offset = (height - columnHeight(nodes.length)) / 2;
+    nodes.forEach((node, i) => {
+      positions.set(node.id, [
+        columnIndex * (box.width + hGap),
+        offset + i * (box.height + vGap),
+      ]);
+    });
+  });
+
+  const elements: Array<DrawingElement> = [];
+  for (const edge of data.edges) {
+    const source = positions.get(edge.source);
+    const target = positions.get(edge.target);
+    if (!source || !target) continue;
+
+    if (source[0] === target[0]) {
+      // Couples stacked in the same column
+      const [upper, lower] =
+        source[1] <= target[1] ? [source, target] : [target, source];
+      elements.push({
+        kind: "path",
+        points: [
+          [upper[0] + box.width / 2, upper[1] + box.height],
+          [lower[0] + box.width / 2, lower[1]],
+        ],
+        closed: false,
+        fill: null,
+        stroke: COLORS.line,
+        dashed: isDashedEdge(edge),
+      });
+      continue;
+    }
+
+    const [left, right] =
+      source[0] <= target[0] ? [source, target] : [target, source];
+    const from: Point = [left[0] + box.width, left[1] + box.height / 2];
+    const to: Point = [right[0], right[1] + box.height / 2];
+    elements.push({
+      kind: "path",
+      points:
+        edge.type === "parent-child" ? elbow(from, to, false) : [from, to],
+      closed: false,
+      fill: null,
+      stroke: COLORS.line,
+      dashed: isDashedEdge(edge),
+    });
+  }
+
+  for (const node of data.nodes) {
+    const [x, y] = positions.get(node.id)!;
+    drawPersonBox(elements, node, x, y, box, ctx);
+  }
+
+  return {
+    width: sortedColumns.length * (box.width + hGap) - hGap,
+    height,
+    elements,
+  };
+}
+
+function layoutCompact(
+  data: CompactTreeResult,
+  ctx: LayoutContext
+): ChartDrawing {
+  if (data.flatList.length === 0) return emptyDrawing(ctx);
+
+  const rowHeight = ctx.fontSize * 1.8;
+  const indent = ctx.fontSize * 2;
+  const detailSize = ctx.fontSize * 0.85;
+  const elements: Array<DrawingElement> = [];
+  const rowIndex = new Map(data.flatList.map((item, i) => [item.id, i]));
+  const rows = data.flatList.map((item) => {
+    const lines = personLines(item, ctx).filter((line) => line.text);
+    return {
+      item,
+      name: lines.find((line) => line.bold)?.text ?? null,
+      details: lines
+        .filter((line) => !line.bold)
+        .map((line) => line.text)
+        .join(" · "),
+    };
+  });
+
+  // Details line up in one column after the longest indented name
+  const detailsX =
+    Math.max(
+      ...rows.map(
+        ({ item, name }) =>
+          item.generation * indent +
+          (name
+            ? estimateTextWidth(name, ctx.fontSize, ctx.fontFamily, true)
+            : 0)
+      )
+    ) +
+    ctx.fontSize * 1.5;
+  let width = detailsX;
+
+  rows.forEach(({ item, name, details }, i) => {
+    const x = item.generation * indent;
+    const baseline = i * rowHeight + rowHeight / 2 + ctx.fontSize * 0.35;
+
+    const parentIndex = item.parentId ? rowIndex.get(item.parentId) : undefined;
+    if (parentIndex !== undefined) {
+      const connectorX = x - indent / 2;
+      elements.push({
+        kind: "path",
+        points: [
+          [connectorX, (parentIndex + 1) * rowHeight - ctx.fontSize * 0.3],
+          [connectorX, i * rowHeight + rowHeight / 2],
+          [x - ctx.fontSize * 0.25, i * rowHeight + rowHeight / 2],
+        ],
+        closed: false,
+        fill: null,
+        stroke: COLORS.border,
+      });
+    }
+
+    if (name) {
+      elements.push({
+        kind: "text",
+        x,
+        y: baseline,
+        text: name,
+        size: ctx.fontSize,
+        color: COLORS.text,
+        anchor: "start",
+        bold: true,
+      });
+    }
+    if (details) {
+      elements.push({
+        kind: "text",
+        x: detailsX,
+        y: baseline,
+        text: details,
+        size: detailSize,
+        color: COLORS.muted,
+        anchor: "start",
+      });
+      width = Math.max(
+        width,
+        detailsX + estimateTextWidth(details, detailSize, ctx.fontFamily)
+      );
+    }
+  });
+
+  return {
+    width,
+    height: data.flatList.length * rowHeight,
+    elements,
+  };
+}
+
+function yearTickStep(span: number): number {
+  return [1, 2, 5, 10, 20, 25, 50, 100, 200, 500].find(
+    (step) => span / step <= 20
+  )!;
+}
+
+function layoutTimeline(
+  data: TimelineChartResult,
+  ctx: LayoutContext
+): ChartDrawing {
+  if (data.entries.length === 0) return emptyDrawing(ctx);
+
+  const showName = ctx.fields.includes("name");
+  const rowHeight = ctx.fontSize * 2.2;
+  const axisHeight = ctx.fontSize * 2.5;
+  const detailSize = ctx.fontSize * 0.85;
+  const labelWidth = showName
+    ? Math.min(
+        MAX_BOX_WIDTH,
+        Math.max(
+          ...data.entries.map((entry) =>
+            estimateTextWidth(
+              personName(entry),
+              ctx.fontSize,
+              ctx.fontFamily,
+              true
+            )
+          )
+        )
+      ) + ctx.fontSize
+    : 0;
+
+  const currentYear = new Date().getUTCFullYear();
+  const minYear = data.metadata.minYear;
+  const maxYear = Math.max(data.metadata.maxYear, minYear + 1);
+  const pointsPerYear = Math.max(4, (ctx.fontSize * 60) / (maxYear - minYear));
+  const axisWidth = (maxYear - minYear) * pointsPerYear;
+  const yearX = (year: number) => labelWidth + (year - minYear) * pointsPerYear;
+
+  const elements: Array<DrawingElement> = [];
+  const chartBottom = axisHeight + data.entries.length * rowHeight;
+  const step = yearTickStep(maxYear - minYear);
+  for (
+    let year = Math.ceil(minYear / step) * step;
+    year <= maxYear;
+    year += step
+  ) {
+    elements.push({
+      kind: "path",
+      points: [
+        [yearX(year), axisHeight - ctx.fontSize * 0.5],
+        [yearX(year), chartBottom],
+      ],
+      closed: false,
+      fill: null,
+      stroke: COLORS.border,
+    });
+    elements.push({
+      kind: "text",
+      x: yearX(year),
+      y: axisHeight - ctx.fontSize,
+      text: String(year),
+      size: detailSize,
+      color: COLORS.muted,
+      anchor: "middle",
+    });
+  }
+
+  let width = labelWidth + axisWidth;
+  data.entries.forEach((entry, i) => {
+    const top = axisHeight + i * rowHeight;
+    const baseline = top + rowHeight / 2 + ctx.fontSize * 0.35;
+
+    if (showName) {
+      elements.push({
+        kind: "text",
+        x: labelWidth - ctx.fontSize,
+        y: baseline,
+        text: truncateText(
+          personName(entry),
+          labelWidth - ctx.fontSize,
+          ctx.fontSize,
+          ctx.fontFamily
+        ),
+        size: ctx.fontSize,
+        color: COLORS.text,
+        anchor: "end",
+        bold: true,
+      });
+    }
+
+    const start = entry.birthYear ?? entry.deathYear;
+    if (start === null) return;
+    const end = entry.deathYear ?? (entry.isLiving ? currentYear : start + 1);
+    const barHeight = rowHeight * 0.5;
+    elements.push({
+      kind: "rect",
+      x: yearX(start),
+      y: top + (rowHeight - barHeight) / 2,
+      width: Math.max(2, (end - start) * pointsPerYear),
+      height: barHeight,
+      fill: genderColor(entry.gender),
+      stroke: null,
+    });
+
+    const details = [
+      ctx.fields.includes("birthDate")
+        ? (entry.birthDateLabel ?? entry.birthYear?.toString())
+        : null,
+      ctx.fields.includes("deathDate")
+        ? (entry.deathDateLabel ??
+          entry.deathYear?.toString() ??
+          (entry.isLiving ? "living" : null))
+        : null,
+      ctx.fields.includes("gender") ? formatGender(entry.gender) : null,
+    ]
+      .filter(Boolean)
+      .join(" – ");
+    if (details) {
+      const x = yearX(Math.max(start, end)) + ctx.fontSize * 0.5;
+      elements.push({
+        kind: "text",
+        x,
+        y: baseline,
+        text: details,
+        size: detailSize,
+        color: COLORS.muted,
+        anchor: "start",
+      });
+      width = Math.max(
+        width,
+        x + estimateTextWidth(details, detailSize, ctx.fontFamily)
+      );
+    }
+  });
+
+  return { width, height: chartBottom, elements };
+}
+
+function hasArray(data: unknown, key: string): boolean {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    Array.isArray((data as Record<string, unknown>)[key])
+  );
+}
+
+function hasMetadata(data: unknown): boolean {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    typeof (data as Record<string, unknown>).metadata === "object"
+  );
+}
+
+function assertChartData(
+  chartType: ExportableChartType,
+  chartData: unknown
+): void {
+  const valid =
+    chartType === "compact"
+      ? hasArray(chartData, "flatList")
+      : chartType === "timeline"
+        ? hasArray(chartData, "entries") && hasMetadata(chartData)
+        : hasArray(chartData, "nodes") &&
+          hasArray(chartData, "edges") &&
+          hasMetadata(chartData);
+  if (!valid) {
+    throw new Error(`Invalid chart data for ${chartType} export`);
+  }
+}
+
+function translateElement(
+  element: DrawingElement,
+  dx: number,
+  dy: number
+): DrawingElement {
+  if (element.kind === "path") {
+    return {
+      ...element,
+      points: element.points.map(([x, y]): Point => [x + dx, y + dy]),
+    };
+  }
+  return { ...element, x: element.x + dx, y: element.y + dy };
+}
+
+/**
+ * Lays out a chart payload as a drawing
+ *
+ * @param chartType - Chart the payload came from
+ * @param chartData - Result of the matching chart data function
+ * @param options - Resolved export options (fonts, fields and title)
+ * @returns Drawing with a margin and optional title around the chart
+ * @throws Error if the payload does not match the chart type
+ */
+export function buildChartDrawing(
+  chartType: ExportableChartType,
+  chartData: unknown,
+  options: ChartExportOptions
+): ChartDrawing {
+  assertChartData(chartType, chartData);
+
+  const ctx: LayoutContext = {
+    fontSize: options.fontSize,
+    fontFamily: options.fontFamily,
+    fields: options.fields,
+  };
+
+  let body: ChartDrawing;
+  switch (chartType) {
+    case "fan":
+      body = layoutFan(chartData as ChartLayoutResult, ctx);
+      break;
+    case "bowtie":
+      body = layoutBowtie(chartData as BowtieChartResult, ctx);
+      break;
+    case "compact":
+      body = layoutCompact(chartData as CompactTreeResult, ctx);
+      break;
+    case "timeline":
+      body = layoutTimeline(chartData as TimelineChartResult, ctx);
+      break;
+    default:
+      body = layoutGenerations(chartData as ChartLayoutResult, chartType, ctx);
+  }
+
+  const padding = ctx.fontSize * 2;
+  const titleSize = ctx.fontSize * 1.8;
+  const header = options.title ? titleSize * 2 : 0;
+  const elements = body.elements.map((element) =>
+    translateElement(element, padding, padding + header)
+  );
+  if (options.title) {
+    elements.unshift({
+      kind: "text",
+      x: padding,
+      y: padding + titleSize,
+      text: options.title,
+      size: titleSize,
+      color: COLORS.text,
+      anchor: "start",
+      bold: true,
+    });
+  }
+
+  return {
+    width:
+      Math.max(
+        body.width,
+        options.title
+          ? estimateTextWidth(options.title, titleSize, ctx.fontFamily)
+          : 0
+      ) +
+      padding * 2,
+    height: body.height + header + padding * 2,
+    elements,
+  };
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function svgPaint(fill: string | null, stroke: string | null): string {
+  return `fill="${fill ?? "none"}" stroke="${stroke ?? "none"}"`;
+}
+
+function svgNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Renders a drawing as a standalone SVG document
+ */
+export function renderDrawingToSVG(
+  drawing: ChartDrawing,
+  options: ChartExportOptions
+): string {
+  const width = svgNumber(drawing.width);
+  const height = svgNumber(drawing.height);
+  const body = drawing.elements.map((element) => {
+    switch (element.kind) {
+      case "rect":
+        return `<rect x="${svgNumber(element.x)}" y="${svgNumber(element.y)}" width="${svgNumber(element.width)}" height="${svgNumber(element.height)}" ${svgPaint(element.fill, element.stroke)}/>`;
+      case "path": {
+        const tag = element.closed ? "polygon" : "polyline";
+        const points = element.points
+          .map(([x, y]) => `${svgNumber(x)},${svgNumber(y)}`)
+          .join(" ");
+        const dash = element.dashed ? ' stroke-dasharray="4 3"' : "";
+        return `<${tag} points="${points}" ${svgPaint(element.fill, element.stroke)}${dash}/>`;
+      }
+      case "text": {
+        const weight = element.bold ? ' font-weight="bold"' : "";
+        const transform = element.rotate
+          ? ` transform="rotate(${svgNumber(element.rotate)} ${svgNumber(element.x)} ${svgNumber(element.y)})"`
+          : "";
+        return `<text x="${svgNumber(element.x)}" y="${svgNumber(element.y)}" font-size="${svgNumber(element.size)}" fill="${element.color}" text-anchor="${element.anchor}"${weight}${transform}>${escapeXml(element.text)}</text>`;
+      }
+    }
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${escapeXml(SVG_FONT_STACKS[options.fontFamily])}" stroke-width="1">`,
+    ...(options.title ? [`<title>${escapeXml(options.title)}</title>`] : []),
+    `<rect width="${width}" height="${height}" fill="${COLORS.background}"/>`,
+    ...body,
+    "</svg>",
+  ].join("\n");
+}
+
+/**
+ * Colour and painting operators for a path; colours must be set before the
+ * path is constructed
+ */
+function pdfPaint(
+  fill: string | null,
+  stroke: string | null
+): { colors: string; paint: string } {
+  const colors: Array<string> = [];
+  if (fill) colors.push(`${pdfColor(fill)} rg`);
+  if (stroke) colors.push(`${pdfColor(stroke)} RG`);
+  return {
+    colors: colors.join(" "),
+    paint: fill && stroke ? "B" : fill ? "f" : "S",
+  };
+}
+
+/**
+ * Converts drawing elements to PDF content stream operators
+ *
+ * Expects a current transformation matrix with y growing downwards, so
+ * text matrices flip glyphs back upright. Text is encoded for the fonts of
+ * the document it goes into.
+ */
+function drawingToPdfOperators(
+  drawing: ChartDrawing,
+  fontFamily: ChartFontFamily,
+  doc: PdfDocument
+): string {
+  const n = pdfNumber;
+  return drawing.elements
+    .map((element) => {
+      switch (element.kind) {
+        case "rect": {
+          const { colors, paint } = pdfPaint(element.fill, element.stroke);
+          return `${colors} ${n(element.x)} ${n(element.y)} ${n(element.width)} ${n(element.height)} re ${paint}`;
+        }
+        case "path": {
+          const [first, ...rest] = element.points;
+          const path = [
+            `${n(first[0])} ${n(first[1])} m`,
+            ...rest.map(([x, y]) => `${n(x)} ${n(y)} l`),
+            ...(element.closed ? ["h"] : []),
+          ].join(" ");
+          const { colors, paint } = pdfPaint(element.fill, element.stroke);
+          return element.dashed
+            ? `${colors} [4 3] 0 d ${path} ${paint} [] 0 d`
+            : `${colors} ${path} ${paint}`;
+        }
+        case "text": {
+          const radians = ((element.rotate ?? 0) * Math.PI) / 180;
+          const cos = Math.cos(radians);
+          const sin = Math.sin(radians);
+          const textWidth =
+            doc.textWidth(element.text, element.size, element.bold) ??
+            estimateTextWidth(
+              element.text,
+              element.size,
+              fontFamily,
+              element.bold
+            );
+          const shift =
+            element.anchor === "middle"
+              ? textWidth / 2
+              : element.anchor === "end"
+                ? textWidth
+                : 0;
+          const x = element.x - cos * shift;
+          const y = element.y - sin * shift;
+          const font = element.bold ? PDF_FONT_BOLD : PDF_FONT_REGULAR;
+          return `BT /${font} ${n(element.size)} Tf ${pdfColor(element.color)} rg ${n(cos)} ${n(sin)} ${n(sin)} ${n(-cos)} ${n(x)} ${n(y)} Tm ${doc.text(element.text, element.bold)} Tj ET`;
+        }
+      }
+    })
+    .join("\n");
+}
+
+/**
+ * Renders a drawing as a PDF document
+ *
+ * With the "fit" page layout the chart is scaled onto a single page. With
+ * "tile" it is printed at full size across as many pages as needed, each
+ * labelled with its row and column so the sheets can be assembled into a
+ * wall chart.
+ *
+ * Text is printed with the TrueType font configured with PDF_FONT_PATH
+ * when there is one, otherwise with the standard font of the chosen family.
+ *
+ * @throws PdfUnprintableTextError if the fonts have no glyphs for some text
+ * (names in non-Latin scripts without a font that covers them); SVG and PNG
+ * exports handle those
+ */
+export function renderDrawingToPDF(
+  drawing: ChartDrawing,
+  options: ChartExportOptions
+): Buffer {
+  const doc = new PdfDocument(
+    getConfiguredPdfFonts() ?? PDF_FONTS[options.fontFamily],
+    { title: options.title, creator: "Vamsa" }
+  );
+
+  for (const element of drawing.elements) {
+    if (element.kind === "text" && !doc.canPrint(element.text, element.bold)) {
+      throw new PdfUnprintableTextError(element.text);
+    }
+  }
+
+  const [shortSide, longSide] = PAPER_SIZES_MM[options.paperSize];
+  const pageWidth = mmToPt(
+    options.orientation === "landscape" ? longSide : shortSide
+  );
+  const pageHeight = mmToPt(
+    options.orientation === "landscape" ? shortSide : longSide
+  );
+  const margin = mmToPt(options.margin);
+  const areaWidth = pageWidth - margin * 2;
+  const areaHeight = pageHeight - margin * 2;
+
+  const operators = drawingToPdfOperators(drawing, options.fontFamily, doc);
+  const n = pdfNumber;
+  const flip = `1 0 0 -1 0 ${n(pageHeight)} cm 0.75 w`;
+
+  if (options.pageLayout === "fit") {
+    const scale = Math.min(
+      areaWidth / drawing.width,
+      areaHeight / drawing.height,
+      MAX_FIT_SCALE
+    );
+    const x = margin + (areaWidth - drawing.width * scale) / 2;
+    const y = margin + (areaHeight - drawing.height * scale) / 2;
+    doc.addPage(
+      pageWidth,
+      pageHeight,
+      `q ${flip} ${n(scale)} 0 0 ${n(scale)} ${n(x)} ${n(y)} cm\n${operators}\nQ`
+    );
+    return doc.toBuffer();
+  }
+
+  const columns = Math.ceil(drawing.width / areaWidth);
+  const rows = Math.ceil(drawing.height / areaHeight);
+  const labelSize = 7;
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const clip = `${n(margin)} ${n(margin)} ${n(areaWidth)} ${n(areaHeight)} re W n`;
+      const offset = `1 0 0 1 ${n(margin - column * areaWidth)} ${n(margin - row * areaHeight)} cm`;
+      const label =
+        margin >= labelSize * 2
+          ? `\nBT /${PDF_FONT_REGULAR} ${labelSize} Tf ${pdfColor(COLORS.muted)} rg ${n(margin)} ${n(margin / 2 - labelSize / 3)} Td ${doc.text(`Row ${row + 1} of ${rows}, column ${column + 1} of ${columns}`)} Tj ET`
+          : "";
+      doc.addPage(
+        pageWidth,
+        pageHeight,
+        `q ${flip} ${clip} ${offset}\n${operators}\nQ${label}`
+      );
+    }
+  }
+  return doc.toBuffer();
+}
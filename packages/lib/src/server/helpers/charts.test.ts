@@ -3,6 +3,7 @@
  *
  * Tests cover pure functions for chart data collection and layout:
  * - buildRelationshipMaps: extracting parent/child/spouse maps
+ * - describeChartEdge: pedigree and partnership lookups for edges
  * - collectAncestors: recursive ancestor collection with generation tracking
  * - collectDescendants: recursive descendant collection with generation tracking
  * - calculateFanLayout: radial angle position calculation
@@ -22,6 +23,7 @@ import {
   collectDescendants,
   collectTreeAncestors,
   collectTreeDescendants,
+  describeChartEdge,
 } from "./charts";
 import type { CollectionState, PersonData, RelationshipData } from "./charts";
 
@@ -143,6 +145,79 @@ describe("chart helpers", () => {
       expect(maps.parentRels.length).toBe(1);
       expect(maps.spouseRels.length).toBe(1);
     });
+
+    it("should treat unmarried partners as couples", () => {
+      const maps = buildRelationshipMaps([
+        { type: "PARTNER", personId: "person1", relatedPersonId: "person2" },
+      ]);
+
+      expect(maps.spouseMap.get("person1")).toEqual(new Set(["person2"]));
+      expect(maps.partnerPairs.has("person2:person1")).toBe(true);
+    });
+
+    it("should record pedigrees of parent links not by birth", () => {
+      const maps = buildRelationshipMaps([
+        {
+          type: "PARENT",
+          personId: "child1",
+          relatedPersonId: "parent1",
+          pedigree: "ADOPTED",
+        },
+        {
+          type: "PARENT",
+          personId: "child1",
+          relatedPersonId: "parent2",
+          pedigree: "BIRTH",
+        },
+      ]);
+
+      expect(maps.pedigrees.get("child1:parent1")).toBe("ADOPTED");
+      expect(maps.pedigrees.has("child1:parent2")).toBe(false);
+    });
+  });
+
+  describe("describeChartEdge", () => {
+    const maps = buildRelationshipMaps([
+      {
+        type: "PARENT",
+        personId: "child1",
+        relatedPersonId: "parent1",
+        pedigree: "FOSTER",
+      },
+      { type: "PARENT", personId: "child1", relatedPersonId: "parent2" },
+      { type: "PARTNER", personId: "parent1", relatedPersonId: "partner1" },
+      { type: "SPOUSE", personId: "parent2", relatedPersonId: "spouse1" },
+    ]);
+
+    it("should return the pedigree of a parent-child edge", () => {
+      expect(
+        describeChartEdge(
+          { source: "parent1", target: "child1", type: "parent-child" },
+          maps
+        )
+      ).toEqual({ pedigree: "FOSTER" });
+      expect(
+        describeChartEdge(
+          { source: "parent2", target: "child1", type: "parent-child" },
+          maps
+        )
+      ).toEqual({});
+    });
+
+    it("should flag partner edges but not marriages", () => {
+      expect(
+        describeChartEdge(
+          { source: "partner1", target: "parent1", type: "spouse" },
+          maps
+        )
+      ).toEqual({ isPartner: true });
+      expect(
+        describeChartEdge(
+          { source: "parent2", target: "spouse1", type: "spouse" },
+          maps
+        )
+      ).toEqual({});
+    });
   });
 
   describe("collectAncestors", () => {
@@ -6,6 +6,7 @@
  *
  * Exported Functions:
  * - buildRelationshipMaps: Extracts parent/child/spouse maps from relationships
+ * - describeChartEdge: Looks up the pedigree or partnership behind a chart edge
  * - collectAncestors: Recursively collects ancestors going back N generations
  * - collectDescendants: Recursively collects descendants going forward N generations
  * - calculateFanLayout: Calculates angle positions for fan/radial chart layout
@@ -14,6 +15,8 @@
  * - collectTreeDescendants: Collects descendants with positive generation numbering
  */
 
+import type { ParentPedigree } from "@vamsa/schemas";
+
 /**
  * Person data structure used throughout helper functions
  */
@@ -45,6 +48,7 @@ export interface RelationshipData {
   type: string;
   personId: string;
   relatedPersonId: string;
+  pedigree?: ParentPedigree | null;
 }
 
 /**
@@ -56,6 +60,10 @@ export interface RelationshipMaps {
   spouseMap: Map<string, Set<string>>;
   spouseRels: Array<RelationshipData>;
   parentRels: Array<RelationshipData>;
+  /** "childId:parentId" -> pedigree, for parent links not by birth */
+  pedigrees: Map<string, ParentPedigree>;
+  /** "personId:partnerId" in both orders, for unmarried couples */
+  partnerPairs: Set<string>;
 }
 
 /**
@@ -64,7 +72,10 @@ export interface RelationshipMaps {
  * Takes a flat array of relationships and creates three optimized maps:
  * - childToParents: Maps each child to their parent(s)
  * - parentToChildren: Maps each parent to their child(ren)
- * - spouseMap: Maps each spouse to their spouse(s)
+ * - spouseMap: Maps each spouse or unmarried partner to their partner(s)
+ *
+ * Non-birth pedigrees and unmarried couples are recorded separately so chart
+ * edges can be drawn differently (see describeChartEdge).
  *
  * @param relationships - Array of relationship objects with type, personId, relatedPersonId
  * @returns Object containing childToParents, parentToChildren, and spouseMap
@@ -82,16 +93,24 @@ export function buildRelationshipMaps(
   relationships: Array<RelationshipData>
 ): RelationshipMaps {
   const parentRels = relationships.filter((r) => r.type === "PARENT");
-  const spouseRels = relationships.filter((r) => r.type === "SPOUSE");
+  const spouseRels = relationships.filter(
+    (r) => r.type === "SPOUSE" || r.type === "PARTNER"
+  );
 
   const childToParents = new Map<string, Set<string>>();
   const parentToChildren = new Map<string, Set<string>>();
   const spouseMap = new Map<string, Set<string>>();
+  const pedigrees = new Map<string, ParentPedigree>();
+  const partnerPairs = new Set<string>();
 
   parentRels.forEach((rel) => {
     const childId = rel.personId;
     const parentId = rel.relatedPersonId;
 
+    if (rel.pedigree && rel.pedigree !== "BIRTH") {
+      pedigrees.set(`${childId}:${parentId}`, rel.pedigree);
+    }
+
     if (!childToParents.has(childId)) childToParents.set(childId, new Set());
     childToParents.get(childId)!.add(parentId);
 
@@ -106,6 +125,11 @@ export function buildRelationshipMaps(
       spouseMap.set(rel.relatedPersonId, new Set());
     spouseMap.get(rel.personId)!.add(rel.relatedPersonId);
     spouseMap.get(rel.relatedPersonId)!.add(rel.personId);
+
+    if (rel.type === "PARTNER") {
+      partnerPairs.add(`${rel.personId}:${rel.relatedPersonId}`);
+      partnerPairs.add(`${rel.relatedPersonId}:${rel.personId}`);
+    }
   });
 
   return {
@@ -114,9 +138,40 @@ export function buildRelationshipMaps(
     spouseMap,
     spouseRels,
     parentRels,
+    pedigrees,
+    partnerPairs,
   };
 }
 
+/**
+ * Looks up what kind of link a collected chart edge stands for
+ *
+ * Parent-child edges run from parent (source) to child (target) and get the
+ * link's pedigree when it is not by birth. Spouse edges between unmarried
+ * partners get isPartner.
+ *
+ * @param edge - Edge collected by one of the collect* helpers
+ * @param maps - Maps built by buildRelationshipMaps from the same relationships
+ * @returns Extra edge fields, empty for birth links and marriages
+ *
+ * @example
+ * describeChartEdge({ source: 'mum', target: 'kid', type: 'parent-child' }, maps)
+ * // { pedigree: 'ADOPTED' }
+ */
+export function describeChartEdge(
+  edge: { source: string; target: string; type: string },
+  maps: Pick<RelationshipMaps, "pedigrees" | "partnerPairs">
+): { pedigree?: ParentPedigree; isPartner?: boolean } {
+  if (edge.type === "parent-child") {
+    const pedigree = maps.pedigrees.get(`${edge.target}:${edge.source}`);
+    return pedigree ? { pedigree } : {};
+  }
+  if (maps.partnerPairs.has(`${edge.source}:${edge.target}`)) {
+    return { isPartner: true };
+  }
+  return {};
+}
+
 /**
  * Recursively collects ancestors going back N generations
  *
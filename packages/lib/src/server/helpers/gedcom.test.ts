@@ -475,6 +475,14 @@ describe("GEDCOM helpers", () => {
       const emptyMapped = {
         people: [],
         relationships: [],
+        events: [],
+        places: [],
+        sources: [],
+        eventSources: [],
+        researchNotes: [],
+        mediaObjects: [],
+        personMedia: [],
+        eventMedia: [],
         warnings: [],
         errors: [],
       };
@@ -11,6 +11,7 @@ import type {
   GedcomFile,
   GeneratorOptions,
   MappingResult,
+  VamsaGenealogyData,
   VamsaPerson,
   VamsaRelationship,
 } from "@vamsa/lib";
@@ -198,6 +199,7 @@ export function mapGedcomToEntities(gedcomFile: GedcomFile): MappingResult {
  * @param people - Array of Vamsa persons
  * @param relationships - Array of Vamsa relationships
  * @param options - Generator options (source program, submitter name, etc.)
+ * @param records - Events, places, sources, citations and media to include
  * @returns GEDCOM formatted text content
  *
  * @example
@@ -209,13 +211,18 @@ export function mapGedcomToEntities(gedcomFile: GedcomFile): MappingResult {
 export function generateGedcomOutput(
   people: Array<VamsaPerson>,
   relationships: Array<VamsaRelationship>,
-  options: GeneratorOptions
+  options: GeneratorOptions,
+  records: VamsaGenealogyData = {}
 ): string {
   const mapper = new GedcomMapper();
-  const { individuals, families } = mapper.mapToGedcom(people, relationships);
+  const { individuals, families, sources, objects } = mapper.mapToGedcom(
+    people,
+    relationships,
+    records
+  );
 
   const generator = new GedcomGenerator(options);
-  return generator.generate(individuals, families);
+  return generator.generate(individuals, families, sources, objects);
 }
 
 /**
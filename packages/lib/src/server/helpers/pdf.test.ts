@@ -0,0 +1,255 @@
+/**
+ * Unit tests for the minimal PDF writer
+ *
+ * Tests cover:
+ * - pdfString: escaping and WinAnsi encoding of text
+ * - isPdfEncodable: detecting text the standard fonts cannot print
+ * - pdfColor / pdfNumber / mmToPt: number formatting helpers
+ * - PdfDocument: object layout, fonts and a consistent xref table
+ * - Embedded TrueType fonts: glyph strings, widths and ToUnicode maps
+ * - getConfiguredPdfFonts: fonts configured with PDF_FONT_PATH
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { inflateSync } from "node:zlib";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { buildTestFont } from "../../testing/truetype-fixtures";
+import {
+  PdfDocument,
+  PdfUnprintableTextError,
+  getConfiguredPdfFonts,
+  isPdfEncodable,
+  mmToPt,
+  pdfColor,
+  pdfNumber,
+  pdfString,
+} from "./pdf";
+import { TrueTypeFont } from "./truetype";
+
+describe("pdf helpers", () => {
+  describe("pdfString", () => {
+    it("should escape parentheses and backslashes", () => {
+      expect(pdfString("a (b) \\ c")).toBe("(a \\(b\\) \\\\ c)");
+    });
+
+    it("should encode Latin-1 letters as octal escapes", () => {
+      expect(pdfString("Åsa")).toBe("(\\305sa)");
+    });
+
+    it("should map typographic punctuation to WinAnsi codes", () => {
+      expect(pdfString("1850–1900")).toBe("(1850\\2261900)");
+    });
+
+    it("should fall back to the base letter for other accented letters", () => {
+      expect(pdfString("Dvořák")).toBe("(Dvor\\341k)");
+    });
+
+    it("should replace characters outside WinAnsi with a question mark", () => {
+      expect(pdfString("राम")).toBe("(???)");
+    });
+  });
+
+  describe("isPdfEncodable", () => {
+    it("should accept Latin text including letters with a base letter", () => {
+      expect(isPdfEncodable("Åsa Dvořák – 1850")).toBe(true);
+    });
+
+    it("should reject text in other scripts", () => {
+      expect(isPdfEncodable("Ram राम")).toBe(false);
+    });
+  });
+
+  describe("number helpers", () => {
+    it("should round numbers to three decimals", () => {
+      expect(pdfNumber(1 / 3)).toBe("0.333");
+      expect(pdfNumber(-0.0001)).toBe("0");
+    });
+
+    it("should convert hex colours to RGB fractions", () => {
+      expect(pdfColor("#ff0000")).toBe("1 0 0");
+      expect(pdfColor("#ffffff")).toBe("1 1 1");
+    });
+
+    it("should convert millimetres to points", () => {
+      expect(mmToPt(25.4)).toBe(72);
+    });
+  });
+
+  describe("PdfDocument", () => {
+    it("should refuse to serialize an empty document", () => {
+      expect(() => new PdfDocument().toBuffer()).toThrow(
+        "PDF document has no pages"
+      );
+    });
+
+    it("should register the regular and bold standard fonts", () => {
+      const doc = new PdfDocument("Times");
+      doc.addPage(100, 100, "BT /F1 12 Tf (x) Tj ET");
+      const pdf = doc.toBuffer().toString("latin1");
+
+      expect(pdf).toContain("/BaseFont /Times-Roman");
+      expect(pdf).toContain("/BaseFont /Times-Bold");
+    });
+
+    it("should write one page object per page", () => {
+      const doc = new PdfDocument();
+      doc.addPage(595, 842, "");
+      doc.addPage(842, 595, "");
+      const pdf = doc.toBuffer().toString("latin1");
+
+      expect(doc.pageCount).toBe(2);
+      expect(pdf).toContain("/Count 2");
+      expect(pdf).toContain("/MediaBox [0 0 842 595]");
+    });
+
+    it("should point every xref entry at its object", () => {
+      const doc = new PdfDocument("Helvetica", { title: "Family" });
+      doc.addPage(200, 200, "0 0 10 10 re f");
+      const buffer = doc.toBuffer();
+      const pdf = buffer.toString("latin1");
+
+      const startXref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+      expect(pdf.slice(startXref, startXref + 4)).toBe("xref");
+
+      const offsets = Array.from(pdf.matchAll(/(\d{10}) 00000 n/g)).map(
+        (match) => Number(match[1])
+      );
+      offsets.forEach((offset, index) => {
+        expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+      });
+      expect(pdf).toContain("/Title (Family)");
+    });
+  });
+
+  describe("PdfDocument with embedded fonts", () => {
+    const regular = TrueTypeFont.parse(
+      buildTestFont("राम Row", { name: "TestDeva-Regular" })
+    );
+    const bold = TrueTypeFont.parse(
+      buildTestFont("राम", { name: "TestDeva-Bold" })
+    );
+
+    it("should print any text the font has glyphs for", () => {
+      const doc = new PdfDocument({ regular });
+
+      expect(doc.canPrint("राम")).toBe(true);
+      expect(doc.canPrint("Ram")).toBe(false);
+      // Accented letters fall back to their base letter: "ó" prints as
+      // "o", while the font has no "r" for "ŕ"
+      expect(doc.canPrint("Rów")).toBe(true);
+      expect(doc.canPrint("Rŕw")).toBe(false);
+      expect(new PdfDocument("Helvetica").canPrint("राम")).toBe(false);
+    });
+
+    it("should encode text as glyph IDs", () => {
+      const doc = new PdfDocument({ regular });
+
+      // Glyphs in code point order: space, R, o, w, म, र, ा
+      expect(doc.text("राम")).toBe("<000600070005>");
+    });
+
+    it("should measure text with the font's advance widths", () => {
+      const doc = new PdfDocument({ regular });
+
+      // Glyph 5 is 550 units wide in a 1000-unit em
+      expect(doc.textWidth("म", 10)).toBe(5.5);
+      expect(new PdfDocument("Helvetica").textWidth("Ram", 10)).toBeNull();
+    });
+
+    it("should embed the font with widths and a ToUnicode map", () => {
+      const doc = new PdfDocument({ regular }, { title: "राम" });
+      doc.addPage(100, 100, `BT /F1 12 Tf ${doc.text("राम")} Tj ET`);
+      const pdf = doc.toBuffer().toString("latin1");
+
+      expect(pdf).toContain(
+        "/Subtype /Type0 /BaseFont /TestDeva-Regular /Encoding /Identity-H"
+      );
+      expect(pdf).toContain("/CIDToGIDMap /Identity");
+      expect(pdf).toContain("/W [5 [550] 6 [560] 7 [570]]");
+      expect(pdf).toContain("<0006> <0930>");
+      expect(pdf).toContain("/Title <FEFF0930093E092E>");
+
+      const stream = pdf.match(
+        /\/Length (\d+) \/Length1 (\d+) \/Filter \/FlateDecode >>\nstream\n/
+      )!;
+      const start = stream.index! + stream[0].length;
+      const fontFile = Buffer.from(
+        pdf.slice(start, start + Number(stream[1])),
+        "latin1"
+      );
+      expect(inflateSync(fontFile).equals(regular.data)).toBe(true);
+      expect(Number(stream[2])).toBe(regular.data.length);
+    });
+
+    it("should use the bold font for /F2 when one is set", () => {
+      const doc = new PdfDocument({ regular, bold });
+      doc.addPage(100, 100, `BT /F2 12 Tf ${doc.text("राम", true)} Tj ET`);
+      const pdf = doc.toBuffer().toString("latin1");
+
+      expect(pdf).toContain("/BaseFont /TestDeva-Bold");
+      expect(doc.text("र", true)).toBe("<0002>");
+    });
+
+    it("should use the regular font for bold text without a bold font", () => {
+      const doc = new PdfDocument({ regular });
+      doc.addPage(100, 100, "");
+      const pdf = doc.toBuffer().toString("latin1");
+
+      expect(pdf.match(/\/Subtype \/Type0/g)).toHaveLength(1);
+      expect(pdf).toMatch(/\/F1 (\d+) 0 R \/F2 \1 0 R/);
+    });
+  });
+
+  describe("PdfUnprintableTextError", () => {
+    it("should name the text and how to print it", () => {
+      const error = new PdfUnprintableTextError("राम");
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe("PdfUnprintableTextError");
+      expect(error.text).toBe("राम");
+      expect(error.message).toContain("PDF_FONT_PATH");
+    });
+  });
+
+  describe("getConfiguredPdfFonts", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "vamsa-pdf-font-"));
+    });
+
+    afterEach(() => {
+      delete process.env.PDF_FONT_PATH;
+      delete process.env.PDF_FONT_BOLD_PATH;
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should use the standard fonts when no font is configured", () => {
+      expect(getConfiguredPdfFonts()).toBeNull();
+    });
+
+    it("should load the configured regular and bold fonts", () => {
+      writeFileSync(join(dir, "regular.ttf"), buildTestFont("A"));
+      writeFileSync(
+        join(dir, "bold.ttf"),
+        buildTestFont("A", { name: "TestSans-Bold" })
+      );
+      process.env.PDF_FONT_PATH = join(dir, "regular.ttf");
+      process.env.PDF_FONT_BOLD_PATH = join(dir, "bold.ttf");
+
+      const fonts = getConfiguredPdfFonts()!;
+
+      expect(fonts.regular.postScriptName).toBe("TestSans-Regular");
+      expect(fonts.bold?.postScriptName).toBe("TestSans-Bold");
+    });
+
+    it("should fail for a file that is not a TrueType font", () => {
+      writeFileSync(join(dir, "broken.ttf"), "not a font at all");
+      process.env.PDF_FONT_PATH = join(dir, "broken.ttf");
+
+      expect(() => getConfiguredPdfFonts()).toThrow("Not a TrueType font");
+    });
+  });
+});
@@ -0,0 +1,520 @@
+/**
+ * Minimal PDF 1.4 writer
+ *
+ * Produces vector PDF documents from raw content streams, so no native
+ * libraries are needed on the server. Callers build each page's content
+ * stream with the helpers below and the writer takes care of objects,
+ * fonts and the xref table.
+ *
+ * Text is printed with one of the 14 standard PDF fonts unless a TrueType
+ * font is configured with PDF_FONT_PATH (and optionally PDF_FONT_BOLD_PATH),
+ * in which case that font is embedded and prints any script it has glyphs
+ * for. Glyphs are placed one per character without shaping, so scripts
+ * that join or reorder letters print in their plain letter forms.
+ *
+ * Standard fonts use WinAnsiEncoding, which covers Western European
+ * scripts. Other accented letters are reduced to their base letter; text in
+ * other scripts (Devanagari, Cyrillic, CJK, ...) needs an embedded font.
+ * PdfDocument.canPrint tells whether the document's fonts can print a text.
+ */
+
+import { readFileSync } from "node:fs";
+import { deflateSync } from "node:zlib";
+import { MISSING_GLYPH, TrueTypeFont } from "./truetype";
+
+/** Standard font families available without embedding */
+export type PdfFontFamily = "Helvetica" | "Times" | "Courier";
+
+/** Resource names of the fonts registered on every page */
+export const PDF_FONT_REGULAR = "F1";
+export const PDF_FONT_BOLD = "F2";
+
+const FONT_NAMES: Record<PdfFontFamily, { regular: string; bold: string }> = {
+  Helvetica: { regular: "Helvetica", bold: "Helvetica-Bold" },
+  Times: { regular: "Times-Roman", bold: "Times-Bold" },
+  Courier: { regular: "Courier", bold: "Courier-Bold" },
+};
+
+/** TrueType fonts embedded in place of the standard fonts */
+export interface PdfEmbeddedFonts {
+  regular: TrueTypeFont;
+  /** Used for bold text; bold text uses the regular font when unset */
+  bold?: TrueTypeFont;
+}
+
+/**
+ * Error thrown when a document's fonts have no glyphs for some text
+ */
+export class PdfUnprintableTextError extends Error {
+  constructor(public readonly text: string) {
+    super(
+      `PDF export cannot print "${text}"; configure a PDF font that covers it (PDF_FONT_PATH) or export the chart as SVG or PNG instead`
+    );
+    this.name = "PdfUnprintableTextError";
+  }
+}
+
+const loadedFonts = new Map<string, TrueTypeFont>();
+
+function loadFont(path: string): TrueTypeFont {
+  let font = loadedFonts.get(path);
+  if (!font) {
+    font = TrueTypeFont.parse(readFileSync(path));
+    loadedFonts.set(path, font);
+  }
+  return font;
+}
+
+/**
+ * Fonts to embed, as configured with PDF_FONT_PATH and PDF_FONT_BOLD_PATH
+ *
+ * Font files are read once and kept for later documents.
+ *
+ * @returns The configured fonts, or null to use the standard fonts
+ * @throws Error if a configured file cannot be read or is not a TrueType font
+ */
+export function getConfiguredPdfFonts(): PdfEmbeddedFonts | null {
+  const regularPath = process.env.PDF_FONT_PATH;
+  if (!regularPath) return null;
+
+  const boldPath = process.env.PDF_FONT_BOLD_PATH;
+  return {
+    regular: loadFont(regularPath),
+    bold: boldPath ? loadFont(boldPath) : undefined,
+  };
+}
+
+/** Millimetres to PDF points (1/72 inch) */
+export function mmToPt(mm: number): number {
+  return (mm * 72) / 25.4;
+}
+
+// Unicode code points of the WinAnsi characters in the 0x80-0x9F range
+const WIN_ANSI_EXTRAS: Record<number, number> = {
+  0x20ac: 0x80,
+  0x201a: 0x82,
+  0x0192: 0x83,
+  0x201e: 0x84,
+  0x2026: 0x85,
+  0x2020: 0x86,
+  0x2021: 0x87,
+  0x02c6: 0x88,
+  0x2030: 0x89,
+  0x0160: 0x8a,
+  0x2039: 0x8b,
+  0x0152: 0x8c,
+  0x017d: 0x8e,
+  0x2018: 0x91,
+  0x2019: 0x92,
+  0x201c: 0x93,
+  0x201d: 0x94,
+  0x2022: 0x95,
+  0x2013: 0x96,
+  0x2014: 0x97,
+  0x02dc: 0x98,
+  0x2122: 0x99,
+  0x0161: 0x9a,
+  0x203a: 0x9b,
+  0x0153: 0x9c,
+  0x017e: 0x9e,
+  0x0178: 0x9f,
+};
+
+function toWinAnsiCode(char: string): number | null {
+  const code = char.codePointAt(0)!;
+  if (code >= 0x20 && code <= 0x7e) return code;
+  if (code >= 0xa0 && code <= 0xff) return code;
+  return WIN_ANSI_EXTRAS[code] ?? null;
+}
+
+function encodeChar(char: string): number | null {
+  const code = toWinAnsiCode(char);
+  if (code !== null) return code;
+
+  // Fall back to the base letter, e.g. "ř" -> "r"
+  const base = char.normalize("NFD").charAt(0);
+  return base !== char ? toWinAnsiCode(base) : null;
+}
+
+/**
+ * Checks whether every character of the text can be printed with the
+ * standard fonts (directly or as its base letter)
+ *
+ * @example
+ * isPdfEncodable("Dvořák") // true
+ * isPdfEncodable("राम") // false
+ */
+export function isPdfEncodable(text: string): boolean {
+  for (const char of text) {
+    if (encodeChar(char) === null) return false;
+  }
+  return true;
+}
+
+/**
+ * Encodes text as a PDF literal string in WinAnsiEncoding
+ *
+ * Characters that cannot be encoded become "?"; check with isPdfEncodable
+ * first where that matters.
+ *
+ * @example
+ * pdfString("Åsa (b. 1850)") // "(\\305sa \\(b. 1850\\))"
+ */
+export function pdfString(text: string): string {
+  let result = "";
+  for (const char of text) {
+    const code = encodeChar(char) ?? 0x3f; // "?"
+
+    if (code === 0x28 || code === 0x29 || code === 0x5c) {
+      result += `\\${String.fromCharCode(code)}`;
+    } else if (code > 0x7e) {
+      result += `\\${code.toString(8).padStart(3, "0")}`;
+    } else {
+      result += String.fromCharCode(code);
+    }
+  }
+  return `(${result})`;
+}
+
+/**
+ * Encodes a document info value as a PDF text string, in UTF-16 when it
+ * has characters outside WinAnsi
+ */
+function pdfTextString(text: string): string {
+  if (isPdfEncodable(text)) return pdfString(text);
+  return `<FEFF${Buffer.from(text, "utf16le").swap16().toString("hex").toUpperCase()}>`;
+}
+
+/**
+ * Glyph for a character in an embedded font, falling back to the base
+ * letter like the standard fonts do
+ */
+function glyphFor(font: TrueTypeFont, char: string): number {
+  const glyphId = font.glyphId(char.codePointAt(0)!);
+  if (glyphId !== MISSING_GLYPH) return glyphId;
+
+  const base = char.normalize("NFD").charAt(0);
+  return base !== char ? font.glyphId(base.codePointAt(0)!) : MISSING_GLYPH;
+}
+
+/** Hex code of a glyph ID as written in Identity-H strings */
+function glyphHex(glyphId: number): string {
+  return glyphId.toString(16).toUpperCase().padStart(4, "0");
+}
+
+/** Formats a number for a content stream without exponent notation */
+export function pdfNumber(value: number): string {
+  const rounded = Math.round(value * 1000) / 1000;
+  return Object.is(rounded, -0) ? "0" : String(rounded);
+}
+
+/**
+ * Converts a "#rrggbb" colour to PDF RGB components
+ *
+ * @example
+ * pdfColor("#ff0000") // "1 0 0"
+ */
+export function pdfColor(hex: string): string {
+  const value = hex.replace("#", "");
+  return [0, 2, 4]
+    .map((offset) =>
+      pdfNumber(parseInt(value.slice(offset, offset + 2), 16) / 255)
+    )
+    .join(" ");
+}
+
+interface PdfPage {
+  width: number;
+  height: number;
+  content: string;
+}
+
+export interface PdfDocumentInfo {
+  title?: string;
+  author?: string;
+  creator?: string;
+}
+
+/**
+ * In-memory PDF document made of vector pages
+ *
+ * Text in content streams is written with text(), which encodes it for
+ * the document's fonts.
+ *
+ * @example
+ * const doc = new PdfDocument("Helvetica", { title: "Family Tree" });
+ * doc.addPage(595, 842, `BT /F1 12 Tf 72 770 Td ${doc.text("Hello")} Tj ET`);
+ * const buffer = doc.toBuffer();
+ */
+export class PdfDocument {
+  private pages: Array<PdfPage> = [];
+  private font: PdfFontFamily | PdfEmbeddedFonts;
+  private info: PdfDocumentInfo;
+  // Characters printed with each embedded font, by glyph ID
+  private usedGlyphs = new Map<TrueTypeFont, Map<number, string>>();
+
+  /**
+   * @param font - Standard font family, or TrueType fonts to embed
+   * @param info - Document title, author and creator
+   */
+  constructor(
+    font: PdfFontFamily | PdfEmbeddedFonts = "Helvetica",
+    info: PdfDocumentInfo = {}
+  ) {
+    this.font = font;
+    this.info = info;
+  }
+
+  /**
+   * Adds a page
+   *
+   * @param width - Page width in points
+   * @param height - Page height in points
+   * @param content - Content stream; fonts are available as /F1 and /F2
+   */
+  addPage(width: number, height: number, content: string): void {
+    this.pages.push({ width, height, content });
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /**
+   * Checks whether the document's fonts can print every character of the
+   * text (accented letters without a glyph print as their base letter)
+   *
+   * @param bold - Check the bold font (/F2) instead of the regular one
+   */
+  canPrint(text: string, bold = false): boolean {
+    const font = this.embeddedFont(bold);
+    if (!font) return isPdfEncodable(text);
+
+    for (const char of text) {
+      if (glyphFor(font, char) === MISSING_GLYPH) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Width of text printed with an embedded font
+   *
+   * @param size - Font size in points
+   * @param bold - Measure with the bold font (/F2) instead of the regular one
+   * @returns Width in points, or null with the standard fonts, whose
+   * metrics are not known here
+   */
+  textWidth(text: string, size: number, bold = false): number | null {
+    const font = this.embeddedFont(bold);
+    if (!font) return null;
+
+    let width = 0;
+    for (const char of text) {
+      width += font.advanceWidth(glyphFor(font, char));
+    }
+    return (width * size) / font.unitsPerEm;
+  }
+
+  /**
+   * Encodes text as a string operand for Tj
+   *
+   * Characters the fonts cannot print become "?" with the standard fonts
+   * and an empty box with an embedded font; check with canPrint first
+   * where that matters.
+   *
+   * @param bold - Encode for the bold font (/F2) instead of the regular one
+   */
+  text(text: string, bold = false): string {
+    const font = this.embeddedFont(bold);
+    if (!font) return pdfString(text);
+
+    let used = this.usedGlyphs.get(font);
+    if (!used) {
+      used = new Map();
+      this.usedGlyphs.set(font, used);
+    }
+
+    let hex = "";
+    for (const char of text) {
+      const glyphId = glyphFor(font, char);
+      if (glyphId !== MISSING_GLYPH) used.set(glyphId, char);
+      hex += glyphHex(glyphId);
+    }
+    return `<${hex}>`;
+  }
+
+  /**
+   * Serializes the document
+   *
+   * @throws Error if the document has no pages
+   */
+  toBuffer(): Buffer {
+    if (this.pages.length === 0) {
+      throw new Error("PDF document has no pages");
+    }
+
+    const objects: Array<string> = [];
+    const addObject = (body: string): number => objects.push(body);
+
+    // Object numbers: 1 catalog, 2 page tree, 3 info, then the fonts and
+    // a page object and a content stream for each page
+    addObject("<< /Type /Catalog /Pages 2 0 R >>");
+    const pageTree = addObject("");
+    addObject(this.serializeInfo());
+
+    const [regularFont, boldFont] = this.serializeFonts(addObject);
+    const fontResources = `/Font << /${PDF_FONT_REGULAR} ${regularFont} 0 R /${PDF_FONT_BOLD} ${boldFont} 0 R >>`;
+
+    const pageRefs = this.pages.map((page) => {
+      const content = addObject(
+        `<< /Length ${Buffer.byteLength(page.content, "latin1")} >>\nstream\n${page.content}\nendstream`
+      );
+      return addObject(
+        `<< /Type /Page /Parent ${pageTree} 0 R /MediaBox [0 0 ${pdfNumber(page.width)} ${pdfNumber(page.height)}] ` +
+          `/Resources << ${fontResources} >> /Contents ${content} 0 R >>`
+      );
+    });
+    objects[pageTree - 1] =
+      `<< /Type /Pages /Kids [${pageRefs.map((ref) => `${ref} 0 R`).join(" ")}] /Count ${this.pages.length} >>`;
+
+    let output = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+    const offsets: Array<number> = [];
+    objects.forEach((body, index) => {
+      offsets.push(Buffer.byteLength(output, "latin1"));
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    });
+
+    const xrefOffset = Buffer.byteLength(output, "latin1");
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    for (const offset of offsets) {
+      output += `${String(offset).padStart(10, "0")} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 3 0 R >>\n`;
+    output += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, "latin1");
+  }
+
+  private embeddedFont(bold: boolean): TrueTypeFont | null {
+    if (typeof this.font === "string") return null;
+    return (bold && this.font.bold) || this.font.regular;
+  }
+
+  /**
+   * Writes the regular and bold font objects
+   *
+   * @returns Object numbers of the regular and bold fonts
+   */
+  private serializeFonts(
+    addObject: (body: string) => number
+  ): [number, number] {
+    if (typeof this.font === "string") {
+      const names = FONT_NAMES[this.font];
+      return [
+        addObject(
+          `<< /Type /Font /Subtype /Type1 /BaseFont /${names.regular} /Encoding /WinAnsiEncoding >>`
+        ),
+        addObject(
+          `<< /Type /Font /Subtype /Type1 /BaseFont /${names.bold} /Encoding /WinAnsiEncoding >>`
+        ),
+      ];
+    }
+
+    const regular = this.serializeEmbeddedFont(this.font.regular, addObject);
+    const bold =
+      this.font.bold && this.font.bold !== this.font.regular
+        ? this.serializeEmbeddedFont(this.font.bold, addObject)
+        : regular;
+    return [regular, bold];
+  }
+
+  /**
+   * Writes a TrueType font as a Type0 font with Identity-H encoding, so
+   * strings hold glyph IDs, plus a ToUnicode map for copying text
+   *
+   * @returns Object number of the Type0 font
+   */
+  private serializeEmbeddedFont(
+    font: TrueTypeFont,
+    addObject: (body: string) => number
+  ): number {
+    const used = Array.from(this.usedGlyphs.get(font) ?? []).sort(
+      ([a], [b]) => a - b
+    );
+    const units = (value: number) => font.toPdfUnits(value);
+
+    const compressed = deflateSync(font.data);
+    const fontFile = addObject(
+      `<< /Length ${compressed.length} /Length1 ${font.data.length} /Filter /FlateDecode >>\nstream\n${compressed.toString("latin1")}\nendstream`
+    );
+    const descriptor = addObject(
+      `<< /Type /FontDescriptor /FontName /${font.postScriptName} /Flags 32 ` +
+        `/FontBBox [${font.bbox.map(units).join(" ")}] /ItalicAngle 0 ` +
+        `/Ascent ${units(font.ascent)} /Descent ${units(font.descent)} ` +
+        `/CapHeight ${units(font.capHeight)} /StemV 80 /FontFile2 ${fontFile} 0 R >>`
+    );
+    const widths = used
+      .map(([glyphId]) => `${glyphId} [${units(font.advanceWidth(glyphId))}]`)
+      .join(" ");
+    const cidFont = addObject(
+      `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${font.postScriptName} ` +
+        `/CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> ` +
+        `/FontDescriptor ${descriptor} 0 R /W [${widths}] /CIDToGIDMap /Identity >>`
+    );
+
+    const cmap = toUnicodeCMap(used);
+    const toUnicode = addObject(
+      `<< /Length ${cmap.length} >>\nstream\n${cmap}\nendstream`
+    );
+    return addObject(
+      `<< /Type /Font /Subtype /Type0 /BaseFont /${font.postScriptName} /Encoding /Identity-H ` +
+        `/DescendantFonts [${cidFont} 0 R] /ToUnicode ${toUnicode} 0 R >>`
+    );
+  }
+
+  private serializeInfo(): string {
+    const entries = [
+      this.info.title ? `/Title ${pdfTextString(this.info.title)}` : null,
+      this.info.author ? `/Author ${pdfTextString(this.info.author)}` : null,
+      this.info.creator ? `/Creator ${pdfTextString(this.info.creator)}` : null,
+    ].filter(Boolean);
+    return `<< ${entries.join(" ")} >>`;
+  }
+}
+
+/**
+ * Builds a ToUnicode CMap mapping glyph IDs back to the characters they
+ * were printed for
+ */
+function toUnicodeCMap(glyphs: Array<[number, string]>): string {
+  const lines = [
+    "/CIDInit /ProcSet findresource begin",
+    "12 dict begin",
+    "begincmap",
+    "/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def",
+    "/CMapName /Adobe-Identity-UCS def",
+    "/CMapType 2 def",
+    "1 begincodespacerange",
+    "<0000> <FFFF>",
+    "endcodespacerange",
+  ];
+
+  // A bfchar block may hold at most 100 entries
+  for (let start = 0; start < glyphs.length; start += 100) {
+    const block = glyphs.slice(start, start + 100);
+    lines.push(`${block.length} beginbfchar`);
+    for (const [glyphId, char] of block) {
+      const unicode = Buffer.from(char, "utf16le").swap16().toString("hex");
+      lines.push(`<${glyphHex(glyphId)}> <${unicode.toUpperCase()}>`);
+    }
+    lines.push("endbfchar");
+  }
+
+  lines.push(
+    "endcmap",
+    "CMapName currentdict /CMap defineresource pop",
+    "end",
+    "end"
+  );
+  return lines.join("\n");
+}
@@ -0,0 +1,74 @@
+/**
+ * Unit tests for the TrueType font reader
+ *
+ * Tests cover:
+ * - Character maps in format 4 (BMP) and format 12 (full Unicode range)
+ * - Advance widths and scaling to PDF glyph space
+ * - Metrics and PostScript name for the font descriptor
+ * - Rejecting files that are not TrueType fonts
+ */
+
+import { describe, expect, it } from "vitest";
+import { buildTestFont } from "../../testing/truetype-fixtures";
+import { MISSING_GLYPH, TrueTypeFont } from "./truetype";
+
+describe("TrueTypeFont", () => {
+  it("should map characters to glyphs with a format 4 character map", () => {
+    const font = TrueTypeFont.parse(buildTestFont("राम"));
+
+    // Glyphs follow code point order: म (0x092E), र (0x0930), ा (0x093E)
+    expect(font.glyphId(0x092e)).toBe(1);
+    expect(font.glyphId(0x0930)).toBe(2);
+    expect(font.glyphId(0x093e)).toBe(3);
+  });
+
+  it("should map characters outside the BMP with a format 12 character map", () => {
+    const font = TrueTypeFont.parse(buildTestFont("A𠀀", { cmapFormat: 12 }));
+
+    expect(font.glyphId(0x41)).toBe(1);
+    expect(font.glyphId(0x20000)).toBe(2);
+  });
+
+  it("should return the missing glyph for characters the font lacks", () => {
+    const font = TrueTypeFont.parse(buildTestFont("AB"));
+
+    expect(font.glyphId("Z".codePointAt(0)!)).toBe(MISSING_GLYPH);
+    expect(font.glyphId(0x20000)).toBe(MISSING_GLYPH);
+  });
+
+  it("should read advance widths and scale them to PDF units", () => {
+    const font = TrueTypeFont.parse(buildTestFont("AB", { unitsPerEm: 2000 }));
+
+    expect(font.advanceWidth(2)).toBe(520);
+    expect(font.toPdfUnits(font.advanceWidth(2))).toBe(260);
+  });
+
+  it("should read the metrics and PostScript name", () => {
+    const font = TrueTypeFont.parse(
+      buildTestFont("A", { name: "Noto Sans Devanagari" })
+    );
+
+    expect(font.unitsPerEm).toBe(1000);
+    expect(font.ascent).toBe(900);
+    expect(font.descent).toBe(-200);
+    expect(font.capHeight).toBe(700);
+    expect(font.bbox).toEqual([-100, -250, 1100, 950]);
+    // Spaces are not allowed in PDF names
+    expect(font.postScriptName).toBe("NotoSansDevanagari");
+  });
+
+  it("should reject fonts with CFF outlines", () => {
+    const otf = buildTestFont("A");
+    otf.write("OTTO", 0, "latin1");
+
+    expect(() => TrueTypeFont.parse(otf)).toThrow(
+      "Fonts with CFF outlines (.otf) are not supported"
+    );
+  });
+
+  it("should reject files that are not fonts", () => {
+    expect(() =>
+      TrueTypeFont.parse(Buffer.from("%PDF-1.4 not a font"))
+    ).toThrow("Not a TrueType font");
+  });
+});
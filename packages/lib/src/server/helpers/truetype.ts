@@ -0,0 +1,261 @@
+/**
+ * Minimal TrueType font reader
+ *
+ * Reads just enough of a TrueType (.ttf) font for the PDF writer to embed
+ * it: the character map, glyph advance widths and the metrics that go into
+ * a PDF font descriptor. Glyph outlines are never parsed; the font file is
+ * embedded as it is.
+ *
+ * Fonts with CFF outlines (.otf) and font collections (.ttc) are not
+ * supported.
+ */
+
+/** Glyph ID of the "missing character" glyph every font starts with */
+export const MISSING_GLYPH = 0;
+
+interface TableRecord {
+  offset: number;
+  length: number;
+}
+
+type CharacterMap =
+  | { format: 4; offset: number }
+  | { format: 12; offset: number };
+
+/**
+ * A parsed TrueType font
+ *
+ * @example
+ * const font = TrueTypeFont.parse(readFileSync("NotoSans-Regular.ttf"));
+ * font.glyphId("अ".codePointAt(0)!); // 0 when the font has no glyph
+ */
+export class TrueTypeFont {
+  /** The font file, embedded unchanged */
+  readonly data: Buffer;
+  /** PostScript name from the name table, safe to use as a PDF name */
+  readonly postScriptName: string;
+  readonly unitsPerEm: number;
+  readonly ascent: number;
+  readonly descent: number;
+  readonly capHeight: number;
+  /** Bounding box of all glyphs: xMin, yMin, xMax, yMax in font units */
+  readonly bbox: [number, number, number, number];
+
+  private readonly glyphCount: number;
+  private readonly advances: Array<number>;
+  private readonly cmap: CharacterMap;
+
+  private constructor(data: Buffer) {
+    this.data = data;
+
+    const version = data.readUInt32BE(0);
+    if (version === 0x4f54544f) {
+      throw new Error("Fonts with CFF outlines (.otf) are not supported");
+    }
+    if (version === 0x74746366) {
+      throw new Error("Font collections (.ttc) are not supported");
+    }
+    if (version !== 0x00010000 && version !== 0x74727565) {
+      throw new Error("Not a TrueType font");
+    }
+
+    const tables = readTableDirectory(data);
+    const table = (tag: string): TableRecord => {
+      const record = tables.get(tag);
+      if (!record) {
+        throw new Error(`TrueType font is missing its ${tag} table`);
+      }
+      return record;
+    };
+
+    const head = table("head").offset;
+    this.unitsPerEm = data.readUInt16BE(head + 18);
+    this.bbox = [
+      data.readInt16BE(head + 36),
+      data.readInt16BE(head + 38),
+      data.readInt16BE(head + 40),
+      data.readInt16BE(head + 42),
+    ];
+
+    const hhea = table("hhea").offset;
+    this.ascent = data.readInt16BE(hhea + 4);
+    this.descent = data.readInt16BE(hhea + 6);
+    const metricCount = data.readUInt16BE(hhea + 34);
+
+    this.glyphCount = data.readUInt16BE(table("maxp").offset + 4);
+
+    const hmtx = table("hmtx").offset;
+    this.advances = [];
+    for (let i = 0; i < metricCount; i++) {
+      this.advances.push(data.readUInt16BE(hmtx + i * 4));
+    }
+
+    // Cap height is only in OS/2 version 2 and later
+    const os2 = tables.get("OS/2");
+    this.capHeight =
+      os2 && data.readUInt16BE(os2.offset) >= 2 && os2.length >= 90
+        ? data.readInt16BE(os2.offset + 88)
+        : this.ascent;
+
+    this.cmap = findCharacterMap(data, table("cmap").offset);
+    this.postScriptName = readPostScriptName(data, tables.get("name"));
+  }
+
+  /**
+   * Parses a TrueType font file
+   *
+   * @throws Error if the file is not a TrueType font or lacks a table the
+   * PDF writer needs
+   */
+  static parse(data: Buffer): TrueTypeFont {
+    if (data.length < 12) {
+      throw new Error("Not a TrueType font");
+    }
+    return new TrueTypeFont(data);
+  }
+
+  /** Glyph ID for a Unicode code point, or MISSING_GLYPH */
+  glyphId(codePoint: number): number {
+    const glyph =
+      this.cmap.format === 12
+        ? lookupFormat12(this.data, this.cmap.offset, codePoint)
+        : lookupFormat4(this.data, this.cmap.offset, codePoint);
+    return glyph < this.glyphCount ? glyph : MISSING_GLYPH;
+  }
+
+  /** Advance width of a glyph in font units */
+  advanceWidth(glyphId: number): number {
+    return (
+      this.advances[Math.min(glyphId, this.advances.length - 1)] ??
+      this.unitsPerEm
+    );
+  }
+
+  /** Scales a value in font units to the 1000-unit PDF glyph space */
+  toPdfUnits(value: number): number {
+    return Math.round((value * 1000) / this.unitsPerEm);
+  }
+}
+
+function readTableDirectory(data: Buffer): Map<string, TableRecord> {
+  const tables = new Map<string, TableRecord>();
+  const count = data.readUInt16BE(4);
+  for (let i = 0; i < count; i++) {
+    const record = 12 + i * 16;
+    const offset = data.readUInt32BE(record + 8);
+    const length = data.readUInt32BE(record + 12);
+    if (offset + length > data.length) {
+      throw new Error("TrueType font is truncated");
+    }
+    tables.set(data.toString("latin1", record, record + 4), { offset, length });
+  }
+  return tables;
+}
+
+/**
+ * Picks the Unicode character map: the full-range format 12 subtable when
+ * there is one, otherwise the BMP-only format 4 subtable
+ */
+function findCharacterMap(data: Buffer, cmap: number): CharacterMap {
+  const count = data.readUInt16BE(cmap + 2);
+  let bmp: CharacterMap | null = null;
+
+  for (let i = 0; i < count; i++) {
+    const record = cmap + 4 + i * 8;
+    const platform = data.readUInt16BE(record);
+    const encoding = data.readUInt16BE(record + 2);
+    const offset = cmap + data.readUInt32BE(record + 4);
+    const format = data.readUInt16BE(offset);
+
+    const unicode = platform === 0 || (platform === 3 && encoding !== 0);
+    if (!unicode) continue;
+    if (format === 12) return { format: 12, offset };
+    if (format === 4) bmp ??= { format: 4, offset };
+  }
+
+  if (!bmp) {
+    throw new Error("TrueType font has no Unicode character map");
+  }
+  return bmp;
+}
+
+function lookupFormat4(data: Buffer, table: number, codePoint: number): number {
+  if (codePoint > 0xffff) return MISSING_GLYPH;
+
+  const segX2 = data.readUInt16BE(table + 6);
+  const endCodes = table + 14;
+  const startCodes = endCodes + segX2 + 2;
+  const deltas = startCodes + segX2;
+  const rangeOffsets = deltas + segX2;
+
+  for (let seg = 0; seg < segX2; seg += 2) {
+    if (data.readUInt16BE(endCodes + seg) < codePoint) continue;
+
+    const start = data.readUInt16BE(startCodes + seg);
+    if (start > codePoint) return MISSING_GLYPH;
+
+    const delta = data.readUInt16BE(deltas + seg);
+    const rangeOffset = data.readUInt16BE(rangeOffsets + seg);
+    if (rangeOffset === 0) {
+      return (codePoint + delta) & 0xffff;
+    }
+
+    const glyph = data.readUInt16BE(
+      rangeOffsets + seg + rangeOffset + (codePoint - start) * 2
+    );
+    return glyph === MISSING_GLYPH ? glyph : (glyph + delta) & 0xffff;
+  }
+  return MISSING_GLYPH;
+}
+
+function lookupFormat12(
+  data: Buffer,
+  table: number,
+  codePoint: number
+): number {
+  const groups = data.readUInt32BE(table + 12);
+  let low = 0;
+  let high = groups - 1;
+
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    const group = table + 16 + middle * 12;
+    const start = data.readUInt32BE(group);
+    const end = data.readUInt32BE(group + 4);
+
+    if (codePoint < start) {
+      high = middle - 1;
+    } else if (codePoint > end) {
+      low = middle + 1;
+    } else {
+      return data.readUInt32BE(group + 8) + (codePoint - start);
+    }
+  }
+  return MISSING_GLYPH;
+}
+
+/** Reads name ID 6, keeping only characters allowed in a PDF name */
+function readPostScriptName(data: Buffer, name?: TableRecord): string {
+  if (name) {
+    const count = data.readUInt16BE(name.offset + 2);
+    const strings = name.offset + data.readUInt16BE(name.offset + 4);
+
+    for (let i = 0; i < count; i++) {
+      const record = name.offset + 6 + i * 12;
+      if (data.readUInt16BE(record + 6) !== 6) continue;
+
+      const platform = data.readUInt16BE(record);
+      const length = data.readUInt16BE(record + 8);
+      const start = strings + data.readUInt16BE(record + 10);
+      const raw =
+        platform === 1
+          ? data.toString("latin1", start, start + length)
+          : Buffer.from(data.subarray(start, start + length))
+              .swap16()
+              .toString("utf16le");
+      const cleaned = raw.replace(/[^A-Za-z0-9-]/g, "");
+      if (cleaned) return cleaned;
+    }
+  }
+  return "EmbeddedFont";
+}
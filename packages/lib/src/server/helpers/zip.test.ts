@@ -0,0 +1,115 @@
+/**
+ * Unit tests for the minimal ZIP reader
+ *
+ * Tests cover:
+ * - readZipEntries: stored and deflated entries written by archiver
+ * - normalizeZipPath: relative paths and path traversal
+ * - Size limits and malformed archives
+ */
+
+import { PassThrough } from "node:stream";
+import archiver from "archiver";
+import { describe, expect, it } from "vitest";
+import { normalizeZipPath, readZipEntries } from "./zip";
+
+async function createZip(
+  files: Record<string, string | Buffer>,
+  store = false
+): Promise<Buffer> {
+  const archive = archiver("zip", { store, zlib: { level: 9 } });
+  const output = new PassThrough();
+  const chunks: Array<Buffer> = [];
+  output.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<void>((resolve, reject) => {
+    output.on("end", resolve);
+    archive.on("error", reject);
+  });
+
+  archive.pipe(output);
+  for (const [name, content] of Object.entries(files)) {
+    archive.append(content, { name });
+  }
+  await archive.finalize();
+  await finished;
+
+  return Buffer.concat(chunks);
+}
+
+describe("zip helpers", () => {
+  describe("readZipEntries", () => {
+    it("should read deflated entries", async () => {
+      const zip = await createZip({
+        "gedcom.ged": "0 HEAD\n0 TRLR\n",
+        "media/photo.jpg": Buffer.from([0xff, 0xd8, 0xff, 0xe0]),
+      });
+
+      const entries = readZipEntries(zip);
+
+      expect([...entries.keys()]).toEqual(["gedcom.ged", "media/photo.jpg"]);
+      expect(entries.get("gedcom.ged")?.toString("utf8")).toBe(
+        "0 HEAD\n0 TRLR\n"
+      );
+      expect(entries.get("media/photo.jpg")).toEqual(
+        Buffer.from([0xff, 0xd8, 0xff, 0xe0])
+      );
+    });
+
+    it("should read stored entries", async () => {
+      const zip = await createZip({ "notes.txt": "Ravi Rao" }, true);
+
+      expect(readZipEntries(zip).get("notes.txt")?.toString()).toBe("Ravi Rao");
+    });
+
+    it("should read empty files", async () => {
+      const zip = await createZip({ "empty.txt": "" });
+
+      expect(readZipEntries(zip).get("empty.txt")).toEqual(Buffer.alloc(0));
+    });
+
+    it("should reject archives that expand beyond the limit", async () => {
+      const zip = await createZip({ "big.txt": "a".repeat(1000) });
+
+      expect(() => readZipEntries(zip, 100)).toThrow(
+        "ZIP archive is too large to extract"
+      );
+    });
+
+    it("should reject entries that escape the archive root", async () => {
+      // archiver strips "..", so rewrite the name in both headers
+      const zip = await createZip({ "xx/evil.txt": "x" });
+      const patched = Buffer.from(
+        zip.toString("latin1").replaceAll("xx/evil.txt", "../evil.txt"),
+        "latin1"
+      );
+
+      expect(() => readZipEntries(patched)).toThrow(
+        "Unsafe path in ZIP archive"
+      );
+    });
+
+    it("should reject data that is not a ZIP archive", () => {
+      expect(() =>
+        readZipEntries(Buffer.from("0 HEAD\n0 TRLR\n".repeat(4)))
+      ).toThrow("end of central directory not found");
+      expect(() => readZipEntries(Buffer.from("PK"))).toThrow(
+        "file is too small"
+      );
+    });
+  });
+
+  describe("normalizeZipPath", () => {
+    it("should normalize separators and dot segments", () => {
+      expect(normalizeZipPath("media\\photos\\a.jpg")).toBe(
+        "media/photos/a.jpg"
+      );
+      expect(normalizeZipPath("./media/../gedcom.ged")).toBe("gedcom.ged");
+    });
+
+    it("should reject absolute paths", () => {
+      expect(() => normalizeZipPath("/etc/passwd")).toThrow("Unsafe path");
+      expect(() => normalizeZipPath("C:/Windows/win.ini")).toThrow(
+        "Unsafe path"
+      );
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Minimal ZIP reader
+ *
+ * Reads the entries of a ZIP archive held in memory using only node:zlib,
+ * which is enough for GEDZIP packages and the archives our own exports
+ * produce. Entries are located through the central directory, so data
+ * descriptors written by streaming zippers are handled.
+ *
+ * Supported: stored and deflated entries. Not supported: ZIP64, encryption
+ * and multi-disk archives, which throw rather than returning partial data.
+ */
+
+import { inflateRawSync } from "node:zlib";
+import path from "node:path";
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+// The comment after the end record is at most 65535 bytes
+const EOCD_MAX_SEARCH = EOCD_MIN_SIZE + 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+const FLAG_ENCRYPTED = 0x1;
+
+/** Default limit on the total uncompressed size of an archive (500MB) */
+export const DEFAULT_MAX_ZIP_SIZE = 500 * 1024 * 1024;
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  const stop = Math.max(0, buffer.length - EOCD_MAX_SEARCH);
+  for (let offset = buffer.length - EOCD_MIN_SIZE; offset >= stop; offset--) {
+    if (buffer.readUInt32LE(offset) === EOCD_SIGNATURE) {
+      return offset;
+    }
+  }
+  throw new Error("Invalid ZIP archive: end of central directory not found");
+}
+
+/**
+ * Normalize an entry name to a relative forward-slash path, rejecting
+ * names that would escape the archive root
+ */
+export function normalizeZipPath(name: string): string {
+  const normalized = path.posix.normalize(name.replace(/\\/g, "/"));
+  if (
+    normalized.startsWith("/") ||
+    /^[a-zA-Z]:/.test(normalized) ||
+    normalized === ".." ||
+    normalized.startsWith("../")
+  ) {
+    throw new Error(`Unsafe path in ZIP archive: ${name}`);
+  }
+  return normalized.replace(/^\.\//, "");
+}
+
+/**
+ * Read every file entry of a ZIP archive
+ *
+ * @param buffer - Complete archive content
+ * @param maxTotalSize - Limit on the combined uncompressed size of all entries
+ * @returns Map of normalized entry path to file content; directories are skipped
+ * @throws Error if the archive is malformed, uses unsupported features or
+ *   expands beyond maxTotalSize
+ */
+export function readZipEntries(
+  buffer: Buffer,
+  maxTotalSize: number = DEFAULT_MAX_ZIP_SIZE
+): Map<string, Buffer> {
+  if (buffer.length < EOCD_MIN_SIZE) {
+    throw new Error("Invalid ZIP archive: file is too small");
+  }
+
+  const eocd = findEndOfCentralDirectory(buffer);
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  const directorySize = buffer.readUInt32LE(eocd + 12);
+  const directoryOffset = buffer.readUInt32LE(eocd + 16);
+
+  if (
+    entryCount === 0xffff ||
+    directorySize === 0xffffffff ||
+    directoryOffset === 0xffffffff
+  ) {
+    throw new Error("ZIP64 archives are not supported");
+  }
+  if (directoryOffset + directorySize > buffer.length) {
+    throw new Error("Invalid ZIP archive: central directory out of range");
+  }
+
+  const entries = new Map<string, Buffer>();
+  let totalSize = 0;
+  let offset = directoryOffset;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error("Invalid ZIP archive: corrupt central directory");
+    }
+
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) {
+      continue;
+    }
+    if (flags & FLAG_ENCRYPTED) {
+      throw new Error(`Encrypted ZIP entries are not supported: ${name}`);
+    }
+    if (
+      compressedSize === 0xffffffff ||
+      uncompressedSize === 0xffffffff ||
+      localOffset === 0xffffffff
+    ) {
+      throw new Error("ZIP64 archives are not supported");
+    }
+
+    totalSize += uncompressedSize;
+    if (totalSize > maxTotalSize) {
+      throw new Error("ZIP archive is too large to extract");
+    }
+
+    if (buffer.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Invalid ZIP archive: missing local header for ${name}`);
+    }
+    // Local name and extra field lengths can differ from the central copy
+    const dataStart =
+      localOffset +
+      30 +
+      buffer.readUInt16LE(localOffset + 26) +
+      buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    let content: Buffer;
+    if (method === METHOD_STORED) {
+      content = Buffer.from(data);
+    } else if (method === METHOD_DEFLATED) {
+      content = inflateRawSync(data, {
+        maxOutputLength: Math.max(1, uncompressedSize),
+      });
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method}: ${name}`);
+    }
+
+    if (content.length !== uncompressedSize) {
+      throw new Error(`Invalid ZIP archive: size mismatch for ${name}`);
+    }
+
+    entries.set(normalizeZipPath(name), content);
+  }
+
+  return entries;
+}
@@ -82,6 +82,9 @@ export * from "./helpers/charts";
 // GEDCOM parsing helpers
 export * from "./helpers/gedcom";
 
+// Raised when a PDF export has text its fonts cannot print
+export { PdfUnprintableTextError } from "./helpers/pdf";
+
 // ============================================================================
 // Business Logic - All Modules
 // ============================================================================
@@ -0,0 +1,181 @@
+/**
+ * Apple Push Notification service provider
+ *
+ * Delivers to native iOS device tokens over HTTP/2 using token-based
+ * (.p8 signing key) authentication. Provider tokens are reused for 50
+ * minutes, as APNs rejects tokens refreshed more than once every 20 minutes
+ * and tokens older than an hour.
+ */
+
+import { connect } from "node:http2";
+import { createPrivateKey } from "node:crypto";
+import { signJwt } from "./jwt";
+import type { ClientHttp2Session } from "node:http2";
+import type {
+  DeviceTokenRecord,
+  NotificationPayload,
+  PushProvider,
+  PushSendResult,
+} from "./types";
+
+const PRODUCTION_ORIGIN = "https://api.push.apple.com";
+const SANDBOX_ORIGIN = "https://api.sandbox.push.apple.com";
+const PROVIDER_TOKEN_TTL_MS = 50 * 60 * 1000;
+
+export interface ApnsConfig {
+  keyId: string;
+  teamId: string;
+  /** PEM-encoded .p8 signing key */
+  privateKey: string;
+  /** App bundle ID, sent as the apns-topic */
+  bundleId: string;
+  production: boolean;
+}
+
+export interface ApnsRequest {
+  origin: string;
+  path: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface ApnsResponse {
+  status: number;
+  apnsId?: string;
+  body: string;
+}
+
+/** Sends one request to APNs; replaceable in tests */
+export type ApnsTransport = (request: ApnsRequest) => Promise<ApnsResponse>;
+
+/**
+ * HTTP/2 transport that keeps one session open per origin and reconnects
+ * after the session closes or fails
+ */
+export function createHttp2Transport(): ApnsTransport {
+  const sessions = new Map<string, ClientHttp2Session>();
+
+  const getSession = (origin: string) => {
+    const existing = sessions.get(origin);
+    if (existing && !existing.closed && !existing.destroyed) {
+      return existing;
+    }
+    const session = connect(origin);
+    session.on("error", () => sessions.delete(origin));
+    session.on("close", () => sessions.delete(origin));
+    session.unref();
+    sessions.set(origin, session);
+    return session;
+  };
+
+  return (request) =>
+    new Promise((resolve, reject) => {
+      const stream = getSession(request.origin).request({
+        ":method": "POST",
+        ":path": request.path,
+        ...request.headers,
+      });
+      let status = 0;
+      let apnsId: string | undefined;
+      let body = "";
+
+      stream.setEncoding("utf8");
+      stream.on("response", (headers) => {
+        status = Number(headers[":status"]);
+        const id = headers["apns-id"];
+        apnsId = Array.isArray(id) ? id[0] : id;
+      });
+      stream.on("data", (chunk: string) => {
+        body += chunk;
+      });
+      stream.on("end", () => resolve({ status, apnsId, body }));
+      stream.on("error", reject);
+      stream.end(request.body);
+    });
+}
+
+export class ApnsPushProvider implements PushProvider {
+  readonly name = "apns" as const;
+
+  private providerToken: { value: string; issuedAt: number } | null = null;
+
+  constructor(
+    private readonly config: ApnsConfig,
+    private readonly transport: ApnsTransport = createHttp2Transport()
+  ) {}
+
+  handles(device: DeviceTokenRecord): boolean {
+    return device.platform === "ios";
+  }
+
+  async send(
+    token: string,
+    payload: NotificationPayload
+  ): Promise<PushSendResult> {
+    const response = await this.transport({
+      origin: this.config.production ? PRODUCTION_ORIGIN : SANDBOX_ORIGIN,
+      path: `/3/device/${token}`,
+      headers: {
+        authorization: `bearer ${this.getProviderToken()}`,
+        "apns-topic": this.config.bundleId,
+        "apns-push-type": "alert",
+        "content-type": "application/json",
+      },
+      body: JSON.stringify({
+        aps: {
+          alert: { title: payload.title, body: payload.body },
+          sound: "default",
+        },
+        ...payload.data,
+        type: payload.type,
+      }),
+    });
+
+    if (response.status === 200) {
+      return { success: true, messageId: response.apnsId };
+    }
+
+    let reason: string | undefined;
+    try {
+      reason = (JSON.parse(response.body) as { reason?: string }).reason;
+    } catch {
+      reason = undefined;
+    }
+
+    if (reason === "ExpiredProviderToken") {
+      this.providerToken = null;
+    }
+
+    return {
+      success: false,
+      error: reason ?? `APNs request failed (${response.status})`,
+      unregistered:
+        response.status === 410 ||
+        reason === "BadDeviceToken" ||
+        reason === "Unregistered",
+      retryable:
+        reason === "ExpiredProviderToken" ||
+        response.status === 429 ||
+        response.status >= 500,
+    };
+  }
+
+  private getProviderToken(): string {
+    const now = Date.now();
+    if (
+      this.providerToken &&
+      now - this.providerToken.issuedAt < PROVIDER_TOKEN_TTL_MS
+    ) {
+      return this.providerToken.value;
+    }
+
+    const value = signJwt(
+      "ES256",
+      { iss: this.config.teamId, iat: Math.floor(now / 1000) },
+      createPrivateKey(this.config.privateKey),
+      { kid: this.config.keyId }
+    );
+    this.providerToken = { value, issuedAt: now };
+    return value;
+  }
+}
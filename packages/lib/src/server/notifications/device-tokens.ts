@@ -9,7 +9,7 @@ import { and, eq } from "drizzle-orm";
 import { loggers } from "@vamsa/lib/logger";
 import type { DeviceTokenInput, DeviceTokenRecord } from "./types";
 
-const log = loggers.email;
+const log = loggers.push;
 
 /** Type for the database instance (for DI) */
 export type DeviceTokensDb = typeof drizzleDb;
@@ -173,3 +173,29 @@ export async function deactivateAllUserTokens(
     throw error;
   }
 }
+
+/**
+ * Deactivate a single token, e.g. when a push provider reports it as
+ * unregistered
+ *
+ * @param token - The device token to deactivate
+ */
+export async function deactivateDeviceToken(
+  token: string,
+  db: DeviceTokensDb = drizzleDb
+): Promise<void> {
+  try {
+    await db
+      .update(drizzleSchema.deviceTokens)
+      .set({
+        isActive: false,
+        updatedAt: new Date(),
+      })
+      .where(eq(drizzleSchema.deviceTokens.token, token));
+
+    log.info({}, "Device token deactivated");
+  } catch (error) {
+    log.withErr(error).msg("Error deactivating device token");
+    throw error;
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Expo push provider
+ *
+ * Delivers to Expo push tokens ("ExponentPushToken[...]") issued to the
+ * mobile app, whichever platform the device runs.
+ */
+
+import type {
+  DeviceTokenRecord,
+  NotificationPayload,
+  PushProvider,
+  PushSendResult,
+} from "./types";
+
+const EXPO_PUSH_URL = "https://exp.host/--/api/v2/push/send";
+
+const EXPO_TOKEN_PATTERN = /^Expo(nent)?PushToken\[.+\]$/;
+
+export interface ExpoPushConfig {
+  /** Access token, required only when enhanced push security is enabled */
+  accessToken?: string;
+}
+
+interface ExpoPushTicket {
+  status: "ok" | "error";
+  id?: string;
+  message?: string;
+  details?: { error?: string };
+}
+
+export function isExpoPushToken(token: string): boolean {
+  return EXPO_TOKEN_PATTERN.test(token);
+}
+
+export class ExpoPushProvider implements PushProvider {
+  readonly name = "expo" as const;
+
+  constructor(
+    private readonly config: ExpoPushConfig = {},
+    private readonly fetchImpl: typeof fetch = fetch
+  ) {}
+
+  handles(device: DeviceTokenRecord): boolean {
+    return isExpoPushToken(device.token);
+  }
+
+  async send(
+    token: string,
+    payload: NotificationPayload
+  ): Promise<PushSendResult> {
+    const headers: Record<string, string> = {
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    };
+    if (this.config.accessToken) {
+      headers.Authorization = `Bearer ${this.config.accessToken}`;
+    }
+
+    const response = await this.fetchImpl(EXPO_PUSH_URL, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        to: token,
+        title: payload.title,
+        body: payload.body,
+        data: { ...payload.data, type: payload.type },
+        sound: "default",
+      }),
+    });
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: `Expo push request failed with status ${response.status}`,
+        retryable: response.status === 429 || response.status >= 500,
+      };
+    }
+
+    const { data: ticket } = (await response.json()) as {
+      data: ExpoPushTicket;
+    };
+
+    if (ticket.status === "ok") {
+      return { success: true, messageId: ticket.id };
+    }
+
+    const errorCode = ticket.details?.error;
+    return {
+      success: false,
+      error: errorCode ?? ticket.message ?? "Expo push failed",
+      unregistered: errorCode === "DeviceNotRegistered",
+      retryable: errorCode === "MessageRateExceeded",
+    };
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Fake push provider for local development and tests
+ *
+ * Accepts every device and records each notification instead of sending
+ * it. Tokens can be marked as unregistered, or set to fail a number of
+ * times, to exercise token deactivation and retries.
+ */
+
+import { loggers } from "@vamsa/lib/logger";
+import type {
+  DeviceTokenRecord,
+  NotificationPayload,
+  PushProvider,
+  PushSendResult,
+} from "./types";
+
+const log = loggers.push;
+
+export interface FakePushMessage {
+  token: string;
+  payload: NotificationPayload;
+  messageId: string;
+}
+
+export class FakePushProvider implements PushProvider {
+  readonly name = "fake" as const;
+
+  readonly sent: Array<FakePushMessage> = [];
+
+  private readonly unregistered = new Set<string>();
+  private readonly pendingFailures = new Map<string, number>();
+
+  handles(_device: DeviceTokenRecord): boolean {
+    return true;
+  }
+
+  async send(
+    token: string,
+    payload: NotificationPayload
+  ): Promise<PushSendResult> {
+    if (this.unregistered.has(token)) {
+      return { success: false, error: "Unregistered", unregistered: true };
+    }
+
+    const failures = this.pendingFailures.get(token) ?? 0;
+    if (failures > 0) {
+      this.pendingFailures.set(token, failures - 1);
+      return { success: false, error: "Unavailable", retryable: true };
+    }
+
+    const messageId = `fake-${this.sent.length + 1}`;
+    this.sent.push({ token, payload, messageId });
+    log.info(
+      { type: payload.type, title: payload.title, messageId },
+      "Fake push notification sent"
+    );
+    return { success: true, messageId };
+  }
+
+  /** Reject future sends to this token as unregistered */
+  unregister(token: string): void {
+    this.unregistered.add(token);
+  }
+
+  /** Fail the next `times` sends to this token with a retryable error */
+  failNext(token: string, times = 1): void {
+    this.pendingFailures.set(token, times);
+  }
+
+  /** Forget sent messages and configured failures */
+  reset(): void {
+    this.sent.length = 0;
+    this.unregistered.clear();
+    this.pendingFailures.clear();
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Firebase Cloud Messaging provider (HTTP v1 API)
+ *
+ * Delivers to native Android registration tokens. Authenticates with a
+ * service account, exchanging a signed assertion for a short-lived OAuth
+ * access token that is cached until shortly before it expires.
+ */
+
+import { createPrivateKey } from "node:crypto";
+import { signJwt } from "./jwt";
+import type {
+  DeviceTokenRecord,
+  NotificationPayload,
+  PushProvider,
+  PushSendResult,
+} from "./types";
+
+const GOOGLE_TOKEN_URL = "https://oauth2.googleapis.com/token";
+const FCM_SCOPE = "https://www.googleapis.com/auth/firebase.messaging";
+
+export interface FcmConfig {
+  projectId: string;
+  clientEmail: string;
+  /** PEM-encoded service account private key */
+  privateKey: string;
+}
+
+interface FcmErrorBody {
+  error?: {
+    status?: string;
+    message?: string;
+    details?: Array<{ errorCode?: string }>;
+  };
+}
+
+/**
+ * Read FCM settings from a service account JSON document
+ *
+ * @throws Error when required service account fields are missing
+ */
+export function parseFcmServiceAccount(json: string): FcmConfig {
+  const account = JSON.parse(json) as Record<string, string | undefined>;
+  if (!account.project_id || !account.client_email || !account.private_key) {
+    throw new Error(
+      "FCM service account must include project_id, client_email and private_key"
+    );
+  }
+  return {
+    projectId: account.project_id,
+    clientEmail: account.client_email,
+    privateKey: account.private_key,
+  };
+}
+
+export class FcmPushProvider implements PushProvider {
+  readonly name = "fcm" as const;
+
+  private accessToken: { value: string; expiresAt: number } | null = null;
+
+  constructor(
+    private readonly config: FcmConfig,
+    private readonly fetchImpl: typeof fetch = fetch
+  ) {}
+
+  handles(device: DeviceTokenRecord): boolean {
+    return device.platform === "android";
+  }
+
+  async send(
+    token: string,
+    payload: NotificationPayload
+  ): Promise<PushSendResult> {
+    const accessToken = await this.getAccessToken();
+    const response = await this.fetchImpl(
+      `https://fcm.googleapis.com/v1/projects/${this.config.projectId}/messages:send`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          message: {
+            token,
+            notification: { title: payload.title, body: payload.body },
+            data: { ...payload.data, type: payload.type },
+          },
+        }),
+      }
+    );
+
+    if (response.ok) {
+      const { name } = (await response.json()) as { name?: string };
+      return { success: true, messageId: name };
+    }
+
+    if (response.status === 401) {
+      // Force a fresh access token on the next attempt
+      this.accessToken = null;
+    }
+
+    const body = (await response.json().catch(() => ({}))) as FcmErrorBody;
+    const errorCode =
+      body.error?.details?.find((detail) => detail.errorCode)?.errorCode ??
+      body.error?.status;
+
+    return {
+      success: false,
+      error: body.error?.message ?? `FCM request failed (${response.status})`,
+      unregistered: errorCode === "UNREGISTERED",
+      retryable:
+        response.status === 401 ||
+        response.status === 429 ||
+        response.status >= 500,
+    };
+  }
+
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && this.accessToken.expiresAt > Date.now()) {
+      return this.accessToken.value;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const assertion = signJwt(
+      "RS256",
+      {
+        iss: this.config.clientEmail,
+        scope: FCM_SCOPE,
+        aud: GOOGLE_TOKEN_URL,
+        iat: now,
+        exp: now + 3600,
+      },
+      createPrivateKey(this.config.privateKey)
+    );
+
+    const response = await this.fetchImpl(GOOGLE_TOKEN_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+        assertion,
+      }).toString(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`FCM authentication failed (${response.status})`);
+    }
+
+    const { access_token, expires_in } = (await response.json()) as {
+      access_token: string;
+      expires_in: number;
+    };
+    this.accessToken = {
+      value: access_token,
+      expiresAt: Date.now() + (expires_in - 60) * 1000,
+    };
+    return access_token;
+  }
+}
@@ -1,8 +1,31 @@
 /**
  * Notifications Module - Barrel Export
  *
- * Exports notification types and device token business logic
+ * Exports notification types, device token business logic, push providers,
+ * push delivery and notification preferences
  */
 
 export * from "./types";
+export * from "./preferences";
 export * from "./device-tokens";
+export * from "./push";
+export * from "./providers";
+export { ExpoPushProvider, isExpoPushToken } from "./expo";
+export type { ExpoPushConfig } from "./expo";
+export { FcmPushProvider, parseFcmServiceAccount } from "./fcm";
+export type { FcmConfig } from "./fcm";
+export { ApnsPushProvider, createHttp2Transport } from "./apns";
+export type {
+  ApnsConfig,
+  ApnsRequest,
+  ApnsResponse,
+  ApnsTransport,
+} from "./apns";
+export {
+  WebPushProvider,
+  encryptWebPushPayload,
+  parseWebPushSubscription,
+} from "./web-push";
+export type { WebPushConfig, WebPushSubscription } from "./web-push";
+export { FakePushProvider } from "./fake";
+export type { FakePushMessage } from "./fake";
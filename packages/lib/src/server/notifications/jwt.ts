@@ -0,0 +1,46 @@
+/**
+ * JWT signing for push provider authentication
+ *
+ * FCM exchanges an RS256 service account assertion for an access token,
+ * while APNs and Web Push (VAPID) accept ES256 tokens directly.
+ */
+
+import { sign } from "node:crypto";
+import type { KeyObject } from "node:crypto";
+
+export type JwtAlgorithm = "RS256" | "ES256";
+
+export function base64UrlEncode(data: Buffer | string): string {
+  return Buffer.from(data).toString("base64url");
+}
+
+export function base64UrlDecode(data: string): Buffer {
+  return Buffer.from(data, "base64url");
+}
+
+/**
+ * Sign a compact JWT
+ *
+ * ES256 signatures use the raw r||s encoding required by JWS rather than
+ * the DER encoding node produces by default.
+ */
+export function signJwt(
+  alg: JwtAlgorithm,
+  claims: Record<string, unknown>,
+  key: KeyObject,
+  headerFields: Record<string, string> = {}
+): string {
+  const header = base64UrlEncode(
+    JSON.stringify({ alg, typ: "JWT", ...headerFields })
+  );
+  const body = base64UrlEncode(JSON.stringify(claims));
+  const signingInput = `${header}.${body}`;
+  const signature =
+    alg === "ES256"
+      ? sign("sha256", Buffer.from(signingInput), {
+          key,
+          dsaEncoding: "ieee-p1363",
+        })
+      : sign("sha256", Buffer.from(signingInput), key);
+  return `${signingInput}.${base64UrlEncode(signature)}`;
+}
@@ -0,0 +1,253 @@
+/**
+ * Unit tests for notification preferences
+ *
+ * Tests cover:
+ * - Falling back to legacy email flags when no preferences are saved
+ * - Merging partial updates
+ * - Local time and quiet hours in the user's timezone
+ * - Instant channels and due digests
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  createDefaultNotificationPreferences,
+  getDigestTypes,
+  getDueDigestPeriods,
+  getInstantChannels,
+  getLocalTime,
+  isInQuietHours,
+  mergeNotificationPreferences,
+  resolveNotificationPreferences,
+} from "./preferences";
+
+describe("resolveNotificationPreferences", () => {
+  it("should return saved preferences", () => {
+    const saved = createDefaultNotificationPreferences();
+    saved.timezone = "Asia/Kolkata";
+    saved.types.new_member.email = "weekly";
+
+    const result = resolveNotificationPreferences({
+      notificationPreferences: saved,
+      emailNotificationPreferences: { newMemberJoined: false },
+    });
+
+    expect(result).toEqual(saved);
+  });
+
+  it("should default to instant delivery when nothing is saved", () => {
+    const result = resolveNotificationPreferences({
+      notificationPreferences: null,
+      emailNotificationPreferences: null,
+    });
+
+    expect(result).toEqual(createDefaultNotificationPreferences());
+  });
+
+  it("should turn off every channel of types disabled by legacy flags", () => {
+    const result = resolveNotificationPreferences({
+      emailNotificationPreferences: {
+        suggestionsCreated: true,
+        birthdayReminders: false,
+      },
+    });
+
+    expect(result.types.suggestion_created.email).toBe("instant");
+    expect(result.types.birthday_reminder).toEqual({
+      email: "off",
+      push: "off",
+      inApp: "off",
+    });
+    expect(result.types.anniversary_reminder.push).toBe("off");
+  });
+
+  it("should ignore invalid saved preferences", () => {
+    const result = resolveNotificationPreferences({
+      notificationPreferences: { timezone: "Nowhere/Land" },
+    });
+
+    expect(result.timezone).toBe("UTC");
+  });
+});
+
+describe("mergeNotificationPreferences", () => {
+  it("should change only the given channels", () => {
+    const result = mergeNotificationPreferences(
+      createDefaultNotificationPreferences(),
+      { types: { birthday_reminder: { email: "daily" } }, digestHour: 18 }
+    );
+
+    expect(result.types.birthday_reminder).toEqual({
+      email: "daily",
+      push: "instant",
+      inApp: "instant",
+    });
+    expect(result.digestHour).toBe(18);
+    expect(result.weeklyDigestDay).toBe(1);
+  });
+
+  it("should clear quiet hours when set to null", () => {
+    const current = createDefaultNotificationPreferences();
+    current.quietHours = { start: "22:00", end: "07:00" };
+
+    expect(
+      mergeNotificationPreferences(current, { quietHours: null }).quietHours
+    ).toBeNull();
+    expect(mergeNotificationPreferences(current, {}).quietHours).toEqual(
+      current.quietHours
+    );
+  });
+});
+
+describe("getLocalTime", () => {
+  it("should convert to the wall-clock time of the timezone", () => {
+    // 2026-03-02 is a Monday
+    const local = getLocalTime(
+      new Date("2026-03-02T20:45:00Z"),
+      "Asia/Kolkata"
+    );
+
+    expect(local).toEqual({
+      year: 2026,
+      month: 3,
+      day: 3,
+      hour: 2,
+      minute: 15,
+      weekday: 2,
+    });
+  });
+
+  it("should report midnight as hour 0", () => {
+    expect(getLocalTime(new Date("2026-03-02T00:00:00Z"), "UTC").hour).toBe(0);
+  });
+});
+
+describe("isInQuietHours", () => {
+  const preferences = {
+    ...createDefaultNotificationPreferences(),
+    timezone: "America/New_York",
+    quietHours: { start: "22:00", end: "07:00" },
+  };
+
+  it("should be quiet inside a window that wraps past midnight", () => {
+    // 23:30 and 06:59 in New York (UTC-5)
+    expect(isInQuietHours(preferences, new Date("2026-01-15T04:30:00Z"))).toBe(
+      true
+    );
+    expect(isInQuietHours(preferences, new Date("2026-01-15T11:59:00Z"))).toBe(
+      true
+    );
+  });
+
+  it("should not be quiet outside the window", () => {
+    // 07:00 and 21:59 in New York
+    expect(isInQuietHours(preferences, new Date("2026-01-15T12:00:00Z"))).toBe(
+      false
+    );
+    expect(isInQuietHours(preferences, new Date("2026-01-16T02:59:00Z"))).toBe(
+      false
+    );
+  });
+
+  it("should handle a same-day window", () => {
+    const daytime = {
+      ...preferences,
+      timezone: "UTC",
+      quietHours: { start: "09:00", end: "17:00" },
+    };
+
+    expect(isInQuietHours(daytime, new Date("2026-01-15T12:00:00Z"))).toBe(
+      true
+    );
+    expect(isInQuietHours(daytime, new Date("2026-01-15T17:00:00Z"))).toBe(
+      false
+    );
+  });
+
+  it("should never be quiet without quiet hours", () => {
+    expect(
+      isInQuietHours(
+        createDefaultNotificationPreferences(),
+        new Date("2026-01-15T03:00:00Z")
+      )
+    ).toBe(false);
+  });
+});
+
+describe("getInstantChannels", () => {
+  it("should include only channels set to instant", () => {
+    const preferences = createDefaultNotificationPreferences();
+    preferences.types.new_member = {
+      email: "weekly",
+      push: "off",
+      inApp: "instant",
+    };
+
+    expect(getInstantChannels(preferences, "new_member")).toEqual({
+      email: false,
+      push: false,
+      inApp: true,
+    });
+  });
+
+  it("should hold back email and push during quiet hours", () => {
+    const preferences = {
+      ...createDefaultNotificationPreferences(),
+      quietHours: { start: "22:00", end: "07:00" },
+    };
+
+    expect(
+      getInstantChannels(
+        preferences,
+        "suggestion_created",
+        new Date("2026-01-15T23:00:00Z")
+      )
+    ).toEqual({ email: false, push: false, inApp: true });
+  });
+});
+
+describe("getDueDigestPeriods", () => {
+  const preferences = {
+    ...createDefaultNotificationPreferences(),
+    timezone: "Asia/Kolkata",
+    digestHour: 8,
+    weeklyDigestDay: 1,
+  };
+
+  it("should be due at the digest hour in the user's timezone", () => {
+    // 08:00 on Tuesday 2026-03-03 in Kolkata (UTC+5:30)
+    expect(
+      getDueDigestPeriods(preferences, new Date("2026-03-03T02:30:00Z"))
+    ).toEqual(["daily"]);
+  });
+
+  it("should add the weekly digest on the chosen day", () => {
+    // 08:00 on Monday 2026-03-02 in Kolkata
+    expect(
+      getDueDigestPeriods(preferences, new Date("2026-03-02T02:30:00Z"))
+    ).toEqual(["daily", "weekly"]);
+  });
+
+  it("should not be due at other hours", () => {
+    expect(
+      getDueDigestPeriods(preferences, new Date("2026-03-02T08:00:00Z"))
+    ).toEqual([]);
+  });
+});
+
+describe("getDigestTypes", () => {
+  it("should list the types a channel batches into a period", () => {
+    const preferences = createDefaultNotificationPreferences();
+    preferences.types.birthday_reminder.email = "daily";
+    preferences.types.new_member.email = "weekly";
+    preferences.types.anniversary_reminder.email = "daily";
+
+    expect(getDigestTypes(preferences, "daily", "email")).toEqual([
+      "birthday_reminder",
+      "anniversary_reminder",
+    ]);
+    expect(getDigestTypes(preferences, "weekly", "email")).toEqual([
+      "new_member",
+    ]);
+    expect(getDigestTypes(preferences, "daily", "push")).toEqual([]);
+  });
+});
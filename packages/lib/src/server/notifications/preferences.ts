@@ -0,0 +1,243 @@
+/**
+ * Notification Preferences
+ *
+ * Resolves a user's per-type, per-channel notification preferences and
+ * decides which channels receive a notification right away and when the
+ * user's daily and weekly digests are due. Quiet hours and digest times are
+ * evaluated in the user's own timezone.
+ */
+
+import { notificationPreferencesSchema } from "@vamsa/schemas";
+import type {
+  ChannelPreferences,
+  NotificationChannel,
+  NotificationPreferenceType,
+  NotificationPreferences,
+  NotificationPreferencesUpdate,
+} from "@vamsa/schemas";
+
+export type DigestPeriod = "daily" | "weekly";
+
+/** Configurable notification types, in display order */
+export const NOTIFICATION_PREFERENCE_TYPES: ReadonlyArray<NotificationPreferenceType> =
+  [
+    "suggestion_created",
+    "suggestion_reviewed",
+    "new_member",
+    "birthday_reminder",
+    "anniversary_reminder",
+  ];
+
+export const NOTIFICATION_CHANNELS: ReadonlyArray<NotificationChannel> = [
+  "email",
+  "push",
+  "inApp",
+];
+
+/**
+ * Legacy email preference flag that controlled each notification type
+ * before per-channel preferences existed
+ */
+const LEGACY_PREFERENCE_KEYS: Record<NotificationPreferenceType, string> = {
+  suggestion_created: "suggestionsCreated",
+  suggestion_reviewed: "suggestionsUpdated",
+  new_member: "newMemberJoined",
+  birthday_reminder: "birthdayReminders",
+  anniversary_reminder: "birthdayReminders",
+};
+
+function channels(frequency: ChannelPreferences["email"]): ChannelPreferences {
+  return { email: frequency, push: frequency, inApp: frequency };
+}
+
+/**
+ * Preferences for a user who has never saved any: everything is delivered
+ * instantly, digests go out at 08:00 UTC and weekly digests on Monday
+ */
+export function createDefaultNotificationPreferences(): NotificationPreferences {
+  return {
+    timezone: "UTC",
+    quietHours: null,
+    digestHour: 8,
+    weeklyDigestDay: 1,
+    types: {
+      suggestion_created: channels("instant"),
+      suggestion_reviewed: channels("instant"),
+      new_member: channels("instant"),
+      birthday_reminder: channels("instant"),
+      anniversary_reminder: channels("instant"),
+    },
+  };
+}
+
+/**
+ * A user's effective notification preferences. Users who have not saved
+ * per-channel preferences keep the behaviour of their legacy email flags:
+ * a type that was switched off stays off on every channel.
+ */
+export function resolveNotificationPreferences(user: {
+  notificationPreferences?: unknown;
+  emailNotificationPreferences?: unknown;
+}): NotificationPreferences {
+  const saved = notificationPreferencesSchema.safeParse(
+    user.notificationPreferences
+  );
+  if (saved.success) {
+    return saved.data;
+  }
+
+  const preferences = createDefaultNotificationPreferences();
+  const legacy = user.emailNotificationPreferences as Record<
+    string,
+    unknown
+  > | null;
+
+  for (const type of NOTIFICATION_PREFERENCE_TYPES) {
+    if (legacy?.[LEGACY_PREFERENCE_KEYS[type]] === false) {
+      preferences.types[type] = channels("off");
+    }
+  }
+
+  return preferences;
+}
+
+/**
+ * Apply a partial update on top of the current preferences
+ */
+export function mergeNotificationPreferences(
+  current: NotificationPreferences,
+  update: NotificationPreferencesUpdate
+): NotificationPreferences {
+  const types = { ...current.types };
+  for (const type of NOTIFICATION_PREFERENCE_TYPES) {
+    const changes = update.types?.[type];
+    if (changes) {
+      types[type] = { ...types[type], ...changes };
+    }
+  }
+
+  return {
+    timezone: update.timezone ?? current.timezone,
+    quietHours:
+      update.quietHours === undefined ? current.quietHours : update.quietHours,
+    digestHour: update.digestHour ?? current.digestHour,
+    weeklyDigestDay: update.weeklyDigestDay ?? current.weeklyDigestDay,
+    types,
+  };
+}
+
+/**
+ * Wall-clock time of an instant in a timezone
+ */
+export interface LocalTime {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  /** 0 = Sunday */
+  weekday: number;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export function getLocalTime(date: Date, timeZone: string): LocalTime {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    weekday: "short",
+    hourCycle: "h23",
+  }).formatToParts(date);
+
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? "";
+
+  return {
+    year: Number(part("year")),
+    month: Number(part("month")),
+    day: Number(part("day")),
+    hour: Number(part("hour")),
+    minute: Number(part("minute")),
+    weekday: WEEKDAYS.indexOf(part("weekday")),
+  };
+}
+
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether it is currently within the user's quiet hours. The window may
+ * wrap past midnight, e.g. 22:00-07:00.
+ */
+export function isInQuietHours(
+  preferences: NotificationPreferences,
+  now: Date = new Date()
+): boolean {
+  if (!preferences.quietHours) return false;
+
+  const start = minutesOfDay(preferences.quietHours.start);
+  const end = minutesOfDay(preferences.quietHours.end);
+  if (start === end) return false;
+
+  const local = getLocalTime(now, preferences.timezone);
+  const current = local.hour * 60 + local.minute;
+
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
+
+/**
+ * Channels that receive a notification of this type right now. Quiet hours
+ * suppress email and push; the in-app inbox always receives it.
+ */
+export function getInstantChannels(
+  preferences: NotificationPreferences,
+  type: NotificationPreferenceType,
+  now: Date = new Date()
+): Record<NotificationChannel, boolean> {
+  const frequencies = preferences.types[type];
+  const quiet = isInQuietHours(preferences, now);
+
+  return {
+    email: frequencies.email === "instant" && !quiet,
+    push: frequencies.push === "instant" && !quiet,
+    inApp: frequencies.inApp === "instant",
+  };
+}
+
+/**
+ * Digests due for the user in the current hour: the daily digest at the
+ * chosen local hour, plus the weekly digest on the chosen day
+ */
+export function getDueDigestPeriods(
+  preferences: NotificationPreferences,
+  now: Date = new Date()
+): Array<DigestPeriod> {
+  const local = getLocalTime(now, preferences.timezone);
+  if (local.hour !== preferences.digestHour) return [];
+
+  return local.weekday === preferences.weeklyDigestDay
+    ? ["daily", "weekly"]
+    : ["daily"];
+}
+
+/**
+ * Notification types a channel batches into the given digest
+ */
+export function getDigestTypes(
+  preferences: NotificationPreferences,
+  period: DigestPeriod,
+  channel: NotificationChannel
+): Array<NotificationPreferenceType> {
+  return NOTIFICATION_PREFERENCE_TYPES.filter(
+    (type) => preferences.types[type][channel] === period
+  );
+}
@@ -0,0 +1,516 @@
+/**
+ * Unit tests for push provider adapters
+ *
+ * Tests cover:
+ * - Which devices each provider handles
+ * - Request format and authentication for Expo, FCM, APNs and Web Push
+ * - Mapping provider responses to unregistered and retryable failures
+ * - Web Push payload encryption (decrypted as a browser would)
+ * - Provider selection from environment settings
+ */
+
+import {
+  createDecipheriv,
+  createECDH,
+  createPublicKey,
+  generateKeyPairSync,
+  hkdfSync,
+  randomBytes,
+  verify,
+} from "node:crypto";
+import { describe, expect, it, vi } from "vitest";
+import { ApnsPushProvider } from "./apns";
+import { ExpoPushProvider } from "./expo";
+import { FakePushProvider } from "./fake";
+import { FcmPushProvider, parseFcmServiceAccount } from "./fcm";
+import { base64UrlDecode, base64UrlEncode } from "./jwt";
+import { createPushProvidersFromEnv } from "./providers";
+import { WebPushProvider, encryptWebPushPayload } from "./web-push";
+import type { ApnsRequest } from "./apns";
+import type { NotificationPayload } from "./types";
+
+const payload: NotificationPayload = {
+  title: "New family member",
+  body: "Asha Rao joined the family tree.",
+  type: "new_member",
+  data: { userId: "user-1" },
+};
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+function decodeJwt(token: string) {
+  const [header, claims] = token.split(".");
+  return {
+    header: JSON.parse(base64UrlDecode(header).toString()),
+    claims: JSON.parse(base64UrlDecode(claims).toString()),
+  };
+}
+
+function createWebPushKeys() {
+  const ecdh = createECDH("prime256v1");
+  ecdh.generateKeys();
+  return {
+    publicKey: base64UrlEncode(ecdh.getPublicKey()),
+    privateKey: base64UrlEncode(ecdh.getPrivateKey()),
+  };
+}
+
+function createBrowserSubscription() {
+  const ecdh = createECDH("prime256v1");
+  const publicKey = ecdh.generateKeys();
+  const auth = randomBytes(16);
+  return {
+    ecdh,
+    subscription: {
+      endpoint: "https://push.example.com/send/abc",
+      keys: {
+        p256dh: base64UrlEncode(publicKey),
+        auth: base64UrlEncode(auth),
+      },
+    },
+    decrypt: (body: Buffer) => {
+      const salt = body.subarray(0, 16);
+      const keyLength = body.readUInt8(20);
+      const serverPublicKey = body.subarray(21, 21 + keyLength);
+      const content = body.subarray(21 + keyLength);
+
+      const sharedSecret = ecdh.computeSecret(serverPublicKey);
+      const ikm = Buffer.from(
+        hkdfSync(
+          "sha256",
+          sharedSecret,
+          auth,
+          Buffer.concat([
+            Buffer.from("WebPush: info\0"),
+            publicKey,
+            serverPublicKey,
+          ]),
+          32
+        )
+      );
+      const key = Buffer.from(
+        hkdfSync("sha256", ikm, salt, "Content-Encoding: aes128gcm\0", 16)
+      );
+      const nonce = Buffer.from(
+        hkdfSync("sha256", ikm, salt, "Content-Encoding: nonce\0", 12)
+      );
+      const decipher = createDecipheriv("aes-128-gcm", key, nonce);
+      decipher.setAuthTag(content.subarray(content.length - 16));
+      const plaintext = Buffer.concat([
+        decipher.update(content.subarray(0, content.length - 16)),
+        decipher.final(),
+      ]);
+      // Strip the last-record delimiter
+      return plaintext.subarray(0, plaintext.length - 1);
+    },
+  };
+}
+
+describe("ExpoPushProvider", () => {
+  const token = "ExponentPushToken[abc123]";
+
+  it("should handle Expo tokens on any platform", () => {
+    const provider = new ExpoPushProvider();
+
+    expect(provider.handles({ token, platform: "ios" })).toBe(true);
+    expect(provider.handles({ token, platform: "android" })).toBe(true);
+    expect(provider.handles({ token: "native-token", platform: "ios" })).toBe(
+      false
+    );
+  });
+
+  it("should send the notification with the access token", async () => {
+    const fetchImpl = vi.fn(async () =>
+      jsonResponse(200, { data: { status: "ok", id: "ticket-1" } })
+    );
+    const provider = new ExpoPushProvider(
+      { accessToken: "expo-secret" },
+      fetchImpl as unknown as typeof fetch
+    );
+
+    const result = await provider.send(token, payload);
+
+    expect(result).toEqual({ success: true, messageId: "ticket-1" });
+    const [url, init] = fetchImpl.mock.calls[0] as unknown as [
+      string,
+      RequestInit,
+    ];
+    expect(url).toBe("https://exp.host/--/api/v2/push/send");
+    expect((init.headers as Record<string, string>).Authorization).toBe(
+      "Bearer expo-secret"
+    );
+    expect(JSON.parse(init.body as string)).toMatchObject({
+      to: token,
+      title: payload.title,
+      body: payload.body,
+      data: { userId: "user-1", type: "new_member" },
+    });
+  });
+
+  it("should flag DeviceNotRegistered tickets as unregistered", async () => {
+    const provider = new ExpoPushProvider({}, (async () =>
+      jsonResponse(200, {
+        data: {
+          status: "error",
+          message: "not a registered push notification recipient",
+          details: { error: "DeviceNotRegistered" },
+        },
+      })) as unknown as typeof fetch);
+
+    const result = await provider.send(token, payload);
+
+    expect(result).toMatchObject({
+      success: false,
+      error: "DeviceNotRegistered",
+      unregistered: true,
+      retryable: false,
+    });
+  });
+
+  it("should mark server errors as retryable", async () => {
+    const provider = new ExpoPushProvider(
+      {},
+      (async () => new Response("", { status: 503 })) as unknown as typeof fetch
+    );
+
+    const result = await provider.send(token, payload);
+
+    expect(result).toMatchObject({ success: false, retryable: true });
+  });
+});
+
+describe("FcmPushProvider", () => {
+  const { privateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const config = {
+    projectId: "vamsa-test",
+    clientEmail: "push@vamsa-test.iam.gserviceaccount.com",
+    privateKey: privateKey.export({ type: "pkcs8", format: "pem" }),
+  };
+
+  function createFetch(sendResponse: () => Response) {
+    return vi.fn(async (url: string) =>
+      url.startsWith("https://oauth2.googleapis.com")
+        ? jsonResponse(200, { access_token: "access-1", expires_in: 3600 })
+        : sendResponse()
+    );
+  }
+
+  it("should parse a service account", () => {
+    expect(
+      parseFcmServiceAccount(
+        JSON.stringify({
+          project_id: config.projectId,
+          client_email: config.clientEmail,
+          private_key: config.privateKey,
+        })
+      )
+    ).toEqual(config);
+    expect(() => parseFcmServiceAccount("{}")).toThrow(
+      "FCM service account must include project_id, client_email and private_key"
+    );
+  });
+
+  it("should handle Android devices", () => {
+    const provider = new FcmPushProvider(config);
+
+    expect(provider.handles({ token: "t", platform: "android" })).toBe(true);
+    expect(provider.handles({ token: "t", platform: "ios" })).toBe(false);
+  });
+
+  it("should exchange a signed assertion and reuse the access token", async () => {
+    const fetchImpl = createFetch(() =>
+      jsonResponse(200, { name: "projects/vamsa-test/messages/1" })
+    );
+    const provider = new FcmPushProvider(
+      config,
+      fetchImpl as unknown as typeof fetch
+    );
+
+    const first = await provider.send("registration-token", payload);
+    await provider.send("registration-token", payload);
+
+    expect(first).toEqual({
+      success: true,
+      messageId: "projects/vamsa-test/messages/1",
+    });
+    const urls = fetchImpl.mock.calls.map(([url]) => url);
+    expect(urls.filter((url) => url.startsWith("https://oauth2")).length).toBe(
+      1
+    );
+
+    const [, tokenInit] = fetchImpl.mock.calls[0] as unknown as [
+      string,
+      RequestInit,
+    ];
+    const assertion = new URLSearchParams(tokenInit.body as string).get(
+      "assertion"
+    )!;
+    expect(decodeJwt(assertion).claims).toMatchObject({
+      iss: config.clientEmail,
+      scope: "https://www.googleapis.com/auth/firebase.messaging",
+    });
+
+    const [sendUrl, sendInit] = fetchImpl.mock.calls[1] as unknown as [
+      string,
+      RequestInit,
+    ];
+    expect(sendUrl).toBe(
+      "https://fcm.googleapis.com/v1/projects/vamsa-test/messages:send"
+    );
+    expect((sendInit.headers as Record<string, string>).Authorization).toBe(
+      "Bearer access-1"
+    );
+    expect(JSON.parse(sendInit.body as string).message).toMatchObject({
+      token: "registration-token",
+      notification: { title: payload.title, body: payload.body },
+    });
+  });
+
+  it("should flag UNREGISTERED errors", async () => {
+    const provider = new FcmPushProvider(
+      config,
+      createFetch(() =>
+        jsonResponse(404, {
+          error: {
+            status: "NOT_FOUND",
+            message: "Requested entity was not found.",
+            details: [{ errorCode: "UNREGISTERED" }],
+          },
+        })
+      ) as unknown as typeof fetch
+    );
+
+    const result = await provider.send("registration-token", payload);
+
+    expect(result).toMatchObject({
+      success: false,
+      unregistered: true,
+      retryable: false,
+    });
+  });
+});
+
+describe("ApnsPushProvider", () => {
+  const { privateKey, publicKey } = generateKeyPairSync("ec", {
+    namedCurve: "P-256",
+  });
+  const config = {
+    keyId: "KEY123",
+    teamId: "TEAM456",
+    privateKey: privateKey.export({ type: "pkcs8", format: "pem" }),
+    bundleId: "app.vamsa.mobile",
+    production: false,
+  };
+
+  it("should send to the sandbox with a signed provider token", async () => {
+    const requests: Array<ApnsRequest> = [];
+    const provider = new ApnsPushProvider(config, async (request) => {
+      requests.push(request);
+      return { status: 200, apnsId: "apns-1", body: "" };
+    });
+
+    const result = await provider.send("device-token", payload);
+
+    expect(result).toEqual({ success: true, messageId: "apns-1" });
+    const [request] = requests;
+    expect(request.origin).toBe("https://api.sandbox.push.apple.com");
+    expect(request.path).toBe("/3/device/device-token");
+    expect(request.headers["apns-topic"]).toBe("app.vamsa.mobile");
+    expect(JSON.parse(request.body)).toMatchObject({
+      aps: { alert: { title: payload.title, body: payload.body } },
+      userId: "user-1",
+      type: "new_member",
+    });
+
+    const jwt = request.headers.authorization.replace("bearer ", "");
+    const { header, claims } = decodeJwt(jwt);
+    expect(header).toMatchObject({ alg: "ES256", kid: "KEY123" });
+    expect(claims.iss).toBe("TEAM456");
+    const [encodedHeader, encodedClaims, signature] = jwt.split(".");
+    expect(
+      verify(
+        "sha256",
+        Buffer.from(`${encodedHeader}.${encodedClaims}`),
+        { key: publicKey, dsaEncoding: "ieee-p1363" },
+        base64UrlDecode(signature)
+      )
+    ).toBe(true);
+  });
+
+  it("should flag unregistered and bad device tokens", async () => {
+    const gone = new ApnsPushProvider(config, async () => ({
+      status: 410,
+      body: JSON.stringify({ reason: "Unregistered" }),
+    }));
+    const bad = new ApnsPushProvider(config, async () => ({
+      status: 400,
+      body: JSON.stringify({ reason: "BadDeviceToken" }),
+    }));
+
+    expect(await gone.send("device-token", payload)).toMatchObject({
+      success: false,
+      error: "Unregistered",
+      unregistered: true,
+    });
+    expect(await bad.send("device-token", payload)).toMatchObject({
+      unregistered: true,
+    });
+  });
+
+  it("should retry throttled requests", async () => {
+    const provider = new ApnsPushProvider(config, async () => ({
+      status: 429,
+      body: JSON.stringify({ reason: "TooManyRequests" }),
+    }));
+
+    expect(await provider.send("device-token", payload)).toMatchObject({
+      success: false,
+      unregistered: false,
+      retryable: true,
+    });
+  });
+});
+
+describe("WebPushProvider", () => {
+  const vapid = createWebPushKeys();
+  const config = { ...vapid, subject: "mailto:admin@vamsa.app" };
+
+  it("should encrypt payloads so the browser can decrypt them", () => {
+    const browser = createBrowserSubscription();
+
+    const body = encryptWebPushPayload(
+      Buffer.from("hello family"),
+      browser.subscription
+    );
+
+    expect(body.readUInt32BE(16)).toBe(4096);
+    expect(browser.decrypt(body).toString()).toBe("hello family");
+  });
+
+  it("should post an encrypted payload with a VAPID token", async () => {
+    const browser = createBrowserSubscription();
+    const fetchImpl = vi.fn(
+      async () =>
+        new Response(null, {
+          status: 201,
+          headers: { Location: "https://push.example.com/m/1" },
+        })
+    );
+    const provider = new WebPushProvider(
+      config,
+      fetchImpl as unknown as typeof fetch
+    );
+
+    const result = await provider.send(
+      JSON.stringify(browser.subscription),
+      payload
+    );
+
+    expect(result).toEqual({
+      success: true,
+      messageId: "https://push.example.com/m/1",
+    });
+    const [url, init] = fetchImpl.mock.calls[0] as unknown as [
+      string,
+      RequestInit,
+    ];
+    expect(url).toBe(browser.subscription.endpoint);
+    const headers = init.headers as Record<string, string>;
+    expect(headers["Content-Encoding"]).toBe("aes128gcm");
+
+    const [, jwt, publicKey] = /^vapid t=(.+), k=(.+)$/.exec(
+      headers.Authorization
+    )!;
+    expect(publicKey).toBe(vapid.publicKey);
+    expect(decodeJwt(jwt).claims).toMatchObject({
+      aud: "https://push.example.com",
+      sub: "mailto:admin@vamsa.app",
+    });
+    const rawPublicKey = base64UrlDecode(vapid.publicKey);
+    const [encodedHeader, encodedClaims, signature] = jwt.split(".");
+    expect(
+      verify(
+        "sha256",
+        Buffer.from(`${encodedHeader}.${encodedClaims}`),
+        {
+          key: createPublicKey({
+            key: {
+              kty: "EC",
+              crv: "P-256",
+              x: base64UrlEncode(rawPublicKey.subarray(1, 33)),
+              y: base64UrlEncode(rawPublicKey.subarray(33, 65)),
+            },
+            format: "jwk",
+          }),
+          dsaEncoding: "ieee-p1363",
+        },
+        base64UrlDecode(signature)
+      )
+    ).toBe(true);
+
+    const decrypted = browser.decrypt(Buffer.from(init.body as Uint8Array));
+    expect(JSON.parse(decrypted.toString())).toEqual(payload);
+  });
+
+  it("should flag expired subscriptions and malformed tokens", async () => {
+    const browser = createBrowserSubscription();
+    const provider = new WebPushProvider(
+      config,
+      (async () =>
+        new Response(null, { status: 410 })) as unknown as typeof fetch
+    );
+
+    expect(
+      await provider.send(JSON.stringify(browser.subscription), payload)
+    ).toMatchObject({ success: false, unregistered: true });
+    expect(await provider.send("not-json", payload)).toMatchObject({
+      success: false,
+      error: "Invalid web push subscription",
+      unregistered: true,
+    });
+  });
+});
+
+describe("createPushProvidersFromEnv", () => {
+  it("should enable nothing without settings", () => {
+    expect(createPushProvidersFromEnv({})).toEqual([]);
+  });
+
+  it("should use only the fake provider when requested", () => {
+    const providers = createPushProvidersFromEnv({
+      PUSH_PROVIDER: "fake",
+      EXPO_PUSH_ENABLED: "true",
+    });
+
+    expect(providers).toHaveLength(1);
+    expect(providers[0]).toBeInstanceOf(FakePushProvider);
+  });
+
+  it("should enable each configured provider with Expo first", () => {
+    const { privateKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+    const vapid = createWebPushKeys();
+
+    const providers = createPushProvidersFromEnv({
+      EXPO_PUSH_ENABLED: "true",
+      APNS_KEY_ID: "KEY123",
+      APNS_TEAM_ID: "TEAM456",
+      APNS_PRIVATE_KEY: privateKey
+        .export({ type: "pkcs8", format: "pem" })
+        .replace(/\n/g, "\\n"),
+      APNS_BUNDLE_ID: "app.vamsa.mobile",
+      VAPID_PUBLIC_KEY: vapid.publicKey,
+      VAPID_PRIVATE_KEY: vapid.privateKey,
+      VAPID_SUBJECT: "mailto:admin@vamsa.app",
+    });
+
+    expect(providers.map((provider) => provider.name)).toEqual([
+      "expo",
+      "apns",
+      "webpush",
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Push provider configuration
+ *
+ * Providers are enabled by their environment settings:
+ * - Expo: EXPO_PUSH_ENABLED=true or EXPO_ACCESS_TOKEN
+ * - FCM: FCM_SERVICE_ACCOUNT_JSON (service account key file contents)
+ * - APNs: APNS_KEY_ID, APNS_TEAM_ID, APNS_PRIVATE_KEY, APNS_BUNDLE_ID and
+ *   APNS_PRODUCTION=true outside the sandbox
+ * - Web Push: VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT
+ *
+ * PUSH_PROVIDER=fake replaces them all with the fake provider, which logs
+ * and records notifications instead of sending them.
+ */
+
+import { ApnsPushProvider } from "./apns";
+import { ExpoPushProvider } from "./expo";
+import { FakePushProvider } from "./fake";
+import { FcmPushProvider, parseFcmServiceAccount } from "./fcm";
+import { WebPushProvider } from "./web-push";
+import type { PushProvider } from "./types";
+
+let configuredProviders: Array<PushProvider> | null = null;
+
+/** PEM keys in .env files usually have their newlines escaped */
+function readPem(value: string): string {
+  return value.replace(/\\n/g, "\n");
+}
+
+/**
+ * Build the providers enabled by the environment, in the order they are
+ * tried for each device. Expo comes first because Expo tokens are issued
+ * on every platform.
+ */
+export function createPushProvidersFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): Array<PushProvider> {
+  if (env.PUSH_PROVIDER === "fake") {
+    return [new FakePushProvider()];
+  }
+
+  const providers: Array<PushProvider> = [];
+
+  if (env.EXPO_PUSH_ENABLED === "true" || env.EXPO_ACCESS_TOKEN) {
+    providers.push(
+      new ExpoPushProvider({ accessToken: env.EXPO_ACCESS_TOKEN })
+    );
+  }
+
+  if (env.FCM_SERVICE_ACCOUNT_JSON) {
+    providers.push(
+      new FcmPushProvider(parseFcmServiceAccount(env.FCM_SERVICE_ACCOUNT_JSON))
+    );
+  }
+
+  if (
+    env.APNS_KEY_ID &&
+    env.APNS_TEAM_ID &&
+    env.APNS_PRIVATE_KEY &&
+    env.APNS_BUNDLE_ID
+  ) {
+    providers.push(
+      new ApnsPushProvider({
+        keyId: env.APNS_KEY_ID,
+        teamId: env.APNS_TEAM_ID,
+        privateKey: readPem(env.APNS_PRIVATE_KEY),
+        bundleId: env.APNS_BUNDLE_ID,
+        production: env.APNS_PRODUCTION === "true",
+      })
+    );
+  }
+
+  if (env.VAPID_PUBLIC_KEY && env.VAPID_PRIVATE_KEY && env.VAPID_SUBJECT) {
+    providers.push(
+      new WebPushProvider({
+        publicKey: env.VAPID_PUBLIC_KEY,
+        privateKey: env.VAPID_PRIVATE_KEY,
+        subject: env.VAPID_SUBJECT,
+      })
+    );
+  }
+
+  return providers;
+}
+
+/**
+ * Providers configured from the environment, created once so access
+ * tokens and connections are reused between sends
+ */
+export function getPushProviders(): Array<PushProvider> {
+  configuredProviders ??= createPushProvidersFromEnv();
+  return configuredProviders;
+}
+
+/**
+ * Forget the configured providers so the next call re-reads the
+ * environment
+ */
+export function resetPushProviders(): void {
+  configuredProviders = null;
+}
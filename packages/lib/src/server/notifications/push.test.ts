@@ -0,0 +1,210 @@
+/**
+ * Unit tests for push notification delivery
+ *
+ * Tests cover:
+ * - Delivery to every active device of each recipient
+ * - Routing each device to the first provider that handles it
+ * - Retrying transient failures up to the attempt limit
+ * - Deactivating tokens a provider reports as unregistered
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { FakePushProvider } from "./fake";
+import { sendPushToUsers } from "./push";
+import type { DeviceTokenRecord, NotificationPayload } from "./types";
+
+const payload: NotificationPayload = {
+  title: "Birthday today",
+  body: "Today is Asha Rao's birthday.",
+  type: "birthday_reminder",
+};
+
+function createDb(devicesByUser: Record<string, Array<DeviceTokenRecord>>) {
+  const updateWhere = vi.fn(() => Promise.resolve());
+  const updateSet = vi.fn(() => ({ where: updateWhere }));
+  let requestedUserIds: Array<string> = [];
+
+  const db = {
+    query: {
+      deviceTokens: {
+        findMany: vi.fn(async () => {
+          const userId = requestedUserIds.shift() ?? "";
+          return devicesByUser[userId] ?? [];
+        }),
+      },
+    },
+    update: vi.fn(() => ({ set: updateSet })),
+  };
+
+  return {
+    db: db as any,
+    updateSet,
+    expectUsers: (userIds: Array<string>) => {
+      requestedUserIds = [...userIds];
+    },
+  };
+}
+
+describe("sendPushToUsers", () => {
+  let fake: FakePushProvider;
+
+  beforeEach(() => {
+    fake = new FakePushProvider();
+  });
+
+  it("should send to every active device of each user once", async () => {
+    const { db, expectUsers } = createDb({
+      "user-1": [
+        { token: "token-a", platform: "ios" },
+        { token: "token-b", platform: "android" },
+      ],
+      "user-2": [{ token: "token-c", platform: "web" }],
+    });
+    expectUsers(["user-1", "user-2"]);
+
+    const results = await sendPushToUsers(
+      ["user-1", "user-2", "user-1"],
+      payload,
+      db,
+      { providers: [fake] }
+    );
+
+    expect(fake.sent.map((message) => message.token)).toEqual([
+      "token-a",
+      "token-b",
+      "token-c",
+    ]);
+    expect(results).toHaveLength(3);
+    expect(results.every((result) => result.success)).toBe(true);
+    expect(results[0]).toMatchObject({
+      userId: "user-1",
+      platform: "ios",
+      provider: "fake",
+      attempts: 1,
+    });
+  });
+
+  it("should do nothing when no providers are configured", async () => {
+    const { db } = createDb({});
+
+    const results = await sendPushToUsers(["user-1"], payload, db, {
+      providers: [],
+    });
+
+    expect(results).toEqual([]);
+    expect(db.query.deviceTokens.findMany).not.toHaveBeenCalled();
+  });
+
+  it("should report devices no provider handles", async () => {
+    const { db, expectUsers } = createDb({
+      "user-1": [{ token: "token-a", platform: "web" }],
+    });
+    expectUsers(["user-1"]);
+    const iosOnly = {
+      name: "apns" as const,
+      handles: (device: DeviceTokenRecord) => device.platform === "ios",
+      send: vi.fn(),
+    };
+
+    const results = await sendPushToUsers(["user-1"], payload, db, {
+      providers: [iosOnly],
+    });
+
+    expect(iosOnly.send).not.toHaveBeenCalled();
+    expect(results[0]).toMatchObject({
+      success: false,
+      error: "No push provider configured for web",
+      attempts: 0,
+    });
+  });
+
+  it("should retry transient failures", async () => {
+    const { db, expectUsers } = createDb({
+      "user-1": [{ token: "token-a", platform: "android" }],
+    });
+    expectUsers(["user-1"]);
+    fake.failNext("token-a", 2);
+
+    const results = await sendPushToUsers(["user-1"], payload, db, {
+      providers: [fake],
+      retryDelayMs: 0,
+    });
+
+    expect(results[0]).toMatchObject({ success: true, attempts: 3 });
+    expect(fake.sent).toHaveLength(1);
+  });
+
+  it("should give up after the attempt limit", async () => {
+    const { db, expectUsers } = createDb({
+      "user-1": [{ token: "token-a", platform: "android" }],
+    });
+    expectUsers(["user-1"]);
+    fake.failNext("token-a", 5);
+
+    const results = await sendPushToUsers(["user-1"], payload, db, {
+      providers: [fake],
+      maxAttempts: 2,
+      retryDelayMs: 0,
+    });
+
+    expect(results[0]).toMatchObject({
+      success: false,
+      error: "Unavailable",
+      attempts: 2,
+    });
+    expect(fake.sent).toHaveLength(0);
+  });
+
+  it("should retry when a provider throws", async () => {
+    const { db, expectUsers } = createDb({
+      "user-1": [{ token: "token-a", platform: "ios" }],
+    });
+    expectUsers(["user-1"]);
+    const flaky = {
+      name: "apns" as const,
+      handles: () => true,
+      send: vi
+        .fn()
+        .mockRejectedValueOnce(new Error("socket hang up"))
+        .mockResolvedValueOnce({ success: true, messageId: "apns-1" }),
+    };
+
+    const results = await sendPushToUsers(["user-1"], payload, db, {
+      providers: [flaky],
+      retryDelayMs: 0,
+    });
+
+    expect(results[0]).toMatchObject({
+      success: true,
+      messageId: "apns-1",
+      attempts: 2,
+    });
+  });
+
+  it("should deactivate unregistered tokens without retrying", async () => {
+    const { db, expectUsers, updateSet } = createDb({
+      "user-1": [
+        { token: "token-a", platform: "ios" },
+        { token: "token-b", platform: "ios" },
+      ],
+    });
+    expectUsers(["user-1"]);
+    fake.unregister("token-a");
+
+    const results = await sendPushToUsers(["user-1"], payload, db, {
+      providers: [fake],
+      retryDelayMs: 0,
+    });
+
+    expect(results[0]).toMatchObject({
+      success: false,
+      attempts: 1,
+      deactivated: true,
+    });
+    expect(results[1]).toMatchObject({ success: true, deactivated: false });
+    expect(db.update).toHaveBeenCalledTimes(1);
+    expect(updateSet).toHaveBeenCalledWith(
+      expect.objectContaining({ isActive: false })
+    );
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Push Notification Delivery
+ *
+ * Sends a notification to every active device of the given users through
+ * the first provider that handles each device. Transient failures are
+ * retried with exponential backoff, and tokens the provider reports as
+ * unregistered are deactivated so they are not tried again.
+ */
+
+import { drizzleDb } from "@vamsa/api";
+import { loggers } from "@vamsa/lib/logger";
+import { deactivateDeviceToken, getActiveDeviceTokens } from "./device-tokens";
+import { getPushProviders } from "./providers";
+import type { DeviceTokensDb } from "./device-tokens";
+import type {
+  DeviceTokenRecord,
+  NotificationPayload,
+  PushDeliveryResult,
+  PushProvider,
+  PushSendResult,
+} from "./types";
+
+const log = loggers.push;
+
+export interface PushDeliveryOptions {
+  /** Providers to deliver through (defaults to the configured providers) */
+  providers?: Array<PushProvider>;
+  /** Attempts per device, including the first (default 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry, doubled for each later retry (default 1000) */
+  retryDelayMs?: number;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function sendWithRetry(
+  provider: PushProvider,
+  device: DeviceTokenRecord,
+  payload: NotificationPayload,
+  maxAttempts: number,
+  retryDelayMs: number
+): Promise<{ result: PushSendResult; attempts: number }> {
+  let attempts = 0;
+  for (;;) {
+    attempts++;
+    let result: PushSendResult;
+    try {
+      result = await provider.send(device.token, payload);
+    } catch (error) {
+      result = {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        retryable: true,
+      };
+    }
+
+    if (result.success || !result.retryable || attempts >= maxAttempts) {
+      return { result, attempts };
+    }
+    await sleep(retryDelayMs * 2 ** (attempts - 1));
+  }
+}
+
+/**
+ * Send a push notification to all active devices of the given users
+ *
+ * @param userIds - Recipients; duplicates are ignored
+ * @param payload - Notification title, body, type and data
+ * @param db - Database instance (defaults to drizzleDb for production)
+ * @param options - Providers and retry settings
+ * @returns One result per device. Errors are logged but don't throw
+ */
+export async function sendPushToUsers(
+  userIds: Array<string>,
+  payload: NotificationPayload,
+  db: DeviceTokensDb = drizzleDb,
+  options: PushDeliveryOptions = {}
+): Promise<Array<PushDeliveryResult>> {
+  const providers = options.providers ?? getPushProviders();
+  if (providers.length === 0 || userIds.length === 0) {
+    return [];
+  }
+
+  const maxAttempts = options.maxAttempts ?? 3;
+  const retryDelayMs = options.retryDelayMs ?? 1000;
+  const results: Array<PushDeliveryResult> = [];
+
+  for (const userId of new Set(userIds)) {
+    let devices: Array<DeviceTokenRecord>;
+    try {
+      devices = await getActiveDeviceTokens(userId, db);
+    } catch {
+      continue;
+    }
+
+    for (const device of devices) {
+      const provider = providers.find((candidate) => candidate.handles(device));
+      if (!provider) {
+        results.push({
+          userId,
+          platform: device.platform,
+          success: false,
+          error: `No push provider configured for ${device.platform}`,
+          attempts: 0,
+        });
+        continue;
+      }
+
+      const { result, attempts } = await sendWithRetry(
+        provider,
+        device,
+        payload,
+        maxAttempts,
+        retryDelayMs
+      );
+
+      let deactivated = false;
+      if (result.unregistered) {
+        try {
+          await deactivateDeviceToken(device.token, db);
+          deactivated = true;
+        } catch {
+          // Logged by deactivateDeviceToken; the token is retried next time
+        }
+      }
+
+      if (!result.success) {
+        log.warn(
+          {
+            userId,
+            platform: device.platform,
+            provider: provider.name,
+            attempts,
+            error: result.error,
+          },
+          "Push notification delivery failed"
+        );
+      }
+
+      results.push({
+        userId,
+        platform: device.platform,
+        provider: provider.name,
+        success: result.success,
+        messageId: result.messageId,
+        error: result.error,
+        attempts,
+        deactivated,
+      });
+    }
+  }
+
+  log.info(
+    {
+      type: payload.type,
+      sent: results.filter((r) => r.success).length,
+      failed: results.filter((r) => !r.success).length,
+    },
+    "Push notifications delivered"
+  );
+
+  return results;
+}
@@ -6,8 +6,11 @@
 
 export type NotificationType =
   | "birthday_reminder"
+  | "anniversary_reminder"
   | "new_member"
   | "relationship_suggestion"
+  | "suggestion_created"
+  | "suggestion_reviewed"
   | "collaboration_invite"
   | "general";
 
@@ -24,15 +27,55 @@ export interface PushNotificationResult {
   error?: string;
 }
 
+export type DevicePlatform = "ios" | "android" | "web";
+
 export interface DeviceTokenRecord {
   token: string;
-  platform: "ios" | "android" | "web";
+  platform: DevicePlatform;
   deviceId?: string;
 }
 
 export interface DeviceTokenInput {
   userId: string;
   token: string;
-  platform: "ios" | "android" | "web";
+  platform: DevicePlatform;
   deviceId?: string;
 }
+
+export type PushProviderName = "expo" | "fcm" | "apns" | "webpush" | "fake";
+
+/**
+ * Outcome of a single delivery attempt to one device
+ */
+export interface PushSendResult extends PushNotificationResult {
+  /** The token is no longer valid and should be deactivated */
+  unregistered?: boolean;
+  /** The failure is transient and the send may be retried */
+  retryable?: boolean;
+}
+
+/**
+ * Adapter for a push notification service
+ */
+export interface PushProvider {
+  readonly name: PushProviderName;
+  /** Whether this provider delivers to the given device */
+  handles: (device: DeviceTokenRecord) => boolean;
+  /** Send one notification to one device token */
+  send: (
+    token: string,
+    payload: NotificationPayload
+  ) => Promise<PushSendResult>;
+}
+
+/**
+ * Result of delivering a notification to one device
+ */
+export interface PushDeliveryResult extends PushNotificationResult {
+  userId: string;
+  platform: DevicePlatform;
+  provider?: PushProviderName;
+  attempts: number;
+  /** The token was deactivated because the provider rejected it */
+  deactivated?: boolean;
+}
@@ -0,0 +1,192 @@
+/**
+ * Web Push provider (VAPID)
+ *
+ * Delivers to browser push subscriptions. The device token of a web
+ * device is the JSON-serialized PushSubscription ({ endpoint, keys }).
+ * Payloads are encrypted with the aes128gcm content coding (RFC 8291) and
+ * requests are authenticated with a VAPID token (RFC 8292).
+ */
+
+import {
+  createCipheriv,
+  createECDH,
+  createPrivateKey,
+  hkdfSync,
+  randomBytes,
+} from "node:crypto";
+import { base64UrlDecode, base64UrlEncode, signJwt } from "./jwt";
+import type { KeyObject } from "node:crypto";
+import type {
+  DeviceTokenRecord,
+  NotificationPayload,
+  PushProvider,
+  PushSendResult,
+} from "./types";
+
+const RECORD_SIZE = 4096;
+const VAPID_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+
+export interface WebPushConfig {
+  /** Uncompressed P-256 public key, base64url encoded */
+  publicKey: string;
+  /** P-256 private key scalar, base64url encoded */
+  privateKey: string;
+  /** Contact for the push service, a mailto: or https: URL */
+  subject: string;
+}
+
+export interface WebPushSubscription {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+/**
+ * Parse the stored token of a web device
+ *
+ * @throws Error when the token is not a serialized PushSubscription
+ */
+export function parseWebPushSubscription(token: string): WebPushSubscription {
+  let subscription: Partial<WebPushSubscription>;
+  try {
+    subscription = JSON.parse(token) as Partial<WebPushSubscription>;
+  } catch {
+    throw new Error("Invalid web push subscription");
+  }
+  if (
+    !subscription.endpoint ||
+    !subscription.keys?.p256dh ||
+    !subscription.keys.auth
+  ) {
+    throw new Error("Invalid web push subscription");
+  }
+  return subscription as WebPushSubscription;
+}
+
+/**
+ * Encrypt a payload for a subscription with the aes128gcm content coding
+ */
+export function encryptWebPushPayload(
+  plaintext: Buffer,
+  subscription: WebPushSubscription,
+  salt: Buffer = randomBytes(16)
+): Buffer {
+  const userAgentPublicKey = base64UrlDecode(subscription.keys.p256dh);
+  const authSecret = base64UrlDecode(subscription.keys.auth);
+
+  const ecdh = createECDH("prime256v1");
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(userAgentPublicKey);
+
+  const keyInfo = Buffer.concat([
+    Buffer.from("WebPush: info\0"),
+    userAgentPublicKey,
+    serverPublicKey,
+  ]);
+  const ikm = Buffer.from(
+    hkdfSync("sha256", sharedSecret, authSecret, keyInfo, 32)
+  );
+  const contentKey = Buffer.from(
+    hkdfSync("sha256", ikm, salt, "Content-Encoding: aes128gcm\0", 16)
+  );
+  const nonce = Buffer.from(
+    hkdfSync("sha256", ikm, salt, "Content-Encoding: nonce\0", 12)
+  );
+
+  const cipher = createCipheriv("aes-128-gcm", contentKey, nonce);
+  // A single record, terminated by the 0x02 last-record delimiter
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.concat([plaintext, Buffer.from([2])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+
+  return Buffer.concat([header, serverPublicKey, ciphertext]);
+}
+
+export class WebPushProvider implements PushProvider {
+  readonly name = "webpush" as const;
+
+  private readonly signingKey: KeyObject;
+
+  constructor(
+    private readonly config: WebPushConfig,
+    private readonly fetchImpl: typeof fetch = fetch
+  ) {
+    const publicKey = base64UrlDecode(config.publicKey);
+    this.signingKey = createPrivateKey({
+      key: {
+        kty: "EC",
+        crv: "P-256",
+        d: config.privateKey,
+        x: base64UrlEncode(publicKey.subarray(1, 33)),
+        y: base64UrlEncode(publicKey.subarray(33, 65)),
+      },
+      format: "jwk",
+    });
+  }
+
+  handles(device: DeviceTokenRecord): boolean {
+    return device.platform === "web";
+  }
+
+  async send(
+    token: string,
+    payload: NotificationPayload
+  ): Promise<PushSendResult> {
+    let subscription: WebPushSubscription;
+    try {
+      subscription = parseWebPushSubscription(token);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        unregistered: true,
+      };
+    }
+
+    const body = encryptWebPushPayload(
+      Buffer.from(JSON.stringify(payload)),
+      subscription
+    );
+    const vapidToken = signJwt(
+      "ES256",
+      {
+        aud: new URL(subscription.endpoint).origin,
+        exp: Math.floor(Date.now() / 1000) + VAPID_TOKEN_TTL_SECONDS,
+        sub: this.config.subject,
+      },
+      this.signingKey
+    );
+
+    const response = await this.fetchImpl(subscription.endpoint, {
+      method: "POST",
+      headers: {
+        Authorization: `vapid t=${vapidToken}, k=${this.config.publicKey}`,
+        "Content-Encoding": "aes128gcm",
+        "Content-Type": "application/octet-stream",
+        TTL: "86400",
+        Urgency: "normal",
+      },
+      body: new Uint8Array(body),
+    });
+
+    if (response.ok) {
+      return {
+        success: true,
+        messageId: response.headers.get("location") ?? undefined,
+      };
+    }
+
+    return {
+      success: false,
+      error: `Web push request failed (${response.status})`,
+      unregistered: response.status === 404 || response.status === 410,
+      retryable: response.status === 429 || response.status >= 500,
+    };
+  }
+}
@@ -292,3 +292,129 @@ export const personWithEventsGedcom = `0 HEAD
 1 RETI
 2 DATE 1 JAN 2045
 0 TRLR`;
+
+/**
+ * GEDCOM 5.5.1 reference file with events, places, sources, citations,
+ * shared notes and media, for round-trip tests
+ */
+export const referenceGedcom551 = `0 HEAD
+1 SOUR TestSuite
+1 GEDC
+2 VERS 5.5.1
+2 FORM LINEAGE-LINKED
+1 CHAR UTF-8
+0 @I1@ INDI
+1 NAME Ravi /Rao/
+1 SEX M
+1 BIRT
+2 DATE ABT 1850
+2 PLAC Pune, India
+3 MAP
+4 LATI N18.5204
+4 LONG E73.8567
+2 SOUR @S1@
+3 PAGE Folio 12
+3 QUAY 3
+3 NOTE Entry in the baptism column
+2 OBJE @O1@
+1 DEAT
+2 DATE 3 MAR 1910
+2 PLAC Bombay, India
+1 OCCU Farmer
+2 DATE 1880
+1 RESI
+2 DATE BET 1880 AND 1890
+2 PLAC Nashik, India
+2 NOTE Family home
+1 EVEN
+2 TYPE Land purchase
+2 DATE 1885
+1 NOTE @N1@
+1 SOUR Family bible
+1 OBJE @O1@
+2 _PRIM Y
+1 FAMS @F1@
+0 @I2@ INDI
+1 NAME Meena /Kale/
+1 SEX F
+1 BIRT
+2 DATE 12 JUN 1855
+1 FAMS @F1@
+0 @I3@ INDI
+1 NAME Dev /Rao/
+1 SEX M
+1 BIRT
+2 DATE 1880
+1 FAMC @F1@
+0 @F1@ FAM
+1 HUSB @I1@
+1 WIFE @I2@
+1 CHIL @I3@
+1 MARR
+2 DATE 4 MAY 1875
+2 PLAC Pune, India
+2 SOUR @S2@
+3 PAGE Entry 7
+3 QUAY 2
+0 @S1@ SOUR
+1 TITL Pune parish register
+1 AUTH St. Mary's Church
+1 PUBL 1850-1900
+1 REPO @R1@
+2 CALN PR-1850
+0 @S2@ SOUR
+1 TITL Marriage records of Pune
+0 @R1@ REPO
+1 NAME Pune district archive
+0 @O1@ OBJE
+1 FILE photos/ravi.jpg
+2 FORM jpg
+2 TITL Ravi Rao, 1900
+0 @N1@ NOTE Ravi farmed the family land near Nashik.
+1 CONT He moved to Bombay in 1905.
+0 TRLR`;
+
+/**
+ * GEDCOM 7.0 reference file with ISO-style structures: SNOTE records, media
+ * types in FORM and an engagement
+ */
+export const referenceGedcom70 = `0 HEAD
+1 GEDC
+2 VERS 7.0
+0 @I1@ INDI
+1 NAME Asha /Rao/
+1 SEX F
+1 BIRT
+2 DATE ABT 1901
+2 PLAC Mysore, India
+2 SOUR @S1@
+3 PAGE p. 4
+3 QUAY 2
+1 DEAT
+2 DATE 1980
+1 EDUC Maharani College
+2 DATE 1920
+1 SNOTE @N1@
+1 OBJE @O1@
+1 FAMS @F1@
+0 @I2@ INDI
+1 NAME Vikram /Rao/
+1 SEX M
+1 FAMS @F1@
+0 @F1@ FAM
+1 HUSB @I2@
+1 WIFE @I1@
+1 ENGA
+2 DATE 1924
+1 MARR
+2 DATE 2 FEB 1925
+0 @S1@ SOUR
+1 TITL Mysore birth register
+1 NOTE Transcribed in 1990
+0 @O1@ OBJE
+1 FILE media/asha.png
+2 FORM image/png
+2 TITL Asha at twenty
+0 @N1@ SNOTE Asha taught mathematics
+1 CONT for forty years.
+0 TRLR`;
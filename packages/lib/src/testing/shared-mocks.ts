@@ -57,6 +57,7 @@ export const mockLoggers = {
   api: mockDomainLogger,
   jobs: mockDomainLogger,
   email: mockDomainLogger,
+  push: mockDomainLogger,
   media: mockDomainLogger,
   seed: mockDomainLogger,
 };
@@ -0,0 +1,157 @@
+/**
+ * TrueType Test Fixtures
+ *
+ * Builds tiny TrueType fonts in memory for testing the font reader and PDF
+ * font embedding. The fonts have metrics and a character map but no glyph
+ * outlines.
+ */
+
+export interface TestFontOptions {
+  /** PostScript name written to the name table */
+  name?: string;
+  /** Character map subtable format */
+  cmapFormat?: 4 | 12;
+  unitsPerEm?: number;
+}
+
+function table(size: number): Buffer {
+  return Buffer.alloc(size);
+}
+
+function buildCmap(codePoints: Array<number>, format: 4 | 12): Buffer {
+  let subtable: Buffer;
+
+  if (format === 12) {
+    subtable = table(16 + codePoints.length * 12);
+    subtable.writeUInt16BE(12, 0);
+    subtable.writeUInt32BE(subtable.length, 4);
+    subtable.writeUInt32BE(codePoints.length, 12);
+    codePoints.forEach((codePoint, index) => {
+      const group = 16 + index * 12;
+      subtable.writeUInt32BE(codePoint, group);
+      subtable.writeUInt32BE(codePoint, group + 4);
+      subtable.writeUInt32BE(index + 1, group + 8);
+    });
+  } else {
+    // One segment per character plus the required final 0xFFFF segment
+    const segments = [
+      ...codePoints.map((codePoint, index) => ({
+        code: codePoint,
+        delta: (index + 1 - codePoint) & 0xffff,
+      })),
+      { code: 0xffff, delta: 1 },
+    ];
+    const segX2 = segments.length * 2;
+    subtable = table(16 + segX2 * 4);
+    subtable.writeUInt16BE(4, 0);
+    subtable.writeUInt16BE(subtable.length, 2);
+    subtable.writeUInt16BE(segX2, 6);
+    segments.forEach(({ code, delta }, index) => {
+      subtable.writeUInt16BE(code, 14 + index * 2);
+      subtable.writeUInt16BE(code, 16 + segX2 + index * 2);
+      subtable.writeUInt16BE(delta, 16 + segX2 * 2 + index * 2);
+    });
+  }
+
+  const header = table(12);
+  header.writeUInt16BE(1, 2);
+  header.writeUInt16BE(3, 4);
+  header.writeUInt16BE(format === 12 ? 10 : 1, 6);
+  header.writeUInt32BE(12, 8);
+  return Buffer.concat([header, subtable]);
+}
+
+function buildName(name: string): Buffer {
+  const value = Buffer.from(name, "utf16le").swap16();
+  const header = table(18);
+  header.writeUInt16BE(1, 2);
+  header.writeUInt16BE(18, 4);
+  header.writeUInt16BE(3, 6);
+  header.writeUInt16BE(1, 8);
+  header.writeUInt16BE(0x409, 10);
+  header.writeUInt16BE(6, 12);
+  header.writeUInt16BE(value.length, 14);
+  return Buffer.concat([header, value]);
+}
+
+/**
+ * Builds a TrueType font with a glyph for each character of `characters`
+ *
+ * Glyph 0 is the missing-character glyph and the characters get glyphs 1,
+ * 2, 3, ... in order. Glyph N is 500 + 10 * N font units wide.
+ *
+ * @example
+ * const font = TrueTypeFont.parse(buildTestFont("AB"));
+ * font.glyphId(0x42); // 2
+ */
+export function buildTestFont(
+  characters: string,
+  options: TestFontOptions = {}
+): Buffer {
+  const {
+    name = "TestSans-Regular",
+    cmapFormat = 4,
+    unitsPerEm = 1000,
+  } = options;
+  const codePoints = Array.from(
+    new Set(Array.from(characters, (char) => char.codePointAt(0)!))
+  ).sort((a, b) => a - b);
+  const glyphCount = codePoints.length + 1;
+
+  const head = table(54);
+  head.writeUInt32BE(0x00010000, 0);
+  head.writeUInt16BE(unitsPerEm, 18);
+  head.writeInt16BE(-100, 36);
+  head.writeInt16BE(-250, 38);
+  head.writeInt16BE(1100, 40);
+  head.writeInt16BE(950, 42);
+
+  const hhea = table(36);
+  hhea.writeUInt32BE(0x00010000, 0);
+  hhea.writeInt16BE(900, 4);
+  hhea.writeInt16BE(-200, 6);
+  hhea.writeUInt16BE(glyphCount, 34);
+
+  const maxp = table(6);
+  maxp.writeUInt32BE(0x00005000, 0);
+  maxp.writeUInt16BE(glyphCount, 4);
+
+  const hmtx = table(glyphCount * 4);
+  for (let glyph = 0; glyph < glyphCount; glyph++) {
+    hmtx.writeUInt16BE(500 + 10 * glyph, glyph * 4);
+  }
+
+  const os2 = table(96);
+  os2.writeUInt16BE(4, 0);
+  os2.writeInt16BE(700, 88);
+
+  const tables: Array<[string, Buffer]> = [
+    ["OS/2", os2],
+    ["cmap", buildCmap(codePoints, cmapFormat)],
+    ["head", head],
+    ["hhea", hhea],
+    ["hmtx", hmtx],
+    ["maxp", maxp],
+    ["name", buildName(name)],
+  ];
+
+  const directory = table(12 + tables.length * 16);
+  directory.writeUInt32BE(0x00010000, 0);
+  directory.writeUInt16BE(tables.length, 4);
+
+  const bodies: Array<Buffer> = [];
+  let offset = directory.length;
+  tables.forEach(([tag, body], index) => {
+    const record = 12 + index * 16;
+    directory.write(tag, record, "latin1");
+    directory.writeUInt32BE(offset, record + 8);
+    directory.writeUInt32BE(body.length, record + 12);
+
+    // Tables start on four-byte boundaries
+    const padded = Buffer.concat([body, table((4 - (body.length % 4)) % 4)]);
+    bodies.push(padded);
+    offset += padded.length;
+  });
+
+  return Buffer.concat([directory, ...bodies]);
+}
@@ -131,6 +131,9 @@ const mockDrizzleDb = {
     // Additional entities
     suggestions: createQueryNamespace(),
     calendarTokens: createQueryNamespace(),
+    apiTokens: createQueryNamespace(),
+    webhooks: createQueryNamespace(),
+    webhookDeliveries: createQueryNamespace(),
     auditLogs: createQueryNamespace(),
     familySettings: createQueryNamespace(),
     sources: createQueryNamespace(),
@@ -145,6 +148,8 @@ const mockDrizzleDb = {
     researchNotes: createQueryNamespace(),
     emailLogs: createQueryNamespace(),
     eventParticipants: createQueryNamespace(),
+    deviceTokens: createQueryNamespace(),
+    notifications: createQueryNamespace(),
   },
   // Helper methods for tests to configure results
   // These set the closure variables used by ALL query namespaces
@@ -168,6 +173,9 @@ const mockDrizzleDb = {
       "places",
       "suggestions",
       "calendarTokens",
+      "apiTokens",
+      "webhooks",
+      "webhookDeliveries",
       "auditLogs",
       "familySettings",
       "sources",
@@ -182,6 +190,8 @@ const mockDrizzleDb = {
       "researchNotes",
       "emailLogs",
       "eventParticipants",
+      "deviceTokens",
+      "notifications",
     ] as const;
     for (const ns of namespaces) {
       mockDrizzleDb.query[ns].findFirst = vi.fn(
@@ -222,6 +232,9 @@ const mockDrizzleSchema = {
   auditLogs: createMockTable(),
   suggestions: createMockTable(),
   calendarTokens: createMockTable(),
+  apiTokens: createMockTable(),
+  webhooks: createMockTable(),
+  webhookDeliveries: createMockTable(),
   sources: createMockTable(),
   researchNotes: createMockTable(),
   accounts: createMockTable(),
@@ -232,6 +245,13 @@ const mockDrizzleSchema = {
   placePersonLinks: createMockTable(),
   eventSources: createMockTable(),
   eventParticipants: createMockTable(),
+  eventMedias: createMockTable(),
+  personMedias: createMockTable(),
+  duplicateCandidates: createMockTable(),
+  deviceTokens: createMockTable(),
+  notifications: createMockTable(),
+  aiConversations: createMockTable(),
+  aiMessages: createMockTable(),
 };
 
 // Mock @vamsa/api to prevent real database initialization
@@ -257,6 +277,8 @@ vi.mock("@vamsa/api", () => ({
   createSuggestionUpdatedEmail: () => ({}),
   createNewMemberEmail: () => ({}),
   createBirthdayReminderEmail: () => ({}),
+  createAnniversaryReminderEmail: () => ({}),
+  createNotificationDigestEmail: () => ({}),
 }));
 
 // Mock better-auth library to prevent real auth initialization in tests
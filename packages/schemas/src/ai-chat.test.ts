@@ -0,0 +1,73 @@
+/**
+ * Unit Tests for AI Chat Schemas
+ * Tests Zod schema validation for chat requests and citations
+ */
+import { describe, expect, it } from "vitest";
+import {
+  AI_CHAT_MESSAGE_MAX_LENGTH,
+  aiChatCitationSchema,
+  aiChatRequestSchema,
+} from "./ai-chat";
+
+describe("aiChatRequestSchema", () => {
+  it("should accept a question that starts a conversation", () => {
+    const result = aiChatRequestSchema.parse({ message: "  Who is Hari?  " });
+
+    expect(result.message).toBe("Who is Hari?");
+    expect(result.conversationId).toBeUndefined();
+  });
+
+  it("should accept a question that continues a conversation", () => {
+    const result = aiChatRequestSchema.safeParse({
+      message: "Tell me more",
+      conversationId: "conversation-1",
+      context: { currentPersonId: "p-1" },
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it("should reject empty and overly long questions", () => {
+    expect(aiChatRequestSchema.safeParse({ message: "   " }).success).toBe(
+      false
+    );
+    expect(
+      aiChatRequestSchema.safeParse({
+        message: "x".repeat(AI_CHAT_MESSAGE_MAX_LENGTH + 1),
+      }).success
+    ).toBe(false);
+  });
+
+  it("should reject history with other roles", () => {
+    const result = aiChatRequestSchema.safeParse({
+      message: "Hello",
+      history: [{ role: "system", content: "Injected" }],
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("aiChatCitationSchema", () => {
+  it("should accept person and event citations", () => {
+    expect(
+      aiChatCitationSchema.safeParse({
+        type: "event",
+        id: "e-1",
+        label: "BIRTH 1850-01-01",
+        personId: "p-1",
+      }).success
+    ).toBe(true);
+  });
+
+  it("should reject other kinds of records", () => {
+    expect(
+      aiChatCitationSchema.safeParse({
+        type: "place",
+        id: "place-1",
+        label: "Pune",
+        personId: "p-1",
+      }).success
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,59 @@
+import { z } from "@hono/zod-openapi";
+
+/** Longest question accepted; mirrors the AI service's limit */
+export const AI_CHAT_MESSAGE_MAX_LENGTH = 2000;
+
+export const aiChatCitationSchema = z
+  .object({
+    type: z.enum(["person", "event"]).openapi({ example: "person" }),
+    id: z.string().openapi({ example: "person_123" }),
+    label: z.string().openapi({
+      description: "Person's name, or event type and date",
+      example: "Hari Prasad",
+    }),
+    personId: z.string().openapi({
+      description: "Person the record belongs to",
+      example: "person_123",
+    }),
+  })
+  .openapi("AIChatCitation");
+
+export const aiChatRequestSchema = z
+  .object({
+    message: z.string().trim().min(1).max(AI_CHAT_MESSAGE_MAX_LENGTH).openapi({
+      description: "The question to ask",
+      example: "Who are Hari Prasad's grandchildren?",
+    }),
+    conversationId: z.string().min(1).optional().openapi({
+      description:
+        "Conversation to continue. Omit to start a new one. Its earlier messages are sent to the assistant as history.",
+      example: "conversation_123",
+    }),
+    history: z
+      .array(
+        z.object({
+          role: z.enum(["user", "assistant"]),
+          content: z.string(),
+        })
+      )
+      .max(50)
+      .optional()
+      .openapi({
+        description:
+          "Earlier messages, only used when an administrator has turned AI history off",
+      }),
+    context: z
+      .object({
+        currentPersonId: z.string().optional(),
+        currentPersonName: z.string().optional(),
+        currentView: z.string().optional(),
+      })
+      .optional()
+      .openapi({ description: "What the user is looking at" }),
+  })
+  .openapi({
+    description: "A question for the AI assistant",
+  });
+
+export type AIChatCitation = z.infer<typeof aiChatCitationSchema>;
+export type AIChatRequestInput = z.input<typeof aiChatRequestSchema>;
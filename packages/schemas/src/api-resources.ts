@@ -0,0 +1,277 @@
+import { z } from "@hono/zod-openapi";
+import { genealogicalDateSchema } from "./genealogical-date";
+import { privacyLevelEnum } from "./person";
+import { consistencyIssueSchema } from "./consistency";
+import { mediaRegionSchema } from "./media";
+
+/**
+ * REST API v1 response schemas for events, places, sources, research notes
+ * and media. Shared by the Hono routers (OpenAPI docs) and @vamsa/client
+ * (response types).
+ */
+
+const personRefSchema = z
+  .object({
+    id: z.string(),
+    firstName: z.string(),
+    lastName: z.string(),
+  })
+  .openapi({ description: "Person reference" });
+
+// ============================================
+// Events
+// ============================================
+
+export const apiEventParticipantSchema = z
+  .object({
+    id: z.string(),
+    personId: z.string(),
+    role: z.string().nullable(),
+    person: personRefSchema,
+    createdAt: z.string(),
+  })
+  .openapi("EventParticipant");
+
+export const apiEventSchema = z
+  .object({
+    id: z.string().openapi({ description: "Event ID", example: "event_123" }),
+    personId: z.string().openapi({
+      description: "Person the event belongs to",
+      example: "person_123",
+    }),
+    type: z.string().openapi({ description: "Event type", example: "BIRTH" }),
+    date: z.string().nullable().openapi({
+      description: "Sortable date (YYYY-MM-DD)",
+      example: "1850-01-01",
+    }),
+    dateDetail: genealogicalDateSchema.nullable(),
+    place: z.string().nullable(),
+    description: z.string().nullable(),
+    privacy: privacyLevelEnum.nullable(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+    participants: z.array(apiEventParticipantSchema),
+    warnings: z.array(consistencyIssueSchema).optional().openapi({
+      description: "Data consistency warnings raised by creating the event",
+    }),
+  })
+  .openapi("Event");
+
+// ============================================
+// Places
+// ============================================
+
+export const apiPlaceSchema = z
+  .object({
+    id: z.string().openapi({ description: "Place ID", example: "place_123" }),
+    name: z.string().openapi({ description: "Place name", example: "Pune" }),
+    placeType: z.string().openapi({ example: "CITY" }),
+    latitude: z.number().nullable(),
+    longitude: z.number().nullable(),
+    parentId: z.string().nullable(),
+    description: z.string().nullable(),
+    alternativeNames: z.array(z.string()).nullable(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+    parentName: z.string().nullable().optional().openapi({
+      description: "Name of the parent place (list responses)",
+    }),
+  })
+  .openapi("Place");
+
+export const apiPlaceDetailSchema = apiPlaceSchema
+  .extend({
+    parent: apiPlaceSchema.nullable(),
+    childCount: z.number().int(),
+    eventCount: z.number().int(),
+    personCount: z.number().int(),
+  })
+  .openapi("PlaceDetail");
+
+// ============================================
+// Sources
+// ============================================
+
+export const apiSourceSchema = z
+  .object({
+    id: z.string().openapi({ description: "Source ID", example: "source_123" }),
+    title: z.string().openapi({ example: "1881 Census" }),
+    author: z.string().nullable(),
+    publicationDate: z.string().nullable(),
+    sourceType: z.string().nullable(),
+    confidence: z.string().nullable(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+    eventCount: z.number().int().optional(),
+    researchNoteCount: z.number().int().optional(),
+  })
+  .openapi("Source");
+
+export const apiSourceDetailSchema = apiSourceSchema
+  .extend({
+    description: z.string().nullable(),
+    repository: z.string().nullable(),
+    notes: z.string().nullable(),
+    citationFormat: z.string().nullable(),
+    doi: z.string().nullable(),
+    url: z.string().nullable(),
+    isbn: z.string().nullable(),
+    callNumber: z.string().nullable(),
+    accessDate: z.string().nullable(),
+    eventSources: z.array(
+      z.object({
+        id: z.string(),
+        personId: z.string(),
+        eventType: z.string(),
+        confidence: z.string().nullable(),
+        sourceNotes: z.string().nullable(),
+      })
+    ),
+  })
+  .openapi("SourceDetail");
+
+// ============================================
+// Research notes
+// ============================================
+
+export const apiResearchNoteSchema = z
+  .object({
+    id: z.string().openapi({ description: "Research note ID" }),
+    sourceId: z.string().optional(),
+    personId: z.string(),
+    eventType: z.string().openapi({ example: "BIRTH" }),
+    findings: z.string(),
+    methodology: z.string().nullable(),
+    limitations: z.string().nullable(),
+    relatedSources: z.array(z.string()),
+    conclusionReliability: z.string().nullable(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+    person: personRefSchema.optional(),
+  })
+  .openapi("ResearchNote");
+
+// ============================================
+// Media
+// ============================================
+
+const mediaFileFields = {
+  filePath: z.string(),
+  format: z.string(),
+  mimeType: z.string(),
+  fileSize: z.number().int(),
+  title: z.string().nullable(),
+  description: z.string().nullable(),
+  source: z.string().nullable(),
+  width: z.number().int().nullable(),
+  height: z.number().int().nullable(),
+  thumbnailPath: z.string().nullable().optional(),
+  webpPath: z.string().nullable().optional(),
+  thumb400Path: z.string().nullable().optional(),
+  thumb800Path: z.string().nullable().optional(),
+  thumb1200Path: z.string().nullable().optional(),
+  privacy: privacyLevelEnum.nullable().optional(),
+  // Length of audio and video recordings, in seconds
+  duration: z.number().nullable().optional(),
+  // Number of pages of PDF documents
+  pageCount: z.number().int().nullable().optional(),
+  transcriptPath: z.string().nullable().optional(),
+  uploadedAt: z.string(),
+};
+
+/**
+ * Media as linked to a person (list and upload responses)
+ */
+export const apiPersonMediaSchema = z
+  .object({
+    id: z.string().openapi({ description: "Person-media link ID" }),
+    mediaId: z.string().openapi({ description: "Media object ID" }),
+    ...mediaFileFields,
+    caption: z.string().nullable(),
+    isPrimary: z.boolean(),
+    displayOrder: z.number().int(),
+    // Where the person appears in the image, as fractions of its size
+    region: mediaRegionSchema.nullable().optional(),
+    createdAt: z.string(),
+  })
+  .openapi("PersonMedia");
+
+/**
+ * A media object with its person and event links
+ */
+export const apiMediaObjectSchema = z
+  .object({
+    id: z.string().openapi({ description: "Media object ID" }),
+    ...mediaFileFields,
+    // Read from the photo's embedded EXIF, IPTC or XMP metadata
+    capturedAt: z.string().nullable().optional(),
+    latitude: z.number().nullable().optional(),
+    longitude: z.number().nullable().optional(),
+    camera: z.string().nullable().optional(),
+    placeId: z.string().nullable().optional(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+    eventMedia: z
+      .array(
+        z.object({
+          id: z.string(),
+          eventType: z.string(),
+          personId: z.string(),
+        })
+      )
+      .optional(),
+    personMedia: z
+      .array(
+        z.object({
+          id: z.string(),
+          personId: z.string(),
+          isPrimary: z.boolean(),
+          caption: z.string().nullable(),
+          displayOrder: z.number().int(),
+          region: mediaRegionSchema.nullable().optional(),
+        })
+      )
+      .optional(),
+  })
+  .openapi("MediaObject");
+
+/**
+ * JSON media upload. The file travels base64 encoded.
+ */
+export const apiMediaUploadSchema = z
+  .object({
+    personId: z.string().min(1, "Person ID is required"),
+    fileName: z.string().min(1, "File name is required"),
+    mimeType: z.string().min(1, "MIME type is required"),
+    fileSize: z.number().int().positive("File size must be positive"),
+    base64Data: z.string().min(1, "File data is required"),
+    title: z.string().optional(),
+    caption: z.string().optional(),
+    description: z.string().optional(),
+    source: z.string().optional(),
+  })
+  .openapi("MediaUpload");
+
+/**
+ * Media upload waiting for review. The file is held in media storage under
+ * stagedKey rather than kept with the suggestion.
+ */
+export const stagedMediaUploadSchema = apiMediaUploadSchema
+  .omit({ base64Data: true })
+  .extend({
+    stagedKey: z
+      .string()
+      .regex(/^pending\/[\w-]+(\.\w+)?$/, "Invalid staged file key"),
+  });
+
+export type ApiEvent = z.infer<typeof apiEventSchema>;
+export type ApiEventParticipant = z.infer<typeof apiEventParticipantSchema>;
+export type ApiPlace = z.infer<typeof apiPlaceSchema>;
+export type ApiPlaceDetail = z.infer<typeof apiPlaceDetailSchema>;
+export type ApiSource = z.infer<typeof apiSourceSchema>;
+export type ApiSourceDetail = z.infer<typeof apiSourceDetailSchema>;
+export type ApiResearchNote = z.infer<typeof apiResearchNoteSchema>;
+export type ApiPersonMedia = z.infer<typeof apiPersonMediaSchema>;
+export type ApiMediaObject = z.infer<typeof apiMediaObjectSchema>;
+export type ApiMediaUploadInput = z.infer<typeof apiMediaUploadSchema>;
+export type StagedMediaUploadInput = z.infer<typeof stagedMediaUploadSchema>;
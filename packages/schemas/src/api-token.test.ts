@@ -0,0 +1,67 @@
+/**
+ * Unit Tests for Personal Access Token Schemas
+ * Tests Zod schema validation for token scopes and token creation
+ */
+import { describe, expect, it } from "vitest";
+import { apiTokenCreateSchema, apiTokenScopeEnum } from "./api-token";
+
+describe("apiTokenScopeEnum", () => {
+  it("should accept all valid scopes", () => {
+    for (const scope of [
+      "persons:read",
+      "persons:write",
+      "media:read",
+      "media:write",
+      "gedcom:export",
+    ]) {
+      expect(apiTokenScopeEnum.safeParse(scope).success).toBe(true);
+    }
+  });
+
+  it("should reject unknown scopes", () => {
+    expect(apiTokenScopeEnum.safeParse("admin:all").success).toBe(false);
+    expect(apiTokenScopeEnum.safeParse("calendar:read").success).toBe(false);
+  });
+});
+
+describe("apiTokenCreateSchema", () => {
+  it("should default to a 90 day lifetime", () => {
+    const result = apiTokenCreateSchema.parse({
+      name: "Backup script",
+      scopes: ["gedcom:export"],
+    });
+
+    expect(result.expiresInDays).toBe(90);
+  });
+
+  it("should trim the name and drop duplicate scopes", () => {
+    const result = apiTokenCreateSchema.parse({
+      name: "  Sync  ",
+      scopes: ["persons:read", "persons:read", "media:read"],
+      expiresInDays: 30,
+    });
+
+    expect(result.name).toBe("Sync");
+    expect(result.scopes).toEqual(["persons:read", "media:read"]);
+  });
+
+  it("should require a name and at least one scope", () => {
+    expect(
+      apiTokenCreateSchema.safeParse({ name: " ", scopes: ["persons:read"] })
+        .success
+    ).toBe(false);
+    expect(
+      apiTokenCreateSchema.safeParse({ name: "Sync", scopes: [] }).success
+    ).toBe(false);
+  });
+
+  it("should reject lifetimes over a year", () => {
+    expect(
+      apiTokenCreateSchema.safeParse({
+        name: "Sync",
+        scopes: ["persons:read"],
+        expiresInDays: 366,
+      }).success
+    ).toBe(false);
+  });
+});
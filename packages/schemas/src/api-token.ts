@@ -0,0 +1,42 @@
+import { z } from "@hono/zod-openapi";
+
+/**
+ * Scopes a personal access token can be granted. A token never grants more
+ * than its owner's role allows; scopes only narrow what it can be used for.
+ */
+export const apiTokenScopeEnum = z.enum([
+  "persons:read",
+  "persons:write",
+  "media:read",
+  "media:write",
+  "gedcom:export",
+]);
+
+/** Lifetimes offered when creating a token, in days */
+export const API_TOKEN_EXPIRY_DAYS = [7, 30, 90, 365] as const;
+
+export const apiTokenCreateSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100).openapi({
+      description: "What the token is used for",
+      example: "Nightly backup script",
+    }),
+    scopes: z
+      .array(apiTokenScopeEnum)
+      .min(1)
+      .transform((scopes) => [...new Set(scopes)])
+      .openapi({
+        description: "Scopes granted to the token",
+        example: ["persons:read", "gedcom:export"],
+      }),
+    expiresInDays: z.number().int().min(1).max(365).default(90).openapi({
+      description: "Days until the token expires",
+      example: 90,
+    }),
+  })
+  .openapi({
+    description: "Personal access token creation",
+  });
+
+export type ApiTokenScope = z.infer<typeof apiTokenScopeEnum>;
+export type ApiTokenCreateInput = z.input<typeof apiTokenCreateSchema>;
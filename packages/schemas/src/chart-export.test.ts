@@ -0,0 +1,145 @@
+/**
+ * Unit Tests for Chart Export Schemas
+ * Tests Zod schema validation for export options and their defaults
+ */
+import { describe, expect, it } from "vitest";
+import {
+  chartExportFormatEnum,
+  chartExportOptionsSchema,
+  chartExportRequestSchema,
+  exportableChartTypeEnum,
+} from "./chart-export";
+
+describe("exportableChartTypeEnum", () => {
+  it("should accept every renderable chart type", () => {
+    for (const type of [
+      "ancestor",
+      "descendant",
+      "hourglass",
+      "fan",
+      "bowtie",
+      "compact",
+      "timeline",
+      "tree",
+    ]) {
+      expect(exportableChartTypeEnum.safeParse(type).success).toBe(true);
+    }
+  });
+
+  it("should reject charts without a printable layout", () => {
+    expect(exportableChartTypeEnum.safeParse("statistics").success).toBe(false);
+    expect(exportableChartTypeEnum.safeParse("matrix").success).toBe(false);
+  });
+});
+
+describe("chartExportFormatEnum", () => {
+  it("should accept svg, png and pdf", () => {
+    expect(chartExportFormatEnum.options).toEqual(["svg", "png", "pdf"]);
+  });
+});
+
+describe("chartExportOptionsSchema", () => {
+  it("should apply defaults to an empty object", () => {
+    expect(chartExportOptionsSchema.parse({})).toEqual({
+      paperSize: "A4",
+      orientation: "landscape",
+      margin: 10,
+      fontFamily: "sans-serif",
+      fontSize: 10,
+      fields: ["name", "birthDate", "deathDate"],
+      pageLayout: "fit",
+      scale: 2,
+    });
+  });
+
+  it("should accept poster settings", () => {
+    const result = chartExportOptionsSchema.safeParse({
+      title: "Reunion 2026",
+      paperSize: "A0",
+      orientation: "portrait",
+      margin: 25,
+      fontFamily: "serif",
+      fontSize: 14,
+      fields: ["name", "gender"],
+      pageLayout: "tile",
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it("should reject an empty field list", () => {
+    const result = chartExportOptionsSchema.safeParse({ fields: [] });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe(
+        "Select at least one field to print"
+      );
+    }
+  });
+
+  it("should reject out-of-range margins and font sizes", () => {
+    expect(chartExportOptionsSchema.safeParse({ margin: 60 }).success).toBe(
+      false
+    );
+    expect(chartExportOptionsSchema.safeParse({ fontSize: 4 }).success).toBe(
+      false
+    );
+  });
+
+  it("should reject unknown paper sizes", () => {
+    expect(
+      chartExportOptionsSchema.safeParse({ paperSize: "B5" }).success
+    ).toBe(false);
+  });
+});
+
+describe("chartExportRequestSchema", () => {
+  it("should accept a person chart request with options", () => {
+    const result = chartExportRequestSchema.safeParse({
+      chartType: "ancestor",
+      format: "pdf",
+      personId: "person_1",
+      generations: 5,
+      options: { paperSize: "A1" },
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.options?.paperSize).toBe("A1");
+      expect(result.data.options?.fontSize).toBe(10);
+    }
+  });
+
+  it("should allow timeline requests without a root person", () => {
+    const result = chartExportRequestSchema.safeParse({
+      chartType: "timeline",
+      format: "svg",
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it("should require a root person for other charts", () => {
+    const result = chartExportRequestSchema.safeParse({
+      chartType: "fan",
+      format: "png",
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].path).toEqual(["personId"]);
+    }
+  });
+
+  it("should reject more than 10 generations", () => {
+    const result = chartExportRequestSchema.safeParse({
+      chartType: "descendant",
+      format: "svg",
+      personId: "person_1",
+      generations: 11,
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
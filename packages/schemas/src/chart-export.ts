@@ -0,0 +1,102 @@
+import * as z from "zod";
+
+/**
+ * Chart types that can be rendered by the server-side exporter
+ */
+export const exportableChartTypeEnum = z.enum([
+  "ancestor",
+  "descendant",
+  "hourglass",
+  "fan",
+  "bowtie",
+  "compact",
+  "timeline",
+  "tree",
+]);
+
+export const chartExportFormatEnum = z.enum(["svg", "png", "pdf"]);
+
+/**
+ * Paper sizes for PDF export; dimensions live with the renderer
+ */
+export const chartPaperSizeEnum = z.enum([
+  "A4",
+  "A3",
+  "A2",
+  "A1",
+  "A0",
+  "LETTER",
+  "LEGAL",
+  "TABLOID",
+]);
+
+export const chartFontFamilyEnum = z.enum(["sans-serif", "serif", "monospace"]);
+
+/**
+ * Person details that can be printed on each chart box
+ */
+export const chartExportFieldEnum = z.enum([
+  "name",
+  "birthDate",
+  "deathDate",
+  "gender",
+]);
+
+/**
+ * Layout and print options for chart export
+ *
+ * `pageLayout` controls how a PDF is paginated: "fit" scales the chart onto
+ * a single page (choose A0-A2 for posters), "tile" keeps the chart at full
+ * size and splits it across as many pages as needed.
+ */
+export const chartExportOptionsSchema = z.object({
+  title: z.string().max(200).optional(),
+  paperSize: chartPaperSizeEnum.default("A4"),
+  orientation: z.enum(["portrait", "landscape"]).default("landscape"),
+  /** Page margin in millimetres */
+  margin: z.number().min(0).max(50).default(10),
+  fontFamily: chartFontFamilyEnum.default("sans-serif"),
+  /** Base font size in points */
+  fontSize: z.number().min(6).max(24).default(10),
+  fields: z
+    .array(chartExportFieldEnum)
+    .min(1, "Select at least one field to print")
+    .default(["name", "birthDate", "deathDate"]),
+  pageLayout: z.enum(["fit", "tile"]).default("fit"),
+  /** Pixel density multiplier for PNG output */
+  scale: z.number().min(1).max(4).default(2),
+});
+
+const generationsSchema = z.number().int().min(1).max(10);
+
+/**
+ * Download request: which chart to build, around whom, and how to print it
+ *
+ * Generation counts fall back to each chart's on-screen default. Timeline
+ * charts cover the whole tree, so only they may omit the root person.
+ */
+export const chartExportRequestSchema = z
+  .object({
+    chartType: exportableChartTypeEnum,
+    format: chartExportFormatEnum,
+    personId: z.string().min(1).optional(),
+    generations: generationsSchema.optional(),
+    ancestorGenerations: generationsSchema.optional(),
+    descendantGenerations: generationsSchema.optional(),
+    startYear: z.number().int().optional(),
+    endYear: z.number().int().optional(),
+    options: chartExportOptionsSchema.optional(),
+  })
+  .refine((data) => data.chartType === "timeline" || !!data.personId, {
+    message: "A root person is required for this chart",
+    path: ["personId"],
+  });
+
+export type ExportableChartType = z.infer<typeof exportableChartTypeEnum>;
+export type ChartExportFormat = z.infer<typeof chartExportFormatEnum>;
+export type ChartPaperSize = z.infer<typeof chartPaperSizeEnum>;
+export type ChartFontFamily = z.infer<typeof chartFontFamilyEnum>;
+export type ChartExportField = z.infer<typeof chartExportFieldEnum>;
+export type ChartExportOptions = z.infer<typeof chartExportOptionsSchema>;
+export type ChartExportOptionsInput = z.input<typeof chartExportOptionsSchema>;
+export type ChartExportRequest = z.input<typeof chartExportRequestSchema>;
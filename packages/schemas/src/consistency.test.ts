@@ -0,0 +1,61 @@
+/**
+ * Unit Tests for Consistency Schemas
+ * Tests Zod schema validation for consistency checker thresholds
+ */
+import { describe, expect, it } from "vitest";
+import {
+  consistencySeverityEnum,
+  consistencyThresholdsSchema,
+} from "./consistency";
+
+const validThresholds = {
+  maxLifespanYears: 120,
+  minParentAge: 12,
+  maxParentAge: 70,
+  minMarriageAge: 14,
+};
+
+describe("consistencySeverityEnum", () => {
+  it("should accept errors and warnings", () => {
+    expect(consistencySeverityEnum.safeParse("ERROR").success).toBe(true);
+    expect(consistencySeverityEnum.safeParse("WARNING").success).toBe(true);
+  });
+
+  it("should reject unknown severities", () => {
+    expect(consistencySeverityEnum.safeParse("INFO").success).toBe(false);
+  });
+});
+
+describe("consistencyThresholdsSchema", () => {
+  it("should accept the default thresholds", () => {
+    expect(consistencyThresholdsSchema.safeParse(validThresholds).success).toBe(
+      true
+    );
+  });
+
+  it("should reject a lifespan outside the allowed range", () => {
+    const result = consistencyThresholdsSchema.safeParse({
+      ...validThresholds,
+      maxLifespanYears: 300,
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it("should reject fractional ages", () => {
+    const result = consistencyThresholdsSchema.safeParse({
+      ...validThresholds,
+      minParentAge: 12.5,
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it("should require every threshold", () => {
+    const result = consistencyThresholdsSchema.safeParse({
+      maxLifespanYears: 120,
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+import { z } from "@hono/zod-openapi";
+
+export const consistencySeverityEnum = z.enum(["ERROR", "WARNING"]);
+
+/**
+ * Limits used by the data consistency checker, in years
+ */
+export const consistencyThresholdsSchema = z
+  .object({
+    maxLifespanYears: z.number().int().min(80).max(150).openapi({
+      description: "Longest plausible lifespan",
+      example: 120,
+    }),
+    minParentAge: z.number().int().min(5).max(30).openapi({
+      description: "Youngest plausible age of a birth parent",
+      example: 12,
+    }),
+    maxParentAge: z.number().int().min(40).max(100).openapi({
+      description: "Oldest plausible age of a birth parent",
+      example: 70,
+    }),
+    minMarriageAge: z.number().int().min(5).max(30).openapi({
+      description: "Youngest plausible age at marriage",
+      example: 14,
+    }),
+  })
+  .openapi("ConsistencyThresholds");
+
+/**
+ * A data consistency problem, as returned by scans and with writes
+ */
+export const consistencyIssueSchema = z
+  .object({
+    rule: z.string().openapi({
+      description: "Rule that found the problem",
+      example: "CHILD_BORN_BEFORE_PARENT",
+    }),
+    severity: consistencySeverityEnum.openapi({
+      description: "ERROR for impossible data, WARNING for unlikely data",
+      example: "ERROR",
+    }),
+    personId: z.string().openapi({
+      description: "Person whose record should be checked",
+      example: "person_123",
+    }),
+    personName: z.string().openapi({ example: "Ravi Sharma" }),
+    relatedPersonId: z.string().optional().openapi({
+      description: "Other person involved, if any",
+      example: "person_456",
+    }),
+    relatedPersonName: z.string().optional().openapi({
+      example: "Sita Sharma",
+    }),
+    eventId: z.string().optional().openapi({
+      description: "Event involved, if any",
+      example: "event_123",
+    }),
+    message: z.string().openapi({
+      example: "Born before their parent Sita Sharma",
+    }),
+  })
+  .openapi("ConsistencyIssue");
+
+export type ConsistencySeverity = z.infer<typeof consistencySeverityEnum>;
+export type ConsistencyThresholdsInput = z.infer<
+  typeof consistencyThresholdsSchema
+>;
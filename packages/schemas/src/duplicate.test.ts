@@ -0,0 +1,63 @@
+/**
+ * Unit Tests for Duplicate Schemas
+ * Tests Zod schema validation for duplicate review status and merge input
+ */
+import { describe, expect, it } from "vitest";
+import { duplicateMergeSchema, duplicateStatusEnum } from "./duplicate";
+
+describe("duplicateStatusEnum", () => {
+  it("should accept all valid statuses", () => {
+    for (const status of ["PENDING", "DISMISSED", "MERGED"]) {
+      expect(duplicateStatusEnum.safeParse(status).success).toBe(true);
+    }
+  });
+
+  it("should reject unknown statuses", () => {
+    expect(duplicateStatusEnum.safeParse("APPROVED").success).toBe(false);
+  });
+});
+
+describe("duplicateMergeSchema", () => {
+  it("should accept a merge with field choices", () => {
+    const result = duplicateMergeSchema.safeParse({
+      keepId: "person_1",
+      mergeId: "person_2",
+      fieldChoices: { dateOfBirth: "merge", bio: "keep" },
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it("should accept a merge without field choices", () => {
+    const result = duplicateMergeSchema.safeParse({
+      keepId: "person_1",
+      mergeId: "person_2",
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it("should reject merging a person with itself", () => {
+    const result = duplicateMergeSchema.safeParse({
+      keepId: "person_1",
+      mergeId: "person_1",
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe(
+        "Cannot merge a person with itself"
+      );
+    }
+  });
+
+  it("should reject invalid field choices", () => {
+    const result = duplicateMergeSchema.safeParse({
+      keepId: "person_1",
+      mergeId: "person_2",
+      fieldChoices: { bio: "both" },
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,20 @@
+import * as z from "zod";
+
+export const duplicateStatusEnum = z.enum(["PENDING", "DISMISSED", "MERGED"]);
+
+export const mergeFieldChoiceEnum = z.enum(["keep", "merge"]);
+
+export const duplicateMergeSchema = z
+  .object({
+    keepId: z.string().min(1),
+    mergeId: z.string().min(1),
+    fieldChoices: z.record(z.string(), mergeFieldChoiceEnum).optional(),
+  })
+  .refine((data) => data.keepId !== data.mergeId, {
+    message: "Cannot merge a person with itself",
+    path: ["mergeId"],
+  });
+
+export type DuplicateStatus = z.infer<typeof duplicateStatusEnum>;
+export type MergeFieldChoice = z.infer<typeof mergeFieldChoiceEnum>;
+export type DuplicateMergeInput = z.infer<typeof duplicateMergeSchema>;
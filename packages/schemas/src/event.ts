@@ -1,5 +1,8 @@
 import { z } from "@hono/zod-openapi";
 import { parseDateString } from "@vamsa/lib";
+import { genealogicalDateSchema } from "./genealogical-date";
+import { privacyLevelEnum } from "./person";
+import type { GenealogicalDate } from "@vamsa/lib";
 
 export const eventTypeEnum = z.enum([
   "BIRTH",
@@ -36,30 +39,49 @@ export const eventCreateSchema = z.object({
   personId: z.string().min(1, "Person is required"),
   type: eventTypeEnum,
   date: dateSchema.optional().nullable(),
+  dateDetail: genealogicalDateSchema.optional().nullable(),
   place: z.string().optional(),
   description: z.string().optional(),
+  privacy: privacyLevelEnum.optional().nullable(),
 }) as z.ZodType<{
   personId: string;
   type: z.infer<typeof eventTypeEnum>;
   date?: Date | null;
+  dateDetail?: GenealogicalDate | null;
   place?: string;
   description?: string;
+  privacy?: z.infer<typeof privacyLevelEnum> | null;
 }>;
 
-export const eventUpdateSchema = z.object({
-  id: z.string().min(1, "Event ID is required"),
+const eventUpdateFields = {
   type: eventTypeEnum.optional(),
   date: dateSchema.optional().nullable(),
+  dateDetail: genealogicalDateSchema.optional().nullable(),
   place: z.string().optional(),
   description: z.string().optional(),
+  privacy: privacyLevelEnum.optional().nullable(),
+};
+
+export const eventUpdateSchema = z.object({
+  id: z.string().min(1, "Event ID is required"),
+  ...eventUpdateFields,
 }) as z.ZodType<{
   id: string;
   type?: z.infer<typeof eventTypeEnum>;
   date?: Date | null;
+  dateDetail?: GenealogicalDate | null;
   place?: string;
   description?: string;
+  privacy?: z.infer<typeof privacyLevelEnum> | null;
 }>;
 
+/**
+ * Event update without the ID, for REST routes that take it from the path
+ */
+export const eventUpdateBodySchema = z.object(eventUpdateFields) as z.ZodType<
+  Omit<EventUpdateOutput, "id">
+>;
+
 export const eventParticipantCreateSchema = z.object({
   eventId: z.string().min(1, "Event is required"),
   personId: z.string().min(1, "Person is required"),
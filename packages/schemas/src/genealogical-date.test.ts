@@ -0,0 +1,66 @@
+import { describe, expect, test } from "vitest";
+import { genealogicalDateSchema } from "./genealogical-date";
+import { personCreateSchema } from "./person";
+
+describe("genealogicalDateSchema", () => {
+  test("accepts a structured date", () => {
+    const result = genealogicalDateSchema.safeParse({
+      qualifier: "ABOUT",
+      precision: "YEAR",
+      start: { year: 1850 },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.calendar).toBe("GREGORIAN");
+  });
+
+  test("parses GEDCOM-style text", () => {
+    const result = genealogicalDateSchema.safeParse("BET 1820 AND 1825");
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({
+      qualifier: "BETWEEN",
+      start: { year: 1820 },
+      end: { year: 1825 },
+    });
+  });
+
+  test("rejects text it cannot parse", () => {
+    expect(genealogicalDateSchema.safeParse("last spring").success).toBe(false);
+  });
+
+  test("requires an end date for ranges", () => {
+    const result = genealogicalDateSchema.safeParse({
+      qualifier: "BETWEEN",
+      precision: "YEAR",
+      start: { year: 1820 },
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  test("rejects an end date for single dates", () => {
+    const result = genealogicalDateSchema.safeParse({
+      qualifier: "ABOUT",
+      precision: "YEAR",
+      start: { year: 1820 },
+      end: { year: 1825 },
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("person date details", () => {
+  test("accepts approximate birth and death dates", () => {
+    const result = personCreateSchema.safeParse({
+      firstName: "John",
+      lastName: "Doe",
+      dateOfBirthDetail: "ABT 1850",
+      dateOfPassingDetail: null,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.dateOfBirthDetail?.qualifier).toBe("ABOUT");
+  });
+});
@@ -0,0 +1,63 @@
+import { z } from "@hono/zod-openapi";
+import {
+  DATE_CALENDARS,
+  DATE_PRECISIONS,
+  DATE_QUALIFIERS,
+  isRangeQualifier,
+  parseGenealogicalDate,
+} from "@vamsa/lib";
+
+export const dateQualifierEnum = z.enum(DATE_QUALIFIERS);
+export const datePrecisionEnum = z.enum(DATE_PRECISIONS);
+export const dateCalendarEnum = z.enum(DATE_CALENDARS);
+
+export const datePartSchema = z
+  .object({
+    year: z.number().int().min(1).max(9999),
+    month: z.number().int().min(1).max(13).optional(),
+    day: z.number().int().min(1).max(31).optional(),
+  })
+  .openapi({
+    description: "Year with optional month and day (1-based)",
+  });
+
+const genealogicalDateObjectSchema = z
+  .object({
+    qualifier: dateQualifierEnum.default("EXACT"),
+    precision: datePrecisionEnum,
+    start: datePartSchema,
+    end: datePartSchema.optional(),
+    calendar: dateCalendarEnum.default("GREGORIAN"),
+    phrase: z.string().max(100).optional(),
+    original: z.string().max(100).optional(),
+  })
+  .refine((date) => isRangeQualifier(date.qualifier) === !!date.end, {
+    message: "BETWEEN and FROM_TO dates need an end date; others must not",
+    path: ["end"],
+  });
+
+/**
+ * Genealogical date. Accepts the structured object or text such as
+ * "ABT 1850", "BET 1820 AND 1825" or "MAR 1850", which is parsed.
+ */
+export const genealogicalDateSchema = z
+  .preprocess(
+    (value) =>
+      typeof value === "string"
+        ? (parseGenealogicalDate(value) ?? value)
+        : value,
+    genealogicalDateObjectSchema
+  )
+  .openapi({
+    description:
+      "Approximate, ranged or partial date. Text like 'ABT 1850' or 'BET 1820 AND 1825' is accepted and parsed.",
+    example: {
+      qualifier: "ABOUT",
+      precision: "YEAR",
+      start: { year: 1850 },
+      calendar: "GREGORIAN",
+      original: "ABT 1850",
+    },
+  });
+
+export type GenealogicalDateInput = z.infer<typeof genealogicalDateSchema>;
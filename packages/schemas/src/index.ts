@@ -5,9 +5,20 @@ export {
   type PasswordStrength,
 } from "./password";
 
+// Genealogical date schemas
+export {
+  dateQualifierEnum,
+  datePrecisionEnum,
+  dateCalendarEnum,
+  datePartSchema,
+  genealogicalDateSchema,
+  type GenealogicalDateInput,
+} from "./genealogical-date";
+
 // Person schemas
 export {
   genderEnum,
+  privacyLevelEnum,
   addressSchema,
   socialLinksSchema,
   personCreateSchema,
@@ -17,6 +28,7 @@ export {
   type PersonUpdateInput,
   type PersonUpdateFormInput,
   type Gender,
+  type PrivacyLevel,
   type Address,
   type SocialLinks,
 } from "./person";
@@ -24,9 +36,11 @@ export {
 // Relationship schemas
 export {
   relationshipTypeEnum,
+  parentPedigreeEnum,
   relationshipCreateSchema,
   relationshipUpdateSchema,
   type RelationshipType,
+  type ParentPedigree,
   type RelationshipCreateInput,
   type RelationshipUpdateInput,
 } from "./relationship";
@@ -65,6 +79,64 @@ export {
   type SuggestionReviewInput,
 } from "./suggestion";
 
+// Duplicate detection schemas
+export {
+  duplicateStatusEnum,
+  mergeFieldChoiceEnum,
+  duplicateMergeSchema,
+  type DuplicateStatus,
+  type MergeFieldChoice,
+  type DuplicateMergeInput,
+} from "./duplicate";
+
+// Notification schemas
+export {
+  devicePlatformEnum,
+  deviceTokenRegisterSchema,
+  notificationTypeEnum,
+  inboxNotificationSchema,
+  inboxListResponseSchema,
+  markAllNotificationsReadSchema,
+  notificationFrequencyEnum,
+  notificationChannelEnum,
+  notificationPreferenceTypeEnum,
+  channelPreferencesSchema,
+  quietHoursSchema,
+  notificationPreferencesSchema,
+  notificationPreferencesUpdateSchema,
+  type DevicePlatform,
+  type DeviceTokenRegisterInput,
+  type NotificationType,
+  type InboxNotificationResponse,
+  type MarkAllNotificationsReadInput,
+  type NotificationFrequency,
+  type NotificationChannel,
+  type NotificationPreferenceType,
+  type ChannelPreferences,
+  type QuietHours,
+  type NotificationPreferences,
+  type NotificationPreferencesUpdate,
+} from "./notification";
+
+// Chart export schemas
+export {
+  exportableChartTypeEnum,
+  chartExportFormatEnum,
+  chartPaperSizeEnum,
+  chartFontFamilyEnum,
+  chartExportFieldEnum,
+  chartExportOptionsSchema,
+  chartExportRequestSchema,
+  type ExportableChartType,
+  type ChartExportFormat,
+  type ChartPaperSize,
+  type ChartFontFamily,
+  type ChartExportField,
+  type ChartExportOptions,
+  type ChartExportOptionsInput,
+  type ChartExportRequest,
+} from "./chart-export";
+
 // Backup schemas
 export {
   backupExportSchema,
@@ -104,6 +176,7 @@ export {
   eventTypeEnum,
   eventCreateSchema,
   eventUpdateSchema,
+  eventUpdateBodySchema,
   eventParticipantCreateSchema,
   eventParticipantRemoveSchema,
   type EventType,
@@ -121,6 +194,7 @@ export {
   personPlaceTypeEnum,
   placeCreateSchema,
   placeUpdateSchema,
+  placeUpdateBodySchema,
   placePersonLinkCreateSchema,
   type PlaceType,
   type PersonPlaceType,
@@ -138,13 +212,23 @@ export {
   mediaMetadataSchema,
   mediaReorderSchema,
   linkMediaToEventSchema,
+  linkMediaToPlaceSchema,
   setPrimaryPhotoSchema,
+  mediaRegionSchema,
+  tagMediaRegionSchema,
+  mediaSizeLimitsSchema,
+  attachMediaTranscriptSchema,
   type MediaFormat,
   type MediaUploadInput,
   type MediaMetadataInput,
   type MediaReorderInput,
   type LinkMediaToEventInput,
+  type LinkMediaToPlaceInput,
   type SetPrimaryPhotoInput,
+  type MediaRegion,
+  type TagMediaRegionInput,
+  type MediaSizeLimitsInput,
+  type AttachMediaTranscriptInput,
 } from "./media";
 
 // Source schemas
@@ -203,13 +287,41 @@ export {
 export {
   errorResponseSchema,
   successResponseSchema,
+  pendingApprovalResponseSchema,
   paginationMetadataSchema,
   paginatedResponseSchema,
   type ErrorResponse,
   type SuccessResponse,
+  type PendingApprovalResponse,
   type PaginationMetadata,
 } from "./response";
 
+// REST API resource response schemas
+export {
+  apiEventSchema,
+  apiEventParticipantSchema,
+  apiPlaceSchema,
+  apiPlaceDetailSchema,
+  apiSourceSchema,
+  apiSourceDetailSchema,
+  apiResearchNoteSchema,
+  apiPersonMediaSchema,
+  apiMediaObjectSchema,
+  apiMediaUploadSchema,
+  stagedMediaUploadSchema,
+  type ApiEvent,
+  type ApiEventParticipant,
+  type ApiPlace,
+  type ApiPlaceDetail,
+  type ApiSource,
+  type ApiSourceDetail,
+  type ApiResearchNote,
+  type ApiPersonMedia,
+  type ApiMediaObject,
+  type ApiMediaUploadInput,
+  type StagedMediaUploadInput,
+} from "./api-resources";
+
 // Dashboard schemas
 export {
   widgetConfigSchema,
@@ -223,3 +335,41 @@ export {
   type DashboardPreferences,
   type SaveDashboardPreferencesInput,
 } from "./dashboard";
+
+// Personal access token schemas
+export {
+  apiTokenScopeEnum,
+  apiTokenCreateSchema,
+  API_TOKEN_EXPIRY_DAYS,
+  type ApiTokenScope,
+  type ApiTokenCreateInput,
+} from "./api-token";
+
+// Webhook schemas
+export {
+  webhookEventEnum,
+  webhookCreateSchema,
+  webhookUpdateSchema,
+  WEBHOOK_TEST_EVENT,
+  type WebhookEvent,
+  type WebhookCreateInput,
+  type WebhookUpdateInput,
+} from "./webhook";
+
+// AI chat schemas
+export {
+  AI_CHAT_MESSAGE_MAX_LENGTH,
+  aiChatCitationSchema,
+  aiChatRequestSchema,
+  type AIChatCitation,
+  type AIChatRequestInput,
+} from "./ai-chat";
+
+// Data consistency schemas
+export {
+  consistencySeverityEnum,
+  consistencyThresholdsSchema,
+  consistencyIssueSchema,
+  type ConsistencySeverity,
+  type ConsistencyThresholdsInput,
+} from "./consistency";
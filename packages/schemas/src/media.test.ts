@@ -4,19 +4,26 @@
  */
 import { describe, expect, it } from "vitest";
 import {
+  attachMediaTranscriptSchema,
   linkMediaToEventSchema,
+  linkMediaToPlaceSchema,
   mediaFormatEnum,
   mediaMetadataSchema,
   mediaReorderSchema,
+  mediaSizeLimitsSchema,
   mediaUploadSchema,
   setPrimaryPhotoSchema,
+  tagMediaRegionSchema,
 } from "./media";
 import type {
   LinkMediaToEventInput,
+  LinkMediaToPlaceInput,
   MediaMetadataInput,
   MediaReorderInput,
+  MediaSizeLimitsInput,
   MediaUploadInput,
   SetPrimaryPhotoInput,
+  TagMediaRegionInput,
 } from "./media";
 
 describe("mediaFormatEnum", () => {
@@ -650,6 +657,50 @@ describe("linkMediaToEventSchema", () => {
   });
 });
 
+describe("linkMediaToPlaceSchema", () => {
+  describe("Valid inputs", () => {
+    it("should validate a media-place link", () => {
+      const link: LinkMediaToPlaceInput = {
+        mediaId: "media-123",
+        placeId: "place-456",
+      };
+
+      const result = linkMediaToPlaceSchema.safeParse(link);
+      expect(result.success).toBe(true);
+    });
+
+    it("should accept a null placeId to remove the place", () => {
+      const result = linkMediaToPlaceSchema.safeParse({
+        mediaId: "media-123",
+        placeId: null,
+      });
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe("ID validation", () => {
+    it("should reject empty mediaId and placeId", () => {
+      expect(
+        linkMediaToPlaceSchema.safeParse({
+          mediaId: "",
+          placeId: "place-456",
+        }).success
+      ).toBe(false);
+      expect(
+        linkMediaToPlaceSchema.safeParse({
+          mediaId: "media-123",
+          placeId: "",
+        }).success
+      ).toBe(false);
+    });
+
+    it("should reject a missing placeId", () => {
+      const result = linkMediaToPlaceSchema.safeParse({ mediaId: "media-123" });
+      expect(result.success).toBe(false);
+    });
+  });
+});
+
 describe("setPrimaryPhotoSchema", () => {
   describe("Valid inputs", () => {
     it("should validate complete primary photo set", () => {
@@ -723,3 +774,144 @@ describe("setPrimaryPhotoSchema", () => {
     });
   });
 });
+
+describe("tagMediaRegionSchema", () => {
+  describe("Valid inputs", () => {
+    it("should validate a region tag", () => {
+      const tag: TagMediaRegionInput = {
+        mediaId: "media-456",
+        personId: "person-123",
+        region: { x: 0.25, y: 0.1, width: 0.2, height: 0.3 },
+      };
+
+      const result = tagMediaRegionSchema.safeParse(tag);
+      expect(result.success).toBe(true);
+    });
+
+    it("should accept a region covering the whole image", () => {
+      const result = tagMediaRegionSchema.safeParse({
+        mediaId: "media-456",
+        personId: "person-123",
+        region: { x: 0, y: 0, width: 1, height: 1 },
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should accept a null region to remove the tag", () => {
+      const result = tagMediaRegionSchema.safeParse({
+        mediaId: "media-456",
+        personId: "person-123",
+        region: null,
+      });
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe("Region validation", () => {
+    it("should reject coordinates outside 0-1", () => {
+      const result = tagMediaRegionSchema.safeParse({
+        mediaId: "media-456",
+        personId: "person-123",
+        region: { x: -0.1, y: 0, width: 0.5, height: 0.5 },
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject an empty region", () => {
+      const result = tagMediaRegionSchema.safeParse({
+        mediaId: "media-456",
+        personId: "person-123",
+        region: { x: 0.1, y: 0.1, width: 0, height: 0.5 },
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject a region running past the image edge", () => {
+      const result = tagMediaRegionSchema.safeParse({
+        mediaId: "media-456",
+        personId: "person-123",
+        region: { x: 0.8, y: 0.1, width: 0.3, height: 0.5 },
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject a missing region", () => {
+      const result = tagMediaRegionSchema.safeParse({
+        mediaId: "media-456",
+        personId: "person-123",
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("ID validation", () => {
+    it("should reject empty mediaId and personId", () => {
+      const region = { x: 0, y: 0, width: 0.5, height: 0.5 };
+      expect(
+        tagMediaRegionSchema.safeParse({
+          mediaId: "",
+          personId: "person-123",
+          region,
+        }).success
+      ).toBe(false);
+      expect(
+        tagMediaRegionSchema.safeParse({
+          mediaId: "media-456",
+          personId: "",
+          region,
+        }).success
+      ).toBe(false);
+    });
+  });
+});
+
+describe("mediaSizeLimitsSchema", () => {
+  const limits: MediaSizeLimitsInput = {
+    imageMb: 20,
+    documentMb: 20,
+    audioMb: 100,
+    videoMb: 200,
+  };
+
+  it("should validate limits for every kind of media", () => {
+    expect(mediaSizeLimitsSchema.safeParse(limits).success).toBe(true);
+  });
+
+  it("should reject limits below 1MB or above 500MB", () => {
+    expect(
+      mediaSizeLimitsSchema.safeParse({ ...limits, imageMb: 0 }).success
+    ).toBe(false);
+    expect(
+      mediaSizeLimitsSchema.safeParse({ ...limits, videoMb: 501 }).success
+    ).toBe(false);
+  });
+
+  it("should reject fractional and missing limits", () => {
+    expect(
+      mediaSizeLimitsSchema.safeParse({ ...limits, audioMb: 12.5 }).success
+    ).toBe(false);
+    expect(
+      mediaSizeLimitsSchema.safeParse({ imageMb: 20, documentMb: 20 }).success
+    ).toBe(false);
+  });
+});
+
+describe("attachMediaTranscriptSchema", () => {
+  it("should validate a transcript upload", () => {
+    const result = attachMediaTranscriptSchema.safeParse({
+      mediaId: "media-123",
+      mimeType: "text/vtt",
+      base64Data: "V0VCVlRU",
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("should reject a transcript without data", () => {
+    const result = attachMediaTranscriptSchema.safeParse({
+      mediaId: "media-123",
+      mimeType: "text/plain",
+      base64Data: "",
+    });
+    expect(result.success).toBe(false);
+  });
+});
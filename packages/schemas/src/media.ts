@@ -1,4 +1,5 @@
 import * as z from "zod";
+import { privacyLevelEnum } from "./person";
 
 export const mediaFormatEnum = z.enum([
   "JPEG",
@@ -29,6 +30,7 @@ export const mediaMetadataSchema = z.object({
   description: z.string().optional(),
   caption: z.string().optional(),
   source: z.string().optional(),
+  privacy: privacyLevelEnum.optional().nullable(),
 });
 
 export const mediaReorderSchema = z.object({
@@ -46,14 +48,69 @@ export const linkMediaToEventSchema = z.object({
   eventId: z.string().min(1, "Event ID is required"),
 });
 
+export const linkMediaToPlaceSchema = z.object({
+  mediaId: z.string().min(1, "Media ID is required"),
+  // Null removes the place from the media
+  placeId: z.string().min(1, "Place ID is required").nullable(),
+});
+
 export const setPrimaryPhotoSchema = z.object({
   personId: z.string().min(1, "Person ID is required"),
   mediaId: z.string().min(1, "Media ID is required"),
 });
 
+/**
+ * Rectangle of an image as fractions (0-1) of its width and height,
+ * measured from the top-left corner
+ */
+export const mediaRegionSchema = z
+  .object({
+    x: z.number().min(0).max(1),
+    y: z.number().min(0).max(1),
+    width: z.number().positive().max(1),
+    height: z.number().positive().max(1),
+  })
+  // Allow for floating point rounding at the right and bottom edges
+  .refine(
+    (region) =>
+      region.x + region.width <= 1 + 1e-9 &&
+      region.y + region.height <= 1 + 1e-9,
+    { message: "Region must lie within the image" }
+  );
+
+export const tagMediaRegionSchema = z.object({
+  mediaId: z.string().min(1, "Media ID is required"),
+  personId: z.string().min(1, "Person ID is required"),
+  // Null removes the tag but keeps the person linked to the media
+  region: mediaRegionSchema.nullable(),
+});
+
+/**
+ * Largest accepted upload per kind of media, in megabytes
+ */
+export const mediaSizeLimitsSchema = z.object({
+  imageMb: z.number().int().min(1).max(500),
+  documentMb: z.number().int().min(1).max(500),
+  audioMb: z.number().int().min(1).max(500),
+  videoMb: z.number().int().min(1).max(500),
+});
+
+export const attachMediaTranscriptSchema = z.object({
+  mediaId: z.string().min(1, "Media ID is required"),
+  mimeType: z.string().min(1, "MIME type is required"),
+  base64Data: z.string().min(1, "File data is required"),
+});
+
 export type MediaFormat = z.infer<typeof mediaFormatEnum>;
 export type MediaUploadInput = z.infer<typeof mediaUploadSchema>;
 export type MediaMetadataInput = z.infer<typeof mediaMetadataSchema>;
 export type MediaReorderInput = z.infer<typeof mediaReorderSchema>;
 export type LinkMediaToEventInput = z.infer<typeof linkMediaToEventSchema>;
+export type LinkMediaToPlaceInput = z.infer<typeof linkMediaToPlaceSchema>;
 export type SetPrimaryPhotoInput = z.infer<typeof setPrimaryPhotoSchema>;
+export type MediaRegion = z.infer<typeof mediaRegionSchema>;
+export type TagMediaRegionInput = z.infer<typeof tagMediaRegionSchema>;
+export type MediaSizeLimitsInput = z.infer<typeof mediaSizeLimitsSchema>;
+export type AttachMediaTranscriptInput = z.infer<
+  typeof attachMediaTranscriptSchema
+>;
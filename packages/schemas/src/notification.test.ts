@@ -0,0 +1,194 @@
+/**
+ * Unit Tests for Notification Schemas
+ * Tests Zod schema validation for push notification device registration
+ * the in-app inbox and notification preferences
+ */
+import { describe, expect, it } from "vitest";
+import {
+  devicePlatformEnum,
+  deviceTokenRegisterSchema,
+  markAllNotificationsReadSchema,
+  notificationPreferencesSchema,
+  notificationPreferencesUpdateSchema,
+  notificationTypeEnum,
+} from "./notification";
+
+describe("devicePlatformEnum", () => {
+  it("should accept all valid platforms", () => {
+    for (const platform of ["ios", "android", "web"]) {
+      expect(devicePlatformEnum.safeParse(platform).success).toBe(true);
+    }
+  });
+
+  it("should reject unknown platforms", () => {
+    expect(devicePlatformEnum.safeParse("windows").success).toBe(false);
+  });
+});
+
+describe("deviceTokenRegisterSchema", () => {
+  it("should accept a token with a device ID", () => {
+    const result = deviceTokenRegisterSchema.safeParse({
+      token: "ExponentPushToken[abc123]",
+      platform: "android",
+      deviceId: "device_1",
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it("should accept a serialized web push subscription without a device ID", () => {
+    const result = deviceTokenRegisterSchema.safeParse({
+      token: JSON.stringify({
+        endpoint: "https://push.example.com/send/abc",
+        keys: { p256dh: "BNc...", auth: "tBH..." },
+      }),
+      platform: "web",
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it("should reject an empty token", () => {
+    const result = deviceTokenRegisterSchema.safeParse({
+      token: "",
+      platform: "ios",
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("notificationTypeEnum", () => {
+  it("should accept inbox notification types", () => {
+    for (const type of [
+      "birthday_reminder",
+      "anniversary_reminder",
+      "new_member",
+      "suggestion_created",
+      "suggestion_reviewed",
+    ]) {
+      expect(notificationTypeEnum.safeParse(type).success).toBe(true);
+    }
+  });
+
+  it("should reject unknown types", () => {
+    expect(notificationTypeEnum.safeParse("anniversary").success).toBe(false);
+  });
+});
+
+describe("markAllNotificationsReadSchema", () => {
+  it("should accept an empty body", () => {
+    expect(markAllNotificationsReadSchema.safeParse({}).success).toBe(true);
+  });
+
+  it("should reject an unknown type filter", () => {
+    const result = markAllNotificationsReadSchema.safeParse({
+      type: "anniversary",
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("notificationPreferencesSchema", () => {
+  const instant = { email: "instant", push: "instant", inApp: "instant" };
+  const validPreferences = {
+    timezone: "Asia/Kolkata",
+    quietHours: { start: "22:00", end: "07:00" },
+    digestHour: 8,
+    weeklyDigestDay: 1,
+    types: {
+      suggestion_created: instant,
+      suggestion_reviewed: instant,
+      new_member: { email: "weekly", push: "off", inApp: "instant" },
+      birthday_reminder: { email: "daily", push: "instant", inApp: "instant" },
+      anniversary_reminder: instant,
+    },
+  };
+
+  it("should accept complete preferences", () => {
+    expect(
+      notificationPreferencesSchema.safeParse(validPreferences).success
+    ).toBe(true);
+  });
+
+  it("should accept preferences without quiet hours", () => {
+    const result = notificationPreferencesSchema.safeParse({
+      ...validPreferences,
+      quietHours: null,
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it("should reject an unknown timezone", () => {
+    const result = notificationPreferencesSchema.safeParse({
+      ...validPreferences,
+      timezone: "Mars/Olympus_Mons",
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it("should reject malformed quiet hours", () => {
+    const result = notificationPreferencesSchema.safeParse({
+      ...validPreferences,
+      quietHours: { start: "24:00", end: "7:00" },
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it("should reject an out-of-range digest hour", () => {
+    const result = notificationPreferencesSchema.safeParse({
+      ...validPreferences,
+      digestHour: 24,
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it("should reject an unknown frequency", () => {
+    const result = notificationPreferencesSchema.safeParse({
+      ...validPreferences,
+      types: {
+        ...validPreferences.types,
+        new_member: { email: "hourly", push: "off", inApp: "off" },
+      },
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("notificationPreferencesUpdateSchema", () => {
+  it("should accept an empty update", () => {
+    expect(notificationPreferencesUpdateSchema.safeParse({}).success).toBe(
+      true
+    );
+  });
+
+  it("should accept a single channel of a single type", () => {
+    const result = notificationPreferencesUpdateSchema.safeParse({
+      types: { birthday_reminder: { email: "weekly" } },
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it("should accept clearing quiet hours", () => {
+    const result = notificationPreferencesUpdateSchema.safeParse({
+      quietHours: null,
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it("should drop unknown notification types", () => {
+    const result = notificationPreferencesUpdateSchema.safeParse({
+      types: { general: { email: "off" } },
+    });
+
+    expect(result.data?.types).toEqual({});
+  });
+});
@@ -0,0 +1,217 @@
+import { z } from "@hono/zod-openapi";
+
+export const devicePlatformEnum = z.enum(["ios", "android", "web"]);
+
+export const deviceTokenRegisterSchema = z
+  .object({
+    token: z.string().min(1).max(4096).openapi({
+      description:
+        "Push token: an Expo push token, a native APNs or FCM token, or a JSON-serialized Web Push subscription",
+      example: "ExponentPushToken[xxxxxxxxxxxxxxxxxxxxxx]",
+    }),
+    platform: devicePlatformEnum.openapi({
+      description: "Device platform",
+      example: "ios",
+    }),
+    deviceId: z.string().min(1).max(255).optional().openapi({
+      description: "Stable identifier of the device, used to unregister it",
+      example: "device_123",
+    }),
+  })
+  .openapi({
+    description: "Device registration for push notifications",
+  });
+
+export type DevicePlatform = z.infer<typeof devicePlatformEnum>;
+export type DeviceTokenRegisterInput = z.infer<
+  typeof deviceTokenRegisterSchema
+>;
+
+export const notificationTypeEnum = z.enum([
+  "birthday_reminder",
+  "anniversary_reminder",
+  "new_member",
+  "relationship_suggestion",
+  "suggestion_created",
+  "suggestion_reviewed",
+  "collaboration_invite",
+  "general",
+]);
+
+export const inboxNotificationSchema = z
+  .object({
+    id: z.string().openapi({ example: "notification_123" }),
+    type: z.string().openapi({
+      description: "What the notification is about, e.g. birthday_reminder",
+      example: "birthday_reminder",
+    }),
+    title: z.string().openapi({ example: "Birthday today" }),
+    body: z.string().openapi({ example: "Today is Asha Rao's birthday." }),
+    data: z.record(z.string(), z.string()).openapi({
+      description:
+        "IDs of the affected records, e.g. personId or suggestionId, for deep links",
+      example: { personId: "person_123" },
+    }),
+    link: z.string().nullable().openapi({
+      description: "Web path of the affected person or suggestion",
+      example: "/people/person_123",
+    }),
+    readAt: z.string().nullable().openapi({
+      description: "When the notification was read (ISO 8601), or null",
+      example: null,
+    }),
+    createdAt: z.string().openapi({
+      description: "When the notification was created (ISO 8601)",
+      example: "2026-03-01T08:00:00.000Z",
+    }),
+  })
+  .openapi("InboxNotification");
+
+export const inboxListResponseSchema = z
+  .object({
+    items: z.array(inboxNotificationSchema),
+    nextCursor: z.string().nullable(),
+    hasMore: z.boolean(),
+    unreadCount: z.number().int().openapi({
+      description: "Unread notifications across the whole inbox",
+      example: 3,
+    }),
+  })
+  .openapi({
+    description: "Page of inbox notifications, newest first",
+  });
+
+export const markAllNotificationsReadSchema = z
+  .object({
+    type: notificationTypeEnum.optional().openapi({
+      description: "Only mark notifications of this type read",
+      example: "birthday_reminder",
+    }),
+  })
+  .openapi({
+    description: "Mark all unread notifications read",
+  });
+
+/**
+ * How often a notification type is delivered on one channel: as it happens,
+ * batched into a daily or weekly digest, or not at all
+ */
+export const notificationFrequencyEnum = z.enum([
+  "instant",
+  "daily",
+  "weekly",
+  "off",
+]);
+
+export const notificationChannelEnum = z.enum(["email", "push", "inApp"]);
+
+/** Notification types a user can configure */
+export const notificationPreferenceTypeEnum = z.enum([
+  "suggestion_created",
+  "suggestion_reviewed",
+  "new_member",
+  "birthday_reminder",
+  "anniversary_reminder",
+]);
+
+const timeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be HH:MM (24-hour)");
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const channelPreferencesSchema = z
+  .object({
+    email: notificationFrequencyEnum,
+    push: notificationFrequencyEnum,
+    inApp: notificationFrequencyEnum,
+  })
+  .openapi("NotificationChannelPreferences");
+
+export const quietHoursSchema = z
+  .object({
+    start: timeOfDaySchema.openapi({ example: "22:00" }),
+    end: timeOfDaySchema.openapi({ example: "07:00" }),
+  })
+  .openapi({
+    description:
+      "Local time window in which instant email and push are held back. May wrap past midnight.",
+  });
+
+export const notificationPreferencesSchema = z
+  .object({
+    timezone: z
+      .string()
+      .min(1)
+      .refine(isValidTimeZone, "Unknown timezone")
+      .openapi({
+        description: "IANA timezone used for quiet hours and digests",
+        example: "Asia/Kolkata",
+      }),
+    quietHours: quietHoursSchema.nullable(),
+    digestHour: z.number().int().min(0).max(23).openapi({
+      description: "Local hour at which daily and weekly digests are sent",
+      example: 8,
+    }),
+    weeklyDigestDay: z.number().int().min(0).max(6).openapi({
+      description: "Day of the week for the weekly digest (0 = Sunday)",
+      example: 1,
+    }),
+    types: z.object({
+      suggestion_created: channelPreferencesSchema,
+      suggestion_reviewed: channelPreferencesSchema,
+      new_member: channelPreferencesSchema,
+      birthday_reminder: channelPreferencesSchema,
+      anniversary_reminder: channelPreferencesSchema,
+    }),
+  })
+  .openapi("NotificationPreferences");
+
+export const notificationPreferencesUpdateSchema = z
+  .object({
+    timezone: notificationPreferencesSchema.shape.timezone.optional(),
+    quietHours: quietHoursSchema.nullable().optional(),
+    digestHour: notificationPreferencesSchema.shape.digestHour.optional(),
+    weeklyDigestDay:
+      notificationPreferencesSchema.shape.weeklyDigestDay.optional(),
+    types: z
+      .object({
+        suggestion_created: channelPreferencesSchema.partial(),
+        suggestion_reviewed: channelPreferencesSchema.partial(),
+        new_member: channelPreferencesSchema.partial(),
+        birthday_reminder: channelPreferencesSchema.partial(),
+        anniversary_reminder: channelPreferencesSchema.partial(),
+      })
+      .partial()
+      .optional(),
+  })
+  .openapi({
+    description:
+      "Partial notification preferences; omitted fields keep their current value",
+  });
+
+export type NotificationType = z.infer<typeof notificationTypeEnum>;
+export type InboxNotificationResponse = z.infer<typeof inboxNotificationSchema>;
+export type MarkAllNotificationsReadInput = z.infer<
+  typeof markAllNotificationsReadSchema
+>;
+export type NotificationFrequency = z.infer<typeof notificationFrequencyEnum>;
+export type NotificationChannel = z.infer<typeof notificationChannelEnum>;
+export type NotificationPreferenceType = z.infer<
+  typeof notificationPreferenceTypeEnum
+>;
+export type ChannelPreferences = z.infer<typeof channelPreferencesSchema>;
+export type QuietHours = z.infer<typeof quietHoursSchema>;
+export type NotificationPreferences = z.infer<
+  typeof notificationPreferencesSchema
+>;
+export type NotificationPreferencesUpdate = z.infer<
+  typeof notificationPreferencesUpdateSchema
+>;
@@ -4,6 +4,7 @@ import {
   genderEnum,
   personCreateSchema,
   personUpdateSchema,
+  privacyLevelEnum,
   socialLinksSchema,
 } from "./person";
 
@@ -139,6 +140,30 @@ describe("genderEnum", () => {
   });
 });
 
+describe("privacyLevelEnum", () => {
+  test("accepts all privacy levels", () => {
+    for (const level of ["PUBLIC", "MEMBERS_ONLY", "ADMIN_ONLY"]) {
+      expect(privacyLevelEnum.safeParse(level).success).toBe(true);
+    }
+  });
+
+  test("rejects unknown privacy level", () => {
+    expect(privacyLevelEnum.safeParse("FRIENDS").success).toBe(false);
+  });
+
+  test("is optional and nullable on personCreateSchema", () => {
+    const base = { firstName: "John", lastName: "Doe" };
+
+    expect(personCreateSchema.safeParse(base).success).toBe(true);
+    expect(
+      personCreateSchema.safeParse({ ...base, privacy: null }).success
+    ).toBe(true);
+    expect(
+      personCreateSchema.safeParse({ ...base, privacy: "ADMIN_ONLY" }).success
+    ).toBe(true);
+  });
+});
+
 describe("addressSchema", () => {
   test("validates valid address", () => {
     const address = {
@@ -1,5 +1,6 @@
 import { z } from "@hono/zod-openapi";
 import { parseDateString } from "@vamsa/lib";
+import { genealogicalDateSchema } from "./genealogical-date";
 
 export const genderEnum = z.enum([
   "MALE",
@@ -8,6 +9,12 @@ export const genderEnum = z.enum([
   "PREFER_NOT_TO_SAY",
 ]);
 
+export const privacyLevelEnum = z.enum([
+  "PUBLIC",
+  "MEMBERS_ONLY",
+  "ADMIN_ONLY",
+]);
+
 export const addressSchema = z
   .object({
     street: z.string().optional(),
@@ -52,6 +59,14 @@ export const personCreateSchema = z
     maidenName: z.string().optional(),
     dateOfBirth: dateSchema.optional().nullable(),
     dateOfPassing: dateSchema.optional().nullable(),
+    dateOfBirthDetail: genealogicalDateSchema.optional().nullable().openapi({
+      description:
+        "Approximate or partial birth date. When set, dateOfBirth is derived from it.",
+    }),
+    dateOfPassingDetail: genealogicalDateSchema.optional().nullable().openapi({
+      description:
+        "Approximate or partial date of passing. When set, dateOfPassing is derived from it.",
+    }),
     birthPlace: z.string().optional(),
     nativePlace: z.string().optional(),
     gender: genderEnum.optional().nullable(),
@@ -64,6 +79,10 @@ export const personCreateSchema = z
     employer: z.string().optional(),
     socialLinks: socialLinksSchema.optional().nullable(),
     isLiving: z.boolean().default(true),
+    privacy: privacyLevelEnum.optional().nullable().openapi({
+      description:
+        "Who may see this person's details. Null inherits the family default.",
+    }),
   })
   .openapi({
     description: "Person creation data",
@@ -76,5 +95,6 @@ export type PersonCreateFormInput = z.input<typeof personCreateSchema>;
 export type PersonUpdateInput = z.infer<typeof personUpdateSchema>;
 export type PersonUpdateFormInput = z.input<typeof personUpdateSchema>;
 export type Gender = z.infer<typeof genderEnum>;
+export type PrivacyLevel = z.infer<typeof privacyLevelEnum>;
 export type Address = z.infer<typeof addressSchema>;
 export type SocialLinks = z.infer<typeof socialLinksSchema>;
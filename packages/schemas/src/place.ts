@@ -47,8 +47,7 @@ export const placeCreateSchema = z.object({
   alternativeNames?: Array<string> | null;
 }>;
 
-export const placeUpdateSchema = z.object({
-  id: z.string().min(1, "Place ID is required"),
+const placeUpdateFields = {
   name: z.string().min(1, "Place name is required").max(255).optional(),
   placeType: placeTypeEnum.optional(),
   latitude: z.number().min(-90).max(90).optional().nullable(),
@@ -60,6 +59,11 @@ export const placeUpdateSchema = z.object({
     .optional()
     .nullable()
     .transform((val) => (val && val.length > 0 ? val : null)),
+};
+
+export const placeUpdateSchema = z.object({
+  id: z.string().min(1, "Place ID is required"),
+  ...placeUpdateFields,
 }) as z.ZodType<{
   id: string;
   name?: string;
@@ -71,6 +75,13 @@ export const placeUpdateSchema = z.object({
   alternativeNames?: Array<string> | null;
 }>;
 
+/**
+ * Place update without the ID, for REST routes that take it from the path
+ */
+export const placeUpdateBodySchema = z.object(placeUpdateFields) as z.ZodType<
+  Omit<PlaceUpdateInput, "id">
+>;
+
 export const placePersonLinkCreateSchema = z.object({
   personId: z.string().min(1, "Person ID is required"),
   placeId: z.string().min(1, "Place ID is required"),
@@ -1,5 +1,6 @@
 import { describe, expect, test } from "vitest";
 import {
+  parentPedigreeEnum,
   relationshipCreateSchema,
   relationshipTypeEnum,
   relationshipUpdateSchema,
@@ -676,3 +677,73 @@ describe("PersonId and RelatedPersonId Format", () => {
     expect(result.success).toBe(true);
   });
 });
+
+describe("Pedigree and partnerships", () => {
+  test.each(["PARTNER", "GODPARENT", "GODCHILD"])(
+    "accepts %s relationship type",
+    (type) => {
+      expect(relationshipTypeEnum.safeParse(type).success).toBe(true);
+    }
+  );
+
+  test.each(["BIRTH", "ADOPTED", "FOSTER", "GUARDIAN", "SEALED"])(
+    "accepts %s pedigree",
+    (pedigree) => {
+      expect(parentPedigreeEnum.safeParse(pedigree).success).toBe(true);
+    }
+  );
+
+  test("rejects unknown pedigree", () => {
+    expect(parentPedigreeEnum.safeParse("STEP").success).toBe(false);
+  });
+
+  test("accepts a pedigree on a parent relationship", () => {
+    const result = relationshipCreateSchema.safeParse({
+      personId: "child-id",
+      relatedPersonId: "parent-id",
+      type: "PARENT",
+      pedigree: "ADOPTED",
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.pedigree).toBe("ADOPTED");
+    }
+  });
+
+  test("rejects a pedigree on a spouse relationship", () => {
+    const result = relationshipCreateSchema.safeParse({
+      personId: "person-1",
+      relatedPersonId: "person-2",
+      type: "SPOUSE",
+      pedigree: "ADOPTED",
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].path).toEqual(["pedigree"]);
+    }
+  });
+
+  test("transforms partnership start and end dates", () => {
+    const result = relationshipCreateSchema.safeParse({
+      personId: "person-1",
+      relatedPersonId: "person-2",
+      type: "PARTNER",
+      startDate: "2015-03-01",
+      endDate: "2021-09-30",
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.startDate).toBeInstanceOf(Date);
+      expect(result.data.endDate).toBeInstanceOf(Date);
+    }
+  });
+
+  test("allows a pedigree-only update", () => {
+    const result = relationshipUpdateSchema.safeParse({ pedigree: "FOSTER" });
+
+    expect(result.success).toBe(true);
+  });
+});
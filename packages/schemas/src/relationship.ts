@@ -6,6 +6,21 @@ export const relationshipTypeEnum = z.enum([
   "CHILD",
   "SPOUSE",
   "SIBLING",
+  "PARTNER",
+  "GODPARENT",
+  "GODCHILD",
+]);
+
+/**
+ * How a parent is related to a child: by birth, adoption, foster care,
+ * legal guardianship or an LDS sealing
+ */
+export const parentPedigreeEnum = z.enum([
+  "BIRTH",
+  "ADOPTED",
+  "FOSTER",
+  "GUARDIAN",
+  "SEALED",
 ]);
 
 const dateSchema = z
@@ -21,21 +36,33 @@ const dateSchema = z
     description: "Date in ISO format (YYYY-MM-DD) or Date object",
   });
 
-export const relationshipCreateSchema = z
-  .object({
-    personId: z.string().min(1, "Person is required"),
-    relatedPersonId: z.string().min(1, "Related person is required"),
-    type: relationshipTypeEnum,
-    marriageDate: dateSchema.optional().nullable(),
-    divorceDate: dateSchema.optional().nullable(),
-    isActive: z.boolean().optional().default(true),
-  })
+const relationshipFields = z.object({
+  personId: z.string().min(1, "Person is required"),
+  relatedPersonId: z.string().min(1, "Related person is required"),
+  type: relationshipTypeEnum,
+  marriageDate: dateSchema.optional().nullable(),
+  divorceDate: dateSchema.optional().nullable(),
+  pedigree: parentPedigreeEnum.optional().nullable(),
+  startDate: dateSchema.optional().nullable(),
+  endDate: dateSchema.optional().nullable(),
+  isActive: z.boolean().optional().default(true),
+});
+
+export const relationshipCreateSchema = relationshipFields
+  .refine(
+    (data) => !data.pedigree || data.type === "PARENT" || data.type === "CHILD",
+    {
+      message: "Pedigree only applies to parent and child relationships",
+      path: ["pedigree"],
+    }
+  )
   .openapi({
     description: "Relationship creation data",
   });
 
-export const relationshipUpdateSchema = relationshipCreateSchema.partial();
+export const relationshipUpdateSchema = relationshipFields.partial();
 
 export type RelationshipType = z.infer<typeof relationshipTypeEnum>;
+export type ParentPedigree = z.infer<typeof parentPedigreeEnum>;
 export type RelationshipCreateInput = z.input<typeof relationshipCreateSchema>;
 export type RelationshipUpdateInput = z.infer<typeof relationshipUpdateSchema>;
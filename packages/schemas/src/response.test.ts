@@ -8,11 +8,13 @@ import {
   errorResponseSchema,
   paginatedResponseSchema,
   paginationMetadataSchema,
+  pendingApprovalResponseSchema,
   successResponseSchema,
 } from "./response";
 import type {
   ErrorResponse,
   PaginationMetadata,
+  PendingApprovalResponse,
   SuccessResponse,
 } from "./response";
 
@@ -463,6 +465,33 @@ describe("successResponseSchema", () => {
   });
 });
 
+describe("pendingApprovalResponseSchema", () => {
+  it("should validate a pending approval response", () => {
+    const pending: PendingApprovalResponse = {
+      pendingApproval: true,
+      suggestionId: "suggestion_123",
+    };
+
+    const result = pendingApprovalResponseSchema.safeParse(pending);
+    expect(result.success).toBe(true);
+  });
+
+  it("should reject pendingApproval set to false", () => {
+    const result = pendingApprovalResponseSchema.safeParse({
+      pendingApproval: false,
+      suggestionId: "suggestion_123",
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it("should reject missing suggestionId", () => {
+    const result = pendingApprovalResponseSchema.safeParse({
+      pendingApproval: true,
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
 describe("paginationMetadataSchema", () => {
   describe("Valid inputs", () => {
     it("should validate pagination metadata with all fields", () => {
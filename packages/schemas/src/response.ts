@@ -25,6 +25,19 @@ export const successResponseSchema = z
     description: "Success response",
   });
 
+/**
+ * Response for an edit submitted for review instead of applied, while
+ * family settings require approval for edits
+ */
+export const pendingApprovalResponseSchema = z
+  .object({
+    pendingApproval: z.literal(true),
+    suggestionId: z.string(),
+  })
+  .openapi({
+    description: "Edit submitted for review",
+  });
+
 /**
  * Pagination metadata
  */
@@ -57,4 +70,7 @@ export function paginatedResponseSchema<T extends z.ZodTypeAny>(itemSchema: T) {
 
 export type ErrorResponse = z.infer<typeof errorResponseSchema>;
 export type SuccessResponse = z.infer<typeof successResponseSchema>;
+export type PendingApprovalResponse = z.infer<
+  typeof pendingApprovalResponseSchema
+>;
 export type PaginationMetadata = z.infer<typeof paginationMetadataSchema>;
@@ -55,7 +55,8 @@ export const sourceCreateSchema = z.object({
   isbn: isbnValidator,
   callNumber: z.string().optional(),
   accessDate: z
-    .union([z.string(), z.date(), z.null(), z.undefined()])
+    .union([z.string(), z.date()])
+    .nullish()
     .transform((val) => {
       if (!val) return null;
       if (val instanceof Date) return val;
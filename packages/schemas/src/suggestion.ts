@@ -5,6 +5,25 @@ export const suggestionTypeEnum = z.enum([
   "UPDATE",
   "DELETE",
   "ADD_RELATIONSHIP",
+  "UPDATE_RELATIONSHIP",
+  "DELETE_RELATIONSHIP",
+  "CREATE_EVENT",
+  "UPDATE_EVENT",
+  "DELETE_EVENT",
+  "ADD_EVENT_PARTICIPANT",
+  "REMOVE_EVENT_PARTICIPANT",
+  "LINK_PLACE",
+  "UPDATE_PLACE_LINK",
+  "UNLINK_PLACE",
+  "UPDATE_MEDIA",
+  "DELETE_MEDIA",
+  "SET_PRIMARY_PHOTO",
+  "UPLOAD_MEDIA",
+  "REORDER_MEDIA",
+  "LINK_MEDIA_TO_EVENT",
+  "TAG_MEDIA_REGION",
+  "ATTACH_MEDIA_TRANSCRIPT",
+  "REMOVE_MEDIA_TRANSCRIPT",
 ]);
 
 export const suggestionStatusEnum = z.enum(["PENDING", "APPROVED", "REJECTED"]);
@@ -0,0 +1,84 @@
+/**
+ * Unit Tests for Webhook Schemas
+ * Tests Zod schema validation for webhook events, creation and updates
+ */
+import { describe, expect, it } from "vitest";
+import {
+  webhookCreateSchema,
+  webhookEventEnum,
+  webhookUpdateSchema,
+} from "./webhook";
+
+describe("webhookEventEnum", () => {
+  it("should accept subscribable events", () => {
+    for (const event of [
+      "person.created",
+      "relationship.deleted",
+      "media.uploaded",
+      "suggestion.reviewed",
+      "backup.completed",
+    ]) {
+      expect(webhookEventEnum.safeParse(event).success).toBe(true);
+    }
+  });
+
+  it("should not allow subscribing to the test event", () => {
+    expect(webhookEventEnum.safeParse("webhook.test").success).toBe(false);
+  });
+});
+
+describe("webhookCreateSchema", () => {
+  it("should accept an http(s) URL and deduplicate events", () => {
+    const result = webhookCreateSchema.parse({
+      url: " https://wiki.example.com/hooks ",
+      events: ["person.created", "person.created", "media.uploaded"],
+    });
+
+    expect(result.url).toBe("https://wiki.example.com/hooks");
+    expect(result.events).toEqual(["person.created", "media.uploaded"]);
+  });
+
+  it("should allow plain http for endpoints on a private network", () => {
+    expect(
+      webhookCreateSchema.safeParse({
+        url: "http://192.168.1.20:8080/frame",
+        events: ["media.uploaded"],
+      }).success
+    ).toBe(true);
+  });
+
+  it("should reject other URL schemes", () => {
+    expect(
+      webhookCreateSchema.safeParse({
+        url: "ftp://example.com/hooks",
+        events: ["person.created"],
+      }).success
+    ).toBe(false);
+  });
+
+  it("should require at least one event", () => {
+    expect(
+      webhookCreateSchema.safeParse({
+        url: "https://example.com/hooks",
+        events: [],
+      }).success
+    ).toBe(false);
+  });
+});
+
+describe("webhookUpdateSchema", () => {
+  it("should allow partial updates", () => {
+    const result = webhookUpdateSchema.parse({ id: "hook-1", isActive: false });
+
+    expect(result).toEqual({ id: "hook-1", isActive: false });
+  });
+
+  it("should allow clearing the description", () => {
+    const result = webhookUpdateSchema.parse({
+      id: "hook-1",
+      description: null,
+    });
+
+    expect(result.description).toBeNull();
+  });
+});
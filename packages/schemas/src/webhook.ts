@@ -0,0 +1,72 @@
+import { z } from "@hono/zod-openapi";
+
+/**
+ * Events a webhook endpoint can subscribe to
+ */
+export const webhookEventEnum = z.enum([
+  "person.created",
+  "person.updated",
+  "person.deleted",
+  "relationship.created",
+  "relationship.updated",
+  "relationship.deleted",
+  "media.uploaded",
+  "suggestion.reviewed",
+  "backup.completed",
+]);
+
+/** Event sent by the "send test" action; endpoints always receive it */
+export const WEBHOOK_TEST_EVENT = "webhook.test";
+
+const webhookUrlSchema = z
+  .string()
+  .trim()
+  .url()
+  .max(2048)
+  .refine((url) => /^https?:\/\//i.test(url), {
+    message: "URL must start with http:// or https://",
+  })
+  .openapi({
+    description: "Endpoint that receives the POST requests",
+    example: "https://wiki.example.com/hooks/vamsa",
+  });
+
+export const webhookCreateSchema = z
+  .object({
+    url: webhookUrlSchema,
+    description: z.string().trim().max(255).optional().openapi({
+      description: "What the endpoint is for",
+      example: "Family wiki sync",
+    }),
+    events: z
+      .array(webhookEventEnum)
+      .min(1)
+      .transform((events) => [...new Set(events)])
+      .openapi({
+        description: "Events sent to the endpoint",
+        example: ["person.created", "person.updated"],
+      }),
+  })
+  .openapi({
+    description: "Webhook endpoint creation",
+  });
+
+export const webhookUpdateSchema = z
+  .object({
+    id: z.string().min(1),
+    url: webhookUrlSchema.optional(),
+    description: z.string().trim().max(255).nullable().optional(),
+    events: z
+      .array(webhookEventEnum)
+      .min(1)
+      .transform((events) => [...new Set(events)])
+      .optional(),
+    isActive: z.boolean().optional(),
+  })
+  .openapi({
+    description: "Webhook endpoint update",
+  });
+
+export type WebhookEvent = z.infer<typeof webhookEventEnum>;
+export type WebhookCreateInput = z.input<typeof webhookCreateSchema>;
+export type WebhookUpdateInput = z.input<typeof webhookUpdateSchema>;
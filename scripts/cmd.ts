@@ -53,6 +53,10 @@ const COMMANDS: Record<string, Record<string, CommandDef>> = {
     "migrate-dry-run": { cmd: ["bun", "scripts/migrate-dry-run.ts"] },
     restore: { cmd: ["bun", "scripts/restore-database.ts"] },
     "restore-list": { cmd: ["bun", "scripts/restore-database.ts", "--list"] },
+    "migrate-media-s3": {
+      cmd: ["bun", "run", "--filter", "@vamsa/api", "media:migrate-s3"],
+    },
+    copy: { cmd: ["bun", "run", "--filter", "@vamsa/api", "db:copy"] },
   },
   docker: {
     up: {